@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+const CLI = path.join(import.meta.dirname, 'cli.ts');
+
+function run(args: string[], input?: string | Buffer) {
+  const result = spawnSync(process.execPath, ['--import', 'tsx', CLI, ...args], { input, timeout: 60_000 });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr.toString('utf8') };
+}
+
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'ggdove-cli-'));
+}
+
+test('converts stdin to hex and back', () => {
+  const encoded = run(['--from', 'utf8', '--to', 'hex'], '中文\n字');
+  assert.equal(encoded.status, 0);
+  assert.equal(encoded.stdout.toString('utf8'), 'A4A4★A4E5\nA672');
+  const decoded = run(['--from', 'hex', '--to', 'utf8'], 'A4A4★A4E5\nA672');
+  assert.equal(decoded.status, 0);
+  assert.equal(decoded.stdout.toString('utf8'), '中文\n字');
+});
+
+test('round-trips Big5 bytes through stdin', () => {
+  const big5 = run(['--from', 'utf8', '--to', 'big5'], '中文 Big5');
+  assert.equal(big5.status, 0);
+  assert.deepEqual([...big5.stdout.subarray(0, 4)], [0xa4, 0xa4, 0xa4, 0xe5]);
+  const utf8 = run(['--from', 'big5', '--to', 'utf8'], big5.stdout);
+  assert.equal(utf8.stdout.toString('utf8'), '中文 Big5');
+});
+
+test('reports unmapped characters as stdin:line:column and exits with 1', () => {
+  const { status, stderr } = run(['--from', 'utf8', '--to', 'hex'], '中文\n字😀');
+  assert.equal(status, 1);
+  assert.match(stderr, /^<stdin>:2:2: U\+1F600 '😀' has no Big5 mapping$/m);
+});
+
+test('reports the character column of bad hex tokens', () => {
+  const { status, stderr } = run(['--from', 'hex', '--to', 'utf8'], 'A4A4★ZZZZ\nA4A4★A4A4★XY');
+  assert.equal(status, 1);
+  assert.match(stderr, /^<stdin>:1:6: malformed token "ZZZZ"$/m);
+  assert.match(stderr, /^<stdin>:2:11: malformed token "XY"$/m);
+});
+
+test('converts a directory tree into --out-dir', () => {
+  const root = tempDir();
+  try {
+    const input = path.join(root, 'in');
+    const output = path.join(root, 'out');
+    fs.mkdirSync(path.join(input, 'nested'), { recursive: true });
+    fs.writeFileSync(path.join(input, 'a.txt'), '中文');
+    fs.writeFileSync(path.join(input, 'nested', 'b.txt'), '字😀');
+    fs.writeFileSync(path.join(input, 'nested', 'skip.md'), '略過');
+
+    const { status, stderr } = run(['--from', 'utf8', '--to', 'big5', '-r', input, '--out-dir', output, '--ext', '.txt']);
+    assert.equal(status, 1);
+    assert.deepEqual([...fs.readFileSync(path.join(output, 'a.txt'))], [0xa4, 0xa4, 0xa4, 0xe5]);
+    assert.deepEqual([...fs.readFileSync(path.join(output, 'nested', 'b.txt'))], [0xa6, 0x72, 0x3f]);
+    assert.equal(fs.existsSync(path.join(output, 'nested', 'skip.md')), false);
+    assert.ok(stderr.includes(`${path.join(input, 'nested', 'b.txt')}:1:2: U+1F600`));
+    assert.match(stderr, /1 issue\(s\) in 2 file\(s\)/);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test('usage errors exit with 2', () => {
+  for (const args of [
+    ['--separator', 'constructor'],
+    ['--separator', 'toString'],
+    ['--from', 'hex', '--to', 'hex'],
+    ['--variant', 'big5-xx'],
+  ]) {
+    const { status, stderr } = run(args, '');
+    assert.equal(status, 2, args.join(' '));
+    assert.match(stderr, /Usage:/);
+  }
+});
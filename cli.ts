@@ -0,0 +1,272 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import {
+  BIG5_VARIANTS,
+  DEFAULT_VARIANT,
+  CODE_NOTATIONS,
+  SEPARATOR_IDS,
+  DEFAULT_FORMAT,
+  encode,
+  decode,
+  encodeBytes,
+  decodeBytes,
+  type Big5Variant,
+  type CodeNotation,
+  type OutputFormat,
+  type SeparatorId,
+  type UnmappedChar,
+} from './src/codec';
+
+// ─── 命令列轉換工具 ───────────────────────────────────────────────────────────
+//
+//  npx tsx cli.ts --from utf8 --to hex < in.txt
+//  npx tsx cli.ts --from utf8 --to big5 -r docs --out-dir build/big5
+//
+//  有任何無法轉換的字或位元組時以 1 結束，並在 stderr 列出 檔案:行:欄。
+//
+const USAGE = `Usage: tsx cli.ts --from <utf8|big5|hex> --to <utf8|big5|hex> [options] [files...]
+
+Reads stdin when no files are given and writes to stdout unless --out-dir is set.
+
+Options:
+  --from <encoding>       input encoding (default: utf8)
+  --to <encoding>         output encoding (default: hex)
+  --variant <name>        Big5 table: ${BIG5_VARIANTS.join(', ')} (default: ${DEFAULT_VARIANT})
+  -r, --recursive         convert every file under the given directories
+  -o, --out-dir <dir>     write converted files here, mirroring the input layout
+  --ext <.ext>            with --recursive, only convert files with this extension
+  --notation <name>       hex notation: ${CODE_NOTATIONS.join(', ')} (default: hex)
+  --separator <name>      hex separator: ${SEPARATOR_IDS.join(', ')} (default: star)
+  --lowercase             lowercase hex digits
+  --annotate              append (字) after each hex code
+  --replacement <char>    Big5 output: substitute for unmappable characters (default: ?)
+  -h, --help              show this help`;
+
+type Encoding = 'utf8' | 'big5' | 'hex';
+
+const ENCODINGS: Encoding[] = ['utf8', 'big5', 'hex'];
+
+interface Options {
+  from: Encoding;
+  to: Encoding;
+  variant: Big5Variant;
+  format: OutputFormat;
+  replacement: string;
+}
+
+interface Issue {
+  line: number;
+  column: number;
+  message: string;
+}
+
+class UsageError extends Error {}
+
+function parseEncoding(value: string, flag: string): Encoding {
+  if (!ENCODINGS.includes(value as Encoding)) {
+    throw new UsageError(`${flag} must be one of ${ENCODINGS.join(', ')}`);
+  }
+  return value as Encoding;
+}
+
+function describeChar(char: string): string {
+  const cp = char.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0');
+  return /\s/.test(char) ? `U+${cp}` : `U+${cp} '${char}'`;
+}
+
+// 文字位移 → 行/欄（欄以字計，與 UnmappedChar 相同）
+function textLocation(text: string, offset: number): { line: number; column: number } {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+  const line = text.slice(0, lineStart).split('\n').length;
+  return { line, column: [...text.slice(lineStart, offset)].length + 1 };
+}
+
+// 位元組位移 → 行/欄（欄以位元組計）
+function byteLocation(bytes: Uint8Array, offset: number): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < offset; i++) {
+    if (bytes[i] === 0x0a) {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1 };
+}
+
+function readText(input: Buffer, options: Options, issues: Issue[]): string {
+  if (options.from === 'utf8') return input.toString('utf8');
+
+  if (options.from === 'big5') {
+    const bytes = new Uint8Array(input);
+    const { text, errors } = decodeBytes(bytes, options.variant);
+    for (const { offset, bytes: seq, reason } of errors) {
+      const hex = seq.map(b => b.toString(16).toUpperCase().padStart(2, '0')).join(' ');
+      issues.push({ ...byteLocation(bytes, offset), message: `${reason} byte sequence ${hex} at offset ${offset}` });
+    }
+    return text;
+  }
+
+  // token 依序出現在輸入中，逐一往後找出各自的位置；JSON 經過重新排版時找不到，改標第幾項
+  const source = input.toString('utf8');
+  const { lines, text } = decode(source, options.format, options.variant);
+  let cursor = 0;
+  let item = 0;
+  for (const { token, status } of lines.flat()) {
+    item++;
+    const found = source.indexOf(token, cursor);
+    if (found >= 0) cursor = found + token.length;
+    if (status === 'ok') continue;
+    const message = `${status} token "${token}"`;
+    issues.push({
+      ...textLocation(source, found >= 0 ? found : cursor),
+      message: found >= 0 ? message : `${message} (item ${item})`,
+    });
+  }
+  return text;
+}
+
+function addUnmapped(unmapped: UnmappedChar[], issues: Issue[]): void {
+  for (const { char, line, column } of unmapped) {
+    issues.push({ line, column, message: `${describeChar(char)} has no Big5 mapping` });
+  }
+}
+
+function writeText(text: string, options: Options, issues: Issue[]): Buffer {
+  if (options.to === 'utf8') return Buffer.from(text, 'utf8');
+
+  if (options.to === 'big5') {
+    const { bytes, unmapped } = encodeBytes(text, { replacement: options.replacement }, options.variant);
+    addUnmapped(unmapped, issues);
+    return Buffer.from(bytes);
+  }
+
+  const { text: hex, unmapped } = encode(text, options.format, options.variant);
+  addUnmapped(unmapped, issues);
+  return Buffer.from(hex, 'utf8');
+}
+
+function convert(input: Buffer, options: Options, issues: Issue[]): Buffer {
+  return writeText(readText(input, options, issues), options, issues);
+}
+
+function collectFiles(target: string, ext: string | undefined): string[] {
+  return fs
+    .readdirSync(target, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(entry => {
+      const full = path.join(target, entry.name);
+      if (entry.isDirectory()) return collectFiles(full, ext);
+      return entry.isFile() && (!ext || entry.name.endsWith(ext)) ? [full] : [];
+    });
+}
+
+function report(label: string, issues: Issue[]): void {
+  for (const { line, column, message } of issues) {
+    console.error(`${label}:${line}:${column}: ${message}`);
+  }
+}
+
+function main(argv: string[]): number {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      from: { type: 'string', default: 'utf8' },
+      to: { type: 'string', default: 'hex' },
+      variant: { type: 'string', default: DEFAULT_VARIANT },
+      recursive: { type: 'boolean', short: 'r', default: false },
+      'out-dir': { type: 'string', short: 'o' },
+      ext: { type: 'string' },
+      notation: { type: 'string', default: DEFAULT_FORMAT.notation },
+      separator: { type: 'string', default: DEFAULT_FORMAT.separator },
+      lowercase: { type: 'boolean', default: false },
+      annotate: { type: 'boolean', default: false },
+      replacement: { type: 'string', default: '?' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!BIG5_VARIANTS.includes(values.variant as Big5Variant)) {
+    throw new UsageError(`--variant must be one of ${BIG5_VARIANTS.join(', ')}`);
+  }
+  if (!CODE_NOTATIONS.includes(values.notation as CodeNotation)) {
+    throw new UsageError(`--notation must be one of ${CODE_NOTATIONS.join(', ')}`);
+  }
+  if (!SEPARATOR_IDS.includes(values.separator as SeparatorId)) {
+    throw new UsageError(`--separator must be one of ${SEPARATOR_IDS.join(', ')}`);
+  }
+
+  const options: Options = {
+    from: parseEncoding(values.from, '--from'),
+    to: parseEncoding(values.to, '--to'),
+    variant: values.variant as Big5Variant,
+    format: {
+      notation: values.notation as CodeNotation,
+      separator: values.separator as SeparatorId,
+      lowercase: values.lowercase,
+      annotate: values.annotate,
+    },
+    replacement: values.replacement,
+  };
+  if (options.from === options.to) {
+    throw new UsageError('--from and --to must differ');
+  }
+  if (options.to === 'big5') {
+    // 提早驗證 replacement 可編碼
+    encodeBytes('', { replacement: options.replacement }, options.variant);
+  }
+
+  const outDir = values['out-dir'];
+  let issueCount = 0;
+
+  if (positionals.length === 0) {
+    if (outDir) throw new UsageError('--out-dir requires input files');
+    const issues: Issue[] = [];
+    const output = convert(fs.readFileSync(0), options, issues);
+    process.stdout.write(output);
+    report('<stdin>', issues);
+    return issues.length ? 1 : 0;
+  }
+
+  // 每個輸入檔與其相對於輸入根目錄的路徑
+  const files = positionals.flatMap(target => {
+    if (fs.statSync(target).isDirectory()) {
+      if (!values.recursive) throw new UsageError(`${target} is a directory (use --recursive)`);
+      return collectFiles(target, values.ext).map(file => ({ file, relative: path.relative(target, file) }));
+    }
+    return [{ file: target, relative: path.basename(target) }];
+  });
+  if (files.length > 1 && !outDir) {
+    throw new UsageError('--out-dir is required when converting more than one file');
+  }
+
+  for (const { file, relative } of files) {
+    const issues: Issue[] = [];
+    const output = convert(fs.readFileSync(file), options, issues);
+    if (outDir) {
+      const target = path.join(outDir, relative);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, output);
+    } else {
+      process.stdout.write(output);
+    }
+    report(file, issues);
+    issueCount += issues.length;
+  }
+
+  if (issueCount) console.error(`${issueCount} issue(s) in ${files.length} file(s)`);
+  return issueCount ? 1 : 0;
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (error) {
+  console.error(error instanceof UsageError ? `${error.message}\n\n${USAGE}` : (error as Error).message);
+  process.exitCode = 2;
+}
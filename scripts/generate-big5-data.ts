@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// ─── 對照表產生器 ─────────────────────────────────────────────────────────────
+//
+//  讀取 data/ 下各編碼變體的對照表文字檔（每行「Unicode 碼位  Big5 碼」，# 之後為註解），
+//  打包成 BIG5_DATA：依碼位排序，每筆 5 bytes（碼位 3 bytes + Big5 碼 2 bytes），
+//  再以 base64 寫入 src/ 下對應的資料檔，並附上來源與打包後資料的 SHA-256。
+//
+//  npm run generate:table
+//
+
+const __filename = fileURLToPath(import.meta.url);
+const ROOT = path.resolve(path.dirname(__filename), '..');
+
+interface TableSource {
+  file: string;
+  label: string;
+  url: string;
+  output: string;
+}
+
+const TABLES: TableSource[] = [
+  {
+    file: 'data/cp950-u2b.txt',
+    label: 'moztw.org (CP950)',
+    url: 'https://moztw.org/docs/big5/table/cp950-u2b.txt',
+    output: 'src/big5-data.ts',
+  },
+  {
+    file: 'data/big5-2003-u2b.txt',
+    label: 'GNU libiconv (BIG5-2003)',
+    url: 'https://www.gnu.org/software/libiconv/',
+    output: 'src/big5-2003-data.ts',
+  },
+  {
+    file: 'data/big5-hkscs-u2b.txt',
+    label: 'GNU libiconv (BIG5-HKSCS:2008)',
+    url: 'https://www.gnu.org/software/libiconv/',
+    output: 'src/big5-hkscs-data.ts',
+  },
+  {
+    file: 'data/big5-uao-u2b.txt',
+    label: 'moztw.org (UAO 2.50)',
+    url: 'https://moztw.org/docs/big5/table/uao250-u2b.txt',
+    output: 'src/big5-uao-data.ts',
+  },
+];
+
+function parseMappingText(text: string, file: string): [number, number][] {
+  const entries = new Map<number, number>();
+  text.split('\n').forEach((rawLine, i) => {
+    const line = rawLine.replace(/#.*/, '').trim();
+    if (!line) return;
+    const match = /^0x([0-9A-Fa-f]{1,6})\s+0x([0-9A-Fa-f]{1,4})$/.exec(line);
+    if (!match) throw new Error(`${file}:${i + 1}: cannot parse "${rawLine}"`);
+    const cp = parseInt(match[1], 16);
+    const big5 = parseInt(match[2], 16);
+    if (big5 >= 0x100 && big5 >> 8 < 0x81) {
+      throw new Error(`${file}:${i + 1}: 0x${match[2]} is not a valid Big5 code`);
+    }
+    if (entries.has(cp)) throw new Error(`${file}:${i + 1}: duplicate code point U+${match[1]}`);
+    entries.set(cp, big5);
+  });
+  return [...entries].sort(([a], [b]) => a - b);
+}
+
+function pack(entries: [number, number][]): Buffer {
+  const packed = Buffer.alloc(entries.length * 5);
+  entries.forEach(([cp, big5], i) => {
+    const o = i * 5;
+    packed[o] = cp >> 16;
+    packed[o + 1] = (cp >> 8) & 0xff;
+    packed[o + 2] = cp & 0xff;
+    packed[o + 3] = big5 >> 8;
+    packed[o + 4] = big5 & 0xff;
+  });
+  return packed;
+}
+
+function generate({ file, label, url, output }: TableSource): void {
+  const entries = parseMappingText(fs.readFileSync(path.join(ROOT, file), 'utf8'), file);
+  const packed = pack(entries);
+  const checksum = crypto.createHash('sha256').update(packed).digest('hex');
+
+  const source = [
+    `// Generated by scripts/generate-big5-data.ts from ${file}. Do not edit.`,
+    `export const BIG5_SOURCE = ${JSON.stringify(label)};`,
+    `export const BIG5_SOURCE_URL = ${JSON.stringify(url)};`,
+    `export const BIG5_CHECKSUM = ${JSON.stringify(checksum)};`,
+    `export const BIG5_DATA = ${JSON.stringify(packed.toString('base64'))};`,
+    `export const BIG5_COUNT = ${entries.length};`,
+    '',
+  ].join('\n');
+  fs.writeFileSync(path.join(ROOT, output), source);
+  console.log(`${output}: ${entries.length} entries, sha256 ${checksum}`);
+}
+
+TABLES.forEach(generate);
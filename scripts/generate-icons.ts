@@ -0,0 +1,123 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { fileURLToPath } from 'url';
+
+// ─── PWA 圖示產生器 ───────────────────────────────────────────────────────────
+//
+//  以 CodeBlock 方塊（左欄、中欄上下、右欄）為圖案，產生 public/icon.svg 與
+//  Chromium 安裝 PWA 需要的 192×192、512×512 PNG。方塊落在 maskable 安全區
+//  （中心 80% 圓）內，同一張 PNG 可兼作 any 與 maskable。
+//
+//  npm run generate:icons
+//
+
+const __filename = fileURLToPath(import.meta.url);
+const ROOT = path.resolve(path.dirname(__filename), '..');
+
+const PNG_SIZES = [192, 512];
+const SUPERSAMPLE = 4;
+
+type Rgb = [number, number, number];
+
+const BACKGROUND: Rgb = [0x0a, 0x06, 0x1e];
+const CELL: Rgb = [0x16, 0x11, 0x3a];
+const BORDER: Rgb = [0xa5, 0xb4, 0xfc];
+const DIVIDER: Rgb = [0x81, 0x8c, 0xf8];
+
+// 以 0–1 的座標描述圖案，方塊比例與 CodeBlock 的 52 × 44 相同
+const BLOCK = { left: 0.2, right: 0.8, top: 0.5 - (0.6 * 44) / 52 / 2, bottom: 0.5 + (0.6 * 44) / 52 / 2 };
+const SIDE = 0.6 / 2.65;
+const MID_LEFT = BLOCK.left + SIDE;
+const MID_RIGHT = BLOCK.right - SIDE;
+const BORDER_WIDTH = 0.03;
+const DIVIDER_WIDTH = 0.018;
+
+function colorAt(x: number, y: number): Rgb {
+  const inside = x >= BLOCK.left && x <= BLOCK.right && y >= BLOCK.top && y <= BLOCK.bottom;
+  if (!inside) return BACKGROUND;
+  const edge = Math.min(x - BLOCK.left, BLOCK.right - x, y - BLOCK.top, BLOCK.bottom - y);
+  if (edge < BORDER_WIDTH) return BORDER;
+  const half = DIVIDER_WIDTH / 2;
+  if (Math.abs(x - MID_LEFT) < half || Math.abs(x - MID_RIGHT) < half) return DIVIDER;
+  if (x > MID_LEFT && x < MID_RIGHT && Math.abs(y - 0.5) < half) return DIVIDER;
+  return CELL;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+function renderPng(size: number): Buffer {
+  // 每列前面一個 filter byte（0 = None），後接 RGB
+  const raw = Buffer.alloc(size * (size * 3 + 1));
+  for (let py = 0; py < size; py++) {
+    const row = py * (size * 3 + 1);
+    for (let px = 0; px < size; px++) {
+      const sum = [0, 0, 0];
+      for (let sy = 0; sy < SUPERSAMPLE; sy++) {
+        for (let sx = 0; sx < SUPERSAMPLE; sx++) {
+          const color = colorAt((px + (sx + 0.5) / SUPERSAMPLE) / size, (py + (sy + 0.5) / SUPERSAMPLE) / size);
+          for (let c = 0; c < 3; c++) sum[c] += color[c];
+        }
+      }
+      for (let c = 0; c < 3; c++) raw[row + 1 + px * 3 + c] = Math.round(sum[c] / SUPERSAMPLE ** 2);
+    }
+  }
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(size, 0);
+  header.writeUInt32BE(size, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolor RGB
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', zlib.deflateSync(raw, { level: 9 })),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+function renderSvg(): string {
+  const s = 512;
+  const hex = ([r, g, b]: Rgb) => `#${[r, g, b].map(c => c.toString(16).padStart(2, '0')).join('')}`;
+  const n = (value: number) => Number((value * s).toFixed(2));
+  const inset = BORDER_WIDTH / 2;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${s} ${s}">`,
+    `  <rect width="${s}" height="${s}" fill="${hex(BACKGROUND)}"/>`,
+    `  <rect x="${n(BLOCK.left + inset)}" y="${n(BLOCK.top + inset)}" width="${n(BLOCK.right - BLOCK.left - BORDER_WIDTH)}" ` +
+      `height="${n(BLOCK.bottom - BLOCK.top - BORDER_WIDTH)}" fill="${hex(CELL)}" stroke="${hex(BORDER)}" stroke-width="${n(BORDER_WIDTH)}"/>`,
+    `  <g stroke="${hex(DIVIDER)}" stroke-width="${n(DIVIDER_WIDTH)}">`,
+    `    <line x1="${n(MID_LEFT)}" y1="${n(BLOCK.top + BORDER_WIDTH)}" x2="${n(MID_LEFT)}" y2="${n(BLOCK.bottom - BORDER_WIDTH)}"/>`,
+    `    <line x1="${n(MID_RIGHT)}" y1="${n(BLOCK.top + BORDER_WIDTH)}" x2="${n(MID_RIGHT)}" y2="${n(BLOCK.bottom - BORDER_WIDTH)}"/>`,
+    `    <line x1="${n(MID_LEFT)}" y1="${n(0.5)}" x2="${n(MID_RIGHT)}" y2="${n(0.5)}"/>`,
+    '  </g>',
+    '</svg>',
+    '',
+  ].join('\n');
+}
+
+fs.writeFileSync(path.join(ROOT, 'public/icon.svg'), renderSvg());
+for (const size of PNG_SIZES) {
+  const file = `public/icon-${size}.png`;
+  const png = renderPng(size);
+  fs.writeFileSync(path.join(ROOT, file), png);
+  console.log(`${file}: ${png.length.toLocaleString()} bytes`);
+}
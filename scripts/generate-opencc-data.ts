@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// ─── 簡繁字典產生器 ───────────────────────────────────────────────────────────
+//
+//  讀取 data/opencc/ 下的 OpenCC 字典（每行「原文<Tab>候選，以空白分隔」，# 開頭為註解），
+//  去掉註解後寫入 src/opencc-data.ts，供離線的簡轉繁與無對應字建議使用。
+//  STPhrases 只保留逐字轉換會轉錯的詞（多音多義字），其餘交給 STCharacters 即可。
+//
+//  npm run generate:opencc
+//
+
+const __filename = fileURLToPath(import.meta.url);
+const ROOT = path.resolve(path.dirname(__filename), '..');
+
+const SOURCE_URL = 'https://github.com/BYVoid/OpenCC';
+
+const OUTPUT = 'src/opencc-data.ts';
+
+function readDictionary(file: string): [string, string[]][] {
+  const entries: [string, string[]][] = [];
+  fs.readFileSync(path.join(ROOT, 'data/opencc', file), 'utf8')
+    .split('\n')
+    .forEach((rawLine, i) => {
+      if (!rawLine.trim() || rawLine.startsWith('#')) return;
+      if (!/^[^\t ]+\t[^\t ]+( [^\t ]+)*$/.test(rawLine)) {
+        throw new Error(`data/opencc/${file}:${i + 1}: cannot parse "${rawLine}"`);
+      }
+      const [key, values] = rawLine.split('\t');
+      entries.push([key, values.split(' ')]);
+    });
+  return entries;
+}
+
+function serialize(entries: [string, string[]][]): string {
+  return entries.map(([key, values]) => `${key}\t${values.join(' ')}`).join('\n');
+}
+
+const stCharacters = readDictionary('STCharacters.txt');
+const charMap = new Map(stCharacters.map(([key, values]) => [key, values[0]]));
+const convertChars = (text: string) => [...text].map(c => charMap.get(c) ?? c).join('');
+
+const stPhrases = readDictionary('STPhrases.txt')
+  .filter(([key, values]) => values[0] !== convertChars(key))
+  .map(([key, values]): [string, string[]] => [key, [values[0]]]);
+
+const dictionaries: [string, [string, string[]][]][] = [
+  ['ST_CHARACTERS', stCharacters],
+  ['ST_PHRASES', stPhrases],
+  ['TW_PHRASES', readDictionary('TWPhrases.txt')],
+  ['TW_VARIANTS', readDictionary('TWVariants.txt')],
+];
+
+const source = [
+  `// Generated by scripts/generate-opencc-data.ts from data/opencc/. Do not edit.`,
+  `// OpenCC dictionaries, Apache-2.0 (see data/opencc/LICENSE).`,
+  `export const OPENCC_SOURCE_URL = ${JSON.stringify(SOURCE_URL)};`,
+];
+for (const [name, entries] of dictionaries) {
+  source.push(`export const ${name} = ${JSON.stringify(serialize(entries))};`);
+  console.log(`${name}: ${entries.length} entries`);
+}
+fs.writeFileSync(path.join(ROOT, OUTPUT), source.join('\n') + '\n');
@@ -0,0 +1,78 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// ─── 部首筆畫資料產生器 ───────────────────────────────────────────────────────
+//
+//  讀取 data/unihan/radical-strokes.txt（每行「碼位  部首.餘筆畫  總筆畫」，# 之後為註解），
+//  打包成 UNIHAN_DATA：依碼位排序，每筆 6 bytes：
+//    碼位 (3 bytes) + 部首 (1 byte) + 簡化部首旗標 (bit 7) | 餘筆畫 + 8 (1 byte) + 總筆畫 (1 byte)
+//  再以 base64 寫入 src/unihan-data.ts。
+//
+//  npm run generate:unihan
+//
+
+const __filename = fileURLToPath(import.meta.url);
+const ROOT = path.resolve(path.dirname(__filename), '..');
+
+const INPUT = 'data/unihan/radical-strokes.txt';
+const OUTPUT = 'src/unihan-data.ts';
+const SOURCE_URL = 'https://www.unicode.org/charts/unihan.html';
+
+/** 餘筆畫可能為負（如 王 = 玉部 -1 畫），存入時加上此偏移 */
+const RESIDUAL_OFFSET = 8;
+
+interface Entry {
+  cp: number;
+  radical: number;
+  simplified: boolean;
+  residual: number;
+  total: number;
+}
+
+function parse(text: string): Entry[] {
+  const entries: Entry[] = [];
+  text.split('\n').forEach((rawLine, i) => {
+    const line = rawLine.replace(/#.*/, '').trim();
+    if (!line) return;
+    const match = /^U\+([0-9A-F]{4,6})\t(\d+)('?)\.(-?\d+)\t(\d+)$/.exec(line);
+    if (!match) throw new Error(`${INPUT}:${i + 1}: cannot parse "${rawLine}"`);
+    const entry = {
+      cp: parseInt(match[1], 16),
+      radical: Number(match[2]),
+      simplified: match[3] === "'",
+      residual: Number(match[4]),
+      total: Number(match[5]),
+    };
+    if (entry.radical < 1 || entry.radical > 214) throw new Error(`${INPUT}:${i + 1}: radical out of range`);
+    if (entry.residual + RESIDUAL_OFFSET < 0 || entry.residual + RESIDUAL_OFFSET > 0x7f || entry.total > 0xff) {
+      throw new Error(`${INPUT}:${i + 1}: stroke count out of range`);
+    }
+    entries.push(entry);
+  });
+  return entries.sort((a, b) => a.cp - b.cp);
+}
+
+const entries = parse(fs.readFileSync(path.join(ROOT, INPUT), 'utf8'));
+const packed = Buffer.alloc(entries.length * 6);
+entries.forEach(({ cp, radical, simplified, residual, total }, i) => {
+  const o = i * 6;
+  packed[o] = cp >> 16;
+  packed[o + 1] = (cp >> 8) & 0xff;
+  packed[o + 2] = cp & 0xff;
+  packed[o + 3] = radical;
+  packed[o + 4] = (simplified ? 0x80 : 0) | (residual + RESIDUAL_OFFSET);
+  packed[o + 5] = total;
+});
+
+const source = [
+  `// Generated by scripts/generate-unihan-data.ts from ${INPUT}. Do not edit.`,
+  `// Unicode Han Database (Unihan), Unicode License (see ${INPUT}).`,
+  `export const UNIHAN_SOURCE_URL = ${JSON.stringify(SOURCE_URL)};`,
+  `export const UNIHAN_RESIDUAL_OFFSET = ${RESIDUAL_OFFSET};`,
+  `export const UNIHAN_DATA = ${JSON.stringify(packed.toString('base64'))};`,
+  `export const UNIHAN_COUNT = ${entries.length};`,
+  '',
+].join('\n');
+fs.writeFileSync(path.join(ROOT, OUTPUT), source);
+console.log(`${OUTPUT}: ${entries.length} entries`);
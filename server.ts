@@ -3,6 +3,10 @@ import { createServer as createViteServer } from 'vite';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { MAPPING } from './src/codec';
+import { createConvertRouter } from './server/convert';
+import { createTableRouter } from './server/table';
+import { createHistoryRouter, openHistoryDatabase } from './server/history';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -11,21 +15,15 @@ async function startServer() {
   const app = express();
   const PORT = 3000;
 
-  // API Route to fetch the Big5 table
-  app.get('/api/big5-table', async (req, res) => {
-    try {
-      const response = await fetch('https://moztw.org/docs/big5/table/cp950-u2b.txt');
-      if (!response.ok) {
-        throw new Error(`Failed to fetch table: ${response.statusText}`);
-      }
-      const text = await response.text();
-      res.setHeader('Content-Type', 'text/plain');
-      res.send(text);
-    } catch (error) {
-      console.error('Error fetching Big5 table:', error);
-      res.status(500).json({ error: 'Failed to fetch Big5 table' });
-    }
-  });
+  // Bundled Big5 table, served with ETag so clients can cache it offline
+  app.use('/api', createTableRouter());
+
+  // Conversion API, backed by the same bundled table as the UI
+  app.use('/api', createConvertRouter());
+
+  // Conversion history and saved snippets, stored in a local SQLite database
+  const historyDb = openHistoryDatabase(process.env.HISTORY_DB ?? path.join(__dirname, '.data', 'history.sqlite'));
+  app.use('/api', createHistoryRouter(historyDb));
 
   // Vite middleware for development
   if (process.env.NODE_ENV !== 'production') {
@@ -47,6 +45,7 @@ async function startServer() {
 
   app.listen(PORT, '0.0.0.0', () => {
     console.log(`Server running on http://localhost:${PORT}`);
+    console.log(`Big5 table: ${MAPPING.size.toLocaleString()} characters loaded`);
   });
 }
 
@@ -0,0 +1,101 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createConvertRouter, parseFormat, ApiError } from './convert';
+import { listen, postJson, type TestServer } from './testServer';
+
+let server: TestServer;
+
+before(async () => {
+  server = await listen(createConvertRouter());
+});
+
+after(() => server.close());
+
+test('parseFormat rejects separators inherited from Object.prototype', () => {
+  for (const separator of ['constructor', 'toString', '__proto__', 42]) {
+    assert.throws(() => parseFormat({ separator }), (error: unknown) => error instanceof ApiError && error.status === 400);
+  }
+  assert.deepEqual(parseFormat({ separator: 'comma' }), { separator: 'comma' });
+});
+
+test('an unknown separator is a 400 INVALID_FORMAT', async () => {
+  for (const path of ['/encode', '/decode']) {
+    const response = await postJson(`${server.baseUrl}${path}`, {
+      text: '中文',
+      input: 'A4A4★A4E5',
+      format: { separator: 'constructor' },
+    });
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).code, 'INVALID_FORMAT');
+  }
+});
+
+test('encodes and decodes hex', async () => {
+  const encoded = await postJson(`${server.baseUrl}/encode`, { text: '中文😀', format: { separator: 'space' } });
+  assert.equal(encoded.status, 200);
+  const body = await encoded.json();
+  assert.equal(body.text, 'A4A4 A4E5 ????');
+  assert.deepEqual(body.unmapped, [{ char: '😀', line: 1, column: 3 }]);
+
+  const decoded = await postJson(`${server.baseUrl}/decode`, { input: 'A4A4★A4E5', variant: 'big5-hkscs' });
+  assert.equal((await decoded.json()).text, '中文');
+});
+
+test('invalid requests return structured 400 errors', async () => {
+  const cases: [string, unknown, string][] = [
+    ['/encode', { text: 42 }, 'INVALID_BODY'],
+    ['/encode', { text: '中', variant: 'big5-xx' }, 'INVALID_VARIANT'],
+    ['/encode', { text: '中', format: { notation: 'rot13' } }, 'INVALID_FORMAT'],
+    ['/encode', { text: '中', format: { lowercase: 'yes' } }, 'INVALID_FORMAT'],
+    ['/encode', { text: '中', normalize: { ascii: 'half' } }, 'INVALID_NORMALIZE'],
+    ['/encode/big5', { text: '中', replacement: '😀' }, 'INVALID_REPLACEMENT'],
+    ['/decode', {}, 'INVALID_BODY'],
+  ];
+  for (const [path, body, code] of cases) {
+    const response = await postJson(`${server.baseUrl}${path}`, body);
+    assert.equal(response.status, 400, `${path} ${JSON.stringify(body)}`);
+    const error = await response.json();
+    assert.equal(error.code, code);
+    assert.equal(typeof error.error, 'string');
+  }
+
+  const invalidJson = await fetch(`${server.baseUrl}/encode`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: '{"text":',
+  });
+  assert.equal(invalidJson.status, 400);
+  assert.equal((await invalidJson.json()).code, 'INVALID_JSON');
+});
+
+test('bodies over the limit are rejected with 413', async () => {
+  const text = '中'.repeat(400_000);
+  const json = await postJson(`${server.baseUrl}/encode`, { text });
+  assert.equal(json.status, 413);
+  assert.equal((await json.json()).code, 'PAYLOAD_TOO_LARGE');
+
+  const raw = await fetch(`${server.baseUrl}/decode/big5`, { method: 'POST', body: new Uint8Array(1024 * 1024 + 1) });
+  assert.equal(raw.status, 413);
+  assert.equal((await raw.json()).code, 'PAYLOAD_TOO_LARGE');
+});
+
+test('Big5 bytes round-trip through /encode/big5 and /decode/big5', async () => {
+  const encoded = await postJson(`${server.baseUrl}/encode/big5`, { text: '中文 Big5😀', replacement: '?' });
+  assert.equal(encoded.status, 200);
+  assert.equal(encoded.headers.get('content-type'), 'application/octet-stream');
+  assert.equal(encoded.headers.get('x-unmapped-count'), '1');
+  const bytes = new Uint8Array(await encoded.arrayBuffer());
+  assert.deepEqual([...bytes.subarray(0, 4)], [0xa4, 0xa4, 0xa4, 0xe5]);
+
+  const decoded = await fetch(`${server.baseUrl}/decode/big5?variant=cp950`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: bytes,
+  });
+  assert.deepEqual(await decoded.json(), { text: '中文 Big5?', errors: [] });
+
+  const invalid = await fetch(`${server.baseUrl}/decode/big5`, { method: 'POST', body: new Uint8Array([0xa4]) });
+  const { errors } = await invalid.json();
+  assert.equal(errors.length, 1);
+  assert.equal(errors[0].offset, 0);
+});
@@ -0,0 +1,177 @@
+import express, { type ErrorRequestHandler } from 'express';
+import {
+  BIG5_VARIANTS,
+  DEFAULT_VARIANT,
+  CODE_NOTATIONS,
+  SEPARATOR_IDS,
+  encode,
+  decode,
+  encodeBytes,
+  decodeBytes,
+  type Big5Variant,
+  type CodeNotation,
+  type OutputFormat,
+  type SeparatorId,
+} from '../src/codec';
+import {
+  ASCII_POLICIES,
+  WHITESPACE_POLICIES,
+  normalizeText,
+  type AsciiPolicy,
+  type NormalizeOptions,
+  type WhitespacePolicy,
+} from '../src/normalize';
+
+export const BODY_LIMIT = '1mb';
+
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+export function requireString(body: unknown, field: string): string {
+  const value = (body as Record<string, unknown> | undefined)?.[field];
+  if (typeof value !== 'string') {
+    throw new ApiError(400, 'INVALID_BODY', `"${field}" must be a string`);
+  }
+  return value;
+}
+
+export function parseVariant(value: unknown): Big5Variant {
+  if (value === undefined) return DEFAULT_VARIANT;
+  if (!BIG5_VARIANTS.includes(value as Big5Variant)) {
+    throw new ApiError(400, 'INVALID_VARIANT', `"variant" must be one of ${BIG5_VARIANTS.join(', ')}`);
+  }
+  return value as Big5Variant;
+}
+
+// 各 API router 共用：錯誤一律回傳 { error, code }
+export const handleApiError: ErrorRequestHandler = (error, req, res, next) => {
+  if (res.headersSent) return next(error);
+  if (error instanceof ApiError) {
+    res.status(error.status).json({ error: error.message, code: error.code });
+  } else if (error?.type === 'entity.too.large') {
+    res.status(413).json({ error: `Request body exceeds ${BODY_LIMIT}`, code: 'PAYLOAD_TOO_LARGE' });
+  } else if (error?.type === 'entity.parse.failed') {
+    res.status(400).json({ error: 'Request body is not valid JSON', code: 'INVALID_JSON' });
+  } else {
+    console.error('API error:', error);
+    res.status(500).json({ error: 'Internal server error', code: 'INTERNAL' });
+  }
+};
+
+// 只接受 OutputFormat 已知的欄位與值，未提供的欄位沿用預設
+export function parseFormat(value: unknown): Partial<OutputFormat> {
+  if (value === undefined) return {};
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ApiError(400, 'INVALID_FORMAT', '"format" must be an object');
+  }
+  const { notation, separator, lowercase, annotate } = value as Record<string, unknown>;
+  const format: Partial<OutputFormat> = {};
+  if (notation !== undefined) {
+    if (!CODE_NOTATIONS.includes(notation as CodeNotation)) {
+      throw new ApiError(400, 'INVALID_FORMAT', `"notation" must be one of ${CODE_NOTATIONS.join(', ')}`);
+    }
+    format.notation = notation as CodeNotation;
+  }
+  if (separator !== undefined) {
+    if (!SEPARATOR_IDS.includes(separator as SeparatorId)) {
+      throw new ApiError(400, 'INVALID_FORMAT', `"separator" must be one of ${SEPARATOR_IDS.join(', ')}`);
+    }
+    format.separator = separator as SeparatorId;
+  }
+  for (const [key, flag] of [['lowercase', lowercase], ['annotate', annotate]] as const) {
+    if (flag === undefined) continue;
+    if (typeof flag !== 'boolean') {
+      throw new ApiError(400, 'INVALID_FORMAT', `"${key}" must be a boolean`);
+    }
+    format[key] = flag;
+  }
+  return format;
+}
+
+export function parseNormalize(value: unknown): Partial<NormalizeOptions> {
+  if (value === undefined) return {};
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ApiError(400, 'INVALID_NORMALIZE', '"normalize" must be an object');
+  }
+  const { ascii, punctuation, whitespace } = value as Record<string, unknown>;
+  const options: Partial<NormalizeOptions> = {};
+  if (ascii !== undefined) {
+    if (!ASCII_POLICIES.includes(ascii as AsciiPolicy)) {
+      throw new ApiError(400, 'INVALID_NORMALIZE', `"ascii" must be one of ${ASCII_POLICIES.join(', ')}`);
+    }
+    options.ascii = ascii as AsciiPolicy;
+  }
+  if (punctuation !== undefined) {
+    if (typeof punctuation !== 'boolean') {
+      throw new ApiError(400, 'INVALID_NORMALIZE', '"punctuation" must be a boolean');
+    }
+    options.punctuation = punctuation;
+  }
+  if (whitespace !== undefined) {
+    if (!WHITESPACE_POLICIES.includes(whitespace as WhitespacePolicy)) {
+      throw new ApiError(400, 'INVALID_NORMALIZE', `"whitespace" must be one of ${WHITESPACE_POLICIES.join(', ')}`);
+    }
+    options.whitespace = whitespace as WhitespacePolicy;
+  }
+  return options;
+}
+
+// ─── 轉換 API ────────────────────────────────────────────────────────────────
+//
+//  POST /api/encode              { text, format?, variant?, normalize? }        → { text, lines, unmapped }
+//  POST /api/decode              { input, format?, variant? }                   → { text, lines, issueCount }
+//  POST /api/encode/big5         { text, replacement?, variant?, normalize? }   → Big5 位元組 (application/octet-stream)
+//  POST /api/decode/big5?variant Big5 位元組                                    → { text, errors }
+//
+//  錯誤一律回傳 { error, code }。
+//
+export function createConvertRouter() {
+  const router = express.Router();
+  const json = express.json({ limit: BODY_LIMIT });
+
+  router.post('/encode', json, (req, res) => {
+    const variant = parseVariant(req.body.variant);
+    const text = normalizeText(requireString(req.body, 'text'), parseNormalize(req.body.normalize), variant);
+    res.json(encode(text, parseFormat(req.body.format), variant));
+  });
+
+  router.post('/decode', json, (req, res) => {
+    const input = requireString(req.body, 'input');
+    res.json(decode(input, parseFormat(req.body.format), parseVariant(req.body.variant)));
+  });
+
+  router.post('/encode/big5', json, (req, res) => {
+    const variant = parseVariant(req.body.variant);
+    const text = normalizeText(requireString(req.body, 'text'), parseNormalize(req.body.normalize), variant);
+    const replacement = req.body.replacement === undefined ? undefined : requireString(req.body, 'replacement');
+    let result;
+    try {
+      result = encodeBytes(text, { replacement }, variant);
+    } catch (error) {
+      throw new ApiError(400, 'INVALID_REPLACEMENT', (error as Error).message);
+    }
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('Content-Disposition', 'attachment; filename="big5.txt"');
+    res.setHeader('X-Unmapped-Count', String(result.unmapped.length));
+    res.send(Buffer.from(result.bytes));
+  });
+
+  router.post('/decode/big5', express.raw({ type: () => true, limit: BODY_LIMIT }), (req, res) => {
+    const body: unknown = req.body;
+    if (!Buffer.isBuffer(body)) {
+      throw new ApiError(400, 'INVALID_BODY', 'Request body must be raw Big5 bytes');
+    }
+    res.json(decodeBytes(new Uint8Array(body), parseVariant(req.query.variant)));
+  });
+
+  router.use(handleApiError);
+
+  return router;
+}
@@ -0,0 +1,113 @@
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type Database from 'better-sqlite3';
+import { DEFAULT_FORMAT } from '../src/codec';
+import { createHistoryRouter, openHistoryDatabase } from './history';
+import { listen, postJson, type TestServer } from './testServer';
+
+let db: Database.Database;
+let server: TestServer;
+
+before(async () => {
+  db = openHistoryDatabase(':memory:');
+  server = await listen(createHistoryRouter(db));
+});
+
+after(async () => {
+  await server.close();
+  db.close();
+});
+
+beforeEach(() => {
+  db.exec('DELETE FROM history; DELETE FROM snippets;');
+});
+
+async function addHistory(input: string) {
+  const response = await postJson(`${server.baseUrl}/history`, { input, variant: 'big5-uao' });
+  assert.equal(response.status, 201);
+  return response.json();
+}
+
+async function listHistory(query = '') {
+  return (await fetch(`${server.baseUrl}/history${query}`)).json();
+}
+
+test('lists history newest first with a total', async () => {
+  const first = await addHistory('中文');
+  const second = await addHistory('字');
+  assert.equal(first.variant, 'big5-uao');
+  assert.deepEqual(first.format, DEFAULT_FORMAT);
+
+  const { items, total } = await listHistory();
+  assert.equal(total, 2);
+  assert.deepEqual(items.map((item: { id: number }) => item.id), [second.id, first.id]);
+});
+
+test('searches history with LIKE wildcards escaped', async () => {
+  await addHistory('100% 完成');
+  await addHistory('1000 完成');
+  await addHistory('a_b');
+  await addHistory('axb');
+
+  assert.deepEqual((await listHistory('?q=%25')).items.map((item: { input: string }) => item.input), ['100% 完成']);
+  assert.deepEqual((await listHistory('?q=_')).items.map((item: { input: string }) => item.input), ['a_b']);
+  assert.equal((await listHistory('?q=完成')).total, 2);
+});
+
+test('pages history with limit and offset', async () => {
+  for (const input of ['一', '二', '三', '四', '五']) await addHistory(input);
+  const page = await listHistory('?limit=2&offset=1');
+  assert.equal(page.total, 5);
+  assert.deepEqual(page.items.map((item: { input: string }) => item.input), ['四', '三']);
+
+  for (const query of ['?limit=0', '?limit=201', '?offset=-1', '?limit=abc']) {
+    const response = await fetch(`${server.baseUrl}/history${query}`);
+    assert.equal(response.status, 400, query);
+    assert.equal((await response.json()).code, 'INVALID_QUERY');
+  }
+});
+
+test('updates and deletes history entries', async () => {
+  const { id } = await addHistory('中');
+  const updated = await postJson(
+    `${server.baseUrl}/history/${id}`,
+    { input: '中文', format: { notation: 'url' }, variant: 'cp950' },
+    'PUT'
+  );
+  assert.equal(updated.status, 200);
+  const entry = await updated.json();
+  assert.equal(entry.input, '中文');
+  assert.equal(entry.format.notation, 'url');
+  assert.equal(entry.variant, 'cp950');
+
+  assert.equal((await postJson(`${server.baseUrl}/history/9999`, { input: '中' }, 'PUT')).status, 404);
+  assert.equal((await fetch(`${server.baseUrl}/history/${id}`, { method: 'DELETE' })).status, 204);
+  assert.equal((await fetch(`${server.baseUrl}/history/${id}`, { method: 'DELETE' })).status, 404);
+  assert.equal((await fetch(`${server.baseUrl}/history/abc`, { method: 'DELETE' })).status, 400);
+
+  await addHistory('一');
+  await addHistory('二');
+  assert.equal((await fetch(`${server.baseUrl}/history`, { method: 'DELETE' })).status, 204);
+  assert.equal((await listHistory()).total, 0);
+});
+
+test('saves snippets with unique names', async () => {
+  const created = await postJson(`${server.baseUrl}/snippets`, { name: ' 問候 ', input: '你好' });
+  assert.equal(created.status, 201);
+  const snippet = await created.json();
+  assert.equal(snippet.name, '問候');
+
+  const duplicate = await postJson(`${server.baseUrl}/snippets`, { name: '問候', input: '再見' });
+  assert.equal(duplicate.status, 409);
+  assert.equal((await duplicate.json()).code, 'NAME_TAKEN');
+
+  assert.equal((await postJson(`${server.baseUrl}/snippets`, { name: ' ', input: '中' })).status, 400);
+
+  await postJson(`${server.baseUrl}/snippets`, { name: '其他', input: '問候語' });
+  const { items, total } = await (await fetch(`${server.baseUrl}/snippets?q=${encodeURIComponent('問候')}`)).json();
+  assert.equal(total, 2);
+  assert.deepEqual(items.map((item: { name: string }) => item.name), ['其他', '問候']);
+
+  assert.equal((await fetch(`${server.baseUrl}/snippets/${snippet.id}`, { method: 'DELETE' })).status, 204);
+  assert.equal((await fetch(`${server.baseUrl}/snippets/${snippet.id}`, { method: 'DELETE' })).status, 404);
+});
@@ -0,0 +1,216 @@
+import express from 'express';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { DEFAULT_FORMAT, type Big5Variant, type OutputFormat } from '../src/codec';
+import type { HistoryEntry, ListResult, Snippet } from '../src/history';
+import { ApiError, BODY_LIMIT, handleApiError, parseFormat, parseVariant, requireString } from './convert';
+
+// ─── 轉換紀錄與片段 ───────────────────────────────────────────────────────────
+//
+//  存在本機 SQLite（預設 .data/history.sqlite，可用 HISTORY_DB 指定）。
+//
+//  GET    /api/history?q=&limit=&offset=   → { items, total }（新到舊）
+//  POST   /api/history      { input, format?, variant? }   → 201 HistoryEntry
+//  PUT    /api/history/:id  { input, format?, variant? }   → HistoryEntry（更新內容與時間）
+//  DELETE /api/history/:id                                  → 204
+//  DELETE /api/history                                      → 204（清空）
+//  GET    /api/snippets?q=&limit=&offset=  → { items, total }（依名稱）
+//  POST   /api/snippets     { name, input, format?, variant? } → 201 Snippet；名稱重複時 409
+//  DELETE /api/snippets/:id                                 → 204
+//
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS history (
+    id         INTEGER PRIMARY KEY,
+    input      TEXT NOT NULL,
+    format     TEXT NOT NULL,
+    variant    TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS history_created_at ON history (created_at);
+  CREATE TABLE IF NOT EXISTS snippets (
+    id         INTEGER PRIMARY KEY,
+    name       TEXT NOT NULL UNIQUE,
+    input      TEXT NOT NULL,
+    format     TEXT NOT NULL,
+    variant    TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+`;
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+const MAX_NAME_LENGTH = 100;
+
+export function openHistoryDatabase(file: string): Database.Database {
+  if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+  return db;
+}
+
+interface Row {
+  id: number;
+  name?: string;
+  input: string;
+  format: string;
+  variant: string;
+  created_at: string;
+}
+
+function toEntry({ id, input, format, variant, created_at }: Row): HistoryEntry {
+  return {
+    id,
+    input,
+    format: { ...DEFAULT_FORMAT, ...(JSON.parse(format) as Partial<OutputFormat>) },
+    variant: variant as Big5Variant,
+    createdAt: created_at,
+  };
+}
+
+function toSnippet(row: Row): Snippet {
+  return { ...toEntry(row), name: row.name! };
+}
+
+function parseId(value: string): number {
+  const id = Number(value);
+  if (!Number.isSafeInteger(id) || id <= 0) throw new ApiError(400, 'INVALID_ID', `"${value}" is not a valid id`);
+  return id;
+}
+
+function parsePaging(query: express.Request['query']): { limit: number; offset: number } {
+  const limit = query.limit === undefined ? DEFAULT_LIMIT : Number(query.limit);
+  const offset = query.offset === undefined ? 0 : Number(query.offset);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new ApiError(400, 'INVALID_QUERY', `"limit" must be an integer from 1 to ${MAX_LIMIT}`);
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new ApiError(400, 'INVALID_QUERY', '"offset" must be a non-negative integer');
+  }
+  return { limit, offset };
+}
+
+// LIKE 的 % 與 _ 需跳脫，才能搜尋字面上的符號
+function likePattern(query: unknown): string {
+  const text = typeof query === 'string' ? query : '';
+  return `%${text.replace(/[\\%_]/g, c => `\\${c}`)}%`;
+}
+
+function parseConversion(body: unknown) {
+  const { format, variant } = (body ?? {}) as Record<string, unknown>;
+  return {
+    input: requireString(body, 'input'),
+    format: JSON.stringify({ ...DEFAULT_FORMAT, ...parseFormat(format) }),
+    variant: parseVariant(variant),
+  };
+}
+
+export function createHistoryRouter(db: Database.Database) {
+  const router = express.Router();
+  const json = express.json({ limit: BODY_LIMIT });
+
+  const statements = {
+    listHistory: db.prepare(
+      `SELECT * FROM history WHERE input LIKE ? ESCAPE '\\' ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`
+    ),
+    countHistory: db.prepare(`SELECT COUNT(*) AS total FROM history WHERE input LIKE ? ESCAPE '\\'`),
+    getHistory: db.prepare('SELECT * FROM history WHERE id = ?'),
+    insertHistory: db.prepare(
+      'INSERT INTO history (input, format, variant, created_at) VALUES (@input, @format, @variant, @createdAt)'
+    ),
+    updateHistory: db.prepare(
+      'UPDATE history SET input = @input, format = @format, variant = @variant, created_at = @createdAt WHERE id = @id'
+    ),
+    deleteHistory: db.prepare('DELETE FROM history WHERE id = ?'),
+    clearHistory: db.prepare('DELETE FROM history'),
+    listSnippets: db.prepare(
+      `SELECT * FROM snippets WHERE name LIKE @pattern ESCAPE '\\' OR input LIKE @pattern ESCAPE '\\'
+       ORDER BY name LIMIT @limit OFFSET @offset`
+    ),
+    countSnippets: db.prepare(
+      `SELECT COUNT(*) AS total FROM snippets WHERE name LIKE @pattern ESCAPE '\\' OR input LIKE @pattern ESCAPE '\\'`
+    ),
+    getSnippet: db.prepare('SELECT * FROM snippets WHERE id = ?'),
+    insertSnippet: db.prepare(
+      'INSERT INTO snippets (name, input, format, variant, created_at) VALUES (@name, @input, @format, @variant, @createdAt)'
+    ),
+    deleteSnippet: db.prepare('DELETE FROM snippets WHERE id = ?'),
+  };
+
+  router.get('/history', (req, res) => {
+    const { limit, offset } = parsePaging(req.query);
+    const pattern = likePattern(req.query.q);
+    const rows = statements.listHistory.all(pattern, limit, offset) as Row[];
+    const { total } = statements.countHistory.get(pattern) as { total: number };
+    const result: ListResult<HistoryEntry> = { items: rows.map(toEntry), total };
+    res.json(result);
+  });
+
+  router.post('/history', json, (req, res) => {
+    const conversion = { ...parseConversion(req.body), createdAt: new Date().toISOString() };
+    const { lastInsertRowid } = statements.insertHistory.run(conversion);
+    res.status(201).json(toEntry(statements.getHistory.get(lastInsertRowid) as Row));
+  });
+
+  router.put('/history/:id', json, (req, res) => {
+    const id = parseId(req.params.id);
+    const conversion = { ...parseConversion(req.body), createdAt: new Date().toISOString(), id };
+    if (statements.updateHistory.run(conversion).changes === 0) {
+      throw new ApiError(404, 'NOT_FOUND', `History entry ${id} does not exist`);
+    }
+    res.json(toEntry(statements.getHistory.get(id) as Row));
+  });
+
+  router.delete('/history/:id', (req, res) => {
+    const id = parseId(req.params.id);
+    if (statements.deleteHistory.run(id).changes === 0) {
+      throw new ApiError(404, 'NOT_FOUND', `History entry ${id} does not exist`);
+    }
+    res.status(204).end();
+  });
+
+  router.delete('/history', (req, res) => {
+    statements.clearHistory.run();
+    res.status(204).end();
+  });
+
+  router.get('/snippets', (req, res) => {
+    const { limit, offset } = parsePaging(req.query);
+    const pattern = likePattern(req.query.q);
+    const rows = statements.listSnippets.all({ pattern, limit, offset }) as Row[];
+    const { total } = statements.countSnippets.get({ pattern }) as { total: number };
+    const result: ListResult<Snippet> = { items: rows.map(toSnippet), total };
+    res.json(result);
+  });
+
+  router.post('/snippets', json, (req, res) => {
+    const name = requireString(req.body, 'name').trim();
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      throw new ApiError(400, 'INVALID_BODY', `"name" must be 1 to ${MAX_NAME_LENGTH} characters`);
+    }
+    const snippet = { ...parseConversion(req.body), name, createdAt: new Date().toISOString() };
+    let lastInsertRowid;
+    try {
+      ({ lastInsertRowid } = statements.insertSnippet.run(snippet));
+    } catch (error) {
+      if ((error as { code?: string }).code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        throw new ApiError(409, 'NAME_TAKEN', `A snippet named "${name}" already exists`);
+      }
+      throw error;
+    }
+    res.status(201).json(toSnippet(statements.getSnippet.get(lastInsertRowid) as Row));
+  });
+
+  router.delete('/snippets/:id', (req, res) => {
+    const id = parseId(req.params.id);
+    if (statements.deleteSnippet.run(id).changes === 0) {
+      throw new ApiError(404, 'NOT_FOUND', `Snippet ${id} does not exist`);
+    }
+    res.status(204).end();
+  });
+
+  router.use(handleApiError);
+
+  return router;
+}
@@ -0,0 +1,41 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { getTable } from '../src/codec';
+import { createTableRouter } from './table';
+import { listen, type TestServer } from './testServer';
+
+let server: TestServer;
+
+before(async () => {
+  server = await listen(createTableRouter());
+});
+
+after(() => server.close());
+
+test('serves the bundled table with its checksum as the ETag', async () => {
+  const response = await fetch(`${server.baseUrl}/big5-table?variant=big5-uao`);
+  assert.equal(response.status, 200);
+  const { checksum, mapping } = getTable('big5-uao');
+  assert.equal(response.headers.get('etag'), `"${checksum}"`);
+  const lines = (await response.text()).trimEnd().split('\n');
+  assert.equal(lines[1], `# SHA-256: ${checksum}`);
+  assert.equal(lines.length, mapping.size + 2);
+  assert.ok(lines.includes('0x4E2D\t0xA4A4'));
+});
+
+test('answers 304 when the ETag matches', async () => {
+  // fetch 帶 If-None-Match 時會自動加上 Cache-Control: no-cache，須明確覆寫才會比對 ETag
+  const headers = { 'If-None-Match': `"${getTable().checksum}"`, 'Cache-Control': 'max-age=0' };
+  const fresh = await fetch(`${server.baseUrl}/big5-table`, { headers });
+  assert.equal(fresh.status, 304);
+  assert.equal(await fresh.text(), '');
+
+  const stale = await fetch(`${server.baseUrl}/big5-table`, { headers: { ...headers, 'If-None-Match': '"outdated"' } });
+  assert.equal(stale.status, 200);
+});
+
+test('rejects unknown variants with a structured 400', async () => {
+  const response = await fetch(`${server.baseUrl}/big5-table?variant=big5-xx`);
+  assert.equal(response.status, 400);
+  assert.equal((await response.json()).code, 'INVALID_VARIANT');
+});
@@ -0,0 +1,42 @@
+import express from 'express';
+import { getTable, type Big5Variant } from '../src/codec';
+import { parseVariant } from './convert';
+
+// 以打包好的對照表還原成文字（與 data/ 下的來源檔同格式），不再即時抓取 moztw.org
+function formatMappingText(variant: Big5Variant): string {
+  const { mapping, sourceUrl, checksum } = getTable(variant);
+  const lines = [`# Source: ${sourceUrl}`, `# SHA-256: ${checksum}`];
+  for (const [char, code] of mapping) {
+    const cpHex = char.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0');
+    const big5Hex = code.startsWith('00') ? code.slice(2) : code;
+    lines.push(`0x${cpHex}\t0x${big5Hex}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function createTableRouter() {
+  const router = express.Router();
+  const texts = new Map<Big5Variant, string>();
+
+  // GET /api/big5-table?variant=cp950
+  router.get('/big5-table', (req, res) => {
+    let variant: Big5Variant;
+    try {
+      variant = parseVariant(req.query.variant);
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message, code: 'INVALID_VARIANT' });
+      return;
+    }
+    res.setHeader('ETag', `"${getTable(variant).checksum}"`);
+    res.setHeader('Cache-Control', 'public, max-age=86400');
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
+    if (!texts.has(variant)) texts.set(variant, formatMappingText(variant));
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.send(texts.get(variant));
+  });
+
+  return router;
+}
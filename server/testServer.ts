@@ -0,0 +1,27 @@
+import express from 'express';
+import type { AddressInfo } from 'node:net';
+
+// ─── 測試用伺服器 ─────────────────────────────────────────────────────────────
+//
+//  把 router 掛在 /api 下並監聽隨機埠，供 server/*.test.ts 以 fetch 打 API。
+//
+export interface TestServer {
+  /** http://127.0.0.1:<port>/api */
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+export async function listen(router: express.Router): Promise<TestServer> {
+  const app = express();
+  app.use('/api', router);
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  return {
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`,
+    close: () => new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
+
+export function postJson(url: string, body: unknown, method = 'POST'): Promise<Response> {
+  return fetch(url, { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+}
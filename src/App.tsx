@@ -3,300 +3,337 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { useState, useMemo, useRef } from 'react';
-import { Copy, Trash2, Tag, LayoutGrid, Search } from 'lucide-react';
-import { motion } from 'motion/react';
-import { BIG5_DATA, BIG5_COUNT } from './big5-data';
-
-function buildMapping(): Map<string, string> {
-  const raw = atob(BIG5_DATA);
-  const map = new Map<string, string>();
-  for (let i = 0; i < BIG5_COUNT; i++) {
-    const o = i * 5;
-    const cp =
-      (raw.charCodeAt(o) << 16) |
-      (raw.charCodeAt(o + 1) << 8) |
-      raw.charCodeAt(o + 2);
-    const big5 = (raw.charCodeAt(o + 3) << 8) | raw.charCodeAt(o + 4);
-    const big5Hex = big5.toString(16).toUpperCase().padStart(4, '0');
-    map.set(String.fromCodePoint(cp), big5Hex);
-  }
-  return map;
+import { useState, useMemo, useRef, useEffect, type ChangeEvent } from 'react';
+import {
+  Copy,
+  Trash2,
+  Tag,
+  LayoutGrid,
+  Search,
+  FileText,
+  Download,
+  Upload,
+  Languages,
+  Grid3x3,
+  ScanSearch,
+  History,
+  Link,
+  ImageDown,
+  PenTool,
+  GitCompare,
+  WifiOff,
+  WandSparkles,
+} from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import {
+  BIG5_VARIANTS,
+  BIG5_VARIANT_LABELS,
+  DEFAULT_VARIANT,
+  getTable,
+  DEFAULT_FORMAT,
+  encodeBytes,
+  decodeBytes,
+  setUserMappings,
+  type OutputFormat,
+  type ByteError,
+  type ByteErrorReason,
+  type Big5Variant,
+} from './codec';
+import { applySubstitution } from './diagnostics';
+import { loadEudc, saveEudc, type EudcEntry } from './eudc';
+import { saveHistory, exceedsBodyLimit, type Conversion } from './history';
+import { encodePermalink, decodePermalink } from './permalink';
+import type { ConversionRequest } from './conversion';
+import { DEFAULT_NORMALIZE, type NormalizeOptions } from './normalize';
+import { useConversion } from './useConversion';
+import { useOnlineStatus } from './useOnlineStatus';
+import { copyText } from './clipboard';
+import { TextOutput, BlockOutput } from './components/Output';
+import { ReverseLookup } from './components/ReverseLookup';
+import { CodePageBrowser } from './components/CodePageBrowser';
+import { CharacterSearch } from './components/CharacterSearch';
+import { selectClass, FormatSelect } from './components/FormatSelect';
+import { NormalizeSelect } from './components/NormalizeSelect';
+import { EudcManager } from './components/EudcManager';
+import { BulkDecode } from './components/BulkDecode';
+import { CompareView } from './components/CompareView';
+import { MojibakeRepair } from './components/MojibakeRepair';
+import { downloadBlob } from './download';
+import { BlockExportPanel } from './components/BlockExportPanel';
+import { TraditionalReview } from './components/TraditionalReview';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
+import { HISTORY_SAVE_DELAY, HistorySidebar } from './components/HistorySidebar';
+
+// ─── Big5 檔案下載 / 上傳 ─────────────────────────────────────────────────────
+const REPLACEMENT_OPTIONS: { value: string; label: string }[] = [
+  { value: '?', label: '以 ? 取代' },
+  { value: '？', label: '以 ？ 取代' },
+  { value: '□', label: '以 □ 取代' },
+  { value: '', label: '略過無對應字' },
+];
+
+const BYTE_ERROR_LABEL: Record<ByteErrorReason, string> = {
+  'invalid-lead': '無效首位元組',
+  'invalid-trail': '無效尾位元組',
+  truncated: '序列不完整',
+  unmapped: '查無此碼',
+};
+
+const MAX_LISTED_BYTE_ERRORS = 50;
+
+function formatByteError({ offset, bytes, reason }: ByteError): string {
+  const hex = bytes.map(b => b.toString(16).toUpperCase().padStart(2, '0')).join(' ');
+  return `0x${offset.toString(16).toUpperCase().padStart(4, '0')}  ${hex}  ${BYTE_ERROR_LABEL[reason]}`;
 }
 
-const MAPPING = buildMapping();
-
-// 反向對照表：Big5 hex (4字元大寫) → 中文字
-const REVERSE_MAPPING = new Map<string, string>();
-for (const [char, big5] of MAPPING) {
-  REVERSE_MAPPING.set(big5, char);
-}
-
-interface CodeEntry {
-  code: string;
-  char: string;
-}
+// ─── 主應用 ───────────────────────────────────────────────────────────────────
+// 自訂字在模組載入時讀入並套用到對照表，第一次繪製時 getTable 就已含使用者的對照，
+// 之後只由 updateEudc 更新
+const INITIAL_EUDC = loadEudc();
+setUserMappings(INITIAL_EUDC);
 
-// ─── 方塊字顯示元件 ───────────────────────────────────────────────────────────
-//
-//  排列（以 C140 為例）：
-//  ┌──────┬──────┬──────┐
-//  │      │  1   │      │  ← code[1]，中欄上半，壓縮
-//  │  C   │──────│  0   │  ← code[0] 左欄全高，code[3] 右欄全高
-//  │      │  4   │      │  ← code[2]，中欄下半，壓縮
-//  └──────┴──────┴──────┘
-//
-function CodeBlock({ code, char, showAnnotation }: CodeEntry & { showAnnotation: boolean }) {
-  return (
-    <div className="flex flex-col items-center gap-1">
-      <div
-        className="border border-indigo-300/80 font-mono rounded overflow-hidden"
-        style={{
-          display: 'grid',
-          gridTemplateColumns: '1fr 0.65fr 1fr',
-          gridTemplateRows: '1fr 1fr',
-          width: '3.25rem',
-          height: '2.75rem',
-          background: 'rgba(20, 15, 50, 0.7)',
-          boxShadow: '0 0 4px rgba(180, 155, 255, 0.6), 0 0 14px rgba(160, 130, 255, 0.35), 0 0 28px rgba(140, 100, 240, 0.18), inset 0 0 10px rgba(160, 130, 255, 0.12)',
-        }}
-      >
-        {/* 左欄：code[0]，span 2 rows */}
-        <span
-          style={{ gridColumn: '1', gridRow: '1 / span 2' }}
-          className="flex items-center justify-center border-r border-indigo-300/70 text-indigo-100 font-bold text-sm leading-none vhs-glow"
-        >
-          {code[0]}
-        </span>
-        {/* 中欄上：code[1] */}
-        <span
-          style={{ gridColumn: '2', gridRow: '1', fontSize: '0.6rem' }}
-          className="flex items-center justify-center border-b border-indigo-300/60 text-purple-200 leading-none"
-        >
-          {code[1]}
-        </span>
-        {/* 右欄：code[3]，span 2 rows */}
-        <span
-          style={{ gridColumn: '3', gridRow: '1 / span 2' }}
-          className="flex items-center justify-center border-l border-indigo-300/70 text-indigo-100 font-bold text-sm leading-none vhs-glow"
-        >
-          {code[3]}
-        </span>
-        {/* 中欄下：code[2] */}
-        <span
-          style={{ gridColumn: '2', gridRow: '2', fontSize: '0.6rem' }}
-          className="flex items-center justify-center text-purple-200 leading-none"
-        >
-          {code[2]}
-        </span>
-      </div>
-      {showAnnotation && (
-        <span className="text-xs text-purple-300/90 leading-none vhs-glow">{char}</span>
-      )}
-    </div>
+export default function App() {
+  const [input, setInput] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [showAnnotation, setShowAnnotation] = useState(false);
+  const [blockMode, setBlockMode] = useState(false);
+  const [format, setFormat] = useState<OutputFormat>(DEFAULT_FORMAT);
+  const [variant, setVariant] = useState<Big5Variant>(DEFAULT_VARIANT);
+  const [normalize, setNormalize] = useState<NormalizeOptions>(DEFAULT_NORMALIZE);
+  const [eudc, setEudc] = useState<EudcEntry[]>(INITIAL_EUDC);
+  const table = getTable(variant);
+  const [replacement, setReplacement] = useState('?');
+  const [fileNotice, setFileNotice] = useState('');
+  const [byteErrors, setByteErrors] = useState<ByteError[]>([]);
+  const [fileFailed, setFileFailed] = useState(false);
+  const [simplifiedInput, setSimplifiedInput] = useState(false);
+  const [taiwanPhrases, setTaiwanPhrases] = useState(true);
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [historyNotice, setHistoryNotice] = useState('');
+  const online = useOnlineStatus();
+  const [lookupCells, setLookupCells] = useState<string[]>(['', '', '', '']);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const historyIdRef = useRef<number | undefined>(undefined);
+  const lastSavedRef = useRef('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  // 簡轉繁 → 正規化 → 編碼 → 診斷，在 Worker 中執行；開啟簡轉繁時以轉換（含使用者選定的候選）後的文字編碼
+  const request = useMemo(
+    (): ConversionRequest => ({
+      input,
+      format: { ...format, annotate: showAnnotation },
+      variant,
+      normalize,
+      userMappings: eudc.map(({ code, char }) => ({ code, char })),
+      traditional: simplifiedInput ? { taiwan: taiwanPhrases, choices } : null,
+    }),
+    [input, format, showAnnotation, variant, normalize, eudc, simplifiedInput, taiwanPhrases, choices]
+  );
+  const {
+    result: { segments, source, lines: codeLines, text: textOutput, diagnostics },
+    pending,
+    error: conversionError,
+  } = useConversion(request);
+
+  // 轉換紀錄：停止輸入後自動儲存，同一段編輯持續更新同一筆；離線或伺服器不可用時略過
+  const conversion = useMemo(
+    (): Conversion => ({ input, format: { ...format, annotate: showAnnotation }, variant }),
+    [input, format, showAnnotation, variant]
   );
-}
-
-// ─── 反向查找元件 ─────────────────────────────────────────────────────────────
-function ReverseLookup() {
-  const [cells, setCells] = useState<string[]>(['', '', '', '']);
-  const refs = [
-    useRef<HTMLInputElement>(null),
-    useRef<HTMLInputElement>(null),
-    useRef<HTMLInputElement>(null),
-    useRef<HTMLInputElement>(null),
-  ];
-
-  const code = cells.map(c => c.toUpperCase()).join('');
-  const isComplete = /^[0-9A-F]{4}$/.test(code);
-  const resultChar = isComplete ? REVERSE_MAPPING.get(code) : undefined;
-
-  const handleChange = (idx: number, raw: string) => {
-    const hex = raw.replace(/[^0-9A-Fa-f]/g, '').toUpperCase().slice(-1);
-    const next = [...cells];
-    next[idx] = hex;
-    setCells(next);
-    if (hex && idx < 3) refs[idx + 1].current?.focus();
-  };
 
-  const handleKeyDown = (idx: number, e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Backspace') {
-      e.preventDefault();
-      if (cells[idx]) {
-        const next = [...cells];
-        next[idx] = '';
-        setCells(next);
-      } else if (idx > 0) {
-        refs[idx - 1].current?.focus();
+  useEffect(() => {
+    const snapshot = JSON.stringify(conversion);
+    if (!online || !conversion.input.trim() || snapshot === lastSavedRef.current) return;
+    const timer = setTimeout(() => {
+      if (exceedsBodyLimit(snapshot)) {
+        setHistoryNotice('輸入超過 1 MB，未自動儲存到轉換紀錄');
+        return;
       }
-    } else if (e.key === 'ArrowRight' && idx < 3) {
-      e.preventDefault();
-      refs[idx + 1].current?.focus();
-    } else if (e.key === 'ArrowLeft' && idx > 0) {
-      e.preventDefault();
-      refs[idx - 1].current?.focus();
-    }
+      setHistoryNotice('');
+      saveHistory(conversion, historyIdRef.current)
+        .then(entry => {
+          historyIdRef.current = entry.id;
+          lastSavedRef.current = snapshot;
+        })
+        .catch(() => {
+          historyIdRef.current = undefined;
+        });
+    }, HISTORY_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [conversion, online]);
+
+  // 分享連結：開啟時與 hash 變動時還原畫面
+  useEffect(() => {
+    const restore = () =>
+      decodePermalink(window.location.hash).then(state => {
+        if (!state) return;
+        historyIdRef.current = undefined;
+        setInput(state.input);
+        setBlockMode(state.blockMode);
+        setShowAnnotation(state.showAnnotation);
+        setLookupCells([...state.lookup.padEnd(4)].map(c => c.replace(/[?\s]/, '')));
+        setVariant(state.variant);
+        setFormat(state.format);
+        setChoices({});
+      });
+    restore();
+    window.addEventListener('hashchange', restore);
+    return () => window.removeEventListener('hashchange', restore);
+  }, []);
+
+  const handleCopyLink = async () => {
+    const hash = await encodePermalink({
+      input,
+      blockMode,
+      showAnnotation,
+      // 空格存成 ?，讓後面的格保持原位
+      lookup: lookupCells.map(c => c || '?').join('').replace(/\?+$/, ''),
+      variant,
+      format,
+    });
+    // replaceState 不會觸發 hashchange，畫面不會被重設
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}${hash ? `#${hash}` : ''}`);
+    if (!(await copyText(window.location.href))) return;
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
   };
 
-  const handleClear = () => {
-    setCells(['', '', '', '']);
-    refs[0].current?.focus();
+  // 自訂字：先更新對照表再重新繪製，各元件讀到的 getTable 才會是新的
+  const updateEudc = (entries: EudcEntry[]) => {
+    setUserMappings(entries);
+    saveEudc(entries);
+    setEudc(entries);
   };
 
-  const baseClass =
-    'w-full h-full bg-transparent text-center font-mono font-bold uppercase ' +
-    'outline-none transition-colors ' +
-    'focus:bg-indigo-900/30 placeholder-indigo-700/40';
+  const glyphs = useMemo(
+    () => new Map(eudc.flatMap(({ code, glyph }) => (glyph ? [[code, glyph] as const] : []))),
+    [eudc]
+  );
 
-  return (
-    <div className="flex flex-col items-center gap-6">
-      <div className="flex items-center gap-8 flex-wrap justify-center">
-
-        {/* 可輸入方塊字格 */}
-        <div
-          className="border-2 border-indigo-300/70 rounded-lg overflow-hidden vhs-glow-box"
-          style={{
-            display: 'grid',
-            gridTemplateColumns: '1fr 0.65fr 1fr',
-            gridTemplateRows: '1fr 1fr',
-            width: '5.5rem',
-            height: '4.75rem',
-            background: 'rgba(15, 10, 40, 0.8)',
-          }}
-        >
-          <input
-            ref={refs[0]}
-            value={cells[0]}
-            onChange={e => handleChange(0, e.target.value)}
-            onKeyDown={e => handleKeyDown(0, e)}
-            maxLength={2}
-            placeholder="·"
-            style={{ gridColumn: '1', gridRow: '1 / span 2', fontSize: '1.1rem' }}
-            className={`${baseClass} border-r-2 border-indigo-300/60 text-indigo-100`}
-          />
-          <input
-            ref={refs[1]}
-            value={cells[1]}
-            onChange={e => handleChange(1, e.target.value)}
-            onKeyDown={e => handleKeyDown(1, e)}
-            maxLength={2}
-            placeholder="·"
-            style={{ gridColumn: '2', gridRow: '1', fontSize: '0.7rem' }}
-            className={`${baseClass} border-b border-indigo-300/50 text-purple-200`}
-          />
-          <input
-            ref={refs[2]}
-            value={cells[2]}
-            onChange={e => handleChange(2, e.target.value)}
-            onKeyDown={e => handleKeyDown(2, e)}
-            maxLength={2}
-            placeholder="·"
-            style={{ gridColumn: '2', gridRow: '2', fontSize: '0.7rem' }}
-            className={`${baseClass} text-purple-200`}
-          />
-          <input
-            ref={refs[3]}
-            value={cells[3]}
-            onChange={e => handleChange(3, e.target.value)}
-            onKeyDown={e => handleKeyDown(3, e)}
-            maxLength={2}
-            placeholder="·"
-            style={{ gridColumn: '3', gridRow: '1 / span 2', fontSize: '1.1rem' }}
-            className={`${baseClass} border-l-2 border-indigo-300/60 text-indigo-100`}
-          />
-        </div>
+  const handleLoad = ({ input, format, variant }: Conversion) => {
+    historyIdRef.current = undefined;
+    lastSavedRef.current = JSON.stringify({ input, format, variant });
+    setInput(input);
+    setFormat(format);
+    setShowAnnotation(format.annotate);
+    setVariant(variant);
+    setChoices({});
+    setFileNotice('');
+    setFileFailed(false);
+    setByteErrors([]);
+  };
 
-        {/* 箭頭 */}
-        <span className="text-indigo-300 text-2xl select-none vhs-glow">→</span>
+  const handleLoadText = (text: string) => {
+    historyIdRef.current = undefined;
+    setInput(text);
+    setChoices({});
+    setFileNotice('');
+    setFileFailed(false);
+    setByteErrors([]);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
 
-        {/* 查找結果 */}
-        <div className="flex flex-col items-center gap-2">
-          <div
-            className={`w-20 h-20 border-2 rounded-xl flex items-center justify-center transition-all ${
-              isComplete && resultChar
-                ? 'border-indigo-400/60 vhs-glow-box'
-                : isComplete
-                ? 'border-red-500/30 bg-red-900/20'
-                : 'border-indigo-500/20'
-            }`}
-            style={{
-              background: isComplete && resultChar
-                ? 'rgba(20, 15, 50, 0.8)'
-                : isComplete
-                ? undefined
-                : 'rgba(15, 10, 35, 0.5)',
-            }}
-          >
-            {isComplete && resultChar ? (
-              <span className="text-4xl text-indigo-100 leading-none vhs-glow">{resultChar}</span>
-            ) : isComplete ? (
-              <span className="text-sm text-red-400/80 text-center px-1">查無此碼</span>
-            ) : (
-              <span className="text-4xl text-indigo-800/40 select-none">?</span>
-            )}
-          </div>
-          {isComplete && resultChar && (
-            <span className="text-xs font-mono text-indigo-200/80 tracking-widest vhs-glow">{code}</span>
-          )}
-        </div>
-      </div>
+  const handleCopy = async () => {
+    if (!textOutput || !(await copyText(textOutput))) return;
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
 
-      {/* 清除按鈕 */}
-      {cells.some(c => c) && (
-        <button
-          onClick={handleClear}
-          className="flex items-center gap-1.5 text-xs text-indigo-300/80 hover:text-indigo-100 vhs-glow transition-colors"
-        >
-          <Trash2 className="w-3 h-3" />
-          清除
-        </button>
-      )}
-    </div>
-  );
-}
+  // 插入到游標位置（沒有焦點時接在最後）
+  const insertAtCursor = (text: string) => {
+    const textarea = inputRef.current;
+    const start = textarea?.selectionStart ?? input.length;
+    const end = textarea?.selectionEnd ?? input.length;
+    setInput(input.slice(0, start) + text + input.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.setSelectionRange(start + text.length, start + text.length);
+    });
+  };
 
-// ─── 主應用 ───────────────────────────────────────────────────────────────────
-export default function App() {
-  const [input, setInput] = useState('');
-  const [copied, setCopied] = useState(false);
-  const [showAnnotation, setShowAnnotation] = useState(false);
-  const [blockMode, setBlockMode] = useState(false);
+  const handleClear = () => {
+    setInput('');
+    setChoices({});
+    historyIdRef.current = undefined;
+    setFileNotice('');
+    setFileFailed(false);
+    setByteErrors([]);
+  };
 
-  const codeLines = useMemo<CodeEntry[][]>(() => {
-    if (!input) return [];
-    return input.split('\n').map(line =>
-      [...line].map(char => ({
-        code: MAPPING.get(char) ?? '????',
-        char,
-      }))
+  const handleDownload = () => {
+    if (!source) return;
+    let result;
+    try {
+      result = encodeBytes(source, { replacement }, variant);
+    } catch (error) {
+      setFileNotice((error as Error).message);
+      setFileFailed(true);
+      return;
+    }
+    const { bytes, unmapped } = result;
+    downloadBlob(new Blob([bytes], { type: 'text/plain;charset=big5' }), 'big5.txt');
+    setByteErrors([]);
+    setFileFailed(false);
+    setFileNotice(
+      unmapped.length
+        ? `已下載，${unmapped.length} 個字無 Big5 對應（第一個在第 ${unmapped[0].line} 行第 ${unmapped[0].column} 字）`
+        : `已下載 ${bytes.length.toLocaleString()} bytes`
     );
-  }, [input]);
-
-  const textOutput = useMemo(() => {
-    return codeLines
-      .map(line =>
-        line
-          .map(({ code, char }) =>
-            showAnnotation ? `${code}(${char})` : code
-          )
-          .join('★')
-      )
-      .join('\n');
-  }, [codeLines, showAnnotation]);
-
-  const handleCopy = () => {
-    if (!textOutput) return;
-    navigator.clipboard.writeText(textOutput);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
   };
 
-  const handleClear = () => setInput('');
+  const handleUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    let buffer: ArrayBuffer;
+    try {
+      buffer = await file.arrayBuffer();
+    } catch (error) {
+      // 選取後檔案被移除或權限被撤銷
+      setByteErrors([]);
+      setFileFailed(true);
+      setFileNotice(`${file.name}：無法讀取檔案（${(error as Error).message}）`);
+      return;
+    }
+    const { text, errors } = decodeBytes(new Uint8Array(buffer), variant);
+    historyIdRef.current = undefined;
+    setInput(text);
+    setByteErrors(errors);
+    setFileFailed(errors.length > 0);
+    setFileNotice(
+      errors.length
+        ? `${file.name}：${errors.length} 個無效位元組序列`
+        : `${file.name}：已以 Big5 解碼`
+    );
+  };
 
   return (
     <div className="min-h-screen text-indigo-200 font-sans p-4 md:p-8 vhs-glitch-secondary">
       <div className="max-w-4xl mx-auto">
 
+        {/* 轉換紀錄 */}
+        <button
+          onClick={() => setHistoryOpen(v => !v)}
+          title={online ? historyNotice || '轉換紀錄與片段' : '轉換紀錄與片段（離線中，需要伺服器）'}
+          className="fixed top-4 right-4 z-30 flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border border-indigo-400/50 text-indigo-200/80 hover:border-indigo-300/70 vhs-glow transition-all"
+          style={{ background: 'rgba(12, 8, 32, 0.7)' }}
+        >
+          <History className="w-3.5 h-3.5" />
+          History
+        </button>
+        <AnimatePresence>
+          {historyOpen && (
+            <HistorySidebar
+              current={conversion}
+              notice={historyNotice}
+              onLoad={handleLoad}
+              onClose={() => setHistoryOpen(false)}
+            />
+          )}
+        </AnimatePresence>
+
         {/* 標題 */}
         <header className="mb-10 text-center">
           <h1
@@ -308,6 +345,19 @@ export default function App() {
           <p className="text-indigo-200/80 text-sm tracking-widest uppercase vhs-glow">
             Convert Traditional Chinese characters to Big5 hex codes
           </p>
+          <select
+            value={variant}
+            onChange={e => setVariant(e.target.value as Big5Variant)}
+            title="編碼變體"
+            className={`mt-4 ${selectClass}`}
+            style={{ background: 'rgba(12, 8, 32, 0.5)' }}
+          >
+            {BIG5_VARIANTS.map(id => (
+              <option key={id} value={id} style={{ background: '#0c0820' }}>
+                {BIG5_VARIANT_LABELS[id]}
+              </option>
+            ))}
+          </select>
         </header>
 
         {/* ── 正向轉換：中文 → Big5 ── */}
@@ -319,15 +369,59 @@ export default function App() {
             animate={{ opacity: 1, y: 0 }}
             className="flex flex-col space-y-2"
           >
-            <label
-              htmlFor="input"
-              className="text-sm font-medium text-indigo-100 uppercase tracking-wider vhs-glow ml-1"
-            >
-              Input (Traditional Chinese)
-            </label>
+            <div className="flex items-center justify-between gap-2 ml-1">
+              <label
+                htmlFor="input"
+                className="text-sm font-medium text-indigo-100 uppercase tracking-wider vhs-glow"
+              >
+                Input (Traditional Chinese)
+              </label>
+              <div className="flex items-center justify-end gap-2 flex-wrap">
+                <select
+                  value={replacement}
+                  onChange={e => setReplacement(e.target.value)}
+                  title="無對應字的取代方式"
+                  className={selectClass}
+                  style={{ background: 'rgba(12, 8, 32, 0.5)' }}
+                >
+                  {REPLACEMENT_OPTIONS.map(({ value, label }) => (
+                    <option key={label} value={value} style={{ background: '#0c0820' }}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleDownload}
+                  disabled={!input}
+                  title="下載 Big5 (CP950) 檔案"
+                  className="flex items-center gap-1.5 px-3 py-1 rounded-lg text-xs font-medium border transition-all text-indigo-200/80 border-indigo-400/50 hover:border-indigo-300/70 disabled:opacity-40 vhs-glow"
+                  style={{ background: 'rgba(12, 8, 32, 0.5)' }}
+                >
+                  <Download className="w-3 h-3" />
+                  下載
+                </button>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  title="上傳 Big5 (CP950) .txt 檔案"
+                  className="flex items-center gap-1.5 px-3 py-1 rounded-lg text-xs font-medium border transition-all text-indigo-200/80 border-indigo-400/50 hover:border-indigo-300/70 vhs-glow"
+                  style={{ background: 'rgba(12, 8, 32, 0.5)' }}
+                >
+                  <Upload className="w-3 h-3" />
+                  上傳
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".txt,text/plain"
+                  onChange={handleUpload}
+                  className="hidden"
+                />
+              </div>
+            </div>
             <div className="relative group">
               <textarea
                 id="input"
+                ref={inputRef}
                 value={input}
                 onChange={e => setInput(e.target.value)}
                 className="w-full h-64 p-4 rounded-2xl border border-indigo-300/60 focus:border-indigo-200/80 focus:ring-0 resize-none transition-all text-lg leading-relaxed text-indigo-50 placeholder-indigo-500/50 vhs-glow-box"
@@ -344,6 +438,48 @@ export default function App() {
                 </button>
               )}
             </div>
+            <div className="flex items-center gap-2 ml-1 flex-wrap">
+              <button
+                onClick={() => setSimplifiedInput(v => !v)}
+                title="編碼前先將簡體轉為繁體"
+                className={`flex items-center gap-1.5 px-3 py-1 rounded-lg text-xs font-medium border transition-all ${
+                  simplifiedInput
+                    ? 'bg-indigo-500/50 text-indigo-50 border-indigo-400/70 vhs-glow'
+                    : 'text-indigo-200/80 border-indigo-400/50 hover:border-indigo-300/70 vhs-glow'
+                }`}
+                style={!simplifiedInput ? { background: 'rgba(12, 8, 32, 0.5)' } : undefined}
+              >
+                <Languages className="w-3 h-3" />
+                簡→繁
+              </button>
+              {simplifiedInput && (
+                <label className="flex items-center gap-1.5 text-xs text-indigo-200/80 cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={taiwanPhrases}
+                    onChange={e => setTaiwanPhrases(e.target.checked)}
+                    className="accent-indigo-400"
+                  />
+                  台灣用詞
+                </label>
+              )}
+              <NormalizeSelect options={normalize} onChange={setNormalize} />
+            </div>
+            {fileNotice && (
+              <p className={`ml-1 text-xs ${fileFailed ? 'text-red-300/80' : 'text-indigo-300/80'}`}>
+                {fileNotice}
+              </p>
+            )}
+            {byteErrors.length > 0 && (
+              <ul className="ml-1 max-h-32 overflow-auto font-mono text-xs text-red-300/70 space-y-0.5">
+                {byteErrors.slice(0, MAX_LISTED_BYTE_ERRORS).map(error => (
+                  <li key={error.offset}>{formatByteError(error)}</li>
+                ))}
+                {byteErrors.length > MAX_LISTED_BYTE_ERRORS && (
+                  <li>… 另有 {byteErrors.length - MAX_LISTED_BYTE_ERRORS} 個</li>
+                )}
+              </ul>
+            )}
           </motion.div>
 
           {/* Output */}
@@ -353,14 +489,19 @@ export default function App() {
             transition={{ delay: 0.1 }}
             className="flex flex-col space-y-2"
           >
-            <div className="flex items-center justify-between ml-1">
+            <div className="flex items-center justify-between gap-2 ml-1">
               <label
                 htmlFor="output"
                 className="text-sm font-medium text-indigo-100 uppercase tracking-wider vhs-glow"
               >
                 Output (Big5 Hex)
+                {pending && <span className="ml-2 normal-case tracking-normal text-xs text-indigo-300/70">轉換中…</span>}
+                {conversionError && (
+                  <span className="ml-2 normal-case tracking-normal text-xs text-red-300/80">轉換失敗：{conversionError}</span>
+                )}
               </label>
-              <div className="flex items-center gap-2">
+              <div className="flex items-center justify-end gap-2 flex-wrap">
+                <FormatSelect format={format} onChange={setFormat} />
                 <button
                   onClick={() => setBlockMode(v => !v)}
                   title="方塊字顯示模式"
@@ -374,6 +515,21 @@ export default function App() {
                   <LayoutGrid className="w-3 h-3" />
                   方塊字
                 </button>
+                {blockMode && (
+                  <button
+                    onClick={() => setExportOpen(v => !v)}
+                    title="匯出方塊字圖片"
+                    className={`flex items-center gap-1.5 px-3 py-1 rounded-lg text-xs font-medium border transition-all ${
+                      exportOpen
+                        ? 'bg-indigo-500/50 text-indigo-50 border-indigo-400/70 vhs-glow'
+                        : 'text-indigo-200/80 border-indigo-400/50 hover:border-indigo-300/70 vhs-glow'
+                    }`}
+                    style={!exportOpen ? { background: 'rgba(12, 8, 32, 0.5)' } : undefined}
+                  >
+                    <ImageDown className="w-3 h-3" />
+                    匯出
+                  </button>
+                )}
                 <button
                   onClick={() => setShowAnnotation(v => !v)}
                   title="顯示/隱藏中文註記"
@@ -390,53 +546,68 @@ export default function App() {
               </div>
             </div>
 
+            {blockMode && exportOpen && <BlockExportPanel lines={codeLines} annotate={showAnnotation} />}
+
             <div className="relative group">
               {blockMode ? (
-                <div
-                  className="w-full h-64 p-4 rounded-2xl border border-indigo-300/60 shadow-inner overflow-auto vhs-glow-box"
-                  style={{ background: 'rgba(8, 5, 25, 0.7)' }}
-                >
-                  {codeLines.length === 0 ? (
-                    <p className="text-indigo-700/50 text-sm">Result will appear here...</p>
-                  ) : (
-                    codeLines.map((line, li) => (
-                      <div key={li} className="flex flex-wrap gap-2 mb-3 last:mb-0">
-                        {line.map((entry, ci) => (
-                          <CodeBlock key={ci} {...entry} showAnnotation={showAnnotation} />
-                        ))}
-                      </div>
-                    ))
-                  )}
-                </div>
+                <BlockOutput lines={codeLines} showAnnotation={showAnnotation} />
               ) : (
-                <textarea
-                  id="output"
-                  value={textOutput}
-                  readOnly
-                  className="w-full h-64 p-4 rounded-2xl border border-indigo-300/60 focus:border-indigo-200/80 focus:ring-0 resize-none shadow-inner font-mono text-sm leading-relaxed text-indigo-100 placeholder-indigo-500/50 vhs-glow-box"
-                  style={{ background: 'rgba(8, 5, 25, 0.7)' }}
-                  placeholder="Result will appear here..."
-                />
+                <TextOutput text={textOutput} />
               )}
 
               {textOutput && (
-                <button
-                  onClick={handleCopy}
-                  className="absolute top-3 right-3 p-2 rounded-lg text-indigo-200 border border-indigo-300/60 transition-all flex items-center gap-2 hover:bg-indigo-800/30"
-                  style={{ background: 'rgba(15, 10, 40, 0.8)' }}
-                  title="Copy to clipboard"
-                >
-                  {copied ? (
-                    <span className="text-xs font-medium text-emerald-400">Copied!</span>
-                  ) : (
-                    <Copy className="w-4 h-4" />
-                  )}
-                </button>
+                <div className="absolute top-3 right-3 flex items-center gap-2">
+                  <button
+                    onClick={handleCopyLink}
+                    className="p-2 rounded-lg text-indigo-200 border border-indigo-300/60 transition-all flex items-center gap-2 hover:bg-indigo-800/30"
+                    style={{ background: 'rgba(15, 10, 40, 0.8)' }}
+                    title="Copy link to this view"
+                  >
+                    {linkCopied ? (
+                      <span className="text-xs font-medium text-emerald-400">Link copied!</span>
+                    ) : (
+                      <Link className="w-4 h-4" />
+                    )}
+                  </button>
+                  <button
+                    onClick={handleCopy}
+                    className="p-2 rounded-lg text-indigo-200 border border-indigo-300/60 transition-all flex items-center gap-2 hover:bg-indigo-800/30"
+                    style={{ background: 'rgba(15, 10, 40, 0.8)' }}
+                    title="Copy to clipboard"
+                  >
+                    {copied ? (
+                      <span className="text-xs font-medium text-emerald-400">Copied!</span>
+                    ) : (
+                      <Copy className="w-4 h-4" />
+                    )}
+                  </button>
+                </div>
               )}
             </div>
           </motion.div>
         </div>
 
+        {/* ── 簡轉繁確認 ── */}
+        {segments && (
+          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="mt-6">
+            <TraditionalReview
+              segments={segments}
+              choices={choices}
+              onChoose={(key, text) => setChoices(c => ({ ...c, [key]: text }))}
+            />
+          </motion.div>
+        )}
+
+        {/* ── 無對應字診斷 ── */}
+        {diagnostics.length > 0 && (
+          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="mt-6">
+            <DiagnosticsPanel
+              diagnostics={diagnostics}
+              onApply={(char, substitute) => setInput(text => applySubstitution(text, char, substitute))}
+            />
+          </motion.div>
+        )}
+
         {/* ── 反向查找：Big5 → 中文 ── */}
         <motion.div
           initial={{ opacity: 0 }}
@@ -448,7 +619,91 @@ export default function App() {
             <Search className="w-4 h-4" />
             反向查找 Big5 → 中文
           </h2>
-          <ReverseLookup />
+          <ReverseLookup variant={variant} glyphs={glyphs} cells={lookupCells} onCellsChange={setLookupCells} />
+        </motion.div>
+
+        {/* ── 碼表瀏覽 ── */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.27 }}
+          className="mt-10 border-t border-indigo-300/60 pt-8"
+        >
+          <h2 className="text-center text-sm font-medium text-indigo-300 uppercase tracking-wider mb-6 flex items-center justify-center gap-2 vhs-glow">
+            <Grid3x3 className="w-4 h-4" />
+            碼表瀏覽 Code Page
+          </h2>
+          <CodePageBrowser variant={variant} onInsert={insertAtCursor} />
+        </motion.div>
+
+        {/* ── 造字區自訂字 ── */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.27 }}
+          className="mt-10 border-t border-indigo-300/60 pt-8"
+        >
+          <h2 className="text-center text-sm font-medium text-indigo-300 uppercase tracking-wider mb-6 flex items-center justify-center gap-2 vhs-glow">
+            <PenTool className="w-4 h-4" />
+            造字區 EUDC
+          </h2>
+          <EudcManager entries={eudc} onChange={updateEudc} onInsert={insertAtCursor} />
+        </motion.div>
+
+        {/* ── 字元搜尋 ── */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.27 }}
+          className="mt-10 border-t border-indigo-300/60 pt-8"
+        >
+          <h2 className="text-center text-sm font-medium text-indigo-300 uppercase tracking-wider mb-6 flex items-center justify-center gap-2 vhs-glow">
+            <ScanSearch className="w-4 h-4" />
+            字元搜尋 部首 / 筆畫 / 碼位
+          </h2>
+          <CharacterSearch variant={variant} onInsert={insertAtCursor} />
+        </motion.div>
+
+        {/* ── 整段解碼：Big5 hex → 中文 ── */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.28 }}
+          className="mt-10 border-t border-indigo-300/60 pt-8"
+        >
+          <h2 className="text-center text-sm font-medium text-indigo-300 uppercase tracking-wider mb-6 flex items-center justify-center gap-2 vhs-glow">
+            <FileText className="w-4 h-4" />
+            整段解碼 Big5 → 中文
+          </h2>
+          <BulkDecode variant={variant} />
+        </motion.div>
+
+        {/* ── Big5 比對 ── */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.29 }}
+          className="mt-10 border-t border-indigo-300/60 pt-8"
+        >
+          <h2 className="text-center text-sm font-medium text-indigo-300 uppercase tracking-wider mb-6 flex items-center justify-center gap-2 vhs-glow">
+            <GitCompare className="w-4 h-4" />
+            比對 Big5 Compare
+          </h2>
+          <CompareView variant={variant} />
+        </motion.div>
+
+        {/* ── 亂碼修復 ── */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.29 }}
+          className="mt-10 border-t border-indigo-300/60 pt-8"
+        >
+          <h2 className="text-center text-sm font-medium text-indigo-300 uppercase tracking-wider mb-6 flex items-center justify-center gap-2 vhs-glow">
+            <WandSparkles className="w-4 h-4" />
+            亂碼修復 Mojibake
+          </h2>
+          <MojibakeRepair variant={variant} onUse={handleLoadText} />
         </motion.div>
 
         {/* ── Footer ── */}
@@ -462,9 +717,26 @@ export default function App() {
             className="inline-flex items-center gap-2 px-4 py-2 rounded-full text-xs text-indigo-300/70 border border-indigo-400/40 vhs-timestamp"
             style={{ background: 'rgba(10, 6, 30, 0.6)' }}
           >
-            <span>Data Source: moztw.org (CP950)</span>
+            <span title={`SHA-256 ${table.checksum}`}>
+              Data Source: {table.source} · {table.checksum.slice(0, 8)}
+            </span>
             <span className="w-1 h-1 bg-indigo-600/30 rounded-full"></span>
-            <span>{MAPPING.size.toLocaleString()} characters loaded</span>
+            <span>{table.mapping.size.toLocaleString()} characters loaded</span>
+            {table.userMappings > 0 && (
+              <>
+                <span className="w-1 h-1 bg-indigo-600/30 rounded-full"></span>
+                <span>{table.userMappings} EUDC</span>
+              </>
+            )}
+            {!online && (
+              <>
+                <span className="w-1 h-1 bg-indigo-600/30 rounded-full"></span>
+                <span className="flex items-center gap-1 text-amber-300/80" title="轉換照常可用；轉換紀錄與片段需要伺服器">
+                  <WifiOff className="w-3 h-3" />
+                  Offline
+                </span>
+              </>
+            )}
           </div>
         </motion.div>
 
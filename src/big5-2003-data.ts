@@ -0,0 +1,6 @@
+// Generated by scripts/generate-big5-data.ts from data/big5-2003-u2b.txt. Do not edit.
+export const BIG5_SOURCE = "GNU libiconv (BIG5-2003)";
+export const BIG5_SOURCE_URL = "https://www.gnu.org/software/libiconv/";
+export const BIG5_CHECKSUM = "568abf9cf418ba4cc708dd55d71634cdb9d9d1194eac46500eabb189db7d7969";
+export const BIG5_DATA = "AACnobEAAKjG2AAAsKJYAACxodMAALehUAAA16HRAAD3odIAAsejvgACyaO8AALKo70AAsujvwACzaHFAALZo7sAA5GjRAADkqNFAAOTo0YAA5SjRwADlaNIAAOWo0kAA5ejSgADmKNLAAOZo0wAA5qjTQADm6NOAAOco08AA52jUAADnqNRAAOfo1IAA6CjUwADoaNUAAOjo1UAA6SjVgADpaNXAAOmo1gAA6ejWQADqKNaAAOpo1sAA7GjXAADsqNdAAOzo14AA7SjXwADtaNgAAO2o2EAA7ejYgADuKNjAAO5o2QAA7qjZQADu6NmAAO8o2cAA72jaAADvqNpAAO/o2oAA8CjawADwaNsAAPDo20AA8SjbgADxaNvAAPGo3AAA8ejcQADyKNyAAPJo3MAIBShWAAgFaFWACAYoaUAIBmhpgAgHKGnACAdoagAICWhTAAgJqFLACAnoUUAIDKhrAAgNaGrACA7obAAID6hwgAgrKPhACEDokoAIQWhwQAhCaJLACFgorkAIWGiugAhYqK7ACFjorwAIWSivQAhZaK+ACFmor8AIWeiwAAhaKLBACFposIAIXDGtQAhcca2ACFyxrcAIXPGuAAhdMa5ACF1xroAIXbGuwAhd8a8ACF4xr0AIXnGvgAhkKH2ACGRofQAIZKh9wAhk6H1ACGWofgAIZeh+QAhmKH7ACGZofoAIhWiQQAiGqHUACIeodsAIh+h6AAiIKHnACIjof0AIiWh/AAiKaHkACIqoeUAIiuh7AAiLqHtACI0oe8AIjWh7gAiUqHcACJgodoAImGh3QAiZqHYACJnodkAIpWh8gAimaHzACKloeYAIr+h6QAkAKPAACQBo8EAJAKjwgAkA6PDACQEo8QAJAWjxQAkBqPGACQHo8cAJAijyAAkCaPJACQKo8oAJAujywAkDKPMACQNo80AJA6jzgAkD6PPACQQo9AAJBGj0QAkEqPSACQTo9MAJBSj1AAkFaPVACQWo9YAJBej1wAkGKPYACQZo9kAJBqj2gAkG6PbACQco9wAJB2j3QAkHqPeACQfo98AJCGj4AAkYMahACRhxqIAJGLGowAkY8akACRkxqUAJGXGpgAkZsanACRnxqgAJGjGqQAkacaqACR0xqsAJHXGrAAkdsatACR3xq4AJHjGrwAkecawACR6xrEAJHvGsgAkfMazACR9xrQAJQCidwAlAaKkACUCongAJQyiegAlEKJ7ACUUonwAJRiifQAlHKJ1ACUdoqUAJSSidAAlJaKnACUsonMAJTSicgAlPKJxACU/oqYAJVD5+QAlUfn4ACVS+eYAJVP57wAlVPndACVV+egAJVb58QAlV/nfACVY+ewAJVn59QAlWvnjACVb+e4AJVz59wAlXfnlACVe+ekAJV/58gAlYPngACVh+esAJWL59AAlY/niACVk+ecAJWX58AAlZvneACVn+e0AJWj59gAlafnkACVq+eoAJWv58wAlbPnhACVton4AJW6ioQAlb6KjACVwoqIAJXGirAAlcqKtACVzoq4AJXShWgAlgaJiACWComMAJYOiZAAlhKJlACWFomYAJYaiZwAlh6JoACWIomkAJYmicAAliqJvACWLom4AJYyibQAljaJsACWOomsAJY+iagAlk/n+ACWUonYAJZWieQAloKG9ACWhobwAJbKhtgAls6G1ACW8ob8AJb2hvgAlxqG7ACXHoboAJcuhswAlzqG3ACXPobQAJeKiqAAl46KpACXkoqsAJeWiqgAmBaG5ACYGobgAJkCh8AAmQqHxACc9xuYALwLGvwAvA8bAAC8FxsEALwfGwgAvDMbDAC8NxsQALw7GxQAvE8bGAC8WxscALxnGyAAvG8bJAC8ixsoALyfGywAvLsbMAC8zxs0ALzTGzgAvNcbPAC85xtAALzrG0QAvQcbSAC9GxtMAL2fG1AAvaMbVAC+hxtYAL6rG1wAwAKFAADABoUIAMAKhQwAwA6GyADAFxuAAMAbG4QAwB8biADAIoXEAMAmhcgAwCqFtADALoW4AMAyhdQAwDaF2ADAOoXkAMA+hegAwEKFpADARoWoAMBKiRQAwFKFlADAVoWYAMB2hqQAwHqGqADAhosMAMCKixAAwI6LFADAkosYAMCWixwAwJqLIADAnoskAMCiiygAwKaLLADA4oswAMDmizQAwOqLOADBBxucAMELG6AAwQ8bpADBExuoAMEXG6wAwRsbsADBHxu0AMEjG7gAwScbvADBKxvAAMEvG8QAwTMbyADBNxvMAME7G9AAwT8b1ADBQxvYAMFHG9wAwUsb4ADBTxvkAMFTG+gAwVcb7ADBWxvwAMFfG/QAwWMb+ADBZx0AAMFrHQQAwW8dCADBcx0MAMF3HRAAwXsdFADBfx0YAMGDHRwAwYcdIADBix0kAMGPHSgAwZMdLADBlx0wAMGbHTQAwZ8dOADBox08AMGnHUAAwasdRADBrx1IAMGzHUwAwbcdUADBux1UAMG/HVgAwcMdXADBxx1gAMHLHWQAwc8daADB0x1sAMHXHXAAwdsddADB3x14AMHjHXwAwecdgADB6x2EAMHvHYgAwfMdjADB9x2QAMH7HZQAwf8dmADCAx2cAMIHHaAAwgsdpADCDx2oAMITHawAwhcdsADCGx20AMIfHbgAwiMdvADCJx3AAMIrHcQAwi8dyADCMx3MAMI3HdAAwjsd1ADCPx3YAMJDHdwAwkcd4ADCSx3kAMJPHegAwncbcADCext0AMKHHewAwosd8ADCjx30AMKTHfgAwpcehADCmx6IAMKfHowAwqMekADCpx6UAMKrHpgAwq8enADCsx6gAMK3HqQAwrseqADCvx6sAMLDHrAAwscetADCyx64AMLPHrwAwtMewADC1x7EAMLbHsgAwt8ezADC4x7QAMLnHtQAwuse2ADC7x7cAMLzHuAAwvce5ADC+x7oAML/HuwAwwMe8ADDBx70AMMLHvgAww8e/ADDEx8AAMMXHwQAwxsfCADDHx8MAMMjHxAAwycfFADDKx8YAMMvHxwAwzMfIADDNx8kAMM7HygAwz8fLADDQx8wAMNHHzQAw0sfOADDTx88AMNTH0AAw1cfRADDWx9IAMNfH0wAw2MfUADDZx9UAMNrH1gAw28fXADDcx9gAMN3H2QAw3sfaADDfx9sAMODH3AAw4cfdADDix94AMOPH3wAw5MfgADDlx+EAMObH4gAw58fjADDox+QAMOnH5QAw6sfmADDrx+cAMOzH6AAw7cfpADDux+oAMO/H6wAw8MfsADDxx+0AMPLH7gAw88fvADD0x/AAMPXH8QAw9sfyADD8xuMAMP3G2gAw/sbbADEFo3QAMQajdQAxB6N2ADEIo3cAMQmjeAAxCqN5ADELo3oAMQyjewAxDaN8ADEOo30AMQ+jfgAxEKOhADERo6IAMRKjowAxE6OkADEUo6UAMRWjpgAxFqOnADEXo6gAMRijqQAxGaOqADEao6sAMRujrAAxHKOtADEdo64AMR6jrwAxH6OwADEgo7EAMSGjsgAxIqOzADEjo7QAMSSjtQAxJaO2ADEmo7cAMSejuAAxKKO5ADEpo7oAMqOhwAAzjqJVADOPolYAM5yiUAAznaJRADOeolIAM6GiVAAzxKJXADPOolMAM9Gh6wAz0qHqADPVok8ATgCkQABOAaRCAE4DpEMATgfJRQBOCKRWAE4JpFQATgqkVwBOC6RVAE4MyUYATg2kowBODslPAE4PyU0AThCkogBOEaShAE4UpUIAThWlQQBOFqVAAE4YpUMAThmk/gBOHqXgAE4fpeEATiaowwBOK6RYAE4tpKQATi7JUABOMKSlAE4xyWMATjKm6gBOM8uxAE44pFkATjmkpgBOO6VEAE48yWQATkLJQABOQ6REAE5FpFsATkfJRwBOSKRcAE5LpKcATk2lRQBOTqVHAE5PpUYATlKl4gBOU6XjAE5WqMQATlitvABOWaRBAE5cyUEATl2kRQBOXqReAE5fpF0ATmml5ABOc6jFAE5+sK4ATn/USwBOgrbDAE6D3LEAToTcsgBOhqRGAE6IpKkATouoxgBOjKRHAE6NyUgATo6kXwBOkaSqAE6SpKwATpPJUQBOlKStAE6VpKsATpml5QBOm6jHAE6eqMgATp+rRQBOoaRgAE6ipK4ATqSl5gBOpaXoAE6mpecATqim6wBOq6jJAE6sqMoATq2rRgBOrqtHAE6zrb0ATrbcswBOufbWAE66pEgATsCksABOwaSvAE7CyVIATsOksQBOxKS3AE7GpLIATsekswBOyMlUAE7JyVMATsqktQBOy6S2AE7NpLQATtSlSgBO1aVLAE7WpUwATtelTQBO2KVJAE7ZpVAATtrJagBO3MlmAE7dyWkATt6lUQBO36VhAE7hyWgATuOlTgBO5KVPAE7lpUgATujJZQBO6clnAE7wpfUATvHJsABO8qXyAE7zpfYATvTJugBO9cmuAE72pfMATvfJsgBO+6X0AE79pfcATv+l6QBPAMmxAE8BpfgATwLJtQBPBMm5AE8FybYATwjJswBPCaXqAE8KpewATwul+QBPDaXuAE8OyasATw+l8QBPEKXvAE8RpfAATxLJuwBPE8m4AE8Uya8ATxWl7QBPGMmsAE8ZpesATx3JtABPIsm3AE8sya0ATy3KZgBPL6dCAE8wpvQATzPKZwBPNKbxAE82p0QATzim+QBPOqb4AE87ylsATzym/ABPPab3AE8+ymAATz/KaABPQcpkAE9DpvoAT0am/QBPR6buAE9Ip0cAT0nKXQBPTMu9AE9NpuwAT06nQwBPT6btAE9QpvUAT1Gm9gBPUspiAE9Tyl4AT1Sm+wBPVabzAE9WyloAT1em7wBPWMplAE9Zp0UAT1qnSABPW6byAE9cp0AAT12nRgBPXqbwAE9fymMAT2CnQQBPYcppAE9iylwAT2Om/gBPZMpfAE9nymEAT2mo2ABPasu/AE9ry8sAT2yo0ABPbsvMAE9vqMsAT3Co1QBPc6jOAE90y7kAT3Wo1gBPdsu4AE93y7wAT3jLwwBPecvBAE96qN4AT3uo2QBPfMuzAE99y7UAT36o2wBPf6jPAE+Ay7YAT4HLwgBPgsvJAE+DqNQAT4TLuwBPhcu0AE+GqNMAT4fLtwBPiKjXAE+Jy7oAT4uo0gBPjajNAE+PqNwAT5DLxABPkajdAE+Sy8gAT5TLxgBPlcvKAE+WqNoAT5fLvgBPmMuyAE+ay8AAT5uo0QBPnMvFAE+dqMwAT57LxwBPrqtWAE+vq0oAT7LN4ABPs83oAE+1q0kAT7arUQBPt6tdAE+5ze4AT7rN7ABPu83nAE+/q0sAT8DN7QBPwc3jAE/Cq1kAT8OrUABPxKtYAE/Fzd4AT8fN6gBPyc3hAE/Kq1QAT8vN4gBPzc3dAE/Oq1sAT8+rTgBP0KtXAE/Rq00AT9PN3wBP1M3kAE/WzesAT9erVQBP2KtSAE/ZzeYAT9qrWgBP283pAE/czeUAT92rTwBP3qtcAE/fq1MAT+CrTABP4atIAE/sze8AT+6t1wBP763BAE/xrdEAT/Ot1gBP9NDQAE/10M8AT/bQ1ABP99DVAE/4rcQAT/qtzQBP/q3aAFAArc4AUAXQyQBQBq3HAFAH0MoAUAmt3ABQC63TAFAMrb4AUA2tvwBQDtDdAFAPsL8AUBGtzABQEq3LAFAT0MsAUBStzwBQFdRbAFAWrcYAUBfQ1gBQGK3VAFAZrdQAUBqtygBQG9DOAFAc0NcAUB7QyABQH63JAFAg0NgAUCGt0gBQItDMAFAjrcAAUCWtwwBQJq3CAFAn0NkAUCit0ABQKa3FAFAqrdkAUCut2wBQLNDTAFAtrdgAUC/Q2wBQMNDNAFAx0NwAUDPQ0QBQNdDaAFA30NIAUDytyABQQNRjAFBB1FcAUEOwswBQRdRcAFBG1GIAUEewsgBQSNRVAFBJsLYAUErUWQBQS9RSAFBMsLQAUE3UVgBQTrC5AFBPsL4AUFHUZwBQU9RRAFBVsLoAUFfUZgBQWrC1AFBb1FgAUFywsQBQXdRTAFBe1E8AUF/UXQBQYNRQAFBh1E4AUGLUWgBQY9RgAFBk1GEAUGWwtwBQaNhbAFBp1F4AUGrUTQBQa9RfAFBtsMEAUG7UZABQb7DAAFBw1EwAUHLUVABQc9RlAFB0sLwAUHWwuwBQdrC4AFB3sL0AUHqwrwBQfbCwAFCAs8gAUILYXgBQg9hXAFCFs8UAUIfYXwBQi9hVAFCM2FgAUI2zxABQjthZAFCRs8cAUJLYXQBQlNhTAFCV2FIAUJazyQBQmLPKAFCZs8YAUJqzywBQm9hRAFCc2FwAUJ3YWgBQnthUAFCis8MAUKPYVgBQrLbKAFCttsQAUK7ctwBQr7bNAFCw3L0AULHcwABQsrbGAFCztscAULTcugBQtbbFAFC23MMAULe2ywBQuNzEAFC63L8AULu2zABQvdy0AFC+tskAUL/ctQBQwdy+AFDC3LwAUMTcuABQxbbIAFDG3LYAUMe2zgBQyNy7AFDJ3MIAUMrcuQBQy9zBAFDOubYAUM+5swBQ0bm0AFDT4PkAUNTg8QBQ1bmyAFDWua8AUNfg8gBQ2rmxAFDb4PUAUN3g9wBQ4OD+AFDj4P0AUOTg+ABQ5bmuAFDm4PAAUOe5rABQ6ODzAFDpubcAUOrg9gBQ7OD6AFDtubAAUO65rQBQ7+D8AFDw4PsAUPG5tQBQ8+D0AFD1u/gAUPbk7ABQ+OTpAFD5u/kAUPu79wBQ/eTwAFD+5O0AUP/k5gBRALv2AFECu/oAUQPk5wBRBLv1AFEFu/0AUQbk6gBRB+TrAFEIu/sAUQm7/ABRCuTxAFEL5O4AUQzk7wBREL6qAFER6PgAURK+pwBRE+j1AFEUvqkAURW+qwBRF+j2AFEYvqgAURro9wBRHOj0AFEfwHYAUSDsvQBRIcB3AFEi7LsAUSTsvABRJey6AFEm7LkAUSnsvgBRKsB1AFEt77gAUS7vuQBRMOToAFEx77cAUTLAeABRM8NfAFE08esAUTXx7ABRN8TXAFE4xNgAUTn1wQBROvXAAFE7xWwAUTzFawBRPffQAFE/pEkAUUCkYQBRQaS5AFFDpLgAUUSlUwBRRaVSAFFGpfwAUUel+wBRSKX9AFFJpfoAUUunSgBRTKdJAFFNp0sAUVKo4ABRVKjfAFFVqOEAUVerXgBRWaJZAFFa0N4AUVuiWgBRXLDCAFFdolwAUV6iWwBRX9hgAFFhol0AUWK5uABRY6JeAFFlpEoAUWekugBRaKX+AFFpqOIAUWukSwBRbKS9AFFtpLsAUW6kvABRcaZAAFF1p0wAUXao5ABRd6jjAFF4qOUAUXyt3QBRgL6sAFGHyU4AUYmlVABRiqVVAFGNpkEAUY/KagBRkatgAFGSq18AUZPQ4ABRlNDfAFGVsMMAUZekvgBRmMlVAFGey80AUaCrYQBRoq3gAFGkrd4AUaWt3wBRqr6tAFGspVYAUbCmQgBRscm8AFG2p00AUbenTgBRucprAFG8y84AUb2o5gBRvsvPAFHE0OIAUcXQ4wBRxq3jAFHI0OQAUcrQ4QBRy63kAFHMreIAUc2t4QBRztDlAFHQ1GgAUdTYYQBR19zFAFHY4UAAUdy7/gBR3b6uAFHe6PkAUeCkTABR4aRaAFHwsMQAUfGzzQBR87m5AFH1yUIAUfakvwBR+KVZAFH5pVcAUfqlWABR/ajnAFIApE0AUgGkTgBSA6RiAFIGpMAAUgekwQBSCKTCAFIJyb4AUgqlWgBSDMlrAFIOpkYAUhDJvwBSEaZEAFISpkUAUhPJvQBSFqZHAFIXpkMAUhzKbABSHarsAFIeym0AUiHKbgBSJKdQAFIlp08AUiinUwBSKadRAFIqp1IAUi6o7QBSMKjsAFIxy9QAUjLL0QBSM8vSAFI1y9AAUjao7gBSN6jqAFI4qOkAUjqo6wBSO6joAFJBqO8AUkOrYwBSRM3wAFJGy9MAUkeraABSSc3xAFJKq2QAUkurZwBSTKtmAFJNq2UAUk6rYgBSUtDoAFJUrecAUlXQ6wBSVq3lAFJa0OcAUlut6ABSXK3mAFJdrekAUl7Q6QBSX9DqAFJh0OYAUmLQ7ABSabPRAFJqsMUAUmvUaQBSbNRrAFJt1GoAUm7UbABSb7DGAFJys84AUnSzzwBSdbPQAFJ3ttAAUnjcxwBSetzGAFJ73MgAUnzcyQBSfbbRAFJ/ts8AUoDhQQBSgeFCAFKCubsAUoO5ugBShONaAFKHvEAAUoi8QQBSibxCAFKKvEQAUovk8gBSjOTzAFKNvEMAUpG+rwBSk76wAFKW8e0AUpf1wwBSmPXCAFKZ99EAUpukTwBSn6VcAFKgpVsAUqOmSABSpsnAAFKpp1UAUqqnVgBSq6dUAFKsp1cAUq3KbwBSrspwAFK7qPEAUrzL1QBSvqjwAFLAzfIAUsGrbABSws3zAFLDq2sAUseraQBSyatqAFLN0O0AUtKwxwBS09RuAFLVsMoAUtbUbQBS17HlAFLYsMkAUtmwyABS27PUAFLds9MAUt6z0gBS37bSAFLittUAUuO21gBS5LbUAFLmttMAUunhQwBS6+FEAFLv5PUAUvC8RQBS8eT0AFLzvrEAUvTsvwBS9cB5AFL38e4AUvjEVQBS+qRjAFL7pMMAUvzJVgBS/qTEAFL/pMUAUwWlXQBTBqVeAFMIpkkAUwnKcQBTCsvWAFMLy9cAUw2rbQBTDtDuAFMPsMwAUxCwywBTEdhjAFMS2GIAUxWkUABTFqTGAFMXpV8AUxmwzQBTGslDAFMcyWwAUx2lYABTH8nCAFMgpksAUyGmSgBTIsnBAFMjp1gAUyqt6gBTLdRvAFMvttcAUzDhRQBTMbm8AFM06PoAUzfz/QBTOaTHAFM8y9gAUz3N9ABTPrDQAFM/sM4AU0CwzwBTQaRRAFNDpGQAU0WkygBTR6TJAFNIpMgAU0mlYwBTSqViAFNMyW0AU03JwwBTUaj1AFNSqPIAU1Oo9ABTVKjzAFNXq24AU1qz1QBTXKRSAFNepMsAU2ClZQBTYaVkAFNjynIAU2ao9gBTbMlXAFNupWcAU2+lZgBTcKZMAFNxpk0AU3LKcwBTc6dZAFN1p1oAU3eo9wBTeKj4AFN5qPkAU3urbwBTfM31AFN/resAU4LJRABThKTMAFOKycQAU47KdABTj8p1AFOSy9kAU5TL2gBTls33AFOXzfYAU5jN+QBTmc34AFOaq3AAU5zUcABTna3tAFOe0O8AU5+t7ABTpNhkAFOls9YAU6fYZQBTrOFGAFOtub0AU7K8RgBTtPHvAFO5yVgAU7ulaABTw7DRAFPIpFMAU8mkZQBTyqTOAFPLpM0AU82kzwBT1Kj7AFPWqPoAU9eo/ABT26txAFPfre4AU+Ho+wBT4sJPAFPjpGYAU+SlagBT5aV5AFPmpXQAU+ilbwBT6aVuAFPqpXUAU+ulcwBT7KVsAFPtpXoAU+6lbQBT76VpAFPwpXgAU/GldwBT8qV2AFPzpWsAU/WlcgBT+KVxAFP7pXsAU/ylcABUAaZTAFQDplkAVASmVQBUBqZbAFQHycUAVAimWABUCaZOAFQKplEAVAumVABUDKZQAFQNplcAVA6mWgBUD6ZPAFQQplIAVBGmVgBUEqZcAFQYyn4AVBnKewBUG6dnAFQcynwAVB2nWwBUHqddAFQfp3UAVCCncABUJMqlAFQlyn0AVCanXwBUJ6dhAFQoyqQAVCmnaABUKsp4AFQrp3QAVCyndgBULadcAFQup20AVDDKdgBUMadzAFQzp2QAVDWnbgBUNqdvAFQ3yncAVDinbABUOadqAFQ7p2sAVDyncQBUPcqhAFQ+p14AVECncgBUQcqjAFRCp2YAVEOnYwBURcp6AFRGp2IAVEfKpgBUSKdlAFRKp2kAVE6nYABUT8qiAFRUynkAVGDL6wBUYcvqAFRiqU8AVGPL7QBUZMvvAFRly+QAVGbL5wBUZ8vuAFRoqVAAVGvL4QBUbMvlAFRvy+kAVHDOSQBUcalLAFRyzk0AVHOo/QBUdMvmAFR1qP4AVHapTABUd6lFAFR4qUEAVHrL4gBUe6lEAFR8qUkAVH2pUgBUfsvjAFR/y9wAVICpQwBUgcvdAFSCy98AVISpRgBUhqlIAFSHy9sAVIjL4ABUi6lRAFSMqU0AVI3L6ABUjqlTAFSQqUoAVJHL3gBUkqlHAFSVqUIAVJapQABUmMvsAFSaqU4AVKDOSABUoc37AFSizksAVKXN/QBUpqt4AFSnq6gAVKirdABUqaunAFSqq30AVKurpABUrKtyAFStzfwAVK7OQwBUr6ujAFSwzk8AVLGrpQBUs6t5AFS2zkUAVLfOQgBUuKt3AFS6zfoAVLurpgBUvM5KAFS9q3wAVL7OTABUv6upAFTAq3MAVMGrfgBUwqt7AFTDzkAAVMSroQBUxc5GAFTGzkcAVMeregBUyKuiAFTJq3YAVM6rdQBUz83+AFTWzkQAVN7OTgBU4NFEAFThrfsAVOLQ8QBU5ND2AFTlrfQAVOauQABU59D0AFTore8AVOmt+QBU6q3+AFTr0PsAVO2t+gBU7q39AFTx0P4AVPKt9QBU89D1AFT30UIAVPjRQwBU+q33AFT70UEAVPyt8wBU/a5DAFT/0PgAVQGt8QBVA9FGAFUE0PkAVQXQ/QBVBq32AFUHrkIAVQjQ+gBVCa38AFUK0UAAVQvRRwBVDNShAFUO0UUAVQ+uRABVEK3wAFUR0PwAVRLQ8wBVFK34AFUX0PIAVRrQ9wBVJtDwAFUnrkEAVSrUdwBVLLDkAFUt1KcAVS6w4gBVL7DfAFUw1HwAVTGw2wBVMtSiAFUzsOYAVTTUdgBVNdR7AFU21HoAVTet8gBVOLDhAFU51KUAVTvUqABVPNRzAFU+s+gAVUDUqQBVQbDnAFVDsNkAVUSw1gBVRdR+AFVGsNMAVUjUpgBVSrDaAFVL1KoAVU3UdABVTtSkAFVPsN0AVVDUdQBVUdR4AFVS1H0AVVWw3gBVVrDcAFVXsOgAVVyw4wBVXrDXAFVfsdIAVWGw2ABVYtR5AFVjsOUAVWSw4ABVZdSjAFVmsNUAVWqw1ABVddRxAFV21HIAVXfYagBVe7PXAFV8s9oAVX3YdQBVfrPuAFV/2HgAVYCz2ABVgdhxAFWCs94AVYOz5ABVhLW9AFWHs+IAVYjYbgBVibPvAFWKs9sAVYuz4wBVjNh2AFWN3NcAVY7YewBVj9hvAFWR2GYAVZLYcwBVk9htAFWUs+EAVZXYeQBVmLPdAFWZs/EAVZqz6gBVnLPfAFWds9wAVZ+z5wBVodh6AFWi2GwAVaPYcgBVpNh0AFWl2GgAVabYdwBVp7PZAFWo2GcAVaqz4ABVq7PwAFWss+wAVa3YaQBVrrPmAFWxs+0AVbKz6QBVs7PlAFW12HAAVbuz6wBVv9zVAFXA3NEAVcLc4ABVw9zKAFXE3NMAVcW25QBVxrbmAFXHtt4AVcjc3ABVybboAFXK3M8AVcvczgBVzNzMAFXN3N4AVc623ABVz9zYAFXQ3M0AVdG23wBV0tzWAFXTttoAVdTc0gBV1dzZAFXW3NsAVdnc3wBV2rbjAFXb3MsAVdy23QBV3dzQAFXfttgAVeG25ABV4tzaAFXjtuAAVeS24QBV5bbnAFXmttsAVeeiXwBV6LbZAFXp3NQAVe+24gBV8tzdAFX2uc0AVfe5yABV+eFVAFX64VEAVfzhSwBV/bnCAFX+ub4AVf/hVABWALm/AFYB4U4AVgLhUABWBOFTAFYGucQAVgi5ywBWCbnFAFYM4UkAVg25xgBWDrnHAFYP4UwAVhC5zABWEuFKAFYT4U8AVhS5wwBWFeFIAFYWuckAVhe5wQBWG7nAAFYc4U0AVh3hUgBWH7nKAFYn4UcAVim8TQBWKuVHAFYs5UQAVi68RwBWL7xTAFYwvFQAVjK8SgBWM+VCAFY0vEwAVjXk+QBWNrxSAFY45UYAVjm8SQBWOuVIAFY7vEgAVj3lQwBWPuVFAFY/vEsAVkDlQQBWQeT6AFZC5PcAVkXYawBWRuT9AFZI5PYAVknk/ABWSuT7AFZM5PgAVk68TwBWU7xOAFZXvFAAVljk/gBWWb6yAFZa5UAAVl7pRQBWYOj9AFZivr4AVmPpQgBWZL62AFZlvroAVmbpQQBWaL65AFZpvrUAVmq+uABWa76zAFZsvr0AVm3pQwBWbuj+AFZvvrwAVnDo/ABWcb67AFZy6UQAVnPpQABWdLxRAFZ2vr8AVnfpRgBWeL63AFZ5vrQAVn7sxgBWf+zIAFaAwHsAVoHsyQBWguzHAFaD7MUAVoTsxABWhcB9AFaG7MMAVofAfgBWjOzBAFaN7MIAVo7AegBWj8ChAFaQwHwAVpPswABWlcJQAFaX77wAVpjvugBWme+/AFaa770AVpzvuwBWne++AFalw2AAVqbx8gBWp/HzAFaoxFYAVqrx9ABWq/HwAFas8fUAVq3x8QBWrsJRAFay8/4AVrP0QQBWtMRZAFa19EAAVrbEWABWt8RXAFa8xFoAVr31xQBWvvXGAFbAxNoAVsHE2QBWwsTbAFbD9cQAVsX22ABWxvbXAFbIxW0AVsnFbwBWysVuAFbL9tkAVszFyABWzfimAFbRxfEAVtP4pQBW1PjuAFbXyUkAVtqlfQBW26V8AFbdpl8AVt6mXgBW38nHAFbgpl0AVuHJxgBW5Kd5AFblyqkAVufKqABW6qd3AFbrp3oAVu7KpwBW8Kd4AFb3y/AAVvnL8QBW+qlUAFb/q6oAVwHRSABXAtFJAFcDrkUAVwSuRgBXB9SsAFcIsOkAVwmw6wBXCtSrAFcLsOoAVwzYfABXDbPyAFcStukAVxO26gBXFNzhAFcWuc8AVxi5zgBXGuVJAFcb6UgAVxzpRwBXHvlrAFcfpGcAVyDJWQBXIsluAFcjyW8AVyimYgBXKaZmAFcqyckAVyymZABXLaZjAFcuycgAVy+mZQBXMKZhAFczpmAAVzTJygBXO6emAFc+p6MAV0CnfQBXQcqqAFdFyqsAV0enoQBXScqtAFdKp3sAV0vKrgBXTMqsAFdNp34AV06nogBXT6elAFdQp6QAV1GnfABXUsqvAFdhqVkAV2LL/gBXZKlbAFdmqVoAV2jMQABXaalYAFdqqVcAV2vL9QBXbcv0AFdvy/IAV3DL9wBXccv2AFdyy/MAV3PL/ABXdMv9AFd1y/oAV3bL+ABXd6lWAFd7y/sAV3ypXABXfcxBAFeAy/kAV4KrqwBXg6lVAFeLq6wAV4zOVABXj85aAFeTq7IAV5TOWABXlc5eAFeXzlUAV5jOWQBXmc5bAFeazl0AV5vOVwBXnc5WAFeezlEAV5/OUgBXoKutAFeiq68AV6OrrgBXpM5TAFelzlwAV66rsQBXtc5QAFe20VMAV7jRUgBXudFXAFe60U4AV7zRUQBXvdFQAFe/0VQAV8HRWABXwq5HAFfDrkoAV8bRTwBXx9FVAFfLrkkAV8zRSgBXzquwAFfP1LoAV9DRVgBX0tFNAFfUrkgAV9XRTABX3NSxAFffsOwAV+Cw8ABX4dTBAFfi1K8AV+PUvQBX5LDxAFfl1L8AV+fUxQBX6dTJAFfs1MAAV+3UtABX7tS8AFfw1MoAV/HUyABX8tS+AFfz1LkAV/TUsgBX9dimAFf21LAAV/ew9QBX+NS3AFf5sPYAV/qw8gBX+9StAFf81MMAV/3UtQBYANSzAFgB1MYAWAKw8wBYBNTMAFgFsO0AWAaw7wBYB9S7AFgI1LYAWAmuSwBYCrDuAFgL1LgAWAzUxwBYDdTLAFgO1MIAWBDUxABYFNSuAFgZ2KEAWBvYqgBYHNipAFgds/oAWB7YogBYILP7AFghs/kAWCPYpABYJLP2AFgl2KgAWCfYowBYKNilAFgp2H0AWCqz9ABYLNiyAFgt2LEAWC7YrgBYL7PzAFgws/cAWDGz+ABYMtFLAFgz2KsAWDSz9QBYNbD0AFg22K0AWDfYfgBYONiwAFg52K8AWDvYswBYPdzvAFg/2KwAWEjYpwBYSdznAFhKtvQAWEu29wBYTLbyAFhN3OYAWE7c6gBYT9zlAFhRtuwAWFK29gBYU9ziAFhUtvAAWFXc6QBYV7buAFhYtu0AWFnc7ABYWrbvAFhb3O4AWF3c6wBYXrbrAFhitvUAWGPc8ABYZNzkAFhl3O0AWGjc4wBYa7bxAFhttvMAWG/c6ABYcdzxAFh04V0AWHW50ABYduFjAFh5udUAWHrhXwBYe+FmAFh84VcAWH251wBYfrnRAFh/4VwAWIC8VQBYgeFbAFiC4WQAWIO50gBYhbnWAFiG4VoAWIfhYABYiOFlAFiJ4VYAWIq51ABYi+FeAFiO4WIAWI/haABYkOFYAFiR4WEAWJO50wBYlOFnAFiY4VkAWJy8WQBYneVLAFievFcAWJ+8VgBYoOVNAFih5VIAWKPlTgBYpeVRAFimvFwAWKi+pQBYqbxbAFir5UoAWKzlUABYrrxaAFiv5U8AWLHlTABYs7xYAFi66U0AWLv52QBYvOlPAFi96UoAWL6+wQBYv+lMAFjBvsAAWMLpTgBYxb7DAFjG6VAAWMe+wgBYyOlJAFjJ6UsAWM7ApQBYz+zMAFjRwKQAWNLszQBY08CjAFjU7MsAWNXAogBY1uzKAFjYwlMAWNnCUgBY2vH2AFjb8fgAWN3x9wBY3sNhAFjfw2IAWOLDYwBY4/RCAFjkxFsAWOf30wBY6PfSAFjpxfIAWOukaABY7KTQAFjvp6cAWPTOXwBY+bP8AFj6s/0AWPzc8gBY/bnYAFj+4WkAWP/lUwBZA8laAFkGyrAAWQzMQgBZDc5gAFkO0VkAWQ+uTABZEvH5AFkUxNwAWRWkaQBZFqV+AFkXyXAAWRmmZwBZGqZoAFkcqV0AWSCw9wBZIrnaAFkkudsAWSW52QBZJ6RqAFkppNEAWSqk0wBZK6TSAFksyVsAWS2k1ABZLqWhAFkvyXEAWTGlogBZN6ZpAFk4pmoAWTzJywBZPqeoAFlAyrEAWUSpYQBZRcxDAFlHqV8AWUipYABZSaleAFlK0VoAWU6rtgBZT6u1AFlQq7cAWVGrtABZU85hAFlUqWIAWVWrswBZV65NAFlYrk4AWVquTwBZXNTNAFlgs/4AWWHYtABZYrD4AFlntvgAWWm53QBZarncAFlr4WoAWW28XQBZbr7EAFlw78AAWXH22gBZcvfUAFlzpGsAWXSlowBZdqWkAFl3ydEAWXimbABZeaZvAFl7yc8AWXzJzQBZfaZuAFl+ydAAWX/J0gBZgMnMAFmBpnEAWYKmcABZg6ZtAFmEpmsAWYXJzgBZiqezAFmNp7AAWY7KtgBZj8q5AFmQyrgAWZKnqgBZk6eyAFmWp68AWZfKtQBZmMqzAFmZp64AWZ2nqQBZnqesAFmgyrQAWaHKuwBZosq3AFmjp60AWaSnsQBZpae0AFmmyrIAWafKugBZqKerAFmuqWcAWa+pbwBZscxPAFmyzEgAWbOpcABZtMxTAFm1zEQAWbbMSwBZualmAFm6zEUAWbupZABZvMxMAFm9zFAAWb6pYwBZwMxRAFnBzEoAWcPMTQBZxalyAFnGqWkAWcfMVABZyMxSAFnKqW4AWcupbABZzMxJAFnNqWsAWc7MRwBZz8xGAFnQqWoAWdGpaABZ0qlxAFnTqW0AWdSpZQBZ1sxOAFnYq7kAWdqrwABZ285vAFncq7gAWd3OZwBZ3s5jAFngznMAWeHOYgBZ46u7AFnkzmwAWeWrvgBZ5qvBAFnoq7wAWenOcABZ6qu/AFnsrlYAWe3OdgBZ7s5kAFnxzmYAWfLObQBZ885xAFn0znUAWfXOcgBZ9s5rAFn3zm4AWfrOaABZ+6vDAFn8zmoAWf3OaQBZ/s50AFn/q7oAWgDOZQBaAavCAFoDq70AWgmuXABaCtFiAFoMrlsAWg/RYABaEa5QAFoTrlUAWhXRXwBaFtFcAFoX0WEAWhiuUQBaGdFbAFobrlQAWhyuUgBaHtFjAFofrlMAWiCuVwBaI65YAFolrloAWimuWQBaLdFdAFou0V4AWjPRZABaNdTUAFo2sPkAWjfYwgBaONTTAFo51OYAWjyxQABaPtTkAFpAsP4AWkGw+gBaQtTtAFpD1N0AWkTU4ABaRrFDAFpH1OoAWkjU4gBaSbD7AFpKsUQAWkzU5wBaTdTlAFpQ1NYAWlHU6wBaUtTfAFpT1NoAWlXU0ABaVtTsAFpX1NwAWljUzwBaWrFCAFpb1OEAWlzU7gBaXdTeAFpe1NIAWl/U1wBaYNTOAFpisUEAWmTU2wBaZdTYAFpmsPwAWmfU0QBaadTpAFpqsP0AWmzU2QBabdTVAFpw1OgAWne0QABaeNi7AFp62LgAWnvYyQBafNi9AFp92MoAWn+0QgBag9jGAFqE2MMAWorYxABai9jHAFqM2MsAWo7U4wBaj9jNAFqQ3UcAWpK0QwBak9jOAFqU2LYAWpXYwABal9jFAFqatEEAWpu0RABanNjMAFqd2M8AWp7YugBan9i3AFqi2LkAWqXYvgBapti8AFqntEUAWqnYyABarNi/AFqu2MEAWq/YtQBasNz6AFqx3PgAWrK3QgBas7dAAFq03UMAWrXc+QBatt1EAFq33UAAWrjc9wBaud1GAFq63PYAWrvc/QBavLb+AFq9tv0AWr62/ABav9z7AFrA3UEAWsG2+QBawrdBAFrE3PQAWsbc/gBax9zzAFrI3PwAWsm2+gBayt1CAFrL3PUAWsy2+wBazd1FAFrV4W4AWta54gBa17nhAFrYueMAWtnhegBa2uFwAFrb4XYAWtzhawBa3eF5AFre4XgAWt/hfABa4OF1AFrhud4AWuLhdABa47nkAFrl4W0AWua53wBa6OF7AFrpueAAWurhbwBa6+FyAFrs4XcAWu3hcQBa7uFsAFrz4XMAWvTlVQBa9bxhAFr25VgAWvflVwBa+OVaAFr55VwAWvr53ABa+7xfAFr95VYAWv/lVABbAeVdAFsC5VsAWwPlWQBbBeVfAFsH5V4AWwi8YwBbCbxeAFsLvGAAWwy8YgBbD+VgAFsQ6VcAWxPpVgBbFOlVAFsW6VgAWxfpUQBbGelSAFsa6VoAWxvpUwBbHb7FAFse6VwAWyDpWwBbIelUAFsj7NEAWyTAqABbJezPAFsm7NQAWyfs0wBbKOlZAFsqwKcAWyzs0gBbLezOAFsu7NYAWy/s1QBbMMCmAFsy7NAAWzS+xgBbOMJUAFs878EAWz3x+gBbPvH7AFs/8fwAW0DEXABbQ8RdAFtF9EMAW0f1yABbSPXHAFtL9tsAW0z23ABbTffVAFtO+KcAW1CkbABbUaRtAFtTpG4AW1Sk1QBbVaWlAFtWydMAW1emcgBbWKZzAFtap7cAW1unuABbXKe2AFtdp7UAW1+pcwBbYsxVAFtjqXUAW2SpdABbZcxWAFtpq8QAW2uuXQBbbNFlAFtu1PAAW3CxRQBbcbRHAFty1O8AW3O0RgBbdbnlAFt34X0AW3i+xwBbesCpAFt77NcAW33EXgBbf8VwAFuByXIAW4OlpgBbhMlzAFuFpnYAW4emdABbiKZ1AFuJpncAW4unugBbjKe5AFuOyrwAW4+nuwBbksq9AFuTzFcAW5XMWABbl6l2AFuYqXgAW5mpegBbmql3AFubqXsAW5ypeQBboqvIAFujq8UAW6SrxwBbpavJAFumq8YAW6fRZgBbqM53AFus0WgAW63RZwBbrq5jAFuwrl8AW7OuYABbtK5iAFu1rmQAW7auYQBbuK5mAFu5rmUAW7+xSgBbwNTyAFvB1PEAW8KxSQBbxLFIAFvFsUcAW8axSwBbx7FGAFvK2NUAW8vY0gBbzLRJAFvN2NEAW87Y1gBb0LRLAFvR2NQAW9K0SABb07RKAFvU2NMAW9bdSABb2N1JAFvZ3UoAW9655gBb37nuAFvg4X4AW+G56ABb4rnsAFvj4aEAW+S57QBb5bnpAFvmueoAW+e55wBb6LnrAFvpvGYAW+rY0ABb67xnAFvsvGUAW+68ZABb7+ldAFvwvsgAW/Hs2ABb8uzZAFv1w2QAW/bEXwBb+KRvAFv6pngAXAGrygBcA9FpAFwErmcAXAexTgBcCLFNAFwJsUwAXAq0TABcC7RNAFwM2NcAXA257wBcDr7JAFwPpHAAXBDJXABcEaTWAFwSyXQAXBXJ1ABcFqZ5AFwaqXwAXB/dSwBcIqRxAFwkpNcAXCXJ1QBcKMq+AFwqyr8AXCynvABcMNjYAFwxtE4AXDPdTABcN8CqAFw4pHIAXDmkqABcOqTYAFw7yXUAXDylpwBcPqfAAFw/p78AXECnvQBcQae+AFxEzFkAXEWpfgBcRqmhAFxHzFoAXEipfQBcS6vOAFxMzngAXE2rzQBcTqvLAFxPq8wAXFCuagBcUa5oAFxU0WsAXFWuaQBcVtFqAFxYrl4AXFnU8wBcXLFQAFxdsVEAXGCxTwBcYrnwAFxj4aIAXGS8aABcZbxpAFxn5WEAXGjAqwBcae/CAFxq78MAXGzE3QBcbfioAFxuyUsAXG+k2QBccaRzAFxzyXcAXHTJdgBceaZ6AFx6ydcAXHvJ2ABcfMnWAFx+ydkAXIbKxwBciMrCAFyJysQAXIrKxgBci8rDAFyMp8QAXI3KwABcj8rBAFyQp8EAXJGnwgBcksrFAFyTysgAXJSnwwBclcrJAFydzGgAXJ/MYgBcoMxdAFyhqaMAXKLMZQBco8xjAFykzFwAXKXMaQBcpsxsAFynzGcAXKjMYABcqamlAFyqzGYAXKuppgBcrMxhAFytzGQAXK7MWwBcr8xfAFywzGsAXLGppwBcs6moAFy1zF4AXLbMagBct6miAFy4qaQAXMbOqwBcx86kAFzIzqoAXMnOowBcys6lAFzLzn0AXMzOewBczs6sAFzPzqkAXNDOeQBc0qvQAFzTzqcAXNTOqABc1s6mAFzXznwAXNjOegBc2avPAFzazqIAXNvOfgBc3s6hAFzfzq0AXOiubwBc6q5uAFzs0WwAXO2uawBc7tFuAFzwrnAAXPHRbwBc9K5zAFz2rnEAXPfRcABc+M6uAFz50XIAXPuubQBc/a5sAFz/0W0AXQDRcQBdAa5yAF0GsVMAXQexUgBdC9T1AF0M1PkAXQ3U+wBdDrFUAF0P1P4AXRGxWABdEtVBAF0UsVoAXRaxVgBdF7FeAF0ZsVsAXRrU9wBdG7FVAF0d1PYAXR7U9ABdH9VDAF0g1PgAXSKxVwBdI9VCAF0ksVwAXSXU/QBdJtT8AF0nsV0AXSjU+gBdKbFZAF0u1UQAXTDVQABdMdjnAF0y2O4AXTPY4wBdNLRRAF012N8AXTbY7wBdN9jZAF042OwAXTnY6gBdOtjkAF082O0AXT3Y5gBdP9jeAF1A2PAAXUHY3ABdQtjpAF1D2NoAXUXY8QBdR7RSAF1J2OsAXUrdTwBdS9jdAF1MtE8AXU7Y4QBdULRQAF1R2OAAXVLY5QBdVdjiAF1Z2OgAXV7dUwBdYt1WAF1j3U4AXWXdUABdZ91VAF1o3VQAXWm3QwBda9jbAF1s3VIAXW+3RABdcd1NAF1y3VEAXXfhqQBdeeGwAF164acAXXzhrgBdfeGlAF1+4a0AXX/hsQBdgOGkAF2B4agAXYLhowBdhLnxAF2G4aYAXYe58gBdiOGsAF2J4asAXYrhqgBdjeGvAF2S5WUAXZPlZwBdlLxrAF2V5WgAXZflYwBdmeViAF2a5WwAXZzlagBdnbxqAF2e5W0AXZ/lZABdoOVpAF2h5WsAXaLlZgBdp+lhAF2o6WYAXanpYABdqullAF2s6V4AXa3paABdrulkAF2v6WkAXbDpYwBdselfAF2y6WcAXbTpagBdteliAF237NoAXbjArwBdusCtAF28wKwAXb3ArgBdwO/EAF3C8XIAXcPx/QBdxvREAF3H9EUAXcnEYABdy/XJAF3NxN4AXc/1ygBd0fbeAF3SxXIAXdTFcQBd1fbdAF3WxckAXdj31gBd3aR0AF3epnsAXd/J2gBd4MrKAF3hqLUAXeKxXwBd5aR1AF3mpaoAXeelqQBd6KWoAF3rp8UAXe6udABd8N1XAF3xpHYAXfKkdwBd86R4AF30pNoAXfer0QBd+c6vAF39tFMAXf6keQBd/8ldAF4CpasAXgOlrABeBMl4AF4GpnwAXgrKywBeDKfGAF4OyswAXhGprgBeFMxuAF4VqawAXhapqwBeF8xtAF4YqakAXhnMbwBeGqmqAF4bqa0AXh2r0gBeH6vUAF4gzrMAXiHOsABeIs6xAF4jzrIAXiTOtABeJavTAF4o0XQAXinRcwBeK652AF4trnUAXjOxYgBeNNVGAF42sWEAXjexYwBeOLFgAF49tFUAXj7VRQBeQLRWAF5B2PMAXkO0VwBeRNjyAF5FtFQAXkrdWgBeS91cAF5Mt0UAXk3dWwBeTt1ZAF5P3VgAXlPhtABeVLn3AF5VufUAXle59gBeWOGyAF5Z4bMAXlu58wBeXOVxAF5d5W8AXl+8bQBeYOVwAF5hvG4AXmK8bABeY7n0AF5m6W0AXmfpawBeaOlsAF5p5W4AXmrs3ABea8CwAF5s7NsAXm3vxQBebu/GAF5v6W4AXnDx/gBecqR6AF5zpa0AXnSmfgBedcnbAF52pn0AXniprwBeebdGAF57pNsAXnylrgBefavVAF5+tFgAXoDJeQBegsl6AF6EydwAXoenyABeiMrQAF6Jys4AXoqnyQBei8rNAF6Mys8AXo3K0QBej6fHAF6VqbMAXpaptABel6mxAF6aqbAAXpvOuABenKmyAF6gq9YAXqLOtwBeo865AF6kzrYAXqXOugBepqvXAF6nrnkAXqjRdQBeqtF3AF6rrncAXqzReABera54AF6u0XYAXrDOtQBesdVHAF6y1UoAXrPVSwBetNVIAF61sWcAXraxZgBet7FkAF64sWUAXrnVSQBevrFoAF7BtFoAXsK0WwBexLRcAF7F3V0AXsbdXwBex91hAF7It0gAXsm3RwBeyrRZAF7L3WAAXszdXgBezuG4AF7R4bYAXtLhvABe07n4AF7U4b0AXtXhugBe1rn5AF7X4bcAXtjhtQBe2eG7AF7avHAAXtvlcwBe3OG5AF7dvHIAXt7ldABe37xxAF7gvHQAXuHldQBe4rxvAF7jvHMAXuXpcwBe5ulxAF7n6XAAXujpcgBe6elvAF7sw2YAXu70RgBe7/RHAF7x9csAXvL23wBe88ZVAF72qbUAXvenygBe+qvYAF7+pHsAXv+k3ABfAaWvAF8Cyd0AXwSnywBfBcrSAF8HzrsAXwir2QBfCrn6AF8LpHwAXw+moQBfErdJAF8TpH0AXxSk3QBfFaTeAF8XpbEAXxilsABfGsneAF8bpqIAXx3K0wBfH6fMAF8izHEAXyPMcgBfJMxzAF8mqbYAXyeptwBfKMxwAF8pqbgAXy2r2gBfLs68AF8w0XoAXzGuegBfM9F5AF81sWkAXzbVTABfN7FqAF841U0AXzy0XQBfQN1iAF9D4b8AX0ThvgBfRrn7AF9IvHUAX0nldgBfSr7KAF9L6XQAX0zAsQBfTsVzAF9P99gAX1TMdABfVs69AF9XsWsAX1jY9ABfWbdKAF9ewlUAX2KnzgBfZKfNAF9lq9sAX2fRewBfabFtAF9qs0MAX2uxbgBfbLFsAF9ttF4AX2/hwABfcLn8AF9xvHYAX3PJTABfdMnfAF92ytUAX3enzwBfeMrUAF95p9AAX3ypvABffcx3AF9+zHYAX3+puwBfgKm5AF+BqboAX4LMdQBfhavdAF+Gzr4AX4er4ABfiKvcAF+Jq+IAX4qr3gBfi6vfAF+Mq+EAX5CufQBfka58AF+SrnsAX5bVTwBfl7FvAF+YsXIAX5mxcABfm9VOAF+csXUAX56xcQBfn9VQAF+gsXQAX6GxcwBfpdj2AF+m2PUAX6i0YQBfqbRfAF+qtGAAX6vY9wBfrLdLAF+t3WQAX663TABfr91jAF+y5XcAX7W8eABftuHBAF+3vHcAX7m5/QBfu+zeAF+86XUAX73AsgBfvuzdAF+/8kAAX8D0SABfwfRJAF/DpN8AX8WlsgBfycl7AF/Mp9IAX82n1ABfz8niAF/QytgAX9HK1wBf0srWAF/UyeEAX9XJ4ABf1qakAF/Xp9MAX9in0QBf2aajAF/dqb0AX97MeABf4Km+AF/hyt0AX+PK3wBf5MreAF/lzHkAX+jK2gBf6qfYAF/rp9YAX+3K2QBf7srbAF/vyuEAX/Gn1QBf88rcAF/0yuUAX/WpwABf98riAF/4p9cAX/rK4ABf+8rjAF/9qb8AX/+pwQBgAMrkAGAJzK8AYArMogBgC8x+AGAMzK4AYA3MqQBgDqvnAGAPqcIAYBDMqgBgEcytAGASq+MAYBPMrABgFKnDAGAVqcgAYBapxgBgF8yjAGAZzHwAYBrMpQBgG6nNAGAczLAAYB2r5ABgHsymAGAgq+UAYCGpyQBgIsyoAGAkzs0AYCWr5gBgJsx7AGAnqcoAYCir6ABgKanLAGAqqccAYCupzABgLMynAGAtzHoAYC7MqwBgL6nEAGAyzH0AYDPMpABgNMyhAGA1qcUAYDfOvwBgOc7AAGBAzsoAYEHRoQBgQs7LAGBDq+4AYETOzgBgRc7EAGBGq+0AYEfOxgBgSc7HAGBMzskAYE2r6QBgUK6jAGBS+doAYFPOxQBgVM7BAGBVrqQAYFjOzwBgWa5+AGBa0X0AYFvOyABgXdF8AGBezsMAYF/OzABgYqvsAGBjrqEAYGSr8gBgZa6iAGBmztAAYGfRfgBgaKvrAGBprqYAYGqr8QBga6vwAGBsq+8AYG2upQBgbs7RAGBvrqcAYHCr6gBgcs7CAGB/sXYAYIDRpABggdGmAGCD0agAYISuqABgha6uAGCG1VMAYIfRrABgiNGjAGCJsXgAYIrVUQBgjK6tAGCNrqsAYI7RrgBgkNVSAGCS0aUAYJSurABgldGpAGCWrq8AYJfRqwBgmq6qAGCb0aoAYJzRrQBgndGnAGCfrqkAYKCxeQBgotGiAGCjsXcAYKixegBgsNVVAGCx1V4AYLK0ZABgtLF8AGC1saMAYLa0ZQBgt9VgAGC4saoAYLnY+QBgutVWAGC7saIAYLyxpQBgvbF+AGC+1VQAYL/VYgBgwNVlAGDB2UkAYMPVYwBgxNj9AGDFsaEAYMaxqABgx7GsAGDI1V0AYMnY+ABgytVhAGDLsXsAYMzY+gBgzdVkAGDO2PwAYM/VWQBg0bRiAGDT1VcAYNTVWABg1bGnAGDYsaYAYNnVWwBg2rGrAGDb1V8AYNyxpABg3dVcAGDfsakAYOC0ZgBg4bRjAGDi2PsAYOTVWgBg5rF9AGDwtGsAYPG0bwBg8tlAAGDzt1EAYPS0bQBg9dlEAGD2tHEAYPfdZQBg+NlGAGD5t1MAYPq0aQBg+7RsAGD82UcAYP7ZSABg/9lOAGEAtHMAYQG3VABhA9lKAGEE2U8AYQXZQwBhBrdeAGEIt1UAYQm0cgBhCtlBAGEL2VAAYQ23XQBhDrRwAGEPt04AYRDZTQBhErR0AGET2UUAYRTY/gBhFbRqAGEW2UIAYRjZSwBhGrdNAGEbt1IAYRy0ZwBhHdlMAGEft1AAYSO0aABhJ7dcAGEo4cMAYSndcABhK91oAGEs4cIAYS7dbABhL91uAGEy3WsAYTS3WwBhNt1qAGE3t18AYTvh0gBhPrdaAGE/ukAAYUDdcQBhQeHEAGFEt1gAYUXdaQBhRt1tAGFHuf4AYUi3TwBhSd1mAGFK3WcAYUu6QQBhTLdXAGFNt1kAYU63VgBhT91vAGFS4cgAYVPhyQBhVOHOAGFVvH0AYVbh1QBhWLpHAGFaukYAYVvh0ABhXbx8AGFe4cUAYV+6RQBhYeHUAGFiukMAYWO6RABhZeHRAGFm5aoAYWe8egBhaLRuAGFq4dMAYWu8owBhbOHLAGFuvHsAYXC8ogBhceHGAGFy4coAYXPhxwBhdOHNAGF1ukgAYXa8eQBhd7pCAGF55XoAYXrhzwBhfLyhAGF+vKQAYYDhzABhgrx+AGGD5XkAYYnlfgBhir7OAGGL5XgAYYzpowBhjeWpAGGOvKgAYZC8pgBhkb7MAGGS5aYAYZPlogBhlLysAGGW6XgAYZq8qgBhm+WhAGGd6XYAYZ/lpQBhoeWoAGGi5X0AYaS8qwBhp7ylAGGo6XcAYam+zQBhquWnAGGrvKcAYay8qQBhreWkAGGuvK0AYa/lowBhsOV8AGGx5XsAYbK+ywBhs+WrAGG06XoAYbXs4ABhtr7QAGG46aIAYbrpfgBhvOzhAGG+vtEAYb/poQBhwel8AGHCwLQAYcPs3wBhxel5AGHG6XsAYcfAtQBhyL7TAGHJwLMAYcq+0gBhy8C3AGHM6X0AYc2+zwBh1u/PAGHY78cAYd7s5wBh3+/IAGHg7OMAYePCVgBh5OzlAGHl7OQAYebAtgBh5+ziAGHo7OYAYenv0ABh6u/MAGHr784AYe3vyQBh7u/KAGHw780AYfHvywBh8sNnAGH1w2oAYfbDaQBh98NoAGH4xGEAYfn0SgBh+sRiAGH78kEAYfzE3wBh/fXMAGH+xOAAYf/FdABiAMXKAGIB99kAYgP32gBiBPfbAGIH+boAYgik4ABiCcl8AGIKpbMAYgympgBiDaanAGIOpqUAYhCmqABiEafaAGISp9kAYhTMsQBiFanPAGIWqc4AYhnRrwBiGrGtAGIbsa4AYh+0dQBiIN1yAGIht2AAYiK3YQBiI910AGIk3XYAYiXddQBiJ+HXAGIp4dYAYiq6SQBiK+HYAGIt5awAYi68rgBiML7UAGIywLgAYjPCVwBiNMC5AGI2pOEAYjrK5gBiPcyyAGI+qdEAYj+p0ABiQKnSAGJBq/MAYkLO0gBiQ87TAGJG0bAAYkeusABiSLGvAGJJtHYAYkrZUQBiS6TiAGJNpH4AYk6k4wBiUMl9AGJRpbcAYlKltgBiU6W0AGJUpbUAYlimqwBiWcnpAGJayesAYlumqgBiXMnjAGJeyeQAYmDJ6gBiYcnmAGJiyegAYmOmqQBiZMnlAGJlyewAYmbJ5wBibafhAGJup+oAYm+n6ABicMrwAGJxyu0AYnLK9QBic6fmAGJ0yvYAYnan3wBid8rzAGJ5p+UAYnrK7wBie8ruAGJ8p+MAYn3K9ABifqfkAGJ/qdMAYoCn3gBigcrxAGKDyucAYoSn2wBihqfuAGKHyuwAYojK8gBiiafgAGKKp+IAYozK6ABijsrpAGKPyuoAYpGn7QBikqfnAGKTp+wAYpTK6wBilafrAGKWp90AYpen3ABimKfpAGKoqeEAYqnMvgBiqsy3AGKrqdwAYqyp7wBircyzAGKuzLoAYq/MvABisMy/AGKxqeoAYrPMuwBitMy0AGK1qegAYrbMuABiuMzAAGK5qdkAYrvMvQBivKnjAGK9qeIAYr7MtgBiv6nXAGLCqdgAYsSp1gBixqnuAGLHqeYAYsip4ABiyanUAGLKzLkAYsup3wBizKnVAGLNqecAYs6p8ABiz87UAGLQqeQAYtHMtQBi0qnaAGLTqd0AYtSp3gBi1qnsAGLXqe0AYtip6wBi2anlAGLaqekAYtup2wBi3Kv0AGLrztoAYuysQQBi7av4AGLuq/oAYu+sQABi8M7mAGLxq/0AYvLRsQBi866xAGL0rEMAYvXO1wBi9s7fAGL3q/4AYvjO3gBi+c7bAGL6zuMAYvvO5QBi/Kv3AGL9q/sAYv6sQgBi/66zAGMAzuAAYwGr+QBjAqxFAGMDztkAYwer/ABjCK6yAGMJq/YAYwvO1gBjDM7dAGMNztUAYw7O2ABjD87cAGMQ0bIAYxGsRABjE87hAGMUzuIAYxXO5ABjFqv1AGMorsEAYynRvgBjKq6/AGMrrsAAYyzRtABjLdHEAGMvrrYAYzLVZgBjM9HGAGM00cAAYzbRtwBjONHJAGM50boAYzquvABjO9V9AGM80b0AYz2uvgBjPq61AGNA0csAY0HRvwBjQq64AGND0bgAY0TRtQBjRdG2AGNGrrkAY0fRxQBjSNHMAGNJrrsAY0rRvABjS9G7AGNMrsMAY02uwgBjTq60AGNPrroAY1CuvQBjUdHIAGNU0cIAY1WutwBjVtGzAGNX0coAY1jRwQBjWdHDAGNa0ccAY2XVZwBjZ7G3AGNoscsAY2mxygBja7G/AGNt1XkAY27VdQBjb9VyAGNw1aYAY3GxugBjcrGyAGN11XcAY3a0qABjd7G2AGN41aEAY3qxzABje7HJAGN81XsAY33VagBjgLHIAGOB1aMAY4LVaQBjg7G9AGOEscEAY4XVogBjh9VzAGOIscIAY4mxvABjitVoAGOMtHgAY43VpQBjjtVxAGOPsccAY5DVdABjkdWkAGOSscYAY5TZUgBjlrGzAGOX1W8AY5ixuABjmbHDAGObsb4AY5zVeABjndVuAGOe1WwAY5/VfgBjoLGwAGOhscQAY6KxtABjo7R3AGOk1XwAY6WxtQBjp7GxAGOoscAAY6mxuwBjqrG5AGOr1XAAY6yxxQBjrdVtAGOu1XoAY6/VdgBjsNlUAGOx2VMAY73VawBjvtlkAGPAtHoAY8LZagBjw9lZAGPE2WcAY8XddwBjxrR9AGPH2WsAY8jZbgBjybR8AGPK2VwAY8vZbQBjzNlsAGPNtH4AY87ZVQBjz7R5AGPQtKMAY9K0oQBj09lpAGPV2V8AY9a0pQBj19lwAGPY2WgAY9nZcQBj2rStAGPbtKsAY9zZZgBj3dllAGPf2WMAY+DZXQBj4bSkAGPjtKIAY+TRuQBj5dlWAGPn3bcAY+jZVwBj6bR7AGPqtKoAY+vdeQBj7bSmAGPutKcAY+/ZWABj8NlvAGPx3XgAY/LZYABj89lbAGP0tKkAY/XZYQBj9tleAGP5tK4AZAa3cABkCd18AGQK3bEAZAvdtgBkDN2qAGQNt2wAZA7duwBkD7dpAGQQ3XoAZBLdewBkE7diAGQUt2sAZBXdpABkFrduAGQXt28AZBjdpQBkGt2yAGQb3bgAZBy3agBkHrdkAGQf3aMAZCDdfQBkId26AGQi3agAZCPdqQBkJN1+AGQl3bQAZCbdqwBkJ921AGQo3a0AZCq3ZQBkK+HZAGQst2gAZC23ZgBkLt25AGQv3bAAZDDdrABkM92hAGQ0ulMAZDXdrwBkNrdtAGQ33acAZDndpgBkPbdnAGQ+t2MAZD/h7gBkQN2zAGRB3a4AZEPdogBkS+HpAGRN4doAZE7h5QBkUOHsAGRRulEAZFK0rABkU+HqAGRUukwAZFi6SwBkWeHxAGRb4dsAZFzh6ABkXeHcAGRe4ecAZF+6TwBkYOHrAGRh2WIAZGXh8gBkZuHjAGRnulIAZGjlugBkabyvAGRr4fAAZGzh7wBkbbpUAGRu5a0AZG+8sABkcOWuAGRy4d8AZHPh4ABkdOHdAGR14eIAZHbh3gBkd+HzAGR4uk4AZHm8sQBkerpQAGR7ulUAZH3h4QBkf+HtAGSC4eYAZIXlsQBkh7pKAGSIvLQAZInpqgBkiuW2AGSL5bUAZIzltwBkj+W0AGSQvLUAZJK8uwBkk7y4AGSVvLkAZJblrwBkl+WyAGSY5bwAZJm8wQBkmry/AGSc5bMAZJ3ZWgBknryyAGSf5bkAZKDlsABkorzCAGSj5bgAZKS6TQBkpby3AGSm4eQAZKm8ugBkq7y+AGSsvMAAZK28vQBkrry8AGSwvLYAZLHluwBksryzAGSzvMMAZLu+2ABkvL7ZAGS96akAZL6+4gBkv77fAGTBvtYAZMK+3QBkw+mrAGTEvtsAZMW+1QBkx77cAGTJ6agAZMrAuwBky77XAGTNvt4AZM7AugBkz+mnAGTQ6aYAZNK+4ABk1L7hAGTW6aUAZNfppABk2MC8AGTZ6a4AZNq+2gBk2+msAGTgwL0AZOLAwgBk4+zqAGTk7OwAZObAvwBk6OztAGTp7OkAZOvs6wBk7MDAAGTtwMMAZO/s6ABk8MC+AGTxwMEAZPLCWQBk8+mtAGT0wlgAZPfCXgBk+O/UAGT6wlwAZPvCXQBk/O/XAGT979MAZP7CWgBk/+/RAGUAw2sAZQHv1QBlA+/WAGUE79IAZQbCWwBlB/JCAGUJ8kUAZQzyRgBlDfJEAGUO8kcAZQ/DbABlEPJDAGUT9E4AZRTEZABlFfRNAGUW9EwAZRf0SwBlGMRjAGUZxGUAZRv1zQBlHMTiAGUdxOEAZSD24QBlIfbgAGUi9uMAZSPFywBlJMV1AGUl990AZSb24gBlKffcAGUqxc0AZSvFzABlLMXzAGUt+KkAZS747wBlL6TkAGUy2XIAZTPprwBlNqasAGU3yvcAZTin8QBlOafvAGU7p/AAZT3MwQBlPqnxAGU/rEYAZUHO5wBlQ87oAGVFrEcAZUbRzgBlSK7EAGVJrsUAZUrRzQBlT7HTAGVRsc8AZVPVpwBlVLHWAGVVsdUAZVaxzgBlV7HRAGVYsdQAZVmx0ABlXNl2AGVdsc0AZV60rwBlYrSxAGVjtLIAZWTZdQBlZdl4AGVmtLAAZWfZcwBlaNl3AGVq2XQAZWy3cQBlb928AGVyulYAZXPh9ABldL7jAGV1vMQAZXblvQBld7zFAGV4vMYAZXnlvwBleuW+AGV75cAAZXzpsQBlf+mwAGWA7O8AZYHs7gBlgsDEAGWDwMUAZYTySABlh6TlAGWM2XkAZZC0tABlkbSzAGWS3b0AZZTv2ABllcTjAGWW994AZZek5gBlma7GAGWbsdgAZZyx1wBlndl6AGWe2XsAZZ+3cgBloOH1AGWhulcAZaLpsgBlpKTnAGWlpbgAZaep8gBlqMzCAGWqzukAZausSABlrLHZAGWu2XwAZa+0tQBlsLdzAGWy5cEAZbPlwgBltuzwAGW3wl8AZbj48ABluaToAGW7zMMAZbyp8wBlvaxJAGW/zuoAZcGuxwBlwtHSAGXD0dAAZcTR0QBlxa7IAGXG0c8AZcux2wBlzLHcAGXN1agAZc6x3QBlz7HaAGXQ2X0AZdLZfgBl092+AGXWulkAZde6WABl2uzxAGXb79kAZd3ySgBl3vJJAGXf9E8AZeHJXgBl4qxKAGXlpOkAZealuQBl6KauAGXppq0AZeymrwBl7aawAGXuye4AZe/J7QBl8Mr4AGXxp/IAZfLK+wBl88r6AGX0yvkAZfXK/ABl+qn0AGX7zMkAZfzMxQBl/czOAGYAqfsAZgKp+QBmA8zKAGYEzMYAZgXMzQBmBqn4AGYHqkAAZgjMyABmCczEAGYKqf4AZgvMywBmDKn3AGYNzMwAZg6p+gBmD6n8AGYQzNAAZhHMzwBmEszHAGYTqfYAZhSp9QBmFan9AGYczu8AZh3O9QBmH6xQAGYgrE0AZiHO7ABmIs7xAGYkrFMAZiWsSwBmJs7wAGYnrE4AZiisUQBmK87zAGYtrEwAZi7O+ABmL6xPAGYxrFIAZjLO7QBmM87yAGY0zvYAZjXO7gBmNs7rAGY5zvcAZjrO9ABmQa7QAGZCrskAZkOuzABmRa7PAGZH0dUAZkmuygBmStHTAGZMrs4AZk+uywBmUdHWAGZSrs0AZlnVrABmWrHfAGZb1asAZlzVrQBmXbHeAGZeseMAZl/R1ABmYdWqAGZi1a4AZmSx4ABmZdWpAGZmseIAZmix4QBmatmnAGZs2aIAZm60tgBmb7S6AGZwtLcAZnHZpQBmctmoAGZ0tLgAZna0uQBmd7S+AGZ43ccAZnnZpgBmerS8AGZ72aMAZnzZoQBmfrS9AGaA2aQAZoS3eQBmht2/AGaHt3YAZoi3dwBmibd1AGaK3cQAZovdwwBmjN3AAGaNt3sAZpDdwgBmkbS7AGaU3cYAZpXdwQBmlrd4AGaXt3QAZpi3egBmmd3FAGadulwAZp/h+ABmoOH3AGah4fYAZqK6WgBmqLpbAGap5cUAZqrlyABmq7zIAGauvMcAZq/lyQBmsOXEAGaxvMoAZrLlxgBmtLzJAGa15cMAZrflxwBmuL7pAGa5vuYAZrrpuwBmu+m6AGa96bkAZr7ptABmwOm1AGbEvucAZsa+5ABmx77oAGbI6bMAZsm+5QBmyum2AGbL6bcAZszpvABmz+m4AGbS7PIAZtbAxwBm2O/cAGbZwMYAZtrv2gBm2+/bAGbcwmAAZt3DbgBm3vJLAGbgw20AZuP0UQBm5PRSAGbmxGYAZuj0UABm6cTkAGbr998AZuzFzgBm7fiqAGbu+KsAZvCk6gBm8qaxAGbzprIAZvSn8wBm9szRAGb3rFQAZviu0QBm+bHkAGb8sNIAZv60vwBm/7TAAGcAs8wAZwHZqQBnA7d8AGcE4foAZwXh+QBnCKTrAGcJprMAZwrM0gBnC6pCAGcNqkEAZw/O+QBnEM76AGcS0dcAZxPR2ABnFK7SAGcVrtMAZxeu1ABnGNWvAGcbseYAZx20wgBnH7TBAGcg3cgAZyHfegBnIuH7AGcj6b0AZybCYQBnJ8RnAGcopOwAZyqlvABnK6W9AGcspbsAZy2lvgBnLqW6AGcxprYAZzPJ9gBnNKa1AGc1prcAZzjJ8QBnOcnwAGc6yfMAZzvJ8gBnPMn1AGc9prQAZz7J7wBnP8n0AGdFyv0AZ0an/QBnR8r+AGdIy0MAZ0mn/ABnS8tHAGdMy0IAZ03LRQBnTqf1AGdPp/YAZ1Cn9wBnUaf4AGdTqEAAZ1XLQQBnVqf6AGdXqEEAZ1nLQABnWstGAGdcp/kAZ13LRABnXqf7AGdfp/QAZ2Cn/gBnaqpXAGdszNQAZ22qQwBnb6pNAGdwqk4AZ3GqRgBncqpYAGdzqkgAZ3TM3ABndapTAGd2zNcAZ3eqSQBneMzmAGd5zOcAZ3rM3wBne8zYAGd8qlYAZ33M5ABnfqpRAGd/qk8AZ4HM5QBng8zjAGeEzNsAZ4XM0wBnhszaAGeHqkoAZ4mqUABni6pEAGeMzN4AZ43M3QBnjszVAGeQqlIAZ5HM4QBnkszWAGeTqlUAZ5TM6ABnlapFAGeXqkwAZ5jM2QBnmcziAGeaqlQAZ5yqRwBnnapLAGefzOAAZ67PWwBnr6xcAGewrGkAZ7LPVgBns89MAGe0rGIAZ7XPSgBntqxbAGe3z0UAZ7isZQBnuc9SAGe6zv4AZ7vPQQBnwM9EAGfBzvsAZ8LPUQBnw89hAGfErGAAZ8XPRgBnxs9YAGfIzv0AZ8nPXwBnys9gAGfLz2MAZ8zPWgBnzc9LAGfOz1MAZ8+sZgBn0KxZAGfRrGEAZ9KsbQBn06xWAGfUrFgAZ9jPQwBn2axqAGfarGMAZ9vPXQBn3M9AAGfdrGwAZ96sZwBn389JAGfirGsAZ+PPUABn5M9IAGflrGQAZ+bPXABn589UAGfprF4AZ+rPYgBn689HAGfsrFoAZ+3PWQBn7s9PAGfvrF8AZ/DPVQBn8axXAGfyzvwAZ/OsaABn9K7jAGf1rF0AZ/bPTgBn989NAGf4z0IAZ/rPXgBn/M9XAGf/rFUAaBLR7ABoE67qAGgU0e0AaBbR4QBoF67fAGgYrusAaBrR2gBoHNHjAGgd0esAaB/R2QBoINH0AGghrtUAaCXR8wBoJtHuAGgo0e8AaCmu3QBoKq7oAGgr0eUAaC3R5gBoLtHwAGgv0ecAaDHR4gBoMtHcAGgz0d0AaDTR6gBoNdHkAGg4rtYAaDmu2gBoOtHyAGg70d4AaDyu5gBoPa7iAGhAruUAaEGu7ABoQq7bAGhDrucAaETR6QBoRa7pAGhGrtgAaEiu1wBoSdHbAGhL0d8AaEyu4ABoTdHxAGhO0egAaE/R4ABoUK7kAGhRruEAaFOu2QBoVK7cAGhr1cQAaG3VtABobtW1AGhv1bkAaHHVyABoctXFAGh01b4AaHXVvQBodrHtAGh31cEAaHjV0ABoedWwAGh71dEAaHzVwwBofdXVAGh+1ckAaH+x7ABogNXHAGiBsecAaIKx/ABog7HyAGiFsfYAaIax9QBoh9WxAGiJ1c4AaIrV1ABoi9XMAGiM1dMAaI/VwABokNWyAGiR1dIAaJLVwgBok7HqAGiUsfcAaJbVywBol7HwAGib1coAaJzVswBonbH4AGifsfoAaKDVzQBoobH7AGiisekAaKPVugBopNXPAGinse8AaKix+QBoqdW8AGiq1cYAaKvVtwBorNW7AGitsfQAaK7VtgBor7HoAGiwsfEAaLGx7gBostW/AGizrt4AaLTZwABotbHrAGjEsfMAaMbZwwBox9nZAGjI2c4AaMm01gBoy7TRAGjM2b0AaM200gBoztnNAGjQ2cYAaNHZ0wBo0rTOAGjT2asAaNTZ1QBo1bTEAGjW2bMAaNe0xwBo2LTGAGjatNcAaNzZrQBo3dnPAGje2dAAaN+0yQBo4LTFAGjh2bsAaOO00ABo5Nm2AGjm2dEAaOe0zABo6NnJAGjp2dYAaOrZsABo69m1AGjs2a8AaO60ywBo79nCAGjw3d4AaPHZsQBo8rTPAGjz2boAaPTZ0gBo9bTKAGj22bcAaPfZtABo+NnFAGj5tM0AaPq0wwBo+7TZAGj82cgAaP3ZxwBpBNmsAGkFtMgAaQbZ1ABpB9m8AGkI2b4AaQrZywBpC9nKAGkM2aoAaQ200wBpDrTVAGkP2bIAaRDZuQBpEdnBAGkStNQAaRPZuABpFNnEAGkV2dcAaRfZzABpJdnYAGkq2a4AaS/d8gBpMLemAGky3fAAaTPd2wBpNN3gAGk13dkAaTfd7ABpON3LAGk53dIAaTvd6gBpPN30AGk93dwAaT/dzwBpQN3iAGlB3ecAaULd0wBpRN3kAGlF3dAAaUjd1wBpSd3YAGlKt6gAaUvd6wBpTN3pAGlO3cwAaU/d7gBpUd3vAGlS3fEAaVO3rABpVLekAGlW1bgAaVfd1ABpWN3mAGlZ3dUAaVq3oQBpW7exAGlc3e0AaV23rwBpXrerAGlf3coAaWC3owBpYt3NAGljt7AAaWXd3QBpZt3JAGlot6kAaWnd4QBpat3RAGlrt6oAaWzd2gBpbbd+AGlutNgAaW/d4wBpcNm/AGlx3c4AaXTd6ABpdbelAGl23eUAaXe3ogBpeN3fAGl5t60AaXrd1gBpe93zAGmCt6cAaYPexgBphreuAGmN4koAaY7iSABpkOJeAGmR4kYAaZPiWABplLd9AGmVul8AaZbiQgBpl+JdAGmZ4kcAaZriVQBpm7pkAGmcul0AaZ7iWwBpoOJAAGmh4loAaaO6bwBppOJRAGml4mEAaaa6bQBpp+JJAGmoul4AaaniSwBpquJZAGmrumcAaaziRABprbprAGmuumEAaa/iTQBpsOJDAGmx4fwAabPiVwBptLpoAGm14mAAabbh/QBpt7plAGm54lMAabu6ZgBpvOJFAGm94lAAab7iTABpv+JOAGnBumAAacLiXwBpw7puAGnE4k8AacbiYgBpyeH+AGnK4lQAacu6YwBpzLpsAGnNumoAac7iQQBpz+JWAGnQumkAadO6YgBp1OJSAGnZ4lwAaeLl1QBp5OXRAGnl5c0Aaebl4QBp5+XeAGnovM0Aaevl5QBp7OXUAGntvNgAae7l2wBp8eXQAGny5doAafO81QBp9OXuAGn25esAaffl3QBp+OXOAGn75eIAafzl5ABp/bzRAGn+5dgAaf/l0wBqAOXKAGoBvM4AagK81gBqBOXnAGoFvNcAagblywBqB+XtAGoI5eAAagnl5gBqCrzUAGoN5eMAag/l6gBqEbzZAGoTvNMAahTl3ABqFeXPAGoW5e8AahflzABqGOXoAGoZvNAAahvl1gBqHeXXAGoevM8Aah+8zABqIOXSAGohvNIAaiO8ywBqJeXpAGom5ewAaifl2QBqKOnKAGoy6cIAajTpvgBqNb72AGo4vusAajm+8ABqOr7sAGo76cwAajzp1wBqPb7qAGo+6cQAaj/pzQBqQOXfAGpB6c4AakS+8QBqRundAGpHvvUAaki++ABqSenAAGpLvvQAak3p2wBqTuncAGpP6dIAalDp0QBqUenJAGpU6dMAalXp2gBqVunZAGpYvu8Aalm+7QBqWunLAGpb6cgAal3pxQBqXunYAGpfvvcAamDp1gBqYb7zAGpivvIAamTp0ABqZum/AGpn6cEAamjpwwBqaenVAGpq6c8Aamu+7gBqbenGAGpv6dQAanbpxwBqfsDPAGp/7UUAaoDAyABqgez1AGqD7UEAaoTAygBqhe1IAGqH7PwAaons9wBqjO1JAGqN7PMAao7s/gBqkMDRAGqR7UQAapLtSgBqk+z9AGqUwMkAapXtQABqluz0AGqXwNAAaprtRwBqm+z5AGqcwMwAap7s+wBqn+z4AGqgwNIAaqHs+gBqosDLAGqjwM4AaqTtQwBqpez2AGqm7UYAaqjtQgBqrMJjAGqt7+cAaq7CaABqr8JpAGqzwmIAarTv5gBqtu/jAGq37+QAarjCZgBque/eAGq67+IAarvCZQBqve/fAGrCwmcAasPCZABqxe/dAGrG7+EAasfv5QBqy/JRAGrM8k4Aas3yVwBqz/JWAGrQ8lQAatHyTwBq08NyAGrZ8lAAatrDcQBq28DNAGrc8lMAat3DcABq3vJYAGrf8lIAauDyTQBq4e/gAGrlw28AaufyTABq6PRWAGrq9FUAauvyVQBq7MRoAGru9FkAau/0WgBq8PRUAGrx9FgAavP0UwBq+PXRAGr59FcAavrE5wBq+8TlAGr89c8AawD10gBrAvXOAGsD9dAAawTE5gBrCPblAGsJ9uYAawrFdgBrC/bkAGsP9+IAaxDFzwBrEffgAGsS9+EAaxP4rABrFsZWAGsX+PMAaxj48QBrGfjyAGsa+PQAax75uwBrIKTtAGshprgAayOqWQBrJczpAGsoz2QAayzR9QBrLdH3AGsv0fYAazHR+ABrMrH9AGsz1dcAazTR+QBrNtXWAGs31dgAazjV2QBrOdnaAGs6tNsAazvZ2wBrPNndAGs9tNwAaz602gBrP9ncAGtB3foAa0Ld+ABrQ933AGtF3fYAa0bd9QBrR7eyAGtI3fkAa0m6cABrSuJjAGtL4mUAa0y6cQBrTeJkAGtOvNsAa1C82gBrUeXwAGtU6d8Aa1Xp3gBrVungAGtZvvkAa1vtSwBrXMDTAGte7+gAa1/CagBrYPJZAGthxXcAa2Kk7gBrY6W/AGtkprkAa2WoQgBrZqpaAGtnqlsAa2qsbgBrbdH6AGtyt7MAa3bm0QBrd776AGt4wmsAa3mk7wBre6a6AGt+zOsAa3+qXABrgMzqAGuCz2UAa4OsbwBrhM9mAGuGrHAAa4jR/ABria7uAGuKru0Aa4zV3gBrjdXcAGuO1d0Aa4/V2wBrkdXaAGuU2d4Aa5XZ4QBrlrTeAGuX2d8Aa5i03QBrmdngAGub3fsAa57iZgBrn+JnAGug4mgAa6Ll8wBro+XyAGukvNwAa6Xl8QBrpuX0AGun6eEAa6rp4gBrq+njAGut7UwAa67A1ABrr8JsAGuw8loAa7LE6ABrs8lfAGu1rHEAa7bPZwBrt67vAGu6sf4Aa7y03wBrvdniAGu/t7UAa8C3tABrw+JpAGvE4moAa8W83QBrxrzeAGvH6eUAa8jp5ABrye/pAGvK9+MAa8uk8ABrzMlgAGvNpcAAa8+oQwBr0MtIAGvSrHIAa9O3tgBr1KTxAGvWz2gAa9escwBr2M9pAGvawNUAa9uk8gBr3szsAGvgz2oAa+LSQgBr49JBAGvk0f4Aa+bR/QBr59JDAGvo0kAAa+uyQABr7LJBAGvvtOAAa/DZ4wBr8tnkAGvz2eUAa/feQQBr+N5CAGv53kAAa/vd/QBr/N3+AGv9t7cAa/7iawBr/+X3AGwA5fYAbAHl9QBsAuX4AGwD6ecAbATp5gBsBb77AGwG6egAbAjA1gBsCe1NAGwL7+oAbAzyWwBsDfbnAGwPpPMAbBClwgBsEaXBAGwTql0AbBTJYQBsFcl+AGwWprsAbBjJ9wBsGctJAGway0oAbBuqXgBsHcztAGwfrHQAbCDPawBsIc9sAGwjrvAAbCSu9ABsJdJEAGwmrvMAbCeu8QBsKK7yAGwq1d8AbCuyQgBsLLTjAGwutOEAbC+04gBsMNnmAGwzunIAbDSk9ABsNsmhAGw4pcMAbDvJpABsPqXGAGw/yaMAbEClxQBsQaXEAGxCqEQAbEPJogBsRsn4AGxKyfwAbEvJ/gBsTMpAAGxNpsUAbE6mxgBsT8n7AGxQpsEAbFLJ+QBsVMn9AGxVpsIAbFemvQBsWaa+AGxbpsQAbFzJ+gBsXaa8AGxeqEUAbF+mvwBsYKbAAGxhpsMAbGXLWwBsZstZAGxny0wAbGioUQBsactTAGxqqEwAbGvLTQBsbctVAGxvy1IAbHCoTwBscctRAGxyqFYAbHPLWgBsdKhYAGx2qFoAbHjLSwBseqhNAGx7y1wAbH2oVABsfqhXAGyAzUUAbIGoRwBsgqheAGyDqFUAbITLTgBshahKAGyGqFkAbIfLVgBsiKhIAGyJqEkAbIrNQwBsi8tPAGyMqFAAbI2oWwBsjstdAGyPy1AAbJCoTgBskqhTAGyTzO4AbJSoXABslctXAGyWqFIAbJioXQBsmahGAGyay1QAbJuoSwBsnMtYAGydzUQAbKuqagBsrKp6AGytzPUAbK6qcQBssM1LAGyxqmIAbLOqZQBstM1CAGy2zPMAbLfM9wBsuKptAGy5qm8AbLrM+gBsu6p2AGy8qmgAbL2qZgBsvqpnAGy/qnUAbMDNRwBswapwAGzCzPkAbMPM+wBsxKpuAGzFqnMAbMbM/ABsx81KAGzJrHUAbMqqeQBszKpjAGzNzUkAbM/NTQBs0Mz4AGzRzU8AbNLNQABs06psAGzUzPQAbNWqawBs1qp9AGzXqnIAbNnM8gBs2s91AGzbqngAbNyqfABs3c1BAGzezUYAbOCqfgBs4ap3AGziqmkAbOOqXwBs5apkAGznzPYAbOiqYABs6c1OAGzrzPAAbOzM7wBs7cz9AGzuzPEAbO+qewBs8K71AGzxqnQAbPLM/gBs86phAGz1rKYAbPnNTABtAM98AG0Bz6EAbQPPpABtBM93AG0Hz6cAbQjPqgBtCc+sAG0Kz3QAbQusdgBtDKx7AG0N0kkAbQ6srQBtD8+lAG0Qz60AbRHPewBtEs9zAG0W0mQAbResfgBtGM+iAG0Zz3gAbRrPegBtG6ylAG0dz30AbR6sfQBtH89wAG0gz6gAbSLPqwBtJax6AG0nrKgAbSjPbQBtKayqAG0qrHgAbSusrgBtLM+pAG0tz28AbS6sqwBtL9JeAG0wzUgAbTGsfABtMqx3AG0zz3YAbTTPbgBtNaysAG02rKQAbTfPowBtOKypAG05rKcAbTrPeQBtO6yhAG08z3EAbT2sogBtPqyjAG0/z3IAbUDPpgBtQax5AG1Cz34AbVjSTABtWa79AG1ar0MAbV7SVQBtX9JbAG1g0lcAbWHSSgBtYtJNAG1j0kYAbWTSRwBtZa9KAG1mrvoAbWfSVgBtaNJfAG1pr0UAbWqu9gBtbK9AAG1t0k4AbW6vQgBtb9JPAG1w0lkAbXSvRABtddJoAG120kgAbXeu/ABteK77AG15r0gAbXrSRQBte9JmAG180loAbX3SZwBtftJhAG1/0lMAbYDSYgBtgtJcAG2D0mUAbYTSYwBtha9JAG2G0lQAbYeu+QBtiK74AG2Jr0EAbYqvRwBti9JgAG2Mr0YAbY3SUQBtjrJDAG2Q0mkAbZHSUABtktJLAG2Trv4AbZSvSwBtla73AG2X0lgAbZjSXQBtqrJlAG2r1eEAbazV5QBtrrJSAG2vslAAbbKyRwBts9XjAG201eIAbbWyWwBtt9XoAG24slUAbbrV+gBtu9ZHAG28skQAbb3V9wBtvtXwAG2/smcAbcDV4ABtwtX8AG3EsmQAbcWyWABtxrJjAG3Hsk4AbcjV7ABtydX+AG3K1fYAbcuyTwBtzLJJAG3N1kUAbc/V/QBt0NZAAG3RslEAbdKyWQBt09ZCAG3U1eoAbdXV+wBt1tXvAG3X1kQAbdiyXgBt2bJGAG3aslwAbdvV9ABt3NXyAG3d1fMAbd6yUwBt39XuAG3g1e0AbeGySABt4tXnAG3j1kYAbeSySgBt5dXxAG3msmgAbeiyYgBt6dXmAG3qsl8AbeuyXQBt7LJmAG3t1fgAbe6yYQBt79JSAG3w1fkAbfGyYABt8tZBAG3zskUAbfTV9QBt9bJXAG321ekAbfeyVgBt+bJUAG36skwAbfuySwBt/NnnAG391kMAbgDV6wBuA9n8AG4Fsk0Abhm1QQBuGrJaAG4btO4AbhzZ9gBuHbT8AG4f2eoAbiC06wBuIbTnAG4i2kkAbiO07QBuJLTxAG4ltOwAbia09QBuJ9pNAG4o2kQAbivZ8QBuLLT6AG4ttPQAbi7Z/QBuL7TkAG4w2koAbjHaQwBuMrToAG4z2fcAbjS09wBuNdpVAG422lYAbji05QBuOdpIAG46tPkAbjvZ+wBuPNntAG492e4Abj60/QBuP9nyAG5A2fkAbkHZ8wBuQ7T7AG5EtUQAbkXZ7wBuRtnoAG5H2ekAbknZ6wBuSrTqAG5L2fgAbk20+ABuTrVCAG5R2foAblLaUwBuU9pLAG5UtOYAblXaUQBuVrTyAG5YtPAAblraVwBuW7TvAG5c2kEAbl3Z9ABuXtn+AG5ftUcAbmDaRQBuYdpCAG5i2fAAbmO1QwBuZNpPAG5l2kwAbmbaVABuZ7TpAG5o2kAAbmm1RgBua9pHAG5utPMAbm+09gBucdpGAG5ytUUAbnPZ9QBudNXkAG532lAAbnjaTgBuedpSAG6I2ewAbom1QABujd5hAG6O3mAAbo/eRgBukLe9AG6S3l8AbpPeSQBulN5KAG6Wt8cAbpfeaABumLfCAG6Z3l4AbpveQwBunLfIAG6dt74Abp7eUgBun95IAG6g3ksAbqHeYwBuore4AG6j3moAbqTeYgBupbfBAG6m3lcAbqe3zABuqrfLAG6rt8UAbq7eaQBur7e5AG6w3lUAbrHeTABust5ZAG6z3mUAbrS3zQButre7AG633lQAbrneTQBuurfEAG68t8MAbr3eUABuvt5aAG6/3mQAbsDeRwBuwd5RAG7Ct7wAbsPeWwBuxLfJAG7Ft8AAbsbeTgBux7e/AG7I3kUAbsneUwBuyt5nAG7LtP4Absy6sABuzd5WAG7O4mwAbs/eWABu0N5mAG7Rt8YAbtLeTwBu07e6AG7Ut8oAbtW88ABu1t5EAG7Y3l0AbtzeXABu6+KqAG7suq0Abu3ifQBu7uKkAG7vuqIAbvHibgBu8rqvAG70uncAbvXibQBu9uKwAG73urEAbvjicQBu+eKjAG774nMAbvziswBu/eKvAG7+unUAbv+6oQBvAOZTAG8Buq4AbwK6fQBvA+JvAG8F4q4Abwa6owBvB+KrAG8I4rgAbwnidQBvCuJ+AG8N4rYAbw7irABvD7p8AG8S4nwAbxO6dgBvFLp0AG8VuqgAbxjiegBvGeJ3AG8a4ngAbxzisgBvHuK3AG8f4rUAbyC6egBvIeK5AG8iun4AbyO6pwBvJeJwAG8m5foAbyfieQBvKbp4AG8quqwAbyu6qQBvLLp7AG8t4qUAby7idABvL7qqAG8w4qcAbzG6pABvMrqmAG8zunMAbzXiqQBvNuKhAG834nIAbzi6pQBvOeKxAG864rQAbzviewBvPOKoAG8+unkAbz+83wBvQOKmAG9B5fkAb0PirQBvTuJ2AG9P5kQAb1DmTgBvUbziAG9S5k0Ab1PmWQBvVLzkAG9V5ksAb1fmTwBvWLzvAG9a5kYAb1u85wBvXeZSAG9e6fAAb1+88wBvYLzyAG9h5lQAb2LmQwBvY+ZeAG9kvO0Ab2a84wBvZ+ZXAG9p5lsAb2rmYABva+ZVAG9s5kkAb2285gBvbrzpAG9vvPEAb3C87ABvcuZMAG9z4qIAb3bmSABvd+ZfAG94vOgAb3q86wBve+ZhAG98vOAAb33mVgBvfuX7AG9/5lwAb4DA3wBvguZKAG+EvOEAb4XmRQBvhrzlAG+H5fwAb4i6qwBvieZBAG+L5loAb4zmQgBvjeZAAG+OvOoAb5DmWABvkuX+AG+T5lEAb5TmUABvleZdAG+W5kcAb5e87gBvnunzAG+gv0kAb6G+/gBvoupAAG+j6esAb6S/QQBvpen3AG+mv0gAb6e/QwBvqOn1AG+p7U8Ab6rp+wBvq+pCAG+s6foAb63p6QBvrun4AG+v6kQAb7DqRgBvsb79AG+y6kUAb7O/RABvtL9KAG+2v0cAb7jp/gBvub9GAG+66fkAb7zp7QBvvenyAG+/6f0Ab8C/RQBvwb9CAG/CvvwAb8O/QABvxOnxAG/G5f0Ab8fp7ABvyOnvAG/J6kEAb8rp9ABvy+nqAG/M7U4Ab83qQwBvzunuAG/P6fwAb9TtUQBv1cDjAG/YwNcAb9vA2wBv3O1TAG/d7VkAb97tVwBv38DZAG/gwNoAb+HA4QBv4u1aAG/j7VIAb+TA3ABv5u1WAG/n7VUAb+jtWwBv6cDiAG/rwN0Ab+zA4ABv7e1UAG/uwOQAb+/A3gBv8MDlAG/xwNgAb/LtWABv9O1QAG/37/cAb/rCcQBv++/0AG/87/YAb/7CbwBv/+/yAHAA7/MAcAHv7gBwBOn2AHAF7+8AcAbCcABwB+/rAHAJwm0AcArv+ABwC8JuAHAM7+wAcA3v7QBwDu/xAHAPwnMAcBHCcgBwFO/wAHAVw3gAcBbyXwBwF/JlAHAYw3kAcBnyXABwGsN2AHAbw3MAcBzyZwBwHcN3AHAfw3QAcCDyXgBwIfJhAHAi8mIAcCPyYwBwJPJmAHAm7/UAcCfyXQBwKMN1AHAp8mQAcCryaABwK/JgAHAv9F0AcDDEagBwMfRgAHAyxGsAcDP0aABwNPRfAHA19FwAcDf0XgBwOPRiAHA59GUAcDr0ZABwO/RnAHA89FsAcD7EaQBwP/RjAHBA9GYAcEH0aQBwQvRhAHBD9dMAcET11ABwRfXYAHBG9dkAcEj11gBwSfXXAHBK9dUAcEzE6QBwUcV4AHBS9usAcFX26ABwVvbpAHBX9uoAcFjFeQBwWvflAHBb9+QAcF34rwBwXsX0AHBf+K0AcGD4sABwYfiuAHBi+PUAcGPGVwBwZMZlAHBl+aMAcGb5bABwaPmiAHBp+dAAcGr50QBwa6T1AHBwpscAcHHKQQBwdMteAHB2qF8AcHioYgBwestfAHB8qGAAcH2oYQBwgs1YAHCDzVoAcITNVQBwhc1SAHCGzVQAcIqqpABwjqqiAHCRzVYAcJKqowBwk81TAHCUzVAAcJWqoQBwls1XAHCYzVEAcJmqpQBwms1ZAHCfz68AcKHPswBwpKy3AHCpz7YAcKusrwBwrKyyAHCtrLQAcK6stgBwr6yzAHCwz7IAcLHPsQBws6yxAHC0z7QAcLXPtQBwt8+uAHC4rLUAcLqssABwvs+wAHDF0ncAcMbSeABwx9J5AHDIr1AAcMqvTABwy9JuAHDN0nYAcM7SewBwz69RAHDR0mwAcNLScgBw09JrAHDU0nUAcNfScQBw2K9NAHDZr08AcNrSegBw3NJqAHDd0m0AcN7ScwBw4NJ0AHDh0nwAcOLScABw5K9OAHDvsm0AcPDWTgBw89ZQAHD01kwAcPbWWABw99ZKAHD41lcAcPmyaQBw+tZIAHD72lsAcPzWUgBw/bJsAHD/1lMAcQDWVgBxAtZaAHEE1k8AcQbWVABxCbJqAHEKsmsAcQvWWQBxDNZNAHEN1kkAcQ7WWwBxENZRAHET1lUAcRfWSwBxGbVIAHEatUkAcRvaZQBxHLVPAHEe2lkAcR/aYgBxINpYAHEhtUwAcSLaYABxI9peAHEl2l8AcSa1SgBxKNpjAHEu2lwAcS/aWgBxMLVLAHEx2l0AcTLaYQBxNrVNAHE62mQAcUHecABxQt53AHFD3nkAcUTeoQBxRrfaAHFH3msAcUm30gBxS956AHFMt9cAcU3eogBxTrfOAHFQ3n0AcVLebQBxU95+AHFU3mwAcVa33ABxWN54AHFZt88AcVreowBxXLfUAHFd3nEAcV632QBxX958AHFg3m8AcWHedgBxYt5yAHFj3m4AcWS30QBxZbfYAHFmt9YAcWe30wBxaLfbAHFpt9AAcWredQBxbLfVAHFutU4AcXDeewBxct5zAHF43nQAcXviwQBxfbq0AHGA4r0AcYHiwwBxguK/AHGEurYAcYXivgBxhuLCAHGH4roAcYnivABxirq1AHGP4sAAcZDiuwBxkrq3AHGUurIAcZfixABxmbqzAHGa5mcAcZvmZABxnOZwAHGd5moAcZ7mbABxn7z0AHGg5mYAcaHmbgBxpOZtAHGl5msAcafmcQBxqLz3AHGp5mgAcarmbwBxrLz1AHGv5mMAcbDmZQBxsbz2AHGy5mIAcbPmcgBxteZpAHG46koAcbm/UQBxvOpVAHG96lMAcb6/SwBxv+pJAHHA6kwAccHqTQBxwupIAHHDv1UAccS/VgBxxepHAHHG6lYAccfqUQBxyL9PAHHJv0wAccrqUABxy+pOAHHOv1IAcc/qUgBx0L9NAHHSv04AcdTqTwBx1b9QAHHW6ksAcdjqVABx2b9TAHHa6lcAcdvqWABx3L9UAHHfwOcAceDA7gBx4e1cAHHi7WIAceTtYABx5cDqAHHmwOkAcefA5gBx6O1eAHHswOwAce3A6wBx7sDoAHHw7WEAcfHtXQBx8u1fAHH0wO0AcfjCdwBx+e/7AHH7wnQAcfzCdQBx/e/9AHH+wnYAcf/v+gByAe/5AHIC8mwAcgPv/AByBfJtAHIGw3oAcgfyawByCvJqAHIM8mkAcg3DewByEMRsAHIT9GoAchT0awByGfXcAHIa9dsAchvE6gByHfXaAHIe9uwAch/27QByIvfmAHIj+LEAcib49gByJ/m8AHIoxnkAcin5xgByKqT2AHIsqqYAci2qpwByMKy4AHI1wO8Acjak9wByOKqoAHI5r1IAcjq33QByO6T4AHI9sm4Acj66uAByP8liAHJBz7cAckLSfQByROLFAHJGwPAAckek+QBySKqpAHJJz7gAckrPuQByS9pmAHJMtVAAck/epAByUrfeAHJT4sYAcla8+AByWMN8AHJZpPoAclraZwByW6T7AHJdpskAcl7KQgByX6bIAHJgqGUAcmGoZAByYqhjAHJjy2AAcmeqqgByaaqrAHJqzVsAcmzPugBybs+9AHJvrLoAcnDPuwBycqy5AHJzz7wAcnSsuwBydtKiAHJ30qEAcnjSfgByea9TAHJ71l0AcnzWXgByfbJvAHJ+1lwAcn/WXwBygLVSAHKBsnAAcoS1UQByhdprAHKG2moAcojaaAByidppAHKL2mwAcozepgByjd6lAHKO3qkAcpDeqABykd6nAHKSurkAcpPiyQByleLIAHKWuroAcpfixwBymOZzAHKa5nQAcpu8+QBynepZAHKe6loAcqHycgByosN9AHKj8nEAcqTycABypfJuAHKm8m8AcqfE6wByqPRsAHKp9u4Acqr49wByrKT8AHKuyaUAcq+lxwBysMmmAHK0ykMAcrXKRAByustmAHK9y2IAcr/LYQBywKqsAHLBy2UAcsKoZwByw8tjAHLEqGYAcsXLZwByxstkAHLJzV8AcsrPvgByy81dAHLMzWQAcs6qrQBy0KqwAHLRzWUActLNYQBy1M1iAHLWzVwActeqrwBy2M1eAHLZqq4ActrNYwBy3M1gAHLfz8IAcuCsvQBy4ay+AHLjz8UAcuTPvwBy5s/EAHLoz8AAcumsvABy6s/DAHLrz8EAcvPSqABy9NKlAHL20qcAcvevWABy+K9XAHL5r1UAcvrSpABy+9KpAHL8r1QAcv2vVgBy/tKmAHL/1mcAcwDSowBzAdKqAHMH1mIAcwjWZgBzCtZlAHML2m4AcwzaeQBzD9ZoAHMR1mMAcxLabQBzE7J0AHMWsnMAcxfWYQBzGNZkAHMZsnUAcxuycgBzHLJxAHMd1mAAcx7WaQBzItpwAHMj2ncAcyW1VABzJtp2AHMn2nMAcym1VgBzLdp1AHMw2m8AczHacQBzMtp0AHMz2nIAczS1VQBzNdp4AHM2tVMAcze33wBzOt6tAHM73qwAczzeqgBzPrfiAHM/t+EAc0DergBzQt6rAHND4soAc0S6uwBzRbfgAHNJ3rAAc0rerwBzTOLNAHNN4ssAc068+gBzULq8AHNR4swAc1LmdgBzV7z7AHNY5nUAc1nmfgBzWuZ9AHNb5nsAc13megBzXuZ3AHNf5ngAc2DmeQBzYeZ8AHNi5qEAc2XqXwBzZupcAHNn6l0Ac2i/VwBzaepbAHNq6mEAc2vqYABzbOpeAHNu7WQAc2/tZQBzcMDxAHNywPIAc3PtYwBzdcJ5AHN27/4Ac3fCeABzeMN+AHN6w6EAc3vEbQBzfPRuAHN99G0Ac3713QBzf/bvAHOAxXoAc4H36ABzgvfnAHOD9+kAc4SlyABzhc/GAHOGr1kAc4eydgBziNZqAHOJpckAc4rJpwBzi6T9AHOOykUAc5LLbABzk8tqAHOUy2sAc5XLaABzlqhoAHOXy2kAc53NbQBzn6qzAHOgzWsAc6HNZwBzos1qAHOkzWYAc6WqtQBzps1pAHOoqrIAc6mqsQBzq6q0AHOszWwAc63NaABzsqzCAHOzrMUAc7TPzgBztc/NAHO2z8wAc7esvwBzuM/VAHO5z8sAc7uswQBzvNKvAHO+z9IAc7/P0ABzwKzEAHPCz8gAc8PP0wBzxc/KAHPGz9QAc8fP0QBzyM/JAHPKrMAAc8vP1gBzzM/HAHPNrMMAc9LStABz09KrAHPU0rYAc9bSrgBz19K5AHPY0roAc9nSrABz2tK4AHPb0rUAc9zSswBz3dK3AHPer18Ac+CvXQBz49KxAHPl0q0Ac+fSsABz6NK7AHPp0rIAc+qvXgBz68/PAHPtr1oAc+6vXABz9NZ4AHP11m0Ac/bWawBz+NZsAHP61nMAc/zWdABz/dZwAHP+snsAc//WdQB0ANZyAHQB1m8AdAOyeQB0BNZuAHQFsncAdAayegB0B9ZxAHQI1nkAdAmvWwB0CrJ4AHQL1ncAdAzWdgB0DbJ8AHQW2n4AdBraoQB0G7VgAHQd2qcAdCDaqQB0IdqiAHQitVoAdCPapgB0JNqlAHQltVsAdCa1YQB0KLViAHQp2qgAdCq1WAB0K9p9AHQs2nsAdC3aowB0Ltp6AHQvtV8AdDDafAB0MdqkAHQy2qoAdDO1WQB0NLVeAHQ1tVwAdDa1XQB0OrVXAHQ/t+kAdEDetwB0QbfoAHRC3rsAdETesQB0Rt68AHRK3rIAdEveswB0Td69AHRO3roAdE/euAB0UN65AHRR3rUAdFLetAB0VN6+AHRVt+UAdFfetgB0WbfqAHRat+QAdFu36wB0XLfsAHRet+cAdF+35gB0YuLOAHRjur4AdGS6vQB0Z+LTAHRpvPwAdGq6vwB0bbrBAHRu4tQAdG+34wB0cLrAAHRx4tAAdHLi0gB0c+LPAHR14tEAdHnmqwB0fOaqAHR95qcAdH69QAB0f+piAHSAvUEAdIHmpgB0g7z+AHSF5qgAdIbmpQB0h+aiAHSI5qkAdInmowB0iuakAHSLvP0AdJDtaQB0kupmAHSU6mUAdJXqZwB0l+1mAHSYv1oAdJrqYwB0nL9YAHSev1wAdJ+/WwB0oOpkAHSh6mgAdKO/WQB0pe1tAHSmwPUAdKfCegB0qMD2AHSpwPMAdKrtagB0q+1oAHSt7WsAdK/tbgB0sMD0AHSx7WwAdLLtZwB0tfBCAHS28EUAdLfydQB0uPBAAHS69G8AdLvwRgB0vcOiAHS+8EQAdL/CewB0wPBBAHTB8EMAdMLwRwB0w/J2AHTF8nQAdMrDowB0y/JzAHTPxG4AdNTE7QB01fbxAHTWxOwAdNf28wB02PbwAHTZ9vIAdNrF0AB02/iyAHTcpcoAdN3NbgB03tK8AHTf0r0AdOCyfQB04d6/AHTiv10AdOPDpAB05MV7AHTl+LMAdOalywB06M1vAHTpomAAdOzP1wB07s/YAHT00r4AdPXSvwB09rJ+AHT3sqEAdPvaqwB0/d7CAHT+3sEAdP/ewAB1AOLVAHUC4tYAdQPi1wB1BLrCAHUH5q0AdQjmrAB1C+ppAHUMv14AdQ2/XwB1D+1yAHUQ7W8AdRHtcAB1Eu1xAHUT8EkAdRTwSAB1FcJ8AHUW8ncAdRf13gB1GKXMAHUarMYAdRyyogB1Hd7DAHUfpc0AdSHSwAB1IrKjAHUltWMAdSa1ZAB1KKXOAHUppc8AdSrKRgB1K6hqAHUsqGkAdS2sxwB1Ls/ZAHUv2qwAdTCl0AB1MaXRAHUypdIAdTOl0wB1N6hrAHU4qGwAdTnLbgB1OsttAHU9qrYAdT7NcgB1P81wAHVAzXEAdUfP2gB1SM/bAHVLrMsAdUysyQB1TqzKAHVPrMgAdVSvYAB1Wa9kAHVar2MAdVvSwQB1XK9iAHVdr2EAdV/SwgB1YrKmAHVj1nsAdWTWegB1ZbKkAHVmsqUAdWq1ZgB1a7VlAHVs2q4AdW/arQB1cLKnAHV2t+0AdXfexQB1eLfuAHV53sQAdX3i2AB1fuauAHV/vUIAdYDqagB1hO1zAHWGw6YAdYfDpQB1isV8AHWLpdQAdYzNcwB1j7KoAHWQ4tkAdZG6wwB1lMtvAHWVy3AAdZjNdAB1maq4AHWaqrkAdZ2qtwB1oqzPAHWjrNAAdaSszQB1pazOAHWnz9wAdarP3QB1q6zMAHWw0sMAdbKvaAB1s69pAHW1sqsAdbbSyQB1uK9uAHW5r2wAdbrSygB1u9LFAHW8r2sAdb2vagB1vq9lAHW/0sgAdcDSxwB1wdLEAHXCr20AdcTSxgB1xa9mAHXHr2cAdcqyrAB1y9ahAHXM1qIAdc2yrQB1ztZ8AHXP1n4AddDWpAB10dajAHXS1n0AddSyqQB11bKqAHXX2rYAddi1awB12bVqAHXa2rAAddu1aAB13dqzAHXetWwAdd/atAB14LVtAHXh2rEAdeK1ZwB147VpAHXk2rUAdebasgB159qvAHXt3tIAde/exwB18LfwAHXxt/MAdfK38gB187f3AHX0t/YAdfXe0wB19t7RAHX33soAdfjezgB1+d7NAHX6t/QAdfve0AB1/N7MAHX93tQAdf7eywB1/7f1AHYAt+8AdgG38QB2A97JAHYI4tsAdgm6xwB2CuLfAHYLusYAdgzi3AB2DbrFAHYP3sgAdhDezwB2EeLeAHYTusgAdhTi4AB2FeLdAHYW4toAdhnmsQB2Gua1AHYb5rcAdhzmswB2HeayAHYe5rAAdh+9RQB2IL1DAHYhvUgAdiK9SQB2I+a0AHYkvUYAdiXmrwB2Jr1HAHYnusQAdijmtgB2Kb1EAHYt6mwAdi/qawB2MOpzAHYx6m0AdjLqcgB2M+pvAHY0v2AAdjXqcQB2OL9hAHY6v2IAdjzqcAB2PepuAHZCwPgAdkPtdAB2RsD3AHZH7XcAdkjtdQB2Se12AHZMwPkAdlDwTQB2UsKhAHZT8E4AdlbCfQB2V/BPAHZYwn4AdlnwTAB2WvBQAHZc8EoAdl/DpwB2YPJ4AHZhw6gAdmLEbwB2ZPBLAHZlxHAAdmnE7gB2avXfAHZsxX4Adm329AB2bsV9AHZw9+oAdnHF9QB2csX2AHZ1+cwAdnis0QB2ec/eAHZ7tW4Adny1bwB2faXVAHZ+psoAdn/KRwB2gctxAHaCqG0AdoSqugB2hqzSAHaHrNMAdois1AB2idamAHaK0ssAdouvbwB2jrKuAHaP1qUAdpLauAB2k7VxAHaV2rcAdpa1cAB2md7VAHaavUoAdpvmuwB2nOa4AHad5rkAdp7mugB2pO14AHam8FEAdqr0cQB2q/RwAHat9vUAdq6l1gB2r811AHawr3AAdrS1cgB2td7WAHa44uEAdrq9SwB2u+p0AHa98FIAdr70cgB2v6XXAHbCqrsAdsOs1wB2xM/fAHbFrNgAdsas1gB2yKzVAHbJ0swAdsqvcQB2za9yAHbOr3MAdtKysAB209anAHbUsq8AdtrauQB227KxAHbctXMAdt3e1wB23rf4AHbft/kAduG6yQB247rKAHbkvUwAduW/ZAB25up1AHbnv2MAdunteQB26sD6AHbs8FMAdu30cwB27qXYAHbvqG4AdvDNeAB28c13AHbyqrwAdvPNdgB29Kq9AHb1zXkAdvfP5QB2+KzbAHb5rNoAdvrP5wB2+8/mAHb8rN8Adv6s3gB3AazZAHcDz+EAdwTP4gB3Bc/jAHcHrOAAdwjP4AB3CazcAHcKz+QAdwus3QB3ENLPAHcR0tMAdxLS0QB3E9LQAHcV0tQAdxnS1QB3GtLWAHcb0s4Adx3SzQB3H691AHcgr3YAdyLS1wB3I9LSAHcl1rAAdyfS2AB3KK93AHcpr3QAdy3WqgB3L9apAHcx1qsAdzLWrAB3M9auAHc01q0AdzXWsgB3NrK1AHc3srIAdziytgB3OdaoAHc6srcAdzvWsQB3PLK0AHc91q8Adz6yswB3RNq8AHdF2r4Ad0baugB3R9q7AHdK2r8Ad0vawQB3TNrCAHdN2r0Ad07awAB3T7V0AHdS3tsAd1Te4AB3Vd7YAHdW3twAd1ne4QB3Wt7dAHdbt/oAd1y4QwB3Xrf9AHdf3tkAd2De2gB3YbrOAHdiuEYAd2O3/gB3ZbhEAHdmt/wAd2fe3wB3aLhFAHdp3t4Ad2q4QQB3a7f7AHdsuEIAd23e4gB3buLmAHdv4ugAd3m4QAB3fOLjAHd9uswAd37i6QB3f7rNAHeA4ucAd4Hi4gB3guLlAHeD4uoAd4S6ywB3heLkAHeHvU4Ad4jmvwB3iea+AHeLvVEAd4y9TwB3jea8AHeOvU0Ad4/mvQB3kb1QAHeV6n0Ad5fqoQB3mep+AHea6nYAd5vqegB3nOp5AHed6ncAd56/ZgB3n79nAHegv2UAd6HqeAB3oup7AHej6nwAd6W/aAB3p8FAAHeo7aMAd6rA/AB3q+17AHeswP4Ad63BQQB3sMD9AHex7aIAd7LtfAB3s8D7AHe07aEAd7XtegB3tu1+AHe37X0Ad7rwVQB3u8KkAHe8wqUAd73CogB3v8KjAHfC8FQAd8TyewB3x8OpAHfJ8nkAd8ryegB3zPR0AHfN9HcAd870dQB3z/R2AHfQ9eAAd9PE7wB31PfrAHfV+LQAd9fF9wB32Pj4AHfZ+PkAd9rGZgB326XZAHfcrOEAd97awwB34N7jAHfipdoAd+OobwB35aq+AHfnz+gAd+jP6QB36a94AHfs2sQAd+21dQB37rhHAHfvwUIAd/DtpAB38fJ8AHfy9HgAd/Ol2wB3982hAHf4zXoAd/nNfAB3+s1+AHf7zX0Ad/zNewB3/aq/AHgCrOIAeAPP8gB4Bc/tAHgGz+oAeAnP8QB4DKzkAHgNrOUAeA7P8AB4D8/vAHgQz+4AeBHP6wB4Es/sAHgTz/MAeBSs4wB4Ha98AHgfr6QAeCCvowB4IdLhAHgi0tsAeCPS2QB4Ja+hAHgm1rkAeCevegB4KNLeAHgp0uIAeCrS5AB4K9LgAHgs0toAeC2vogB4LtLfAHgv0t0AeDCveQB4MdLlAHgyr6UAeDPS4wB4NK99AHg10twAeDevfgB4OK97AHhDsrkAeEXWugB4SNazAHhJ1rUAeErWtwB4TNa4AHhN1rYAeE6yugB4UNa7AHhS1rQAeFzayAB4XbV2AHhe2tAAeGDaxQB4YtrRAHhk2sYAeGXaxwB4aNrPAHhp2s4AeGraywB4a7K4AHhstXcAeG3ayQB4btrMAHhvtXgAeHDazQB4cdrKAHh53u4AeHve8gB4fLhOAHh+4vAAeH+4UQB4gN7wAHiB+dYAeIPe7QB4hN7oAHiF3uoAeIbe6wB4h97kAHiJuE0AeIy4TAB4jrhIAHiP3ucAeJG4TwB4k7hQAHiU3uYAeJXe6QB4lt7xAHiXuEoAeJi4SwB4md7vAHia3uUAeJ7i8gB4n7rQAHig4vQAeKHe7AB4ouL2AHijutQAeKTi9wB4peLzAHinutEAeKji7wB4qbrTAHiq4uwAeKvi8QB4rOL1AHit4u4AeLC4SQB4suLrAHizutIAeLTi7QB4ur1UAHi75sEAeLy9WAB4vr1WAHjBus8AeMPmyAB4xObJAHjFvVMAeMjmxwB4yebKAHjKvVUAeMu9UgB4zObDAHjN5sAAeM7mxQB4z+bCAHjQvVkAeNHmxAB41ObGAHjVvVcAeNq/agB42+qoAHjd6qIAeN7qpgB43+qsAHjg6q0AeOHqqQB44uqqAHjj6qcAeOXqpAB4579sAHjov2kAeOnqowB46uqlAHjsv2sAeO3qqwB478FGAHjy7aoAePPtpQB49MFFAHj3wUMAePntrAB4+sFEAHj77agAePztqQB4/e2mAHj+7a0AeP/wVgB5AcFHAHkC7acAeQTtrgB5Be2rAHkJ8FoAeQzwVwB5DsKmAHkQ8FsAeRHwXQB5EvBcAHkT8FgAeRTwWQB5F/KjAHkZw6oAeRvyfgB5HPKiAHkd8n0AeR7ypAB5IfKhAHkj9HoAeST0fQB5JfR5AHkmxHEAeSf0ewB5KPR8AHkp9H4AeSrEcgB5K8R0AHksxHMAeS314QB5L/XjAHkx9eIAeTX29gB5OPi1AHk5+PoAeTql3AB5PctyAHk+qsAAeT/NowB5QKrBAHlBqsIAeULNogB5RM/4AHlFz/cAeUas5gB5R6zpAHlIrOgAeUms5wB5Ss/0AHlLz/YAeUzP9QB5T9LoAHlQr6cAeVHS7AB5UtLrAHlT0uoAeVTS5gB5Va+mAHlWr6oAeVevrQB5Wq+uAHlb0ucAeVzS6QB5Xa+sAHler6sAeV+vqQB5YK+oAHlh1sIAeWPWwAB5ZNa8AHllsrsAeWfWvQB5aLK8AHlp1r4AeWrWvwB5a9bBAHltsr0AeXDa1QB5ctrUAHlz2tMAeXTa0gB5ed72AHl6uFIAeXze8wB5fd71AHl/uFMAeYG4VAB5gt70AHmI40EAeYri+QB5i+L6AHmNutcAeY661QB5j7rWAHmQ40MAeZLjQgB5k+L+AHmU4v0AeZXi/AB5luL7AHmX40AAeZji+AB5mubLAHmb5tAAeZzmzgB5oObNAHmh5swAeaLmzwB5pOquAHmmv20AeafBSAB5qO2wAHmqwUkAeavtrwB5rPBfAHmt8F4Aea7CpwB5sPKlAHmxw6sAebL0oQB5s8WhAHm09vcAebb4twB5t/i2AHm4yagAebms6gB5uqzrAHm71sMAeb24VgB5vqXdAHm/qHIAecCocQB5wahwAHnFzaQAeciqxAB5yarDAHnLrO4Aec3P+gB5zs/9AHnPz/sAedGs7AB50qztAHnVz/kAedbP/AB52K+1AHnc0vMAed3S9QB53tL0AHnfr7IAeeDS7wB546+wAHnkr68AeeavswB556+xAHnpr7QAeerS8gB569LtAHns0u4Aee3S8QB57tLwAHn21sYAeffWxwB5+NbFAHn61sQAefuyvgB6ALV9AHoC2tYAegPa2AB6BNraAHoFtXwAegi1egB6CtrXAHoLtXsAegza2QB6DbV5AHoQ30EAehHe9wB6Et76AHoT3v4AehS4WgB6Fd78AHoX3vsAehje+AB6Gd75AHoauFgAehvfQAB6HLhXAHoeuFwAeh+4WwB6ILhZAHoi3v0AeibjSQB6KONIAHor40QAei662AB6L+NHAHow40YAejG62QB6N71eAHo55tIAeju9XwB6PL1bAHo9vV0Aej+9WgB6QL1cAHpE6q8Aeka/cAB6R+qxAHpI6rAAekrjRQB6S79yAHpMv3EAek2/bgB6Tr9vAHpU7bUAelbtswB6V8FKAHpY7bQAelrttgB6W+2yAHpc7bEAel/wYAB6YMKqAHphwqgAemLCqQB6Z/KmAHpo8qcAemnDrQB6a8OsAHps9KMAem30pAB6bvSiAHpw9vgAenH2+QB6dKXeAHp1ykgAenaocwB6eM2lAHp5qsYAenqqxQB6e82mAHp+0EAAen+s7wB6gM/+AHqBrPAAeoSvtgB6hdL4AHqG0vYAeofS/AB6iK+3AHqJ0vcAeorS+wB6i9L5AHqM0voAeo/WyAB6kNbKAHqSsr8AepTWyQB6lbLAAHqWtaIAepe1oQB6mLV+AHqZ2tsAep7fRAB6n7hdAHqguF4AeqLfQwB6o99CAHqo40oAeqm62wB6qrraAHqr40sAeqzjTAB6rr1hAHqvvWAAerHqtQB6subTAHqz5tUAerTm1AB6teq0AHq26rIAerfqtgB6uOqzAHq6v3MAer7ttwB6v8FLAHrA7bgAesHtuQB6xMKrAHrFwqwAesfEdQB6ysXRAHrLpd8AetHQQQB62NL9AHrZr7gAet+zugB64LO5AHrjtaQAeuTa3QB65bWjAHrm2twAeuvfRQB67brcAHru400Aeu+63QB69sR2AHr39KUAevmmywB6+qrHAHr7zacAev2s8gB6/6zxAHsA0EIAewHQQwB7BNNAAHsF00IAewavuQB7CNNEAHsJ00cAewrTRQB7DtNGAHsP00MAexDS/gB7Ea+6AHsS00gAexPTQQB7GNbTAHsZssYAexrW3AB7G7LDAHsd1tUAex6yxwB7ILLBAHsi1tAAeyPW3QB7JNbRAHsl1s4AeyayxQB7KLLCAHsq1tQAeyvW1wB7LLLEAHst1tgAey6yyAB7L9bZAHsw1s8AezHW1gB7MtbaAHsz1tIAezTWzQB7NdbLAHs41tsAezva3wB7QNrkAHtE2uAAe0Xa5gB7RrWnAHtH1swAe0ja4QB7SbWlAHtK2t4Ae0u1rAB7TNriAHtNtasAe07a4wB7T7WtAHtQtagAe1G1rgB7UrWpAHtUtaoAe1a1pgB7WNrlAHtguGEAe2HfUAB7Y99TAHtk30cAe2XfTAB7Zt9GAHtnuGMAe2nfSgB7bd9IAHtuuGIAe3DfTwB7cd9OAHty30sAe3PfTQB7dN9JAHt1uuEAe3bfUgB7d7hfAHt431EAe4LjXQB7hLroAHuF41gAe4e65wB7iONOAHuK41AAe4u64AB7jONVAHuN41QAe47jVwB7j7rlAHuQ41IAe5HjUQB7lLrkAHuVut8Ae5bjUwB7l7riAHuY41kAe5njWwB7m+NWAHuc408Ae5264wB7oL1pAHuhut4Ae6TjXAB7rObZAHutvWIAe6/m2wB7sb1jAHu0vWUAe7Xm3gB7t+bWAHu4uuYAe7nm3AB7vubYAHvAuGAAe8G9aAB7xL1kAHvGvWYAe8e9ZwB7yb92AHvK5t0Ae8vm1wB7zL1qAHvO5toAe9TqwAB71eq7AHvY6sUAe9m/dAB72uq9AHvbv3gAe9zqwwB73eq6AHve6rcAe9/qxgB74MFRAHvhv3kAe+LqwgB74+q4AHvkv3cAe+XqvAB75r97AHvn6rkAe+jqvgB76b96AHvq6sEAe+vqxAB78O3LAHvx7cwAe/LtvAB78+3DAHv07cEAe/fBTwB7+O3IAHv56r8Ae/vtvwB7/e3JAHv+wU4Ae//tvgB8AO29AHwB7ccAfALtxAB8A+3GAHwF7boAfAbtygB8B8FMAHwJ7cUAfArtzgB8C+3CAHwMwVAAfA3BTQB8Du3AAHwP7bsAfBDtzQB8Eb91AHwZ8GMAfBzwYQB8HfBnAHwewrAAfB/wZQB8IPBkAHwhwrIAfCLwagB8I8KxAHwl8GsAfCbwaAB8J8KuAHwo8GkAfCnwYgB8KsKvAHwrwq0AfCzyqwB8LfBmAHww8GwAfDPyqAB8N8OyAHw4w7AAfDnyqgB8O/KsAHw88qkAfD3DsQB8PsOuAHw/w68AfEDDswB8Q8R4AHxF9KoAfEf0qQB8SPSnAHxJ9KYAfEr0qAB8TMR3AHxNxHkAfFDE8AB8U/XlAHxU9eQAfFf2+gB8Wfb8AHxa9v4AfFv2/QB8XPb7AHxfxaMAfGDFogB8Y8XTAHxkxdIAfGXF1AB8ZvftAHxn9+wAfGn4+wB8avi4AHxr+PwAfGzGWAB8bsZZAHxv+W0AfHLGfgB8c6bMAHx1zagAfHjQRQB8edBGAHx60EQAfH2s8wB8f9BHAHyA0EgAfIHQSQB8hNNJAHyF008AfIjTTQB8ia+7AHyK00sAfIzTTAB8jdNOAHyR00oAfJKyyQB8lNbeAHyVsssAfJbW4AB8l7LKAHyY1t8AfJ7a6AB8n7WvAHyh2uoAfKLa5wB8o9bhAHyltbAAfKf52wB8qNrpAHyv31YAfLG4ZAB8st9UAHyzuGUAfLTfVQB8tbhmAHy5uukAfLrjYQB8u+NeAHy842AAfL266gB8vrrrAHy/418AfMXm3wB8yObgAHzKvWsAfMvm4gB8zObhAHzOomEAfNDqygB80erLAHzS6scAfNTqyAB81b98AHzWv30AfNfqyQB82cFXAHzcwVMAfN3BWAB83sFUAHzfwVYAfODBUgB84sFVAHznwrMAfOjtzwB86vKuAHzs8q0AfO70qwB878R6AHzwxHsAfPH3QQB88vXmAHz090AAfPb4/QB89/mkAHz4ps0AfPuodAB8/c2pAHz+qsgAfQCs9gB9AdBMAH0CrPQAfQPQSgB9BKz5AH0FrPUAfQas+gB9B6z4AH0I0EsAfQms9wB9Cq+/AH0Lr74AfQzTWgB9Da/HAH0O01MAfQ/TWQB9EK/DAH0R01IAfRLTWAB9E9NWAH0Ur8IAfRWvxAB9FtNVAH0Xr70AfRjTVAB9Ga/IAH0ar8UAfRuvyQB9HK/GAH0d01EAfR7TUAB9H9NXAH0gr8AAfSGvvAB9Iq/BAH0o1vAAfSnW6QB9K7W1AH0s1ugAfS6yzwB9L7LWAH0wstMAfTGy2QB9MrLYAH0zstQAfTXW4gB9NtblAH041uQAfTmy0AB9OtbmAH071u8AfTyy0QB9PdbjAH0+1uwAfT/W7QB9QLLSAH1B1uoAfUKy1wB9Q7LNAH1EstUAfUXW5wB9RrLMAH1H1usAfUrW7gB9Ttr7AH1P2vIAfVC1sgB9Udr5AH1S2vYAfVPa7gB9VNr3AH1VtbQAfVba7wB9WNrrAH1buGwAfVza9AB9XrWxAH1f2voAfWG1uAB9YrW6AH1j2u0AfWa1uQB9Z9rwAH1otbMAfWna+AB9atrxAH1r2vUAfW3a8wB9brW2AH1v2uwAfXC1uwB9cbLOAH1ytbcAfXO1vAB9ebhoAH16310AfXvfXwB9fN9hAH1932UAfX/fWwB9gN9ZAH2BuGoAfYPfYAB9hN9kAH2F31wAfYbfWAB9iN9XAH2M32IAfY3fWgB9jt9eAH2PuGsAfZG4aQB9kt9mAH2TuGcAfZTfYwB9luNyAH2cuu4AfZ3jagB9nr14AH2f43QAfaC68QB9oeN4AH2iuvcAfaPjZQB9puN1AH2n42IAfanjdwB9quNmAH2suv4Afa26+wB9ruN2AH2v43AAfbC67QB9sbr1AH2yuvQAfbS68wB9tbr5AH2342MAfbi6+gB9ueNxAH26uvYAfbu67AB9vONzAH29uu8Afb668AB9v7r4AH3A42gAfcHjZwB9wuNkAH3E42wAfcXjaQB9xuNtAH3Huv0AfcnjeQB9yrryAH3L424AfczjbwB9zuNrAH3SuvwAfdfm5wB92L1wAH3ZvXkAfdq9dQB92+bkAH3dvXIAfd69dgB93+bwAH3gvWwAfeHm6AB94710AH3m5usAfefm5gB96L1zAH3pvXcAferm5QB97L1xAH3u5u8Afe+9bgB98ObuAH3x5u0AffK9egB98+VyAH30vW0Affbm7AB99+bjAH35vXsAffrm6gB9+71vAH4D5ukAfgi/ogB+Cb+nAH4Kv34Afgvq2AB+DOrPAH4N6tsAfg7q0wB+D+rZAH4Qv6gAfhG/oQB+EurMAH4T6tIAfhTq3AB+FerVAH4W6toAfhfqzgB+GurWAH4bv6MAfhzq1AB+Hb+mAH4ev6UAfh/q0AB+IOrRAH4h6s0AfiLq1wB+I7+kAH4k6t4AfiXq3QB+Ke3aAH4q7dYAfivBXwB+Le3QAH4uwVkAfi/BaQB+MO3cAH4xwWEAfjLBXQB+M+3TAH40wWQAfjXBZwB+Nu3eAH43wVwAfjjt1QB+OcFlAH467eAAfjvt3QB+PO3RAH49wWAAfj7BWgB+P8FoAH5A7dgAfkHBYwB+Qu3SAH5DwV4AfkTt3wB+RcFiAH5GwVsAfkft2QB+SMFmAH5J7dcAfkzt2wB+UPBuAH5R8HQAflLCuQB+U/B3AH5UwrQAflXCtQB+VvBvAH5X8HYAfljwcQB+WcK6AH5awrcAflzwbQB+XsK2AH5f8HMAfmDwdQB+YcK4AH5i8HIAfmPwcAB+aPK4AH5pw7cAfmrDuAB+a8O0AH5tw7UAfm/ytAB+cPKyAH5y8rYAfnPDugB+dPK3AH518rAAfnbyrwB+d/KzAH548rEAfnnDtgB+evK1AH579KwAfnzEfgB+fcR9AH5+9K0AfoD0rwB+gfSuAH6CxKEAfob16wB+h/XoAH6I9ekAfor15wB+i/XqAH6MxPIAfo317AB+j8TxAH6R90IAfpPF1QB+lMXXAH6V9+4AfpbF1gB+l/i5AH6Y+UAAfpn5QgB+mvj+AH6b+UEAfpzGbAB/NqbOAH84rPsAfznSbwB/Oq/KAH89stoAfz7a/AB/P9r9AH9D6t8Af0TBagB/Re3hAH9IwrsAf0ryugB/S/K5AH9MxKIAf0317QB/T/dDAH9QxfgAf1HKSQB/VKrJAH9VqHUAf1jQTQB/W9NgAH9c01sAf13TXwB/XtNdAH9fr8sAf2DTXgB/YdNcAH9j1vEAf2Xa/gB/ZttAAH9n32kAf2jfagB/abhuAH9quG8Af2vfaAB/bN9rAH9t32cAf264bQB/cLtAAH9yuHAAf3PjegB/db18AH925vEAf3e9fQB/eb+pAH966uIAf3vq4AB/fOrhAH997eQAf37t4wB/f+3iAH+D8rsAf4XDuQB/hvK8AH+H90QAf4jF+QB/ifi6AH+Kps8Af4uqywB/jKrKAH+N0E8Af46s/AB/kdBOAH+S02IAf5SvzAB/ldbyAH+W02EAf5qy3AB/m9b1AH+c1vMAf53W9AB/nrLbAH+g20IAf6HbQwB/ottBAH+kuHMAf6XfbQB/pt9sAH+n324Af6i4cgB/qbhxAH+s5vIAf63m9AB/r71+AH+w5vMAf7Hq4wB/sr+qAH+z8HkAf7XweAB/tsO7AH+38r0Af7jDvQB/ucO8AH+69LAAf7v17gB/vMTzAH+9ptAAf77QUAB/v6z9AH/A02UAf8GvzgB/wtNkAH/D02MAf8WvzQB/x9b7AH/J1v0Af8rW9gB/y9b3AH/Mst0Af83W+AB/zrLeAH/P1vwAf9DW+QB/0db6AH/Sst8Af9S1vgB/1bW/AH/X20QAf9vfbwB/3N9wAH/e434Af9+7QwB/4LtBAH/hu0IAf+LjewB/4+N8AH/l430Af+bm+QB/6Ob6AH/pvaEAf+rm9wB/6+b2AH/s5vgAf+3m9QB/7r+tAH/v6uQAf/C/qwB/8b+sAH/y7eYAf/PBawB/9O3lAH/176gAf/fwegB/+PB7AH/5wrwAf/vCvQB//MFsAH/98r4Af/7yvwB///SxAIAAxKMAgAGm0QCAA6bSAIAErP4AgAWqzACABq/PAIAH0FEAgAu1wACADKbTAIANrUEAgA7QUgCAD9BTAIAQrUAAgBGtQgCAEqbUAIAU0FQAgBWv0QCAFtNmAIAXr9MAgBiv0ACAGa/SAIAb10EAgByy4ACAHtdAAIAf1v4AgCHfcQCAJOOhAIAmvaIAgCi/rgCAKermAIAq6uUAgCzt5wCAMPXvAIAzptUAgDTLcwCANc2qAIA2rUMAgDfQVQCAOdNoAIA9r9QAgD7TZwCAP6/VAIBD10MAgEay4gCAR9dCAIBI10QAgEqy4QCAT9tGAIBQ20cAgFHbRQCAUrXBAIBWuHQAgFi4dQCAWrtFAIBc46MAgF3jogCAXrtEAIBk5vsAgGfm/ACAbOrnAIBvwXAAgHDBbwCAccFtAIBywW4AgHPBcQCAdfB8AIB2wr8AgHfCvgCAePLAAIB59LIAgH3FpQCAfsWkAIB/ptYAgILR+wCAhLh3AICFtcIAgIa4dgCAh7tGAICJptcAgIrJqQCAi6bYAICMptkAgI/NqwCAkMt2AICSy3cAgJOodwCAlct0AICWqHYAgJioeQCAmct1AICaqHsAgJuoegCAnMt4AICdqHgAgKGq0QCAoqrPAICjza0AgKWqzgCAqarTAICqqtUAgKuq0gCArc2wAICuzawAgK+q1gCAsarQAICyqHwAgLSq1ACAtc2vAIC4za4AgLqqzQCAwtBbAIDDrUcAgMStSACAxdBdAIDH0FcAgMjQWgCAydBjAIDK0GEAgMytSQCAzdBnAIDOrUwAgM/QZACA0NBcAIDR0FkAgNTbSQCA1dBiAIDWrUQAgNfQZQCA2NBWAIDZ0F8AgNqtRgCA261LAIDc0GAAgN2tTwCA3q1NAIDg0FgAgOGtSgCA49BeAIDkrU4AgOWtRQCA5tBmAIDtr9oAgO+v4wCA8K/YAIDxr9YAgPLTagCA86/eAID0r9sAgPXTbACA+K/dAID502sAgPrTaQCA+9NuAID8r+IAgP2v4ACA/ttIAIEA028AgQHTbQCBAq/XAIEFr9kAgQav3ACBCK/fAIEKr+EAgRXXTgCBFrLkAIEY10UAgRnXRwCBG9dIAIEd11AAgR7XTACBH9dKAIEh100AgSLXUQCBI7LlAIEksukAgSXXRgCBJ9dPAIEpsucAgSuy5gCBLNdLAIEt10kAgS+y4wCBMLLoAIE5tcgAgTrbUQCBPdtPAIE+tcoAgUPbSgCBRN+hAIFGtckAgUfbTgCBSttLAIFLtcUAgUy1ywCBTdtQAIFOtccAgU/bTQCBULtHAIFRtcYAgVLbTACBU7XMAIFUtcQAgVW1wwCBW993AIFc33UAgV7fewCBYN9zAIFh36IAgWLfeACBZN9yAIFluHsAgWa4owCBZ999AIFp33YAgWu4fgCBbrh8AIFv334AgXC4eQCBcbh4AIFy33kAgXO4fQCBdLXNAIF233wAgXffdACBeLh6AIF5uKEAgXq4ogCBf7tMAIGAu0gAgYK7TQCBg+OmAIGG46UAgYfjpwCBiLtKAIGJ46QAgYq7SwCBi+OqAIGM46kAgY3jqACBj7tJAIGV50EAgZfnRACBmL2oAIGZ50MAgZq9pwCBm72jAIGcvaQAgZ29pQCBnudAAIGf5v4AgaC9pgCBoudCAIGj5v0Agabq6QCBp+rzAIGov7EAgam/sACBq+rtAIGs6u8Aga7q6gCBsOruAIGx6ugAgbLq8QCBs7+vAIG06vAAgbXq7ACBt+ryAIG56usAgbrBdACBu+3oAIG87e4Agb3BeACBvsF6AIG/wXcAgcDBdgCBwsF1AIHDwXMAgcTt6QCBxe3sAIHGwXIAgcft7QCBycF5AIHK7esAgczt6gCBzcLAAIHPwsEAgdDwoQCB0fB9AIHS8H4AgdXywgCB1/LBAIHYw74Agdn0tACB2sSkAIHb9LMAgd318ACB3vdFAIHfxaYAgeD5QwCB4flEAIHixdgAgeOm2gCB5arXAIHm21IAgee7TgCB6MF7AIHp7e8Ageqm2wCB7K/lAIHtr+QAge7bUwCB8ur0AIHzptwAgfStUACB99tUAIH421UAgfnbVgCB+rtPAIH7v7IAgfym3QCB/qrYAIH/0GgAggCv5gCCAdNwAIICsuoAggTbVwCCBbikAIIHu1AAggi/swCCCcF8AIIKwsIAggv0tQCCDKbeAIINqtkAghCv5wCCEddSAIIStc4AghS7UQCCFeOrAIIW50UAghum3wCCHLXPAIId36MAgh67UgCCH6bgAIIgzbEAgiHQaQCCIq1RAIIl03IAgiiv6gCCKq/oAIIrr+kAgiyv6wCCL9NxAIIy11cAgjPXVACCNNdWAII1susAgjay7QCCN7LsAII411MAgjmy7gCCOtdVAII821gAgj3bWQCCP9taAIJA36YAgkLfpwCCRN+lAIJF36gAgke4pQCCSd+kAIJLu1MAgk7nSgCCT+dGAIJQ50kAglHnSwCCUudIAIJT50cAglXq9QCCVur2AIJX6vcAgli/tACCWb+1AIJa7fEAglvt8ACCXO3yAIJe8KMAgl/wogCCYfLEAIJj8sUAgmTywwCCZsSlAIJo9LYAgmn0twCCa/dGAIJs9+8Agm34uwCCbqbhAIJvqH0AgnHBfQCCcqbiAIJ011gAgnXbWwCCd8ZBAIJ4ykoAgnzKSwCCfcpNAIJ+puMAgn/KTgCCgMpMAIKDy6IAgoTLowCChct7AIKKy6EAgouooQCCjaiiAIKOy3wAgo/LegCCkMt5AIKRy30AgpKofgCCk8t+AIKU0GoAgpjNtgCCmarcAIKazbUAgpvNtwCCnarbAIKezbwAgp+q3wCCoM2yAIKhzcAAgqLNxgCCo6rmAIKkzcMAgqWq4wCCp825AIKozb8AgqnNwQCCq820AIKsquIAgq2q3QCCrs26AIKvquQAgrCq5wCCsarhAIKzqtoAgrTNvgCCtc24AIK2zcUAgreq6QCCuKrlAIK5quAAgrrNvQCCu6/sAIK8zbsAgr2q3gCCvqroAILAzbMAgsLNwgCCw83EAILRrWIAgtKtXACC061kAILUrWEAgtXQcQCC1tB0AILXrV0AgtnQawCC261WAILcrWAAgt6tYwCC361lAILg0KIAguHQdwCC461VAILk0KEAguWtWQCC5q1XAILnrVIAgujQbwCC6tB+AILr0HMAguzQdgCC7dClAILvrWYAgvDQfQCC8a1eAILy0HgAgvPQpACC9NB1AIL10HkAgvbQfACC+dBtAIL60KMAgvvQewCC/tBsAIMA0HAAgwGtXwCDAq1aAIMDrVMAgwStWACDBa1UAIMGrWcAgwfQbgCDCNOlAIMJrVsAgwzQegCDDc5BAIMW06gAgxev+gCDGdN2AIMb06MAgxzTfQCDHtOyAIMg06oAgyLTfgCDJNOpAIMl03gAgybTfACDJ9O1AIMor/0AgynTrQCDKtOkAIMrr+0AgyzTswCDLdN0AIMv06wAgzGv/ACDMq/3AIMz03MAgzSv9QCDNa/0AIM2r/kAgzfTqwCDOK/xAIM5r/gAgzrQcgCDO9tcAIM806YAgz/TegCDQK/7AINB03sAg0LToQCDQ6/+AINE03UAg0XTrwCDR9OuAINI07YAg0mv8wCDSq/wAINL07QAg0zTsACDTdOnAINO06IAg0+v9gCDUK/yAINR03cAg1Kv7gCDU9OxAINUr+8Ag1bTeQCDc9deAIN012AAg3XXZQCDdtd5AIN3svwAg3iy8gCDetddAIN7sv0Ag3yy/gCDfddoAIN+128Ag3/XdQCDgddiAIOD12kAg4azQACDh9d3AIOI13IAg4my+gCDirL4AIOL124Ag4zXagCDjddcAIOOsu8Ag4/XYQCDkNdZAIOSsvcAg5Oy+QCDlNdmAIOV12MAg5ay9ACDl9dzAIOYsvEAg5nXZACDmtd6AIOb12wAg53XawCDnrLwAIOgsvsAg6Ky8wCDo9daAIOk118Ag6XXcACDptd2AIOns0EAg6jXWwCDqddnAIOq120Ag6uy9gCDrtd4AIOv13EAg7DXdACDvbL1AIO/22wAg8DbYACDwbXXAIPC230Ag8PbpwCDxNuqAIPFtdUAg8bbaACDx9ujAIPI22kAg8nbdwCDyrXiAIPL23MAg8y13wCDztt0AIPP210Ag9HbpACD1LXoAIPV26EAg9bbdQCD19usAIPY23AAg9nfyACD29uvAIPcteYAg93bbgCD3tt6AIPftekAg+C11ACD4dtyAIPi260Ag+PbawCD5NtkAIPl228Ag+fbYwCD6NthAIPptdAAg+rbpQCD69tqAIPs26gAg+7bqQCD77XYAIPwtd0Ag/G12QCD8rXhAIPz234Ag/S12gCD9dt2AIP222YAg/i10gCD+dteAIP626IAg/vbqwCD/NtlAIP9teAAg/7bsACD/9txAIQB220AhAO10QCEBLXlAIQG23wAhAe15wCECdt4AIQKtdwAhAu11gCEDLXeAIQNtdMAhA615ACED9t5AIQQ22cAhBHbewCEEttiAIQT26YAhBvbrgCEI9tfAIQp38cAhCvf3QCELLhVAIQt38wAhC/fygCEMN+1AIQxuKkAhDLfxQCEM9/ZAIQ038EAhDW4sQCENt/YAIQ3378AhDi14wCEOd/PAIQ638AAhDvf1gCEPLiwAIQ9uKgAhD/fqgCEQN+yAIRC38sAhEPfwwCERN/cAIRF38YAhEa4tgCER9/XAIRJuK0AhEvfyQCETN/RAIRN37YAhE7f0ACEUN/hAIRR37EAhFLf0gCEVN/fAIRW36sAhFe12wCEWd+5AIRa37gAhFu4rwCEXd+8AIRe374AhF/fzQCEYN/eAIRhuLIAhGO4swCEZd+wAIRmuKsAhGfftACEaN/aAIRpuLQAhGu4rACEbLiuAIRtuLUAhG7f4ACEb9/TAIRw384AhHPfuwCEdN+6AIR1uKoAhHbfrACEd7inAIR438QAhHnfrQCEet/CAIR937cAhH7f2wCEgrimAISG37MAhI3frwCEjt/VAISP364AhJC7YACEkePTAISU48IAhJfjrACEmOPKAISZu1gAhJrjuwCEm+PFAIScu1sAhJ3jvgCEnrtZAISf468AhKDjzQCEoeOuAISi48EAhKTjrQCEp+O/AISo48gAhKnjxgCEquO6AISr47UAhKzjswCEruO0AISv48cAhLDj0gCEseO8AISyu1oAhLTjtwCEtuPLAIS4u10AhLnjtgCEuuOwAIS748AAhLy7YQCEv7tVAITAu14AhMHjuACEwuOyAITEu1cAhMXf1ACExrtWAITH48MAhMm7VACEyrtjAITLu1wAhMzjxACEzeO5AITO47EAhM/jzACE0OO9AITRu2IAhNLj0ACE07tfAITU488AhNbjyQCE1+POAITb49EAhOfncwCE6Od0AITp52cAhOrnZgCE6+diAITsvbQAhO69rACE7+d2AITw53UAhPHfqQCE8udfAITz52MAhPTnXQCE9udwAIT352EAhPnndwCE+udaAIT751gAhPznZACE/eduAIT+52kAhP+9tgCFAOdPAIUC520AhQa9twCFB9+9AIUI51sAhQnnUgCFCudVAIUL53sAhQznXACFDedTAIUO51EAhQ/nTgCFEb2wAIUS52UAhRO9rwCFFL2zAIUV52AAhRbnaACFF72pAIUY53gAhRnnfACFGr2rAIUc51cAhR3nawCFHudvAIUf51QAhSDneQCFIb2yAIUjvbEAhSTnTACFJb21AIUm53IAhSfnVgCFKOdqAIUp51AAhSrnXgCFK+dZAIUsva0AhS29rgCFLudsAIUv530AhTDnegCFMedxAIU7500AhT29qgCFPutJAIVA60AAhUHrQwCFQ7+7AIVE60UAhUXq+QCFRutBAIVH60cAhUi/uACFSb+8AIVKv7YAhU3q+wCFTutMAIVR60YAhVPq/ACFVOtVAIVV608AhVbq+ACFV+5GAIVY6v4AhVm/twCFW+tKAIVd61QAhV6/vwCFYOtRAIVh6v0AhWLrRACFY+tIAIVk60IAhWXrVgCFZutTAIVn61AAhWi/uQCFab+6AIVqv74AhWvq+gCFbOtXAIVtv70AhW7rTQCFcetLAIV1604AhXbuUwCFd+5AAIV47kUAhXnuUgCFeu5EAIV77fsAhXzuQQCFfsGiAIWA7fQAhYHuTQCFgu5PAIWD7fMAhYTBoQCFhe5RAIWG7kkAhYfBqACFiO5QAIWJ7kIAhYrBqgCFi+35AIWM61IAhY3uSgCFju5HAIWP7fUAhZDuVQCFkcGkAIWUwaUAhZXt9wCFlu5IAIWY7lQAhZnuSwCFmu39AIWbwacAhZzBowCFne5MAIWe7f4AhZ/uVgCFoO34AIWh7kMAhaLuTgCFo+36AIWk7fwAhabCywCFp+32AIWowakAhanCxACFqsF+AIWvwaYAhbDCyACFsfCzAIWz8KkAhbTwpACFtfCqAIW28LQAhbfwuACFuPC3AIW5wsoAhbrCyQCFvfCrAIW+8LkAhb/wrgCFwPCmAIXC8KgAhcPwpwCFxPCtAIXF8LIAhcbwpQCFx/CsAIXI8LEAhcnCxwCFy/CvAIXNwsUAhc7wsACFz8LDAIXQwsYAhdHy1QCF0vC1AIXVw8IAhdfyzQCF2PLRAIXZ8skAhdryzACF3PLUAIXdw8AAhd7y2QCF3/LSAIXh8soAheLy2gCF4/LTAIXkw8MAheXDxACF5vLXAIXo8ssAhenDvwCF6sPBAIXr8sYAhezyzgCF7fLIAIXv8tgAhfDy1gCF8fLHAIXy8s8Ahfb0vgCF98PFAIX48tAAhfnEpwCF+sSpAIX7xKYAhf30wwCF/vS7AIX/9LkAhgD0vQCGAfS6AIYE9L8AhgX0wQCGBsSqAIYHxKwAhgn0wACGCsStAIYLxKsAhgz0wgCGEcSoAIYXxPQAhhj18QCGGfX3AIYaxPYAhhv0vACGHPX2AIYe9f0Ahh/19ACGIPX7AIYh9foAhiL0uACGI/X1AIYk8LYAhiX1/gCGJvXzAIYn9fgAhin1/ACGKvXyAIYs90oAhi3E9QCGLvX5AIYx9/QAhjL3SwCGM/dJAIY090cAhjX3SACGNvdMAIY4xdkAhjn38gCGOvfwAIY79/UAhjz38wCGPvf2AIY/xdoAhkD38QCGQ/i8AIZG+UUAhkf5RgCGSPlHAIZL+ccAhkz5vQCGTcpPAIZOquoAhlCtaACGUtO4AIZT07cAhlSwQACGVbNCAIZW13wAhlnXewCGW7XqAIZcuLgAhl64twCGX7i5AIZh49QAhmLnfgCGY+tYAIZk61oAhmXrWQCGZ8GrAIZo7lcAhmnwugCGavmlAIZrpuQAhm3NyQCGbs3KAIZvzcgAhnDNxwCGcarrAIZz0KkAhnTQpwCGd9CmAIZ5rWkAhnqtawCGe61qAIZ80KgAhoXTxACGhtPBAIaH078AhoqwQQCGi9PCAIaMsEYAho3TvACGjtPLAIaQ080AhpHTvQCGk7BDAIaU084AhpXTyQCGltO7AIaX08AAhpjTygCGmdPGAIaa08MAhpywSACGndPMAIae074AhqHTxwCGotO5AIajsEcAhqSwRACGpdPFAIan08gAhqjTugCGqbBFAIaqsEIAhq+zTACGsNelAIaxs0sAhrPXqACGtNerAIa1s0gAhrazRgCGt9d+AIa416kAhrnXpwCGutekAIa716wAhrzXrQCGvdevAIa+17AAhr/XfQCGwLNFAIbB16IAhsLXoQCGw9euAIbEs0cAhsXXowCGxrNJAIbHs0QAhsjXpgCGybNNAIbLs0oAhszXqgCG0LXxAIbR278AhtPbtACG1LXuAIbW3+cAhtfbvQCG2NuxAIbZtewAhtrbtgCG27XvAIbc27oAht3buACG3rXyAIbftesAhuLbsgCG49u1AIbktfAAhubbswCG6Nu+AIbp27wAhurbtwCG69u5AIbs27sAhu217QCG9d/oAIb23+4Ahvff5ACG+N/qAIb5uLoAhvrf5gCG+7jAAIb+uL8AhwC4vgCHAd/tAIcCuMEAhwO4wgCHBN/jAIcF3/AAhwa4wwCHB7i9AIcIuLwAhwnf7ACHCrjEAIcL3+IAhwzf5QCHDd/vAIcO3+sAhxHj9ACHEuPpAIcTuLsAhxi7agCHGePdAIca4/IAhxvj3gCHHLtlAIce49sAhyDj5ACHIePcAIciu2cAhyPj1gCHJOPxAIclu2gAhybj7gCHJ+PvAIco49cAhym7bQCHKuPmAIcs4+AAhy3j5wCHLuPaAIcw4/MAhzHj6wCHMuPlAIcz49UAhzS7aQCHNePsAIc3u2wAhzjj8ACHOuPqAIc7u2YAhzzj6ACHPuPiAIc/u2QAh0Dj2QCHQePhAIdC4+0Ah0Pj3wCHRuPjAIdMvcEAh03f6QCHTueyAIdP57sAh1DnsQCHUeetAIdS56oAh1O9wgCHVOeoAIdVu2sAh1bnoQCHV73AAIdY56cAh1m9vwCHWuesAIdb56kAh1znuQCHXee0AIde564Ah1/nswCHYL27AIdh56sAh2LnvgCHY+eiAIdk56MAh2XnugCHZr28AIdn578Ah2i9vgCHaefAAIdq57AAh2vj2ACHbOe2AIdt568Ah27nuACHb+e1AIdz56YAh3S9uQCHdee9AId2vboAh3fnpACHeL29AId562QAh3rntwCHe+e8AIeB62EAh4K9uACHg7/AAIeE62sAh4XrZwCHh+tlAIeI62AAh4nrbwCHjb/EAIeP61wAh5DraACHketpAIeS618Ah5PrXgCHlOtsAIeW62IAh5frXQCHmOtjAIea624Ah5vrWwCHnOttAIed62oAh56/wgCHn7/BAIeiv8MAh6PrZgCHpPDLAIeq7lkAh6vBsQCHrO5dAIet7loAh67uYQCHr+5nAIew7lwAh7LucACHs8GuAIe07moAh7XuXwCHtu5rAIe37mYAh7jubQCHue5eAIe6wbMAh7vBsgCHvO5gAIe97m4Ah77uWACHv+5sAIfAwawAh8LuZACHw+5jAIfE7mgAh8XuWwCHxsGwAIfIwbQAh8nuYgCHyu5pAIfLwbUAh8zuZQCH0cGtAIfSwa8Ah9PwxwCH1PDFAIfX8MwAh9jwyQCH2fDNAIfb8L4Ah9zwxgCH3fDRAIfe7m8Ah9/wwgCH4MLPAIfh56UAh+LwvQCH4/DKAIfk8MQAh+XwwQCH5vC8AIfn8LsAh+jw0ACH6vDAAIfr8L8Ah+zCzQCH7fDIAIfvwswAh/LCzgCH8/DDAIf08M8Ah/by3gCH9/LfAIf5w8kAh/ry3ACH+8PGAIf88uQAh/7DygCH//LmAIgA8tsAiAHwzgCIAvLoAIgD8t0AiAXDxwCIBvLjAIgI8uUAiAny4ACICvLnAIgL8uIAiAzy4QCIDcPIAIgQ9MUAiBH0xgCIE/TIAIgUxK4AiBXErwCIFvTJAIgX9McAiBn0xACIG/ZCAIgc9kUAiB32QQCIH8T6AIgg9kMAiCHE+QCIIsT4AIgjxPcAiCT2RACIJfdRAIgm908AiCj3TgCIKfZAAIgq91AAiCv2RgCILPdNAIgu9/kAiC/31wCIMPf3AIgxxdsAiDL3+ACIM/f6AIg1+L8AiDbF+gCIN/i+AIg4+L0AiDnF+wCIO8ZaAIg8+W4AiD35pwCIPvmmAIg/+agAiECm5QCIQdCqAIhD088AiETT0ACISNvAAIhK9kcAiEv4wACITKbmAIhNrWwAiE7QqwCIUtexAIhTs04AiFXbwgCIVtvBAIhXtfMAiFm4xQCIWufBAIhbvcMAiF29xACIYb/FAIhixfwAiGOm5wCIZ9CsAIhoqu0AiGnQrgCIatCtAIhrrW0AiG3T0QCIb9PYAIhwsEkAiHHT1gCIctPUAIh009sAiHXT0gCIdtPTAIh3sEoAiHmwTgCIfNPcAIh9sE0AiH7T2gCIf9PXAIiA09UAiIGwSwCIgrBMAIiD09kAiIizUACIideyAIiLs1UAiIzXwgCIjbNUAIiO18QAiJHXuACIkrNSAIiT18MAiJXXswCIlrNTAIiX178AiJjXuwCImde9AIia17cAiJvXvgCInrNPAIif17oAiKHXuQCIote1AIik18AAiKfXvACIqNe0AIiq17YAiKuzUQCIrNfBAIixtfYAiLLbzQCIttvJAIi328sAiLjbxgCIudvFAIi628MAiLzbygCIvdvMAIi+28gAiMDbxwCIwbX0AIjCtfUAiMnbzwCIyrjNAIjL3/IAiMzf+ACIzd/zAIjO3/QAiM/52ACI0N/5AIjSuM8AiNS4xwCI1bjOAIjW3/EAiNfbxACI2LjKAIjZuMgAiNrf9wCI29/2AIjcuMkAiN24ywCI3t/1AIjfuMYAiOG4zACI5+P2AIjou3QAiOvkQgCI7ORBAIju4/sAiO+7dgCI8ORAAIjx4/cAiPLj+ACI87tuAIj0u3AAiPbj/QCI9+P1AIj4u3IAiPm7cQCI+uP5AIj74/4AiPzj/ACI/btzAIj+4/oAiQHbzgCJArtvAIkF58IAiQbnyQCJB73GAIkJ580AiQq9ygCJC+fFAIkM58MAiQ7nzACJEL3FAIkR58sAiRK9xwCJE73IAIkU58QAiRW9yQCJFufKAIkX58YAiRjnxwCJGefIAIkau3UAiR7rcACJH+t8AIkhv8oAiSLrdwCJI+t5AIklv8gAiSbrcQCJJ+t1AIkp63gAiSq/xgCJK7/JAIks63sAiS3rcwCJLut0AIkv63oAiTDrcgCJMet2AIkyv8cAiTPucgCJNe5xAIk2wbcAiTfudwCJOMG5AIk7wbYAiTzucwCJPcG6AIk+7nQAiUHudQCJQu54AIlEwbgAiUbw1gCJSfDZAIlL8NMAiUzw1QCJT/DUAIlQ8NcAiVHw2ACJUu52AIlT8NIAiVbDzQCJV/LsAIlY8u8AiVny8QCJWvLqAIlb8usAiVzy7gCJXfLwAIlew84AiV/DzACJYMPLAIlh8u0AiWLy6QCJY/TKAIlkxLAAiWb0ywCJafZJAIlqxPsAiWv2SwCJbMT8AIlt9kgAiW72SgCJb8WoAIlx91IAiXLFpwCJc/f9AIl09/wAiXb3+wCJeflIAIl6+UkAiXv5SwCJfPlKAIl+ylAAiX+m6ACJga1uAImC18UAiYO19wCJhd/6AImGwtAAiYjy8gCJi6ijAImPs1cAiZOzVgCJldvQAImWtfgAiZfb0gCJmNvRAImb3/sAiZy40ACJneRDAIme5EYAiZ/kRQCJoeREAImi584AiaPn0ACJpOfPAImmv8wAiaq/ywCJrMG7AImt7nkAia7uewCJr+56AImywtEAibby9ACJt/LzAIm59MwAibrEsQCJvcT9AIm+91QAib/3UwCJwMZbAInSqKQAidPQrwCJ1K1vAInV18gAidbXxgCJ2dfHAIna29QAidvb1QCJ3OBDAInd29MAid/f/ACJ4OBBAInh4EAAieLgQgCJ47jRAInk3/4AieXf/QCJ5uBEAIno5EkAienkRwCJ6+RIAIns59MAie3n0QCJ8OfSAInx630AifLufACJ8+59AIn0wtIAifby9QCJ9/TNAIn4xLIAifr2TACJ+/dVAIn8xakAif73/gCJ//lMAIoAqKUAigKtcQCKA61yAIoE0LAAigfQsQCKCK1wAIoKsFQAigywUgCKDrBRAIoPsFgAihCwUACKEbBZAIoS090AihOwVgCKFbBTAIoWsFcAihewVQCKGLBPAIobs18Aih2zWQCKHtfMAIofs14AiiKzYACKI7NaAIols1sAiifXygCKKrNYAIos18sAii2zXQCKMNfJAIoxs1wAijS2RACKNrZGAIo529gAijq2RQCKO7X5AIo8tf0Aij645ACKP+BJAIpA29oAikG1/gCKRNvdAIpF294Aika2QwCKSNvgAIpK2+IAikzb4wCKTdvXAIpO29YAik/b5ACKULZCAIpR2+EAilLb3wCKVLZAAIpVtfsAila2RwCKV9vbAIpY29wAilnb2QCKW7ZBAIpetfwAimC1+gCKYeBIAIpiuN8AimO42gCKZrjVAIpouOUAimm41gCKa7jSAIpsuOEAim243gCKbrjgAIpwuNcAinG43ACKcrjTAIpzuNQAinTgUACKdeBNAIp24EUAinfgSgCKebjiAIp64FEAinu44wCKfLjZAIp/4EcAioHgTwCKguBLAIqD4E4AioTgTACKhbjdAIqG4EYAioe42ACKi+RMAIqMu3gAio27ewCKj+ROAIqRu6UAipLkTQCKk7t9AIqVvc8AipbkTwCKmLukAIqZ5EsAipq7pgCKnrt5AIqguNsAiqG7fACKo7t6AIqku34AiqW7ogCKprt3AIqnu6cAiqi7owCKqruhAIqr5EoAirC91gCKsr3SAIq2vdkAirjn1gCKub3aAIq65+IAirvn2wCKvL3LAIq95+MAir7n3QCKv73VAIrA594AisK91ACKw+fhAIrEvc4AisXn3wCKxufVAIrHvc0AisjrqgCKyb3TAIrLvdAAis292ACKz+fUAIrR59gAitK9zACK0+fXAIrU59kAitXn2gCK1r3XAIrX59wAitjn4ACK2efkAIrbvdsAity/0gCK3eulAIre66sAit/rqACK4Ot+AIrh66wAiuLroQCK5OunAIrmv80Aiue/0wCK6OutAIrrv88Aiu2/2QCK7r/UAIrv668AivDrqQCK8b/QAIry66IAivO/2gCK9OujAIr166QAiva/2wCK97/YAIr4vdEAivq/zgCK++uwAIr8v9wAiv6/1QCK/+uuAIsAv9EAiwG/1gCLAr/XAIsEwcMAiwXupACLBu6tAIsH7qoAiwjurACLCsHAAIsL7qUAiw3uqwCLDsG8AIsP7qcAixDBxACLEe6jAIsS7qgAixPurwCLFOumAIsV7qkAixbuogCLF8G9AIsY7qEAixnBvgCLGu6wAIsbwb8AixzurgCLHcHCAIse7n4AiyDBwQCLIu6mAIsj8NwAiyTw6gCLJfDlAIsm8OcAiyfw2wCLKMLTAIsq8NoAiyvC1gCLLMLVAIsu8OkAiy/w4QCLMPDeAIsx8OQAizPw3QCLNfDfAIs28OgAizfw5gCLOcLUAIs68O0Aizvw6wCLPPDiAIs98OwAiz7w4wCLQPL5AItBw88Ai0LzQQCLRfZPAItGw9YAi0fw4ACLSPL3AItJw9IAi0ry+ACLS/L9AItOw9QAi0/D1QCLUPL2AItR80AAi1LzQgCLU/L6AItU8vwAi1Xy/gCLVvL7AItX80MAi1jD0QCLWcPXAItaw9MAi1zD0ACLXfTQAItfxLcAi2D0zgCLY/TSAItl9NMAi2bEtQCLZ/TUAIto9NEAi2r0zwCLa8S4AItsxLQAi2301QCLb8S2AItwxLMAi3TE/gCLd8VAAIt49k4Ai3n2TQCLevZQAIt79lEAi33FQQCLfvdWAIt/91sAi4DFqgCLgvdYAIuE91cAi4X3WgCLhvdZAIuI+EMAi4rF3ACLi/hCAIuM+EAAi474QQCLksX+AIuTxf0Ai5T4wQCLlfjCAIuWxkAAi5j5TQCLmflOAIuaxmcAi5zGbQCLnvmpAIuf+cgAjDeopgCMOdfNAIw7184AjDzgUgCMPeRQAIw+5+UAjD/BxgCMQcHFAIxC8O4AjEPzRACMRfhEAIxGqKcAjEfT3gCMSLBaAIxJs2EAjErgVACMS+BTAIxMvdwAjE3n5gCMTr3dAIxP7rEAjFDC1wCMVMZ2AIxVqKgAjFbNywCMV9PfAIxas2IAjFzXzwCMXdfQAIxf2+UAjGG2SACMYrjmAIxk4FYAjGXgVQCMZuBXAIxo5FEAjGnkUgCMaruoAIxrv90AjGy93gCMbb/eAIxv7rUAjHDusgCMce60AIxy7rMAjHPBxwCMdfDvAIx280YAjHfzRQCMeMukAIx5sFwAjHqwWwCMe9PgAIx919EAjIDb5wCMgdvmAIyCtkkAjITgWQCMheBaAIyG4FgAjIm46ACMirjnAIyMu6oAjI27qQCMj+fnAIyQ67MAjJHrsQCMkuuyAIyTv98AjJTutwCMle62AIyX8PIAjJjw8QCMmfDwAIya80cAjJz5qgCMnaipAIyerXMAjKCtdACMobBdAIyisF4AjKPT4gCMpNPhAIyl19IAjKezaACMqLNmAIyps2MAjKqzZwCMq7NlAIyss2QAjK+2SgCMsNvqAIyyuO0AjLO2TACMtLZRAIy12+wAjLa2UwCMt7ZSAIy4tlUAjLnb6wCMutvoAIy7tk8AjLy2SwCMvbZNAIy+2+kAjL+2VACMwLZQAIzBtk4AjMK47wCMw7juAIzEuOwAjMW48ACMx7jqAIzIuOsAjMq46QCMzOBbAIzP5FQAjNG7rACM0rutAIzTu6sAjNXkUwCM1+RVAIzZ5+oAjNrn7ACM3L3nAIzd5+0AjN694ACM3+fpAIzgvd8AjOG96QCM4r3lAIzjveYAjOS94gCM5efoAIzmveEAjOfn7gCM6OfrAIzqvegAjOy94wCM7b3kAIzu67UAjPDrtwCM8eu2AIzz67gAjPS/4ACM9eu0AIz4wcsAjPnuuACM+sHIAIz7wcwAjPzBygCM/cHJAIz+8PMAjQDw9gCNAvD1AI0E8PQAjQXC2ACNBvNIAI0H80kAjQjD2ACNCfNKAI0Kw9kAjQ3EugCND8S5AI0Q9lIAjRPFQgCNFPZTAI0V91wAjRbFqwCNF8WsAI0Z+EUAjRvGQgCNZKiqAI1ms2oAjWezaQCNaOBcAI1p4F0AjWu7rgCNbOu5AI1tveoAjW7rugCNb+65AI1wqKsAjXLQsgCNc612AI10rXUAjXbT4wCNd7BfAI140+QAjXnX1QCNe9fUAI1919MAjYDb7gCNgbZYAI2E2+0AjYW2VwCNidvvAI2KtlYAjYzgXwCNjeBiAI2O4GAAjY/gYQCNkOBlAI2R4F4AjZLgZgCNk+BjAI2U4GQAjZW7sACNluRWAI2Zu68AjZvn8gCNnOfwAI2fvesAjaDn7wCNoefxAI2jvewAjaXruwCNp+u8AI2owc0AjarzTACNq/NOAI2s80sAja3zTQCNrvTWAI2v9lQAjbL5bwCNs6isAI20rXcAjbXT5QCNttPnAI230+YAjbnX2ACNurNsAI2819YAjb6zawCNv9fZAI3B19oAjcLX1wCNxdv7AI3GtmAAjcfb8wCNyNv5AI3LtlsAjcy2XgCNzdvyAI3OtlkAjc/b9gCN0OBsAI3Rtl0AjdPb8QCN1dv3AI3W2/QAjdfb+gCN2NvwAI3Z2/gAjdq2XACN27ZfAI3c2/UAjd22WgCN37jyAI3g4GgAjeG48QCN4uBvAI3j4G4AjeS4+ACN5rj5AI3n4HAAjei48wCN6eBtAI3quPcAjevgcgCN7OBpAI3u4GsAje+49ACN8OBnAI3x4GoAjfLgcQCN87j1AI304HMAjfq49gCN/LuxAI395FsAjf7kYQCN/+RZAI4A5GIAjgLkWACOA+RdAI4E5GMAjgXkYACOBuRfAI4H5F4AjgnkVwCOCuRcAI4N5FoAjg+98QCOEL3uAI4R5/sAjhLoQQCOE+hDAI4U6EAAjhXn+ACOFuf6AI4X6EUAjhjoQgCOGef8AI4a6EYAjhvn+QCOHOhEAI4dve8Ajh699QCOH73zAI4g5/MAjiG99ACOIr3wAI4j5/QAjiTn9gCOJef1AI4m5/0Ajifn/gCOKb3yAI4rve0Aji7n9wCOMOvGAI4xv+IAjjPrvQCONL/jAI41v+YAjjbrwgCOOOu/AI45v+UAjjzrwwCOPevEAI4+674Ajj/rxwCOQOvAAI5B68UAjkK/5ACORL/hAI5F68EAjkfuvwCOSMHQAI5Jwc4AjkrB0QCOS8HPAI5M7r4Ajk3uuwCOTu66AI5Q7r0AjlPuvACOVPFFAI5Vwt4Ajlbw+wCOV/D6AI5ZwtkAjlrxQQCOW/FAAI5c8PcAjl3xQwCOXvD8AI5fwt0AjmDw+QCOYfFCAI5i8PgAjmPC2gCOZMLcAI5l8P0AjmbC2wCOZ/D+AI5p8UQAjmrzUgCObMPeAI5t808Ajm/zUwCOcsPbAI5z81EAjnTD4ACOdsPdAI5481AAjnrD3wCOe/NUAI58w9oAjoHEvACOgsS+AI6E9NkAjoXEvQCOhvTXAI6Hw9wAjoj02ACOicS7AI6KxUMAjovFRQCOjPZWAI6NxUQAjo72VQCOkPdhAI6Rxa0AjpL3YACOk8WuAI6U914AjpX3XQCOlvdiAI6X92MAjpj4RgCOmvdfAI6d+MYAjp74wwCOn/jEAI6g+MUAjqHGXACOo/lRAI6k+VAAjqX5TwCOpvlwAI6o+b4Ajqn5qwCOqsZuAI6rqK0AjqywYACOsrj6AI66vfYAjr3ryACOwMLfAI7C81UAjsn5rACOyqiuAI7Lqu4AjsyteQCOza14AI7PsGMAjtHT6ACO0rBhAI7T0+kAjtSwYgCO19ffAI7Y19sAjtuzbQCO3NfeAI7d190Ajt7X3ACO37NuAI7g1+AAjuHX4QCO5dxDAI7m3EEAjufcRQCO6NxGAI7p3EwAjuvcSACO7NxKAI7u3EIAju/b/ACO8dxJAI703EsAjvXcRACO9txHAI732/0Ajvi2YgCO+dxAAI762/4Ajvu2YQCO/LZjAI7+uP0Ajv/gdQCPAOB3AI8B4HYAjwLgewCPA7j7AI8F4HgAjwbgdACPB+B5AI8I4HoAjwm4/ACPCrj+AI8L4HwAjw3kZwCPDuRmAI8Q5GQAjxHkZQCPEruzAI8Tu7UAjxS7sgCPFbu0AI8W6E0AjxfoTgCPGOhJAI8a6EoAjxu9+ACPHL39AI8dvfcAjx69/gCPH735AI8g6EsAjyPoTACPJOhIAI8lvkAAjya9+wCPKb36AI8qvfwAjyzoRwCPLuvKAI8vv+gAjzLrzACPM7/qAI80688AjzXrywCPNuvJAI83684Ajzi/6QCPOevNAI87v+cAjz7B0wCPP8HWAI9A7sEAj0LB1ACPQ+7AAI9EwdIAj0XB1QCPRvFGAI9H8UcAj0jxSACPScLgAI9L8UkAj03C4QCPTsPiAI9P81gAj1DzWQCPUfNXAI9S81YAj1PzWgCPVMPhAI9V9N0Aj1b02wCPV/TcAI9Y9N4Aj1n02gCPWvTfAI9b9lgAj132WQCPXvZXAI9fxUYAj2D3ZACPYcWvAI9i92UAj2P4SACPZPhHAI+bqK8Aj5y2ZACPn7lAAI+ju7YAj6a/7ACPqL/rAI+tw+MAj67EfACPr8VHAI+wqLAAj7GwZACPsrlBAI+081sAj7/LpgCPwqixAI/EqLQAj8WoswCPxqiyAI/Jy6UAj8vNzQCPzc3PAI/Oqu8Aj9Gq8QCP0s3MAI/Tzc4Aj9Sq8ACP1c3RAI/WzdAAj9fN0gCP4NC2AI/h0LQAj+KtfACP49CzAI/kraMAj+WtfgCP5q17AI/oraQAj+qtfQCP662iAI/traEAj+7QtQCP8K16AI/0sGoAj/XT6wCP9tPxAI/3sGcAj/iwbgCP+rBpAI/70+4Aj/zT8ACP/bBsAI/+0+oAj//T7QCQALBoAJABsGUAkALT7ACQA7BrAJAE0+8AkAWwbQCQBrBmAJAL1+MAkAzX5gCQDbNwAJAPs3oAkBCzdgCQEdfkAJAUs34AkBWzdwCQFrN8AJAXs3IAkBmzbwCQGrNxAJAbs30AkBzX5QCQHbN1AJAes3gAkB+zdACQILN5AJAh1+cAkCKzewCQI7NzAJAk1+IAkC3cTQCQLrZlAJAv3E8AkDG2ZwCQMrZpAJA03E4AkDW2ZgCQNrZqAJA4tmgAkDy5RwCQPeCjAJA+uU8AkD/gfgCQQblQAJBCuUUAkETgoQCQR7lKAJBJ4KIAkEq5QwCQS7lCAJBNuU0AkE65TACQT7lLAJBQuUkAkFG5TgCQUuB9AJBTuUQAkFS5RgCQVblIAJBYu7gAkFm7uwCQW7u/AJBcu7kAkF27vgCQXru8AJBgu7cAkGK7vQCQY7u6AJBn6FIAkGi+QwCQab5BAJBr6FMAkG2+RACQbr5CAJBv6FEAkHDoUACQcr/wAJBz6E8AkHS/7gCQdb/tAJB269AAkHe+RQCQeL/vAJB569EAkHq/8gCQe+vSAJB8v/EAkH3B2ACQfu7DAJB/wdcAkIDB3ACQgcHaAJCCwdsAkIPC4wCQhMHZAJCF7sIAkIbr0wCQh8LiAJCIwuQAkIrD5ACQi8PlAJCN9OAAkI/F3gCQkMXdAJCRqLYAkJTKVQCQlbBvAJCXylIAkJjKUwCQmcpRAJCbylQAkJ7LqgCQn8unAJCgy6wAkKHLqACQoqi3AJCjqLoAkKXLqQCQpqi5AJCny6sAkKqouACQr83VAJCwzdcAkLGq9ACQss3TAJCzzdYAkLTN1ACQtaryAJC2qvUAkLiq8wCQvdC4AJC+0LwAkL/QuQCQwa2nAJDDragAkMXQuwCQx9C9AJDI0L8AkMqtpQCQy9C+AJDOraYAkNTX7gCQ1dC6AJDW0/IAkNfT+wCQ2NP5AJDZ0/QAkNrT9QCQ29P6AJDc0/wAkN2wcQCQ39P3AJDg0/MAkOGwcACQ4rByAJDj0/YAkOTT/QCQ5dP4AJDos6EAkOnX8QCQ6tfpAJDr1+8AkOzX8ACQ7bOiAJDv1+gAkPDX6gCQ8dC3AJDy1+wAkPPX7QCQ9NfrAJD1tmwAkPncVgCQ+uvUAJD73FcAkPzcVACQ/bOjAJD+tm4AkP/cUwCRANxZAJEB3FgAkQK2awCRA9xcAJEE3FIAkQXcWwCRBtxQAJEH3FoAkQjcVQCRCbZtAJEL4KoAkQ3gpQCRDuCrAJEP4KYAkRDgpACREeCnAJESuVEAkRTgqQCRFuCoAJEXuVIAkRi7wQCRGbvAAJEa5G4AkRvkcQCRHORpAJEd5G0AkR67wgCRH+RsAJEg5GoAkSHkcACRIuRrAJEj5GgAkSTkbwCRJuhZAJEnvkgAkSjxSgCRKehWAJEq6FcAkSvoVQCRLNxRAJEtvkcAkS7oWgCRL+hUAJEwvkYAkTG+SQCRMuhYAJEz69UAkTS/8wCRNevWAJE269cAkTjuxACROcHdAJE68UsAkTvxTACRPvFNAJE/810AkUDzXACRQfTiAJFD9OEAkUT2WwCRRfZcAJFG9loAkUf3ZgCRSMWwAJFJqLsAkUqtqgCRS62pAJFMsHUAkU2wdACRTtRAAJFP1EEAkVDT/gCRUrBzAJFT1/UAkVXX9gCRVtfyAJFXs6QAkVjX8wCRWtf0AJFf3F8AkWDcYQCRYdxdAJFi3GAAkWO2bwCRZNxeAJFltnAAkWjdcwCRablVAJFquVQAkWy5UwCRbuCsAJFv4K0AkXLkcwCRc+R1AJF0u8YAkXW7wwCRd7vFAJF4u8QAkXnkdACReuRyAJGA6GEAkYHoXgCRguhfAJGDvk0AkYToYACRhehbAJGG6FwAkYe+SgCRib5LAJGK6F0AkYu+TACRjevbAJGP69wAkZDr2QCRkevaAJGSv/QAkZPr2ACRme7IAJGa7sUAkZvuxwCRnMHgAJGd7ssAkZ7B3wCRn+7JAJGg7swAkaHuygCRou7GAJGjwd4AkaXxTwCRp/FQAJGo8U4AkarxUgCRq8LlAJGswuYAka3zXwCRrsPnAJGv8VEAkbDzXgCRscPmAJGy9OUAkbP05gCRtMS/AJG19OQAkbf04wCRufZdAJG6xUgAkbz4SQCRvfjIAJG++McAkcDGQwCRwcZdAJHC+MkAkcP5cQCRxcZvAJHGqLwAkceq9gCRyblWAJHLxMAAkcyovQCRza2rAJHOs6UAkc+2cQCR0MLnAJHRqvcAkdPQwQCR1NDAAJHV1EIAkdeweACR2LB2AJHZsHoAkdrURACR3LB5AJHdsHcAkeLUQwCR47OoAJHk1/wAkeazpwCR57OpAJHo2EIAkemzqwCR6tf+AJHr2EAAkezX9wCR7bOqAJHu2EMAkfHX+QCR89f6AJH01/gAkfWzpgCR99hBAJH41/sAkfnX/QCR/dxtAJH/3GwAkgDcagCSAdxiAJIC3HEAkgPcZQCSBNxvAJIF3HYAkgbcbgCSB7Z5AJIJtnUAkgrcYwCSDNxpAJINtncAkg/caACSELZ4AJIRtnoAkhLcawCSFLZyAJIVtnMAkhbcdwCSF9x1AJIZ3HQAkhrcZgCSHNxyAJIetnYAkiO2dACSJNxzAJIl3GQAkibcZwCSJ9xwAJIt5LoAki7gtwCSMOCwAJIx4MMAkjLgzACSM+CzAJI0uWEAkjbgwACSN7lXAJI4uVkAkjm5ZQCSOuCxAJI9uVoAkj65XACSP7lmAJJAuVsAkkW5ZACSRuC5AJJI4K4Akkm5YgCSSuC4AJJLuV4AkkzgygCSTbljAJJO4MgAkk/gvACSUODGAJJRuWAAklLgrwCSU+DJAJJU4MQAklbgywCSV7lYAJJauWcAklu5XQCSXuC1AJJg4L0AkmHgwQCSY+DFAJJkuV8AkmXgtACSZuCyAJJn4L4AkmzguwCSbeC6AJJv4L8AknDgwgCScuDHAJJ25HgAkni7xwCSeeSkAJJ65HoAknu7zACSfLvQAJJ95K0Akn7ktQCSf+SmAJKAu8gAkoLkqgCSg+C2AJKFu8kAkobksQCSh+S2AJKI5K4AkorksACSi+S5AJKM5LIAko3kfgCSjuSpAJKRu9EAkpO7zQCSlOR8AJKV5KsAkpa7ywCSl+SlAJKYu8oAkpnkswCSmuSiAJKb5HkAkpy7zgCSneS4AJKg5HsAkqHkrwCSouSsAJKj5KcAkqTkdwCSpeR2AJKm5KEAkqfktACSqLvPAJKp5LcAkqrkfQCSq+SjAJKsvlIAkrK+WgCSs75VAJK06KQAkrXooQCStuhnAJK3vlAAkrn51wCSu75PAJK8vlYAksDoZQCSwb5UAJLC6HEAksPoYwCSxOhkAJLFvk4AksboowCSx75YAJLI6HQAksnoeQCSyuhzAJLL6+4AkszobwCSzeh3AJLO6HUAks/oaACS0OhiAJLR6H0AktK+VwCS0+h+AJLV6HgAktfobQCS2OhrAJLZ6GYAkt3obgCS3uh7AJLf6GoAkuDoegCS4eiiAJLkvlMAkubodgCS5+h8AJLo6HIAkunobACS6r5RAJLu5KgAku/ocACS8L5ZAJLx6GkAkvfr9ACS+L/3AJL56/MAkvrr8ACS++xEAJL8v/sAkv7sQQCS/+v4AJMA7EMAkwHr6QCTAuv2AJMEv/0Akwbr4QCTCOvfAJMJ7EIAkwvsQACTDOv+AJMN6+0Akw7r7ACTD+viAJMQwEAAkxLr6ACTE+vyAJMU6/0AkxXAQwCTFuxFAJMYwegAkxnARQCTGr/+AJMb6+YAkx3r7wCTHuveAJMf6+AAkyC/9QCTIcBCAJMiv/oAkyPr5wCTJOv3AJMl6/EAkybAQQCTJ+vdAJMoweMAkynr+QCTKuv8AJMrv/wAky3r6wCTLsBEAJMvv/kAkzO/+ACTNOv1AJM16/sAkza/9gCTOOvkAJM56/oAkzzr5QCTRuvqAJNH7tIAk0nu1wCTSsHlAJNLwecAk0zu3QCTTcHhAJNO7uwAk0/u4wCTUO7YAJNR7tkAk1Lu4gCTVMHuAJNV7uEAk1bu0QCTV+7gAJNY7tQAk1nu7QCTWsHtAJNbwesAk1zu1QCTXu7oAJNg7toAk2Hu5wCTY+7pAJNk7tAAk2XB5gCTZ+7qAJNq7t4Ak2zB6gCTbe7bAJNwwewAk3Hu5ACTdcHkAJN27tYAk3fu5QCTee7fAJN66+MAk3vu5gCTfO7TAJN+wekAk4Du6wCTgsHiAJOD7s4Ak4jxYACTifFZAJOKwukAk4zxVACTjfFjAJOO8VsAk4/u3ACTkfFlAJOS8VUAk5TC6ACTlfFfAJOWwuoAk5fC8gCTmMLwAJOZ8WEAk5rC8QCTm/FXAJOd8VgAk57xXQCTn/FiAJOh7s0Ak6LC6wCTo/FqAJOk8WcAk6XxawCTpvFeAJOn8VoAk6jxaACTqfNqAJOq8VwAk6zC7gCTrsLtAJOv7s8Ak7DC7wCTsfFkAJOy8WYAk7PC7ACTtPFpAJO18VMAk7fxVgCTwPNzAJPC82MAk8PD6wCTxPNxAJPH82EAk8jD7ACTyvNsAJPM82gAk83D8QCTzvNyAJPP82IAk9DzZQCT0cPpAJPS83QAk9TzbQCT1fNwAJPWw+8Ak9fD9ACT2MPyAJPZ82kAk9rzZACT3MPtAJPdw+4Ak97zYACT38PqAJPhw+gAk+LD8ACT4/NvAJPkw/MAk+bzawCT5/N1AJPow/UAk+zzZwCT7vNuAJP19PMAk/b1QgCT9/T1AJP49PwAk/nzZgCT+vT6AJP79OkAk/z1QACT/cTDAJP+9O0Ak//0/gCUAPT0AJQDxMIAlAb1RACUB/T2AJQJ9PsAlAr0/QCUC/TnAJQM9UEAlA308gCUDvT3AJQP9OsAlBD07wCUEfVDAJQS9PkAlBP06ACUFPTsAJQV9O4AlBb0+ACUGMTBAJQZ9PEAlCD06gCUKPTwAJQp9mEAlCr2ZgCUK8VPAJQs9mgAlC7FSQCUMPZkAJQx9moAlDLFTgCUM8VKAJQ1xUsAlDb2YACUN/ZnAJQ4xU0AlDn2ZQCUOsVMAJQ79l8AlDz2YwCUPfZiAJQ/9l4AlED2aQCURMWxAJRF920AlEb3cACUR/dsAJRI924AlEn3bwCUSvdpAJRL92oAlEz3ZwCUT/drAJRQ92gAlFHFsgCUUsWzAJRV+EsAlFf4TQCUXfhMAJRe+E4AlGDF4ACUYvhKAJRjxd8AlGTF4QCUaPjLAJRp+MwAlGrGRACUa/jKAJRt+VMAlG75UgCUb/lUAJRwxl8AlHH5VQCUcsZeAJRz+VYAlHT5cgCUdfl1AJR2+XQAlHfGaACUePlzAJR8xnIAlH3GcACUfsZxAJR/xncAlID5wACUgfnBAJSC+b8AlIP5yQCVd6r4AJV62EQAlXvceACVfOilAJV983YAlYCq+QCVgq2sAJWDsHsAlYbYRQCViNhGAJWJs6wAlYu2fQCVjNx6AJWN3HkAlY62owCVj7Z8AJWQ3HsAlZG2fgCVkraiAJWTtqEAlZS2ewCVmLloAJWb4NAAlZzgzgCVnuDPAJWf4M0AlaG70gCVo7vVAJWku9cAlaW71gCVqLvTAJWpu9QAlavopwCVrOimAJWtvlsAla7oqACVsOipAJWxvlwAlbXsTQCVtuxLAJW37vMAlbnsSQCVuuxKAJW7wEYAlbzsRgCVvexOAJW+7EgAlb/sTACVwO7vAJXD7vEAlcXu8gCVxsHzAJXH7u4AlcjB8gCVye7wAJXKwe8AlcvB8ACVzMHxAJXN7EcAldDC9QCV0fFuAJXS8WwAldPxbQCV1MLzAJXVwvYAldbC9ACV2vN3AJXb83gAldzD9gCV3vVFAJXf9UcAleD1RgCV4cTEAJXixVAAleP2bQCV5PZsAJXl9msAlhyq+gCWHsmqAJYgylgAliGm6QCWIspWAJYjylkAliTKVwCWKMuuAJYqqMEAliyowgCWLcuwAJYuqL8Ali/LrwCWMMutAJYxqMAAljKovgCWOc3YAJY6zdsAljuq/QCWPM3aAJY9zdkAlj+q/ACWQKr7AJZCq0AAlkPN3ACWRKr+AJZK0MYAlkutrgCWTK2vAJZNrbAAlk7QxwCWT9DDAJZQra0AllHQxACWU9DFAJZU0MIAlliwpACWW7ChAJZc1EUAll2wogCWXrClAJZf1EYAlmGwfgCWYrB8AJZjsH0AlmSwowCWarOtAJZr2EkAlmyztQCWbdhIAJZv2EsAlnCzsQCWcdhKAJZytqsAlnOzrwCWdLOyAJZ1s64AlnazswCWd7O0AJZ4s7AAlnzYRwCWfbanAJZ+3H0AloDcowCWg9yiAJaEtqwAloW2qACWhrapAJaH3HwAlojcfgCWidyhAJaKtqQAlou2pgCWjbaqAJaOtqUAlpHg0wCWkuDRAJaT4NIAlpS5agCWlblrAJaX4NQAlpi5aQCWmbvYAJabu9oAlpy72QCWnuS7AJah5LwAlqLoqwCWpOiqAJanwEcAlqjASACWqexPAJaqwEkAlqzu9gCWru70AJaw7vUAlrHB9ACWs/FvAJa0w/cAlrjB9QCWuatBAJa7sKYAlrzURwCWv9hMAJbAs7YAlsG2rQCWwtykAJbD3KYAlsS2rwCWxbauAJbGtrAAlse2sQCWyNylAJbJuW4Alsq5bwCWy7ltAJbMu9sAls25bACWzuDVAJbSu9wAltPorACW1OxQAJbVwEoAltbB9gCW1/FwAJbY8XQAltnC+QCW2vFxAJbbwvoAltzC+ACW3fF1AJbewvsAlt/xcwCW4fN5AJbiwvcAluPD+ACW5fjNAJboq0IAlumzuACW6rO3AJbvtrIAlvDcqACW8dynAJbytrMAlvXg2QCW9rlzAJb3uXAAlvjg2ACW+blyAJb64NYAlvu5cQCW/eDXAJb/5L0AlwC73QCXAuivAJcEvl0AlwXorQCXBr5eAJcHvl8AlwjorgCXCb5gAJcL7FEAlw3ATgCXDsBLAJcPwFAAlxDsUwCXEcBMAJcS7FIAlxPATwCXFsBNAJcY7vkAlxnu+wCXHMH3AJcd7voAlx7B+ACXH+74AJcg7vcAlyLxdwCXI/F2AJckwvwAlyXxeACXJvN+AJcnw/oAlyjzfQCXKfN6AJcqw/kAlyvzewCXLPN8AJcu9UgAly/1SQCXMMTFAJcyxVMAlzX2bgCXOMVRAJc5xVIAlzr2bwCXPcW0AJc+xbUAlz/3cQCXQsZFAJdD+M8Al0TGRwCXRvjOAJdH+NAAl0jGRgCXSflXAJdL+a0Al1KrQwCXVrl0AJdY5L4Al1rosACXW8BRAJdcwFIAl16rRACXYL5hAJdhw/sAl2KtsQCXZsBTAJdoxeIAl2mtsgCXathNAJds3KkAl27cqwCXcNyqAJdy4N0Al3Pg2gCXdLl1AJd2uXYAl3fg2wCXeODcAJd65MAAl3vkxQCXfLveAJd95L8Al37kwQCXf+TIAJeA5MMAl4HkxwCXguTEAJeD5MIAl4TkxgCXhbvfAJeI6LMAl4rosQCXi75jAJeNvmIAl47osgCXj75kAJeU7FYAl5fsVQCXmMBUAJeZ7FQAl5ru/ACXnO7+AJed70EAl57vQACXoMH5AJeh7v0Al6LxoQCXo8L9AJek8X0Al6XxogCXpsL+AJeo8XsAl6rxfgCXq/F8AJes8XkAl63DQACXrvF6AJez86EAl7bzowCXt/OiAJe59UoAl7v1SwCXv/ZwAJfBxbcAl8PFtgCXxPhPAJfF+FAAl8bGSACXx/jRAJfJxmkAl8utswCXzLa0AJfN5MoAl87kyQCXz+i1AJfQ6LQAl9PB+gCX1O9DAJfV70IAl9bxpQCX1/GjAJfY8aYAl9nxpACX3MP8AJfd86QAl97zpQCX3/OmAJfh9nEAl+P3cgCX5fjSAJftrbQAl/DsVwCX8e9EAJfzrbUAl/a74ACX+OxYAJf5w0EAl/rxpwCX+8P9AJf99UwAl/71TQCX/8VUAJgA+FEAmAGttgCYArO7AJgDs7wAmATYTgCYBba1AJgGtrYAmAfcrACYCLa3AJgKuXoAmAy5fACYDeDfAJgO4OAAmA/g3gCYELl3AJgRuXgAmBK5ewCYE7l5AJgW5MsAmBe74QCYGLviAJgb6LwAmBy+ZwCYHei3AJge6LYAmCDouwCYIb5lAJgkwFsAmCbouACYJ+i9AJgo6LoAmCnouQCYK75mAJgtwFkAmC/sWgCYMMBVAJgy7FsAmDXsWQCYN8BYAJg4wFYAmDnAWgCYO8BXAJhB70UAmEPvSgCYRO9GAJhF70kAmEbB+wCYSO3UAJhJ70gAmErvRwCYTMNEAJhNw0IAmE7DRQCYT8NDAJhQ8agAmFHxqQCYUvGqAJhTw0YAmFfzqgCYWMRAAJhZ86gAmFvEQQCYXPOnAJhd86kAmF7D/gCYX/VRAJhg9U4AmGL1TwCYY/VQAJhk9nIAmGXFVgCYZ8VVAJhp93QAmGr3cwCYa8W4AJhvxeMAmHDGSQCYccZgAJhy+VgAmHP5rgCYdPmvAJiorbcAmKncrQCYrODhAJit5MwAmK7kzQCYr7vjAJixu+QAmLLovgCYs75oAJi2wfwAmLjxqwCYusNHAJi7860AmLzEQgCYvfOsAJi+864AmL/zqwCYwPZ1AJjB9VIAmML1UwCYxMTGAJjG9nQAmMn2cwCYy/d1AJjM+bAAmNutuACY3625AJjisKcAmOPUSACY5dhPAJjntrgAmOm2uwCY6ra5AJjr3K4AmO22vQCY77a6AJjytrwAmPS5fgCY9uDiAJj54OMAmProwACY/Ll9AJj9uaEAmP65ogCZAOTPAJkC5M4AmQO75QCZBbvmAJkH5NAAmQjovwCZCbvoAJkKvmkAmQy75wCZEMBcAJkR6MEAmRK+awCZE75qAJkU6MIAmRXoxQCZFujDAJkX6MQAmRi+bACZGsBhAJkbwF8AmR7AXgCZH+xdAJkhwGAAmSTsXACZJe9LAJkn7F4AmSjAXQCZKexfAJkq704AmSvvTACZLO9NAJkt71IAmS7DSwCZL+9RAJkw71QAmTHvUwCZMu9QAJkz708AmTXB/QCZOvGuAJk88a0AmT3DSgCZPsNIAJk/w0kAmUHxrACZQ/OxAJlFxEMAmUfzsACZSPOvAJlJxEQAmUv1WACZTPVXAJlO9VUAmVD1VACZUcTIAJlSxMcAmVP1WQCZVPd2AJlVxbkAmVb2dwCZV8VXAJlY9nYAmVn1VgCZW/d3AJlcxeQAmV7GYQCZX/lZAJlh+bEAmZatugCZl9hQAJmY71UAmZmtuwCZnOTSAJmd5NEAmZ7sYACZoe9XAJmj71YAmaXDTACZpvOyAJmn87MAmajEyQCZq/myAJmssKgAma22vwCZrra+AJmv4OQAmbDg5gCZsbmkAJmy4OUAmbO5owCZtLmlAJm14OcAmbnk1ACZuuTWAJm75NUAmb3k2ACZwbvpAJnC5NcAmcPk0wCZx+TZAJnJ6MwAmcvozwCZzOjRAJnN6McAmc7oywCZz+jIAJnQvm4AmdG+cQCZ0r5zAJnT6MkAmdToygCZ1b5yAJnW6M0Amdfo0ACZ2OjOAJnZvnQAmdu+cACZ3OjGAJndvm0Amd++bwCZ4sBjAJnj7GYAmeTsZACZ5exjAJnn7GkAmensaACZ6uxnAJns7GIAme3AYgCZ7uxhAJnw7GUAmfHAZACZ9O9aAJn2714AmffvWwCZ+O9dAJn571wAmfrvWQCZ++9fAJn872IAmf3vYACZ/u9hAJn/wkAAmgHB/gCaAu9YAJoD72MAmgTxswCaBfG2AJoG8bgAmgfxtwCaCfGxAJoK8bUAmgvxsACaDfGyAJoOw00Amg/xrwCaEfG0AJoU88AAmhXztQCaFsRFAJoZxEYAmhrztACaG/O5AJoc878Amh3ztwCaHvO+AJog87sAmiLzugCaI/O9AJok87gAmiXztgCaJ/O8AJop9WAAmir1XgCaK8TKAJos9V0Ami31YwCaLvVhAJowxMsAmjH1XACaMvVaAJo09VsAmjXEzQCaNvVfAJo3xMwAmjj1YgCaOfZ4AJo69n4Amj32eQCaPsVbAJo/9qEAmkDFWgCaQfZ9AJpC9nwAmkPFWQCaRPZ7AJpFxVgAmkb2egCaSPd9AJpJ96EAmkr3fgCaTPd7AJpNxbsAmk73eACaT/d8AJpQ96MAmlL3ogCaU/d5AJpU93oAmlXFugCaVvhSAJpXxecAmln4UwCaWsXlAJpbxeYAml740wCaX8ZKAJpg+XYAmmLGagCaZPmzAJplxmsAmmb5tACaZ/m1AJpo+cMAmmn5wgCaasZ6AJpr+c0AmqiwqQCaq+DpAJqt4OgAmq+76gCasLvrAJqx5NoAmrPo0gCatOxsAJq3vnUAmrjAZQCauexqAJq77G0AmrzAZgCavu9kAJq/7GsAmsDxuQCawcNOAJrC88EAmsb1ZgCax/VkAJrK9WUAms32ogCaz8VcAJrQ96QAmtHF6gCa0sW8AJrTxegAmtTF6QCa1fjUAJrWxmIAmtiwqgCa3PG6AJrf1EkAmuG5pgCa4+TbAJrmu+wAmufk3ACa6+jUAJrs6NMAmu3AaACa7r52AJrvvncAmvHo1wCa8ujWAJrz6NUAmvbsbgCa9+xxAJr57HAAmvrsbwCa+8BnAJr872gAmv3vZgCa/u9lAJsB72cAmwPDTwCbBPG8AJsF8b0AmwbDUACbCPG7AJsK88MAmwvzwgCbDPPFAJsNxEcAmw7zxACbEPVnAJsR9WkAmxL1aACbFfajAJsW9qYAmxf2pACbGPalAJsZ96UAmxrFvQCbHvhUAJsf+FUAmyD4VgCbIsZLAJsjxmMAmyT5tgCbJbCrAJsnvngAmyjAaQCbKfG+AJsr96YAmy75xACbL9RKAJsxxnsAmzKwrACbM+xyAJs18b8AmzfzxgCbOvanAJs796cAmzywrQCbPuTdAJs/5N4Am0G77QCbQrvuAJtD6NkAm0S+egCbRb55AJtG6NgAm0jvaQCbSvHAAJtL8cIAm0zxwQCbTcNTAJtOw1IAm0/DUQCbUcVeAJtS9qgAm1TFXQCbVfepAJtW96gAm1jGTACbWfjVAJtas70Am1vg6gCbX+ThAJtg5N8Am2Hk4ACbZOjiAJtm6N0Am2fo2gCbaOjhAJts6OMAm2++fACbcOjgAJtx6NwAm3To2wCbdejfAJt26N4Am3e+ewCbeux9AJt77HgAm3zsdgCbfeyhAJt+7HcAm4DscwCbgux5AJuF7HQAm4bvcgCbh+x1AJuI7KIAm5DsfACbkcBqAJuS7HsAm5PsegCblex+AJua72oAm5vvbQCbnu9sAJug73QAm6HvbwCbou9zAJuk73EAm6XvcACbpu9uAJuo72sAm6rCQwCbq8JCAJutwkQAm67CQQCbr+91AJu18cgAm7bxywCbuPHJAJu58c0Am73xzgCbv/HGAJvAw1gAm8HxxwCbw/HFAJvE8cwAm8bxxACbx/HDAJvIw1cAm8nDVQCbysNUAJvT8coAm9TzzwCb1fPVAJvWxEoAm9fz0ACb2fPTAJva89cAm9vESwCb3PPSAJve88oAm+DzyQCb4fPWAJvi880Am+TzywCb5fPUAJvm88wAm+fESQCb6MRIAJvq88cAm+vzyACb7PPRAJvw884Am/f1bACb+PVvAJv9w1YAnAX1bQCcBvVzAJwH9XEAnAj1awCcCfV2AJwL9WoAnA3EzwCcDvVyAJwS9W4AnBPEzgCcFPV1AJwX9XQAnBz2qwCcHfaqAJwh9rEAnCP2rQCcJPawAJwlxWAAnCj2rgCcKfavAJwr9qkAnCz2rACcLcVfAJwxxb8AnDL3tACcM/evAJw097MAnDb3tgCcN/eyAJw5964AnDvFwQCcPPexAJw997UAnD7FwACcP/esAJxA9XAAnEH3sACcRPetAJxG96oAnEj3qwCcScW+AJxK+FoAnEv4XACcTPhfAJxN+FsAnE74YACcUPhZAJxS+FcAnFTF6wCcVfhdAJxWxe0AnFfF7ACcWPhYAJxZ+F4AnF742gCcX8ZNAJxg+NsAnGL42QCcY/jWAJxm+NgAnGf41wCcaPlaAJxt+VwAnG75WwCccfl5AJxz+XgAnHT5dwCcdfl6AJx3xnMAnHjGdACcefnKAJx6+c4AnOWzvgCc5tyvAJzn4O0AnOm5pwCc6uDrAJzt4OwAnPHk4gCc8uTjAJzzu/EAnPS77wCc9eTkAJz2u/AAnPfo6ACc+ejrAJz66OUAnPvo7ACc/OjkAJz96OYAnP/o5wCdAOjqAJ0DvqEAnQTo7wCdBejuAJ0Gvn0AnQfo6QCdCOjtAJ0Jvn4AnRDsrACdEsBvAJ0U7KcAnRXAawCdF+ykAJ0Y7KoAnRnsrQCdG8BwAJ0d7KkAnR7spgCdH+yuAJ0g7KUAnSLsqwCdI8BsAJ0l7KMAnSbAbQCdKMBuAJ0p7KgAnS3vqQCdLu96AJ0v73sAnTDvfgCdMe98AJ0z73YAnTbveQCdN++lAJ04730AnTvCRQCdPe+nAJ0+76QAnT/CRgCdQO+mAJ1B73cAnULvogCdQ++jAJ1F76EAnUrx0gCdS/HUAJ1M8dcAnU/x0QCdUcNZAJ1S8dkAnVPx0ACdVPHaAJ1W8dYAnVfx2ACdWPHcAJ1Z8dUAnVrx3QCdW/HTAJ1c8c8AnV3DWgCdX/HbAJ1gw1sAnWHETQCdZ+94AJ1o8/EAnWnz6ACdasRPAJ1r8+QAnWzEUACdb/PtAJ1w8+cAnXHz3QCdcsROAJ1z8+oAnXTz5QCddfPmAJ1389gAnXjz3wCdefPuAJ178+sAnX3z4wCdf/PvAJ2A894AnYHz2QCdgvPsAJ2E89sAnYXz6QCdhvPgAJ2H8/AAnYjz3ACdicRMAJ2K89oAnYvz4QCdjPPiAJ2Q9X0AnZL1ewCdlPWiAJ2W9a4AnZf1pQCdmPV8AJ2Z9XgAnZr1pwCdm/V+AJ2c9aMAnZ31egCdnvWqAJ2f9XcAnaD1oQCdofWmAJ2i9agAnaP1qwCdpPV5AJ2m9a8Anaf1sACdqPWpAJ2p9a0Anar1pACdrPbBAJ2t9sQAna/FYQCdsfbDAJ2y9sgAnbP2xgCdtMViAJ219r0Anbb2swCdt/ayAJ24xWQAnbn2vwCduvbAAJ279rwAnbz2tACdvva5AJ2/9awAncH2tQCdwsVjAJ3D9rsAncX2ugCdx/a2AJ3I9sIAncr2twCdy/e7AJ3M9sUAnc32xwCdzva+AJ3P9rgAndD3vACd0fe+AJ3S97gAndPFwgCd1ffFAJ3W98MAndfFwwCd2PfCAJ3Z98EAndr3ugCd2/e3AJ3c970And33xgCd3ve5AJ3f978AneH4aQCd4vhuAJ3j+GQAneT4ZwCd5cXuAJ3m+GsAnej4cgCd6ffAAJ3r+GUAnez4bwCd7fhzAJ3u+GoAne/4YwCd8PhtAJ3y+GwAnfP4cQCd9PhwAJ3198QAnfb4aACd9/hiAJ34+GYAnfnGTgCd+sZPAJ37+GEAnf345gCd/vjdAJ3/+OUAngD44gCeAfjjAJ4C+NwAngP43wCeBPjnAJ4F+OEAngb44ACeB/jeAJ4J+OQAngv5XQCeDfleAJ4P+WAAnhD5XwCeEfliAJ4S+WEAnhP5fACeFPl7AJ4V+bcAnhf5uACeGfnFAJ4axngAnhvGfACeHfnPAJ4exn0AnnWzvwCeecTQAJ569skAnnzGUACefcZRAJ5/s8AAnoDg7gCegrmoAJ6D6PAAnobssACeh+yxAJ6I7K8AnonvqwCeiu+qAJ6LwkcAnozx3wCeje+sAJ6O8d4AnpHz8wCeksRRAJ6TxFMAnpTz8gCel8RSAJ6Z9bEAnpr1swCem/WyAJ6c9soAnp3FZQCen8XvAJ6g+OgAnqH5YwCepPnSAJ6ls8EAnqfk5QCeqb6iAJ6t7LMAnq7ssgCesO+tAJ60xFQAnrXE0QCetvfHAJ63+csAnruzwgCevLvyAJ6+vqMAnsDz9ACewvh0AJ7DtsAAnsjvrgCezMZkAJ7NtsEAns6+pACez8JIAJ7Q+HUAntG2wgCe0+jxAJ7UwHIAntXstACe1uy1AJ7YwHEAntrvrwCe28JMAJ7cwkoAnt3CSwCe3sJJAJ7f8eAAnuDDXACe5PW1AJ7l9bQAnub1twCe5/W2AJ7oxNIAnuv2ywCe7fbNAJ7u9swAnu/FZgCe8PfIAJ7y+HYAnvP4dwCe9MXwAJ71+WQAnvb5fQCe98Z1AJ753LAAnvrstgCe+++wAJ788/UAnv3g7wCe/++xAJ8A8eIAnwHx4QCfBvh4AJ8HxlIAnwn5ZQCfCvl+AJ8OuakAnw/o8gCfEOjzAJ8S7LcAnxO5qgCfFcNdAJ8W8eMAnxj2zwCfGcVnAJ8a9tAAnxv2zgCfHPh5AJ8e+OkAnyC5qwCfIu+0AJ8j77MAnyTvsgCfJfHkAJ8o8egAnynx5wCfKvHmAJ8r8eUAnyzDXgCfLfP2AJ8u9bkAny/E0wCfMPW4AJ8x9tEAnzL3ywCfM/fKAJ80xcQAnzX3yQCfNvh8AJ83+HsAnzj4egCfO7vzAJ897LgAnz7CTQCfQPP3AJ9B8/gAn0L3zACfQ/h9AJ9G+OoAn0f5ZgCfSPm5AJ9J+dQAn0q79ACfS8JOAJ9M8ekAn03z+QCfTvbSAJ9P+H4An1K+pgCfVO+1AJ9V8eoAn1bz+gCfV/P7AJ9Y8/wAn1n1vgCfW/W6AJ9cxWgAn131vQCfXvW8AJ9fxNQAn2D1uwCfYcTWAJ9jxNUAn2T21ACfZfbTAJ9mxWkAn2fFagCfasXGAJ9r980An2zFxQCfbvijAJ9v+KQAn3D4ogCfcfihAJ9yxlQAn3T46wCfdfjsAJ92+O0An3fGUwCfePlnAJ95+WoAn3r5aQCfe/loAJ9++dMAn43AcwCfkMNlAJ+R9b8An5L21QCflMXHAJ+V984An5j51QCfnMB0AJ+g77YAn6L3zwCfpPmhAOAA+kAA4AH6QQDgAvpCAOAD+kMA4AT6RADgBfpFAOAG+kYA4Af6RwDgCPpIAOAJ+kkA4Ar6SgDgC/pLAOAM+kwA4A36TQDgDvpOAOAP+k8A4BD6UADgEfpRAOAS+lIA4BP6UwDgFPpUAOAV+lUA4Bb6VgDgF/pXAOAY+lgA4Bn6WQDgGvpaAOAb+lsA4Bz6XADgHfpdAOAe+l4A4B/6XwDgIPpgAOAh+mEA4CL6YgDgI/pjAOAk+mQA4CX6ZQDgJvpmAOAn+mcA4Cj6aADgKfppAOAq+moA4Cv6awDgLPpsAOAt+m0A4C76bgDgL/pvAOAw+nAA4DH6cQDgMvpyAOAz+nMA4DT6dADgNfp1AOA2+nYA4Df6dwDgOPp4AOA5+nkA4Dr6egDgO/p7AOA8+nwA4D36fQDgPvp+AOA/+qEA4ED6ogDgQfqjAOBC+qQA4EP6pQDgRPqmAOBF+qcA4Eb6qADgR/qpAOBI+qoA4En6qwDgSvqsAOBL+q0A4Ez6rgDgTfqvAOBO+rAA4E/6sQDgUPqyAOBR+rMA4FL6tADgU/q1AOBU+rYA4FX6twDgVvq4AOBX+rkA4Fj6ugDgWfq7AOBa+rwA4Fv6vQDgXPq+AOBd+r8A4F76wADgX/rBAOBg+sIA4GH6wwDgYvrEAOBj+sUA4GT6xgDgZfrHAOBm+sgA4Gf6yQDgaPrKAOBp+ssA4Gr6zADga/rNAOBs+s4A4G36zwDgbvrQAOBv+tEA4HD60gDgcfrTAOBy+tQA4HP61QDgdPrWAOB1+tcA4Hb62ADgd/rZAOB4+toA4Hn62wDgevrcAOB7+t0A4Hz63gDgffrfAOB++uAA4H/64QDggPriAOCB+uMA4IL65ADgg/rlAOCE+uYA4IX65wDghvroAOCH+ukA4Ij66gDgifrrAOCK+uwA4Iv67QDgjPruAOCN+u8A4I768ADgj/rxAOCQ+vIA4JH68wDgkvr0AOCT+vUA4JT69gDglfr3AOCW+vgA4Jf6+QDgmPr6AOCZ+vsA4Jr6/ADgm/r9AOCc+v4A4J37QADgnvtBAOCf+0IA4KD7QwDgoftEAOCi+0UA4KP7RgDgpPtHAOCl+0gA4Kb7SQDgp/tKAOCo+0sA4Kn7TADgqvtNAOCr+04A4Kz7TwDgrftQAOCu+1EA4K/7UgDgsPtTAOCx+1QA4LL7VQDgs/tWAOC0+1cA4LX7WADgtvtZAOC3+1oA4Lj7WwDguftcAOC6+10A4Lv7XgDgvPtfAOC9+2AA4L77YQDgv/tiAODA+2MA4MH7ZADgwvtlAODD+2YA4MT7ZwDgxftoAODG+2kA4Mf7agDgyPtrAODJ+2wA4Mr7bQDgy/tuAODM+28A4M37cADgzvtxAODP+3IA4ND7cwDg0ft0AODS+3UA4NP7dgDg1Pt3AODV+3gA4Nb7eQDg1/t6AODY+3sA4Nn7fADg2vt9AODb+34A4Nz7oQDg3fuiAODe+6MA4N/7pADg4PulAODh+6YA4OL7pwDg4/uoAODk+6kA4OX7qgDg5vurAODn+6wA4Oj7rQDg6fuuAODq+68A4Ov7sADg7PuxAODt+7IA4O77swDg7/u0AODw+7UA4PH7tgDg8vu3AODz+7gA4PT7uQDg9fu6AOD2+7sA4Pf7vADg+Pu9AOD5+74A4Pr7vwDg+/vAAOD8+8EA4P37wgDg/vvDAOD/+8QA4QD7xQDhAfvGAOEC+8cA4QP7yADhBPvJAOEF+8oA4Qb7ywDhB/vMAOEI+80A4Qn7zgDhCvvPAOEL+9AA4Qz70QDhDfvSAOEO+9MA4Q/71ADhEPvVAOER+9YA4RL71wDhE/vYAOEU+9kA4RX72gDhFvvbAOEX+9wA4Rj73QDhGfveAOEa+98A4Rv74ADhHPvhAOEd++IA4R774wDhH/vkAOEg++UA4SH75gDhIvvnAOEj++gA4ST76QDhJfvqAOEm++sA4Sf77ADhKPvtAOEp++4A4Sr77wDhK/vwAOEs+/EA4S378gDhLvvzAOEv+/QA4TD79QDhMfv2AOEy+/cA4TP7+ADhNPv5AOE1+/oA4Tb7+wDhN/v8AOE4+/0A4Tn7/gDhOvxAAOE7/EEA4Tz8QgDhPfxDAOE+/EQA4T/8RQDhQPxGAOFB/EcA4UL8SADhQ/xJAOFE/EoA4UX8SwDhRvxMAOFH/E0A4Uj8TgDhSfxPAOFK/FAA4Uv8UQDhTPxSAOFN/FMA4U78VADhT/xVAOFQ/FYA4VH8VwDhUvxYAOFT/FkA4VT8WgDhVfxbAOFW/FwA4Vf8XQDhWPxeAOFZ/F8A4Vr8YADhW/xhAOFc/GIA4V38YwDhXvxkAOFf/GUA4WD8ZgDhYfxnAOFi/GgA4WP8aQDhZPxqAOFl/GsA4Wb8bADhZ/xtAOFo/G4A4Wn8bwDhavxwAOFr/HEA4Wz8cgDhbfxzAOFu/HQA4W/8dQDhcPx2AOFx/HcA4XL8eADhc/x5AOF0/HoA4XX8ewDhdvx8AOF3/H0A4Xj8fgDhefyhAOF6/KIA4Xv8owDhfPykAOF9/KUA4X78pgDhf/ynAOGA/KgA4YH8qQDhgvyqAOGD/KsA4YT8rADhhfytAOGG/K4A4Yf8rwDhiPywAOGJ/LEA4Yr8sgDhi/yzAOGM/LQA4Y38tQDhjvy2AOGP/LcA4ZD8uADhkfy5AOGS/LoA4ZP8uwDhlPy8AOGV/L0A4Zb8vgDhl/y/AOGY/MAA4Zn8wQDhmvzCAOGb/MMA4Zz8xADhnfzFAOGe/MYA4Z/8xwDhoPzIAOGh/MkA4aL8ygDho/zLAOGk/MwA4aX8zQDhpvzOAOGn/M8A4aj80ADhqfzRAOGq/NIA4av80wDhrPzUAOGt/NUA4a781gDhr/zXAOGw/NgA4bH82QDhsvzaAOGz/NsA4bT83ADhtfzdAOG2/N4A4bf83wDhuPzgAOG5/OEA4br84gDhu/zjAOG8/OQA4b385QDhvvzmAOG//OcA4cD86ADhwfzpAOHC/OoA4cP86wDhxPzsAOHF/O0A4cb87gDhx/zvAOHI/PAA4cn88QDhyvzyAOHL/PMA4cz89ADhzfz1AOHO/PYA4c/89wDh0Pz4AOHR/PkA4dL8+gDh0/z7AOHU/PwA4dX8/QDh1vz+AOHX/UAA4dj9QQDh2f1CAOHa/UMA4dv9RADh3P1FAOHd/UYA4d79RwDh3/1IAOHg/UkA4eH9SgDh4v1LAOHj/UwA4eT9TQDh5f1OAOHm/U8A4ef9UADh6P1RAOHp/VIA4er9UwDh6/1UAOHs/VUA4e39VgDh7v1XAOHv/VgA4fD9WQDh8f1aAOHy/VsA4fP9XADh9P1dAOH1/V4A4fb9XwDh9/1gAOH4/WEA4fn9YgDh+v1jAOH7/WQA4fz9ZQDh/f1mAOH+/WcA4f/9aADiAP1pAOIB/WoA4gL9awDiA/1sAOIE/W0A4gX9bgDiBv1vAOIH/XAA4gj9cQDiCf1yAOIK/XMA4gv9dADiDP11AOIN/XYA4g79dwDiD/14AOIQ/XkA4hH9egDiEv17AOIT/XwA4hT9fQDiFf1+AOIW/aEA4hf9ogDiGP2jAOIZ/aQA4hr9pQDiG/2mAOIc/acA4h39qADiHv2pAOIf/aoA4iD9qwDiIf2sAOIi/a0A4iP9rgDiJP2vAOIl/bAA4ib9sQDiJ/2yAOIo/bMA4in9tADiKv21AOIr/bYA4iz9twDiLf24AOIu/bkA4i/9ugDiMP27AOIx/bwA4jL9vQDiM/2+AOI0/b8A4jX9wADiNv3BAOI3/cIA4jj9wwDiOf3EAOI6/cUA4jv9xgDiPP3HAOI9/cgA4j79yQDiP/3KAOJA/csA4kH9zADiQv3NAOJD/c4A4kT9zwDiRf3QAOJG/dEA4kf90gDiSP3TAOJJ/dQA4kr91QDiS/3WAOJM/dcA4k392ADiTv3ZAOJP/doA4lD92wDiUf3cAOJS/d0A4lP93gDiVP3fAOJV/eAA4lb94QDiV/3iAOJY/eMA4ln95ADiWv3lAOJb/eYA4lz95wDiXf3oAOJe/ekA4l/96gDiYP3rAOJh/ewA4mL97QDiY/3uAOJk/e8A4mX98ADiZv3xAOJn/fIA4mj98wDiaf30AOJq/fUA4mv99gDibP33AOJt/fgA4m79+QDib/36AOJw/fsA4nH9/ADicv39AOJz/f4A4nT+QADidf5BAOJ2/kIA4nf+QwDieP5EAOJ5/kUA4nr+RgDie/5HAOJ8/kgA4n3+SQDifv5KAOJ//ksA4oD+TADigf5NAOKC/k4A4oP+TwDihP5QAOKF/lEA4ob+UgDih/5TAOKI/lQA4on+VQDiiv5WAOKL/lcA4oz+WADijf5ZAOKO/loA4o/+WwDikP5cAOKR/l0A4pL+XgDik/5fAOKU/mAA4pX+YQDilv5iAOKX/mMA4pj+ZADimf5lAOKa/mYA4pv+ZwDinP5oAOKd/mkA4p7+agDin/5rAOKg/mwA4qH+bQDiov5uAOKj/m8A4qT+cADipf5xAOKm/nIA4qf+cwDiqP50AOKp/nUA4qr+dgDiq/53AOKs/ngA4q3+eQDirv56AOKv/nsA4rD+fADisf59AOKy/n4A4rP+oQDitP6iAOK1/qMA4rb+pADit/6lAOK4/qYA4rn+pwDiuv6oAOK7/qkA4rz+qgDivf6rAOK+/qwA4r/+rQDiwP6uAOLB/q8A4sL+sADiw/6xAOLE/rIA4sX+swDixv60AOLH/rUA4sj+tgDiyf63AOLK/rgA4sv+uQDizP66AOLN/rsA4s7+vADiz/69AOLQ/r4A4tH+vwDi0v7AAOLT/sEA4tT+wgDi1f7DAOLW/sQA4tf+xQDi2P7GAOLZ/scA4tr+yADi2/7JAOLc/soA4t3+ywDi3v7MAOLf/s0A4uD+zgDi4f7PAOLi/tAA4uP+0QDi5P7SAOLl/tMA4ub+1ADi5/7VAOLo/tYA4un+1wDi6v7YAOLr/tkA4uz+2gDi7f7bAOLu/twA4u/+3QDi8P7eAOLx/t8A4vL+4ADi8/7hAOL0/uIA4vX+4wDi9v7kAOL3/uUA4vj+5gDi+f7nAOL6/ugA4vv+6QDi/P7qAOL9/usA4v7+7ADi//7tAOMA/u4A4wH+7wDjAv7wAOMD/vEA4wT+8gDjBf7zAOMG/vQA4wf+9QDjCP72AOMJ/vcA4wr++ADjC/75AOMM/voA4w3++wDjDv78AOMP/v0A4xD+/gDjEY5AAOMSjkEA4xOOQgDjFI5DAOMVjkQA4xaORQDjF45GAOMYjkcA4xmOSADjGo5JAOMbjkoA4xyOSwDjHY5MAOMejk0A4x+OTgDjII5PAOMhjlAA4yKOUQDjI45SAOMkjlMA4yWOVADjJo5VAOMnjlYA4yiOVwDjKY5YAOMqjlkA4yuOWgDjLI5bAOMtjlwA4y6OXQDjL45eAOMwjl8A4zGOYADjMo5hAOMzjmIA4zSOYwDjNY5kAOM2jmUA4zeOZgDjOI5nAOM5jmgA4zqOaQDjO45qAOM8jmsA4z2ObADjPo5tAOM/jm4A40CObwDjQY5wAONCjnEA40OOcgDjRI5zAONFjnQA40aOdQDjR452AONIjncA40mOeADjSo55AONLjnoA40yOewDjTY58AONOjn0A40+OfgDjUI6hAONRjqIA41KOowDjU46kAONUjqUA41WOpgDjVo6nAONXjqgA41iOqQDjWY6qAONajqsA41uOrADjXI6tAONdjq4A416OrwDjX46wAONgjrEA42GOsgDjYo6zAONjjrQA42SOtQDjZY62AONmjrcA42eOuADjaI65AONpjroA42qOuwDja468AONsjr0A422OvgDjbo6/AONvjsAA43COwQDjcY7CAONyjsMA43OOxADjdI7FAON1jsYA43aOxwDjd47IAON4jskA43mOygDjeo7LAON7jswA43yOzQDjfY7OAON+js8A43+O0ADjgI7RAOOBjtIA44KO0wDjg47UAOOEjtUA44WO1gDjho7XAOOHjtgA44iO2QDjiY7aAOOKjtsA44uO3ADjjI7dAOONjt4A446O3wDjj47gAOOQjuEA45GO4gDjko7jAOOTjuQA45SO5QDjlY7mAOOWjucA45eO6ADjmI7pAOOZjuoA45qO6wDjm47sAOOcju0A452O7gDjno7vAOOfjvAA46CO8QDjoY7yAOOijvMA46OO9ADjpI71AOOljvYA46aO9wDjp474AOOojvkA46mO+gDjqo77AOOrjvwA46yO/QDjrY7+AOOuj0AA46+PQQDjsI9CAOOxj0MA47KPRADjs49FAOO0j0YA47WPRwDjto9IAOO3j0kA47iPSgDjuY9LAOO6j0wA47uPTQDjvI9OAOO9j08A476PUADjv49RAOPAj1IA48GPUwDjwo9UAOPDj1UA48SPVgDjxY9XAOPGj1gA48ePWQDjyI9aAOPJj1sA48qPXADjy49dAOPMj14A482PXwDjzo9gAOPPj2EA49CPYgDj0Y9jAOPSj2QA49OPZQDj1I9mAOPVj2cA49aPaADj149pAOPYj2oA49mPawDj2o9sAOPbj20A49yPbgDj3Y9vAOPej3AA49+PcQDj4I9yAOPhj3MA4+KPdADj4491AOPkj3YA4+WPdwDj5o94AOPnj3kA4+iPegDj6Y97AOPqj3wA4+uPfQDj7I9+AOPtj6EA4+6PogDj74+jAOPwj6QA4/GPpQDj8o+mAOPzj6cA4/SPqADj9Y+pAOP2j6oA4/ePqwDj+I+sAOP5j60A4/qPrgDj+4+vAOP8j7AA4/2PsQDj/o+yAOP/j7MA5ACPtADkAY+1AOQCj7YA5AOPtwDkBI+4AOQFj7kA5AaPugDkB4+7AOQIj7wA5AmPvQDkCo++AOQLj78A5AyPwADkDY/BAOQOj8IA5A+PwwDkEI/EAOQRj8UA5BKPxgDkE4/HAOQUj8gA5BWPyQDkFo/KAOQXj8sA5BiPzADkGY/NAOQaj84A5BuPzwDkHI/QAOQdj9EA5B6P0gDkH4/TAOQgj9QA5CGP1QDkIo/WAOQjj9cA5CSP2ADkJY/ZAOQmj9oA5CeP2wDkKI/cAOQpj90A5CqP3gDkK4/fAOQsj+AA5C2P4QDkLo/iAOQvj+MA5DCP5ADkMY/lAOQyj+YA5DOP5wDkNI/oAOQ1j+kA5DaP6gDkN4/rAOQ4j+wA5DmP7QDkOo/uAOQ7j+8A5DyP8ADkPY/xAOQ+j/IA5D+P8wDkQI/0AORBj/UA5EKP9gDkQ4/3AOREj/gA5EWP+QDkRo/6AORHj/sA5EiP/ADkSY/9AORKj/4A5EuQQADkTJBBAORNkEIA5E6QQwDkT5BEAORQkEUA5FGQRgDkUpBHAORTkEgA5FSQSQDkVZBKAORWkEsA5FeQTADkWJBNAORZkE4A5FqQTwDkW5BQAORckFEA5F2QUgDkXpBTAORfkFQA5GCQVQDkYZBWAORikFcA5GOQWADkZJBZAORlkFoA5GaQWwDkZ5BcAORokF0A5GmQXgDkapBfAORrkGAA5GyQYQDkbZBiAORukGMA5G+QZADkcJBlAORxkGYA5HKQZwDkc5BoAOR0kGkA5HWQagDkdpBrAOR3kGwA5HiQbQDkeZBuAOR6kG8A5HuQcADkfJBxAOR9kHIA5H6QcwDkf5B0AOSAkHUA5IGQdgDkgpB3AOSDkHgA5ISQeQDkhZB6AOSGkHsA5IeQfADkiJB9AOSJkH4A5IqQoQDki5CiAOSMkKMA5I2QpADkjpClAOSPkKYA5JCQpwDkkZCoAOSSkKkA5JOQqgDklJCrAOSVkKwA5JaQrQDkl5CuAOSYkK8A5JmQsADkmpCxAOSbkLIA5JyQswDknZC0AOSekLUA5J+QtgDkoJC3AOShkLgA5KKQuQDko5C6AOSkkLsA5KWQvADkppC9AOSnkL4A5KiQvwDkqZDAAOSqkMEA5KuQwgDkrJDDAOStkMQA5K6QxQDkr5DGAOSwkMcA5LGQyADkspDJAOSzkMoA5LSQywDktZDMAOS2kM0A5LeQzgDkuJDPAOS5kNAA5LqQ0QDku5DSAOS8kNMA5L2Q1ADkvpDVAOS/kNYA5MCQ1wDkwZDYAOTCkNkA5MOQ2gDkxJDbAOTFkNwA5MaQ3QDkx5DeAOTIkN8A5MmQ4ADkypDhAOTLkOIA5MyQ4wDkzZDkAOTOkOUA5M+Q5gDk0JDnAOTRkOgA5NKQ6QDk05DqAOTUkOsA5NWQ7ADk1pDtAOTXkO4A5NiQ7wDk2ZDwAOTakPEA5NuQ8gDk3JDzAOTdkPQA5N6Q9QDk35D2AOTgkPcA5OGQ+ADk4pD5AOTjkPoA5OSQ+wDk5ZD8AOTmkP0A5OeQ/gDk6JFAAOTpkUEA5OqRQgDk65FDAOTskUQA5O2RRQDk7pFGAOTvkUcA5PCRSADk8ZFJAOTykUoA5PORSwDk9JFMAOT1kU0A5PaRTgDk95FPAOT4kVAA5PmRUQDk+pFSAOT7kVMA5PyRVADk/ZFVAOT+kVYA5P+RVwDlAJFYAOUBkVkA5QKRWgDlA5FbAOUEkVwA5QWRXQDlBpFeAOUHkV8A5QiRYADlCZFhAOUKkWIA5QuRYwDlDJFkAOUNkWUA5Q6RZgDlD5FnAOUQkWgA5RGRaQDlEpFqAOUTkWsA5RSRbADlFZFtAOUWkW4A5ReRbwDlGJFwAOUZkXEA5RqRcgDlG5FzAOUckXQA5R2RdQDlHpF2AOUfkXcA5SCReADlIZF5AOUikXoA5SORewDlJJF8AOUlkX0A5SaRfgDlJ5GhAOUokaIA5SmRowDlKpGkAOUrkaUA5SyRpgDlLZGnAOUukagA5S+RqQDlMJGqAOUxkasA5TKRrADlM5GtAOU0ka4A5TWRrwDlNpGwAOU3kbEA5TiRsgDlOZGzAOU6kbQA5TuRtQDlPJG2AOU9kbcA5T6RuADlP5G5AOVAkboA5UGRuwDlQpG8AOVDkb0A5USRvgDlRZG/AOVGkcAA5UeRwQDlSJHCAOVJkcMA5UqRxADlS5HFAOVMkcYA5U2RxwDlTpHIAOVPkckA5VCRygDlUZHLAOVSkcwA5VORzQDlVJHOAOVVkc8A5VaR0ADlV5HRAOVYkdIA5VmR0wDlWpHUAOVbkdUA5VyR1gDlXZHXAOVekdgA5V+R2QDlYJHaAOVhkdsA5WKR3ADlY5HdAOVkkd4A5WWR3wDlZpHgAOVnkeEA5WiR4gDlaZHjAOVqkeQA5WuR5QDlbJHmAOVtkecA5W6R6ADlb5HpAOVwkeoA5XGR6wDlcpHsAOVzke0A5XSR7gDldZHvAOV2kfAA5XeR8QDleJHyAOV5kfMA5XqR9ADle5H1AOV8kfYA5X2R9wDlfpH4AOV/kfkA5YCR+gDlgZH7AOWCkfwA5YOR/QDlhJH+AOWFkkAA5YaSQQDlh5JCAOWIkkMA5YmSRADlipJFAOWLkkYA5YySRwDljZJIAOWOkkkA5Y+SSgDlkJJLAOWRkkwA5ZKSTQDlk5JOAOWUkk8A5ZWSUADllpJRAOWXklIA5ZiSUwDlmZJUAOWaklUA5ZuSVgDlnJJXAOWdklgA5Z6SWQDln5JaAOWgklsA5aGSXADlopJdAOWjkl4A5aSSXwDlpZJgAOWmkmEA5aeSYgDlqJJjAOWpkmQA5aqSZQDlq5JmAOWskmcA5a2SaADlrpJpAOWvkmoA5bCSawDlsZJsAOWykm0A5bOSbgDltJJvAOW1knAA5baScQDlt5JyAOW4knMA5bmSdADlupJ1AOW7knYA5bySdwDlvZJ4AOW+knkA5b+SegDlwJJ7AOXBknwA5cKSfQDlw5J+AOXEkqEA5cWSogDlxpKjAOXHkqQA5ciSpQDlyZKmAOXKkqcA5cuSqADlzJKpAOXNkqoA5c6SqwDlz5KsAOXQkq0A5dGSrgDl0pKvAOXTkrAA5dSSsQDl1ZKyAOXWkrMA5deStADl2JK1AOXZkrYA5dqStwDl25K4AOXckrkA5d2SugDl3pK7AOXfkrwA5eCSvQDl4ZK+AOXikr8A5eOSwADl5JLBAOXlksIA5eaSwwDl55LEAOXoksUA5emSxgDl6pLHAOXrksgA5eySyQDl7ZLKAOXukssA5e+SzADl8JLNAOXxks4A5fKSzwDl85LQAOX0ktEA5fWS0gDl9pLTAOX3ktQA5fiS1QDl+ZLWAOX6ktcA5fuS2ADl/JLZAOX9ktoA5f6S2wDl/5LcAOYAkt0A5gGS3gDmApLfAOYDkuAA5gSS4QDmBZLiAOYGkuMA5geS5ADmCJLlAOYJkuYA5gqS5wDmC5LoAOYMkukA5g2S6gDmDpLrAOYPkuwA5hCS7QDmEZLuAOYSku8A5hOS8ADmFJLxAOYVkvIA5haS8wDmF5L0AOYYkvUA5hmS9gDmGpL3AOYbkvgA5hyS+QDmHZL6AOYekvsA5h+S/ADmIJL9AOYhkv4A5iKTQADmI5NBAOYkk0IA5iWTQwDmJpNEAOYnk0UA5iiTRgDmKZNHAOYqk0gA5iuTSQDmLJNKAOYtk0sA5i6TTADmL5NNAOYwk04A5jGTTwDmMpNQAOYzk1EA5jSTUgDmNZNTAOY2k1QA5jeTVQDmOJNWAOY5k1cA5jqTWADmO5NZAOY8k1oA5j2TWwDmPpNcAOY/k10A5kCTXgDmQZNfAOZCk2AA5kOTYQDmRJNiAOZFk2MA5kaTZADmR5NlAOZIk2YA5kmTZwDmSpNoAOZLk2kA5kyTagDmTZNrAOZOk2wA5k+TbQDmUJNuAOZRk28A5lKTcADmU5NxAOZUk3IA5lWTcwDmVpN0AOZXk3UA5liTdgDmWZN3AOZak3gA5luTeQDmXJN6AOZdk3sA5l6TfADmX5N9AOZgk34A5mGToQDmYpOiAOZjk6MA5mSTpADmZZOlAOZmk6YA5meTpwDmaJOoAOZpk6kA5mqTqgDma5OrAOZsk6wA5m2TrQDmbpOuAOZvk68A5nCTsADmcZOxAOZyk7IA5nOTswDmdJO0AOZ1k7UA5naTtgDmd5O3AOZ4k7gA5nmTuQDmepO6AOZ7k7sA5nyTvADmfZO9AOZ+k74A5n+TvwDmgJPAAOaBk8EA5oKTwgDmg5PDAOaEk8QA5oWTxQDmhpPGAOaHk8cA5oiTyADmiZPJAOaKk8oA5ouTywDmjJPMAOaNk80A5o6TzgDmj5PPAOaQk9AA5pGT0QDmkpPSAOaTk9MA5pST1ADmlZPVAOaWk9YA5peT1wDmmJPYAOaZk9kA5pqT2gDmm5PbAOack9wA5p2T3QDmnpPeAOafk98A5qCT4ADmoZPhAOaik+IA5qOT4wDmpJPkAOalk+UA5qaT5gDmp5PnAOaok+gA5qmT6QDmqpPqAOark+sA5qyT7ADmrZPtAOauk+4A5q+T7wDmsJPwAOaxk/EA5rKT8gDms5PzAOa0k/QA5rWT9QDmtpP2AOa3k/cA5riT+ADmuZP5AOa6k/oA5ruT+wDmvJP8AOa9k/0A5r6T/gDmv5RAAObAlEEA5sGUQgDmwpRDAObDlEQA5sSURQDmxZRGAObGlEcA5seUSADmyJRJAObJlEoA5sqUSwDmy5RMAObMlE0A5s2UTgDmzpRPAObPlFAA5tCUUQDm0ZRSAObSlFMA5tOUVADm1JRVAObVlFYA5taUVwDm15RYAObYlFkA5tmUWgDm2pRbAObblFwA5tyUXQDm3ZReAObelF8A5t+UYADm4JRhAObhlGIA5uKUYwDm45RkAObklGUA5uWUZgDm5pRnAObnlGgA5uiUaQDm6ZRqAObqlGsA5uuUbADm7JRtAObtlG4A5u6UbwDm75RwAObwlHEA5vGUcgDm8pRzAObzlHQA5vSUdQDm9ZR2AOb2lHcA5veUeADm+JR5AOb5lHoA5vqUewDm+5R8AOb8lH0A5v2UfgDm/pShAOb/lKIA5wCUowDnAZSkAOcClKUA5wOUpgDnBJSnAOcFlKgA5waUqQDnB5SqAOcIlKsA5wmUrADnCpStAOcLlK4A5wyUrwDnDZSwAOcOlLEA5w+UsgDnEJSzAOcRlLQA5xKUtQDnE5S2AOcUlLcA5xWUuADnFpS5AOcXlLoA5xiUuwDnGZS8AOcalL0A5xuUvgDnHJS/AOcdlMAA5x6UwQDnH5TCAOcglMMA5yGUxADnIpTFAOcjlMYA5ySUxwDnJZTIAOcmlMkA5yeUygDnKJTLAOcplMwA5yqUzQDnK5TOAOcslM8A5y2U0ADnLpTRAOcvlNIA5zCU0wDnMZTUAOcylNUA5zOU1gDnNJTXAOc1lNgA5zaU2QDnN5TaAOc4lNsA5zmU3ADnOpTdAOc7lN4A5zyU3wDnPZTgAOc+lOEA5z+U4gDnQJTjAOdBlOQA50KU5QDnQ5TmAOdElOcA50WU6ADnRpTpAOdHlOoA50iU6wDnSZTsAOdKlO0A50uU7gDnTJTvAOdNlPAA506U8QDnT5TyAOdQlPMA51GU9ADnUpT1AOdTlPYA51SU9wDnVZT4AOdWlPkA51eU+gDnWJT7AOdZlPwA51qU/QDnW5T+AOdclUAA512VQQDnXpVCAOdflUMA52CVRADnYZVFAOdilUYA52OVRwDnZJVIAOdllUkA52aVSgDnZ5VLAOdolUwA52mVTQDnapVOAOdrlU8A52yVUADnbZVRAOdulVIA52+VUwDncJVUAOdxlVUA53KVVgDnc5VXAOd0lVgA53WVWQDndpVaAOd3lVsA53iVXADneZVdAOd6lV4A53uVXwDnfJVgAOd9lWEA536VYgDnf5VjAOeAlWQA54GVZQDngpVmAOeDlWcA54SVaADnhZVpAOeGlWoA54eVawDniJVsAOeJlW0A54qVbgDni5VvAOeMlXAA542VcQDnjpVyAOePlXMA55CVdADnkZV1AOeSlXYA55OVdwDnlJV4AOeVlXkA55aVegDnl5V7AOeYlXwA55mVfQDnmpV+AOeblaEA55yVogDnnZWjAOeelaQA55+VpQDnoJWmAOehlacA56KVqADno5WpAOeklaoA56WVqwDnppWsAOenla0A56iVrgDnqZWvAOeqlbAA56uVsQDnrJWyAOetlbMA566VtADnr5W1AOewlbYA57GVtwDnspW4AOezlbkA57SVugDntZW7AOe2lbwA57eVvQDnuJW+AOe5lb8A57qVwADnu5XBAOe8lcIA572VwwDnvpXEAOe/lcUA58CVxgDnwZXHAOfClcgA58OVyQDnxJXKAOfFlcsA58aVzADnx5XNAOfIlc4A58mVzwDnypXQAOfLldEA58yV0gDnzZXTAOfOldQA58+V1QDn0JXWAOfRldcA59KV2ADn05XZAOfUldoA59WV2wDn1pXcAOfXld0A59iV3gDn2ZXfAOfaleAA59uV4QDn3JXiAOfdleMA596V5ADn35XlAOfgleYA5+GV5wDn4pXoAOfjlekA5+SV6gDn5ZXrAOfmlewA5+eV7QDn6JXuAOfple8A5+qV8ADn65XxAOfslfIA5+2V8wDn7pX0AOfvlfUA5/CV9gDn8ZX3AOfylfgA5/OV+QDn9JX6AOf1lfsA5/aV/ADn95X9AOf4lf4A5/mWQADn+pZBAOf7lkIA5/yWQwDn/ZZEAOf+lkUA5/+WRgDoAJZHAOgBlkgA6AKWSQDoA5ZKAOgElksA6AWWTADoBpZNAOgHlk4A6AiWTwDoCZZQAOgKllEA6AuWUgDoDJZTAOgNllQA6A6WVQDoD5ZWAOgQllcA6BGWWADoEpZZAOgTlloA6BSWWwDoFZZcAOgWll0A6BeWXgDoGJZfAOgZlmAA6BqWYQDoG5ZiAOgclmMA6B2WZADoHpZlAOgflmYA6CCWZwDoIZZoAOgilmkA6COWagDoJJZrAOgllmwA6CaWbQDoJ5ZuAOgolm8A6CmWcADoKpZxAOgrlnIA6CyWcwDoLZZ0AOgulnUA6C+WdgDoMJZ3AOgxlngA6DKWeQDoM5Z6AOg0lnsA6DWWfADoNpZ9AOg3ln4A6DiWoQDoOZaiAOg6lqMA6DuWpADoPJalAOg9lqYA6D6WpwDoP5aoAOhAlqkA6EGWqgDoQparAOhDlqwA6ESWrQDoRZauAOhGlq8A6EeWsADoSJaxAOhJlrIA6EqWswDoS5a0AOhMlrUA6E2WtgDoTpa3AOhPlrgA6FCWuQDoUZa6AOhSlrsA6FOWvADoVJa9AOhVlr4A6FaWvwDoV5bAAOhYlsEA6FmWwgDoWpbDAOhblsQA6FyWxQDoXZbGAOhelscA6F+WyADoYJbJAOhhlsoA6GKWywDoY5bMAOhkls0A6GWWzgDoZpbPAOhnltAA6GiW0QDoaZbSAOhqltMA6GuW1ADobJbVAOhtltYA6G6W1wDob5bYAOhwltkA6HGW2gDocpbbAOhzltwA6HSW3QDodZbeAOh2lt8A6HeW4ADoeJbhAOh5luIA6HqW4wDoe5bkAOh8luUA6H2W5gDofpbnAOh/lugA6ICW6QDogZbqAOiClusA6IOW7ADohJbtAOiFlu4A6IaW7wDoh5bwAOiIlvEA6ImW8gDoipbzAOiLlvQA6IyW9QDojZb2AOiOlvcA6I+W+ADokJb5AOiRlvoA6JKW+wDok5b8AOiUlv0A6JWW/gDolpdAAOiXl0EA6JiXQgDomZdDAOial0QA6JuXRQDonJdGAOidl0cA6J6XSADon5dJAOigl0oA6KGXSwDoopdMAOijl00A6KSXTgDopZdPAOiml1AA6KeXUQDoqJdSAOipl1MA6KqXVADoq5dVAOisl1YA6K2XVwDorpdYAOivl1kA6LCXWgDosZdbAOiyl1wA6LOXXQDotJdeAOi1l18A6LaXYADot5dhAOi4l2IA6LmXYwDoupdkAOi7l2UA6LyXZgDovZdnAOi+l2gA6L+XaQDowJdqAOjBl2sA6MKXbADow5dtAOjEl24A6MWXbwDoxpdwAOjHl3EA6MiXcgDoyZdzAOjKl3QA6MuXdQDozJd2AOjNl3cA6M6XeADoz5d5AOjQl3oA6NGXewDo0pd8AOjTl30A6NSXfgDo1ZehAOjWl6IA6NeXowDo2JekAOjZl6UA6NqXpgDo25enAOjcl6gA6N2XqQDo3peqAOjfl6sA6OCXrADo4ZetAOjil64A6OOXrwDo5JewAOjll7EA6OaXsgDo55ezAOjol7QA6OmXtQDo6pe2AOjrl7cA6OyXuADo7Ze5AOjul7oA6O+XuwDo8Je8AOjxl70A6PKXvgDo85e/AOj0l8AA6PWXwQDo9pfCAOj3l8MA6PiXxADo+ZfFAOj6l8YA6PuXxwDo/JfIAOj9l8kA6P6XygDo/5fLAOkAl8wA6QGXzQDpApfOAOkDl88A6QSX0ADpBZfRAOkGl9IA6QeX0wDpCJfUAOkJl9UA6QqX1gDpC5fXAOkMl9gA6Q2X2QDpDpfaAOkPl9sA6RCX3ADpEZfdAOkSl94A6ROX3wDpFJfgAOkVl+EA6RaX4gDpF5fjAOkYl+QA6RmX5QDpGpfmAOkbl+cA6RyX6ADpHZfpAOkel+oA6R+X6wDpIJfsAOkhl+0A6SKX7gDpI5fvAOkkl/AA6SWX8QDpJpfyAOknl/MA6SiX9ADpKZf1AOkql/YA6SuX9wDpLJf4AOktl/kA6S6X+gDpL5f7AOkwl/wA6TGX/QDpMpf+AOkzmEAA6TSYQQDpNZhCAOk2mEMA6TeYRADpOJhFAOk5mEYA6TqYRwDpO5hIAOk8mEkA6T2YSgDpPphLAOk/mEwA6UCYTQDpQZhOAOlCmE8A6UOYUADpRJhRAOlFmFIA6UaYUwDpR5hUAOlImFUA6UmYVgDpSphXAOlLmFgA6UyYWQDpTZhaAOlOmFsA6U+YXADpUJhdAOlRmF4A6VKYXwDpU5hgAOlUmGEA6VWYYgDpVphjAOlXmGQA6ViYZQDpWZhmAOlamGcA6VuYaADpXJhpAOldmGoA6V6YawDpX5hsAOlgmG0A6WGYbgDpYphvAOljmHAA6WSYcQDpZZhyAOlmmHMA6WeYdADpaJh1AOlpmHYA6WqYdwDpa5h4AOlsmHkA6W2YegDpbph7AOlvmHwA6XCYfQDpcZh+AOlymKEA6XOYogDpdJijAOl1mKQA6XaYpQDpd5imAOl4mKcA6XmYqADpepipAOl7mKoA6XyYqwDpfZisAOl+mK0A6X+YrgDpgJivAOmBmLAA6YKYsQDpg5iyAOmEmLMA6YWYtADphpi1AOmHmLYA6YiYtwDpiZi4AOmKmLkA6YuYugDpjJi7AOmNmLwA6Y6YvQDpj5i+AOmQmL8A6ZGYwADpkpjBAOmTmMIA6ZSYwwDplZjEAOmWmMUA6ZeYxgDpmJjHAOmZmMgA6ZqYyQDpm5jKAOmcmMsA6Z2YzADpnpjNAOmfmM4A6aCYzwDpoZjQAOmimNEA6aOY0gDppJjTAOmlmNQA6aaY1QDpp5jWAOmomNcA6amY2ADpqpjZAOmrmNoA6ayY2wDprZjcAOmumN0A6a+Y3gDpsJjfAOmxmOAA6bKY4QDps5jiAOm0mOMA6bWY5ADptpjlAOm3mOYA6biY5wDpuZjoAOm6mOkA6buY6gDpvJjrAOm9mOwA6b6Y7QDpv5juAOnAmO8A6cGY8ADpwpjxAOnDmPIA6cSY8wDpxZj0AOnGmPUA6ceY9gDpyJj3AOnJmPgA6cqY+QDpy5j6AOnMmPsA6c2Y/ADpzpj9AOnPmP4A6dCZQADp0ZlBAOnSmUIA6dOZQwDp1JlEAOnVmUUA6daZRgDp15lHAOnYmUgA6dmZSQDp2plKAOnbmUsA6dyZTADp3ZlNAOnemU4A6d+ZTwDp4JlQAOnhmVEA6eKZUgDp45lTAOnkmVQA6eWZVQDp5plWAOnnmVcA6eiZWADp6ZlZAOnqmVoA6euZWwDp7JlcAOntmV0A6e6ZXgDp75lfAOnwmWAA6fGZYQDp8pliAOnzmWMA6fSZZADp9ZllAOn2mWYA6feZZwDp+JloAOn5mWkA6fqZagDp+5lrAOn8mWwA6f2ZbQDp/pluAOn/mW8A6gCZcADqAZlxAOoCmXIA6gOZcwDqBJl0AOoFmXUA6gaZdgDqB5l3AOoImXgA6gmZeQDqCpl6AOoLmXsA6gyZfADqDZl9AOoOmX4A6g+ZoQDqEJmiAOoRmaMA6hKZpADqE5mlAOoUmaYA6hWZpwDqFpmoAOoXmakA6hiZqgDqGZmrAOoamawA6huZrQDqHJmuAOodma8A6h6ZsADqH5mxAOogmbIA6iGZswDqIpm0AOojmbUA6iSZtgDqJZm3AOommbgA6ieZuQDqKJm6AOopmbsA6iqZvADqK5m9AOosmb4A6i2ZvwDqLpnAAOovmcEA6jCZwgDqMZnDAOoymcQA6jOZxQDqNJnGAOo1mccA6jaZyADqN5nJAOo4mcoA6jmZywDqOpnMAOo7mc0A6jyZzgDqPZnPAOo+mdAA6j+Z0QDqQJnSAOpBmdMA6kKZ1ADqQ5nVAOpEmdYA6kWZ1wDqRpnYAOpHmdkA6kiZ2gDqSZnbAOpKmdwA6kuZ3QDqTJneAOpNmd8A6k6Z4ADqT5nhAOpQmeIA6lGZ4wDqUpnkAOpTmeUA6lSZ5gDqVZnnAOpWmegA6leZ6QDqWJnqAOpZmesA6lqZ7ADqW5ntAOpcme4A6l2Z7wDqXpnwAOpfmfEA6mCZ8gDqYZnzAOpimfQA6mOZ9QDqZJn2AOplmfcA6maZ+ADqZ5n5AOpomfoA6mmZ+wDqapn8AOprmf0A6myZ/gDqbZpAAOpumkEA6m+aQgDqcJpDAOpxmkQA6nKaRQDqc5pGAOp0mkcA6nWaSADqdppJAOp3mkoA6niaSwDqeZpMAOp6mk0A6nuaTgDqfJpPAOp9mlAA6n6aUQDqf5pSAOqAmlMA6oGaVADqgppVAOqDmlYA6oSaVwDqhZpYAOqGmlkA6oeaWgDqiJpbAOqJmlwA6oqaXQDqi5peAOqMml8A6o2aYADqjpphAOqPmmIA6pCaYwDqkZpkAOqSmmUA6pOaZgDqlJpnAOqVmmgA6paaaQDql5pqAOqYmmsA6pmabADqmpptAOqbmm4A6pyabwDqnZpwAOqemnEA6p+acgDqoJpzAOqhmnQA6qKadQDqo5p2AOqkmncA6qWaeADqppp5AOqnmnoA6qiaewDqqZp8AOqqmn0A6quafgDqrJqhAOqtmqIA6q6aowDqr5qkAOqwmqUA6rGapgDqspqnAOqzmqgA6rSaqQDqtZqqAOq2mqsA6rearADquJqtAOq5mq4A6rqarwDqu5qwAOq8mrEA6r2asgDqvpqzAOq/mrQA6sCatQDqwZq2AOrCmrcA6sOauADqxJq5AOrFmroA6saauwDqx5q8AOrImr0A6smavgDqypq/AOrLmsAA6syawQDqzZrCAOrOmsMA6s+axADq0JrFAOrRmsYA6tKaxwDq05rIAOrUmskA6tWaygDq1prLAOrXmswA6tiazQDq2ZrOAOrams8A6tua0ADq3JrRAOrdmtIA6t6a0wDq35rUAOrgmtUA6uGa1gDq4prXAOrjmtgA6uSa2QDq5ZraAOrmmtsA6uea3ADq6JrdAOrpmt4A6uqa3wDq65rgAOrsmuEA6u2a4gDq7prjAOrvmuQA6vCa5QDq8ZrmAOrymucA6vOa6ADq9JrpAOr1muoA6vaa6wDq95rsAOr4mu0A6vma7gDq+prvAOr7mvAA6vya8QDq/ZryAOr+mvMA6v+a9ADrAJr1AOsBmvYA6wKa9wDrA5r4AOsEmvkA6wWa+gDrBpr7AOsHmvwA6wia/QDrCZr+AOsKm0AA6wubQQDrDJtCAOsNm0MA6w6bRADrD5tFAOsQm0YA6xGbRwDrEptIAOsTm0kA6xSbSgDrFZtLAOsWm0wA6xebTQDrGJtOAOsZm08A6xqbUADrG5tRAOscm1IA6x2bUwDrHptUAOsfm1UA6yCbVgDrIZtXAOsim1gA6yObWQDrJJtaAOslm1sA6yabXADrJ5tdAOsom14A6ymbXwDrKptgAOsrm2EA6yybYgDrLZtjAOsum2QA6y+bZQDrMJtmAOsxm2cA6zKbaADrM5tpAOs0m2oA6zWbawDrNptsAOs3m20A6zibbgDrOZtvAOs6m3AA6zubcQDrPJtyAOs9m3MA6z6bdADrP5t1AOtAm3YA60GbdwDrQpt4AOtDm3kA60SbegDrRZt7AOtGm3wA60ebfQDrSJt+AOtJm6EA60qbogDrS5ujAOtMm6QA602bpQDrTpumAOtPm6cA61CbqADrUZupAOtSm6oA61ObqwDrVJusAOtVm60A61abrgDrV5uvAOtYm7AA61mbsQDrWpuyAOtbm7MA61ybtADrXZu1AOtem7YA61+btwDrYJu4AOthm7kA62KbugDrY5u7AOtkm7wA62WbvQDrZpu+AOtnm78A62ibwADraZvBAOtqm8IA62ubwwDrbJvEAOttm8UA626bxgDrb5vHAOtwm8gA63GbyQDrcpvKAOtzm8sA63SbzADrdZvNAOt2m84A63ebzwDreJvQAOt5m9EA63qb0gDre5vTAOt8m9QA632b1QDrfpvWAOt/m9cA64Cb2ADrgZvZAOuCm9oA64Ob2wDrhJvcAOuFm90A64ab3gDrh5vfAOuIm+AA64mb4QDripviAOuLm+MA64yb5ADrjZvlAOuOm+YA64+b5wDrkJvoAOuRm+kA65Kb6gDrk5vrAOuUm+wA65Wb7QDrlpvuAOuXm+8A65ib8ADrmZvxAOuam/IA65ub8wDrnJv0AOudm/UA656b9gDrn5v3AOugm/gA66Gb+QDropv6AOujm/sA66Sb/ADrpZv9AOumm/4A66ecQADrqJxBAOupnEIA66qcQwDrq5xEAOusnEUA662cRgDrrpxHAOuvnEgA67CcSQDrsZxKAOuynEsA67OcTADrtJxNAOu1nE4A67acTwDrt5xQAOu4nFEA67mcUgDrupxTAOu7nFQA67ycVQDrvZxWAOu+nFcA67+cWADrwJxZAOvBnFoA68KcWwDrw5xcAOvEnF0A68WcXgDrxpxfAOvHnGAA68icYQDryZxiAOvKnGMA68ucZADrzJxlAOvNnGYA686cZwDrz5xoAOvQnGkA69GcagDr0pxrAOvTnGwA69ScbQDr1ZxuAOvWnG8A69eccADr2JxxAOvZnHIA69qccwDr25x0AOvcnHUA692cdgDr3px3AOvfnHgA6+CceQDr4Zx6AOvinHsA6+OcfADr5Jx9AOvlnH4A6+acoQDr55yiAOvonKMA6+mcpADr6pylAOvrnKYA6+ycpwDr7ZyoAOvunKkA6++cqgDr8JyrAOvxnKwA6/KcrQDr85yuAOv0nK8A6/WcsADr9pyxAOv3nLIA6/icswDr+Zy0AOv6nLUA6/uctgDr/Jy3AOv9nLgA6/6cuQDr/5y6AOwAnLsA7AGcvADsApy9AOwDnL4A7AScvwDsBZzAAOwGnMEA7AecwgDsCJzDAOwJnMQA7AqcxQDsC5zGAOwMnMcA7A2cyADsDpzJAOwPnMoA7BCcywDsEZzMAOwSnM0A7BOczgDsFJzPAOwVnNAA7Bac0QDsF5zSAOwYnNMA7Bmc1ADsGpzVAOwbnNYA7Byc1wDsHZzYAOwenNkA7B+c2gDsIJzbAOwhnNwA7CKc3QDsI5zeAOwknN8A7CWc4ADsJpzhAOwnnOIA7Cic4wDsKZzkAOwqnOUA7Cuc5gDsLJznAOwtnOgA7C6c6QDsL5zqAOwwnOsA7DGc7ADsMpztAOwznO4A7DSc7wDsNZzwAOw2nPEA7Dec8gDsOJzzAOw5nPQA7Dqc9QDsO5z2AOw8nPcA7D2c+ADsPpz5AOw/nPoA7ECc+wDsQZz8AOxCnP0A7EOc/gDsRJ1AAOxFnUEA7EadQgDsR51DAOxInUQA7EmdRQDsSp1GAOxLnUcA7EydSADsTZ1JAOxOnUoA7E+dSwDsUJ1MAOxRnU0A7FKdTgDsU51PAOxUnVAA7FWdUQDsVp1SAOxXnVMA7FidVADsWZ1VAOxanVYA7FudVwDsXJ1YAOxdnVkA7F6dWgDsX51bAOxgnVwA7GGdXQDsYp1eAOxjnV8A7GSdYADsZZ1hAOxmnWIA7GedYwDsaJ1kAOxpnWUA7GqdZgDsa51nAOxsnWgA7G2daQDsbp1qAOxvnWsA7HCdbADscZ1tAOxynW4A7HOdbwDsdJ1wAOx1nXEA7HadcgDsd51zAOx4nXQA7HmddQDsep12AOx7nXcA7HydeADsfZ15AOx+nXoA7H+dewDsgJ18AOyBnX0A7IKdfgDsg52hAOyEnaIA7IWdowDshp2kAOyHnaUA7IidpgDsiZ2nAOyKnagA7IudqQDsjJ2qAOyNnasA7I6drADsj52tAOyQna4A7JGdrwDskp2wAOyTnbEA7JSdsgDslZ2zAOyWnbQA7JedtQDsmJ22AOyZnbcA7JqduADsm525AOycnboA7J2duwDsnp28AOyfnb0A7KCdvgDsoZ2/AOyincAA7KOdwQDspJ3CAOylncMA7KadxADsp53FAOyoncYA7KmdxwDsqp3IAOyrnckA7KydygDsrZ3LAOyuncwA7K+dzQDssJ3OAOyxnc8A7LKd0ADss53RAOy0ndIA7LWd0wDstp3UAOy3ndUA7Lid1gDsuZ3XAOy6ndgA7Lud2QDsvJ3aAOy9ndsA7L6d3ADsv53dAOzAnd4A7MGd3wDswp3gAOzDneEA7MSd4gDsxZ3jAOzGneQA7Med5QDsyJ3mAOzJnecA7Mqd6ADsy53pAOzMneoA7M2d6wDszp3sAOzPne0A7NCd7gDs0Z3vAOzSnfAA7NOd8QDs1J3yAOzVnfMA7Nad9ADs1531AOzYnfYA7Nmd9wDs2p34AOzbnfkA7Nyd+gDs3Z37AOzenfwA7N+d/QDs4J3+AOzhnkAA7OKeQQDs455CAOzknkMA7OWeRADs5p5FAOznnkYA7OieRwDs6Z5IAOzqnkkA7OueSgDs7J5LAOztnkwA7O6eTQDs755OAOzwnk8A7PGeUADs8p5RAOzznlIA7PSeUwDs9Z5UAOz2nlUA7PeeVgDs+J5XAOz5nlgA7PqeWQDs+55aAOz8nlsA7P2eXADs/p5dAOz/nl4A7QCeXwDtAZ5gAO0CnmEA7QOeYgDtBJ5jAO0FnmQA7QaeZQDtB55mAO0InmcA7QmeaADtCp5pAO0LnmoA7QyeawDtDZ5sAO0Onm0A7Q+ebgDtEJ5vAO0RnnAA7RKecQDtE55yAO0UnnMA7RWedADtFp51AO0XnnYA7RiedwDtGZ54AO0annkA7RueegDtHJ57AO0dnnwA7R6efQDtH55+AO0gnqEA7SGeogDtIp6jAO0jnqQA7SSepQDtJZ6mAO0mnqcA7SeeqADtKJ6pAO0pnqoA7SqeqwDtK56sAO0snq0A7S2ergDtLp6vAO0vnrAA7TCesQDtMZ6yAO0ynrMA7TOetADtNJ61AO01nrYA7TaetwDtN564AO04nrkA7TmeugDtOp67AO07nrwA7TyevQDtPZ6+AO0+nr8A7T+ewADtQJ7BAO1BnsIA7UKewwDtQ57EAO1EnsUA7UWexgDtRp7HAO1HnsgA7UieyQDtSZ7KAO1KnssA7UuezADtTJ7NAO1Nns4A7U6ezwDtT57QAO1QntEA7VGe0gDtUp7TAO1TntQA7VSe1QDtVZ7WAO1WntcA7Vee2ADtWJ7ZAO1ZntoA7Vqe2wDtW57cAO1cnt0A7V2e3gDtXp7fAO1fnuAA7WCe4QDtYZ7iAO1inuMA7WOe5ADtZJ7lAO1lnuYA7Wae5wDtZ57oAO1onukA7Wme6gDtap7rAO1rnuwA7Wye7QDtbZ7uAO1unu8A7W+e8ADtcJ7xAO1xnvIA7XKe8wDtc570AO10nvUA7XWe9gDtdp73AO13nvgA7Xie+QDteZ76AO16nvsA7Xue/ADtfJ79AO19nv4A7X6fQADtf59BAO2An0IA7YGfQwDtgp9EAO2Dn0UA7YSfRgDthZ9HAO2Gn0gA7YefSQDtiJ9KAO2Jn0sA7YqfTADti59NAO2Mn04A7Y2fTwDtjp9QAO2Pn1EA7ZCfUgDtkZ9TAO2Sn1QA7ZOfVQDtlJ9WAO2Vn1cA7ZafWADtl59ZAO2Yn1oA7ZmfWwDtmp9cAO2bn10A7ZyfXgDtnZ9fAO2en2AA7Z+fYQDtoJ9iAO2hn2MA7aKfZADto59lAO2kn2YA7aWfZwDtpp9oAO2nn2kA7aifagDtqZ9rAO2qn2wA7aufbQDtrJ9uAO2tn28A7a6fcADtr59xAO2wn3IA7bGfcwDtsp90AO2zn3UA7bSfdgDttZ93AO22n3gA7befeQDtuJ96AO25n3sA7bqffADtu599AO28n34A7b2foQDtvp+iAO2/n6MA7cCfpADtwZ+lAO3Cn6YA7cOfpwDtxJ+oAO3Fn6kA7cafqgDtx5+rAO3In6wA7cmfrQDtyp+uAO3Ln68A7cyfsADtzZ+xAO3On7IA7c+fswDt0J+0AO3Rn7UA7dKftgDt05+3AO3Un7gA7dWfuQDt1p+6AO3Xn7sA7difvADt2Z+9AO3an74A7dufvwDt3J/AAO3dn8EA7d6fwgDt35/DAO3gn8QA7eGfxQDt4p/GAO3jn8cA7eSfyADt5Z/JAO3mn8oA7eefywDt6J/MAO3pn80A7eqfzgDt65/PAO3sn9AA7e2f0QDt7p/SAO3vn9MA7fCf1ADt8Z/VAO3yn9YA7fOf1wDt9J/YAO31n9kA7faf2gDt95/bAO34n9wA7fmf3QDt+p/eAO37n98A7fyf4ADt/Z/hAO3+n+IA7f+f4wDuAJ/kAO4Bn+UA7gKf5gDuA5/nAO4En+gA7gWf6QDuBp/qAO4Hn+sA7gif7ADuCZ/tAO4Kn+4A7guf7wDuDJ/wAO4Nn/EA7g6f8gDuD5/zAO4Qn/QA7hGf9QDuEp/2AO4Tn/cA7hSf+ADuFZ/5AO4Wn/oA7hef+wDuGJ/8AO4Zn/0A7hqf/gDuG6BAAO4coEEA7h2gQgDuHqBDAO4foEQA7iCgRQDuIaBGAO4ioEcA7iOgSADuJKBJAO4loEoA7iagSwDuJ6BMAO4ooE0A7imgTgDuKqBPAO4roFAA7iygUQDuLaBSAO4uoFMA7i+gVADuMKBVAO4xoFYA7jKgVwDuM6BYAO40oFkA7jWgWgDuNqBbAO43oFwA7jigXQDuOaBeAO46oF8A7jugYADuPKBhAO49oGIA7j6gYwDuP6BkAO5AoGUA7kGgZgDuQqBnAO5DoGgA7kSgaQDuRaBqAO5GoGsA7kegbADuSKBtAO5JoG4A7kqgbwDuS6BwAO5MoHEA7k2gcgDuTqBzAO5PoHQA7lCgdQDuUaB2AO5SoHcA7lOgeADuVKB5AO5VoHoA7lagewDuV6B8AO5YoH0A7lmgfgDuWqChAO5boKIA7lygowDuXaCkAO5eoKUA7l+gpgDuYKCnAO5hoKgA7mKgqQDuY6CqAO5koKsA7mWgrADuZqCtAO5noK4A7migrwDuaaCwAO5qoLEA7mugsgDubKCzAO5toLQA7m6gtQDub6C2AO5woLcA7nGguADucqC5AO5zoLoA7nSguwDudaC8AO52oL0A7negvgDueKC/AO55oMAA7nqgwQDue6DCAO58oMMA7n2gxADufqDFAO5/oMYA7oCgxwDugaDIAO6CoMkA7oOgygDuhKDLAO6FoMwA7oagzQDuh6DOAO6IoM8A7omg0ADuiqDRAO6LoNIA7oyg0wDujaDUAO6OoNUA7o+g1gDukKDXAO6RoNgA7pKg2QDuk6DaAO6UoNsA7pWg3ADulqDdAO6XoN4A7pig3wDumaDgAO6aoOEA7pug4gDunKDjAO6doOQA7p6g5QDun6DmAO6goOcA7qGg6ADuoqDpAO6joOoA7qSg6wDupaDsAO6moO0A7qeg7gDuqKDvAO6poPAA7qqg8QDuq6DyAO6soPMA7q2g9ADurqD1AO6voPYA7rCg9wDusaD4AO6yoPkA7rOg+gDutKD7AO61oPwA7rag/QDut6D+AO64gUAA7rmBQQDuuoFCAO67gUMA7ryBRADuvYFFAO6+gUYA7r+BRwDuwIFIAO7BgUkA7sKBSgDuw4FLAO7EgUwA7sWBTQDuxoFOAO7HgU8A7siBUADuyYFRAO7KgVIA7suBUwDuzIFUAO7NgVUA7s6BVgDuz4FXAO7QgVgA7tGBWQDu0oFaAO7TgVsA7tSBXADu1YFdAO7WgV4A7teBXwDu2IFgAO7ZgWEA7tqBYgDu24FjAO7cgWQA7t2BZQDu3oFmAO7fgWcA7uCBaADu4YFpAO7igWoA7uOBawDu5IFsAO7lgW0A7uaBbgDu54FvAO7ogXAA7umBcQDu6oFyAO7rgXMA7uyBdADu7YF1AO7ugXYA7u+BdwDu8IF4AO7xgXkA7vKBegDu84F7AO70gXwA7vWBfQDu9oF+AO73gaEA7viBogDu+YGjAO76gaQA7vuBpQDu/IGmAO79gacA7v6BqADu/4GpAO8AgaoA7wGBqwDvAoGsAO8Dga0A7wSBrgDvBYGvAO8GgbAA7weBsQDvCIGyAO8JgbMA7wqBtADvC4G1AO8MgbYA7w2BtwDvDoG4AO8PgbkA7xCBugDvEYG7AO8SgbwA7xOBvQDvFIG+AO8Vgb8A7xaBwADvF4HBAO8YgcIA7xmBwwDvGoHEAO8bgcUA7xyBxgDvHYHHAO8egcgA7x+ByQDvIIHKAO8hgcsA7yKBzADvI4HNAO8kgc4A7yWBzwDvJoHQAO8ngdEA7yiB0gDvKYHTAO8qgdQA7yuB1QDvLIHWAO8tgdcA7y6B2ADvL4HZAO8wgdoA7zGB2wDvMoHcAO8zgd0A7zSB3gDvNYHfAO82geAA7zeB4QDvOIHiAO85geMA7zqB5ADvO4HlAO88geYA7z2B5wDvPoHoAO8/gekA70CB6gDvQYHrAO9CgewA70OB7QDvRIHuAO9Fge8A70aB8ADvR4HxAO9IgfIA70mB8wDvSoH0AO9LgfUA70yB9gDvTYH3AO9OgfgA70+B+QDvUIH6AO9RgfsA71KB/ADvU4H9AO9Ugf4A71WCQADvVoJBAO9XgkIA71iCQwDvWYJEAO9agkUA71uCRgDvXIJHAO9dgkgA716CSQDvX4JKAO9ggksA72GCTADvYoJNAO9jgk4A72SCTwDvZYJQAO9mglEA72eCUgDvaIJTAO9pglQA72qCVQDva4JWAO9sglcA722CWADvboJZAO9vgloA73CCWwDvcYJcAO9ygl0A73OCXgDvdIJfAO91gmAA73aCYQDvd4JiAO94gmMA73mCZADveoJlAO97gmYA73yCZwDvfYJoAO9+gmkA73+CagDvgIJrAO+BgmwA74KCbQDvg4JuAO+Egm8A74WCcADvhoJxAO+HgnIA74iCcwDviYJ0AO+KgnUA74uCdgDvjIJ3AO+NgngA746CeQDvj4J6AO+QgnsA75GCfADvkoJ9AO+Tgn4A75SCoQDvlYKiAO+WgqMA75eCpADvmIKlAO+ZgqYA75qCpwDvm4KoAO+cgqkA752CqgDvnoKrAO+fgqwA76CCrQDvoYKuAO+igq8A76OCsADvpIKxAO+lgrIA76aCswDvp4K0AO+ogrUA76mCtgDvqoK3AO+rgrgA76yCuQDvrYK6AO+ugrsA76+CvADvsIK9AO+xgr4A77KCvwDvs4LAAO+0gsEA77WCwgDvtoLDAO+3gsQA77iCxQDvuYLGAO+6gscA77uCyADvvILJAO+9gsoA776CywDvv4LMAO/Ags0A78GCzgDvwoLPAO/DgtAA78SC0QDvxYLSAO/GgtMA78eC1ADvyILVAO/JgtYA78qC1wDvy4LYAO/MgtkA782C2gDvzoLbAO/PgtwA79CC3QDv0YLeAO/Sgt8A79OC4ADv1ILhAO/VguIA79aC4wDv14LkAO/YguUA79mC5gDv2oLnAO/bgugA79yC6QDv3YLqAO/egusA79+C7ADv4ILtAO/hgu4A7+KC7wDv44LwAO/kgvEA7+WC8gDv5oLzAO/ngvQA7+iC9QDv6YL2AO/qgvcA7+uC+ADv7IL5AO/tgvoA7+6C+wDv74L8AO/wgv0A7/GC/gDv8oNAAO/zg0EA7/SDQgDv9YNDAO/2g0QA7/eDRQDv+INGAO/5g0cA7/qDSADv+4NJAO/8g0oA7/2DSwDv/oNMAO//g00A8ACDTgDwAYNPAPACg1AA8AODUQDwBINSAPAFg1MA8AaDVADwB4NVAPAIg1YA8AmDVwDwCoNYAPALg1kA8AyDWgDwDYNbAPAOg1wA8A+DXQDwEINeAPARg18A8BKDYADwE4NhAPAUg2IA8BWDYwDwFoNkAPAXg2UA8BiDZgDwGYNnAPAag2gA8BuDaQDwHINqAPAdg2sA8B6DbADwH4NtAPAgg24A8CGDbwDwIoNwAPAjg3EA8CSDcgDwJYNzAPAmg3QA8CeDdQDwKIN2APApg3cA8CqDeADwK4N5APAsg3oA8C2DewDwLoN8APAvg30A8DCDfgDwMYOhAPAyg6IA8DODowDwNIOkAPA1g6UA8DaDpgDwN4OnAPA4g6gA8DmDqQDwOoOqAPA7g6sA8DyDrADwPYOtAPA+g64A8D+DrwDwQIOwAPBBg7EA8EKDsgDwQ4OzAPBEg7QA8EWDtQDwRoO2APBHg7cA8EiDuADwSYO5APBKg7oA8EuDuwDwTIO8APBNg70A8E6DvgDwT4O/APBQg8AA8FGDwQDwUoPCAPBTg8MA8FSDxADwVYPFAPBWg8YA8FeDxwDwWIPIAPBZg8kA8FqDygDwW4PLAPBcg8wA8F2DzQDwXoPOAPBfg88A8GCD0ADwYYPRAPBig9IA8GOD0wDwZIPUAPBlg9UA8GaD1gDwZ4PXAPBog9gA8GmD2QDwaoPaAPBrg9sA8GyD3ADwbYPdAPBug94A8G+D3wDwcIPgAPBxg+EA8HKD4gDwc4PjAPB0g+QA8HWD5QDwdoPmAPB3g+cA8HiD6ADweYPpAPB6g+oA8HuD6wDwfIPsAPB9g+0A8H6D7gDwf4PvAPCAg/AA8IGD8QDwgoPyAPCDg/MA8ISD9ADwhYP1APCGg/YA8IeD9wDwiIP4APCJg/kA8IqD+gDwi4P7APCMg/wA8I2D/QDwjoP+APCPhEAA8JCEQQDwkYRCAPCShEMA8JOERADwlIRFAPCVhEYA8JaERwDwl4RIAPCYhEkA8JmESgDwmoRLAPCbhEwA8JyETQDwnYROAPCehE8A8J+EUADwoIRRAPChhFIA8KKEUwDwo4RUAPCkhFUA8KWEVgDwpoRXAPCnhFgA8KiEWQDwqYRaAPCqhFsA8KuEXADwrIRdAPCthF4A8K6EXwDwr4RgAPCwhGEA8LGEYgDwsoRjAPCzhGQA8LSEZQDwtYRmAPC2hGcA8LeEaADwuIRpAPC5hGoA8LqEawDwu4RsAPC8hG0A8L2EbgDwvoRvAPC/hHAA8MCEcQDwwYRyAPDChHMA8MOEdADwxIR1APDFhHYA8MaEdwDwx4R4APDIhHkA8MmEegDwyoR7APDLhHwA8MyEfQDwzYR+APDOhKEA8M+EogDw0ISjAPDRhKQA8NKEpQDw04SmAPDUhKcA8NWEqADw1oSpAPDXhKoA8NiEqwDw2YSsAPDahK0A8NuErgDw3ISvAPDdhLAA8N6EsQDw34SyAPDghLMA8OGEtADw4oS1APDjhLYA8OSEtwDw5YS4APDmhLkA8OeEugDw6IS7APDphLwA8OqEvQDw64S+APDshL8A8O2EwADw7oTBAPDvhMIA8PCEwwDw8YTEAPDyhMUA8POExgDw9ITHAPD1hMgA8PaEyQDw94TKAPD4hMsA8PmEzADw+oTNAPD7hM4A8PyEzwDw/YTQAPD+hNEA8P+E0gDxAITTAPEBhNQA8QKE1QDxA4TWAPEEhNcA8QWE2ADxBoTZAPEHhNoA8QiE2wDxCYTcAPEKhN0A8QuE3gDxDITfAPENhOAA8Q6E4QDxD4TiAPEQhOMA8RGE5ADxEoTlAPEThOYA8RSE5wDxFYToAPEWhOkA8ReE6gDxGITrAPEZhOwA8RqE7QDxG4TuAPEchO8A8R2E8ADxHoTxAPEfhPIA8SCE8wDxIYT0APEihPUA8SOE9gDxJIT3APElhPgA8SaE+QDxJ4T6APEohPsA8SmE/ADxKoT9APErhP4A8SyFQADxLYVBAPEuhUIA8S+FQwDxMIVEAPExhUUA8TKFRgDxM4VHAPE0hUgA8TWFSQDxNoVKAPE3hUsA8TiFTADxOYVNAPE6hU4A8TuFTwDxPIVQAPE9hVEA8T6FUgDxP4VTAPFAhVQA8UGFVQDxQoVWAPFDhVcA8USFWADxRYVZAPFGhVoA8UeFWwDxSIVcAPFJhV0A8UqFXgDxS4VfAPFMhWAA8U2FYQDxToViAPFPhWMA8VCFZADxUYVlAPFShWYA8VOFZwDxVIVoAPFVhWkA8VaFagDxV4VrAPFYhWwA8VmFbQDxWoVuAPFbhW8A8VyFcADxXYVxAPFehXIA8V+FcwDxYIV0APFhhXUA8WKFdgDxY4V3APFkhXgA8WWFeQDxZoV6APFnhXsA8WiFfADxaYV9APFqhX4A8WuFoQDxbIWiAPFthaMA8W6FpADxb4WlAPFwhaYA8XGFpwDxcoWoAPFzhakA8XSFqgDxdYWrAPF2hawA8XeFrQDxeIWuAPF5ha8A8XqFsADxe4WxAPF8hbIA8X2FswDxfoW0APF/hbUA8YCFtgDxgYW3APGChbgA8YOFuQDxhIW6APGFhbsA8YaFvADxh4W9APGIhb4A8YmFvwDxioXAAPGLhcEA8YyFwgDxjYXDAPGOhcQA8Y+FxQDxkIXGAPGRhccA8ZKFyADxk4XJAPGUhcoA8ZWFywDxloXMAPGXhc0A8ZiFzgDxmYXPAPGahdAA8ZuF0QDxnIXSAPGdhdMA8Z6F1ADxn4XVAPGghdYA8aGF1wDxooXYAPGjhdkA8aSF2gDxpYXbAPGmhdwA8aeF3QDxqIXeAPGphd8A8aqF4ADxq4XhAPGsheIA8a2F4wDxroXkAPGvheUA8bCF5gDxsYXnAPGyhegA8bOF6QDxtIXqAPG1hesA8baF7ADxt4XtAPG4he4A8bmF7wDxuoXwAPG7hfEA8byF8gDxvYXzAPG+hfQA8b+F9QDxwIX2APHBhfcA8cKF+ADxw4X5APHEhfoA8cWF+wDxxoX8APHHhf0A8ciF/gDxyYZAAPHKhkEA8cuGQgDxzIZDAPHNhkQA8c6GRQDxz4ZGAPHQhkcA8dGGSADx0oZJAPHThkoA8dSGSwDx1YZMAPHWhk0A8deGTgDx2IZPAPHZhlAA8dqGUQDx24ZSAPHchlMA8d2GVADx3oZVAPHfhlYA8eCGVwDx4YZYAPHihlkA8eOGWgDx5IZbAPHlhlwA8eaGXQDx54ZeAPHohl8A8emGYADx6oZhAPHrhmIA8eyGYwDx7YZkAPHuhmUA8e+GZgDx8IZnAPHxhmgA8fKGaQDx84ZqAPH0hmsA8fWGbADx9oZtAPH3hm4A8fiGbwDx+YZwAPH6hnEA8fuGcgDx/IZzAPH9hnQA8f6GdQDx/4Z2APIAhncA8gGGeADyAoZ5APIDhnoA8gSGewDyBYZ8APIGhn0A8geGfgDyCIahAPIJhqIA8gqGowDyC4akAPIMhqUA8g2GpgDyDoanAPIPhqgA8hCGqQDyEYaqAPIShqsA8hOGrADyFIatAPIVhq4A8haGrwDyF4awAPIYhrEA8hmGsgDyGoazAPIbhrQA8hyGtQDyHYa2APIehrcA8h+GuADyIIa5APIhhroA8iKGuwDyI4a8APIkhr0A8iWGvgDyJoa/APInhsAA8iiGwQDyKYbCAPIqhsMA8iuGxADyLIbFAPIthsYA8i6GxwDyL4bIAPIwhskA8jGGygDyMobLAPIzhswA8jSGzQDyNYbOAPI2hs8A8jeG0ADyOIbRAPI5htIA8jqG0wDyO4bUAPI8htUA8j2G1gDyPobXAPI/htgA8kCG2QDyQYbaAPJChtsA8kOG3ADyRIbdAPJFht4A8kaG3wDyR4bgAPJIhuEA8kmG4gDySobjAPJLhuQA8kyG5QDyTYbmAPJOhucA8k+G6ADyUIbpAPJRhuoA8lKG6wDyU4bsAPJUhu0A8lWG7gDyVobvAPJXhvAA8liG8QDyWYbyAPJahvMA8luG9ADyXIb1APJdhvYA8l6G9wDyX4b4APJghvkA8mGG+gDyYob7APJjhvwA8mSG/QDyZYb+APJmh0AA8meHQQDyaIdCAPJph0MA8mqHRADya4dFAPJsh0YA8m2HRwDybodIAPJvh0kA8nCHSgDycYdLAPJyh0wA8nOHTQDydIdOAPJ1h08A8naHUADyd4dRAPJ4h1IA8nmHUwDyeodUAPJ7h1UA8nyHVgDyfYdXAPJ+h1gA8n+HWQDygIdaAPKBh1sA8oKHXADyg4ddAPKEh14A8oWHXwDyhodgAPKHh2EA8oiHYgDyiYdjAPKKh2QA8ouHZQDyjIdmAPKNh2cA8o6HaADyj4dpAPKQh2oA8pGHawDykodsAPKTh20A8pSHbgDylYdvAPKWh3AA8peHcQDymIdyAPKZh3MA8pqHdADym4d1APKch3YA8p2HdwDynod4APKfh3kA8qCHegDyoYd7APKih3wA8qOHfQDypId+APKlh6EA8qaHogDyp4ejAPKoh6QA8qmHpQDyqoemAPKrh6cA8qyHqADyrYepAPKuh6oA8q+HqwDysIesAPKxh60A8rKHrgDys4evAPK0h7AA8rWHsQDytoeyAPK3h7MA8riHtADyuYe1APK6h7YA8ruHtwDyvIe4APK9h7kA8r6HugDyv4e7APLAh7wA8sGHvQDywoe+APLDh78A8sSHwADyxYfBAPLGh8IA8seHwwDyyIfEAPLJh8UA8sqHxgDyy4fHAPLMh8gA8s2HyQDyzofKAPLPh8sA8tCHzADy0YfNAPLSh84A8tOHzwDy1IfQAPLVh9EA8taH0gDy14fTAPLYh9QA8tmH1QDy2ofWAPLbh9cA8tyH2ADy3YfZAPLeh9oA8t+H2wDy4IfcAPLhh90A8uKH3gDy44ffAPLkh+AA8uWH4QDy5ofiAPLnh+MA8uiH5ADy6YflAPLqh+YA8uuH5wDy7IfoAPLth+kA8u6H6gDy74frAPLwh+wA8vGH7QDy8ofuAPLzh+8A8vSH8ADy9YfxAPL2h/IA8veH8wDy+If0APL5h/UA8vqH9gDy+4f3APL8h/gA8v2H+QDy/of6APL/h/sA8wCH/ADzAYf9APMCh/4A8wOIQADzBIhBAPMFiEIA8waIQwDzB4hEAPMIiEUA8wmIRgDzCohHAPMLiEgA8wyISQDzDYhKAPMOiEsA8w+ITADzEIhNAPMRiE4A8xKITwDzE4hQAPMUiFEA8xWIUgDzFohTAPMXiFQA8xiIVQDzGYhWAPMaiFcA8xuIWADzHIhZAPMdiFoA8x6IWwDzH4hcAPMgiF0A8yGIXgDzIohfAPMjiGAA8ySIYQDzJYhiAPMmiGMA8yeIZADzKIhlAPMpiGYA8yqIZwDzK4hoAPMsiGkA8y2IagDzLohrAPMviGwA8zCIbQDzMYhuAPMyiG8A8zOIcADzNIhxAPM1iHIA8zaIcwDzN4h0APM4iHUA8zmIdgDzOoh3APM7iHgA8zyIeQDzPYh6APM+iHsA8z+IfADzQIh9APNBiH4A80KIoQDzQ4iiAPNEiKMA80WIpADzRoilAPNHiKYA80iIpwDzSYioAPNKiKkA80uIqgDzTIirAPNNiKwA806IrQDzT4iuAPNQiK8A81GIsADzUoixAPNTiLIA81SIswDzVYi0APNWiLUA81eItgDzWIi3APNZiLgA81qIuQDzW4i6APNciLsA812IvADzXoi9APNfiL4A82CIvwDzYYjAAPNiiMEA82OIwgDzZIjDAPNliMQA82aIxQDzZ4jGAPNoiMcA82mIyADzaojJAPNriMoA82yIywDzbYjMAPNuiM0A82+IzgDzcIjPAPNxiNAA83KI0QDzc4jSAPN0iNMA83WI1ADzdojVAPN3iNYA83iI1wDzeYjYAPN6iNkA83uI2gDzfIjbAPN9iNwA836I3QDzf4jeAPOAiN8A84GI4ADzgojhAPODiOIA84SI4wDzhYjkAPOGiOUA84eI5gDziIjnAPOJiOgA84qI6QDzi4jqAPOMiOsA842I7ADzjojtAPOPiO4A85CI7wDzkYjwAPOSiPEA85OI8gDzlIjzAPOViPQA85aI9QDzl4j2APOYiPcA85mI+ADzmoj5APObiPoA85yI+wDznYj8APOeiP0A85+I/gDzoIlAAPOhiUEA86KJQgDzo4lDAPOkiUQA86WJRQDzpolGAPOniUcA86iJSADzqYlJAPOqiUoA86uJSwDzrIlMAPOtiU0A866JTgDzr4lPAPOwiVAA87GJUQDzsolSAPOziVMA87SJVADztYlVAPO2iVYA87eJVwDzuIlYAPO5iVkA87qJWgDzu4lbAPO8iVwA872JXQDzvoleAPO/iV8A88CJYADzwYlhAPPCiWIA88OJYwDzxIlkAPPFiWUA88aJZgDzx4lnAPPIiWgA88mJaQDzyolqAPPLiWsA88yJbADzzYltAPPOiW4A88+JbwDz0IlwAPPRiXEA89KJcgDz04lzAPPUiXQA89WJdQDz1ol2APPXiXcA89iJeADz2Yl5APPaiXoA89uJewDz3Il8APPdiX0A896JfgDz34mhAPPgiaIA8+GJowDz4omkAPPjiaUA8+SJpgDz5YmnAPPmiagA8+eJqQDz6ImqAPPpiasA8+qJrADz64mtAPPsia4A8+2JrwDz7omwAPPvibEA8/CJsgDz8YmzAPPyibQA8/OJtQDz9Im2APP1ibcA8/aJuADz94m5APP4iboA8/mJuwDz+om8APP7ib0A8/yJvgDz/Ym/APP+icAA8/+JwQD0AInCAPQBicMA9AKJxAD0A4nFAPQEicYA9AWJxwD0BonIAPQHickA9AiJygD0CYnLAPQKicwA9AuJzQD0DInOAPQNic8A9A6J0AD0D4nRAPQQidIA9BGJ0wD0EonUAPQTidUA9BSJ1gD0FYnXAPQWidgA9BeJ2QD0GInaAPQZidsA9BqJ3AD0G4ndAPQcid4A9B2J3wD0HongAPQfieEA9CCJ4gD0IYnjAPQiieQA9COJ5QD0JInmAPQliecA9CaJ6AD0J4npAPQoieoA9CmJ6wD0KonsAPQrie0A9CyJ7gD0LYnvAPQuifAA9C+J8QD0MInyAPQxifMA9DKJ9AD0M4n1APQ0ifYA9DWJ9wD0Non4APQ3ifkA9DiJ+gD0OYn7APQ6ifwA9DuJ/QD0PIn+APQ9ikAA9D6KQQD0P4pCAPRAikMA9EGKRAD0QopFAPRDikYA9ESKRwD0RYpIAPRGikkA9EeKSgD0SIpLAPRJikwA9EqKTQD0S4pOAPRMik8A9E2KUAD0TopRAPRPilIA9FCKUwD0UYpUAPRSilUA9FOKVgD0VIpXAPRVilgA9FaKWQD0V4paAPRYilsA9FmKXAD0WopdAPRbil4A9FyKXwD0XYpgAPReimEA9F+KYgD0YIpjAPRhimQA9GKKZQD0Y4pmAPRkimcA9GWKaAD0ZoppAPRnimoA9GiKawD0aYpsAPRqim0A9GuKbgD0bIpvAPRtinAA9G6KcQD0b4pyAPRwinMA9HGKdAD0cop1APRzinYA9HSKdwD0dYp4APR2inkA9HeKegD0eIp7APR5inwA9HqKfQD0e4p+APR8iqEA9H2KogD0foqjAPR/iqQA9ICKpQD0gYqmAPSCiqcA9IOKqAD0hIqpAPSFiqoA9IaKqwD0h4qsAPSIiq0A9ImKrgD0ioqvAPSLirAA9IyKsQD0jYqyAPSOirMA9I+KtAD0kIq1APSRirYA9JKKtwD0k4q4APSUirkA9JWKugD0loq7APSXirwA9JiKvQD0mYq+APSair8A9JuKwAD0nIrBAPSdisIA9J6KwwD0n4rEAPSgisUA9KGKxgD0oorHAPSjisgA9KSKyQD0pYrKAPSmissA9KeKzAD0qIrNAPSpis4A9KqKzwD0q4rQAPSsitEA9K2K0gD0rorTAPSvitQA9LCK1QD0sYrWAPSyitcA9LOK2AD0tIrZAPS1itoA9LaK2wD0t4rcAPS4it0A9LmK3gD0uorfAPS7iuAA9LyK4QD0vYriAPS+iuMA9L+K5AD0wIrlAPTBiuYA9MKK5wD0w4roAPTEiukA9MWK6gD0xorrAPTHiuwA9MiK7QD0yYruAPTKiu8A9MuK8AD0zIrxAPTNivIA9M6K8wD0z4r0APTQivUA9NGK9gD00or3APTTivgA9NSK+QD01Yr6APTWivsA9NeK/AD02Ir9APTZiv4A9NqLQAD024tBAPTci0IA9N2LQwD03otEAPTfi0UA9OCLRgD04YtHAPTii0gA9OOLSQD05ItKAPTli0sA9OaLTAD054tNAPToi04A9OmLTwD06otQAPTri1EA9OyLUgD07YtTAPTui1QA9O+LVQD08ItWAPTxi1cA9PKLWAD084tZAPT0i1oA9PWLWwD09otcAPT3i10A9PiLXgD0+YtfAPT6i2AA9PuLYQD0/ItiAPT9i2MA9P6LZAD0/4tlAPUAi2YA9QGLZwD1AotoAPUDi2kA9QSLagD1BYtrAPUGi2wA9QeLbQD1CItuAPUJi28A9QqLcAD1C4txAPUMi3IA9Q2LcwD1Dot0APUPi3UA9RCLdgD1EYt3APUSi3gA9ROLeQD1FIt6APUVi3sA9RaLfAD1F4t9APUYi34A9RmLoQD1GouiAPUbi6MA9RyLpAD1HYulAPUei6YA9R+LpwD1IIuoAPUhi6kA9SKLqgD1I4urAPUki6wA9SWLrQD1JouuAPUni68A9SiLsAD1KYuxAPUqi7IA9SuLswD1LIu0APUti7UA9S6LtgD1L4u3APUwi7gA9TGLuQD1Mou6APUzi7sA9TSLvAD1NYu9APU2i74A9TeLvwD1OIvAAPU5i8EA9TqLwgD1O4vDAPU8i8QA9T2LxQD1PovGAPU/i8cA9UCLyAD1QYvJAPVCi8oA9UOLywD1RIvMAPVFi80A9UaLzgD1R4vPAPVIi9AA9UmL0QD1SovSAPVLi9MA9UyL1AD1TYvVAPVOi9YA9U+L1wD1UIvYAPVRi9kA9VKL2gD1U4vbAPVUi9wA9VWL3QD1VoveAPVXi98A9ViL4AD1WYvhAPVai+IA9VuL4wD1XIvkAPVdi+UA9V6L5gD1X4vnAPVgi+gA9WGL6QD1YovqAPVji+sA9WSL7AD1ZYvtAPVmi+4A9WeL7wD1aIvwAPVpi/EA9WqL8gD1a4vzAPVsi/QA9W2L9QD1bov2APVvi/cA9XCL+AD1cYv5APVyi/oA9XOL+wD1dIv8APV1i/0A9XaL/gD1d4xAAPV4jEEA9XmMQgD1eoxDAPV7jEQA9XyMRQD1fYxGAPV+jEcA9X+MSAD1gIxJAPWBjEoA9YKMSwD1g4xMAPWEjE0A9YWMTgD1hoxPAPWHjFAA9YiMUQD1iYxSAPWKjFMA9YuMVAD1jIxVAPWNjFYA9Y6MVwD1j4xYAPWQjFkA9ZGMWgD1koxbAPWTjFwA9ZSMXQD1lYxeAPWWjF8A9ZeMYAD1mIxhAPWZjGIA9ZqMYwD1m4xkAPWcjGUA9Z2MZgD1noxnAPWfjGgA9aCMaQD1oYxqAPWijGsA9aOMbAD1pIxtAPWljG4A9aaMbwD1p4xwAPWojHEA9amMcgD1qoxzAPWrjHQA9ayMdQD1rYx2APWujHcA9a+MeAD1sIx5APWxjHoA9bKMewD1s4x8APW0jH0A9bWMfgD1toyhAPW3jKIA9biMowD1uYykAPW6jKUA9buMpgD1vIynAPW9jKgA9b6MqQD1v4yqAPXAjKsA9cGMrAD1woytAPXDjK4A9cSMrwD1xYywAPXGjLEA9ceMsgD1yIyzAPXJjLQA9cqMtQD1y4y2APXMjLcA9c2MuAD1zoy5APXPjLoA9dCMuwD10Yy8APXSjL0A9dOMvgD11Iy/APXVjMAA9daMwQD114zCAPXYjMMA9dmMxAD12ozFAPXbjMYA9dyMxwD13YzIAPXejMkA9d+MygD14IzLAPXhjMwA9eKMzQD144zOAPXkjM8A9eWM0AD15ozRAPXnjNIA9eiM0wD16YzUAPXqjNUA9euM1gD17IzXAPXtjNgA9e6M2QD174zaAPXwjNsA9fGM3AD18ozdAPXzjN4A9fSM3wD19YzgAPX2jOEA9feM4gD1+IzjAPX5jOQA9fqM5QD1+4zmAPX8jOcA9f2M6AD1/ozpAPX/jOoA9gCM6wD2AYzsAPYCjO0A9gOM7gD2BIzvAPYFjPAA9gaM8QD2B4zyAPYIjPMA9gmM9AD2Coz1APYLjPYA9gyM9wD2DYz4APYOjPkA9g+M+gD2EIz7APYRjPwA9hKM/QD2E4z+APYUjUAA9hWNQQD2Fo1CAPYXjUMA9hiNRAD2GY1FAPYajUYA9huNRwD2HI1IAPYdjUkA9h6NSgD2H41LAPYgjUwA9iGNTQD2Io1OAPYjjU8A9iSNUAD2JY1RAPYmjVIA9ieNUwD2KI1UAPYpjVUA9iqNVgD2K41XAPYsjVgA9i2NWQD2Lo1aAPYvjVsA9jCNXAD2MY1dAPYyjV4A9jONXwD2NI1gAPY1jWEA9jaNYgD2N41jAPY4jWQA9jmNZQD2Oo1mAPY7jWcA9jyNaAD2PY1pAPY+jWoA9j+NawD2QI1sAPZBjW0A9kKNbgD2Q41vAPZEjXAA9kWNcQD2Ro1yAPZHjXMA9kiNdAD2SY11APZKjXYA9kuNdwD2TI14APZNjXkA9k6NegD2T417APZQjXwA9lGNfQD2Uo1+APZTjaEA9lSNogD2VY2jAPZWjaQA9leNpQD2WI2mAPZZjacA9lqNqAD2W42pAPZcjaoA9l2NqwD2Xo2sAPZfja0A9mCNrgD2YY2vAPZijbAA9mONsQD2ZI2yAPZljbMA9maNtAD2Z421APZojbYA9mmNtwD2ao24APZrjbkA9myNugD2bY27APZujbwA9m+NvQD2cI2+APZxjb8A9nKNwAD2c43BAPZ0jcIA9nWNwwD2do3EAPZ3jcUA9niNxgD2eY3HAPZ6jcgA9nuNyQD2fI3KAPZ9jcsA9n6NzAD2f43NAPaAjc4A9oGNzwD2go3QAPaDjdEA9oSN0gD2hY3TAPaGjdQA9oeN1QD2iI3WAPaJjdcA9oqN2AD2i43ZAPaMjdoA9o2N2wD2jo3cAPaPjd0A9pCN3gD2kY3fAPaSjeAA9pON4QD2lI3iAPaVjeMA9paN5AD2l43lAPaYjeYA9pmN5wD2mo3oAPabjekA9pyN6gD2nY3rAPaejewA9p+N7QD2oI3uAPahje8A9qKN8AD2o43xAPakjfIA9qWN8wD2po30APanjfUA9qiN9gD2qY33APaqjfgA9quN+QD2rI36APatjfsA9q6N/AD2r439APawjf4A+gzJSgD6Dd38AP4woUoA/jGhVwD+M6FZAP40oVsA/jWhXwD+NqFgAP43oWMA/jihZAD+OaFnAP46oWgA/juhawD+PKFsAP49oW8A/j6hcAD+P6FzAP5AoXQA/kGhdwD+QqF4AP5DoXsA/kShfAD+SaHGAP5KoccA/kuhygD+TKHLAP5NocgA/k6hyQD+T6FcAP5QoU0A/lGhTgD+UqFPAP5UoVEA/lWhUgD+VqFTAP5XoVQA/lmhfQD+WqF+AP5boaEA/lyhogD+XaGjAP5eoaQA/l+hzAD+YKHNAP5hoc4A/mKh3gD+Y6HfAP5koeAA/mWh4QD+ZqHiAP5ookIA/mmiTAD+aqJNAP5rok4A/wGhSQD/A6GtAP8EokMA/wWiSAD/BqGuAP8IoV0A/wmhXgD/CqGvAP8Loc8A/wyhQQD/DaHQAP8OoUQA/w+h/gD/EKKvAP8RorAA/xKisQD/E6KyAP8UorMA/xWitAD/FqK1AP8XorYA/xiitwD/GaK4AP8aoUcA/xuhRgD/HKHVAP8dodcA/x6h1gD/H6FIAP8gokkA/yGizwD/IqLQAP8jotEA/ySi0gD/JaLTAP8motQA/yei1QD/KKLWAP8potcA/yqi2AD/K6LZAP8sotoA/y2i2wD/LqLcAP8vot0A/zCi3gD/MaLfAP8youAA/zOi4QD/NKLiAP81ouMA/zai5AD/N6LlAP84ouYA/zmi5wD/OqLoAP87xuQA/zyiQAD/PcblAP8+xtkA/z+hxAD/QaLpAP9CouoA/0Oi6wD/RKLsAP9Fou0A/0ai7gD/R6LvAP9IovAA/0mi8QD/SqLyAP9LovMA/0yi9AD/TaL1AP9OovYA/0+i9wD/UKL4AP9RovkA/1Ki+gD/U6L7AP9UovwA/1Wi/QD/VqL+AP9Xo0AA/1ijQQD/WaNCAP9ao0MA/1uhYQD/XKFVAP9doWIA/16h4wD/4KJGAP/hokcA/+OhwwD/5aJE";
+export const BIG5_COUNT = 19578;
@@ -1,2 +1,6 @@
+// Generated by scripts/generate-big5-data.ts from data/cp950-u2b.txt. Do not edit.
+export const BIG5_SOURCE = "moztw.org (CP950)";
+export const BIG5_SOURCE_URL = "https://moztw.org/docs/big5/table/cp950-u2b.txt";
+export const BIG5_CHECKSUM = "4c8b9caaf392b1ca32e790ba100d86e3aa7842892e59ebc3abbdfe241f186fb7";
 export const BIG5_DATA = "AAChACEAAKKiRgAAo6JHAAClokQAAKYAfAAAp6GxAACooUwAAKkAYwAAqgBhAACtAC0AAK4AUgAAr6HCAACwolgAALGh0wAAsgAyAACzADMAALShpgAAtaNnAAC3oVAAALihTQAAuQAxAAC6AG8AAL8APwAAwABBAADBAEEAAMIAQQAAwwBBAADEAEEAAMUAQQAAxgBBAADHAEMAAMgARQAAyQBFAADKAEUAAMsARQAAzABJAADNAEkAAM4ASQAAzwBJAADQAEQAANEATgAA0gBPAADTAE8AANQATwAA1QBPAADWAE8AANeh0QAA2ABPAADZAFUAANoAVQAA2wBVAADcAFUAAN0AWQAA3gBUAADfAHMAAOAAYQAA4QBhAADiAGEAAOMAYQAA5ABhAADlAGEAAOYAYQAA5wBjAADoAGUAAOkAZQAA6gBlAADrAGUAAOwAaQAA7QBpAADuAGkAAO8AaQAA8ABlAADxAG4AAPIAbwAA8wBvAAD0AG8AAPUAbwAA9gBvAAD3odIAAPgAbwAA+QB1AAD6AHUAAPsAdQAA/AB1AAD9AHkAAP4AdAAA/wB5AALHo74AAsmjvAACyqO9AALLo78AAs2hxQAC2aO7AAMFocIAA5GjRAADkqNFAAOTo0YAA5SjRwADlaNIAAOWo0kAA5ejSgADmKNLAAOZo0wAA5qjTQADm6NOAAOco08AA52jUAADnqNRAAOfo1IAA6CjUwADoaNUAAOjo1UAA6SjVgADpaNXAAOmo1gAA6ejWQADqKNaAAOpo1sAA7GjXAADsqNdAAOzo14AA7SjXwADtaNgAAO2o2EAA7ejYgADuKNjAAO5o2QAA7qjZQADu6NmAAO8o2cAA72jaAADvqNpAAO/o2oAA8CjawADwaNsAAPDo20AA8SjbgADxaNvAAPGo3AAA8ejcQADyKNyAAPJo3MAIBOhVgAgFKFYACAVoncAIBah/AAgGKGlACAZoaYAIByhpwAgHaGoACAioUUAICSjuwAgJaFMACAmoUsAICehRQAgMqGsACAzobIAIDWhqwAgO6GwACA+ocMAIKyj4QAhA6JKACEFocEAIQmiSwAhYKK5ACFhoroAIWKiuwAhY6K8ACFkor0AIWWivgAhZqK/ACFnosAAIWiiwQAhaaLCACGQofYAIZGh9AAhkqH3ACGTofUAIZah+AAhl6H5ACGYofsAIZmh+gAiFaJBACIWokIAIhiiWAAiGqHUACIeodsAIh+h6AAiIKHnACIjof0AIiWh/AAiKaHkACIqoeUAIiuh7AAiLqHtACI0oe8AIjWh7gAiUqHcACJgodoAImGh3QAiY6HdACJmodgAImeh2QAilaHyACKZofMAIqWh5gAiv6HpACMHoVsAJQCidwAlAqJ4ACUMonoAJRCiewAlFKJ8ACUYon0AJRyidQAlJKJ0ACUsonMAJTSicgAlPKJxACVQ+fkAJVH5+AAlUvnmACVT+e8AJVT53QAlVfnoACVW+fEAJVf53wAlWPnsACVZ+fUAJVr54wAlW/nuACVc+fcAJV355QAlXvnpACVf+fIAJWD54AAlYfnrACVi+fQAJWP54gAlZPnnACVl+fAAJWb53gAlZ/ntACVo+fYAJWn55AAlavnqACVr+fMAJWz54QAlbaJ+ACVuoqEAJW+iowAlcKKiACVxoqwAJXKirQAlc6KuACV0oVoAJYGiYgAlgqJjACWDomQAJYSiZQAlhaJmACWGomcAJYeiaAAliKJpACWJonAAJYqibwAli6JuACWMom0AJY2ibAAljqJrACWPomoAJZP5/gAllKJ2ACWVonkAJaChvQAloaG8ACWyobYAJbOhtQAlvKG/ACW9ob4AJcahuwAlx6G6ACXLobMAJc6htwAlz6G0ACXioqgAJeOiqQAl5KKrACXloqoAJgWhuQAmBqG4ACYJofMAJkCh8AAmQaHyACZCofEAMAChQAAwAaFCADACoUMAMAOhsgAwCKFxADAJoXIAMAqhbQAwC6FuADAMoXUAMA2hdgAwDqF5ADAPoXoAMBChaQAwEaFqADASokUAMBShZQAwFaFmADAcoeMAMB2hqQAwHqGqADAhosMAMCKixAAwI6LFADAkosYAMCWixwAwJqLIADAnoskAMCiiygAwKaLLADAwocoAMQWjdAAxBqN1ADEHo3YAMQijdwAxCaN4ADEKo3kAMQujegAxDKN7ADENo3wAMQ6jfQAxD6N+ADEQo6EAMRGjogAxEqOjADETo6QAMRSjpQAxFaOmADEWo6cAMRejqAAxGKOpADEZo6oAMRqjqwAxG6OsADEco60AMR2jrgAxHqOvADEfo7AAMSCjsQAxIaOyADEio7MAMSOjtAAxJKO1ADElo7YAMSajtwAxJ6O4ADEoo7kAMSmjugAxkqRAADGTpEcAMZSkVAAxlaV8ADGWpFcAMZekpAAxmKRVADGZpdIAMZqkQQAxm6T+ADGcpEIAMZ2k0QAxnqZhADGfpEgAMiCkQAAyIaRHADIipFQAMiOlfAAyJKStADIlpLsAMiakQwAyJ6RLADIopEUAMimkUQAyKqTrADIrpPUAMiyk9AAyLaTsADIuqvcAMi+kZwAyMKTpADIxrugAMjKmswAyM6rAADI0plcAMjWvUwAyNrBdADI3r6wAMjiz0gAyOaVOADI6qUkAMju+xwAyPLrKADI9pfgAMj646gAyP6jzADJAsr0AMkGl8AAyQqbbADJDptwAMoCkQAAygaRHADKCpFQAMoOlfAAyhKStADKFpLsAMoakQwAyh6RLADKIpEUAMomkUQAyiqTrADKLpPUAMoyk9AAyjaTsADKOqvcAMo+kZwAykKTpADKRrugAMpKmswAyk6rAADKUplcAMpWvUwAylrBdADKXr6wAMpiz0gAyma+1ADKaqGsAMpukawAynL5BADKdwHUAMp6mTAAyn6pgADKgtrUAMqGl8AAyorxnADKjocAAMqSkVwAypaSkADKmpFUAMqelqgAyqKVrADKpwuUAMqqpdgAyq77HADKsusoAMq2l+AAyrrjqADKvqPMAMrCpXQAzjqJVADOPolYAM5yiUAAznaJRADOeolIAM6GiVAAzxKJXADPOolMAM9Gh6wAz0qHqADPVok8ATgCkQABOAaRCAE4DpEMATgfJRQBOCKRWAE4JpFQATgqkVwBOC6RVAE4MyUYATg2kowBODslPAE4PyU0AThCkogBOEaShAE4UpUIAThWlQQBOFqVAAE4YpUMAThmk/gBOHqXgAE4fpeEATiaowwBOK6RYAE4tpKQATi7JUABOMKSlAE4xyWMATjKm6gBOM8uxAE44pFkATjmkpgBOO6VEAE48yWQATkLJQABOQ6REAE5FpFsATkfJRwBOSKRcAE5LpKcATk2lRQBOTqVHAE5PpUYATlKl4gBOU6XjAE5WqMQATlitvABOWaRBAE5cyUEATl2kRQBOXqReAE5fpF0ATmml5ABOc6jFAE5+sK4ATn/USwBOgrbDAE6D3LEAToTcsgBOhqRGAE6IpKkATouoxgBOjKRHAE6NyUgATo6kXwBOkaSqAE6SpKwATpPJUQBOlKStAE6VpKsATpml5QBOm6jHAE6eqMgATp+rRQBOoaRgAE6ipK4ATqSl5gBOpaXoAE6mpecATqim6wBOq6jJAE6sqMoATq2rRgBOrqtHAE6zrb0ATrbcswBOufbWAE66pEgATsCksABOwaSvAE7CyVIATsOksQBOxKS3AE7GpLIATsekswBOyMlUAE7JyVMATsqktQBOy6S2AE7NpLQATtSlSgBO1aVLAE7WpUwATtelTQBO2KVJAE7ZpVAATtrJagBO3MlmAE7dyWkATt6lUQBO36VhAE7hyWgATuOlTgBO5KVPAE7lpUgATujJZQBO6clnAE7wpfUATvHJsABO8qXyAE7zpfYATvTJugBO9cmuAE72pfMATvfJsgBO+6X0AE79pfcATv+l6QBPAMmxAE8BpfgATwLJtQBPBMm5AE8FybYATwjJswBPCaXqAE8KpewATwul+QBPDaXuAE8OyasATw+l8QBPEKXvAE8RpfAATxLJuwBPE8m4AE8Uya8ATxWl7QBPGMmsAE8ZpesATx3JtABPIsm3AE8sya0ATy3KZgBPL6dCAE8wpvQATzPKZwBPNKbxAE82p0QATzim+QBPOqb4AE87ylsATzym/ABPPab3AE8+ymAATz/KaABPQcpkAE9DpvoAT0am/QBPR6buAE9Ip0cAT0nKXQBPTMu9AE9NpuwAT06nQwBPT6btAE9QpvUAT1Gm9gBPUspiAE9Tyl4AT1Sm+wBPVabzAE9WyloAT1em7wBPWMplAE9Zp0UAT1qnSABPW6byAE9cp0AAT12nRgBPXqbwAE9fymMAT2CnQQBPYcppAE9iylwAT2Om/gBPZMpfAE9nymEAT2mo2ABPasu/AE9ry8sAT2yo0ABPbsvMAE9vqMsAT3Co1QBPc6jOAE90y7kAT3Wo1gBPdsu4AE93y7wAT3jLwwBPecvBAE96qN4AT3uo2QBPfMuzAE99y7UAT36o2wBPf6jPAE+Ay7YAT4HLwgBPgsvJAE+DqNQAT4TLuwBPhcu0AE+GqNMAT4fLtwBPiKjXAE+Jy7oAT4uo0gBPjajNAE+PqNwAT5DLxABPkajdAE+Sy8gAT5TLxgBPlcvKAE+WqNoAT5fLvgBPmMuyAE+ay8AAT5uo0QBPnMvFAE+dqMwAT57LxwBPrqtWAE+vq0oAT7LN4ABPs83oAE+1q0kAT7arUQBPt6tdAE+5ze4AT7rN7ABPu83nAE+/q0sAT8DN7QBPwc3jAE/Cq1kAT8OrUABPxKtYAE/Fzd4AT8fN6gBPyc3hAE/Kq1QAT8vN4gBPzc3dAE/Oq1sAT8+rTgBP0KtXAE/Rq00AT9PN3wBP1M3kAE/WzesAT9erVQBP2KtSAE/ZzeYAT9qrWgBP283pAE/czeUAT92rTwBP3qtcAE/fq1MAT+CrTABP4atIAE/sze8AT+6t1wBP763BAE/xrdEAT/Ot1gBP9NDQAE/10M8AT/bQ1ABP99DVAE/4rcQAT/qtzQBP/q3aAFAArc4AUAXQyQBQBq3HAFAH0MoAUAmt3ABQC63TAFAMrb4AUA2tvwBQDtDdAFAPsL8AUBGtzABQEq3LAFAT0MsAUBStzwBQFdRbAFAWrcYAUBfQ1gBQGK3VAFAZrdQAUBqtygBQG9DOAFAc0NcAUB7QyABQH63JAFAg0NgAUCGt0gBQItDMAFAjrcAAUCWtwwBQJq3CAFAn0NkAUCit0ABQKa3FAFAqrdkAUCut2wBQLNDTAFAtrdgAUC/Q2wBQMNDNAFAx0NwAUDPQ0QBQNdDaAFA30NIAUDytyABQQNRjAFBB1FcAUEOwswBQRdRcAFBG1GIAUEewsgBQSNRVAFBJsLYAUErUWQBQS9RSAFBMsLQAUE3UVgBQTrC5AFBPsL4AUFHUZwBQU9RRAFBVsLoAUFfUZgBQWrC1AFBb1FgAUFywsQBQXdRTAFBe1E8AUF/UXQBQYNRQAFBh1E4AUGLUWgBQY9RgAFBk1GEAUGWwtwBQaNhbAFBp1F4AUGrUTQBQa9RfAFBtsMEAUG7UZABQb7DAAFBw1EwAUHLUVABQc9RlAFB0sLwAUHWwuwBQdrC4AFB3sL0AUHqwrwBQfbCwAFCAs8gAUILYXgBQg9hXAFCFs8UAUIfYXwBQi9hVAFCM2FgAUI2zxABQjthZAFCRs8cAUJLYXQBQlNhTAFCV2FIAUJazyQBQmLPKAFCZs8YAUJqzywBQm9hRAFCc2FwAUJ3YWgBQnthUAFCis8MAUKPYVgBQrLbKAFCttsQAUK7ctwBQr7bNAFCw3L0AULHcwABQsrbGAFCztscAULTcugBQtbbFAFC23MMAULe2ywBQuNzEAFC63L8AULu2zABQvdy0AFC+tskAUL/ctQBQwdy+AFDC3LwAUMTcuABQxbbIAFDG3LYAUMe2zgBQyNy7AFDJ3MIAUMrcuQBQy9zBAFDOubYAUM+5swBQ0bm0AFDT4PkAUNTg8QBQ1bmyAFDWua8AUNfg8gBQ2rmxAFDb4PUAUN3g9wBQ4OD+AFDj4P0AUOTg+ABQ5bmuAFDm4PAAUOe5rABQ6ODzAFDpubcAUOrg9gBQ7OD6AFDtubAAUO65rQBQ7+D8AFDw4PsAUPG5tQBQ8+D0AFD1u/gAUPbk7ABQ+OTpAFD5u/kAUPu79wBQ/eTwAFD+5O0AUP/k5gBRALv2AFECu/oAUQPk5wBRBLv1AFEFu/0AUQbk6gBRB+TrAFEIu/sAUQm7/ABRCuTxAFEL5O4AUQzk7wBREL6qAFER6PgAURK+pwBRE+j1AFEUvqkAURW+qwBRF+j2AFEYvqgAURro9wBRHOj0AFEfwHYAUSDsvQBRIcB3AFEi7LsAUSTsvABRJey6AFEm7LkAUSnsvgBRKsB1AFEt77gAUS7vuQBRMOToAFEx77cAUTLAeABRM8NfAFE08esAUTXx7ABRN8TXAFE4xNgAUTn1wQBROvXAAFE7xWwAUTzFawBRPffQAFE/pEkAUUCkYQBRQaS5AFFDpLgAUUSlUwBRRaVSAFFGpfwAUUel+wBRSKX9AFFJpfoAUUunSgBRTKdJAFFNp0sAUVKo4ABRVKjfAFFVqOEAUVerXgBRWaJZAFFa0N4AUVuiWgBRXLDCAFFdolwAUV6iWwBRX9hgAFFhol0AUWK5uABRY6JeAFFlpEoAUWekugBRaKX+AFFpqOIAUWukSwBRbKS9AFFtpLsAUW6kvABRcaZAAFF1p0wAUXao5ABRd6jjAFF4qOUAUXyt3QBRgL6sAFGHyU4AUYmlVABRiqVVAFGNpkEAUY/KagBRkatgAFGSq18AUZPQ4ABRlNDfAFGVsMMAUZekvgBRmMlVAFGey80AUaCrYQBRoq3gAFGkrd4AUaWt3wBRqr6tAFGspVYAUbCmQgBRscm8AFG2p00AUbenTgBRucprAFG8y84AUb2o5gBRvsvPAFHE0OIAUcXQ4wBRxq3jAFHI0OQAUcrQ4QBRy63kAFHMreIAUc2t4QBRztDlAFHQ1GgAUdTYYQBR19zFAFHY4UAAUdy7/gBR3b6uAFHe6PkAUeCkTABR4aRaAFHwsMQAUfGzzQBR87m5AFH1yUIAUfakvwBR+KVZAFH5pVcAUfqlWABR/ajnAFIApE0AUgGkTgBSA6RiAFIGpMAAUgekwQBSCKTCAFIJyb4AUgqlWgBSDMlrAFIOpkYAUhDJvwBSEaZEAFISpkUAUhPJvQBSFqZHAFIXpkMAUhzKbABSHarsAFIeym0AUiHKbgBSJKdQAFIlp08AUiinUwBSKadRAFIqp1IAUi6o7QBSMKjsAFIxy9QAUjLL0QBSM8vSAFI1y9AAUjao7gBSN6jqAFI4qOkAUjqo6wBSO6joAFJBqO8AUkOrYwBSRM3wAFJGy9MAUkeraABSSc3xAFJKq2QAUkurZwBSTKtmAFJNq2UAUk6rYgBSUtDoAFJUrecAUlXQ6wBSVq3lAFJa0OcAUlut6ABSXK3mAFJdrekAUl7Q6QBSX9DqAFJh0OYAUmLQ7ABSabPRAFJqsMUAUmvUaQBSbNRrAFJt1GoAUm7UbABSb7DGAFJys84AUnSzzwBSdbPQAFJ3ttAAUnjcxwBSetzGAFJ73MgAUnzcyQBSfbbRAFJ/ts8AUoDhQQBSgeFCAFKCubsAUoO5ugBShONaAFKHvEAAUoi8QQBSibxCAFKKvEQAUovk8gBSjOTzAFKNvEMAUpG+rwBSk76wAFKW8e0AUpf1wwBSmPXCAFKZ99EAUpukTwBSn6VcAFKgpVsAUqOmSABSpsnAAFKpp1UAUqqnVgBSq6dUAFKsp1cAUq3KbwBSrspwAFK7qPEAUrzL1QBSvqjwAFLAzfIAUsGrbABSws3zAFLDq2sAUseraQBSyatqAFLN0O0AUtKwxwBS09RuAFLVsMoAUtbUbQBS17HlAFLYsMkAUtmwyABS27PUAFLds9MAUt6z0gBS37bSAFLittUAUuO21gBS5LbUAFLmttMAUunhQwBS6+FEAFLv5PUAUvC8RQBS8eT0AFLzvrEAUvTsvwBS9cB5AFL38e4AUvjEVQBS+qRjAFL7pMMAUvzJVgBS/qTEAFL/pMUAUwWlXQBTBqVeAFMIpkkAUwnKcQBTCsvWAFMLy9cAUw2rbQBTDtDuAFMPsMwAUxCwywBTEdhjAFMS2GIAUxWkUABTFqTGAFMXpV8AUxmwzQBTGslDAFMcyWwAUx2lYABTH8nCAFMgpksAUyGmSgBTIsnBAFMjp1gAUyqt6gBTLdRvAFMvttcAUzDhRQBTMbm8AFM06PoAUzfz/QBTOaTHAFM8y9gAUz3N9ABTPrDQAFM/sM4AU0CwzwBTQaRRAFNDpGQAU0SizQBTRaTKAFNHpMkAU0ikyABTSaVjAFNKpWIAU0zJbQBTTcnDAFNRqPUAU1Ko8gBTU6j0AFNUqPMAU1erbgBTWrPVAFNcpFIAU16kywBTYKVlAFNhpWQAU2PKcgBTZqj2AFNsyVcAU26lZwBTb6VmAFNwpkwAU3GmTQBTcspzAFNzp1kAU3WnWgBTd6j3AFN4qPgAU3mo+QBTe6tvAFN8zfUAU3+t6wBTgslEAFOEpMwAU4rJxABTjsp0AFOPynUAU5LL2QBTlMvaAFOWzfcAU5fN9gBTmM35AFOZzfgAU5qrcABTnNRwAFOdre0AU57Q7wBTn63sAFOk2GQAU6Wz1gBTp9hlAFOs4UYAU625vQBTsrxGAFO08e8AU7nJWABTu6VoAFPDsNEAU8ikUwBTyaRlAFPKpM4AU8ukzQBTzaTPAFPUqPsAU9ao+gBT16j8AFPbq3EAU9+t7gBT4ej7AFPiwk8AU+OkZgBT5KVqAFPlpXkAU+aldABT6KVvAFPppW4AU+qldQBT66VzAFPspWwAU+2legBT7qVtAFPvpWkAU/CleABT8aV3AFPypXYAU/OlawBT9aVyAFP4pXEAU/ulewBT/KVwAFQBplMAVAOmWQBUBKZVAFQGplsAVAfJxQBUCKZYAFQJpk4AVAqmUQBUC6ZUAFQMplAAVA2mVwBUDqZaAFQPpk8AVBCmUgBUEaZWAFQSplwAVBjKfgBUGcp7AFQbp2cAVBzKfABUHadbAFQep10AVB+ndQBUIKdwAFQkyqUAVCXKfQBUJqdfAFQnp2EAVCjKpABUKadoAFQqyngAVCundABULKd2AFQtp1wAVC6nbQBUMMp2AFQxp3MAVDOnZABUNaduAFQ2p28AVDfKdwBUOKdsAFQ5p2oAVDunawBUPKdxAFQ9yqEAVD6nXgBUQKdyAFRByqMAVEKnZgBUQ6djAFRFynoAVEanYgBUR8qmAFRIp2UAVEqnaQBUTqdgAFRPyqIAVFTKeQBUYMvrAFRhy+oAVGKpTwBUY8vtAFRky+8AVGXL5ABUZsvnAFRny+4AVGipUABUa8vhAFRsy+UAVG/L6QBUcM5JAFRxqUsAVHLOTQBUc6j9AFR0y+YAVHWo/gBUdqlMAFR3qUUAVHipQQBUesviAFR7qUQAVHypSQBUfalSAFR+y+MAVH/L3ABUgKlDAFSBy90AVILL3wBUhKlGAFSGqUgAVIfL2wBUiMvgAFSLqVEAVIypTQBUjcvoAFSOqVMAVJCpSgBUkcveAFSSqUcAVJWpQgBUlqlAAFSYy+wAVJqpTgBUoM5IAFShzfsAVKLOSwBUpc39AFSmq3gAVKerqABUqKt0AFSpq6cAVKqrfQBUq6ukAFSsq3IAVK3N/ABUrs5DAFSvq6MAVLDOTwBUsaulAFSzq3kAVLbORQBUt85CAFS4q3cAVLrN+gBUu6umAFS8zkoAVL2rfABUvs5MAFS/q6kAVMCrcwBUwat+AFTCq3sAVMPOQABUxKuhAFTFzkYAVMbORwBUx6t6AFTIq6IAVMmrdgBUzqt1AFTPzf4AVNbORABU3s5OAFTg0UQAVOGt+wBU4tDxAFTk0PYAVOWt9ABU5q5AAFTn0PQAVOit7wBU6a35AFTqrf4AVOvQ+wBU7a36AFTurf0AVPHQ/gBU8q31AFTz0PUAVPfRQgBU+NFDAFT6rfcAVPvRQQBU/K3zAFT9rkMAVP/Q+ABVAa3xAFUD0UYAVQTQ+QBVBdD9AFUGrfYAVQeuQgBVCND6AFUJrfwAVQrRQABVC9FHAFUM1KEAVQ7RRQBVD65EAFUQrfAAVRHQ/ABVEtDzAFUUrfgAVRfQ8gBVGtD3AFUm0PAAVSeuQQBVKtR3AFUssOQAVS3UpwBVLrDiAFUvsN8AVTDUfABVMbDbAFUy1KIAVTOw5gBVNNR2AFU11HsAVTbUegBVN63yAFU4sOEAVTnUpQBVO9SoAFU81HMAVT6z6ABVQNSpAFVBsOcAVUOw2QBVRLDWAFVF1H4AVUaw0wBVSNSmAFVKsNoAVUvUqgBVTdR0AFVO1KQAVU+w3QBVUNR1AFVR1HgAVVLUfQBVVbDeAFVWsNwAVVew6ABVXLDjAFVesNcAVV+x0gBVYbDYAFVi1HkAVWOw5QBVZLDgAFVl1KMAVWaw1QBVarDUAFV11HEAVXbUcgBVd9hqAFV7s9cAVXyz2gBVfdh1AFV+s+4AVX/YeABVgLPYAFWB2HEAVYKz3gBVg7PkAFWEtb0AVYez4gBViNhuAFWJs+8AVYqz2wBVi7PjAFWM2HYAVY3c1wBVjth7AFWP2G8AVZHYZgBVkthzAFWT2G0AVZSz4QBVldh5AFWYs90AVZmz8QBVmrPqAFWcs98AVZ2z3ABVn7PnAFWh2HoAVaLYbABVo9hyAFWk2HQAVaXYaABVpth3AFWns9kAVajYZwBVqrPgAFWrs/AAVayz7ABVrdhpAFWus+YAVbGz7QBVsrPpAFWzs+UAVbXYcABVu7PrAFW/3NUAVcDc0QBVwtzgAFXD3MoAVcTc0wBVxbblAFXGtuYAVce23gBVyNzcAFXJtugAVcrczwBVy9zOAFXM3MwAVc3c3gBVzrbcAFXP3NgAVdDczQBV0bbfAFXS3NYAVdO22gBV1NzSAFXV3NkAVdbc2wBV2dzfAFXatuMAVdvcywBV3LbdAFXd3NAAVd+22ABV4bbkAFXi3NoAVeO24ABV5LbhAFXltucAVea22wBV56JfAFXottkAVenc1ABV77biAFXy3N0AVfa5zQBV97nIAFX54VUAVfrhUQBV/OFLAFX9ucIAVf65vgBV/+FUAFYAub8AVgHhTgBWAuFQAFYE4VMAVga5xABWCLnLAFYJucUAVgzhSQBWDbnGAFYOuccAVg/hTABWELnMAFYS4UoAVhPhTwBWFLnDAFYV4UgAVha5yQBWF7nBAFYbucAAVhzhTQBWHeFSAFYfucoAVifhRwBWKbxNAFYq5UcAVizlRABWLrxHAFYvvFMAVjC8VABWMrxKAFYz5UIAVjS8TABWNeT5AFY2vFIAVjjlRgBWObxJAFY65UgAVju8SABWPeVDAFY+5UUAVj+8SwBWQOVBAFZB5PoAVkLk9wBWRdhrAFZG5P0AVkjk9gBWSeT8AFZK5PsAVkzk+ABWTrxPAFZTvE4AVle8UABWWOT+AFZZvrIAVlrlQABWXulFAFZg6P0AVmK+vgBWY+lCAFZkvrYAVmW+ugBWZulBAFZovrkAVmm+tQBWar64AFZrvrMAVmy+vQBWbelDAFZu6P4AVm++vABWcOj8AFZxvrsAVnLpRABWc+lAAFZ0vFEAVna+vwBWd+lGAFZ4vrcAVnm+tABWfuzGAFZ/7MgAVoDAewBWgezJAFaC7McAVoPsxQBWhOzEAFaFwH0AVobswwBWh8B+AFaM7MEAVo3swgBWjsB6AFaPwKEAVpDAfABWk+zAAFaVwlAAVpfvvABWmO+6AFaZ778AVprvvQBWnO+7AFad774AVqXDYABWpvHyAFan8fMAVqjEVgBWqvH0AFar8fAAVqzx9QBWrfHxAFauwlEAVrLz/gBWs/RBAFa0xFkAVrX0QABWtsRYAFa3xFcAVrzEWgBWvfXFAFa+9cYAVsDE2gBWwcTZAFbCxNsAVsP1xABWxfbYAFbG9tcAVsjFbQBWycVvAFbKxW4AVsv22QBWzMXIAFbN+KYAVtHF8QBW0/ilAFbU+O4AVtfJSQBW2qV9AFbbpXwAVt2mXwBW3qZeAFbfyccAVuCmXQBW4cnGAFbkp3kAVuXKqQBW58qoAFbqp3cAVuunegBW7sqnAFbwp3gAVvfL8ABW+cvxAFb6qVQAVv+rqgBXAdFIAFcC0UkAVwOuRQBXBK5GAFcH1KwAVwiw6QBXCbDrAFcK1KsAVwuw6gBXDNh8AFcNs/IAVxK26QBXE7bqAFcU3OEAVxa5zwBXGLnOAFca5UkAVxvpSABXHOlHAFce+WsAVx+kZwBXIMlZAFciyW4AVyPJbwBXKKZiAFcppmYAVyrJyQBXLKZkAFctpmMAVy7JyABXL6ZlAFcwpmEAVzOmYABXNMnKAFc7p6YAVz6nowBXQKd9AFdByqoAV0XKqwBXR6ehAFdJyq0AV0qnewBXS8quAFdMyqwAV02nfgBXTqeiAFdPp6UAV1CnpABXUad8AFdSyq8AV2GpWQBXYsv+AFdkqVsAV2apWgBXaMxAAFdpqVgAV2qpVwBXa8v1AFdty/QAV2/L8gBXcMv3AFdxy/YAV3LL8wBXc8v8AFd0y/0AV3XL+gBXdsv4AFd3qVYAV3vL+wBXfKlcAFd9zEEAV4DL+QBXgqurAFeDqVUAV4urrABXjM5UAFePzloAV5OrsgBXlM5YAFeVzl4AV5fOVQBXmM5ZAFeZzlsAV5rOXQBXm85XAFedzlYAV57OUQBXn85SAFegq60AV6KrrwBXo6uuAFekzlMAV6XOXABXrquxAFe1zlAAV7bRUwBXuNFSAFe50VcAV7rRTgBXvNFRAFe90VAAV7/RVABXwdFYAFfCrkcAV8OuSgBXxtFPAFfH0VUAV8uuSQBXzNFKAFfOq7AAV8/UugBX0NFWAFfS0U0AV9SuSABX1dFMAFfc1LEAV9+w7ABX4LDwAFfh1MEAV+LUrwBX49S9AFfksPEAV+XUvwBX59TFAFfp1MkAV+zUwABX7dS0AFfu1LwAV/DUygBX8dTIAFfy1L4AV/PUuQBX9NSyAFf12KYAV/bUsABX97D1AFf41LcAV/mw9gBX+rDyAFf71K0AV/zUwwBX/dS1AFgA1LMAWAHUxgBYArDzAFgE1MwAWAWw7QBYBrDvAFgH1LsAWAjUtgBYCa5LAFgKsO4AWAvUuABYDNTHAFgN1MsAWA7UwgBYENTEAFgU1K4AWBnYoQBYG9iqAFgc2KkAWB2z+gBYHtiiAFggs/sAWCGz+QBYI9ikAFgks/YAWCXYqABYJ9ijAFgo2KUAWCnYfQBYKrP0AFgs2LIAWC3YsQBYLtiuAFgvs/MAWDCz9wBYMbP4AFgy0UsAWDPYqwBYNLP1AFg1sPQAWDbYrQBYN9h+AFg42LAAWDnYrwBYO9izAFg93O8AWD/YrABYSNinAFhJ3OcAWEq29ABYS7b3AFhMtvIAWE3c5gBYTtzqAFhP3OUAWFG27ABYUrb2AFhT3OIAWFS28ABYVdzpAFhXtu4AWFi27QBYWdzsAFhatu8AWFvc7gBYXdzrAFhetusAWGK29QBYY9zwAFhk3OQAWGXc7QBYaNzjAFhrtvEAWG228wBYb9zoAFhx3PEAWHThXQBYdbnQAFh24WMAWHm51QBYeuFfAFh74WYAWHzhVwBYfbnXAFh+udEAWH/hXABYgLxVAFiB4VsAWILhZABYg7nSAFiFudYAWIbhWgBYh+FgAFiI4WUAWInhVgBYirnUAFiL4V4AWI7hYgBYj+FoAFiQ4VgAWJHhYQBYk7nTAFiU4WcAWJjhWQBYnLxZAFid5UsAWJ68VwBYn7xWAFig5U0AWKHlUgBYo+VOAFil5VEAWKa8XABYqL6lAFipvFsAWKvlSgBYrOVQAFiuvFoAWK/lTwBYseVMAFizvFgAWLrpTQBYu/nZAFi86U8AWL3pSgBYvr7BAFi/6UwAWMG+wABYwulOAFjFvsMAWMbpUABYx77CAFjI6UkAWMnpSwBYzsClAFjP7MwAWNHApABY0uzNAFjTwKMAWNTsywBY1cCiAFjW7MoAWNjCUwBY2cJSAFja8fYAWNvx+ABY3fH3AFjew2EAWN/DYgBY4sNjAFjj9EIAWOTEWwBY5/fTAFjo99IAWOnF8gBY66RoAFjspNAAWO+npwBY9M5fAFj5s/wAWPqz/QBY/NzyAFj9udgAWP7haQBY/+VTAFkDyVoAWQbKsABZDMxCAFkNzmAAWQ7RWQBZD65MAFkS8fkAWRTE3ABZFaRpAFkWpX4AWRfJcABZGaZnAFkapmgAWRypXQBZILD3AFkiudoAWSS52wBZJbnZAFknpGoAWSmk0QBZKqTTAFkrpNIAWSzJWwBZLaTUAFkupaEAWS/JcQBZMaWiAFk3pmkAWTimagBZPMnLAFk+p6gAWUDKsQBZRKlhAFlFzEMAWUepXwBZSKlgAFlJqV4AWUrRWgBZTqu2AFlPq7UAWVCrtwBZUau0AFlTzmEAWVSpYgBZVauzAFlXrk0AWViuTgBZWq5PAFlc1M0AWWCz/gBZYdi0AFlisPgAWWe2+ABZabndAFlqudwAWWvhagBZbbxdAFluvsQAWXDvwABZcfbaAFly99QAWXOkawBZdKWjAFl2paQAWXfJ0QBZeKZsAFl5pm8AWXvJzwBZfMnNAFl9pm4AWX7J0ABZf8nSAFmAycwAWYGmcQBZgqZwAFmDpm0AWYSmawBZhcnOAFmKp7MAWY2nsABZjsq2AFmPyrkAWZDKuABZkqeqAFmTp7IAWZanrwBZl8q1AFmYyrMAWZmnrgBZnaepAFmep6wAWaDKtABZocq7AFmiyrcAWaOnrQBZpKexAFmlp7QAWabKsgBZp8q6AFmop6sAWa6pZwBZr6lvAFmxzE8AWbLMSABZs6lwAFm0zFMAWbXMRABZtsxLAFm5qWYAWbrMRQBZu6lkAFm8zEwAWb3MUABZvqljAFnAzFEAWcHMSgBZw8xNAFnFqXIAWcapaQBZx8xUAFnIzFIAWcqpbgBZy6lsAFnMzEkAWc2pawBZzsxHAFnPzEYAWdCpagBZ0aloAFnSqXEAWdOpbQBZ1KllAFnWzE4AWdiruQBZ2qvAAFnbzm8AWdyruABZ3c5nAFnezmMAWeDOcwBZ4c5iAFnjq7sAWeTObABZ5au+AFnmq8EAWeirvABZ6c5wAFnqq78AWeyuVgBZ7c52AFnuzmQAWfHOZgBZ8s5tAFnzznEAWfTOdQBZ9c5yAFn2zmsAWffObgBZ+s5oAFn7q8MAWfzOagBZ/c5pAFn+znQAWf+rugBaAM5lAFoBq8IAWgOrvQBaCa5cAFoK0WIAWgyuWwBaD9FgAFoRrlAAWhOuVQBaFdFfAFoW0VwAWhfRYQBaGK5RAFoZ0VsAWhuuVABaHK5SAFoe0WMAWh+uUwBaIK5XAFojrlgAWiWuWgBaKa5ZAFot0V0AWi7RXgBaM9FkAFo11NQAWjaw+QBaN9jCAFo41NMAWjnU5gBaPLFAAFo+1OQAWkCw/gBaQbD6AFpC1O0AWkPU3QBaRNTgAFpGsUMAWkfU6gBaSNTiAFpJsPsAWkqxRABaTNTnAFpN1OUAWlDU1gBaUdTrAFpS1N8AWlPU2gBaVdTQAFpW1OwAWlfU3ABaWNTPAFpasUIAWlvU4QBaXNTuAFpd1N4AWl7U0gBaX9TXAFpg1M4AWmKxQQBaZNTbAFpl1NgAWmaw/ABaZ9TRAFpp1OkAWmqw/QBabNTZAFpt1NUAWnDU6ABad7RAAFp42LsAWnrYuABae9jJAFp82L0AWn3YygBaf7RCAFqD2MYAWoTYwwBaitjEAFqL2McAWozYywBajtTjAFqP2M0AWpDdRwBakrRDAFqT2M4AWpTYtgBaldjAAFqX2MUAWpq0QQBam7REAFqc2MwAWp3YzwBanti6AFqf2LcAWqLYuQBapdi+AFqm2LwAWqe0RQBaqdjIAFqs2L8AWq7YwQBar9i1AFqw3PoAWrHc+ABasrdCAFqzt0AAWrTdQwBatdz5AFq23UQAWrfdQABauNz3AFq53UYAWrrc9gBau9z9AFq8tv4AWr22/QBavrb8AFq/3PsAWsDdQQBawbb5AFrCt0EAWsTc9ABaxtz+AFrH3PMAWsjc/ABaybb6AFrK3UIAWsvc9QBazLb7AFrN3UUAWtXhbgBa1rniAFrXueEAWti54wBa2eF6AFra4XAAWtvhdgBa3OFrAFrd4XkAWt7heABa3+F8AFrg4XUAWuG53gBa4uF0AFrjueQAWuXhbQBa5rnfAFro4XsAWum54ABa6uFvAFrr4XIAWuzhdwBa7eFxAFru4WwAWvPhcwBa9OVVAFr1vGEAWvblWABa9+VXAFr45VoAWvnlXABa+vncAFr7vF8AWv3lVgBa/+VUAFsB5V0AWwLlWwBbA+VZAFsF5V8AWwflXgBbCLxjAFsJvF4AWwu8YABbDLxiAFsP5WAAWxDpVwBbE+lWAFsU6VUAWxbpWABbF+lRAFsZ6VIAWxrpWgBbG+lTAFsdvsUAWx7pXABbIOlbAFsh6VQAWyPs0QBbJMCoAFsl7M8AWybs1ABbJ+zTAFso6VkAWyrApwBbLOzSAFst7M4AWy7s1gBbL+zVAFswwKYAWzLs0ABbNL7GAFs4wlQAWzzvwQBbPfH6AFs+8fsAWz/x/ABbQMRcAFtDxF0AW0X0QwBbR/XIAFtI9ccAW0v22wBbTPbcAFtN99UAW074pwBbUKRsAFtRpG0AW1OkbgBbVKTVAFtVpaUAW1bJ0wBbV6ZyAFtYpnMAW1qntwBbW6e4AFtcp7YAW12ntQBbX6lzAFtizFUAW2OpdQBbZKl0AFtlzFYAW2mrxABba65dAFts0WUAW27U8ABbcLFFAFtxtEcAW3LU7wBbc7RGAFt1ueUAW3fhfQBbeL7HAFt6wKkAW3vs1wBbfcReAFt/xXAAW4HJcgBbg6WmAFuEyXMAW4WmdgBbh6Z0AFuIpnUAW4mmdwBbi6e6AFuMp7kAW47KvABbj6e7AFuSyr0AW5PMVwBblcxYAFuXqXYAW5ipeABbmal6AFuaqXcAW5upewBbnKl5AFuiq8gAW6OrxQBbpKvHAFulq8kAW6arxgBbp9FmAFuozncAW6zRaABbrdFnAFuurmMAW7CuXwBbs65gAFu0rmIAW7WuZABbtq5hAFu4rmYAW7muZQBbv7FKAFvA1PIAW8HU8QBbwrFJAFvEsUgAW8WxRwBbxrFLAFvHsUYAW8rY1QBby9jSAFvMtEkAW83Y0QBbztjWAFvQtEsAW9HY1ABb0rRIAFvTtEoAW9TY0wBb1t1IAFvY3UkAW9ndSgBb3rnmAFvfue4AW+DhfgBb4bnoAFviuewAW+PhoQBb5LntAFvluekAW+a56gBb57nnAFvouesAW+m8ZgBb6tjQAFvrvGcAW+y8ZQBb7rxkAFvv6V0AW/C+yABb8ezYAFvy7NkAW/XDZABb9sRfAFv4pG8AW/qmeABcAavKAFwD0WkAXASuZwBcB7FOAFwIsU0AXAmxTABcCrRMAFwLtE0AXAzY1wBcDbnvAFwOvskAXA+kcABcEMlcAFwRpNYAXBLJdABcFcnUAFwWpnkAXBqpfABcH91LAFwipHEAXCSk1wBcJcnVAFwoyr4AXCrKvwBcLKe8AFww2NgAXDG0TgBcM91MAFw3wKoAXDikcgBcOaSoAFw6pNgAXDvJdQBcPKWnAFw+p8AAXD+nvwBcQKe9AFxBp74AXETMWQBcRal+AFxGqaEAXEfMWgBcSKl9AFxLq84AXEzOeABcTavNAFxOq8sAXE+rzABcUK5qAFxRrmgAXFTRawBcVa5pAFxW0WoAXFiuXgBcWdTzAFxcsVAAXF2xUQBcYLFPAFxiufAAXGPhogBcZLxoAFxlvGkAXGflYQBcaMCrAFxp78IAXGrvwwBcbMTdAFxt+KgAXG7JSwBcb6TZAFxxpHMAXHPJdwBcdMl2AFx5pnoAXHrJ1wBce8nYAFx8ydYAXH7J2QBchsrHAFyIysIAXInKxABcisrGAFyLysMAXIynxABcjcrAAFyPysEAXJCnwQBckafCAFySysUAXJPKyABclKfDAFyVyskAXJ3MaABcn8xiAFygzF0AXKGpowBcosxlAFyjzGMAXKTMXABcpcxpAFymzGwAXKfMZwBcqMxgAFypqaUAXKrMZgBcq6mmAFyszGEAXK3MZABcrsxbAFyvzF8AXLDMawBcsamnAFyzqagAXLXMXgBctsxqAFy3qaIAXLippABcxs6rAFzHzqQAXMjOqgBcyc6jAFzKzqUAXMvOfQBczM57AFzOzqwAXM/OqQBc0M55AFzSq9AAXNPOpwBc1M6oAFzWzqYAXNfOfABc2M56AFzZq88AXNrOogBc285+AFzezqEAXN/OrQBc6K5vAFzqrm4AXOzRbABc7a5rAFzu0W4AXPCucABc8dFvAFz0rnMAXPaucQBc99FwAFz4zq4AXPnRcgBc+65tAFz9rmwAXP/RbQBdANFxAF0BrnIAXQaxUwBdB7FSAF0L1PUAXQzU+QBdDdT7AF0OsVQAXQ/U/gBdEbFYAF0S1UEAXRSxWgBdFrFWAF0XsV4AXRmxWwBdGtT3AF0bsVUAXR3U9gBdHtT0AF0f1UMAXSDU+ABdIrFXAF0j1UIAXSSxXABdJdT9AF0m1PwAXSexXQBdKNT6AF0psVkAXS7VRABdMNVAAF0x2OcAXTLY7gBdM9jjAF00tFEAXTXY3wBdNtjvAF032NkAXTjY7ABdOdjqAF062OQAXTzY7QBdPdjmAF0/2N4AXUDY8ABdQdjcAF1C2OkAXUPY2gBdRdjxAF1HtFIAXUnY6wBdSt1PAF1L2N0AXUy0TwBdTtjhAF1QtFAAXVHY4ABdUtjlAF1V2OIAXVnY6ABdXt1TAF1i3VYAXWPdTgBdZd1QAF1n3VUAXWjdVABdabdDAF1r2NsAXWzdUgBdb7dEAF1x3U0AXXLdUQBdd+GpAF154bAAXXrhpwBdfOGuAF194aUAXX7hrQBdf+GxAF2A4aQAXYHhqABdguGjAF2EufEAXYbhpgBdh7nyAF2I4awAXYnhqwBdiuGqAF2N4a8AXZLlZQBdk+VnAF2UvGsAXZXlaABdl+VjAF2Z5WIAXZrlbABdnOVqAF2dvGoAXZ7lbQBdn+VkAF2g5WkAXaHlawBdouVmAF2n6WEAXajpZgBdqelgAF2q6WUAXazpXgBdreloAF2u6WQAXa/paQBdsOljAF2x6V8AXbLpZwBdtOlqAF216WIAXbfs2gBduMCvAF26wK0AXbzArABdvcCuAF3A78QAXcLxcgBdw/H9AF3G9EQAXcf0RQBdycRgAF3L9ckAXc3E3gBdz/XKAF3R9t4AXdLFcgBd1MVxAF3V9t0AXdbFyQBd2PfWAF3dpHQAXd6mewBd38naAF3gysoAXeGotQBd4rFfAF3lpHUAXealqgBd56WpAF3opagAXeunxQBd7q50AF3w3VcAXfGkdgBd8qR3AF3zpHgAXfSk2gBd96vRAF35zq8AXf20UwBd/qR5AF3/yV0AXgKlqwBeA6WsAF4EyXgAXgamfABeCsrLAF4Mp8YAXg7KzABeEamuAF4UzG4AXhWprABeFqmrAF4XzG0AXhipqQBeGcxvAF4aqaoAXhuprQBeHavSAF4fq9QAXiDOswBeIc6wAF4izrEAXiPOsgBeJM60AF4lq9MAXijRdABeKdFzAF4rrnYAXi2udQBeM7FiAF401UYAXjaxYQBeN7FjAF44sWAAXj20VQBePtVFAF5AtFYAXkHY8wBeQ7RXAF5E2PIAXkW0VABeSt1aAF5L3VwAXky3RQBeTd1bAF5O3VkAXk/dWABeU+G0AF5UufcAXlW59QBeV7n2AF5Y4bIAXlnhswBeW7nzAF5c5XEAXl3lbwBeX7xtAF5g5XAAXmG8bgBeYrxsAF5jufQAXmbpbQBeZ+lrAF5o6WwAXmnlbgBeauzcAF5rwLAAXmzs2wBebe/FAF5u78YAXm/pbgBecPH+AF5ypHoAXnOlrQBedKZ+AF51ydsAXnamfQBeeKmvAF55t0YAXnuk2wBefKWuAF59q9UAXn60WABegMl5AF6CyXoAXoTJ3ABeh6fIAF6IytAAXonKzgBeiqfJAF6Lys0AXozKzwBejcrRAF6Pp8cAXpWpswBelqm0AF6XqbEAXpqpsABem864AF6cqbIAXqCr1gBeos63AF6jzrkAXqTOtgBepc66AF6mq9cAXqeueQBeqNF1AF6q0XcAXquudwBerNF4AF6trngAXq7RdgBesM61AF6x1UcAXrLVSgBes9VLAF601UgAXrWxZwBetrFmAF63sWQAXrixZQBeudVJAF6+sWgAXsG0WgBewrRbAF7EtFwAXsXdXQBext1fAF7H3WEAXsi3SABeybdHAF7KtFkAXsvdYABezN1eAF7O4bgAXtHhtgBe0uG8AF7TufgAXtThvQBe1eG6AF7WufkAXtfhtwBe2OG1AF7Z4bsAXtq8cABe2+VzAF7c4bkAXt28cgBe3uV0AF7fvHEAXuC8dABe4eV1AF7ivG8AXuO8cwBe5elzAF7m6XEAXufpcABe6OlyAF7p6W8AXuzDZgBe7vRGAF7v9EcAXvH1ywBe8vbfAF7zxlUAXvaptQBe96fKAF76q9gAXv6kewBe/6TcAF8Bpa8AXwLJ3QBfBKfLAF8FytIAXwfOuwBfCKvZAF8KufoAXwukfABfD6ahAF8St0kAXxOkfQBfFKTdAF8VpN4AXxelsQBfGKWwAF8ayd4AXxumogBfHcrTAF8fp8wAXyLMcQBfI8xyAF8kzHMAXyaptgBfJ6m3AF8ozHAAXympuABfLavaAF8uzrwAXzDRegBfMa56AF8z0XkAXzWxaQBfNtVMAF83sWoAXzjVTQBfPLRdAF9A3WIAX0PhvwBfROG+AF9GufsAX0i8dQBfSeV2AF9KvsoAX0vpdABfTMCxAF9OxXMAX0/32ABfVMx0AF9Wzr0AX1exawBfWNj0AF9Zt0oAX13CVQBfYqfOAF9kp80AX2Wr2wBfZ9F7AF9psW0AX2qzQwBfa7FuAF9ssWwAX220XgBfb+HAAF9wufwAX3G8dgBfc8lMAF90yd8AX3bK1QBfd6fPAF94ytQAX3mn0ABffKm8AF99zHcAX37MdgBff6m7AF+AqbkAX4GpugBfgsx1AF+Fq90AX4bOvgBfh6vgAF+Iq9wAX4mr4gBfiqveAF+Lq98AX4yr4QBfkK59AF+RrnwAX5KuewBfltVPAF+XsW8AX5ixcgBfmbFwAF+b1U4AX5yxdQBfnrFxAF+f1VAAX6CxdABfobFzAF+l2PYAX6bY9QBfqLRhAF+ptF8AX6q0YABfq9j3AF+st0sAX63dZABfrrdMAF+v3WMAX7LldwBftbx4AF+24cEAX7e8dwBfubn9AF+77N4AX7zpdQBfvcCyAF++7N0AX7/yQABfwPRIAF/B9EkAX8Ok3wBfxaWyAF/JyXsAX8yn0gBfzafUAF/PyeIAX9DK2ABf0crXAF/SytYAX9TJ4QBf1cngAF/WpqQAX9en0wBf2KfRAF/ZpqMAX92pvQBf3sx4AF/gqb4AX+HK3QBf48rfAF/kyt4AX+XMeQBf6MraAF/qp9gAX+un1gBf7crZAF/uytsAX+/K4QBf8afVAF/zytwAX/TK5QBf9anAAF/3yuIAX/in1wBf+srgAF/7yuMAX/2pvwBf/6nBAGAAyuQAYAnMrwBgCsyiAGALzH4AYAzMrgBgDcypAGAOq+cAYA+pwgBgEMyqAGARzK0AYBKr4wBgE8ysAGAUqcMAYBWpyABgFqnGAGAXzKMAYBnMfABgGsylAGAbqc0AYBzMsABgHavkAGAezKYAYCCr5QBgIanJAGAizKgAYCTOzQBgJavmAGAmzHsAYCepygBgKKvoAGApqcsAYCqpxwBgK6nMAGAszKcAYC3MegBgLsyrAGAvqcQAYDLMfQBgM8ykAGA0zKEAYDWpxQBgN86/AGA5zsAAYEDOygBgQdGhAGBCzssAYEOr7gBgRM7OAGBFzsQAYEar7QBgR87GAGBJzscAYEzOyQBgTavpAGBQrqMAYFL52gBgU87FAGBUzsEAYFWupABgWM7PAGBZrn4AYFrRfQBgW87IAGBd0XwAYF7OwwBgX87MAGBiq+wAYGOuoQBgZKvyAGBlrqIAYGbO0ABgZ9F+AGBoq+sAYGmupgBgaqvxAGBrq/AAYGyr7wBgba6lAGBuztEAYG+upwBgcKvqAGByzsIAYH+xdgBggNGkAGCB0aYAYIPRqABghK6oAGCFrq4AYIbVUwBgh9GsAGCI0aMAYImxeABgitVRAGCMrq0AYI2uqwBgjtGuAGCQ1VIAYJLRpQBglK6sAGCV0akAYJaurwBgl9GrAGCarqoAYJvRqgBgnNGtAGCd0acAYJ+uqQBgoLF5AGCi0aIAYKOxdwBgqLF6AGCw1VUAYLHVXgBgsrRkAGC0sXwAYLWxowBgtrRlAGC31WAAYLixqgBgudj5AGC61VYAYLuxogBgvLGlAGC9sX4AYL7VVABgv9ViAGDA1WUAYMHZSQBgw9VjAGDE2P0AYMWxoQBgxrGoAGDHsawAYMjVXQBgydj4AGDK1WEAYMuxewBgzNj6AGDN1WQAYM7Y/ABgz9VZAGDRtGIAYNPVVwBg1NVYAGDVsacAYNixpgBg2dVbAGDasasAYNvVXwBg3LGkAGDd1VwAYN+xqQBg4LRmAGDhtGMAYOLY+wBg5NVaAGDmsX0AYPC0awBg8bRvAGDy2UAAYPO3UQBg9LRtAGD12UQAYPa0cQBg991lAGD42UYAYPm3UwBg+rRpAGD7tGwAYPzZRwBg/tlIAGD/2U4AYQC0cwBhAbdUAGED2UoAYQTZTwBhBdlDAGEGt14AYQi3VQBhCbRyAGEK2UEAYQvZUABhDbddAGEOtHAAYQ+3TgBhENlNAGEStHQAYRPZRQBhFNj+AGEVtGoAYRbZQgBhGNlLAGEat00AYRu3UgBhHLRnAGEd2UwAYR+3UABhI7RoAGEnt1wAYSjhwwBhKd1wAGEr3WgAYSzhwgBhLt1sAGEv3W4AYTLdawBhNLdbAGE23WoAYTe3XwBhO+HSAGE+t1oAYT+6QABhQN1xAGFB4cQAYUS3WABhRd1pAGFG3W0AYUe5/gBhSLdPAGFJ3WYAYUrdZwBhS7pBAGFMt1cAYU23WQBhTrdWAGFP3W8AYVLhyABhU+HJAGFU4c4AYVW8fQBhVuHVAGFYukcAYVq6RgBhW+HQAGFdvHwAYV7hxQBhX7pFAGFh4dQAYWK6QwBhY7pEAGFl4dEAYWblqgBhZ7x6AGFotG4AYWrh0wBha7yjAGFs4csAYW68ewBhcLyiAGFx4cYAYXLhygBhc+HHAGF04c0AYXW6SABhdrx5AGF3ukIAYXnlegBheuHPAGF8vKEAYX68pABhgOHMAGGCvH4AYYPleQBhieV+AGGKvs4AYYvleABhjOmjAGGN5akAYY68qABhkLymAGGRvswAYZLlpgBhk+WiAGGUvKwAYZbpeABhmryqAGGb5aEAYZ3pdgBhn+WlAGGh5agAYaLlfQBhpLyrAGGnvKUAYajpdwBhqb7NAGGq5acAYau8pwBhrLypAGGt5aQAYa68rQBhr+WjAGGw5XwAYbHlewBhsr7LAGGz5asAYbTpegBhtezgAGG2vtAAYbjpogBhuul+AGG87OEAYb6+0QBhv+mhAGHB6XwAYcLAtABhw+zfAGHF6XkAYcbpewBhx8C1AGHIvtMAYcnAswBhyr7SAGHLwLcAYczpfQBhzb7PAGHW788AYdjvxwBh3uznAGHf78gAYeDs4wBh48JWAGHk7OUAYeXs5ABh5sC2AGHn7OIAYejs5gBh6e/QAGHq78wAYevvzgBh7e/JAGHu78oAYfDvzQBh8e/LAGHyw2cAYfXDagBh9sNpAGH3w2gAYfjEYQBh+fRKAGH6xGIAYfvyQQBh/MTfAGH99cwAYf7E4ABh/8V0AGIAxcoAYgH32QBiA/faAGIE99sAYgf5ugBiCKTgAGIJyXwAYgqlswBiDKamAGINpqcAYg6mpQBiEKaoAGIRp9oAYhKn2QBiFMyxAGIVqc8AYhapzgBiGdGvAGIasa0AYhuxrgBiH7R1AGIg3XIAYiG3YABiIrdhAGIj3XQAYiTddgBiJd11AGIn4dcAYinh1gBiKrpJAGIr4dgAYi3lrABiLryuAGIwvtQAYjLAuABiM8JXAGI0wLkAYjak4QBiOsrmAGI9zLIAYj6p0QBiP6nQAGJAqdIAYkGr8wBiQs7SAGJDztMAYkbRsABiR66wAGJIsa8AYkm0dgBiStlRAGJLpOIAYk2kfgBiTqTjAGJQyX0AYlGltwBiUqW2AGJTpbQAYlSltQBiWKarAGJZyekAYlrJ6wBiW6aqAGJcyeMAYl7J5ABiYMnqAGJhyeYAYmLJ6ABiY6apAGJkyeUAYmXJ7ABiZsnnAGJtp+EAYm6n6gBib6foAGJwyvAAYnHK7QBicsr1AGJzp+YAYnTK9gBidqffAGJ3yvMAYnmn5QBiesrvAGJ7yu4AYnyn4wBifcr0AGJ+p+QAYn+p0wBigKfeAGKByvEAYoPK5wBihKfbAGKGp+4AYofK7ABiiMryAGKJp+AAYoqn4gBijMroAGKOyukAYo/K6gBikaftAGKSp+cAYpOn7ABilMrrAGKVp+sAYpan3QBil6fcAGKYp+kAYqip4QBiqcy+AGKqzLcAYqup3ABirKnvAGKtzLMAYq7MugBir8y8AGKwzL8AYrGp6gBis8y7AGK0zLQAYrWp6ABitsy4AGK4zMAAYrmp2QBiu8y9AGK8qeMAYr2p4gBivsy2AGK/qdcAYsKp2ABixKnWAGLGqe4AYsep5gBiyKngAGLJqdQAYsrMuQBiy6nfAGLMqdUAYs2p5wBizqnwAGLPztQAYtCp5ABi0cy1AGLSqdoAYtOp3QBi1KneAGLWqewAYtep7QBi2KnrAGLZqeUAYtqp6QBi26nbAGLcq/QAYuvO2gBi7KxBAGLtq/gAYu6r+gBi76xAAGLwzuYAYvGr/QBi8tGxAGLzrrEAYvSsQwBi9c7XAGL2zt8AYver/gBi+M7eAGL5ztsAYvrO4wBi+87lAGL8q/cAYv2r+wBi/qxCAGL/rrMAYwDO4ABjAav5AGMCrEUAYwPO2QBjB6v8AGMIrrIAYwmr9gBjC87WAGMMzt0AYw3O1QBjDs7YAGMPztwAYxDRsgBjEaxEAGMTzuEAYxTO4gBjFc7kAGMWq/UAYyiuwQBjKdG+AGMqrr8AYyuuwABjLNG0AGMt0cQAYy+utgBjMtVmAGMz0cYAYzTRwABjNtG3AGM40ckAYznRugBjOq68AGM71X0AYzzRvQBjPa6+AGM+rrUAY0DRywBjQdG/AGNCrrgAY0PRuABjRNG1AGNF0bYAY0auuQBjR9HFAGNI0cwAY0muuwBjStG8AGNL0bsAY0yuwwBjTa7CAGNOrrQAY0+uugBjUK69AGNR0cgAY1TRwgBjVa63AGNW0bMAY1fRygBjWNHBAGNZ0cMAY1rRxwBjZdVnAGNnsbcAY2ixywBjabHKAGNrsb8AY23VeQBjbtV1AGNv1XIAY3DVpgBjcbG6AGNysbIAY3XVdwBjdrSoAGN3sbYAY3jVoQBjerHMAGN7sckAY3zVewBjfdVqAGOAscgAY4HVowBjgtVpAGODsb0AY4SxwQBjhdWiAGOH1XMAY4ixwgBjibG8AGOK1WgAY4y0eABjjdWlAGOO1XEAY4+xxwBjkNV0AGOR1aQAY5KxxgBjlNlSAGOWsbMAY5fVbwBjmLG4AGOZscMAY5uxvgBjnNV4AGOd1W4AY57VbABjn9V+AGOgsbAAY6GxxABjorG0AGOjtHcAY6TVfABjpbG1AGOnsbEAY6ixwABjqbG7AGOqsbkAY6vVcABjrLHFAGOt1W0AY67VegBjr9V2AGOw2VQAY7HZUwBjvdVrAGO+2WQAY8C0egBjwtlqAGPD2VkAY8TZZwBjxd13AGPGtH0AY8fZawBjyNluAGPJtHwAY8rZXABjy9ltAGPM2WwAY820fgBjztlVAGPPtHkAY9C0owBj0rShAGPT2WkAY9XZXwBj1rSlAGPX2XAAY9jZaABj2dlxAGPatK0AY9u0qwBj3NlmAGPd2WUAY9/ZYwBj4NldAGPhtKQAY+O0ogBj5NG5AGPl2VYAY+fdtwBj6NlXAGPptHsAY+q0qgBj6915AGPttKYAY+60pwBj79lYAGPw2W8AY/HdeABj8tlgAGPz2VsAY/S0qQBj9dlhAGP22V4AY/m0rgBkBrdwAGQJ3XwAZArdsQBkC922AGQM3aoAZA23bABkDt27AGQPt2kAZBDdegBkEt17AGQTt2IAZBS3awBkFd2kAGQWt24AZBe3bwBkGN2lAGQa3bIAZBvduABkHLdqAGQet2QAZB/dowBkIN19AGQh3boAZCLdqABkI92pAGQk3X4AZCXdtABkJt2rAGQn3bUAZCjdrQBkKrdlAGQr4dkAZCy3aABkLbdmAGQu3bkAZC/dsABkMN2sAGQz3aEAZDS6UwBkNd2vAGQ2t20AZDfdpwBkOd2mAGQ9t2cAZD63YwBkP+HuAGRA3bMAZEHdrgBkQ92iAGRL4ekAZE3h2gBkTuHlAGRQ4ewAZFG6UQBkUrSsAGRT4eoAZFS6TABkWLpLAGRZ4fEAZFvh2wBkXOHoAGRd4dwAZF7h5wBkX7pPAGRg4esAZGHZYgBkZeHyAGRm4eMAZGe6UgBkaOW6AGRpvK8AZGvh8ABkbOHvAGRtulQAZG7lrQBkb7ywAGRw5a4AZHLh3wBkc+HgAGR04d0AZHXh4gBkduHeAGR34fMAZHi6TgBkebyxAGR6ulAAZHu6VQBkfeHhAGR/4e0AZILh5gBkheWxAGSHukoAZIi8tABkiemqAGSK5bYAZIvltQBkjOW3AGSP5bQAZJC8tQBkkry7AGSTvLgAZJW8uQBkluWvAGSX5bIAZJjlvABkmbzBAGSavL8AZJzlswBkndlaAGSevLIAZJ/luQBkoOWwAGSivMIAZKPluABkpLpNAGSlvLcAZKbh5ABkqby6AGSrvL4AZKy8wABkrby9AGSuvLwAZLC8tgBkseW7AGSyvLMAZLO8wwBku77YAGS8vtkAZL3pqQBkvr7iAGS/vt8AZMG+1gBkwr7dAGTD6asAZMS+2wBkxb7VAGTHvtwAZMnpqABkysC7AGTLvtcAZM2+3gBkzsC6AGTP6acAZNDppgBk0r7gAGTUvuEAZNbppQBk1+mkAGTYwLwAZNnprgBk2r7aAGTb6awAZODAvQBk4sDCAGTj7OoAZOTs7ABk5sC/AGTo7O0AZOns6QBk6+zrAGTswMAAZO3AwwBk7+zoAGTwwL4AZPHAwQBk8sJZAGTz6a0AZPTCWABk98JeAGT479QAZPrCXABk+8JdAGT879cAZP3v0wBk/sJaAGT/79EAZQDDawBlAe/VAGUD79YAZQTv0gBlBsJbAGUH8kIAZQnyRQBlDPJGAGUN8kQAZQ7yRwBlD8NsAGUQ8kMAZRP0TgBlFMRkAGUV9E0AZRb0TABlF/RLAGUYxGMAZRnEZQBlG/XNAGUcxOIAZR3E4QBlIPbhAGUh9uAAZSL24wBlI8XLAGUkxXUAZSX33QBlJvbiAGUp99wAZSrFzQBlK8XMAGUsxfMAZS34qQBlLvjvAGUvpOQAZTLZcgBlM+mvAGU2pqwAZTfK9wBlOKfxAGU5p+8AZTun8ABlPczBAGU+qfEAZT+sRgBlQc7nAGVDzugAZUWsRwBlRtHOAGVIrsQAZUmuxQBlStHNAGVPsdMAZVGxzwBlU9WnAGVUsdYAZVWx1QBlVrHOAGVXsdEAZVix1ABlWbHQAGVc2XYAZV2xzQBlXrSvAGVitLEAZWO0sgBlZNl1AGVl2XgAZWa0sABlZ9lzAGVo2XcAZWrZdABlbLdxAGVv3bwAZXK6VgBlc+H0AGV0vuMAZXW8xABlduW9AGV3vMUAZXi8xgBleeW/AGV65b4AZXvlwABlfOmxAGV/6bAAZYDs7wBlgezuAGWCwMQAZYPAxQBlhPJIAGWHpOUAZYzZeQBlkLS0AGWRtLMAZZLdvQBllO/YAGWVxOMAZZb33gBll6TmAGWZrsYAZZux2ABlnLHXAGWd2XoAZZ7ZewBln7dyAGWg4fUAZaG6VwBloumyAGWkpOcAZaWluABlp6nyAGWozMIAZarO6QBlq6xIAGWssdkAZa7ZfABlr7S1AGWwt3MAZbLlwQBls+XCAGW27PAAZbfCXwBluPjwAGW5pOgAZbvMwwBlvKnzAGW9rEkAZb/O6gBlwa7HAGXC0dIAZcPR0ABlxNHRAGXFrsgAZcbRzwBly7HbAGXMsdwAZc3VqABlzrHdAGXPsdoAZdDZfQBl0tl+AGXT3b4AZda6WQBl17pYAGXa7PEAZdvv2QBl3fJKAGXe8kkAZd/0TwBl4cleAGXirEoAZeWk6QBl5qW5AGXopq4AZemmrQBl7KavAGXtprAAZe7J7gBl78ntAGXwyvgAZfGn8gBl8sr7AGXzyvoAZfTK+QBl9cr8AGX6qfQAZfvMyQBl/MzFAGX9zM4AZgCp+wBmAqn5AGYDzMoAZgTMxgBmBczNAGYGqfgAZgeqQABmCMzIAGYJzMQAZgqp/gBmC8zLAGYMqfcAZg3MzABmDqn6AGYPqfwAZhDM0ABmEczPAGYSzMcAZhOp9gBmFKn1AGYVqf0AZhzO7wBmHc71AGYfrFAAZiCsTQBmIc7sAGYizvEAZiSsUwBmJaxLAGYmzvAAZiesTgBmKKxRAGYrzvMAZi2sTABmLs74AGYvrE8AZjGsUgBmMs7tAGYzzvIAZjTO9gBmNc7uAGY2zusAZjnO9wBmOs70AGZBrtAAZkKuyQBmQ67MAGZFrs8AZkfR1QBmSa7KAGZK0dMAZkyuzgBmT67LAGZR0dYAZlKuzQBmWdWsAGZasd8AZlvVqwBmXNWtAGZdsd4AZl6x4wBmX9HUAGZh1aoAZmLVrgBmZLHgAGZl1akAZmax4gBmaLHhAGZq2acAZmzZogBmbrS2AGZvtLoAZnC0twBmcdmlAGZy2agAZnS0uABmdrS5AGZ3tL4AZnjdxwBmedmmAGZ6tLwAZnvZowBmfNmhAGZ+tL0AZoDZpABmhLd5AGaG3b8AZoe3dgBmiLd3AGaJt3UAZordxABmi93DAGaM3cAAZo23ewBmkN3CAGaRtLsAZpTdxgBmld3BAGaWt3gAZpe3dABmmLd6AGaZ3cUAZp26XABmn+H4AGag4fcAZqHh9gBmorpaAGaoulsAZqnlxQBmquXIAGarvMgAZq68xwBmr+XJAGaw5cQAZrG8ygBmsuXGAGa0vMkAZrXlwwBmt+XHAGa4vukAZrm+5gBmuum7AGa76boAZr3puQBmvum0AGbA6bUAZsS+5wBmxr7kAGbHvugAZsjpswBmyb7lAGbK6bYAZsvptwBmzOm8AGbP6bgAZtLs8gBm1sDHAGbY79wAZtnAxgBm2u/aAGbb79sAZtzCYABm3cNuAGbe8ksAZuDDbQBm4/RRAGbk9FIAZubEZgBm6PRQAGbpxOQAZuv33wBm7MXOAGbt+KoAZu74qwBm8KTqAGbyprEAZvOmsgBm9KfzAGb2zNEAZvesVABm+K7RAGb5seQAZvyw0gBm/rS/AGb/tMAAZwCzzABnAdmpAGcDt3wAZwTh+gBnBeH5AGcIpOsAZwmmswBnCszSAGcLqkIAZw2qQQBnD875AGcQzvoAZxLR1wBnE9HYAGcUrtIAZxWu0wBnF67UAGcY1a8AZxux5gBnHbTCAGcftMEAZyDdyABnId96AGci4fsAZyPpvQBnJsJhAGcnxGcAZyik7ABnKqW8AGcrpb0AZyyluwBnLaW+AGcupboAZzGmtgBnM8n2AGc0prUAZzWmtwBnOMnxAGc5yfAAZzrJ8wBnO8nyAGc8yfUAZz2mtABnPsnvAGc/yfQAZ0XK/QBnRqf9AGdHyv4AZ0jLQwBnSaf8AGdLy0cAZ0zLQgBnTctFAGdOp/UAZ0+n9gBnUKf3AGdRp/gAZ1OoQABnVctBAGdWp/oAZ1eoQQBnWctAAGday0YAZ1yn+QBnXctEAGdep/sAZ1+n9ABnYKf+AGdqqlcAZ2zM1ABnbapDAGdvqk0AZ3CqTgBncapGAGdyqlgAZ3OqSABndMzcAGd1qlMAZ3bM1wBnd6pJAGd4zOYAZ3nM5wBneszfAGd7zNgAZ3yqVgBnfczkAGd+qlEAZ3+qTwBngczlAGeDzOMAZ4TM2wBnhczTAGeGzNoAZ4eqSgBniapQAGeLqkQAZ4zM3gBnjczdAGeOzNUAZ5CqUgBnkczhAGeSzNYAZ5OqVQBnlMzoAGeVqkUAZ5eqTABnmMzZAGeZzOIAZ5qqVABnnKpHAGedqksAZ5/M4ABnrs9bAGevrFwAZ7CsaQBnss9WAGezz0wAZ7SsYgBntc9KAGe2rFsAZ7fPRQBnuKxlAGe5z1IAZ7rO/gBnu89BAGfAz0QAZ8HO+wBnws9RAGfDz2EAZ8SsYABnxc9GAGfGz1gAZ8jO/QBnyc9fAGfKz2AAZ8vPYwBnzM9aAGfNz0sAZ87PUwBnz6xmAGfQrFkAZ9GsYQBn0qxtAGfTrFYAZ9SsWABn2M9DAGfZrGoAZ9qsYwBn289dAGfcz0AAZ92sbABn3qxnAGffz0kAZ+KsawBn489QAGfkz0gAZ+WsZABn5s9cAGfnz1QAZ+msXgBn6s9iAGfrz0cAZ+ysWgBn7c9ZAGfuz08AZ++sXwBn8M9VAGfxrFcAZ/LO/ABn86xoAGf0ruMAZ/WsXQBn9s9OAGf3z00AZ/jPQgBn+s9eAGf8z1cAZ/+sVQBoEtHsAGgTruoAaBTR7QBoFtHhAGgXrt8AaBiu6wBoGtHaAGgc0eMAaB3R6wBoH9HZAGgg0fQAaCGu1QBoJdHzAGgm0e4AaCjR7wBoKa7dAGgqrugAaCvR5QBoLdHmAGgu0fAAaC/R5wBoMdHiAGgy0dwAaDPR3QBoNNHqAGg10eQAaDiu1gBoOa7aAGg60fIAaDvR3gBoPK7mAGg9ruIAaECu5QBoQa7sAGhCrtsAaEOu5wBoRNHpAGhFrukAaEau2ABoSK7XAGhJ0dsAaEvR3wBoTK7gAGhN0fEAaE7R6ABoT9HgAGhQruQAaFGu4QBoU67ZAGhUrtwAaGvVxABobdW0AGhu1bUAaG/VuQBocdXIAGhy1cUAaHTVvgBoddW9AGh2se0AaHfVwQBoeNXQAGh51bAAaHvV0QBofNXDAGh91dUAaH7VyQBof7HsAGiA1ccAaIGx5wBogrH8AGiDsfIAaIWx9gBohrH1AGiH1bEAaInVzgBoitXUAGiL1cwAaIzV0wBoj9XAAGiQ1bIAaJHV0gBoktXCAGiTseoAaJSx9wBoltXLAGiXsfAAaJvVygBonNWzAGidsfgAaJ+x+gBooNXNAGihsfsAaKKx6QBoo9W6AGik1c8AaKex7wBoqLH5AGip1bwAaKrVxgBoq9W3AGis1bsAaK2x9ABortW2AGivsegAaLCx8QBosbHuAGiy1b8AaLOu3gBotNnAAGi1sesAaMSx8wBoxtnDAGjH2dkAaMjZzgBoybTWAGjLtNEAaMzZvQBozbTSAGjO2c0AaNDZxgBo0dnTAGjStM4AaNPZqwBo1NnVAGjVtMQAaNbZswBo17THAGjYtMYAaNq01wBo3NmtAGjd2c8AaN7Z0ABo37TJAGjgtMUAaOHZuwBo47TQAGjk2bYAaObZ0QBo57TMAGjo2ckAaOnZ1gBo6tmwAGjr2bUAaOzZrwBo7rTLAGjv2cIAaPDd3gBo8dmxAGjytM8AaPPZugBo9NnSAGj1tMoAaPbZtwBo99m0AGj42cUAaPm0zQBo+rTDAGj7tNkAaPzZyABo/dnHAGkE2awAaQW0yABpBtnUAGkH2bwAaQjZvgBpCtnLAGkL2coAaQzZqgBpDbTTAGkOtNUAaQ/ZsgBpENm5AGkR2cEAaRK01ABpE9m4AGkU2cQAaRXZ1wBpF9nMAGkl2dgAaSrZrgBpL93yAGkwt6YAaTLd8ABpM93bAGk03eAAaTXd2QBpN93sAGk43csAaTnd0gBpO93qAGk83fQAaT3d3ABpP93PAGlA3eIAaUHd5wBpQt3TAGlE3eQAaUXd0ABpSN3XAGlJ3dgAaUq3qABpS93rAGlM3ekAaU7dzABpT93uAGlR3e8AaVLd8QBpU7esAGlUt6QAaVbVuABpV93UAGlY3eYAaVnd1QBpWrehAGlbt7EAaVzd7QBpXbevAGlet6sAaV/dygBpYLejAGli3c0AaWO3sABpZd3dAGlm3ckAaWi3qQBpad3hAGlq3dEAaWu3qgBpbN3aAGltt34AaW602ABpb93jAGlw2b8AaXHdzgBpdN3oAGl1t6UAaXbd5QBpd7eiAGl43d8AaXm3rQBpet3WAGl73fMAaYK3pwBpg97GAGmGt64AaY3iSgBpjuJIAGmQ4l4AaZHiRgBpk+JYAGmUt30AaZW6XwBpluJCAGmX4l0AaZniRwBpmuJVAGmbumQAaZy6XQBpnuJbAGmg4kAAaaHiWgBpo7pvAGmk4lEAaaXiYQBpprptAGmn4kkAaai6XgBpqeJLAGmq4lkAaau6ZwBprOJEAGmtumsAaa66YQBpr+JNAGmw4kMAabHh/ABps+JXAGm0umgAabXiYABptuH9AGm3umUAabniUwBpu7pmAGm84kUAab3iUABpvuJMAGm/4k4AacG6YABpwuJfAGnDum4AacTiTwBpxuJiAGnJ4f4AacriVABpy7pjAGnMumwAac26agBpzuJBAGnP4lYAadC6aQBp07piAGnU4lIAadniXABp4uXVAGnk5dEAaeXlzQBp5uXhAGnn5d4Aaei8zQBp6+XlAGns5dQAae282ABp7uXbAGnx5dAAafLl2gBp87zVAGn05e4Aafbl6wBp9+XdAGn45c4Aafvl4gBp/OXkAGn9vNEAaf7l2ABp/+XTAGoA5coAagG8zgBqArzWAGoE5ecAagW81wBqBuXLAGoH5e0Aagjl4ABqCeXmAGoKvNQAag3l4wBqD+XqAGoRvNkAahO80wBqFOXcAGoV5c8Aahbl7wBqF+XMAGoY5egAahm80ABqG+XWAGod5dcAah68zwBqH7zMAGog5dIAaiG80gBqI7zLAGol5ekAaibl7ABqJ+XZAGoo6coAajLpwgBqNOm+AGo1vvYAaji+6wBqOb7wAGo6vuwAajvpzABqPOnXAGo9vuoAaj7pxABqP+nNAGpA5d8AakHpzgBqRL7xAGpG6d0Aake+9QBqSL74AGpJ6cAAaku+9ABqTenbAGpO6dwAak/p0gBqUOnRAGpR6ckAalTp0wBqVenaAGpW6dkAali+7wBqWb7tAGpa6csAalvpyABqXenFAGpe6dgAal++9wBqYOnWAGphvvMAamK+8gBqZOnQAGpm6b8AamfpwQBqaOnDAGpp6dUAamrpzwBqa77uAGpt6cYAam/p1ABqdunHAGp+wM8Aan/tRQBqgMDIAGqB7PUAaoPtQQBqhMDKAGqF7UgAaofs/ABqiez3AGqM7UkAao3s8wBqjuz+AGqQwNEAapHtRABqku1KAGqT7P0AapTAyQBqle1AAGqW7PQAapfA0ABqmu1HAGqb7PkAapzAzABqnuz7AGqf7PgAaqDA0gBqoez6AGqiwMsAaqPAzgBqpO1DAGql7PYAaqbtRgBqqO1CAGqswmMAaq3v5wBqrsJoAGqvwmkAarPCYgBqtO/mAGq27+MAarfv5ABquMJmAGq5794Aarrv4gBqu8JlAGq9798AasLCZwBqw8JkAGrF790Aasbv4QBqx+/lAGrL8lEAaszyTgBqzfJXAGrP8lYAatDyVABq0fJPAGrTw3IAatnyUABq2sNxAGrbwM0AatzyUwBq3cNwAGre8lgAat/yUgBq4PJNAGrh7+AAauXDbwBq5/JMAGro9FYAaur0VQBq6/JVAGrsxGgAau70WQBq7/RaAGrw9FQAavH0WABq8/RTAGr49dEAavn0VwBq+sTnAGr7xOUAavz1zwBrAPXSAGsC9c4AawP10ABrBMTmAGsI9uUAawn25gBrCsV2AGsL9uQAaw/34gBrEMXPAGsR9+AAaxL34QBrE/isAGsWxlYAaxf48wBrGPjxAGsZ+PIAaxr49ABrHvm7AGsgpO0AayGmuABrI6pZAGslzOkAayjPZABrLNH1AGst0fcAay/R9gBrMdH4AGsysf0AazPV1wBrNNH5AGs21dYAazfV2ABrONXZAGs52doAazq02wBrO9nbAGs82d0Aaz203ABrPrTaAGs/2dwAa0Hd+gBrQt34AGtD3fcAa0Xd9gBrRt31AGtHt7IAa0jd+QBrSbpwAGtK4mMAa0viZQBrTLpxAGtN4mQAa0682wBrULzaAGtR5fAAa1Tp3wBrVeneAGtW6eAAa1m++QBrW+1LAGtcwNMAa17v6ABrX8JqAGtg8lkAa2HFdwBrYqTuAGtjpb8Aa2SmuQBrZahCAGtmqloAa2eqWwBraqxuAGtt0foAa3K3swBrdubRAGt3vvoAa3jCawBreaTvAGt7proAa37M6wBrf6pcAGuAzOoAa4LPZQBrg6xvAGuEz2YAa4ascABriNH8AGuJru4Aa4qu7QBrjNXeAGuN1dwAa47V3QBrj9XbAGuR1doAa5TZ3gBrldnhAGuWtN4Aa5fZ3wBrmLTdAGuZ2eAAa5vd+wBrnuJmAGuf4mcAa6DiaABrouXzAGuj5fIAa6S83ABrpeXxAGum5fQAa6fp4QBrquniAGur6eMAa63tTABrrsDUAGuvwmwAa7DyWgBrssToAGuzyV8Aa7WscQBrts9nAGu3ru8Aa7qx/gBrvLTfAGu92eIAa7+3tQBrwLe0AGvD4mkAa8TiagBrxbzdAGvGvN4Aa8fp5QBryOnkAGvJ7+kAa8r34wBry6TwAGvMyWAAa82lwABrz6hDAGvQy0gAa9KscgBr07e2AGvUpPEAa9bPaABr16xzAGvYz2kAa9rA1QBr26TyAGvezOwAa+DPagBr4tJCAGvj0kEAa+TR/gBr5tH9AGvn0kMAa+jSQABr67JAAGvsskEAa++04ABr8NnjAGvy2eQAa/PZ5QBr995BAGv43kIAa/neQABr+939AGv83f4Aa/23twBr/uJrAGv/5fcAbADl9gBsAeX1AGwC5fgAbAPp5wBsBOnmAGwFvvsAbAbp6ABsCMDWAGwJ7U0AbAvv6gBsDPJbAGwN9ucAbA+k8wBsEKXCAGwRpcEAbBOqXQBsFMlhAGwVyX4AbBamuwBsGMn3AGwZy0kAbBrLSgBsG6peAGwdzO0AbB+sdABsIM9rAGwhz2wAbCOu8ABsJK70AGwl0kQAbCau8wBsJ67xAGworvIAbCrV3wBsK7JCAGwstOMAbC604QBsL7TiAGww2eYAbDO6cgBsNKT0AGw2yaEAbDilwwBsO8mkAGw+pcYAbD/JowBsQKXFAGxBpcQAbEKoRABsQ8miAGxGyfgAbErJ/ABsS8n+AGxMykAAbE2mxQBsTqbGAGxPyfsAbFCmwQBsUsn5AGxUyf0AbFWmwgBsV6a9AGxZpr4AbFumxABsXMn6AGxdprwAbF6oRQBsX6a/AGxgpsAAbGGmwwBsZctbAGxmy1kAbGfLTABsaKhRAGxpy1MAbGqoTABsa8tNAGxty1UAbG/LUgBscKhPAGxxy1EAbHKoVgBsc8taAGx0qFgAbHaoWgBseMtLAGx6qE0AbHvLXABsfahUAGx+qFcAbIDNRQBsgahHAGyCqF4AbIOoVQBshMtOAGyFqEoAbIaoWQBsh8tWAGyIqEgAbImoSQBsis1DAGyLy08AbIyoUABsjahbAGyOy10AbI/LUABskKhOAGySqFMAbJPM7gBslKhcAGyVy1cAbJaoUgBsmKhdAGyZqEYAbJrLVABsm6hLAGycy1gAbJ3NRABsq6pqAGysqnoAbK3M9QBsrqpxAGywzUsAbLGqYgBss6plAGy0zUIAbLbM8wBst8z3AGy4qm0AbLmqbwBsusz6AGy7qnYAbLyqaABsvapmAGy+qmcAbL+qdQBswM1HAGzBqnAAbMLM+QBsw8z7AGzEqm4AbMWqcwBsxsz8AGzHzUoAbMmsdQBsyqp5AGzMqmMAbM3NSQBsz81NAGzQzPgAbNHNTwBs0s1AAGzTqmwAbNTM9ABs1aprAGzWqn0AbNeqcgBs2czyAGzaz3UAbNuqeABs3Kp8AGzdzUEAbN7NRgBs4Kp+AGzhqncAbOKqaQBs46pfAGzlqmQAbOfM9gBs6KpgAGzpzU4AbOvM8ABs7MzvAGztzP0AbO7M8QBs76p7AGzwrvUAbPGqdABs8sz+AGzzqmEAbPWspgBs+c1MAG0Az3wAbQHPoQBtA8+kAG0Ez3cAbQfPpwBtCM+qAG0Jz6wAbQrPdABtC6x2AG0MrHsAbQ3SSQBtDqytAG0Pz6UAbRDPrQBtEc97AG0Sz3MAbRbSZABtF6x+AG0Yz6IAbRnPeABtGs96AG0brKUAbR3PfQBtHqx9AG0fz3AAbSDPqABtIs+rAG0lrHoAbSesqABtKM9tAG0prKoAbSqseABtK6yuAG0sz6kAbS3PbwBtLqyrAG0v0l4AbTDNSABtMax8AG0yrHcAbTPPdgBtNM9uAG01rKwAbTaspABtN8+jAG04rKkAbTmspwBtOs95AG07rKEAbTzPcQBtPayiAG0+rKMAbT/PcgBtQM+mAG1BrHkAbULPfgBtWNJMAG1Zrv0AbVqvQwBtXtJVAG1f0lsAbWDSVwBtYdJKAG1i0k0AbWPSRgBtZNJHAG1lr0oAbWau+gBtZ9JWAG1o0l8AbWmvRQBtaq72AG1sr0AAbW3STgBtbq9CAG1v0k8AbXDSWQBtdK9EAG110mgAbXbSSABtd678AG14rvsAbXmvSABtetJFAG170mYAbXzSWgBtfdJnAG1+0mEAbX/SUwBtgNJiAG2C0lwAbYPSZQBthNJjAG2Fr0kAbYbSVABth675AG2IrvgAbYmvQQBtiq9HAG2L0mAAbYyvRgBtjdJRAG2OskMAbZDSaQBtkdJQAG2S0ksAbZOu/gBtlK9LAG2VrvcAbZfSWABtmNJdAG2qsmUAbavV4QBtrNXlAG2uslIAba+yUABtsrJHAG2z1eMAbbTV4gBttbJbAG231egAbbiyVQBtutX6AG271kcAbbyyRABtvdX3AG2+1fAAbb+yZwBtwNXgAG3C1fwAbcSyZABtxbJYAG3GsmMAbceyTgBtyNXsAG3J1f4AbcrV9gBty7JPAG3MskkAbc3WRQBtz9X9AG3Q1kAAbdGyUQBt0rJZAG3T1kIAbdTV6gBt1dX7AG3W1e8AbdfWRABt2LJeAG3ZskYAbdqyXABt29X0AG3c1fIAbd3V8wBt3rJTAG3f1e4AbeDV7QBt4bJIAG3i1ecAbePWRgBt5LJKAG3l1fEAbeayaABt6LJiAG3p1eYAbeqyXwBt67JdAG3ssmYAbe3V+ABt7rJhAG3v0lIAbfDV+QBt8bJgAG3y1kEAbfOyRQBt9NX1AG31slcAbfbV6QBt97JWAG35slQAbfqyTABt+7JLAG382ecAbf3WQwBuANXrAG4D2fwAbgWyTQBuGbVBAG4asloAbhu07gBuHNn2AG4dtPwAbh/Z6gBuILTrAG4htOcAbiLaSQBuI7TtAG4ktPEAbiW07ABuJrT1AG4n2k0AbijaRABuK9nxAG4stPoAbi209ABuLtn9AG4vtOQAbjDaSgBuMdpDAG4ytOgAbjPZ9wBuNLT3AG412lUAbjbaVgBuOLTlAG452kgAbjq0+QBuO9n7AG482e0Abj3Z7gBuPrT9AG4/2fIAbkDZ+QBuQdnzAG5DtPsAbkS1RABuRdnvAG5G2egAbkfZ6QBuSdnrAG5KtOoAbkvZ+ABuTbT4AG5OtUIAblHZ+gBuUtpTAG5T2ksAblS05gBuVdpRAG5WtPIAbli08ABuWtpXAG5btO8AblzaQQBuXdn0AG5e2f4Abl+1RwBuYNpFAG5h2kIAbmLZ8ABuY7VDAG5k2k8AbmXaTABuZtpUAG5ntOkAbmjaQABuabVGAG5r2kcAbm608wBub7T2AG5x2kYAbnK1RQBuc9n1AG501eQAbnfaUABueNpOAG552lIAbojZ7ABuibVAAG6N3mEAbo7eYABuj95GAG6Qt70AbpLeXwBuk95JAG6U3koAbpa3xwBul95oAG6Yt8IAbpneXgBum95DAG6ct8gAbp23vgBunt5SAG6f3kgAbqDeSwBuod5jAG6it7gAbqPeagBupN5iAG6lt8EAbqbeVwBup7fMAG6qt8sAbqu3xQBurt5pAG6vt7kAbrDeVQBusd5MAG6y3lkAbrPeZQButLfNAG62t7sAbrfeVABuud5NAG66t8QAbry3wwBuvd5QAG6+3loAbr/eZABuwN5HAG7B3lEAbsK3vABuw95bAG7Et8kAbsW3wABuxt5OAG7Ht78AbsjeRQBuyd5TAG7K3mcAbsu0/gBuzLqwAG7N3lYAbs7ibABuz95YAG7Q3mYAbtG3xgBu0t5PAG7Tt7oAbtS3ygBu1bzwAG7W3kQAbtjeXQBu3N5cAG7r4qoAbuy6rQBu7eJ9AG7u4qQAbu+6ogBu8eJuAG7yuq8AbvS6dwBu9eJtAG724rAAbve6sQBu+OJxAG754qMAbvvicwBu/OKzAG794q8Abv66dQBu/7qhAG8A5lMAbwG6rgBvArp9AG8D4m8AbwXirgBvBrqjAG8H4qsAbwjiuABvCeJ1AG8K4n4Abw3itgBvDuKsAG8PunwAbxLifABvE7p2AG8UunQAbxW6qABvGOJ6AG8Z4ncAbxrieABvHOKyAG8e4rcAbx/itQBvILp6AG8h4rkAbyK6fgBvI7qnAG8l4nAAbybl+gBvJ+J5AG8pungAbyq6rABvK7qpAG8sunsAby3ipQBvLuJ0AG8vuqoAbzDipwBvMbqkAG8yuqYAbzO6cwBvNeKpAG824qEAbzficgBvOLqlAG854rEAbzritABvO+J7AG884qgAbz66eQBvP7zfAG9A4qYAb0Hl+QBvQ+KtAG9O4nYAb0/mRABvUOZOAG9RvOIAb1LmTQBvU+ZZAG9UvOQAb1XmSwBvV+ZPAG9YvO8Ab1rmRgBvW7znAG9d5lIAb17p8ABvX7zzAG9gvPIAb2HmVABvYuZDAG9j5l4Ab2S87QBvZrzjAG9n5lcAb2nmWwBvauZgAG9r5lUAb2zmSQBvbbzmAG9uvOkAb2+88QBvcLzsAG9y5kwAb3PiogBvduZIAG935l8Ab3i86ABverzrAG975mEAb3y84ABvfeZWAG9+5fsAb3/mXABvgMDfAG+C5koAb4S84QBvheZFAG+GvOUAb4fl/ABviLqrAG+J5kEAb4vmWgBvjOZCAG+N5kAAb4686gBvkOZYAG+S5f4Ab5PmUQBvlOZQAG+V5l0Ab5bmRwBvl7zuAG+e6fMAb6C/SQBvob7+AG+i6kAAb6Pp6wBvpL9BAG+l6fcAb6a/SABvp79DAG+o6fUAb6ntTwBvqun7AG+r6kIAb6zp+gBvrenpAG+u6fgAb6/qRABvsOpGAG+xvv0Ab7LqRQBvs79EAG+0v0oAb7a/RwBvuOn+AG+5v0YAb7rp+QBvvOntAG+96fIAb7/p/QBvwL9FAG/Bv0IAb8K+/ABvw79AAG/E6fEAb8bl/QBvx+nsAG/I6e8Ab8nqQQBvyun0AG/L6eoAb8ztTgBvzepDAG/O6e4Ab8/p/ABv1O1RAG/VwOMAb9jA1wBv28DbAG/c7VMAb93tWQBv3u1XAG/fwNkAb+DA2gBv4cDhAG/i7VoAb+PtUgBv5MDcAG/m7VYAb+ftVQBv6O1bAG/pwOIAb+vA3QBv7MDgAG/t7VQAb+7A5ABv78DeAG/wwOUAb/HA2ABv8u1YAG/07VAAb/fv9wBv+sJxAG/77/QAb/zv9gBv/sJvAG//7/IAcADv8wBwAe/uAHAE6fYAcAXv7wBwBsJwAHAH7+sAcAnCbQBwCu/4AHALwm4AcAzv7ABwDe/tAHAO7/EAcA/CcwBwEcJyAHAU7/AAcBXDeABwFvJfAHAX8mUAcBjDeQBwGfJcAHAaw3YAcBvDcwBwHPJnAHAdw3cAcB/DdABwIPJeAHAh8mEAcCLyYgBwI/JjAHAk8mYAcCbv9QBwJ/JdAHAow3UAcCnyZABwKvJoAHAr8mAAcC/0XQBwMMRqAHAx9GAAcDLEawBwM/RoAHA09F8AcDX0XABwN/ReAHA49GIAcDn0ZQBwOvRkAHA79GcAcDz0WwBwPsRpAHA/9GMAcED0ZgBwQfRpAHBC9GEAcEP10wBwRPXUAHBF9dgAcEb12QBwSPXWAHBJ9dcAcEr11QBwTMTpAHBRxXgAcFL26wBwVfboAHBW9ukAcFf26gBwWMV5AHBa9+UAcFv35ABwXfivAHBexfQAcF/4rQBwYPiwAHBh+K4AcGL49QBwY8ZXAHBkxmUAcGX5owBwZvlsAHBo+aIAcGn50ABwavnRAHBrpPUAcHCmxwBwccpBAHB0y14AcHaoXwBweKhiAHB6y18AcHyoYABwfahhAHCCzVgAcIPNWgBwhM1VAHCFzVIAcIbNVABwiqqkAHCOqqIAcJHNVgBwkqqjAHCTzVMAcJTNUABwlaqhAHCWzVcAcJjNUQBwmaqlAHCazVkAcJ/PrwBwoc+zAHCkrLcAcKnPtgBwq6yvAHCsrLIAcK2stABwrqy2AHCvrLMAcLDPsgBwsc+xAHCzrLEAcLTPtABwtc+1AHC3z64AcListQBwuqywAHC+z7AAcMXSdwBwxtJ4AHDH0nkAcMivUABwyq9MAHDL0m4AcM3SdgBwztJ7AHDPr1EAcNHSbABw0tJyAHDT0msAcNTSdQBw19JxAHDYr00AcNmvTwBw2tJ6AHDc0moAcN3SbQBw3tJzAHDg0nQAcOHSfABw4tJwAHDkr04AcO+ybQBw8NZOAHDz1lAAcPTWTABw9tZYAHD31koAcPjWVwBw+bJpAHD61kgAcPvaWwBw/NZSAHD9smwAcP/WUwBxANZWAHEC1loAcQTWTwBxBtZUAHEJsmoAcQqyawBxC9ZZAHEM1k0AcQ3WSQBxDtZbAHEQ1lEAcRPWVQBxF9ZLAHEZtUgAcRq1SQBxG9plAHEctU8AcR7aWQBxH9piAHEg2lgAcSG1TABxItpgAHEj2l4AcSXaXwBxJrVKAHEo2mMAcS7aXABxL9paAHEwtUsAcTHaXQBxMtphAHE2tU0AcTraZABxQd5wAHFC3ncAcUPeeQBxRN6hAHFGt9oAcUfeawBxSbfSAHFL3noAcUy31wBxTd6iAHFOt84AcVDefQBxUt5tAHFT3n4AcVTebABxVrfcAHFY3ngAcVm3zwBxWt6jAHFct9QAcV3ecQBxXrfZAHFf3nwAcWDebwBxYd52AHFi3nIAcWPebgBxZLfRAHFlt9gAcWa31gBxZ7fTAHFot9sAcWm30ABxat51AHFst9UAcW61TgBxcN57AHFy3nMAcXjedABxe+LBAHF9urQAcYDivQBxgeLDAHGC4r8AcYS6tgBxheK+AHGG4sIAcYfiugBxieK8AHGKurUAcY/iwABxkOK7AHGSurcAcZS6sgBxl+LEAHGZurMAcZrmZwBxm+ZkAHGc5nAAcZ3magBxnuZsAHGfvPQAcaDmZgBxoeZuAHGk5m0AcaXmawBxp+ZxAHGovPcAcanmaABxquZvAHGsvPUAca/mYwBxsOZlAHGxvPYAcbLmYgBxs+ZyAHG15mkAcbjqSgBxub9RAHG86lUAcb3qUwBxvr9LAHG/6kkAccDqTABxwepNAHHC6kgAccO/VQBxxL9WAHHF6kcAccbqVgBxx+pRAHHIv08Accm/TABxyupQAHHL6k4Acc6/UgBxz+pSAHHQv00AcdK/TgBx1OpPAHHVv1AAcdbqSwBx2OpUAHHZv1MAcdrqVwBx2+pYAHHcv1QAcd/A5wBx4MDuAHHh7VwAceLtYgBx5O1gAHHlwOoAcebA6QBx58DmAHHo7V4AcezA7ABx7cDrAHHuwOgAcfDtYQBx8e1dAHHy7V8AcfTA7QBx+MJ3AHH57/sAcfvCdABx/MJ1AHH97/0Acf7CdgBx/+/6AHIB7/kAcgLybAByA+/8AHIF8m0AcgbDegByB/JrAHIK8moAcgzyaQByDcN7AHIQxGwAchP0agByFPRrAHIZ9dwAchr12wByG8TqAHId9doAch727AByH/btAHIi9+YAciP4sQByJvj2AHIn+bwAcijGeQByKfnGAHIqpPYAciyqpgByLaqnAHIwrLgAcjXA7wByNqT3AHI4qqgAcjmvUgByOrfdAHI7pPgAcj2ybgByPrq4AHI/yWIAckHPtwByQtJ9AHJE4sUAckbA8AByR6T5AHJIqqkAcknPuABySs+5AHJL2mYAcky1UAByT96kAHJSt94AclPixgByVrz4AHJYw3wAclmk+gByWtpnAHJbpPsAcl2myQByXspCAHJfpsgAcmCoZQByYahkAHJiqGMAcmPLYAByZ6qqAHJpqqsAcmrNWwBybM+6AHJuz70Acm+sugBycM+7AHJyrLkAcnPPvABydKy7AHJ20qIAcnfSoQByeNJ+AHJ5r1MAcnvWXQByfNZeAHJ9sm8Acn7WXAByf9ZfAHKAtVIAcoGycAByhLVRAHKF2msAcobaagByiNpoAHKJ2mkAcovabAByjN6mAHKN3qUAco7eqQBykN6oAHKR3qcAcpK6uQByk+LJAHKV4sgAcpa6ugByl+LHAHKY5nMAcprmdABym7z5AHKd6lkAcp7qWgByofJyAHKiw30AcqPycQBypPJwAHKl8m4AcqbybwByp8TrAHKo9GwAcqn27gByqvj3AHKspPwAcq7JpQByr6XHAHKwyaYAcrTKQwBytcpEAHK6y2YAcr3LYgByv8thAHLAqqwAcsHLZQBywqhnAHLDy2MAcsSoZgByxctnAHLGy2QAcsnNXwByys++AHLLzV0AcszNZAByzqqtAHLQqrAActHNZQBy0s1hAHLUzWIActbNXABy16qvAHLYzV4ActmqrgBy2s1jAHLczWAAct/PwgBy4Ky9AHLhrL4AcuPPxQBy5M+/AHLmz8QAcujPwABy6ay8AHLqz8MAcuvPwQBy89KoAHL00qUAcvbSpwBy969YAHL4r1cAcvmvVQBy+tKkAHL70qkAcvyvVABy/a9WAHL+0qYAcv/WZwBzANKjAHMB0qoAcwfWYgBzCNZmAHMK1mUAcwvabgBzDNp5AHMP1mgAcxHWYwBzEtptAHMTsnQAcxaycwBzF9ZhAHMY1mQAcxmydQBzG7JyAHMcsnEAcx3WYABzHtZpAHMi2nAAcyPadwBzJbVUAHMm2nYAcyfacwBzKbVWAHMt2nUAczDabwBzMdpxAHMy2nQAczPacgBzNLVVAHM12ngAcza1UwBzN7ffAHM63q0AczverABzPN6qAHM+t+IAcz+34QBzQN6uAHNC3qsAc0PiygBzRLq7AHNFt+AAc0nesABzSt6vAHNM4s0Ac03iywBzTrz6AHNQurwAc1HizABzUuZ2AHNXvPsAc1jmdQBzWeZ+AHNa5n0Ac1vmewBzXeZ6AHNe5ncAc1/meABzYOZ5AHNh5nwAc2LmoQBzZepfAHNm6lwAc2fqXQBzaL9XAHNp6lsAc2rqYQBza+pgAHNs6l4Ac27tZABzb+1lAHNwwPEAc3LA8gBzc+1jAHN1wnkAc3bv/gBzd8J4AHN4w34Ac3rDoQBze8RtAHN89G4Ac330bQBzfvXdAHN/9u8Ac4DFegBzgffoAHOC9+cAc4P36QBzhKXIAHOFz8YAc4avWQBzh7J2AHOI1moAc4mlyQBzismnAHOLpP0Ac47KRQBzkstsAHOTy2oAc5TLawBzlctoAHOWqGgAc5fLaQBznc1tAHOfqrMAc6DNawBzoc1nAHOizWoAc6TNZgBzpaq1AHOmzWkAc6iqsgBzqaqxAHOrqrQAc6zNbABzrc1oAHOyrMIAc7OsxQBztM/OAHO1z80Ac7bPzABzt6y/AHO4z9UAc7nPywBzu6zBAHO80q8Ac77P0gBzv8/QAHPArMQAc8LPyABzw8/TAHPFz8oAc8bP1ABzx8/RAHPIz8kAc8qswABzy8/WAHPMz8cAc82swwBz0tK0AHPT0qsAc9TStgBz1tKuAHPX0rkAc9jSugBz2dKsAHPa0rgAc9vStQBz3NKzAHPd0rcAc96vXwBz4K9dAHPj0rEAc+XSrQBz59KwAHPo0rsAc+nSsgBz6q9eAHPrz88Ac+2vWgBz7q9cAHP01ngAc/XWbQBz9tZrAHP41mwAc/rWcwBz/NZ0AHP91nAAc/6yewBz/9Z1AHQA1nIAdAHWbwB0A7J5AHQE1m4AdAWydwB0BrJ6AHQH1nEAdAjWeQB0Ca9bAHQKsngAdAvWdwB0DNZ2AHQNsnwAdBbafgB0GtqhAHQbtWAAdB3apwB0INqpAHQh2qIAdCK1WgB0I9qmAHQk2qUAdCW1WwB0JrVhAHQotWIAdCnaqAB0KrVYAHQr2n0AdCzaewB0LdqjAHQu2noAdC+1XwB0MNp8AHQx2qQAdDLaqgB0M7VZAHQ0tV4AdDW1XAB0NrVdAHQ6tVcAdD+36QB0QN63AHRBt+gAdELeuwB0RN6xAHRG3rwAdEresgB0S96zAHRN3r0AdE7eugB0T964AHRQ3rkAdFHetQB0Ut60AHRU3r4AdFW35QB0V962AHRZt+oAdFq35AB0W7frAHRct+wAdF635wB0X7fmAHRi4s4AdGO6vgB0ZLq9AHRn4tMAdGm8/AB0arq/AHRtusEAdG7i1AB0b7fjAHRwusAAdHHi0AB0cuLSAHRz4s8AdHXi0QB0eearAHR85qoAdH3mpwB0fr1AAHR/6mIAdIC9QQB0geamAHSDvP4AdIXmqAB0hualAHSH5qIAdIjmqQB0ieajAHSK5qQAdIu8/QB0kO1pAHSS6mYAdJTqZQB0lepnAHSX7WYAdJi/WgB0mupjAHScv1gAdJ6/XAB0n79bAHSg6mQAdKHqaAB0o79ZAHSl7W0AdKbA9QB0p8J6AHSowPYAdKnA8wB0qu1qAHSr7WgAdK3tawB0r+1uAHSwwPQAdLHtbAB0su1nAHS18EIAdLbwRQB0t/J1AHS48EAAdLr0bwB0u/BGAHS9w6IAdL7wRAB0v8J7AHTA8EEAdMHwQwB0wvBHAHTD8nYAdMXydAB0ysOjAHTL8nMAdM/EbgB01MTtAHTV9vEAdNbE7AB01/bzAHTY9vAAdNn28gB02sXQAHTb+LIAdNylygB03c1uAHTe0rwAdN/SvQB04LJ9AHTh3r8AdOK/XQB048OkAHTkxXsAdOX4swB05qXLAHTozW8AdOmiYAB07M/XAHTuz9gAdPTSvgB09dK/AHT2sn4AdPeyoQB0+9qrAHT93sIAdP7ewQB0/97AAHUA4tUAdQLi1gB1A+LXAHUEusIAdQfmrQB1COasAHUL6mkAdQy/XgB1Db9fAHUP7XIAdRDtbwB1Ee1wAHUS7XEAdRPwSQB1FPBIAHUVwnwAdRbydwB1F/XeAHUYpcwAdRqsxgB1HLKiAHUd3sMAdR+lzQB1IdLAAHUisqMAdSW1YwB1JrVkAHUopc4AdSmlzwB1KspGAHUrqGoAdSyoaQB1LazHAHUuz9kAdS/arAB1MKXQAHUxpdEAdTKl0gB1M6XTAHU3qGsAdTiobAB1OctuAHU6y20AdT2qtgB1Ps1yAHU/zXAAdUDNcQB1R8/aAHVIz9sAdUusywB1TKzJAHVOrMoAdU+syAB1VK9gAHVZr2QAdVqvYwB1W9LBAHVcr2IAdV2vYQB1X9LCAHVisqYAdWPWewB1ZNZ6AHVlsqQAdWaypQB1arVmAHVrtWUAdWzargB1b9qtAHVwsqcAdXa37QB1d97FAHV4t+4AdXnexAB1feLYAHV+5q4AdX+9QgB1gOpqAHWE7XMAdYbDpgB1h8OlAHWKxXwAdYul1AB1jM1zAHWPsqgAdZDi2QB1kbrDAHWUy28AdZXLcAB1mM10AHWZqrgAdZqquQB1naq3AHWirM8AdaOs0AB1pKzNAHWlrM4AdafP3AB1qs/dAHWrrMwAdbDSwwB1sq9oAHWzr2kAdbWyqwB1ttLJAHW4r24AdbmvbAB1utLKAHW70sUAdbyvawB1va9qAHW+r2UAdb/SyAB1wNLHAHXB0sQAdcKvbQB1xNLGAHXFr2YAdcevZwB1yrKsAHXL1qEAdczWogB1zbKtAHXO1nwAdc/WfgB10NakAHXR1qMAddLWfQB11LKpAHXVsqoAddfatgB12LVrAHXZtWoAddrasAB127VoAHXd2rMAdd61bAB139q0AHXgtW0AdeHasQB14rVnAHXjtWkAdeTatQB15tqyAHXn2q8Ade3e0gB1797HAHXwt/AAdfG38wB18rfyAHXzt/cAdfS39gB19d7TAHX23tEAdffeygB1+N7OAHX53s0Adfq39AB1+97QAHX83swAdf3e1AB1/t7LAHX/t/UAdgC37wB2AbfxAHYD3skAdgji2wB2CbrHAHYK4t8Adgu6xgB2DOLcAHYNusUAdg/eyAB2EN7PAHYR4t4AdhO6yAB2FOLgAHYV4t0Adhbi2gB2GeaxAHYa5rUAdhvmtwB2HOazAHYd5rIAdh7msAB2H71FAHYgvUMAdiG9SAB2Ir1JAHYj5rQAdiS9RgB2JeavAHYmvUcAdie6xAB2KOa2AHYpvUQAdi3qbAB2L+prAHYw6nMAdjHqbQB2MupyAHYz6m8AdjS/YAB2NepxAHY4v2EAdjq/YgB2POpwAHY96m4AdkLA+AB2Q+10AHZGwPcAdkftdwB2SO11AHZJ7XYAdkzA+QB2UPBNAHZSwqEAdlPwTgB2VsJ9AHZX8E8AdljCfgB2WfBMAHZa8FAAdlzwSgB2X8OnAHZg8ngAdmHDqAB2YsRvAHZk8EsAdmXEcAB2acTuAHZq9d8AdmzFfgB2bfb0AHZuxX0AdnD36gB2ccX1AHZyxfYAdnX5zAB2eKzRAHZ5z94Adnu1bgB2fLVvAHZ9pdUAdn6mygB2f8pHAHaBy3EAdoKobQB2hKq6AHaGrNIAdoes0wB2iKzUAHaJ1qYAdorSywB2i69vAHaOsq4Ado/WpQB2ktq4AHaTtXEAdpXatwB2lrVwAHaZ3tUAdpq9SgB2m+a7AHac5rgAdp3muQB2nua6AHak7XgAdqbwUQB2qvRxAHar9HAAdq329QB2rqXWAHavzXUAdrCvcAB2tLVyAHa13tYAdrji4QB2ur1LAHa76nQAdr3wUgB2vvRyAHa/pdcAdsKquwB2w6zXAHbEz98AdsWs2AB2xqzWAHbIrNUAdsnSzAB2yq9xAHbNr3IAds6vcwB20rKwAHbT1qcAdtSyrwB22tq5AHbbsrEAdty1cwB23d7XAHbet/gAdt+3+QB24brJAHbjusoAduS9TAB25b9kAHbm6nUAdue/YwB26e15AHbqwPoAduzwUwB27fRzAHbupdgAdu+obgB28M14AHbxzXcAdvKqvAB28812AHb0qr0AdvXNeQB298/lAHb4rNsAdvms2gB2+s/nAHb7z+YAdvys3wB2/qzeAHcBrNkAdwPP4QB3BM/iAHcFz+MAdwes4AB3CM/gAHcJrNwAdwrP5AB3C6zdAHcQ0s8AdxHS0wB3EtLRAHcT0tAAdxXS1AB3GdLVAHca0tYAdxvSzgB3HdLNAHcfr3UAdyCvdgB3ItLXAHcj0tIAdyXWsAB3J9LYAHcor3cAdymvdAB3LdaqAHcv1qkAdzHWqwB3MtasAHcz1q4AdzTWrQB3NdayAHc2srUAdzeysgB3OLK2AHc51qgAdzqytwB3O9axAHc8srQAdz3WrwB3PrKzAHdE2rwAd0XavgB3Rtq6AHdH2rsAd0ravwB3S9rBAHdM2sIAd03avQB3TtrAAHdPtXQAd1Le2wB3VN7gAHdV3tgAd1be3AB3Wd7hAHda3t0Ad1u3+gB3XLhDAHdet/0Ad1/e2QB3YN7aAHdhus4Ad2K4RgB3Y7f+AHdluEQAd2a3/AB3Z97fAHdouEUAd2ne3gB3arhBAHdrt/sAd2y4QgB3bd7iAHdu4uYAd2/i6AB3ebhAAHd84uMAd326zAB3fuLpAHd/us0Ad4Di5wB3geLiAHeC4uUAd4Pi6gB3hLrLAHeF4uQAd4e9TgB3iOa/AHeJ5r4Ad4u9UQB3jL1PAHeN5rwAd469TQB3j+a9AHeRvVAAd5XqfQB3l+qhAHeZ6n4Ad5rqdgB3m+p6AHec6nkAd53qdwB3nr9mAHefv2cAd6C/ZQB3oep4AHei6nsAd6PqfAB3pb9oAHenwUAAd6jtowB3qsD8AHer7XsAd6zA/gB3rcFBAHewwP0Ad7HtogB3su18AHezwPsAd7TtoQB3te16AHe27X4Ad7ftfQB3uvBVAHe7wqQAd7zCpQB3vcKiAHe/wqMAd8LwVAB3xPJ7AHfHw6kAd8nyeQB3yvJ6AHfM9HQAd830dwB3zvR1AHfP9HYAd9D14AB308TvAHfU9+sAd9X4tAB318X3AHfY+PgAd9n4+QB32sZmAHfbpdkAd9ys4QB33trDAHfg3uMAd+Kl2gB346hvAHflqr4Ad+fP6AB36M/pAHfpr3gAd+zaxAB37bV1AHfuuEcAd+/BQgB38O2kAHfx8nwAd/L0eAB386XbAHf3zaEAd/jNegB3+c18AHf6zX4Ad/vNfQB3/M17AHf9qr8AeAKs4gB4A8/yAHgFz+0AeAbP6gB4Cc/xAHgMrOQAeA2s5QB4Ds/wAHgPz+8AeBDP7gB4Ec/rAHgSz+wAeBPP8wB4FKzjAHgdr3wAeB+vpAB4IK+jAHgh0uEAeCLS2wB4I9LZAHglr6EAeCbWuQB4J696AHgo0t4AeCnS4gB4KtLkAHgr0uAAeCzS2gB4La+iAHgu0t8AeC/S3QB4MK95AHgx0uUAeDKvpQB4M9LjAHg0r30AeDXS3AB4N69+AHg4r3sAeEOyuQB4Rda6AHhI1rMAeEnWtQB4Sta3AHhM1rgAeE3WtgB4TrK6AHhQ1rsAeFLWtAB4XNrIAHhdtXYAeF7a0AB4YNrFAHhi2tEAeGTaxgB4ZdrHAHho2s8AeGnazgB4atrLAHhrsrgAeGy1dwB4bdrJAHhu2swAeG+1eAB4cNrNAHhx2soAeHne7gB4e97yAHh8uE4AeH7i8AB4f7hRAHiA3vAAeIH51gB4g97tAHiE3ugAeIXe6gB4ht7rAHiH3uQAeIm4TQB4jLhMAHiOuEgAeI/e5wB4kbhPAHiTuFAAeJTe5gB4ld7pAHiW3vEAeJe4SgB4mLhLAHiZ3u8AeJre5QB4nuLyAHifutAAeKDi9AB4od7sAHii4vYAeKO61AB4pOL3AHil4vMAeKe60QB4qOLvAHiputMAeKri7AB4q+LxAHis4vUAeK3i7gB4sLhJAHiy4usAeLO60gB4tOLtAHi6vVQAeLvmwQB4vL1YAHi+vVYAeMG6zwB4w+bIAHjE5skAeMW9UwB4yObHAHjJ5soAeMq9VQB4y71SAHjM5sMAeM3mwAB4zubFAHjP5sIAeNC9WQB40ebEAHjU5sYAeNW9VwB42r9qAHjb6qgAeN3qogB43uqmAHjf6qwAeODqrQB44eqpAHji6qoAeOPqpwB45eqkAHjnv2wAeOi/aQB46eqjAHjq6qUAeOy/awB47eqrAHjvwUYAePLtqgB48+2lAHj0wUUAePfBQwB4+e2sAHj6wUQAePvtqAB4/O2pAHj97aYAeP7trQB4//BWAHkBwUcAeQLtpwB5BO2uAHkF7asAeQnwWgB5DPBXAHkOwqYAeRDwWwB5EfBdAHkS8FwAeRPwWAB5FPBZAHkX8qMAeRnDqgB5G/J+AHkc8qIAeR3yfQB5HvKkAHkh8qEAeSP0egB5JPR9AHkl9HkAeSbEcQB5J/R7AHko9HwAeSn0fgB5KsRyAHkrxHQAeSzEcwB5LfXhAHkv9eMAeTH14gB5Nfb2AHk4+LUAeTn4+gB5OqXcAHk9y3IAeT6qwAB5P82jAHlAqsEAeUGqwgB5Qs2iAHlEz/gAeUXP9wB5RqzmAHlHrOkAeUis6AB5SaznAHlKz/QAeUvP9gB5TM/1AHlP0ugAeVCvpwB5UdLsAHlS0usAeVPS6gB5VNLmAHlVr6YAeVavqgB5V6+tAHlar64AeVvS5wB5XNLpAHldr6wAeV6vqwB5X6+pAHlgr6gAeWHWwgB5Y9bAAHlk1rwAeWWyuwB5Z9a9AHlosrwAeWnWvgB5ata/AHlr1sEAeW2yvQB5cNrVAHly2tQAeXPa0wB5dNrSAHl53vYAeXq4UgB5fN7zAHl93vUAeX+4UwB5gbhUAHmC3vQAeYjjQQB5iuL5AHmL4voAeY261wB5jrrVAHmPutYAeZDjQwB5kuNCAHmT4v4AeZTi/QB5leL8AHmW4vsAeZfjQAB5mOL4AHma5ssAeZvm0AB5nObOAHmg5s0AeaHmzAB5oubPAHmk6q4Aeaa/bQB5p8FIAHmo7bAAearBSQB5q+2vAHms8F8Aea3wXgB5rsKnAHmw8qUAebHDqwB5svShAHmzxaEAebT29wB5tvi3AHm3+LYAebjJqAB5uazqAHm6rOsAebvWwwB5vbhWAHm+pd0Aeb+ocgB5wKhxAHnBqHAAecXNpAB5yKrEAHnJqsMAecus7gB5zc/6AHnOz/0Aec/P+wB50azsAHnSrO0AedXP+QB51s/8AHnYr7UAedzS8wB53dL1AHne0vQAed+vsgB54NLvAHnjr7AAeeSvrwB55q+zAHnnr7EAeemvtAB56tLyAHnr0u0AeezS7gB57dLxAHnu0vAAefbWxgB599bHAHn41sUAefrWxAB5+7K+AHoAtX0AegLa1gB6A9rYAHoE2toAegW1fAB6CLV6AHoK2tcAegu1ewB6DNrZAHoNtXkAehDfQQB6Ed73AHoS3voAehPe/gB6FLhaAHoV3vwAehfe+wB6GN74AHoZ3vkAehq4WAB6G99AAHocuFcAeh64XAB6H7hbAHoguFkAeiLe/QB6JuNJAHoo40gAeivjRAB6LrrYAHov40cAejDjRgB6MbrZAHo3vV4Aejnm0gB6O71fAHo8vVsAej29XQB6P71aAHpAvVwAekTqrwB6Rr9wAHpH6rEAekjqsAB6SuNFAHpLv3IAeky/cQB6Tb9uAHpOv28AelTttQB6Vu2zAHpXwUoAeljttAB6Wu22AHpb7bIAelztsQB6X/BgAHpgwqoAemHCqAB6YsKpAHpn8qYAemjypwB6acOtAHprw6wAemz0owB6bfSkAHpu9KIAenD2+AB6cfb5AHp0pd4AenXKSAB6dqhzAHp4zaUAenmqxgB6eqrFAHp7zaYAen7QQAB6f6zvAHqAz/4AeoGs8AB6hK+2AHqF0vgAeobS9gB6h9L8AHqIr7cAeonS9wB6itL7AHqL0vkAeozS+gB6j9bIAHqQ1soAepKyvwB6lNbJAHqVssAAepa1ogB6l7WhAHqYtX4Aepna2wB6nt9EAHqfuF0AeqC4XgB6ot9DAHqj30IAeqjjSgB6qbrbAHqqutoAeqvjSwB6rONMAHquvWEAeq+9YAB6seq1AHqy5tMAerPm1QB6tObUAHq16rQAerbqsgB6t+q2AHq46rMAerq/cwB6vu23AHq/wUsAesDtuAB6we25AHrEwqsAesXCrAB6x8R1AHrKxdEAesul3wB60dBBAHrY0v0AetmvuAB637O6AHrgs7kAeuO1pAB65NrdAHrltaMAeuba3AB6699FAHrtutwAeu7jTQB677rdAHr2xHYAevf0pQB6+abLAHr6qscAevvNpwB6/azyAHr/rPEAewDQQgB7AdBDAHsE00AAewXTQgB7Bq+5AHsI00QAewnTRwB7CtNFAHsO00YAew/TQwB7ENL+AHsRr7oAexLTSAB7E9NBAHsY1tMAexmyxgB7GtbcAHsbssMAex3W1QB7HrLHAHsgssEAeyLW0AB7I9bdAHsk1tEAeyXWzgB7JrLFAHsossIAeyrW1AB7K9bXAHssssQAey3W2AB7LrLIAHsv1tkAezDWzwB7MdbWAHsy1toAezPW0gB7NNbNAHs11ssAezjW2wB7O9rfAHtA2uQAe0Ta4AB7RdrmAHtGtacAe0fWzAB7SNrhAHtJtaUAe0ra3gB7S7WsAHtM2uIAe021qwB7TtrjAHtPta0Ae1C1qAB7UbWuAHtStakAe1S1qgB7VrWmAHtY2uUAe2C4YQB7Yd9QAHtj31MAe2TfRwB7Zd9MAHtm30YAe2e4YwB7ad9KAHtt30gAe264YgB7cN9PAHtx304Ae3LfSwB7c99NAHt030kAe3W64QB7dt9SAHt3uF8Ae3jfUQB7guNdAHuEuugAe4XjWAB7h7rnAHuI404Ae4rjUAB7i7rgAHuM41UAe43jVAB7juNXAHuPuuUAe5DjUgB7keNRAHuUuuQAe5W63wB7luNTAHuXuuIAe5jjWQB7meNbAHub41YAe5zjTwB7nbrjAHugvWkAe6G63gB7pONcAHus5tkAe629YgB7r+bbAHuxvWMAe7S9ZQB7tebeAHu35tYAe7i65gB7uebcAHu+5tgAe8C4YAB7wb1oAHvEvWQAe8a9ZgB7x71nAHvJv3YAe8rm3QB7y+bXAHvMvWoAe87m2gB71OrAAHvV6rsAe9jqxQB72b90AHva6r0Ae9u/eAB73OrDAHvd6roAe97qtwB73+rGAHvgwVEAe+G/eQB74urCAHvj6rgAe+S/dwB75eq8AHvmv3sAe+fquQB76Oq+AHvpv3oAe+rqwQB76+rEAHvw7csAe/HtzAB78u28AHvz7cMAe/TtwQB798FPAHv47cgAe/nqvwB7++2/AHv97ckAe/7BTgB7/+2+AHwA7b0AfAHtxwB8Au3EAHwD7cYAfAXtugB8Bu3KAHwHwUwAfAntxQB8Cu3OAHwL7cIAfAzBUAB8DcFNAHwO7cAAfA/tuwB8EO3NAHwRv3UAfBnwYwB8HPBhAHwd8GcAfB7CsAB8H/BlAHwg8GQAfCHCsgB8IvBqAHwjwrEAfCXwawB8JvBoAHwnwq4AfCjwaQB8KfBiAHwqwq8AfCvCrQB8LPKrAHwt8GYAfDDwbAB8M/KoAHw3w7IAfDjDsAB8OfKqAHw78qwAfDzyqQB8PcOxAHw+w64AfD/DrwB8QMOzAHxDxHgAfEX0qgB8R/SpAHxI9KcAfEn0pgB8SvSoAHxMxHcAfE3EeQB8UMTwAHxT9eUAfFT15AB8V/b6AHxZ9vwAfFr2/gB8W/b9AHxc9vsAfF/FowB8YMWiAHxjxdMAfGTF0gB8ZcXUAHxm9+0AfGf37AB8afj7AHxq+LgAfGv4/AB8bMZYAHxuxlkAfG/5bQB8csZ+AHxzpswAfHXNqAB8eNBFAHx50EYAfHrQRAB8fazzAHx/0EcAfIDQSAB8gdBJAHyE00kAfIXTTwB8iNNNAHyJr7sAfIrTSwB8jNNMAHyN004AfJHTSgB8krLJAHyU1t4AfJWyywB8ltbgAHyXssoAfJjW3wB8ntroAHyfta8AfKHa6gB8otrnAHyj1uEAfKW1sAB8p/nbAHyo2ukAfK/fVgB8sbhkAHyy31QAfLO4ZQB8tN9VAHy1uGYAfLm66QB8uuNhAHy7414AfLzjYAB8vbrqAHy+uusAfL/jXwB8xebfAHzI5uAAfMq9awB8y+biAHzM5uEAfM6iYQB80OrKAHzR6ssAfNLqxwB81OrIAHzVv3wAfNa/fQB81+rJAHzZwVcAfNzBUwB83cFYAHzewVQAfN/BVgB84MFSAHziwVUAfOfCswB86O3PAHzq8q4AfOzyrQB87vSrAHzvxHoAfPDEewB88fdBAHzy9eYAfPT3QAB89vj9AHz3+aQAfPimzQB8+6h0AHz9zakAfP6qyAB9AKz2AH0B0EwAfQKs9AB9A9BKAH0ErPkAfQWs9QB9Bqz6AH0HrPgAfQjQSwB9Caz3AH0Kr78AfQuvvgB9DNNaAH0Nr8cAfQ7TUwB9D9NZAH0Qr8MAfRHTUgB9EtNYAH0T01YAfRSvwgB9Fa/EAH0W01UAfRevvQB9GNNUAH0Zr8gAfRqvxQB9G6/JAH0cr8YAfR3TUQB9HtNQAH0f01cAfSCvwAB9Ia+8AH0ir8EAfSjW8AB9KdbpAH0rtbUAfSzW6AB9LrLPAH0vstYAfTCy0wB9MbLZAH0ystgAfTOy1AB9NdbiAH021uUAfTjW5AB9ObLQAH061uYAfTvW7wB9PLLRAH091uMAfT7W7AB9P9btAH1AstIAfUHW6gB9QrLXAH1Dss0AfUSy1QB9RdbnAH1GsswAfUfW6wB9StbuAH1O2vsAfU/a8gB9ULWyAH1R2vkAfVLa9gB9U9ruAH1U2vcAfVW1tAB9VtrvAH1Y2usAfVu4bAB9XNr0AH1etbEAfV/a+gB9YbW4AH1itboAfWPa7QB9ZrW5AH1n2vAAfWi1swB9adr4AH1q2vEAfWva9QB9bdrzAH1utbYAfW/a7AB9cLW7AH1xss4AfXK1twB9c7W8AH15uGgAfXrfXQB9e99fAH1832EAfX3fZQB9f99bAH2A31kAfYG4agB9g99gAH2E32QAfYXfXAB9ht9YAH2I31cAfYzfYgB9jd9aAH2O314AfY+4awB9kbhpAH2S32YAfZO4ZwB9lN9jAH2W43IAfZy67gB9neNqAH2evXgAfZ/jdAB9oLrxAH2h43gAfaK69wB9o+NlAH2m43UAfafjYgB9qeN3AH2q42YAfay6/gB9rbr7AH2u43YAfa/jcAB9sLrtAH2xuvUAfbK69AB9tLrzAH21uvkAfbfjYwB9uLr6AH2543EAfbq69gB9u7rsAH2843MAfb267wB9vrrwAH2/uvgAfcDjaAB9weNnAH3C42QAfcTjbAB9xeNpAH3G420Afce6/QB9yeN5AH3KuvIAfcvjbgB9zONvAH3O42sAfdK6/AB91+bnAH3YvXAAfdm9eQB92r11AH3b5uQAfd29cgB93r12AH3f5vAAfeC9bAB94eboAH3jvXQAfebm6wB95+bmAH3ovXMAfem9dwB96ublAH3svXEAfe7m7wB9771uAH3w5u4AffHm7QB98r16AH3z5XIAffS9bQB99ubsAH335uMAffm9ewB9+ubqAH37vW8AfgPm6QB+CL+iAH4Jv6cAfgq/fgB+C+rYAH4M6s8Afg3q2wB+DurTAH4P6tkAfhC/qAB+Eb+hAH4S6swAfhPq0gB+FOrcAH4V6tUAfhbq2gB+F+rOAH4a6tYAfhu/owB+HOrUAH4dv6YAfh6/pQB+H+rQAH4g6tEAfiHqzQB+IurXAH4jv6QAfiTq3gB+JerdAH4p7doAfirt1gB+K8FfAH4t7dAAfi7BWQB+L8FpAH4w7dwAfjHBYQB+MsFdAH4z7dMAfjTBZAB+NcFnAH427d4AfjfBXAB+OO3VAH45wWUAfjrt4AB+O+3dAH487dEAfj3BYAB+PsFaAH4/wWgAfkDt2AB+QcFjAH5C7dIAfkPBXgB+RO3fAH5FwWIAfkbBWwB+R+3ZAH5IwWYAfknt1wB+TO3bAH5Q8G4AflHwdAB+UsK5AH5T8HcAflTCtAB+VcK1AH5W8G8AflfwdgB+WPBxAH5ZwroAflrCtwB+XPBtAH5ewrYAfl/wcwB+YPB1AH5hwrgAfmLwcgB+Y/BwAH5o8rgAfmnDtwB+asO4AH5rw7QAfm3DtQB+b/K0AH5w8rIAfnLytgB+c8O6AH508rcAfnXysAB+dvKvAH538rMAfnjysQB+ecO2AH568rUAfnv0rAB+fMR+AH59xH0Afn70rQB+gPSvAH6B9K4AfoLEoQB+hvXrAH6H9egAfoj16QB+ivXnAH6L9eoAfozE8gB+jfXsAH6PxPEAfpH3QgB+k8XVAH6UxdcAfpX37gB+lsXWAH6X+LkAfpj5QAB+mflCAH6a+P4Afpv5QQB+nMZsAH82ps4Afzis+wB/OdJvAH86r8oAfz2y2gB/Ptr8AH8/2v0Af0Pq3wB/RMFqAH9F7eEAf0jCuwB/SvK6AH9L8rkAf0zEogB/TfXtAH9P90MAf1DF+AB/UcpJAH9UqskAf1WodQB/WNBNAH9b02AAf1zTWwB/XdNfAH9e010Af1+vywB/YNNeAH9h01wAf2PW8QB/Zdr+AH9m20AAf2ffaQB/aN9qAH9puG4Af2q4bwB/a99oAH9s32sAf23fZwB/brhtAH9wu0AAf3K4cAB/c+N6AH91vXwAf3bm8QB/d719AH95v6kAf3rq4gB/e+rgAH986uEAf33t5AB/fu3jAH9/7eIAf4PyuwB/hcO5AH+G8rwAf4f3RAB/iMX5AH+J+LoAf4qmzwB/i6rLAH+MqsoAf43QTwB/jqz8AH+R0E4Af5LTYgB/lK/MAH+V1vIAf5bTYQB/mrLcAH+b1vUAf5zW8wB/ndb0AH+estsAf6DbQgB/odtDAH+i20EAf6S4cwB/pd9tAH+m32wAf6ffbgB/qLhyAH+puHEAf6zm8gB/reb0AH+vvX4Af7Dm8wB/serjAH+yv6oAf7PweQB/tfB4AH+2w7sAf7fyvQB/uMO9AH+5w7wAf7r0sAB/u/XuAH+8xPMAf72m0AB/vtBQAH+/rP0Af8DTZQB/wa/OAH/C02QAf8PTYwB/xa/NAH/H1vsAf8nW/QB/ytb2AH/L1vcAf8yy3QB/zdb4AH/Ost4Af8/W/AB/0Nb5AH/R1voAf9Ky3wB/1LW+AH/Vtb8Af9fbRAB/299vAH/c33AAf97jfgB/37tDAH/gu0EAf+G7QgB/4uN7AH/j43wAf+XjfQB/5ub5AH/o5voAf+m9oQB/6ub3AH/r5vYAf+zm+AB/7eb1AH/uv60Af+/q5AB/8L+rAH/xv6wAf/Lt5gB/88FrAH/07eUAf/XvqAB/9/B6AH/48HsAf/nCvAB/+8K9AH/8wWwAf/3yvgB//vK/AH//9LEAgADEowCAAabRAIADptIAgASs/gCABarMAIAGr88AgAfQUQCAC7XAAIAMptMAgA2tQQCADtBSAIAP0FMAgBCtQACAEa1CAIASptQAgBTQVACAFa/RAIAW02YAgBev0wCAGK/QAIAZr9IAgBvXQQCAHLLgAIAe10AAgB/W/gCAId9xAIAk46EAgCa9ogCAKL+uAIAp6uYAgCrq5QCALO3nAIAw9e8AgDOm1QCANMtzAIA1zaoAgDatQwCAN9BVAIA502gAgD2v1ACAPtNnAIA/r9UAgEPXQwCARrLiAIBH10IAgEjXRACASrLhAIBP20YAgFDbRwCAUdtFAIBStcEAgFa4dACAWLh1AIBau0UAgFzjowCAXeOiAIBeu0QAgGTm+wCAZ+b8AIBs6ucAgG/BcACAcMFvAIBxwW0AgHLBbgCAc8FxAIB18HwAgHbCvwCAd8K+AIB48sAAgHn0sgCAfcWlAIB+xaQAgH+m1gCAgtH7AICEuHcAgIW1wgCAhrh2AICHu0YAgImm1wCAismpAICLptgAgIym2QCAj82rAICQy3YAgJLLdwCAk6h3AICVy3QAgJaodgCAmKh5AICZy3UAgJqoewCAm6h6AICcy3gAgJ2oeACAoarRAICiqs8AgKPNrQCAparOAICpqtMAgKqq1QCAq6rSAICtzbAAgK7NrACAr6rWAICxqtAAgLKofACAtKrUAIC1za8AgLjNrgCAuqrNAIDC0FsAgMOtRwCAxK1IAIDF0F0AgMfQVwCAyNBaAIDJ0GMAgMrQYQCAzK1JAIDN0GcAgM6tTACAz9BkAIDQ0FwAgNHQWQCA1NtJAIDV0GIAgNatRACA19BlAIDY0FYAgNnQXwCA2q1GAIDbrUsAgNzQYACA3a1PAIDerU0AgODQWACA4a1KAIDj0F4AgOStTgCA5a1FAIDm0GYAgO2v2gCA76/jAIDwr9gAgPGv1gCA8tNqAIDzr94AgPSv2wCA9dNsAID4r90AgPnTawCA+tNpAID7024AgPyv4gCA/a/gAID+20gAgQDTbwCBAdNtAIECr9cAgQWv2QCBBq/cAIEIr98AgQqv4QCBFddOAIEWsuQAgRjXRQCBGddHAIEb10gAgR3XUACBHtdMAIEf10oAgSHXTQCBItdRAIEjsuUAgSSy6QCBJddGAIEn108AgSmy5wCBK7LmAIEs10sAgS3XSQCBL7LjAIEwsugAgTm1yACBOttRAIE9208AgT61ygCBQ9tKAIFE36EAgUa1yQCBR9tOAIFK20sAgUu1xQCBTLXLAIFN21AAgU61xwCBT9tNAIFQu0cAgVG1xgCBUttMAIFTtcwAgVS1xACBVbXDAIFb33cAgVzfdQCBXt97AIFg33MAgWHfogCBYt94AIFk33IAgWW4ewCBZrijAIFn330AgWnfdgCBa7h+AIFuuHwAgW/ffgCBcLh5AIFxuHgAgXLfeQCBc7h9AIF0tc0AgXbffACBd990AIF4uHoAgXm4oQCBeriiAIF/u0wAgYC7SACBgrtNAIGD46YAgYbjpQCBh+OnAIGIu0oAgYnjpACBirtLAIGL46oAgYzjqQCBjeOoAIGPu0kAgZXnQQCBl+dEAIGYvagAgZnnQwCBmr2nAIGbvaMAgZy9pACBnb2lAIGe50AAgZ/m/gCBoL2mAIGi50IAgaPm/QCBpurpAIGn6vMAgai/sQCBqb+wAIGr6u0Agazq7wCBrurqAIGw6u4AgbHq6ACBsurxAIGzv68AgbTq8ACBtersAIG36vIAgbnq6wCBusF0AIG77egAgbzt7gCBvcF4AIG+wXoAgb/BdwCBwMF2AIHCwXUAgcPBcwCBxO3pAIHF7ewAgcbBcgCBx+3tAIHJwXkAgcrt6wCBzO3qAIHNwsAAgc/CwQCB0PChAIHR8H0AgdLwfgCB1fLCAIHX8sEAgdjDvgCB2fS0AIHaxKQAgdv0swCB3fXwAIHe90UAgd/FpgCB4PlDAIHh+UQAgeLF2ACB46baAIHlqtcAgebbUgCB57tOAIHowXsAgent7wCB6qbbAIHsr+UAge2v5ACB7ttTAIHy6vQAgfOm3ACB9K1QAIH321QAgfjbVQCB+dtWAIH6u08Agfu/sgCB/KbdAIH+qtgAgf/QaACCAK/mAIIB03AAggKy6gCCBNtXAIIFuKQAgge7UACCCL+zAIIJwXwAggrCwgCCC/S1AIIMpt4Agg2q2QCCEK/nAIIR11IAghK1zgCCFLtRAIIV46sAghbnRQCCG6bfAIIctc8Agh3fowCCHrtSAIIfpuAAgiDNsQCCIdBpAIIirVEAgiXTcgCCKK/qAIIqr+gAgiuv6QCCLK/rAIIv03EAgjLXVwCCM9dUAII011YAgjWy6wCCNrLtAII3suwAgjjXUwCCObLuAII611UAgjzbWACCPdtZAII/21oAgkDfpgCCQt+nAIJE36UAgkXfqACCR7ilAIJJ36QAgku7UwCCTudKAIJP50YAglDnSQCCUedLAIJS50gAglPnRwCCVer1AIJW6vYAglfq9wCCWL+0AIJZv7UAglrt8QCCW+3wAIJc7fIAgl7wowCCX/CiAIJh8sQAgmPyxQCCZPLDAIJmxKUAgmj0tgCCafS3AIJr90YAgmz37wCCbfi7AIJupuEAgm+ofQCCccF9AIJypuIAgnTXWACCddtbAIJ3xkEAgnjKSgCCfMpLAIJ9yk0Agn6m4wCCf8pOAIKAykwAgoPLogCChMujAIKFy3sAgorLoQCCi6ihAIKNqKIAgo7LfACCj8t6AIKQy3kAgpHLfQCCkqh+AIKTy34AgpTQagCCmM22AIKZqtwAgprNtQCCm823AIKdqtsAgp7NvACCn6rfAIKgzbIAgqHNwACCos3GAIKjquYAgqTNwwCCparjAIKnzbkAgqjNvwCCqc3BAIKrzbQAgqyq4gCCrardAIKuzboAgq+q5ACCsKrnAIKxquEAgrOq2gCCtM2+AIK1zbgAgrbNxQCCt6rpAIK4quUAgrmq4ACCus29AIK7r+wAgrzNuwCCvareAIK+qugAgsDNswCCws3CAILDzcQAgtGtYgCC0q1cAILTrWQAgtStYQCC1dBxAILW0HQAgtetXQCC2dBrAILbrVYAgtytYACC3q1jAILfrWUAguDQogCC4dB3AILjrVUAguTQoQCC5a1ZAILmrVcAguetUgCC6NBvAILq0H4AguvQcwCC7NB2AILt0KUAgu+tZgCC8NB9AILxrV4AgvLQeACC89CkAIL00HUAgvXQeQCC9tB8AIL50G0AgvrQowCC+9B7AIL+0GwAgwDQcACDAa1fAIMCrVoAgwOtUwCDBK1YAIMFrVQAgwatZwCDB9BuAIMI06UAgwmtWwCDDNB6AIMNzkEAgxbTqACDF6/6AIMZ03YAgxvTowCDHNN9AIMe07IAgyDTqgCDItN+AIMk06kAgyXTeACDJtN8AIMn07UAgyiv/QCDKdOtAIMq06QAgyuv7QCDLNOzAIMt03QAgy/TrACDMa/8AIMyr/cAgzPTcwCDNK/1AIM1r/QAgzav+QCDN9OrAIM4r/EAgzmv+ACDOtByAIM721wAgzzTpgCDP9N6AINAr/sAg0HTewCDQtOhAINDr/4Ag0TTdQCDRdOvAINH064Ag0jTtgCDSa/zAINKr/AAg0vTtACDTNOwAINN06cAg07TogCDT6/2AINQr/IAg1HTdwCDUq/uAINT07EAg1Sv7wCDVtN5AINz114Ag3TXYACDdddlAIN213kAg3ey/ACDeLLyAIN6110Ag3uy/QCDfLL+AIN912gAg37XbwCDf9d1AIOB12IAg4PXaQCDhrNAAIOH13cAg4jXcgCDibL6AIOKsvgAg4vXbgCDjNdqAION11wAg46y7wCDj9dhAIOQ11kAg5Ky9wCDk7L5AIOU12YAg5XXYwCDlrL0AIOX13MAg5iy8QCDmddkAIOa13oAg5vXbACDnddrAIOesvAAg6Cy+wCDorLzAIOj11oAg6TXXwCDpddwAIOm13YAg6ezQQCDqNdbAIOp12cAg6rXbQCDq7L2AIOu13gAg6/XcQCDsNd0AIO9svUAg7/bbACDwNtgAIPBtdcAg8LbfQCDw9unAIPE26oAg8W11QCDxttoAIPH26MAg8jbaQCDydt3AIPKteIAg8vbcwCDzLXfAIPO23QAg8/bXQCD0dukAIPUtegAg9XboQCD1tt1AIPX26wAg9jbcACD2d/IAIPb268Ag9y15gCD3dtuAIPe23oAg9+16QCD4LXUAIPh23IAg+LbrQCD49trAIPk22QAg+XbbwCD59tjAIPo22EAg+m10ACD6tulAIPr22oAg+zbqACD7tupAIPvtdgAg/C13QCD8bXZAIPyteEAg/PbfgCD9LXaAIP123YAg/bbZgCD+LXSAIP5214Ag/rbogCD+9urAIP822UAg/214ACD/tuwAIP/23EAhAHbbQCEA7XRAIQEteUAhAbbfACEB7XnAIQJ23gAhAq13ACEC7XWAIQMtd4AhA210wCEDrXkAIQP23kAhBDbZwCEEdt7AIQS22IAhBPbpgCEG9uuAIQj218AhCnfxwCEK9/dAIQsuFUAhC3fzACEL9/KAIQw37UAhDG4qQCEMt/FAIQz39kAhDTfwQCENbixAIQ239gAhDffvwCEOLXjAIQ5388AhDrfwACEO9/WAIQ8uLAAhD24qACEP9+qAIRA37IAhELfywCEQ9/DAIRE39wAhEXfxgCERri2AIRH39cAhEm4rQCES9/JAIRM39EAhE3ftgCETt/QAIRQ3+EAhFHfsQCEUt/SAIRU398AhFbfqwCEV7XbAIRZ37kAhFrfuACEW7ivAIRd37wAhF7fvgCEX9/NAIRg394AhGG4sgCEY7izAIRl37AAhGa4qwCEZ9+0AIRo39oAhGm4tACEa7isAIRsuK4AhG24tQCEbt/gAIRv39MAhHDfzgCEc9+7AIR037oAhHW4qgCEdt+sAIR3uKcAhHjfxACEed+tAIR638IAhH3ftwCEft/bAISCuKYAhIbfswCEjd+vAISO39UAhI/frgCEkLtgAISR49MAhJTjwgCEl+OsAISY48oAhJm7WACEmuO7AISb48UAhJy7WwCEneO+AISeu1kAhJ/jrwCEoOPNAISh464AhKLjwQCEpOOtAISn478AhKjjyACEqePGAISq47oAhKvjtQCErOOzAISu47QAhK/jxwCEsOPSAISx47wAhLK7WgCEtOO3AIS248sAhLi7XQCEueO2AIS647AAhLvjwACEvLthAIS/u1UAhMC7XgCEweO4AITC47IAhMS7VwCExd/UAITGu1YAhMfjwwCEybtUAITKu2MAhMu7XACEzOPEAITN47kAhM7jsQCEz+PMAITQ470AhNG7YgCE0uPQAITTu18AhNTjzwCE1uPJAITX484AhNvj0QCE5+dzAITo53QAhOnnZwCE6udmAITr52IAhOy9tACE7r2sAITv53YAhPDndQCE8d+pAITy518AhPPnYwCE9OddAIT253AAhPfnYQCE+ed3AIT651oAhPvnWACE/OdkAIT9524AhP7naQCE/722AIUA508AhQLnbQCFBr23AIUH370AhQjnWwCFCedSAIUK51UAhQvnewCFDOdcAIUN51MAhQ7nUQCFD+dOAIURvbAAhRLnZQCFE72vAIUUvbMAhRXnYACFFudoAIUXvakAhRjneACFGed8AIUavasAhRznVwCFHedrAIUe528AhR/nVACFIOd5AIUhvbIAhSO9sQCFJOdMAIUlvbUAhSbncgCFJ+dWAIUo52oAhSnnUACFKudeAIUr51kAhSy9rQCFLb2uAIUu52wAhS/nfQCFMOd6AIUx53EAhTvnTQCFPb2qAIU+60kAhUDrQACFQetDAIVDv7sAhUTrRQCFRer5AIVG60EAhUfrRwCFSL+4AIVJv7wAhUq/tgCFTer7AIVO60wAhVHrRgCFU+r8AIVU61UAhVXrTwCFVur4AIVX7kYAhVjq/gCFWb+3AIVb60oAhV3rVACFXr+/AIVg61EAhWHq/QCFYutEAIVj60gAhWTrQgCFZetWAIVm61MAhWfrUACFaL+5AIVpv7oAhWq/vgCFa+r6AIVs61cAhW2/vQCFbutNAIVx60sAhXXrTgCFdu5TAIV37kAAhXjuRQCFee5SAIV67kQAhXvt+wCFfO5BAIV+waIAhYDt9ACFge5NAIWC7k8AhYPt8wCFhMGhAIWF7lEAhYbuSQCFh8GoAIWI7lAAhYnuQgCFisGqAIWL7fkAhYzrUgCFje5KAIWO7kcAhY/t9QCFkO5VAIWRwaQAhZTBpQCFle33AIWW7kgAhZjuVACFme5LAIWa7f0AhZvBpwCFnMGjAIWd7kwAhZ7t/gCFn+5WAIWg7fgAhaHuQwCFou5OAIWj7foAhaTt/ACFpsLLAIWn7fYAhajBqQCFqcLEAIWqwX4Aha/BpgCFsMLIAIWx8LMAhbPwqQCFtPCkAIW18KoAhbbwtACFt/C4AIW48LcAhbnCygCFusLJAIW98KsAhb7wuQCFv/CuAIXA8KYAhcLwqACFw/CnAIXE8K0AhcXwsgCFxvClAIXH8KwAhcjwsQCFycLHAIXL8K8Ahc3CxQCFzvCwAIXPwsMAhdDCxgCF0fLVAIXS8LUAhdXDwgCF1/LNAIXY8tEAhdnyyQCF2vLMAIXc8tQAhd3DwACF3vLZAIXf8tIAheHyygCF4vLaAIXj8tMAheTDwwCF5cPEAIXm8tcAhejyywCF6cO/AIXqw8EAhevyxgCF7PLOAIXt8sgAhe/y2ACF8PLWAIXx8scAhfLyzwCF9vS+AIX3w8UAhfjy0ACF+cSnAIX6xKkAhfvEpgCF/fTDAIX+9LsAhf/0uQCGAPS9AIYB9LoAhgT0vwCGBfTBAIYGxKoAhgfErACGCfTAAIYKxK0AhgvEqwCGDPTCAIYRxKgAhhfE9ACGGPXxAIYZ9fcAhhrE9gCGG/S8AIYc9fYAhh71/QCGH/X0AIYg9fsAhiH1+gCGIvS4AIYj9fUAhiTwtgCGJfX+AIYm9fMAhif1+ACGKfX8AIYq9fIAhiz3SgCGLcT1AIYu9fkAhjH39ACGMvdLAIYz90kAhjT3RwCGNfdIAIY290wAhjjF2QCGOffyAIY69/AAhjv39QCGPPfzAIY+9/YAhj/F2gCGQPfxAIZD+LwAhkb5RQCGR/lGAIZI+UcAhkv5xwCGTPm9AIZNyk8Ahk6q6gCGUK1oAIZS07gAhlPTtwCGVLBAAIZVs0IAhlbXfACGWdd7AIZbteoAhly4uACGXri3AIZfuLkAhmHj1ACGYud+AIZj61gAhmTrWgCGZetZAIZnwasAhmjuVwCGafC6AIZq+aUAhmum5ACGbc3JAIZuzcoAhm/NyACGcM3HAIZxqusAhnPQqQCGdNCnAIZ30KYAhnmtaQCGeq1rAIZ7rWoAhnzQqACGhdPEAIaG08EAhofTvwCGirBBAIaL08IAhoywRgCGjdO8AIaO08sAhpDTzQCGkdO9AIaTsEMAhpTTzgCGldPJAIaW07sAhpfTwACGmNPKAIaZ08YAhprTwwCGnLBIAIad08wAhp7TvgCGodPHAIai07kAhqOwRwCGpLBEAIal08UAhqfTyACGqNO6AIapsEUAhqqwQgCGr7NMAIaw16UAhrGzSwCGs9eoAIa016sAhrWzSACGtrNGAIa3134AhrjXqQCGudenAIa616QAhrvXrACGvNetAIa9168Ahr7XsACGv9d9AIbAs0UAhsHXogCGwtehAIbD164AhsSzRwCGxdejAIbGs0kAhsezRACGyNemAIbJs00AhsuzSgCGzNeqAIbQtfEAhtHbvwCG09u0AIbUte4Ahtbf5wCG19u9AIbY27EAhtm17ACG2tu2AIbbte8AhtzbugCG3du4AIbetfIAht+16wCG4tuyAIbj27UAhuS18ACG5tuzAIbo274AhunbvACG6tu3AIbr27kAhuzbuwCG7bXtAIb13+gAhvbf7gCG99/kAIb43+oAhvm4ugCG+t/mAIb7uMAAhv64vwCHALi+AIcB3+0AhwK4wQCHA7jCAIcE3+MAhwXf8ACHBrjDAIcHuL0Ahwi4vACHCd/sAIcKuMQAhwvf4gCHDN/lAIcN3+8Ahw7f6wCHEeP0AIcS4+kAhxO4uwCHGLtqAIcZ490Ahxrj8gCHG+PeAIccu2UAhx7j2wCHIOPkAIch49wAhyK7ZwCHI+PWAIck4/EAhyW7aACHJuPuAIcn4+8Ahyjj1wCHKbttAIcq4+YAhyzj4ACHLePnAIcu49oAhzDj8wCHMePrAIcy4+UAhzPj1QCHNLtpAIc14+wAhze7bACHOOPwAIc64+oAhzu7ZgCHPOPoAIc+4+IAhz+7ZACHQOPZAIdB4+EAh0Lj7QCHQ+PfAIdG4+MAh0y9wQCHTd/pAIdO57IAh0/nuwCHUOexAIdR560Ah1LnqgCHU73CAIdU56gAh1W7awCHVuehAIdXvcAAh1jnpwCHWb2/AIda56wAh1vnqQCHXOe5AIdd57QAh17nrgCHX+ezAIdgvbsAh2HnqwCHYue+AIdj56IAh2TnowCHZee6AIdmvbwAh2fnvwCHaL2+AIdp58AAh2rnsACHa+PYAIds57YAh23nrwCHbue4AIdv57UAh3PnpgCHdL25AId1570Ah3a9ugCHd+ekAId4vb0Ah3nrZACHeue3AId757wAh4HrYQCHgr24AIeDv8AAh4TrawCHhetnAIeH62UAh4jrYACHietvAIeNv8QAh4/rXACHkOtoAIeR62kAh5LrXwCHk+teAIeU62wAh5brYgCHl+tdAIeY62MAh5rrbgCHm+tbAIec620Ah53ragCHnr/CAIefv8EAh6K/wwCHo+tmAIek8MsAh6ruWQCHq8GxAIes7l0Ah63uWgCHru5hAIev7mcAh7DuXACHsu5wAIezwa4Ah7TuagCHte5fAIe27msAh7fuZgCHuO5tAIe57l4Ah7rBswCHu8GyAIe87mAAh73ubgCHvu5YAIe/7mwAh8DBrACHwu5kAIfD7mMAh8TuaACHxe5bAIfGwbAAh8jBtACHye5iAIfK7mkAh8vBtQCHzO5lAIfRwa0Ah9LBrwCH0/DHAIfU8MUAh9fwzACH2PDJAIfZ8M0Ah9vwvgCH3PDGAIfd8NEAh97ubwCH3/DCAIfgws8Ah+HnpQCH4vC9AIfj8MoAh+TwxACH5fDBAIfm8LwAh+fwuwCH6PDQAIfq8MAAh+vwvwCH7MLNAIft8MgAh+/CzACH8sLOAIfz8MMAh/TwzwCH9vLeAIf38t8Ah/nDyQCH+vLcAIf7w8YAh/zy5ACH/sPKAIf/8uYAiADy2wCIAfDOAIgC8ugAiAPy3QCIBcPHAIgG8uMAiAjy5QCICfLgAIgK8ucAiAvy4gCIDPLhAIgNw8gAiBD0xQCIEfTGAIgT9MgAiBTErgCIFcSvAIgW9MkAiBf0xwCIGfTEAIgb9kIAiBz2RQCIHfZBAIgfxPoAiCD2QwCIIcT5AIgixPgAiCPE9wCIJPZEAIgl91EAiCb3TwCIKPdOAIgp9kAAiCr3UACIK/ZGAIgs900AiC73+QCIL/fXAIgw9/cAiDHF2wCIMvf4AIgz9/oAiDX4vwCINsX6AIg3+L4AiDj4vQCIOcX7AIg7xloAiDz5bgCIPfmnAIg++aYAiD/5qACIQKblAIhB0KoAiEPTzwCIRNPQAIhI28AAiEr2RwCIS/jAAIhMpuYAiE2tbACITtCrAIhS17EAiFOzTgCIVdvCAIhW28EAiFe18wCIWbjFAIha58EAiFu9wwCIXb3EAIhhv8UAiGLF/ACIY6bnAIhn0KwAiGiq7QCIadCuAIhq0K0AiGutbQCIbdPRAIhv09gAiHCwSQCIcdPWAIhy09QAiHTT2wCIddPSAIh209MAiHewSgCIebBOAIh809wAiH2wTQCIftPaAIh/09cAiIDT1QCIgbBLAIiCsEwAiIPT2QCIiLNQAIiJ17IAiIuzVQCIjNfCAIiNs1QAiI7XxACIkde4AIiSs1IAiJPXwwCIldezAIiWs1MAiJfXvwCImNe7AIiZ170AiJrXtwCIm9e+AIies08AiJ/XugCIode5AIii17UAiKTXwACIp9e8AIio17QAiKrXtgCIq7NRAIis18EAiLG19gCIstvNAIi228kAiLfbywCIuNvGAIi528UAiLrbwwCIvNvKAIi928wAiL7byACIwNvHAIjBtfQAiMK19QCIydvPAIjKuM0AiMvf8gCIzN/4AIjN3/MAiM7f9ACIz/nYAIjQ3/kAiNK4zwCI1LjHAIjVuM4AiNbf8QCI19vEAIjYuMoAiNm4yACI2t/3AIjb3/YAiNy4yQCI3bjLAIje3/UAiN+4xgCI4bjMAIjn4/YAiOi7dACI6+RCAIjs5EEAiO7j+wCI77t2AIjw5EAAiPHj9wCI8uP4AIjzu24AiPS7cACI9uP9AIj34/UAiPi7cgCI+btxAIj64/kAiPvj/gCI/OP8AIj9u3MAiP7j+gCJAdvOAIkCu28AiQXnwgCJBufJAIkHvcYAiQnnzQCJCr3KAIkL58UAiQznwwCJDufMAIkQvcUAiRHnywCJEr3HAIkTvcgAiRTnxACJFb3JAIkW58oAiRfnxgCJGOfHAIkZ58gAiRq7dQCJHutwAIkf63wAiSG/ygCJIut3AIkj63kAiSW/yACJJutxAIkn63UAiSnreACJKr/GAIkrv8kAiSzrewCJLetzAIku63QAiS/regCJMOtyAIkx63YAiTK/xwCJM+5yAIk17nEAiTbBtwCJN+53AIk4wbkAiTvBtgCJPO5zAIk9wboAiT7udACJQe51AIlC7ngAiUTBuACJRvDWAIlJ8NkAiUvw0wCJTPDVAIlP8NQAiVDw1wCJUfDYAIlS7nYAiVPw0gCJVsPNAIlX8uwAiVjy7wCJWfLxAIla8uoAiVvy6wCJXPLuAIld8vAAiV7DzgCJX8PMAIlgw8sAiWHy7QCJYvLpAIlj9MoAiWTEsACJZvTLAIlp9kkAiWrE+wCJa/ZLAIlsxPwAiW32SACJbvZKAIlvxagAiXH3UgCJcsWnAIlz9/0AiXT3/ACJdvf7AIl5+UgAiXr5SQCJe/lLAIl8+UoAiX7KUACJf6boAImBrW4AiYLXxQCJg7X3AImF3/oAiYbC0ACJiPLyAImLqKMAiY+zVwCJk7NWAImV29AAiZa1+ACJl9vSAImY29EAiZvf+wCJnLjQAImd5EMAiZ7kRgCJn+RFAImh5EQAiaLnzgCJo+fQAImk588Aiaa/zACJqr/LAImswbsAia3ueQCJru57AImv7noAibLC0QCJtvL0AIm38vMAibn0zACJusSxAIm9xP0Aib73VACJv/dTAInAxlsAidKopACJ09CvAInUrW8AidXXyACJ1tfGAInZ18cAidrb1ACJ29vVAInc4EMAid3b0wCJ39/8AIng4EEAieHgQACJ4uBCAInjuNEAieTf/gCJ5d/9AInm4EQAiejkSQCJ6eRHAInr5EgAiezn0wCJ7efRAInw59IAifHrfQCJ8u58AInz7n0AifTC0gCJ9vL1AIn39M0AifjEsgCJ+vZMAIn791UAifzFqQCJ/vf+AIn/+UwAigCopQCKAq1xAIoDrXIAigTQsACKB9CxAIoIrXAAigqwVACKDLBSAIoOsFEAig+wWACKELBQAIoRsFkAihLT3QCKE7BWAIoVsFMAihawVwCKF7BVAIoYsE8AihuzXwCKHbNZAIoe18wAih+zXgCKIrNgAIojs1oAiiWzWwCKJ9fKAIoqs1gAiizXywCKLbNdAIow18kAijGzXACKNLZEAIo2tkYAijnb2ACKOrZFAIo7tfkAijy1/QCKPrjkAIo/4EkAikDb2gCKQbX+AIpE290AikXb3gCKRrZDAIpI2+AAikrb4gCKTNvjAIpN29cAik7b1gCKT9vkAIpQtkIAilHb4QCKUtvfAIpUtkAAilW1+wCKVrZHAIpX29sAiljb3ACKWdvZAIpbtkEAil61/ACKYLX6AIph4EgAimK43wCKY7jaAIpmuNUAimi45QCKabjWAIpruNIAimy44QCKbbjeAIpuuOAAinC41wCKcbjcAIpyuNMAinO41ACKdOBQAIp14E0AinbgRQCKd+BKAIp5uOIAinrgUQCKe7jjAIp8uNkAin/gRwCKgeBPAIqC4EsAioPgTgCKhOBMAIqFuN0AiobgRgCKh7jYAIqL5EwAioy7eACKjbt7AIqP5E4AipG7pQCKkuRNAIqTu30AipW9zwCKluRPAIqYu6QAipnkSwCKmrumAIqeu3kAiqC42wCKobt8AIqju3oAiqS7fgCKpbuiAIqmu3cAiqe7pwCKqLujAIqqu6EAiqvkSgCKsL3WAIqyvdIAira92QCKuOfWAIq5vdoAirrn4gCKu+fbAIq8vcsAir3n4wCKvufdAIq/vdUAisDn3gCKwr3UAIrD5+EAisS9zgCKxeffAIrG59UAise9zQCKyOuqAIrJvdMAisu90ACKzb3YAIrP59QAitHn2ACK0r3MAIrT59cAitTn2QCK1efaAIrWvdcAitfn3ACK2OfgAIrZ5+QAitu92wCK3L/SAIrd66UAit7rqwCK3+uoAIrg634AiuHrrACK4uuhAIrk66cAiua/zQCK57/TAIro660Aiuu/zwCK7b/ZAIruv9QAiu/rrwCK8OupAIrxv9AAivLrogCK87/aAIr066MAivXrpACK9r/bAIr3v9gAivi90QCK+r/OAIr767AAivy/3ACK/r/VAIr/664AiwC/0QCLAb/WAIsCv9cAiwTBwwCLBe6kAIsG7q0AiwfuqgCLCO6sAIsKwcAAiwvupQCLDe6rAIsOwbwAiw/upwCLEMHEAIsR7qMAixLuqACLE+6vAIsU66YAixXuqQCLFu6iAIsXwb0AixjuoQCLGcG+AIsa7rAAixvBvwCLHO6uAIsdwcIAix7ufgCLIMHBAIsi7qYAiyPw3ACLJPDqAIsl8OUAiybw5wCLJ/DbAIsowtMAiyrw2gCLK8LWAIsswtUAiy7w6QCLL/DhAIsw8N4AizHw5ACLM/DdAIs18N8Aizbw6ACLN/DmAIs5wtQAizrw7QCLO/DrAIs88OIAiz3w7ACLPvDjAItA8vkAi0HDzwCLQvNBAItF9k8Ai0bD1gCLR/DgAItI8vcAi0nD0gCLSvL4AItL8v0Ai07D1ACLT8PVAItQ8vYAi1HzQACLUvNCAItT8voAi1Ty/ACLVfL+AItW8vsAi1fzQwCLWMPRAItZw9cAi1rD0wCLXMPQAItd9NAAi1/EtwCLYPTOAItj9NIAi2X00wCLZsS1AItn9NQAi2j00QCLavTPAItrxLgAi2zEtACLbfTVAItvxLYAi3DEswCLdMT+AIt3xUAAi3j2TgCLefZNAIt69lAAi3v2UQCLfcVBAIt+91YAi3/3WwCLgMWqAIuC91gAi4T3VwCLhfdaAIuG91kAi4j4QwCLisXcAIuL+EIAi4z4QACLjvhBAIuSxf4Ai5PF/QCLlPjBAIuV+MIAi5bGQACLmPlNAIuZ+U4Ai5rGZwCLnMZtAIue+akAi5/5yACMN6imAIw5180AjDvXzgCMPOBSAIw95FAAjD7n5QCMP8HGAIxBwcUAjELw7gCMQ/NEAIxF+EQAjEaopwCMR9PeAIxIsFoAjEmzYQCMSuBUAIxL4FMAjEy93ACMTefmAIxOvd0AjE/usQCMUMLXAIxUxnYAjFWoqACMVs3LAIxX098AjFqzYgCMXNfPAIxd19AAjF/b5QCMYbZIAIxiuOYAjGTgVgCMZeBVAIxm4FcAjGjkUQCMaeRSAIxqu6gAjGu/3QCMbL3eAIxtv94AjG/utQCMcO6yAIxx7rQAjHLuswCMc8HHAIx18O8AjHbzRgCMd/NFAIx4y6QAjHmwXACMerBbAIx70+AAjH3X0QCMgNvnAIyB2+YAjIK2SQCMhOBZAIyF4FoAjIbgWACMibjoAIyKuOcAjIy7qgCMjbupAIyP5+cAjJDrswCMkeuxAIyS67IAjJO/3wCMlO63AIyV7rYAjJfw8gCMmPDxAIyZ8PAAjJrzRwCMnPmqAIydqKkAjJ6tcwCMoK10AIyhsF0AjKKwXgCMo9PiAIyk0+EAjKXX0gCMp7NoAIyos2YAjKmzYwCMqrNnAIyrs2UAjKyzZACMr7ZKAIyw2+oAjLK47QCMs7ZMAIy0tlEAjLXb7ACMtrZTAIy3tlIAjLi2VQCMudvrAIy62+gAjLu2TwCMvLZLAIy9tk0AjL7b6QCMv7ZUAIzAtlAAjMG2TgCMwrjvAIzDuO4AjMS47ACMxbjwAIzHuOoAjMi46wCMyrjpAIzM4FsAjM/kVACM0busAIzSu60AjNO7qwCM1eRTAIzX5FUAjNnn6gCM2ufsAIzcvecAjN3n7QCM3r3gAIzf5+kAjOC93wCM4b3pAIziveUAjOO95gCM5L3iAIzl5+gAjOa94QCM5+fuAIzo5+sAjOq96ACM7L3jAIztveQAjO7rtQCM8Ou3AIzx67YAjPPruACM9L/gAIz167QAjPjBywCM+e64AIz6wcgAjPvBzACM/MHKAIz9wckAjP7w8wCNAPD2AI0C8PUAjQTw9ACNBcLYAI0G80gAjQfzSQCNCMPYAI0J80oAjQrD2QCNDcS6AI0PxLkAjRD2UgCNE8VCAI0U9lMAjRX3XACNFsWrAI0XxawAjRn4RQCNG8ZCAI1kqKoAjWazagCNZ7NpAI1o4FwAjWngXQCNa7uuAI1s67kAjW296gCNbuu6AI1v7rkAjXCoqwCNctCyAI1zrXYAjXStdQCNdtPjAI13sF8AjXjT5ACNedfVAI1719QAjX3X0wCNgNvuAI2BtlgAjYTb7QCNhbZXAI2J2+8AjYq2VgCNjOBfAI2N4GIAjY7gYACNj+BhAI2Q4GUAjZHgXgCNkuBmAI2T4GMAjZTgZACNlbuwAI2W5FYAjZm7rwCNm+fyAI2c5/AAjZ+96wCNoOfvAI2h5/EAjaO97ACNpeu7AI2n67wAjajBzQCNqvNMAI2r804AjazzSwCNrfNNAI2u9NYAja/2VACNsvlvAI2zqKwAjbStdwCNtdPlAI220+cAjbfT5gCNudfYAI26s2wAjbzX1gCNvrNrAI2/19kAjcHX2gCNwtfXAI3F2/sAjca2YACNx9vzAI3I2/kAjcu2WwCNzLZeAI3N2/IAjc62WQCNz9v2AI3Q4GwAjdG2XQCN09vxAI3V2/cAjdbb9ACN19v6AI3Y2/AAjdnb+ACN2rZcAI3btl8Ajdzb9QCN3bZaAI3fuPIAjeDgaACN4bjxAI3i4G8AjePgbgCN5Lj4AI3muPkAjefgcACN6LjzAI3p4G0Ajeq49wCN6+ByAI3s4GkAje7gawCN77j0AI3w4GcAjfHgagCN8uBxAI3zuPUAjfTgcwCN+rj2AI38u7EAjf3kWwCN/uRhAI3/5FkAjgDkYgCOAuRYAI4D5F0AjgTkYwCOBeRgAI4G5F8AjgfkXgCOCeRXAI4K5FwAjg3kWgCOD73xAI4Qve4AjhHn+wCOEuhBAI4T6EMAjhToQACOFef4AI4W5/oAjhfoRQCOGOhCAI4Z5/wAjhroRgCOG+f5AI4c6EQAjh297wCOHr31AI4fvfMAjiDn8wCOIb30AI4ivfAAjiPn9ACOJOf2AI4l5/UAjibn/QCOJ+f+AI4pvfIAjiu97QCOLuf3AI4w68YAjjG/4gCOM+u9AI40v+MAjjW/5gCONuvCAI44678Ajjm/5QCOPOvDAI4968QAjj7rvgCOP+vHAI5A68AAjkHrxQCOQr/kAI5Ev+EAjkXrwQCOR+6/AI5IwdAAjknBzgCOSsHRAI5Lwc8AjkzuvgCOTe67AI5O7roAjlDuvQCOU+68AI5U8UUAjlXC3gCOVvD7AI5X8PoAjlnC2QCOWvFBAI5b8UAAjlzw9wCOXfFDAI5e8PwAjl/C3QCOYPD5AI5h8UIAjmLw+ACOY8LaAI5kwtwAjmXw/QCOZsLbAI5n8P4AjmnxRACOavNSAI5sw94Ajm3zTwCOb/NTAI5yw9sAjnPzUQCOdMPgAI52w90AjnjzUACOesPfAI5781QAjnzD2gCOgcS8AI6CxL4AjoT02QCOhcS9AI6G9NcAjofD3ACOiPTYAI6JxLsAjorFQwCOi8VFAI6M9lYAjo3FRACOjvZVAI6Q92EAjpHFrQCOkvdgAI6Txa4AjpT3XgCOlfddAI6W92IAjpf3YwCOmPhGAI6a918Ajp34xgCOnvjDAI6f+MQAjqD4xQCOocZcAI6j+VEAjqT5UACOpflPAI6m+XAAjqj5vgCOqfmrAI6qxm4AjquorQCOrLBgAI6yuPoAjrq99gCOvevIAI7Awt8AjsLzVQCOyfmsAI7KqK4Ajsuq7gCOzK15AI7NrXgAjs+wYwCO0dPoAI7SsGEAjtPT6QCO1LBiAI7X198AjtjX2wCO27NtAI7c194Ajt3X3QCO3tfcAI7fs24AjuDX4ACO4dfhAI7l3EMAjubcQQCO59xFAI7o3EYAjuncTACO69xIAI7s3EoAju7cQgCO79v8AI7x3EkAjvTcSwCO9dxEAI723EcAjvfb/QCO+LZiAI753EAAjvrb/gCO+7ZhAI78tmMAjv64/QCO/+B1AI8A4HcAjwHgdgCPAuB7AI8DuPsAjwXgeACPBuB0AI8H4HkAjwjgegCPCbj8AI8KuP4AjwvgfACPDeRnAI8O5GYAjxDkZACPEeRlAI8Su7MAjxO7tQCPFLuyAI8Vu7QAjxboTQCPF+hOAI8Y6EkAjxroSgCPG734AI8cvf0Ajx299wCPHr3+AI8fvfkAjyDoSwCPI+hMAI8k6EgAjyW+QACPJr37AI8pvfoAjyq9/ACPLOhHAI8u68oAjy+/6ACPMuvMAI8zv+oAjzTrzwCPNevLAI8268kAjzfrzgCPOL/pAI85680Ajzu/5wCPPsHTAI8/wdYAj0DuwQCPQsHUAI9D7sAAj0TB0gCPRcHVAI9G8UYAj0fxRwCPSPFIAI9JwuAAj0vxSQCPTcLhAI9Ow+IAj0/zWACPUPNZAI9R81cAj1LzVgCPU/NaAI9Uw+EAj1X03QCPVvTbAI9X9NwAj1j03gCPWfTaAI9a9N8Aj1v2WACPXfZZAI9e9lcAj1/FRgCPYPdkAI9hxa8Aj2L3ZQCPY/hIAI9k+EcAj5uorwCPnLZkAI+fuUAAj6O7tgCPpr/sAI+ov+sAj63D4wCPrsR8AI+vxUcAj7CosACPsbBkAI+yuUEAj7TzWwCPv8umAI/CqLEAj8SotACPxaizAI/GqLIAj8nLpQCPy83NAI/Nzc8Aj86q7wCP0arxAI/SzcwAj9PNzgCP1KrwAI/VzdEAj9bN0ACP183SAI/g0LYAj+HQtACP4q18AI/j0LMAj+StowCP5a1+AI/mrXsAj+itpACP6q19AI/rraIAj+2toQCP7tC1AI/wrXoAj/SwagCP9dPrAI/20/EAj/ewZwCP+LBuAI/6sGkAj/vT7gCP/NPwAI/9sGwAj/7T6gCP/9PtAJAAsGgAkAGwZQCQAtPsAJADsGsAkATT7wCQBbBtAJAGsGYAkAvX4wCQDNfmAJANs3AAkA+zegCQELN2AJAR1+QAkBSzfgCQFbN3AJAWs3wAkBezcgCQGbNvAJAas3EAkBuzfQCQHNflAJAds3UAkB6zeACQH7N0AJAgs3kAkCHX5wCQIrN7AJAjs3MAkCTX4gCQLdxNAJAutmUAkC/cTwCQMbZnAJAytmkAkDTcTgCQNbZmAJA2tmoAkDi2aACQPLlHAJA94KMAkD65TwCQP+B+AJBBuVAAkEK5RQCQROChAJBHuUoAkEngogCQSrlDAJBLuUIAkE25TQCQTrlMAJBPuUsAkFC5SQCQUblOAJBS4H0AkFO5RACQVLlGAJBVuUgAkFi7uACQWbu7AJBbu78AkFy7uQCQXbu+AJBeu7wAkGC7twCQYru9AJBju7oAkGfoUgCQaL5DAJBpvkEAkGvoUwCQbb5EAJBuvkIAkG/oUQCQcOhQAJByv/AAkHPoTwCQdL/uAJB1v+0AkHbr0ACQd75FAJB4v+8AkHnr0QCQer/yAJB769IAkHy/8QCQfcHYAJB+7sMAkH/B1wCQgMHcAJCBwdoAkILB2wCQg8LjAJCEwdkAkIXuwgCQhuvTAJCHwuIAkIjC5ACQisPkAJCLw+UAkI304ACQj8XeAJCQxd0AkJGotgCQlMpVAJCVsG8AkJfKUgCQmMpTAJCZylEAkJvKVACQnsuqAJCfy6cAkKDLrACQocuoAJCiqLcAkKOougCQpcupAJCmqLkAkKfLqwCQqqi4AJCvzdUAkLDN1wCQsar0AJCyzdMAkLPN1gCQtM3UAJC1qvIAkLaq9QCQuKrzAJC90LgAkL7QvACQv9C5AJDBracAkMOtqACQxdC7AJDH0L0AkMjQvwCQyq2lAJDL0L4AkM6tpgCQ1NfuAJDV0LoAkNbT8gCQ19P7AJDY0/kAkNnT9ACQ2tP1AJDb0/oAkNzT/ACQ3bBxAJDf0/cAkODT8wCQ4bBwAJDisHIAkOPT9gCQ5NP9AJDl0/gAkOizoQCQ6dfxAJDq1+kAkOvX7wCQ7NfwAJDts6IAkO/X6ACQ8NfqAJDx0LcAkPLX7ACQ89ftAJD01+sAkPW2bACQ+dxWAJD669QAkPvcVwCQ/NxUAJD9s6MAkP62bgCQ/9xTAJEA3FkAkQHcWACRArZrAJED3FwAkQTcUgCRBdxbAJEG3FAAkQfcWgCRCNxVAJEJtm0AkQvgqgCRDeClAJEO4KsAkQ/gpgCREOCkAJER4KcAkRK5UQCRFOCpAJEW4KgAkRe5UgCRGLvBAJEZu8AAkRrkbgCRG+RxAJEc5GkAkR3kbQCRHrvCAJEf5GwAkSDkagCRIeRwAJEi5GsAkSPkaACRJORvAJEm6FkAkSe+SACRKPFKAJEp6FYAkSroVwCRK+hVAJEs3FEAkS2+RwCRLuhaAJEv6FQAkTC+RgCRMb5JAJEy6FgAkTPr1QCRNL/zAJE169YAkTbr1wCROO7EAJE5wd0AkTrxSwCRO/FMAJE+8U0AkT/zXQCRQPNcAJFB9OIAkUP04QCRRPZbAJFF9lwAkUb2WgCRR/dmAJFIxbAAkUmouwCRSq2qAJFLrakAkUywdQCRTbB0AJFO1EAAkU/UQQCRUNP+AJFSsHMAkVPX9QCRVdf2AJFW1/IAkVezpACRWNfzAJFa1/QAkV/cXwCRYNxhAJFh3F0AkWLcYACRY7ZvAJFk3F4AkWW2cACRaN1zAJFpuVUAkWq5VACRbLlTAJFu4KwAkW/grQCRcuRzAJFz5HUAkXS7xgCRdbvDAJF3u8UAkXi7xACReeR0AJF65HIAkYDoYQCRgeheAJGC6F8AkYO+TQCRhOhgAJGF6FsAkYboXACRh75KAJGJvksAkYroXQCRi75MAJGN69sAkY/r3ACRkOvZAJGR69oAkZK/9ACRk+vYAJGZ7sgAkZruxQCRm+7HAJGcweAAkZ3uywCRnsHfAJGf7skAkaDuzACRoe7KAJGi7sYAkaPB3gCRpfFPAJGn8VAAkajxTgCRqvFSAJGrwuUAkazC5gCRrfNfAJGuw+cAka/xUQCRsPNeAJGxw+YAkbL05QCRs/TmAJG0xL8AkbX05ACRt/TjAJG59l0AkbrFSACRvPhJAJG9+MgAkb74xwCRwMZDAJHBxl0AkcL4yQCRw/lxAJHFxm8AkcaovACRx6r2AJHJuVYAkcvEwACRzKi9AJHNrasAkc6zpQCRz7ZxAJHQwucAkdGq9wCR09DBAJHU0MAAkdXUQgCR17B4AJHYsHYAkdmwegCR2tREAJHcsHkAkd2wdwCR4tRDAJHjs6gAkeTX/ACR5rOnAJHns6kAkejYQgCR6bOrAJHq1/4AkevYQACR7Nf3AJHts6oAke7YQwCR8df5AJHz1/oAkfTX+ACR9bOmAJH32EEAkfjX+wCR+df9AJH93G0Akf/cbACSANxqAJIB3GIAkgLccQCSA9xlAJIE3G8AkgXcdgCSBtxuAJIHtnkAkgm2dQCSCtxjAJIM3GkAkg22dwCSD9xoAJIQtngAkhG2egCSEtxrAJIUtnIAkhW2cwCSFtx3AJIX3HUAkhncdACSGtxmAJIc3HIAkh62dgCSI7Z0AJIk3HMAkiXcZACSJtxnAJIn3HAAki3kugCSLuC3AJIw4LAAkjHgwwCSMuDMAJIz4LMAkjS5YQCSNuDAAJI3uVcAkji5WQCSObllAJI64LEAkj25WgCSPrlcAJI/uWYAkkC5WwCSRblkAJJG4LkAkkjgrgCSSbliAJJK4LgAkku5XgCSTODKAJJNuWMAkk7gyACST+C8AJJQ4MYAklG5YACSUuCvAJJT4MkAklTgxACSVuDLAJJXuVgAklq5ZwCSW7ldAJJe4LUAkmDgvQCSYeDBAJJj4MUAkmS5XwCSZeC0AJJm4LIAkmfgvgCSbOC7AJJt4LoAkm/gvwCScODCAJJy4McAknbkeACSeLvHAJJ55KQAknrkegCSe7vMAJJ8u9AAkn3krQCSfuS1AJJ/5KYAkoC7yACSguSqAJKD4LYAkoW7yQCShuSxAJKH5LYAkojkrgCSiuSwAJKL5LkAkozksgCSjeR+AJKO5KkAkpG70QCSk7vNAJKU5HwAkpXkqwCSlrvLAJKX5KUAkpi7ygCSmeSzAJKa5KIAkpvkeQCSnLvOAJKd5LgAkqDkewCSoeSvAJKi5KwAkqPkpwCSpOR3AJKl5HYAkqbkoQCSp+S0AJKou88AkqnktwCSquR9AJKr5KMAkqy+UgCSsr5aAJKzvlUAkrTopACSteihAJK26GcAkre+UACSufnXAJK7vk8Akry+VgCSwOhlAJLBvlQAksLocQCSw+hjAJLE6GQAksW+TgCSxuijAJLHvlgAksjodACSyeh5AJLK6HMAksvr7gCSzOhvAJLN6HcAks7odQCSz+hoAJLQ6GIAktHofQCS0r5XAJLT6H4AktXoeACS1+htAJLY6GsAktnoZgCS3ehuAJLe6HsAkt/oagCS4Oh6AJLh6KIAkuS+UwCS5uh2AJLn6HwAkujocgCS6ehsAJLqvlEAku7kqACS7+hwAJLwvlkAkvHoaQCS9+v0AJL4v/cAkvnr8wCS+uvwAJL77EQAkvy/+wCS/uxBAJL/6/gAkwDsQwCTAevpAJMC6/YAkwS//QCTBuvhAJMI698AkwnsQgCTC+xAAJMM6/4Akw3r7QCTDuvsAJMP6+IAkxDAQACTEuvoAJMT6/IAkxTr/QCTFcBDAJMW7EUAkxjB6ACTGcBFAJMav/4Akxvr5gCTHevvAJMe694Akx/r4ACTIL/1AJMhwEIAkyK/+gCTI+vnAJMk6/cAkyXr8QCTJsBBAJMn690AkyjB4wCTKev5AJMq6/wAkyu//ACTLevrAJMuwEQAky+/+QCTM7/4AJM06/UAkzXr+wCTNr/2AJM46+QAkznr+gCTPOvlAJNG6+oAk0fu0gCTSe7XAJNKweUAk0vB5wCTTO7dAJNNweEAk07u7ACTT+7jAJNQ7tgAk1Hu2QCTUu7iAJNUwe4Ak1Xu4QCTVu7RAJNX7uAAk1ju1ACTWe7tAJNawe0Ak1vB6wCTXO7VAJNe7ugAk2Du2gCTYe7nAJNj7ukAk2Tu0ACTZcHmAJNn7uoAk2ru3gCTbMHqAJNt7tsAk3DB7ACTce7kAJN1weQAk3bu1gCTd+7lAJN57t8Ak3rr4wCTe+7mAJN87tMAk37B6QCTgO7rAJOCweIAk4PuzgCTiPFgAJOJ8VkAk4rC6QCTjPFUAJON8WMAk47xWwCTj+7cAJOR8WUAk5LxVQCTlMLoAJOV8V8Ak5bC6gCTl8LyAJOYwvAAk5nxYQCTmsLxAJOb8VcAk53xWACTnvFdAJOf8WIAk6HuzQCTosLrAJOj8WoAk6TxZwCTpfFrAJOm8V4Ak6fxWgCTqPFoAJOp82oAk6rxXACTrMLuAJOuwu0Ak6/uzwCTsMLvAJOx8WQAk7LxZgCTs8LsAJO08WkAk7XxUwCTt/FWAJPA83MAk8LzYwCTw8PrAJPE83EAk8fzYQCTyMPsAJPK82wAk8zzaACTzcPxAJPO83IAk8/zYgCT0PNlAJPRw+kAk9LzdACT1PNtAJPV83AAk9bD7wCT18P0AJPYw/IAk9nzaQCT2vNkAJPcw+0Ak93D7gCT3vNgAJPfw+oAk+HD6ACT4sPwAJPj828Ak+TD8wCT5vNrAJPn83UAk+jD9QCT7PNnAJPu824Ak/X08wCT9vVCAJP39PUAk/j0/ACT+fNmAJP69PoAk/v06QCT/PVAAJP9xMMAk/707QCT//T+AJQA9PQAlAPEwgCUBvVEAJQH9PYAlAn0+wCUCvT9AJQL9OcAlAz1QQCUDfTyAJQO9PcAlA/06wCUEPTvAJQR9UMAlBL0+QCUE/ToAJQU9OwAlBX07gCUFvT4AJQYxMEAlBn08QCUIPTqAJQo9PAAlCn2YQCUKvZmAJQrxU8AlCz2aACULsVJAJQw9mQAlDH2agCUMsVOAJQzxUoAlDXFSwCUNvZgAJQ39mcAlDjFTQCUOfZlAJQ6xUwAlDv2XwCUPPZjAJQ99mIAlD/2XgCUQPZpAJRExbEAlEX3bQCURvdwAJRH92wAlEj3bgCUSfdvAJRK92kAlEv3agCUTPdnAJRP92sAlFD3aACUUcWyAJRSxbMAlFX4SwCUV/hNAJRd+EwAlF74TgCUYMXgAJRi+EoAlGPF3wCUZMXhAJRo+MsAlGn4zACUasZEAJRr+MoAlG35UwCUbvlSAJRv+VQAlHDGXwCUcflVAJRyxl4AlHP5VgCUdPlyAJR1+XUAlHb5dACUd8ZoAJR4+XMAlHzGcgCUfcZwAJR+xnEAlH/GdwCUgPnAAJSB+cEAlIL5vwCUg/nJAJV3qvgAlXrYRACVe9x4AJV86KUAlX3zdgCVgKr5AJWCrawAlYOwewCVhthFAJWI2EYAlYmzrACVi7Z9AJWM3HoAlY3ceQCVjrajAJWPtnwAlZDcewCVkbZ+AJWStqIAlZO2oQCVlLZ7AJWYuWgAlZvg0ACVnODOAJWe4M8AlZ/gzQCVobvSAJWju9UAlaS71wCVpbvWAJWou9MAlam71ACVq+inAJWs6KYAla2+WwCVruioAJWw6KkAlbG+XACVtexNAJW27EsAlbfu8wCVuexJAJW67EoAlbvARgCVvOxGAJW97E4Alb7sSACVv+xMAJXA7u8AlcPu8QCVxe7yAJXGwfMAlcfu7gCVyMHyAJXJ7vAAlcrB7wCVy8HwAJXMwfEAlc3sRwCV0ML1AJXR8W4AldLxbACV0/FtAJXUwvMAldXC9gCV1sL0AJXa83cAldvzeACV3MP2AJXe9UUAld/1RwCV4PVGAJXhxMQAleLFUACV4/ZtAJXk9mwAleX2awCWHKr6AJYeyaoAliDKWACWIabpAJYiylYAliPKWQCWJMpXAJYoy64AliqowQCWLKjCAJYty7AAli6ovwCWL8uvAJYwy60AljGowACWMqi+AJY5zdgAljrN2wCWO6r9AJY8zdoAlj3N2QCWP6r8AJZAqvsAlkKrQACWQ83cAJZEqv4AlkrQxgCWS62uAJZMra8Alk2tsACWTtDHAJZP0MMAllCtrQCWUdDEAJZT0MUAllTQwgCWWLCkAJZbsKEAllzURQCWXbCiAJZesKUAll/URgCWYbB+AJZisHwAlmOwfQCWZLCjAJZqs60AlmvYSQCWbLO1AJZt2EgAlm/YSwCWcLOxAJZx2EoAlnK2qwCWc7OvAJZ0s7IAlnWzrgCWdrOzAJZ3s7QAlnizsACWfNhHAJZ9tqcAln7cfQCWgNyjAJaD3KIAloS2rACWhbaoAJaGtqkAlofcfACWiNx+AJaJ3KEAloq2pACWi7amAJaNtqoAlo62pQCWkeDTAJaS4NEAlpPg0gCWlLlqAJaVuWsAlpfg1ACWmLlpAJaZu9gAlpu72gCWnLvZAJae5LsAlqHkvACWouirAJak6KoAlqfARwCWqMBIAJap7E8AlqrASQCWrO72AJau7vQAlrDu9QCWscH0AJaz8W8AlrTD9wCWuMH1AJa5q0EAlruwpgCWvNRHAJa/2EwAlsCztgCWwbatAJbC3KQAlsPcpgCWxLavAJbFtq4Alsa2sACWx7axAJbI3KUAlsm5bgCWyrlvAJbLuW0Alsy72wCWzblsAJbO4NUAltK73ACW0+isAJbU7FAAltXASgCW1sH2AJbX8XAAltjxdACW2cL5AJba8XEAltvC+gCW3ML4AJbd8XUAlt7C+wCW3/FzAJbh83kAluLC9wCW48P4AJbl+M0AluirQgCW6bO4AJbqs7cAlu+2sgCW8NyoAJbx3KcAlvK2swCW9eDZAJb2uXMAlve5cACW+ODYAJb5uXIAlvrg1gCW+7lxAJb94NcAlv/kvQCXALvdAJcC6K8AlwS+XQCXBeitAJcGvl4Alwe+XwCXCOiuAJcJvmAAlwvsUQCXDcBOAJcOwEsAlw/AUACXEOxTAJcRwEwAlxLsUgCXE8BPAJcWwE0Alxju+QCXGe77AJccwfcAlx3u+gCXHsH4AJcf7vgAlyDu9wCXIvF3AJcj8XYAlyTC/ACXJfF4AJcm834AlyfD+gCXKPN9AJcp83oAlyrD+QCXK/N7AJcs83wAly71SACXL/VJAJcwxMUAlzLFUwCXNfZuAJc4xVEAlznFUgCXOvZvAJc9xbQAlz7FtQCXP/dxAJdCxkUAl0P4zwCXRMZHAJdG+M4Al0f40ACXSMZGAJdJ+VcAl0v5rQCXUqtDAJdWuXQAl1jkvgCXWuiwAJdbwFEAl1zAUgCXXqtEAJdgvmEAl2HD+wCXYq2xAJdmwFMAl2jF4gCXaa2yAJdq2E0Al2zcqQCXbtyrAJdw3KoAl3Lg3QCXc+DaAJd0uXUAl3a5dgCXd+DbAJd44NwAl3rkwACXe+TFAJd8u94Al33kvwCXfuTBAJd/5MgAl4DkwwCXgeTHAJeC5MQAl4PkwgCXhOTGAJeFu98Al4joswCXiuixAJeLvmMAl42+YgCXjuiyAJePvmQAl5TsVgCXl+xVAJeYwFQAl5nsVACXmu78AJec7v4Al53vQQCXnu9AAJegwfkAl6Hu/QCXovGhAJejwv0Al6TxfQCXpfGiAJemwv4Al6jxewCXqvF+AJer8XwAl6zxeQCXrcNAAJeu8XoAl7PzoQCXtvOjAJe386IAl7n1SgCXu/VLAJe/9nAAl8HFtwCXw8W2AJfE+E8Al8X4UACXxsZIAJfH+NEAl8nGaQCXy62zAJfMtrQAl83kygCXzuTJAJfP6LUAl9DotACX08H6AJfU70MAl9XvQgCX1vGlAJfX8aMAl9jxpgCX2fGkAJfcw/wAl93zpACX3vOlAJff86YAl+H2cQCX4/dyAJfl+NIAl+2ttACX8OxXAJfx70QAl/OttQCX9rvgAJf47FgAl/nDQQCX+vGnAJf7w/0Al/31TACX/vVNAJf/xVQAmAD4UQCYAa22AJgCs7sAmAOzvACYBNhOAJgFtrUAmAa2tgCYB9ysAJgItrcAmAq5egCYDLl8AJgN4N8AmA7g4ACYD+DeAJgQuXcAmBG5eACYErl7AJgTuXkAmBbkywCYF7vhAJgYu+IAmBvovACYHL5nAJgd6LcAmB7otgCYIOi7AJghvmUAmCTAWwCYJui4AJgn6L0AmCjougCYKei5AJgrvmYAmC3AWQCYL+xaAJgwwFUAmDLsWwCYNexZAJg3wFgAmDjAVgCYOcBaAJg7wFcAmEHvRQCYQ+9KAJhE70YAmEXvSQCYRsH7AJhI7dQAmEnvSACYSu9HAJhMw0QAmE3DQgCYTsNFAJhPw0MAmFDxqACYUfGpAJhS8aoAmFPDRgCYV/OqAJhYxEAAmFnzqACYW8RBAJhc86cAmF3zqQCYXsP+AJhf9VEAmGD1TgCYYvVPAJhj9VAAmGT2cgCYZcVWAJhnxVUAmGn3dACYavdzAJhrxbgAmG/F4wCYcMZJAJhxxmAAmHL5WACYc/muAJh0+a8AmKittwCYqdytAJis4OEAmK3kzACYruTNAJivu+MAmLG75ACYsui+AJizvmgAmLbB/ACYuPGrAJi6w0cAmLvzrQCYvMRCAJi986wAmL7zrgCYv/OrAJjA9nUAmMH1UgCYwvVTAJjExMYAmMb2dACYyfZzAJjL93UAmMz5sACY2624AJjfrbkAmOKwpwCY49RIAJjl2E8AmOe2uACY6ba7AJjqtrkAmOvcrgCY7ba9AJjvtroAmPK2vACY9Ll+AJj24OIAmPng4wCY+ujAAJj8uX0AmP25oQCY/rmiAJkA5M8AmQLkzgCZA7vlAJkFu+YAmQfk0ACZCOi/AJkJu+gAmQq+aQCZDLvnAJkQwFwAmRHowQCZEr5rAJkTvmoAmRTowgCZFejFAJkW6MMAmRfoxACZGL5sAJkawGEAmRvAXwCZHsBeAJkf7F0AmSHAYACZJOxcAJkl70sAmSfsXgCZKMBdAJkp7F8AmSrvTgCZK+9MAJks700AmS3vUgCZLsNLAJkv71EAmTDvVACZMe9TAJky71AAmTPvTwCZNcH9AJk68a4AmTzxrQCZPcNKAJk+w0gAmT/DSQCZQfGsAJlD87EAmUXEQwCZR/OwAJlI868AmUnERACZS/VYAJlM9VcAmU71VQCZUPVUAJlRxMgAmVLExwCZU/VZAJlU93YAmVXFuQCZVvZ3AJlXxVcAmVj2dgCZWfVWAJlb93cAmVzF5ACZXsZhAJlf+VkAmWH5sQCZlq26AJmX2FAAmZjvVQCZma27AJmc5NIAmZ3k0QCZnuxgAJmh71cAmaPvVgCZpcNMAJmm87IAmafzswCZqMTJAJmr+bIAmaywqACZrba/AJmutr4Ama/g5ACZsODmAJmxuaQAmbLg5QCZs7mjAJm0uaUAmbXg5wCZueTUAJm65NYAmbvk1QCZveTYAJnBu+kAmcLk1wCZw+TTAJnH5NkAmcnozACZy+jPAJnM6NEAmc3oxwCZzujLAJnP6MgAmdC+bgCZ0b5xAJnSvnMAmdPoyQCZ1OjKAJnVvnIAmdbozQCZ1+jQAJnY6M4Amdm+dACZ275wAJnc6MYAmd2+bQCZ375vAJniwGMAmePsZgCZ5OxkAJnl7GMAmefsaQCZ6exoAJnq7GcAmezsYgCZ7cBiAJnu7GEAmfDsZQCZ8cBkAJn071oAmfbvXgCZ9+9bAJn4710AmfnvXACZ+u9ZAJn7718AmfzvYgCZ/e9gAJn+72EAmf/CQACaAcH+AJoC71gAmgPvYwCaBPGzAJoF8bYAmgbxuACaB/G3AJoJ8bEAmgrxtQCaC/GwAJoN8bIAmg7DTQCaD/GvAJoR8bQAmhTzwACaFfO1AJoWxEUAmhnERgCaGvO0AJob87kAmhzzvwCaHfO3AJoe874AmiDzuwCaIvO6AJoj870AmiTzuACaJfO2AJon87wAmin1YACaKvVeAJorxMoAmiz1XQCaLfVjAJou9WEAmjDEywCaMfVcAJoy9VoAmjT1WwCaNcTNAJo29V8AmjfEzACaOPViAJo59ngAmjr2fgCaPfZ5AJo+xVsAmj/2oQCaQMVaAJpB9n0AmkL2fACaQ8VZAJpE9nsAmkXFWACaRvZ6AJpI930Amkn3oQCaSvd+AJpM93sAmk3FuwCaTvd4AJpP93wAmlD3owCaUveiAJpT93kAmlT3egCaVcW6AJpW+FIAmlfF5wCaWfhTAJpaxeUAmlvF5gCaXvjTAJpfxkoAmmD5dgCaYsZqAJpk+bMAmmXGawCaZvm0AJpn+bUAmmj5wwCaafnCAJpqxnoAmmv5zQCaqLCpAJqr4OkAmq3g6ACar7vqAJqwu+sAmrHk2gCas+jSAJq07GwAmre+dQCauMBlAJq57GoAmrvsbQCavMBmAJq+72QAmr/sawCawPG5AJrBw04AmsLzwQCaxvVmAJrH9WQAmsr1ZQCazfaiAJrPxVwAmtD3pACa0cXqAJrSxbwAmtPF6ACa1MXpAJrV+NQAmtbGYgCa2LCqAJrc8boAmt/USQCa4bmmAJrj5NsAmua77ACa5+TcAJrr6NQAmuzo0wCa7cBoAJruvnYAmu++dwCa8ejXAJry6NYAmvPo1QCa9uxuAJr37HEAmvnscACa+uxvAJr7wGcAmvzvaACa/e9mAJr+72UAmwHvZwCbA8NPAJsE8bwAmwXxvQCbBsNQAJsI8bsAmwrzwwCbC/PCAJsM88UAmw3ERwCbDvPEAJsQ9WcAmxH1aQCbEvVoAJsV9qMAmxb2pgCbF/akAJsY9qUAmxn3pQCbGsW9AJse+FQAmx/4VQCbIPhWAJsixksAmyPGYwCbJPm2AJslsKsAmye+eACbKMBpAJsp8b4Amyv3pgCbLvnEAJsv1EoAmzHGewCbMrCsAJsz7HIAmzXxvwCbN/PGAJs69qcAmzv3pwCbPLCtAJs+5N0Amz/k3gCbQbvtAJtCu+4Am0Po2QCbRL56AJtFvnkAm0bo2ACbSO9pAJtK8cAAm0vxwgCbTPHBAJtNw1MAm07DUgCbT8NRAJtRxV4Am1L2qACbVMVdAJtV96kAm1b3qACbWMZMAJtZ+NUAm1qzvQCbW+DqAJtf5OEAm2Dk3wCbYeTgAJtk6OIAm2bo3QCbZ+jaAJto6OEAm2zo4wCbb758AJtw6OAAm3Ho3ACbdOjbAJt16N8Am3bo3gCbd757AJt67H0Am3vseACbfOx2AJt97KEAm37sdwCbgOxzAJuC7HkAm4XsdACbhu9yAJuH7HUAm4jsogCbkOx8AJuRwGoAm5LsewCbk+x6AJuV7H4Am5rvagCbm+9tAJue72wAm6DvdACboe9vAJui73MAm6TvcQCbpe9wAJum724Am6jvawCbqsJDAJurwkIAm63CRACbrsJBAJuv73UAm7XxyACbtvHLAJu48ckAm7nxzQCbvfHOAJu/8cYAm8DDWACbwfHHAJvD8cUAm8TxzACbxvHEAJvH8cMAm8jDVwCbycNVAJvKw1QAm9PxygCb1PPPAJvV89UAm9bESgCb1/PQAJvZ89MAm9rz1wCb28RLAJvc89IAm97zygCb4PPJAJvh89YAm+LzzQCb5PPLAJvl89QAm+bzzACb58RJAJvoxEgAm+rzxwCb6/PIAJvs89EAm/DzzgCb9/VsAJv49W8Am/3DVgCcBfVtAJwG9XMAnAf1cQCcCPVrAJwJ9XYAnAv1agCcDcTPAJwO9XIAnBL1bgCcE8TOAJwU9XUAnBf1dACcHParAJwd9qoAnCH2sQCcI/atAJwk9rAAnCXFYACcKPauAJwp9q8AnCv2qQCcLPasAJwtxV8AnDHFvwCcMve0AJwz968AnDT3swCcNve2AJw397IAnDn3rgCcO8XBAJw897EAnD33tQCcPsXAAJw/96wAnED1cACcQfewAJxE960AnEb3qgCcSPerAJxJxb4AnEr4WgCcS/hcAJxM+F8AnE34WwCcTvhgAJxQ+FkAnFL4VwCcVMXrAJxV+F0AnFbF7QCcV8XsAJxY+FgAnFn4XgCcXvjaAJxfxk0AnGD42wCcYvjZAJxj+NYAnGb42ACcZ/jXAJxo+VoAnG35XACcbvlbAJxx+XkAnHP5eACcdPl3AJx1+XoAnHfGcwCceMZ0AJx5+coAnHr5zgCc5bO+AJzm3K8AnOfg7QCc6bmnAJzq4OsAnO3g7ACc8eTiAJzy5OMAnPO78QCc9LvvAJz15OQAnPa78ACc9+joAJz56OsAnPro5QCc++jsAJz86OQAnP3o5gCc/+jnAJ0A6OoAnQO+oQCdBOjvAJ0F6O4AnQa+fQCdB+jpAJ0I6O0AnQm+fgCdEOysAJ0SwG8AnRTspwCdFcBrAJ0X7KQAnRjsqgCdGeytAJ0bwHAAnR3sqQCdHuymAJ0f7K4AnSDspQCdIuyrAJ0jwGwAnSXsowCdJsBtAJ0owG4AnSnsqACdLe+pAJ0u73oAnS/vewCdMO9+AJ0x73wAnTPvdgCdNu95AJ0376UAnTjvfQCdO8JFAJ0976cAnT7vpACdP8JGAJ1A76YAnUHvdwCdQu+iAJ1D76MAnUXvoQCdSvHSAJ1L8dQAnUzx1wCdT/HRAJ1Rw1kAnVLx2QCdU/HQAJ1U8doAnVbx1gCdV/HYAJ1Y8dwAnVnx1QCdWvHdAJ1b8dMAnVzxzwCdXcNaAJ1f8dsAnWDDWwCdYcRNAJ1n73gAnWjz8QCdafPoAJ1qxE8AnWvz5ACdbMRQAJ1v8+0AnXDz5wCdcfPdAJ1yxE4AnXPz6gCddPPlAJ118+YAnXfz2ACdePPfAJ158+4AnXvz6wCdffPjAJ1/8+8AnYDz3gCdgfPZAJ2C8+wAnYTz2wCdhfPpAJ2G8+AAnYfz8ACdiPPcAJ2JxEwAnYrz2gCdi/PhAJ2M8+IAnZD1fQCdkvV7AJ2U9aIAnZb1rgCdl/WlAJ2Y9XwAnZn1eACdmvWnAJ2b9X4AnZz1owCdnfV6AJ2e9aoAnZ/1dwCdoPWhAJ2h9aYAnaL1qACdo/WrAJ2k9XkAnab1rwCdp/WwAJ2o9akAnan1rQCdqvWkAJ2s9sEAna32xACdr8VhAJ2x9sMAnbL2yACds/bGAJ20xWIAnbX2vQCdtvazAJ239rIAnbjFZACdufa/AJ269sAAnbv2vACdvPa0AJ2+9rkAnb/1rACdwfa1AJ3CxWMAncP2uwCdxfa6AJ3H9rYAncj2wgCdyva3AJ3L97sAncz2xQCdzfbHAJ3O9r4Anc/2uACd0Pe8AJ3R974AndL3uACd08XCAJ3V98UAndb3wwCd18XDAJ3Y98IAndn3wQCd2ve6AJ3b97cAndz3vQCd3ffGAJ3e97kAnd/3vwCd4fhpAJ3i+G4AneP4ZACd5PhnAJ3lxe4Aneb4awCd6PhyAJ3p98AAnev4ZQCd7PhvAJ3t+HMAne74agCd7/hjAJ3w+G0AnfL4bACd8/hxAJ30+HAAnfX3xACd9vhoAJ33+GIAnfj4ZgCd+cZOAJ36xk8Anfv4YQCd/fjmAJ3++N0Anf/45QCeAPjiAJ4B+OMAngL43ACeA/jfAJ4E+OcAngX44QCeBvjgAJ4H+N4Angn45ACeC/ldAJ4N+V4Ang/5YACeEPlfAJ4R+WIAnhL5YQCeE/l8AJ4U+XsAnhX5twCeF/m4AJ4Z+cUAnhrGeACeG8Z8AJ4d+c8Anh7GfQCedbO/AJ55xNAAnnr2yQCefMZQAJ59xlEAnn+zwACegODuAJ6CuagAnoPo8ACehuywAJ6H7LEAnojsrwCeie+rAJ6K76oAnovCRwCejPHfAJ6N76wAno7x3gCekfPzAJ6SxFEAnpPEUwCelPPyAJ6XxFIAnpn1sQCemvWzAJ6b9bIAnpz2ygCencVlAJ6fxe8AnqD46ACeofljAJ6k+dIAnqWzwQCep+TlAJ6pvqIAnq3sswCeruyyAJ6w760AnrTEVACetcTRAJ6298cAnrf5ywCeu7PCAJ68u/IAnr6+owCewPP0AJ7C+HQAnsO2wACeyO+uAJ7MxmQAns22wQCezr6kAJ7PwkgAntD4dQCe0bbCAJ7T6PEAntTAcgCe1ey0AJ7W7LUAntjAcQCe2u+vAJ7bwkwAntzCSgCe3cJLAJ7ewkkAnt/x4ACe4MNcAJ7k9bUAnuX1tACe5vW3AJ7n9bYAnujE0gCe6/bLAJ7t9s0Anu72zACe78VmAJ7w98gAnvL4dgCe8/h3AJ70xfAAnvX5ZACe9vl9AJ73xnUAnvncsACe+uy2AJ7777AAnvzz9QCe/eDvAJ7/77EAnwDx4gCfAfHhAJ8G+HgAnwfGUgCfCfllAJ8K+X4Anw65qQCfD+jyAJ8Q6PMAnxLstwCfE7mqAJ8Vw10Anxbx4wCfGPbPAJ8ZxWcAnxr20ACfG/bOAJ8c+HkAnx746QCfILmrAJ8i77QAnyPvswCfJO+yAJ8l8eQAnyjx6ACfKfHnAJ8q8eYAnyvx5QCfLMNeAJ8t8/YAny71uQCfL8TTAJ8w9bgAnzH20QCfMvfLAJ8z98oAnzTFxACfNffJAJ82+HwAnzf4ewCfOPh6AJ87u/MAnz3suACfPsJNAJ9A8/cAn0Hz+ACfQvfMAJ9D+H0An0b46gCfR/lmAJ9I+bkAn0n51ACfSrv0AJ9Lwk4An0zx6QCfTfP5AJ9O9tIAn0/4fgCfUr6mAJ9U77UAn1Xx6gCfVvP6AJ9X8/sAn1jz/ACfWfW+AJ9b9boAn1zFaACfXfW9AJ9e9bwAn1/E1ACfYPW7AJ9hxNYAn2PE1QCfZPbUAJ9l9tMAn2bFaQCfZ8VqAJ9qxcYAn2v3zQCfbMXFAJ9u+KMAn2/4pACfcPiiAJ9x+KEAn3LGVACfdPjrAJ91+OwAn3b47QCfd8ZTAJ94+WcAn3n5agCfevlpAJ97+WgAn3750wCfjcBzAJ+Qw2UAn5H1vwCfkvbVAJ+UxccAn5X3zgCfmPnVAJ+cwHQAn6DvtgCfovfPAJ+k+aEA4AD6QADgAfpBAOAC+kIA4AP6QwDgBPpEAOAF+kUA4Ab6RgDgB/pHAOAI+kgA4An6SQDgCvpKAOAL+ksA4Az6TADgDfpNAOAO+k4A4A/6TwDgEPpQAOAR+lEA4BL6UgDgE/pTAOAU+lQA4BX6VQDgFvpWAOAX+lcA4Bj6WADgGfpZAOAa+loA4Bv6WwDgHPpcAOAd+l0A4B76XgDgH/pfAOAg+mAA4CH6YQDgIvpiAOAj+mMA4CT6ZADgJfplAOAm+mYA4Cf6ZwDgKPpoAOAp+mkA4Cr6agDgK/prAOAs+mwA4C36bQDgLvpuAOAv+m8A4DD6cADgMfpxAOAy+nIA4DP6cwDgNPp0AOA1+nUA4Db6dgDgN/p3AOA4+ngA4Dn6eQDgOvp6AOA7+nsA4Dz6fADgPfp9AOA++n4A4D/6oQDgQPqiAOBB+qMA4EL6pADgQ/qlAOBE+qYA4EX6pwDgRvqoAOBH+qkA4Ej6qgDgSfqrAOBK+qwA4Ev6rQDgTPquAOBN+q8A4E76sADgT/qxAOBQ+rIA4FH6swDgUvq0AOBT+rUA4FT6tgDgVfq3AOBW+rgA4Ff6uQDgWPq6AOBZ+rsA4Fr6vADgW/q9AOBc+r4A4F36vwDgXvrAAOBf+sEA4GD6wgDgYfrDAOBi+sQA4GP6xQDgZPrGAOBl+scA4Gb6yADgZ/rJAOBo+soA4Gn6ywDgavrMAOBr+s0A4Gz6zgDgbfrPAOBu+tAA4G/60QDgcPrSAOBx+tMA4HL61ADgc/rVAOB0+tYA4HX61wDgdvrYAOB3+tkA4Hj62gDgefrbAOB6+twA4Hv63QDgfPreAOB9+t8A4H764ADgf/rhAOCA+uIA4IH64wDggvrkAOCD+uUA4IT65gDghfrnAOCG+ugA4If66QDgiPrqAOCJ+usA4Ir67ADgi/rtAOCM+u4A4I367wDgjvrwAOCP+vEA4JD68gDgkfrzAOCS+vQA4JP69QDglPr2AOCV+vcA4Jb6+ADgl/r5AOCY+voA4Jn6+wDgmvr8AOCb+v0A4Jz6/gDgnftAAOCe+0EA4J/7QgDgoPtDAOCh+0QA4KL7RQDgo/tGAOCk+0cA4KX7SADgpvtJAOCn+0oA4Kj7SwDgqftMAOCq+00A4Kv7TgDgrPtPAOCt+1AA4K77UQDgr/tSAOCw+1MA4LH7VADgsvtVAOCz+1YA4LT7VwDgtftYAOC2+1kA4Lf7WgDguPtbAOC5+1wA4Lr7XQDgu/teAOC8+18A4L37YADgvvthAOC/+2IA4MD7YwDgwftkAODC+2UA4MP7ZgDgxPtnAODF+2gA4Mb7aQDgx/tqAODI+2sA4Mn7bADgyvttAODL+24A4Mz7bwDgzftwAODO+3EA4M/7cgDg0PtzAODR+3QA4NL7dQDg0/t2AODU+3cA4NX7eADg1vt5AODX+3oA4Nj7ewDg2ft8AODa+30A4Nv7fgDg3PuhAODd+6IA4N77owDg3/ukAODg+6UA4OH7pgDg4vunAODj+6gA4OT7qQDg5fuqAODm+6sA4Of7rADg6PutAODp+64A4Or7rwDg6/uwAODs+7EA4O37sgDg7vuzAODv+7QA4PD7tQDg8fu2AODy+7cA4PP7uADg9Pu5AOD1+7oA4Pb7uwDg9/u8AOD4+70A4Pn7vgDg+vu/AOD7+8AA4Pz7wQDg/fvCAOD++8MA4P/7xADhAPvFAOEB+8YA4QL7xwDhA/vIAOEE+8kA4QX7ygDhBvvLAOEH+8wA4Qj7zQDhCfvOAOEK+88A4Qv70ADhDPvRAOEN+9IA4Q770wDhD/vUAOEQ+9UA4RH71gDhEvvXAOET+9gA4RT72QDhFfvaAOEW+9sA4Rf73ADhGPvdAOEZ+94A4Rr73wDhG/vgAOEc++EA4R374gDhHvvjAOEf++QA4SD75QDhIfvmAOEi++cA4SP76ADhJPvpAOEl++oA4Sb76wDhJ/vsAOEo++0A4Sn77gDhKvvvAOEr+/AA4Sz78QDhLfvyAOEu+/MA4S/79ADhMPv1AOEx+/YA4TL79wDhM/v4AOE0+/kA4TX7+gDhNvv7AOE3+/wA4Tj7/QDhOfv+AOE6/EAA4Tv8QQDhPPxCAOE9/EMA4T78RADhP/xFAOFA/EYA4UH8RwDhQvxIAOFD/EkA4UT8SgDhRfxLAOFG/EwA4Uf8TQDhSPxOAOFJ/E8A4Ur8UADhS/xRAOFM/FIA4U38UwDhTvxUAOFP/FUA4VD8VgDhUfxXAOFS/FgA4VP8WQDhVPxaAOFV/FsA4Vb8XADhV/xdAOFY/F4A4Vn8XwDhWvxgAOFb/GEA4Vz8YgDhXfxjAOFe/GQA4V/8ZQDhYPxmAOFh/GcA4WL8aADhY/xpAOFk/GoA4WX8awDhZvxsAOFn/G0A4Wj8bgDhafxvAOFq/HAA4Wv8cQDhbPxyAOFt/HMA4W78dADhb/x1AOFw/HYA4XH8dwDhcvx4AOFz/HkA4XT8egDhdfx7AOF2/HwA4Xf8fQDhePx+AOF5/KEA4Xr8ogDhe/yjAOF8/KQA4X38pQDhfvymAOF//KcA4YD8qADhgfypAOGC/KoA4YP8qwDhhPysAOGF/K0A4Yb8rgDhh/yvAOGI/LAA4Yn8sQDhivyyAOGL/LMA4Yz8tADhjfy1AOGO/LYA4Y/8twDhkPy4AOGR/LkA4ZL8ugDhk/y7AOGU/LwA4ZX8vQDhlvy+AOGX/L8A4Zj8wADhmfzBAOGa/MIA4Zv8wwDhnPzEAOGd/MUA4Z78xgDhn/zHAOGg/MgA4aH8yQDhovzKAOGj/MsA4aT8zADhpfzNAOGm/M4A4af8zwDhqPzQAOGp/NEA4ar80gDhq/zTAOGs/NQA4a381QDhrvzWAOGv/NcA4bD82ADhsfzZAOGy/NoA4bP82wDhtPzcAOG1/N0A4bb83gDht/zfAOG4/OAA4bn84QDhuvziAOG7/OMA4bz85ADhvfzlAOG+/OYA4b/85wDhwPzoAOHB/OkA4cL86gDhw/zrAOHE/OwA4cX87QDhxvzuAOHH/O8A4cj88ADhyfzxAOHK/PIA4cv88wDhzPz0AOHN/PUA4c789gDhz/z3AOHQ/PgA4dH8+QDh0vz6AOHT/PsA4dT8/ADh1fz9AOHW/P4A4df9QADh2P1BAOHZ/UIA4dr9QwDh2/1EAOHc/UUA4d39RgDh3v1HAOHf/UgA4eD9SQDh4f1KAOHi/UsA4eP9TADh5P1NAOHl/U4A4eb9TwDh5/1QAOHo/VEA4en9UgDh6v1TAOHr/VQA4ez9VQDh7f1WAOHu/VcA4e/9WADh8P1ZAOHx/VoA4fL9WwDh8/1cAOH0/V0A4fX9XgDh9v1fAOH3/WAA4fj9YQDh+f1iAOH6/WMA4fv9ZADh/P1lAOH9/WYA4f79ZwDh//1oAOIA/WkA4gH9agDiAv1rAOID/WwA4gT9bQDiBf1uAOIG/W8A4gf9cADiCP1xAOIJ/XIA4gr9cwDiC/10AOIM/XUA4g39dgDiDv13AOIP/XgA4hD9eQDiEf16AOIS/XsA4hP9fADiFP19AOIV/X4A4hb9oQDiF/2iAOIY/aMA4hn9pADiGv2lAOIb/aYA4hz9pwDiHf2oAOIe/akA4h/9qgDiIP2rAOIh/awA4iL9rQDiI/2uAOIk/a8A4iX9sADiJv2xAOIn/bIA4ij9swDiKf20AOIq/bUA4iv9tgDiLP23AOIt/bgA4i79uQDiL/26AOIw/bsA4jH9vADiMv29AOIz/b4A4jT9vwDiNf3AAOI2/cEA4jf9wgDiOP3DAOI5/cQA4jr9xQDiO/3GAOI8/ccA4j39yADiPv3JAOI//coA4kD9ywDiQf3MAOJC/c0A4kP9zgDiRP3PAOJF/dAA4kb90QDiR/3SAOJI/dMA4kn91ADiSv3VAOJL/dYA4kz91wDiTf3YAOJO/dkA4k/92gDiUP3bAOJR/dwA4lL93QDiU/3eAOJU/d8A4lX94ADiVv3hAOJX/eIA4lj94wDiWf3kAOJa/eUA4lv95gDiXP3nAOJd/egA4l796QDiX/3qAOJg/esA4mH97ADiYv3tAOJj/e4A4mT97wDiZf3wAOJm/fEA4mf98gDiaP3zAOJp/fQA4mr99QDia/32AOJs/fcA4m39+ADibv35AOJv/foA4nD9+wDicf38AOJy/f0A4nP9/gDidP5AAOJ1/kEA4nb+QgDid/5DAOJ4/kQA4nn+RQDiev5GAOJ7/kcA4nz+SADiff5JAOJ+/koA4n/+SwDigP5MAOKB/k0A4oL+TgDig/5PAOKE/lAA4oX+UQDihv5SAOKH/lMA4oj+VADiif5VAOKK/lYA4ov+VwDijP5YAOKN/lkA4o7+WgDij/5bAOKQ/lwA4pH+XQDikv5eAOKT/l8A4pT+YADilf5hAOKW/mIA4pf+YwDimP5kAOKZ/mUA4pr+ZgDim/5nAOKc/mgA4p3+aQDinv5qAOKf/msA4qD+bADiof5tAOKi/m4A4qP+bwDipP5wAOKl/nEA4qb+cgDip/5zAOKo/nQA4qn+dQDiqv52AOKr/ncA4qz+eADirf55AOKu/noA4q/+ewDisP58AOKx/n0A4rL+fgDis/6hAOK0/qIA4rX+owDitv6kAOK3/qUA4rj+pgDiuf6nAOK6/qgA4rv+qQDivP6qAOK9/qsA4r7+rADiv/6tAOLA/q4A4sH+rwDiwv6wAOLD/rEA4sT+sgDixf6zAOLG/rQA4sf+tQDiyP62AOLJ/rcA4sr+uADiy/65AOLM/roA4s3+uwDizv68AOLP/r0A4tD+vgDi0f6/AOLS/sAA4tP+wQDi1P7CAOLV/sMA4tb+xADi1/7FAOLY/sYA4tn+xwDi2v7IAOLb/skA4tz+ygDi3f7LAOLe/swA4t/+zQDi4P7OAOLh/s8A4uL+0ADi4/7RAOLk/tIA4uX+0wDi5v7UAOLn/tUA4uj+1gDi6f7XAOLq/tgA4uv+2QDi7P7aAOLt/tsA4u7+3ADi7/7dAOLw/t4A4vH+3wDi8v7gAOLz/uEA4vT+4gDi9f7jAOL2/uQA4vf+5QDi+P7mAOL5/ucA4vr+6ADi+/7pAOL8/uoA4v3+6wDi/v7sAOL//u0A4wD+7gDjAf7vAOMC/vAA4wP+8QDjBP7yAOMF/vMA4wb+9ADjB/71AOMI/vYA4wn+9wDjCv74AOML/vkA4wz++gDjDf77AOMO/vwA4w/+/QDjEP7+AOMRjkAA4xKOQQDjE45CAOMUjkMA4xWORADjFo5FAOMXjkYA4xiORwDjGY5IAOMajkkA4xuOSgDjHI5LAOMdjkwA4x6OTQDjH45OAOMgjk8A4yGOUADjIo5RAOMjjlIA4ySOUwDjJY5UAOMmjlUA4yeOVgDjKI5XAOMpjlgA4yqOWQDjK45aAOMsjlsA4y2OXADjLo5dAOMvjl4A4zCOXwDjMY5gAOMyjmEA4zOOYgDjNI5jAOM1jmQA4zaOZQDjN45mAOM4jmcA4zmOaADjOo5pAOM7jmoA4zyOawDjPY5sAOM+jm0A4z+ObgDjQI5vAONBjnAA40KOcQDjQ45yAONEjnMA40WOdADjRo51AONHjnYA40iOdwDjSY54AONKjnkA40uOegDjTI57AONNjnwA406OfQDjT45+AONQjqEA41GOogDjUo6jAONTjqQA41SOpQDjVY6mAONWjqcA41eOqADjWI6pAONZjqoA41qOqwDjW46sAONcjq0A412OrgDjXo6vAONfjrAA42COsQDjYY6yAONijrMA42OOtADjZI61AONljrYA42aOtwDjZ464AONojrkA42mOugDjao67AONrjrwA42yOvQDjbY6+AONujr8A42+OwADjcI7BAONxjsIA43KOwwDjc47EAON0jsUA43WOxgDjdo7HAON3jsgA43iOyQDjeY7KAON6jssA43uOzADjfI7NAON9js4A436OzwDjf47QAOOAjtEA44GO0gDjgo7TAOODjtQA44SO1QDjhY7WAOOGjtcA44eO2ADjiI7ZAOOJjtoA44qO2wDji47cAOOMjt0A442O3gDjjo7fAOOPjuAA45CO4QDjkY7iAOOSjuMA45OO5ADjlI7lAOOVjuYA45aO5wDjl47oAOOYjukA45mO6gDjmo7rAOObjuwA45yO7QDjnY7uAOOeju8A45+O8ADjoI7xAOOhjvIA46KO8wDjo470AOOkjvUA46WO9gDjpo73AOOnjvgA46iO+QDjqY76AOOqjvsA46uO/ADjrI79AOOtjv4A466PQADjr49BAOOwj0IA47GPQwDjso9EAOOzj0UA47SPRgDjtY9HAOO2j0gA47ePSQDjuI9KAOO5j0sA47qPTADju49NAOO8j04A472PTwDjvo9QAOO/j1EA48CPUgDjwY9TAOPCj1QA48OPVQDjxI9WAOPFj1cA48aPWADjx49ZAOPIj1oA48mPWwDjyo9cAOPLj10A48yPXgDjzY9fAOPOj2AA48+PYQDj0I9iAOPRj2MA49KPZADj049lAOPUj2YA49WPZwDj1o9oAOPXj2kA49iPagDj2Y9rAOPaj2wA49uPbQDj3I9uAOPdj28A496PcADj349xAOPgj3IA4+GPcwDj4o90AOPjj3UA4+SPdgDj5Y93AOPmj3gA4+ePeQDj6I96AOPpj3sA4+qPfADj6499AOPsj34A4+2PoQDj7o+iAOPvj6MA4/CPpADj8Y+lAOPyj6YA4/OPpwDj9I+oAOP1j6kA4/aPqgDj94+rAOP4j6wA4/mPrQDj+o+uAOP7j68A4/yPsADj/Y+xAOP+j7IA4/+PswDkAI+0AOQBj7UA5AKPtgDkA4+3AOQEj7gA5AWPuQDkBo+6AOQHj7sA5AiPvADkCY+9AOQKj74A5AuPvwDkDI/AAOQNj8EA5A6PwgDkD4/DAOQQj8QA5BGPxQDkEo/GAOQTj8cA5BSPyADkFY/JAOQWj8oA5BePywDkGI/MAOQZj80A5BqPzgDkG4/PAOQcj9AA5B2P0QDkHo/SAOQfj9MA5CCP1ADkIY/VAOQij9YA5COP1wDkJI/YAOQlj9kA5CaP2gDkJ4/bAOQoj9wA5CmP3QDkKo/eAOQrj98A5CyP4ADkLY/hAOQuj+IA5C+P4wDkMI/kAOQxj+UA5DKP5gDkM4/nAOQ0j+gA5DWP6QDkNo/qAOQ3j+sA5DiP7ADkOY/tAOQ6j+4A5DuP7wDkPI/wAOQ9j/EA5D6P8gDkP4/zAORAj/QA5EGP9QDkQo/2AORDj/cA5ESP+ADkRY/5AORGj/oA5EeP+wDkSI/8AORJj/0A5EqP/gDkS5BAAORMkEEA5E2QQgDkTpBDAORPkEQA5FCQRQDkUZBGAORSkEcA5FOQSADkVJBJAORVkEoA5FaQSwDkV5BMAORYkE0A5FmQTgDkWpBPAORbkFAA5FyQUQDkXZBSAORekFMA5F+QVADkYJBVAORhkFYA5GKQVwDkY5BYAORkkFkA5GWQWgDkZpBbAORnkFwA5GiQXQDkaZBeAORqkF8A5GuQYADkbJBhAORtkGIA5G6QYwDkb5BkAORwkGUA5HGQZgDkcpBnAORzkGgA5HSQaQDkdZBqAOR2kGsA5HeQbADkeJBtAOR5kG4A5HqQbwDke5BwAOR8kHEA5H2QcgDkfpBzAOR/kHQA5ICQdQDkgZB2AOSCkHcA5IOQeADkhJB5AOSFkHoA5IaQewDkh5B8AOSIkH0A5ImQfgDkipChAOSLkKIA5IyQowDkjZCkAOSOkKUA5I+QpgDkkJCnAOSRkKgA5JKQqQDkk5CqAOSUkKsA5JWQrADklpCtAOSXkK4A5JiQrwDkmZCwAOSakLEA5JuQsgDknJCzAOSdkLQA5J6QtQDkn5C2AOSgkLcA5KGQuADkopC5AOSjkLoA5KSQuwDkpZC8AOSmkL0A5KeQvgDkqJC/AOSpkMAA5KqQwQDkq5DCAOSskMMA5K2QxADkrpDFAOSvkMYA5LCQxwDksZDIAOSykMkA5LOQygDktJDLAOS1kMwA5LaQzQDkt5DOAOS4kM8A5LmQ0ADkupDRAOS7kNIA5LyQ0wDkvZDUAOS+kNUA5L+Q1gDkwJDXAOTBkNgA5MKQ2QDkw5DaAOTEkNsA5MWQ3ADkxpDdAOTHkN4A5MiQ3wDkyZDgAOTKkOEA5MuQ4gDkzJDjAOTNkOQA5M6Q5QDkz5DmAOTQkOcA5NGQ6ADk0pDpAOTTkOoA5NSQ6wDk1ZDsAOTWkO0A5NeQ7gDk2JDvAOTZkPAA5NqQ8QDk25DyAOTckPMA5N2Q9ADk3pD1AOTfkPYA5OCQ9wDk4ZD4AOTikPkA5OOQ+gDk5JD7AOTlkPwA5OaQ/QDk55D+AOTokUAA5OmRQQDk6pFCAOTrkUMA5OyRRADk7ZFFAOTukUYA5O+RRwDk8JFIAOTxkUkA5PKRSgDk85FLAOT0kUwA5PWRTQDk9pFOAOT3kU8A5PiRUADk+ZFRAOT6kVIA5PuRUwDk/JFUAOT9kVUA5P6RVgDk/5FXAOUAkVgA5QGRWQDlApFaAOUDkVsA5QSRXADlBZFdAOUGkV4A5QeRXwDlCJFgAOUJkWEA5QqRYgDlC5FjAOUMkWQA5Q2RZQDlDpFmAOUPkWcA5RCRaADlEZFpAOUSkWoA5RORawDlFJFsAOUVkW0A5RaRbgDlF5FvAOUYkXAA5RmRcQDlGpFyAOUbkXMA5RyRdADlHZF1AOUekXYA5R+RdwDlIJF4AOUhkXkA5SKRegDlI5F7AOUkkXwA5SWRfQDlJpF+AOUnkaEA5SiRogDlKZGjAOUqkaQA5SuRpQDlLJGmAOUtkacA5S6RqADlL5GpAOUwkaoA5TGRqwDlMpGsAOUzka0A5TSRrgDlNZGvAOU2kbAA5TeRsQDlOJGyAOU5kbMA5TqRtADlO5G1AOU8kbYA5T2RtwDlPpG4AOU/kbkA5UCRugDlQZG7AOVCkbwA5UORvQDlRJG+AOVFkb8A5UaRwADlR5HBAOVIkcIA5UmRwwDlSpHEAOVLkcUA5UyRxgDlTZHHAOVOkcgA5U+RyQDlUJHKAOVRkcsA5VKRzADlU5HNAOVUkc4A5VWRzwDlVpHQAOVXkdEA5ViR0gDlWZHTAOVakdQA5VuR1QDlXJHWAOVdkdcA5V6R2ADlX5HZAOVgkdoA5WGR2wDlYpHcAOVjkd0A5WSR3gDlZZHfAOVmkeAA5WeR4QDlaJHiAOVpkeMA5WqR5ADla5HlAOVskeYA5W2R5wDlbpHoAOVvkekA5XCR6gDlcZHrAOVykewA5XOR7QDldJHuAOV1ke8A5XaR8ADld5HxAOV4kfIA5XmR8wDlepH0AOV7kfUA5XyR9gDlfZH3AOV+kfgA5X+R+QDlgJH6AOWBkfsA5YKR/ADlg5H9AOWEkf4A5YWSQADlhpJBAOWHkkIA5YiSQwDliZJEAOWKkkUA5YuSRgDljJJHAOWNkkgA5Y6SSQDlj5JKAOWQkksA5ZGSTADlkpJNAOWTkk4A5ZSSTwDllZJQAOWWklEA5ZeSUgDlmJJTAOWZklQA5ZqSVQDlm5JWAOWcklcA5Z2SWADlnpJZAOWfkloA5aCSWwDloZJcAOWikl0A5aOSXgDlpJJfAOWlkmAA5aaSYQDlp5JiAOWokmMA5amSZADlqpJlAOWrkmYA5aySZwDlrZJoAOWukmkA5a+SagDlsJJrAOWxkmwA5bKSbQDls5JuAOW0km8A5bWScADltpJxAOW3knIA5biScwDluZJ0AOW6knUA5buSdgDlvJJ3AOW9kngA5b6SeQDlv5J6AOXAknsA5cGSfADlwpJ9AOXDkn4A5cSSoQDlxZKiAOXGkqMA5ceSpADlyJKlAOXJkqYA5cqSpwDly5KoAOXMkqkA5c2SqgDlzpKrAOXPkqwA5dCSrQDl0ZKuAOXSkq8A5dOSsADl1JKxAOXVkrIA5daSswDl15K0AOXYkrUA5dmStgDl2pK3AOXbkrgA5dySuQDl3ZK6AOXekrsA5d+SvADl4JK9AOXhkr4A5eKSvwDl45LAAOXkksEA5eWSwgDl5pLDAOXnksQA5eiSxQDl6ZLGAOXqkscA5euSyADl7JLJAOXtksoA5e6SywDl75LMAOXwks0A5fGSzgDl8pLPAOXzktAA5fSS0QDl9ZLSAOX2ktMA5feS1ADl+JLVAOX5ktYA5fqS1wDl+5LYAOX8ktkA5f2S2gDl/pLbAOX/ktwA5gCS3QDmAZLeAOYCkt8A5gOS4ADmBJLhAOYFkuIA5gaS4wDmB5LkAOYIkuUA5gmS5gDmCpLnAOYLkugA5gyS6QDmDZLqAOYOkusA5g+S7ADmEJLtAOYRku4A5hKS7wDmE5LwAOYUkvEA5hWS8gDmFpLzAOYXkvQA5hiS9QDmGZL2AOYakvcA5huS+ADmHJL5AOYdkvoA5h6S+wDmH5L8AOYgkv0A5iGS/gDmIpNAAOYjk0EA5iSTQgDmJZNDAOYmk0QA5ieTRQDmKJNGAOYpk0cA5iqTSADmK5NJAOYsk0oA5i2TSwDmLpNMAOYvk00A5jCTTgDmMZNPAOYyk1AA5jOTUQDmNJNSAOY1k1MA5jaTVADmN5NVAOY4k1YA5jmTVwDmOpNYAOY7k1kA5jyTWgDmPZNbAOY+k1wA5j+TXQDmQJNeAOZBk18A5kKTYADmQ5NhAOZEk2IA5kWTYwDmRpNkAOZHk2UA5kiTZgDmSZNnAOZKk2gA5kuTaQDmTJNqAOZNk2sA5k6TbADmT5NtAOZQk24A5lGTbwDmUpNwAOZTk3EA5lSTcgDmVZNzAOZWk3QA5leTdQDmWJN2AOZZk3cA5lqTeADmW5N5AOZck3oA5l2TewDmXpN8AOZfk30A5mCTfgDmYZOhAOZik6IA5mOTowDmZJOkAOZlk6UA5maTpgDmZ5OnAOZok6gA5mmTqQDmapOqAOZrk6sA5myTrADmbZOtAOZuk64A5m+TrwDmcJOwAOZxk7EA5nKTsgDmc5OzAOZ0k7QA5nWTtQDmdpO2AOZ3k7cA5niTuADmeZO5AOZ6k7oA5nuTuwDmfJO8AOZ9k70A5n6TvgDmf5O/AOaAk8AA5oGTwQDmgpPCAOaDk8MA5oSTxADmhZPFAOaGk8YA5oeTxwDmiJPIAOaJk8kA5oqTygDmi5PLAOaMk8wA5o2TzQDmjpPOAOaPk88A5pCT0ADmkZPRAOaSk9IA5pOT0wDmlJPUAOaVk9UA5paT1gDml5PXAOaYk9gA5pmT2QDmmpPaAOabk9sA5pyT3ADmnZPdAOaek94A5p+T3wDmoJPgAOahk+EA5qKT4gDmo5PjAOakk+QA5qWT5QDmppPmAOank+cA5qiT6ADmqZPpAOaqk+oA5quT6wDmrJPsAOatk+0A5q6T7gDmr5PvAOawk/AA5rGT8QDmspPyAOazk/MA5rST9ADmtZP1AOa2k/YA5reT9wDmuJP4AOa5k/kA5rqT+gDmu5P7AOa8k/wA5r2T/QDmvpP+AOa/lEAA5sCUQQDmwZRCAObClEMA5sOURADmxJRFAObFlEYA5saURwDmx5RIAObIlEkA5smUSgDmypRLAObLlEwA5syUTQDmzZROAObOlE8A5s+UUADm0JRRAObRlFIA5tKUUwDm05RUAObUlFUA5tWUVgDm1pRXAObXlFgA5tiUWQDm2ZRaAObalFsA5tuUXADm3JRdAObdlF4A5t6UXwDm35RgAObglGEA5uGUYgDm4pRjAObjlGQA5uSUZQDm5ZRmAObmlGcA5ueUaADm6JRpAObplGoA5uqUawDm65RsAObslG0A5u2UbgDm7pRvAObvlHAA5vCUcQDm8ZRyAObylHMA5vOUdADm9JR1AOb1lHYA5vaUdwDm95R4AOb4lHkA5vmUegDm+pR7AOb7lHwA5vyUfQDm/ZR+AOb+lKEA5v+UogDnAJSjAOcBlKQA5wKUpQDnA5SmAOcElKcA5wWUqADnBpSpAOcHlKoA5wiUqwDnCZSsAOcKlK0A5wuUrgDnDJSvAOcNlLAA5w6UsQDnD5SyAOcQlLMA5xGUtADnEpS1AOcTlLYA5xSUtwDnFZS4AOcWlLkA5xeUugDnGJS7AOcZlLwA5xqUvQDnG5S+AOcclL8A5x2UwADnHpTBAOcflMIA5yCUwwDnIZTEAOcilMUA5yOUxgDnJJTHAOcllMgA5yaUyQDnJ5TKAOcolMsA5ymUzADnKpTNAOcrlM4A5yyUzwDnLZTQAOculNEA5y+U0gDnMJTTAOcxlNQA5zKU1QDnM5TWAOc0lNcA5zWU2ADnNpTZAOc3lNoA5ziU2wDnOZTcAOc6lN0A5zuU3gDnPJTfAOc9lOAA5z6U4QDnP5TiAOdAlOMA50GU5ADnQpTlAOdDlOYA50SU5wDnRZToAOdGlOkA50eU6gDnSJTrAOdJlOwA50qU7QDnS5TuAOdMlO8A502U8ADnTpTxAOdPlPIA51CU8wDnUZT0AOdSlPUA51OU9gDnVJT3AOdVlPgA51aU+QDnV5T6AOdYlPsA51mU/ADnWpT9AOdblP4A51yVQADnXZVBAOdelUIA51+VQwDnYJVEAOdhlUUA52KVRgDnY5VHAOdklUgA52WVSQDnZpVKAOdnlUsA52iVTADnaZVNAOdqlU4A52uVTwDnbJVQAOdtlVEA526VUgDnb5VTAOdwlVQA53GVVQDncpVWAOdzlVcA53SVWADndZVZAOd2lVoA53eVWwDneJVcAOd5lV0A53qVXgDne5VfAOd8lWAA532VYQDnfpViAOd/lWMA54CVZADngZVlAOeClWYA54OVZwDnhJVoAOeFlWkA54aVagDnh5VrAOeIlWwA54mVbQDnipVuAOeLlW8A54yVcADnjZVxAOeOlXIA54+VcwDnkJV0AOeRlXUA55KVdgDnk5V3AOeUlXgA55WVeQDnlpV6AOeXlXsA55iVfADnmZV9AOealX4A55uVoQDnnJWiAOedlaMA556VpADnn5WlAOeglaYA56GVpwDnopWoAOejlakA56SVqgDnpZWrAOemlawA56eVrQDnqJWuAOepla8A56qVsADnq5WxAOeslbIA562VswDnrpW0AOevlbUA57CVtgDnsZW3AOeylbgA57OVuQDntJW6AOe1lbsA57aVvADnt5W9AOe4lb4A57mVvwDnupXAAOe7lcEA57yVwgDnvZXDAOe+lcQA57+VxQDnwJXGAOfBlccA58KVyADnw5XJAOfElcoA58WVywDnxpXMAOfHlc0A58iVzgDnyZXPAOfKldAA58uV0QDnzJXSAOfNldMA586V1ADnz5XVAOfQldYA59GV1wDn0pXYAOfTldkA59SV2gDn1ZXbAOfWldwA59eV3QDn2JXeAOfZld8A59qV4ADn25XhAOfcleIA592V4wDn3pXkAOffleUA5+CV5gDn4ZXnAOfilegA5+OV6QDn5JXqAOfllesA5+aV7ADn55XtAOfole4A5+mV7wDn6pXwAOfrlfEA5+yV8gDn7ZXzAOfulfQA5++V9QDn8JX2AOfxlfcA5/KV+ADn85X5AOf0lfoA5/WV+wDn9pX8AOf3lf0A5/iV/gDn+ZZAAOf6lkEA5/uWQgDn/JZDAOf9lkQA5/6WRQDn/5ZGAOgAlkcA6AGWSADoApZJAOgDlkoA6ASWSwDoBZZMAOgGlk0A6AeWTgDoCJZPAOgJllAA6AqWUQDoC5ZSAOgMllMA6A2WVADoDpZVAOgPllYA6BCWVwDoEZZYAOgSllkA6BOWWgDoFJZbAOgVllwA6BaWXQDoF5ZeAOgYll8A6BmWYADoGpZhAOgblmIA6ByWYwDoHZZkAOgelmUA6B+WZgDoIJZnAOghlmgA6CKWaQDoI5ZqAOgklmsA6CWWbADoJpZtAOgnlm4A6CiWbwDoKZZwAOgqlnEA6CuWcgDoLJZzAOgtlnQA6C6WdQDoL5Z2AOgwlncA6DGWeADoMpZ5AOgzlnoA6DSWewDoNZZ8AOg2ln0A6DeWfgDoOJahAOg5lqIA6DqWowDoO5akAOg8lqUA6D2WpgDoPpanAOg/lqgA6ECWqQDoQZaqAOhClqsA6EOWrADoRJatAOhFlq4A6EaWrwDoR5awAOhIlrEA6EmWsgDoSpazAOhLlrQA6EyWtQDoTZa2AOhOlrcA6E+WuADoUJa5AOhRlroA6FKWuwDoU5a8AOhUlr0A6FWWvgDoVpa/AOhXlsAA6FiWwQDoWZbCAOhalsMA6FuWxADoXJbFAOhdlsYA6F6WxwDoX5bIAOhglskA6GGWygDoYpbLAOhjlswA6GSWzQDoZZbOAOhmls8A6GeW0ADoaJbRAOhpltIA6GqW0wDoa5bUAOhsltUA6G2W1gDobpbXAOhvltgA6HCW2QDocZbaAOhyltsA6HOW3ADodJbdAOh1lt4A6HaW3wDod5bgAOh4luEA6HmW4gDoepbjAOh7luQA6HyW5QDofZbmAOh+lucA6H+W6ADogJbpAOiBluoA6IKW6wDog5bsAOiElu0A6IWW7gDohpbvAOiHlvAA6IiW8QDoiZbyAOiKlvMA6IuW9ADojJb1AOiNlvYA6I6W9wDoj5b4AOiQlvkA6JGW+gDokpb7AOiTlvwA6JSW/QDolZb+AOiWl0AA6JeXQQDomJdCAOiZl0MA6JqXRADom5dFAOicl0YA6J2XRwDonpdIAOifl0kA6KCXSgDooZdLAOiil0wA6KOXTQDopJdOAOill08A6KaXUADop5dRAOiol1IA6KmXUwDoqpdUAOirl1UA6KyXVgDorZdXAOiul1gA6K+XWQDosJdaAOixl1sA6LKXXADos5ddAOi0l14A6LWXXwDotpdgAOi3l2EA6LiXYgDouZdjAOi6l2QA6LuXZQDovJdmAOi9l2cA6L6XaADov5dpAOjAl2oA6MGXawDowpdsAOjDl20A6MSXbgDoxZdvAOjGl3AA6MeXcQDoyJdyAOjJl3MA6MqXdADoy5d1AOjMl3YA6M2XdwDozpd4AOjPl3kA6NCXegDo0Zd7AOjSl3wA6NOXfQDo1Jd+AOjVl6EA6NaXogDo15ejAOjYl6QA6NmXpQDo2pemAOjbl6cA6NyXqADo3ZepAOjel6oA6N+XqwDo4JesAOjhl60A6OKXrgDo45evAOjkl7AA6OWXsQDo5peyAOjnl7MA6OiXtADo6Ze1AOjql7YA6OuXtwDo7Je4AOjtl7kA6O6XugDo75e7AOjwl7wA6PGXvQDo8pe+AOjzl78A6PSXwADo9ZfBAOj2l8IA6PeXwwDo+JfEAOj5l8UA6PqXxgDo+5fHAOj8l8gA6P2XyQDo/pfKAOj/l8sA6QCXzADpAZfNAOkCl84A6QOXzwDpBJfQAOkFl9EA6QaX0gDpB5fTAOkIl9QA6QmX1QDpCpfWAOkLl9cA6QyX2ADpDZfZAOkOl9oA6Q+X2wDpEJfcAOkRl90A6RKX3gDpE5ffAOkUl+AA6RWX4QDpFpfiAOkXl+MA6RiX5ADpGZflAOkal+YA6RuX5wDpHJfoAOkdl+kA6R6X6gDpH5frAOkgl+wA6SGX7QDpIpfuAOkjl+8A6SSX8ADpJZfxAOkml/IA6SeX8wDpKJf0AOkpl/UA6SqX9gDpK5f3AOksl/gA6S2X+QDpLpf6AOkvl/sA6TCX/ADpMZf9AOkyl/4A6TOYQADpNJhBAOk1mEIA6TaYQwDpN5hEAOk4mEUA6TmYRgDpOphHAOk7mEgA6TyYSQDpPZhKAOk+mEsA6T+YTADpQJhNAOlBmE4A6UKYTwDpQ5hQAOlEmFEA6UWYUgDpRphTAOlHmFQA6UiYVQDpSZhWAOlKmFcA6UuYWADpTJhZAOlNmFoA6U6YWwDpT5hcAOlQmF0A6VGYXgDpUphfAOlTmGAA6VSYYQDpVZhiAOlWmGMA6VeYZADpWJhlAOlZmGYA6VqYZwDpW5hoAOlcmGkA6V2YagDpXphrAOlfmGwA6WCYbQDpYZhuAOlimG8A6WOYcADpZJhxAOllmHIA6WaYcwDpZ5h0AOlomHUA6WmYdgDpaph3AOlrmHgA6WyYeQDpbZh6AOlumHsA6W+YfADpcJh9AOlxmH4A6XKYoQDpc5iiAOl0mKMA6XWYpADpdpilAOl3mKYA6XiYpwDpeZioAOl6mKkA6XuYqgDpfJirAOl9mKwA6X6YrQDpf5iuAOmAmK8A6YGYsADpgpixAOmDmLIA6YSYswDphZi0AOmGmLUA6YeYtgDpiJi3AOmJmLgA6YqYuQDpi5i6AOmMmLsA6Y2YvADpjpi9AOmPmL4A6ZCYvwDpkZjAAOmSmMEA6ZOYwgDplJjDAOmVmMQA6ZaYxQDpl5jGAOmYmMcA6ZmYyADpmpjJAOmbmMoA6ZyYywDpnZjMAOmemM0A6Z+YzgDpoJjPAOmhmNAA6aKY0QDpo5jSAOmkmNMA6aWY1ADpppjVAOmnmNYA6aiY1wDpqZjYAOmqmNkA6auY2gDprJjbAOmtmNwA6a6Y3QDpr5jeAOmwmN8A6bGY4ADpspjhAOmzmOIA6bSY4wDptZjkAOm2mOUA6beY5gDpuJjnAOm5mOgA6bqY6QDpu5jqAOm8mOsA6b2Y7ADpvpjtAOm/mO4A6cCY7wDpwZjwAOnCmPEA6cOY8gDpxJjzAOnFmPQA6caY9QDpx5j2AOnImPcA6cmY+ADpypj5AOnLmPoA6cyY+wDpzZj8AOnOmP0A6c+Y/gDp0JlAAOnRmUEA6dKZQgDp05lDAOnUmUQA6dWZRQDp1plGAOnXmUcA6diZSADp2ZlJAOnamUoA6duZSwDp3JlMAOndmU0A6d6ZTgDp35lPAOngmVAA6eGZUQDp4plSAOnjmVMA6eSZVADp5ZlVAOnmmVYA6eeZVwDp6JlYAOnpmVkA6eqZWgDp65lbAOnsmVwA6e2ZXQDp7pleAOnvmV8A6fCZYADp8ZlhAOnymWIA6fOZYwDp9JlkAOn1mWUA6faZZgDp95lnAOn4mWgA6fmZaQDp+plqAOn7mWsA6fyZbADp/ZltAOn+mW4A6f+ZbwDqAJlwAOoBmXEA6gKZcgDqA5lzAOoEmXQA6gWZdQDqBpl2AOoHmXcA6giZeADqCZl5AOoKmXoA6guZewDqDJl8AOoNmX0A6g6ZfgDqD5mhAOoQmaIA6hGZowDqEpmkAOoTmaUA6hSZpgDqFZmnAOoWmagA6heZqQDqGJmqAOoZmasA6hqZrADqG5mtAOocma4A6h2ZrwDqHpmwAOofmbEA6iCZsgDqIZmzAOoimbQA6iOZtQDqJJm2AOolmbcA6iaZuADqJ5m5AOoomboA6imZuwDqKpm8AOormb0A6iyZvgDqLZm/AOoumcAA6i+ZwQDqMJnCAOoxmcMA6jKZxADqM5nFAOo0mcYA6jWZxwDqNpnIAOo3mckA6jiZygDqOZnLAOo6mcwA6juZzQDqPJnOAOo9mc8A6j6Z0ADqP5nRAOpAmdIA6kGZ0wDqQpnUAOpDmdUA6kSZ1gDqRZnXAOpGmdgA6keZ2QDqSJnaAOpJmdsA6kqZ3ADqS5ndAOpMmd4A6k2Z3wDqTpngAOpPmeEA6lCZ4gDqUZnjAOpSmeQA6lOZ5QDqVJnmAOpVmecA6laZ6ADqV5npAOpYmeoA6lmZ6wDqWpnsAOpbme0A6lyZ7gDqXZnvAOpemfAA6l+Z8QDqYJnyAOphmfMA6mKZ9ADqY5n1AOpkmfYA6mWZ9wDqZpn4AOpnmfkA6miZ+gDqaZn7AOpqmfwA6muZ/QDqbJn+AOptmkAA6m6aQQDqb5pCAOpwmkMA6nGaRADqcppFAOpzmkYA6nSaRwDqdZpIAOp2mkkA6neaSgDqeJpLAOp5mkwA6nqaTQDqe5pOAOp8mk8A6n2aUADqfppRAOp/mlIA6oCaUwDqgZpUAOqCmlUA6oOaVgDqhJpXAOqFmlgA6oaaWQDqh5paAOqImlsA6omaXADqippdAOqLml4A6oyaXwDqjZpgAOqOmmEA6o+aYgDqkJpjAOqRmmQA6pKaZQDqk5pmAOqUmmcA6pWaaADqlpppAOqXmmoA6piaawDqmZpsAOqamm0A6puabgDqnJpvAOqdmnAA6p6acQDqn5pyAOqgmnMA6qGadADqopp1AOqjmnYA6qSadwDqpZp4AOqmmnkA6qeaegDqqJp7AOqpmnwA6qqafQDqq5p+AOqsmqEA6q2aogDqrpqjAOqvmqQA6rCapQDqsZqmAOqymqcA6rOaqADqtJqpAOq1mqoA6raaqwDqt5qsAOq4mq0A6rmargDqupqvAOq7mrAA6ryasQDqvZqyAOq+mrMA6r+atADqwJq1AOrBmrYA6sKatwDqw5q4AOrEmrkA6sWaugDqxpq7AOrHmrwA6siavQDqyZq+AOrKmr8A6suawADqzJrBAOrNmsIA6s6awwDqz5rEAOrQmsUA6tGaxgDq0prHAOrTmsgA6tSayQDq1ZrKAOrWmssA6teazADq2JrNAOrZms4A6tqazwDq25rQAOrcmtEA6t2a0gDq3prTAOrfmtQA6uCa1QDq4ZrWAOrimtcA6uOa2ADq5JrZAOrlmtoA6uaa2wDq55rcAOromt0A6uma3gDq6prfAOrrmuAA6uya4QDq7ZriAOrumuMA6u+a5ADq8JrlAOrxmuYA6vKa5wDq85roAOr0mukA6vWa6gDq9prrAOr3muwA6via7QDq+ZruAOr6mu8A6vua8ADq/JrxAOr9mvIA6v6a8wDq/5r0AOsAmvUA6wGa9gDrApr3AOsDmvgA6wSa+QDrBZr6AOsGmvsA6wea/ADrCJr9AOsJmv4A6wqbQADrC5tBAOsMm0IA6w2bQwDrDptEAOsPm0UA6xCbRgDrEZtHAOsSm0gA6xObSQDrFJtKAOsVm0sA6xabTADrF5tNAOsYm04A6xmbTwDrGptQAOsbm1EA6xybUgDrHZtTAOsem1QA6x+bVQDrIJtWAOshm1cA6yKbWADrI5tZAOskm1oA6yWbWwDrJptcAOsnm10A6yibXgDrKZtfAOsqm2AA6yubYQDrLJtiAOstm2MA6y6bZADrL5tlAOswm2YA6zGbZwDrMptoAOszm2kA6zSbagDrNZtrAOs2m2wA6zebbQDrOJtuAOs5m28A6zqbcADrO5txAOs8m3IA6z2bcwDrPpt0AOs/m3UA60CbdgDrQZt3AOtCm3gA60ObeQDrRJt6AOtFm3sA60abfADrR5t9AOtIm34A60mboQDrSpuiAOtLm6MA60ybpADrTZulAOtOm6YA60+bpwDrUJuoAOtRm6kA61KbqgDrU5urAOtUm6wA61WbrQDrVpuuAOtXm68A61ibsADrWZuxAOtam7IA61ubswDrXJu0AOtdm7UA616btgDrX5u3AOtgm7gA62GbuQDrYpu6AOtjm7sA62SbvADrZZu9AOtmm74A62ebvwDraJvAAOtpm8EA62qbwgDra5vDAOtsm8QA622bxQDrbpvGAOtvm8cA63CbyADrcZvJAOtym8oA63ObywDrdJvMAOt1m80A63abzgDrd5vPAOt4m9AA63mb0QDrepvSAOt7m9MA63yb1ADrfZvVAOt+m9YA63+b1wDrgJvYAOuBm9kA64Kb2gDrg5vbAOuEm9wA64Wb3QDrhpveAOuHm98A64ib4ADriZvhAOuKm+IA64ub4wDrjJvkAOuNm+UA646b5gDrj5vnAOuQm+gA65Gb6QDrkpvqAOuTm+sA65Sb7ADrlZvtAOuWm+4A65eb7wDrmJvwAOuZm/EA65qb8gDrm5vzAOucm/QA652b9QDrnpv2AOufm/cA66Cb+ADroZv5AOuim/oA66Ob+wDrpJv8AOulm/0A66ab/gDrp5xAAOuonEEA66mcQgDrqpxDAOurnEQA66ycRQDrrZxGAOuunEcA66+cSADrsJxJAOuxnEoA67KcSwDrs5xMAOu0nE0A67WcTgDrtpxPAOu3nFAA67icUQDruZxSAOu6nFMA67ucVADrvJxVAOu9nFYA676cVwDrv5xYAOvAnFkA68GcWgDrwpxbAOvDnFwA68ScXQDrxZxeAOvGnF8A68ecYADryJxhAOvJnGIA68qcYwDry5xkAOvMnGUA682cZgDrzpxnAOvPnGgA69CcaQDr0ZxqAOvSnGsA69OcbADr1JxtAOvVnG4A69acbwDr15xwAOvYnHEA69mccgDr2pxzAOvbnHQA69ycdQDr3Zx2AOvenHcA69+ceADr4Jx5AOvhnHoA6+KcewDr45x8AOvknH0A6+WcfgDr5pyhAOvnnKIA6+icowDr6ZykAOvqnKUA6+ucpgDr7JynAOvtnKgA6+6cqQDr75yqAOvwnKsA6/GcrADr8pytAOvznK4A6/ScrwDr9ZywAOv2nLEA6/ecsgDr+JyzAOv5nLQA6/qctQDr+5y2AOv8nLcA6/2cuADr/py5AOv/nLoA7ACcuwDsAZy8AOwCnL0A7AOcvgDsBJy/AOwFnMAA7AacwQDsB5zCAOwInMMA7AmcxADsCpzFAOwLnMYA7AycxwDsDZzIAOwOnMkA7A+cygDsEJzLAOwRnMwA7BKczQDsE5zOAOwUnM8A7BWc0ADsFpzRAOwXnNIA7Bic0wDsGZzUAOwanNUA7Buc1gDsHJzXAOwdnNgA7B6c2QDsH5zaAOwgnNsA7CGc3ADsIpzdAOwjnN4A7CSc3wDsJZzgAOwmnOEA7Cec4gDsKJzjAOwpnOQA7Cqc5QDsK5zmAOwsnOcA7C2c6ADsLpzpAOwvnOoA7DCc6wDsMZzsAOwynO0A7DOc7gDsNJzvAOw1nPAA7Dac8QDsN5zyAOw4nPMA7Dmc9ADsOpz1AOw7nPYA7Dyc9wDsPZz4AOw+nPkA7D+c+gDsQJz7AOxBnPwA7EKc/QDsQ5z+AOxEnUAA7EWdQQDsRp1CAOxHnUMA7EidRADsSZ1FAOxKnUYA7EudRwDsTJ1IAOxNnUkA7E6dSgDsT51LAOxQnUwA7FGdTQDsUp1OAOxTnU8A7FSdUADsVZ1RAOxWnVIA7FedUwDsWJ1UAOxZnVUA7FqdVgDsW51XAOxcnVgA7F2dWQDsXp1aAOxfnVsA7GCdXADsYZ1dAOxinV4A7GOdXwDsZJ1gAOxlnWEA7GadYgDsZ51jAOxonWQA7GmdZQDsap1mAOxrnWcA7GydaADsbZ1pAOxunWoA7G+dawDscJ1sAOxxnW0A7HKdbgDsc51vAOx0nXAA7HWdcQDsdp1yAOx3nXMA7HiddADseZ11AOx6nXYA7HuddwDsfJ14AOx9nXkA7H6degDsf517AOyAnXwA7IGdfQDsgp1+AOyDnaEA7ISdogDshZ2jAOyGnaQA7IedpQDsiJ2mAOyJnacA7IqdqADsi52pAOyMnaoA7I2dqwDsjp2sAOyPna0A7JCdrgDskZ2vAOySnbAA7JOdsQDslJ2yAOyVnbMA7JadtADsl521AOyYnbYA7JmdtwDsmp24AOybnbkA7JydugDsnZ27AOyenbwA7J+dvQDsoJ2+AOyhnb8A7KKdwADso53BAOykncIA7KWdwwDspp3EAOynncUA7KidxgDsqZ3HAOyqncgA7KudyQDsrJ3KAOytncsA7K6dzADsr53NAOywnc4A7LGdzwDssp3QAOyzndEA7LSd0gDstZ3TAOy2ndQA7Led1QDsuJ3WAOy5ndcA7Lqd2ADsu53ZAOy8ndoA7L2d2wDsvp3cAOy/nd0A7MCd3gDswZ3fAOzCneAA7MOd4QDsxJ3iAOzFneMA7Mad5ADsx53lAOzIneYA7Mmd5wDsyp3oAOzLnekA7Myd6gDszZ3rAOzOnewA7M+d7QDs0J3uAOzRne8A7NKd8ADs053xAOzUnfIA7NWd8wDs1p30AOzXnfUA7Nid9gDs2Z33AOzanfgA7Nud+QDs3J36AOzdnfsA7N6d/ADs3539AOzgnf4A7OGeQADs4p5BAOzjnkIA7OSeQwDs5Z5EAOzmnkUA7OeeRgDs6J5HAOzpnkgA7OqeSQDs655KAOzsnksA7O2eTADs7p5NAOzvnk4A7PCeTwDs8Z5QAOzynlEA7POeUgDs9J5TAOz1nlQA7PaeVQDs955WAOz4nlcA7PmeWADs+p5ZAOz7nloA7PyeWwDs/Z5cAOz+nl0A7P+eXgDtAJ5fAO0BnmAA7QKeYQDtA55iAO0EnmMA7QWeZADtBp5lAO0HnmYA7QieZwDtCZ5oAO0KnmkA7QueagDtDJ5rAO0NnmwA7Q6ebQDtD55uAO0Qnm8A7RGecADtEp5xAO0TnnIA7RSecwDtFZ50AO0WnnUA7ReedgDtGJ53AO0ZnngA7RqeeQDtG556AO0cnnsA7R2efADtHp59AO0fnn4A7SCeoQDtIZ6iAO0inqMA7SOepADtJJ6lAO0lnqYA7SaepwDtJ56oAO0onqkA7SmeqgDtKp6rAO0rnqwA7SyerQDtLZ6uAO0unq8A7S+esADtMJ6xAO0xnrIA7TKeswDtM560AO00nrUA7TWetgDtNp63AO03nrgA7TieuQDtOZ66AO06nrsA7TuevADtPJ69AO09nr4A7T6evwDtP57AAO1AnsEA7UGewgDtQp7DAO1DnsQA7USexQDtRZ7GAO1GnscA7UeeyADtSJ7JAO1JnsoA7UqeywDtS57MAO1Mns0A7U2ezgDtTp7PAO1PntAA7VCe0QDtUZ7SAO1SntMA7VOe1ADtVJ7VAO1VntYA7Vae1wDtV57YAO1YntkA7Vme2gDtWp7bAO1bntwA7Vye3QDtXZ7eAO1ent8A7V+e4ADtYJ7hAO1hnuIA7WKe4wDtY57kAO1knuUA7WWe5gDtZp7nAO1nnugA7Wie6QDtaZ7qAO1qnusA7Wue7ADtbJ7tAO1tnu4A7W6e7wDtb57wAO1wnvEA7XGe8gDtcp7zAO1znvQA7XSe9QDtdZ72AO12nvcA7Xee+ADteJ75AO15nvoA7Xqe+wDte578AO18nv0A7X2e/gDtfp9AAO1/n0EA7YCfQgDtgZ9DAO2Cn0QA7YOfRQDthJ9GAO2Fn0cA7YafSADth59JAO2In0oA7YmfSwDtip9MAO2Ln00A7YyfTgDtjZ9PAO2On1AA7Y+fUQDtkJ9SAO2Rn1MA7ZKfVADtk59VAO2Un1YA7ZWfVwDtlp9YAO2Xn1kA7ZifWgDtmZ9bAO2an1wA7ZufXQDtnJ9eAO2dn18A7Z6fYADtn59hAO2gn2IA7aGfYwDtop9kAO2jn2UA7aSfZgDtpZ9nAO2mn2gA7aefaQDtqJ9qAO2pn2sA7aqfbADtq59tAO2sn24A7a2fbwDtrp9wAO2vn3EA7bCfcgDtsZ9zAO2yn3QA7bOfdQDttJ92AO21n3cA7bafeADtt595AO24n3oA7bmfewDtup98AO27n30A7byffgDtvZ+hAO2+n6IA7b+fowDtwJ+kAO3Bn6UA7cKfpgDtw5+nAO3En6gA7cWfqQDtxp+qAO3Hn6sA7cifrADtyZ+tAO3Kn64A7cufrwDtzJ+wAO3Nn7EA7c6fsgDtz5+zAO3Qn7QA7dGftQDt0p+2AO3Tn7cA7dSfuADt1Z+5AO3Wn7oA7defuwDt2J+8AO3Zn70A7dqfvgDt25+/AO3cn8AA7d2fwQDt3p/CAO3fn8MA7eCfxADt4Z/FAO3in8YA7eOfxwDt5J/IAO3ln8kA7eafygDt55/LAO3on8wA7emfzQDt6p/OAO3rn88A7eyf0ADt7Z/RAO3un9IA7e+f0wDt8J/UAO3xn9UA7fKf1gDt85/XAO30n9gA7fWf2QDt9p/aAO33n9sA7fif3ADt+Z/dAO36n94A7fuf3wDt/J/gAO39n+EA7f6f4gDt/5/jAO4An+QA7gGf5QDuAp/mAO4Dn+cA7gSf6ADuBZ/pAO4Gn+oA7gef6wDuCJ/sAO4Jn+0A7gqf7gDuC5/vAO4Mn/AA7g2f8QDuDp/yAO4Pn/MA7hCf9ADuEZ/1AO4Sn/YA7hOf9wDuFJ/4AO4Vn/kA7haf+gDuF5/7AO4Yn/wA7hmf/QDuGp/+AO4boEAA7hygQQDuHaBCAO4eoEMA7h+gRADuIKBFAO4hoEYA7iKgRwDuI6BIAO4koEkA7iWgSgDuJqBLAO4noEwA7iigTQDuKaBOAO4qoE8A7iugUADuLKBRAO4toFIA7i6gUwDuL6BUAO4woFUA7jGgVgDuMqBXAO4zoFgA7jSgWQDuNaBaAO42oFsA7jegXADuOKBdAO45oF4A7jqgXwDuO6BgAO48oGEA7j2gYgDuPqBjAO4/oGQA7kCgZQDuQaBmAO5CoGcA7kOgaADuRKBpAO5FoGoA7kagawDuR6BsAO5IoG0A7kmgbgDuSqBvAO5LoHAA7kygcQDuTaByAO5OoHMA7k+gdADuUKB1AO5RoHYA7lKgdwDuU6B4AO5UoHkA7lWgegDuVqB7AO5XoHwA7ligfQDuWaB+AO5aoKEA7lugogDuXKCjAO5doKQA7l6gpQDuX6CmAO5goKcA7mGgqADuYqCpAO5joKoA7mSgqwDuZaCsAO5moK0A7megrgDuaKCvAO5poLAA7mqgsQDua6CyAO5soLMA7m2gtADubqC1AO5voLYA7nCgtwDucaC4AO5yoLkA7nOgugDudKC7AO51oLwA7nagvQDud6C+AO54oL8A7nmgwADueqDBAO57oMIA7nygwwDufaDEAO5+oMUA7n+gxgDugKDHAO6BoMgA7oKgyQDug6DKAO6EoMsA7oWgzADuhqDNAO6HoM4A7oigzwDuiaDQAO6KoNEA7oug0gDujKDTAO6NoNQA7o6g1QDuj6DWAO6QoNcA7pGg2ADukqDZAO6ToNoA7pSg2wDulaDcAO6WoN0A7peg3gDumKDfAO6ZoOAA7pqg4QDum6DiAO6coOMA7p2g5ADunqDlAO6foOYA7qCg5wDuoaDoAO6ioOkA7qOg6gDupKDrAO6loOwA7qag7QDup6DuAO6ooO8A7qmg8ADuqqDxAO6roPIA7qyg8wDuraD0AO6uoPUA7q+g9gDusKD3AO6xoPgA7rKg+QDus6D6AO60oPsA7rWg/ADutqD9AO63oP4A7riBQADuuYFBAO66gUIA7ruBQwDuvIFEAO69gUUA7r6BRgDuv4FHAO7AgUgA7sGBSQDuwoFKAO7DgUsA7sSBTADuxYFNAO7GgU4A7seBTwDuyIFQAO7JgVEA7sqBUgDuy4FTAO7MgVQA7s2BVQDuzoFWAO7PgVcA7tCBWADu0YFZAO7SgVoA7tOBWwDu1IFcAO7VgV0A7taBXgDu14FfAO7YgWAA7tmBYQDu2oFiAO7bgWMA7tyBZADu3YFlAO7egWYA7t+BZwDu4IFoAO7hgWkA7uKBagDu44FrAO7kgWwA7uWBbQDu5oFuAO7ngW8A7uiBcADu6YFxAO7qgXIA7uuBcwDu7IF0AO7tgXUA7u6BdgDu74F3AO7wgXgA7vGBeQDu8oF6AO7zgXsA7vSBfADu9YF9AO72gX4A7veBoQDu+IGiAO75gaMA7vqBpADu+4GlAO78gaYA7v2BpwDu/oGoAO7/gakA7wCBqgDvAYGrAO8CgawA7wOBrQDvBIGuAO8Fga8A7waBsADvB4GxAO8IgbIA7wmBswDvCoG0AO8LgbUA7wyBtgDvDYG3AO8OgbgA7w+BuQDvEIG6AO8RgbsA7xKBvADvE4G9AO8Ugb4A7xWBvwDvFoHAAO8XgcEA7xiBwgDvGYHDAO8agcQA7xuBxQDvHIHGAO8dgccA7x6ByADvH4HJAO8ggcoA7yGBywDvIoHMAO8jgc0A7ySBzgDvJYHPAO8mgdAA7yeB0QDvKIHSAO8pgdMA7yqB1ADvK4HVAO8sgdYA7y2B1wDvLoHYAO8vgdkA7zCB2gDvMYHbAO8ygdwA7zOB3QDvNIHeAO81gd8A7zaB4ADvN4HhAO84geIA7zmB4wDvOoHkAO87geUA7zyB5gDvPYHnAO8+gegA7z+B6QDvQIHqAO9BgesA70KB7ADvQ4HtAO9Ege4A70WB7wDvRoHwAO9HgfEA70iB8gDvSYHzAO9KgfQA70uB9QDvTIH2AO9NgfcA706B+ADvT4H5AO9QgfoA71GB+wDvUoH8AO9Tgf0A71SB/gDvVYJAAO9WgkEA71eCQgDvWIJDAO9ZgkQA71qCRQDvW4JGAO9cgkcA712CSADvXoJJAO9fgkoA72CCSwDvYYJMAO9igk0A72OCTgDvZIJPAO9lglAA72aCUQDvZ4JSAO9oglMA72mCVADvaoJVAO9rglYA72yCVwDvbYJYAO9uglkA72+CWgDvcIJbAO9xglwA73KCXQDvc4JeAO90gl8A73WCYADvdoJhAO93gmIA73iCYwDveYJkAO96gmUA73uCZgDvfIJnAO99gmgA736CaQDvf4JqAO+AgmsA74GCbADvgoJtAO+Dgm4A74SCbwDvhYJwAO+GgnEA74eCcgDviIJzAO+JgnQA74qCdQDvi4J2AO+MgncA742CeADvjoJ5AO+PgnoA75CCewDvkYJ8AO+Sgn0A75OCfgDvlIKhAO+VgqIA75aCowDvl4KkAO+YgqUA75mCpgDvmoKnAO+bgqgA75yCqQDvnYKqAO+egqsA75+CrADvoIKtAO+hgq4A76KCrwDvo4KwAO+kgrEA76WCsgDvpoKzAO+ngrQA76iCtQDvqYK2AO+qgrcA76uCuADvrIK5AO+tgroA766CuwDvr4K8AO+wgr0A77GCvgDvsoK/AO+zgsAA77SCwQDvtYLCAO+2gsMA77eCxADvuILFAO+5gsYA77qCxwDvu4LIAO+8gskA772CygDvvoLLAO+/gswA78CCzQDvwYLOAO/Cgs8A78OC0ADvxILRAO/FgtIA78aC0wDvx4LUAO/IgtUA78mC1gDvyoLXAO/LgtgA78yC2QDvzYLaAO/OgtsA78+C3ADv0ILdAO/Rgt4A79KC3wDv04LgAO/UguEA79WC4gDv1oLjAO/XguQA79iC5QDv2YLmAO/agucA79uC6ADv3ILpAO/dguoA796C6wDv34LsAO/ggu0A7+GC7gDv4oLvAO/jgvAA7+SC8QDv5YLyAO/mgvMA7+eC9ADv6IL1AO/pgvYA7+qC9wDv64L4AO/sgvkA7+2C+gDv7oL7AO/vgvwA7/CC/QDv8YL+AO/yg0AA7/ODQQDv9INCAO/1g0MA7/aDRADv94NFAO/4g0YA7/mDRwDv+oNIAO/7g0kA7/yDSgDv/YNLAO/+g0wA7/+DTQDwAINOAPABg08A8AKDUADwA4NRAPAEg1IA8AWDUwDwBoNUAPAHg1UA8AiDVgDwCYNXAPAKg1gA8AuDWQDwDINaAPANg1sA8A6DXADwD4NdAPAQg14A8BGDXwDwEoNgAPATg2EA8BSDYgDwFYNjAPAWg2QA8BeDZQDwGINmAPAZg2cA8BqDaADwG4NpAPAcg2oA8B2DawDwHoNsAPAfg20A8CCDbgDwIYNvAPAig3AA8CODcQDwJINyAPAlg3MA8CaDdADwJ4N1APAog3YA8CmDdwDwKoN4APArg3kA8CyDegDwLYN7APAug3wA8C+DfQDwMIN+APAxg6EA8DKDogDwM4OjAPA0g6QA8DWDpQDwNoOmAPA3g6cA8DiDqADwOYOpAPA6g6oA8DuDqwDwPIOsAPA9g60A8D6DrgDwP4OvAPBAg7AA8EGDsQDwQoOyAPBDg7MA8ESDtADwRYO1APBGg7YA8EeDtwDwSIO4APBJg7kA8EqDugDwS4O7APBMg7wA8E2DvQDwToO+APBPg78A8FCDwADwUYPBAPBSg8IA8FODwwDwVIPEAPBVg8UA8FaDxgDwV4PHAPBYg8gA8FmDyQDwWoPKAPBbg8sA8FyDzADwXYPNAPBeg84A8F+DzwDwYIPQAPBhg9EA8GKD0gDwY4PTAPBkg9QA8GWD1QDwZoPWAPBng9cA8GiD2ADwaYPZAPBqg9oA8GuD2wDwbIPcAPBtg90A8G6D3gDwb4PfAPBwg+AA8HGD4QDwcoPiAPBzg+MA8HSD5ADwdYPlAPB2g+YA8HeD5wDweIPoAPB5g+kA8HqD6gDwe4PrAPB8g+wA8H2D7QDwfoPuAPB/g+8A8ICD8ADwgYPxAPCCg/IA8IOD8wDwhIP0APCFg/UA8IaD9gDwh4P3APCIg/gA8ImD+QDwioP6APCLg/sA8IyD/ADwjYP9APCOg/4A8I+EQADwkIRBAPCRhEIA8JKEQwDwk4REAPCUhEUA8JWERgDwloRHAPCXhEgA8JiESQDwmYRKAPCahEsA8JuETADwnIRNAPCdhE4A8J6ETwDwn4RQAPCghFEA8KGEUgDwooRTAPCjhFQA8KSEVQDwpYRWAPCmhFcA8KeEWADwqIRZAPCphFoA8KqEWwDwq4RcAPCshF0A8K2EXgDwroRfAPCvhGAA8LCEYQDwsYRiAPCyhGMA8LOEZADwtIRlAPC1hGYA8LaEZwDwt4RoAPC4hGkA8LmEagDwuoRrAPC7hGwA8LyEbQDwvYRuAPC+hG8A8L+EcADwwIRxAPDBhHIA8MKEcwDww4R0APDEhHUA8MWEdgDwxoR3APDHhHgA8MiEeQDwyYR6APDKhHsA8MuEfADwzIR9APDNhH4A8M6EoQDwz4SiAPDQhKMA8NGEpADw0oSlAPDThKYA8NSEpwDw1YSoAPDWhKkA8NeEqgDw2ISrAPDZhKwA8NqErQDw24SuAPDchK8A8N2EsADw3oSxAPDfhLIA8OCEswDw4YS0APDihLUA8OOEtgDw5IS3APDlhLgA8OaEuQDw54S6APDohLsA8OmEvADw6oS9APDrhL4A8OyEvwDw7YTAAPDuhMEA8O+EwgDw8ITDAPDxhMQA8PKExQDw84TGAPD0hMcA8PWEyADw9oTJAPD3hMoA8PiEywDw+YTMAPD6hM0A8PuEzgDw/ITPAPD9hNAA8P6E0QDw/4TSAPEAhNMA8QGE1ADxAoTVAPEDhNYA8QSE1wDxBYTYAPEGhNkA8QeE2gDxCITbAPEJhNwA8QqE3QDxC4TeAPEMhN8A8Q2E4ADxDoThAPEPhOIA8RCE4wDxEYTkAPEShOUA8ROE5gDxFITnAPEVhOgA8RaE6QDxF4TqAPEYhOsA8RmE7ADxGoTtAPEbhO4A8RyE7wDxHYTwAPEehPEA8R+E8gDxIITzAPEhhPQA8SKE9QDxI4T2APEkhPcA8SWE+ADxJoT5APEnhPoA8SiE+wDxKYT8APEqhP0A8SuE/gDxLIVAAPEthUEA8S6FQgDxL4VDAPEwhUQA8TGFRQDxMoVGAPEzhUcA8TSFSADxNYVJAPE2hUoA8TeFSwDxOIVMAPE5hU0A8TqFTgDxO4VPAPE8hVAA8T2FUQDxPoVSAPE/hVMA8UCFVADxQYVVAPFChVYA8UOFVwDxRIVYAPFFhVkA8UaFWgDxR4VbAPFIhVwA8UmFXQDxSoVeAPFLhV8A8UyFYADxTYVhAPFOhWIA8U+FYwDxUIVkAPFRhWUA8VKFZgDxU4VnAPFUhWgA8VWFaQDxVoVqAPFXhWsA8ViFbADxWYVtAPFahW4A8VuFbwDxXIVwAPFdhXEA8V6FcgDxX4VzAPFghXQA8WGFdQDxYoV2APFjhXcA8WSFeADxZYV5APFmhXoA8WeFewDxaIV8APFphX0A8WqFfgDxa4WhAPFshaIA8W2FowDxboWkAPFvhaUA8XCFpgDxcYWnAPFyhagA8XOFqQDxdIWqAPF1hasA8XaFrADxd4WtAPF4ha4A8XmFrwDxeoWwAPF7hbEA8XyFsgDxfYWzAPF+hbQA8X+FtQDxgIW2APGBhbcA8YKFuADxg4W5APGEhboA8YWFuwDxhoW8APGHhb0A8YiFvgDxiYW/APGKhcAA8YuFwQDxjIXCAPGNhcMA8Y6FxADxj4XFAPGQhcYA8ZGFxwDxkoXIAPGThckA8ZSFygDxlYXLAPGWhcwA8ZeFzQDxmIXOAPGZhc8A8ZqF0ADxm4XRAPGchdIA8Z2F0wDxnoXUAPGfhdUA8aCF1gDxoYXXAPGihdgA8aOF2QDxpIXaAPGlhdsA8aaF3ADxp4XdAPGohd4A8amF3wDxqoXgAPGrheEA8ayF4gDxrYXjAPGuheQA8a+F5QDxsIXmAPGxhecA8bKF6ADxs4XpAPG0heoA8bWF6wDxtoXsAPG3he0A8biF7gDxuYXvAPG6hfAA8buF8QDxvIXyAPG9hfMA8b6F9ADxv4X1APHAhfYA8cGF9wDxwoX4APHDhfkA8cSF+gDxxYX7APHGhfwA8ceF/QDxyIX+APHJhkAA8cqGQQDxy4ZCAPHMhkMA8c2GRADxzoZFAPHPhkYA8dCGRwDx0YZIAPHShkkA8dOGSgDx1IZLAPHVhkwA8daGTQDx14ZOAPHYhk8A8dmGUADx2oZRAPHbhlIA8dyGUwDx3YZUAPHehlUA8d+GVgDx4IZXAPHhhlgA8eKGWQDx44ZaAPHkhlsA8eWGXADx5oZdAPHnhl4A8eiGXwDx6YZgAPHqhmEA8euGYgDx7IZjAPHthmQA8e6GZQDx74ZmAPHwhmcA8fGGaADx8oZpAPHzhmoA8fSGawDx9YZsAPH2hm0A8feGbgDx+IZvAPH5hnAA8fqGcQDx+4ZyAPH8hnMA8f2GdADx/oZ1APH/hnYA8gCGdwDyAYZ4APIChnkA8gOGegDyBIZ7APIFhnwA8gaGfQDyB4Z+APIIhqEA8gmGogDyCoajAPILhqQA8gyGpQDyDYamAPIOhqcA8g+GqADyEIapAPIRhqoA8hKGqwDyE4asAPIUhq0A8hWGrgDyFoavAPIXhrAA8hiGsQDyGYayAPIahrMA8huGtADyHIa1APIdhrYA8h6GtwDyH4a4APIghrkA8iGGugDyIoa7APIjhrwA8iSGvQDyJYa+APImhr8A8ieGwADyKIbBAPIphsIA8iqGwwDyK4bEAPIshsUA8i2GxgDyLobHAPIvhsgA8jCGyQDyMYbKAPIyhssA8jOGzADyNIbNAPI1hs4A8jaGzwDyN4bQAPI4htEA8jmG0gDyOobTAPI7htQA8jyG1QDyPYbWAPI+htcA8j+G2ADyQIbZAPJBhtoA8kKG2wDyQ4bcAPJEht0A8kWG3gDyRobfAPJHhuAA8kiG4QDySYbiAPJKhuMA8kuG5ADyTIblAPJNhuYA8k6G5wDyT4boAPJQhukA8lGG6gDyUobrAPJThuwA8lSG7QDyVYbuAPJWhu8A8leG8ADyWIbxAPJZhvIA8lqG8wDyW4b0APJchvUA8l2G9gDyXob3APJfhvgA8mCG+QDyYYb6APJihvsA8mOG/ADyZIb9APJlhv4A8maHQADyZ4dBAPJoh0IA8mmHQwDyaodEAPJrh0UA8myHRgDybYdHAPJuh0gA8m+HSQDycIdKAPJxh0sA8nKHTADyc4dNAPJ0h04A8nWHTwDydodQAPJ3h1EA8niHUgDyeYdTAPJ6h1QA8nuHVQDyfIdWAPJ9h1cA8n6HWADyf4dZAPKAh1oA8oGHWwDygodcAPKDh10A8oSHXgDyhYdfAPKGh2AA8oeHYQDyiIdiAPKJh2MA8oqHZADyi4dlAPKMh2YA8o2HZwDyjodoAPKPh2kA8pCHagDykYdrAPKSh2wA8pOHbQDylIduAPKVh28A8paHcADyl4dxAPKYh3IA8pmHcwDymod0APKbh3UA8pyHdgDynYd3APKeh3gA8p+HeQDyoId6APKhh3sA8qKHfADyo4d9APKkh34A8qWHoQDypoeiAPKnh6MA8qiHpADyqYelAPKqh6YA8quHpwDyrIeoAPKth6kA8q6HqgDyr4erAPKwh6wA8rGHrQDysoeuAPKzh68A8rSHsADytYexAPK2h7IA8reHswDyuIe0APK5h7UA8rqHtgDyu4e3APK8h7gA8r2HuQDyvoe6APK/h7sA8sCHvADywYe9APLCh74A8sOHvwDyxIfAAPLFh8EA8saHwgDyx4fDAPLIh8QA8smHxQDyyofGAPLLh8cA8syHyADyzYfJAPLOh8oA8s+HywDy0IfMAPLRh80A8tKHzgDy04fPAPLUh9AA8tWH0QDy1ofSAPLXh9MA8tiH1ADy2YfVAPLah9YA8tuH1wDy3IfYAPLdh9kA8t6H2gDy34fbAPLgh9wA8uGH3QDy4ofeAPLjh98A8uSH4ADy5YfhAPLmh+IA8ueH4wDy6IfkAPLph+UA8uqH5gDy64fnAPLsh+gA8u2H6QDy7ofqAPLvh+sA8vCH7ADy8YftAPLyh+4A8vOH7wDy9IfwAPL1h/EA8vaH8gDy94fzAPL4h/QA8vmH9QDy+of2APL7h/cA8vyH+ADy/Yf5APL+h/oA8v+H+wDzAIf8APMBh/0A8wKH/gDzA4hAAPMEiEEA8wWIQgDzBohDAPMHiEQA8wiIRQDzCYhGAPMKiEcA8wuISADzDIhJAPMNiEoA8w6ISwDzD4hMAPMQiE0A8xGITgDzEohPAPMTiFAA8xSIUQDzFYhSAPMWiFMA8xeIVADzGIhVAPMZiFYA8xqIVwDzG4hYAPMciFkA8x2IWgDzHohbAPMfiFwA8yCIXQDzIYheAPMiiF8A8yOIYADzJIhhAPMliGIA8yaIYwDzJ4hkAPMoiGUA8ymIZgDzKohnAPMriGgA8yyIaQDzLYhqAPMuiGsA8y+IbADzMIhtAPMxiG4A8zKIbwDzM4hwAPM0iHEA8zWIcgDzNohzAPM3iHQA8ziIdQDzOYh2APM6iHcA8zuIeADzPIh5APM9iHoA8z6IewDzP4h8APNAiH0A80GIfgDzQoihAPNDiKIA80SIowDzRYikAPNGiKUA80eIpgDzSIinAPNJiKgA80qIqQDzS4iqAPNMiKsA802IrADzToitAPNPiK4A81CIrwDzUYiwAPNSiLEA81OIsgDzVIizAPNViLQA81aItQDzV4i2APNYiLcA81mIuADzWoi5APNbiLoA81yIuwDzXYi8APNeiL0A81+IvgDzYIi/APNhiMAA82KIwQDzY4jCAPNkiMMA82WIxADzZojFAPNniMYA82iIxwDzaYjIAPNqiMkA82uIygDzbIjLAPNtiMwA826IzQDzb4jOAPNwiM8A83GI0ADzcojRAPNziNIA83SI0wDzdYjUAPN2iNUA83eI1gDzeIjXAPN5iNgA83qI2QDze4jaAPN8iNsA832I3ADzfojdAPN/iN4A84CI3wDzgYjgAPOCiOEA84OI4gDzhIjjAPOFiOQA84aI5QDzh4jmAPOIiOcA84mI6ADziojpAPOLiOoA84yI6wDzjYjsAPOOiO0A84+I7gDzkIjvAPORiPAA85KI8QDzk4jyAPOUiPMA85WI9ADzloj1APOXiPYA85iI9wDzmYj4APOaiPkA85uI+gDznIj7APOdiPwA856I/QDzn4j+APOgiUAA86GJQQDzoolCAPOjiUMA86SJRADzpYlFAPOmiUYA86eJRwDzqIlIAPOpiUkA86qJSgDzq4lLAPOsiUwA862JTQDzrolOAPOviU8A87CJUADzsYlRAPOyiVIA87OJUwDztIlUAPO1iVUA87aJVgDzt4lXAPO4iVgA87mJWQDzuolaAPO7iVsA87yJXADzvYldAPO+iV4A87+JXwDzwIlgAPPBiWEA88KJYgDzw4ljAPPEiWQA88WJZQDzxolmAPPHiWcA88iJaADzyYlpAPPKiWoA88uJawDzzIlsAPPNiW0A886JbgDzz4lvAPPQiXAA89GJcQDz0olyAPPTiXMA89SJdADz1Yl1APPWiXYA89eJdwDz2Il4APPZiXkA89qJegDz24l7APPciXwA892JfQDz3ol+APPfiaEA8+CJogDz4YmjAPPiiaQA8+OJpQDz5ImmAPPliacA8+aJqADz54mpAPPoiaoA8+mJqwDz6omsAPPria0A8+yJrgDz7YmvAPPuibAA8++JsQDz8ImyAPPxibMA8/KJtADz84m1APP0ibYA8/WJtwDz9om4APP3ibkA8/iJugDz+Ym7APP6ibwA8/uJvQDz/Im+APP9ib8A8/6JwADz/4nBAPQAicIA9AGJwwD0AonEAPQDicUA9ASJxgD0BYnHAPQGicgA9AeJyQD0CInKAPQJicsA9AqJzAD0C4nNAPQMic4A9A2JzwD0DonQAPQPidEA9BCJ0gD0EYnTAPQSidQA9BOJ1QD0FInWAPQVidcA9BaJ2AD0F4nZAPQYidoA9BmJ2wD0GoncAPQbid0A9ByJ3gD0HYnfAPQeieAA9B+J4QD0IIniAPQhieMA9CKJ5AD0I4nlAPQkieYA9CWJ5wD0JonoAPQniekA9CiJ6gD0KYnrAPQqiewA9CuJ7QD0LInuAPQtie8A9C6J8AD0L4nxAPQwifIA9DGJ8wD0Mon0APQzifUA9DSJ9gD0NYn3APQ2ifgA9DeJ+QD0OIn6APQ5ifsA9DqJ/AD0O4n9APQ8if4A9D2KQAD0PopBAPQ/ikIA9ECKQwD0QYpEAPRCikUA9EOKRgD0RIpHAPRFikgA9EaKSQD0R4pKAPRIiksA9EmKTAD0SopNAPRLik4A9EyKTwD0TYpQAPROilEA9E+KUgD0UIpTAPRRilQA9FKKVQD0U4pWAPRUilcA9FWKWAD0VopZAPRXiloA9FiKWwD0WYpcAPRail0A9FuKXgD0XIpfAPRdimAA9F6KYQD0X4piAPRgimMA9GGKZAD0YoplAPRjimYA9GSKZwD0ZYpoAPRmimkA9GeKagD0aIprAPRpimwA9GqKbQD0a4puAPRsim8A9G2KcAD0bopxAPRvinIA9HCKcwD0cYp0APRyinUA9HOKdgD0dIp3APR1ingA9HaKeQD0d4p6APR4insA9HmKfAD0eop9APR7in4A9HyKoQD0fYqiAPR+iqMA9H+KpAD0gIqlAPSBiqYA9IKKpwD0g4qoAPSEiqkA9IWKqgD0hoqrAPSHiqwA9IiKrQD0iYquAPSKiq8A9IuKsAD0jIqxAPSNirIA9I6KswD0j4q0APSQirUA9JGKtgD0koq3APSTirgA9JSKuQD0lYq6APSWirsA9JeKvAD0mIq9APSZir4A9JqKvwD0m4rAAPScisEA9J2KwgD0norDAPSfisQA9KCKxQD0oYrGAPSiiscA9KOKyAD0pIrJAPSlisoA9KaKywD0p4rMAPSois0A9KmKzgD0qorPAPSritAA9KyK0QD0rYrSAPSuitMA9K+K1AD0sIrVAPSxitYA9LKK1wD0s4rYAPS0itkA9LWK2gD0torbAPS3itwA9LiK3QD0uYreAPS6it8A9LuK4AD0vIrhAPS9iuIA9L6K4wD0v4rkAPTAiuUA9MGK5gD0wornAPTDiugA9MSK6QD0xYrqAPTGiusA9MeK7AD0yIrtAPTJiu4A9MqK7wD0y4rwAPTMivEA9M2K8gD0zorzAPTPivQA9NCK9QD00Yr2APTSivcA9NOK+AD01Ir5APTVivoA9NaK+wD014r8APTYiv0A9NmK/gD02otAAPTbi0EA9NyLQgD03YtDAPTei0QA9N+LRQD04ItGAPThi0cA9OKLSAD044tJAPTki0oA9OWLSwD05otMAPTni00A9OiLTgD06YtPAPTqi1AA9OuLUQD07ItSAPTti1MA9O6LVAD074tVAPTwi1YA9PGLVwD08otYAPTzi1kA9PSLWgD09YtbAPT2i1wA9PeLXQD0+IteAPT5i18A9PqLYAD0+4thAPT8i2IA9P2LYwD0/otkAPT/i2UA9QCLZgD1AYtnAPUCi2gA9QOLaQD1BItqAPUFi2sA9QaLbAD1B4ttAPUIi24A9QmLbwD1CotwAPULi3EA9QyLcgD1DYtzAPUOi3QA9Q+LdQD1EIt2APURi3cA9RKLeAD1E4t5APUUi3oA9RWLewD1Fot8APUXi30A9RiLfgD1GYuhAPUai6IA9RuLowD1HIukAPUdi6UA9R6LpgD1H4unAPUgi6gA9SGLqQD1IouqAPUji6sA9SSLrAD1JYutAPUmi64A9SeLrwD1KIuwAPUpi7EA9SqLsgD1K4uzAPUsi7QA9S2LtQD1Lou2APUvi7cA9TCLuAD1MYu5APUyi7oA9TOLuwD1NIu8APU1i70A9TaLvgD1N4u/APU4i8AA9TmLwQD1OovCAPU7i8MA9TyLxAD1PYvFAPU+i8YA9T+LxwD1QIvIAPVBi8kA9UKLygD1Q4vLAPVEi8wA9UWLzQD1RovOAPVHi88A9UiL0AD1SYvRAPVKi9IA9UuL0wD1TIvUAPVNi9UA9U6L1gD1T4vXAPVQi9gA9VGL2QD1UovaAPVTi9sA9VSL3AD1VYvdAPVWi94A9VeL3wD1WIvgAPVZi+EA9VqL4gD1W4vjAPVci+QA9V2L5QD1XovmAPVfi+cA9WCL6AD1YYvpAPVii+oA9WOL6wD1ZIvsAPVli+0A9WaL7gD1Z4vvAPVoi/AA9WmL8QD1aovyAPVri/MA9WyL9AD1bYv1APVui/YA9W+L9wD1cIv4APVxi/kA9XKL+gD1c4v7APV0i/wA9XWL/QD1dov+APV3jEAA9XiMQQD1eYxCAPV6jEMA9XuMRAD1fIxFAPV9jEYA9X6MRwD1f4xIAPWAjEkA9YGMSgD1goxLAPWDjEwA9YSMTQD1hYxOAPWGjE8A9YeMUAD1iIxRAPWJjFIA9YqMUwD1i4xUAPWMjFUA9Y2MVgD1joxXAPWPjFgA9ZCMWQD1kYxaAPWSjFsA9ZOMXAD1lIxdAPWVjF4A9ZaMXwD1l4xgAPWYjGEA9ZmMYgD1moxjAPWbjGQA9ZyMZQD1nYxmAPWejGcA9Z+MaAD1oIxpAPWhjGoA9aKMawD1o4xsAPWkjG0A9aWMbgD1poxvAPWnjHAA9aiMcQD1qYxyAPWqjHMA9auMdAD1rIx1APWtjHYA9a6MdwD1r4x4APWwjHkA9bGMegD1sox7APWzjHwA9bSMfQD1tYx+APW2jKEA9beMogD1uIyjAPW5jKQA9bqMpQD1u4ymAPW8jKcA9b2MqAD1voypAPW/jKoA9cCMqwD1wYysAPXCjK0A9cOMrgD1xIyvAPXFjLAA9caMsQD1x4yyAPXIjLMA9cmMtAD1yoy1APXLjLYA9cyMtwD1zYy4APXOjLkA9c+MugD10Iy7APXRjLwA9dKMvQD104y+APXUjL8A9dWMwAD11ozBAPXXjMIA9diMwwD12YzEAPXajMUA9duMxgD13IzHAPXdjMgA9d6MyQD134zKAPXgjMsA9eGMzAD14ozNAPXjjM4A9eSMzwD15YzQAPXmjNEA9eeM0gD16IzTAPXpjNQA9eqM1QD164zWAPXsjNcA9e2M2AD17ozZAPXvjNoA9fCM2wD18YzcAPXyjN0A9fOM3gD19IzfAPX1jOAA9faM4QD194ziAPX4jOMA9fmM5AD1+ozlAPX7jOYA9fyM5wD1/YzoAPX+jOkA9f+M6gD2AIzrAPYBjOwA9gKM7QD2A4zuAPYEjO8A9gWM8AD2BozxAPYHjPIA9giM8wD2CYz0APYKjPUA9guM9gD2DIz3APYNjPgA9g6M+QD2D4z6APYQjPsA9hGM/AD2Eoz9APYTjP4A9hSNQAD2FY1BAPYWjUIA9heNQwD2GI1EAPYZjUUA9hqNRgD2G41HAPYcjUgA9h2NSQD2Ho1KAPYfjUsA9iCNTAD2IY1NAPYijU4A9iONTwD2JI1QAPYljVEA9iaNUgD2J41TAPYojVQA9imNVQD2Ko1WAPYrjVcA9iyNWAD2LY1ZAPYujVoA9i+NWwD2MI1cAPYxjV0A9jKNXgD2M41fAPY0jWAA9jWNYQD2No1iAPY3jWMA9jiNZAD2OY1lAPY6jWYA9juNZwD2PI1oAPY9jWkA9j6NagD2P41rAPZAjWwA9kGNbQD2Qo1uAPZDjW8A9kSNcAD2RY1xAPZGjXIA9keNcwD2SI10APZJjXUA9kqNdgD2S413APZMjXgA9k2NeQD2To16APZPjXsA9lCNfAD2UY19APZSjX4A9lONoQD2VI2iAPZVjaMA9laNpAD2V42lAPZYjaYA9lmNpwD2Wo2oAPZbjakA9lyNqgD2XY2rAPZejawA9l+NrQD2YI2uAPZhja8A9mKNsAD2Y42xAPZkjbIA9mWNswD2Zo20APZnjbUA9miNtgD2aY23APZqjbgA9muNuQD2bI26APZtjbsA9m6NvAD2b429APZwjb4A9nGNvwD2co3AAPZzjcEA9nSNwgD2dY3DAPZ2jcQA9neNxQD2eI3GAPZ5jccA9nqNyAD2e43JAPZ8jcoA9n2NywD2fo3MAPZ/jc0A9oCNzgD2gY3PAPaCjdAA9oON0QD2hI3SAPaFjdMA9oaN1AD2h43VAPaIjdYA9omN1wD2io3YAPaLjdkA9oyN2gD2jY3bAPaOjdwA9o+N3QD2kI3eAPaRjd8A9pKN4AD2k43hAPaUjeIA9pWN4wD2lo3kAPaXjeUA9piN5gD2mY3nAPaajegA9puN6QD2nI3qAPadjesA9p6N7AD2n43tAPagje4A9qGN7wD2oo3wAPajjfEA9qSN8gD2pY3zAPamjfQA9qeN9QD2qI32APapjfcA9qqN+AD2q435APasjfoA9q2N+wD2ro38APavjf0A9rCN/gD2scahAPayxqIA9rPGowD2tMakAPa1xqUA9rbGpgD2t8anAPa4xqgA9rnGqQD2usaqAPa7xqsA9rzGrAD2vcatAPa+xq4A9r/GrwD2wMawAPbBxrEA9sLGsgD2w8azAPbExrQA9sXGtQD2xsa2APbHxrcA9sjGuAD2yca5APbKxroA9svGuwD2zMa8APbNxr0A9s7GvgD2z8a/APbQxsAA9tHGwQD20sbCAPbTxsMA9tTGxAD21cbFAPbWxsYA9tfGxwD22MbIAPbZxskA9trGygD228bLAPbcxswA9t3GzQD23sbOAPbfxs8A9uDG0AD24cbRAPbixtIA9uPG0wD25MbUAPblxtUA9ubG1gD258bXAPboxtgA9unG2QD26sbaAPbrxtsA9uzG3AD27cbdAPbuxt4A9u/G3wD28MbgAPbxxuEA9vLG4gD288bjAPb0xuQA9vXG5QD29sbmAPb3xucA9vjG6AD2+cbpAPb6xuoA9vvG6wD2/MbsAPb9xu0A9v7G7gD2/8bvAPcAxvAA9wHG8QD3AsbyAPcDxvMA9wTG9AD3Bcb1APcGxvYA9wfG9wD3CMb4APcJxvkA9wrG+gD3C8b7APcMxvwA9w3G/QD3Dsb+APcPx0AA9xDHQQD3EcdCAPcSx0MA9xPHRAD3FMdFAPcVx0YA9xbHRwD3F8dIAPcYx0kA9xnHSgD3GsdLAPcbx0wA9xzHTQD3HcdOAPcex08A9x/HUAD3IMdRAPchx1IA9yLHUwD3I8dUAPckx1UA9yXHVgD3JsdXAPcnx1gA9yjHWQD3KcdaAPcqx1sA9yvHXAD3LMddAPctx14A9y7HXwD3L8dgAPcwx2EA9zHHYgD3MsdjAPczx2QA9zTHZQD3NcdmAPc2x2cA9zfHaAD3OMdpAPc5x2oA9zrHawD3O8dsAPc8x20A9z3HbgD3PsdvAPc/x3AA90DHcQD3QcdyAPdCx3MA90PHdAD3RMd1APdFx3YA90bHdwD3R8d4APdIx3kA90nHegD3Ssd7APdLx3wA90zHfQD3Tcd+APdOx6EA90/HogD3UMejAPdRx6QA91LHpQD3U8emAPdUx6cA91XHqAD3VsepAPdXx6oA91jHqwD3WcesAPdax60A91vHrgD3XMevAPddx7AA917HsQD3X8eyAPdgx7MA92HHtAD3Yse1APdjx7YA92THtwD3Zce4APdmx7kA92fHugD3aMe7APdpx7wA92rHvQD3a8e+APdsx78A923HwAD3bsfBAPdvx8IA93DHwwD3ccfEAPdyx8UA93PHxgD3dMfHAPd1x8gA93bHyQD3d8fKAPd4x8sA93nHzAD3esfNAPd7x84A93zHzwD3fcfQAPd+x9EA93/H0gD3gMfTAPeBx9QA94LH1QD3g8fWAPeEx9cA94XH2AD3hsfZAPeHx9oA94jH2wD3icfcAPeKx90A94vH3gD3jMffAPeNx+AA947H4QD3j8fiAPeQx+MA95HH5AD3ksflAPeTx+YA95TH5wD3lcfoAPeWx+kA95fH6gD3mMfrAPeZx+wA95rH7QD3m8fuAPecx+8A953H8AD3nsfxAPefx/IA96DH8wD3ocf0APeix/UA96PH9gD3pMf3APelx/gA96bH+QD3p8f6APeox/sA96nH/AD3qsf9APerx/4A96zIQAD3rchBAPeuyEIA96/IQwD3sMhEAPexyEUA97LIRgD3s8hHAPe0yEgA97XISQD3tshKAPe3yEsA97jITAD3uchNAPe6yE4A97vITwD3vMhQAPe9yFEA977IUgD3v8hTAPfAyFQA98HIVQD3wshWAPfDyFcA98TIWAD3xchZAPfGyFoA98fIWwD3yMhcAPfJyF0A98rIXgD3y8hfAPfMyGAA983IYQD3zshiAPfPyGMA99DIZAD30chlAPfSyGYA99PIZwD31MhoAPfVyGkA99bIagD318hrAPfYyGwA99nIbQD32shuAPfbyG8A99zIcAD33chxAPfeyHIA99/IcwD34Mh0APfhyHUA9+LIdgD348h3APfkyHgA9+XIeQD35sh6APfnyHsA9+jIfAD36ch9APfqyH4A9+vIoQD37MiiAPftyKMA9+7IpAD378ilAPfwyKYA9/HIpwD38sioAPfzyKkA9/TIqgD39cirAPf2yKwA9/fIrQD3+MiuAPf5yK8A9/rIsAD3+8ixAPf8yLIA9/3IswD3/si0APf/yLUA+ADItgD4Aci3APgCyLgA+APIuQD4BMi6APgFyLsA+AbIvAD4B8i9APgIyL4A+AnIvwD4CsjAAPgLyMEA+AzIwgD4DcjDAPgOyMQA+A/IxQD4EMjGAPgRyMcA+BLIyAD4E8jJAPgUyMoA+BXIywD4FsjMAPgXyM0A+BjIzgD4GcjPAPgayNAA+BvI0QD4HMjSAPgdyNMA+B7I1AD4H8jVAPggyNYA+CHI1wD4IsjYAPgjyNkA+CTI2gD4JcjbAPgmyNwA+CfI3QD4KMjeAPgpyN8A+CrI4AD4K8jhAPgsyOIA+C3I4wD4LsjkAPgvyOUA+DDI5gD4McjnAPgyyOgA+DPI6QD4NMjqAPg1yOsA+DbI7AD4N8jtAPg4yO4A+DnI7wD4OsjwAPg7yPEA+DzI8gD4PcjzAPg+yPQA+D/I9QD4QMj2APhByPcA+ELI+AD4Q8j5APhEyPoA+EXI+wD4Rsj8APhHyP0A+EjI/gD4+AD/APkAsFoA+QGn8wD5AqiuAPkDuOsA+QS3xgD5BabqAPkGpXkA+QfAdAD5CMB0APkJq7QA+Qqq9wD5C7PiAPkMqWAA+Q3DaQD5DsTuAPkPw7kA+RDF2gD5EcGzAPkSu3IA+RPF3gD5FLzWAPkVrKUA+RavTwD5F69fAPkYuKgA+Rm5VAD5GsBkAPkbtsMA+RynWgD5HcTmAPkexOoA+R/E9QD5IMZ9APkhtFAA+SLA3QD5I8LFAPkkxLAA+SWp1AD5JsO+APknxPoA+Si0WQD5Ka7UAPkqrvYA+SuvVAD5LajTAPkup04A+S+z0gD5ML7bAPkxw3IA+TLEbAD5M79jAPk0ptEA+TXEqgD5Nri4APk3uPQA+TjFUwD5Ob58APk6xk8A+Tu4TAD5PLhTAPk9uvEA+T7bdwD5P7/9APlAs8AA+UG91wD5QsNiAPlDp8sA+UTFogD5RcWkAPlGqGMA+Ue9VQD5SLjvAPlJuXAA+UrCUwD5S7nwAPlMvNMA+U2yXAD5Trp8APlPstYA+VDBXAD5Ua2uAPlSsMcA+VOm2AD5VLv+APlVreIA+Va4VwD5V7rwAPlYtdkA+VmzrgD5WsWqAPlbztQA+Vy81gD5Xb/VAPlepKYA+V+55wD5YKvjAPlhsnYA+WKypwD5Y6VfAPlk7agA+WWrSwD5ZrRfAPlnpKMA+WiqYwD5abzGAPlqr8EA+Wuw0QD5bLbrAPltrNkA+W64rQD5b7uhAPlwsf4A+XGosAD5cqhIAPlzrEIA+XStWQD5dbGwAPl2sqQA+XerRwD5eKjiAPl6secA+XvCswD5fKh9APl9vcwA+X62cQD5f8B5APmAp2YA+YGkawD5gsNmAPmDrsgA+YTCbwD5hcRyAPmGvlsA+YfGegD5iMRSAPmJvqQA+YqkTwD5i77kAPmMvvoA+Y33ZQD5jqZ+APmPvKYA+ZDFygD5kby/APmSuqcA+ZO30gD5lOajAPmWvW0A+ZfBcAD5mL37APmZvawA+ZqzcwD5m8HlAPmcpkMA+Z2mSAD5nqt8APmfr1AA+aC19QD5obuhAPmit0cA+aOpwAD5pLHJAPmlwNQA+abDrgD5p8J5APmopU8A+anL8QD5qrnnAPmrwK0A+azMsAD5razCAPmuvPwA+a+y3AD5sLLiAPmxuWEA+bK5cwD5s8ZGAPm0u+IA+bWo0gD5tsKnAPm3xL8A+bjB9QD5ubRjAPm6pEYA+bu5sQD5vLxkAPm9p78A+b6uxgD5v7zWAPnAv1IA+cHA+AD5wudkAPnDv/EA+cTAcwD5xbd3APnGqL8A+ce8QgD5yMzYAPnJrGgA+cqseQD5y7fIAPnMr1sA+c2vZAD5zrK4APnPr8MA+dDD/gD50aS7APnSvK4A+dOzsAD51K3bAPnVsVsA+dayXwD51738APnYq98A+dm3WAD52q7fAPnbsnYA+dy2qQD53adRAPnepk8A+d+8aQD54Kn2APnhp/UA+eKx+QD546pkAPnksnoA+eW1ZwD55r+pAPnouMwA+emovQD56sL3APnrsM4A+ey3xAD57adbAPnuv00A+e+/WgD58MSpAPnyxewA+fPF7wD59KpMAPn1sk8A+fbBewD596XfAPn4ssEA+fmyyQD5+qqsAPn7qqUA+fzD0QD5/aSwAPn+r/kA+f+o6wD6AKTBAPoBq9cA+gKp3QD6A799APoEpnYA+gWsfQD6BrzJAPoHv+cA+gim5gD6Ca2wAPoKqKMA+gu5+AD6DMlKAPoN3fwA+hC27wD6ErS4APoV6PkA+ha93gD6F69xAPoZr6sA+hqyuwD6G7rWAPocuXQA+h266wD6HqbQAPoivdEA+iW2aAD6JrOjAPoqtroA+iu5fQD6LMBdAPotxWIA/jChSgD+MaFXAP4zoVkA/jShWwD+NaFfAP42oWAA/jehYwD+OKFkAP45oWcA/jqhaAD+O6FrAP48oWwA/j2hbwD+PqFwAP4/oXMA/kChdAD+QaF3AP5CoXgA/kOhewD+RKF8AP5JocYA/kqhxwD+S6HKAP5MocsA/k2hyAD+TqHJAP5PoVwA/lChTQD+UaFOAP5SoU8A/lShUQD+VaFSAP5WoVMA/lehVAD+WaF9AP5aoX4A/luhoQD+XKGiAP5doaMA/l6hpAD+X6HMAP5goc0A/mGhzgD+YqHeAP5jod8A/mSh4AD+ZaHhAP5moeIA/miiQgD+aaJMAP5qok0A/muiTgD/AaFJAP8CoagA/wOhrQD/BKJDAP8FokgA/wahrgD/B6GmAP8IoV0A/wmhXgD/CqGvAP8Loc8A/wyhQQD/DaHQAP8OoUQA/w+h/gD/EKKvAP8RorAA/xKisQD/E6KyAP8UorMA/xWitAD/FqK1AP8XorYA/xiitwD/GaK4AP8aoUcA/xuhRgD/HKHVAP8dodcA/x6h1gD/H6FIAP8gokkA/yGizwD/IqLQAP8jotEA/ySi0gD/JaLTAP8motQA/yei1QD/KKLWAP8potcA/yqi2AD/K6LZAP8sotoA/y2i2wD/LqLcAP8vot0A/zCi3gD/MaLfAP8youAA/zOi4QD/NKLiAP81ouMA/zai5AD/N6LlAP84ouYA/zmi5wD/OqLoAP87oWUA/zyiQAD/PaFmAP8+oXMA/z+hxAD/QKGlAP9BoukA/0Ki6gD/Q6LrAP9EouwA/0Wi7QD/RqLuAP9Hou8A/0ii8AD/SaLxAP9KovIA/0ui8wD/TKL0AP9NovUA/06i9gD/T6L3AP9QovgA/1Gi+QD/UqL6AP9TovsA/1Si/AD/VaL9AP9Wov4A/1ejQAD/WKNBAP9Zo0IA/1qjQwD/W6FhAP9coVUA/12hYgD/XqHjAP9koU4A/+CiRgD/4aJHAP/jocMA/+WiRA==";
 export const BIG5_COUNT = 20192;
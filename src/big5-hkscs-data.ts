@@ -0,0 +1,6 @@
+// Generated by scripts/generate-big5-data.ts from data/big5-hkscs-u2b.txt. Do not edit.
+export const BIG5_SOURCE = "GNU libiconv (BIG5-HKSCS:2008)";
+export const BIG5_SOURCE_URL = "https://www.gnu.org/software/libiconv/";
+export const BIG5_CHECKSUM = "f76f163bb2915921ff18c5603173e13d8367c55c67d6f5e84cd82f1f537f4abd";
+export const BIG5_DATA = "AACiokYAAKOiRwAApaJEAACnobEAAKjG2AAAsKJYAACxodMAALehUAAAwIhZAADBiFcAAMiIXQAAyYhbAADKiGYAANKIYQAA04hfAADXodEAAOCIagAA4YhoAADoiG8AAOmIbQAA6oinAADsiHMAAO2IcQAA8oh3AADziHUAAPeh0gAA+Mj7AAD5iHsAAPqIeQAA/IiiAAEAiFYAAQGIZwABEohaAAETiGwAARqIXAABG4huAAEriHAAAUvI/AABTIheAAFNiHQAAVPI+gABa4h4AAHNiFgAAc6IaQAB0IhyAAHRiGAAAdKIdgAB1Ih6AAHWiHwAAdiIfQAB2oh+AAHciKEAAlDI9gACUYhrAAJUyPgAAlvI9wACYYioAAJqyP4AAnXI+QACg8j1AAKKyP0AAsbG2QACx6O+AALJo7wAAsqjvQACy6O/AALZo7sAA5GjRAADkqNFAAOTo0YAA5SjRwADlaNIAAOWo0kAA5ejSgADmKNLAAOZo0wAA5qjTQADm6NOAAOco08AA52jUAADnqNRAAOfo1IAA6CjUwADoaNUAAOjo1UAA6SjVgADpaNXAAOmo1gAA6ejWQADqKNaAAOpo1sAA7GjXAADsqNdAAOzo14AA7SjXwADtaNgAAO2o2EAA7ejYgADuKNjAAO5o2QAA7qjZQADu6NmAAO8o2cAA72jaAADvqNpAAO/o2oAA8CjawADwaNsAAPDo20AA8SjbgADxaNvAAPGo3AAA8ejcQADyKNyAAPJo3MABAHH+QAEEMfzAAQRx/QABBLH9QAEE8f2AAQUx/cABBXH+AAEFsf6AAQXx/sABBjH/AAEGcf9AAQax/4ABBvIQAAEHMhBAAQdyEIABB7IQwAEH8hEAAQgyEUABCHIRgAEIshHAAQjyEgABCTISQAEJchKAAQmyEsABCfITAAEKMhNAAQpyE4ABCrITwAEK8hQAAQsyFEABC3IUgAELshTAAQvyFQABDDIVQAEMchWAAQyyFcABDPIWAAENMhZAAQ1yFoABDbIXAAEN8hdAAQ4yF4ABDnIXwAEOshgAAQ7yGEABDzIYgAEPchjAAQ+yGQABD/IZQAEQMhmAARByGcABELIaAAEQ8hpAAREyGoABEXIawAERshsAARHyG0ABEjIbgAESchvAARKyHAABEvIcQAETMhyAARNyHMABE7IdAAET8h1AARRyFsAHr6IYwAev4ikAB7AiGUAHsGIpgAgE6FWACAUoVgAIBihpQAgGaGmACAcoacAIB2hqAAgIqFFACAloUwAICahSwAgMqGsACA1oasAIDuhsAAgPqHCACEDokoAIQWhwQAhCaJLACEWyNIAISHI0wAhYKK5ACFhoroAIWKiuwAhY6K8ACFkor0AIWWivgAhZqK/ACFnosAAIWiiwQAhaaLCACFwxrUAIXHGtgAhcsa3ACFzxrgAIXTGuQAhdca6ACF2xrsAIXfGvAAheMa9ACF5xr4AIZCh9gAhkaH0ACGSofcAIZOh9QAhlqH4ACGXofkAIZih+wAhmaH6ACG4yHcAIbnIeAAh58h2ACIaodQAIh6h2wAiH6HoACIgoecAIiOh/QAiJaH8ACIpoeQAIiqh5QAiK6HsACIuoe0AIjSh7wAiNaHuACI8oeMAIlKh3AAiYKHaACJhod0AImah2AAiZ6HZACKloeYAIr+h6QAj2oipACPbiKoAJGDGoQAkYcaiACRixqMAJGPGpAAkZMalACRlxqYAJGbGpwAkZ8aoACRoxqkAJGnGqgAkdMarACR1xqwAJHbGrQAkd8auACR4xq8AJHnGsAAkesaxACR7xrIAJHzGswAkfca0ACUAoncAJQKieAAlDKJ6ACUQonsAJRSifAAlGKJ9ACUconUAJSSidAAlLKJzACU0onIAJTyicQAlUKKkACVR+fgAJVL55gAlU/nvACVU+d0AJVX56AAlVvnxACVX+d8AJVj57AAlWfn1ACVa+eMAJVv57gAlXPn3ACVd+eUAJV6ipQAlX/nyACVg+eAAJWGipwAlYvn0ACVj+eIAJWT55wAlZfnwACVm+d4AJWf57QAlaPn2ACVp+eQAJWqipgAla/nzACVs+eEAJW2ifgAlbqKhACVvoqMAJXCiogAlcaKsACVyoq0AJXOirgAlgaJiACWComMAJYOiZAAlhKJlACWFomYAJYaiZwAlh6JoACWIomkAJYmicAAliqJvACWLom4AJYyibQAljaJsACWOomsAJY+iagAllKJ2ACWVonkAJaChvQAloaG8ACWyobYAJbOhtQAlvKG/ACW9ob4AJcahuwAlx6G6ACXLobMAJc6htwAlz6G0ACXioqgAJeOiqQAl5KKrACXloqoAJgWhuQAmBqG4ACYJofMAJkCh8AAmQaHyACZCofEAJz3G5gAugMjWAC6EyNcALobI2AAuh8jZAC6IyNoALorI2wAujMjcAC6NyN0ALpXI3gAunMjfAC6dyOAALqXI4QAup8jiAC6qyOMALqzI5AAursjlAC62yOYALrzI5wAuvsjoAC7GyOkALsrI6gAuzMjrAC7NyOwALs/I7QAu1sjuAC7XyO8ALt7I8AAu48jxAC8zxs0AMAChQAAwAaFCADACoUMAMAOhsgAwBcbgADAGxuEAMAfG4gAwCKFxADAJoXIAMAqhbQAwC6FuADAMoXUAMA2hdgAwDqF5ADAPoXoAMBChaQAwEaFqADASokUAMBShZQAwFaFmADAdoakAMB6hqgAwIaLDADAiosQAMCOixQAwJKLGADAloscAMCaiyAAwJ6LJADAoosoAMCmiywAwQcbnADBCxugAMEPG6QAwRMbqADBFxusAMEbG7AAwR8btADBIxu4AMEnG7wAwSsbwADBLxvEAMEzG8gAwTcbzADBOxvQAME/G9QAwUMb2ADBRxvcAMFLG+AAwU8b5ADBUxvoAMFXG+wAwVsb8ADBXxv0AMFjG/gAwWcdAADBax0EAMFvHQgAwXMdDADBdx0QAMF7HRQAwX8dGADBgx0cAMGHHSAAwYsdJADBjx0oAMGTHSwAwZcdMADBmx00AMGfHTgAwaMdPADBpx1AAMGrHUQAwa8dSADBsx1MAMG3HVAAwbsdVADBvx1YAMHDHVwAwccdYADByx1kAMHPHWgAwdMdbADB1x1wAMHbHXQAwd8deADB4x18AMHnHYAAwesdhADB7x2IAMHzHYwAwfcdkADB+x2UAMH/HZgAwgMdnADCBx2gAMILHaQAwg8dqADCEx2sAMIXHbAAwhsdtADCHx24AMIjHbwAwicdwADCKx3EAMIvHcgAwjMdzADCNx3QAMI7HdQAwj8d2ADCQx3cAMJHHeAAwksd5ADCTx3oAMJvI1AAwnMjVADCdxtwAMJ7G3QAwocd7ADCix3wAMKPHfQAwpMd+ADClx6EAMKbHogAwp8ejADCox6QAMKnHpQAwqsemADCrx6cAMKzHqAAwrcepADCux6oAMK/HqwAwsMesADCxx60AMLLHrgAws8evADC0x7AAMLXHsQAwtseyADC3x7MAMLjHtAAwuce1ADC6x7YAMLvHtwAwvMe4ADC9x7kAML7HugAwv8e7ADDAx7wAMMHHvQAwwse+ADDDx78AMMTHwAAwxcfBADDGx8IAMMfHwwAwyMfEADDJx8UAMMrHxgAwy8fHADDMx8gAMM3HyQAwzsfKADDPx8sAMNDHzAAw0cfNADDSx84AMNPHzwAw1MfQADDVx9EAMNbH0gAw18fTADDYx9QAMNnH1QAw2sfWADDbx9cAMNzH2AAw3cfZADDex9oAMN/H2wAw4MfcADDhx90AMOLH3gAw48ffADDkx+AAMOXH4QAw5sfiADDnx+MAMOjH5AAw6cflADDqx+YAMOvH5wAw7MfoADDtx+kAMO7H6gAw78frADDwx+wAMPHH7QAw8sfuADDzx+8AMPTH8AAw9cfxADD2x/IAMPzG4wAw/cbaADD+xtsAMQWjdAAxBqN1ADEHo3YAMQijdwAxCaN4ADEKo3kAMQujegAxDKN7ADENo3wAMQ6jfQAxD6N+ADEQo6EAMRGjogAxEqOjADETo6QAMRSjpQAxFaOmADEWo6cAMRejqAAxGKOpADEZo6oAMRqjqwAxG6OsADEco60AMR2jrgAxHqOvADEfo7AAMSCjsQAxIaOyADEio7MAMSOjtAAxJKO1ADElo7YAMSajtwAxJ6O4ADEoo7kAMSmjugAxwIhAADHBiEEAMcKIQgAxw4hDADHEiEQAMcWIRgAxxohJADHHiEoAMciITQAxyYhPADHKiFAAMcuIUQAxzIhSADHNiFQAMc6IVQAxz8h5ADIxyNEAMqOhwAAzjqJVADOPolYAM5yiUAAznaJRADOeolIAM6GiVAAzxKJXADPOolMAM9Gh6wAz0qHqADPVok8ANDWSdwA0QJbfADRKjPQANEyJ1QA0ZJPNADRzm98ANHr6aAA0fYnaADR+j1kANJOJ2wA0lo9dADSlidwANK+W9wA0vIraADTBi9wANMiX2wA0355TADTknaoANOaHvgA0+5vqADUGim4ANT6LyAA1UYnoADVTieoANVmMSwA1YftwADVtie0ANXCU3QA1conuADV3nrQANXiK0wA1hJLbADWXlNsANZiJ+QA1oft6ADWlifsANa2e/AA1v4n8ADXBib8ANcWJ/gA1x4nmADXKnUYANc6d7gA10qB+ADXWoGgANduY6QA13YtoADXxjf0ANfKLvgA185/ZADX7iusANf6f1wA2CYtqADYYnFwANhqLsQA2I/teADYlh3AANi2d8wA2NaDQADY5/GYANj6S6QA2R5rsADZIj6sANkn6SAA2To5FADZfnG8ANmGNXAA2ep7eADaBie8ANpqW6QA2pZ67ADaqlN4ANqyeuAA2sJe6ADax+2UANrWV1gA2uZy7ADa8l9oANsGPRQA2w/t9ADbEkVgANsX+ZAA2x5hWADbIm00ANtOTWwA21JXHADbWl+cANt2TWQA24ZH1ADbil7gANuX9ogA25vu2ADb1kvoANwGTVwA3A4umADcI+7kANwqXsAA3Df3EADccnKEANyKR8gA3I5H5ADclj/EANyyXRQA3LZhTADcw/ngANzL7wQA3M5JRADc6na0AN0D9bAA3Q/prADdim8IAN2+aewA3l4tgADegk0sAN7mavQA3vpG3ADfWjUsAN/KVtAA3+P7FADf7nvAAOA+NZAA4GZJpADggjWcAOC376gA4NvvvADg4jWgAOGOT6wA4dYd6ADig/EIAOMORZgA4zPrNADjRk90AONSNUgA4+ovMADkIjW0AORSNbgA5J5aoADky/KYAOT+NbwA5TY1wADlj/GQAOXiM8wA5gJBgADmJjXQAOYqXwwA5korQADmZknQAOZubvgA5oZzIADmknLoAObiNeAA53J65ADnilVoAOeWRtAA57IpIADn4jX0AOfuKfQA5/orCADoB/UoAOgONoQA6BorRADoX/LQAOhiLRwA6KZOkADoqntoAOjSKUQA6S42mADpSnsUAOlf8xAA6XKB4ADpelLUAOmb8wgA6Z4prADqXjasAOqv66AA6vY2tADre/EkAOuCTwQA68JBvADryjbAAOvWHogA6+5R+ADsOkPoAOxmUeQA7Io2yADsr/O4AOzmZewA7Qo20ADtYjbcAO2CRswA7cY27ADtyjboAO3uNvAA7fJBEADuA/UwAO5WHSwA7lpPkADuZk+AAO6H9UwA7vI3DADu+m7gAO8L78AA7xJPpADvXk/YAO92NxQA77I3KADvyjcwAO/P9XQA79JO1ADwN/WEAPBGc+AA8FZJSADwYoOgAPFScpQA8i4xWADzLjdYAPM2XwAA80aDeADzWl9IAPNz6pQA86/2jADzvjdsAPRKM6gA9E46vAD0dkbUAPTL9SQA9O/3RAD1GjesAPUyXxgA9Tv3OAD1RkPwAPV/8WQA9YpbWAD1pl8UAPWqN7wA9b5fXAD11jfAAPX2WpgA9hfu/AD2IjN8APYqN8wA9j5RJAD2RjfUAPaWYcgA9rY5rAD20+v0APb+PUAA9xp3MAD3H/GUAPcmMRAA9zJluAD3NlKEAPdOPYwA926DaAD3nklMAPej96QA96521AD3zmHkAPfSHagA9951dAD38jWMAPf2WaQA+Bp9wAD5A/GoAPkOKxwA+SInXAD5V/k0APnSe3QA+qP77AD6pmLwAPqr6zAA+rZWwAD6xlGQAPriTbwA+v5S5AD7ClewAPseR7gA+ypjDAD7MlfYAPtCP/QA+0ZjFAD7Wl2YAPtf+bgA+2pfdAD7bjKoAPt6S0gA+4ZdhAD7imMsAPueV8AA+6ZddAD7rkeMAPuyHfgA+8JjMAD7zlGkAPvSYzQA++pjOAD78lfwAPv+UowA/AJZiAD8E/rYAPwaUYwA/B41HAD8OmNAAP1OY0QA/WJR1AD9Z+uAAP2OUcgA/fJjWAD+TivAAP8CY2QA/yI1aAD/XmNsAP9yY3QA/5ZioAD/tim0AP/mK+wA/+oquAEAE+8kAQAmMXQBAHZjkAEA5mOYAQEWY6ABAU4pNAEBXklcAQGKV3wBAZaCsAEBqmOsAQG+Y7ABAcYzDAEComPQAQLSH2QBAu4q4AEC/nucAQMiUvABA2PzRAEDfnMYAQPiNSgBA+p5+AEECjUQAQQOY/gBBBP3oAEEJmUAAQQ6UyQBBMYfGAEEylNMAQWeZRgBBbJDAAEFulNEAQXyNTgBBf5VzAEGBh84AQZCTwgBBsplIAEHEmUsAQcqOVQBBz5lOAEHbjv4AQe2NXwBB745ZAEH5lOwAQhGU7wBCI4xgAEJAj3QAQmCZVQBCapVEAEJ2jMsAQnqZVgBCjJlZAEKUmVsAQqKMxABCtfpFAEK5kLcAQryXQwBC9JXNAEL7l8kAQvz9UABDCoeqAEMrjrkAQ26VxgBDl5lnAEOajOMAQ7qKuQBDwY38AEPZinYAQ9+dUQBD7ZlzAEPwh0AAQ/KdTwBEAZl6AEQClWQARBOZoQBEJZmlAEQtmacARHqO7QBEj5mtAESRyH4ARJ+UbgBEoI9wAESi+tAARLCZswBEt6BTAES9jV4ARMCWXABEw4zgAETF/XoARM6X/gBE3ZK9AETejV0ARN+X/QBE4YfbAETkj2QAROn89wBE6pViAETrl80AROyeZABE9JJMAEUDjskARQSZvABFCZ2lAEULj1QARRaPfABFG41VAEUdjqIARSePegBFLpeuAEUzlsgARTaM5ABFO5nDAEU9kNYART+cvgBFQ492AEVRlHAARVL7SwBFVf3KAEVYjO8ARVyOxwBFYY1UAEVioPkARWqPqQBFbY1RAEV3mccARXiHRABFhZDXAEWmh0MARbOHRwBF2odYAEXpnt8AReqNWQBGA4dCAEYGmc4ARg+PugBGFY/rAEYXmc8ARluPwgBGepLJAEaAl9wARqGHXQBGrofMAEa7jUUARs+VswBG0Jx5AEb1lbIARveNTABHE4/bAEcYm+MARzaHTABHRIdNAEdOnnoAR0+HVwBHfJvuAEeYmd4AR6b6+gBH1YpSAEftmeEAR/SKZwBIAIu1AEgLiqwASDeZ6QBIXfvKAEhxl94ASJuV0QBIrZn1AEiu/EoASNCbqQBI3fvcAEjt/lYASPOepABI+p1JAEkGldsASRGJxQBJHpn4AEkllmQASSqQVQBJLZbUAEkvh8QASTCHrgBJNZd8AEk8lk0AST6X4QBJRZpIAElRmkkASVP+fQBJZZCqAElqmlAASXKTRwBJiY7YAEmhkMkASaeaVQBJ35C8AEnlmlgASeeLuABKD5DVAEodlkEASiSaWgBKNZpcAEqWl8IASqSHXABKtIq7AEq4m6oAStGQ9QBK5JpgAEr/kUUASxCMWABLGZpjAEsgjEkASyyLtgBLN/zPAEtvlmsAS3CabgBLcpFPAEt7l0YAS36g5gBLjpLXAEuQlnUAS5OT1ABLlpG7AEuXlnkAS52acABLvZZ4AEu+kc0AS8CcSgBMBKBvAEwHoGoATA6RXwBMModBAEw7n6UATD6JugBMQIdPAExHh04ATFeHVQBMW57NAExtmnkATHeM8gBMe41XAEx9nc4ATIGM0gBMhYdZAEyknXMATK6WuQBMsJa8AEy3nNEATM2JtwBM4Z7uAEzih0kATO37QwBNB4dbAE0JnskATRD70wBNNJGuAE12jVgATXeHRgBNiY1WAE2RnXgATZydewBOAKRAAE4BpEIATgOkQwBOBJ6zAE4HyUUATgikVgBOCaRUAE4KpFcATgukVQBODMlGAE4NpKMATg7JTwBOD8lNAE4QpKIAThGkoQBOFKVCAE4VpUEAThalQABOGKVDAE4ZpP4AThqesgBOHJ3WAE4epeAATh+l4QBOIZlPAE4kic4ATiaowwBOKIvAAE4qn8QATiukWABOLIvUAE4tpKQATi7JUABOL4xyAE4wpKUATjHJYwBOMqbqAE4zy7EATjbGvwBON4v5AE44pFkATjmkpgBOO6VEAE48yWQATj2JRgBOP8bAAE5CyUAATkOkRABORaRbAE5HyUcATkikXABOSfrlAE5LpKcATk2lRQBOTqVHAE5PpUYATlKl4gBOU6XjAE5WqMQATlitvABOWaRBAE5ayHsATluLxgBOXMlBAE5dpEUATl6kXgBOX6RdAE5ppeQATmqcVwBOc6jFAE54mvsATn6wrgBOf9RLAE6AidAAToGJzwBOgrbDAE6D3LEAToTcsgBOhcbBAE6GpEYAToeJ0QBOiKSpAE6JieIATouoxgBOjKRHAE6NyUgATo6kXwBOkaSqAE6SpKwATpPJUQBOlKStAE6VpKsATpiSfgBOmaXlAE6anboATpuoxwBOnqjIAE6fq0UATqDGwgBOoaRgAE6ipK4ATqOMbwBOpKXmAE6lpegATqal5wBOqKbrAE6rqMkATqyoygBOratGAE6uq0cATrOtvQBOttyzAE63+/gATrn21gBOuqRIAE67i8cATrySawBOv4nSAE7ApLAATsGkrwBOwslSAE7DpLEATsSktwBOxqSyAE7HpLMATsjJVABOyclTAE7KpLUATsuktgBOzaS0AE7On88ATtSlSgBO1aVLAE7WpUwATtelTQBO2KVJAE7ZpVAATtrJagBO3MlmAE7dyWkATt6lUQBO36VhAE7hyWgATuOlTgBO5KVPAE7lpUgATujJZQBO6clnAE7qnakATuuJ0wBO7pniAE7wpfUATvHJsABO8qXyAE7zpfYATvTJugBO9cmuAE72pfMATvfJsgBO+JJnAE77pfQATv2l9wBO/6XpAE8AybEATwGl+ABPAsm1AE8DkqQATwTJuQBPBcm2AE8IybMATwml6gBPCqXsAE8LpfkATw2l7gBPDsmrAE8PpfEATxCl7wBPEaXwAE8SybsATxPJuABPFMmvAE8Vpe0ATxeMcwBPGMmsAE8ZpesATxqJTgBPHcm0AE8iybcATyiJTwBPKZJ4AE8sya0ATy3KZgBPL6dCAE8wpvQATzKRtgBPM8pnAE80pvEATzanRABPN4nUAE84pvkATzmf0gBPOqb4AE87ylsATzym/ABPPab3AE8+ymAATz/KaABPQcpkAE9CkqcAT0Om+gBPRZWiAE9Gpv0AT0em7gBPSKdHAE9Jyl0AT0uSbgBPTMu9AE9NpuwAT06nQwBPT6btAE9QpvUAT1Gm9gBPUspiAE9Tyl4AT1Sm+wBPVabzAE9WyloAT1em7wBPWMplAE9Zp0UAT1qnSABPW6byAE9cp0AAT12nRgBPXqbwAE9fymMAT2CnQQBPYcppAE9iylwAT2Om/gBPZMpfAE9nymEAT2mo2ABPasu/AE9ry8sAT2yo0ABPbsvMAE9vqMsAT3Co1QBPcpbqAE9zqM4AT3TLuQBPdajWAE92y7gAT3fLvABPeMvDAE95y8EAT3qo3gBPe6jZAE98y7MAT33LtQBPfqjbAE9/qM8AT4DLtgBPgcvCAE+Cy8kAT4Oo1ABPhMu7AE+Fy7QAT4ao0wBPh8u3AE+IqNcAT4nLugBPipJvAE+LqNIAT42ozQBPj6jcAE+Qy8QAT5Go3QBPksvIAE+Uy8YAT5XLygBPlqjaAE+Xy74AT5jLsgBPmsvAAE+bqNEAT5zLxQBPnajMAE+ey8cAT6KSowBPqIlQAE+r+lcAT66rVgBPr6tKAE+wmGYAT7LN4ABPs83oAE+0jPgAT7WrSQBPtqtRAE+3q10AT7nN7gBPus3sAE+7zecAT72J1gBPv6tLAE/Aze0AT8HN4wBPwqtZAE/Dq1AAT8SrWABPxc3eAE/HzeoAT8iYsgBPyc3hAE/Kq1QAT8vN4gBPzJKrAE/Nzd0AT86rWwBPz6tOAE/Qq1cAT9GrTQBP083fAE/UzeQAT9bN6wBP16tVAE/Yq1IAT9nN5gBP2qtaAE/bzekAT9zN5QBP3atPAE/eq1wAT9+rUwBP4KtMAE/hq0gAT+SW3gBP5ZKsAE/sze8AT+6t1wBP763BAE/wjHAAT/Gt0QBP8p9uAE/zrdYAT/TQ0ABP9dDPAE/20NQAT/fQ1QBP+K3EAE/5jvIAT/qtzQBP/Z9sAE/+rdoAUACtzgBQA4nYAFAF0MkAUAatxwBQB9DKAFAI+lkAUAmt3ABQC63TAFAMrb4AUA2tvwBQDtDdAFAPsL8AUBGtzABQEq3LAFAT0MsAUBStzwBQFdRbAFAWrcYAUBfQ1gBQGK3VAFAZrdQAUBqtygBQG9DOAFAc0NcAUB7QyABQH63JAFAg0NgAUCGt0gBQItDMAFAjrcAAUCWtwwBQJq3CAFAn0NkAUCit0ABQKa3FAFAqrdkAUCut2wBQLNDTAFAtrdgAUC6SqABQL9DbAFAw0M0AUDHQ3ABQM9DRAFA0kWMAUDXQ2gBQN9DSAFA7jEAAUDytyABQQNRjAFBB1FcAUEOwswBQRdRcAFBG1GIAUEewsgBQSNRVAFBJsLYAUErUWQBQS9RSAFBMsLQAUE3UVgBQTrC5AFBPsL4AUFHUZwBQU9RRAFBVsLoAUFafcwBQV9RmAFBYkq0AUFqwtQBQW9RYAFBcsLEAUF3UUwBQXtRPAFBf1F0AUGDUUABQYdROAFBi1FoAUGPUYABQZNRhAFBlsLcAUGab6QBQaNhbAFBp1F4AUGrUTQBQa9RfAFBskqkAUG2wwQBQbtRkAFBvsMAAUHDUTABQctRUAFBz1GUAUHSwvABQdbC7AFB2sLgAUHewvQBQerCvAFB9sLAAUICzyABQgZKqAFCC2F4AUIPYVwBQhbPFAFCH2F8AUIiJ2QBQi9hVAFCM2FgAUI2zxABQjthZAFCQ/VYAUJGzxwBQkthdAFCU2FMAUJXYUgBQlrPJAFCYs8oAUJmzxgBQmrPLAFCb2FEAUJzYXABQndhaAFCe2FQAUKKzwwBQo9hWAFCmn6gAUKy2ygBQrbbEAFCu3LcAUK+2zQBQsNy9AFCx3MAAULK2xgBQs7bHAFC03LoAULW2xQBQttzDAFC3tssAULjcxABQuty/AFC7tswAULyMcQBQvdy0AFC+tskAUL/ctQBQwdy+AFDC3LwAUMTcuABQxbbIAFDG3LYAUMe2zgBQyNy7AFDJ3MIAUMrcuQBQy9zBAFDNkqEAUM65tgBQz7mzAFDQkOMAUNG5tABQ0+D5AFDU4PEAUNW5sgBQ1rmvAFDX4PIAUNmgpgBQ2rmxAFDb4PUAUN3g9wBQ35SrAFDg4P4AUOH8cgBQ4+D9AFDk4PgAUOW5rgBQ5uDwAFDnuawAUOjg8wBQ6bm3AFDq4PYAUOzg+gBQ7bmwAFDuua0AUO/g/ABQ8OD7AFDxubUAUPPg9ABQ9JfEAFD1u/gAUPbk7ABQ+OTpAFD5u/kAUPu79wBQ/JKuAFD95PAAUP7k7QBQ/+TmAFEAu/YAUQH6ZwBRArv6AFED5OcAUQS79QBRBbv9AFEG5OoAUQfk6wBRCLv7AFEJu/wAUQrk8QBRC+TuAFEM5O8AUQ2SogBRDvppAFEQvqoAURHo+ABREr6nAFET6PUAURS+qQBRFb6rAFEX6PYAURi+qABRGuj3AFEc6PQAUR/AdgBRIOy9AFEhwHcAUSLsuwBRJOy8AFEl7LoAUSbsuQBRKey+AFEqwHUAUSuSaABRLe+4AFEu77kAUTDk6ABRMe+3AFEywHgAUTPDXwBRNPHrAFE18ewAUTfE1wBROMTYAFE59cEAUTr1wABRO8VsAFE8xWsAUT330ABRP6RJAFFApGEAUUGkuQBRQ6S4AFFEpVMAUUWlUgBRRqX8AFFHpfsAUUil/QBRSaX6AFFLp0oAUUynSQBRTadLAFFSqOAAUVSo3wBRVajhAFFWiVEAUVerXgBRWaJZAFFa0N4AUVuiWgBRXLDCAFFdolwAUV6iWwBRX9hgAFFg+m8AUWGiXQBRYrm4AFFjol4AUWWkSgBRZ6S6AFFopf4AUWmo4gBRavpxAFFrpEsAUWykvQBRbaS7AFFupLwAUXGmQABRdIlSAFF1p0wAUXao5ABRd6jjAFF4qOUAUXmUWgBRfK3dAFGAvqwAUYLGwwBRhondAFGHyU4AUYjIogBRiaVUAFGKpVUAUY2mQQBRj8pqAFGRq2AAUZKrXwBRk9DgAFGU0N8AUZWwwwBRlsbEAFGXpL4AUZjJVQBRmp5SAFGciVMAUZ7LzQBRoKthAFGireAAUaSt3gBRpa3fAFGnnlUAUaiSugBRqr6tAFGrxsUAUaylVgBRroxbAFGwpkIAUbHJvABRsvp9AFGz+qgAUbSaaABRtfpHAFG2p00AUbenTgBRuPp+AFG5ymsAUbzLzgBRvajmAFG+y88AUcOSuwBRxNDiAFHF0OMAUcat4wBRx/22AFHI0OQAUcn6ogBRytDhAFHLreQAUcyt4gBRza3hAFHO0OUAUc/6owBR0NRoAFHR+qQAUdKbtABR0/qmAFHU2GEAUdfcxQBR2OFAAFHbid8AUdy7/gBR3b6uAFHe6PkAUd/92wBR4KRMAFHhpFoAUeL6qQBR5IlUAFHt+qsAUfCwxABR8bPNAFHzubkAUfT8egBR9clCAFH2pL8AUfilWQBR+aVXAFH6pVgAUfyJ4ABR/ajnAFH+n08AUgCkTQBSAaROAFICyH0AUgOkYgBSBYnhAFIGpMAAUgekwQBSCKTCAFIJyb4AUgqlWgBSC/qwAFIMyWsAUg6mRgBSEMm/AFIRpkQAUhKmRQBSE8m9AFIWpkcAUhemQwBSHMpsAFIdquwAUh7KbQBSH5/NAFIgoOcAUiHKbgBSJKdQAFIlp08AUib6sQBSJ4mmAFIop1MAUimnUQBSKqdSAFIuqO0AUjCo7ABSMcvUAFIyy9EAUjPL0gBSNJ76AFI1y9AAUjao7gBSN6jqAFI4qOkAUjqo6wBSO6joAFI8+rIAUkGo7wBSQ6tjAFJEzfAAUkbL0wBSR6toAFJJzfEAUkqrZABSS6tnAFJMq2YAUk2rZQBSTqtiAFJPh7wAUlLQ6ABSVK3nAFJV0OsAUlat5QBSV/q0AFJZksQAUlrQ5wBSW63oAFJcreYAUl2t6QBSXtDpAFJf0OoAUmCfbwBSYdDmAFJi0OwAUmiLsABSabPRAFJqsMUAUmvUaQBSbNRrAFJt1GoAUm7UbABSb7DGAFJys84AUnOfrABSdLPPAFJ1s9AAUne20ABSeNzHAFJ5ieMAUnrcxgBSe9zIAFJ83MkAUn220QBSf7bPAFKA4UEAUoHhQgBSgrm7AFKDuboAUoTjWgBSh7xAAFKIvEEAUom8QgBSirxEAFKL5PIAUozk8wBSjbxDAFKPm9MAUpCJ5ABSkb6vAFKTvrAAUpT6tQBSlvHtAFKX9cMAUpj1wgBSmffRAFKan9UAUpukTwBSn6VcAFKgpVsAUqGJVQBSo6ZIAFKkksUAUqbJwABSqIlWAFKpp1UAUqqnVgBSq6dUAFKsp1cAUq3KbwBSrspwAFK1+rMAUrn6tgBSu6jxAFK8y9UAUr6o8ABSwM3yAFLBq2wAUsLN8wBSw6trAFLF+rcAUseraQBSyatqAFLMntwAUs3Q7QBS0PvEAFLRn3EAUtKwxwBS09RuAFLVsMoAUtbUbQBS17HlAFLYsMkAUtmwyABS27PUAFLds9MAUt6z0gBS37bSAFLg+roAUuGSxwBS4rbVAFLjttYAUuS21ABS5rbTAFLp4UMAUuvhRABS7+T1AFLwvEUAUvHk9ABS876xAFL07L8AUvXAeQBS9/HuAFL4xFUAUvnGxgBS+qRjAFL7pMMAUvzJVgBS/qTEAFL/pMUAUwGaTABTBaVdAFMGpV4AUwimSQBTCcpxAFMKy9YAUwvL1wBTDattAFMO0O4AUw+wzABTELDLAFMR2GMAUxLYYgBTFaRQAFMWpMYAUxelXwBTGbDNAFMayUMAUxzJbABTHaVgAFMfycIAUyCmSwBTIaZKAFMiycEAUyOnWABTJIxoAFMnieUAUyqt6gBTLJ99AFMt1G8AUy+21wBTMOFFAFMxubwAUzKgqQBTM/rEAFM06PoAUzfz/QBTOMbHAFM5pMcAUzuJVwBTPMvYAFM9zfQAUz6w0ABTP7DOAFNAsM8AU0GkUQBTQvqqAFNDpGQAU0SizQBTRaTKAFNHpMkAU0ikyABTSaVjAFNKpWIAU0zJbQBTTcnDAFNOiVgAU1Go9QBTUqjyAFNTqPQAU1So8wBTV6tuAFNas9UAU1ykUgBTXYvjAFNepMsAU1+LYQBTYKVlAFNhpWQAU2PKcgBTZJrxAFNmqPYAU2eetwBTacbIAFNsyVcAU2360QBTbqVnAFNvpWYAU3CmTABTcaZNAFNyynMAU3OnWQBTdPrSAFN1p1oAU3eo9wBTeKj4AFN5qPkAU3urbwBTfM31AFN9nroAU3761ABTf63rAFOCyUQAU4SkzABTisnEAFOOynQAU4/KdQBTksvZAFOT+tkAU5TL2gBTls33AFOXzfYAU5jN+QBTmc34AFOaq3AAU5zUcABTna3tAFOe0O8AU5+t7ABToPrbAFOinOAAU6TYZABTpbPWAFOm+/cAU6fYZQBTqPv6AFOpiecAU6qgegBTq/rcAFOs4UYAU625vQBTrvrdAFOwiekAU7K8RgBTtPHvAFO2xskAU7nJWABTu6VoAFPB+uIAU8KJ6wBTw7DRAFPF+uMAU8ikUwBTyaRlAFPKpM4AU8ukzQBTzJDIAFPNpM8AU9CS2gBT0YlZAFPSnPUAU9So+wBT1qj6AFPXqPwAU9iJWgBT2frnAFPan6IAU9urcQBT363uAFPg+uoAU+Ho+wBT4sJPAFPjpGYAU+SlagBT5aV5AFPmpXQAU+ilbwBT6aVuAFPqpXUAU+ulcwBT7KVsAFPtpXoAU+6lbQBT76VpAFPwpXgAU/GldwBT8qV2AFPzpWsAU/WlcgBT9vrtAFP3j60AU/ilcQBT+6V7AFP8pXAAU/77WQBUAaZTAFQDplkAVASmVQBUBqZbAFQHycUAVAimWABUCaZOAFQKplEAVAumVABUDKZQAFQNplcAVA6mWgBUD6ZPAFQQplIAVBGmVgBUEqZcAFQT+u8AVBSW7wBUFp3sAFQYyn4AVBnKewBUGp3KAFQbp2cAVBzKfABUHadbAFQep10AVB+ndQBUIKdwAFQh/W0AVCOJ7ABUJMqlAFQlyn0AVCanXwBUJ6dhAFQoyqQAVCmnaABUKsp4AFQrp3QAVCyndgBULadcAFQup20AVC/7RABUMMp2AFQxp3MAVDKd4gBUM6dkAFQ0jHUAVDWnbgBUNqdvAFQ3yncAVDinbABUOadqAFQ7p2sAVDyncQBUPcqhAFQ+p14AVECncgBUQcqjAFRCp2YAVEOnYwBURcp6AFRGp2IAVEfKpgBUSKdlAFRKp2kAVEuewABUTIfFAFRNnlYAVE6nYABUT8qiAFRUynkAVGDL6wBUYcvqAFRiqU8AVGPL7QBUZMvvAFRly+QAVGbL5wBUZ8vuAFRoqVAAVGmfeQBUaprHAFRry+EAVGzL5QBUbfr0AFRvy+kAVHDOSQBUcalLAFRyzk0AVHOo/QBUdMvmAFR1qP4AVHapTABUd6lFAFR4qUEAVHrL4gBUe6lEAFR8qUkAVH2pUgBUfsvjAFR/y9wAVICpQwBUgcvdAFSCy98AVISpRgBUhZihAFSGqUgAVIfL2wBUiMvgAFSLqVEAVIypTQBUjcvoAFSOqVMAVI/6+ABUkKlKAFSRy94AVJKpRwBUk4nwAFSUnkcAVJWpQgBUlqlAAFSXnfcAVJjL7ABUmqlOAFScn9MAVJ6aygBUoM5IAFShzfsAVKLOSwBUo4nxAFSk+vkAVKXN/QBUpqt4AFSnq6gAVKirdABUqaunAFSqq30AVKurpABUrKtyAFStzfwAVK7OQwBUr6ujAFSwzk8AVLGrpQBUso5aAFSzq3kAVLSJ8gBUts5FAFS3zkIAVLirdwBUuYnzAFS6zfoAVLurpgBUvM5KAFS9q3wAVL7OTABUv6upAFTAq3MAVMGrfgBUwqt7AFTDzkAAVMSroQBUxc5GAFTGzkcAVMeregBUyKuiAFTJq3YAVMuSXQBUzItRAFTNkuAAVM6rdQBUz83+AFTQifQAVNbORABU2p/UAFTezk4AVODRRABU4a37AFTi0PEAVOOKeQBU5ND2AFTlrfQAVOauQABU59D0AFTore8AVOmt+QBU6q3+AFTr0PsAVO2t+gBU7q39AFTvifUAVPHQ/gBU8q31AFTz0PUAVPfRQgBU+NFDAFT6rfcAVPvRQQBU/K3zAFT9rkMAVP/Q+ABVAa3xAFUCl6cAVQPRRgBVBND5AFUF0P0AVQat9gBVB65CAFUI0PoAVQmt/ABVCtFAAFUL0UcAVQzUoQBVDZO6AFUO0UUAVQ+uRABVEK3wAFUR0PwAVRLQ8wBVE55YAFUUrfgAVRfQ8gBVGIn2AFUa0PcAVR6eVwBVI4n3AFUlikEAVSbQ8ABVJ65BAFUoifgAVSrUdwBVK/rxAFUssOQAVS3UpwBVLrDiAFUvsN8AVTDUfABVMbDbAFUy1KIAVTOw5gBVNNR2AFU11HsAVTbUegBVN63yAFU4sOEAVTnUpQBVO9SoAFU81HMAVT6z6ABVP4n6AFVA1KkAVUGw5wBVQ7DZAFVEsNYAVUXUfgBVRrDTAFVH+0IAVUjUpgBVSfq/AFVKsNoAVUvUqgBVTdR0AFVO1KQAVU+w3QBVUNR1AFVR1HgAVVLUfQBVU/ujAFVVsN4AVVaw3ABVV7DoAFVcsOMAVV369wBVXrDXAFVfsdIAVWGw2ABVYtR5AFVjsOUAVWSw4ABVZdSjAFVmsNUAVWmeTgBVarDUAFVrlNwAVXGV2gBVcp34AFVzn2oAVXXUcQBVdtRyAFV32GoAVXmKtwBVe7PXAFV8s9oAVX3YdQBVfrPuAFV/2HgAVYCz2ABVgdhxAFWCs94AVYOz5ABVhLW9AFWG+0YAVYez4gBViNhuAFWJs+8AVYqz2wBVi7PjAFWM2HYAVY3c1wBVjth7AFWP2G8AVZCKRgBVkdhmAFWS2HMAVZPYbQBVlLPhAFWV2HkAVZiz3QBVmbPxAFWas+oAVZyz3wBVnbPcAFWfs+cAVaHYegBVothsAFWj2HIAVaTYdABVpdhoAFWm2HcAVaez2QBVqNhnAFWp+0cAVaqz4ABVq7PwAFWss+wAVa3YaQBVrrPmAFWwkUgAVbGz7QBVsrPpAFWzs+UAVbSS3gBVtdhwAFW5i1MAVbqd9gBVu7PrAFW8m9oAVb/c1QBVwNzRAFXBnX4AVcLc4ABVw9zKAFXE3NMAVcW25QBVxrbmAFXHtt4AVcjc3ABVybboAFXK3M8AVcvczgBVzNzMAFXN3N4AVc623ABVz9zYAFXQ3M0AVdG23wBV0tzWAFXTttoAVdTc0gBV1dzZAFXW3NsAVdeJ/QBV2JnkAFXZ3N8AVdq24wBV29zLAFXctt0AVd3c0ABV3p5DAFXfttgAVeG25ABV4tzaAFXjtuAAVeS24QBV5bbnAFXmttsAVeeiXwBV6LbZAFXp3NQAVeqd6QBV7I9SAFXvtuIAVfCd9QBV8Z3wAFXy3N0AVfWZ5wBV9rnNAFX3ucgAVfnhVQBV+uFRAFX7i70AVfzhSwBV/bnCAFX+ub4AVf/hVABWALm/AFYB4U4AVgLhUABWBOFTAFYFne8AVga5xABWCLnLAFYJucUAVgzhSQBWDbnGAFYOuccAVg/hTABWELnMAFYRn7cAVhLhSgBWE+FPAFYUucMAVhXhSABWFrnJAFYXucEAVhu5wABWHOFNAFYd4VIAVh6d0ABWH7nKAFYgn+sAViGNqQBWIp3PAFYjmOEAViWd5QBWJ+FHAFYpvE0AVirlRwBWLOVEAFYtncgAVi68RwBWL7xTAFYwvFQAVjK8SgBWM+VCAFY0vEwAVjXk+QBWNrxSAFY3+08AVjjlRgBWObxJAFY65UgAVju8SABWPeVDAFY+5UUAVj+8SwBWQOVBAFZB5PoAVkLk9wBWQ53rAFZF2GsAVkbk/QBWSOT2AFZJ5PwAVkrk+wBWTOT4AFZN+1QAVk68TwBWT/tVAFZQmqIAVlKK1gBWU7xOAFZUml8AVle8UABWWOT+AFZZvrIAVlrlQABWXZ71AFZe6UUAVmDo/QBWYY+3AFZivr4AVmPpQgBWZL62AFZlvroAVmbpQQBWaL65AFZpvrUAVmq+uABWa76zAFZsvr0AVm3pQwBWbuj+AFZvvrwAVnDo/ABWcb67AFZy6UQAVnPpQABWdLxRAFZ2vr8AVnfpRgBWeL63AFZ5vrQAVnqa0gBWe55qAFZ8nugAVn7sxgBWf+zIAFaAwHsAVoHsyQBWguzHAFaD7MUAVoTsxABWhcB9AFaG7MMAVofAfgBWiYu/AFaKkcIAVoudYgBWjOzBAFaN7MIAVo7AegBWj8ChAFaQwHwAVpKSYABWk+zAAFaVwlAAVpfvvABWmO+6AFaZ778AVprvvQBWnO+7AFad774AVp6SXgBWn5HBAFahisUAVqSXowBWpcNgAFam8fIAVqfx8wBWqMRWAFaq8fQAVqvx8ABWrPH1AFat8fEAVq7CUQBWr4tsAFaxjX4AVrLz/gBWs/RBAFa0xFkAVrX0QABWtsRYAFa3xFcAVrmcVABWvMRaAFa99cUAVr71xgBWv529AFbAxNoAVsHE2QBWwsTbAFbD9cQAVsX22ABWxvbXAFbIxW0AVsnFbwBWysVuAFbL9tkAVszFyABWzfimAFbRxfEAVtP4pQBW1PjuAFbWnMUAVtfJSQBW2qV9AFbbpXwAVt2mXwBW3qZeAFbfyccAVuCmXQBW4cnGAFbiiVsAVuSneQBW5cqpAFbnyqgAVuqndwBW66d6AFbt+1wAVu7KpwBW7/tbAFbwp3gAVvH7VwBW98vwAFb5y/EAVvqpVABW+4dlAFb9mMcAVv+rqgBXAPtaAFcB0UgAVwLRSQBXA65FAFcErkYAVwfUrABXCLDpAFcJsOsAVwrUqwBXC7DqAFcM2HwAVw2z8gBXErbpAFcTtuoAVxTc4QBXFZzuAFcWuc8AVxi5zgBXGuVJAFcb6UgAVxzpRwBXHZLiAFce+WsAVx+kZwBXIMlZAFciyW4AVyPJbwBXKKZiAFcppmYAVyrJyQBXLKZkAFctpmMAVy7JyABXL6ZlAFcwpmEAVzKUpwBXM6ZgAFc0ycoAVzunpgBXPYzMAFc+p6MAVz+b1ABXQKd9AFdByqoAV0L7ZABXQ/t2AFdFyqsAV0b7YABXR6ehAFdJyq0AV0qnewBXS8quAFdMyqwAV02nfgBXTqeiAFdPp6UAV1CnpABXUad8AFdSyq8AV1SZ5QBXV5rCAFdbkfsAV1+gcwBXYalZAFdiy/4AV2SpWwBXZqlaAFdnn3IAV2jMQABXaalYAFdqqVcAV2vL9QBXbcv0AFdvy/IAV3DL9wBXccv2AFdyy/MAV3PL/ABXdMv9AFd1y/oAV3bL+ABXd6lWAFd6n8wAV3vL+wBXfKlcAFd9zEEAV36YpQBXf5LoAFeAy/kAV4KrqwBXg6lVAFeIm7wAV4qW8wBXi6usAFeMzlQAV42S5wBXj85aAFeQ/GcAV5OrsgBXlM5YAFeVzl4AV5fOVQBXmM5ZAFeZzlsAV5rOXQBXm85XAFeci30AV53OVgBXns5RAFefzlIAV6CrrQBXoZv0AFeiq68AV6OrrgBXpM5TAFelzlwAV6ee9wBXqp7BAFeuq7EAV7OHwwBXtJlvAFe1zlAAV7bRUwBXuNFSAFe50VcAV7rRTgBXu5bxAFe80VEAV73RUABXvo5BAFe/0VQAV8HRWABXwq5HAFfDrkoAV8SVSgBXxtFPAFfH0VUAV8iX5gBXy65JAFfM0UoAV86rsABXz9S6AFfQ0VYAV9LRTQBX1K5IAFfV0UwAV9eW9QBX3NSxAFfdkuYAV96fQgBX37DsAFfgsPAAV+HUwQBX4tSvAFfj1L0AV+Sw8QBX5dS/AFfm+2cAV+fUxQBX6dTJAFfs1MAAV+3UtABX7tS8AFfvmakAV/DUygBX8dTIAFfy1L4AV/PUuQBX9NSyAFf12KYAV/bUsABX97D1AFf41LcAV/mw9gBX+rDyAFf71K0AV/zUwwBX/dS1AFf++uYAWADUswBYAdTGAFgCsPMAWAP7aQBYBNTMAFgFsO0AWAaw7wBYB9S7AFgI1LYAWAmuSwBYCrDuAFgL1LgAWAzUxwBYDdTLAFgO1MIAWBDUxABYEpflAFgU1K4AWBiHyABYGdihAFgb2KoAWBzYqQBYHbP6AFge2KIAWCCz+wBYIbP5AFgiln0AWCPYpABYJLP2AFgl2KgAWCb7bABYJ9ijAFgo2KUAWCnYfQBYKrP0AFgs2LIAWC3YsQBYLtiuAFgvs/MAWDCz9wBYMbP4AFgy0UsAWDPYqwBYNLP1AFg1sPQAWDbYrQBYN9h+AFg42LAAWDnYrwBYOpmiAFg72LMAWD3c7wBYP9isAFhAmrsAWESaZQBYR5ROAFhI2KcAWEnc5wBYSrb0AFhLtvcAWEy28gBYTdzmAFhO3OoAWE/c5QBYUbbsAFhStvYAWFPc4gBYVLbwAFhV3OkAWFe27gBYWLbtAFhZ3OwAWFq27wBYW9zuAFhc+24AWF3c6wBYXrbrAFhfmd8AWGK29QBYY9zwAFhk3OQAWGXc7QBYaNzjAFhpmOMAWGu28QBYbJJUAFhttvMAWG/c6ABYcdzxAFhylnsAWHOKrwBYdOFdAFh1udAAWHbhYwBYebnVAFh64V8AWHvhZgBYfOFXAFh9udcAWH650QBYf+FcAFiAvFUAWIHhWwBYguFkAFiDudIAWIW51gBYhuFaAFiH4WAAWIjhZQBYieFWAFiKudQAWIvhXgBYjuFiAFiP4WgAWJDhWABYkeFhAFiSjHcAWJO50wBYlOFnAFiWh7AAWJjhWQBYmYuvAFianr0AWJy8WQBYneVLAFievFcAWJ+8VgBYoOVNAFih5VIAWKPlTgBYpeVRAFimvFwAWKee5gBYqL6lAFipvFsAWKr7bwBYq+VKAFis5VAAWK68WgBYr+VPAFiwjuEAWLHlTABYs7xYAFi1m30AWLacfgBYuulNAFi7+dkAWLzpTwBYvelKAFi+vsEAWL/pTABYwb7AAFjC6U4AWMW+wwBYxulQAFjHvsIAWMjpSQBYyelLAFjLkuoAWM7ApQBYz+zMAFjQjHgAWNHApABY0uzNAFjTwKMAWNTsywBY1cCiAFjW7MoAWNjCUwBY2cJSAFja8fYAWNvx+ABY3PtyAFjd8fcAWN7DYQBY38NiAFjg+3EAWOLDYwBY4/RCAFjkxFsAWOf30wBY6PfSAFjpxfIAWOukaABY7KTQAFjvp6cAWPCJXABY8pjwAFjzlvIAWPTOXwBY+bP8AFj6s/0AWPv7dABY/NzyAFj9udgAWP7haQBY/+VTAFkCi8EAWQPJWgBZBIldAFkFid4AWQbKsABZB4leAFkKxsoAWQzMQgBZDc5gAFkO0VkAWQ+uTABZEf5CAFkS8fkAWRTE3ABZFaRpAFkWpX4AWRfJcABZGaZnAFkapmgAWRypXQBZHYdoAFkf+3sAWSCw9wBZIrnaAFkkudsAWSW52QBZJ6RqAFkppNEAWSqk0wBZK6TSAFksyVsAWS2k1ABZLqWhAFkvyXEAWTGlogBZMolfAFk0iWAAWTemaQBZOKZqAFk8ycsAWT6nqABZQMqxAFlEqWEAWUXMQwBZR6lfAFlIqWAAWUmpXgBZStFaAFlOq7YAWU+rtQBZUKu3AFlRq7QAWVPOYQBZVKliAFlVq7MAWVeuTQBZWK5OAFlark8AWVzUzQBZYLP+AFlh2LQAWWKw+ABZZZvNAFlntvgAWWm53QBZarncAFlr4WoAWW28XQBZbr7EAFlw78AAWXH22gBZcvfUAFlzpGsAWXSlowBZdZ3TAFl2paQAWXfJ0QBZeKZsAFl5pm8AWXvJzwBZfMnNAFl9pm4AWX7J0ABZf8nSAFmAycwAWYGmcQBZgqZwAFmDpm0AWYSmawBZhcnOAFmJmEwAWYqnswBZjaewAFmOyrYAWY/KuQBZkMq4AFmSp6oAWZOnsgBZlJdSAFmWp68AWZfKtQBZmMqzAFmZp64AWZqVwwBZnaepAFmep6wAWZ+btgBZoMq0AFmhyrsAWaLKtwBZo6etAFmkp7EAWaWntABZpsqyAFmnyroAWainqwBZrJq5AFmuqWcAWa+pbwBZsJezAFmxzE8AWbLMSABZs6lwAFm0zFMAWbXMRABZtsxLAFm3n3QAWbiS8QBZualmAFm6zEUAWbupZABZvMxMAFm9zFAAWb6pYwBZv4z6AFnAzFEAWcHMSgBZw8xNAFnEl98AWcWpcgBZxqlpAFnHzFQAWcjMUgBZyfumAFnKqW4AWcupbABZzMxJAFnNqWsAWc7MRwBZz8xGAFnQqWoAWdGpaABZ0qlxAFnTqW0AWdSpZQBZ1sxOAFnYq7kAWdn7qwBZ2qvAAFnbzm8AWdyruABZ3c5nAFnezmMAWeDOcwBZ4c5iAFnjq7sAWeTObABZ5au+AFnmq8EAWeirvABZ6c5wAFnqq78AWeuYdwBZ7K5WAFntznYAWe7OZABZ75hUAFnwlcUAWfHOZgBZ8s5tAFnzznEAWfTOdQBZ9c5yAFn2zmsAWffObgBZ+J1VAFn5+7IAWfrOaABZ+6vDAFn8zmoAWf3OaQBZ/s50AFn/q7oAWgDOZQBaAavCAFoClX4AWgOrvQBaCa5cAFoK0WIAWguXQgBaDK5bAFoNlOYAWg/RYABaEa5QAFoSkvUAWhOuVQBaFdFfAFoW0VwAWhfRYQBaGK5RAFoZ0VsAWhqMxQBaG65UAFocrlIAWh7RYwBaH65TAFogrlcAWiGS/QBaI65YAFok+6IAWiWuWgBaJ5xRAFoprlkAWiqU6QBaK5hcAFoskvAAWi3RXQBaLtFeAFoz0WQAWjXU1ABaNrD5AFo32MIAWjjU0wBaOdTmAFo8sUAAWj2UTABaPtTkAFpAsP4AWkGw+gBaQtTtAFpD1N0AWkTU4ABaRZFrAFpGsUMAWkfU6gBaSNTiAFpJsPsAWkqxRABaTNTnAFpN1OUAWlDU1gBaUdTrAFpS1N8AWlPU2gBaVIt4AFpV1NAAWlbU7ABaV9TcAFpY1M8AWlmU4gBaWrFCAFpb1OEAWlzU7gBaXdTeAFpe1NIAWl/U1wBaYNTOAFphmE8AWmKxQQBaY/u1AFpk1NsAWmXU2ABaZrD8AFpn1NEAWmiScQBaadTpAFpqsP0AWmuTZQBabNTZAFpt1NUAWm6YWwBacNToAFpxmFAAWne0QABaeNi7AFp5l7wAWnrYuABae9jJAFp82L0AWn3YygBafpLzAFp/tEIAWoGTQABagphNAFqD2MYAWoTYwwBahpVyAFqI/e8AWorYxABai9jHAFqM2MsAWo7U4wBaj9jNAFqQ3UcAWpH9wQBakrRDAFqT2M4AWpTYtgBaldjAAFqW+7oAWpfYxQBamZLrAFqatEEAWpu0RABanNjMAFqd2M8AWp7YugBan9i3AFqg/HMAWqGXtwBaoti5AFqkh28AWqXYvgBapti8AFqntEUAWqnYyABaq/u0AFqs2L8AWq7YwQBar9i1AFqw3PoAWrHc+ABasrdCAFqzt0AAWrTdQwBatdz5AFq23UQAWrfdQABauNz3AFq53UYAWrrc9gBau9z9AFq8tv4AWr22/QBavrb8AFq/3PsAWsDdQQBawbb5AFrCt0EAWsOQpwBaxNz0AFrG3P4AWsfc8wBayNz8AFrJtvoAWsrdQgBay9z1AFrMtvsAWs3dRQBazpdBAFrPkvQAWtGHcgBa0/u8AFrV4W4AWta54gBa17nhAFrYueMAWtnhegBa2uFwAFrb4XYAWtzhawBa3eF5AFre4XgAWt/hfABa4OF1AFrhud4AWuLhdABa47nkAFrklXcAWuXhbQBa5rnfAFro4XsAWum54ABa6uFvAFrr4XIAWuzhdwBa7eFxAFru4WwAWvCe4gBa8o94AFrz4XMAWvTlVQBa9bxhAFr25VgAWvflVwBa+OVaAFr55VwAWvr53ABa+7xfAFr95VYAWv6WcgBa/+VUAFsB5V0AWwLlWwBbA+VZAFsF5V8AWwflXgBbCLxjAFsJvF4AWwu8YABbDLxiAFsNnrUAWw/lYABbEOlXAFsRlksAWxPpVgBbFOlVAFsVjKwAWxbpWABbF+lRAFsZ6VIAWxrpWgBbG+lTAFsdvsUAWx7pXABbH6D6AFsg6VsAWyHpVABbI+zRAFskwKgAWyXszwBbJuzUAFsn7NMAWyjpWQBbKsCnAFsrlXUAWyzs0gBbLezOAFsu7NYAWy/s1QBbMMCmAFsy7NAAWzS+xgBbOMJUAFs878EAWz3x+gBbPvH7AFs/8fwAW0DEXABbQZDaAFtDxF0AW0STZwBbRfRDAFtG/qQAW0f1yABbSPXHAFtKkN8AW0v22wBbTPbcAFtN99UAW074pwBbT5NUAFtQpGwAW1GkbQBbU6RuAFtUpNUAW1WlpQBbVsnTAFtXpnIAW1imcwBbWqe3AFtbp7gAW1yntgBbXae1AFtfqXMAW2LMVQBbY6l1AFtkqXQAW2XMVgBbZolhAFtoi7QAW2mrxABba65dAFts0WUAW22dwABbbtTwAFtwsUUAW3G0RwBbctTvAFtztEYAW3SOSABbdbnlAFt2+8UAW3fhfQBbeL7HAFt6wKkAW3vs1wBbfPvHAFt9xF4AW3/FcABbgMbLAFuByXIAW4L6eQBbg6WmAFuEyXMAW4WmdgBbh6Z0AFuIpnUAW4mmdwBbi6e6AFuMp7kAW47KvABbj6e7AFuQnmcAW5LKvQBbk8xXAFuVzFgAW5aM2QBbl6l2AFuYqXgAW5mpegBbmql3AFubqXsAW5ypeQBbnfvSAFueiWIAW5+JYwBboqvIAFujq8UAW6SrxwBbpavJAFumq8YAW6fRZgBbqM53AFuq/H0AW6zRaABbrdFnAFuurmMAW7CuXwBbs65gAFu0rmIAW7WuZABbtq5hAFu3h3MAW7iuZgBbua5lAFu/sUoAW8DU8gBbwdTxAFvCsUkAW8OfawBbxLFIAFvFsUcAW8axSwBbx7FGAFvK2NUAW8vY0gBbzLRJAFvN2NEAW87Y1gBb0LRLAFvR2NQAW9K0SABb07RKAFvU2NMAW9X7zABb1t1IAFvX/q4AW9jdSQBb2d1KAFvbh20AW9655gBb37nuAFvg4X4AW+G56ABb4rnsAFvj4aEAW+S57QBb5bnpAFvmueoAW+e55wBb6LnrAFvpvGYAW+rY0ABb67xnAFvsvGUAW+68ZABb7+ldAFvwvsgAW/Hs2ABb8uzZAFvz+9EAW/XDZABb9sRfAFv4pG8AW/qmeABb//t1AFwBq8oAXAPRaQBcBK5nAFwF+9QAXAexTgBcCLFNAFwJsUwAXAq0TABcC7RNAFwM2NcAXA257wBcDr7JAFwPpHAAXBDJXABcEaTWAFwSyXQAXBP71gBcFPvYAFwVydQAXBameQBcGql8AFwci10AXB6TTABcH91LAFwgmuIAXCKkcQBcI4vJAFwkpNcAXCXJ1QBcKMq+AFwqyr8AXCynvABcMNjYAFwxtE4AXDPdTABcN8CqAFw4pHIAXDmkqABcOqTYAFw7yXUAXDylpwBcPqfAAFw/p78AXECnvQBcQae+AFxEzFkAXEWpfgBcRqmhAFxHzFoAXEipfQBcSfvbAFxKn8kAXEurzgBcTM54AFxNq80AXE6rywBcT6vMAFxQrmoAXFGuaABcU59EAFxU0WsAXFWuaQBcVtFqAFxYrl4AXFnU8wBcXLFQAFxdsVEAXF6Y7QBcYLFPAFxiufAAXGPhogBcZLxoAFxlvGkAXGflYQBcaMCrAFxp78IAXGrvwwBcbMTdAFxt+KgAXG7JSwBcb6TZAFxxpHMAXHPJdwBcdMl2AFx4jOkAXHmmegBcesnXAFx7ydgAXHzJ1gBcfsnZAFyF+90AXIbKxwBciMrCAFyJysQAXIrKxgBci8rDAFyMp8QAXI3KwABcj8rBAFyQp8EAXJGnwgBcksrFAFyTysgAXJSnwwBclcrJAFyZjfIAXJqJZABcnP3yAFydzGgAXJ6TTQBcn8xiAFygzF0AXKGpowBcosxlAFyjzGMAXKTMXABcpcxpAFymzGwAXKfMZwBcqMxgAFypqaUAXKrMZgBcq6mmAFyszGEAXK3MZABcrsxbAFyvzF8AXLDMawBcsamnAFyzqagAXLXMXgBctsxqAFy3qaIAXLippABcuvvnAFzBoPIAXMKYaABcxs6rAFzHzqQAXMjOqgBcyc6jAFzKzqUAXMvOfQBczM57AFzOzqwAXM/OqQBc0M55AFzRn1gAXNKr0ABc086nAFzUzqgAXNWM5gBc1s6mAFzXznwAXNjOegBc2avPAFzazqIAXNvOfgBc3s6hAFzfzq0AXOWNcwBc6K5vAFzp+94AXOqubgBc7NFsAFztrmsAXO7RbgBc7/vfAFzwrnAAXPHRbwBc9K5zAFz1jEgAXPaucQBc99FwAFz4zq4AXPnRcgBc+65tAFz8h3QAXP2ubABc/9FtAF0A0XEAXQGucgBdBrFTAF0HsVIAXQvU9QBdDNT5AF0N1PsAXQ6xVABdD9T+AF0Q++MAXRGxWABdEtVBAF0UsVoAXRWNqABdFrFWAF0XsV4AXRj75ABdGbFbAF0a1PcAXRuxVQBdHdT2AF0e1PQAXR/VQwBdINT4AF0isVcAXSPVQgBdJLFcAF0l1P0AXSbU/ABdJ7FdAF0o1PoAXSmxWQBdLJx1AF0u1UQAXS+YeABdMNVAAF0x2OcAXTLY7gBdM9jjAF00tFEAXTXY3wBdNtjvAF032NkAXTjY7ABdOdjqAF062OQAXTzY7QBdPdjmAF0+jWAAXT/Y3gBdQNjwAF1B2NwAXULY6QBdQ9jaAF1F2PEAXUb75QBdR7RSAF1IjWEAXUnY6wBdSt1PAF1L2N0AXUy0TwBdTtjhAF1QtFAAXVHY4ABdUtjlAF1V2OIAXVaNYgBdV6ChAF1Z2OgAXVucQABdXt1TAF1i3VYAXWPdTgBdZd1QAF1n3VUAXWjdVABdabdDAF1r2NsAXWzdUgBdb7dEAF1wmK0AXXHdTQBdct1RAF10nuoAXXfhqQBdeIzsAF154bAAXXrhpwBde4zUAF184a4AXX3hpQBdfuGtAF1/4bEAXYDhpABdgeGoAF2C4aMAXYS58QBdhZzrAF2G4aYAXYe58gBdiOGsAF2J4asAXYrhqgBdi/vgAF2N4a8AXY6fUQBdkuVlAF2T5WcAXZS8awBdleVoAF2X5WMAXZnlYgBdmuVsAF2c5WoAXZ28agBdnuVtAF2f5WQAXaDlaQBdoeVrAF2i5WYAXaSNZQBdp+lhAF2o6WYAXanpYABdqullAF2rnPEAXazpXgBdreloAF2u6WQAXa/paQBdsOljAF2x6V8AXbLpZwBdtOlqAF216WIAXbb8WABdt+zaAF24wK8AXbmNZgBdusCtAF28wKwAXb3ArgBdwO/EAF3BllQAXcLxcgBdw/H9AF3G9EQAXcf0RQBdycRgAF3L9ckAXc3E3gBdz/XKAF3R9t4AXdLFcgBd1MVxAF3V9t0AXdbFyQBd1/voAF3Y99YAXdvGzABd3aR0AF3epnsAXd/J2gBd4MrKAF3hqLUAXeKxXwBd5aR1AF3mpaoAXeelqQBd6KWoAF3rp8UAXe6udABd8N1XAF3xpHYAXfKkdwBd86R4AF30pNoAXfWfzgBd96vRAF35zq8AXf20UwBd/qR5AF3/yV0AXgKlqwBeA6WsAF4EyXgAXgamfABeCfv8AF4KyssAXgua5ABeDKfGAF4OyswAXhGprgBeEp91AF4UzG4AXhWprABeFqmrAF4XzG0AXhipqQBeGcxvAF4aqaoAXhuprQBeHavSAF4fq9QAXiDOswBeIc6wAF4izrEAXiPOsgBeJM60AF4lq9MAXijRdABeKdFzAF4rrnYAXi2udQBeLvvxAF4zsWIAXjTVRgBeNrFhAF43sWMAXjixYABePbRVAF4+1UUAXkC0VgBeQdjzAF5CjWkAXkO0VwBeRNjyAF5FtFQAXkiTTwBeSt1aAF5L3VwAXky3RQBeTd1bAF5O3VkAXk/dWABeU+G0AF5UufcAXlW59QBeV7n2AF5Y4bIAXlnhswBeW7nzAF5c5XEAXl3lbwBeXpNOAF5fvG0AXmDlcABeYbxuAF5ivGwAXmO59ABeZultAF5n6WsAXmjpbABeaeVuAF5q7NwAXmvAsABebOzbAF5t78UAXm7vxgBeb+luAF5w8f4AXnKkegBec6WtAF50pn4AXnXJ2wBedqZ9AF54qa8AXnm3RgBeevv0AF57pNsAXnylrgBefavVAF5+tFgAXn/GzgBegMl5AF6CyXoAXoP7wwBehMncAF6GiWUAXoenyABeiMrQAF6Jys4AXoqnyQBei8rNAF6Mys8AXo3K0QBej6fHAF6SjHoAXpWpswBelqm0AF6XqbEAXpmMewBemqmwAF6bzrgAXpypsgBeoKvWAF6izrcAXqPOuQBepM62AF6lzroAXqar1wBep655AF6o0XUAXqrRdwBeq653AF6s0XgAXq2ueABertF2AF6wzrUAXrHVRwBestVKAF6z1UsAXrTVSABetbFnAF62sWYAXrexZABeuLFlAF651UkAXr2NagBevrFoAF7BtFoAXsK0WwBexLRcAF7F3V0AXsbdXwBex91hAF7It0gAXsm3RwBeyrRZAF7L3WAAXszdXgBezZNTAF7O4bgAXtCd+wBe0eG2AF7S4bwAXtO5+ABe1OG9AF7V4boAXta5+QBe1+G3AF7Y4bUAXtnhuwBe2rxwAF7b5XMAXtzhuQBe3bxyAF7e5XQAXt+8cQBe4Lx0AF7h5XUAXuK8bwBe47xzAF7l6XMAXubpcQBe5+lwAF7o6XIAXunpbwBe7MNmAF7u9EYAXu/0RwBe8fXLAF7y9t8AXvPGVQBe9Pv9AF72qbUAXvenygBe+JBZAF75/EAAXvqr2ABe+/xBAF78/EMAXv6kewBe/6TcAF8Bpa8AXwLJ3QBfBKfLAF8FytIAXwfOuwBfCKvZAF8KufoAXwukfABfDJNhAF8N/EYAXw6TYgBfD6ahAF8St0kAXxOkfQBfFKTdAF8VpN4AXxelsQBfGKWwAF8ayd4AXxumogBfHcrTAF8fp8wAXyLMcQBfI8xyAF8kzHMAXyWNawBfJqm2AF8nqbcAXyjMcABfKam4AF8tq9oAXy7OvABfMNF6AF8xrnoAXzPReQBfNbFpAF821UwAXzexagBfONVNAF86/EwAXzuM/gBfPLRdAF9A3WIAX0PhvwBfROG+AF9GufsAX0i8dQBfSeV2AF9KvsoAX0vpdABfTMCxAF9NlbgAX07FcwBfT/fYAF9QxtAAX1GLygBfVMx0AF9Wzr0AX1exawBfWNj0AF9Zt0oAX1yYegBfXcJVAF9hxtEAX2KnzgBfY/xRAF9kp80AX2Wr2wBfZ9F7AF9psW0AX2qzQwBfa7FuAF9ssWwAX220XgBfb+HAAF9wufwAX3G8dgBfcvxUAF9zyUwAX3TJ3wBfdsrVAF93p88AX3jK1ABfeafQAF97+q8AX3ypvABffcx3AF9+zHYAX3+puwBfgKm5AF+BqboAX4LMdQBfg41sAF+Fq90AX4bOvgBfh6vgAF+Iq9wAX4mr4gBfiqveAF+Lq98AX4yr4QBfkK59AF+RrnwAX5KuewBfltVPAF+XsW8AX5ixcgBfmbFwAF+b1U4AX5yxdQBfnrFxAF+f1VAAX6CxdABfobFzAF+k+mEAX6XY9gBfptj1AF+n/FcAX6i0YQBfqbRfAF+qtGAAX6vY9wBfrLdLAF+t3WQAX663TABfr91jAF+xm3AAX7LldwBftbx4AF+24cEAX7e8dwBfubn9AF+6oFEAX7vs3gBfvOl1AF+9wLIAX77s3QBfv/JAAF/A9EgAX8H0SQBfwox8AF/DpN8AX8SLywBfxaWyAF/JyXsAX8yn0gBfzafUAF/PyeIAX9DK2ABf0crXAF/SytYAX9TJ4QBf1cngAF/WpqQAX9en0wBf2KfRAF/ZpqMAX9uTbgBf3am9AF/ezHgAX9/81QBf4Km+AF/hyt0AX+PK3wBf5MreAF/lzHkAX+jK2gBf6qfYAF/rp9YAX+3K2QBf7srbAF/vyuEAX/Gn1QBf88rcAF/0yuUAX/WpwABf98riAF/4p9cAX/rK4ABf+8rjAF/9qb8AX/+pwQBgAMrkAGAJzK8AYArMogBgC8x+AGAMzK4AYA3MqQBgDqvnAGAPqcIAYBDMqgBgEcytAGASq+MAYBPMrABgFKnDAGAVqcgAYBapxgBgF8yjAGAZzHwAYBrMpQBgG6nNAGAczLAAYB2r5ABgHsymAGAgq+UAYCGpyQBgIsyoAGAj/KkAYCTOzQBgJavmAGAmzHsAYCepygBgKKvoAGApqcsAYCqpxwBgK6nMAGAszKcAYC3MegBgLsyrAGAvqcQAYDH8YQBgMsx9AGAzzKQAYDTMoQBgNanFAGA3zr8AYDnOwABgO4lmAGBAzsoAYEHRoQBgQs7LAGBDq+4AYETOzgBgRc7EAGBGq+0AYEfOxgBgSc7HAGBK+ssAYEzOyQBgTavpAGBQrqMAYFL52gBgU87FAGBUzsEAYFWupABgWM7PAGBZrn4AYFrRfQBgW87IAGBd0XwAYF7OwwBgX87MAGBiq+wAYGOuoQBgZKvyAGBlrqIAYGbO0ABgZ9F+AGBoq+sAYGmupgBgaqvxAGBrq/AAYGyr7wBgba6lAGBuztEAYG+upwBgcKvqAGByzsIAYHWTegBgd6DgAGB+k2sAYH+xdgBggNGkAGCB0aYAYIPRqABghK6oAGCFrq4AYIbVUwBgh9GsAGCI0aMAYImxeABgitVRAGCMrq0AYI2uqwBgjtGuAGCQ1VIAYJLRpQBglK6sAGCV0akAYJaurwBgl9GrAGCarqoAYJvRqgBgnNGtAGCd0acAYJ78awBgn66pAGCgsXkAYKLRogBgo7F3AGCkoNwAYKeUaABgqLF6AGCw1VUAYLHVXgBgsrRkAGCz/G0AYLSxfABgtbGjAGC2tGUAYLfVYABguLGqAGC52PkAYLrVVgBgu7GiAGC8saUAYL2xfgBgvtVUAGC/1WIAYMDVZQBgwdlJAGDD1WMAYMTY/QBgxbGhAGDGsagAYMexrABgyNVdAGDJ2PgAYMrVYQBgy7F7AGDM2PoAYM3VZABgztj8AGDP1VkAYNG0YgBg09VXAGDU1VgAYNWxpwBg141xAGDYsaYAYNnVWwBg2rGrAGDb1V8AYNyxpABg3dVcAGDe/WQAYN+xqQBg4LRmAGDhtGMAYOLY+wBg45m6AGDk1VoAYOaxfQBg55rQAGDommEAYOmg5QBg8LRrAGDxtG8AYPLZQABg87dRAGD0tG0AYPXZRABg9rRxAGD33WUAYPjZRgBg+bdTAGD6tGkAYPu0bABg/NlHAGD9oFsAYP7ZSABg/9lOAGEAtHMAYQG3VABhA9lKAGEE2U8AYQXZQwBhBrdeAGEHlqwAYQi3VQBhCbRyAGEK2UEAYQvZUABhDJdAAGENt10AYQ60cABhD7dOAGEQ2U0AYRK0dABhE9lFAGEU2P4AYRW0agBhFtlCAGEY2UsAYRme8QBhGrdNAGEbt1IAYRy0ZwBhHdlMAGEft1AAYSKMTQBhI7RoAGEnt1wAYSjhwwBhKd1wAGEr3WgAYSzhwgBhLt1sAGEv3W4AYTCffgBhMt1rAGE0t1sAYTbdagBhN7dfAGE74dIAYT2NcgBhPrdaAGE/ukAAYUDdcQBhQeHEAGFC/HYAYUS3WABhRd1pAGFG3W0AYUe5/gBhSLdPAGFJ3WYAYUrdZwBhS7pBAGFMt1cAYU23WQBhTrdWAGFP3W8AYVCWqQBhUuHIAGFT4ckAYVThzgBhVbx9AGFW4dUAYVi6RwBhWaBuAGFaukYAYVvh0ABhXPyqAGFdvHwAYV7hxQBhX7pFAGFg+80AYWHh1ABhYrpDAGFjukQAYWT8dABhZeHRAGFm5aoAYWe8egBhaLRuAGFq4dMAYWu8owBhbOHLAGFuvHsAYW+gdABhcLyiAGFx4cYAYXLhygBhc+HHAGF04c0AYXW6SABhdrx5AGF3ukIAYXnlegBheuHPAGF8vKEAYX2gcQBhfrykAGGA4cwAYYH8eQBhgrx+AGGD5XkAYYf8fABhieV+AGGKvs4AYYvleABhjOmjAGGN5akAYY68qABhkLymAGGRvswAYZLlpgBhk+WiAGGUvKwAYZWcUABhlul4AGGYk3kAYZmTeABhmryqAGGb5aEAYZyg3QBhnel2AGGf5aUAYaHlqABhouV9AGGkvKsAYae8pQBhqOl3AGGpvs0AYarlpwBhq7ynAGGsvKkAYa3lpABhrrytAGGv5aMAYbDlfABhseV7AGGyvssAYbPlqwBhtOl6AGG17OAAYba+0ABht411AGG46aIAYbmNdgBhuul+AGG87OEAYb6+0QBhv+mhAGHAk3QAYcHpfABhwsC0AGHD7N8AYcXpeQBhxul7AGHHwLUAYci+0wBhycCzAGHKvtIAYcvAtwBhzOl9AGHNvs8AYc+NdwBh0PylAGHT/KIAYdbvzwBh2O/HAGHakMMAYd7s5wBh3+/IAGHg7OMAYeKgeQBh48JWAGHk7OUAYeXs5ABh5sC2AGHn7OIAYejs5gBh6e/QAGHq78wAYevvzgBh7e/JAGHu78oAYfDvzQBh8e/LAGHyw2cAYfXDagBh9sNpAGH3w2gAYfjEYQBh+fRKAGH6xGIAYfvyQQBh/MTfAGH99cwAYf7E4ABh/8V0AGIAxcoAYgH32QBiA/faAGIE99sAYgf5ugBiCKTgAGIJyXwAYgqlswBiDKamAGINpqcAYg6mpQBiEKaoAGIRp9oAYhKn2QBiFMyxAGIVqc8AYhapzgBiGdGvAGIasa0AYhuxrgBiH7R1AGIg3XIAYiG3YABiIrdhAGIj3XQAYiTddgBiJd11AGIn4dcAYinh1gBiKrpJAGIr4dgAYiyNeQBiLeWsAGIuvK4AYjC+1ABiMsC4AGIzwlcAYjTAuQBiNqThAGI3i/wAYjmgdgBiOsrmAGI9zLIAYj6p0QBiP6nQAGJAqdIAYkGr8wBiQs7SAGJDztMAYkbRsABiR66wAGJIsa8AYkm0dgBiStlRAGJLpOIAYkyLzQBiTaR+AGJOpOMAYlDJfQBiUaW3AGJSpbYAYlOltABiVKW1AGJYpqsAYlnJ6QBiWsnrAGJbpqoAYlzJ4wBiXsnkAGJgyeoAYmHJ5gBiYsnoAGJjpqkAYmTJ5QBiZcnsAGJmyecAYmifWgBibafhAGJup+oAYm+n6ABicMrwAGJxyu0AYnLK9QBic6fmAGJ0yvYAYnan3wBid8rzAGJ5p+UAYnrK7wBie8ruAGJ8p+MAYn3K9ABifqfkAGJ/qdMAYoCn3gBigcrxAGKCn/QAYoPK5wBihKfbAGKFn7oAYoan7gBih8rsAGKIyvIAYomn4ABiiqfiAGKMyugAYo7K6QBij8rqAGKQjXoAYpGn7QBikqfnAGKTp+wAYpTK6wBilafrAGKWp90AYpen3ABimKfpAGKdnkUAYqSTsABipqB1AGKoqeEAYqnMvgBiqsy3AGKrqdwAYqyp7wBircyzAGKuzLoAYq/MvABisMy/AGKxqeoAYrPMuwBitMy0AGK1qegAYrbMuABiuMzAAGK5qdkAYrvMvQBivKnjAGK9qeIAYr7MtgBiv6nXAGLBh90AYsKp2ABiw5tGAGLEqdYAYsX8rgBixqnuAGLHqeYAYsip4ABiyanUAGLKzLkAYsup3wBizKnVAGLNqecAYs6p8ABiz87UAGLQqeQAYtHMtQBi0qnaAGLTqd0AYtSp3gBi1fywAGLWqewAYtep7QBi2KnrAGLZqeUAYtqp6QBi26nbAGLcq/QAYt/6UQBi5Y17AGLrztoAYuysQQBi7av4AGLuq/oAYu+sQABi8M7mAGLxq/0AYvLRsQBi866xAGL0rEMAYvXO1wBi9s7fAGL3q/4AYvjO3gBi+c7bAGL6zuMAYvvO5QBi/Kv3AGL9q/sAYv6sQgBi/66zAGMAzuAAYwGr+QBjAqxFAGMDztkAYwer/ABjCK6yAGMJq/YAYwvO1gBjDM7dAGMNztUAYw7O2ABjD87cAGMQ0bIAYxGsRABjE87hAGMUzuIAYxXO5ABjFqv1AGMYjXwAYyiuwQBjKdG+AGMqrr8AYyuuwABjLNG0AGMt0cQAYy6e1gBjL662AGMxk6wAYzLVZgBjM9HGAGM00cAAYzWfWwBjNtG3AGM3k6kAYzjRyQBjOdG6AGM6rrwAYzvVfQBjPNG9AGM9rr4AYz6utQBjQNHLAGNB0b8AY0KuuABjQ9G4AGNE0bUAY0XRtgBjRq65AGNH0cUAY0jRzABjSa67AGNK0bwAY0vRuwBjTK7DAGNNrsIAY06utABjT666AGNQrr0AY1HRyABjVNHCAGNVrrcAY1bRswBjV9HKAGNY0cEAY1nRwwBjWtHHAGNkoHwAY2XVZwBjZ7G3AGNoscsAY2mxygBja7G/AGNs/LIAY23VeQBjbtV1AGNv1XIAY3DVpgBjcbG6AGNysbIAY3XVdwBjdrSoAGN3sbYAY3jVoQBjeYrBAGN6scwAY3uxyQBjfNV7AGN91WoAY3+ftABjgLHIAGOB1aMAY4LVaQBjg7G9AGOEscEAY4XVogBjh9VzAGOIscIAY4mxvABjitVoAGOL/KwAY4y0eABjjdWlAGOO1XEAY4+xxwBjkNV0AGOR1aQAY5KxxgBjlNlSAGOWsbMAY5fVbwBjmLG4AGOZscMAY5uxvgBjnNV4AGOd1W4AY57VbABjn9V+AGOgsbAAY6GxxABjorG0AGOjtHcAY6TVfABjpbG1AGOnsbEAY6ixwABjqbG7AGOqsbkAY6vVcABjrLHFAGOt1W0AY67VegBjr9V2AGOw2VQAY7HZUwBjuZ5MAGO91WsAY77ZZABjwLR6AGPBj8UAY8LZagBjw9lZAGPE2WcAY8XddwBjxrR9AGPH2WsAY8jZbgBjybR8AGPK2VwAY8vZbQBjzNlsAGPNtH4AY87ZVQBjz7R5AGPQtKMAY9GTrQBj0rShAGPT2WkAY9XZXwBj1rSlAGPX2XAAY9jZaABj2dlxAGPatK0AY9u0qwBj3NlmAGPd2WUAY96dwwBj39ljAGPg2V0AY+G0pABj4o2iAGPjtKIAY+TRuQBj5dlWAGPmnUoAY+fdtwBj6NlXAGPptHsAY+q0qgBj6915AGPttKYAY+60pwBj79lYAGPw2W8AY/HdeABj8tlgAGPz2VsAY/S0qQBj9dlhAGP22V4AY/j8tgBj+bSuAGP7jaMAY/yeSwBj/p5NAGQGt3AAZAeNpABkCd18AGQK3bEAZAvdtgBkDN2qAGQNt2wAZA7duwBkD7dpAGQQ3XoAZBLdewBkE7diAGQUt2sAZBXdpABkFrduAGQXt28AZBjdpQBkGt2yAGQb3bgAZBy3agBkHrdkAGQf3aMAZCDdfQBkId26AGQi3agAZCPdqQBkJN1+AGQl3bQAZCbdqwBkJ921AGQo3a0AZCq3ZQBkK+HZAGQst2gAZC23ZgBkLt25AGQv3bAAZDDdrABkMor9AGQz3aEAZDS6UwBkNd2vAGQ2t20AZDfdpwBkOPy1AGQ53aYAZDr8wwBkO5OyAGQ9t2cAZD63YwBkP+HuAGRA3bMAZEHdrgBkQ92iAGRL4ekAZE3h2gBkTuHlAGRQ4ewAZFG6UQBkUrSsAGRT4eoAZFS6TABkWLpLAGRZ4fEAZFqNpQBkW+HbAGRc4egAZF3h3ABkXuHnAGRfuk8AZGDh6wBkYdliAGRl4fIAZGbh4wBkZ7pSAGRo5boAZGm8rwBka+HwAGRs4e8AZG26VABkbuWtAGRvvLAAZHDlrgBkcZOhAGRy4d8AZHPh4ABkdOHdAGR14eIAZHbh3gBkd+HzAGR4uk4AZHm8sQBkerpQAGR7ulUAZHyKxgBkfeHhAGR/4e0AZILh5gBkheWxAGSHukoAZIi8tABkiemqAGSK5bYAZIvltQBkjOW3AGSNilsAZI/ltABkkLy1AGSRiU0AZJK8uwBkk7y4AGSVvLkAZJblrwBkl+WyAGSY5bwAZJm8wQBkmry/AGSc5bMAZJ3ZWgBknryyAGSf5bkAZKDlsABkorzCAGSj5bgAZKS6TQBkpby3AGSm4eQAZKm8ugBkq7y+AGSsvMAAZK28vQBkrry8AGSv/tQAZLC8tgBkseW7AGSyvLMAZLO8wwBktIp4AGS2k6sAZLu+2ABkvL7ZAGS96akAZL6+4gBkv77fAGTAjacAZMG+1gBkwr7dAGTD6asAZMS+2wBkxb7VAGTHvtwAZMnpqABkysC7AGTLvtcAZM2+3gBkzsC6AGTP6acAZNDppgBk0r7gAGTTn0UAZNS+4QBk1umlAGTX6aQAZNjAvABk2emuAGTavtoAZNvprABk3YpWAGTgwL0AZOH8vwBk4sDCAGTj7OoAZOTs7ABk5fzAAGTmwL8AZOeO5gBk6OztAGTp7OkAZOqKpABk6+zrAGTswMAAZO3AwwBk7+zoAGTwwL4AZPHAwQBk8sJZAGTz6a0AZPTCWABk98JeAGT479QAZPrCXABk+8JdAGT879cAZP3v0wBk/sJaAGT/79EAZQDDawBlAe/VAGUD79YAZQTv0gBlBsJbAGUH8kIAZQnyRQBlColDAGUM8kYAZQ3yRABlDvJHAGUPw2wAZRDyQwBlEZPzAGUT9E4AZRTEZABlFfRNAGUW9EwAZRf0SwBlGMRjAGUZxGUAZRv1zQBlHMTiAGUdxOEAZR78qwBlH56iAGUg9uEAZSH24ABlIvbjAGUjxcsAZSTFdQBlJffdAGUm9uIAZSn33ABlKsXNAGUrxcwAZSzF8wBlLfipAGUu+O8AZS+k5ABlMJ3HAGUy2XIAZTPprwBlNMbSAGU1i84AZTamrABlN8r3AGU4p/EAZTmn7wBlO6fwAGU9zMEAZT6p8QBlP6xGAGVBzucAZUPO6ABlRaxHAGVG0c4AZUiuxABlSa7FAGVK0c0AZU38xQBlT7HTAGVRsc8AZVPVpwBlVLHWAGVVsdUAZVaxzgBlV7HRAGVYsdQAZVmx0ABlXNl2AGVdsc0AZV60rwBlX/zLAGVitLEAZWO0sgBlZNl1AGVl2XgAZWa0sABlZ9lzAGVo2XcAZWrZdABla5OzAGVst3EAZW38ygBlb928AGVyulYAZXPh9ABldL7jAGV1vMQAZXblvQBld7zFAGV4vMYAZXnlvwBleuW+AGV75cAAZXzpsQBlf+mwAGWA7O8AZYHs7gBlgsDEAGWDwMUAZYTySABlhfzJAGWGjawAZYek5QBliPvGAGWJiWcAZYuMfgBljNl5AGWQtLQAZZG0swBlkt29AGWU79gAZZXE4wBllvfeAGWXpOYAZZmuxgBlm7HYAGWcsdcAZZ3ZegBlntl7AGWft3IAZaDh9QBlobpXAGWi6bIAZaSk5wBlpaW4AGWnqfIAZajMwgBlqs7pAGWrrEgAZayx2QBlrtl8AGWvtLUAZbC3cwBlsuXBAGWz5cIAZbX8zQBltuzwAGW3wl8AZbj48ABluaToAGW7zMMAZbyp8wBlvaxJAGW+nPMAZb/O6gBlwa7HAGXC0dIAZcPR0ABlxNHRAGXFrsgAZcbRzwBly7HbAGXMsdwAZc3VqABlzrHdAGXPsdoAZdDZfQBl0fzQAGXS2X4AZdPdvgBl1JW7AGXWulkAZde6WABl2uzxAGXb79kAZd3ySgBl3vJJAGXf9E8AZeD80wBl4cleAGXirEoAZeP81ABl5aTpAGXmpbkAZeimrgBl6aatAGXspq8AZe2msABl7snuAGXvye0AZfDK+ABl8afyAGXyyvsAZfPK+gBl9Mr5AGX1yvwAZfqp9ABl+8zJAGX8zMUAZf3MzgBl/42uAGYAqfsAZgKp+QBmA8zKAGYEzMYAZgXMzQBmBqn4AGYHqkAAZgjMyABmCczEAGYKqf4AZgvMywBmDKn3AGYNzMwAZg6p+gBmD6n8AGYQzNAAZhHMzwBmEszHAGYTqfYAZhSp9QBmFan9AGYY/NcAZhzO7wBmHc71AGYek9sAZh+sUABmIKxNAGYhzuwAZiLO8QBmI/5jAGYkrFMAZiWsSwBmJs7wAGYnrE4AZiisUQBmK87zAGYtrEwAZi7O+ABmL6xPAGYwk9UAZjGsUgBmMs7tAGYzzvIAZjTO9gBmNc7uAGY2zusAZjnO9wBmOs70AGZBrtAAZkKuyQBmQ67MAGZE/NoAZkWuzwBmR9HVAGZIm3EAZkmuygBmStHTAGZL/N0AZkyuzgBmTYdkAGZPrssAZlHR1gBmUq7NAGZTja8AZlf68gBmWdWsAGZasd8AZlvVqwBmXNWtAGZdsd4AZl6x4wBmX9HUAGZgh7UAZmHVqgBmYtWuAGZjk9gAZmSx4ABmZdWpAGZmseIAZmf83wBmaLHhAGZq2acAZmuT0wBmbNmiAGZutLYAZm+0ugBmcLS3AGZx2aUAZnLZqABmc/zhAGZ0tLgAZna0uQBmd7S+AGZ43ccAZnnZpgBmerS8AGZ72aMAZnzZoQBmfY52AGZ+tL0AZoDZpABmhLd5AGaF/GIAZobdvwBmh7d2AGaIt3cAZom3dQBmit3EAGaL3cMAZozdwABmjbd7AGaOk9EAZpDdwgBmkbS7AGaSjbEAZpTdxgBmld3BAGaWt3gAZpe3dABmmLd6AGaZ3cUAZpqYWQBmnbpcAGaf4fgAZqDh9wBmoeH2AGaiuloAZqT7UgBmqLpbAGap5cUAZqrlyABmq7zIAGat+1MAZq68xwBmr+XJAGaw5cQAZrG8ygBmsuXGAGaz+00AZrS8yQBmteXDAGa2nL8AZrflxwBmuL7pAGa5vuYAZrrpuwBmu+m6AGa96bkAZr7ptABmv5tyAGbA6bUAZsS+5wBmxr7kAGbHvugAZsjpswBmyb7lAGbK6bYAZsvptwBmzOm8AGbN+1AAZs6TvgBmz+m4AGbS7PIAZtbAxwBm2O/cAGbZwMYAZtrv2gBm2+/bAGbcwmAAZt3DbgBm3vJLAGbgw20AZuP0UQBm5PRSAGbmxGYAZueM2wBm6PRQAGbpxOQAZuv33wBm7MXOAGbt+KoAZu74qwBm8KTqAGbxnfEAZvKmsQBm86ayAGb0p/MAZvbM0QBm96xUAGb4rtEAZvmx5ABm/LDSAGb+tL8AZv+0wABnALPMAGcB2akAZwL86wBnA7d8AGcE4foAZwXh+QBnCKTrAGcJprMAZwrM0gBnC6pCAGcMoLsAZw2qQQBnDpt+AGcPzvkAZxDO+gBnEtHXAGcT0dgAZxSu0gBnFa7TAGcWjbMAZxeu1ABnGNWvAGcZjFIAZxux5gBnHbTCAGcemugAZx+0wQBnIN3IAGch33oAZyLh+wBnI+m9AGcljtwAZybCYQBnJ8RnAGcopOwAZyqlvABnK6W9AGcspbsAZy2lvgBnLqW6AGcxprYAZzPJ9gBnNKa1AGc1prcAZzac+QBnOMnxAGc5yfAAZzrJ8wBnO8nyAGc8yfUAZz2mtABnPsnvAGc/yfQAZ0T6UABnRcr9AGdGp/0AZ0fK/gBnSMtDAGdJp/wAZ0vLRwBnTMtCAGdNy0UAZ06n9QBnT6f2AGdQp/cAZ1Gn+ABnU6hAAGdVy0EAZ1an+gBnV6hBAGdZy0AAZ1rLRgBnXKf5AGddy0QAZ16n+wBnX6f0AGdgp/4AZ2GY5wBnYvzzAGdn/PIAZ2qqVwBna4zKAGdszNQAZ22qQwBnbod1AGdvqk0AZ3CqTgBncapGAGdyqlgAZ3OqSABndMzcAGd1qlMAZ3bM1wBnd6pJAGd4zOYAZ3nM5wBneszfAGd7zNgAZ3yqVgBnfczkAGd+qlEAZ3+qTwBngczlAGeCh7oAZ4PM4wBnhMzbAGeFzNMAZ4bM2gBnh6pKAGeJqlAAZ4uqRABnjMzeAGeNzN0AZ47M1QBnj5PlAGeQqlIAZ5HM4QBnkszWAGeTqlUAZ5TM6ABnlapFAGeXqkwAZ5jM2QBnmcziAGeaqlQAZ5yqRwBnnapLAGefzOAAZ6CaWQBnpI21AGes/U0AZ67PWwBnr6xcAGewrGkAZ7H9XgBnss9WAGezz0wAZ7SsYgBntc9KAGe2rFsAZ7fPRQBnuKxlAGe5z1IAZ7rO/gBnu89BAGe/j30AZ8DPRABnwc77AGfCz1EAZ8PPYQBnxKxgAGfFz0YAZ8bPWABnyM79AGfJz18AZ8rPYABny89jAGfMz1oAZ83PSwBnzs9TAGfPrGYAZ9CsWQBn0axhAGfSrG0AZ9OsVgBn1KxYAGfWlUcAZ9f89gBn2M9DAGfZrGoAZ9qsYwBn289dAGfcz0AAZ92sbABn3qxnAGffz0kAZ+KsawBn489QAGfkz0gAZ+WsZABn5s9cAGfnz1QAZ+msXgBn6s9iAGfrz0cAZ+ysWgBn7c9ZAGfuz08AZ++sXwBn8M9VAGfxrFcAZ/LO/ABn86xoAGf0ruMAZ/WsXQBn9s9OAGf3z00AZ/jPQgBn+ZJQAGf6z14AZ/zPVwBn/oloAGf/rFUAaACNtgBoAfz7AGgCoH0AaAOY/ABoBIlpAGgN/k8AaBCSVgBoEtHsAGgTruoAaBTR7QBoFtHhAGgXrt8AaBiu6wBoGtHaAGgb+skAaBzR4wBoHdHrAGgek+gAaB/R2QBoINH0AGghrtUAaCL8+ABoJdHzAGgm0e4AaCjR7wBoKa7dAGgqrugAaCvR5QBoLdHmAGgu0fAAaC/R5wBoMdHiAGgy0dwAaDPR3QBoNNHqAGg10eQAaDac4wBoN/2pAGg4rtYAaDmu2gBoOtHyAGg70d4AaDyu5gBoPa7iAGg+/EQAaECu5QBoQa7sAGhCrtsAaEOu5wBoRNHpAGhFrukAaEau2ABoR5ZAAGhIrtcAaEnR2wBoSo24AGhL0d8AaEyu4ABoTdHxAGhO0egAaE/R4ABoUK7kAGhRruEAaFOu2QBoVK7cAGhVm0oAaFaPuQBoXfz+AGhliWoAaGvVxABobdW0AGhu1bUAaG/VuQBocdXIAGhy1cUAaHTVvgBoddW9AGh2se0AaHfVwQBoeNXQAGh51bAAaHvV0QBofNXDAGh91dUAaH7VyQBof7HsAGiA1ccAaIGx5wBogrH8AGiDsfIAaISNuQBohbH2AGiGsfUAaIfVsQBoiJF+AGiJ1c4AaIrV1ABoi9XMAGiM1dMAaI/VwABokNWyAGiR1dIAaJLVwgBok7HqAGiUsfcAaJbVywBol7HwAGiYk/QAaJvVygBonNWzAGidsfgAaJ+x+gBooNXNAGihsfsAaKKx6QBoo9W6AGik1c8AaKb7fABop7HvAGiosfkAaKnVvABoqtXGAGir1bcAaKzVuwBorbH0AGiu1bYAaK+x6ABosLHxAGixse4AaLLVvwBos67eAGi02cAAaLWx6wBotpPnAGi5l+8AaL3+SgBow/1FAGjEsfMAaMWWpQBoxtnDAGjH2dkAaMjZzgBoybTWAGjK/uAAaMu00QBozNm9AGjNtNIAaM7ZzQBo0NnGAGjR2dMAaNK0zgBo09mrAGjU2dUAaNW0xABo1tmzAGjXtMcAaNi0xgBo2rTXAGjc2a0AaN3ZzwBo3tnQAGjftMkAaOC0xQBo4dm7AGjjtNAAaOTZtgBo5tnRAGjntMwAaOjZyQBo6dnWAGjq2bAAaOvZtQBo7NmvAGjutMsAaO/ZwgBo8N3eAGjx2bEAaPK0zwBo89m6AGj02dIAaPW0ygBo9tm3AGj32bQAaPjZxQBo+bTNAGj6tMMAaPu02QBo/NnIAGj92ccAaQD9SABpAf1HAGkC/vIAaQP+agBpBNmsAGkFtMgAaQbZ1ABpB9m8AGkI2b4AaQmNvQBpCtnLAGkL2coAaQzZqgBpDbTTAGkOtNUAaQ/ZsgBpENm5AGkR2cEAaRK01ABpE9m4AGkU2cQAaRXZ1wBpF9nMAGkYm6EAaRmMogBpGpq3AGkbjvwAaSXZ2ABpKtmuAGksn6EAaS/d8gBpMLemAGky3fAAaTPd2wBpNN3gAGk13dkAaTb9UQBpN93sAGk43csAaTnd0gBpO93qAGk83fQAaT3d3ABpPvqtAGk/3c8AaUDd4gBpQd3nAGlC3dMAaUONvgBpRN3kAGlF3dAAaUaJpABpSN3XAGlJ3dgAaUq3qABpS93rAGlM3ekAaU7dzABpT93uAGlR3e8AaVLd8QBpU7esAGlUt6QAaVWa2QBpVtW4AGlX3dQAaVjd5gBpWd3VAGlat6EAaVu3sQBpXN3tAGldt68AaV63qwBpX93KAGlgt6MAaWH9TgBpYt3NAGljt7AAaWSNwABpZd3dAGlm3ckAaWeX8ABpaLepAGlp3eEAaWrd0QBpa7eqAGls3doAaW23fgBpbrTYAGlv3eMAaXDZvwBpcd3OAGlyk7QAaXP9RABpdN3oAGl1t6UAaXbd5QBpd7eiAGl43d8AaXm3rQBpet3WAGl73fMAaYCfpwBpgrenAGmD3sYAaYWNwgBphreuAGmKmbYAaY3iSgBpjuJIAGmQ4l4AaZHiRgBpk+JYAGmUt30AaZW6XwBpluJCAGmX4l0AaZj9UgBpmeJHAGma4lUAaZu6ZABpnLpdAGme4lsAaZ+NwQBpoOJAAGmh4loAaaKORgBpo7pvAGmk4lEAaaXiYQBpprptAGmn4kkAaai6XgBpqeJLAGmq4lkAaau6ZwBprOJEAGmtumsAaa66YQBpr+JNAGmw4kMAabHh/ABpsqDRAGmz4lcAabS6aABpteJgAGm24f0Aabe6ZQBpueJTAGm7umYAabziRQBpveJQAGm+4kwAab/iTgBpwJ/KAGnBumAAacLiXwBpw7puAGnE4k8AacbiYgBpyeH+AGnK4lQAacu6YwBpzLpsAGnNumoAac7iQQBpz+JWAGnQumkAadGSzwBp07piAGnU4lIAadWc9ABp1o3EAGnZ4lwAaeH9QQBp4uXVAGnk5dEAaeXlzQBp5uXhAGnn5d4Aaei8zQBp6ZtMAGnr5eUAaezl1ABp7bzYAGnu5dsAafHl0ABp8uXaAGnzvNUAafTl7gBp9uXrAGn35d0AafjlzgBp+f1XAGn6/O8Aafvl4gBp/OXkAGn9vNEAaf7l2ABp/+XTAGoA5coAagG8zgBqArzWAGoDnN4AagTl5wBqBbzXAGoG5csAagfl7QBqCOXgAGoJ5eYAagq81ABqC/1CAGoMmGwAag3l4wBqD+XqAGoRvNkAahO80wBqFOXcAGoV5c8Aahbl7wBqF+XMAGoY5egAahm80ABqGpf5AGob5dYAahyVWABqHeXXAGoevM8Aah+8zABqIOXSAGohvNIAaiO8ywBqJeXpAGom5ewAaifl2QBqKOnKAGoph7YAaiuYXgBqLP57AGotlM0AajLpwgBqM5PuAGo06b4AajW+9gBqOL7rAGo5vvAAajq+7ABqO+nMAGo86dcAaj2+6gBqPunEAGo/6c0AakDl3wBqQenOAGpDjKMAakS+8QBqRf1aAGpG6d0Aake+9QBqSL74AGpJ6cAAaku+9ABqTJP1AGpN6dsAak7p3ABqT+nSAGpQ6dEAalHpyQBqUpPvAGpTjuoAalTp0wBqVenaAGpW6dkAalePWwBqWL7vAGpZvu0AalrpywBqW+nIAGpd6cUAal7p2ABqX773AGpg6dYAamG+8wBqYr7yAGpjjF4AamTp0ABqZY3GAGpm6b8AamfpwQBqaOnDAGpp6dUAamrpzwBqa77uAGpt6cYAam/p1ABqcY3IAGp0jccAanbpxwBqepP3AGp+wM8Aan/tRQBqgMDIAGqB7PUAaoKNyQBqg+1BAGqEwMoAaoXtSABqh+z8AGqJ7PcAaor78gBqjO1JAGqN7PMAao7s/gBqj5ZwAGqQwNEAapHtRABqku1KAGqT7P0AapTAyQBqle1AAGqW7PQAapfA0ABqmY3LAGqa7UcAapvs+QBqnMDMAGqd/VwAap7s+wBqn+z4AGqgwNIAaqHs+gBqosDLAGqjwM4AaqTtQwBqpez2AGqm7UYAaqePZQBqqO1CAGqrjc0AaqzCYwBqre/nAGquwmgAaq/CaQBqsZ2oAGqylPkAarPCYgBqtO/mAGq1jc4Aarbv4wBqt+/kAGq4wmYAarnv3gBquu/iAGq7wmUAar3v3wBqvpPqAGrCwmcAasPCZABqxe/dAGrG7+EAasfv5QBqyP1fAGrJk/AAasqftgBqy/JRAGrM8k4Aas3yVwBqz/JWAGrQ8lQAatHyTwBq08NyAGrUjc8AatiXYwBq2fJQAGraw3EAatvAzQBq3PJTAGrdw3AAat7yWABq3/JSAGrg8k0AauHv4ABq5cNvAGrn8kwAauj0VgBq6vRVAGrr8lUAauzEaABq7vRZAGrv9FoAavD0VABq8fRYAGrz9FMAavaN0ABq+PXRAGr59FcAavrE5wBq+8TlAGr89c8AawD10gBrAvXOAGsD9dAAawTE5gBrBZPxAGsI9uUAawn25gBrCsV2AGsL9uQAaw/34gBrEMXPAGsR9+AAaxL34QBrE/isAGsWxlYAaxf48wBrGPjxAGsZ+PIAaxr49ABrHf1iAGse+bsAayCk7QBrIaa4AGsjqlkAayXM6QBrKM9kAGss0fUAay3R9wBrL9H2AGsx0fgAazKx/QBrM9XXAGs00fkAazX9ZQBrNtXWAGs31dgAazjV2QBrOdnaAGs6tNsAazvZ2wBrPNndAGs9tNwAaz602gBrP9ncAGtB3foAa0Ld+ABrQ933AGtF3fYAa0bd9QBrR7eyAGtI3fkAa0m6cABrSuJjAGtL4mUAa0y6cQBrTeJkAGtOvNsAa1C82gBrUeXwAGtSn9sAa1Tp3wBrVeneAGtW6eAAa1eT+ABrWb75AGtb7UsAa1zA0wBrXu/oAGtfwmoAa2DyWQBrYcV3AGtipO4Aa2OlvwBrZKa5AGtlqEIAa2aqWgBrZ6pbAGtqrG4Aa23R+gBrb4v3AGtyt7MAa3T9ZgBrdubRAGt3vvoAa3jCawBreaTvAGt6i88Aa3umugBrfszrAGt/qlwAa4DM6gBrgY3RAGuCz2UAa4OsbwBrhM9mAGuGrHAAa4jR/ABria7uAGuKru0Aa4zV3gBrjdXcAGuO1d0Aa4/V2wBrkdXaAGuU2d4Aa5XZ4QBrlrTeAGuX2d8Aa5i03QBrmdngAGub3fsAa57iZgBrn+JnAGug4mgAa6Ll8wBro+XyAGukvNwAa6Xl8QBrpuX0AGun6eEAa6rp4gBrq+njAGut7UwAa67A1ABrr8JsAGuw8loAa7LE6ABrs8lfAGu1rHEAa7bPZwBrt67vAGu6sf4Aa7y03wBrvdniAGu/t7UAa8C3tABrwY3SAGvD4mkAa8TiagBrxbzdAGvGvN4Aa8fp5QBryOnkAGvJ7+kAa8r34wBry6TwAGvMyWAAa82lwABrz6hDAGvQy0gAa9KscgBr07e2AGvUpPEAa9bPaABr16xzAGvYz2kAa9rA1QBr26TyAGvc/XEAa97M7ABr4M9qAGvh/W8Aa+LSQgBr49JBAGvk0f4Aa+bR/QBr59JDAGvo0kAAa+qN0wBr67JAAGvsskEAa++04ABr8NnjAGvy2eQAa/PZ5QBr995BAGv43kIAa/neQABr+p/nAGv73f0Aa/zd/gBr/be3AGv+4msAa//l9wBsAOX2AGwB5fUAbALl+ABsA+nnAGwE6eYAbAW++wBsBunoAGwIwNYAbAntTQBsC+/qAGwM8lsAbA325wBsD6TzAGwQpcIAbBGlwQBsE6pdAGwUyWEAbBXJfgBsFqa7AGwYyfcAbBnLSQBsGstKAGwbql4AbByQvQBsHcztAGwfrHQAbCDPawBsIc9sAGwjrvAAbCSu9ABsJdJEAGwmrvMAbCeu8QBsKK7yAGwq1d8AbCuyQgBsLLTjAGwutOEAbC+04gBsMNnmAGwxn9AAbDO6cgBsNKT0AGw1i9AAbDbJoQBsN/1yAGw4pcMAbDmcrgBsOovRAGw7yaQAbD2K2wBsPqXGAGw/yaMAbEClxQBsQaXEAGxCqEQAbEPJogBsRsn4AGxJ+uQAbErJ/ABsS8n+AGxMykAAbE2mxQBsTqbGAGxPyfsAbFCmwQBsUsn5AGxUyf0AbFWmwgBsV6a9AGxYlc4AbFmmvgBsWv12AGxbpsQAbFzJ+gBsXaa8AGxeqEUAbF+mvwBsYKbAAGxhpsMAbGXLWwBsZstZAGxny0wAbGioUQBsactTAGxqqEwAbGvLTQBsbctVAGxu+2IAbG/LUgBscKhPAGxxy1EAbHKoVgBsc8taAGx0qFgAbHWN1ABsdqhaAGx4y0sAbHn9eABseqhNAGx7y1wAbH2oVABsfqhXAGx/juMAbIDNRQBsgahHAGyCqF4AbIOoVQBshMtOAGyFqEoAbIaoWQBsh8tWAGyIqEgAbImoSQBsis1DAGyLy08AbIyoUABsjahbAGyOy10AbI/LUABskKhOAGySqFMAbJPM7gBslKhcAGyVy1cAbJaoUgBsmKhdAGyZqEYAbJrLVABsm6hLAGycy1gAbJ3NRABsn5B2AGyimMYAbKqN1QBsq6pqAGysqnoAbK3M9QBsrqpxAGyvl9EAbLDNSwBssapiAGyynrYAbLOqZQBstM1CAGy2zPMAbLfM9wBsuKptAGy5qm8AbLrM+gBsu6p2AGy8qmgAbL2qZgBsvqpnAGy/qnUAbMDNRwBswapwAGzCzPkAbMPM+wBsxKpuAGzFqnMAbMbM/ABsx81KAGzJrHUAbMqqeQBsy/rHAGzMqmMAbM3NSQBszqBCAGzPzU0AbNDM+ABs0c1PAGzSzUAAbNOqbABs1Mz0AGzVqmsAbNaqfQBs16pyAGzZzPIAbNrPdQBs26p4AGzcqnwAbN3NQQBs3s1GAGzfmHMAbOCqfgBs4ap3AGziqmkAbOOqXwBs5apkAGznzPYAbOiqYABs6c1OAGzqn/wAbOvM8ABs7MzvAGztzP0AbO7M8QBs76p7AGzwrvUAbPGqdABs8sz+AGzzqmEAbPWspgBs+c1MAGz/jKUAbQDPfABtAc+hAG0CjdcAbQPPpABtBM93AG0FkvsAbQaN2ABtB8+nAG0Iz6oAbQnPrABtCs90AG0LrHYAbQysewBtDdJJAG0OrK0AbQ/PpQBtEM+tAG0Rz3sAbRLPcwBtFtJkAG0XrH4AbRjPogBtGc94AG0az3oAbRuspQBtHc99AG0erH0AbR/PcABtIM+oAG0iz6sAbSSUTwBtJax6AG0mjdkAbSesqABtKM9tAG0prKoAbSqseABtK6yuAG0sz6kAbS3PbwBtLqyrAG0v0l4AbTDNSABtMax8AG0yrHcAbTPPdgBtNM9uAG01rKwAbTaspABtN8+jAG04rKkAbTmspwBtOs95AG07rKEAbTzPcQBtPayiAG0+rKMAbT/PcgBtQM+mAG1BrHkAbULPfgBtTolrAG1Xl84AbVjSTABtWa79AG1ar0MAbVv68wBtXP2uAG1e0lUAbV/SWwBtYNJXAG1h0koAbWLSTQBtY9JGAG1k0kcAbWWvSgBtZq76AG1n0lYAbWjSXwBtaa9FAG1qrvYAbWyvQABtbdJOAG1ur0IAbW/STwBtcNJZAG1x+68AbXKStwBtdK9EAG110mgAbXbSSABtd678AG14rvsAbXmvSABtetJFAG170mYAbXzSWgBtfdJnAG1+0mEAbX/SUwBtgNJiAG2BjdoAbYLSXABtg9JlAG2E0mMAbYWvSQBthtJUAG2HrvkAbYiu+ABtia9BAG2Kr0cAbYvSYABtjK9GAG2N0lEAbY6yQwBtj5xaAG2Q0mkAbZHSUABtktJLAG2Trv4AbZSvSwBtla73AG2W/a0AbZfSWABtmNJdAG2kjdwAbaWURABtqrJlAG2r1eEAbazV5QBtrrJSAG2vslAAbbGN3QBtsrJHAG2z1eMAbbTV4gBttbJbAG231egAbbiyVQBtuaDWAG261foAbbvWRwBtvLJEAG291fcAbb7V8ABtv7JnAG3A1eAAbcLV/ABtxLJkAG3FslgAbcayYwBtx7JOAG3I1ewAbcnV/gBtytX2AG3Lsk8AbcyySQBtzdZFAG3P1f0AbdDWQABt0bJRAG3SslkAbdPWQgBt1NXqAG3V1fsAbdbV7wBt19ZEAG3Ysl4AbdmyRgBt2rJcAG3b1fQAbdzV8gBt3dXzAG3eslMAbd/V7gBt4NXtAG3hskgAbeLV5wBt49ZGAG3kskoAbeXV8QBt5rJoAG3osmIAbenV5gBt6rJfAG3rsl0AbeyyZgBt7dX4AG3usmEAbe/SUgBt8NX5AG3xsmAAbfLWQQBt87JFAG301fUAbfWyVwBt9tXpAG33slYAbfmyVABt+rJMAG37sksAbfzZ5wBt/dZDAG3+jEEAbgDV6wBuApfVAG4D2fwAbgSUSgBuBbJNAG4KlE0Abg+XywBuFY3eAG4Yjd8Abhm1QQBuGrJaAG4btO4AbhzZ9gBuHbT8AG4f2eoAbiC06wBuIbTnAG4i2kkAbiO07QBuJLTxAG4ltOwAbia09QBuJ9pNAG4o2kQAbimN4ABuKv75AG4r2fEAbiy0+gBuLbT0AG4u2f0Abi+05ABuMNpKAG4x2kMAbjK06ABuM9n3AG40tPcAbjXaVQBuNtpWAG44tOUAbjnaSABuOrT5AG472fsAbjzZ7QBuPdnuAG4+tP0Abj/Z8gBuQNn5AG5B2fMAbkO0+wBuRLVEAG5F2e8AbkbZ6ABuR9npAG5J2esAbkq06gBuS9n4AG5NtPgAbk61QgBuT/3AAG5Q/PkAblHZ+gBuUtpTAG5T2ksAblS05gBuVdpRAG5WtPIAbleM3QBuWLTwAG5Z+34AblraVwBuW7TvAG5c2kEAbl3Z9ABuXtn+AG5ftUcAbmDaRQBuYdpCAG5i2fAAbmO1QwBuZNpPAG5l2kwAbmbaVABuZ7TpAG5o2kAAbmm1RgBua9pHAG5utPMAbm+09gBucdpGAG5ytUUAbnPZ9QBudNXkAG52krMAbnfaUABueNpOAG552lIAbnz9rwBuho3hAG6I2ewAbom1QABui5XTAG6N3mEAbo7eYABuj95GAG6Qt70AbpLeXwBuk95JAG6U3koAbpa3xwBul95oAG6Yt8IAbpneXgBumonBAG6b3kMAbpy3yABunbe+AG6e3lIAbp/eSABuoN5LAG6h3mMAbqK3uABuo95qAG6k3mIAbqW3wQBupt5XAG6nt8wAbqq3ywBuq7fFAG6u3mkAbq+3uQBusN5VAG6x3kwAbrLeWQBus95lAG60t80AbrX9aAButre7AG633lQAbrictwBuud5NAG66t8QAbruN4wBuvLfDAG693lAAbr7eWgBuv95kAG7A3kcAbsHeUQBuwre8AG7D3lsAbsS3yQBuxbfAAG7G3k4Abse3vwBuyN5FAG7J3lMAbsreZwBuy7T+AG7MurAAbs3eVgBuzuJsAG7P3lgAbtDeZgBu0bfGAG7S3k8AbtO3ugBu1LfKAG7VvPAAbtbeRABu2N5dAG7Z+sAAbtqN5QBu2/pkAG7c3lwAbt2JRwBu4o3kAG7ojecAbumN6ABu6+KqAG7suq0Abu3ifQBu7uKkAG7vuqIAbvHibgBu8rqvAG70uncAbvXibQBu9uKwAG73urEAbvjicQBu+eKjAG76/ccAbvvicwBu/OKzAG794q8Abv66dQBu/7qhAG8A5lMAbwG6rgBvArp9AG8D4m8AbwT9sABvBeKuAG8GuqMAbwfiqwBvCOK4AG8J4nUAbwrifgBvC5RFAG8Ml9YAbw3itgBvDuKsAG8PunwAbxLifABvE7p2AG8UunQAbxW6qABvFvzGAG8XmEQAbxjiegBvGeJ3AG8a4ngAbxzisgBvHuK3AG8f4rUAbyC6egBvIeK5AG8iun4AbyO6pwBvJI3pAG8l4nAAbybl+gBvJ+J5AG8pungAbyq6rABvK7qpAG8sunsAby3ipQBvLuJ0AG8vuqoAbzDipwBvMbqkAG8yuqYAbzO6cwBvNI3qAG814qkAbzbioQBvN+JyAG84uqUAbznisQBvOuK0AG874nsAbzziqABvPf5QAG8+unkAbz+83wBvQOKmAG9B5fkAb0PirQBvRP3MAG9O4nYAb0/mRABvUOZOAG9RvOIAb1LmTQBvU+ZZAG9UvOQAb1XmSwBvVp2nAG9X5k8Ab1i87wBvWuZGAG9bvOcAb1z9zQBvXeZSAG9e6fAAb1+88wBvYLzyAG9h5lQAb2LmQwBvY+ZeAG9kvO0Ab2a84wBvZ+ZXAG9p5lsAb2rmYABva+ZVAG9s5kkAb2285gBvbrzpAG9vvPEAb3C87ABvcuZMAG9z4qIAb3T9zwBvduZIAG935l8Ab3i86ABveZXSAG96vOsAb3vmYQBvfLzgAG995lYAb37l+wBvf+ZcAG+AwN8Ab4GN7QBvguZKAG+EvOEAb4XmRQBvhrzlAG+H5fwAb4i6qwBvieZBAG+K/LoAb4vmWgBvjOZCAG+N5kAAb4686gBvkOZYAG+S5f4Ab5PmUQBvlOZQAG+V5l0Ab5bmRwBvl7zuAG+d/cUAb57p8wBvn/3SAG+gv0kAb6G+/gBvoupAAG+j6esAb6S/QQBvpen3AG+mv0gAb6e/QwBvqOn1AG+p7U8Ab6rp+wBvq+pCAG+s6foAb63p6QBvrun4AG+v6kQAb7DqRgBvsb79AG+y6kUAb7O/RABvtL9KAG+1nNwAb7a/RwBvuOn+AG+5v0YAb7rp+QBvu5XPAG+86e0Ab73p8gBvvo3uAG+/6f0Ab8C/RQBvwb9CAG/CvvwAb8O/QABvxOnxAG/G5f0Ab8fp7ABvyOnvAG/J6kEAb8rp9ABvy+nqAG/M7U4Ab83qQwBvzunuAG/P6fwAb9P91ABv1O1RAG/VwOMAb9jA1wBv2ZbsAG/alusAb9vA2wBv3O1TAG/d7VkAb97tVwBv38DZAG/gwNoAb+HA4QBv4u1aAG/j7VIAb+TA3ABv5u1WAG/n7VUAb+jtWwBv6cDiAG/rwN0Ab+zA4ABv7e1UAG/uwOQAb+/A3gBv8MDlAG/xwNgAb/LtWABv9O1QAG/2kLYAb/fv9wBv+P3DAG/6wnEAb/vv9ABv/O/2AG/+wm8Ab//v8gBwAO/zAHAB7+4AcAOYqwBwBOn2AHAF7+8AcAbCcABwB+/rAHAJwm0AcArv+ABwC8JuAHAM7+wAcA3v7QBwDu/xAHAPwnMAcBHCcgBwFO/wAHAVw3gAcBbyXwBwF/JlAHAYw3kAcBnyXABwGsN2AHAbw3MAcBzyZwBwHcN3AHAelu4AcB/DdABwIPJeAHAh8mEAcCLyYgBwI/JjAHAk8mYAcCbv9QBwJ/JdAHAow3UAcCnyZABwKvJoAHAr8mAAcCyN9ABwL/RdAHAwxGoAcDH0YABwMsRrAHAz9GgAcDT0XwBwNfRcAHA39F4AcDj0YgBwOfRlAHA69GQAcDv0ZwBwPPRbAHA+xGkAcD/0YwBwQPRmAHBB9GkAcEL0YQBwQ/XTAHBE9dQAcEX12ABwRvXZAHBI9dYAcEn11wBwSvXVAHBL/eAAcEzE6QBwTYxnAHBQjfYAcFHFeABwUvbrAHBUjfcAcFX26ABwVvbpAHBX9uoAcFjFeQBwWvflAHBb9+QAcFyP+gBwXfivAHBexfQAcF/4rQBwYPiwAHBh+K4AcGL49QBwY8ZXAHBkxmUAcGX5owBwZvlsAHBnl9AAcGj5ogBwafnQAHBq+dEAcGuk9QBwbIvSAHBuh94AcG+N+ABwcKbHAHBxykEAcHTLXgBwdZDZAHB2qF8AcHeMRwBweKhiAHB5+vAAcHrLXwBwfKhgAHB9qGEAcH794QBwf435AHCB/eMAcILNWABwg81aAHCEzVUAcIXNUgBwhs1UAHCJjfoAcIqqpABwi/tjAHCOqqIAcI+QpgBwkc1WAHCSqqMAcJPNUwBwlM1QAHCVqqEAcJbNVwBwmM1RAHCZqqUAcJrNWQBwn8+vAHCgmXAAcKHPswBwo5HrAHCkrLcAcKWXcABwpphvAHCn/eIAcKnPtgBwq6yvAHCsrLIAcK2stABwrqy2AHCvrLMAcLDPsgBwsc+xAHCzrLEAcLTPtABwtc+1AHC3z64AcListQBwuZjyAHC6rLAAcLua/ABwvIlsAHC9/f0AcL7PsABwwJleAHDElb0AcMXSdwBwxtJ4AHDH0nkAcMivUABwyq9MAHDL0m4AcMz95ABwzdJ2AHDO0nsAcM+vUQBw0JHmAHDR0mwAcNLScgBw09JrAHDU0nUAcNX95QBw1v3mAHDX0nEAcNivTQBw2a9PAHDa0noAcNzSagBw3dJtAHDe0nMAcN/95wBw4NJ0AHDh0nwAcOLScABw5K9OAHDvsm0AcPDWTgBw8ZRUAHDz1lAAcPTWTABw9Zm4AHD21lgAcPfWSgBw+NZXAHD5smkAcPrWSABw+9pbAHD81lIAcP2ybABw/pfpAHD/1lMAcQDWVgBxAtZaAHEE1k8AcQWTRgBxBtZUAHEJsmoAcQqyawBxC9ZZAHEM1k0AcQ3WSQBxDtZbAHEQ1lEAcRPWVQBxF9ZLAHEZtUgAcRq1SQBxG9plAHEctU8AcR2YYwBxHtpZAHEf2mIAcSDaWABxIbVMAHEi2mAAcSPaXgBxJdpfAHEmtUoAcSjaYwBxKZW8AHEr/e0AcSz99wBxLtpcAHEv2loAcTC1SwBxMdpdAHEy2mEAcTOYcABxNJb2AHE1jqkAcTa1TQBxOtpkAHE7lFEAcT6OQwBxQItaAHFB3nAAcULedwBxQ955AHFE3qEAcUX97gBxRrfaAHFH3msAcUm30gBxSv3wAHFL3noAcUy31wBxTd6iAHFOt84AcU/99ABxUN59AHFRm/UAcVLebQBxU95+AHFU3mwAcVa33ABxV4zuAHFY3ngAcVm3zwBxWt6jAHFct9QAcV3ecQBxXrfZAHFf3nwAcWDebwBxYd52AHFi3nIAcWPebgBxZLfRAHFlt9gAcWa31gBxZ7fTAHFot9sAcWm30ABxat51AHFrl34AcWy31QBxbrVOAHFw3nsAcXGb1QBxct5zAHFzmsMAcXWXyABxdqDbAHF3kdAAcXjedABxep/kAHF74sEAcXyP3QBxfbq0AHF+kekAcYDivQBxgeLDAHGC4r8AcYS6tgBxheK+AHGG4sIAcYfiugBxiJjgAHGJ4rwAcYq6tQBxjJLKAHGOmFcAcY/iwABxkOK7AHGRjFEAcZK6twBxlLqyAHGW/esAcZfixABxmJtJAHGZurMAcZrmZwBxm+ZkAHGc5nAAcZ3magBxnuZsAHGfvPQAcaDmZgBxoeZuAHGinXYAcaOerwBxpOZtAHGl5msAcafmcQBxqLz3AHGp5mgAcarmbwBxrLz1AHGtnMwAca/mYwBxsOZlAHGxvPYAcbLmYgBxs+ZyAHG0/eoAcbXmaQBxt43xAHG46koAcbm/UQBxuv37AHG86lUAcb3qUwBxvr9LAHG/6kkAccDqTABxwepNAHHC6kgAccO/VQBxxL9WAHHF6kcAccbqVgBxx+pRAHHIv08Accm/TABxyupQAHHL6k4Acc6/UgBxz+pSAHHQv00AcdGOUwBx0r9OAHHU6k8AcdW/UABx1upLAHHY6lQAcdm/UwBx2upXAHHb6lgAcdy/VABx3frPAHHfwOcAceDA7gBx4e1cAHHi7WIAceTtYABx5cDqAHHmwOkAcefA5gBx6O1eAHHrlvkAcezA7ABx7cDrAHHuwOgAcfDtYQBx8e1dAHHy7V8AcfTA7QBx9Zi/AHH2nkkAcfjCdwBx+e/7AHH7wnQAcfzCdQBx/e/9AHH+wnYAcf/v+gByAIynAHIB7/kAcgLybAByA+/8AHIF8m0AcgbDegByB/JrAHIJm8oAcgryagByDPJpAHINw3sAcg79/gByD5LcAHIQxGwAchP0agByFPRrAHIV/kEAchaRzAByF5HiAHIZ9dwAchr12wByG8TqAHId9doAch727AByH/btAHIi9+YAciP4sQByJP5EAHIlh18Acib49gByJ/m8AHIoxnkAcin5xgByKqT2AHIri9MAciyqpgByLaqnAHIu/kcAcjCsuAByNcDvAHI2pPcAcjiqqAByOa9SAHI6t90Acjuk+AByPbJuAHI+urgAcj/JYgByQP5IAHJBz7cAckLSfQByROLFAHJGwPAAckek+QBySKqpAHJJz7gAckrPuQByS9pmAHJMtVAAck/epAByUJRVAHJSt94AclPixgByVf5LAHJWvPgAclf+TAByWMN8AHJZpPoAclraZwByW6T7AHJcjb8Acl2myQByXspCAHJfpsgAcmCoZQByYahkAHJiqGMAcmPLYAByZp54AHJnqqoAcmmqqwByas1bAHJsz7oAcm7PvQByb6y6AHJwz7sAcnKsuQByc8+8AHJ0rLsAcnbSogByd9KhAHJ40n4AcnmvUwBye9ZdAHJ81l4Acn2ybwByftZcAHJ/1l8AcoC1UgBygbJwAHKC/lEAcoS1UQByhdprAHKG2moAcoeUVgByiNpoAHKJ2mkAcovabAByjN6mAHKN3qUAco7eqQByj51hAHKQ3qgAcpHepwBykrq5AHKT4skAcpSUVwByleLIAHKWuroAcpfixwBymOZzAHKa5nQAcpu8+QBynepZAHKe6loAcp+ZZgByofJyAHKiw30AcqPycQBypPJwAHKl8m4AcqbybwByp8TrAHKo9GwAcqn27gByqvj3AHKspPwAcq2L1QByrsmlAHKvpccAcrDJpgBysqBpAHK0ykMAcrXKRAByustmAHK9y2IAcr/LYQBywKqsAHLBy2UAcsKoZwByw8tjAHLEqGYAcsXLZwByxstkAHLJzV8AcsrPvgByy81dAHLMzWQAcs2YtAByzqqtAHLQqrAActHNZQBy0s1hAHLUzWIActbNXABy16qvAHLYzV4ActmqrgBy2s1jAHLczWAAct/PwgBy4Ky9AHLhrL4AcuKgSQBy48/FAHLkz78AcubPxABy6M/AAHLprLwAcurPwwBy68/BAHLz0qgAcvTSpQBy9tKnAHL3r1gAcvivVwBy+a9VAHL60qQAcvvSqQBy/K9UAHL9r1YAcv7SpgBy/9ZnAHMA0qMAcwHSqgBzAqBMAHMEnmUAcwfWYgBzCNZmAHMK1mUAcwvabgBzDNp5AHMP1mgAcxCYtQBzEdZjAHMS2m0AcxOydABzFrJzAHMX1mEAcxjWZABzGbJ1AHMbsnIAcxyycQBzHdZgAHMe1mkAcyLacABzI9p3AHMltVQAcybadgBzJ9pzAHMo/lgAcym1VgBzKpl1AHMr/lMAcyygZQBzLdp1AHMu/lkAczDabwBzMdpxAHMy2nQAczPacgBzNLVVAHM12ngAcza1UwBzN7ffAHM4mLcAczmYuABzOt6tAHM73qwAczzeqgBzPrfiAHM/t+EAc0DergBzQZi6AHNC3qsAc0PiygBzRLq7AHNFt+AAc0iYuwBzSd6wAHNK3q8Ac0zizQBzTeLLAHNOvPoAc0+fvABzULq8AHNR4swAc1LmdgBzV7z7AHNY5nUAc1nmfgBzWuZ9AHNb5nsAc13megBzXuZ3AHNf5ngAc2DmeQBzYeZ8AHNi5qEAc2XqXwBzZupcAHNn6l0Ac2i/VwBzaepbAHNq6mEAc2vqYABzbOpeAHNu7WQAc2/tZQBzcMDxAHNxoEoAc3LA8gBzc+1jAHN0nscAc3XCeQBzdu/+AHN3wngAc3jDfgBzesOhAHN7xG0Ac3z0bgBzffRtAHN+9d0Ac3/27wBzgMV6AHOB9+gAc4L35wBzg/fpAHOEpcgAc4XPxgBzhq9ZAHOHsnYAc4jWagBziaXJAHOKyacAc4uk/QBzjIypAHOOykUAc4+YrgBzkstsAHOTy2oAc5TLawBzlctoAHOWqGgAc5fLaQBzmJLWAHOc+uEAc53NbQBznpHUAHOfqrMAc6DNawBzoc1nAHOizWoAc6TNZgBzpaq1AHOmzWkAc6f63gBzqKqyAHOpqrEAc6r+WwBzq6q0AHOszWwAc63NaABzsqzCAHOzrMUAc7TPzgBztc/NAHO2z8wAc7esvwBzuM/VAHO5z8sAc7qMUwBzu6zBAHO80q8Ac77P0gBzv8/QAHPArMQAc8LPyABzw8/TAHPEh78Ac8XPygBzxs/UAHPHz9EAc8jPyQBzyf5eAHPKrMAAc8vP1gBzzM/HAHPNrMMAc8771wBzz/5aAHPQlMUAc9LStABz09KrAHPU0rYAc9X6ygBz1tKuAHPX0rkAc9jSugBz2dKsAHPa0rgAc9vStQBz3NKzAHPd0rcAc96vXwBz4K9dAHPhmMEAc+KXXABz49KxAHPk/nQAc+XSrQBz5pdzAHPn0rAAc+jSuwBz6dKyAHPqr14Ac+vPzwBz7a9aAHPur1wAc+/6RgBz85dkAHP01ngAc/XWbQBz9tZrAHP3/mgAc/jWbABz+ZZOAHP61nMAc/uXZQBz/NZ0AHP91nAAc/6yewBz/9Z1AHQA1nIAdAHWbwB0AoxaAHQDsnkAdATWbgB0BbJ3AHQGsnoAdAfWcQB0CNZ5AHQJr1sAdAqyeAB0C9Z3AHQM1nYAdA2yfAB0EYmhAHQSlfoAdBSS1AB0Ff5pAHQW2n4AdBf7RQB0GZjIAHQa2qEAdBu1YAB0HJDvAHQd2qcAdB6YyQB0H5jKAHQg2qkAdCHaogB0IrVaAHQj2qYAdCTapQB0JbVbAHQmtWEAdCi1YgB0KdqoAHQqtVgAdCvafQB0LNp7AHQt2qMAdC7aegB0L7VfAHQw2nwAdDHapAB0MtqqAHQztVkAdDS1XgB0NbVcAHQ2tV0AdDeUbQB0OJS3AHQ5/mwAdDq1VwB0PJRrAHQ/t+kAdEDetwB0QbfoAHRC3rsAdEOS/AB0RN6xAHRFlesAdEbevAB0R/5zAHRIl24AdEn+XwB0St6yAHRL3rMAdEyHuAB0Td69AHRO3roAdE/euAB0UN65AHRR3rUAdFLetAB0U/29AHRU3r4AdFW35QB0VpLVAHRX3rYAdFm36gB0WrfkAHRbt+sAdFy37AB0Xf65AHRet+cAdF+35gB0YP5xAHRhh3gAdGLizgB0Y7q+AHRkur0AdGX7uwB0Z+LTAHRolHoAdGm8/AB0arq/AHRrlfsAdGz+dwB0bbrBAHRu4tQAdG+34wB0cLrAAHRx4tAAdHLi0gB0c+LPAHR0/nkAdHXi0QB0dv51AHR55qsAdHqUXQB0fOaqAHR95qcAdH69QAB0f+piAHSAvUEAdIHmpgB0gv58AHSDvP4AdIXmqAB0hualAHSH5qIAdIjmqQB0ieajAHSK5qQAdIu8/QB0jJNEAHSNjqYAdJDtaQB0kupmAHSU6mUAdJXqZwB0l+1mAHSYv1oAdJmS0wB0mupjAHSblLgAdJy/WAB0nYd5AHSev1wAdJ+/WwB0oOpkAHSh6mgAdKO/WQB0pPxxAHSl7W0AdKbA9QB0p8J6AHSowPYAdKnA8wB0qu1qAHSr7WgAdK3tawB0r+1uAHSwwPQAdLHtbAB0su1nAHS0l14AdLXwQgB0tvBFAHS38nUAdLjwQAB0uYytAHS69G8AdLvwRgB0vcOiAHS+8EQAdL/CewB0wPBBAHTB8EMAdMLwRwB0w/J2AHTF8nQAdMaHwQB0yP6nAHTKw6MAdMvycwB0zJRqAHTPxG4AdNCT4wB005jPAHTUxO0AdNX28QB01sTsAHTX9vMAdNj28AB02fbyAHTaxdAAdNv4sgB03KXKAHTdzW4AdN7SvAB039K9AHTgsn0AdOHevwB04r9dAHTjw6QAdOTFewB05fizAHTmpcsAdOeg2QB06M1vAHTpomAAdOzP1wB07s/YAHTwoL8AdPGgTQB08qC4AHT00r4AdPXSvwB09rJ+AHT3sqEAdPigzgB0+9qrAHT93sIAdP7ewQB0/97AAHUA4tUAdQLi1gB1A+LXAHUEusIAdQWgtwB1B+atAHUI5qwAdQvqaQB1DL9eAHUNv18AdQ7+qQB1D+1yAHUQ7W8AdRHtcAB1Eu1xAHUT8EkAdRTwSAB1FcJ8AHUW8ncAdRf13gB1GKXMAHUZicMAdRqsxgB1HLKiAHUd3sMAdR7+qwB1H6XNAHUh0sAAdSKyowB1JbVjAHUmtWQAdSilzgB1KaXPAHUqykYAdSuoagB1LKhpAHUtrMcAdS7P2QB1L9qsAHUwpdAAdTGl0QB1MqXSAHUzpdMAdTSd9AB1NYltAHU3qGsAdTiobAB1OctuAHU6y20AdTucewB1Paq2AHU+zXIAdT/NcAB1QM1xAHVCmNIAdUafqQB1R8/aAHVIz9sAdUr+sgB1S6zLAHVMrMkAdU3+sQB1TqzKAHVPrMgAdVGX2QB1U6DEAHVUr2AAdVWUdgB1Wa9kAHVar2MAdVvSwQB1XK9iAHVdr2EAdV/SwgB1YJl4AHVisqYAdWPWewB1ZNZ6AHVlsqQAdWaypQB1Z/6zAHVqtWYAdWu1ZQB1bNquAHVtmNMAdW7+tAB1b9qtAHVwsqcAdXKY1AB1drftAHV33sUAdXi37gB1ed7EAHV6n7kAdX3i2AB1fuauAHV/vUIAdYDqagB1g5RxAHWE7XMAdYbDpgB1h8OlAHWKxXwAdYul1AB1jM1zAHWNmNUAdY7+uAB1j7KoAHWQ4tkAdZG6wwB1ksbUAHWUy28AdZXLcAB1mM10AHWZqrgAdZqquQB1naq3AHWe/roAdaKszwB1o6zQAHWkrM0AdaWszgB1p8/cAHWqz90AdauszAB1sNLDAHWxnlwAdbKvaAB1s69pAHW0/rsAdbWyqwB1ttLJAHW4r24AdbmvbAB1utLKAHW70sUAdbyvawB1va9qAHW+r2UAdb/SyAB1wNLHAHXB0sQAdcKvbQB1w6BEAHXE0sYAdcWvZgB1x69nAHXImNcAdcqyrAB1y9ahAHXM1qIAdc2yrQB1ztZ8AHXP1n4AddDWpAB10dajAHXS1n0AddSyqQB11bKqAHXX2rYAddi1awB12bVqAHXa2rAAddu1aAB13JjYAHXd2rMAdd61bAB139q0AHXgtW0AdeHasQB14rVnAHXjtWkAdeTatQB15tqyAHXn2q8Ade3e0gB1797HAHXwt/AAdfG38wB18rfyAHXzt/cAdfS39gB19d7TAHX23tEAdffeygB1+N7OAHX53s0Adfq39AB1+97QAHX83swAdf3e1AB1/t7LAHX/t/UAdgC37wB2AbfxAHYC/rwAdgPeyQB2B5/+AHYI4tsAdgm6xwB2CuLfAHYLusYAdgzi3AB2DbrFAHYP3sgAdhDezwB2EeLeAHYTusgAdhTi4AB2FeLdAHYW4toAdhnmsQB2Gua1AHYb5rcAdhzmswB2HeayAHYe5rAAdh+9RQB2IL1DAHYhvUgAdiK9SQB2I+a0AHYkvUYAdiXmrwB2Jr1HAHYnusQAdijmtgB2Kb1EAHYs/r0Adi3qbAB2L+prAHYw6nMAdjHqbQB2MupyAHYz6m8AdjS/YAB2NepxAHY4v2EAdjq/YgB2O53dAHY86nAAdj3qbgB2QJ7hAHZCwPgAdkPtdAB2RsD3AHZH7XcAdkjtdQB2Se12AHZMwPkAdk2Y2gB2Tp3fAHZP/r8AdlDwTQB2Uf6+AHZSwqEAdlPwTgB2VJ7rAHZWwn0AdlfwTwB2WMJ+AHZZ8EwAdlrwUAB2XPBKAHZfw6cAdmDyeAB2YcOoAHZixG8AdmTwSwB2ZcRwAHZmnlkAdmegXAB2acTuAHZq9d8AdmzFfgB2bfb0AHZuxX0Adm/+wAB2cPfqAHZxxfUAdnLF9gB2c5R3AHZ0mNwAdnX5zAB2dv7BAHZ4rNEAdnnP3gB2epjeAHZ7tW4Adny1bwB2faXVAHZ+psoAdn/KRwB2gctxAHaCqG0AdoSqugB2hqzSAHaHrNMAdois1AB2idamAHaK0ssAdouvbwB2jrKuAHaP1qUAdpD+wwB2ktq4AHaTtXEAdpXatwB2lrVwAHaZ3tUAdpq9SgB2m+a7AHac5rgAdp3muQB2nua6AHah/sgAdqTteAB2pf7JAHam8FEAdqr0cQB2q/RwAHat9vUAdq6l1gB2r811AHawr3AAdrS1cgB2td7WAHa3/soAdrji4QB2ur1LAHa76nQAdr3wUgB2vvRyAHa/pdcAdsKquwB2w6zXAHbEz98AdsWs2AB2xqzWAHbIrNUAdsnSzAB2yq9xAHbM/ssAds2vcgB2zq9zAHbSsrAAdtPWpwB21LKvAHbWn8IAdtmMawB22tq5AHbbsrEAdty1cwB23d7XAHbet/gAdt+3+QB24brJAHbjusoAduS9TAB25b9kAHbm6nUAdue/YwB26e15AHbqwPoAduzwUwB27fRzAHbupdgAdu+obgB28M14AHbxzXcAdvKqvAB28812AHb0qr0AdvXNeQB298/lAHb4rNsAdvms2gB2+s/nAHb7z+YAdvys3wB2/qzeAHcBrNkAdwPP4QB3BM/iAHcFz+MAdwes4AB3CM/gAHcJrNwAdwrP5AB3C6zdAHcMmMQAdw6UsAB3D5SxAHcQ0s8AdxHS0wB3EtLRAHcT0tAAdxXS1AB3GdLVAHca0tYAdxvSzgB3HdLNAHce/tEAdx+vdQB3IK92AHci0tcAdyPS0gB3JKDBAHcl1rAAdyb+0gB3J9LYAHcor3cAdymvdAB3K6DNAHct1qoAdy/WqQB3MdarAHcy1qwAdzPWrgB3NNatAHc11rIAdzaytQB3N7KyAHc4srYAdznWqAB3OrK3AHc71rEAdzyytAB3PdavAHc+srMAd0D+0wB3Q5jlAHdE2rwAd0XavgB3Rtq6AHdH2rsAd0ravwB3S9rBAHdM2sIAd03avQB3TtrAAHdPtXQAd1Le2wB3VN7gAHdV3tgAd1be3AB3WP7WAHdZ3uEAd1re3QB3W7f6AHdcuEMAd163/QB3X97ZAHdg3toAd2G6zgB3YrhGAHdjt/4Ad2W4RAB3Zrf8AHdn3t8Ad2i4RQB3ad7eAHdquEEAd2u3+wB3bLhCAHdt3uIAd27i5gB3b+LoAHdykeQAd3ePxwB3eJSuAHd5uEAAd3qKTwB3e5SyAHd84uMAd326zAB3fuLpAHd/us0Ad4Di5wB3geLiAHeC4uUAd4Pi6gB3hLrLAHeF4uQAd4e9TgB3iOa/AHeJ5r4Ad4u9UQB3jL1PAHeN5rwAd469TQB3j+a9AHeRvVAAd5OP1AB3lep9AHeX6qEAd5iY6gB3mep+AHea6nYAd5vqegB3nOp5AHed6ncAd56/ZgB3n79nAHegv2UAd6HqeAB3oup7AHej6nwAd6W/aAB3p8FAAHeo7aMAd6rA/AB3q+17AHeswP4Ad63BQQB3r/7YAHewwP0Ad7HtogB3su18AHezwPsAd7TtoQB3te16AHe27X4Ad7ftfQB3uZ3gAHe68FUAd7vCpAB3vMKlAHe9wqIAd76Y7gB3v8KjAHfC8FQAd8OVxAB3xPJ7AHfF/OgAd8fDqQB3yfJ5AHfK8noAd8uY7wB3zPR0AHfN9HcAd870dQB3z/R2AHfQ9eAAd9PE7wB31PfrAHfV+LQAd9fF9wB32Pj4AHfZ+PkAd9rGZgB326XZAHfcrOEAd92MbgB33trDAHfg3uMAd+Kl2gB346hvAHflqr4Ad+b62AB358/oAHfoz+kAd+mveAB37NrEAHfttXUAd+64RwB378FCAHfw7aQAd/HyfAB38vR4AHfzpdsAd/T+3AB3982hAHf4zXoAd/nNfAB3+s1+AHf7zX0Ad/zNewB3/aq/AHf+oK4AeAKs4gB4A8/yAHgFz+0AeAbP6gB4CJ1MAHgJz/EAeAys5AB4DazlAHgOz/AAeA/P7wB4EM/uAHgRz+sAeBLP7AB4E8/zAHgUrOMAeBiY8QB4HJjzAHgdr3wAeB6UwQB4H6+kAHggr6MAeCHS4QB4ItLbAHgj0tkAeCWvoQB4Jta5AHgnr3oAeCjS3gB4KdLiAHgq0uQAeCvS4AB4LNLaAHgtr6IAeC7S3wB4L9LdAHgwr3kAeDHS5QB4Mq+lAHgz0uMAeDSvfQB4NdLcAHg3r34AeDivewB4OZj1AHg8+k8AeD2W4gB4QpRQAHhDsrkAeESWogB4Rda6AHhHmPYAeEjWswB4Sda1AHhK1rcAeEuW5QB4TNa4AHhN1rYAeE6yugB4UNa7AHhRmPcAeFLWtAB4U6BGAHhUluMAeFzayAB4XbV2AHhe2tAAeGDaxQB4YtrRAHhk2sYAeGXaxwB4Zpj4AHho2s8AeGnazgB4atrLAHhrsrgAeGy1dwB4bdrJAHhu2swAeG+1eAB4cNrNAHhx2soAeHne7gB4ep7kAHh73vIAeHy4TgB4fuLwAHh/uFEAeIDe8AB4gfnWAHiD3u0AeITe6AB4hd7qAHiG3usAeIfe5AB4iJTDAHiJuE0AeIy4TAB4jZTCAHiOuEgAeI/e5wB4kbhPAHiTuFAAeJTe5gB4ld7pAHiW3vEAeJe4SgB4mLhLAHiZ3u8AeJre5QB4nuLyAHifutAAeKDi9AB4od7sAHii4vYAeKO61AB4pOL3AHil4vMAeKe60QB4qOLvAHiputMAeKri7AB4q+LxAHis4vUAeK3i7gB4r/7hAHiwuEkAeLH+6QB4suLrAHizutIAeLTi7QB4tpbkAHi4iawAeLmW2wB4ur1UAHi75sEAeLy9WAB4vr1WAHjBus8AeMPmyAB4xObJAHjFvVMAeMf+4gB4yObHAHjJ5soAeMq9VQB4y71SAHjM5sMAeM3mwAB4zubFAHjP5sIAeNC9WQB40ebEAHjSlMQAeNP+4wB41ObGAHjVvVcAeNf+5wB42J/7AHjav2oAeNvqqAB43eqiAHje6qYAeN/qrAB44OqtAHjh6qkAeOLqqgB44+qnAHjkjFkAeOXqpAB4579sAHjov2kAeOnqowB46uqlAHjsv2sAeO3qqwB47pPJAHjvwUYAePCU6AB48ftWAHjy7aoAePPtpQB49MFFAHj1kMUAePfBQwB4+e2sAHj6wUQAePvtqAB4/O2pAHj97aYAeP7trQB4//BWAHkBwUcAeQLtpwB5BO2uAHkF7asAeQagqAB5CfBaAHkM8FcAeQ7CpgB5EPBbAHkR8F0AeRLwXAB5E/BYAHkU8FkAeRfyowB5GcOqAHkb8n4AeRzyogB5HfJ9AHke8qQAeSHyoQB5I/R6AHkk9H0AeSX0eQB5JsRxAHkn9HsAeSj0fAB5KfR+AHkqxHIAeSvEdAB5LMRzAHkt9eEAeS7+5QB5L/XjAHkx9eIAeTKY/QB5M5j7AHk0/ugAeTX29gB5No6/AHk4+LUAeTn4+gB5OqXcAHk7i9gAeTz+9wB5PctyAHk+qsAAeT/NowB5QKrBAHlBqsIAeULNogB5RM/4AHlFz/cAeUas5gB5R6zpAHlIrOgAeUms5wB5Ss/0AHlLz/YAeUzP9QB5T9LoAHlQr6cAeVHS7AB5UtLrAHlT0uoAeVTS5gB5Va+mAHlWr6oAeVevrQB5WI9oAHlZlMYAeVqvrgB5W9LnAHlc0ukAeV2vrAB5Xq+rAHlfr6kAeWCvqAB5YdbCAHlineoAeWPWwAB5ZNa8AHllsrsAeWfWvQB5aLK8AHlp1r4AeWrWvwB5a9bBAHltsr0AeXDa1QB5cfxpAHly2tQAeXPa0wB5dNrSAHl53vYAeXq4UgB5fN7zAHl93vUAeX6c2gB5f7hTAHmA/vMAeYG4VAB5gt70AHmDnHIAeYb+8AB5h4nJAHmI40EAeYri+QB5i+L6AHmNutcAeY661QB5j7rWAHmQ40MAeZGZQQB5kuNCAHmT4v4AeZTi/QB5leL8AHmW4vsAeZfjQAB5mOL4AHmZmUIAeZrmywB5m+bQAHmc5s4AeZ3+9QB5n5HXAHmg5s0AeaHmzAB5oubPAHmk6q4AeaWUzAB5pr9tAHmnwUgAeajtsAB5qf74AHmqwUkAeavtrwB5rPBfAHmt8F4Aea7CpwB5sPKlAHmxw6sAebL0oQB5s8WhAHm09vcAebb4twB5t/i2AHm4yagAebms6gB5uqzrAHm71sMAeb24VgB5vqXdAHm/qHIAecCocQB5wahwAHnEl6gAecXNpAB5xv78AHnIqsQAecmqwwB5yozeAHnLrO4Aecz9vwB5zc/6AHnOz/0Aec/P+wB50IezAHnRrOwAedKs7QB51P7+AHnVz/kAedbP/AB52K+1AHnc0vMAed3S9QB53tL0AHnfr7IAeeDS7wB54pbRAHnjr7AAeeSvrwB55q+zAHnnr7EAeemvtAB56tLyAHnr0u0AeezS7gB57dLxAHnu0vAAefGU1QB59JTQAHn21sYAeffWxwB5+NbFAHn61sQAefuyvgB6ALV9AHoC2tYAegPa2AB6BNraAHoFtXwAegaZRAB6CLV6AHoK2tcAegu1ewB6DNrZAHoNtXkAehDfQQB6Ed73AHoS3voAehPe/gB6FLhaAHoV3vwAehfe+wB6GN74AHoZ3vkAehq4WAB6G99AAHocuFcAeh64XAB6H7hbAHoguFkAeiLe/QB6JuNJAHoo40gAeiqMYwB6K+NEAHosh7sAei2gswB6LrrYAHov40cAejDjRgB6MbrZAHoyh7QAeje9XgB6OebSAHo6lM8Aeju9XwB6PL1bAHo9vV0Aej6f+gB6P71aAHpAvVwAekOR5QB6ROqvAHpFnGoAeka/cAB6R+qxAHpI6rAAekmOSQB6SuNFAHpLv3IAeky/cQB6Tb9uAHpOv28AelTttQB6Vu2zAHpXwUoAeljttAB6Wu22AHpb7bIAelztsQB6X/BgAHpgwqoAemHCqAB6YsKpAHpljkwAemfypgB6aPKnAHppw60AemvDrAB6bPSjAHpt9KQAem70ogB6cPb4AHpx9vkAenKHyQB6dKXeAHp1ykgAenaocwB6eM2lAHp5qsYAenqqxQB6e82mAHp9jk0Aen7QQAB6f6zvAHqAz/4AeoGs8AB6g5pzAHqEr7YAeoXS+AB6htL2AHqH0vwAeoivtwB6idL3AHqK0vsAeovS+QB6jNL6AHqP1sgAepDWygB6kZlHAHqSsr8AepOMsQB6lNbJAHqVssAAepa1ogB6l7WhAHqYtX4Aepna2wB6nt9EAHqfuF0AeqC4XgB6ot9DAHqj30IAeqjjSgB6qbrbAHqqutoAeqvjSwB6rONMAHquvWEAeq+9YAB6sI5QAHqx6rUAerLm0wB6s+bVAHq05tQAerXqtAB6tuqyAHq36rYAerjqswB6ur9zAHq7jk8AeryZSQB6vu23AHq/wUsAesDtuAB6we25AHrCjlEAesOOUgB6xMKrAHrFwqwAesfEdQB6yJqyAHrJiaUAesrF0QB6y6XfAHrPmUwAetHQQQB605/4AHrY0v0AetmvuAB62o5WAHrbmU0AetyRygB63Y5XAHrfs7oAeuCzuQB64pThAHrjtaQAeuTa3QB65bWjAHrm2twAeueQRwB66Y/YAHrqjlgAeuvfRQB67brcAHru400Aeu+63QB69sR2AHr39KUAevmmywB6+qrHAHr7zacAevyHowB6/azyAHr+lOsAev+s8QB7ANBCAHsB0EMAewTTQAB7BdNCAHsGr7kAewjTRAB7CdNHAHsK00UAewuOXAB7DJVTAHsO00YAew/TQwB7ENL+AHsRr7oAexLTSAB7E9NBAHsUn+UAexjW0wB7GbLGAHsa1twAexuywwB7HdbVAHsesscAex+fVgB7ILLBAHsi1tAAeyPW3QB7JNbRAHsl1s4AeyayxQB7J5VPAHsossIAeymOXgB7KtbUAHsr1tcAeyyyxAB7LdbYAHsussgAey/W2QB7MNbPAHsx1tYAezLW2gB7M9bSAHs01s0AezXWywB7ONbbAHs5mWoAezva3wB7QNrkAHtCnGQAe0Oc2QB7RNrgAHtF2uYAe0a1pwB7R9bMAHtI2uEAe0m1pQB7StreAHtLtawAe0za4gB7TbWrAHtO2uMAe0+1rQB7ULWoAHtRta4Ae1K1qQB7VLWqAHtVjl0Ae1a1pgB7WNrlAHtguGEAe2HfUAB7YplQAHtj31MAe2TfRwB7Zd9MAHtm30YAe2e4YwB7ad9KAHtsmVEAe23fSAB7brhiAHtvjmIAe3DfTwB7cd9OAHty30sAe3PfTQB7dN9JAHt1uuEAe3bfUgB7d7hfAHt431EAe3uZUgB7guNdAHuEuugAe4XjWAB7h7rnAHuI404Ae4rjUAB7i7rgAHuM41UAe43jVAB7juNXAHuPuuUAe5DjUgB7keNRAHuSjmgAe5S65AB7lbrfAHuW41MAe5e64gB7mONZAHuZ41sAe5vjVgB7nONPAHuduuMAe6C9aQB7obreAHuijmEAe6OfWQB7pONcAHus5tkAe629YgB7rofQAHuv5tsAe7G9YwB7souzAHu0vWUAe7Xm3gB7t+bWAHu4uuYAe7nm3AB7vubYAHvAuGAAe8G9aAB7xL1kAHvFh7kAe8a9ZgB7x71nAHvJv3YAe8rm3QB7y+bXAHvMvWoAe87m2gB7z59dAHvQjmYAe9TqwAB71eq7AHvY6sUAe9m/dAB72uq9AHvbv3gAe9zqwwB73eq6AHve6rcAe9/qxgB74MFRAHvhv3kAe+LqwgB74+q4AHvkv3cAe+XqvAB75r97AHvn6rkAe+jqvgB76b96AHvq6sEAe+vqxAB77IyyAHvw7csAe/HtzAB78u28AHvz7cMAe/TtwQB798FPAHv47cgAe/nqvwB7+o5uAHv77b8Ae/yfZAB7/e3JAHv+wU4Ae//tvgB8AO29AHwB7ccAfALtxAB8A+3GAHwF7boAfAbtygB8B8FMAHwJ7cUAfArtzgB8C+3CAHwMwVAAfA3BTQB8Du3AAHwP7bsAfBDtzQB8Eb91AHwSmVMAfBX6uAB8GfBjAHwbmVQAfBzwYQB8HfBnAHwewrAAfB/wZQB8IPBkAHwhwrIAfCLwagB8I8KxAHwl8GsAfCbwaAB8J8KuAHwo8GkAfCnwYgB8KsKvAHwrwq0AfCzyqwB8LfBmAHww8GwAfDPyqAB8NY5wAHw3w7IAfDjDsAB8OfKqAHw78qwAfDzyqQB8PcOxAHw+w64AfD/DrwB8QMOzAHxCn2EAfEPEeAB8RI5yAHxF9KoAfEf0qQB8SPSnAHxJ9KYAfEr0qAB8TMR3AHxNxHkAfFDE8AB8UaBrAHxT9eUAfFT15AB8Vp9AAHxX9voAfFn2/AB8Wvb+AHxb9v0AfFz2+wB8XZTtAHxfxaMAfGDFogB8Y8XTAHxkxdIAfGXF1AB8ZvftAHxn9+wAfGn4+wB8avi4AHxr+PwAfGzGWAB8bZTuAHxuxlkAfG/5bQB8cJ+9AHxyxn4AfHOmzAB8dI57AHx1zagAfHjQRQB8edBGAHx60EQAfHuZVwB8fJT3AHx9rPMAfH6fXwB8f9BHAHyA0EgAfIHQSQB8g45zAHyE00kAfIXTTwB8hp9iAHyI000AfImvuwB8itNLAHyM00wAfI3TTgB8jpT2AHyR00oAfJKyyQB8lNbeAHyVsssAfJbW4AB8l7LKAHyY1t8AfJyZWAB8ntroAHyfta8AfKHa6gB8otrnAHyj1uEAfKW1sAB8po51AHyn+dsAfKja6QB8rJByAHyulPgAfK/fVgB8sbhkAHyy31QAfLO4ZQB8tN9VAHy1uGYAfLiZWgB8ubrpAHy642EAfLvjXgB8vONgAHy9uuoAfL666wB8v+NfAHzCoLAAfMOMswB8xebfAHzHjnkAfMjm4AB8yY54AHzKvWsAfMvm4gB8zObhAHzNlPMAfM6iYQB80OrKAHzR6ssAfNLqxwB805ivAHzU6sgAfNW/fAB81r99AHzX6skAfNnBVwB82qCyAHzcwVMAfN3BWAB83sFUAHzfwVYAfODBUgB84sFVAHzmjnoAfOfCswB86O3PAHzq8q4AfOzyrQB87ZlcAHzu9KsAfO/EegB88MR7AHzx90EAfPL15gB88458AHz090AAfPWOfQB89vj9AHz3+aQAfPimzQB8+YvZAHz7qHQAfPyJogB8/c2pAHz+qsgAfQCs9gB9AdBMAH0CrPQAfQPQSgB9BKz5AH0FrPUAfQas+gB9B6z4AH0I0EsAfQms9wB9Cq+/AH0Lr74AfQzTWgB9Da/HAH0O01MAfQ/TWQB9EK/DAH0R01IAfRLTWAB9E9NWAH0Ur8IAfRWvxAB9FtNVAH0Xr70AfRjTVAB9Ga/IAH0ar8UAfRuvyQB9HK/GAH0d01EAfR7TUAB9H9NXAH0gr8AAfSGvvAB9Iq/BAH0lntcAfSjW8AB9KdbpAH0rtbUAfSzW6AB9LrLPAH0vstYAfTCy0wB9MbLZAH0ystgAfTOy1AB9NdbiAH021uUAfTjW5AB9ObLQAH061uYAfTvW7wB9PLLRAH091uMAfT7W7AB9P9btAH1AstIAfUHW6gB9QrLXAH1Dss0AfUSy1QB9RdbnAH1GsswAfUfW6wB9StbuAH1NoLYAfU7a+wB9T9ryAH1QtbIAfVHa+QB9Utr2AH1T2u4AfVTa9wB9VbW0AH1W2u8AfVja6wB9Wp5CAH1buGwAfVza9AB9XY6kAH1etbEAfV/a+gB9YbW4AH1itboAfWPa7QB9ZrW5AH1n2vAAfWi1swB9adr4AH1q2vEAfWva9QB9bdrzAH1utbYAfW/a7AB9cLW7AH1xss4AfXK1twB9c7W8AH15uGgAfXrfXQB9e99fAH1832EAfX3fZQB9f99bAH2A31kAfYG4agB9g99gAH2E32QAfYXfXAB9ht9YAH2I31cAfYmOpwB9i4x2AH2M32IAfY3fWgB9jt9eAH2PuGsAfZG4aQB9kt9mAH2TuGcAfZTfYwB9lYdnAH2W43IAfZeVQgB9nLruAH2d42oAfZ69eAB9n+N0AH2guvEAfaHjeAB9orr3AH2j42UAfaSYfQB9puN1AH2n42IAfaiXVQB9qeN3AH2q42YAfauOqAB9rLr+AH2tuvsAfa7jdgB9r+NwAH2wuu0AfbG69QB9srr0AH2zjqoAfbS68wB9tbr5AH2342MAfbi6+gB9ueNxAH26uvYAfbu67AB9vONzAH29uu8Afb668AB9v7r4AH3A42gAfcHjZwB9wuNkAH3E42wAfcXjaQB9xuNtAH3Huv0AfcnjeQB9yrryAH3L424AfczjbwB9zYmjAH3O42sAfc+ZYAB90JliAH3SuvwAfdOU/AB91JlhAH3X5ucAfdi9cAB92b15AH3avXUAfdvm5AB93JT6AH3dvXIAfd69dgB93+bwAH3gvWwAfeHm6AB94710AH3kjq4AfeWOsgB95ubrAH3n5uYAfei9cwB96b13AH3q5uUAfey9cQB97ubvAH3vvW4AffDm7gB98ebtAH3yvXoAffPlcgB99L1tAH31jrAAffbm7AB99+bjAH35vXsAffrm6gB9+71vAH39mWMAff6XqgB+A+bpAH4HlPsAfgi/ogB+Cb+nAH4Kv34Afgvq2AB+DOrPAH4N6tsAfg7q0wB+D+rZAH4Qv6gAfhG/oQB+EurMAH4T6tIAfhTq3AB+FerVAH4W6toAfhfqzgB+GurWAH4bv6MAfhzq1AB+Hb+mAH4ev6UAfh/q0AB+IOrRAH4h6s0AfiLq1wB+I7+kAH4k6t4AfiXq3QB+J467AH4p7doAfirt1gB+K8FfAH4t7dAAfi7BWQB+L8FpAH4w7dwAfjHBYQB+MsFdAH4z7dMAfjTBZAB+NcFnAH427d4AfjfBXAB+OO3VAH45wWUAfjrt4AB+O+3dAH487dEAfj3BYAB+PsFaAH4/wWgAfkDt2AB+QcFjAH5C7dIAfkPBXgB+RO3fAH5FwWIAfkbBWwB+R+3ZAH5IwWYAfknt1wB+TO3bAH5Q8G4AflHwdAB+UsK5AH5T8HcAflTCtAB+VcK1AH5W8G8AflfwdgB+WPBxAH5ZwroAflrCtwB+W4zcAH5c8G0Afl7CtgB+X/BzAH5g8HUAfmHCuAB+YvByAH5j8HAAfmWYdgB+Z46hAH5o8rgAfmnDtwB+asO4AH5rw7QAfmyMtAB+bcO1AH5ujrcAfm/ytAB+cPKyAH5y8rYAfnPDugB+dPK3AH518rAAfnbyrwB+d/KzAH548rEAfnnDtgB+evK1AH579KwAfnzEfgB+fcR9AH5+9K0Afn+dpgB+gPSvAH6B9K4AfoLEoQB+hvXrAH6H9egAfoj16QB+ivXnAH6L9eoAfozE8gB+jfXsAH6OnrAAfo/E8QB+kfdCAH6SjrgAfpPF1QB+lMXXAH6V9+4AfpbF1gB+l/i5AH6Y+UAAfpn5QgB+mvj+AH6b+UEAfpzGbAB+n51wAH6kiW4AfqyJbwB+uolwAH7HiXEAfs+JcgB+34lzAH8GiXQAfzamzgB/N4l1AH84rPsAfznSbwB/Oq/KAH89stoAfz7a/AB/P9r9AH9AjrwAf0GOvQB/Q+rfAH9EwWoAf0Xt4QB/R46+AH9IwrsAf0md0QB/SvK6AH9L8rkAf0zEogB/TfXtAH9OlP0Af0/3QwB/UMX4AH9RykkAf1KL1wB/U4vaAH9UqskAf1WodQB/WNBNAH9b02AAf1zTWwB/XdNfAH9e010Af1+vywB/YNNeAH9h01wAf2PW8QB/Zdr+AH9m20AAf2ffaQB/aN9qAH9puG4Af2q4bwB/a99oAH9s32sAf23fZwB/brhtAH9wu0AAf3Gg4gB/crhwAH9z43oAf3W9fAB/dubxAH93vX0Af3if6QB/eb+pAH966uIAf3vq4AB/fOrhAH997eQAf37t4wB/f+3iAH+D8rsAf4XDuQB/hvK8AH+H90QAf4jF+QB/ifi6AH+Kps8Af4uqywB/jKrKAH+N0E8Af46s/AB/j/2oAH+R0E4Af5LTYgB/k4rnAH+Ur8wAf5XW8gB/ltNhAH+XjsIAf5qy3AB/m9b1AH+c1vMAf53W9AB/nrLbAH+g20IAf6HbQwB/ottBAH+jjsQAf6S4cwB/pd9tAH+m32wAf6ffbgB/qLhyAH+puHEAf6zm8gB/reb0AH+umWQAf6+9fgB/sObzAH+x6uMAf7K/qgB/s/B5AH+0mWUAf7XweAB/tsO7AH+38r0Af7jDvQB/ucO8AH+69LAAf7v17gB/vMTzAH+9ptAAf77QUAB/v6z9AH/A02UAf8GvzgB/wtNkAH/D02MAf8WvzQB/x9b7AH/J1v0Af8rW9gB/y9b3AH/Mst0Af83W+AB/zrLeAH/P1vwAf9DW+QB/0db6AH/Sst8Af9S1vgB/1bW/AH/X20QAf9vfbwB/3N9wAH/dlU4Af97jfgB/37tDAH/gu0EAf+G7QgB/4uN7AH/j43wAf+XjfQB/5ub5AH/nmLMAf+jm+gB/6b2hAH/q5vcAf+vm9gB/7Ob4AH/t5vUAf+6/rQB/7+rkAH/wv6sAf/G/rAB/8u3mAH/zwWsAf/Tt5QB/9e+oAH/38HoAf/jwewB/+cK8AH/6jssAf/vCvQB//MFsAH/98r4Af/7yvwB///SxAIAAxKMAgAGm0QCAAovfAIADptIAgASs/gCABarMAIAGr88AgAfQUQCACI7OAIALtcAAgAym0wCADa1BAIAO0FIAgA/QUwCAEK1AAIARrUIAgBKm1ACAFNBUAIAVr9EAgBbTZgCAF6/TAIAYr9AAgBmv0gCAG9dBAIAcsuAAgB2OzwCAHtdAAIAf1v4AgCCZaACAId9xAIAk46EAgCWZaQCAJr2iAIAov64AgCnq5gCAKurlAIAs7ecAgC6ZawCAL47RAIAw9e8AgDGZbACAM6bVAIA0y3MAgDXNqgCANq1DAIA30FUAgDnTaACAO47UAIA8jtUAgD2v1ACAPtNnAIA/r9UAgEPXQwCARrLiAIBH10IAgEjXRACASrLhAIBP20YAgFDbRwCAUdtFAIBStcEAgFSZbQCAVrh0AIBYuHUAgFq7RQCAW6C+AIBc46MAgF3jogCAXrtEAIBhjtYAgGKgvACAY6C1AIBk5vsAgGagtACAZ+b8AIBs6ucAgG/BcACAcMFvAIBxwW0AgHLBbgCAc8FxAIB18HwAgHbCvwCAd8K+AIB48sAAgHn0sgCAfcWlAIB+xaQAgH+m1gCAgIvgAICC0fsAgIS4dwCAhbXCAICGuHYAgIe7RgCAiabXAICKyakAgIum2ACAjKbZAICPzasAgJDLdgCAkst3AICTqHcAgJXLdACAlqh2AICYqHkAgJnLdQCAmqh7AICbqHoAgJzLeACAnah4AICfibUAgKGq0QCAoqrPAICjza0AgKWqzgCAp47dAICpqtMAgKqq1QCAq6rSAICtzbAAgK7NrACAr6rWAICxqtAAgLKofACAtKrUAIC1za8AgLaeXQCAt5lxAIC4za4AgLqqzQCAvImuAIC9negAgMLQWwCAw61HAIDErUgAgMXQXQCAxpVlAIDH0FcAgMjQWgCAydBjAIDK0GEAgMytSQCAzdBnAIDOrUwAgM/QZACA0NBcAIDR0FkAgNTbSQCA1dBiAIDWrUQAgNfQZQCA2NBWAIDZ0F8AgNqtRgCA261LAIDc0GAAgN2tTwCA3q1NAIDg0FgAgOGtSgCA49BeAIDkrU4AgOWtRQCA5tBmAIDpmXIAgOyLXACA7a/aAIDvr+MAgPCv2ACA8a/WAIDy02oAgPOv3gCA9K/bAID102wAgPaJsQCA+K/dAID502sAgPrTaQCA+9NuAID8r+IAgP2v4ACA/ttIAIEA028AgQHTbQCBAq/XAIEDoMAAgQWv2QCBBq/cAIEHjt8AgQiv3wCBCZVmAIEKr+EAgQyZdACBDpl2AIESmXcAgRSZeQCBFddOAIEWsuQAgRed2gCBGNdFAIEZ10cAgRqO4ACBG9dIAIEd11AAgR7XTACBH9dKAIEh100AgSLXUQCBI7LlAIEksukAgSXXRgCBJ9dPAIEpsucAgSqTXACBK7LmAIEs10sAgS3XSQCBL7LjAIEwsugAgTKd5gCBNItfAIE3lWMAgTm1yACBOttRAIE9208AgT61ygCBQpVnAIFD20oAgUTfoQCBRrXJAIFH204AgUid4wCBSttLAIFLtcUAgUy1ywCBTdtQAIFOtccAgU/bTQCBULtHAIFRtcYAgVLbTACBU7XMAIFUtcQAgVW1wwCBVpl8AIFZmX0AgVqZfgCBW993AIFc33UAgV7fewCBYN9zAIFh36IAgWLfeACBZN9yAIFluHsAgWa4owCBZ999AIFp33YAgWu4fgCBbIz7AIFti1sAgW64fACBb99+AIFwuHkAgXG4eACBct95AIFzuH0AgXS1zQCBdt98AIF333QAgXi4egCBebihAIF6uKIAgXyZowCBf7tMAIGAu0gAgYK7TQCBg+OmAIGEmaQAgYbjpQCBh+OnAIGIu0oAgYnjpACBirtLAIGL46oAgYzjqQCBjeOoAIGPu0kAgZOZpgCBledBAIGX50QAgZi9qACBmedDAIGavacAgZu9owCBnL2kAIGdvaUAgZ7nQACBn+b+AIGgvaYAgaLnQgCBo+b9AIGlmagAgabq6QCBp+rzAIGov7EAgam/sACBqoq+AIGr6u0Agazq7wCBrurqAIGw6u4AgbHq6ACBsurxAIGzv68AgbTq8ACBtersAIG2nmEAgbfq8gCBuerrAIG6wXQAgbvt6ACBvO3uAIG9wXgAgb7BegCBv8F3AIHAwXYAgcGZqgCBwsF1AIHDwXMAgcTt6QCBxe3sAIHGwXIAgcft7QCByKDIAIHJwXkAgcrt6wCBzO3qAIHNwsAAgc/CwQCB0PChAIHR8H0AgdLwfgCB1fLCAIHX8sEAgdjDvgCB2fS0AIHaxKQAgdv0swCB3fXwAIHe90UAgd/FpgCB4PlDAIHh+UQAgeLF2ACB46baAIHkmasAgeWq1wCB5ttSAIHnu04AgejBewCB6e3vAIHqptsAgeyv5QCB7a/kAIHu21MAge/+xACB8ur0AIHzptwAgfStUACB9pjCAIH321QAgfjbVQCB+dtWAIH6u08Agfu/sgCB/KbdAIH+qtgAgf/QaACCAK/mAIIB03AAggKy6gCCBNtXAIIFuKQAgge7UACCCL+zAIIJwXwAggrCwgCCC/S1AIIMpt4Agg2q2QCCEK/nAIIR11IAghK1zgCCFLtRAIIV46sAghbnRQCCGI7oAIIaoLoAghum3wCCHLXPAIId36MAgh67UgCCH6bgAIIgzbEAgiHQaQCCIq1RAIIl03IAgib9dwCCKK/qAIIpju4Agiqv6ACCK6/pAIIsr+sAgi2evwCCL9NxAIIy11cAgjPXVACCNNdWAII1susAgjay7QCCN7LsAII411MAgjmy7gCCOtdVAII821gAgj3bWQCCPonCAII/21oAgkDfpgCCQt+nAIJE36UAgkXfqACCR7ilAIJJ36QAgku7UwCCTudKAIJP50YAglDnSQCCUedLAIJS50gAglPnRwCCVJmsAIJV6vUAglbq9gCCV+r3AIJYv7QAglm/tQCCWu3xAIJb7fAAglzt8gCCXvCjAIJf8KIAgmHyxACCYpVrAIJj8sUAgmTywwCCZZVsAIJmxKUAgmj0tgCCafS3AIJr90YAgmz37wCCbfi7AIJupuEAgm+ofQCCccF9AIJypuIAgnTXWACCddtbAIJ2ma8AgnfGQQCCeMpKAIJ5mUoAgnqJdgCCe49IAIJ8yksAgn3KTQCCfqbjAIJ/yk4AgoDKTACCg8uiAIKEy6MAgoXLewCCh/vuAIKKy6EAgouooQCCjaiiAIKOy3wAgo/LegCCkMt5AIKRy30AgpKofgCCk8t+AIKU0GoAgpjNtgCCmarcAIKazbUAgpvNtwCCnarbAIKezbwAgp+q3wCCoM2yAIKhzcAAgqLNxgCCo6rmAIKkzcMAgqWq4wCCppmuAIKnzbkAgqjNvwCCqc3BAIKqjvsAgqvNtACCrKriAIKtqt0Agq7NugCCr6rkAIKwqucAgrGq4QCCs6raAIK0zb4AgrXNuACCts3FAIK3qukAgriq5QCCuargAIK6zb0Agruv7ACCvM27AIK9qt4Agr6q6ACCv4zQAILAzbMAgsLNwgCCw83EAILEi1IAgsqZsACCz4l3AILQj0EAgtGtYgCC0q1cAILTrWQAgtStYQCC1dBxAILW0HQAgtetXQCC2JmxAILZ0GsAgtutVgCC3K1gAILerWMAgt+tZQCC4NCiAILh0HcAguKPSQCC461VAILk0KEAguWtWQCC5q1XAILnrVIAgujQbwCC6tB+AILr0HMAguzQdgCC7dClAILu+k0Agu+tZgCC8NB9AILxrV4AgvLQeACC89CkAIL00HUAgvXQeQCC9tB8AIL3neQAgviMtQCC+dBtAIL60KMAgvvQewCC/PvpAIL9m1QAgv7QbACC/5myAIMA0HAAgwGtXwCDAq1aAIMDrVMAgwStWACDBa1UAIMGrWcAgwfQbgCDCNOlAIMJrVsAgwueaACDDNB6AIMNzkEAgxbTqACDF6/6AIMYj0oAgxnTdgCDGo9CAIMb06MAgxzTfQCDHY9RAIMe07IAgyDTqgCDItN+AIMk06kAgyXTeACDJtN8AIMn07UAgyiv/QCDKdOtAIMq06QAgyuv7QCDLNOzAIMt03QAgy/TrACDMa/8AIMyr/cAgzPTcwCDNK/1AIM1r/QAgzav+QCDN9OrAIM4r/EAgzmv+ACDOtByAIM721wAgzzTpgCDPZhGAIM/03oAg0Cv+wCDQdN7AINC06EAg0Ov/gCDRNN1AINF068Ag0fTrgCDSNO2AINJr/MAg0qv8ACDS9O0AINM07AAg03TpwCDTtOiAINPr/YAg1Cv8gCDUdN3AINSr+4Ag1PTsQCDVK/vAINW03kAg1eZtACDYo71AINj/VUAg2aczQCDb4l4AINz114Ag3TXYACDdddlAIN213kAg3ey/ACDeLLyAIN6110Ag3uy/QCDfLL+AIN912gAg37XbwCDf9d1AIOB12IAg4PXaQCDhY9TAIOGs0AAg4fXdwCDiNdyAIOJsvoAg4qy+ACDi9duAIOM12oAg43XXACDjrLvAIOP12EAg5DXWQCDkY9vAIOSsvcAg5Oy+QCDlNdmAIOV12MAg5ay9ACDl9dzAIOYsvEAg5nXZACDmtd6AIOb12wAg5yOYwCDnddrAIOesvAAg6Cy+wCDorLzAIOj11oAg6TXXwCDpddwAIOm13YAg6ezQQCDqNdbAIOp12cAg6rXbQCDq7L2AIOsj1YAg67XeACDr9dxAIOw13QAg7n+dgCDvbL1AIO+n8YAg7/bbACDwNtgAIPBtdcAg8LbfQCDw9unAIPE26oAg8W11QCDxttoAIPH26MAg8jbaQCDydt3AIPKteIAg8vbcwCDzLXfAIPN+qwAg87bdACDz9tdAIPR26QAg9OPWACD1LXoAIPV26EAg9bbdQCD19usAIPY23AAg9nfyACD29uvAIPcteYAg93bbgCD3tt6AIPftekAg+C11ACD4dtyAIPi260Ag+PbawCD5NtkAIPl228Ag+fbYwCD6NthAIPptdAAg+rbpQCD69tqAIPs26gAg+2YSACD7tupAIPvtdgAg/C13QCD8bXZAIPyteEAg/PbfgCD9LXaAIP123YAg/bbZgCD+LXSAIP5214Ag/rbogCD+9urAIP822UAg/214ACD/tuwAIP/23EAhAHbbQCEA7XRAIQEteUAhAWZtwCEBtt8AIQHtecAhAnbeACECrXcAIQLtdYAhAy13gCEDbXTAIQOteQAhA/beQCEENtnAIQR23sAhBLbYgCEE9umAIQUlmUAhBb6bACEGJ3nAIQb264AhByeYgCEIJbMAIQhjmcAhCPbXwCEJPx1AIQmmH4AhCnfxwCEK9/dAIQsuFUAhC3fzACELv25AIQv38oAhDDftQCEMbipAIQy38UAhDPf2QCENN/BAIQ1uLEAhDbf2ACEN9+/AIQ4teMAhDnfzwCEOt/AAIQ739YAhDy4sACEPbioAIQ+l/wAhD/fqgCEQN+yAIRC38sAhEPfwwCERN/cAIRF38YAhEa4tgCER9/XAIRImPkAhEm4rQCESo9mAIRL38kAhEzf0QCETd+2AIRO39AAhFDf4QCEUd+xAIRS39IAhFOVbgCEVN/fAIRVkkUAhFbfqwCEV7XbAIRYj2AAhFnfuQCEWt+4AIRbuK8AhFye0QCEXd+8AIRe374AhF/fzQCEYN/eAIRhuLIAhGL+zQCEY7izAIRkmbkAhGXfsACEZrirAIRn37QAhGjf2gCEabi0AIRruKwAhGy4rgCEbbi1AIRu3+AAhG/f0wCEcN/OAIRxj2IAhHKXTACEc9+7AIR037oAhHW4qgCEdt+sAIR3uKcAhHjfxACEed+tAIR638IAhH3ftwCEft/bAIR/kccAhICVXwCEgrimAISEh6sAhIbfswCEiJm7AISN368AhI7f1QCEj9+uAISQu2AAhJHj0wCEko5tAISTj3EAhJTjwgCElpTLAISX46wAhJjjygCEmbtYAISa47sAhJvjxQCEnLtbAISd474AhJ67WQCEn+OvAISg480AhKHjrgCEouPBAISjlbEAhKTjrQCEp+O/AISo48gAhKnjxgCEquO6AISr47UAhKzjswCErZryAISu47QAhK/jxwCEsOPSAISx47wAhLK7WgCEtOO3AIS248sAhLi7XQCEueO2AIS647AAhLvjwACEvLthAIS9lsMAhL6ZvQCEv7tVAITAu14AhMHjuACEwuOyAITEu1cAhMXf1ACExrtWAITH48MAhMm7VACEyrtjAITLu1wAhMzjxACEzeO5AITO47EAhM/jzACE0OO9AITRu2IAhNLj0ACE07tfAITU488AhNbjyQCE1+POAITaoM8AhNvj0QCE3o9tAIThmb4AhOKO9ACE5I9yAITlleQAhOfncwCE6Od0AITp52cAhOrnZgCE6+diAITsvbQAhO69rACE7+d2AITw53UAhPHfqQCE8udfAITz52MAhPTnXQCE9udwAIT352EAhPiZvwCE+ed3AIT651oAhPvnWACE/OdkAIT9524AhP7naQCE/722AIUA508AhQLnbQCFA5JCAIUEh9cAhQX7pQCFBr23AIUH370AhQjnWwCFCedSAIUK51UAhQvnewCFDOdcAIUN51MAhQ7nUQCFD+dOAIUQmcAAhRG9sACFEudlAIUTva8AhRS9swCFFedgAIUW52gAhRe9qQCFGOd4AIUZ53wAhRq9qwCFHOdXAIUd52sAhR7nbwCFH+dUAIUg53kAhSG9sgCFI72xAIUk50wAhSW9tQCFJudyAIUn51YAhSjnagCFKedQAIUq514AhSvnWQCFLL2tAIUtva4AhS7nbACFL+d9AIUw53oAhTHncQCFM/20AIU0j3cAhTiZwQCFO+dNAIU9vaoAhT7rSQCFQOtAAIVB60MAhUL6uQCFQ7+7AIVE60UAhUXq+QCFRutBAIVH60cAhUi/uACFSb+8AIVKv7YAhUuPQACFTPpEAIVN6vsAhU7rTACFUetGAIVSmcIAhVPq/ACFVOtVAIVV608AhVbq+ACFV+5GAIVY6v4AhVm/twCFWo9cAIVb60oAhV3rVACFXr+/AIVfjL0AhWDrUQCFYer9AIVi60QAhWPrSACFZOtCAIVl61YAhWbrUwCFZ+tQAIVov7kAhWm/ugCFar++AIVr6voAhWzrVwCFbb+9AIVu600AhW+ZxACFcJnFAIVx60sAhXOPewCFdetOAIV27lMAhXfuQACFeO5FAIV57lIAhXruRACFe+37AIV87kEAhX7BogCFgO30AIWB7k0AhYLuTwCFg+3zAIWEwaEAhYXuUQCFhu5JAIWHwagAhYjuUACFie5CAIWKwaoAhYvt+QCFjOtSAIWN7koAhY7uRwCFj+31AIWQ7lUAhZHBpACFk4d2AIWUwaUAhZXt9wCFlu5IAIWXjLYAhZjuVACFme5LAIWa7f0AhZvBpwCFnMGjAIWd7kwAhZ7t/gCFn+5WAIWg7fgAhaHuQwCFou5OAIWj7foAhaTt/ACFpsLLAIWn7fYAhajBqQCFqcLEAIWqwX4Aha/BpgCFsMLIAIWx8LMAhbPwqQCFtPCkAIW18KoAhbbwtACFt/C4AIW48LcAhbnCygCFusLJAIW98KsAhb7wuQCFv/CuAIXA8KYAhcGPowCFwvCoAIXD8KcAhcTwrQCFxfCyAIXG8KUAhcfwrACFyPCxAIXJwscAhcvwrwCFzcLFAIXO8LAAhc/CwwCF0MLGAIXR8tUAhdLwtQCF1cPCAIXWjM4AhdfyzQCF2PLRAIXZ8skAhdryzACF3PLUAIXdw8AAhd7y2QCF3/LSAIXgmcYAheHyygCF4vLaAIXj8tMAheTDwwCF5cPEAIXm8tcAhejyywCF6cO/AIXqw8EAhevyxgCF7PLOAIXt8sgAhe6WzQCF7/LYAIXw8tYAhfHyxwCF8vLPAIX29L4AhffDxQCF+PLQAIX5xKcAhfrEqQCF+8SmAIX8lscAhf30wwCF/vS7AIX/9LkAhgD0vQCGAfS6AIYCj6UAhgT0vwCGBfTBAIYGxKoAhgfErACGCfTAAIYKxK0AhgvEqwCGDPTCAIYN+rsAhg+MYQCGEJVwAIYRxKgAhhOHrwCGFJNoAIYWj34AhhfE9ACGGPXxAIYZ9fcAhhrE9gCGG/S8AIYc9fYAhh71/QCGH/X0AIYg9fsAhiH1+gCGIvS4AIYj9fUAhiTwtgCGJfX+AIYm9fMAhif1+ACGKI+qAIYp9fwAhir18gCGLPdKAIYtxPUAhi71+QCGL6BQAIYx9/QAhjL3SwCGM/dJAIY090cAhjX3SACGNvdMAIY4xdkAhjn38gCGOvfwAIY79/UAhjz38wCGPvf2AIY/xdoAhkD38QCGQpDTAIZD+LwAhkWVVgCGRvlFAIZH+UYAhkj5RwCGS/nHAIZM+b0Ahk3KTwCGTqrqAIZQrWgAhlLTuACGU9O3AIZUsEAAhlWzQgCGVtd8AIZZ13sAhlu16gCGXLi4AIZeuLcAhl+4uQCGYePUAIZi534AhmPrWACGZOtaAIZl61kAhmfBqwCGaO5XAIZp8LoAhmr5pQCGa6bkAIZsj7gAhm3NyQCGbs3KAIZvzcgAhnDNxwCGcarrAIZymcgAhnPQqQCGdNCnAIZ30KYAhnmtaQCGeq1rAIZ7rWoAhnzQqACGfo+vAIaF08QAhobTwQCGh9O/AIaKsEEAhovTwgCGjLBGAIaN07wAho7TywCGkNPNAIaR070AhpKZyQCGk7BDAIaU084AhpXTyQCGltO7AIaX08AAhpjTygCGmdPGAIaa08MAhpywSACGndPMAIae074AhqCVeQCGodPHAIai07kAhqOwRwCGpLBEAIal08UAhqfTyACGqNO6AIapsEUAhqqwQgCGrZ9JAIavs0wAhrDXpQCGsbNLAIaymcoAhrPXqACGtNerAIa1s0gAhrazRgCGt9d+AIa416kAhrnXpwCGutekAIa716wAhrzXrQCGvdevAIa+17AAhr/XfQCGwLNFAIbB16IAhsLXoQCGw9euAIbEs0cAhsXXowCGxrNJAIbHs0QAhsjXpgCGybNNAIbLs0oAhszXqgCG0LXxAIbR278AhtPbtACG1LXuAIbW3+cAhtfbvQCG2NuxAIbZtewAhtrbtgCG27XvAIbc27oAht3buACG3rXyAIbftesAhuLbsgCG49u1AIbktfAAhubbswCG6Nu+AIbp27wAhurbtwCG69u5AIbs27sAhu217QCG75nLAIb13+gAhvbf7gCG99/kAIb43+oAhvm4ugCG+t/mAIb7uMAAhv64vwCHALi+AIcB3+0AhwK4wQCHA7jCAIcE3+MAhwXf8ACHBrjDAIcHuL0Ahwi4vACHCd/sAIcKuMQAhwvf4gCHDN/lAIcN3+8Ahw7f6wCHEeP0AIcS4+kAhxO4uwCHGLtqAIcZ490Ahxrj8gCHG+PeAIccu2UAhx7j2wCHIOPkAIch49wAhyK7ZwCHI+PWAIck4/EAhyW7aACHJuPuAIcn4+8Ahyjj1wCHKbttAIcq4+YAhyzj4ACHLePnAIcu49oAhzDj8wCHMePrAIcy4+UAhzPj1QCHNLtpAIc14+wAhze7bACHOOPwAIc64+oAhzu7ZgCHPOPoAIc+4+IAhz+7ZACHQOPZAIdB4+EAh0Lj7QCHQ+PfAIdG4+MAh0y9wQCHTd/pAIdO57IAh0/nuwCHUOexAIdR560Ah1LnqgCHU73CAIdU56gAh1W7awCHVuehAIdXvcAAh1jnpwCHWb2/AIda56wAh1vnqQCHXOe5AIdd57QAh17nrgCHX+ezAIdgvbsAh2HnqwCHYue+AIdj56IAh2TnowCHZee6AIdmvbwAh2fnvwCHaL2+AIdp58AAh2rnsACHa+PYAIds57YAh23nrwCHbue4AIdv57UAh3Cd1QCHcY+wAIdz56YAh3S9uQCHdee9AId2vboAh3fnpACHeL29AId562QAh3rntwCHe+e8AId9+noAh4HrYQCHgr24AIeDv8AAh4TrawCHhetnAIeGnl8Ah4frZQCHiOtgAIeJ628Ah4uZzQCHjKDJAIeNv8QAh4/rXACHkOtoAIeR62kAh5LrXwCHk+teAIeU62wAh5brYgCHl+tdAIeY62MAh5rrbgCHm+tbAIec620Ah53ragCHnr/CAIefv8EAh6K/wwCHo+tmAIek8MsAh6Wa2wCHqaDGAIeq7lkAh6vBsQCHrO5dAIet7loAh67uYQCHr+5nAIew7lwAh7GPtACHsu5wAIezwa4Ah7TuagCHte5fAIe27msAh7fuZgCHuO5tAIe57l4Ah7rBswCHu8GyAIe87mAAh73ubgCHvu5YAIe/7mwAh8DBrACHwaDXAIfC7mQAh8PuYwCHxO5oAIfF7lsAh8bBsACHyMG0AIfJ7mIAh8ruaQCHy8G1AIfM7mUAh86gxwCH0cGtAIfSwa8Ah9PwxwCH1PDFAIfWoEMAh9fwzACH2PDJAIfZ8M0Ah9qPtQCH2/C+AIfc8MYAh93w0QCH3u5vAIff8MIAh+DCzwCH4eelAIfi8L0Ah+PwygCH5PDEAIfl8MEAh+bwvACH5/C7AIfo8NAAh+rwwACH6/C/AIfsws0Ah+3wyACH7o+yAIfvwswAh/LCzgCH8/DDAIf08M8Ah/WgYQCH9vLeAIf38t8Ah/nDyQCH+vLcAIf7w8YAh/zy5ACH/sPKAIf/8uYAiADy2wCIAfDOAIgC8ugAiAPy3QCIBJ5eAIgFw8cAiAby4wCICPLlAIgJ8uAAiAry5wCIC/LiAIgM8uEAiA3DyACID4+2AIgQ9MUAiBH0xgCIE/TIAIgUxK4AiBXErwCIFvTJAIgX9McAiBif6ACIGfTEAIgb9kIAiBz2RQCIHfZBAIgfxPoAiCD2QwCIIcT5AIgixPgAiCPE9wCIJPZEAIgl91EAiCb3TwCIJ5yyAIgo904AiCn2QACIKvdQAIgr9kYAiCz3TQCILZV8AIgu9/kAiC/31wCIMPf3AIgxxdsAiDL3+ACIM/f6AIg1+L8AiDbF+gCIN/i+AIg4+L0AiDnF+wCIO8ZaAIg8+W4AiD35pwCIPvmmAIg/+agAiECm5QCIQdCqAIhCn8cAiEPTzwCIRNPQAIhFj7sAiEaPvACISNvAAIhK9kcAiEv4wACITKbmAIhNrWwAiE7QqwCIT4/sAIhS17EAiFOzTgCIVdvCAIhW28EAiFe18wCIWbjFAIha58EAiFu9wwCIXb3EAIhej8AAiGCTagCIYb/FAIhixfwAiGOm5wCIZIvkAIhlnHwAiGfQrACIaKrtAIhp0K4AiGrQrQCIa61tAIht09EAiG6VoQCIb9PYAIhwsEkAiHHT1gCIctPUAIh009sAiHXT0gCIdtPTAIh3sEoAiHmwTgCIfNPcAIh9sE0AiH7T2gCIf9PXAIiA09UAiIGwSwCIgrBMAIiD09kAiIT+7ACIh5WjAIiIs1AAiInXsgCIi7NVAIiM18IAiI2zVACIjtfEAIiPjEUAiJCMuACIkde4AIiSs1IAiJPXwwCIldezAIiWs1MAiJfXvwCImNe7AIiZ170AiJrXtwCIm9e+AIicj8EAiJ2HtwCInrNPAIif17oAiKCgUgCIode5AIii17UAiKTXwACIp9e8AIio17QAiKrXtgCIq7NRAIis18EAiK6Z0ACIsbX2AIiy280AiLSPwwCItY/EAIi228kAiLfbywCIuNvGAIi528UAiLrbwwCIvNvKAIi928wAiL7byACIv5WkAIjA28cAiMG19ACIwrX1AIjFj8YAiMeeYACIydvPAIjKuM0AiMvf8gCIzN/4AIjN3/MAiM7f9ACIz/nYAIjQ3/kAiNK4zwCI1LjHAIjVuM4AiNbf8QCI19vEAIjYuMoAiNm4yACI2t/3AIjb3/YAiNy4yQCI3bjLAIje3/UAiN+4xgCI4bjMAIjmlaUAiOfj9gCI6Lt0AIjr5EIAiOzkQQCI7uP7AIjvu3YAiPDkQACI8eP3AIjy4/gAiPO7bgCI9LtwAIj1nLMAiPbj/QCI9+P1AIj4u3IAiPm7cQCI+uP5AIj74/4AiPzj/ACI/btzAIj+4/oAiP+Z0QCJAP7xAIkB284AiQK7bwCJBefCAIkG58kAiQe9xgCJCefNAIkKvcoAiQvnxQCJDOfDAIkO58wAiRC9xQCJEefLAIkSvccAiRO9yACJFOfEAIkVvckAiRbnygCJF+fGAIkY58cAiRnnyACJGrt1AIke63AAiR/rfACJIb/KAIki63cAiSPreQCJJJnSAIklv8gAiSbrcQCJJ+t1AIkp63gAiSq/xgCJK7/JAIks63sAiS3rcwCJLut0AIkv63oAiTDrcgCJMet2AIkyv8cAiTPucgCJNe5xAIk2wbcAiTfudwCJOMG5AIk7wbYAiTzucwCJPcG6AIk+7nQAiUHudQCJQu54AIlDnMIAiUTBuACJRvDWAIlHmdMAiUnw2QCJS/DTAIlM8NUAiU2VpwCJT/DUAIlQ8NcAiVHw2ACJUu52AIlT8NIAiVSVqQCJVsPNAIlX8uwAiVjy7wCJWfLxAIla8uoAiVvy6wCJXPLuAIld8vAAiV7DzgCJX8PMAIlgw8sAiWHy7QCJYvLpAIlj9MoAiWTEsACJZZWmAIlm9MsAiWn2SQCJasT7AIlr9ksAiWzE/ACJbfZIAIlu9koAiW/FqACJcfdSAIlyxacAiXP3/QCJdPf8AIl29/sAiXecXQCJeflIAIl6+UkAiXv5SwCJfPlKAIl+ylAAiX+m6ACJgJjiAImBrW4AiYLXxQCJg7X3AImF3/oAiYbC0ACJh4/JAImI8vIAiYmgwgCJio/KAImLqKMAiY+zVwCJkZnUAImTs1YAiZSguQCJldvQAImWtfgAiZfb0gCJmNvRAImb3/sAiZy40ACJneRDAIme5EYAiZ/kRQCJoeREAImi584AiaPn0ACJpOfPAImlm1gAiaa/zACJp4/NAImpoNQAiaq/ywCJrMG7AImt7nkAia7uewCJr+56AImywtEAibby9ACJt/LzAIm59MwAibrEsQCJvI/OAIm9xP0Aib73VACJv/dTAInAxlsAicGL5QCJxol5AInSqKQAidPQrwCJ1K1vAInV18gAidbXxgCJ2dfHAIna29QAidvb1QCJ3OBDAInd29MAid/f/ACJ4OBBAInh4EAAieLgQgCJ47jRAInk3/4AieXf/QCJ5uBEAInnj9AAiejkSQCJ6eRHAInr5EgAiezn0wCJ7efRAInw59IAifHrfQCJ8u58AInz7n0AifTC0gCJ9vL1AIn39M0AifjEsgCJ+vZMAIn791UAifzFqQCJ/vf+AIn/+UwAigCopQCKAq1xAIoDrXIAigTQsACKB9CxAIoIrXAAigqwVACKDLBSAIoOsFEAig+wWACKELBQAIoRsFkAihLT3QCKE7BWAIoVsFMAihawVwCKF7BVAIoYsE8AihuzXwCKHJW2AIods1kAih7XzACKH7NeAIois2AAiiOzWgCKJbNbAIon18oAiimZ1gCKKrNYAIorleUAiizXywCKLbNdAIow18kAijGzXACKNLZEAIo2tkYAijiZ1wCKOdvYAIo6tkUAiju1+QCKPLX9AIo9lbUAij645ACKP+BJAIpA29oAikG1/gCKRNvdAIpF294Aika2QwCKSNvgAIpJoMoAikrb4gCKTNvjAIpN29cAik7b1gCKT9vkAIpQtkIAilHb4QCKUtvfAIpUtkAAilW1+wCKVrZHAIpX29sAiljb3ACKWdvZAIpbtkEAil61/ACKYLX6AIph4EgAimK43wCKY7jaAIpmuNUAimef/QCKaLjlAIppuNYAimu40gCKbLjhAIptuN4Aim644ACKcLjXAIpxuNwAinK40wCKc7jUAIp04FAAinXgTQCKduBFAIp34EoAinm44gCKeuBRAIp7uOMAiny42QCKfqBYAIp/4EcAioHgTwCKguBLAIqD4E4AioTgTACKhbjdAIqG4EYAioe42ACKi+RMAIqMu3gAio27ewCKj+ROAIqQj9YAipG7pQCKkuRNAIqTu30AipSZ2ACKlb3PAIqW5E8Aipi7pACKmeRLAIqau6YAipyP0wCKnrt5AIqguNsAiqG7fACKo7t6AIqku34AiqW7ogCKprt3AIqnu6cAiqi7owCKqY/lAIqqu6EAiqvkSgCKr4/pAIqwvdYAirK90gCKtJnZAIq2vdkAirjn1gCKub3aAIq65+IAirvn2wCKvL3LAIq95+MAir7n3QCKv73VAIrA594AisK91ACKw+fhAIrEvc4AisXn3wCKxufVAIrHvc0AisjrqgCKyb3TAIrLvdAAisyM9wCKzb3YAIrP59QAitHn2ACK0r3MAIrT59cAitTn2QCK1efaAIrWvdcAitfn3ACK2OfgAIrZ5+QAitqSfACK273bAIrcv9IAit3rpQCK3uurAIrf66gAiuDrfgCK4eusAIri66EAiuTrpwCK5r/NAIrnv9MAiujrrQCK6pxFAIrrv88Aiu2/2QCK7r/UAIrv668AivDrqQCK8b/QAIry66IAivO/2gCK9OujAIr166QAiva/2wCK97/YAIr4vdEAivmM6ACK+r/OAIr767AAivy/3ACK/r/VAIr/664AiwC/0QCLAb/WAIsCv9cAiwTBwwCLBe6kAIsG7q0AiwfuqgCLCO6sAIsKwcAAiwvupQCLDI/eAIsN7qsAiw7BvACLD+6nAIsQwcQAixHuowCLEu6oAIsT7q8AixTrpgCLFe6pAIsW7qIAixfBvQCLGO6hAIsZwb4AixrusACLG8G/AIsc7q4Aix3BwgCLHu5+AIsfj98AiyDBwQCLIu6mAIsj8NwAiyTw6gCLJfDlAIsm8OcAiyfw2wCLKMLTAIsq8NoAiyvC1gCLLMLVAIstoEsAiy7w6QCLL/DhAIsw8N4AizHw5ACLM/DdAIs18N8Aizbw6ACLN/DmAIs5wtQAizrw7QCLO/DrAIs88OIAiz3w7ACLPvDjAIs/j+IAi0Dy+QCLQcPPAItC80EAi0OgzACLRfZPAItGw9YAi0fw4ACLSPL3AItJw9IAi0ry+ACLS/L9AItMj+MAi02P5ACLTsPUAItPw9UAi1Dy9gCLUfNAAItS80IAi1Py+gCLVPL8AItV8v4Ai1by+wCLV/NDAItYw9EAi1nD1wCLWsPTAItcw9AAi1300ACLXpvEAItfxLcAi2D0zgCLYpv8AItj9NIAi2X00wCLZsS1AItn9NQAi2j00QCLaZZMAItq9M8Ai2vEuACLbMS0AItt9NUAi2/EtgCLcMSzAIt0xP4Ai3fFQACLePZOAIt59k0Ai3r2UACLe/ZRAIt9xUEAi373VgCLf/dbAIuAxaoAi4Ga9gCLgvdYAIuDjK4Ai4T3VwCLhfdaAIuG91kAi4j4QwCLisXcAIuL+EIAi4z4QACLjvhBAIuPh8sAi5CP5wCLksX+AIuTxf0Ai5T4wQCLlfjCAIuWxkAAi5j5TQCLmflOAIuaxmcAi5uP6ACLnMZtAIue+akAi5/5yACLoIvnAIu+iXoAi+KJewCMN6imAIw5180AjDvXzgCMPOBSAIw95FAAjD7n5QCMP8HGAIxBwcUAjELw7gCMQ/NEAIxF+EQAjEaopwCMR9PeAIxIsFoAjEmzYQCMSuBUAIxL4FMAjEy93ACMTefmAIxOvd0AjE/usQCMUMLXAIxRmdoAjFTGdgCMVaioAIxWzcsAjFfT3wCMWrNiAIxc188AjF3X0ACMX9vlAIxhtkgAjGK45gCMZOBWAIxl4FUAjGbgVwCMaORRAIxp5FIAjGq7qACMa7/dAIxsvd4AjG2/3gCMb+61AIxw7rIAjHHutACMcu6zAIxzwccAjHXw7wCMdvNGAIx380UAjHjLpACMebBcAIx6sFsAjHvT4ACMfdfRAIyA2+cAjIHb5gCMgrZJAIyE4FkAjIXgWgCMhuBYAIyJuOgAjIq45wCMjLuqAIyNu6kAjI/n5wCMkOuzAIyR67EAjJLrsgCMk7/fAIyU7rcAjJXutgCMl/DyAIyY8PEAjJnw8ACMmvNHAIybj+0AjJz5qgCMnaipAIyerXMAjJ+VwACMoK10AIyhsF0AjKKwXgCMo9PiAIyk0+EAjKXX0gCMp7NoAIyos2YAjKmzYwCMqrNnAIyrs2UAjKyzZACMraDLAIyvtkoAjLDb6gCMsrjtAIyztkwAjLS2UQCMtdvsAIy2tlMAjLe2UgCMuLZVAIy52+sAjLrb6ACMu7ZPAIy8tksAjL22TQCMvtvpAIy/tlQAjMC2UACMwbZOAIzCuO8AjMO47gCMxLjsAIzFuPAAjMe46gCMyLjrAIzKuOkAjMzgWwCMzZ5IAIzP5FQAjNG7rACM0rutAIzTu6sAjNSZ2wCM1eRTAIzWj/MAjNfkVQCM2efqAIza5+wAjNuP+QCM3L3nAIzd5+0AjN694ACM3+fpAIzgvd8AjOG96QCM4r3lAIzjveYAjOS94gCM5efoAIzmveEAjOfn7gCM6OfrAIzplcEAjOq96ACM66BOAIzsveMAjO295ACM7uu1AIzw67cAjPHrtgCM8pncAIzz67gAjPS/4ACM9eu0AIz3oGQAjPjBywCM+e64AIz6wcgAjPvBzACM/MHKAIz9wckAjP7w8wCNAPD2AI0C8PUAjQOP9wCNBPD0AI0FwtgAjQbzSACNB/NJAI0Iw9gAjQnzSgCNCsPZAI0LibAAjQygSACNDcS6AI0PxLkAjRD2UgCNEY/7AI0Sj/YAjRPFQgCNFPZTAI0V91wAjRbFqwCNF8WsAI0YndwAjRn4RQCNG8ZCAI0cmd0AjR2L6ACNZKiqAI1ms2oAjWezaQCNaOBcAI1p4F0AjWu7rgCNbOu5AI1tveoAjW7rugCNb+65AI1wqKsAjXLQsgCNc612AI10rXUAjXbT4wCNd7BfAI140+QAjXnX1QCNepLBAI1719QAjX3X0wCNgNvuAI2BtlgAjYKf1gCNhNvtAI2FtlcAjYnb7wCNirZWAI2M4F8AjY3gYgCNjuBgAI2P4GEAjZDgZQCNkeBeAI2S4GYAjZPgYwCNlOBkAI2Vu7AAjZbkVgCNmbuvAI2b5/IAjZzn8ACNn73rAI2g5+8AjaHn8QCNo73sAI2l67sAjaag0gCNp+u8AI2owc0AjamQQACNqvNMAI2r804AjazzSwCNrfNNAI2u9NYAja/2VACNsvlvAI2zqKwAjbStdwCNtdPlAI220+cAjbfT5gCNudfYAI26s2wAjbzX1gCNvrNrAI2/19kAjcCKxACNwdfaAI3C19cAjcOZ4ACNxdv7AI3GtmAAjcfb8wCNyNv5AI3LtlsAjcy2XgCNzdvyAI3OtlkAjc/b9gCN0OBsAI3Rtl0AjdPb8QCN1J/wAI3V2/cAjdbb9ACN19v6AI3Y2/AAjdnb+ACN2rZcAI3btl8Ajdzb9QCN3bZaAI3fuPIAjeDgaACN4bjxAI3i4G8AjePgbgCN5Lj4AI3muPkAjefgcACN6LjzAI3p4G0Ajeq49wCN6+ByAI3s4GkAje7gawCN77j0AI3w4GcAjfHgagCN8uBxAI3zuPUAjfTgcwCN+rj2AI38u7EAjf3kWwCN/uRhAI3/5FkAjgDkYgCOAZ/zAI4C5FgAjgPkXQCOBORjAI4F5GAAjgbkXwCOB+ReAI4J5FcAjgrkXACODeRaAI4Onb8Ajg+98QCOEL3uAI4R5/sAjhLoQQCOE+hDAI4U6EAAjhXn+ACOFuf6AI4X6EUAjhjoQgCOGef8AI4a6EYAjhvn+QCOHOhEAI4dve8Ajh699QCOH73zAI4g5/MAjiG99ACOIr3wAI4j5/QAjiTn9gCOJef1AI4m5/0Ajifn/gCOKJ/2AI4pvfIAjiqVyACOK73tAI4tnloAji7n9wCOMOvGAI4xv+IAjjPrvQCONL/jAI41v+YAjjbrwgCOOOu/AI45v+UAjjqZ4wCOPOvDAI4968QAjj7rvgCOP+vHAI5A68AAjkHrxQCOQr/kAI5Ev+EAjkXrwQCORopKAI5H7r8AjkjB0ACOScHOAI5KwdEAjkvBzwCOTO6+AI5N7rsAjk7uugCOT5/xAI5Q7r0AjlPuvACOVPFFAI5Vwt4Ajlbw+wCOV/D6AI5ZwtkAjlrxQQCOW/FAAI5c8PcAjl3xQwCOXvD8AI5fwt0AjmDw+QCOYfFCAI5i8PgAjmPC2gCOZMLcAI5l8P0AjmbC2wCOZ/D+AI5oiqcAjmnxRACOavNSAI5sw94Ajm3zTwCOb/NTAI5xmeYAjnLD2wCOc/NRAI50w+AAjnWf9wCOdsPdAI53n+0AjnjzUACOesPfAI5781QAjnzD2gCOfopcAI6Ana4AjoHEvACOgsS+AI6E9NkAjoXEvQCOhvTXAI6Hw9wAjoj02ACOicS7AI6KxUMAjovFRQCOjPZWAI6NxUQAjo72VQCOkPdhAI6Rxa0AjpL3YACOk8WuAI6U914AjpX3XQCOlvdiAI6X92MAjpj4RgCOmvdfAI6d+MYAjp74wwCOn/jEAI6g+MUAjqHGXACOo/lRAI6k+VAAjqX5TwCOpvlwAI6nlckAjqj5vgCOqfmrAI6qxm4AjquorQCOrLBgAI6tkEgAjrCZ6ACOsrj6AI62kEkAjrmMugCOur32AI68kLEAjr3ryACOwMLfAI7C81UAjsOQSgCOyfmsAI7KqK4Ajsuq7gCOzK15AI7NrXgAjs6Z6gCOz7BjAI7R0+gAjtKwYQCO09PpAI7UsGIAjtfX3wCO2NfbAI7am9EAjtuzbQCO3NfeAI7d190Ajt7X3ACO37NuAI7g1+AAjuHX4QCO4pnrAI7kmewAjuXcQwCO5txBAI7n3EUAjujcRgCO6dxMAI7r3EgAjuzcSgCO7ZntAI7u3EIAju/b/ACO8dxJAI7yme4AjvTcSwCO9dxEAI723EcAjvfb/QCO+LZiAI753EAAjvrb/gCO+7ZhAI78tmMAjv64/QCO/+B1AI8A4HcAjwHgdgCPAuB7AI8DuPsAjwXgeACPBuB0AI8H4HkAjwjgegCPCbj8AI8KuP4AjwvgfACPDeRnAI8O5GYAjxDkZACPEeRlAI8Su7MAjxO7tQCPFLuyAI8Vu7QAjxboTQCPF+hOAI8Y6EkAjxmQTACPGuhKAI8bvfgAjxy9/QCPHb33AI8evf4Ajx+9+QCPIOhLAI8j6EwAjyToSACPJb5AAI8mvfsAjym9+gCPKr38AI8s6EcAjy2QTQCPLuvKAI8vv+gAjzCVywCPMuvMAI8zv+oAjzTrzwCPNevLAI8268kAjzfrzgCPOL/pAI85680Ajzu/5wCPPsHTAI8/wdYAj0DuwQCPQZfiAI9CwdQAj0PuwACPRMHSAI9FwdUAj0bxRgCPR/FHAI9I8UgAj0nC4ACPSpXMAI9L8UkAj03C4QCPTsPiAI9P81gAj1DzWQCPUfNXAI9S81YAj1PzWgCPVMPhAI9V9N0Aj1b02wCPV/TcAI9Y9N4Aj1n02gCPWvTfAI9b9lgAj1yfeACPXfZZAI9e9lcAj1/FRgCPYPdkAI9hxa8Aj2L3ZQCPY/hIAI9k+EcAj2aJfACPZ4l9AI9uiX4Aj5OZXQCPm6ivAI+ctmQAj5+5QACPoJtaAI+ju7YAj6WQUACPpr/sAI+njE8Aj6i/6wCPrcPjAI+uxHwAj6/FRwCPsKiwAI+xsGQAj7K5QQCPs5BUAI+081sAj7XG1gCPtpqoAI+3me8Aj7j+6wCPuZ2jAI+6naEAj7uZQwCPvJlFAI++nX0Aj7/LpgCPwZnwAI/CqLEAj8SotACPxaizAI/GqLIAj8nLpQCPypnxAI/Lzc0Aj8yZ8gCPzc3PAI/Oqu8Aj8+MvACP0J1gAI/RqvEAj9LNzACP083OAI/UqvAAj9XN0QCP1s3QAI/XzdIAj9qgowCP4NC2AI/h0LQAj+KtfACP49CzAI/kraMAj+WtfgCP5q17AI/oraQAj+qtfQCP662iAI/traEAj+7QtQCP8K16AI/0sGoAj/XT6wCP9tPxAI/3sGcAj/iwbgCP+ZBbAI/6sGkAj/vT7gCP/NPwAI/9sGwAj/7T6gCP/9PtAJAAsGgAkAGwZQCQAtPsAJADsGsAkATT7wCQBbBtAJAGsGYAkAie2wCQC9fjAJAM1+YAkA2zcACQD7N6AJAQs3YAkBHX5ACQEp15AJAUs34AkBWzdwCQFrN8AJAXs3IAkBmzbwCQGrNxAJAbs30AkBzX5QCQHbN1AJAes3gAkB+zdACQILN5AJAh1+cAkCKzewCQI7NzAJAk1+IAkC3cTQCQLrZlAJAv3E8AkDG2ZwCQMrZpAJAzmfMAkDTcTgCQNbZmAJA2tmoAkDeQYgCQOLZoAJA8uUcAkD3gowCQPrlPAJA/4H4AkEG5UACQQrlFAJBE4KEAkEaHvQCQR7lKAJBJ4KIAkEq5QwCQS7lCAJBMn1UAkE25TQCQTrlMAJBPuUsAkFC5SQCQUblOAJBS4H0AkFO5RACQVLlGAJBVuUgAkFab+QCQWLu4AJBZu7sAkFu7vwCQXLu5AJBdu74AkF67vACQYLu3AJBhkGUAkGK7vQCQY7u6AJBkluAAkGfoUgCQaL5DAJBpvkEAkGvoUwCQbJi+AJBtvkQAkG6+QgCQb+hRAJBw6FAAkHK/8ACQc+hPAJB0v+4AkHW/7QCQduvQAJB3vkUAkHi/7wCQeevRAJB6v/IAkHvr0gCQfL/xAJB9wdgAkH7uwwCQf8HXAJCAwdwAkIHB2gCQgsHbAJCDwuMAkITB2QCQhe7CAJCG69MAkIfC4gCQiMLkAJCKw+QAkIvD5QCQjfTgAJCPxd4AkJDF3QCQkai2AJCUylUAkJWwbwCQl8pSAJCYylMAkJnKUQCQm8pUAJCey6oAkJ/LpwCQoMusAJChy6gAkKKotwCQo6i6AJCly6kAkKaouQCQp8urAJCokGgAkKqouACQrpBsAJCvzdUAkLDN1wCQsar0AJCyzdMAkLPN1gCQtM3UAJC1qvIAkLaq9QCQuKrzAJC7ldgAkL3QuACQvtC8AJC/0LkAkMGtpwCQw62oAJDEkGoAkMXQuwCQx9C9AJDI0L8AkMqtpQCQy9C+AJDOraYAkNTX7gCQ1dC6AJDW0/IAkNfT+wCQ2NP5AJDZ0/QAkNrT9QCQ29P6AJDc0/wAkN2wcQCQ39P3AJDg0/MAkOGwcACQ4rByAJDj0/YAkOTT/QCQ5dP4AJDos6EAkOnX8QCQ6tfpAJDr1+8AkOzX8ACQ7bOiAJDv1+gAkPDX6gCQ8dC3AJDy1+wAkPPX7QCQ9NfrAJD1tmwAkPncVgCQ+uvUAJD73FcAkPzcVACQ/bOjAJD+tm4AkP/cUwCRANxZAJEB3FgAkQK2awCRA9xcAJEE3FIAkQXcWwCRBtxQAJEH3FoAkQjcVQCRCbZtAJEL4KoAkQ3gpQCRDuCrAJEP4KYAkRDgpACREeCnAJESuVEAkRTgqQCRFuCoAJEXuVIAkRi7wQCRGbvAAJEa5G4AkRvkcQCRHORpAJEd5G0AkR67wgCRH+RsAJEg5GoAkSHkcACRIuRrAJEj5GgAkSTkbwCRJuhZAJEnvkgAkSjxSgCRKehWAJEq6FcAkSvoVQCRLNxRAJEtvkcAkS7oWgCRL+hUAJEwvkYAkTG+SQCRMuhYAJEz69UAkTS/8wCRNevWAJE269cAkTjuxACROcHdAJE68UsAkTvxTACRPvFNAJE/810AkUDzXACRQfTiAJFD9OEAkUT2WwCRRfZcAJFG9loAkUf3ZgCRSMWwAJFJqLsAkUqtqgCRS62pAJFMsHUAkU2wdACRTtRAAJFP1EEAkVDT/gCRUZ+yAJFSsHMAkVPX9QCRVdf2AJFW1/IAkVezpACRWNfzAJFZn64AkVrX9ACRXJ+wAJFeia0AkV/cXwCRYNxhAJFh3F0AkWLcYACRY7ZvAJFk3F4AkWW2cACRZ5BuAJFo3XMAkWm5VQCRarlUAJFsuVMAkW7grACRb+CtAJFwnnEAkXLkcwCRc+R1AJF0u8YAkXW7wwCRdp5KAJF3u8UAkXi7xACReeR0AJF65HIAkXyf3ACRgOhhAJGB6F4AkYLoXwCRg75NAJGE6GAAkYXoWwCRhuhcAJGHvkoAkYm+SwCRiuhdAJGLvkwAkYyJqwCRjevbAJGOn7gAkY/r3ACRkOvZAJGR69oAkZK/9ACRk+vYAJGZ7sgAkZruxQCRm+7HAJGcweAAkZ3uywCRnsHfAJGf7skAkaDuzACRoe7KAJGi7sYAkaPB3gCRpfFPAJGn8VAAkajxTgCRqZBwAJGq8VIAkavC5QCRrMLmAJGt818Aka7D5wCRr/FRAJGw814AkbHD5gCRsvTlAJGz9OYAkbTEvwCRtfTkAJG2i2MAkbf04wCRufZdAJG6xUgAkbuV3ACRvPhJAJG9+MgAkb74xwCRwMZDAJHBxl0AkcL4yQCRw/lxAJHEkHEAkcXGbwCRxqi8AJHHqvYAkcm5VgCRy8TAAJHMqL0Akc2tqwCRzrOlAJHPtnEAkdDC5wCR0ar3AJHT0MEAkdTQwACR1dRCAJHW/F4AkdeweACR2LB2AJHZsHoAkdrURACR3LB5AJHdsHcAkd+JSQCR4tRDAJHjs6gAkeTX/ACR5ZZbAJHms6cAkeezqQCR6NhCAJHps6sAkerX/gCR69hAAJHs1/cAke2zqgCR7thDAJHx1/kAkfPX+gCR9Nf4AJH1s6YAkfaMUACR99hBAJH41/sAkfnX/QCR+pSmAJH93G0Akf6P1QCR/9xsAJIA3GoAkgHcYgCSAtxxAJID3GUAkgTcbwCSBdx2AJIG3G4Akge2eQCSCJ5zAJIJtnUAkgrcYwCSDNxpAJINtncAkg6QdQCSD9xoAJIQtngAkhG2egCSEtxrAJITmfcAkhS2cgCSFbZzAJIW3HcAkhfcdQCSGIeyAJIZ3HQAkhrcZgCSHNxyAJIetnYAkiGMvwCSI7Z0AJIk3HMAkiXcZACSJtxnAJIn3HAAkiiZ+QCSKpZjAJIrlbkAki3kugCSLuC3AJIw4LAAkjHgwwCSMuDMAJIz4LMAkjS5YQCSNZTUAJI24MAAkje5VwCSOLlZAJI5uWUAkjrgsQCSPPz6AJI9uVoAkj65XACSP7lmAJJAuVsAkkGQdwCSRJCrAJJFuWQAkkbguQCSSOCuAJJJuWIAkkrguACSS7leAJJM4MoAkk25YwCSTuDIAJJP4LwAklDgxgCSUblgAJJS4K8AklPgyQCSVODEAJJVnU0AklbgywCSV7lYAJJYmfoAklq5ZwCSW7ldAJJdkuMAkl7gtQCSX5e7AJJg4L0AkmHgwQCSYpB4AJJj4MUAkmS5XwCSZeC0AJJm4LIAkmfgvgCSa5n7AJJs4LsAkm3gugCSbpfgAJJv4L8AknDgwgCScuDHAJJ25HgAkneW3ACSeLvHAJJ55KQAknrkegCSe7vMAJJ8u9AAkn3krQCSfuS1AJJ/5KYAkoC7yACSgZyoAJKC5KoAkoPgtgCShJdyAJKFu8kAkobksQCSh+S2AJKI5K4AkomUQACSiuSwAJKL5LkAkozksgCSjeR+AJKO5KkAko+S8gCSkbvRAJKTu80AkpTkfACSleSrAJKWu8sAkpfkpQCSmLvKAJKZ5LMAkprkogCSm+R5AJKcu84Akp3kuACSoOR7AJKh5K8AkqLkrACSo+SnAJKk5HcAkqXkdgCSpuShAJKn5LQAkqi7zwCSqeS3AJKq5H0AkqvkowCSrL5SAJKumf0AkrGZ/ACSsr5aAJKzvlUAkrTopACSteihAJK26GcAkre+UACSufnXAJK6lkoAkru+TwCSvL5WAJK+ltgAkr+Z/gCSwOhlAJLBvlQAksLocQCSw+hjAJLE6GQAksW+TgCSxuijAJLHvlgAksjodACSyeh5AJLK6HMAksvr7gCSzOhvAJLN6HcAks7odQCSz+hoAJLQ6GIAktHofQCS0r5XAJLT6H4AktSQSwCS1eh4AJLX6G0AktjoawCS2ehmAJLb+kEAkt3obgCS3uh7AJLf6GoAkuDoegCS4eiiAJLjmkAAkuS+UwCS5ZdbAJLm6HYAkufofACS6OhyAJLp6GwAkuq+UQCS65pBAJLskd0Aku7kqACS7+hwAJLwvlkAkvHoaQCS8pP8AJLzmkIAkvSaQwCS9pZZAJL36/QAkvi/9wCS+evzAJL66/AAkvvsRACS/L/7AJL9mkQAkv7sQQCS/+v4AJMA7EMAkwHr6QCTAuv2AJMDkFEAkwS//QCTBuvhAJMHlL8Akwjr3wCTCexCAJML7EAAkwzr/gCTDevtAJMO6+wAkw/r4gCTEMBAAJMS6+gAkxPr8gCTFOv9AJMVwEMAkxbsRQCTGMHoAJMZwEUAkxq//gCTG+vmAJMd6+8Akx7r3gCTH+vgAJMgv/UAkyHAQgCTIr/6AJMj6+cAkyTr9wCTJevxAJMmwEEAkyfr3QCTKMHjAJMp6/kAkyrr/ACTK7/8AJMskKIAky3r6wCTLsBEAJMvv/kAkzCcqwCTMZd2AJMzv/gAkzTr9QCTNev7AJM2v/YAkzjr5ACTOev6AJM86+UAk0D8VQCTQf5FAJNClKgAk0OaRQCTRPpLAJNFneEAk0br6gCTR+7SAJNIltkAk0nu1wCTSsHlAJNLwecAk0zu3QCTTcHhAJNO7uwAk0/u4wCTUO7YAJNR7tkAk1Lu4gCTVMHuAJNV7uEAk1bu0QCTV+7gAJNY7tQAk1nu7QCTWsHtAJNbwesAk1zu1QCTXu7oAJNfl3QAk2Du2gCTYe7nAJNi/fUAk2Pu6QCTZO7QAJNlweYAk2aS5QCTZ+7qAJNolkUAk2mR2gCTau7eAJNrkKMAk2zB6gCTbe7bAJNuoF8Ak3DB7ACTce7kAJNzkK8Ak3SXvwCTdcHkAJN27tYAk3fu5QCTeJFMAJN57t8Ak3rr4wCTe+7mAJN87tMAk32WegCTfsHpAJOA7usAk4GR3gCTgsHiAJOD7s4Ak4SaRgCThf6wAJOGl3kAk4eUbACTiPFgAJOJ8VkAk4rC6QCTjPFUAJON8WMAk47xWwCTj+7cAJOQmFgAk5HxZQCTkvFVAJOUwugAk5XxXwCTlsLqAJOXwvIAk5jC8ACTmfFhAJOawvEAk5vxVwCTnJJmAJOd8VgAk57xXQCTn/FiAJOgk/sAk6HuzQCTosLrAJOj8WoAk6TxZwCTpfFrAJOm8V4Ak6fxWgCTqPFoAJOp82oAk6rxXACTrMLuAJOtmkcAk67C7QCTr+7PAJOwwu8Ak7HxZACTsvFmAJOzwuwAk7TxaQCTtfFTAJO38VYAk7iXSQCTu5dIAJO9k0oAk7+c4gCTwPNzAJPC82MAk8PD6wCTxPNxAJPGkmQAk8fzYQCTyMPsAJPK82wAk8uR3wCTzPNoAJPNw/EAk87zcgCTz/NiAJPQ82UAk9HD6QCT0vN0AJPT+3kAk9TzbQCT1fNwAJPWw+8Ak9fD9ACT2MPyAJPZ82kAk9rzZACT25bXAJPcw+0Ak93D7gCT3vNgAJPfw+oAk+CTQwCT4cPoAJPiw/AAk+PzbwCT5MPzAJPm82sAk+fzdQCT6MP1AJPs82cAk+7zbgCT8P3LAJPx/noAk/OR2wCT9IxqAJP19PMAk/b1QgCT9/T1AJP49PwAk/nzZgCT+vT6AJP79OkAk/z1QACT/cTDAJP+9O0Ak//0/gCUAPT0AJQBl68AlAPEwgCUBJXdAJQG9UQAlAf09gCUCJNIAJQJ9PsAlAr0/QCUC/TnAJQM9UEAlA308gCUDvT3AJQP9OsAlBD07wCUEfVDAJQS9PkAlBP06ACUFPTsAJQV9O4AlBb0+ACUF5pLAJQYxMEAlBn08QCUG/xFAJQdmk0AlCD06gCUJJG8AJQlkOIAlCaQtACUJ5XhAJQo9PAAlCn2YQCUKvZmAJQrxU8AlCz2aACULZpOAJQuxUkAlC+HrQCUMPZkAJQx9moAlDLFTgCUM8VKAJQ1xUsAlDb2YACUN/ZnAJQ4xU0AlDn2ZQCUOsVMAJQ79l8AlDz2YwCUPfZiAJQ+mk8AlD/2XgCUQPZpAJRC/kAAlEP+QwCURMWxAJRF920AlEb3cACUR/dsAJRI924AlEn3bwCUSvdpAJRL92oAlEz3ZwCUTZbdAJRP92sAlFD3aACUUcWyAJRSxbMAlFSaUQCUVfhLAJRX+E0AlFiWpwCUW5CwAJRd+EwAlF74TgCUYMXgAJRi+EoAlGPF3wCUZMXhAJRlnE4AlGeUQwCUaPjLAJRp+MwAlGrGRACUa/jKAJRsjroAlG35UwCUbvlSAJRv+VQAlHDGXwCUcflVAJRyxl4AlHP5VgCUdPlyAJR1+XUAlHb5dACUd8ZoAJR4+XMAlHmaUgCUe/zBAJR8xnIAlH3GcACUfsZxAJR/xncAlID5wACUgfnBAJSC+b8AlIP5yQCUhYvpAJSfnK8AlKKL/QCUwZq8AJTDmrgAlNyargCU9pqnAJUtmlMAlUeddACVd6r4AJV4i+oAlXrYRACVe9x4AJV86KUAlX3zdgCVf4vrAJWAqvkAlYKtrACVg7B7AJWFkLIAlYbYRQCViNhGAJWJs6wAlYu2fQCVjNx6AJWN3HkAlY62owCVj7Z8AJWQ3HsAlZG2fgCVkraiAJWTtqEAlZS2ewCVlpXpAJWXlegAlZi5aACVmZXmAJWb4NAAlZzgzgCVnuDPAJWf4M0AlaCQtQCVobvSAJWimlQAlaO71QCVpLvXAJWlu9YAlaaQswCVp5XnAJWou9MAlam71ACVqotQAJWr6KcAlazopgCVrb5bAJWu6KgAlbDoqQCVsb5cAJW17E0AlbbsSwCVt+7zAJW57EkAlbrsSgCVu8BGAJW87EYAlb3sTgCVvuxIAJW/7EwAlcDu7wCVw+7xAJXF7vIAlcbB8wCVx+7uAJXIwfIAlcnu8ACVysHvAJXLwfAAlczB8QCVzexHAJXQwvUAldHxbgCV0vFsAJXT8W0AldTC8wCV1cL2AJXWwvQAldrzdwCV2/N4AJXcw/YAld71RQCV3/VHAJXg9UYAleHExACV4sVQAJXj9m0AleT2bACV5fZrAJXoi+wAlfSaVgCWHKr6AJYdi/sAlh7JqgCWIMpYAJYhpukAliLKVgCWI8pZAJYkylcAlijLrgCWKqjBAJYsqMIAli3LsACWLqi/AJYvy68AljDLrQCWMajAAJYyqL4AljOaVwCWOKCqAJY5zdgAljrN2wCWO6r9AJY8zdoAlj3N2QCWP6r8AJZAqvsAlkGfpgCWQqtAAJZDzdwAlkSq/gCWRZnMAJZK0MYAlkutrgCWTK2vAJZNrbAAlk7QxwCWT9DDAJZQra0AllHQxACWU9DFAJZU0MIAllacWQCWWLCkAJZbsKEAllzURQCWXbCiAJZesKUAll/URgCWYbB+AJZisHwAlmOwfQCWZLCjAJZpmbUAlmqzrQCWa9hJAJZss7UAlm3YSACWb9hLAJZws7EAlnHYSgCWcrarAJZzs68AlnSzsgCWdbOuAJZ2s7MAlneztACWeLOwAJZ7kL4AlnzYRwCWfbanAJZ+3H0AloDcowCWgZ+vAJaD3KIAloS2rACWhbaoAJaGtqkAlofcfACWiNx+AJaJ3KEAloq2pACWi7amAJaNtqoAlo62pQCWj5XyAJaR4NMAlpLg0QCWk+DSAJaUuWoAlpW5awCWlpC/AJaX4NQAlpi5aQCWmbvYAJabu9oAlpy72QCWnuS7AJah5LwAlqLoqwCWo5DBAJak6KoAlqX+5ACWp8BHAJaowEgAlqnsTwCWqsBJAJas7vYAlq7u9ACWsO71AJaxwfQAlrPxbwCWtMP3AJa2kMQAlrjB9QCWuatBAJa7sKYAlrzURwCWvZDHAJa/2EwAlsCztgCWwbatAJbC3KQAlsPcpgCWxLavAJbFtq4Alsa2sACWx7axAJbI3KUAlsm5bgCWyrlvAJbLuW0Alsy72wCWzblsAJbO4NUAltK73ACW0+isAJbU7FAAltXASgCW1sH2AJbX8XAAltjxdACW2cL5AJba8XEAltvC+gCW3ML4AJbd8XUAlt7C+wCW3/FzAJbh83kAluLC9wCW48P4AJbl+M0AluirQgCW6bO4AJbqs7cAlu+2sgCW8NyoAJbx3KcAlvK2swCW9JLkAJb14NkAlva5cwCW97lwAJb44NgAlvm5cgCW+uDWAJb7uXEAlv3g1wCW/+S9AJcAu90AlwLorwCXA59SAJcEvl0AlwXorQCXBr5eAJcHvl8AlwjorgCXCb5gAJcL7FEAlw3ATgCXDsBLAJcPwFAAlxDsUwCXEcBMAJcS7FIAlxPATwCXFsBNAJcY7vkAlxnu+wCXG5DbAJccwfcAlx3u+gCXHsH4AJcf7vgAlyDu9wCXIaBmAJci8XcAlyPxdgCXJML8AJcl8XgAlybzfgCXJ8P6AJco830AlynzegCXKsP5AJcr83sAlyzzfACXLvVIAJcv9UkAlzDExQCXMZDSAJcyxVMAlzSHawCXNfZuAJc2kNQAlzjFUQCXOcVSAJc69m8Alz3FtACXPsW1AJc/93EAl0CaWwCXQZX9AJdCxkUAl0P4zwCXRMZHAJdG+M4Al0f40ACXSMZGAJdJ+VcAl0qHsQCXS/mtAJdRi8QAl1KrQwCXVYxmAJdWuXQAl1eQ3gCXWOS+AJda6LAAl1vAUQCXXMBSAJddnOQAl16rRACXX5DhAJdgvmEAl2HD+wCXYq2xAJdmwFMAl2jF4gCXaa2yAJdq2E0Al2zcqQCXbZ5GAJdu3KsAl3DcqgCXcZZRAJdy4N0Al3Pg2gCXdLl1AJd2uXYAl3fg2wCXeODcAJd65MAAl3vkxQCXfLveAJd95L8Al37kwQCXf+TIAJeA5MMAl4HkxwCXguTEAJeD5MIAl4TkxgCXhbvfAJeH+1gAl4joswCXiZDmAJeK6LEAl4u+YwCXjb5iAJeO6LIAl4++ZACXlOxWAJeX7FUAl5jAVACXmexUAJea7vwAl5uWUACXnO7+AJed70EAl57vQACXn5DnAJegwfkAl6Hu/QCXovGhAJejwv0Al6TxfQCXpfGiAJemwv4Al6jxewCXqvF+AJer8XwAl6zxeQCXrcNAAJeu8XoAl7GQ6ACXsppdAJez86EAl7SfegCXtvOjAJe386IAl7ibXACXufVKAJe6n3wAl7v1SwCXvfxSAJe+kOkAl7/2cACXwJDqAJfBxbcAl8KaXgCXw8W2AJfE+E8Al8X4UACXxsZIAJfH+NEAl8ifdgCXycZpAJfLrbMAl8y2tACXzeTKAJfO5MkAl8/otQCX0Oi0AJfSkOsAl9PB+gCX1O9DAJfV70IAl9bxpQCX1/GjAJfY8aYAl9nxpACX3MP8AJfd86QAl97zpQCX3/OmAJfgkOwAl+H2cQCX4/dyAJfl+NIAl+aL7gCX7a20AJfukO4Al/DsVwCX8e9EAJfykcYAl/OttQCX9ZDyAJf2u+AAl/jsWACX+cNBAJf68acAl/vD/QCX/fVMAJf+9U0Al//FVACYAPhRAJgBrbYAmAKzuwCYA7O8AJgE2E4AmAW2tQCYBra2AJgH3KwAmAi2twCYCrl6AJgMuXwAmA3g3wCYDuDgAJgP4N4AmBC5dwCYEbl4AJgSuXsAmBO5eQCYFPy8AJgVinQAmBbkywCYF7vhAJgYu+IAmBvovACYHL5nAJgd6LcAmB7otgCYH5ZXAJgg6LsAmCG+ZQCYI5zvAJgkwFsAmCbouACYJ+i9AJgo6LoAmCnouQCYK75mAJgtwFkAmC6f3wCYL+xaAJgwwFUAmDLsWwCYM5D3AJg0kPYAmDXsWQCYN8BYAJg4wFYAmDnAWgCYO8BXAJhB70UAmEPvSgCYRO9GAJhF70kAmEbB+wCYR5teAJhI7dQAmEnvSACYSu9HAJhLkPgAmEzDRACYTcNCAJhOw0UAmE/DQwCYUPGoAJhR8akAmFLxqgCYU8NGAJhWjPwAmFfzqgCYWMRAAJhZ86gAmFvEQQCYXPOnAJhd86kAmF7D/gCYX/VRAJhg9U4AmGL1TwCYY/VQAJhk9nIAmGXFVgCYZpD5AJhnxVUAmGiMyQCYafd0AJhq93MAmGvFuACYbPpqAJhvxeMAmHDGSQCYccZgAJhy+VgAmHP5rgCYdPmvAJh1i+8AmKittwCYqdytAJis4OEAmK3kzACYruTNAJivu+MAmLG75ACYsui+AJizvmgAmLSf4ACYtsH8AJi3kUIAmLjxqwCYuZpiAJi6w0cAmLvzrQCYvMRCAJi986wAmL7zrgCYv/OrAJjA9nUAmMH1UgCYwvVTAJjDlWkAmMTExgCYxvZ0AJjHkUQAmMiRQwCYyfZzAJjKkUEAmMv3dQCYzPmwAJjOi/AAmNutuACY3JZgAJjei/EAmN+tuQCY4Jn2AJjhkUkAmOKwpwCY49RIAJjl2E8AmOaRSgCY57a4AJjptrsAmOq2uQCY69yuAJjskUsAmO22vQCY77a6AJjxmmQAmPK2vACY9Ll+AJj1ir8AmPbg4gCY+eDjAJj66MAAmPy5fQCY/bmhAJj+uaIAmQDkzwCZAuTOAJkDu+UAmQW75gCZB+TQAJkI6L8AmQm76ACZCr5pAJkMu+cAmQ6aZgCZEMBcAJkR6MEAmRK+awCZE75qAJkU6MIAmRXoxQCZFujDAJkX6MQAmRi+bACZGZpnAJkawGEAmRvAXwCZHJppAJkewF4AmR/sXQCZIcBgAJkk7FwAmSXvSwCZJ+xeAJkowF0AmSnsXwCZKu9OAJkr70wAmSzvTQCZLe9SAJkuw0sAmS/vUQCZMO9UAJkx71MAmTLvUACZM+9PAJk1wf0AmTeaagCZOJZSAJk5kU0AmTrxrgCZO5ZmAJk88a0AmT3DSgCZPsNIAJk/w0kAmUCfewCZQfGsAJlCmmsAmUPzsQCZRcRDAJlH87AAmUjzrwCZScREAJlKoGwAmUv1WACZTPVXAJlNlmcAmU71VQCZUPVUAJlRxMgAmVLExwCZU/VZAJlU93YAmVXFuQCZVvZ3AJlXxVcAmVj2dgCZWfVWAJlb93cAmVzF5ACZXZpsAJlexmEAmV/5WQCZYfmxAJlimm0AmWOL8gCZlq26AJmX2FAAmZjvVQCZma27AJmblmoAmZzk0gCZneTRAJme7GAAmaHvVwCZo+9WAJmk/OoAmaXDTACZpvOyAJmn87MAmajEyQCZqpZsAJmr+bIAmaywqACZrba/AJmutr4Ama/g5ACZsODmAJmxuaQAmbLg5QCZs7mjAJm0uaUAmbXg5wCZuJHEAJm55NQAmbrk1gCZu+TVAJm8lncAmb3k2ACZwbvpAJnC5NcAmcPk0wCZxJn0AJnFmm8Amcfk2QCZyejMAJnL6M8Amczo0QCZzejHAJnO6MsAmc/oyACZ0L5uAJnRvnEAmdK+cwCZ0+jJAJnU6MoAmdW+cgCZ1ujNAJnX6NAAmdjozgCZ2b50AJnan6sAmdu+cACZ3OjGAJndvm0Amd++bwCZ4Iy+AJnhjsEAmeLAYwCZ4+xmAJnk7GQAmeXsYwCZ5pVVAJnn7GkAmensaACZ6uxnAJns7GIAme3AYgCZ7uxhAJnw7GUAmfHAZACZ9O9aAJn1kVIAmfbvXgCZ9+9bAJn4710AmfnvXACZ+u9ZAJn7718AmfzvYgCZ/e9gAJn+72EAmf/CQACaAcH+AJoC71gAmgPvYwCaBPGzAJoF8bYAmgbxuACaB/G3AJoJ8bEAmgrxtQCaC/GwAJoMkVMAmg3xsgCaDsNNAJoP8a8AmhCRVQCaEfG0AJoU88AAmhXztQCaFsRFAJoZxEYAmhrztACaG/O5AJoc878Amh3ztwCaHvO+AJoflV0AmiDzuwCaIZZxAJoi87oAmiPzvQCaJPO4AJol87YAmiacbQCaJ/O8AJop9WAAmir1XgCaK8TKAJos9V0Ami31YwCaLvVhAJovlnMAmjDEywCaMfVcAJoy9VoAmjT1WwCaNcTNAJo29V8AmjfEzACaOPViAJo59ngAmjr2fgCaO5FUAJo8mnEAmj32eQCaPsVbAJo/9qEAmkDFWgCaQfZ9AJpC9nwAmkPFWQCaRPZ7AJpFxVgAmkb2egCaSPd9AJpJ96EAmkr3fgCaTPd7AJpNxbsAmk73eACaT/d8AJpQ96MAmlL3ogCaU/d5AJpU93oAmlXFugCaVvhSAJpXxecAmliRVgCaWfhTAJpaxeUAmlvF5gCaXJZtAJpe+NMAml/GSgCaYPl2AJpixmoAmmOVVwCaZPmzAJplxmsAmmb5tACaZ/m1AJpo+cMAmmn5wgCaasZ6AJpr+c0AmmyJxgCaj4nHAJqosKkAmqvg6QCareDoAJqvu+oAmrC76wCaseTaAJqyimoAmrPo0gCatOxsAJq2i1cAmre+dQCauMBlAJq57GoAmrqf4QCau+xtAJq8wGYAmr2bXwCavu9kAJq/7GsAmsDxuQCawcNOAJrC88EAmsb1ZgCax/VkAJrK9WUAms32ogCaz8VcAJrQ96QAmtHF6gCa0sW8AJrTxegAmtTF6QCa1fjUAJrWxmIAmtegXQCa2LCqAJrc8boAmt/USQCa4JFbAJrhuaYAmuKRXACa4+TbAJrmu+wAmufk3ACa6+jUAJrs6NMAmu3AaACa7r52AJrvvncAmvHo1wCa8ujWAJrz6NUAmvSRXgCa9uxuAJr37HEAmvnscACa+uxvAJr7wGcAmvzvaACa/e9mAJr+72UAmv+fXACbAe9nAJsCn1cAmwPDTwCbBPG8AJsF8b0AmwbDUACbCPG7AJsJn2UAmwrzwwCbC/PCAJsM88UAmw3ERwCbDvPEAJsPmnIAmxD1ZwCbEfVpAJsS9WgAmxSRYACbFfajAJsW9qYAmxf2pACbGPalAJsZ96UAmxrFvQCbHvhUAJsf+FUAmyD4VgCbIsZLAJsjxmMAmyT5tgCbJbCrAJsnvngAmyjAaQCbKfG+AJsqn14Amyv3pgCbLZFhAJsu+cQAmy/USgCbMcZ7AJsysKwAmzPscgCbNJFkAJs18b8AmzfzxgCbOZ9BAJs69qcAmzv3pwCbPLCtAJs+5N0Amz/k3gCbQJFpAJtBu+0Am0K77gCbQ+jZAJtEvnoAm0W+eQCbRujYAJtI72kAm0rxwACbS/HCAJtM8cEAm03DUwCbTsNSAJtPw1EAm1CRaACbUcVeAJtS9qgAm1TFXQCbVfepAJtW96gAm1jGTACbWfjVAJtas70Am1vg6gCbX+ThAJtg5N8Am2Hk4ACbZOjiAJtm6N0Am2fo2gCbaOjhAJtpmnQAm2zo4wCbb758AJtw6OAAm3Ho3ACbdOjbAJt16N8Am3bo3gCbd757AJt67H0Am3vseACbfOx2AJt97KEAm37sdwCbf5ayAJuA7HMAm4GadQCbgux5AJuD/aUAm4XsdACbhu9yAJuH7HUAm4jsogCbi57pAJuNi7oAm46RbQCbj6BgAJuQ7HwAm5HAagCbkux7AJuT7HoAm5XsfgCbl5/eAJua72oAm5vvbQCbnZ/DAJue72wAm5+WtQCboO90AJuh728Am6LvcwCbpO9xAJul73AAm6bvbgCbqO9rAJuqwkMAm6vCQgCbrcJEAJuuwkEAm6/vdQCbsKBnAJu18cgAm7bxywCbuPHJAJu58c0Am73xzgCbv/HGAJvAw1gAm8HxxwCbw/HFAJvE8cwAm8bxxACbx/HDAJvIw1cAm8nDVQCbysNUAJvPlrMAm9PxygCb1PPPAJvV89UAm9bESgCb1/PQAJvZ89MAm9rz1wCb28RLAJvc89IAm92adgCb3vPKAJvg88kAm+Hz1gCb4vPNAJvk88sAm+Xz1ACb5vPMAJvnxEkAm+jESACb6ZXVAJvq88cAm+vzyACb7PPRAJvtnsoAm/DzzgCb8Zp3AJv0mngAm/f1bACb+PVvAJv9w1YAm/+RcACcApFvAJwF9W0AnAb1cwCcB/VxAJwI9WsAnAn1dgCcCp+jAJwL9WoAnAyRcQCcDcTPAJwO9XIAnBCWsQCcEvVuAJwTxM4AnBT1dQCcFZ9jAJwX9XQAnBufZwCcHParAJwd9qoAnB+LuQCcIJp6AJwh9rEAnCP2rQCcJPawAJwlxWAAnCaLVgCcKPauAJwp9q8AnCv2qQCcLPasAJwtxV8AnC+a2gCcMcW/AJwy97QAnDP3rwCcNPezAJw1lrAAnDb3tgCcN/eyAJw5964AnDqafgCcO8XBAJw897EAnD33tQCcPsXAAJw/96wAnED1cACcQfewAJxE960AnEWd3gCcRveqAJxI96sAnEnFvgCcSvhaAJxL+FwAnEz4XwCcTfhbAJxO+GAAnE+WrQCcUPhZAJxS+FcAnFOWrgCcVMXrAJxV+F0AnFbF7QCcV8XsAJxY+FgAnFn4XgCcXZ6hAJxe+NoAnF/GTQCcYPjbAJxi+NkAnGP41gCcZvjYAJxn+NcAnGj5WgCcbflcAJxu+VsAnHH5eQCccp5QAJxz+XgAnHT5dwCcdfl6AJx3xnMAnHjGdACcefnKAJx6+c4AnHuWrwCcfIv0AJzls74AnObcrwCc5+DtAJzpuacAnOrg6wCc7eDsAJzx5OIAnPLk4wCc87vxAJz0u+8AnPXk5ACc9rvwAJz36OgAnPno6wCc+ujlAJz76OwAnPzo5ACc/ejmAJz/6OcAnQDo6gCdAp+kAJ0DvqEAnQTo7wCdBejuAJ0Gvn0AnQfo6QCdCOjtAJ0Jvn4AnQyWvQCdEOysAJ0SwG8AnRTspwCdFcBrAJ0WlvQAnRfspACdGOyqAJ0Z7K0AnRvAcACdHeypAJ0e7KYAnR/srgCdIOylAJ0hlrgAnSLsqwCdI8BsAJ0l7KMAnSbAbQCdKMBuAJ0p7KgAnS3vqQCdLu96AJ0v73sAnTDvfgCdMe98AJ0z73YAnTT6oQCdNu95AJ0376UAnTjvfQCdOZGnAJ07wkUAnT3vpwCdPu+kAJ0/wkYAnUDvpgCdQe93AJ1C76IAnUPvowCdRKBeAJ1F76EAnUmafQCdSvHSAJ1L8dQAnUzx1wCdTolIAJ1P8dEAnVCesQCdUcNZAJ1S8dkAnVPx0ACdVPHaAJ1W8dYAnVfx2ACdWPHcAJ1Z8dUAnVrx3QCdW/HTAJ1c8c8AnV3DWgCdXp3bAJ1f8dsAnWDDWwCdYcRNAJ1n73gAnWjz8QCdafPoAJ1qxE8AnWvz5ACdbMRQAJ1tlb8AnW6KcwCdb/PtAJ1w8+cAnXHz3QCdcsROAJ1z8+oAnXTz5QCddfPmAJ1389gAnXjz3wCdefPuAJ178+sAnXye/gCdffPjAJ1+kXoAnX/z7wCdgPPeAJ2B89kAnYLz7ACdg5F7AJ2E89sAnYXz6QCdhvPgAJ2H8/AAnYjz3ACdicRMAJ2K89oAnYvz4QCdjPPiAJ2Q9X0AnZL1ewCdk5qjAJ2U9aIAnZb1rgCdl/WlAJ2Y9XwAnZn1eACdmvWnAJ2b9X4AnZz1owCdnfV6AJ2e9aoAnZ/1dwCdoPWhAJ2h9aYAnaL1qACdo/WrAJ2k9XkAnaWWwgCdpvWvAJ2n9bAAnaj1qQCdqfWtAJ2q9aQAnaufdwCdrPbBAJ2t9sQAna/FYQCdsfbDAJ2y9sgAnbP2xgCdtMViAJ219r0Anbb2swCdt/ayAJ24xWQAnbn2vwCduvbAAJ279rwAnbz2tACdvZqkAJ2+9rkAnb/1rACdwJqlAJ3B9rUAncLFYwCdw/a7AJ3EkaEAncX2ugCdx/a2AJ3I9sIAncmJuACdyva3AJ3L97sAncz2xQCdzfbHAJ3O9r4Anc/2uACd0Pe8AJ3R974AndL3uACd08XCAJ3UkXMAndX3xQCd1vfDAJ3XxcMAndj3wgCd2ffBAJ3a97oAndv3twCd3Pe9AJ3d98YAnd73uQCd3/e/AJ3h+GkAneL4bgCd4/hkAJ3k+GcAneXF7gCd5vhrAJ3o+HIAnen3wACd6/hlAJ3s+G8Ane34cwCd7vhqAJ3v+GMAnfD4bQCd8vhsAJ3z+HEAnfT4cACd9ffEAJ32+GgAnff4YgCd+PhmAJ35xk4AnfrGTwCd+/hhAJ38mqYAnf345gCd/vjdAJ3/+OUAngD44gCeAfjjAJ4C+NwAngP43wCeBPjnAJ4F+OEAngb44ACeB/jeAJ4J+OQAngqJvQCeC/ldAJ4MibkAng35XgCeDpF9AJ4P+WAAnhD5XwCeEfliAJ4S+WEAnhP5fACeFPl7AJ4V+bcAnhf5uACeGJa7AJ4Z+cUAnhrGeACeG8Z8AJ4cn/IAnh35zwCeHsZ9AJ4fi/UAnnWzvwCeecTQAJ569skAnnuaqQCefMZQAJ59xlEAnn+zwACegODuAJ6Bn1QAnoK5qACeg+jwAJ6En+MAnoWe7QCehuywAJ6H7LEAnojsrwCeie+rAJ6K76oAnovCRwCejPHfAJ6N76wAno7x3gCekJGqAJ6R8/MAnpLEUQCek8RTAJ6U8/IAnpWRqwCelqBwAJ6XxFIAnpifbQCemfWxAJ6a9bMAnpv1sgCenPbKAJ6dxWUAnp6RrACen8XvAJ6g+OgAnqH5YwCeopGtAJ6k+dIAnqWzwQCepqD9AJ6n5OUAnqif4gCeqb6iAJ6qka8AnqueQQCerJqqAJ6t7LMAnq7ssgCer5GwAJ6w760AnrGaqwCetMRUAJ61xNEAnrb3xwCet/nLAJ67s8IAnry78gCevZqsAJ6+vqMAnr+aSgCewPP0AJ7BkbIAnsL4dACew7bAAJ7Ei/YAnsaarQCex4m2AJ7I764AnszGZACezbbBAJ7OvqQAns/CSACe0Ph1AJ7RtsIAntPo8QCe1MByAJ7V7LQAntbstQCe2MBxAJ7a768AntvCTACe3MJKAJ7dwksAnt7CSQCe3/HgAJ7gw1wAnuKarwCe5PW1AJ7l9bQAnub1twCe5/W2AJ7oxNIAnuv2ywCe7fbNAJ7u9swAnu/FZgCe8PfIAJ7xmrAAnvL4dgCe8/h3AJ70xfAAnvX5ZACe9vl9AJ73xnUAnviasQCe+dywAJ767LYAnvvvsACe/PP1AJ794O8Anv6aoQCe/++xAJ8A8eIAnwHx4QCfApG5AJ8G+HgAnwfGUgCfCJG6AJ8J+WUAnwr5fgCfDrmpAJ8P6PIAnxDo8wCfEuy3AJ8TuaoAnxXDXQCfFvHjAJ8Xkb4Anxj2zwCfGcVnAJ8a9tAAnxv2zgCfHPh5AJ8e+OkAnyC5qwCfIu+0AJ8j77MAnyTvsgCfJfHkAJ8moEEAnyeLtwCfKPHoAJ8p8ecAnyrx5gCfK/HlAJ8sw14Any3z9gCfLvW5AJ8vxNMAnzD1uACfMfbRAJ8y98sAnzP3ygCfNMXEAJ8198kAnzb4fACfN/h7AJ84+HoAnzmRwACfO7vzAJ897LgAnz7CTQCfQPP3AJ9B8/gAn0L3zACfQ/h9AJ9EmrMAn0WRwwCfRvjqAJ9H+WYAn0j5uQCfSfnUAJ9Ku/QAn0vCTgCfTPHpAJ9N8/kAn0720gCfT/h+AJ9QoPwAn1K+pgCfU5/uAJ9U77UAn1Xx6gCfVvP6AJ9X8/sAn1jz/ACfWfW+AJ9an2kAn1v1ugCfXMVoAJ9d9b0An171vACfX8TUAJ9g9bsAn2HE1gCfYpHIAJ9jxNUAn2T21ACfZfbTAJ9mxWkAn2fFagCfaZHJAJ9qxcYAn2v3zQCfbMXFAJ9u+KMAn2/4pACfcPiiAJ9x+KEAn3LGVACfdPjrAJ91+OwAn3b47QCfd8ZTAJ94+WcAn3n5agCfevlpAJ97+WgAn3750wCff43mAJ+NwHMAn46RywCfkMNlAJ+R9b8An5L21QCflMXHAJ+V984An5aHrACfl4ekAJ+Y+dUAn5mJyACfnMB0AJ+fjaoAn6DvtgCfovfPAJ+k+aEAn6Wf3QCfpoxDAJ+njG0An6iMdACfqYy3AJ+qjLkAn6uMuwCfrIzAAJ+tjNcAn66M2ACfr4zaAJ+wyKEAn7HIowCfsoztAJ+zjUgAn8eHwgCfyIfSAJ/Jh9YAn8qH2gCfy4ffAPkHi/gA+gzJSgD6Dd38AP4woUoA/jGhVwD+M6FZAP40oVsA/jWhXwD+NqFgAP43oWMA/jihZAD+OaFnAP46oWgA/juhawD+PKFsAP49oW8A/j6hcAD+P6FzAP5AoXQA/kGhdwD+QqF4AP5DoXsA/kShfAD+SaHGAP5KoccA/kuhygD+TKHLAP5NocgA/k6hyQD+T6FcAP5QoU0A/lKhTwD+VKFRAP5VoVIA/lahUwD+V6FUAP5ZoX0A/lqhfgD+W6GhAP5coaIA/l2howD+XqGkAP5focwA/mChzQD+YaHOAP5iod4A/mOh3wD+ZKHgAP5loeEA/mah4gD+aaJMAP5qok0A/muiTgD/AaFJAP8CyNAA/wOhrQD/BKJDAP8FokgA/wahrgD/B8jPAP8IoV0A/wmhXgD/CqGvAP8Loc8A/wyhQQD/DaHQAP8OoUQA/w+iQQD/EKKvAP8RorAA/xKisQD/E6KyAP8UorMA/xWitAD/FqK1AP8XorYA/xiitwD/GaK4AP8aoUcA/xuhRgD/HKHVAP8dodcA/x6h1gD/H6FIAP8gokkA/yGizwD/IqLQAP8jotEA/ySi0gD/JaLTAP8motQA/yei1QD/KKLWAP8potcA/yqi2AD/K6LZAP8sotoA/y2i2wD/LqLcAP8vot0A/zCi3gD/MaLfAP8youAA/zOi4QD/NKLiAP81ouMA/zai5AD/N6LlAP84ouYA/zmi5wD/OqLoAP87xuQA/zyiQgD/PcblAP8/ocQA/0Gi6QD/QqLqAP9DousA/0Si7AD/RaLtAP9Gou4A/0ei7wD/SKLwAP9JovEA/0qi8gD/S6LzAP9MovQA/02i9QD/TqL2AP9PovcA/1Ci+AD/UaL5AP9SovoA/1Oi+wD/VKL8AP9Vov0A/1ai/gD/V6NAAP9Yo0EA/1mjQgD/WqNDAP9boWEA/1yhVQD/XaFiAP9koU4A/+LIzQD/5MjOAP/t+f4CACGccQIAPpN1AgBGk3YCAE6VSAIAaI7GAgCGi8UCAIeL+gIAish8AgCUmrQCAMqITgIAy4hLAgDMyHoCAM2ISAIA0YhHAgDuoPYCAQyIRQIBDohTAgEY/K0CAaSM9QIBqYqtAgGrknICAcH8RwIB1JTfAgHyn9ECAgT7ywICDJJ9AgIUmKQCAjmM+QICW5TnAgJ0kMsCAnWSewICmZTYAgKe/F8CAqD6VAICt5q1AgK/ltoCAsCSeQIC5fp0AgMKknUCAyWN+wIDQYpJAgNFkt8CA0abfAIDR/pjAgN++mACA3+SbQIDgPpiAgOgmrYCA6eXawIDtf1qAgPJ/VQCA8uScwID9ZfYAgP8n7sCBBOTQgIEFJJ2AgQf+mUCBGWSbAIEh/puAgSOnuACBJGSwAIEkpK/AgSjkr4CBNeaugIE/IqzAgT+l3UCBUf6QAIFjvp2AgWl+9ACBbP6ewIFw/5tAgXKm7MCBdCJzAIF1Zq+AgXf+kICBeCSvAIF65RcAgYRm7UCBhWavwIGGZinAgYal6QCBjCQ/QIGVvx7AgZ2msACBw6SwwIHMYqqAgd5m9ACCCyVUAIIc5LGAgjVmKYCCRaVRgIJI/1jAglU+sICCXmewwIJ54myAgoRnGYCClCQUwIKb4xiAgqKh6gCCrSXwQIKwprEAgrNmsUCCw2O7wILj/rpAgufjUACC6iSYgILqYr3Agu/msYCC8aS4QILy5rJAgvi+sYCC+uXpQIL+5rLAgv/+nICDAuKXgIMDZTgAgwgkswCDDSK5QIMOv5cAgw7mswCDEGd+QIMQopDAgxDiqYCDFOazQIMZZrOAgx3+u4CDHibzAIMfJrPAgyNmtECDJad+gIMnJ18Agy1mtMCDLiXpgIMz5lfAgzT+/YCDNSfxQIM1YpZAgzWi2sCDN2a1AIM7ZrVAgz/l6ICDRWKRAINKJ9KAg0xkKECDTL9pAINRopkAg1HivICDUiK+AINSZ3YAg1MlNYCDU36/gINTvunAg1vmtYCDXGfTQINdPr2Ag18ilcCDX6LQwINf4tEAg2WirYCDZyKwAINp55UAg2ymtcCDcia2AIOBJrcAg4JisoCDgqeqAIODZJjAg4Omt0CDg+LZQIOEItvAg4Ri34CDhaPQwIOHZLQAg5MivQCDm2dvgIOc5rhAg51/N4CDnad/QIOd4tmAg54i3ACDnmLdQIOeorkAg57i6QCDoyK7QIOlopdAg6Yi0gCDp2d7QIOop5AAg6qiu8CDquK9gIOrJ52Ag62nuMCDtea3gIO2I3+Ag7d+vwCDvicsQIO+Z53Ag76i2QCDvuLZwIPHZdLAg8mllMCDy2a4AIPLotKAg8wivECDzGK1wIPO6CrAg9MirUCD2SKXwIPjYruAg+Qmt8CD62K/gIPtIpYAg+1i6MCD7aLpwIPvJrjAg/fkmECD+qd1wIP6559Ag/snqcCD+2eqwIQFJBCAhAdi3kCEB6LegIQT5rmAhBcmuUCEG+KfgIQdZ5EAhB2mucCEHeKfAIQeItxAhB7mukCEIia6gIQlprrAhCdir0CELT7TgIQv5rtAhDAivkCEMGeYwIQx4tJAhDIis4CEMmLbgIQz4roAhDTmu4CEOSSzgIQ9IpaAhD1i3sCEPaLfAIRL5rvAhE7mvACET2K+gIRRYlBAhFIi3ICEU+K8wIRgIuoAhGHnq4CEdmecgISPPtzAhJP+18CEnyQugISqJH+AhKpnvYCErCX7QIS45rzAhL+oO4CEwKWfAITA5NFAhMEmG4CEwX6VgITNpr1AhM6/EsCE3Wa9AITdv7eAhOO/LcCE5iX8QITnJfHAhPFnMsCE8aSQAIT7ZzoAhP+kf0CFBOXTgIUFvtoAhQkl2wCFD+MwgIUUpfoAhRU+2oCFFWLdAIUio7nAhSX/cgCFLaSQQIU6JahAhT9jvMCFXea9wIVgo+mAhWW+tYCFgqcxwIWE/rXAhYZmvgCFj77oQIWYY7FAhaS+6QCFrj7wgIWuprBAhbAkfoCFsH+2wIWwperAhbTkUcCFtX7sQIW34/qAhbmlNICFuf+YQIW6PrOAhb6ku0CFvuR8wIW/JPGAhb+k1oCFw36+wIXEJLvAhcm+sgCFzqYRwIXO5NmAhc8mFUCF1eW5gIXbJ9DAhdtn6oCF26U2gIXb5LuAhdw/K8CF3H7+wIXc475Ahd0kfYCF6uTZAIXsJT1AhexnLYCF7L7rQIXs5hOAhe0j0QCF7WW/QIXw5r5AhfHmvoCF9mXaQIX2pXUAhfbmEsCF9z7qgIX35h8AhfvkeoCF/WdrwIX9p3FAhf4kfECF/mOsQIX+pepAhf7+6wCF/z8uAIYIJy5Ahgo+7ACGCn80gIYKpPLAhgtmv0CGDmR9AIYOousAhg7oFUCGECVdAIYRZW+AhhSl60CGF6O6QIYYZL4Ahhil74CGGORbAIYZJSqAhh3/GMCGHudxgIYg5e1AhiEkrgCGIWR7wIYnv6mAhifl2ACGKCTWAIYoZV2Ahiij6wCGL6R7AIYv5e0AhjRkfcCGNaXSgIY1/tJAhjYlXgCGNmTvAIY+pHWAhkDk1UCGQSTVgIZBZhRAhkQj/gCGRH7wAIZEpPyAhkVkNACGRycRAIZIpJVAhknk2MCGTuRpQIZRKDtAhlY/WsCGWqa/gIZfJNRAhmAjFcCGYP6eAIZiP6oAhmWk1ACGdv6TAIZ85L3Ahotm0ACGjT7zgIaRZtBAhpL/q0CGmOHYQIbRPvVAhvBi8ICG8KafAIcKptCAhxwm0MCHKKeeQIcpfvZAhysm0QCHUagpwIdU4d7Ah1eh24CHZCb8wIdtox5Ah26k14CHcqJywId0Z9TAh3rk9cCHfn74QIeHP7QAh4jjPECHjf74gIePfzjAh6JkHQCHqT75gIeqJu3Ah7Im0UCHtWbRwIfD59QAh8Vm0gCH2r8WwIfnpipAh+hnP0CH+iITAIgRZtLAiBJ++wCIH6MaQIgmpuoAiDHitUCIPz6cwIhKv1ZAiFbkaICIXP77QIhepypAiGhiqgCIcGNQgIhw5vDAiIIiuECInybTgIjIZXQAiMlkF8CI72X7gIj0PxOAiPXm08CI/qbUAIkZZ7GAiRx/FACJIv9cwIkkf2nAiSwnaICJLyH0QIkwYfTAiTJh9QCJMyH1QIk7fpYAiUT+l4CJRugWQIlMPp1AiVU+74CJY2cogIlr5NwAiW+k3ECJhuTdwImHP7vAiYrk20CJmj8XQImepC4AiaWivwCJpj7QQIm9J5rAib1lOMCJvaO4gInEox9AicUjtcCJxucTQInH5ajAicqm1ECJ3WKwwIngZaqAieWjOICJ7T8aAIntYttAifN/WcCKAOK6QIoX/yhAihgk2wCKHGbUgIorf5wAijB/KgCKPf86QIpJpy0Aik5iuoCKU+bUwIpZ5tVAilrlqsCKYD8pwIpk5tWAipmirwCKs+KywIq1ZtXAirmic0CKuibWQIrDptbAisik6UCKz+bXQIrQ55PAitqk6MCK8qKewIrzotCAiwml1ACLCePswIsOIpQAixMm2ACLFGLRQIsVYtGAixinf4CLIibYgIsm5N7Aiyhk7ECLKmKYAIssorYAiy3m2MCLMKKaQIsxopHAizJiswCLQeTfAItCJtlAi0Sm2YCLUSKcgItTIp6Ai1nk68CLY2KsAItlZtoAi2gnqMCLaP67AItpIt3Ai23m2cCLe6LWQIuDfyxAi42/LsCLkKbaQIueJOoAi6LiuACLrOeUQIu749fAi90m2oCL8ybawIv45fsAjAzm2wCMET+TgIwS/3CAjBmm20CMH2RZwIwfvzMAjCOk7YCMLeQ5AIwvJDlAjDanvICMQOTygIxPYu8AjF9j0YCMYKTzwIxpPzbAjGl/NwCMbOTwAIxyPzmAjHJlucCMeqHpwIx9/zYAjH4/NkCMfn9pgIyD5POAjIllfECMi+c6QIyMfzkAjIylK8CMjP6dwIyNJPMAjJWjOECMl6HqQIyYpBaAjKBjFQCMomTvwIyivtRAjKrk7kCMqz+1wIyrZO3AjLSk9kCMuCTuwIy4ZPaAjMAmKMCMwqQ0QIzH5tuAjO0+nACM8yb6wIz3ptvAjPm/PwCM/SLQAIz9aB7AjP5jKECM/qX9wIz/pPiAjQA/NYCND+VWQI0UJOmAjRv/UACNHKTXwI05ZfyAjUZnHYCNTCO+AI1UYzrAjVaj0cCNWebdAI1lZK0AjWZke0CNZyW0gI1u4fYAjXN/UYCNc6PTwI1z5VJAjXzm3UCNgD6XAI2F4dRAjYam3kCNjz9SwI2QJbTAjZZ/VgCNl+UXwI2d6D1AjaOh8cCNp6HfAI2ppJDAjatl/oCNrqd2QI235f0Ajbukk0CNwP9WwI3Fpt6AjcgntUCNy36rgI3L5zJAjc/klgCN2aOyAI3gZS0Ajeik+ECN7yT3wI3wvzwAjfVk+wCN9aX9gI315bPAjg6k94COcKKzwI6p5uiAjrb/WkCOu6TUgI6+piiAjsajOcCO1r9bgI8Y4ykAjyZ+nwCPJqT+gI8m5B8Ajy1j2cCPLedtwI8x6DpAjzI+k4CPMn9oQI8/J50Ajz9n78CPP6eywI8/5u5Aj1AndQCPVuXuQI9fo7xAj2PlXsCPbae0gI9t5dTAj24lqQCPbmPvgI9upTZAj27kFgCPbz9eQI9vf17Aj3jjtoCPfiO+gI+BodiAj4Rm6UCPiye2QI+LZfUAj4ukLsCPi/9vAI+MP3GAj4xkkgCPjmStQI+iJ3BAj6JkrkCPoqSpgI+i49LAj65m6YCPr+StgI+145AAj73ntgCPviUXgI++ZhfAj76lM4CPvuSSgI+/P1wAj81lGcCP0GN7AI/SpvYAj9hh2MCP3+USAI/gPrBAj+BnPcCP4L9vgI/j4/aAj+0/dkCP7f8fgI/wJP5Aj/F+kMCP+v66wI/7PrDAj/tl9MCP+6V+QI/75xIAj/w/dgCQBGg2AJAOf3XAkA6+0oCQDubrwJAPJRLAkA9/ckCQFeOrAJAhf2yAkCLkloCQIz8vQJAjZLZAkCR/dUCQMmS3QJA4ZJZAkDsjPACQQSWugJBD5JbAkEZm6sCQT/92gJBQP3eAkFE/dMCQU6MRgJBVf3WAkFW/dwCQVf93QJBXJD+AkFf/qECQWGHpQJBd4utAkF6nNgCQaOebQJBpP18AkGl+2ECQayW+AJBtZbwAkHN/PQCQeL+YAJB/JhSAkIblk8CQkuRbgJCVphtAkJZmGQCQnaUUwJCd/3sAkJ4+3gCQoSVugJCk5hdAkKVkvkCQqWYWgJCv4dQAkLB/fYCQsmT0AJCyphiAkLum60CQvqXTwJDDZuuAkMalFICQzSbsAJDSJHSAkNil+oCQ2P7awJDZJGxAkNl/fMCQ4ySywJDlpuxAkOc/OwCQ72YawJDwZdRAkPpmHECQ+qV7wJD8p7zAkP4kegCRASbugJENftMAkQ2kmoCRFr9+AJEW5hhAkRzkecCRIeT7QJEiJdEAkS5keECRLz79QJEzphpAkTTimICRNabuwJFBYyoAkUhnFUCRXiOdwJFyIqyAkYYnrwCRiqT5gJGZZOiAkZ0m70CRpeUswJG1JN9AkcGnmYCRyWUWQJHL5u/AkePlFgCR+CepQJIEpvHAkgj/lQCSIKOdAJI6YvWAkjwlLYCSPH9dAJI8pjAAkjzlKUCSPubyAJI/5XtAkkA/X4CSQH76wJJDP19AkkWl28CSReUYQJJGZ/BAkkvldcCSTP6UgJJNJxYAkk+n2gCST+b5wJJQPzOAklBlugCSUL6SQJJQ5ehAklilU0CSWOe+AJJdP5JAkl1kc4CSXaXcQJJe4zPAkl//bECSYL8bgJJiJzyAkmJk7gCSYqQQwJJi5dZAkmMlNcCSY3+ZgJJjpR9AkmP/G8CSZSSRgJJpPptAkmnjvcCSan7twJJq5R8Akmsks0CSa2XsgJJt/5lAkm4ln4CSbmXWAJJupt3Akm7kc8CScWUpAJJ0JytAknai6sCSd6W1QJJ3/yzAknjk64CSeWXbQJJ7JRGAkntlfcCSfacRgJJ95VbAkn4kdECSfmU9AJJ+/5nAkoOkqUCShL+3wJKE4yrAkoVm8kCSiH87QJKIv36Akoj/MgCSiT+YgJKJZH8Akom/msCSif9+QJKKPzHAkopkU4CSiqcuAJKPpdnAkpCle4CSkWbsgJKSpRgAkpOlKICSk+YdQJKUJesAkpRkdMCSl2YewJKZY7rAkpml2oCSmeWXgJKcZfrAkp3n/kCSniV+AJKef6iAkp6j+YCSoz+fgJKk52kAkqUl2gCSpWO7AJKlpS9AkqklFsCSqWc9gJKpvqnAkqnm9kCSrH6XQJKspZWAkqzl2ICSrqUugJKu6BPAkq8ktgCSsCbywJKx5S7AkrKnV8CStGQzwJK35RlAkrin0wCSumQ2AJLD41bAktunr4CS/X7bQJMCZXKAkyencICTJ+X+AJMyY/8AkzZlHMCTQaUdAJNE/63Ak24iksCTeqKVQJN64tpAk47itwCTlCLdgJOpZvOAk6nimgCTw6g+AJPXJjfAk+C/rUCT4abzwJPl5b7Ak+am/sCT6mezgJPuI7lAk/CnnsCUCyb0gJQUoqlAlCd/s4CUSuKRQJRSJ38AlF9/s8CUX6LpQJRzYxKAlHjiuwCUeb84AJR55StAlIg/tUCUiGUrAJSUPxaAlKZm9YCUseKbwJS2IupAlMOjl8CUxGdywJTE/znAlQZm9cCVCWTyAJUL5HwAlQwj+ACVEab2wJUbJDtAlRum9wCVJqNUwJVMaDsAlU1mPoCVT+b4AJVW5PHAlVckkkCVV2W4QJVXpviAlVim+QCVWWP4QJVZpvlAlWBlMACVYSTwwJVj5PFAlW5kHkCVdWXewJV25B+AlXg/uYCVgX+RgJWNZ24AlZRknACVoOVqAJWlYywAlbjlMgCVvaYuQJXBpFAAlcd/L4CVyWRVwJXPYuyAldy+t8CV8eb5gJX35ZDAlfgjkQCV+GcTwJYV/70Alhdm+gCWHKT3AJYyJZvAljeh6ECWOGOSgJZA5vtAllGkvYCWVaduQJZrI5OAlnM+88CWlSHYAJalZ7CAlqclOUCWq6b8AJar5TkAlrplVECW3SLuwJbiZvxAluzlPACW7SOZAJbxpTqAlvkj2ECW+ibZAJcAY5bAlwGm/ICXCGfvgJcSp3JAlxljmwCXJGPcwJcpIyvAlzAj3UCXMGOcQJc/o5gAl0gjmoCXTCMTAJdQ5VSAl2Zh88CXbmHwAJeDpVUAl5JitQCXoGduwJegpVDAl6Dkv4CXqaU8gJevJTxAl7XoOoCXtid0gJfGqCxAl9LkfgCX+GUYgJf4pukAmAhh30CYCmOrQJgSJ6tAmBkltACYIP+7gJgl4q0AmCkl1cCYKWKdwJhApv3AmEhjrUCYVmgbQJhWo62AmFbl1YCYVyVQAJhraDzAmGulL4CYbKb+gJh3f3fAmJYnbwCYmGU/gJiaovbAmJroP4CYtCOwAJjNZ9HAmNLi94CY0yg+wJjUY7DAmO+lkkCY/X+wgJj+JVMAmQCm/0CZBCQzAJkEZxgAmQSlUsCZEqb/gJkaZxwAmSEnEMCZIicRwJkiY7MAmSNjlQCZJiO5AJlEpxJAmVyi14CZaCVXgJlrZVcAmW/nEsCZhKL4QJmJo7ZAmavnbQCZrGSXwJmtZxMAmbaiqECZuiO2wJm/JxWAmcWiqICZ0GXVAJnmZxeAmezntQCZ7SVaAJnzKDDAmgciuYCaEag9wJoXpxhAmhunF8CaIj8TQJoip5bAmiTnmkCaMecYwJpDv7HAmkR/sYCaSacZwJpOZxpAmlRi+ICaaiRZQJptZznAmnyilQCafqcbAJqLZxuAmou/l0CajSccwJqQpVqAmpRlW0CalKO8AJrBY9NAmsKjvYCaxP6vAJrFYzVAmsjh14Cayj72gJrUItMAmtR/XUCa1Kb3QJrU/r1AmtbnHQCa3WVRQJrgpbGAmuWj2oCa5ePTgJrnZx4Amuz+lUCa8CX5AJr95xBAmwhklwCbECW+gJsQYz2AmxGjU0CbH77ZgJsf45lAmyAmEkCbIH7qAJsgphCAmyknHoCbLeX+wJsuJDKAmy9nFsCbMCXTQJsw47TAmzRlWECbSKfSwJtI5+1Am0kk9ICbSX9qgJtJphAAm0nkUYCbSiYZwJtKfpaAm0q+6kCbVGYQQJtdIzTAm2g/P0CbaH9qwJtopG9Am2jj0wCbaSWyQJtpY9VAm2m+64CbaeVbwJtrpx9Am3coPACbeqUbwJt6/2sAm3wlssCbgCWzgJuBaBWAm4HnOECbhKWxAJuQo9eAm5Dj2wCbkSOowJuRfuzAm5u/FMCbnL9swJud49rAm6ElsoCboiHzQJui4dTAm6Zj3kCbtCebwJu0aDFAm7S/HgCbtOOQgJu1I9aAm7VkMICbtaOpQJu15BhAm8mkk8Cb3OTcwJvdP21Am+f/swCb6H7vQJvvozWAm/emEMCb9+WxQJwDom8AnBLnKMCcFKSSwJwU5hKAnCIj6QCcK2g8QJwrp77AnCvnNICcM2PpwJw0odUAnD4/FwCcQmYRQJxDJBGAnENjNECcSb++gJxJ5VgAnFkn0gCcWWSRwJxdZD7AnHNnKQCchuVcQJyZ4dFAnKAnKYCcoWcpwJyi5yqAnKyntMCcraecAJy5pysAnNSh1ICc5qPrgJz/41QAnQilX0CdFCcsAJ0hJe2AnSGoL0CdXSK3wJ1o56qAnXgj70CdeSPvwJ1/ZNpAnX+m6cCdgfIpAJ2DP7qAnYym+ECdjmLQQJ2VZ22AnZWoOsCdlebowJ2lIuhAncPj8gCdzWJTAJ3NphgAndBlMcCd16LWAJ3hJWrAneFlaoCd8ycwwJ4WJzEAnhwk9YCeJ2drAJ4sovmAnjIinECeSSP0QJ5Z5nVAnl6kPQCeaCKowJ53ZzOAnn9nNQCegqc1QJ6DvvIAno+nbMCelP8cAJ6WY/XAnp5m3MCeoT6WwJ6vY/SAnq+kGQCevSYtgJ7BpZoAnsLnNYCexiYvQJ7OI/cAns5/vYCezqP2QJ7SJVBAntlh8oCe++HbAJ79JfzAnwSm/gCfGyHWgJ8sYdIAnzFh0oCfS+ebAJ9U4/yAn1Uj+4CfWac1wJ9c55uAn2EikACfY+P7wJ9mI/0An29j/UCfdyVwgJ+TZhqAn5Pl88Cfy6e5QJ/+Z58AoACkEECgAmc2wKAHpRBAoAjnOYCgCSdsAKASJzqAoCDnO0CgJCc+gKAvYtiAoC+ik4CgOicygKA6YpmAoD0nPsCgS6c/AKBT5z+AoFdilMCgW+c5QKBiZ1AAoGvnUECgbyQRQKCB4tzAoIYl8oCghqdQgKCVophAoJ8i64CgpuK0gKCzYuiAoLinfICgwadQwKDGJzfAoMvnUQCgzqOygKDZZBOAoNtjrMCg32f9QKDip1FAoQSkE8ChGidRwKEbInKAoRznLUChIL7/gKFAZBeAoU8kGMChT2QVwKFbJBmAoXom8AChfT85QKGAJFiAoYLkGcChiWPoQKGO4+iAoaqnUgChqv60wKGso1PAoa8kF0ChtiQuQKG5pBrAocPjFwChxOQaQKIBP5XAogr/lUCiQ2HpgKJM5BzAolIm+8CiUmc8AKJVp1LAolk/tkCiWj+2gKJbJHgAoltjUMCiX6R2AKJiZZGAomok2ACiar6UwKJq5zTAom4nU4Cibz7QAKJwI3iAonclEICid6QVgKJ4ZhlAonjjGwCieT6SgKJ551QAononVICifmVrwKJ+pdaAon7k0kCifyXRwKKD6D0AooWl3gCiiWPzwKKKfxgAooyjE4Cijb8VgKKRJHcAopFlmECikaS7AKKR5NdAopIjt4CikmW/gKKSv1PAopLld4CilmYsAKKWqBAAoqBl70CioKXfQKKg5f1Aoqam6wCipv62gKKnJLCAorAl7ECisaQewKKy5P+AorMlHsCis6XdwKK3vq+Aorf/UMCiuCQxgKK4ZCkAorikKgCiuOUqQKK5ZCpAorqjGUCivyV4AKLDJB9AosTkmUCiyH9ugKLIpPEAosr/u0CiyydqwKLLaDjAosvlkgCi0adUwKLTIqpAotOm8UCi1CWXQKLY5dfAotkll8Ci2WWbgKLZvtdAotsnbECi4/+owKLmZ2yAoucla4Ci538owKLuYdpAovCoKICi8WWVQKL1J1UAovXk0ECi9mVrQKL2pHVAovnl3oCi+j9/AKL6Y5HAovqk/0Ci+uQpQKL7JCsAov1lawCi/+QrgKMA/6lAowJnVYCjByX4wKMHZXiAowjlGYCjCaWRwKMK5G4AowwnOwCjDmQrQKMO5XjAozKi08CjM2K4wKM0otNAo00leoCjZmLTgKNuYzBAo4Pi+0CjjaR2QKOOaCkAo5llfUCjmaV9AKOl5+zAo6s/q8CjrL+cgKOs5J6Ao7Z/qwCjueV8wKPxZ1YApB5jUYCkIiTcgKQi5HFApCTlkICkK+QzQKQsJX+ApCxkVkCkMCcZQKQ5JfMApDlkM4CkOydWQKQ7fz1ApEN/v0CkRCdWwKRPJ1cApFNk34CkVuYrAKRXp1eApFw/dACkZz9YAKRqJzPApHVkN0CkeuQ4AKUHZDzApQgmLEClDOQ8AKUP5O9ApRIlbcClNCfRgKU2Y5LApTallgClOWKTAKU551jApWens8ClbCdZQKVuJ1mApXXlloClemdZAKV9IpsApcgitkClzKdZwKX1IpwApgQi/MCmFeRUAKYpJzBApjRnWgCmOqTpwKY8ZZ0Apj6jP0CmQOg7wKZBZFRApkvlsECmUWHdwKZR4xkAplIlnYCmUmdaQKZXfykAplqnWoCmZ2STgKZw51rApnJm8ECmiidbAKaTYplApsFkV0Cmw6dbQKb1ZFaApxzjEICnK2cwAKdPpFqAp1anW4CnXyepgKdmJ3NAp2bnW8CnfaJuwKeBp75Ap4tlrQCnmiRcgKerJ7IAp6wh3ECnsOLVQKe+J1xAp8jnXICnzCezAKft5F0Ap/entACoBSQXAKgh47SAqC5kagCoOGRdwKg7Za/AqDzlsACoPiPsQKg/pa3AqEHjFUCoSOReAKhM4m+AqE0kXwCoVD7dwKhkpF1AqGTkaMCoauRdgKhtJa+AqG1jUkCod+ReQKh9Za2AqIgkaQCojORpgKik511AqKfkFICorKgRQKitJGpAqK2mKoCorqMXwKivYuqAqLfnN0Cov+ddwKjUYdWAqOpiUACpDSe7AKkW5OqAqXGlHgCpcudegKmAYrJAqYyi0sCpkqf7AKmW4riAqapnnUCrf+H3AL4JZh0Avg7msgC+ECgRwL4eIvDAviU/EgC+Kb8dwL4zZxSAvmUjv0C+bKPqAL5vJV6AvnUj/A=";
+export const BIG5_COUNT = 18451;
@@ -0,0 +1,6 @@
+// Generated by scripts/generate-big5-data.ts from data/big5-uao-u2b.txt. Do not edit.
+export const BIG5_SOURCE = "moztw.org (UAO 2.50)";
+export const BIG5_SOURCE_URL = "https://moztw.org/docs/big5/table/uao250-u2b.txt";
+export const BIG5_CHECKSUM = "40a6251450501e3185fcb4ff0fba1ec77d9c927f01695f3ae56919fbc71d96ec";
+export const BIG5_DATA = "AAChoN8AAKKiRgAAo6JHAACkoPwAAKWiRAAAp6GxAACoxtgAAKqg3gAArpf7AACvocIAALCiWAAAsaHTAAC0oawAALWjZwAAtpH4AAC3oVAAALig+wAAuqDuAAC8/rMAAL3+sAAAvv60AAC/oO8AAMCgpwAAwaCsAADCoPYAAMOgvgAAxKC2AADFoNYAAMaguwAAx6C8AADIoKgAAMmg1wAAyqD3AADLoLcAAMygqQAAzaCtAADOoPgAAM+guAAA0KDaAADRoL0AANKgqgAA06CuAADUoPkAANWgvwAA1qC5AADXodEAANig2QAA2aCrAADaoK8AANug+gAA3KC6AADeoNwAAN+g3QAA4KDgAADhoMAAAOKg8AAA46DOAADkoMYAAOWg5gAA5qDLAADnoMwAAOig4QAA6aDBAADqoPEAAOugxwAA7KDiAADtoMIAAO6g8gAA76DIAADwoOoAAPGgzQAA8qDjAADzoMMAAPSg8wAA9aDPAAD2oMkAAPeh0gAA+KDpAAD5oOQAAPqgxAAA+6D0AAD8oMoAAP6g7AAA/6DtAAEBoLAAAROgsQABG6DRAAEroLIAAUqb1QABTaCzAAFTm+UAAWugtAABkqD+AAHOoNAAAdCg0gAB0qDTAAHUoNQAAdagtQAB2KDFAAHaoNUAAdyg5QACUZvLAAJSm+YAAlSbzAACWZvPAAJam9AAAlubyAACXJvRAAJdm84AAmGb0gACapvHAAJvm+AAAnWb1wACeJvhAAKDm9kAAoeb4gACipvNAAKMm8oAApKb2gACpJvcAAKnm9sAAsbG2QACx6O+AALJo7wAAsqjvQACy6O/AALNocUAAs+b6QAC2aO7AAORo0QAA5KjRQADk6NGAAOUo0cAA5WjSAADlqNJAAOXo0oAA5ijSwADmaNMAAOao00AA5ujTgADnKNPAAOdo1AAA56jUQADn6NSAAOgo1MAA6GjVAADo6NVAAOko1YAA6WjVwADpqNYAAOno1kAA6ijWgADqaNbAAOxo1wAA7KjXQADs6NeAAO0o18AA7WjYAADtqNhAAO3o2IAA7ijYwADuaNkAAO6o2UAA7ujZgADvKNnAAO9o2gAA76jaQADv6NqAAPAo2sAA8GjbAADw6NtAAPEo24AA8WjbwADxqNwAAPHo3EAA8ijcgADyaNzAAQBx/kABBDH8wAEEcf0AAQSx/UABBPH9gAEFMf3AAQVx/gABBbH+gAEF8f7AAQYx/wABBnH/QAEGsf+AAQbyEAABBzIQQAEHchCAAQeyEMABB/IRAAEIMhFAAQhyEYABCLIRwAEI8hIAAQkyEkABCXISgAEJshLAAQnyEwABCjITQAEKchOAAQqyE8ABCvIUAAELMhRAAQtyFIABC7IUwAEL8hUAAQwyFUABDHIVgAEMshXAAQzyFgABDTIWQAENchaAAQ2yFwABDfIXQAEOMheAAQ5yF8ABDrIYAAEO8hhAAQ8yGIABD3IYwAEPshkAAQ/yGUABEDIZgAEQchnAARCyGgABEPIaQAERMhqAARFyGsABEbIbAAER8htAARIyG4ABEnIbwAESshwAARLyHEABEzIcgAETchzAAROyHQABE/IdQAEUchbAB47m9YAHkOb0wAeSZvUAB7yoNsAHvOg6wAgEJ/sACAToVYAIBShWAAgFaJ3ACAWofwAIBihpQAgGaGmACAcoacAIB2hqAAgIKHPACAhkd4AICKhRQAgJKO7ACAloUwAICahSwAgJ6FFACAw/uIAIDKhrAAgM6GyACA1oasAIDuhsAAgPJH3ACA+ocMAIKyj4QAhA6JKACEFocEAIQmiSwAhFp3PACEeneIAISGdyQAhIpf8ACErllIAITudyAAhU/6xACFU/rIAIVX+tQAhVv62ACFX/rcAIVj+uAAhWf65ACFa/roAIVv+wQAhXP7CACFd/sMAIV7+xAAhYKK5ACFhoroAIWKiuwAhY6K8ACFkor0AIWWivgAhZqK/ACFnosAAIWiiwQAhaaLCACFwxrUAIXHGtgAhcsa3ACFzxrgAIXTGuQAhdca6ACF2xrsAIXfGvAAheMa9ACF5xr4AIZCh9gAhkaH0ACGSofcAIZOh9QAhlJH7ACGVkfYAIZah+AAhl6H5ACGYofsAIZmh+gAhqJH6ACGynf0AIbjIdwAhuch4ACHLllMAIdSZZQAh5p1KACHnyHYAIeidSQAh6Z1MACIAkfkAIgKgeQAiA5j5ACIHob4AIgiRawAiC5FfACIPo1MAIhGjVQAiFaJBACIWokIAIhiiWAAiGqHUACIeodsAIh+h6AAiIKHnACIjof0AIiWh/AAiJ6NOACIoouQAIimh5AAiKqHlACIroewAIiyfTAAiLqHtACI0oe8AIjWh7gAiNqFHACI3n0YAIlKh3AAiYKHaACJhod0AImOh3QAiZqHYACJnodkAIoKa4AAig5qmACKGnHIAIoecqgAilaHyACKZofMAIqWh5gAiv6HpACMCkfwAIwehWwAjEv7ZACQAo8AAJAGjwQAkAqPCACQDo8MAJASjxAAkBaPFACQGo8YAJAejxwAkCKPIACQJo8kAJAqjygAkC6PLACQMo8wAJA2jzQAkDqPOACQPo88AJBCj0AAkEaPRACQSo9IAJBOj0wAkFKPUACQVo9UAJBaj1gAkF6PXACQYo9gAJBmj2QAkGqPaACQbo9sAJByj3AAkHaPdACQeo94AJB+j3wAkIaPgACRgxqEAJGHGogAkYsajACRjxqQAJGTGpQAkZcamACRmxqcAJGfGqAAkaMapACRpxqoAJGqXSwAka5dMACRsl00AJG2XTgAkbpdPACRvl1AAJHCXUQAkcZdSACRyl1MAJHOXVAAkdMarACR1xqwAJHbGrQAkd8auACR4xq8AJHnGsAAkesaxACR7xrIAJHzGswAkfca0ACR+mUsAJH+ZTAAkgJlNACSBmU4AJIKZTwAkg5lQACSEmVEAJIWZUgAkhplTACSHmVQAJIiaQQAkiZpCACSKmkMAJIuaRAAkjJpFACSNmkYAJI6aRwAkj5pIACSQmkkAJJGaSgAkkppLACSTmkwAJJSaTQAklZpOACSWmk8AJJeaUAAkmJpRACSZmlIAJJqaUwAkm5pUACScmeEAJJ2Z4gAknpnjACSfmeQAJKCZ5QAkoZnmACSimecAJKOZ6AAkpJnpACSlmeoAJKaZ6wAkp5nsACSome0AJKmZ7gAkqpnvACSrmfAAJKyZ8QAkrZnyACSumfMAJK+Z9AAksJn1ACSxmfYAJLKZ9wAks5n4ACS0mfkAJLWZ+gAktpfHACS3l8gAJLiXyQAkuZfKACS6l8sAJLuXzAAkvJfNACS9l84AJL6XzwAkv5fQACTAl9EAJMGX0gAkwpfTACTDl9QAJMSX1QAkxZfWACTGl9cAJMeX2AAkyJfZACTJl9oAJMqX2wAky5fcACTMl90AJM2X3gAkzpffACTPl+AAJNCX4QAk0ZfiACTSl+MAJNOX5AAk1JflACTVl+YAJNaX5wAk15foACTYl+kAJNmX6gAk2pfrACTbl+wAJNyX7QAk3ZfuACTel+8AJN+X8AAk4JfxACThl/IAJOKX8wAk45f0ACTkl/UAJOWX9gAk5pf3ACTnl/gAJOiX+QAk6Zf6ACTql0AAJQCidwAlAZ19ACUCongAJQOdfgAlBKFMACUFoUwAJQahSgAlB6FKACUIoUsAJQmhSwAlCqFVACULoVUAJQyiegAlDaJ6ACUOonoAJQ+iegAlEKJ7ACURonsAJRKiewAlE6J7ACUUonwAJRWifAAlFqJ8ACUXonwAJRiifQAlGaJ9ACUaon0AJRuifQAlHKJ1ACUdonUAJR6idQAlH6J1ACUgonUAJSGidQAlIqJ1ACUjonUAJSSidAAlJaJ0ACUmonQAJSeidAAlKKJ0ACUponQAJSqidAAlK6J0ACUsonMAJS2icwAlLqJzACUvonMAJTCicwAlMaJzACUyonMAJTOicwAlNKJyACU1onIAJTaicgAlN6JyACU4onIAJTmicgAlOqJyACU7onIAJTyicQAlPaJxACU+onEAJT+icQAlQKJxACVBonEAJUKicQAlQ6JxACVEonEAJUWicQAlRqJxACVHonEAJUiicQAlSaJxACVKonEAJUuicQAlTpHwACVQ+fkAJVH5+AAlUvnmACVT+e8AJVT53QAlVfnoACVW+fEAJVf53wAlWPnsACVZ+fUAJVr54wAlW/nuACVc+fcAJV355QAlXvnpACVf+fIAJWD54AAlYfnrACVi+fQAJWP54gAlZPnnACVl+fAAJWb53gAlZ/ntACVo+fYAJWn55AAlavnqACVr+fMAJWz54QAlbaJ+ACVuoqEAJW+iowAlcKKiACVxoqwAJXKirQAlc6KuACV0oVoAJYGiYgAlgqJjACWDomQAJYSiZQAlhaJmACWGomcAJYeiaAAliKJpACWJonAAJYqibwAli6JuACWMom0AJY2ibAAljqJrACWPomoAJZP5/gAllKJ2ACWVonkAJaChvQAloaG8ACWyobYAJbOhtQAltpH0ACW8ob8AJb2hvgAlxJH1ACXGobsAJcehugAly6GzACXOobcAJc+htAAl2JHxACXZkfIAJeKiqAAl46KpACXkoqsAJeWiqgAl76GzACYBnboAJgKdvAAmBaG5ACYGobgAJgmh8wAmDp1AACYRne0AJhKc0QAmG51PACYcnU4AJh6dTQAmH51QACYgndUAJi+fVQAmMJ9WACYxn10AJjKfWwAmM59YACY0n1kAJjWfWgAmNp9cACY3n1cAJjmdXgAmOp1dACY7mPwAJjyduAAmPZ1XACZAofAAJkGh8gAmQqHxACZgndgAJmGd3QAmYp3bACZjndoAJmSd1wAmZZ3eACZmndwAJmed2QAmap1mACZsnWUAJm2i6gAmb6GtACcCnWwAJwidwAAnCZ1rACcTnVUAJxWdVAAnIZ1cACcpnVsAJz3G5gAnT513ACd2mEEAJ3eYQgAneJhDACd5mEQAJ3qYRQAne5hGACd8mEcAJ32YSAAnfphJACd/mEoAJ4DGoQAngcaiACeCxqMAJ4PGpAAnhMalACeFxqYAJ4bGpwAnh8aoACeIxqkAJ4nGqgAniphBACeLmEIAJ4yYQwAnjZhEACeOmEUAJ4+YRgAnkJhHACeRmEgAJ5KYSQAnk5hKAC6Ake0ALoeczgAuipzVAC6MnNQALpWc2wAul5HbAC6kkckALq6c9wAvAsa/AC8DxsAALwXGwQAvB8bCAC8MxsMALw3GxAAvDsbFAC8TxsYALxbGxwAvGcbIAC8bxskALyLGygAvJ8bLAC8uxswALzPGzQAvNMbOAC81xs8ALznG0AAvOsbRAC9BxtIAL0bG0wAvZ8bUAC9oxtUAL6HG1gAvqsbXADAAoUAAMAGhQgAwAqFDADADobIAMAXG4AAwBsbhADAHxuIAMAihcQAwCaFyADAKoW0AMAuhbgAwDKF1ADANoXYAMA6heQAwD6F6ADAQoWkAMBGhagAwEqJFADATll0AMBShZQAwFaFmADAWnVEAMBedUgAwHKHjADAdoakAMB6hqgAwIaLDADAiosQAMCOixQAwJKLGADAloscAMCaiyAAwJ6LJADAoosoAMCmiywAwMKHKADA4oswAMDmizQAwOqLOADBBxucAMELG6AAwQ8bpADBExuoAMEXG6wAwRsbsADBHxu0AMEjG7gAwScbvADBKxvAAMEvG8QAwTMbyADBNxvMAME7G9AAwT8b1ADBQxvYAMFHG9wAwUsb4ADBTxvkAMFTG+gAwVcb7ADBWxvwAMFfG/QAwWMb+ADBZx0AAMFrHQQAwW8dCADBcx0MAMF3HRAAwXsdFADBfx0YAMGDHRwAwYcdIADBix0kAMGPHSgAwZMdLADBlx0wAMGbHTQAwZ8dOADBox08AMGnHUAAwasdRADBrx1IAMGzHUwAwbcdUADBux1UAMG/HVgAwcMdXADBxx1gAMHLHWQAwc8daADB0x1sAMHXHXAAwdsddADB3x14AMHjHXwAwecdgADB6x2EAMHvHYgAwfMdjADB9x2QAMH7HZQAwf8dmADCAx2cAMIHHaAAwgsdpADCDx2oAMITHawAwhcdsADCGx20AMIfHbgAwiMdvADCJx3AAMIrHcQAwi8dyADCMx3MAMI3HdAAwjsd1ADCPx3YAMJDHdwAwkcd4ADCSx3kAMJPHegAwlMizADCbyLEAMJzIsgAwncbcADCext0AMKHHewAwosd8ADCjx30AMKTHfgAwpcehADCmx6IAMKfHowAwqMekADCpx6UAMKrHpgAwq8enADCsx6gAMK3HqQAwrseqADCvx6sAMLDHrAAwscetADCyx64AMLPHrwAwtMewADC1x7EAMLbHsgAwt8ezADC4x7QAMLnHtQAwuse2ADC7x7cAMLzHuAAwvce5ADC+x7oAML/HuwAwwMe8ADDBx70AMMLHvgAww8e/ADDEx8AAMMXHwQAwxsfCADDHx8MAMMjHxAAwycfFADDKx8YAMMvHxwAwzMfIADDNx8kAMM7HygAwz8fLADDQx8wAMNHHzQAw0sfOADDTx88AMNTH0AAw1cfRADDWx9IAMNfH0wAw2MfUADDZx9UAMNrH1gAw28fXADDcx9gAMN3H2QAw3sfaADDfx9sAMODH3AAw4cfdADDix94AMOPH3wAw5MfgADDlx+EAMObH4gAw58fjADDox+QAMOnH5QAw6sfmADDrx+cAMOzH6AAw7cfpADDux+oAMO/H6wAw8MfsADDxx+0AMPLH7gAw88fvADD0x/AAMPXH8QAw9sfyADD3yLQAMPjItQAw+ci2ADD6yLcAMPvIuAAw/MbjADD9xtoAMP7G2wAxBaN0ADEGo3UAMQejdgAxCKN3ADEJo3gAMQqjeQAxC6N6ADEMo3sAMQ2jfAAxDqN9ADEPo34AMRCjoQAxEaOiADESo6MAMROjpAAxFKOlADEVo6YAMRajpwAxF6OoADEYo6kAMRmjqgAxGqOrADEbo6wAMRyjrQAxHaOuADEeo68AMR+jsAAxIKOxADEho7IAMSKjswAxI6O0ADEko7UAMSWjtgAxJqO3ADEno7gAMSijuQAxKaO6ADGSpEAAMZOkRwAxlKRUADGVpXwAMZakVwAxl6SkADGYpFUAMZml0gAxmqRBADGbpP4AMZykQgAxnaTRADGepmEAMZ+kSAAxz8h5ADIgnEEAMiGcQgAyIpxDADIjnEQAMiScRQAyJZxGADImnEcAMiecSAAyKJxJADIpnEoAMiqk6wAyK6T1ADIspPQAMi2k7AAyLqr3ADIvpGcAMjCk6QAyMZn9ADIymfwAMjOqwAAyNKZXADI1r1MAMjawXQAyN6+sADI4s9IAMjmlTgAyOqlJADI7vscAMjy6ygAyPaX4ADI+uOoAMj+o8wAyQLK9ADJBpfAAMkKm2wAyQ6bcADKApEAAMoGkRwAygqRUADKDpXwAMoSkrQAyhaS7ADKGpEMAMoekSwAyiKRFADKJpFEAMoqk6wAyi6T1ADKMpPQAMo2k7AAyjqr3ADKPpGcAMpCk6QAyka7oADKSprMAMpOqwAAylKZXADKVr1MAMpawXQAyl6+sADKYs9IAMpmvtQAymqhrADKbpGsAMpy+QQAyncB1ADKepkwAMp+qYAAyoLa1ADKhpfAAMqK8ZwAyo6HAADKkpFcAMqWkpAAypqRVADKnpaoAMqilawAyqcLlADKqqXYAMqu+xwAyrLrKADKtpfgAMq646gAyr6jzADKwqV0AM46iVQAzj6JWADOcolAAM52iUQAznqJSADOholQAM6Wd5wAzwp3jADPEolcAM86iUwAz0aHrADPSoeoAM9WiTwAz2J3kADQEkeAANFGgogA03/tEADVRlbgANc6gSAA10qBMADXW+98ANfP75QA1/vtvADYtlUIANlT+fQA2x/5nADm4lV4AOiqV3gA6V5XHADpc/GEAO+2VyQA80fx8AD3M/KgAPtn+cQBAZfzCAEDf/k0ARDaWrQBEkZzTAES3/V4AROr+SgBE+/1nAEYP+7AASYn7fQBLfv3jAEwE/fEATAf97wBMO/3yAEx9+0UATgCkQABOAaRCAE4DpEMATgSYpwBOBpHXAE4HyUUATgikVgBOCaRUAE4KpFcATgukVQBODMlGAE4NpKMATg7JTwBOD8lNAE4QpKIAThGkoQBOE4P9AE4UpUIAThWlQQBOFqVAAE4XgUAAThilQwBOGaT+AE4ahdIAThuKvQBOHINbAE4dhUYATh6l4ABOH6XhAE4hk+UATiKBQQBOJINVAE4li/IATiaowwBOJ4TKAE4onMkATiqDqgBOK6RYAE4sgUIATi2kpABOLslQAE4vmKgATjCkpQBOMcljAE4ypuoATjPLsQBONIpaAE42xr8ATjeRzABOOKRZAE45pKYATjqDbwBOO6VEAE48yWQATj2L7QBOPopbAE4/xsAATkLJQABOQ6REAE5ElPIATkWkWwBOR8lHAE5IpFwATkmF8wBOS6SnAE5Mg78ATk2lRQBOTqVHAE5PpUYATlCH5ABOUqXiAE5TpeMATlSEzgBOVYFDAE5WqMQATleS6QBOWK28AE5ZpEEATlqc3wBOW5zoAE5cyUEATl2kRQBOXqReAE5fpF0ATmCEdABOYYVwAE5igUQATmaDvABOaaXkAE5q/kEATnCFZwBOcYWvAE5zqMUATnigYQBOfrCuAE5/1EsAToCT+gBOgZipAE6CtsMAToPcsQBOhNyyAE6FxsEAToakRgBOh5iqAE6IpKkATomDXABOioFFAE6LqMYAToykRwBOjclIAE6OpF8ATo+KXwBOkaSqAE6SpKwATpPJUQBOlKStAE6VpKsATpj+YgBOmaXlAE6ag1IATpuoxwBOnJJAAE6eqMgATp+rRQBOoMbCAE6hpGAATqKkrgBOo5irAE6kpeYATqWl6ABOpqXnAE6nhGQATqim6wBOqYPCAE6rqMkATqyoygBOratGAE6uq0cATrCBRgBOsoldAE6zrb0ATrWKYgBOttyzAE63mKwATrn21gBOuqRIAE67nPQATryYrQBOv4ejAE7ApLAATsGkrwBOwslSAE7DpLEATsSktwBOxYWyAE7GpLIATsekswBOyMlUAE7JyVMATsqktQBOy6S2AE7NpLQATs6ERwBOz5PCAE7Rg1QATtODrABO1KVKAE7VpUsATtalTABO16VNAE7YpUkATtmlUABO2slqAE7cyWYATt3JaQBO3qVRAE7fpWEATuHJaABO46VOAE7kpU8ATuWlSABO6MllAE7pyWcATuqHpABO64FHAE7sg6gATu2BSABO7pJUAE7wpfUATvHJsABO8qXyAE7zpfYATvTJugBO9cmuAE72pfMATvfJsgBO+JiuAE77pfQATvyBSQBO/aX3AE7/pekATwDJsQBPAaX4AE8CybUATwP7ugBPBMm5AE8FybYATwjJswBPCaXqAE8KpewATwul+QBPDaXuAE8OyasATw+l8QBPEKXvAE8RpfAATxLJuwBPE8m4AE8Uya8ATxWl7QBPF4RnAE8YyawATxml6wBPGoXRAE8bjf0ATxyBSgBPHcm0AE8ehMQATx+D7ABPIIWxAE8iybcATySFtABPJYOpAE8mg6sATyeEwwBPKJivAE8pmLAATyqD6wBPK4NDAE8sya0ATy3KZgBPL6dCAE8wpvQATzL7vQBPM8pnAE80pvEATzanRABPN5ixAE84pvkATzn7vABPOqb4AE87ylsATzym/ABPPab3AE8+ymAATz/KaABPQcpkAE9CmLIAT0Om+gBPRZizAE9Gpv0AT0em7gBPSKdHAE9Jyl0AT0uYtABPTMu9AE9NpuwAT06nQwBPT6btAE9QpvUAT1Gm9gBPUspiAE9Tyl4AT1Sm+wBPVabzAE9WyloAT1em7wBPWMplAE9Zp0UAT1qnSABPW6byAE9cp0AAT12nRgBPXqbwAE9fymMAT2CnQQBPYcppAE9iylwAT2Om/gBPZMpfAE9ljkAAT2fKYQBPaajYAE9qy78AT2vLywBPbKjQAE9uy8wAT2+oywBPcKjVAE9ymLUAT3OozgBPdMu5AE91qNYAT3bLuABPd8u8AE94y8MAT3nLwQBPeqjeAE97qNkAT3zLswBPfcu1AE9+qNsAT3+ozwBPgMu2AE+By8IAT4LLyQBPg6jUAE+Ey7sAT4XLtABPhqjTAE+Hy7cAT4io1wBPicu6AE+KgUsAT4uo0gBPjajNAE+PqNwAT5DLxABPkajdAE+Sy8gAT5TLxgBPlcvKAE+WqNoAT5fLvgBPmMuyAE+ay8AAT5uo0QBPnMvFAE+dqMwAT57LxwBPoINlAE+hklUAT6KYtgBPo4NmAE+lhqsAT6aD7QBPp4PuAE+ohqwAT6mHpwBPqojKAE+r+74AT6yHpgBPrYJ9AE+uq1YAT6+rSgBPsJi3AE+yzeAAT7PN6ABPtJj3AE+1q0kAT7arUQBPt6tdAE+5ze4AT7rN7ABPu83nAE+9mLgAT7+rSwBPwM3tAE/BzeMAT8KrWQBPw6tQAE/Eq1gAT8XN3gBPx83qAE/ImLkAT8nN4QBPyqtUAE/LzeIAT8yYugBPzc3dAE/Oq1sAT8+rTgBP0KtXAE/Rq00AT9PN3wBP1M3kAE/WzesAT9erVQBP2KtSAE/ZzeYAT9qrWgBP283pAE/czeUAT92rTwBP3qtcAE/fq1MAT+CrTABP4atIAE/jjbkAT+SUXwBP5ZRgAE/miMgAT+iMyABP6YOnAE/qjGwAT+zN7wBP7YeoAE/urdcAT++twQBP8Ji7AE/xrdEAT/KYvABP863WAE/00NAAT/XQzwBP9tDUAE/30NUAT/itxABP+Zi9AE/6rc0AT/3+ewBP/q3aAE//gUwAUACtzgBQA5i+AFAF0MkAUAatxwBQB9DKAFAImL8AUAmt3ABQC63TAFAMrb4AUA2tvwBQDtDdAFAPsL8AUBGtzABQEq3LAFAT0MsAUBStzwBQFdRbAFAWrcYAUBfQ1gBQGK3VAFAZrdQAUBqtygBQG9DOAFAc0NcAUB7QyABQH63JAFAg0NgAUCGt0gBQItDMAFAjrcAAUCSCqQBQJa3DAFAmrcIAUCfQ2QBQKK3QAFAprcUAUCqt2QBQK63bAFAs0NMAUC2t2ABQLvvBAFAv0NsAUDDQzQBQMdDcAFAz0NEAUDSYwABQNdDaAFA2gqMAUDfQ0gBQOZKyAFA6hbAAUDuYwQBQPK3IAFA+hbMAUEDUYwBQQdRXAFBCgU0AUEOwswBQRdRcAFBG1GIAUEewsgBQSNRVAFBJsLYAUErUWQBQS9RSAFBMsLQAUE3UVgBQTrC5AFBPsL4AUFCBTgBQUdRnAFBT1FEAUFWwugBQVvu/AFBX1GYAUFiYwgBQWrC1AFBb1FgAUFywsQBQXdRTAFBe1E8AUF/UXQBQYNRQAFBh1E4AUGLUWgBQY9RgAFBk1GEAUGWwtwBQZpjDAFBo2FsAUGnUXgBQatRNAFBr1F8AUGyFtQBQbbDBAFBu1GQAUG+wwABQcNRMAFBy1FQAUHPUZQBQdLC8AFB1sLsAUHawuABQd7C9AFB4gU8AUHqwrwBQe43+AFB9sLAAUH6OZQBQf4nIAFCAs8gAUIGYxABQgtheAFCD2FcAUIWzxQBQh9hfAFCIkPAAUIvYVQBQjNhYAFCNs8QAUI7YWQBQkJjFAFCRs8cAUJLYXQBQlNhTAFCV2FIAUJazyQBQmLPKAFCZs8YAUJqzywBQm9hRAFCc2FwAUJ3YWgBQnthUAFCis8MAUKPYVgBQpYzJAFCm+8IAUKeIyQBQqInJAFCpj/sAUKy2ygBQrbbEAFCu3LcAUK+2zQBQsNy9AFCx3MAAULK2xgBQs7bHAFC03LoAULW2xQBQttzDAFC3tssAULjcxABQuty/AFC7tswAULyYxgBQvdy0AFC+tskAUL/ctQBQwdy+AFDC3LwAUMTcuABQxbbIAFDG3LYAUMe2zgBQyNy7AFDJ3MIAUMrcuQBQy9zBAFDNlE8AUM65tgBQz7mzAFDQmMcAUNG5tABQ0+D5AFDU4PEAUNW5sgBQ1rmvAFDX4PIAUNiBUABQ2fvDAFDaubEAUNvg9QBQ3eD3AFDegVEAUN+YyABQ4OD+AFDhmMkAUOPg/QBQ5OD4AFDlua4AUObg8ABQ57msAFDo4PMAUOm5twBQ6uD2AFDs4PoAUO25sABQ7rmtAFDv4PwAUPDg+wBQ8bm1AFDz4PQAUPSBUgBQ9bv4AFD25OwAUPjk6QBQ+bv5AFD7u/cAUPyYygBQ/eTwAFD+5O0AUP/k5gBRALv2AFEB+8YAUQK7+gBRA+TnAFEEu/UAUQW7/QBRBuTqAFEH5OsAUQi7+wBRCbv8AFEK5PEAUQvk7gBRDOTvAFENmMsAUQ77xABREL6qAFER6PgAURK+pwBRE+j1AFEUvqkAURW+qwBRFoFTAFEX6PYAURi+qABRGuj3AFEc6PQAUR/AdgBRIOy9AFEhwHcAUSLsuwBRJOy8AFEl7LoAUSbsuQBRKey+AFEqwHUAUSuYzABRLe+4AFEu77kAUTDk6ABRMe+3AFEywHgAUTPDXwBRNPHrAFE18ewAUTfE1wBROMTYAFE59cEAUTr1wABRO8VsAFE8xWsAUT330ABRP6RJAFFApGEAUUGkuQBRQ6S4AFFEpVMAUUWlUgBRRqX8AFFHpfsAUUil/QBRSaX6AFFKgVQAUUunSgBRTKdJAFFNp0sAUU6V/ABRUJLRAFFRgVUAUVKo4ABRVKjfAFFVqOEAUVaDZwBRV6teAFFZolkAUVrQ3gBRW6JaAFFcsMIAUV2iXABRXqJbAFFf2GAAUWCYzQBRYaJdAFFiubgAUWOiXgBRZIFWAFFlpEoAUWekugBRaKX+AFFpqOIAUWqBVwBRa6RLAFFspL0AUW2kuwBRbqS8AFFwjKMAUXGmQABRc4vXAFF0iVUAUXWnTABRdqjkAFF3qOMAUXio5QBReZC8AFF7iLUAUXyt3QBRfYumAFGAvqwAUYGQVABRgsbDAFGFgVgAUYaSTABRh8lOAFGIg1gAUYmlVABRiqVVAFGMleQAUY2mQQBRj8pqAFGQgVkAUZGrYABRkqtfAFGT0OAAUZTQ3wBRlbDDAFGWxsQAUZekvgBRmMlVAFGZh8AAUZr7QQBRm4N+AFGchmEAUZ2BWgBRnsvNAFGgq2EAUaKt4ABRpK3eAFGlrd8AUaaBWwBRp/tOAFGogVwAUamBXQBRqr6tAFGrxsUAUaylVgBRrpjOAFGvha0AUbCmQgBRscm8AFGyg0wAUbODSwBRtJT7AFG1ldUAUbanTQBRt6dOAFG4mM8AUbnKawBRu4OtAFG8y84AUb2o5gBRvsvPAFHAhGAAUcOV8wBRxNDiAFHF0OMAUcat4wBRx4FeAFHI0OQAUcmEWwBRytDhAFHLreQAUcyt4gBRza3hAFHO0OUAUc+QtgBR0NRoAFHRhO4AUdKY0ABR0/vPAFHU2GEAUdaBXwBR19zFAFHY4UAAUduBYABR3Lv+AFHdvq4AUd7o+QBR3/vQAFHgpEwAUeGkWgBR4pjRAFHkh6EAUeaS4QBR55RMAFHplGEAUeqUUgBR645jAFHsgWEAUe2I1wBR74TFAFHwsMQAUfGzzQBR87m5AFH0+8cAUfXJQgBR9qS/AFH4pVkAUfmlVwBR+qVYAFH7idsAUfyBYgBR/ajnAFH++9IAUf+NrQBSAKRNAFIBpE4AUgLIfQBSA6RiAFIElc8AUgWY0gBSBqTAAFIHpMEAUgikwgBSCcm+AFIKpVoAUguBYwBSDMlrAFINg9IAUg6mRgBSEMm/AFIRpkQAUhKmRQBSE8m9AFIUgWQAUhWBZQBSFqZHAFIXpkMAUhiHqgBSGYNoAFIag64AUhuExwBSHMpsAFIdquwAUh7KbQBSH/vIAFIggWYAUiHKbgBSI6B+AFIkp1AAUiWnTwBSJpV7AFInleUAUiinUwBSKadRAFIqp1IAUiuBZwBSLY26AFIuqO0AUjCo7ABSMcvUAFIyy9EAUjPL0gBSNJjTAFI1y9AAUjao7gBSN6jqAFI4qOkAUjmBaABSOqjrAFI7qOgAUjyY1ABSPYesAFI/jq8AUkCExgBSQajvAFJCiMwAUkOrYwBSRM3wAFJGy9MAUkeraABSSc3xAFJKq2QAUkurZwBSTKtmAFJNq2UAUk6rYgBST4FpAFJQjcgAUlGHqwBSUtDoAFJUrecAUlXQ6wBSVq3lAFJX+8oAUlmY1QBSWtDnAFJbregAUlyt5gBSXa3pAFJe0OkAUl/Q6gBSYPvJAFJh0OYAUmLQ7ABSY5KzAFJkkskAUmWCdgBSZ4epAFJomNYAUmmz0QBSarDFAFJr1GkAUmzUawBSbdRqAFJu1GwAUm+wxgBScJLrAFJxgWoAUnKzzgBSc/z1AFJ0s88AUnWz0ABSd7bQAFJ43McAUnmY1wBSetzGAFJ73MgAUnzcyQBSfbbRAFJ/ts8AUoDhQQBSgeFCAFKCubsAUoO5ugBShONaAFKHvEAAUoi8QQBSibxCAFKKvEQAUovk8gBSjOTzAFKNvEMAUo/7aQBSkIFrAFKRvq8AUpKBbABSk76wAFKUgW0AUpbx7QBSl/XDAFKY9cIAUpn30QBSmvvLAFKbpE8AUpyBbgBSnYvvAFKeiXQAUp+lXABSoKVbAFKhg+8AUqKOsABSo6ZIAFKkmNgAUqbJwABSqIPwAFKpp1UAUqqnVgBSq6dUAFKsp1cAUq3KbwBSrspwAFKvgW8AUrGJygBSsoNpAFKzhMgAUrST9QBStYFwAFK5laIAUruo8QBSvMvVAFK+qPAAUr+FtwBSwM3yAFLBq2wAUsLN8wBSw6trAFLFlUQAUseraQBSyatqAFLLhMkAUsyY2QBSzdDtAFLQgXEAUtH7zABS0rDHAFLT1G4AUtWwygBS1tRtAFLXseUAUtiwyQBS2bDIAFLbs9QAUt2z0wBS3rPSAFLfttIAUuD7zQBS4fvOAFLittUAUuO21gBS5LbUAFLmttMAUueSaABS6eFDAFLr4UQAUu/k9QBS8LxFAFLx5PQAUvKSpABS876xAFL07L8AUvXAeQBS9/HuAFL4xFUAUvnGxgBS+qRjAFL7pMMAUvzJVgBS/qTEAFL/pMUAUwCBcgBTAZReAFMClFMAUwOc0ABTBaVdAFMGpV4AUweBcwBTCKZJAFMJynEAUwrL1gBTC8vXAFMNq20AUw7Q7gBTD7DMAFMQsMsAUxHYYwBTEthiAFMVpFAAUxakxgBTF6VfAFMZsM0AUxrJQwBTHMlsAFMdpWAAUx/JwgBTIKZLAFMhpkoAUyLJwQBTI6dYAFMkgXQAUyaNyQBTJ5jaAFMqreoAUyz71ABTLdRvAFMuhq0AUy+21wBTMOFFAFMxubwAUzL70wBTM/vVAFM06PoAUzfz/QBTOMbHAFM5pMcAUzqD8QBTO4tLAFM8y9gAUz3N9ABTPrDQAFM/sM4AU0CwzwBTQaRRAFNCmNsAU0OkZABTRKLNAFNFpMoAU0aBdQBTR6TJAFNIpMgAU0mlYwBTSqViAFNMyW0AU03JwwBTToVPAFNPg1YAU1Go9QBTUqjyAFNTqPQAU1So8wBTVYTLAFNWiG8AU1erbgBTWJNtAFNas9UAU1ykUgBTXZjcAFNepMsAU1+BdgBTYKVlAFNhpWQAU2KJQQBTY8pyAFNkhMAAU2ao9gBTZ4NgAFNpxsgAU2uIVQBTbMlXAFNtlfIAU26lZwBTb6VmAFNwpkwAU3GmTQBTcspzAFNzp1kAU3SDagBTdadaAFN3qPcAU3io+ABTeaj5AFN6jb0AU3urbwBTfM31AFN9mN0AU36Y3gBTf63rAFOCyUQAU4SkzABThY1tAFOGiOUAU4mHrQBTisnEAFOLic0AU4yGrgBTjY27AFOOynQAU4/KdQBTksvZAFOTgXcAU5TL2gBTlYTaAFOWzfcAU5fN9gBTmM35AFOZzfgAU5qrcABTnNRwAFOdre0AU57Q7wBTn63sAFOglegAU6KV6QBTo4+2AFOk2GQAU6Wz1gBTppV6AFOn2GUAU6iHxQBTqYTbAFOq+9cAU6v71gBTrOFGAFOtub0AU66HxwBTsIF4AFOyvEYAU7OSugBTtPHvAFO2xskAU7nJWABTu6VoAFO/iU8AU8GVSABTwoPyAFPDsNEAU8WY3wBTyKRTAFPJpGUAU8qkzgBTy6TNAFPMi1oAU82kzwBTzoNCAFPQmOAAU9GE+gBT0pjhAFPUqPsAU9ao+gBT16j8AFPYjUAAU9mVswBT2vvbAFPbq3EAU92BeQBT363uAFPgjNQAU+Ho+wBT4sJPAFPjpGYAU+SlagBT5aV5AFPmpXQAU+ilbwBT6aVuAFPqpXUAU+ulcwBT7KVsAFPtpXoAU+6lbQBT76VpAFPwpXgAU/GldwBT8qV2AFPzpWsAU/WlcgBT9oX8AFP3hkEAU/ilcQBT+YaxAFP6lGIAU/ulewBT/KVwAFP9h7QAU/6Y4gBUAaZTAFQDplkAVASmVQBUBqZbAFQHycUAVAimWABUCaZOAFQKplEAVAumVABUDKZQAFQNplcAVA6mWgBUD6ZPAFQQplIAVBGmVgBUEqZcAFQTicwAVBT7QwBUFZC4AFQW+0IAVBeFugBUGMp+AFQZynsAVBqgVQBUG6dnAFQcynwAVB2nWwBUHqddAFQfp3UAVCCncABUIZayAFQjgXoAVCTKpQBUJcp9AFQmp18AVCenYQBUKMqkAFQpp2gAVCrKeABUK6d0AFQsp3YAVC2nXABULqdtAFQvhFEAVDDKdgBUMadzAFQylrQAVDOnZABUNINFAFQ1p24AVDanbwBUN8p3AFQ4p2wAVDmnagBUO6drAFQ8p3EAVD3KoQBUPqdeAFRAp3IAVEHKowBUQqdmAFRDp2MAVEXKegBURqdiAFRHyqYAVEinZQBUSZK7AFRKp2kAVEuWpABUTaBaAFROp2AAVE/KogBUUIF7AFRRgXwAVFKOsgBUU4zKAFRUynkAVFWGsABUVo+3AFRXjcIAVFiDsABUWY28AFRbhbwAVFyFuwBUX4KvAFRgy+sAVGHL6gBUYqlPAFRjy+0AVGTL7wBUZcvkAFRmy+cAVGfL7gBUaKlQAFRp+9kAVGqU/ABUa8vhAFRsy+UAVG2Y4wBUb8vpAFRwzkkAVHGpSwBUcs5NAFRzqP0AVHTL5gBUdaj+AFR2qUwAVHepRQBUeKlBAFR6y+IAVHupRABUfKlJAFR9qVIAVH7L4wBUf8vcAFSAqUMAVIHL3QBUgsvfAFSEqUYAVIWY5ABUhqlIAFSHy9sAVIjL4ABUioF9AFSLqVEAVIypTQBUjcvoAFSOqVMAVI+VowBUkKlKAFSRy94AVJKpRwBUk5jlAFSUlrYAVJWpQgBUlqlAAFSXoFcAVJjL7ABUmYvwAFSaqU4AVJuJywBUnPvaAFSdgX4AVJ6Y5gBUoM5IAFShzfsAVKLOSwBUo4GhAFSklXkAVKXN/QBUpqt4AFSnq6gAVKirdABUqaunAFSqq30AVKurpABUrKtyAFStzfwAVK7OQwBUr6ujAFSwzk8AVLGrpQBUspRGAFSzq3kAVLSBogBUts5FAFS3zkIAVLirdwBUuZjnAFS6zfoAVLurpgBUvM5KAFS9q3wAVL7OTABUv6upAFTAq3MAVMGrfgBUwqt7AFTDzkAAVMSroQBUxc5GAFTGzkcAVMeregBUyKuiAFTJq3YAVMv7SgBUzJbPAFTNjLcAVM6rdQBUz83+AFTQgaMAVNGD8wBU0o7iAFTTjrEAVNSGtABU1Y7jAFTWzkQAVNeHsABU2JRjAFTZjuQAVNqWswBU3I9PAFTdiM4AVN7OTgBU34TMAFTg0UQAVOGt+wBU4tDxAFTjmOgAVOTQ9gBU5a30AFTmrkAAVOfQ9ABU6K3vAFTprfkAVOqt/gBU69D7AFTtrfoAVO6t/QBU75jpAFTx0P4AVPKt9QBU89D1AFT30UIAVPjRQwBU+q33AFT70UEAVPyt8wBU/a5DAFT/0PgAVQGt8QBVAvtaAFUD0UYAVQTQ+QBVBdD9AFUGrfYAVQeuQgBVCND6AFUJrfwAVQrRQABVC9FHAFUM1KEAVQ2Y6gBVDtFFAFUPrkQAVRCt8ABVEdD8AFUS0PMAVRP7UgBVFK34AFUWgkAAVRfQ8gBVGJjrAFUa0PcAVRuOZgBVHvtVAFUgh64AVSKOQQBVI4GkAFUkhM0AVSWY7ABVJtDwAFUnrkEAVSiY7QBVKtR3AFUrmO4AVSyw5ABVLdSnAFUusOIAVS+w3wBVMNR8AFUxsNsAVTLUogBVM7DmAFU01HYAVTXUewBVNtR6AFU3rfIAVTiw4QBVOdSlAFU71KgAVTzUcwBVPrPoAFU/gaUAVUDUqQBVQbDnAFVDsNkAVUSw1gBVRdR+AFVGsNMAVUeY7wBVSNSmAFVJlrEAVUqw2gBVS9SqAFVMgaYAVU3UdABVTtSkAFVPsN0AVVDUdQBVUdR4AFVS1H0AVVOBpwBVVbDeAFVWsNwAVVew6ABVXLDjAFVdgagAVV6w1wBVX7HSAFVhsNgAVWLUeQBVY7DlAFVksOAAVWXUowBVZrDVAFVnhrMAVWn7WwBVarDUAFVroEYAVWyBqQBVbYxuAFVujMcAVXGgSQBVcqBFAFVz+90AVXXUcQBVdtRyAFV32GoAVXiHswBVeZjwAFV7s9cAVXyz2gBVfdh1AFV+s+4AVX/YeABVgLPYAFWB2HEAVYKz3gBVg7PkAFWEtb0AVYaV7QBVh7PiAFWI2G4AVYmz7wBVirPbAFWLs+MAVYzYdgBVjdzXAFWO2HsAVY/YbwBVkJjxAFWR2GYAVZLYcwBVk9htAFWUs+EAVZXYeQBVmLPdAFWZs/EAVZqz6gBVnLPfAFWds9wAVZ6BqgBVn7PnAFWh2HoAVaLYbABVo9hyAFWk2HQAVaXYaABVpth3AFWns9kAVajYZwBVqYGrAFWqs+AAVauz8ABVrLPsAFWt2GkAVa6z5gBVsJRCAFWxs+0AVbKz6QBVs7PlAFW0mPIAVbXYcABVtpJJAFW3h7IAVbmWtQBVuqBKAFW7s+sAVbz7TABVvYayAFW+j9kAVb/c1QBVwNzRAFXBmPMAVcLc4ABVw9zKAFXE3NMAVcW25QBVxrbmAFXHtt4AVcjc3ABVybboAFXK3M8AVcvczgBVzNzMAFXN3N4AVc623ABVz9zYAFXQ3M0AVdG23wBV0tzWAFXTttoAVdTc0gBV1dzZAFXW3NsAVdeY9ABV2Jj1AFXZ3N8AVdq24wBV29zLAFXctt0AVd3c0ABV3vtWAFXfttgAVeG25ABV4tzaAFXjtuAAVeS24QBV5bbnAFXmttsAVeeiXwBV6LbZAFXp3NQAVeqWyQBV64xtAFXsgawAVe+24gBV8KBNAFXxoEsAVfLc3QBV84jPAFX1ga0AVfa5zQBV97nIAFX54VUAVfrhUQBV+5j2AFX84UsAVf25wgBV/rm+AFX/4VQAVgC5vwBWAeFOAFYC4VAAVgThUwBWBaBOAFYGucQAVgi5ywBWCbnFAFYM4UkAVg25xgBWDrnHAFYP4UwAVhC5zABWEfvhAFYS4UoAVhPhTwBWFLnDAFYV4UgAVha5yQBWF7nBAFYYgrMAVhu5wABWHOFNAFYd4VIAVh6gUgBWH7nKAFYg/NkAViGY+ABWIqBPAFYjga4AViSL8QBWJftlAFYn4UcAVim8TQBWKuVHAFYs5UQAVi2gUABWLrxHAFYvvFMAVjC8VABWMY1RAFYyvEoAVjPlQgBWNLxMAFY15PkAVja8UgBWN/5dAFY45UYAVjm8SQBWOuVIAFY7vEgAVj3lQwBWPuVFAFY/vEsAVkDlQQBWQeT6AFZC5PcAVkOgUQBWRdhrAFZG5P0AVkjk9gBWSeT8AFZK5PsAVkzk+ABWTfviAFZOvE8AVk/7agBWUIGvAFZSmPoAVlO8TgBWVPvkAFZXvFAAVljk/gBWWb6yAFZa5UAAVluCTwBWXIq+AFZdmUAAVl7pRQBWYOj9AFZhmVUAVmK+vgBWY+lCAFZkvrYAVmW+ugBWZulBAFZovrkAVmm+tQBWar64AFZrvrMAVmy+vQBWbelDAFZu6P4AVm++vABWcOj8AFZxvrsAVnLpRABWc+lAAFZ0vFEAVna+vwBWd+lGAFZ4vrcAVnm+tABWepRXAFZ7lsoAVnyBsABWfuzGAFZ/7MgAVoDAewBWgezJAFaC7McAVoPsxQBWhOzEAFaFwH0AVobswwBWh8B+AFaJmVYAVoqBsQBWi5lXAFaM7MEAVo3swgBWjsB6AFaPwKEAVpDAfABWkqBTAFaT7MAAVpSBsgBWlcJQAFaX77wAVpjvugBWme+/AFaa770AVpzvuwBWne++AFaemVgAVp+gXABWoIGzAFahmVkAVqKCdABWo4xvAFakoFsAVqXDYABWpvHyAFan8fMAVqjEVgBWqvH0AFar8fAAVqzx9QBWrfHxAFauwlEAVq+BtABWsZlaAFay8/4AVrP0QQBWtMRZAFa19EAAVrbEWABWt8RXAFa5mVsAVrzEWgBWvfXFAFa+9cYAVr+ZXABWwMTaAFbBxNkAVsLE2wBWw/XEAFbF9tgAVsb21wBWyMVtAFbJxW8AVsrFbgBWy/bZAFbMxcgAVs34pgBWzpRkAFbRxfEAVtP4pQBW1PjuAFbWmV0AVtfJSQBW2IG1AFbapX0AVtulfABW3aZfAFbepl4AVt/JxwBW4KZdAFbhycYAVuKGtQBW45NvAFbkp3kAVuXKqQBW58qoAFbqp3cAVuunegBW7YW9AFbuyqcAVu+ZXgBW8Kd4AFbxg0YAVvKSQwBW85L2AFb0hM8AVvWNygBW98vwAFb5y/EAVvqpVABW+51WAFb9g/YAVv6GtgBW/6uqAFcAgbYAVwHRSABXAtFJAFcDrkUAVwSuRgBXBoW+AFcH1KwAVwiw6QBXCbDrAFcK1KsAVwuw6gBXDNh8AFcNs/IAVw+StQBXErbpAFcTtuoAVxTc4QBXFZlfAFcWuc8AVxi5zgBXGuVJAFcb6UgAVxzpRwBXHZlgAFce+WsAVx+kZwBXIMlZAFciyW4AVyPJbwBXJpRlAFcnkkIAVyimYgBXKaZmAFcqyckAVyymZABXLaZjAFcuycgAVy+mZQBXMKZhAFcymWEAVzOmYABXNMnKAFc3lGYAVziUZwBXOYq/AFc6hNEAVzunpgBXPZliAFc+p6MAVz+ZYwBXQKd9AFdByqoAV0KVtQBXQ5lkAFdFyqsAV0b75wBXR6ehAFdJyq0AV0qnewBXS8quAFdMyqwAV02nfgBXTqeiAFdPp6UAV1CnpABXUad8AFdSyq8AV1T+bwBXV4XAAFdZgbcAV1qD9wBXW4jRAFdci28AV12NUgBXXoXBAFdfh7YAV2CHtwBXYalZAFdiy/4AV2SpWwBXZYG4AFdmqVoAV2f76QBXaMxAAFdpqVgAV2qpVwBXa8v1AFdty/QAV2/L8gBXcMv3AFdxy/YAV3LL8wBXc8v8AFd0y/0AV3XL+gBXdsv4AFd3qVYAV3r76ABXe8v7AFd8qVwAV33MQQBXfplmAFd/gbkAV4DL+QBXgqurAFeDqVUAV4SLbgBXhYG6AFeGj7gAV4iUaABXiYG7AFeKmWcAV4urrABXjM5UAFeNmWgAV4/OWgBXkJlpAFeSisAAV5OrsgBXlM5YAFeVzl4AV5fOVQBXmM5ZAFeZzlsAV5rOXQBXm85XAFecmWoAV53OVgBXns5RAFefzlIAV6CrrQBXoYG8AFeiq68AV6OrrgBXpM5TAFelzlwAV6aI0ABXp422AFepg/gAV6qUagBXq4a4AFesgb0AV62NywBXrquxAFewlGsAV7KOQgBXs5RpAFe0gb4AV7XOUABXttFTAFe40VIAV7nRVwBXutFOAFe7mWsAV7zRUQBXvdFQAFe+mWwAV7/RVABXwIG/AFfB0VgAV8KuRwBXw65KAFfEmW0AV8bRTwBXx9FVAFfIgcAAV8uuSQBXzNFKAFfOq7AAV8/UugBX0NFWAFfS0U0AV9OBwQBX1K5IAFfV0UwAV9aUbABX1/5JAFfYhcIAV9mJzgBX2oTTAFfc1LEAV9377ABX3pluAFffsOwAV+Cw8ABX4dTBAFfi1K8AV+PUvQBX5LDxAFfl1L8AV+b76wBX59TFAFfp1MkAV+zUwABX7dS0AFfu1LwAV++BwgBX8NTKAFfx1MgAV/LUvgBX89S5AFf01LIAV/XYpgBX9tSwAFf3sPUAV/jUtwBX+bD2AFf6sPIAV/vUrQBX/NTDAFf91LUAV/6ZbwBYANSzAFgB1MYAWAKw8wBYA5VKAFgE1MwAWAWw7QBYBrDvAFgH1LsAWAjUtgBYCa5LAFgKsO4AWAvUuABYDNTHAFgN1MsAWA7UwgBYENTEAFgRhrkAWBKZcABYFNSuAFgVh7gAWBnYoQBYG9iqAFgc2KkAWB2z+gBYHtiiAFggs/sAWCGz+QBYIplxAFgj2KQAWCSz9gBYJdioAFgm++8AWCfYowBYKNilAFgp2H0AWCqz9ABYLNiyAFgt2LEAWC7YrgBYL7PzAFgws/cAWDGz+ABYMtFLAFgz2KsAWDSz9QBYNbD0AFg22K0AWDfYfgBYONiwAFg52K8AWDr76gBYO9izAFg93O8AWD/YrABYQJRZAFhBk+kAWESBwwBYR5lyAFhI2KcAWEnc5wBYSrb0AFhLtvcAWEy28gBYTdzmAFhO3OoAWE/c5QBYUbbsAFhStvYAWFPc4gBYVLbwAFhV3OkAWFe27gBYWLbtAFhZ3OwAWFq27wBYW9zuAFhcmXMAWF3c6wBYXrbrAFhfmXQAWGK29QBYY9zwAFhk3OQAWGXc7QBYaNzjAFhplc0AWGu28QBYbIHEAFhttvMAWG/c6ABYcJRtAFhx3PEAWHKVYgBYc5l1AFh04V0AWHW50ABYduFjAFh5udUAWHrhXwBYe+FmAFh84VcAWH251wBYfrnRAFh/4VwAWIC8VQBYgeFbAFiC4WQAWIO50gBYhbnWAFiG4VoAWIfhYABYiOFlAFiJ4VYAWIq51ABYi+FeAFiO4WIAWI/haABYkOFYAFiR4WEAWJKBxQBYk7nTAFiU4WcAWJeTXgBYmOFZAFiZifUAWJqBxgBYnLxZAFid5UsAWJ68VwBYn7xWAFig5U0AWKHlUgBYo+VOAFil5VEAWKa8XABYp5l2AFiovqUAWKm8WwBYqpl3AFir5UoAWKzlUABYrrxaAFiv5U8AWLCZeABYseVMAFiygccAWLO8WABYtZl5AFi2mXoAWLiByABYuZRuAFi66U0AWLv52QBYvOlPAFi96UoAWL6+wQBYv+lMAFjBvsAAWMLpTgBYxb7DAFjG6VAAWMe+wgBYyOlJAFjJ6UsAWMqSXABYy5l7AFjMku4AWM7ApQBYz+zMAFjQmXwAWNHApABY0uzNAFjTwKMAWNTsywBY1cCiAFjW7MoAWNeUbwBY2MJTAFjZwlIAWNrx9gBY2/H4AFjc+/AAWN3x9wBY3sNhAFjfw2IAWOCZfQBY4sNjAFjj9EIAWOTEWwBY5YHJAFjn99MAWOj30gBY6cXyAFjrpGgAWOyk0ABY7oNHAFjvp6cAWPCKUgBY8ZJFAFjyk7MAWPOE6gBY9M5fAFj2hNQAWPeCQQBY+bP8AFj6s/0AWPuBygBY/NzyAFj9udgAWP7haQBY/+VTAFkCgcsAWQPJWgBZBIR6AFkFmX4AWQbKsABZB4TCAFkJk8QAWQrGygBZC4HMAFkMzEIAWQ3OYABZDtFZAFkPrkwAWRCBzQBZEZmhAFkS8fkAWRTE3ABZFaRpAFkWpX4AWRfJcABZGIHOAFkZpmcAWRqmaABZG4HPAFkcqV0AWR2dWABZH4P6AFkgsPcAWSK52gBZJLnbAFkludkAWSekagBZKaTRAFkqpNMAWSuk0gBZLMlbAFktpNQAWS6loQBZL8lxAFkxpaIAWTKCtQBZNImzAFk3pmkAWTimagBZOYNIAFk6hrwAWTzJywBZPqeoAFlAyrEAWUGGvQBZQoNrAFlEqWEAWUXMQwBZR6lfAFlIqWAAWUmpXgBZStFaAFlLiNIAWU6rtgBZT6u1AFlQq7cAWVGrtABZU85hAFlUqWIAWVWrswBZVofyAFlXrk0AWViuTgBZWq5PAFlbgrYAWVzUzQBZXYK3AFlgs/4AWWHYtABZYrD4AFljgrgAWWWFxABZZ7b4AFlokuYAWWm53QBZarncAFlr4WoAWWyCuQBZbbxdAFluvsQAWXDvwABZcfbaAFly99QAWXOkawBZdKWjAFl1/mYAWXalpABZd8nRAFl4pmwAWXmmbwBZe8nPAFl8yc0AWX2mbgBZfsnQAFl/ydIAWYDJzABZgaZxAFmCpnAAWYOmbQBZhKZrAFmFyc4AWYaDSQBZh4P8AFmIhcUAWYmZogBZiqezAFmNp7AAWY7KtgBZj8q5AFmQyrgAWZKnqgBZk6eyAFmUmaMAWZanrwBZl8q1AFmYyrMAWZmnrgBZmpmkAFmbgroAWZ2nqQBZnqesAFmfmaUAWaDKtABZocq7AFmiyrcAWaOnrQBZpKexAFmlp7QAWabKsgBZp8q6AFmop6sAWamHuwBZqoa+AFmrjdsAWayVpQBZrqlnAFmvqW8AWbCZpgBZscxPAFmyzEgAWbOpcABZtMxTAFm1zEQAWbbMSwBZt/vxAFm4macAWbmpZgBZusxFAFm7qWQAWbzMTABZvcxQAFm+qWMAWb+bQABZwMxRAFnBzEoAWcPMTQBZxJmoAFnFqXIAWcapaQBZx8xUAFnIzFIAWcmT/ABZyqluAFnLqWwAWczMSQBZzalrAFnOzEcAWc/MRgBZ0KlqAFnRqWgAWdKpcQBZ06ltAFnUqWUAWdbMTgBZ14K7AFnYq7kAWdn78gBZ2qvAAFnbzm8AWdyruABZ3c5nAFnezmMAWeDOcwBZ4c5iAFnjq7sAWeTObABZ5au+AFnmq8EAWeirvABZ6c5wAFnqq78AWeuCvABZ7K5WAFntznYAWe7OZABZ75mpAFnwmaoAWfHOZgBZ8s5tAFnzznEAWfTOdQBZ9c5yAFn2zmsAWffObgBZ+JmrAFn5lcAAWfrOaABZ+6vDAFn8zmoAWf3OaQBZ/s50AFn/q7oAWgDOZQBaAavCAFoCmawAWgOrvQBaBIP7AFoFjcwAWgaHvQBaB4e8AFoIkFUAWgmuXABaCtFiAFoLma0AWgyuWwBaDZmuAFoP0WAAWhGuUABaEpmvAFoTrlUAWhXRXwBaFtFcAFoX0WEAWhiuUQBaGdFbAFoagr0AWhuuVABaHK5SAFoe0WMAWh+uUwBaIK5XAFohmbAAWiOuWABaJJmxAFolrloAWieZsgBaKa5ZAFoqmbMAWiuZtABaLJm1AFot0V0AWi7RXgBaL5K8AFoxg7EAWjKE1QBaM9FkAFo0h7kAWjXU1ABaNrD5AFo32MIAWjjU0wBaOdTmAFo8sUAAWj2ZtgBaPtTkAFpAsP4AWkGw+gBaQtTtAFpD1N0AWkTU4ABaRZm3AFpGsUMAWkfU6gBaSNTiAFpJsPsAWkqxRABaTNTnAFpN1OUAWlDU1gBaUdTrAFpS1N8AWlPU2gBaVJm4AFpV1NAAWlbU7ABaV9TcAFpY1M8AWlmZuQBaWrFCAFpb1OEAWlzU7gBaXdTeAFpe1NIAWl/U1wBaYNTOAFphmboAWmKxQQBaY5VjAFpk1NsAWmXU2ABaZrD8AFpn1NEAWmiZuwBaadTpAFpqsP0AWmuZvABabNTZAFpt1NUAWm6ZvQBacNToAFpxmb4AWnSJzwBadYe6AFp2isEAWne0QABaeNi7AFp5mb8AWnrYuABae9jJAFp82L0AWn3YygBafpnAAFp/tEIAWoGZwQBagpnCAFqD2MYAWoTYwwBahpnDAFqImcQAWorYxABai9jHAFqM2MsAWo7U4wBaj9jNAFqQ3UcAWpGZxQBakrRDAFqT2M4AWpTYtgBaldjAAFqW/ngAWpfYxQBamZnGAFqatEEAWpu0RABanNjMAFqd2M8AWp7YugBan9i3AFqgmccAWqGZyABaoti5AFqknHAAWqXYvgBapti8AFqntEUAWqnYyABaqoK+AFqrmckAWqzYvwBartjBAFqv2LUAWrDc+gBasdz4AFqyt0IAWrO3QABatN1DAFq13PkAWrbdRABat91AAFq43PcAWrndRgBautz2AFq73P0AWry2/gBavbb9AFq+tvwAWr/c+wBawN1BAFrBtvkAWsK3QQBaw5nKAFrE3PQAWsbc/gBax9zzAFrI3PwAWsm2+gBayt1CAFrL3PUAWsy2+wBazd1FAFrOmcsAWs+ZzABa0IK/AFrRnWcAWtKO5QBa05nNAFrUidAAWtXhbgBa1rniAFrXueEAWti54wBa2eF6AFra4XAAWtvhdgBa3OFrAFrd4XkAWt7heABa3+F8AFrg4XUAWuG53gBa4uF0AFrjueQAWuSZzgBa5eFtAFrmud8AWujhewBa6bngAFrq4W8AWuvhcgBa7OF3AFrt4XEAWu7hbABa8JnPAFrxgsAAWvL7ZwBa8+FzAFr05VUAWvW8YQBa9uVYAFr35VcAWvjlWgBa+eVcAFr6+dwAWvu8XwBa/eVWAFr+mdAAWv/lVABbAeVdAFsC5VsAWwPlWQBbBeVfAFsH5V4AWwi8YwBbCbxeAFsLvGAAWwy8YgBbDZnRAFsP5WAAWxDpVwBbEZnSAFsT6VYAWxTpVQBbFZnTAFsW6VgAWxfpUQBbGelSAFsa6VoAWxvpUwBbHb7FAFse6VwAWx+Z1ABbIOlbAFsh6VQAWyKS7wBbI+zRAFskwKgAWyXszwBbJuzUAFsn7NMAWyjpWQBbKsCnAFsrmdUAWyzs0gBbLezOAFsu7NYAWy/s1QBbMMCmAFsy7NAAWzS+xgBbNoLBAFs3idEAWzjCVABbPO/BAFs98foAWz7x+wBbP/H8AFtAxFwAW0GZ1gBbQ8RdAFtEmdcAW0X0QwBbRpnYAFtH9cgAW0j1xwBbSpnZAFtL9tsAW0z23ABbTffVAFtO+KcAW0+Z2gBbUKRsAFtRpG0AW1OkbgBbVKTVAFtVpaUAW1bJ0wBbV6ZyAFtYpnMAW1mDsgBbWqe3AFtbp7gAW1yntgBbXae1AFtfqXMAW2LMVQBbY6l1AFtkqXQAW2XMVgBbZojUAFtomdsAW2mrxABbaozLAFtrrl0AW2zRZQBbbaBBAFtu1PAAW3CxRQBbcbRHAFty1O8AW3O0RgBbdJncAFt1ueUAW3aZ3QBbd+F9AFt4vscAW3rAqQBbe+zXAFt8md4AW33EXgBbf8VwAFuAxssAW4HJcgBbgpnfAFuDpaYAW4TJcwBbhaZ2AFuHpnQAW4imdQBbiaZ3AFuLp7oAW4ynuQBbjZP9AFuOyrwAW4+nuwBbkJngAFuSyr0AW5PMVwBblcxYAFuWmkAAW5epdgBbmKl4AFuZqXoAW5qpdwBbm6l7AFucqXkAW52L8wBbnoa/AFufktQAW6CLcABboYe/AFuiq8gAW6OrxQBbpKvHAFulq8kAW6arxgBbp9FmAFuozncAW6qI1gBbq5CzAFus0WgAW63RZwBbrq5jAFuwrl8AW7OuYABbtK5iAFu1rmQAW7auYQBbt51oAFu4rmYAW7muZQBbvYe+AFu+h1kAW7+xSgBbwNTyAFvB1PEAW8KxSQBbw/xDAFvEsUgAW8WxRwBbxrFLAFvHsUYAW8mCwgBbytjVAFvL2NIAW8y0SQBbzdjRAFvO2NYAW9C0SwBb0djUAFvStEgAW9O0SgBb1NjTAFvVmlUAW9bdSABb15pWAFvY3UkAW9ndSgBb25JpAFvdhsAAW9655gBb37nuAFvg4X4AW+G56ABb4rnsAFvj4aEAW+S57QBb5bnpAFvmueoAW+e55wBb6LnrAFvpvGYAW+rY0ABb67xnAFvsvGUAW+68ZABb7+ldAFvwvsgAW/Hs2ABb8uzZAFvzgsMAW/XDZABb9sRfAFv4pG8AW/mGwQBb+qZ4AFv7hNYAW/yI1QBb/pNmAFv/hroAXAGrygBcApNHAFwD0WkAXASuZwBcBZVbAFwGkuIAXAexTgBcCLFNAFwJsUwAXAq0TABcC7RNAFwM2NcAXA257wBcDr7JAFwPpHAAXBDJXABcEaTWAFwSyXQAXBOCxABcFIbgAFwVydQAXBameQBcGIa3AFwaqXwAXByCxQBcHYavAFwegsYAXB/dSwBcIPvzAFwipHEAXCOaVwBcJKTXAFwlydUAXCeE0ABcKMq+AFwqyr8AXCynvABcLYJZAFww2NgAXDG0TgBcM91MAFw0idIAXDfAqgBcOKRyAFw5pKgAXDqk2ABcO8l1AFw8pacAXD2G6QBcPqfAAFw/p78AXECnvQBcQae+AFxCh8EAXETMWQBcRal+AFxGqaEAXEfMWgBcSKl9AFxJhEAAXEqDVwBcS6vOAFxMzngAXE2rzQBcTqvLAFxPq8wAXFCuagBcUa5oAFxTgscAXFTRawBcVa5pAFxW0WoAXFiuXgBcWdTzAFxcsVAAXF2xUQBcXoxwAFxgsU8AXGGGwgBcYrnwAFxj4aIAXGS8aABcZbxpAFxmidMAXGflYQBcaMCrAFxp78IAXGrvwwBcbMTdAFxt+KgAXG7JSwBcb6TZAFxxpHMAXHPJdwBcdMl2AFx2lHAAXHidZABceaZ6AFx6ydcAXHvJ2ABcfMnWAFx+ydkAXH+J1ABcgYXXAFyCg9sAXIWaWABchsrHAFyIysIAXInKxABcisrGAFyLysMAXIynxABcjcrAAFyPysEAXJCnwQBckafCAFySysUAXJPKyABclKfDAFyVyskAXJaGxABcl4RCAFyYg7UAXJmCyABcmoTXAFybg7QAXJyCyQBcncxoAFyemlkAXJ/MYgBcoMxdAFyhqaMAXKLMZQBco8xjAFykzFwAXKXMaQBcpsxsAFynzGcAXKjMYABcqamlAFyqzGYAXKuppgBcrMxhAFytzGQAXK7MWwBcr8xfAFywzGsAXLGppwBcs6moAFy1zF4AXLbMagBct6miAFy4qaQAXLqCygBcu4LLAFy8lHEAXL2NzQBcvpRzAFy/j/wAXMGCzABcwppaAFzEjuYAXMWUcgBcxs6rAFzHzqQAXMjOqgBcyc6jAFzKzqUAXMvOfQBczM57AFzOzqwAXM/OqQBc0M55AFzR+/UAXNKr0ABc086nAFzUzqgAXNWdcQBc1s6mAFzXznwAXNjOegBc2avPAFzazqIAXNvOfgBc3s6hAFzfzq0AXOCUUABc4YOzAFzkjrQAXOWEQQBc5ozNAFzorm8AXOn79gBc6q5uAFzs0WwAXO2uawBc7tFuAFzvlV0AXPCucABc8dFvAFz0rnMAXPWCzQBc9q5xAFz30XAAXPjOrgBc+dFyAFz6gs4AXPuubQBc/J1pAFz9rmwAXP/RbQBdANFxAF0BrnIAXQKOswBdA43OAF0GsVMAXQexUgBdC9T1AF0M1PkAXQ3U+wBdDrFUAF0P1P4AXRCaWwBdEbFYAF0S1UEAXRSxWgBdFYLPAF0WsVYAXRexXgBdGILQAF0ZsVsAXRrU9wBdG7FVAF0d1PYAXR7U9ABdH9VDAF0g1PgAXSKxVwBdI9VCAF0ksVwAXSXU/QBdJtT8AF0nsV0AXSjU+gBdKbFZAF0smlwAXS2GwwBdLtVEAF0vml0AXTDVQABdMdjnAF0y2O4AXTPY4wBdNLRRAF012N8AXTbY7wBdN9jZAF042OwAXTnY6gBdOtjkAF082O0AXT3Y5gBdPoLRAF0/2N4AXUDY8ABdQdjcAF1C2OkAXUPY2gBdRdjxAF1G+/cAXUe0UgBdSJpeAF1J2OsAXUrdTwBdS9jdAF1MtE8AXU7Y4QBdULRQAF1R2OAAXVLY5QBdU4LSAF1V2OIAXVaaXwBdV5VlAF1YidUAXVnY6ABdW43cAF1cgtMAXV2OZwBdXt1TAF1i3VYAXWPdTgBdZd1QAF1n3VUAXWjdVABdabdDAF1r2NsAXWzdUgBdbYLUAF1vt0QAXXCaYABdcd1NAF1y3VEAXXOC1QBddILWAF11/n4AXXaUdABdd+GpAF14nXoAXXnhsABdeuGnAF17mmEAXXzhrgBdfeGlAF1+4a0AXX/hsQBdgOGkAF2B4agAXYLhowBdhLnxAF2FmmIAXYbhpgBdh7nyAF2I4awAXYnhqwBdiuGqAF2Lk/4AXYyC1wBdjeGvAF2O+/gAXZCC2ABdkuVlAF2T5WcAXZS8awBdleVoAF2X5WMAXZnlYgBdmuVsAF2c5WoAXZ28agBdnuVtAF2f5WQAXaDlaQBdoeVrAF2i5WYAXaSaYwBdp+lhAF2o6WYAXanpYABdqullAF2rmmQAXazpXgBdreloAF2u6WQAXa/paQBdsOljAF2x6V8AXbLpZwBdtOlqAF216WIAXbaaZQBdt+zaAF24wK8AXbmC2QBdusCtAF28wKwAXb3ArgBdwO/EAF3BmmYAXcLxcgBdw/H9AF3FjMwAXcb0RABdx/RFAF3JxGAAXcv1yQBdzIJTAF3NxN4AXc/1ygBd0ILaAF3R9t4AXdLFcgBd04LbAF3UxXEAXdX23QBd1sXJAF3XmmcAXdj31gBd28bMAF3dpHQAXd6mewBd38naAF3gysoAXeGotQBd4rFfAF3jk1cAXeWkdQBd5qWqAF3npakAXeilqABd6YiyAF3rp8UAXe6udABd745DAF3w3VcAXfGkdgBd8qR3AF3zpHgAXfSk2gBd9fv6AF33q9EAXfnOrwBd+5JmAF39tFMAXf6keQBd/8ldAF4BhsUAXgKlqwBeA6WsAF4EyXgAXgWDbABeBqZ8AF4Ig7YAXgmaaABeCsrLAF4L+/sAXgynxgBeDsrMAF4PhNkAXhCERABeEamuAF4S+/wAXhTMbgBeFamsAF4WqasAXhfMbQBeGKmpAF4ZzG8AXhqpqgBeG6mtAF4ch8MAXh2r0gBeH6vUAF4gzrMAXiHOsABeIs6xAF4jzrIAXiTOtABeJavTAF4mhEMAXieE2ABeKNF0AF4p0XMAXiuudgBeLa51AF4uidYAXi+TZwBeMJJvAF4xj1AAXjOxYgBeNNVGAF42sWEAXjexYwBeOLFgAF47jmgAXjyGxgBePbRVAF4+1UUAXkC0VgBeQdjzAF5CiMsAXkO0VwBeRNjyAF5FtFQAXkeC3ABeSJppAF5K3VoAXkvdXABeTLdFAF5N3VsAXk7dWQBeT91YAF5T4bQAXlS59wBeVbn1AF5XufYAXljhsgBeWeGzAF5bufMAXlzlcQBeXeVvAF5e+/4AXl+8bQBeYOVwAF5hvG4AXmK8bABeY7n0AF5kgt0AXmbpbQBeZ+lrAF5o6WwAXmnlbgBeauzcAF5rwLAAXmzs2wBebe/FAF5u78YAXm/pbgBecPH+AF5ypHoAXnOlrQBedKZ+AF51ydsAXnamfQBeeKmvAF55t0YAXnrGzQBee6TbAF58pa4AXn2r1QBefrRYAF5/xs4AXoDJeQBegZN1AF6CyXoAXoOSvgBehMncAF6Gh8oAXoenyABeiMrQAF6Jys4AXoqnyQBei8rNAF6Mys8AXo3K0QBej6fHAF6Qi3IAXpGOtQBekppqAF6Tg7cAXpSJ2ABelamzAF6WqbQAXpepsQBemYfGAF6aqbAAXpvOuABenKmyAF6ei3EAXp+HxABeoKvWAF6izrcAXqPOuQBepM62AF6lzroAXqar1wBep655AF6o0XUAXqrRdwBeq653AF6s0XgAXq2ueABertF2AF6wzrUAXrHVRwBestVKAF6z1UsAXrTVSABetbFnAF62sWYAXrexZABeuLFlAF651UkAXr2aawBevrFoAF7BtFoAXsK0WwBew5OyAF7EtFwAXsXdXQBext1fAF7H3WEAXsi3SABeybdHAF7KtFkAXsvdYABezN1eAF7N/qQAXs7huABez4LeAF7Qgt8AXtHhtgBe0uG8AF7TufgAXtThvQBe1eG6AF7WufkAXtfhtwBe2OG1AF7Z4bsAXtq8cABe2+VzAF7c4bkAXt28cgBe3uV0AF7fvHEAXuC8dABe4eV1AF7ivG8AXuO8cwBe5elzAF7m6XEAXufpcABe6OlyAF7p6W8AXuqC4ABe7MNmAF7u9EYAXu/0RwBe8ILhAF7x9csAXvL23wBe88ZVAF70xs8AXvaptQBe96fKAF74laQAXvmVoQBe+qvYAF77le4AXvyV+gBe/qR7AF7/pNwAXwCFewBfAaWvAF8Cyd0AXwOEVgBfBKfLAF8FytIAXwfOuwBfCKvZAF8JguIAXwq5+gBfC6R8AF8MguMAXw2VqgBfDppsAF8PpqEAXxCTrgBfEYLkAF8St0kAXxOkfQBfFKTdAF8VpN4AXxaUdQBfF6WxAF8YpbAAXxrJ3gBfG6aiAF8dytMAXx+nzABfIIRFAF8hguUAXyLMcQBfI8xyAF8kzHMAXyWT+QBfJqm2AF8nqbcAXyjMcABfKam4AF8qjcMAXy2r2gBfLs68AF8vjM4AXzDRegBfMa56AF8z0XkAXzSC5gBfNbFpAF821UwAXzexagBfONVNAF85h8kAXzqERgBfO517AF88tF0AXz6TcQBfQN1iAF9BgucAX0PhvwBfROG+AF9FgugAX0a5+wBfSLx1AF9J5XYAX0q+ygBfS+l0AF9MwLEAX038QQBfTsVzAF9P99gAX1DG0ABfUYLpAF9SitAAX1OF5QBfVMx0AF9ViaMAX1bOvQBfV7FrAF9Y2PQAX1m3SgBfXILqAF9dwlUAX17CVQBfYcbRAF9ip84AX2P+qABfZKfNAF9lq9sAX2aC6wBfZ9F7AF9psW0AX2qzQwBfa7FuAF9ssWwAX220XgBfb+HAAF9wufwAX3G8dgBfcpptAF9zyUwAX3TJ3wBfdsrVAF93p88AX3jK1ABfeafQAF97hscAX3ypvABffcx3AF9+zHYAX3+puwBfgKm5AF+BqboAX4LMdQBfg4LsAF+EkqYAX4Wr3QBfhs6+AF+Hq+AAX4ir3ABfiaviAF+Kq94AX4ur3wBfjKvhAF+Qrn0AX5GufABfkq57AF+TktwAX5WESABfltVPAF+XsW8AX5ixcgBfmbFwAF+b1U4AX5yxdQBfnrFxAF+f1VAAX6CxdABfobFzAF+k/EcAX6XY9gBfptj1AF+nlVoAX6i0YQBfqbRfAF+qtGAAX6vY9wBfrLdLAF+t3WQAX663TABfr91jAF+xmm4AX7LldwBfs5OoAF+0k3YAX7W8eABftuHBAF+3vHcAX7m5/QBfuvxIAF+77N4AX7zpdQBfvcCyAF++7N0AX7/yQABfwPRIAF/B9EkAX8KabwBfw6TfAF/EnPUAX8WlsgBfxojaAF/JyXsAX8yn0gBfzafUAF/PyeIAX9DK2ABf0crXAF/SytYAX9TJ4QBf1cngAF/WpqQAX9en0wBf2KfRAF/ZpqMAX9uacABf3JJOAF/dqb0AX97MeABf35pxAF/gqb4AX+HK3QBf48rfAF/kyt4AX+XMeQBf54fMAF/oytoAX+qn2ABf66fWAF/tytkAX+7K2wBf78rhAF/wgu0AX/Gn1QBf88rcAF/0yuUAX/WpwABf98riAF/4p9cAX/rK4ABf+8rjAF/9qb8AX/6FxwBf/6nBAGAAyuQAYAGGyABgAofNAGADh9EAYASOawBgBYRKAGAGhcgAYAnMrwBgCsyiAGALzH4AYAzMrgBgDcypAGAOq+cAYA+pwgBgEMyqAGARzK0AYBKr4wBgE8ysAGAUqcMAYBWpyABgFqnGAGAXzKMAYBnMfABgGsylAGAbqc0AYBzMsABgHavkAGAezKYAYCCr5QBgIanJAGAizKgAYCOacgBgJM7NAGAlq+YAYCbMewBgJ6nKAGAoq+gAYCmpywBgKqnHAGArqcwAYCzMpwBgLcx6AGAuzKsAYC+pxABgMZWmAGAyzH0AYDPMpABgNMyhAGA1qcUAYDfOvwBgOc7AAGA6lHYAYDuKSwBgPI90AGA/jucAYEDOygBgQdGhAGBCzssAYEOr7gBgRM7OAGBFzsQAYEar7QBgR87GAGBJzscAYEqC7gBgS4z2AGBMzskAYE2r6QBgUK6jAGBS+doAYFPOxQBgVM7BAGBVrqQAYFjOzwBgWa5+AGBa0X0AYFvOyABgXdF8AGBezsMAYF/OzABgYILvAGBiq+wAYGOuoQBgZKvyAGBlrqIAYGbO0ABgZ9F+AGBoq+sAYGmupgBgaqvxAGBrq/AAYGyr7wBgba6lAGBuztEAYG+upwBgcKvqAGByzsIAYHOJ2QBgdZKoAGB2hNwAYHf8SwBgeIbKAGB5j1EAYHqFyQBge4TfAGB8hOAAYH2N3QBgfppzAGB/sXYAYIDRpABggdGmAGCD0agAYISuqABgha6uAGCG1VMAYIfRrABgiNGjAGCJsXgAYIrVUQBgi4LwAGCMrq0AYI2uqwBgjtGuAGCQ1VIAYJLRpQBglK6sAGCV0akAYJaurwBgl9GrAGCarqoAYJvRqgBgnNGtAGCd0acAYJ77ZABgn66pAGCgsXkAYKLRogBgo7F3AGCk/EwAYKaC8QBgp/6mAGCosXoAYKmTrwBgqpJBAGCrjmkAYKyL9ABgrY5qAGCvh84AYLDVVQBgsdVeAGCytGQAYLP8TQBgtLF8AGC1saMAYLa0ZQBgt9VgAGC4saoAYLnY+QBgutVWAGC7saIAYLyxpQBgvbF+AGC+1VQAYL/VYgBgwNVlAGDB2UkAYMPVYwBgxNj9AGDFsaEAYMaxqABgx7GsAGDI1V0AYMnY+ABgytVhAGDLsXsAYMzY+gBgzdVkAGDO2PwAYM/VWQBg0bRiAGDT1VcAYNTVWABg1bGnAGDXmnQAYNixpgBg2dVbAGDasasAYNvVXwBg3LGkAGDd1VwAYN6C8gBg37GpAGDgtGYAYOG0YwBg4tj7AGDjgq0AYOTVWgBg5rF9AGDnjHEAYOiGzABg6YtzAGDriNgAYOyE3gBg7YbLAGDuh88AYO+GyQBg8LRrAGDxtG8AYPLZQABg87dRAGD0tG0AYPXZRABg9rRxAGD33WUAYPjZRgBg+bdTAGD6tGkAYPu0bABg/NlHAGD9/E4AYP7ZSABg/9lOAGEAtHMAYQG3VABhA9lKAGEE2U8AYQXZQwBhBrdeAGEHmnUAYQi3VQBhCbRyAGEK2UEAYQvZUABhDJp2AGENt10AYQ60cABhD7dOAGEQ2U0AYRGC8wBhErR0AGET2UUAYRTY/gBhFbRqAGEW2UIAYRjZSwBhGZp3AGEat00AYRu3UgBhHLRnAGEd2UwAYR+3UABhIIL0AGEhgvUAYSKaeABhI7RoAGEkh9AAYSaOtgBhJ7dcAGEo4cMAYSndcABhK91oAGEs4cIAYS7dbABhL91uAGEw/E8AYTLdawBhNLdbAGE23WoAYTe3XwBhO+HSAGE8gvYAYT2C9wBhPrdaAGE/ukAAYUDdcQBhQeHEAGFC/MkAYUS3WABhRd1pAGFG3W0AYUe5/gBhSLdPAGFJ3WYAYUrdZwBhS7pBAGFMt1cAYU23WQBhTrdWAGFP3W8AYVCaeQBhUYxyAGFS4cgAYVPhyQBhVOHOAGFVvH0AYVbh1QBhWLpHAGFZ/FIAYVq6RgBhW+HQAGFc/FQAYV28fABhXuHFAGFfukUAYWCaegBhYeHUAGFiukMAYWO6RABhZJWtAGFl4dEAYWblqgBhZ7x6AGFotG4AYWrh0wBha7yjAGFs4csAYW68ewBhb5VmAGFwvKIAYXHhxgBhcuHKAGFz4ccAYXThzQBhdbpIAGF2vHkAYXe6QgBheeV6AGF64c8AYXy8oQBhffxTAGF+vKQAYYDhzABhgZp7AGGCvH4AYYPleQBhh5XRAGGJ5X4AYYq+zgBhi+V4AGGM6aMAYY3lqQBhjryoAGGQvKYAYZG+zABhkuWmAGGT5aIAYZS8rABhlZp8AGGW6XgAYZiC+ABhmf50AGGavKoAYZvloQBhnPxRAGGd6XYAYZ/lpQBhoeWoAGGi5X0AYaS8qwBhp7ylAGGo6XcAYam+zQBhquWnAGGrvKcAYay8qQBhreWkAGGuvK0AYa/lowBhsOV8AGGx5XsAYbK+ywBhs+WrAGG06XoAYbXs4ABhtr7QAGG3gvkAYbjpogBhuZp9AGG66X4AYbzs4QBhvr7RAGG/6aEAYcCafgBhwel8AGHCwLQAYcPs3wBhxel5AGHG6XsAYcfAtQBhyL7TAGHJwLMAYcq+0gBhy8C3AGHM6X0AYc2+zwBhz5qhAGHQkl0AYdGKwgBh0ot1AGHTmqIAYdSI2QBh1u/PAGHY78cAYdqaowBh3uznAGHf78gAYeDs4wBh4vxWAGHjwlYAYeTs5QBh5ezkAGHmwLYAYefs4gBh6OzmAGHp79AAYervzABh6+/OAGHt78kAYe7vygBh8O/NAGHx78sAYfLDZwBh9IL6AGH1w2oAYfbDaQBh98NoAGH4xGEAYfn0SgBh+sRiAGH78kEAYfzE3wBh/fXMAGH+xOAAYf/FdABiAMXKAGIB99kAYgP32gBiBPfbAGIGkKsAYgf5ugBiCKTgAGIJyXwAYgqlswBiC424AGIMpqYAYg2mpwBiDqalAGIPidoAYhCmqABiEafaAGISp9kAYhOC+wBiFMyxAGIVqc8AYhapzgBiF45tAGIYiNsAYhnRrwBiGrGtAGIbsa4AYh2C/ABiHoL9AGIftHUAYiDdcgBiIbdgAGIit2EAYiPddABiJN12AGIl3XUAYiaTSQBiJ+HXAGIp4dYAYiq6SQBiK+HYAGIsjmwAYi3lrABiLryuAGIvknAAYjC+1ABiMsC4AGIzwlcAYjTAuQBiNqThAGI3gv4AYjiQvQBiOfxYAGI6yuYAYjuT7ABiPcyyAGI+qdEAYj+p0ABiQKnSAGJBq/MAYkLO0gBiQ87TAGJG0bAAYkeusABiSLGvAGJJtHYAYkrZUQBiS6TiAGJMnPIAYk2kfgBiTqTjAGJQyX0AYlGltwBiUqW2AGJTpbQAYlSltQBiVZPBAGJYpqsAYlnJ6QBiWsnrAGJbpqoAYlzJ4wBiXsnkAGJgyeoAYmHJ5gBiYsnoAGJjpqkAYmTJ5QBiZcnsAGJmyecAYmeD+QBiaPxZAGJpisMAYmqETQBia4RLAGJshOQAYm2n4QBibqfqAGJvp+gAYnDK8ABiccrtAGJyyvUAYnOn5gBidMr2AGJ2p98AYnfK8wBieaflAGJ6yu8AYnvK7gBifKfjAGJ9yvQAYn6n5ABif6nTAGKAp94AYoHK8QBigvxbAGKDyucAYoSn2wBihfxaAGKGp+4AYofK7ABiiMryAGKJp+AAYoqn4gBijMroAGKOyukAYo/K6gBikJqkAGKRp+0AYpKn5wBik6fsAGKUyusAYpWn6wBilqfdAGKXp9wAYpin6QBimofXAGKbkL4AYpyTuwBinf1XAGKek2oAYp+ObgBioI5vAGKhhE4AYqKFywBipIyoAGKlhNIAYqb8XABiqKnhAGKpzL4AYqrMtwBiq6ncAGKsqe8AYq3MswBirsy6AGKvzLwAYrDMvwBisanqAGKzzLsAYrTMtABitanoAGK2zLgAYrjMwABiuanZAGK7zL0AYryp4wBivaniAGK+zLYAYr+p1wBiwqnYAGLD+0YAYsSp1gBixYjjAGLGqe4AYsep5gBiyKngAGLJqdQAYsrMuQBiy6nfAGLMqdUAYs2p5wBizqnwAGLPztQAYtCp5ABi0cy1AGLSqdoAYtOp3QBi1KneAGLV/F0AYtap7ABi16ntAGLYqesAYtmp5QBi2qnpAGLbqdsAYtyr9ABi3ZOxAGLfid4AYuCSdQBi4ZJeAGLii3YAYuOE4QBi5YjcAGLmi/YAYueJ3QBi6IfVAGLpiOEAYuvO2gBi7KxBAGLtq/gAYu6r+gBi76xAAGLwzuYAYvGr/QBi8tGxAGLzrrEAYvSsQwBi9c7XAGL2zt8AYver/gBi+M7eAGL5ztsAYvrO4wBi+87lAGL8q/cAYv2r+wBi/qxCAGL/rrMAYwDO4ABjAav5AGMCrEUAYwPO2QBjB6v8AGMIrrIAYwmr9gBjC87WAGMMzt0AYw3O1QBjDs7YAGMPztwAYxDRsgBjEaxEAGMTzuEAYxTO4gBjFc7kAGMWq/UAYxiU9ABjGZJ2AGMah9IAYxuM9wBjHYjkAGMeiN4AYx+DuQBjIIfWAGMhiN0AYyKOtwBjI4RPAGMkidwAYyWE4gBjJ5C/AGMorsEAYynRvgBjKq6/AGMrrsAAYyzRtABjLdHEAGMuoF4AYy+utgBjMZqlAGMy1WYAYzPRxgBjNNHAAGM1/F8AYzbRtwBjN5qnAGM40ckAYznRugBjOq68AGM71X0AYzzRvQBjPa6+AGM+rrUAYz+TVgBjQNHLAGNB0b8AY0KuuABjQ9G4AGNE0bUAY0XRtgBjRq65AGNH0cUAY0jRzABjSa67AGNK0bwAY0vRuwBjTK7DAGNNrsIAY06utABjT666AGNQrr0AY1HRyABjVNHCAGNVrrcAY1bRswBjV9HKAGNY0cEAY1nRwwBjWtHHAGNck1UAY16H1ABjX4XKAGNhiOIAY2KE4wBjY4XMAGNk/F4AY2XVZwBjZ7G3AGNoscsAY2mxygBja7G/AGNslVkAY23VeQBjbtV1AGNv1XIAY3DVpgBjcbG6AGNysbIAY3XVdwBjdrSoAGN3sbYAY3jVoQBjeZqoAGN6scwAY3uxyQBjfNV7AGN91WoAY3/8VQBjgLHIAGOB1aMAY4LVaQBjg7G9AGOEscEAY4XVogBjh9VzAGOIscIAY4mxvABjitVoAGOLmqkAY4y0eABjjdWlAGOO1XEAY4+xxwBjkNV0AGOR1aQAY5KxxgBjlNlSAGOWsbMAY5fVbwBjmLG4AGOZscMAY5uxvgBjnNV4AGOd1W4AY57VbABjn9V+AGOgsbAAY6GxxABjorG0AGOjtHcAY6TVfABjpbG1AGOnsbEAY6ixwABjqbG7AGOqsbkAY6vVcABjrLHFAGOt1W0AY67VegBjr9V2AGOw2VQAY7HZUwBjspKpAGOziOAAY7SGzgBjtZR3AGO3isQAY7iH2ABjuftXAGO6hs8AY7uQwABjvI5wAGO91WsAY77ZZABjwLR6AGPBmqoAY8LZagBjw9lZAGPE2WcAY8XddwBjxrR9AGPH2WsAY8jZbgBjybR8AGPK2VwAY8vZbQBjzNlsAGPNtH4AY87ZVQBjz7R5AGPQtKMAY9H9bABj0rShAGPT2WkAY9XZXwBj1rSlAGPX2XAAY9jZaABj2dlxAGPatK0AY9u0qwBj3NlmAGPd2WUAY96QwQBj39ljAGPg2V0AY+G0pABj4pqrAGPjtKIAY+TRuQBj5dlWAGPmmqwAY+fdtwBj6NlXAGPptHsAY+q0qgBj6915AGPttKYAY+60pwBj79lYAGPw2W8AY/HdeABj8tlgAGPz2VsAY/S0qQBj9dlhAGP22V4AY/igXwBj+bSuAGP6kMIAY/uarQBj/PtdAGP9jVMAY/6argBj/4fZAGQAi/cAZAGJ3wBkAobNAGQFjPgAZAa3cABkB5qvAGQJ3XwAZArdsQBkC922AGQM3aoAZA23bABkDt27AGQPt2kAZBDdegBkEt17AGQTt2IAZBS3awBkFd2kAGQWt24AZBe3bwBkGN2lAGQa3bIAZBvduABkHLdqAGQet2QAZB/dowBkIN19AGQh3boAZCLdqABkI92pAGQk3X4AZCXdtABkJt2rAGQn3bUAZCjdrQBkKrdlAGQr4dkAZCy3aABkLbdmAGQu3bkAZC/dsABkMN2sAGQymrAAZDPdoQBkNLpTAGQ13a8AZDa3bQBkN92nAGQ4mrEAZDndpgBkOox0AGQ7mrIAZD23ZwBkPrdjAGQ/4e4AZEDdswBkQd2uAGRCk0UAZEPdogBkRIxzAGRFj3UAZEaKxwBkR5PaAGRIj1IAZEqMzwBkS+HpAGRN4doAZE7h5QBkUOHsAGRRulEAZFK0rABkU+HqAGRUukwAZFi6SwBkWeHxAGRamrMAZFvh2wBkXOHoAGRd4dwAZF7h5wBkX7pPAGRg4esAZGHZYgBkZeHyAGRm4eMAZGe6UgBkaOW6AGRpvK8AZGvh8ABkbOHvAGRtulQAZG7lrQBkb7ywAGRw5a4AZHGatABkcuHfAGRz4eAAZHTh3QBkdeHiAGR24d4AZHfh8wBkeLpOAGR5vLEAZHq6UABke7pVAGR8mrUAZH3h4QBkf+HtAGSC4eYAZIOSsABkhI/aAGSF5bEAZIe6SgBkiLy0AGSJ6aoAZIrltgBki+W1AGSM5bcAZI2atgBkj+W0AGSQvLUAZJGQwwBkkry7AGSTvLgAZJW8uQBkluWvAGSX5bIAZJjlvABkmbzBAGSavL8AZJzlswBkndlaAGSevLIAZJ/luQBkoOWwAGSivMIAZKPluABkpLpNAGSlvLcAZKbh5ABkqby6AGSrvL4AZKy8wABkrby9AGSuvLwAZK+atwBksLy2AGSx5bsAZLK8swBks7zDAGS0mrgAZLWKxgBktpq5AGS3iskAZLiPdgBkuYJNAGS6j/4AZLu+2ABkvL7ZAGS96akAZL6+4gBkv77fAGTAkMQAZMG+1gBkwr7dAGTD6asAZMS+2wBkxb7VAGTHvtwAZMnpqABkysC7AGTLvtcAZM2+3gBkzsC6AGTP6acAZNDppgBk0r7gAGTToF0AZNS+4QBk1umlAGTX6aQAZNjAvABk2emuAGTavtoAZNvprABk3Zq6AGTeisgAZODAvQBk4ZDFAGTiwMIAZOPs6gBk5OzsAGTlmrsAZObAvwBk5/ujAGTo7O0AZOns6QBk6pXIAGTr7OsAZOzAwABk7cDDAGTv7OgAZPDAvgBk8cDBAGTywlkAZPPprQBk9MJYAGT2kMYAZPfCXgBk+O/UAGT6wlwAZPvCXQBk/O/XAGT979MAZP7CWgBk/+/RAGUAw2sAZQHv1QBlA+/WAGUE79IAZQWQxwBlBsJbAGUH8kIAZQnyRQBlCpq8AGUM8kYAZQ3yRABlDvJHAGUPw2wAZRDyQwBlEZq9AGUSkFcAZRP0TgBlFMRkAGUV9E0AZRb0TABlF/RLAGUYxGMAZRnEZQBlG/XNAGUcxOIAZR3E4QBlHqBgAGUfmr4AZSD24QBlIfbgAGUi9uMAZSPFywBlJMV1AGUl990AZSb24gBlKffcAGUqxc0AZSvFzABlLMXzAGUt+KkAZS747wBlL6TkAGUw/lsAZTLZcgBlM+mvAGU0xtIAZTWQyABlNqasAGU3yvcAZTin8QBlOafvAGU7p/AAZT3MwQBlPqnxAGU/rEYAZUHO5wBlQ87oAGVFrEcAZUbRzgBlSK7EAGVJrsUAZUrRzQBlTIfaAGVNlbQAZU6QyQBlT7HTAGVRsc8AZVPVpwBlVLHWAGVVsdUAZVaxzgBlV7HRAGVYsdQAZVmx0ABlW4ngAGVc2XYAZV2xzQBlXrSvAGVfmr8AZWK0sQBlY7SyAGVk2XUAZWXZeABlZrSwAGVn2XMAZWjZdwBlatl0AGVrkMoAZWy3cQBlbZrAAGVv3bwAZXCH2wBlcrpWAGVz4fQAZXS+4wBldbzEAGV25b0AZXe8xQBleLzGAGV55b8AZXrlvgBle+XAAGV86bEAZX/psABlgOzvAGWB7O4AZYLAxABlg8DFAGWE8kgAZYX8twBlhprBAGWHpOUAZYiQywBliZNCAGWLirwAZYzZeQBljpLHAGWQtLQAZZG0swBlkt29AGWTjHUAZZTv2ABllcTjAGWW994AZZek5gBlma7GAGWbsdgAZZyx1wBlndl6AGWe2XsAZZ+3cgBloOH1AGWhulcAZaLpsgBlpKTnAGWlpbgAZaep8gBlqMzCAGWphFMAZarO6QBlq6xIAGWssdkAZa2KygBlrtl8AGWvtLUAZbC3cwBlsuXBAGWz5cIAZbWawgBltuzwAGW3wl8AZbj48ABluaToAGW7zMMAZbyp8wBlvaxJAGW+msMAZb/O6gBlwa7HAGXC0dIAZcPR0ABlxNHRAGXFrsgAZcbRzwBly7HbAGXMsdwAZc3VqABlzrHdAGXPsdoAZdDZfQBl0ZrEAGXS2X4AZdPdvgBl1JrFAGXWulkAZde6WABl2ZDMAGXa7PEAZdvv2QBl3fJKAGXe8kkAZd/0TwBl4MbTAGXhyV4AZeKsSgBl45rGAGXlpOkAZealuQBl54r2AGXopq4AZemmrQBl7KavAGXtprAAZe7J7gBl78ntAGXwyvgAZfGn8gBl8sr7AGXzyvoAZfTK+QBl9cr8AGX2g7oAZfeLdwBl+IXQAGX6qfQAZfvMyQBl/MzFAGX9zM4AZf+axwBmAKn7AGYCqfkAZgPMygBmBMzGAGYFzM0AZgap+ABmB6pAAGYIzMgAZgnMxABmCqn+AGYLzMsAZgyp9wBmDczMAGYOqfoAZg+p/ABmEMzQAGYRzM8AZhLMxwBmE6n2AGYUqfUAZhWp/QBmGJrIAGYZiOgAZhzO7wBmHc71AGYekM0AZh+sUABmIKxNAGYhzuwAZiLO8QBmI5rJAGYkrFMAZiWsSwBmJs7wAGYnrE4AZiisUQBmK87zAGYtrEwAZi7O+ABmL6xPAGYwlf4AZjGsUgBmMs7tAGYzzvIAZjTO9gBmNc7uAGY2zusAZjnO9wBmOs70AGY7kM4AZjyEVABmPo1GAGY/kM8AZkGu0ABmQq7JAGZDrswAZkSQ0ABmRa7PAGZH0dUAZkj8YgBmSa7KAGZK0dMAZkuDuwBmTK7OAGZNnVkAZk+uywBmUdHWAGZSrs0AZlOI5gBmVIjnAGZVhc8AZlaFzgBmV5DRAGZZ1awAZlqx3wBmW9WrAGZc1a0AZl2x3gBmXrHjAGZf0dQAZmHVqgBmYtWuAGZjmsoAZmSx4ABmZdWpAGZmseIAZmf8YwBmaLHhAGZpkNIAZmrZpwBma5rLAGZs2aIAZm60tgBmb7S6AGZwtLcAZnHZpQBmctmoAGZzkNMAZnS0uABmdrS5AGZ3tL4AZnjdxwBmedmmAGZ6tLwAZnvZowBmfNmhAGZ9mswAZn60vQBmgNmkAGaBkn0AZoKH3ABmg5DUAGaEt3kAZoWazQBmht2/AGaHt3YAZoi3dwBmibd1AGaK3cQAZovdwwBmjN3AAGaNt3sAZo7+egBmkN3CAGaRtLsAZpKazgBmlN3GAGaV3cEAZpa3eABml7d0AGaYt3oAZpndxQBmmprPAGadulwAZp/h+ABmoOH3AGah4fYAZqK6WgBmpJrQAGamk+8AZqeJ4gBmqLpbAGap5cUAZqrlyABmq7zIAGatmtEAZq68xwBmr+XJAGaw5cQAZrG8ygBmsuXGAGazmtIAZrS8yQBmteXDAGa2mtMAZrflxwBmuL7pAGa5vuYAZrrpuwBmu+m6AGa8kNUAZr3puQBmvum0AGa/kNYAZsDptQBmwZDXAGbEvucAZsa+5ABmx77oAGbI6bMAZsm+5QBmyum2AGbL6bcAZszpvABmzZrUAGbOmtUAZs/puABm0uzyAGbWwMcAZtjv3ABm2cDGAGba79oAZtvv2wBm3MJgAGbdw24AZt7ySwBm4MNtAGbj9FEAZuT0UgBm5sRmAGbnncoAZuj0UABm6cTkAGbr998AZuzFzgBm7fiqAGbu+KsAZvCk6gBm8aBYAGbyprEAZvOmsgBm9KfzAGb1kNgAZvbM0QBm96xUAGb4rtEAZvmx5ABm+pDZAGb7kNoAZvyw0gBm/ZP7AGb+tL8AZv+0wABnALPMAGcB2akAZwKa1gBnA7d8AGcE4foAZwXh+QBnCKTrAGcJprMAZwrM0gBnC6pCAGcMmtcAZw2qQQBnDpDbAGcPzvkAZxDO+gBnEtHXAGcT0dgAZxSu0gBnFa7TAGcWkNwAZxeu1ABnGNWvAGcZmtgAZxux5gBnHbTCAGce/GQAZx+0wQBnIN3IAGch33oAZyLh+wBnI+m9AGcl/l4AZybCYQBnJ8RnAGcopOwAZymR0QBnKqW8AGcrpb0AZyyluwBnLaW+AGcupboAZy+EewBnMaa2AGczyfYAZzSmtQBnNaa3AGc2lXwAZzeQ3QBnOMnxAGc5yfAAZzrJ8wBnO8nyAGc8yfUAZz2mtABnPsnvAGc/yfQAZ0CEWQBnQZR4AGdCi1kAZ0OM0ABnRJrZAGdFyv0AZ0an/QBnR8r+AGdIy0MAZ0mn/ABnS8tHAGdMy0IAZ03LRQBnTqf1AGdPp/YAZ1Cn9wBnUaf4AGdTqEAAZ1XLQQBnVqf6AGdXqEEAZ1nLQABnWstGAGdcp/kAZ13LRABnXqf7AGdfp/QAZ2Cn/gBnYYRXAGdilFwAZ2OUeQBnZJDeAGdlg1MAZ2aQ3wBnZ/umAGdohdQAZ2mOcgBnaqpXAGdrmtoAZ2zM1ABnbapDAGdunXIAZ2+qTQBncKpOAGdxqkYAZ3KqWABnc6pIAGd0zNwAZ3WqUwBndszXAGd3qkkAZ3jM5gBnecznAGd6zN8AZ3vM2ABnfKpWAGd9zOQAZ36qUQBnf6pPAGeBzOUAZ4PM4wBnhMzbAGeFzNMAZ4bM2gBnh6pKAGeJqlAAZ4uqRABnjMzeAGeNzN0AZ47M1QBnj5rbAGeQqlIAZ5HM4QBnkszWAGeTqlUAZ5TM6ABnlapFAGeXqkwAZ5jM2QBnmcziAGeaqlQAZ5yqRwBnnapLAGeeh+UAZ5/M4ABnoJT9AGehlHoAZ6KH4ABno4TlAGekmtwAZ6WP3ABnppDgAGenkOEAZ6iN3wBnqZDiAGeqhtIAZ6uF1gBnrPxmAGethFgAZ67PWwBnr6xcAGewrGkAZ7GVRQBnss9WAGezz0wAZ7SsYgBntc9KAGe2rFsAZ7fPRQBnuKxlAGe5z1IAZ7rO/gBnu89BAGe/mt0AZ8DPRABnwc77AGfCz1EAZ8PPYQBnxKxgAGfFz0YAZ8bPWABnyM79AGfJz18AZ8rPYABny89jAGfMz1oAZ83PSwBnzs9TAGfPrGYAZ9CsWQBn0axhAGfSrG0AZ9OsVgBn1KxYAGfWmt4AZ9ea3wBn2M9DAGfZrGoAZ9qsYwBn289dAGfcz0AAZ92sbABn3qxnAGffz0kAZ+CKzgBn4qxrAGfjz1AAZ+TPSABn5axkAGfmz1wAZ+fPVABn6axeAGfqz2IAZ+vPRwBn7KxaAGftz1kAZ+7PTwBn76xfAGfwz1UAZ/GsVwBn8s78AGfzrGgAZ/Su4wBn9axdAGf2z04AZ/fPTQBn+M9CAGf5/GcAZ/rPXgBn+5DjAGf8z1cAZ/2Q5ABn/pRaAGf/rFUAaACQ5QBoAZDmAGgClE0AaAOUUQBoBJJIAGgFkOcAaAeH4QBoCITnAGgJieYAaAqP2wBoC4TmAGgMj90AaA2a4QBoDo+6AGgPjHcAaBCa4gBoEYjrAGgS0ewAaBOu6gBoFNHtAGgW0eEAaBeu3wBoGK7rAGga0doAaBua4wBoHNHjAGgd0esAaB6Q6ABoH9HZAGgg0fQAaCGu1QBoIv5FAGgl0fMAaCbR7gBoKNHvAGgprt0AaCqu6ABoK9HlAGgt0eYAaC7R8ABoL9HnAGgx0eIAaDLR3ABoM9HdAGg00eoAaDXR5ABoNprkAGg3h94AaDiu1gBoOa7aAGg60fIAaDvR3gBoPK7mAGg9ruIAaD6QagBoQK7lAGhBruwAaEKu2wBoQ67nAGhE0ekAaEWu6QBoRq7YAGhHmuUAaEiu1wBoSdHbAGhKkOkAaEvR3wBoTK7gAGhN0fEAaE7R6ABoT9HgAGhQruQAaFGu4QBoUpDqAGhTrtkAaFSu3ABoVZDrAGhWmuYAaFmQ7ABoXJJRAGhdgnwAaF+SzABoYI3eAGhhiO8AaGKF1QBoY4njAGhkjnEAaGWI7QBoZojpAGhnieUAaGiH4wBoaYffAGhr1cQAaG3VtABobtW1AGhv1bkAaHHVyABoctXFAGh01b4AaHXVvQBodrHtAGh31cEAaHjV0ABoedWwAGh71dEAaHzVwwBofdXVAGh+1ckAaH+x7ABogNXHAGiBsecAaIKx/ABog7HyAGiEmucAaIWx9gBohrH1AGiH1bEAaIia6ABoidXOAGiK1dQAaIvVzABojNXTAGiNkO0AaI/VwABokNWyAGiR1dIAaJLVwgBok7HqAGiUsfcAaJbVywBol7HwAGiY+1gAaJvVygBonNWzAGidsfgAaJ+x+gBooNXNAGihsfsAaKKx6QBoo9W6AGik1c8AaKaGuwBop7HvAGiosfkAaKnVvABoqtXGAGir1bcAaKzVuwBorbH0AGiu1bYAaK+x6ABosLHxAGixse4AaLLVvwBos67eAGi02cAAaLWx6wBotvxoAGi5kO4AaLqUewBovIJvAGi9mukAaMCJ5ABowox4AGjDmuoAaMSx8wBoxZrrAGjG2cMAaMfZ2QBoyNnOAGjJtNYAaMr8bABoy7TRAGjM2b0AaM200gBoztnNAGjPkO8AaNDZxgBo0dnTAGjStM4AaNPZqwBo1NnVAGjVtMQAaNbZswBo17THAGjYtMYAaNq01wBo3NmtAGjd2c8AaN7Z0ABo37TJAGjgtMUAaOHZuwBo47TQAGjk2bYAaObZ0QBo57TMAGjo2ckAaOnZ1gBo6tmwAGjr2bUAaOzZrwBo7rTLAGjv2cIAaPDd3gBo8dmxAGjytM8AaPPZugBo9NnSAGj1tMoAaPbZtwBo99m0AGj42cUAaPm0zQBo+rTDAGj7tNkAaPzZyABo/dnHAGkA/GsAaQH8agBpAprsAGkDmu0AaQTZrABpBbTIAGkG2dQAaQfZvABpCNm+AGkJmu4AaQrZywBpC9nKAGkM2aoAaQ200wBpDrTVAGkP2bIAaRDZuQBpEdnBAGkStNQAaRPZuABpFNnEAGkV2dcAaRfZzABpGJrvAGkZlEkAaRr+TwBpG5RBAGkckrYAaR+LeQBpII64AGkhlKIAaSKQ8wBpI5ShAGkkkGsAaSXZ2ABpJpD0AGkolH0AaSrZrgBpLPxpAGktiOwAaS/d8gBpMLemAGky3fAAaTPd2wBpNN3gAGk13dkAaTaQ/QBpN93sAGk43csAaTnd0gBpO93qAGk83fQAaT3d3ABpPvxvAGk/3c8AaUDd4gBpQd3nAGlC3dMAaUOa8ABpRN3kAGlF3dAAaUaa8QBpSN3XAGlJ3dgAaUq3qABpS93rAGlM3ekAaU7dzABpT93uAGlR3e8AaVLd8QBpU7esAGlUt6QAaVWCbABpVtW4AGlX3dQAaVjd5gBpWd3VAGlat6EAaVu3sQBpXN3tAGldt68AaV63qwBpX93KAGlgt6MAaWGQ/gBpYt3NAGljt7AAaWSa8gBpZd3dAGlm3ckAaWea8wBpaLepAGlp3eEAaWrd0QBpa7eqAGls3doAaW23fgBpbrTYAGlv3eMAaXDZvwBpcd3OAGlymvQAaXP8bQBpdN3oAGl1t6UAaXbd5QBpd7eiAGl43d8AaXm3rQBpet3WAGl73fMAaXyH4gBpfZJiAGl+lKMAaYD8bgBpgZSkAGmCt6cAaYPexgBphI1uAGmFmvUAaYa3rgBph4v5AGmIi3oAaYmQQABpipRFAGmN4koAaY7iSABpkOJeAGmR4kYAaZPiWABplLd9AGmVul8AaZbiQgBpl+JdAGmYlWcAaZniRwBpmuJVAGmbumQAaZy6XQBpnuJbAGmfmvYAaaDiQABpoeJaAGmimvcAaaO6bwBppOJRAGml4mEAaaa6bQBpp+JJAGmoul4AaaniSwBpquJZAGmrumcAaaziRABprbprAGmuumEAaa/iTQBpsOJDAGmx4fwAabL8cQBps+JXAGm0umgAabXiYABptuH9AGm3umUAabniUwBpu7pmAGm84kUAab3iUABpvuJMAGm/4k4AacD8cgBpwbpgAGnC4l8AacO6bgBpxOJPAGnG4mIAaceR7gBpyeH+AGnK4lQAacu6YwBpzLpsAGnNumoAac7iQQBpz+JWAGnQumkAadGa+ABp07piAGnU4lIAadWa+QBp1pr6AGnYk9sAadniXABp24rNAGndlKUAad6WfQBp34rLAGngj7kAaeGbQQBp4uXVAGnk5dEAaeXlzQBp5uXhAGnn5d4Aaei8zQBp6fx1AGnr5eUAaezl1ABp7bzYAGnu5dsAafHl0ABp8uXaAGnzvNUAafTl7gBp9uXrAGn35d0AafjlzgBp+ZZ+AGn6/HQAafvl4gBp/OXkAGn9vNEAaf7l2ABp/+XTAGoA5coAagG8zgBqArzWAGoDm0IAagTl5wBqBbzXAGoG5csAagfl7QBqCOXgAGoJ5eYAagq81ABqC/5UAGoMls4Aag3l4wBqD+XqAGoRvNkAahKW6wBqE7zTAGoU5dwAahXlzwBqFuXvAGoX5cwAahjl6ABqGbzQAGoam0MAahvl1gBqHJtEAGod5dcAah68zwBqH7zMAGog5dIAaiG80gBqIpbsAGojvMsAaiXl6QBqJuXsAGon5dkAaijpygBqKZK3AGoqiOoAaiuUQABqLJtFAGotm0YAai6UpgBqL4nnAGowlu0AajGMdgBqMunCAGozm0cAajTpvgBqNb72AGo2lu4Aaji+6wBqOb7wAGo6vuwAajvpzABqPOnXAGo9vuoAaj7pxABqP+nNAGpA5d8AakHpzgBqQ5tIAGpEvvEAakWbSQBqRundAGpHvvUAaki++ABqSenAAGpLvvQAakybSgBqTenbAGpO6dwAak/p0gBqUOnRAGpR6ckAalL8dwBqU5tLAGpU6dMAalXp2gBqVunZAGpXm0wAali+7wBqWb7tAGpa6csAalvpyABqXenFAGpe6dgAal++9wBqYOnWAGphvvMAamK+8gBqY5tNAGpk6dAAamWW7wBqZum/AGpn6cEAamjpwwBqaenVAGpq6c8Aamu+7gBqbenGAGpv6dQAanGLeABqcpSnAGpzlvgAanSbTgBqdunHAGp4lvkAanmLewBqepR+AGp8lvwAan7AzwBqf+1FAGqAwMgAaoHs9QBqgptPAGqD7UEAaoTAygBqhe1IAGqH7PwAaons9wBqiptQAGqM7UkAao3s8wBqjuz+AGqPm1EAapDA0QBqke1EAGqS7UoAapPs/QBqlMDJAGqV7UAAapbs9ABql8DQAGqZm1IAaprtRwBqm+z5AGqcwMwAap38eABqnuz7AGqf7PgAaqDA0gBqoez6AGqiwMsAaqPAzgBqpO1DAGql7PYAaqbtRgBqp5tTAGqo7UIAaqmW/QBqqpb+AGqrmf4AaqzCYwBqre/nAGquwmgAaq/CaQBqsZtUAGqy/HYAarPCYgBqtO/mAGq1m1UAarbv4wBqt+/kAGq4wmYAarnv3gBquu/iAGq7wmUAar3v3wBqvptWAGrBmv4AasLCZwBqw8JkAGrF790Aasbv4QBqx+/lAGrIleMAasmbVwBqyvvcAGrL8lEAaszyTgBqzfJXAGrP8lYAatDyVABq0fJPAGrTw3IAatSbWABq2JtZAGrZ8lAAatrDcQBq28DNAGrc8lMAat3DcABq3vJYAGrf8lIAauDyTQBq4e/gAGrinPkAauSd4QBq5cNvAGrn8kwAauj0VgBq6vRVAGrr8lUAauzEaABq7vRZAGrv9FoAavD0VABq8fRYAGrz9FMAavabWgBq+PXRAGr59FcAavrE5wBq+8TlAGr89c8AawD10gBrAvXOAGsD9dAAawTE5gBrBZ3+AGsI9uUAawn25gBrCsV2AGsL9uQAaw/34gBrEMXPAGsR9+AAaxL34QBrE/isAGsWxlYAaxf48wBrGPjxAGsZ+PIAaxr49ABrHfx5AGse+bsAax+UqABrIKTtAGshprgAayKM0QBrI6pZAGskis8AayXM6QBrJ4fmAGsoz2QAayzR9QBrLdH3AGsv0fYAazHR+ABrMrH9AGsz1dcAazTR+QBrNZW5AGs21dYAazfV2ABrONXZAGs52doAazq02wBrO9nbAGs82d0Aaz203ABrPrTaAGs/2dwAa0Hd+gBrQt34AGtD3fcAa0Xd9gBrRt31AGtHt7IAa0jd+QBrSbpwAGtK4mMAa0viZQBrTLpxAGtN4mQAa0682wBrULzaAGtR5fAAa1L8egBrU5JsAGtU6d8Aa1Xp3gBrVungAGtXm1sAa1m++QBrW+1LAGtcwNMAa17v6ABrX8JqAGtg8lkAa2HFdwBrYqTuAGtjpb8Aa2SmuQBrZahCAGtmqloAa2eqWwBraZPFAGtqrG4Aa23R+gBrb5LQAGtyt7MAa3OSyABrdJPwAGt25tEAa3e++gBreMJrAGt5pO8Aa3qbXABre6a6AGt8jHkAa37M6wBrf6pcAGuAzOoAa4GfTgBrgs9lAGuDrG8Aa4TPZgBrhqxwAGuHh+cAa4jR/ABria7uAGuKru0Aa4uSzwBrjNXeAGuN1dwAa47V3QBrj9XbAGuR1doAa5KNtQBrk4noAGuU2d4Aa5XZ4QBrlrTeAGuX2d8Aa5i03QBrmdngAGuajugAa5vd+wBrnuJmAGuf4mcAa6DiaABroYrRAGui5fMAa6Pl8gBrpLzcAGul5fEAa6bl9ABrp+nhAGuq6eIAa6vp4wBrre1MAGuuwNQAa6/CbABrsPJaAGuxn08Aa7LE6ABrs8lfAGu0h+gAa7WscQBrts9nAGu3ru8Aa7qx/gBru5JfAGu8tN8Aa73Z4gBrv7e1AGvAt7QAa8GQtQBrwop1AGvD4mkAa8TiagBrxbzdAGvGvN4Aa8fp5QBryOnkAGvJ7+kAa8r34wBry6TwAGvMyWAAa82lwABrzpPRAGvPqEMAa9DLSABr0qxyAGvTt7YAa9Sk8QBr1YRlAGvWz2gAa9escwBr2M9pAGvZieEAa9rA1QBr26TyAGvcm10Aa97M7ABr35SpAGvgz2oAa+GJ6QBr4tJCAGvj0kEAa+TR/gBr5tH9AGvn0kMAa+jSQABr6qBiAGvrskAAa+yyQQBr77TgAGvw2eMAa/LZ5ABr89nlAGv1jrkAa/feQQBr+N5CAGv53kAAa/r8ewBr+939AGv83f4Aa/23twBr/uJrAGv/5fcAbADl9gBsAeX1AGwC5fgAbAPp5wBsBOnmAGwFvvsAbAbp6ABsB4+7AGwIwNYAbAntTQBsC+/qAGwM8lsAbA325wBsD6TzAGwQpcIAbBGlwQBsE6pdAGwUyWEAbBXJfgBsFqa7AGwXkm4AbBjJ9wBsGctJAGway0oAbBuqXgBsHJteAGwdzO0AbB+sdABsIM9rAGwhz2wAbCKEWgBsI67wAGwkrvQAbCXSRABsJq7zAGwnrvEAbCiu8gBsKYTsAGwq1d8AbCuyQgBsLLTjAGwutOEAbC+04gBsMNnmAGwxm18AbDKgYwBsM7pyAGw0pPQAbDWc8wBsNsmhAGw3lesAbDilwwBsOf5AAGw6kdIAbDvJpABsPaBkAGw+pcYAbD/JowBsQKXFAGxBpcQAbEKoRABsQ8miAGxGyfgAbEeFuQBsSYbVAGxKyfwAbEvJ/gBsTMpAAGxNpsUAbE6mxgBsT8n7AGxQpsEAbFLJ+QBsVMn9AGxVpsIAbFemvQBsWJtgAGxZpr4AbFqV6gBsW6bEAGxcyfoAbF2mvABsXqhFAGxfpr8AbGCmwABsYabDAGxioGUAbGSE8QBsZctbAGxmy1kAbGfLTABsaKhRAGxpy1MAbGqoTABsa8tNAGxty1UAbG6bYQBsb8tSAGxwqE8AbHHLUQBscqhWAGxzy1oAbHSoWABsdZtiAGx2qFoAbHjLSwBseYNuAGx6qE0AbHvLXABsfahUAGx+qFcAbH+bYwBsgM1FAGyBqEcAbIKoXgBsg6hVAGyEy04AbIWoSgBshqhZAGyHy1YAbIioSABsiahJAGyKzUMAbIvLTwBsjKhQAGyNqFsAbI7LXQBsj8tQAGyQqE4AbJKoUwBsk8zuAGyUqFwAbJXLVwBslqhSAGyYqF0AbJmoRgBsmstUAGybqEsAbJzLWABsnc1EAGyfhdgAbKGVygBsopNrAGyjiPQAbKSOdQBspYt+AGymhF8AbKeF3ABsqY3gAGyqhtsAbKuqagBsrKp6AGytzPUAbK6qcQBsr5tkAGywzUsAbLGqYgBssqBmAGyzqmUAbLTNQgBstszzAGy3zPcAbLiqbQBsuapvAGy6zPoAbLuqdgBsvKpoAGy9qmYAbL6qZwBsv6p1AGzAzUcAbMGqcABswsz5AGzDzPsAbMSqbgBsxapzAGzGzPwAbMfNSgBsyax1AGzKqnkAbMubZQBszKpjAGzNzUkAbM78fQBsz81NAGzQzPgAbNHNTwBs0s1AAGzTqmwAbNTM9ABs1aprAGzWqn0AbNeqcgBs2czyAGzaz3UAbNuqeABs3Kp8AGzdzUEAbN7NRgBs35tmAGzgqn4AbOGqdwBs4qppAGzjql8AbOWqZABs58z2AGzoqmAAbOnNTgBs6oReAGzrzPAAbOzM7wBs7cz9AGzuzPEAbO+qewBs8K71AGzxqnQAbPLM/gBs86phAGz1rKYAbPaPVABs94+8AGz4i6IAbPnNTABs+o93AGz7itIAbPyH6gBs/YjyAGz+g70AbP+bZwBtAM98AG0Bz6EAbQKbaABtA8+kAG0Ez3cAbQWbaQBtBptqAG0Hz6cAbQjPqgBtCc+sAG0Kz3QAbQusdgBtDKx7AG0N0kkAbQ6srQBtD8+lAG0Qz60AbRHPewBtEs9zAG0W0mQAbResfgBtGM+iAG0Zz3gAbRrPegBtG6ylAG0dz30AbR6sfQBtH89wAG0gz6gAbSLPqwBtJJWwAG0lrHoAbSabawBtJ6yoAG0oz20AbSmsqgBtKqx4AG0rrK4AbSzPqQBtLc9vAG0urKsAbS/SXgBtMM1IAG0xrHwAbTKsdwBtM892AG00z24AbTWsrABtNqykAG03z6MAbTisqQBtOaynAG06z3kAbTusoQBtPM9xAG09rKIAbT6sowBtP89yAG1Az6YAbUGseQBtQs9+AG1Dg74AbUSS6gBtRZNIAG1Gh+kAbUeH7ABtSI3hAG1KiPMAbUuE8gBtTY7pAG1OiewAbU+K1wBtUYTzAG1SjnQAbVOI8QBtVIfwAG1Xm2wAbVjSTABtWa79AG1ar0MAbVubbQBtXJO9AG1e0lUAbV/SWwBtYNJXAG1h0koAbWLSTQBtY9JGAG1k0kcAbWWvSgBtZq76AG1n0lYAbWjSXwBtaa9FAG1qrvYAbWyvQABtbdJOAG1ur0IAbW/STwBtcNJZAG1xm24AbXL7pwBtdK9EAG110mgAbXbSSABtd678AG14rvsAbXmvSABtetJFAG170mYAbXzSWgBtfdJnAG1+0mEAbX/SUwBtgNJiAG2Bm28AbYLSXABtg9JlAG2E0mMAbYWvSQBthtJUAG2HrvkAbYiu+ABtia9BAG2Kr0cAbYvSYABtjK9GAG2N0lEAbY6yQwBtj5twAG2Q0mkAbZHSUABtktJLAG2Trv4AbZSvSwBtla73AG2W/lwAbZfSWABtmNJdAG2Zk+gAbZuJ7QBtnIJxAG2djrsAbZ6NzwBtn4baAG2gjr0AbaGE8ABto4T0AG2kht4AbaWbcQBtpofuAG2nh+8AbaiG2QBtqYnvAG2qsmUAbavV4QBtrNXlAG2uslIAba+yUABtsZtyAG2yskcAbbPV4wBttNXiAG21slsAbbfV6ABtuLJVAG25/KEAbbrV+gBtu9ZHAG28skQAbb3V9wBtvtXwAG2/smcAbcDV4ABtwtX8AG3EsmQAbcWyWABtxrJjAG3Hsk4AbcjV7ABtydX+AG3K1fYAbcuyTwBtzLJJAG3N1kUAbc/V/QBt0NZAAG3RslEAbdKyWQBt09ZCAG3U1eoAbdXV+wBt1tXvAG3X1kQAbdiyXgBt2bJGAG3aslwAbdvV9ABt3NXyAG3d1fMAbd6yUwBt39XuAG3g1e0AbeGySABt4tXnAG3j1kYAbeSySgBt5dXxAG3msmgAbeiyYgBt6dXmAG3qsl8AbeuyXQBt7LJmAG3t1fgAbe6yYQBt79JSAG3w1fkAbfGyYABt8tZBAG3zskUAbfTV9QBt9bJXAG321ekAbfeyVgBt+KBnAG35slQAbfqyTABt+7JLAG382ecAbf3WQwBt/ptzAG4A1esAbgKbdABuA9n8AG4Em3UAbgWyTQBuB5JkAG4IksYAbgmS5ABuCoRdAG4Lkt0AbgyN0ABuDYbUAG4OitUAbg+bdgBuEIbYAG4RiPYAbhOSqgBuFIbcAG4VlKoAbhaK0wBuF4bdAG4Ym3cAbhm1QQBuGrJaAG4btO4AbhzZ9gBuHbT8AG4f2eoAbiC06wBuIbTnAG4i2kkAbiO07QBuJLTxAG4ltOwAbia09QBuJ9pNAG4o2kQAbimgaABuKpt4AG4r2fEAbiy0+gBuLbT0AG4u2f0Abi+05ABuMNpKAG4x2kMAbjK06ABuM9n3AG40tPcAbjXaVQBuNtpWAG44tOUAbjnaSABuOrT5AG472fsAbjzZ7QBuPdnuAG4+tP0Abj/Z8gBuQNn5AG5B2fMAbkO0+wBuRLVEAG5F2e8AbkbZ6ABuR9npAG5J2esAbkq06gBuS9n4AG5NtPgAbk61QgBuT/x+AG5Qm3kAblHZ+gBuUtpTAG5T2ksAblS05gBuVdpRAG5WtPIAbledywBuWLTwAG5Zm3oAblraVwBuW7TvAG5c2kEAbl3Z9ABuXtn+AG5ftUcAbmDaRQBuYdpCAG5i2fAAbmO1QwBuZNpPAG5l2kwAbmbaVABuZ7TpAG5o2kAAbmm1RgBua9pHAG5utPMAbm+09gBucdpGAG5ytUUAbnPZ9QBudNXkAG52oGkAbnfaUABueNpOAG552lIAbnyVywBufo1vAG5/hdoAboCT0gBugqBqAG6Dh+0AboWK1gBuhqBrAG6I2ewAbom1QABui/5qAG6MgngAbo3eYQBujt5gAG6P3kYAbpC3vQBukt5fAG6T3kkAbpTeSgBulrfHAG6X3mgAbpi3wgBumd5eAG6am3sAbpveQwBunLfIAG6dt74Abp7eUgBun95IAG6g3ksAbqHeYwBuore4AG6j3moAbqTeYgBupbfBAG6m3lcAbqe3zABuqrfLAG6rt8UAbq7eaQBur7e5AG6w3lUAbrHeTABust5ZAG6z3mUAbrS3zQButZt8AG62t7sAbrfeVABuuJt9AG653k0Abrq3xABuu6BsAG68t8MAbr3eUABuvt5aAG6/3mQAbsDeRwBuwd5RAG7Ct7wAbsPeWwBuxLfJAG7Ft8AAbsbeTgBux7e/AG7I3kUAbsneUwBuyt5nAG7LtP4Absy6sABuzd5WAG7O4mwAbs/eWABu0N5mAG7Rt8YAbtLeTwBu07e6AG7Ut8oAbtW88ABu1t5EAG7Xjr4AbtjeXQBu2ZVQAG7ahtMAbtubfgBu3N5cAG7dk2kAbt6G1wBu36BtAG7gkEEAbuGG1gBu4qBuAG7kitQAbuWJ7gBu5o17AG7oiesAbumM0gBu6+KqAG7suq0Abu3ifQBu7uKkAG7vuqIAbvHibgBu8rqvAG70uncAbvXibQBu9uKwAG73urEAbvjicQBu+eKjAG76m6EAbvvicwBu/OKzAG794q8Abv66dQBu/7qhAG8A5lMAbwG6rgBvArp9AG8D4m8AbwSbogBvBeKuAG8GuqMAbwfiqwBvCOK4AG8J4nUAbwrifgBvC5ujAG8Mm6QAbw3itgBvDuKsAG8PunwAbxGgbwBvEuJ8AG8TunYAbxS6dABvFbqoAG8Wm6UAbxebpgBvGOJ6AG8Z4ncAbxrieABvHOKyAG8e4rcAbx/itQBvILp6AG8h4rkAbyK6fgBvI7qnAG8koHAAbyXicABvJuX6AG8n4nkAbym6eABvKrqsAG8ruqkAbyy6ewBvLeKlAG8u4nQAby+6qgBvMOKnAG8xuqQAbzK6pgBvM7pzAG80m6cAbzXiqQBvNuKhAG834nIAbzi6pQBvOeKxAG864rQAbzviewBvPOKoAG89m6gAbz66eQBvP7zfAG9A4qYAb0Hl+QBvQ+KtAG9E/KIAb0WCUABvRo+9AG9Hi3wAb0uL+wBvTYnwAG9O4nYAb0/mRABvUOZOAG9RvOIAb1LmTQBvU+ZZAG9UvOQAb1XmSwBvVpupAG9X5k8Ab1i87wBvWuZGAG9bvOcAb1yQuQBvXeZSAG9e6fAAb1+88wBvYLzyAG9h5lQAb2LmQwBvY+ZeAG9kvO0Ab2a84wBvZ+ZXAG9p5lsAb2rmYABva+ZVAG9s5kkAb2285gBvbrzpAG9vvPEAb3C87ABvcuZMAG9z4qIAb3SgcQBvduZIAG935l8Ab3i86ABveZuqAG96vOsAb3vmYQBvfLzgAG995lYAb37l+wBvf+ZcAG+AwN8Ab4GVawBvguZKAG+EvOEAb4XmRQBvhrzlAG+H5fwAb4i6qwBvieZBAG+Km6sAb4vmWgBvjOZCAG+N5kAAb4686gBvkOZYAG+RoHIAb5Ll/gBvk+ZRAG+U5lAAb5XmXQBvluZHAG+XvO4Ab5yL+gBvnZusAG+e6fMAb5+brQBvoL9JAG+hvv4Ab6LqQABvo+nrAG+kv0EAb6Xp9wBvpr9IAG+nv0MAb6jp9QBvqe1PAG+q6fsAb6vqQgBvrOn6AG+t6ekAb67p+ABvr+pEAG+w6kYAb7G+/QBvsupFAG+zv0QAb7S/SgBvtaBzAG+2v0cAb7jp/gBvub9GAG+66fkAb7ubrgBvvOntAG+96fIAb76brwBvv+n9AG/Av0UAb8G/QgBvwr78AG/Dv0AAb8Tp8QBvxuX9AG/H6ewAb8jp7wBvyepBAG/K6fQAb8vp6gBvzO1OAG/N6kMAb87p7gBvz+n8AG/Ri30Ab9KLoQBv05uwAG/U7VEAb9XA4wBv2MDXAG/Zm7EAb9r8pABv28DbAG/c7VMAb93tWQBv3u1XAG/fwNkAb+DA2gBv4cDhAG/i7VoAb+PtUgBv5MDcAG/m7VYAb+ftVQBv6O1bAG/pwOIAb+vA3QBv7MDgAG/t7VQAb+7A5ABv78DeAG/wwOUAb/HA2ABv8u1YAG/zoHQAb/TtUABv9aB1AG/2lcYAb/fv9wBv+JuyAG/6wnEAb/vv9ABv/O/2AG/+wm8Ab//v8gBwAO/zAHAB7+4AcAObswBwBOn2AHAF7+8AcAbCcABwB+/rAHAJwm0AcArv+ABwC8JuAHAM7+wAcA3v7QBwDu/xAHAPwnMAcBHCcgBwFO/wAHAVw3gAcBbyXwBwF/JlAHAYw3kAcBnyXABwGsN2AHAbw3MAcBzyZwBwHcN3AHAe/qEAcB/DdABwIPJeAHAh8mEAcCLyYgBwI/JjAHAk8mYAcCbv9QBwJ/JdAHAow3UAcCnyZABwKvJoAHAr8mAAcCyTQABwL/RdAHAwxGoAcDH0YABwMsRrAHAz9GgAcDT0XwBwNfRcAHA39F4AcDj0YgBwOfRlAHA69GQAcDv0ZwBwPPRbAHA+xGkAcD/0YwBwQPRmAHBB9GkAcEL0YQBwQ/XTAHBE9dQAcEX12ABwRvXZAHBI9dYAcEn11wBwSvXVAHBLm7QAcEzE6QBwTZu1AHBPkHYAcFCbtgBwUcV4AHBS9usAcFSbtwBwVfboAHBW9ukAcFf26gBwWMV5AHBa9+UAcFv35ABwXJu4AHBd+K8AcF7F9ABwX/itAHBg+LAAcGH4rgBwYvj1AHBjxlcAcGTGZQBwZfmjAHBm+WwAcGebuQBwaPmiAHBp+dAAcGr50QBwa6T1AHBsnPYAcG2F2QBwb4j5AHBwpscAcHHKQQBwdMteAHB1jV8AcHaoXwBwd5u6AHB4qGIAcHmbuwBwestfAHB8qGAAcH2oYQBwfoNNAHB/ifIAcICF3wBwgfylAHCCzVgAcIPNWgBwhM1VAHCFzVIAcIbNVABwiZP0AHCKqqQAcIubvABwjf6jAHCOqqIAcI+bvQBwkc1WAHCSqqMAcJPNUwBwlM1QAHCVqqEAcJbNVwBwmM1RAHCZqqUAcJrNWQBwnI5FAHCdjnYAcJ/PrwBwoJu+AHChz7MAcKObvwBwpKy3AHClm8AAcKabwQBwp5vCAHCpz7YAcKusrwBwrKyyAHCtrLQAcK6stgBwr6yzAHCwz7IAcLHPsQBws6yxAHC0z7QAcLXPtQBwt8+uAHC4rLUAcLmKuwBwuqywAHC7oHYAcLyF3gBwvYj3AHC+z7AAcMCgdwBwwYujAHDCjHoAcMON0QBwxJvDAHDF0ncAcMbSeABwx9J5AHDIr1AAcMqvTABwy9JuAHDMm8QAcM3SdgBwztJ7AHDPr1EAcNCbxQBw0dJsAHDS0nIAcNPSawBw1NJ1AHDV/FcAcNabxgBw19JxAHDYr00AcNmvTwBw2tJ6AHDbifMAcNzSagBw3dJtAHDe0nMAcN+VrwBw4NJ0AHDh0nwAcOLScABw5K9OAHDmhd0AcOeI+ABw6I7qAHDpifQAcOuI+gBw7IrYAHDth/EAcO+ybQBw8NZOAHDxlUkAcPPWUABw9NZMAHD1nEAAcPbWWABw99ZKAHD41lcAcPmyaQBw+tZIAHD72lsAcPzWUgBw/bJsAHD+nEsAcP/WUwBxANZWAHEC1loAcQTWTwBxBZxMAHEG1lQAcQmyagBxCrJrAHEL1lkAcQzWTQBxDdZJAHEO1lsAcQ+geABxENZRAHET1lUAcRSCRABxFYXgAHEWiPsAcRfWSwBxGIrZAHEZtUgAcRq1SQBxG9plAHEctU8AcR2cTQBxHtpZAHEf2mIAcSDaWABxIbVMAHEi2mAAcSPaXgBxJdpfAHEmtUoAcSjaYwBxKZxOAHErnE8AcSycUABxLtpcAHEv2loAcTC1SwBxMdpdAHEy2mEAcTOcUQBxNPynAHE1nFIAcTa1TQBxOtpkAHE7nFMAcTyS5QBxPpxUAHE//nYAcUCcVQBxQd5wAHFC3ncAcUPeeQBxRN6hAHFF+2YAcUa32gBxR95rAHFJt9IAcUqVTwBxS956AHFMt9cAcU3eogBxTrfOAHFPnFYAcVDefQBxUZVfAHFS3m0AcVPefgBxVN5sAHFVoHoAcVa33ABxV53NAHFY3ngAcVm3zwBxWt6jAHFct9QAcV3ecQBxXrfZAHFf3nwAcWDebwBxYd52AHFi3nIAcWPebgBxZLfRAHFlt9gAcWa31gBxZ7fTAHFot9sAcWm30ABxat51AHFrnFcAcWy31QBxbrVOAHFw3nsAcXH+UwBxct5zAHFzoHsAcXWcWABxdvypAHF3nFkAcXjedABxeqB8AHF74sEAcXycWgBxfbq0AHF+nFsAcYDivQBxgeLDAHGC4r8AcYS6tgBxheK+AHGG4sIAcYfiugBxiKDYAHGJ4rwAcYq6tQBxjJxcAHGOnF0AcY/iwABxkOK7AHGRnF4AcZK6twBxlLqyAHGVlKsAcZacXwBxl+LEAHGYoOcAcZm6swBxmuZnAHGb5mQAcZzmcABxneZqAHGe5mwAcZ+89ABxoOZmAHGh5m4AcaKcYABxo5xhAHGk5m0AcaXmawBxp+ZxAHGovPcAcanmaABxquZvAHGsvPUAca2cYgBxr+ZjAHGw5mUAcbG89gBxsuZiAHGz5nIAcbScYwBxteZpAHG3nGQAcbjqSgBxub9RAHG6nGUAcbzqVQBxvepTAHG+v0sAcb/qSQBxwOpMAHHB6k0AccLqSABxw79VAHHEv1YAccXqRwBxxupWAHHH6lEAcci/TwBxyb9MAHHK6lAAccvqTgBxzr9SAHHP6lIAcdC/TQBx0ZxmAHHSv04AcdTqTwBx1b9QAHHW6ksAcdeg6ABx2OpUAHHZv1MAcdrqVwBx2+pYAHHcv1QAcd2cZwBx38DnAHHgwO4AceHtXABx4u1iAHHk7WAAceXA6gBx5sDpAHHnwOYAcejtXgBx65xoAHHswOwAce3A6wBx7sDoAHHw7WEAcfHtXQBx8u1fAHH0wO0AcfWg9QBx9vtwAHH4wncAcfnv+wBx+8J0AHH8wnUAcf3v/QBx/sJ2AHH/7/oAcgCcaQByAe/5AHIC8mwAcgPv/AByBfJtAHIGw3oAcgfyawByCZxqAHIK8moAcgzyaQByDcN7AHIOnGsAcg+cbAByEMRsAHIT9GoAchT0awByFfysAHIWnG0AchecbgByGfXcAHIa9dsAchvE6gByHfXaAHIe9uwAch/27QByIvfmAHIj+LEAciScbwByJZ1aAHIm+PYAcif5vAByKMZ5AHIp+cYAciqk9gByK5HJAHIsqqYAci2qpwByLpxxAHIwrLgAcjGFxgByMvpkAHI1wO8Acjak9wByN4XhAHI4qqgAcjmvUgByOrfdAHI7pPgAcjz6ZQByPbJuAHI+urgAcj/JYgByQJWnAHJBz7cAckLSfQByROLFAHJGwPAAckek+QBySKqpAHJJz7gAckrPuQByS9pmAHJMtVAAck2LpAByT96kAHJQ/K0AclK33gByU+LGAHJVlW4Acla8+AByV5xzAHJYw3wAclmk+gByWtpnAHJbpPsAclycdAByXabJAHJeykIAcl+myAByYKhlAHJhqGQAcmKoYwByY8tgAHJm+mYAcmeqqgByaaqrAHJqzVsAcmzPugBybs+9AHJvrLoAcnDPuwBycqy5AHJzz7wAcnSsuwBydYRhAHJ20qIAcnfSoQByeNJ+AHJ5r1MAcnqMewBye9ZdAHJ81l4Acn2ybwByftZcAHJ/1l8AcoC1UgBygbJwAHKC+mcAcoS1UQByhdprAHKG2moAcof8rgByiNpoAHKJ2mkAcoqLpQByi9psAHKM3qYAco3epQByjt6pAHKP+mgAcpDeqABykd6nAHKSurkAcpPiyQBylJx1AHKV4sgAcpa6ugByl+LHAHKY5nMAcprmdABym7z5AHKd6lkAcp7qWgByn/ppAHKgknEAcqHycgByosN9AHKj8nEAcqTycABypfJuAHKm8m8AcqfE6wByqPRsAHKp9u4Acqr49wByrKT8AHKt+moAcq7JpQByr6XHAHKwyaYAcrH6awBysvywAHK0ykMAcrXKRABytoNdAHK3itoAcrj6bAByuYT2AHK6y2YAcr3LYgByvvptAHK/y2EAcsCqrABywctlAHLCqGcAcsPLYwByxKhmAHLFy2cAcsbLZAByyIPBAHLJzV8AcsrPvgByy81dAHLMzWQAcs36bgByzqqtAHLQqrAActHNZQBy0s1hAHLUzWIActbNXABy16qvAHLYzV4ActmqrgBy2s1jAHLb+m8ActzNYABy3on2AHLfz8IAcuCsvQBy4ay+AHLi/LEAcuPPxQBy5M+/AHLmz8QAcujPwABy6ay8AHLqz8MAcuvPwQBy7Ij8AHLtg8AAcu6F4gBy747sAHLwhGIAcvGG4gBy8o5HAHLz0qgAcvTSpQBy9tKnAHL3r1gAcvivVwBy+a9VAHL60qQAcvvSqQBy/K9UAHL9r1YAcv7SpgBy/9ZnAHMA0qMAcwHSqgBzAvyyAHMDjusAcwScdgBzB9ZiAHMI1mYAcwrWZQBzC9puAHMM2nkAcw6K2wBzD9ZoAHMQnHcAcxHWYwBzEtptAHMTsnQAcxWPVQBzFrJzAHMX1mEAcxjWZABzGbJ1AHMbsnIAcxyycQBzHdZgAHMe1mkAcx+T5gBzIYzTAHMi2nAAcyPadwBzJPpwAHMltVQAcybadgBzJ9pzAHMo/LQAcym1VgBzKpW9AHMrlbwAcyz8rwBzLdp1AHMulVIAcy/6cQBzMNpvAHMx2nEAczLadABzM9pyAHM0tVUAczXaeABzNrVTAHM3t98Aczj6cgBzOfpzAHM63q0AczverABzPN6qAHM+t+IAcz+34QBzQN6uAHNBnHgAc0LeqwBzQ+LKAHNEursAc0W34ABzSPyzAHNJ3rAAc0rerwBzTOLNAHNN4ssAc068+gBzT/y1AHNQurwAc1HizABzUuZ2AHNXvPsAc1jmdQBzWeZ+AHNa5n0Ac1vmewBzXeZ6AHNe5ncAc1/meABzYOZ5AHNh5nwAc2LmoQBzY5LeAHNl6l8Ac2bqXABzZ+pdAHNov1cAc2nqWwBzauphAHNr6mAAc2zqXgBzbYunAHNu7WQAc2/tZQBzcMDxAHNx/LYAc3LA8gBzc+1jAHN0nHkAc3XCeQBzdu/+AHN3wngAc3jDfgBzesOhAHN7xG0Ac3z0bgBzffRtAHN+9d0Ac3/27wBzgMV6AHOB9+gAc4L35wBzg/fpAHOEpcgAc4XPxgBzhq9ZAHOHsnYAc4jWagBziaXJAHOKyacAc4uk/QBzjJx6AHOOykUAc4+cewBzkYj9AHOSy2wAc5PLagBzlMtrAHOVy2gAc5aoaABzl8tpAHOYnHwAc5uG5ABznJx9AHOdzW0Ac56cfgBzn6qzAHOgzWsAc6HNZwBzos1qAHOkzWYAc6WqtQBzps1pAHOnnKEAc6iqsgBzqaqxAHOqnKIAc6uqtABzrM1sAHOtzWgAc66OSABzr4n4AHOwhGMAc7KswgBzs6zFAHO0z84Ac7XPzQBzts/MAHO3rL8Ac7jP1QBzuc/LAHO6i6gAc7uswQBzvNKvAHO9+nQAc77P0gBzv8/QAHPArMQAc8LPyABzw8/TAHPFz8oAc8bP1ABzx8/RAHPIz8kAc8mVvgBzyqzAAHPLz9YAc8zPxwBzzazDAHPO+nUAc8+VtgBz0JCyAHPRi/0Ac9LStABz09KrAHPU0rYAc9WcowBz1tKuAHPX0rkAc9jSugBz2dKsAHPa0rgAc9vStQBz3NKzAHPd0rcAc96vXwBz4K9dAHPhnKQAc+KcpQBz49KxAHPknKYAc+XSrQBz5pynAHPn0rAAc+jSuwBz6dKyAHPqr14Ac+vPzwBz7a9aAHPur1wAc++cqABz8fp2AHPyheQAc/OcqQBz9NZ4AHP11m0Ac/bWawBz9/6qAHP41mwAc/mcqwBz+tZzAHP7nKwAc/zWdABz/dZwAHP+snsAc//WdQB0ANZyAHQB1m8AdAKcrQB0A7J5AHQE1m4AdAWydwB0BrJ6AHQH1nEAdAjWeQB0Ca9bAHQKsngAdAvWdwB0DNZ2AHQNsnwAdA+OvwB0EIbjAHQRnK4AdBKcrwB0FJywAHQVnLEAdBbafgB0F5yyAHQZnLMAdBraoQB0G7VgAHQcnLQAdB3apwB0Hpy1AHQfnLYAdCDaqQB0IdqiAHQitVoAdCPapgB0JNqlAHQltVsAdCa1YQB0KLViAHQp2qgAdCq1WAB0K9p9AHQs2nsAdC3aowB0Ltp6AHQvtV8AdDDafAB0MdqkAHQy2qoAdDO1WQB0NLVeAHQ1tVwAdDa1XQB0N5y3AHQ4nLgAdDmcuQB0OrVXAHQ8i6kAdD+36QB0QN63AHRBt+gAdELeuwB0Q5y6AHRE3rEAdEWcuwB0Rt68AHRHnLwAdEicvQB0SZy+AHRK3rIAdEveswB0Td69AHRO3roAdE/euAB0UN65AHRR3rUAdFLetAB0U5y/AHRU3r4AdFW35QB0VpzAAHRX3rYAdFm36gB0WrfkAHRbt+sAdFy37AB0Xfy5AHRet+cAdF+35gB0YP51AHRhnXMAdGLizgB0Y7q+AHRkur0AdGWcwQB0Z+LTAHRo/qwAdGm8/AB0arq/AHRrnMIAdGycwwB0bbrBAHRu4tQAdG+34wB0cLrAAHRx4tAAdHLi0gB0c+LPAHR0nMQAdHXi0QB0dvp3AHR3ifkAdHnmqwB0epzFAHR85qoAdH3mpwB0fr1AAHR/6mIAdIC9QQB0geamAHSCnMYAdIO8/gB0heaoAHSG5qUAdIfmogB0iOapAHSJ5qMAdIrmpAB0i7z9AHSMgdAAdI2B0QB0jox9AHSQ7WkAdJLqZgB0lOplAHSV6mcAdJftZgB0mL9aAHSZgdIAdJrqYwB0m4HTAHScv1gAdJ2ddAB0nr9cAHSfv1sAdKDqZAB0oepoAHSi+ngAdKO/WQB0pIHUAHSl7W0AdKbA9QB0p8J6AHSowPYAdKnA8wB0qu1qAHSr7WgAdK3tawB0r+1uAHSwwPQAdLHtbAB0su1nAHS0gdUAdLXwQgB0tvBFAHS38nUAdLjwQAB0uYHWAHS69G8AdLvwRgB0vcOiAHS+8EQAdL/CewB0wPBBAHTB8EMAdMLwRwB0w/J2AHTF8nQAdMiB1wB0ysOjAHTL8nMAdMyB2AB0z8RuAHTQgdkAdNKM+QB004HaAHTUxO0AdNX28QB01sTsAHTX9vMAdNj28AB02fbyAHTaxdAAdNv4sgB03KXKAHTdzW4AdN7SvAB039K9AHTgsn0AdOHevwB04r9dAHTjw6QAdOTFewB05fizAHTmpcsAdOeUrAB06M1vAHTpomAAdOzP1wB07s/YAHTviP4AdPCUrgB08ZSvAHTylK0AdPTSvgB09dK/AHT2sn4AdPeyoQB0+JSwAHT72qsAdP3ewgB0/t7BAHT/3sAAdQDi1QB1Afp5AHUC4tYAdQPi1wB1BLrCAHUFlLEAdQfmrQB1COasAHUL6mkAdQy/XgB1Db9fAHUOlcIAdQ/tcgB1EO1vAHUR7XAAdRLtcQB1E/BJAHUU8EgAdRXCfAB1FvJ3AHUX9d4AdRilzAB1Gfp6AHUarMYAdRyyogB1Hd7DAHUe/LsAdR+lzQB1IdLAAHUisqMAdSP6ewB1JbVjAHUmtWQAdSilzgB1KaXPAHUqykYAdSuoagB1LKhpAHUtrMcAdS7P2QB1L9qsAHUwpdAAdTGl0QB1MqXSAHUzpdMAdTSgWQB1NYZ6AHU3qGsAdTiobAB1OctuAHU6y20AdTuE+AB1PPp8AHU9qrYAdT7NcgB1P81wAHVAzXEAdUKB2wB1RPp9AHVFhtAAdUb70QB1R8/aAHVIz9sAdUn6fgB1SpW/AHVLrMsAdUysyQB1TfqhAHVOrMoAdU+syAB1UZRVAHVT/LwAdVSvYAB1VYHcAHVZr2QAdVqvYwB1W9LBAHVcr2IAdV2vYQB1X9LCAHVglFYAdWKypgB1Y9Z7AHVk1noAdWWypAB1ZrKlAHVnlcwAdWmUsgB1arVmAHVrtWUAdWzargB1bfqiAHVugd0AdW/arQB1cLKnAHVyjeIAdXOS7AB1dIuqAHV2t+0AdXfexQB1eLfuAHV53sQAdXr8vQB1feLYAHV+5q4AdX+9QgB1gOpqAHWC+qMAdYP6pAB1hO1zAHWGw6YAdYfDpQB1ifqlAHWKxXwAdYul1AB1jM1zAHWNgd4AdY6TUQB1j7KoAHWQ4tkAdZG6wwB1ksbUAHWUy28AdZXLcAB1lo94AHWXifsAdZjNdAB1maq4AHWaqrkAdZ2qtwB1noHfAHWfhuUAdaCK3QB1oYbmAHWirM8AdaOs0AB1pKzNAHWlrM4AdafP3AB1qs/dAHWrrMwAdaz6pgB1rof0AHWvhucAdbDSwwB1sf5RAHWyr2gAdbOvaQB1tPtcAHW1sqsAdbbSyQB1uK9uAHW5r2wAdbrSygB1u9LFAHW8r2sAdb2vagB1vq9lAHW/0sgAdcDSxwB1wdLEAHXCr20AdcP80wB1xNLGAHXFr2YAdcevZwB1yI/9AHXJhPkAdcqyrAB1y9ahAHXM1qIAdc2yrQB1ztZ8AHXP1n4AddDWpAB10dajAHXS1n0AddSyqQB11bKqAHXW+qcAddfatgB12LVrAHXZtWoAddrasAB127VoAHXcgeAAdd3aswB13rVsAHXf2rQAdeC1bQB14dqxAHXitWcAdeO1aQB15Nq1AHXm2rIAdefarwB16In6AHXp+qgAdeqG6AB1649YAHXt3tIAde/exwB18LfwAHXxt/MAdfK38gB187f3AHX0t/YAdfXe0wB19t7RAHX33soAdfjezgB1+d7NAHX6t/QAdfve0AB1/N7MAHX93tQAdf7eywB1/7f1AHYAt+8AdgG38QB2AvzVAHYD3skAdgWPVwB2B/zUAHYI4tsAdgm6xwB2CuLfAHYLusYAdgzi3AB2DbrFAHYP3sgAdhDezwB2EeLeAHYTusgAdhTi4AB2FeLdAHYW4toAdheOwQB2GIlAAHYZ5rEAdhrmtQB2G+a3AHYc5rMAdh3msgB2HuawAHYfvUUAdiC9QwB2Ib1IAHYivUkAdiPmtAB2JL1GAHYl5q8Adia9RwB2J7rEAHYo5rYAdim9RAB2KourAHYrjVQAdiyB4QB2LepsAHYv6msAdjDqcwB2MeptAHYy6nIAdjPqbwB2NL9gAHY16nEAdji/YQB2Or9iAHY7lakAdjzqcAB2PepuAHY+jNUAdj+QWAB2QPqpAHZCwPgAdkPtdAB2RsD3AHZH7XcAdkjtdQB2Se12AHZMwPkAdk36qgB2TpVvAHZPgeIAdlDwTQB2UYHjAHZSwqEAdlPwTgB2VPqrAHZWwn0AdlfwTwB2WMJ+AHZZ8EwAdlrwUAB2XPBKAHZejH4Adl/DpwB2YPJ4AHZhw6gAdmLEbwB2Y4zWAHZk8EsAdmXEcAB2Zvt2AHZn/NcAdmj6rAB2acTuAHZq9d8AdmuNVQB2bMV+AHZt9vQAdm7FfQB2b/zYAHZw9+oAdnHF9QB2csX2AHZzgeQAdnSB5QB2dfnMAHZ2xtUAdnis0QB2ec/eAHZ6k7kAdnu1bgB2fLVvAHZ9pdUAdn6mygB2f8pHAHaA+q0AdoHLcQB2gqhtAHaD+q4AdoSqugB2hqzSAHaHrNMAdois1AB2idamAHaK0ssAdouvbwB2jrKuAHaP1qUAdpD6rwB2kYf1AHaS2rgAdpO1cQB2ldq3AHaWtXAAdpne1QB2mr1KAHab5rsAdpzmuAB2nea5AHae5roAdqH8vgB2pO14AHalgeYAdqbwUQB2qvRxAHar9HAAdq329QB2rqXWAHavzXUAdrCvcAB2sYf2AHayjncAdrS1cgB2td7WAHa3+rAAdrji4QB2ufqxAHa6vUsAdrvqdAB2vfBSAHa+9HIAdr+l1wB2wqq7AHbDrNcAdsTP3wB2xazYAHbGrNYAdsis1QB2ydLMAHbKr3EAdsz8vwB2za9yAHbOr3MAds+F5gB20I1pAHbRhuoAdtKysAB209anAHbUsq8AdtaHSQB214T7AHbYh/cAdtmB5wB22tq5AHbbsrEAdty1cwB23d7XAHbet/gAdt+3+QB24brJAHbjusoAduS9TAB25b9kAHbm6nUAdue/YwB26e15AHbqwPoAduzwUwB27fRzAHbupdgAdu+obgB28M14AHbxzXcAdvKqvAB28812AHb0qr0AdvXNeQB298/lAHb4rNsAdvms2gB2+s/nAHb7z+YAdvys3wB2/qzeAHcBrNkAdwPP4QB3BM/iAHcFz+MAdwes4AB3CM/gAHcJrNwAdwrP5AB3C6zdAHcMkrEAdw36sgB3DoHoAHcPgekAdxDSzwB3EdLTAHcS0tEAdxPS0AB3FdLUAHcZ0tUAdxrS1gB3G9LOAHcd0s0Adx76swB3H691AHcgr3YAdyLS1wB3I9LSAHck/MAAdyXWsAB3Jo3SAHcn0tgAdyivdwB3Ka90AHcr/MEAdy3WqgB3L9apAHcx1qsAdzLWrAB3M9auAHc01q0AdzXWsgB3NrK1AHc3srIAdziytgB3OdaoAHc6srcAdzvWsQB3PLK0AHc91q8Adz6yswB3QJVNAHdBhegAd0P6tAB3RNq8AHdF2r4Ad0baugB3R9q7AHdK2r8Ad0vawQB3TNrCAHdN2r0Ad07awAB3T7V0AHdQhecAd1GK3gB3Ut7bAHdU3uAAd1Xe2AB3Vt7cAHdYgeoAd1ne4QB3Wt7dAHdbt/oAd1y4QwB3Xrf9AHdf3tkAd2De2gB3YbrOAHdiuEYAd2O3/gB3ZbhEAHdmt/wAd2fe3wB3aLhFAHdp3t4Ad2q4QQB3a7f7AHdsuEIAd23e4gB3buLmAHdv4ugAd3KB6wB3d4HsAHd4ge0Ad3m4QAB3eoHuAHd7ge8Ad3zi4wB3fbrMAHd+4ukAd3+6zQB3gOLnAHeB4uIAd4Li5QB3g+LqAHeEussAd4Xi5AB3h71OAHeI5r8Ad4nmvgB3i71RAHeMvU8Ad43mvAB3jr1NAHeP5r0Ad5G9UAB3kolCAHeT+2sAd5XqfQB3l+qhAHeYgfAAd5nqfgB3mup2AHeb6noAd5zqeQB3nep3AHeev2YAd5+/ZwB3oL9lAHeh6ngAd6LqewB3o+p8AHelv2gAd6fBQAB3qO2jAHepjXwAd6rA/AB3q+17AHeswP4Ad63BQQB3r4HxAHewwP0Ad7HtogB3su18AHezwPsAd7TtoQB3te16AHe27X4Ad7ftfQB3uf5aAHe68FUAd7vCpAB3vMKlAHe9wqIAd76B8gB3v8KjAHfC8FQAd8OB8wB3xPJ7AHfFgfQAd8fDqQB3yfJ5AHfK8noAd8uB9QB3zPR0AHfN9HcAd870dQB3z/R2AHfQ9eAAd9PE7wB31PfrAHfV+LQAd9fF9wB32Pj4AHfZ+PkAd9rGZgB326XZAHfcrOEAd92B9gB33trDAHfg3uMAd+Kl2gB346hvAHflqr4Ad+aB9wB358/oAHfoz+kAd+mveAB364n8AHfs2sQAd+21dQB37rhHAHfvwUIAd/DtpAB38fJ8AHfy9HgAd/Ol2wB39IH4AHf2if4Ad/fNoQB3+M16AHf5zXwAd/rNfgB3+819AHf8zXsAd/2qvwB3/oxBAHf/i/4AeACOeAB4AYf5AHgCrOIAeAPP8gB4Bc/tAHgGz+oAeAiWQQB4Cc/xAHgMrOQAeA2s5QB4Ds/wAHgPz+8AeBDP7gB4Ec/rAHgSz+wAeBPP8wB4FKzjAHgVksUAeBaJQwB4F43jAHgY+rUAeBqE/AB4HPq2AHgdr3wAeB6B+QB4H6+kAHggr6MAeCHS4QB4ItLbAHgj0tkAeCWvoQB4Jta5AHgnr3oAeCjS3gB4KdLiAHgq0uQAeCvS4AB4LNLaAHgtr6IAeC7S3wB4L9LdAHgwr3kAeDHS5QB4Mq+lAHgz0uMAeDSvfQB4NdLcAHg3r34AeDivewB4Ofq3AHg6jEAAeDuQQgB4PPq4AHg9gfoAeD6MQgB4P4JfAHhAit8AeEKB+wB4Q7K5AHhEgfwAeEXWugB4R/q5AHhI1rMAeEnWtQB4Sta3AHhLgf0AeEzWuAB4Tda2AHhOsroAeFDWuwB4UYH+AHhS1rQAeFP8wwB4VJZLAHhVhusAeFb6ugB4V49ZAHhc2sgAeF21dgB4XtrQAHhg2sUAeGLa0QB4ZNrGAHhl2scAeGaWTAB4aNrPAHhp2s4AeGraywB4a7K4AHhstXcAeG3ayQB4btrMAHhvtXgAeHDazQB4cdrKAHhylFQAeHSUtAB4d41oAHh53u4AeHr6uwB4e97yAHh8uE4AeH7i8AB4f7hRAHiA3vAAeIH51gB4g97tAHiE3ugAeIXe6gB4ht7rAHiH3uQAeIiWTQB4ibhNAHiMuEwAeI2LrAB4jrhIAHiP3ucAeJG4TwB4k7hQAHiU3uYAeJXe6QB4lt7xAHiXuEoAeJi4SwB4md7vAHia3uUAeJuJRAB4nI7tAHie4vIAeJ+60AB4oOL0AHih3uwAeKLi9gB4o7rUAHik4vcAeKXi8wB4p7rRAHio4u8AeKm60wB4quLsAHir4vEAeKzi9QB4reLuAHiv/McAeLC4SQB4sZXwAHiy4usAeLO60gB4tOLtAHi1+rwAeLaWTgB4uJbNAHi5+r0AeLq9VAB4u+bBAHi8vVgAeL69VgB4wbrPAHjD5sgAeMTmyQB4xb1TAHjG+r4AeMeWTwB4yObHAHjJ5soAeMq9VQB4y71SAHjM5sMAeM3mwAB4zubFAHjP5sIAeNC9WQB40ebEAHjSllAAeNP8xAB41ObGAHjVvVcAeNeWUQB42PzFAHjZ+r8AeNq/agB42+qoAHjd6qIAeN7qpgB43+qsAHjg6q0AeOHqqQB44uqqAHjj6qcAeOSWVAB45eqkAHjnv2wAeOi/aQB46eqjAHjq6qUAeOy/awB47eqrAHjullUAeO/BRgB48JZWAHjxllcAePLtqgB48+2lAHj0wUUAePWWWAB498FDAHj57awAePrBRAB4++2oAHj87akAeP3tpgB4/u2tAHj/8FYAeQHBRwB5Au2nAHkE7a4AeQXtqwB5BvuoAHkH+sAAeQnwWgB5DPBXAHkOwqYAeRDwWwB5EfBdAHkS8FwAeRPwWAB5FPBZAHkX8qMAeRnDqgB5G/J+AHkc8qIAeR3yfQB5HvKkAHkh8qEAeSP0egB5JPR9AHkl9HkAeSbEcQB5J/R7AHko9HwAeSn0fgB5KsRyAHkrxHQAeSzEcwB5LfXhAHku/ncAeS/14wB5MPrBAHkx9eIAeTKWWQB5M5ZaAHk0+sIAeTX29gB5NpZbAHk4+LUAeTn4+gB5OqXcAHk7+sMAeTyK4AB5PctyAHk+qsAAeT/NowB5QKrBAHlBqsIAeULNogB5RM/4AHlFz/cAeUas5gB5R6zpAHlIrOgAeUms5wB5Ss/0AHlLz/YAeUzP9QB5T9LoAHlQr6cAeVHS7AB5UtLrAHlT0uoAeVTS5gB5Va+mAHlWr6oAeVevrQB5WJZcAHlZll4AeVqvrgB5W9LnAHlc0ukAeV2vrAB5Xq+rAHlfr6kAeWCvqAB5YdbCAHlij74AeWPWwAB5ZNa8AHllsrsAeWfWvQB5aLK8AHlp1r4AeWrWvwB5a9bBAHltsr0AeW+G7AB5cNrVAHlxll8AeXLa1AB5c9rTAHl02tIAeXeCcAB5eIbtAHl53vYAeXq4UgB5fN7zAHl93vUAeX6WYAB5f7hTAHmA+sQAeYG4VAB5gt70AHmDlmEAeYSCdwB5hZNQAHmGlmIAeYeWYwB5iONBAHmK4vkAeYvi+gB5jbrXAHmOutUAeY+61gB5kONDAHmRlmQAeZLjQgB5k+L+AHmU4v0AeZXi/AB5luL7AHmX40AAeZji+AB5mZZlAHma5ssAeZvm0AB5nObOAHmd+sUAeZ+WZgB5oObNAHmh5swAeaLmzwB5pOquAHmllmcAeaa/bQB5p8FIAHmo7bAAean8ygB5qsFJAHmr7a8AeazwXwB5rfBeAHmuwqcAebDypQB5scOrAHmy9KEAebPFoQB5tPb3AHm2+LcAebf4tgB5uMmoAHm5rOoAebqs6wB5u9bDAHm9uFYAeb6l3QB5v6hyAHnAqHEAecGocAB5w/rGAHnE+6kAecXNpAB5xoT9AHnIqsQAecmqwwB5yp3OAHnLrO4Aecz8pgB5zc/6AHnOz/0Aec/P+wB50azsAHnSrO0AedT8zAB51c/5AHnWz/wAedivtQB53NLzAHnd0vUAed7S9AB536+yAHng0u8AeeH6xwB54pZoAHnjr7AAeeSvrwB55q+zAHnnr7EAeemvtAB56tLyAHnr0u0AeezS7gB57dLxAHnu0vAAee+FuAB58IbvAHnxlmkAefSWagB59tbGAHn31scAefjWxQB5+tbEAHn7sr4Aef2K4gB6ALV9AHoC2tYAegPa2AB6BNraAHoFtXwAegb6yAB6CLV6AHoK2tcAegu1ewB6DNrZAHoNtXkAeg76yQB6EN9BAHoR3vcAehLe+gB6E97+AHoUuFoAehXe/AB6F977AHoY3vgAehne+QB6GrhYAHob30AAehy4VwB6HrhcAHofuFsAeiC4WQB6It79AHojiUcAeibjSQB6KONIAHoqlmsAeivjRAB6LfzOAHouutgAei/jRwB6MONGAHoxutkAejKTpgB6M4uuAHo3vV4Aejnm0gB6OpZsAHo7vV8Aejy9WwB6Pb1dAHo+/M8Aej+9WgB6QL1cAHpCkvkAekP6ygB6ROqvAHpFlm0Aeka/cAB6R+qxAHpI6rAAekn80AB6SuNFAHpLv3IAeky/cQB6Tb9uAHpOv28Aek+SUwB6UPrLAHpRiuEAelTttQB6Vu2zAHpXwUoAeljttAB6Wu22AHpb7bIAelztsQB6X/BgAHpgwqoAemHCqAB6YsKpAHpjgmcAemWWbgB6Z/KmAHpo8qcAemnDrQB6a8OsAHps9KMAem30pAB6bvSiAHpw9vgAenH2+QB6dKXeAHp1ykgAenaocwB6d4f7AHp4zaUAenmqxgB6eqrFAHp7zaYAen38QgB6ftBAAHp/rO8AeoDP/gB6gazwAHqDjPoAeoSvtgB6hdL4AHqG0vYAeofS/AB6iK+3AHqJ0vcAeorS+wB6i9L5AHqM0voAeo2K5AB6j9bIAHqQ1soAepGH+gB6krK/AHqTk1gAepTWyQB6lbLAAHqWtaIAepe1oQB6mLV+AHqZ2tsAepyK4wB6nYbxAHqe30QAep+4XQB6oLheAHqi30MAeqPfQgB6pYlIAHqmjEMAeqjjSgB6qbrbAHqqutoAeqvjSwB6rONMAHqtju4Aeq69YQB6r71gAHqw/qcAerHqtQB6subTAHqz5tUAerTm1AB6teq0AHq26rIAerfqtgB6uOqzAHq6v3MAerv8RAB6vJZvAHq+7bcAer/BSwB6wO24AHrB7bkAesKWcAB6w/rMAHrEwqsAesXCrAB6x8R1AHrI/eUAesmWcQB6ysXRAHrLpd8Aes2UtQB6z5S2AHrR0EEAetL6zQB605S4AHrVlLcAetaIZwB62NL9AHrZr7gAetr80gB625ZyAHrck+IAet380QB63oxEAHrfs7oAeuCzuQB64ZS5AHri+s4AeuO1pAB65NrdAHrltaMAeuba3AB65/rPAHrplnMAeuqCbQB6699FAHrtutwAeu7jTQB677rdAHrwlLoAevbEdgB69/SlAHr4+tAAevmmywB6+qrHAHr7zacAev2s8gB6/pZ0AHr/rPEAewDQQgB7AdBDAHsClLsAewOJSQB7BNNAAHsF00IAewavuQB7CNNEAHsJ00cAewrTRQB7C4VBAHsMlnUAew7TRgB7D9NDAHsQ0v4AexGvugB7EtNIAHsT00EAexSFQAB7FYXsAHsY1tMAexmyxgB7GtbcAHsbssMAex3W1QB7HrLHAHsf/NwAeyCywQB7ItbQAHsj1t0AeyTW0QB7JdbOAHsmssUAeyeWdgB7KLLCAHsplncAeyrW1AB7K9bXAHssssQAey3W2AB7LrLIAHsv1tkAezDWzwB7MdbWAHsy1toAezPW0gB7NNbNAHs11ssAezb60QB7ONbbAHs5/mQAezqG8gB7O9rfAHs8jNcAez6QegB7QNrkAHtClngAe0OWeQB7RNrgAHtF2uYAe0a1pwB7R9bMAHtI2uEAe0m1pQB7StreAHtLtawAe0za4gB7TbWrAHtO2uMAe0+1rQB7ULWoAHtRta4Ae1K1qQB7VLWqAHtVlnoAe1a1pgB7WNrlAHtaj1sAe1uJSgB7XYbzAHtguGEAe2HfUAB7YvrSAHtj31MAe2TfRwB7Zd9MAHtm30YAe2e4YwB7ad9KAHts+tMAe23fSAB7brhiAHtvlnsAe3DfTwB7cd9OAHty30sAe3PfTQB7dN9JAHt1uuEAe3bfUgB7d7hfAHt431EAe3mMRQB7evrUAHt7+tUAe36LrwB7gIrpAHuC410Ae4S66AB7heNYAHuGgnoAe4e65wB7iONOAHuK41AAe4u64AB7jONVAHuN41QAe47jVwB7j7rlAHuQ41IAe5HjUQB7kvzdAHuUuuQAe5W63wB7luNTAHuXuuIAe5jjWQB7meNbAHua+tYAe5vjVgB7nONPAHuduuMAe5761wB7n/rYAHugvWkAe6G63gB7ovrZAHuj/N4Ae6TjXAB7po9aAHun+toAe6iQWQB7qY1xAHuqiucAe6uK5QB7rObZAHutvWIAe6/m2wB7sb1jAHuylnwAe7S9ZQB7tebeAHu35tYAe7i65gB7uebcAHu+5tgAe8C4YAB7wb1oAHvEvWQAe8a9ZgB7x71nAHvJv3YAe8rm3QB7y+bXAHvMvWoAe87m2gB7z/zfAHvQltAAe9GK6AB704pAAHvU6sAAe9XquwB72OrFAHvZv3QAe9rqvQB72794AHvc6sMAe93qugB73uq3AHvf6sYAe+DBUQB74b95AHvi6sIAe+PquAB75L93AHvl6rwAe+a/ewB75+q5AHvo6r4Ae+m/egB76urBAHvr6sQAe+yW0QB77YKhAHvujEYAe/DtywB78e3MAHvy7bwAe/PtwwB79O3BAHv2+tsAe/fBTwB7+O3IAHv56r8Ae/qW0gB7++2/AHv8/OEAe/3tyQB7/sFOAHv/7b4AfADtvQB8Ae3HAHwC7cQAfAPtxgB8Be26AHwG7coAfAfBTAB8Ce3FAHwK7c4AfAvtwgB8DMFQAHwNwU0AfA7twAB8D+27AHwQ7c0AfBG/dQB8EvrcAHwTlLwAfBT63QB8FZbTAHwWkHcAfBeUvQB8GfBjAHwbltQAfBzwYQB8HfBnAHwewrAAfB/wZQB8IPBkAHwhwrIAfCLwagB8I8KxAHwl8GsAfCbwaAB8J8KuAHwo8GkAfCnwYgB8KsKvAHwrwq0AfCzyqwB8LfBmAHww8GwAfDPyqAB8NZbVAHw3w7IAfDjDsAB8OfKqAHw78qwAfDzyqQB8PcOxAHw+w64AfD/DrwB8QMOzAHxBjNgAfEL84gB8Q8R4AHxEltYAfEX0qgB8R/SpAHxI9KcAfEn0pgB8SvSoAHxMxHcAfE3EeQB8T/reAHxQxPAAfFH84wB8U/XlAHxU9eQAfFb63wB8V/b6AHxY+uAAfFn2/AB8Wvb+AHxb9v0AfFz2+wB8XfzkAHxfxaMAfGDFogB8Y8XTAHxkxdIAfGXF1AB8ZvftAHxn9+wAfGn4+wB8avi4AHxr+PwAfGzGWAB8bZbXAHxuxlkAfG/5bQB8cPzlAHxyxn4AfHOmzAB8dJBaAHx1zagAfHjQRQB8edBGAHx60EQAfHuL3QB8fINeAHx9rPMAfH785gB8f9BHAHyA0EgAfIHQSQB8gpRDAHyD/OgAfITTSQB8hdNPAHyG/OcAfIjTTQB8ia+7AHyK00sAfIuS9wB8jNNMAHyN004AfI6W2AB8kJS+AHyR00oAfJKyyQB8lNbeAHyVsssAfJbW4AB8l7LKAHyY1t8AfJuS4AB8nJB7AHydkEMAfJ7a6AB8n7WvAHyh2uoAfKLa5wB8o9bhAHykhe0AfKW1sAB8pv5jAHyn+dsAfKja6QB8qopBAHyr+uEAfKz86QB8rZS/AHyuiuoAfK/fVgB8sbhkAHyy31QAfLO4ZQB8tN9VAHy1uGYAfLiW2QB8ubrpAHy642EAfLvjXgB8vONgAHy9uuoAfL666wB8v+NfAHzAlMAAfMGKQwB8wvzrAHzDltoAfMXm3wB8x/zqAHzI5uAAfMmVsgB8yr1rAHzL5uIAfMzm4QB8zaBUAHzOomEAfNDqygB80erLAHzS6scAfNP7fgB81OrIAHzVv3wAfNa/fQB81+rJAHzYlMEAfNnBVwB82vztAHzcwVMAfN3BWAB83sFUAHzfwVYAfODBUgB84sFVAHzmltsAfOfCswB86O3PAHzq8q4AfOzyrQB87ZbcAHzu9KsAfO/EegB88MR7AHzx90EAfPL15gB885bdAHz090AAfPWW3gB89vj9AHz3+aQAfPimzQB8+ZbfAHz6+uIAfPuodAB8/JbhAHz9zakAfP6qyAB9AKz2AH0B0EwAfQKs9AB9A9BKAH0ErPkAfQWs9QB9Bqz6AH0HrPgAfQjQSwB9Caz3AH0Kr78AfQuvvgB9DNNaAH0Nr8cAfQ7TUwB9D9NZAH0Qr8MAfRHTUgB9EtNYAH0T01YAfRSvwgB9Fa/EAH0W01UAfRevvQB9GNNUAH0Zr8gAfRqvxQB9G6/JAH0cr8YAfR3TUQB9HtNQAH0f01cAfSCvwAB9Ia+8AH0ir8EAfSWV4gB9J4b6AH0o1vAAfSnW6QB9K7W1AH0s1ugAfS6yzwB9L7LWAH0wstMAfTGy2QB9MrLYAH0zstQAfTXW4gB9NtblAH041uQAfTmy0AB9OtbmAH071u8AfTyy0QB9PdbjAH0+1uwAfT/W7QB9QLLSAH1B1uoAfUKy1wB9Q7LNAH1EstUAfUXW5wB9RrLMAH1H1usAfUj64wB9StbuAH1L+uQAfUySqwB9TfzvAH1O2vsAfU/a8gB9ULWyAH1R2vkAfVLa9gB9U9ruAH1U2vcAfVW1tAB9VtrvAH1Y2usAfVr88AB9W7hsAH1c2vQAfV3+YAB9XrWxAH1f2voAfWG1uAB9YrW6AH1j2u0AfWa1uQB9Z9rwAH1otbMAfWna+AB9atrxAH1r2vUAfW3a8wB9brW2AH1v2uwAfXC1uwB9cbLOAH1ytbcAfXO1vAB9dZJbAH12k0YAfXf65QB9ebhoAH16310AfXvfXwB9fN9hAH1932UAfX/fWwB9gN9ZAH2BuGoAfYPfYAB9hN9kAH2F31wAfYbfWAB9iN9XAH2JlWgAfYuW4gB9jN9iAH2N31oAfY7fXgB9j7hrAH2RuGkAfZLfZgB9k7hnAH2U32MAfZWduQB9luNyAH2XluMAfZmSrgB9mpNkAH2blMIAfZy67gB9neNqAH2evXgAfZ/jdAB9oLrxAH2h43gAfaK69wB9o+NlAH2kluQAfabjdQB9p+NiAH2oluUAfanjdwB9quNmAH2rlVYAfay6/gB9rbr7AH2u43YAfa/jcAB9sLrtAH2xuvUAfbK69AB9s5VqAH20uvMAfbW6+QB9t+NjAH24uvoAfbnjcQB9urr2AH27uuwAfbzjcwB9vbrvAH2+uvAAfb+6+AB9wONoAH3B42cAfcLjZAB9xONsAH3F42kAfcbjbQB9x7r9AH3J43kAfcq68gB9y+NuAH3M428Afc2W5gB9zuNrAH3Pk1wAfdCW5wB90ZPnAH3SuvwAfdOW6AB91PrmAH3V+ucAfdb66AB91+bnAH3YvXAAfdm9eQB92r11AH3b5uQAfdyVwwB93b1yAH3evXYAfd/m8AB94L1sAH3h5ugAfeO9dAB95PrpAH3llukAfebm6wB95+bmAH3ovXMAfem9dwB96ublAH3svXEAfe7m7wB9771uAH3w5u4AffHm7QB98r16AH3z5XIAffS9bQB99fzxAH325uwAfffm4wB9+b17AH365uoAffu9bwB9/ZbqAH3+n34AfgGSTQB+A+bpAH4Eku0AfgWUwwB+B5+hAH4Iv6IAfgm/pwB+Cr9+AH4L6tgAfgzqzwB+DerbAH4O6tMAfg/q2QB+EL+oAH4Rv6EAfhLqzAB+E+rSAH4U6twAfhXq1QB+FuraAH4X6s4Afhrq1gB+G7+jAH4c6tQAfh2/pgB+Hr+lAH4f6tAAfiDq0QB+IerNAH4i6tcAfiO/pAB+JOreAH4l6t0AfiaS3wB+J/zyAH4p7doAfirt1gB+K8FfAH4t7dAAfi7BWQB+L8FpAH4w7dwAfjHBYQB+MsFdAH4z7dMAfjTBZAB+NcFnAH427d4AfjfBXAB+OO3VAH45wWUAfjrt4AB+O+3dAH487dEAfj3BYAB+PsFaAH4/wWgAfkDt2AB+QcFjAH5C7dIAfkPBXgB+RO3fAH5FwWIAfkbBWwB+R+3ZAH5IwWYAfknt1wB+SpNPAH5LgloAfkzt2wB+TfrqAH5Q8G4AflHwdAB+UsK5AH5T8HcAflTCtAB+VcK1AH5W8G8AflfwdgB+WPBxAH5ZwroAflrCtwB+W5+iAH5c8G0Afl366wB+XsK2AH5f8HMAfmDwdQB+YcK4AH5i8HIAfmPwcAB+ZZ+jAH5milAAfmeUxAB+aPK4AH5pw7cAfmrDuAB+a8O0AH5sn6QAfm3DtQB+bozoAH5v8rQAfnDysgB+cvK2AH5zw7oAfnTytwB+dfKwAH528q8AfnfyswB+ePKxAH55w7YAfnrytQB+e/SsAH58xH4Afn3EfQB+fvStAH5/+uwAfoD0rwB+gfSuAH6CxKEAfoOUxQB+hvXrAH6H9egAfoj16QB+ifrtAH6K9ecAfov16gB+jMTyAH6N9ewAfo767gB+j8TxAH6QlMYAfpH3QgB+kvrvAH6TxdUAfpTF1wB+lffuAH6WxdYAfpf4uQB+mPlAAH6Z+UIAfpr4/gB+m/lBAH6cxmwAfp+c6wB+oINfAH6hg3YAfqKDcQB+o4NwAH6kik4AfqWDdAB+poN1AH6ng8sAfqiNvgB+qZBEAH6qg3IAfquDcwB+rIf+AH6tg8wAfq+DyAB+sIPKAH6xg8YAfrKG/AB+s4PNAH61ikwAfraHQQB+t4PPAH64g84AfrmDxwB+uoPFAH69g8kAfr6NxQB+v4hFAH7AjdMAfsGEcQB+woRyAH7Dh/0AfsSEbwB+xYRuAH7GhG0AfseK6wB+yIRwAH7JiVMAfsqEaAB+y4RrAH7MhGwAfs2EagB+zouxAH7Phe4AftCN1AB+0YXwAH7ShUQAftOFQwB+1PrwAH7Viu0AftaFSgB+143kAH7Yi7MAftmFSAB+2oVJAH7bhUsAftyFRwB+3YVFAH7ehUIAft+EaQB+4I5KAH7hjksAfuKF7wB+44rvAH7lhfEAfuaF8gB+54xJAH7ojkkAfumKRQB+6odDAH7rhvgAfu2MogB+7ob9AH7vjnsAfvCG9wB+8frxAH7yjnoAfvOLsgB+9IdCAH71h0AAfvaHRQB+94pJAH74hv4AfvqOfAB++455AH78hvYAfv2G9AB+/ob1AH7/hvkAfwCG+wB/AYdEAH8CiEkAfwOOwgB/BIhAAH8FiEEAfwaNowB/B4hLAH8IiEoAfwmIQgB/C495AH8MjsQAfw2ISAB/DohGAH8PjsUAfxGOxgB/EvryAH8TiEcAfxSH/AB/FYpHAH8WiEMAfxeOwwB/GIhEAH8ZiVIAfxqJTgB/G47wAH8ciVEAfx2KSgB/H4lQAH8gjKEAfyGPXQB/IolLAH8jiUwAfySMSAB/JYpPAH8milEAfyeKSAB/KIz7AH8pikQAfyqKRgB/K4pNAH8skEUAfy2K7gB/LorsAH8vivAAfzD68wB/MY/eAH8yj78AfzOPwAB/NIu1AH81kHwAfzamzgB/N5+lAH84rPsAfznSbwB/Oq/KAH89stoAfz7a/AB/P9r9AH9An6YAf0GfpwB/QoxKAH9D6t8Af0TBagB/Re3hAH9HlXQAf0jCuwB/SZ+oAH9K8roAf0vyuQB/TMSiAH9N9e0Af077qgB/T/dDAH9QxfgAf1HKSQB/Up+pAH9TnXUAf1SqyQB/Vah1AH9Xi7QAf1jQTQB/WodGAH9b02AAf1zTWwB/XdNfAH9e010Af1+vywB/YNNeAH9h01wAf2KITQB/Y9bxAH9l2v4Af2bbQAB/Z99pAH9o32oAf2m4bgB/arhvAH9r32gAf2zfawB/bd9nAH9uuG0Af3C7QAB/cfr0AH9yuHAAf3PjegB/dI/BAH91vXwAf3bm8QB/d719AH94lWQAf3m/qQB/euriAH976uAAf3zq4QB/fe3kAH9+7eMAf3/t4gB/gY1WAH+C+vUAf4PyuwB/hcO5AH+G8rwAf4f3RAB/iMX5AH+J+LoAf4qmzwB/i6rLAH+MqsoAf43QTwB/jqz8AH+Pn6oAf5HQTgB/ktNiAH+Tn6sAf5SvzAB/ldbyAH+W02EAf5eV4AB/mrLcAH+b1vUAf5zW8wB/ndb0AH+estsAf5+OTAB/oNtCAH+h20MAf6LbQQB/o5VVAH+kuHMAf6XfbQB/pt9sAH+n324Af6i4cgB/qbhxAH+s5vIAf63m9AB/rvr2AH+vvX4Af7Dm8wB/serjAH+yv6oAf7PweQB/tJ+sAH+18HgAf7bDuwB/t/K9AH+4w70Af7nDvAB/uvSwAH+79e4Af7zE8wB/vabQAH++0FAAf7+s/QB/wNNlAH/Br84Af8LTZAB/w9NjAH/Fr80Af8b69wB/x9b7AH/J1v0Af8rW9gB/y9b3AH/Mst0Af83W+AB/zrLeAH/P1vwAf9DW+QB/0db6AH/Sst8Af9S1vgB/1bW/AH/X20QAf9iK8QB/299vAH/c33AAf92frQB/3uN+AH/fu0MAf+C7QQB/4btCAH/i43sAf+PjfAB/5eN9AH/m5vkAf+efrgB/6Ob6AH/pvaEAf+rm9wB/6+b2AH/s5vgAf+3m9QB/7r+tAH/v6uQAf/C/qwB/8b+sAH/y7eYAf/PBawB/9O3lAH/176gAf/fwegB/+PB7AH/5wrwAf/qfrwB/+8K9AH/8wWwAf/3yvgB//vK/AH//9LEAgADEowCAAabRAIACn7AAgAOm0gCABKz+AIAFqswAgAavzwCAB9BRAIAIn7EAgAu1wACADKbTAIANrUEAgA7QUgCAD9BTAIAQrUAAgBGtQgCAEqbUAIAU0FQAgBWv0QCAFtNmAIAXr9MAgBiv0ACAGa/SAIAb10EAgByy4ACAHfz2AIAe10AAgB/W/gCAIPr4AIAh33EAgCL6+QCAJOOhAIAl+voAgCa9ogCAJ49eAIAov64AgCnq5gCAKurlAIAs7ecAgC6fsgCAL5+zAIAw9e8AgDH6+wCAM6bVAIA0y3MAgDXNqgCANq1DAIA30FUAgDiKVQCAOdNoAIA7lVwAgDyftACAPa/UAIA+02cAgD+v1QCAQorzAIBD10MAgEay4gCAR9dCAIBI10QAgEqy4QCAS4zZAIBMivIAgE2P3wCAT9tGAIBQ20cAgFHbRQCAUrXBAIBUilQAgFa4dACAWLh1AIBau0UAgFv8+gCAXOOjAIBd46IAgF67RACAX/r8AIBhgmsAgGL89wCAY/z4AIBk5vsAgGb8+QCAZ+b8AIBo+v0AgGmPegCAaopTAIBs6ucAgG/BcACAcMFvAIBxwW0AgHLBbgCAc8FxAIB0k3cAgHXwfACAdsK/AIB3wr4AgHjywACAefSyAIB9xaUAgH7FpACAf6bWAICAkdUAgILR+wCAg4VMAICEuHcAgIW1wgCAhrh2AICHu0YAgImm1wCAismpAICLptgAgIym2QCAj82rAICQy3YAgJLLdwCAk6h3AICVy3QAgJaodgCAmKh5AICZy3UAgJqoewCAm6h6AICcy3gAgJ2oeACAn5avAICghfYAgKGq0QCAoqrPAICjza0AgKSITwCAparOAICm/PsAgKeftQCAqarTAICqqtUAgKuq0gCArPr+AICtzbAAgK7NrACAr6rWAICxqtAAgLKofACAtKrUAIC1za8AgLb7TQCAt/tAAIC4za4AgLqqzQCAvJbLAIC9lqYAgL6FTQCAv4X4AIDAhU4AgMGD0ACAwtBbAIDDrUcAgMStSACAxdBdAIDGilcAgMfQVwCAyNBaAIDJ0GMAgMrQYQCAzK1JAIDN0GcAgM6tTACAz9BkAIDQ0FwAgNHQWQCA1NtJAIDV0GIAgNatRACA19BlAIDY0FYAgNnQXwCA2q1GAIDbrUsAgNzQYACA3a1PAIDerU0AgODQWACA4a1KAIDj0F4AgOStTgCA5a1FAIDm0GYAgOeL+ACA6P37AIDp/fwAgOqMSwCA643VAIDs/f0AgO2v2gCA76/jAIDwr9gAgPGv1gCA8tNqAIDzr94AgPSv2wCA9dNsAID2iE4AgPiv3QCA+dNrAID602kAgPvTbgCA/K/iAID9r+AAgP7bSACBANNvAIEB020AgQKv1wCBA/z8AIEFr9kAgQav3ACBB/5IAIEIr98AgQmD0QCBCq/hAIEMn7YAgQ2KWQCBDv3+AIEPjNoAgRCK9ACBEYX5AIES/u4AgROKVgCBFJB9AIEV104AgRay5ACBF5WoAIEY10UAgRnXRwCBGoX3AIEb10gAgR3XUACBHtdMAIEf10oAgSHXTQCBItdRAIEjsuUAgSSy6QCBJddGAIEn108AgSmy5wCBKp+3AIErsuYAgSzXSwCBLddJAIEvsuMAgTCy6ACBMf7vAIEylqUAgTOTsACBNJ+4AIE2/vAAgTegQgCBOIpYAIE5tcgAgTrbUQCBPdtPAIE+tcoAgUKfuQCBQ9tKAIFE36EAgUa1yQCBR9tOAIFIlqsAgUrbSwCBS7XFAIFMtcsAgU3bUACBTrXHAIFP200AgVC7RwCBUbXGAIFS20wAgVO1zACBVLXEAIFVtcMAgVafugCBWZauAIFalqIAgVvfdwCBXN91AIFe33sAgV/+8QCBYN9zAIFh36IAgWLfeACBZN9yAIFluHsAgWa4owCBZ999AIFp33YAgWu4fgCBbJ3QAIFt/vIAgW64fACBb99+AIFwuHkAgXG4eACBct95AIFzuH0AgXS1zQCBdt98AIF333QAgXi4egCBebihAIF6uKIAgXuJVACBfImuAIF9/vMAgX6MZQCBf7tMAIGAu0gAgYK7TQCBg+OmAIGEn7sAgYbjpQCBh+OnAIGIu0oAgYnjpACBirtLAIGL46oAgYzjqQCBjeOoAIGPu0kAgZGK9QCBk/70AIGV50EAgZfnRACBmL2oAIGZ50MAgZq9pwCBm72jAIGcvaQAgZ29pQCBnudAAIGf5v4AgaC9pgCBoudCAIGj5v0AgaSUxwCBpZ+8AIGm6ukAgafq8wCBqL+xAIGpv7AAgar+9QCBq+rtAIGs6u8Aga7q6gCBsOruAIGx6ugAgbLq8QCBs7+vAIG06vAAgbXq7ACBtvtuAIG36vIAgbj+9gCBuerrAIG6wXQAgbvt6ACBvO3uAIG9wXgAgb7BegCBv8F3AIHAwXYAgcH+9wCBwsF1AIHDwXMAgcTt6QCBxe3sAIHGwXIAgcft7QCByPz+AIHJwXkAgcrt6wCBzO3qAIHNwsAAgc/CwQCB0PChAIHR8H0AgdLwfgCB05NiAIHV8sIAgdfywQCB2MO+AIHZ9LQAgdrEpACB2/SzAIHd9fAAgd73RQCB38WmAIHg+UMAgeH5RACB4sXYAIHjptoAgeSfvQCB5arXAIHm21IAgee7TgCB6MF7AIHp7e8Ageqm2wCB7K/lAIHtr+QAge7bUwCB75XTAIHy6vQAgfOm3ACB9K1QAIH2/UIAgffbVACB+NtVAIH521YAgfq7TwCB+7+yAIH8pt0Agf6q2ACB/9BoAIIAr+YAggHTcACCArLqAIIE21cAggW4pACCBop3AIIHu1AAggi/swCCCcF8AIIKwsIAggv0tQCCDKbeAIINqtkAgg6S1gCCEK/nAIIR11IAghK1zgCCFLtRAIIV46sAghbnRQCCF5PGAIIYlewAghr9QwCCG6bfAIIctc8Agh3fowCCHrtSAIIfpuAAgiDNsQCCIdBpAIIirVEAgiOPwgCCJdNyAIIm+1MAgiiv6gCCKf74AIIqr+gAgiuv6QCCLK/rAIIt/vkAgi7++gCCL9NxAIIwjEwAgjGJVgCCMtdXAIIz11QAgjTXVgCCNbLrAII2su0Agjey7ACCONdTAII5su4AgjrXVQCCO5BbAII821gAgj3bWQCCPv77AII/21oAgkDfpgCCQt+nAIJE36UAgkXfqACCR7ilAIJJ36QAgku7UwCCTudKAIJP50YAglDnSQCCUedLAIJS50gAglPnRwCCVJ++AIJV6vUAglbq9gCCV+r3AIJYv7QAglm/tQCCWu3xAIJb7fAAglzt8gCCXZTIAIJe8KMAgl/wogCCYfLEAIJi/vwAgmPyxQCCZPLDAIJln78AgmbEpQCCaPS2AIJp9LcAgmr+/QCCa/dGAIJs9+8Agm34uwCCbqbhAIJvqH0AgnCKXACCccF9AIJypuIAgnONWwCCdNdYAIJ121sAgnaCRQCCd8ZBAIJ4ykoAgnmc0gCCeou3AIJ7n8AAgnzKSwCCfcpNAIJ+puMAgn/KTgCCgMpMAIKChesAgoPLogCChMujAIKFy3sAgoefwQCCiP7+AIKKy6EAgouooQCCjaiiAIKOy3wAgo/LegCCkMt5AIKRy30AgpKofgCCk8t+AIKU0GoAgpeO9gCCmM22AIKZqtwAgprNtQCCm823AIKciVkAgp2q2wCCns28AIKfqt8AgqDNsgCCoc3AAIKizcYAgqOq5gCCpM3DAIKlquMAgqaMTwCCp825AIKozb8AgqnNwQCCqvulAIKrzbQAgqyq4gCCrardAIKuzboAgq+q5ACCsKrnAIKxquEAgrOq2gCCtM2+AIK1zbgAgrbNxQCCt6rpAIK4quUAgrmq4ACCus29AIK7r+wAgrzNuwCCvareAIK+qugAgr+fwgCCwM2zAILBjsoAgsLNwgCCw83EAILElr4AgsWRQACCx4X7AILIj+EAgsqRQQCCy4R5AILMhVEAgs2HSwCCzoN4AILPhPcAgtD9XwCC0a1iAILSrVwAgtOtZACC1K1hAILV0HEAgtbQdACC161dAILYkUIAgtnQawCC261WAILcrWAAgt6tYwCC361lAILg0KIAguHQdwCC4p/DAILjrVUAguTQoQCC5a1ZAILmrVcAguetUgCC6NBvAILq0H4AguvQcwCC7NB2AILt0KUAgu6fxACC761mAILw0H0AgvGtXgCC8tB4AILz0KQAgvTQdQCC9dB5AIL20HwAgveWowCC+J/FAIL50G0AgvrQowCC+9B7AIL8n8YAgv39XQCC/tBsAIL/n8cAgwDQcACDAa1fAIMCrVoAgwOtUwCDBK1YAIMFrVQAgwatZwCDB9BuAIMI06UAgwmtWwCDC5/IAIMM0HoAgw3OQQCDDpKnAIMPj+AAgxGOyQCDFIXDAIMVjkYAgxbTqACDF6/6AIMYkUMAgxnTdgCDGpFEAIMb06MAgxzTfQCDHZ/JAIMe07IAgyDTqgCDItN+AIMjkUUAgyTTqQCDJdN4AIMm03wAgyfTtQCDKK/9AIMp060AgyrTpACDK6/tAIMs07MAgy3TdACDL9OsAIMxr/wAgzKv9wCDM9NzAIM0r/UAgzWv9ACDNq/5AIM306sAgziv8QCDOa/4AIM60HIAgzvbXACDPNOmAIM9n8oAgz/TegCDQK/7AINB03sAg0LToQCDQ6/+AINE03UAg0XTrwCDRpFGAINH064Ag0jTtgCDSa/zAINKr/AAg0vTtACDTNOwAINN06cAg07TogCDT6/2AINQr/IAg1HTdwCDUq/uAINT07EAg1Sv7wCDVtN5AINXn8sAg1iTVACDWoR1AINbkUcAg1yOxwCDXo70AINfj18Ag2CK+QCDYYlXAINikUgAg2OG0QCDZIX6AINljnMAg2aG4QCDZ4bfAINojvIAg2mPewCDaodKAINriFEAg2yRSQCDbY5NAINukUoAg2+LuQCDc9deAIN012AAg3XXZQCDdtd5AIN3svwAg3iy8gCDetddAIN7sv0Ag3yy/gCDfddoAIN+128Ag3/XdQCDgddiAIOD12kAg4WHSACDhrNAAIOH13cAg4jXcgCDibL6AIOKsvgAg4vXbgCDjNdqAION11wAg46y7wCDj9dhAIOQ11kAg5GfzACDkrL3AIOTsvkAg5TXZgCDlddjAIOWsvQAg5fXcwCDmLLxAIOZ12QAg5rXegCDm9dsAIOckUsAg53XawCDnrLwAIOfkUwAg6Cy+wCDorLzAIOj11oAg6TXXwCDpddwAIOm13YAg6ezQQCDqNdbAIOp12cAg6rXbQCDq7L2AIOsn80Ag67XeACDr9dxAIOw13QAg7GFUACDsohQAIOzjn0Ag7SF/QCDtZFNAIO2j2AAg7eJ9wCDuI71AIO5h/MAg7qMwgCDvJFOAIO9svUAg777rQCDv9tsAIPA22AAg8G11wCDwtt9AIPD26cAg8TbqgCDxbXVAIPG22gAg8fbowCDyNtpAIPJ23cAg8q14gCDy9tzAIPMtd8Ag82fzgCDztt0AIPP210Ag9HbpACD0/5SAIPUtegAg9XboQCD1tt1AIPX26wAg9jbcACD2d/IAIPb268Ag9y15gCD3dtuAIPe23oAg9+16QCD4LXUAIPh23IAg+LbrQCD49trAIPk22QAg+XbbwCD59tjAIPo22EAg+m10ACD6tulAIPr22oAg+zbqACD7Z/PAIPu26kAg++12ACD8LXdAIPxtdkAg/K14QCD89t+AIP0tdoAg/XbdgCD9ttmAIP3kU8Ag/i10gCD+dteAIP626IAg/vbqwCD/NtlAIP9teAAg/7bsACD/9txAIQB220AhAO10QCEBLXlAIQFn9AAhAbbfACEB7XnAIQJ23gAhAq13ACEC7XWAIQMtd4AhA210wCEDrXkAIQP23kAhBDbZwCEEdt7AIQS22IAhBPbpgCEFJ/RAIQWn9IAhBiWpwCEG9uuAIQclr0AhB2M/QCEIP1jAIQhn9MAhCKUyQCEI9tfAIQkiVsAhCWJ8QCEJolNAIQniVgAhCiK9wCEKd/HAIQqkVAAhCvf3QCELLhVAIQt38wAhC6f1ACEL9/KAIQw37UAhDG4qQCEMt/FAIQz39kAhDTfwQCENbixAIQ239gAhDffvwCEOLXjAIQ5388AhDrfwACEO9/WAIQ8uLAAhD24qACEPp/VAIQ/36oAhEDfsgCEQt/LAIRD38MAhETf3ACERd/GAIRGuLYAhEff1wCESJFRAIRJuK0AhEqf1gCES9/JAIRM39EAhE3ftgCETt/QAIRQ3+EAhFHfsQCEUt/SAIRTn9cAhFTf3wCEVZ/YAIRW36sAhFe12wCEWJ/ZAIRZ37kAhFrfuACEW7ivAIRckVIAhF3fvACEXt++AIRf380AhGDf3gCEYbiyAIRikVMAhGO4swCEZJ/aAIRl37AAhGa4qwCEZ9+0AIRo39oAhGm4tACEa7isAIRsuK4AhG24tQCEbt/gAIRv39MAhHDfzgCEcZX1AIRyn9sAhHPfuwCEdN+6AIR1uKoAhHbfrACEd7inAIR438QAhHnfrQCEet/CAIR7lsAAhH3ftwCEft/bAIR/n9wAhICf3QCEgrimAISEkVQAhIbfswCEh47xAISIkVUAhImO8wCEi4hSAISMjsgAhI3frwCEjt/VAISP364AhJC7YACEkePTAISSn94AhJOf3wCElOPCAISWn+AAhJfjrACEmOPKAISZu1gAhJrjuwCEm+PFAIScu1sAhJ3jvgCEnrtZAISf468AhKDjzQCEoeOuAISi48EAhKOf4QCEpOOtAISn478AhKjjyACEqePGAISq47oAhKvjtQCErOOzAISt/WYAhK7jtACEr+PHAISw49IAhLHjvACEsrtaAIS047cAhLbjywCEuLtdAIS547YAhLrjsACEu+PAAIS8u2EAhL2WvACEvp/iAIS/u1UAhMC7XgCEweO4AITC47IAhMS7VwCExd/UAITGu1YAhMfjwwCEybtUAITKu2MAhMu7XACEzOPEAITN47kAhM7jsQCEz+PMAITQ470AhNG7YgCE0uPQAITTu18AhNTjzwCE1uPJAITX484AhNmUygCE2v1lAITb49EAhNyRVgCE3Yr4AITen+MAhN+KXgCE4JBsAIThn+QAhOKf5QCE45FXAITkn+YAhOWPqgCE5oy9AITn53MAhOjndACE6ednAITq52YAhOvnYgCE7L20AITuvawAhO/ndgCE8Od1AITx36kAhPLnXwCE8+djAIT0510AhPbncACE9+dhAIT4n+cAhPnndwCE+udaAIT751gAhPznZACE/eduAIT+52kAhP+9tgCFAOdPAIUC520AhQOf6ACFBZ/pAIUGvbcAhQffvQCFCOdbAIUJ51IAhQrnVQCFC+d7AIUM51wAhQ3nUwCFDudRAIUP504AhRCf6gCFEb2wAIUS52UAhRO9rwCFFL2zAIUV52AAhRbnaACFF72pAIUY53gAhRnnfACFGr2rAIUc51cAhR3nawCFHudvAIUf51QAhSDneQCFIb2yAIUjvbEAhSTnTACFJb21AIUm53IAhSfnVgCFKOdqAIUp51AAhSrnXgCFK+dZAIUsva0AhS29rgCFLudsAIUv530AhTDnegCFMedxAIUzn+sAhTT+TACFNZNgAIU3il0AhTiRWACFOZBGAIU6jE4AhTvnTQCFPIxNAIU9vaoAhT7rSQCFQOtAAIVB60MAhUKf7QCFQ7+7AIVE60UAhUXq+QCFRutBAIVH60cAhUi/uACFSb+8AIVKv7YAhUv9aACFTJ/uAIVN6vsAhU7rTACFUetGAIVSn+8AhVPq/ACFVOtVAIVV608AhVbq+ACFV+5GAIVY6v4AhVm/twCFWpFZAIVb60oAhV3rVACFXr+/AIVfn/AAhWDrUQCFYer9AIVi60QAhWPrSACFZOtCAIVl61YAhWbrUwCFZ+tQAIVov7kAhWm/ugCFar++AIVr6voAhWzrVwCFbb+9AIVu600AhW+f8QCFcJ/yAIVx60sAhXKP4gCFc5/zAIV0jFEAhXXrTgCFdu5TAIV37kAAhXjuRQCFee5SAIV67kQAhXvt+wCFfO5BAIV+waIAhYDt9ACFge5NAIWC7k8AhYPt8wCFhMGhAIWF7lEAhYbuSQCFh8GoAIWI7lAAhYnuQgCFisGqAIWL7fkAhYzrUgCFje5KAIWO7kcAhY/t9QCFkO5VAIWRwaQAhZOddgCFlMGlAIWV7fcAhZbuSACFl5FaAIWY7lQAhZnuSwCFmu39AIWbwacAhZzBowCFne5MAIWe7f4AhZ/uVgCFoO34AIWh7kMAhaLuTgCFo+36AIWk7fwAhabCywCFp+32AIWowakAhanCxACFqsF+AIWrkVsAhayT1gCFroJ+AIWvwaYAhbDCyACFsfCzAIWz8KkAhbTwpACFtfCqAIW28LQAhbfwuACFuPC3AIW5wsoAhbrCyQCFvfCrAIW+8LkAhb/wrgCFwPCmAIXBkVwAhcLwqACFw/CnAIXE8K0AhcXwsgCFxvClAIXH8KwAhcjwsQCFycLHAIXL8K8Ahc3CxQCFzvCwAIXPwsMAhdDCxgCF0fLVAIXS8LUAhdOMpACF1cPCAIXWn/QAhdfyzQCF2PLRAIXZ8skAhdryzACF3PLUAIXdw8AAhd7y2QCF3/LSAIXgn/UAheHyygCF4vLaAIXj8tMAheTDwwCF5cPEAIXm8tcAhejyywCF6cO/AIXqw8EAhevyxgCF7PLOAIXt8sgAhe6f9gCF7/LYAIXw8tYAhfHyxwCF8vLPAIX29L4AhffDxQCF+PLQAIX5xKcAhfrEqQCF+8SmAIX8n/cAhf30wwCF/vS7AIX/9LkAhgD0vQCGAfS6AIYC/WoAhgT0vwCGBfTBAIYGxKoAhgfErACGCfTAAIYKxK0AhgvEqwCGDPTCAIYNn/gAhg+f+QCGEP1rAIYRxKgAhhORXQCGFJ/6AIYWkV4AhhfE9ACGGPXxAIYZ9fcAhhrE9gCGG/S8AIYc9fYAhh71/QCGH/X0AIYg9fsAhiH1+gCGIvS4AIYj9fUAhiTwtgCGJfX+AIYm9fMAhif1+ACGKJ/7AIYp9fwAhir18gCGLPdKAIYtxPUAhi71+QCGL/uuAIYwlMsAhjH39ACGMvdLAIYz90kAhjT3RwCGNfdIAIY290wAhjjF2QCGOffyAIY69/AAhjv39QCGPPfzAIY+9/YAhj/F2gCGQPfxAIZCn/wAhkP4vACGRZ/9AIZG+UUAhkf5RgCGSPlHAIZL+ccAhkz5vQCGTcpPAIZOquoAhk+GQACGUK1oAIZRh8sAhlLTuACGU9O3AIZUsEAAhlWzQgCGVtd8AIZZ13sAhlqFUgCGW7XqAIZcuLgAhl64twCGX7i5AIZh49QAhmLnfgCGY+tYAIZk61oAhmXrWQCGZ8GrAIZo7lcAhmnwugCGavmlAIZrpuQAhmyVeACGbc3JAIZuzcoAhm/NyACGcM3HAIZxqusAhnKf/gCGc9CpAIZ00KcAhnfQpgCGea1pAIZ6rWsAhnutagCGfNCoAIZ9iq8Ahn6IUwCGf4/EAIaAh0wAhoGLugCGgolaAIaF08QAhobTwQCGh9O/AIaKsEEAhovTwgCGjLBGAIaN07wAho7TywCGkNPNAIaR070AhpL+uwCGk7BDAIaU084AhpXTyQCGltO7AIaX08AAhpjTygCGmdPGAIaa08MAhpywSACGndPMAIae074AhqD+vACGodPHAIai07kAhqOwRwCGpLBEAIal08UAhqfTyACGqNO6AIapsEUAhqqwQgCGq5TMAIashkMAhq3+vQCGr7NMAIaw16UAhrGzSwCGsv6+AIaz16gAhrTXqwCGtbNIAIa2s0YAhrfXfgCGuNepAIa516cAhrrXpACGu9esAIa8160Ahr3XrwCGvtewAIa/130AhsCzRQCGwdeiAIbC16EAhsPXrgCGxLNHAIbF16MAhsazSQCGx7NEAIbI16YAhsmzTQCGyoz+AIbLs0oAhszXqgCGzZKsAIbOgkwAhs+PwwCG0LXxAIbR278AhtPbtACG1LXuAIbW3+cAhtfbvQCG2NuxAIbZtewAhtrbtgCG27XvAIbc27oAht3buACG3rXyAIbftesAhuLbsgCG49u1AIbktfAAhubbswCG6Nu+AIbp27wAhurbtwCG69u5AIbs27sAhu217QCG7o1yAIbvlM0AhvCPYQCG8Y5OAIbyivoAhvOO9wCG9I/jAIb13+gAhvbf7gCG99/kAIb43+oAhvm4ugCG+t/mAIb7uMAAhv64vwCHALi+AIcB3+0AhwK4wQCHA7jCAIcE3+MAhwXf8ACHBrjDAIcHuL0Ahwi4vACHCd/sAIcKuMQAhwvf4gCHDN/lAIcN3+8Ahw7f6wCHEeP0AIcS4+kAhxO4uwCHFZFgAIcXiFQAhxi7agCHGePdAIca4/IAhxvj3gCHHLtlAIce49sAhyDj5ACHIePcAIciu2cAhyPj1gCHJOPxAIclu2gAhybj7gCHJ+PvAIco49cAhym7bQCHKuPmAIcs4+AAhy3j5wCHLuPaAIcw4/MAhzHj6wCHMuPlAIcz49UAhzS7aQCHNePsAIc3u2wAhzjj8ACHOuPqAIc7u2YAhzzj6ACHPuPiAIc/u2QAh0Dj2QCHQePhAIdC4+0Ah0Pj3wCHRuPjAIdHi7sAh0iKYQCHSYr7AIdLgqIAh0y9wQCHTd/pAIdO57IAh0/nuwCHUOexAIdR560Ah1LnqgCHU73CAIdU56gAh1W7awCHVuehAIdXvcAAh1jnpwCHWb2/AIda56wAh1vnqQCHXOe5AIdd57QAh17nrgCHX+ezAIdgvbsAh2HnqwCHYue+AIdj56IAh2TnowCHZee6AIdmvbwAh2fnvwCHaL2+AIdp58AAh2rnsACHa+PYAIds57YAh23nrwCHbue4AIdv57UAh3CRYQCHcf1FAIdz56YAh3S9uQCHdee9AId2vboAh3fnpACHeL29AId562QAh3rntwCHe+e8AId8imAAh32RYgCHfo/kAId/gnUAh4HrYQCHgr24AIeDv8AAh4TrawCHhetnAIeG+2wAh4frZQCHiOtgAIeJ628Ah4uRYwCHjP1HAIeNv8QAh4/rXACHkOtoAIeR62kAh5LrXwCHk+teAIeU62wAh5brYgCHl+tdAIeY62MAh5rrbgCHm+tbAIec620Ah53ragCHnr/CAIefv8EAh6K/wwCHo+tmAIek8MsAh6X+vwCHqJFkAIep/UYAh6ruWQCHq8GxAIes7l0Ah63uWgCHru5hAIev7mcAh7DuXACHsf7AAIey7nAAh7PBrgCHtO5qAIe17l8Ah7buawCHt+5mAIe47m0Ah7nuXgCHusGzAIe7wbIAh7zuYACHve5uAIe+7lgAh7/ubACHwMGsAIfB/UkAh8LuZACHw+5jAIfE7mgAh8XuWwCHxsGwAIfHkWUAh8jBtACHye5iAIfK7mkAh8vBtQCHzO5lAIfOlscAh9CRZgCH0cGtAIfSwa8Ah9PwxwCH1PDFAIfW/UwAh9fwzACH2PDJAIfZ8M0Ah9r+xQCH2/C+AIfc8MYAh93w0QCH3u5vAIff8MIAh+DCzwCH4eelAIfi8L0Ah+PwygCH5PDEAIfl8MEAh+bwvACH5/C7AIfo8NAAh+rwwACH6/C/AIfsws0Ah+3wyACH7vurAIfvwswAh/LCzgCH8/DDAIf08M8Ah/X9TQCH9vLeAIf38t8Ah/nDyQCH+vLcAIf7w8YAh/zy5ACH/sPKAIf/8uYAiADy2wCIAfDOAIgC8ugAiAPy3QCIBPtyAIgFw8cAiAby4wCIB5FnAIgI8uUAiAny4ACICvLnAIgL8uIAiAzy4QCIDcPIAIgOkWgAiA/9TgCIEPTFAIgR9MYAiBP0yACIFMSuAIgVxK8AiBb0yQCIF/THAIgY/U8AiBn0xACIG/ZCAIgc9kUAiB32QQCIH8T6AIgg9kMAiCHE+QCIIsT4AIgjxPcAiCT2RACIJfdRAIgm908AiCeRaQCIKPdOAIgp9kAAiCr3UACIK/ZGAIgs900AiC39UACILvf5AIgv99cAiDD39wCIMcXbAIgy9/gAiDP3+gCINfi/AIg2xfoAiDf4vgCIOPi9AIg5xfsAiDvGWgCIPPluAIg9+acAiD75pgCIP/moAIhApuUAiEHQqgCIQv1RAIhD088AiETT0ACIRY11AIhGktsAiEjbwACISvZHAIhL+MAAiEym5gCITa1sAIhO0KsAiE/+xgCIUtexAIhTs04AiFSD9QCIVdvCAIhW28EAiFe18wCIWbjFAIha58EAiFu9wwCIXb3EAIhe/VsAiGD+xwCIYb/FAIhixfwAiGOm5wCIZJHWAIhlhkQAiGfQrACIaKrtAIhp0K4AiGrQrQCIa61tAIhsjNwAiG3T0QCIboR8AIhv09gAiHCwSQCIcdPWAIhy09QAiHTT2wCIddPSAIh209MAiHewSgCIebBOAIh809wAiH2wTQCIftPaAIh/09cAiIDT1QCIgbBLAIiCsEwAiIPT2QCIhIu9AIiFiNMAiIf+yACIiLNQAIiJ17IAiIuzVQCIjNfCAIiNs1QAiI7XxACIj/7JAIiQ/soAiJHXuACIkrNSAIiT18MAiJXXswCIlrNTAIiX178AiJjXuwCImde9AIia17cAiJvXvgCInJC6AIies08AiJ/XugCIoP1WAIih17kAiKLXtQCIpNfAAIin17wAiKjXtACIqte2AIirs1EAiKzXwQCIrYzbAIiukWoAiLCUzgCIsbX2AIiy280AiLSV3QCItZFsAIi228kAiLfbywCIuNvGAIi528UAiLrbwwCIvNvKAIi928wAiL7byACIv5FtAIjA28cAiMG19ACIwrX1AIjDlM8AiMSU0ACIxYZFAIjGi7wAiMf7YwCIydvPAIjKuM0AiMvf8gCIzN/4AIjN3/MAiM7f9ACIz/nYAIjQ3/kAiNK4zwCI1LjHAIjVuM4AiNbf8QCI19vEAIjYuMoAiNm4yACI2t/3AIjb3/YAiNy4yQCI3bjLAIje3/UAiN+4xgCI4bjMAIjij2IAiOOPxQCI5IlcAIjlkW4AiOb+ywCI5+P2AIjou3QAiOvkQgCI7ORBAIju4/sAiO+7dgCI8ORAAIjx4/cAiPLj+ACI87tuAIj0u3AAiPWRbwCI9uP9AIj34/UAiPi7cgCI+btxAIj64/kAiPvj/gCI/OP8AIj9u3MAiP7j+gCI//7MAIkA/s0AiQHbzgCJArtvAIkElNEAiQXnwgCJBufJAIkHvcYAiQnnzQCJCr3KAIkL58UAiQznwwCJDufMAIkQvcUAiRHnywCJEr3HAIkTvcgAiRTnxACJFb3JAIkW58oAiRfnxgCJGOfHAIkZ58gAiRq7dQCJG4pjAIkckXAAiR2RcQCJHutwAIkf63wAiSG/ygCJIut3AIkj63kAiST+zgCJJb/IAIkm63EAiSfrdQCJKet4AIkqv8YAiSu/yQCJLOt7AIkt63MAiS7rdACJL+t6AIkw63IAiTHrdgCJMr/HAIkz7nIAiTSMUwCJNe5xAIk2wbcAiTfudwCJOMG5AIk7wbYAiTzucwCJPcG6AIk+7nQAiUHudQCJQu54AIlD/VgAiUTBuACJRvDWAIlH/s8AiUnw2QCJS/DTAIlM8NUAiU39WQCJT/DUAIlQ8NcAiVHw2ACJUu52AIlT8NIAiVT+0ACJVsPNAIlX8uwAiVjy7wCJWfLxAIla8uoAiVvy6wCJXPLuAIld8vAAiV7DzgCJX8PMAIlgw8sAiWHy7QCJYvLpAIlj9MoAiWTEsACJZf7RAIlm9MsAiWn2SQCJasT7AIlr9ksAiWzE/ACJbfZIAIlu9koAiW/FqACJcfdSAIlyxacAiXP3/QCJdPf8AIl29/sAiXeRcgCJeflIAIl6+UkAiXv5SwCJfPlKAIl+ylAAiX+m6ACJgP7SAImBrW4AiYLXxQCJg7X3AImF3/oAiYbC0ACJh5X2AImI8vIAiYn9bQCJiv1uAImLqKMAiY+zVwCJkf7TAImTs1YAiZT9bwCJldvQAImWtfgAiZfb0gCJmNvRAImakmAAiZvf+wCJnLjQAImd5EMAiZ7kRgCJn+RFAImh5EQAiaLnzgCJo+fQAImk588AiaX7rwCJpr/MAImnk+EAiamVxQCJqr/LAImswbsAia3ueQCJru57AImv7noAibLC0QCJs5JtAIm28vQAibfy8wCJufTMAIm6xLEAibz9cQCJvcT9AIm+91QAib/3UwCJwMZbAInBg04AicKNcwCJxIR+AInFhH0AicaFUwCJx43mAInIjKYAicmMVACJyopkAInLjn4AicyQXACJzoleAInPj2MAidCK/ACJ0Y/GAInSqKQAidPQrwCJ1K1vAInV18gAidbXxgCJ2dfHAIna29QAidvb1QCJ3OBDAInd29MAid6K/QCJ39/8AIng4EEAieHgQACJ4uBCAInjuNEAieTf/gCJ5d/9AInm4EQAieeRcwCJ6ORJAInp5EcAievkSACJ7OfTAInt59EAie+PxwCJ8OfSAInx630AifLufACJ8+59AIn0wtIAifby9QCJ9/TNAIn4xLIAifr2TACJ+/dVAIn8xakAif73/gCJ//lMAIoAqKUAigKtcQCKA61yAIoE0LAAigfQsQCKCK1wAIoKsFQAigywUgCKDrBRAIoPsFgAihCwUACKEbBZAIoS090AihOwVgCKFbBTAIoWsFcAihewVQCKGLBPAIobs18Aihz+1ACKHbNZAIoe18wAih+zXgCKIrNgAIojs1oAiiWzWwCKJ9fKAIop/tUAiiqzWACKK/7WAIos18sAii2zXQCKMNfJAIoxs1wAijOT1QCKNLZEAIo2tkYAijeRdACKOP7XAIo529gAijq2RQCKO7X5AIo8tf0Aij3+2ACKPrjkAIo/4EkAikDb2gCKQbX+AIpE290AikXb3gCKRrZDAIpI2+AAikn9cwCKStviAIpM2+MAik3b1wCKTtvWAIpP2+QAilC2QgCKUdvhAIpS298AilS2QACKVbX7AIpWtkcAilfb2wCKWNvcAIpZ29kAilu2QQCKXrX8AIpgtfoAimHgSACKYrjfAIpjuNoAima41QCKZ/zaAIpouOUAimm41gCKa7jSAIpsuOEAim243gCKbrjgAIpwuNcAinG43ACKcrjTAIpzuNQAinTgUACKdeBNAIp24EUAinfgSgCKebjiAIp64FEAinu44wCKfLjZAIp+/XIAin/gRwCKgeBPAIqC4EsAioPgTgCKhOBMAIqFuN0AiobgRgCKh7jYAIqJjKkAioqKbACKi+RMAIqMu3gAio27ewCKj+ROAIqQ/toAipG7pQCKkuRNAIqTu30AipT+2wCKlb3PAIqW5E8Aipi7pACKmeRLAIqau6YAipz+3ACKnrt5AIqguNsAiqG7fACKo7t6AIqku34AiqW7ogCKprt3AIqnu6cAiqi7owCKqf7dAIqqu6EAiqvkSgCKrJF1AIqtk6sAiq/+3gCKsL3WAIqyvdIAirT+3wCKtr3ZAIq459YAirm92gCKuufiAIq759sAiry9ywCKvefjAIq+590Air+91QCKwOfeAIrCvdQAisPn4QCKxL3OAIrF598Aisbn1QCKx73NAIrI66oAism90wCKy73QAIrMglEAis292ACKz+fUAIrR59gAitK9zACK0+fXAIrU59kAitXn2gCK1r3XAIrX59wAitjn4ACK2efkAIrakXYAitu92wCK3L/SAIrd66UAit7rqwCK3+uoAIrg634AiuHrrACK4uuhAIrk66cAiua/zQCK57/TAIro660Aiur+4ACK67/PAIrtv9kAiu6/1ACK7+uvAIrw66kAivG/0ACK8uuiAIrzv9oAivTrowCK9eukAIr2v9sAive/2ACK+L3RAIr5ndEAivq/zgCK++uwAIr8v9wAiv6/1QCK/+uuAIsAv9EAiwG/1gCLAr/XAIsEwcMAiwXupACLBu6tAIsH7qoAiwjurACLCsHAAIsL7qUAiwz9dACLDe6rAIsOwbwAiw/upwCLEMHEAIsR7qMAixLuqACLE+6vAIsU66YAixXuqQCLFu6iAIsXwb0AixjuoQCLGcG+AIsa7rAAixvBvwCLHO6uAIsdwcIAix7ufgCLH/7hAIsgwcEAiyGT3ACLIu6mAIsj8NwAiyTw6gCLJfDlAIsm8OcAiyfw2wCLKMLTAIsq8NoAiyvC1gCLLMLVAIstlsEAiy7w6QCLL/DhAIsw8N4AizHw5ACLM/DdAIs18N8Aizbw6ACLN/DmAIs5wtQAizrw7QCLO/DrAIs88OIAiz3w7ACLPvDjAIs//uMAi0Dy+QCLQcPPAItC80EAi0P9dQCLRfZPAItGw9YAi0fw4ACLSPL3AItJw9IAi0ry+ACLS/L9AItM/XcAi03+5ACLTsPUAItPw9UAi1Dy9gCLUfNAAItS80IAi1Py+gCLVPL8AItV8v4Ai1by+wCLV/NDAItYw9EAi1nD1wCLWsPTAItbkXcAi1zD0ACLXfTQAIte/uUAi1/EtwCLYPTOAIti/uYAi2P00gCLZfTTAItmxLUAi2f01ACLaPTRAItp/ucAi2r0zwCLa8S4AItsxLQAi2301QCLb8S2AItwxLMAi3GReACLcpLwAIt0xP4Ai3fFQACLePZOAIt59k0Ai3r2UACLe/ZRAIt9xUEAi373VgCLf/dbAIuAxaoAi4H9dgCLgvdYAIuDgmMAi4T3VwCLhfdaAIuG91kAi4j4QwCLisXcAIuL+EIAi4z4QACLjvhBAIuQlfgAi5LF/gCLk8X9AIuU+MEAi5X4wgCLlsZAAIuY+U0Ai5n5TgCLmsZnAIub/ugAi5zGbQCLnvmpAIuf+cgAi6Cc7ACLoYN5AIuig3oAi6ODewCLpIdQAIuli8IAi6aD1ACLp4PWAIuog9UAi6mNWACLqoPXAIurg9oAi62D2QCLroxWAIuvg9gAi7CD0wCLsopoAIuziWIAi7SPfgCLtY3nAIu2hKIAi7eEpACLuISlAIu5hKgAi7qIYgCLvISnAIu9iWoAi76EpgCLv4ShAIvAhKMAi8GFVgCLwoVXAIvDhV4Ai8SFVACLxYVZAIvGi78Ai8iFWgCLyYVcAIvKhV0Ai8uFWwCLzI9lAIvNhVUAi86N6ACLz4VYAIvRjFcAi9KN6QCL045PAIvUjlIAi9WGSQCL1o5QAIvXhkoAi9iGSwCL2YZMAIvahk4Ai9uGUACL3I5TAIvdhk8Ai96IWgCL34ZUAIvghlMAi+GGUQCL4oZSAIvjhk0Ai+SIYwCL5YZHAIvmhkgAi+eGRgCL6I74AIvpjlEAi+uHUQCL7IdPAIvth04Ai+6HWACL74dSAIvwh1QAi/GHVgCL8odVAIvzh1cAi/SHUwCL9YdNAIv2jqEAi/eIWwCL+IhcAIv5jssAi/qJZwCL+4zdAIv8jswAi/2IZQCL/ohdAIv/iF4AjACIZgCMAYhhAIwCjs0AjAOIYACMBIhfAIwFiFcAjAaIWQCMB4hkAIwIiFgAjAqIVgCMC4ljAIwMiW0AjA2JZACMDoppAIwPiWEAjBCJZQCMEY75AIwSiWgAjBOJaQCMFI76AIwViWsAjBaJbgCMF41ZAIwYiWYAjBmJbACMGolgAIwbiV8AjByKZQCMHY77AIwfiv4AjCCNpACMIY9kAIwiimsAjCOKagCMJIpmAIwlj2YAjCaKZwCMJ4ptAIwoi0AAjCmPoQCMKotCAIwrkXkAjCyLQQCMLYvAAIwuj8gAjC+LwwCMMJB4AIwxi74AjDKLwQCMM5CmAIw0jKcAjDWMWACMNo1aAIw3qKYAjDnXzQCMOpF6AIw7184AjDzgUgCMPeRQAIw+5+UAjD/BxgCMQcHFAIxC8O4AjEPzRACMRfhEAIxGqKcAjEfT3gCMSLBaAIxJs2EAjErgVACMS+BTAIxMvdwAjE3n5gCMTr3dAIxP7rEAjFDC1wCMUf7pAIxUxnYAjFWoqACMVs3LAIxX098AjFqzYgCMXNfPAIxd19AAjF/b5QCMYbZIAIxiuOYAjGTgVgCMZeBVAIxm4FcAjGjkUQCMaeRSAIxqu6gAjGu/3QCMbL3eAIxtv94AjG/utQCMcO6yAIxx7rQAjHLuswCMc8HHAIx18O8AjHbzRgCMd/NFAIx4y6QAjHmwXACMerBbAIx70+AAjHyRewCMfdfRAIyA2+cAjIHb5gCMgrZJAIyE4FkAjIXgWgCMhuBYAIyJuOgAjIq45wCMjLuqAIyNu6kAjI6RfACMj+fnAIyQ67MAjJHrsQCMkuuyAIyTv98AjJTutwCMle62AIyX8PIAjJjw8QCMmfDwAIya80cAjJv+6gCMnPmqAIydqKkAjJ6tcwCMn/7rAIygrXQAjKGwXQCMorBeAIyj0+IAjKTT4QCMpdfSAIyns2gAjKizZgCMqbNjAIyqs2cAjKuzZQCMrLNkAIyt/XkAjK6RfQCMr7ZKAIyw2+oAjLK47QCMs7ZMAIy0tlEAjLXb7ACMtrZTAIy3tlIAjLi2VQCMudvrAIy62+gAjLu2TwCMvLZLAIy9tk0AjL7b6QCMv7ZUAIzAtlAAjMG2TgCMwrjvAIzDuO4AjMS47ACMxbjwAIzHuOoAjMi46wCMyrjpAIzM4FsAjM2VYACMzoJiAIzP5FQAjNG7rACM0rutAIzTu6sAjNT+7ACM1eRTAIzW/u0AjNfkVQCM2efqAIza5+wAjNuSzgCM3L3nAIzd5+0AjN694ACM3+fpAIzgvd8AjOG96QCM4r3lAIzjveYAjOS94gCM5efoAIzmveEAjOfn7gCM6OfrAIzpnkAAjOq96ACM6/16AIzsveMAjO295ACM7uu1AIzw67cAjPHrtgCM8p5BAIzz67gAjPS/4ACM9eu0AIz3/XsAjPjBywCM+e64AIz6wcgAjPvBzACM/MHKAIz9wckAjP7w8wCNAPD2AI0C8PUAjQOeQgCNBPD0AI0FwtgAjQbzSACNB/NJAI0Iw9gAjQnzSgCNCsPZAI0LglcAjQz9fACNDcS6AI0PxLkAjRD2UgCNEZ5DAI0SkX4AjRPFQgCNFPZTAI0V91wAjRbFqwCNF8WsAI0YlXYAjRn4RQCNG8ZCAI0cnkQAjR2DUACNHoN8AI0fg30AjSGD3QCNIoPcAI0jhKoAjSSIbgCNJYRQAI0miGwAjSeErACNKIhxAI0phKkAjSqErQCNK4SuAI0shWgAjS2KcACNLoVfAI0vhKsAjTCFYQCNMYhrAI0yhWMAjTON6wCNNIVgAI01hWYAjTaN6gCNN4VqAI04hWkAjTmFZACNOoVlAI07hWIAjTyGVQCNPY+jAI0+hlcAjT+GWACNQIZZAI1BhloAjUKGWwCNQ4yqAI1EhlYAjUWGXACNRpBHAI1HjqIAjUiHWgCNSZGhAI1Kh1sAjUuIagCNTIhtAI1NkaIAjU6M3gCNT4hpAI1QiHAAjVOIcgCNVIhoAI1Vjs4AjVaJbwCNWItDAI1ZinEAjVqKbgCNW4pvAI1cj6IAjV2M3wCNXovFAI1gi8QAjWGMWgCNYoxZAI1jjVwAjWSoqgCNZrNqAI1ns2kAjWjgXACNaeBdAI1ru64AjWzruQCNbb3qAI1u67oAjW/uuQCNcKirAI1xkaMAjXLQsgCNc612AI10rXUAjXWHXACNdtPjAI13sF8AjXjT5ACNedfVAI16nkUAjXvX1ACNfdfTAI2A2+4AjYG2WACNgv19AI2E2+0AjYW2VwCNidvvAI2KtlYAjYuKcgCNjOBfAI2N4GIAjY7gYACNj+BhAI2Q4GUAjZHgXgCNkuBmAI2T4GMAjZTgZACNlbuwAI2W5FYAjZm7rwCNm+fyAI2c5/AAjZ+96wCNoOfvAI2h5/EAjaO97ACNpeu7AI2m/X4AjafrvACNqMHNAI2pnkYAjarzTACNq/NOAI2s80sAja3zTQCNrvTWAI2v9lQAjbGQowCNsvlvAI2zqKwAjbStdwCNtdPlAI220+cAjbfT5gCNuIxbAI2519gAjbqzbACNvNfWAI2+s2sAjb/X2QCNwJ5HAI3B19oAjcLX1wCNw4ysAI3Ej2cAjcXb+wCNxrZgAI3H2/MAjcjb+QCNy7ZbAI3Mtl4Ajc3b8gCNzrZZAI3P2/YAjdDgbACN0bZdAI3T2/EAjdT9oQCN1dv3AI3W2/QAjdfb+gCN2NvwAI3Z2/gAjdq2XACN27ZfAI3c2/UAjd22WgCN3pBeAI3fuPIAjeDgaACN4bjxAI3i4G8AjePgbgCN5Lj4AI3muPkAjefgcACN6LjzAI3p4G0Ajeq49wCN6+ByAI3s4GkAje7gawCN77j0AI3w4GcAjfHgagCN8uBxAI3zuPUAjfTgcwCN9YhzAI33i8YAjfiLRgCN+ZBdAI36uPYAjfuMrQCN/LuxAI395FsAjf7kYQCN/+RZAI4A5GIAjgGeSACOAuRYAI4D5F0AjgTkYwCOBeRgAI4G5F8AjgfkXgCOCJGkAI4J5FcAjgrkXACODIyrAI4N5FoAjg6eSQCOD73xAI4Qve4AjhHn+wCOEuhBAI4T6EMAjhToQACOFef4AI4W5/oAjhfoRQCOGOhCAI4Z5/wAjhroRgCOG+f5AI4c6EQAjh297wCOHr31AI4fvfMAjiDn8wCOIb30AI4ivfAAjiPn9ACOJOf2AI4l5/UAjibn/QCOJ+f+AI4o/aIAjim98gCOKpVXAI4rve0AjiyM4QCOLfttAI4u5/cAji+M4ACOMOvGAI4xv+IAjjPrvQCONL/jAI41v+YAjjbrwgCOOOu/AI45v+UAjjqRpQCOPOvDAI4968QAjj7rvgCOP+vHAI5A68AAjkHrxQCOQr/kAI5Ev+EAjkXrwQCORp5KAI5H7r8AjkjB0ACOScHOAI5KwdEAjkvBzwCOTO6+AI5N7rsAjk7uugCOT/2jAI5Q7r0AjlGNdACOUotEAI5T7rwAjlTxRQCOVcLeAI5W8PsAjlfw+gCOWcLZAI5a8UEAjlvxQACOXPD3AI5d8UMAjl7w/ACOX8LdAI5g8PkAjmHxQgCOYvD4AI5jwtoAjmTC3ACOZfD9AI5mwtsAjmfw/gCOaJ5LAI5p8UQAjmrzUgCObMPeAI5t808Ajm/zUwCOcJGmAI5xnkwAjnLD2wCOc/NRAI50w+AAjnX9pQCOdsPdAI53/aQAjnjzUACOesPfAI5781QAjnzD2gCOfp5NAI5/kH4AjoCeTgCOgcS8AI6CxL4AjoT02QCOhcS9AI6G9NcAjofD3ACOiPTYAI6JxLsAjorFQwCOi8VFAI6M9lYAjo3FRACOjvZVAI6PjaUAjpD3YQCOkcWtAI6S92AAjpPFrgCOlPdeAI6V910Ajpb3YgCOl/djAI6Y+EYAjpmRpwCOmvdfAI6ckKQAjp34xgCOnvjDAI6f+MQAjqD4xQCOocZcAI6j+VEAjqT5UACOpflPAI6m+XAAjqf9pgCOqPm+AI6p+asAjqrGbgCOq6itAI6ssGAAjq2V3wCOr4JJAI6wkagAjrGRqQCOsrj6AI62nk8AjrmeUACOur32AI68nlEAjr3ryACOvpTTAI7Awt8AjsLzVQCOw55SAI7FkaoAjsaRqwCOyJTUAI7J+awAjsqorgCOy6ruAI7MrXkAjs2teACOzpGsAI7PsGMAjtHT6ACO0rBhAI7T0+kAjtSwYgCO19ffAI7Y19sAjtr7oQCO27NtAI7c194Ajt3X3QCO3tfcAI7fs24AjuDX4ACO4dfhAI7ik30AjuORrQCO5J5TAI7l3EMAjubcQQCO59xFAI7o3EYAjuncTACO69xIAI7s3EoAju2eVACO7txCAI7v2/wAjvHcSQCO8p5VAI703EsAjvXcRACO9txHAI732/0Ajvi2YgCO+dxAAI762/4Ajvu2YQCO/LZjAI79kq0Ajv64/QCO/+B1AI8A4HcAjwHgdgCPAuB7AI8DuPsAjwXgeACPBuB0AI8H4HkAjwjgegCPCbj8AI8KuP4AjwvgfACPDJGuAI8N5GcAjw7kZgCPEORkAI8R5GUAjxK7swCPE7u1AI8Uu7IAjxW7tACPFuhNAI8X6E4AjxjoSQCPGf2nAI8a6EoAjxu9+ACPHL39AI8dvfcAjx69/gCPH735AI8g6EsAjyPoTACPJOhIAI8lvkAAjya9+wCPKb36AI8qvfwAjyzoRwCPLZVwAI8u68oAjy+/6ACPMJ5WAI8y68wAjzO/6gCPNOvPAI8168sAjzbryQCPN+vOAI84v+kAjznrzQCPO7/nAI8+wdMAjz/B1gCPQO7BAI9BnlcAj0LB1ACPQ+7AAI9EwdIAj0XB1QCPRvFGAI9H8UcAj0jxSACPScLgAI9KnlgAj0vxSQCPTJTVAI9NwuEAj07D4gCPT/NYAI9Q81kAj1HzVwCPUvNWAI9T81oAj1TD4QCPVfTdAI9W9NsAj1f03ACPWPTeAI9Z9NoAj1r03wCPW/ZYAI9c/akAj132WQCPXvZXAI9fxUYAj2D3ZACPYcWvAI9i92UAj2P4SACPZPhHAI9mg1EAj2eDYQCPaIOhAI9pg94Aj2uD3wCPbItIAI9thK8Aj26IeQCPb4SwAI9wjK4Aj3GRrwCPcoVrAI9zkG4Aj3SFbACPdY3tAI92hW0Aj3eRsACPeI3uAI95kF8Aj3qN7ACPe4dgAI98hl8Aj32GXgCPfoZgAI9/i8gAj4GOVgCPgo5VAI+Dhl0Aj4SHXwCPhYdeAI+GiHUAj4eIeACPiIh3AI+JiHQAj4qIfACPi4h7AI+NiHYAj46IegCPj4lzAI+QiXAAj5GJcQCPk4lyAI+UjOIAj5WKdgCPlopzAI+XinQAj5iPpACPmYtJAI+ai8cAj5uorwCPnLZkAI+ei8kAj5+5QACPoP1BAI+ju7YAj6WeWQCPpr/sAI+nkbEAj6i/6wCPqYyvAI+rjEcAj63D4wCPrsR8AI+vxUcAj7CosACPsbBkAI+yuUEAj7OeWgCPtPNbAI+1xtYAj7ac4ACPt5TWAI+4nlsAj7mLygCPupPDAI+7lE4Aj7yURACPvYl3AI++hmMAj7/LpgCPwYh+AI/CqLEAj8SotACPxaizAI/GqLIAj8eGZQCPyIp5AI/Jy6UAj8qeXACPy83NAI/MoKQAj83NzwCPzqrvAI/Pnl0Aj9CGYgCP0arxAI/SzcwAj9PNzgCP1KrwAI/VzdEAj9bN0ACP183SAI/YingAj9mEsQCP2pTXAI/bhW4Aj9yHYQCP3YZkAI/ehLIAj9+JdgCP4NC2AI/h0LQAj+KtfACP49CzAI/kraMAj+WtfgCP5q17AI/oraQAj+mLSgCP6q19AI/rraIAj+2toQCP7tC1AI/vkbIAj/CtegCP84SzAI/0sGoAj/XT6wCP9tPxAI/3sGcAj/iwbgCP+ZXZAI/6sGkAj/vT7gCP/NPwAI/9sGwAj/7T6gCP/9PtAJAAsGgAkAGwZQCQAtPsAJADsGsAkATT7wCQBbBtAJAGsGYAkAieXgCQCYl1AJAKh2IAkAvX4wCQDNfmAJANs3AAkA6RswCQD7N6AJAQs3YAkBHX5ACQEodjAJATk3oAkBSzfgCQFbN3AJAWs3wAkBezcgCQGbNvAJAas3EAkBuzfQCQHNflAJAds3UAkB6zeACQH7N0AJAgs3kAkCHX5wCQIrN7AJAjs3MAkCTX4gCQJo1BAJAnlNgAkC3cTQCQLrZlAJAv3E8AkDG2ZwCQMrZpAJAznl8AkDTcTgCQNbZmAJA2tmoAkDeeYACQOLZoAJA5kbQAkDuNQgCQPLlHAJA94KMAkD65TwCQP+B+AJBBuVAAkEK5RQCQROChAJBFk3IAkEe5SgCQSeCiAJBKuUMAkEu5QgCQTP22AJBNuU0AkE65TACQT7lLAJBQuUkAkFG5TgCQUuB9AJBTuUQAkFS5RgCQVblIAJBW/bUAkFeJeACQWLu4AJBZu7sAkFu7vwCQXLu5AJBdu74AkF67vACQYLu3AJBh/mEAkGK7vQCQY7u6AJBknmEAkGWRtQCQZ+hSAJBovkMAkGm+QQCQa+hTAJBsnmIAkG2+RACQbr5CAJBv6FEAkHDoUACQcr/wAJBz6E8AkHS/7gCQdb/tAJB269AAkHe+RQCQeL/vAJB569EAkHq/8gCQe+vSAJB8v/EAkH3B2ACQfu7DAJB/wdcAkIDB3ACQgcHaAJCCwdsAkIPC4wCQhMHZAJCF7sIAkIbr0wCQh8LiAJCIwuQAkImRtgCQisPkAJCLw+UAkI304ACQj8XeAJCQxd0AkJGotgCQk4ijAJCUylUAkJWwbwCQl8pSAJCYylMAkJnKUQCQm8pUAJCdj6UAkJ7LqgCQn8unAJCgy6wAkKHLqACQoqi3AJCjqLoAkKXLqQCQpqi5AJCny6sAkKiVQACQqqi4AJCsjlcAkK6FbwCQr83VAJCwzdcAkLGq9ACQss3TAJCzzdYAkLTN1ACQtaryAJC2qvUAkLiq8wCQuYZmAJC6iXkAkLuIoQCQvdC4AJC+0LwAkL/QuQCQwa2nAJDDragAkMT9qwCQxdC7AJDH0L0AkMjQvwCQyq2lAJDL0L4AkM6tpgCQz43GAJDQjvwAkNGIogCQ043wAJDU1+4AkNXQugCQ1tPyAJDX0/sAkNjT+QCQ2dP0AJDa0/UAkNvT+gCQ3NP8AJDdsHEAkN6RtwCQ39P3AJDg0/MAkOGwcACQ4rByAJDj0/YAkOTT/QCQ5dP4AJDmjOMAkOeQuwCQ6LOhAJDp1/EAkOrX6QCQ69fvAJDs1/AAkO2zogCQ79foAJDw1+oAkPHQtwCQ8tfsAJDz1+0AkPTX6wCQ9bZsAJD3knsAkPiOzwCQ+dxWAJD669QAkPvcVwCQ/NxUAJD9s6MAkP62bgCQ/9xTAJEA3FkAkQHcWACRArZrAJED3FwAkQTcUgCRBdxbAJEG3FAAkQfcWgCRCNxVAJEJtm0AkQvgqgCRDeClAJEO4KsAkQ/gpgCREOCkAJER4KcAkRK5UQCRFOCpAJEVkbgAkRbgqACRF7lSAJEYu8EAkRm7wACRGuRuAJEb5HEAkRzkaQCRHeRtAJEeu8IAkR/kbACRIORqAJEh5HAAkSLkawCRI+RoAJEk5G8AkSboWQCRJ75IAJEo8UoAkSnoVgCRKuhXAJEr6FUAkSzcUQCRLb5HAJEu6FoAkS/oVACRML5GAJExvkkAkTLoWACRM+vVAJE0v/MAkTXr1gCRNuvXAJE47sQAkTnB3QCROvFLAJE78UwAkT7xTQCRP/NdAJFA81wAkUH04gCRQ/ThAJFE9lsAkUX2XACRRvZaAJFH92YAkUjFsACRSai7AJFKraoAkUutqQCRTLB1AJFNsHQAkU7UQACRT9RBAJFQ0/4AkVH9rACRUrBzAJFT1/UAkVSS+ACRVdf2AJFW1/IAkVezpACRWNfzAJFZ/a8AkVrX9ACRXP2uAJFdinoAkV6WqACRX9xfAJFg3GEAkWHcXQCRYtxgAJFjtm8AkWTcXgCRZbZwAJFn/bAAkWjdcwCRablVAJFquVQAkWy5UwCRbuCsAJFv4K0AkXCWqQCRcYtMAJFy5HMAkXPkdQCRdLvGAJF1u8MAkXaWoQCRd7vFAJF4u8QAkXnkdACReuRyAJF8/bEAkX2NpgCRfpClAJF/jV0AkYDoYQCRgeheAJGC6F8AkYO+TQCRhOhgAJGF6FsAkYboXACRh75KAJGJvksAkYroXQCRi75MAJGMlqoAkY3r2wCRjv2yAJGP69wAkZDr2QCRkevaAJGSv/QAkZPr2ACRl4J5AJGZ7sgAkZruxQCRm+7HAJGcweAAkZ3uywCRnsHfAJGf7skAkaDuzACRoe7KAJGi7sYAkaPB3gCRpIJmAJGl8U8AkafxUACRqPFOAJGpnmMAkarxUgCRq8LlAJGswuYAka3zXwCRrsPnAJGv8VEAkbDzXgCRscPmAJGy9OUAkbP05gCRtMS/AJG19OQAkbaeZACRt/TjAJG4kvEAkbn2XQCRusVIAJG7/bMAkbz4SQCRvfjIAJG++McAkcDGQwCRwcZdAJHC+MkAkcP5cQCRxJ5lAJHFxm8AkcaovACRx6r2AJHIktgAkcm5VgCRyoxcAJHLxMAAkcyovQCRza2rAJHOs6UAkc+2cQCR0MLnAJHRqvcAkdPQwQCR1NDAAJHV1EIAkdaRuQCR17B4AJHYsHYAkdmwegCR2tREAJHbkboAkdyweQCR3bB3AJHekbsAkd+WSQCR4ZG8AJHi1EMAkeOzqACR5Nf8AJHlkb0AkeazpwCR57OpAJHo2EIAkemzqwCR6tf+AJHr2EAAkezX9wCR7bOqAJHu2EMAkfHX+QCR89f6AJH01/gAkfWzpgCR9pG+AJH32EEAkfjX+wCR+df9AJH6nmYAkfyRvwCR/dxtAJH+/bcAkf/cbACSANxqAJIB3GIAkgLccQCSA9xlAJIE3G8AkgXcdgCSBtxuAJIHtnkAkgieZwCSCbZ1AJIK3GMAkgzcaQCSDbZ3AJIOlUwAkg/caACSELZ4AJIRtnoAkhLcawCSE55oAJIUtnIAkhW2cwCSFtx3AJIX3HUAkhncdACSGtxmAJIc3HIAkh62dgCSIZ5pAJIjtnQAkiTccwCSJdxkAJIm3GcAkifccACSKJ5qAJIpkcAAkir7XwCSK55rAJIskcEAki3kugCSLuC3AJIw4LAAkjHgwwCSMuDMAJIz4LMAkjS5YQCSNZ5sAJI24MAAkje5VwCSOLlZAJI5uWUAkjrgsQCSPJ5tAJI9uVoAkj65XACSP7lmAJJAuVsAkkGebgCSRJN7AJJFuWQAkkbguQCSSOCuAJJJuWIAkkrguACSS7leAJJM4MoAkk25YwCSTuDIAJJP4LwAklDgxgCSUblgAJJS4K8AklPgyQCSVODEAJJVlkAAklbgywCSV7lYAJJYnm8AklmRwwCSWrlnAJJbuV0Akl2ecACSXuC1AJJfnnEAkmDgvQCSYeDBAJJilfEAkmPgxQCSZLlfAJJl4LQAkmbgsgCSZ+C+AJJrnnIAkmzguwCSbeC6AJJunnMAkm/gvwCScODCAJJxksAAknLgxwCSc5ZDAJJ0jOUAknbkeACSd5HEAJJ4u8cAknnkpACSeuR6AJJ7u8wAkny70ACSfeStAJJ+5LUAkn/kpgCSgLvIAJKBnnQAkoLkqgCSg+C2AJKEnnUAkoW7yQCShuSxAJKH5LYAkojkrgCSiZ52AJKK5LAAkovkuQCSjOSyAJKN5H4Ako7kqQCSj553AJKRu9EAkpO7zQCSlOR8AJKV5KsAkpa7ywCSl+SlAJKYu8oAkpnkswCSmuSiAJKb5HkAkpy7zgCSneS4AJKg5HsAkqHkrwCSouSsAJKj5KcAkqTkdwCSpeR2AJKm5KEAkqfktACSqLvPAJKp5LcAkqrkfQCSq+SjAJKsvlIAkq2TSwCSro2oAJKxnngAkrK+WgCSs75VAJK06KQAkrXooQCStuhnAJK3vlAAkrn51wCSup55AJK7vk8Akry+VgCSvv25AJK/nnoAksDoZQCSwb5UAJLC6HEAksPoYwCSxOhkAJLFvk4AksboowCSx75YAJLI6HQAksnoeQCSyuhzAJLL6+4AkszobwCSzeh3AJLO6HUAks/oaACS0OhiAJLR6H0AktK+VwCS0+h+AJLUnnsAktXoeACS1+htAJLY6GsAktnoZgCS2558AJLd6G4Akt7oewCS3+hqAJLg6HoAkuHoogCS4559AJLkvlMAkuWefgCS5uh2AJLn6HwAkujocgCS6ehsAJLqvlEAkuueoQCS7J6iAJLtkcUAku7kqACS7+hwAJLwvlkAkvHoaQCS8pRYAJLzk3QAkvSeowCS9p6kAJL36/QAkvi/9wCS+evzAJL66/AAkvvsRACS/L/7AJL9nqUAkv7sQQCS/+v4AJMA7EMAkwHr6QCTAuv2AJMDnqYAkwS//QCTBuvhAJMHnqcAkwjr3wCTCexCAJML7EAAkwzr/gCTDevtAJMO6+wAkw/r4gCTEMBAAJMS6+gAkxPr8gCTFOv9AJMVwEMAkxbsRQCTGMHoAJMZwEUAkxq//gCTG+vmAJMd6+8Akx7r3gCTH+vgAJMgv/UAkyHAQgCTIr/6AJMj6+cAkyTr9wCTJevxAJMmwEEAkyfr3QCTKMHjAJMp6/kAkyrr/ACTK7/8AJMsk/MAky3r6wCTLsBEAJMvv/kAkzCeqACTMZ6pAJMyk/cAkzO/+ACTNOv1AJM16/sAkza/9gCTOOvkAJM56/oAkzqRxgCTO5TbAJM86+UAkz6L1gCTQJ6qAJNB/nwAk0KeqwCTQ56sAJNEl1UAk0WWQgCTRuvqAJNH7tIAk0j+eQCTSe7XAJNKweUAk0vB5wCTTO7dAJNNweEAk07u7ACTT+7jAJNQ7tgAk1Hu2QCTUu7iAJNUwe4Ak1Xu4QCTVu7RAJNX7uAAk1ju1ACTWe7tAJNawe0Ak1vB6wCTXO7VAJNe7ugAk1+erQCTYO7aAJNh7ucAk2KergCTY+7pAJNk7tAAk2XB5gCTZp6vAJNn7uoAk2iesACTaZZEAJNq7t4Ak2v9ugCTbMHqAJNt7tsAk279uwCTcMHsAJNx7uQAk3OesQCTdJ6yAJN1weQAk3bu1gCTd+7lAJN4nrMAk3nu3wCTeuvjAJN77uYAk3zu0wCTfZ60AJN+wekAk4Du6wCTgZ61AJOCweIAk4PuzgCThJ62AJOF+3MAk4aetwCTh564AJOI8WAAk4nxWQCTisLpAJOM8VQAk43xYwCTjvFbAJOP7twAk5CeuQCTkfFlAJOS8VUAk5TC6ACTlfFfAJOWwuoAk5fC8gCTmMLwAJOZ8WEAk5rC8QCTm/FXAJOcnroAk53xWACTnvFdAJOf8WIAk6CeuwCToe7NAJOiwusAk6PxagCTpPFnAJOl8WsAk6bxXgCTp/FaAJOo8WgAk6nzagCTqvFcAJOswu4Ak62XVgCTrsLtAJOv7s8Ak7DC7wCTsfFkAJOy8WYAk7PC7ACTtPFpAJO18VMAk7fxVgCTuJ68AJO5lNwAk7r9vACTu569AJO9nr4Ak7+evwCTwPNzAJPC82MAk8PD6wCTxPNxAJPGl1cAk8fzYQCTyMPsAJPK82wAk8uewACTzPNoAJPNw/EAk87zcgCTz/NiAJPQ82UAk9HD6QCT0vN0AJPTnsEAk9TzbQCT1fNwAJPWw+8Ak9fD9ACT2MPyAJPZ82kAk9rzZACT257CAJPcw+0Ak93D7gCT3vNgAJPfw+oAk+CewwCT4cPoAJPiw/AAk+PzbwCT5MPzAJPll1gAk+bzawCT5/N1AJPow/UAk+zzZwCT7vNuAJPwnsQAk/GexQCT857GAJP0nscAk/X08wCT9vVCAJP39PUAk/j0/ACT+fNmAJP69PoAk/v06QCT/PVAAJP9xMMAk/707QCT//T+AJQA9PQAlAGeyACUA8TCAJQEnskAlAb1RACUB/T2AJQInsoAlAn0+wCUCvT9AJQL9OcAlAz1QQCUDfTyAJQO9PcAlA/06wCUEPTvAJQR9UMAlBL0+QCUE/ToAJQU9OwAlBX07gCUFvT4AJQXnssAlBjEwQCUGfTxAJQal1kAlBuezACUHZ7NAJQg9OoAlCGXWgCUJJ7OAJQlns8AlCae0ACUJ/29AJQo9PAAlCn2YQCUKvZmAJQrxU8AlCz2aACULZ7RAJQuxUkAlDD2ZACUMfZqAJQyxU4AlDPFSgCUNcVLAJQ29mAAlDf2ZwCUOMVNAJQ59mUAlDrFTACUO/ZfAJQ89mMAlD32YgCUPpdbAJQ/9l4AlED2aQCUQZdcAJRCntIAlEOe0wCURMWxAJRF920AlEb3cACUR/dsAJRI924AlEn3bwCUSvdpAJRL92oAlEz3ZwCUTZ7UAJRP92sAlFD3aACUUcWyAJRSxbMAlFOXXQCUVJ7VAJRV+EsAlFf4TQCUWJ7WAJRal14AlFuVWACUXfhMAJRe+E4AlGDF4ACUYvhKAJRjxd8AlGTF4QCUZZ7XAJRnntgAlGj4ywCUafjMAJRqxkQAlGv4ygCUbJ7ZAJRt+VMAlG75UgCUb/lUAJRwxl8AlHH5VQCUcsZeAJRz+VYAlHT5cgCUdfl1AJR2+XQAlHfGaACUePlzAJR5ntoAlHue2wCUfMZyAJR9xnAAlH7GcQCUf8Z3AJSA+cAAlIH5wQCUgvm/AJSD+ckAlIWc8ACUho3BAJSHjcAAlIiD4QCUiYPgAJSKg+IAlIuD4wCUjI3HAJSNjdkAlI6N1gCUj4S2AJSQjdcAlJKEtwCUk4S1AJSUj0YAlJWN2ACUl4S0AJSZhXMAlJqXXwCUm430AJSchnMAlJ2FdgCUnoVxAJSfjF0AlKCFdACUoYiuAJSiiaEAlKOFeACUpIV3AJSljXYAlKaE6ACUp4V1AJSoi08AlKmGbgCUqo33AJSrjfIAlKyN8wCUrY32AJSuhXIAlK+N9QCUsI5aAJSxiX4AlLKOWwCUs4ZoAJS0hmcAlLWEcwCUto5cAJS3l2AAlLiGagCUuYZpAJS6jbIAlLuNpwCUvI5gAJS9jl8AlL6GawCUv4Z1AJTAhmwAlMGMsgCUwoZvAJTDhnAAlMSNRACUxYZtAJTGhnYAlMiOWQCUyYZxAJTKjlgAlMuGcgCUzI5eAJTNhnQAlM6MtACU0IioAJTRjqUAlNKOpACU1Y6mAJTWjqwAlNeO0QCU2JdhAJTZjF4AlNuMswCU3IdmAJTdiKoAlN6XYgCU346nAJTgj6cAlOGPagCU4odoAJTjh2wAlOSO1QCU5Y6tAJTnj+wAlOiHagCU6Y/NAJTqjqoAlOuOqACU7IdpAJTth2cAlO6JpACU746pAJTwh2QAlPGOowCU8oW2AJTzl2MAlPSP5QCU9YdrAJT2h2UAlPeOqwCU+IzkAJT5j+4AlPqIpwCU/I9CAJT9jtIAlP6LzgCU/4vVAJUAiKYAlQGLTgCVAoivAJUDl2QAlQSIqQCVBYqiAJUGjtYAlQeO1wCVCIxfAJUJiKwAlQqO1ACVC4itAJUMiKQAlQ2OXQCVDpdlAJUPl2YAlRCIqwCVEYilAJUSjtAAlROO0wCVFI7YAJUVj0QAlRaPQACVF49BAJUYl2cAlRmJfQCVGop9AJUbj0MAlR2XaACVHo9FAJUfiacAlSGJogCVIomoAJUjjakAlSSKowCVJYmlAJUmiaYAlSiQ8QCVKY79AJUql2kAlSuXagCVLI7+AJUtiXoAlS6KfgCVL4l7AJUwiXwAlTGJqQCVMoqhAJU0j2kAlTWL0wCVNo9rAJU3iqgAlTiPaACVOYqlAJU6iqQAlTuKpgCVPI+oAJU+iqcAlT+XawCVQIp7AJVBinwAlUKL1ACVRI/qAJVFl2wAlUaKQgCVR4tRAJVJi1QAlUqNfQCVTIy2AJVNi1AAlU6XbQCVT4+pAJVQi1IAlVGLTQCVUotTAJVTj6YAlVSQYACVVovRAJVXi88AlViL0ACVWYvSAJVbj8kAlVyLywCVXYvMAJVei80AlV+PygCVYY/oAJVil24AlWOP6QCVZI/tAJVll28AlWaP5gCVZ5ChAJVoj+cAlWmXcACVao/LAJVrj+sAlWyQYQCVbYyxAJVvjLUAlXCMsACVcZBIAJVyl3EAlXONQwCVdox8AJV3qvgAlXie3ACVethEAJV73HgAlXzopQCVffN2AJV/g2MAlYCq+QCVgq2sAJWDsHsAlYWe3QCVhthFAJWHl3IAlYjYRgCVibOsAJWKlN0AlYu2fQCVjNx6AJWN3HkAlY62owCVj7Z8AJWQ3HsAlZG2fgCVkraiAJWTtqEAlZS2ewCVlpTeAJWX/b4AlZi5aACVmZdzAJWb4NAAlZzgzgCVnuDPAJWf4M0AlaCXdACVobvSAJWikmsAlaO71QCVpLvXAJWlu9YAlaae3gCVp/2/AJWou9MAlam71ACVqp7fAJWr6KcAlazopgCVrb5bAJWu6KgAlbDoqQCVsb5cAJWyl3UAlbXsTQCVtuxLAJW37vMAlbnsSQCVuuxKAJW7wEYAlbzsRgCVvexOAJW+7EgAlb/sTACVwO7vAJXD7vEAlcXu8gCVxsHzAJXH7u4AlcjB8gCVye7wAJXKwe8AlcvB8ACVzMHxAJXN7EcAldDC9QCV0fFuAJXS8WwAldPxbQCV1MLzAJXVwvYAldbC9ACV2JOnAJXa83cAldvzeACV3MP2AJXe9UUAld/1RwCV4PVGAJXhxMQAleLFUACV4/ZtAJXk9mwAleX2awCV6INkAJXpg6IAleqD5ACV643aAJXthLgAle6D9ACV74tWAJXwhXoAlfGKrACV8oV8AJXzhX4AlfSFfQCV9YV5AJX2jfgAlfeE3QCV+IZ3AJX5iMEAlfqHbgCV+4dHAJX8kEkAlf2HbwCV/oiwAJYAh3EAlgGHcACWAodtAJYDjtoAlgSQrACWBYixAJYGjtkAlgiPSACWCY9JAJYKj0oAlguPsACWDI9LAJYNj0wAlg6JqgCWD49HAJYQjGAAlhGKqwCWEo9sAJYUiqkAlhWKqgCWFotVAJYXi1cAlhmLWACWGo/vAJYcqvoAlh2c8QCWHsmqAJYfhaEAliDKWACWIabpAJYiylYAliPKWQCWJMpXAJYoy64AliqowQCWLKjCAJYty7AAli6ovwCWL8uvAJYwy60AljGowACWMqi+AJYzhaMAljSEuwCWNYPlAJY2haIAljj9wQCWOc3YAJY6zdsAljuq/QCWPM3aAJY9zdkAlj+q/ACWQKr7AJZB/kIAlkKrQACWQ83cAJZEqv4AlkWHcgCWRoS6AJZHi9gAlkiEuQCWSYPnAJZK0MYAlkutrgCWTK2vAJZNrbAAlk7QxwCWT9DDAJZQra0AllHQxACWU9DFAJZU0MIAllWD5gCWVp7gAJZYsKQAlluwoQCWXNRFAJZdsKIAll6wpQCWX9RGAJZhsH4AlmKwfACWY7B9AJZksKMAlmWSZwCWZpd2AJZnjfkAlmiGeACWaYmsAJZqs60AlmvYSQCWbLO1AJZt2EgAlm/YSwCWcLOxAJZx2EoAlnK2qwCWc7OvAJZ0s7IAlnWzrgCWdrOzAJZ3s7QAlnizsACWepK0AJZ7nuEAlnzYRwCWfbanAJZ+3H0AloDcowCWgf3FAJaD3KIAloS2rACWhbaoAJaGtqkAlofcfACWiNx+AJaJ3KEAloq2pACWi7amAJaNtqoAlo62pQCWj5L6AJaQiq0AlpHg0wCWkuDRAJaT4NIAlpS5agCWlblrAJaW/cQAlpfg1ACWmLlpAJaZu9gAlpu72gCWnLvZAJadl3cAlp7kuwCWoJJHAJah5LwAlqLoqwCWo5X5AJak6KoAlqWe4gCWp8BHAJaowEgAlqnsTwCWqsBJAJas7vYAlq7u9ACWr5d4AJaw7vUAlrHB9ACWspd5AJaz8W8AlrTD9wCWtsbXAJa3lfsAlrjB9QCWuatBAJa7sKYAlrzURwCWvYZ5AJa+i9kAlr/YTACWwLO2AJbBtq0AlsLcpACWw9ymAJbEtq8AlsW2rgCWxrawAJbHtrEAlsjcpQCWybluAJbKuW8Alsu5bQCWzLvbAJbNuWwAls7g1QCWz4tbAJbRksoAltK73ACW0+isAJbU7FAAltXASgCW1sH2AJbX8XAAltjxdACW2cL5AJba8XEAltvC+gCW3ML4AJbd8XUAlt7C+wCW3/FzAJbgkG0AluHzeQCW4sL3AJbjw/gAluX4zQCW6KtCAJbps7gAluqztwCW65RIAJbvtrIAlvDcqACW8dynAJbytrMAlvONXgCW9J7jAJb14NkAlva5cwCW97lwAJb44NgAlvm5cgCW+uDWAJb7uXEAlv3g1wCW/ovaAJb/5L0AlwC73QCXAYzmAJcC6K8AlwP9xwCXBL5dAJcF6K0Alwa+XgCXB75fAJcI6K4Alwm+YACXCpPtAJcL7FEAlw3ATgCXDsBLAJcPwFAAlxDsUwCXEcBMAJcS7FIAlxPATwCXFsBNAJcY7vkAlxnu+wCXG57kAJccwfcAlx3u+gCXHsH4AJcf7vgAlyDu9wCXIf3IAJci8XcAlyPxdgCXJML8AJcl8XgAlybzfgCXJ8P6AJco830AlynzegCXKsP5AJcr83sAlyzzfACXLY1gAJcu9UgAly/1SQCXMMTFAJcx/ckAlzLFUwCXM5d6AJc0nbsAlzX2bgCXNp7lAJc4xVEAlznFUgCXOvZvAJc7l3sAlz3FtACXPsW1AJc/93EAl0Ce5gCXQZ7nAJdCxkUAl0P4zwCXRMZHAJdG+M4Al0f40ACXSMZGAJdJ+VcAl0v5rQCXTZd8AJdPl30Al1GXfgCXUqtDAJdTjtsAl1WXoQCXVrl0AJdXnugAl1jkvgCXWZNDAJda6LAAl1vAUQCXXMBSAJdd/m0Al16rRACXX/3KAJdgvmEAl2HD+wCXYq2xAJdkl6IAl2WNRQCXZsBTAJdoxeIAl2mtsgCXathNAJdrl6MAl2zcqQCXbZX3AJdu3KsAl3DcqgCXcZekAJdy4N0Al3Pg2gCXdLl1AJd2uXYAl3fg2wCXeODcAJd5lN8Al3rkwACXe+TFAJd8u94Al33kvwCXfuTBAJd/5MgAl4DkwwCXgeTHAJeC5MQAl4PkwgCXhOTGAJeFu98Al4aU4ACXh57pAJeI6LMAl4me6gCXiuixAJeLvmMAl42+YgCXjuiyAJePvmQAl5CU4QCXkYznAJeSl6UAl5TsVgCXl+xVAJeYwFQAl5nsVACXmu78AJebnusAl5zu/gCXne9BAJee70AAl5/9ywCXoMH5AJeh7v0Al6LxoQCXo8L9AJek8X0Al6XxogCXpsL+AJeo8XsAl6rxfgCXq/F8AJes8XkAl63DQACXrvF6AJevjX4Al7Ge7ACXspemAJez86EAl7T9zACXtvOjAJe386IAl7j9zQCXufVKAJe6/c4Al7v1SwCXvZ7tAJe+/c8Al7/2cACXwJ7uAJfBxbcAl8Ke7wCXw8W2AJfE+E8Al8X4UACXxsZIAJfH+NEAl8j90ACXycZpAJfLrbMAl8y2tACXzeTKAJfO5MkAl8/otQCX0Oi0AJfSnvAAl9PB+gCX1O9DAJfV70IAl9bxpQCX1/GjAJfY8aYAl9nxpACX3MP8AJfd86QAl97zpQCX3/OmAJfgnvEAl+H2cQCX4/dyAJfl+NIAl+aDowCX54WkAJfpirAAl+qPqwCX64/OAJfsi9sAl+2ttACX7pVhAJfw7FcAl/HvRACX8penAJfzrbUAl/WL3ACX9rvgAJf47FgAl/nDQQCX+vGnAJf7w/0Al/31TACX/vVNAJf/xVQAmAD4UQCYAa22AJgCs7sAmAOzvACYBNhOAJgFtrUAmAa2tgCYB9ysAJgItrcAmAq5egCYDLl8AJgN4N8AmA7g4ACYD+DeAJgQuXcAmBG5eACYErl7AJgTuXkAmBSe8gCYFZ7zAJgW5MsAmBe74QCYGLviAJgaglsAmBvovACYHL5nAJgd6LcAmB7otgCYH/3SAJgg6LsAmCG+ZQCYI570AJgkwFsAmCbouACYJ+i9AJgo6LoAmCnouQCYK75mAJgsgnsAmC3AWQCYLv3TAJgv7FoAmDDAVQCYMuxbAJgznvUAmDSCQgCYNexZAJg3wFgAmDjAVgCYOcBaAJg7wFcAmDyT3wCYPZeoAJhB70UAmEPvSgCYRO9GAJhF70kAmEbB+wCYR/3VAJhI7dQAmEnvSACYSu9HAJhL/dYAmEzDRACYTcNCAJhOw0UAmE/DQwCYUPGoAJhR8akAmFLxqgCYU8NGAJhUl6kAmFWSuACYVp3SAJhX86oAmFjEQACYWfOoAJhbxEEAmFzzpwCYXfOpAJhew/4AmF/1UQCYYPVOAJhi9U8AmGP1UACYZPZyAJhlxVYAmGb91wCYZ8VVAJhonvYAmGn3dACYavdzAJhrxbgAmGz92ACYb8XjAJhwxkkAmHHGYACYcvlYAJhz+a4AmHT5rwCYdYOkAJh2hLwAmHeEvQCYeI36AJh5haUAmHqFpgCYe4WnAJh8hn4AmH2GfACYfoy4AJh/hn0AmICOYgCYgYahAJiChqIAmIOOYQCYhIZ7AJiFjXcAmIaHdACYh4dzAJiIibAAmImIswCYiomvAJiMiLQAmI2OugCYj47cAJiQibUAmJGJsQCYk4m0AJiUibIAmJaJRgCYl4qxAJiYi18AmJqLYACYm4thAJici14AmJ2LXQCYnpCnAJifj/AAmKCL3gCYoY/PAJiijLkAmKSM6QCYpZeqAJimjWEAmKeQqACYqK23AJip3K0AmKqU4gCYrODhAJit5MwAmK7kzQCYr7vjAJixu+QAmLLovgCYs75oAJi0/dkAmLbB/ACYt573AJi48asAmLme+ACYusNHAJi7860AmLzEQgCYvfOsAJi+864AmL/zqwCYwPZ1AJjB9VIAmML1UwCYw5erAJjExMYAmMb2dACYx575AJjI+7IAmMn2cwCYyp76AJjL93UAmMz5sACYzoOlAJjRjq4AmNKHdQCY04qyAJjVi98AmNiMYQCY2ZBKAJjal6wAmNutuACY3P3bAJjeg6YAmN+tuQCY4J77AJjhnvwAmOKwpwCY49RIAJjl2E8AmOb93ACY57a4AJjojLoAmOm2uwCY6ra5AJjr3K4AmOye/QCY7ba9AJjul60AmO+2ugCY8ZXaAJjytrwAmPS5fgCY9Z7+AJj24OIAmPng4wCY+ujAAJj8uX0AmP25oQCY/rmiAJkA5M8AmQLkzgCZA7vlAJkFu+YAmQfk0ACZCOi/AJkJu+gAmQq+aQCZDLvnAJkNjUcAmQ6fcACZEMBcAJkR6MEAmRK+awCZE75qAJkU6MIAmRXoxQCZFujDAJkX6MQAmRi+bACZGZ9xAJkawGEAmRvAXwCZHJ9yAJkdl64AmR7AXgCZH+xdAJkgl68AmSHAYACZJOxcAJkl70sAmSfsXgCZKMBdAJkp7F8AmSrvTgCZK+9MAJks700AmS3vUgCZLsNLAJkv71EAmTDvVACZMe9TAJky71AAmTPvTwCZNcH9AJk3n3MAmTigRACZOf3eAJk68a4AmTv93wCZPPGtAJk9w0oAmT7DSACZP8NJAJlA+7MAmUHxrACZQv3dAJlD87EAmUXEQwCZR/OwAJlI868AmUnERACZSv3hAJlL9VgAmUz1VwCZTfu0AJlO9VUAmVD1VACZUcTIAJlSxMcAmVP1WQCZVPd2AJlVxbkAmVb2dwCZV8VXAJlY9nYAmVn1VgCZW/d3AJlcxeQAmV2fdACZXsZhAJlf+VkAmWH5sQCZYp91AJljl7AAmWWD6ACZZ49tAJlohaoAmWmPrACZaoWoAJlrjfsAmWyFrACZbYWpAJluhasAmW+JtwCZcIamAJlxhqUAmXKGowCZdIakAJl1h3gAmXaMYgCZd4d5AJl6h3YAmXyHdwCZfY7dAJl/iLYAmYCXsQCZgYi3AJmEibgAmYWJuQCZhom2AJmHl7IAmYiLZACZiotjAJmLjXgAmY2XswCZj4tiAJmQj9AAmZGL4QCZkovgAJmTl7QAmZSP8QCZlZe1AJmWrboAmZfYUACZmO9VAJmZrbsAmZufdgCZnOTSAJmd5NEAmZ7sYACZoe9XAJmj71YAmaSfdwCZpcNMAJmm87IAmafzswCZqMTJAJmqn3gAmav5sgCZrLCoAJmttr8Ama62vgCZr+DkAJmw4OYAmbG5pACZsuDlAJmzuaMAmbS5pQCZteDnAJm4n3kAmbnk1ACZuuTWAJm75NUAmbyXtgCZveTYAJnBu+kAmcLk1wCZw+TTAJnElEsAmcWSSgCZxpKjAJnH5NkAmciXtwCZyejMAJnL6M8Amczo0QCZzejHAJnO6MsAmc/oyACZ0L5uAJnRvnEAmdK+cwCZ0+jJAJnU6MoAmdW+cgCZ1ujNAJnX6NAAmdjozgCZ2b50AJna/eQAmdu+cACZ3OjGAJndvm0Amd++bwCZ4J96AJnhlcQAmeLAYwCZ4+xmAJnk7GQAmeXsYwCZ5p97AJnn7GkAmensaACZ6uxnAJns7GIAme3AYgCZ7uxhAJnw7GUAmfHAZACZ8pe4AJn071oAmfWffACZ9u9eAJn371sAmfjvXQCZ+e9cAJn671kAmfvvXwCZ/O9iAJn972AAmf7vYQCZ/8JAAJoBwf4AmgLvWACaA+9jAJoE8bMAmgXxtgCaBvG4AJoH8bcAmgnxsQCaCvG1AJoL8bAAmgz7tQCaDfGyAJoOw00Amg/xrwCaEJXhAJoR8bQAmhKTXQCaE5K5AJoU88AAmhXztQCaFsRFAJoZxEYAmhrztACaG/O5AJoc878Amh3ztwCaHvO+AJofn30AmiDzuwCaIZr7AJoi87oAmiPzvQCaJPO4AJol87YAmiaa/ACaJ/O8AJooglUAmin1YACaKvVeAJorxMoAmiz1XQCaLfVjAJou9WEAmi+a/QCaMMTLAJox9VwAmjL1WgCaNPVbAJo1xM0Amjb1XwCaN8TMAJo49WIAmjn2eACaOvZ+AJo7nPoAmjyc+wCaPfZ5AJo+xVsAmj/2oQCaQMVaAJpB9n0AmkL2fACaQ8VZAJpE9nsAmkXFWACaRvZ6AJpI930Amkn3oQCaSvd+AJpM93sAmk3FuwCaTvd4AJpP93wAmlD3owCaUveiAJpT93kAmlT3egCaVcW6AJpW+FIAmlfF5wCaWJz8AJpZ+FMAmlrF5QCaW8XmAJpcnP0Aml740wCaX8ZKAJpg+XYAmmLGagCaY5z+AJpk+bMAmmXGawCaZvm0AJpn+bUAmmj5wwCaafnCAJpqxnoAmmv5zQCabIPpAJptha4Amm6GqACab4apAJpwhqcAmnGMuwCac4d6AJp0jaEAmnWO3gCadoi7AJp3iLoAmniIvwCaeYi+AJp6j/IAmnuIuQCafIi4AJp9iLwAmn6IvQCaf41JAJqAjt8AmoGM6wCagohMAJqEjOoAmoWQYwCahom8AJqHiboAmoiJuwCaio2vAJqLirMAmoyNSgCaj4q0AJqQj60AmpGLZQCako+uAJqTj68AmpaQTACal4vjAJqYj/UAmpqMZgCam4viAJqckE0Amp2P8wCanoxkAJqfj/QAmqCMvACaoYy+AJqikEsAmqOQYgCapI1iAJqljaIAmqeQqQCaqLCpAJqr4OkAmq3g6ACar7vqAJqwu+sAmrHk2gCasp2wAJqz6NIAmrTsbACatpe5AJq3vnUAmrjAZQCauexqAJq6/eYAmrvsbQCavMBmAJq9/ecAmr7vZACav+xrAJrA8bkAmsHDTgCawvPBAJrEkvsAmsWMvwCaxvVmAJrH9WQAmsr1ZQCay415AJrMkHkAms32ogCaz8VcAJrQ96QAmtHF6gCa0sW8AJrTxegAmtTF6QCa1fjUAJrWxmIAmtf7tgCa2LCqAJrZl7oAmtzxugCa3pe7AJrf1EkAmuCdsQCa4bmmAJri/ewAmuPk2wCa5rvsAJrn5NwAmuqTugCa6+jUAJrs6NMAmu3AaACa7r52AJrvvncAmvHo1wCa8ujWAJrz6NUAmvT+VwCa9uxuAJr37HEAmvnscACa+uxvAJr7wGcAmvzvaACa/e9mAJr+72UAmv/97gCbAe9nAJsC/e0AmwPDTwCbBPG8AJsF8b0AmwbDUACbCPG7AJsJ/fAAmwrzwwCbC/PCAJsM88UAmw3ERwCbDvPEAJsPl7wAmxD1ZwCbEfVpAJsS9WgAmxONYwCbFJ2yAJsV9qMAmxb2pgCbF/akAJsY9qUAmxn3pQCbGsW9AJse+FQAmx/4VQCbIPhWAJsixksAmyPGYwCbJPm2AJslsKsAmye+eACbKMBpAJsp8b4Amyr96QCbK/emAJst/esAmy75xACbL9RKAJsxxnsAmzKwrACbM+xyAJs0nbMAmzXxvwCbN/PGAJs5nbQAmzr2pwCbO/enAJs8sK0Amz7k3QCbP+TeAJtAnbUAm0G77QCbQrvuAJtD6NkAm0S+egCbRb55AJtG6NgAm0eNZACbSO9pAJtJl70Am0rxwACbS/HCAJtM8cEAm03DUwCbTsNSAJtPw1EAm1CdtgCbUcVeAJtS9qgAm1TFXQCbVfepAJtW96gAm1jGTACbWfjVAJtas70Am1vg6gCbX+ThAJtg5N8Am2Hk4ACbZOjiAJtm6N0Am2fo2gCbaOjhAJtp/q8Am2zo4wCbb758AJtw6OAAm3Ho3ACbcpe+AJt06NsAm3Xo3wCbdujeAJt3vnsAm3rsfQCbe+x4AJt87HYAm33soQCbfux3AJt/nbcAm4DscwCbgZ3uAJuC7HkAm4OXvwCbhex0AJuG73IAm4fsdQCbiOyiAJuLne8Am42d8ACbjpT+AJuP/fMAm5DsfACbkcBqAJuS7HsAm5PsegCblex+AJuWlOMAm5eU5ACbmu9qAJub720Am5399ACbnu9sAJufl8AAm6DvdACboe9vAJui73MAm6TvcQCbpe9wAJum724Am6jvawCbqsJDAJurwkIAm63CRACbrsJBAJuv73UAm7D99QCbsZT1AJu0lOUAm7XxyACbtvHLAJu48ckAm7nxzQCbu5fBAJu98c4Am7/xxgCbwMNYAJvB8ccAm8PxxQCbxPHMAJvG8cQAm8fxwwCbyMNXAJvJw1UAm8rDVACbz5TmAJvRlOcAm9KU6ACb0/HKAJvU888Am9Xz1QCb1sRKAJvX89AAm9nz0wCb2vPXAJvbxEsAm9zz0gCb3Z3xAJve88oAm+DzyQCb4fPWAJvi880Am+OXwgCb5PPLAJvl89QAm+bzzACb58RJAJvoxEgAm+md8gCb6vPHAJvr88gAm+zz0QCb7Z3zAJvw884Am/GU6gCb8pTpAJv0nfQAm/WXwwCb9/VsAJv49W8Am/3DVgCb//35AJwAl8QAnAL+UACcBJfFAJwF9W0AnAb1cwCcB/VxAJwI9WsAnAn1dgCcCv34AJwL9WoAnAz99gCcDcTPAJwO9XIAnBCV/QCcEvVuAJwTxM4AnBT1dQCcFf33AJwX9XQAnBuXxgCcHParAJwd9qoAnB+d9QCcIJ32AJwh9rEAnCP2rQCcJPawAJwlxWAAnCad9wCcKPauAJwp9q8AnCv2qQCcLPasAJwtxV8AnC79+gCcL5T5AJwwlOsAnDHFvwCcMve0AJwz968AnDT3swCcNf1TAJw297YAnDf3sgCcOfeuAJw6/MsAnDvFwQCcPPexAJw997UAnD7FwACcP/esAJxA9XAAnEH3sACcRPetAJxF/XAAnEb3qgCcR5TsAJxI96sAnEnFvgCcSvhaAJxL+FwAnEz4XwCcTfhbAJxO+GAAnE+fUACcUPhZAJxS+FcAnFOd+ACcVMXrAJxV+F0AnFbF7QCcV8XsAJxY+FgAnFn4XgCcWpTtAJxdnfkAnF742gCcX8ZNAJxg+NsAnGL42QCcY/jWAJxm+NgAnGf41wCcaPlaAJxplPYAnG35XACcbvlbAJxx+XkAnHL7eACcc/l4AJx0+XcAnHX5egCcdphAAJx3xnMAnHjGdACcefnKAJx6+c4AnHud+gCcfIS+AJx/iMIAnIGIwwCcgo7gAJyFmEsAnIaYTACch5hNAJyIjasAnIuYTgCcjYm/AJyOjWUAnJCYTwCckYq4AJySj24AnJSKtwCclY9vAJyXkPIAnJqQogCcm4q2AJycirUAnJ6YUACcn5BwAJygj7IAnKGQrQCcooztAJyjkGUAnKSLaACcpZBOAJymkGYAnKeLagCcqItnAJypj7EAnKuLaQCcrYvmAJyumFEAnLCYUgCcsY/VAJyymFMAnLOL5QCctJhUAJy1j9IAnLaP0wCct4vnAJy4i+QAnLqYVQCcu4/UAJy8mFYAnL2YVwCcw4xnAJzEjaoAnMWMaACcxphYAJzHmFkAnMqYWgCcy5hbAJzMjWoAnM2MwACczpBPAJzPjMEAnNCQUACc05hcAJzUjO4AnNWQZACc1ozsAJzXjO8AnNiYXQCc2ZheAJzcjU8AnN2NTQCc3o1OAJzfkG8AnOKYXwCc5bO+AJzm3K8AnOfg7QCc6bmnAJzq4OsAnOuYYACc7JhhAJzt4OwAnPCU7gCc8eTiAJzy5OMAnPO78QCc9LvvAJz15OQAnPa78ACc9+joAJz56OsAnPro5QCc++jsAJz86OQAnP3o5gCc/+jnAJ0A6OoAnQL9YQCdA76hAJ0E6O8AnQXo7gCdBr59AJ0H6OkAnQjo7QCdCb5+AJ0MnfsAnQ6CSACdEOysAJ0SwG8AnRTspwCdFcBrAJ0WnfwAnRfspACdGOyqAJ0Z7K0AnRvAcACdHeypAJ0e7KYAnR/srgCdIOylAJ0hn0AAnSLsqwCdI8BsAJ0l7KMAnSbAbQCdKMBuAJ0p7KgAnSqYYgCdK5RHAJ0sgkcAnS3vqQCdLu96AJ0v73sAnTDvfgCdMe98AJ0z73YAnTSfQQCdNu95AJ0376UAnTjvfQCdOZ9CAJ07wkUAnT3vpwCdPu+kAJ0/wkYAnUDvpgCdQe93AJ1C76IAnUPvowCdRP2qAJ1F76EAnUaU7wCdR5T3AJ1ImGMAnUmfQwCdSvHSAJ1L8dQAnUzx1wCdTp9EAJ1P8dEAnVCYZACdUcNZAJ1S8dkAnVPx0ACdVPHaAJ1W8dYAnVfx2ACdWPHcAJ1Z8dUAnVrx3QCdW/HTAJ1c8c8AnV3DWgCdXpVyAJ1f8dsAnWDDWwCdYcRNAJ1klPAAnWWU+ACdZ+94AJ1o8/EAnWnz6ACdasRPAJ1r8+QAnWzEUACdbZ9FAJ1un0cAnW/z7QCdcPPnAJ1x890AnXLETgCdc/PqAJ108+UAnXXz5gCdd/PYAJ14898AnXnz7gCdephlAJ178+sAnXyfSACdffPjAJ1+/MYAnX/z7wCdgPPeAJ2B89kAnYLz7ACdg59JAJ2E89sAnYXz6QCdhvPgAJ2H8/AAnYjz3ACdicRMAJ2K89oAnYvz4QCdjPPiAJ2Pkq8AnZD1fQCdkvV7AJ2Tn0oAnZT1ogCdlvWuAJ2X9aUAnZj1fACdmfV4AJ2a9acAnZv1fgCdnPWjAJ2d9XoAnZ71qgCdn/V3AJ2g9aEAnaH1pgCdovWoAJ2j9asAnaT1eQCdpZ9LAJ2m9a8Anaf1sACdqPWpAJ2p9a0Anar1pACdq5TxAJ2s9sEAna32xACdr8VhAJ2x9sMAnbL2yACds/bGAJ20xWIAnbX2vQCdtvazAJ239rIAnbjFZACdufa/AJ269sAAnbv2vACdvPa0AJ29n00Anb72uQCdv/WsAJ3An1IAncH2tQCdwsVjAJ3D9rsAncSVdQCdxfa6AJ3GmGYAncf2tgCdyPbCAJ3Jn14Ancr2twCdy/e7AJ3M9sUAnc32xwCdzva+AJ3P9rgAndD3vACd0fe+AJ3S97gAndPFwgCd1J9fAJ3V98UAndb3wwCd18XDAJ3Y98IAndn3wQCd2ve6AJ3b97cAndz3vQCd3ffGAJ3e97kAnd/3vwCd4fhpAJ3i+G4AneP4ZACd5PhnAJ3lxe4Aneb4awCd6PhyAJ3p98AAnev4ZQCd7PhvAJ3t+HMAne74agCd7/hjAJ3w+G0AnfL4bACd8/hxAJ30+HAAnfX3xACd9vhoAJ33+GIAnfj4ZgCd+cZOAJ36xk8Anfv4YQCd/J9gAJ39+OYAnf743QCd//jlAJ4A+OIAngH44wCeAvjcAJ4D+N8AngT45wCeBfjhAJ4G+OAAngf43gCeCfjkAJ4Kn2EAngv5XQCeDJ9iAJ4N+V4Ang6fYwCeD/lgAJ4Q+V8AnhH5YgCeEvlhAJ4T+XwAnhT5ewCeFfm3AJ4X+bgAnhifZACeGfnFAJ4axngAnhvGfACeHP1KAJ4d+c8Anh7GfQCeH4S/AJ4ghqoAniGLXACeIod+AJ4jh30AniWM8QCeJojFAJ4ojuEAnimIxACeKonBAJ4rj9cAniyQqgCeLYnDAJ4vicIAnjGPTgCeMo9NAJ4zicQAnjWJwACeNo1QAJ43kGgAnjiPcACeOY9xAJ46j3IAnj2KugCePo2xAJ4/irkAnkGPtACeQpCuAJ5Di2sAnkSLbQCeRYtsAJ5Gj7UAnkeQdQCeSI+zAJ5Ji+kAnkqL6gCeS5hnAJ5Mi+sAnk6P1gCeT4vsAJ5Ri+gAnlWYaACeV4/2AJ5YkFIAnlqP9wCeW5hpAJ5cj/gAnl6MxACeY5BRAJ5kjMMAnmaNrgCeZ4zwAJ5okGcAnmmQcQCeapBzAJ5rkHQAnmyQcgCebY1nAJ5wjWYAnnGYagCec42wAJ51s78AnniCXgCeecTQAJ569skAnnufZQCefMZQAJ59xlEAnn6QUwCef7PAAJ6A4O4AnoH8/QCegrmoAJ6D6PAAnoT7XgCehZ9mAJ6G7LAAnofssQCeiOyvAJ6J76sAnorvqgCei8JHAJ6M8d8Ano3vrACejvHeAJ6Qn1EAnpHz8wCeksRRAJ6TxFMAnpTz8gCelfz0AJ6W+3wAnpfEUgCemPu3AJ6Z9bEAnpr1swCem/WyAJ6c9soAnp3FZQCenv1IAJ6fxe8AnqD46ACeofljAJ6in2cAnqT50gCepbPBAJ6mhMEAnqfk5QCeqP20AJ6pvqIAnqqYawCeq/uiAJ6sn2gAnq3sswCeruyyAJ6vlXMAnrDvrQCesZ9pAJ60xFQAnrXE0QCetvfHAJ63+csAnriIxgCeuYJgAJ66gmEAnruzwgCevLvyAJ69mGwAnr6+owCev5T6AJ7A8/QAnsGfagCewvh0AJ7DtsAAnsSYbQCexp9rAJ7Hn2wAnsjvrgCeyY16AJ7MxmQAns22wQCezr6kAJ7PwkgAntD4dQCe0bbCAJ7SksMAntPo8QCe1MByAJ7V7LQAntbstQCe2MBxAJ7Zk9QAntrvrwCe28JMAJ7cwkoAnt3CSwCe3sJJAJ7f8eAAnuDDXACe4phuAJ7k9bUAnuX1tACe5vW3AJ7n9bYAnujE0gCe6Y2sAJ7qmG8Anuv2ywCe7fbNAJ7u9swAnu/FZgCe8PfIAJ7xn20AnvL4dgCe8/h3AJ70xfAAnvX5ZACe9vl9AJ73xnUAnvifbgCe+dywAJ767LYAnvvvsACe/PP1AJ794O8Anv6OZACe/++xAJ8A8eIAnwHx4QCfAv3oAJ8G+HgAnwfGUgCfCJhwAJ8J+WUAnwr5fgCfC5hxAJ8NmHIAnw65qQCfD+jyAJ8Q6PMAnxLstwCfE7mqAJ8Vw10Anxbx4wCfF/zbAJ8Y9s8AnxnFZwCfGvbQAJ8b9s4Anxz4eQCfHvjpAJ8guasAnyGYcwCfIu+0AJ8j77MAnyTvsgCfJfHkAJ8m+7gAnyefbwCfKPHoAJ8p8ecAnyrx5gCfK/HlAJ8sw14Any3z9gCfLvW5AJ8vxNMAnzD1uACfMfbRAJ8y98sAnzP3ygCfNMXEAJ8198kAnzb4fACfN/h7AJ84+HoAnzmM8gCfO7vzAJ897LgAnz7CTQCfQPP3AJ9B8/gAn0L3zACfQ/h9AJ9EmHQAn0X94gCfRvjqAJ9H+WYAn0j5uQCfSfnUAJ9Ku/QAn0vCTgCfTPHpAJ9N8/kAn0720gCfT/h+AJ9Qh6IAn1GYdQCfUr6mAJ9T/eAAn1TvtQCfVfHqAJ9W8/oAn1fz+wCfWPP8AJ9Z9b4An1r92gCfW/W6AJ9cxWgAn131vQCfXvW8AJ9fxNQAn2D1uwCfYcTWAJ9ik+4An2PE1QCfZPbUAJ9l9tMAn2bFaQCfZ8VqAJ9p/WIAn2rFxgCfa/fNAJ9sxcUAn274owCfb/ikAJ9w+KIAn3H4oQCfcsZUAJ90+OsAn3X47ACfdvjtAJ93xlMAn3j5ZwCfeflqAJ96+WkAn3v5aACffvnTAJ9/iMcAn4CPcwCfg4xqAJ+EjGsAn4WP+gCfho/5AJ+HjMUAn4iMxgCfiYzzAJ+KjPQAn4uNbACfjI1rAJ+NwHMAn4772ACfkMNlAJ+R9b8An5L21QCflMXHAJ+V984An5j51QCfmYnFAJ+ajPUAn5uQaQCfnMB0AJ+dmHYAn5+JxgCfoO+2AJ+i988An6T5oQCfpf3UAJ+wyKEAn7HIowDgAPpAAOAB+kEA4AL6QgDgA/pDAOAE+kQA4AX6RQDgBvpGAOAH+kcA4Aj6SADgCfpJAOAK+koA4Av6SwDgDPpMAOAN+k0A4A76TgDgD/pPAOAQ+lAA4BH6UQDgEvpSAOAT+lMA4BT6VADgFfpVAOAW+lYA4Bf6VwDgGPpYAOAZ+lkA4Br6WgDgG/pbAOAc+lwA4B36XQDgHvpeAOAf+l8A4CD6YADgIfphAOAi+mIA4CP6YwDgJPpkAOAl+mUA4Cb6ZgDgJ/pnAOAo+mgA4Cn6aQDgKvpqAOAr+msA4Cz6bADgLfptAOAu+m4A4C/6bwDgMPpwAOAx+nEA4DL6cgDgM/pzAOA0+nQA4DX6dQDgNvp2AOA3+ncA4Dj6eADgOfp5AOA6+noA4Dv6ewDgPPp8AOA9+n0A4D76fgDgP/qhAOBA+qIA4EH6owDgQvqkAOBD+qUA4ET6pgDgRfqnAOBG+qgA4Ef6qQDgSPqqAOBJ+qsA4Er6rADgS/qtAOBM+q4A4E36rwDgTvqwAOBP+rEA4FD6sgDgUfqzAOBS+rQA4FP6tQDgVPq2AOBV+rcA4Fb6uADgV/q5AOBY+roA4Fn6uwDgWvq8AOBb+r0A4Fz6vgDgXfq/AOBe+sAA4F/6wQDgYPrCAOBh+sMA4GL6xADgY/rFAOBk+sYA4GX6xwDgZvrIAOBn+skA4Gj6ygDgafrLAOBq+swA4Gv6zQDgbPrOAOBt+s8A4G760ADgb/rRAOBw+tIA4HH60wDgcvrUAOBz+tUA4HT61gDgdfrXAOB2+tgA4Hf62QDgePraAOB5+tsA4Hr63ADge/rdAOB8+t4A4H363wDgfvrgAOB/+uEA4ID64gDggfrjAOCC+uQA4IP65QDghPrmAOCF+ucA4Ib66ADgh/rpAOCI+uoA4In66wDgivrsAOCL+u0A4Iz67gDgjfrvAOCO+vAA4I/68QDgkPryAOCR+vMA4JL69ADgk/r1AOCU+vYA4JX69wDglvr4AOCX+vkA4Jj6+gDgmfr7AOCa+vwA4Jv6/QDgnPr+AOCd+0AA4J77QQDgn/tCAOCg+0MA4KH7RADgovtFAOCj+0YA4KT7RwDgpftIAOCm+0kA4Kf7SgDgqPtLAOCp+0wA4Kr7TQDgq/tOAOCs+08A4K37UADgrvtRAOCv+1IA4LD7UwDgsftUAOCy+1UA4LP7VgDgtPtXAOC1+1gA4Lb7WQDgt/taAOC4+1sA4Ln7XADguvtdAOC7+14A4Lz7XwDgvftgAOC++2EA4L/7YgDgwPtjAODB+2QA4ML7ZQDgw/tmAODE+2cA4MX7aADgxvtpAODH+2oA4Mj7awDgyftsAODK+20A4Mv7bgDgzPtvAODN+3AA4M77cQDgz/tyAODQ+3MA4NH7dADg0vt1AODT+3YA4NT7dwDg1ft4AODW+3kA4Nf7egDg2Pt7AODZ+3wA4Nr7fQDg2/t+AODc+6EA4N37ogDg3vujAODf+6QA4OD7pQDg4fumAODi+6cA4OP7qADg5PupAODl+6oA4Ob7qwDg5/usAODo+60A4On7rgDg6vuvAODr+7AA4Oz7sQDg7fuyAODu+7MA4O/7tADg8Pu1AODx+7YA4PL7twDg8/u4AOD0+7kA4PX7ugDg9vu7AOD3+7wA4Pj7vQDg+fu+AOD6+78A4Pv7wADg/PvBAOD9+8IA4P77wwDg//vEAOEA+8UA4QH7xgDhAvvHAOED+8gA4QT7yQDhBfvKAOEG+8sA4Qf7zADhCPvNAOEJ+84A4Qr7zwDhC/vQAOEM+9EA4Q370gDhDvvTAOEP+9QA4RD71QDhEfvWAOES+9cA4RP72ADhFPvZAOEV+9oA4Rb72wDhF/vcAOEY+90A4Rn73gDhGvvfAOEb++AA4Rz74QDhHfviAOEe++MA4R/75ADhIPvlAOEh++YA4SL75wDhI/voAOEk++kA4SX76gDhJvvrAOEn++wA4Sj77QDhKfvuAOEq++8A4Sv78ADhLPvxAOEt+/IA4S778wDhL/v0AOEw+/UA4TH79gDhMvv3AOEz+/gA4TT7+QDhNfv6AOE2+/sA4Tf7/ADhOPv9AOE5+/4A4Tr8QADhO/xBAOE8/EIA4T38QwDhPvxEAOE//EUA4UD8RgDhQfxHAOFC/EgA4UP8SQDhRPxKAOFF/EsA4Ub8TADhR/xNAOFI/E4A4Un8TwDhSvxQAOFL/FEA4Uz8UgDhTfxTAOFO/FQA4U/8VQDhUPxWAOFR/FcA4VL8WADhU/xZAOFU/FoA4VX8WwDhVvxcAOFX/F0A4Vj8XgDhWfxfAOFa/GAA4Vv8YQDhXPxiAOFd/GMA4V78ZADhX/xlAOFg/GYA4WH8ZwDhYvxoAOFj/GkA4WT8agDhZfxrAOFm/GwA4Wf8bQDhaPxuAOFp/G8A4Wr8cADha/xxAOFs/HIA4W38cwDhbvx0AOFv/HUA4XD8dgDhcfx3AOFy/HgA4XP8eQDhdPx6AOF1/HsA4Xb8fADhd/x9AOF4/H4A4Xn8oQDhevyiAOF7/KMA4Xz8pADhffylAOF+/KYA4X/8pwDhgPyoAOGB/KkA4YL8qgDhg/yrAOGE/KwA4YX8rQDhhvyuAOGH/K8A4Yj8sADhifyxAOGK/LIA4Yv8swDhjPy0AOGN/LUA4Y78tgDhj/y3AOGQ/LgA4ZH8uQDhkvy6AOGT/LsA4ZT8vADhlfy9AOGW/L4A4Zf8vwDhmPzAAOGZ/MEA4Zr8wgDhm/zDAOGc/MQA4Z38xQDhnvzGAOGf/McA4aD8yADhofzJAOGi/MoA4aP8ywDhpPzMAOGl/M0A4ab8zgDhp/zPAOGo/NAA4an80QDhqvzSAOGr/NMA4az81ADhrfzVAOGu/NYA4a/81wDhsPzYAOGx/NkA4bL82gDhs/zbAOG0/NwA4bX83QDhtvzeAOG3/N8A4bj84ADhufzhAOG6/OIA4bv84wDhvPzkAOG9/OUA4b785gDhv/znAOHA/OgA4cH86QDhwvzqAOHD/OsA4cT87ADhxfztAOHG/O4A4cf87wDhyPzwAOHJ/PEA4cr88gDhy/zzAOHM/PQA4c389QDhzvz2AOHP/PcA4dD8+ADh0fz5AOHS/PoA4dP8+wDh1Pz8AOHV/P0A4db8/gDh1/1AAOHY/UEA4dn9QgDh2v1DAOHb/UQA4dz9RQDh3f1GAOHe/UcA4d/9SADh4P1JAOHh/UoA4eL9SwDh4/1MAOHk/U0A4eX9TgDh5v1PAOHn/VAA4ej9UQDh6f1SAOHq/VMA4ev9VADh7P1VAOHt/VYA4e79VwDh7/1YAOHw/VkA4fH9WgDh8v1bAOHz/VwA4fT9XQDh9f1eAOH2/V8A4ff9YADh+P1hAOH5/WIA4fr9YwDh+/1kAOH8/WUA4f39ZgDh/v1nAOH//WgA4gD9aQDiAf1qAOIC/WsA4gP9bADiBP1tAOIF/W4A4gb9bwDiB/1wAOII/XEA4gn9cgDiCv1zAOIL/XQA4gz9dQDiDf12AOIO/XcA4g/9eADiEP15AOIR/XoA4hL9ewDiE/18AOIU/X0A4hX9fgDiFv2hAOIX/aIA4hj9owDiGf2kAOIa/aUA4hv9pgDiHP2nAOId/agA4h79qQDiH/2qAOIg/asA4iH9rADiIv2tAOIj/a4A4iT9rwDiJf2wAOIm/bEA4if9sgDiKP2zAOIp/bQA4ir9tQDiK/22AOIs/bcA4i39uADiLv25AOIv/boA4jD9uwDiMf28AOIy/b0A4jP9vgDiNP2/AOI1/cAA4jb9wQDiN/3CAOI4/cMA4jn9xADiOv3FAOI7/cYA4jz9xwDiPf3IAOI+/ckA4j/9ygDiQP3LAOJB/cwA4kL9zQDiQ/3OAOJE/c8A4kX90ADiRv3RAOJH/dIA4kj90wDiSf3UAOJK/dUA4kv91gDiTP3XAOJN/dgA4k792QDiT/3aAOJQ/dsA4lH93ADiUv3dAOJT/d4A4lT93wDiVf3gAOJW/eEA4lf94gDiWP3jAOJZ/eQA4lr95QDiW/3mAOJc/ecA4l396ADiXv3pAOJf/eoA4mD96wDiYf3sAOJi/e0A4mP97gDiZP3vAOJl/fAA4mb98QDiZ/3yAOJo/fMA4mn99ADiav31AOJr/fYA4mz99wDibf34AOJu/fkA4m/9+gDicP37AOJx/fwA4nL9/QDic/3+AOJ0/kAA4nX+QQDidv5CAOJ3/kMA4nj+RADief5FAOJ6/kYA4nv+RwDifP5IAOJ9/kkA4n7+SgDif/5LAOKA/kwA4oH+TQDigv5OAOKD/k8A4oT+UADihf5RAOKG/lIA4of+UwDiiP5UAOKJ/lUA4or+VgDii/5XAOKM/lgA4o3+WQDijv5aAOKP/lsA4pD+XADikf5dAOKS/l4A4pP+XwDilP5gAOKV/mEA4pb+YgDil/5jAOKY/mQA4pn+ZQDimv5mAOKb/mcA4pz+aADinf5pAOKe/moA4p/+awDioP5sAOKh/m0A4qL+bgDio/5vAOKk/nAA4qX+cQDipv5yAOKn/nMA4qj+dADiqf51AOKq/nYA4qv+dwDirP54AOKt/nkA4q7+egDir/57AOKw/nwA4rH+fQDisv5+AOKz/qEA4rT+ogDitf6jAOK2/qQA4rf+pQDiuP6mAOK5/qcA4rr+qADiu/6pAOK8/qoA4r3+qwDivv6sAOK//q0A4sD+rgDiwf6vAOLC/rAA4sP+sQDixP6yAOLF/rMA4sb+tADix/61AOLI/rYA4sn+twDiyv64AOLL/rkA4sz+ugDizf67AOLO/rwA4s/+vQDi0P6+AOLR/r8A4tL+wADi0/7BAOLU/sIA4tX+wwDi1v7EAOLX/sUA4tj+xgDi2f7HAOLa/sgA4tv+yQDi3P7KAOLd/ssA4t7+zADi3/7NAOLg/s4A4uH+zwDi4v7QAOLj/tEA4uT+0gDi5f7TAOLm/tQA4uf+1QDi6P7WAOLp/tcA4ur+2ADi6/7ZAOLs/toA4u3+2wDi7v7cAOLv/t0A4vD+3gDi8f7fAOLy/uAA4vP+4QDi9P7iAOL1/uMA4vb+5ADi9/7lAOL4/uYA4vn+5wDi+v7oAOL7/ukA4vz+6gDi/f7rAOL+/uwA4v/+7QDjAP7uAOMB/u8A4wL+8ADjA/7xAOME/vIA4wX+8wDjBv70AOMH/vUA4wj+9gDjCf73AOMK/vgA4wv++QDjDP76AOMN/vsA4w7+/ADjD/79AOMQ/v4A4xGOQADjEo5BAOMTjkIA4xSOQwDjFY5EAOMWjkUA4xeORgDjGI5HAOMZjkgA4xqOSQDjG45KAOMcjksA4x2OTADjHo5NAOMfjk4A4yCOTwDjIY5QAOMijlEA4yOOUgDjJI5TAOMljlQA4yaOVQDjJ45WAOMojlcA4ymOWADjKo5ZAOMrjloA4yyOWwDjLY5cAOMujl0A4y+OXgDjMI5fAOMxjmAA4zKOYQDjM45iAOM0jmMA4zWOZADjNo5lAOM3jmYA4ziOZwDjOY5oAOM6jmkA4zuOagDjPI5rAOM9jmwA4z6ObQDjP45uAONAjm8A40GOcADjQo5xAONDjnIA40SOcwDjRY50AONGjnUA40eOdgDjSI53AONJjngA40qOeQDjS456AONMjnsA402OfADjTo59AONPjn4A41COoQDjUY6iAONSjqMA41OOpADjVI6lAONVjqYA41aOpwDjV46oAONYjqkA41mOqgDjWo6rAONbjqwA41yOrQDjXY6uAONejq8A41+OsADjYI6xAONhjrIA42KOswDjY460AONkjrUA42WOtgDjZo63AONnjrgA42iOuQDjaY66AONqjrsA42uOvADjbI69AONtjr4A426OvwDjb47AAONwjsEA43GOwgDjco7DAONzjsQA43SOxQDjdY7GAON2jscA43eOyADjeI7JAON5jsoA43qOywDje47MAON8js0A432OzgDjfo7PAON/jtAA44CO0QDjgY7SAOOCjtMA44OO1ADjhI7VAOOFjtYA44aO1wDjh47YAOOIjtkA44mO2gDjio7bAOOLjtwA44yO3QDjjY7eAOOOjt8A44+O4ADjkI7hAOORjuIA45KO4wDjk47kAOOUjuUA45WO5gDjlo7nAOOXjugA45iO6QDjmY7qAOOajusA45uO7ADjnI7tAOOdju4A456O7wDjn47wAOOgjvEA46GO8gDjoo7zAOOjjvQA46SO9QDjpY72AOOmjvcA46eO+ADjqI75AOOpjvoA46qO+wDjq478AOOsjv0A462O/gDjro9AAOOvj0EA47CPQgDjsY9DAOOyj0QA47OPRQDjtI9GAOO1j0cA47aPSADjt49JAOO4j0oA47mPSwDjuo9MAOO7j00A47yPTgDjvY9PAOO+j1AA47+PUQDjwI9SAOPBj1MA48KPVADjw49VAOPEj1YA48WPVwDjxo9YAOPHj1kA48iPWgDjyY9bAOPKj1wA48uPXQDjzI9eAOPNj18A486PYADjz49hAOPQj2IA49GPYwDj0o9kAOPTj2UA49SPZgDj1Y9nAOPWj2gA49ePaQDj2I9qAOPZj2sA49qPbADj249tAOPcj24A492PbwDj3o9wAOPfj3EA4+CPcgDj4Y9zAOPij3QA4+OPdQDj5I92AOPlj3cA4+aPeADj5495AOPoj3oA4+mPewDj6o98AOPrj30A4+yPfgDj7Y+hAOPuj6IA4++PowDj8I+kAOPxj6UA4/KPpgDj84+nAOP0j6gA4/WPqQDj9o+qAOP3j6sA4/iPrADj+Y+tAOP6j64A4/uPrwDj/I+wAOP9j7EA4/6PsgDj/4+zAOQAj7QA5AGPtQDkAo+2AOQDj7cA5ASPuADkBY+5AOQGj7oA5AePuwDkCI+8AOQJj70A5AqPvgDkC4+/AOQMj8AA5A2PwQDkDo/CAOQPj8MA5BCPxADkEY/FAOQSj8YA5BOPxwDkFI/IAOQVj8kA5BaPygDkF4/LAOQYj8wA5BmPzQDkGo/OAOQbj88A5ByP0ADkHY/RAOQej9IA5B+P0wDkII/UAOQhj9UA5CKP1gDkI4/XAOQkj9gA5CWP2QDkJo/aAOQnj9sA5CiP3ADkKY/dAOQqj94A5CuP3wDkLI/gAOQtj+EA5C6P4gDkL4/jAOQwj+QA5DGP5QDkMo/mAOQzj+cA5DSP6ADkNY/pAOQ2j+oA5DeP6wDkOI/sAOQ5j+0A5DqP7gDkO4/vAOQ8j/AA5D2P8QDkPo/yAOQ/j/MA5ECP9ADkQY/1AORCj/YA5EOP9wDkRI/4AORFj/kA5EaP+gDkR4/7AORIj/wA5EmP/QDkSo/+AORLkEAA5EyQQQDkTZBCAOROkEMA5E+QRADkUJBFAORRkEYA5FKQRwDkU5BIAORUkEkA5FWQSgDkVpBLAORXkEwA5FiQTQDkWZBOAORakE8A5FuQUADkXJBRAORdkFIA5F6QUwDkX5BUAORgkFUA5GGQVgDkYpBXAORjkFgA5GSQWQDkZZBaAORmkFsA5GeQXADkaJBdAORpkF4A5GqQXwDka5BgAORskGEA5G2QYgDkbpBjAORvkGQA5HCQZQDkcZBmAORykGcA5HOQaADkdJBpAOR1kGoA5HaQawDkd5BsAOR4kG0A5HmQbgDkepBvAOR7kHAA5HyQcQDkfZByAOR+kHMA5H+QdADkgJB1AOSBkHYA5IKQdwDkg5B4AOSEkHkA5IWQegDkhpB7AOSHkHwA5IiQfQDkiZB+AOSKkKEA5IuQogDkjJCjAOSNkKQA5I6QpQDkj5CmAOSQkKcA5JGQqADkkpCpAOSTkKoA5JSQqwDklZCsAOSWkK0A5JeQrgDkmJCvAOSZkLAA5JqQsQDkm5CyAOSckLMA5J2QtADknpC1AOSfkLYA5KCQtwDkoZC4AOSikLkA5KOQugDkpJC7AOSlkLwA5KaQvQDkp5C+AOSokL8A5KmQwADkqpDBAOSrkMIA5KyQwwDkrZDEAOSukMUA5K+QxgDksJDHAOSxkMgA5LKQyQDks5DKAOS0kMsA5LWQzADktpDNAOS3kM4A5LiQzwDkuZDQAOS6kNEA5LuQ0gDkvJDTAOS9kNQA5L6Q1QDkv5DWAOTAkNcA5MGQ2ADkwpDZAOTDkNoA5MSQ2wDkxZDcAOTGkN0A5MeQ3gDkyJDfAOTJkOAA5MqQ4QDky5DiAOTMkOMA5M2Q5ADkzpDlAOTPkOYA5NCQ5wDk0ZDoAOTSkOkA5NOQ6gDk1JDrAOTVkOwA5NaQ7QDk15DuAOTYkO8A5NmQ8ADk2pDxAOTbkPIA5NyQ8wDk3ZD0AOTekPUA5N+Q9gDk4JD3AOThkPgA5OKQ+QDk45D6AOTkkPsA5OWQ/ADk5pD9AOTnkP4A5OiRQADk6ZFBAOTqkUIA5OuRQwDk7JFEAOTtkUUA5O6RRgDk75FHAOTwkUgA5PGRSQDk8pFKAOTzkUsA5PSRTADk9ZFNAOT2kU4A5PeRTwDk+JFQAOT5kVEA5PqRUgDk+5FTAOT8kVQA5P2RVQDk/pFWAOT/kVcA5QCRWADlAZFZAOUCkVoA5QORWwDlBJFcAOUFkV0A5QaRXgDlB5FfAOUIkWAA5QmRYQDlCpFiAOULkWMA5QyRZADlDZFlAOUOkWYA5Q+RZwDlEJFoAOURkWkA5RKRagDlE5FrAOUUkWwA5RWRbQDlFpFuAOUXkW8A5RiRcADlGZFxAOUakXIA5RuRcwDlHJF0AOUdkXUA5R6RdgDlH5F3AOUgkXgA5SGReQDlIpF6AOUjkXsA5SSRfADlJZF9AOUmkX4A5SeRoQDlKJGiAOUpkaMA5SqRpADlK5GlAOUskaYA5S2RpwDlLpGoAOUvkakA5TCRqgDlMZGrAOUykawA5TORrQDlNJGuAOU1ka8A5TaRsADlN5GxAOU4kbIA5TmRswDlOpG0AOU7kbUA5TyRtgDlPZG3AOU+kbgA5T+RuQDlQJG6AOVBkbsA5UKRvADlQ5G9AOVEkb4A5UWRvwDlRpHAAOVHkcEA5UiRwgDlSZHDAOVKkcQA5UuRxQDlTJHGAOVNkccA5U6RyADlT5HJAOVQkcoA5VGRywDlUpHMAOVTkc0A5VSRzgDlVZHPAOVWkdAA5VeR0QDlWJHSAOVZkdMA5VqR1ADlW5HVAOVckdYA5V2R1wDlXpHYAOVfkdkA5WCR2gDlYZHbAOVikdwA5WOR3QDlZJHeAOVlkd8A5WaR4ADlZ5HhAOVokeIA5WmR4wDlapHkAOVrkeUA5WyR5gDlbZHnAOVukegA5W+R6QDlcJHqAOVxkesA5XKR7ADlc5HtAOV0ke4A5XWR7wDldpHwAOV3kfEA5XiR8gDleZHzAOV6kfQA5XuR9QDlfJH2AOV9kfcA5X6R+ADlf5H5AOWAkfoA5YGR+wDlgpH8AOWDkf0A5YSR/gDlhZJAAOWGkkEA5YeSQgDliJJDAOWJkkQA5YqSRQDli5JGAOWMkkcA5Y2SSADljpJJAOWPkkoA5ZCSSwDlkZJMAOWSkk0A5ZOSTgDllJJPAOWVklAA5ZaSUQDll5JSAOWYklMA5ZmSVADlmpJVAOWbklYA5ZySVwDlnZJYAOWeklkA5Z+SWgDloJJbAOWhklwA5aKSXQDlo5JeAOWkkl8A5aWSYADlppJhAOWnkmIA5aiSYwDlqZJkAOWqkmUA5auSZgDlrJJnAOWtkmgA5a6SaQDlr5JqAOWwkmsA5bGSbADlspJtAOWzkm4A5bSSbwDltZJwAOW2knEA5beScgDluJJzAOW5knQA5bqSdQDlu5J2AOW8kncA5b2SeADlvpJ5AOW/knoA5cCSewDlwZJ8AOXCkn0A5cOSfgDlxJKhAOXFkqIA5caSowDlx5KkAOXIkqUA5cmSpgDlypKnAOXLkqgA5cySqQDlzZKqAOXOkqsA5c+SrADl0JKtAOXRkq4A5dKSrwDl05KwAOXUkrEA5dWSsgDl1pKzAOXXkrQA5diStQDl2ZK2AOXakrcA5duSuADl3JK5AOXdkroA5d6SuwDl35K8AOXgkr0A5eGSvgDl4pK/AOXjksAA5eSSwQDl5ZLCAOXmksMA5eeSxADl6JLFAOXpksYA5eqSxwDl65LIAOXskskA5e2SygDl7pLLAOXvkswA5fCSzQDl8ZLOAOXyks8A5fOS0ADl9JLRAOX1ktIA5faS0wDl95LUAOX4ktUA5fmS1gDl+pLXAOX7ktgA5fyS2QDl/ZLaAOX+ktsA5f+S3ADmAJLdAOYBkt4A5gKS3wDmA5LgAOYEkuEA5gWS4gDmBpLjAOYHkuQA5giS5QDmCZLmAOYKkucA5guS6ADmDJLpAOYNkuoA5g6S6wDmD5LsAOYQku0A5hGS7gDmEpLvAOYTkvAA5hSS8QDmFZLyAOYWkvMA5heS9ADmGJL1AOYZkvYA5hqS9wDmG5L4AOYckvkA5h2S+gDmHpL7AOYfkvwA5iCS/QDmIZL+AOYik0AA5iOTQQDmJJNCAOYlk0MA5iaTRADmJ5NFAOYok0YA5imTRwDmKpNIAOYrk0kA5iyTSgDmLZNLAOYuk0wA5i+TTQDmMJNOAOYxk08A5jKTUADmM5NRAOY0k1IA5jWTUwDmNpNUAOY3k1UA5jiTVgDmOZNXAOY6k1gA5juTWQDmPJNaAOY9k1sA5j6TXADmP5NdAOZAk14A5kGTXwDmQpNgAOZDk2EA5kSTYgDmRZNjAOZGk2QA5keTZQDmSJNmAOZJk2cA5kqTaADmS5NpAOZMk2oA5k2TawDmTpNsAOZPk20A5lCTbgDmUZNvAOZSk3AA5lOTcQDmVJNyAOZVk3MA5laTdADmV5N1AOZYk3YA5lmTdwDmWpN4AOZbk3kA5lyTegDmXZN7AOZek3wA5l+TfQDmYJN+AOZhk6EA5mKTogDmY5OjAOZkk6QA5mWTpQDmZpOmAOZnk6cA5miTqADmaZOpAOZqk6oA5muTqwDmbJOsAOZtk60A5m6TrgDmb5OvAOZwk7AA5nGTsQDmcpOyAOZzk7MA5nSTtADmdZO1AOZ2k7YA5neTtwDmeJO4AOZ5k7kA5nqTugDme5O7AOZ8k7wA5n2TvQDmfpO+AOZ/k78A5oCTwADmgZPBAOaCk8IA5oOTwwDmhJPEAOaFk8UA5oaTxgDmh5PHAOaIk8gA5omTyQDmipPKAOaLk8sA5oyTzADmjZPNAOaOk84A5o+TzwDmkJPQAOaRk9EA5pKT0gDmk5PTAOaUk9QA5pWT1QDmlpPWAOaXk9cA5piT2ADmmZPZAOaak9oA5puT2wDmnJPcAOadk90A5p6T3gDmn5PfAOagk+AA5qGT4QDmopPiAOajk+MA5qST5ADmpZPlAOamk+YA5qeT5wDmqJPoAOapk+kA5qqT6gDmq5PrAOask+wA5q2T7QDmrpPuAOavk+8A5rCT8ADmsZPxAOayk/IA5rOT8wDmtJP0AOa1k/UA5raT9gDmt5P3AOa4k/gA5rmT+QDmupP6AOa7k/sA5ryT/ADmvZP9AOa+k/4A5r+UQADmwJRBAObBlEIA5sKUQwDmw5REAObElEUA5sWURgDmxpRHAObHlEgA5siUSQDmyZRKAObKlEsA5suUTADmzJRNAObNlE4A5s6UTwDmz5RQAObQlFEA5tGUUgDm0pRTAObTlFQA5tSUVQDm1ZRWAObWlFcA5teUWADm2JRZAObZlFoA5tqUWwDm25RcAObclF0A5t2UXgDm3pRfAObflGAA5uCUYQDm4ZRiAObilGMA5uOUZADm5JRlAObllGYA5uaUZwDm55RoAObolGkA5umUagDm6pRrAObrlGwA5uyUbQDm7ZRuAObulG8A5u+UcADm8JRxAObxlHIA5vKUcwDm85R0AOb0lHUA5vWUdgDm9pR3AOb3lHgA5viUeQDm+ZR6AOb6lHsA5vuUfADm/JR9AOb9lH4A5v6UoQDm/5SiAOcAlKMA5wGUpADnApSlAOcDlKYA5wSUpwDnBZSoAOcGlKkA5weUqgDnCJSrAOcJlKwA5wqUrQDnC5SuAOcMlK8A5w2UsADnDpSxAOcPlLIA5xCUswDnEZS0AOcSlLUA5xOUtgDnFJS3AOcVlLgA5xaUuQDnF5S6AOcYlLsA5xmUvADnGpS9AOcblL4A5xyUvwDnHZTAAOcelMEA5x+UwgDnIJTDAOchlMQA5yKUxQDnI5TGAOcklMcA5yWUyADnJpTJAOcnlMoA5yiUywDnKZTMAOcqlM0A5yuUzgDnLJTPAOctlNAA5y6U0QDnL5TSAOcwlNMA5zGU1ADnMpTVAOczlNYA5zSU1wDnNZTYAOc2lNkA5zeU2gDnOJTbAOc5lNwA5zqU3QDnO5TeAOc8lN8A5z2U4ADnPpThAOc/lOIA50CU4wDnQZTkAOdClOUA50OU5gDnRJTnAOdFlOgA50aU6QDnR5TqAOdIlOsA50mU7ADnSpTtAOdLlO4A50yU7wDnTZTwAOdOlPEA50+U8gDnUJTzAOdRlPQA51KU9QDnU5T2AOdUlPcA51WU+ADnVpT5AOdXlPoA51iU+wDnWZT8AOdalP0A51uU/gDnXJVAAOddlUEA516VQgDnX5VDAOdglUQA52GVRQDnYpVGAOdjlUcA52SVSADnZZVJAOdmlUoA52eVSwDnaJVMAOdplU0A52qVTgDna5VPAOdslVAA522VUQDnbpVSAOdvlVMA53CVVADncZVVAOdylVYA53OVVwDndJVYAOd1lVkA53aVWgDnd5VbAOd4lVwA53mVXQDnepVeAOd7lV8A53yVYADnfZVhAOd+lWIA53+VYwDngJVkAOeBlWUA54KVZgDng5VnAOeElWgA54WVaQDnhpVqAOeHlWsA54iVbADniZVtAOeKlW4A54uVbwDnjJVwAOeNlXEA546VcgDnj5VzAOeQlXQA55GVdQDnkpV2AOeTlXcA55SVeADnlZV5AOeWlXoA55eVewDnmJV8AOeZlX0A55qVfgDnm5WhAOeclaIA552VowDnnpWkAOeflaUA56CVpgDnoZWnAOeilagA56OVqQDnpJWqAOellasA56aVrADnp5WtAOeola4A56mVrwDnqpWwAOerlbEA56yVsgDnrZWzAOeulbQA56+VtQDnsJW2AOexlbcA57KVuADns5W5AOe0lboA57WVuwDntpW8AOe3lb0A57iVvgDnuZW/AOe6lcAA57uVwQDnvJXCAOe9lcMA576VxADnv5XFAOfAlcYA58GVxwDnwpXIAOfDlckA58SVygDnxZXLAOfGlcwA58eVzQDnyJXOAOfJlc8A58qV0ADny5XRAOfMldIA582V0wDnzpXUAOfPldUA59CV1gDn0ZXXAOfSldgA59OV2QDn1JXaAOfVldsA59aV3ADn15XdAOfYld4A59mV3wDn2pXgAOfbleEA59yV4gDn3ZXjAOfeleQA59+V5QDn4JXmAOfhlecA5+KV6ADn45XpAOfkleoA5+WV6wDn5pXsAOfnle0A5+iV7gDn6ZXvAOfqlfAA5+uV8QDn7JXyAOftlfMA5+6V9ADn75X1AOfwlfYA5/GV9wDn8pX4AOfzlfkA5/SV+gDn9ZX7AOf2lfwA5/eV/QDn+JX+AOf5lkAA5/qWQQDn+5ZCAOf8lkMA5/2WRADn/pZFAOf/lkYA6ACWRwDoAZZIAOgClkkA6AOWSgDoBJZLAOgFlkwA6AaWTQDoB5ZOAOgIlk8A6AmWUADoCpZRAOgLllIA6AyWUwDoDZZUAOgOllUA6A+WVgDoEJZXAOgRllgA6BKWWQDoE5ZaAOgUllsA6BWWXADoFpZdAOgXll4A6BiWXwDoGZZgAOgalmEA6BuWYgDoHJZjAOgdlmQA6B6WZQDoH5ZmAOgglmcA6CGWaADoIpZpAOgjlmoA6CSWawDoJZZsAOgmlm0A6CeWbgDoKJZvAOgplnAA6CqWcQDoK5ZyAOgslnMA6C2WdADoLpZ1AOgvlnYA6DCWdwDoMZZ4AOgylnkA6DOWegDoNJZ7AOg1lnwA6DaWfQDoN5Z+AOg4lqEA6DmWogDoOpajAOg7lqQA6DyWpQDoPZamAOg+lqcA6D+WqADoQJapAOhBlqoA6EKWqwDoQ5asAOhElq0A6EWWrgDoRpavAOhHlrAA6EiWsQDoSZayAOhKlrMA6EuWtADoTJa1AOhNlrYA6E6WtwDoT5a4AOhQlrkA6FGWugDoUpa7AOhTlrwA6FSWvQDoVZa+AOhWlr8A6FeWwADoWJbBAOhZlsIA6FqWwwDoW5bEAOhclsUA6F2WxgDoXpbHAOhflsgA6GCWyQDoYZbKAOhilssA6GOWzADoZJbNAOhlls4A6GaWzwDoZ5bQAOholtEA6GmW0gDoapbTAOhrltQA6GyW1QDobZbWAOhultcA6G+W2ADocJbZAOhxltoA6HKW2wDoc5bcAOh0lt0A6HWW3gDodpbfAOh3luAA6HiW4QDoeZbiAOh6luMA6HuW5ADofJblAOh9luYA6H6W5wDof5boAOiAlukA6IGW6gDogpbrAOiDluwA6ISW7QDohZbuAOiGlu8A6IeW8ADoiJbxAOiJlvIA6IqW8wDoi5b0AOiMlvUA6I2W9gDojpb3AOiPlvgA6JCW+QDokZb6AOiSlvsA6JOW/ADolJb9AOiVlv4A6JaXQADol5dBAOiYl0IA6JmXQwDompdEAOibl0UA6JyXRgDonZdHAOiel0gA6J+XSQDooJdKAOihl0sA6KKXTADoo5dNAOikl04A6KWXTwDoppdQAOinl1EA6KiXUgDoqZdTAOiql1QA6KuXVQDorJdWAOitl1cA6K6XWADor5dZAOiwl1oA6LGXWwDospdcAOizl10A6LSXXgDotZdfAOi2l2AA6LeXYQDouJdiAOi5l2MA6LqXZADou5dlAOi8l2YA6L2XZwDovpdoAOi/l2kA6MCXagDowZdrAOjCl2wA6MOXbQDoxJduAOjFl28A6MaXcADox5dxAOjIl3IA6MmXcwDoypd0AOjLl3UA6MyXdgDozZd3AOjOl3gA6M+XeQDo0Jd6AOjRl3sA6NKXfADo05d9AOjUl34A6NWXoQDo1peiAOjXl6MA6NiXpADo2ZelAOjal6YA6NuXpwDo3JeoAOjdl6kA6N6XqgDo35erAOjgl6wA6OGXrQDo4peuAOjjl68A6OSXsADo5ZexAOjml7IA6OeXswDo6Je0AOjpl7UA6OqXtgDo65e3AOjsl7gA6O2XuQDo7pe6AOjvl7sA6PCXvADo8Ze9AOjyl74A6POXvwDo9JfAAOj1l8EA6PaXwgDo95fDAOj4l8QA6PmXxQDo+pfGAOj7l8cA6PyXyADo/ZfJAOj+l8oA6P+XywDpAJfMAOkBl80A6QKXzgDpA5fPAOkEl9AA6QWX0QDpBpfSAOkHl9MA6QiX1ADpCZfVAOkKl9YA6QuX1wDpDJfYAOkNl9kA6Q6X2gDpD5fbAOkQl9wA6RGX3QDpEpfeAOkTl98A6RSX4ADpFZfhAOkWl+IA6ReX4wDpGJfkAOkZl+UA6RqX5gDpG5fnAOkcl+gA6R2X6QDpHpfqAOkfl+sA6SCX7ADpIZftAOkil+4A6SOX7wDpJJfwAOkll/EA6SaX8gDpJ5fzAOkol/QA6SmX9QDpKpf2AOkrl/cA6SyX+ADpLZf5AOkul/oA6S+X+wDpMJf8AOkxl/0A6TKX/gDpM5hAAOk0mEEA6TWYQgDpNphDAOk3mEQA6TiYRQDpOZhGAOk6mEcA6TuYSADpPJhJAOk9mEoA6T6YSwDpP5hMAOlAmE0A6UGYTgDpQphPAOlDmFAA6USYUQDpRZhSAOlGmFMA6UeYVADpSJhVAOlJmFYA6UqYVwDpS5hYAOlMmFkA6U2YWgDpTphbAOlPmFwA6VCYXQDpUZheAOlSmF8A6VOYYADpVJhhAOlVmGIA6VaYYwDpV5hkAOlYmGUA6VmYZgDpWphnAOlbmGgA6VyYaQDpXZhqAOlemGsA6V+YbADpYJhtAOlhmG4A6WKYbwDpY5hwAOlkmHEA6WWYcgDpZphzAOlnmHQA6WiYdQDpaZh2AOlqmHcA6WuYeADpbJh5AOltmHoA6W6YewDpb5h8AOlwmH0A6XGYfgDpcpihAOlzmKIA6XSYowDpdZikAOl2mKUA6XeYpgDpeJinAOl5mKgA6XqYqQDpe5iqAOl8mKsA6X2YrADpfpitAOl/mK4A6YCYrwDpgZiwAOmCmLEA6YOYsgDphJizAOmFmLQA6YaYtQDph5i2AOmImLcA6YmYuADpipi5AOmLmLoA6YyYuwDpjZi8AOmOmL0A6Y+YvgDpkJi/AOmRmMAA6ZKYwQDpk5jCAOmUmMMA6ZWYxADplpjFAOmXmMYA6ZiYxwDpmZjIAOmamMkA6ZuYygDpnJjLAOmdmMwA6Z6YzQDpn5jOAOmgmM8A6aGY0ADpopjRAOmjmNIA6aSY0wDppZjUAOmmmNUA6aeY1gDpqJjXAOmpmNgA6aqY2QDpq5jaAOmsmNsA6a2Y3ADprpjdAOmvmN4A6bCY3wDpsZjgAOmymOEA6bOY4gDptJjjAOm1mOQA6baY5QDpt5jmAOm4mOcA6bmY6ADpupjpAOm7mOoA6byY6wDpvZjsAOm+mO0A6b+Y7gDpwJjvAOnBmPAA6cKY8QDpw5jyAOnEmPMA6cWY9ADpxpj1AOnHmPYA6ciY9wDpyZj4AOnKmPkA6cuY+gDpzJj7AOnNmPwA6c6Y/QDpz5j+AOnQmUAA6dGZQQDp0plCAOnTmUMA6dSZRADp1ZlFAOnWmUYA6deZRwDp2JlIAOnZmUkA6dqZSgDp25lLAOncmUwA6d2ZTQDp3plOAOnfmU8A6eCZUADp4ZlRAOnimVIA6eOZUwDp5JlUAOnlmVUA6eaZVgDp55lXAOnomVgA6emZWQDp6plaAOnrmVsA6eyZXADp7ZldAOnumV4A6e+ZXwDp8JlgAOnxmWEA6fKZYgDp85ljAOn0mWQA6fWZZQDp9plmAOn3mWcA6fiZaADp+ZlpAOn6mWoA6fuZawDp/JlsAOn9mW0A6f6ZbgDp/5lvAOoAmXAA6gGZcQDqAplyAOoDmXMA6gSZdADqBZl1AOoGmXYA6geZdwDqCJl4AOoJmXkA6gqZegDqC5l7AOoMmXwA6g2ZfQDqDpl+AOoPmaEA6hCZogDqEZmjAOoSmaQA6hOZpQDqFJmmAOoVmacA6haZqADqF5mpAOoYmaoA6hmZqwDqGpmsAOobma0A6hyZrgDqHZmvAOoembAA6h+ZsQDqIJmyAOohmbMA6iKZtADqI5m1AOokmbYA6iWZtwDqJpm4AOonmbkA6iiZugDqKZm7AOoqmbwA6iuZvQDqLJm+AOotmb8A6i6ZwADqL5nBAOowmcIA6jGZwwDqMpnEAOozmcUA6jSZxgDqNZnHAOo2mcgA6jeZyQDqOJnKAOo5mcsA6jqZzADqO5nNAOo8mc4A6j2ZzwDqPpnQAOo/mdEA6kCZ0gDqQZnTAOpCmdQA6kOZ1QDqRJnWAOpFmdcA6kaZ2ADqR5nZAOpImdoA6kmZ2wDqSpncAOpLmd0A6kyZ3gDqTZnfAOpOmeAA6k+Z4QDqUJniAOpRmeMA6lKZ5ADqU5nlAOpUmeYA6lWZ5wDqVpnoAOpXmekA6liZ6gDqWZnrAOpamewA6luZ7QDqXJnuAOpdme8A6l6Z8ADqX5nxAOpgmfIA6mGZ8wDqYpn0AOpjmfUA6mSZ9gDqZZn3AOpmmfgA6meZ+QDqaJn6AOppmfsA6mqZ/ADqa5n9AOpsmf4A6m2aQADqbppBAOpvmkIA6nCaQwDqcZpEAOpymkUA6nOaRgDqdJpHAOp1mkgA6naaSQDqd5pKAOp4mksA6nmaTADqeppNAOp7mk4A6nyaTwDqfZpQAOp+mlEA6n+aUgDqgJpTAOqBmlQA6oKaVQDqg5pWAOqEmlcA6oWaWADqhppZAOqHmloA6oiaWwDqiZpcAOqKml0A6ouaXgDqjJpfAOqNmmAA6o6aYQDqj5piAOqQmmMA6pGaZADqkpplAOqTmmYA6pSaZwDqlZpoAOqWmmkA6peaagDqmJprAOqZmmwA6pqabQDqm5puAOqcmm8A6p2acADqnppxAOqfmnIA6qCacwDqoZp0AOqimnUA6qOadgDqpJp3AOqlmngA6qaaeQDqp5p6AOqomnsA6qmafADqqpp9AOqrmn4A6qyaoQDqrZqiAOqumqMA6q+apADqsJqlAOqxmqYA6rKapwDqs5qoAOq0mqkA6rWaqgDqtpqrAOq3mqwA6riarQDquZquAOq6mq8A6ruasADqvJqxAOq9mrIA6r6aswDqv5q0AOrAmrUA6sGatgDqwpq3AOrDmrgA6sSauQDqxZq6AOrGmrsA6seavADqyJq9AOrJmr4A6sqavwDqy5rAAOrMmsEA6s2awgDqzprDAOrPmsQA6tCaxQDq0ZrGAOrSmscA6tOayADq1JrJAOrVmsoA6taaywDq15rMAOrYms0A6tmazgDq2prPAOrbmtAA6tya0QDq3ZrSAOremtMA6t+a1ADq4JrVAOrhmtYA6uKa1wDq45rYAOrkmtkA6uWa2gDq5prbAOrnmtwA6uia3QDq6ZreAOrqmt8A6uua4ADq7JrhAOrtmuIA6u6a4wDq75rkAOrwmuUA6vGa5gDq8prnAOrzmugA6vSa6QDq9ZrqAOr2musA6vea7ADq+JrtAOr5mu4A6vqa7wDq+5rwAOr8mvEA6v2a8gDq/przAOr/mvQA6wCa9QDrAZr2AOsCmvcA6wOa+ADrBJr5AOsFmvoA6waa+wDrB5r8AOsImv0A6wma/gDrCptAAOsLm0EA6wybQgDrDZtDAOsOm0QA6w+bRQDrEJtGAOsRm0cA6xKbSADrE5tJAOsUm0oA6xWbSwDrFptMAOsXm00A6xibTgDrGZtPAOsam1AA6xubUQDrHJtSAOsdm1MA6x6bVADrH5tVAOsgm1YA6yGbVwDrIptYAOsjm1kA6ySbWgDrJZtbAOsmm1wA6yebXQDrKJteAOspm18A6yqbYADrK5thAOssm2IA6y2bYwDrLptkAOsvm2UA6zCbZgDrMZtnAOsym2gA6zObaQDrNJtqAOs1m2sA6zabbADrN5ttAOs4m24A6zmbbwDrOptwAOs7m3EA6zybcgDrPZtzAOs+m3QA6z+bdQDrQJt2AOtBm3cA60KbeADrQ5t5AOtEm3oA60WbewDrRpt8AOtHm30A60ibfgDrSZuhAOtKm6IA60ubowDrTJukAOtNm6UA606bpgDrT5unAOtQm6gA61GbqQDrUpuqAOtTm6sA61SbrADrVZutAOtWm64A61ebrwDrWJuwAOtZm7EA61qbsgDrW5uzAOtcm7QA612btQDrXpu2AOtfm7cA62CbuADrYZu5AOtim7oA62ObuwDrZJu8AOtlm70A62abvgDrZ5u/AOtom8AA62mbwQDrapvCAOtrm8MA62ybxADrbZvFAOtum8YA62+bxwDrcJvIAOtxm8kA63KbygDrc5vLAOt0m8wA63WbzQDrdpvOAOt3m88A63ib0ADreZvRAOt6m9IA63ub0wDrfJvUAOt9m9UA636b1gDrf5vXAOuAm9gA64Gb2QDrgpvaAOuDm9sA64Sb3ADrhZvdAOuGm94A64eb3wDriJvgAOuJm+EA64qb4gDri5vjAOuMm+QA642b5QDrjpvmAOuPm+cA65Cb6ADrkZvpAOuSm+oA65Ob6wDrlJvsAOuVm+0A65ab7gDrl5vvAOuYm/AA65mb8QDrmpvyAOubm/MA65yb9ADrnZv1AOuem/YA65+b9wDroJv4AOuhm/kA66Kb+gDro5v7AOukm/wA66Wb/QDrppv+AOunnEAA66icQQDrqZxCAOuqnEMA66ucRADrrJxFAOutnEYA666cRwDrr5xIAOuwnEkA67GcSgDrspxLAOuznEwA67ScTQDrtZxOAOu2nE8A67ecUADruJxRAOu5nFIA67qcUwDru5xUAOu8nFUA672cVgDrvpxXAOu/nFgA68CcWQDrwZxaAOvCnFsA68OcXADrxJxdAOvFnF4A68acXwDrx5xgAOvInGEA68mcYgDrypxjAOvLnGQA68ycZQDrzZxmAOvOnGcA68+caADr0JxpAOvRnGoA69KcawDr05xsAOvUnG0A69WcbgDr1pxvAOvXnHAA69iccQDr2ZxyAOvanHMA69ucdADr3Jx1AOvdnHYA696cdwDr35x4AOvgnHkA6+GcegDr4px7AOvjnHwA6+ScfQDr5Zx+AOvmnKEA6+ecogDr6JyjAOvpnKQA6+qcpQDr65ymAOvsnKcA6+2cqADr7pypAOvvnKoA6/CcqwDr8ZysAOvynK0A6/OcrgDr9JyvAOv1nLAA6/acsQDr95yyAOv4nLMA6/mctADr+py1AOv7nLYA6/yctwDr/Zy4AOv+nLkA6/+cugDsAJy7AOwBnLwA7AKcvQDsA5y+AOwEnL8A7AWcwADsBpzBAOwHnMIA7AicwwDsCZzEAOwKnMUA7AucxgDsDJzHAOwNnMgA7A6cyQDsD5zKAOwQnMsA7BGczADsEpzNAOwTnM4A7BSczwDsFZzQAOwWnNEA7Bec0gDsGJzTAOwZnNQA7Bqc1QDsG5zWAOwcnNcA7B2c2ADsHpzZAOwfnNoA7CCc2wDsIZzcAOwinN0A7COc3gDsJJzfAOwlnOAA7Cac4QDsJ5ziAOwonOMA7Cmc5ADsKpzlAOwrnOYA7Cyc5wDsLZzoAOwunOkA7C+c6gDsMJzrAOwxnOwA7DKc7QDsM5zuAOw0nO8A7DWc8ADsNpzxAOw3nPIA7Dic8wDsOZz0AOw6nPUA7Duc9gDsPJz3AOw9nPgA7D6c+QDsP5z6AOxAnPsA7EGc/ADsQpz9AOxDnP4A7ESdQADsRZ1BAOxGnUIA7EedQwDsSJ1EAOxJnUUA7EqdRgDsS51HAOxMnUgA7E2dSQDsTp1KAOxPnUsA7FCdTADsUZ1NAOxSnU4A7FOdTwDsVJ1QAOxVnVEA7FadUgDsV51TAOxYnVQA7FmdVQDsWp1WAOxbnVcA7FydWADsXZ1ZAOxenVoA7F+dWwDsYJ1cAOxhnV0A7GKdXgDsY51fAOxknWAA7GWdYQDsZp1iAOxnnWMA7GidZADsaZ1lAOxqnWYA7GudZwDsbJ1oAOxtnWkA7G6dagDsb51rAOxwnWwA7HGdbQDscp1uAOxznW8A7HSdcADsdZ1xAOx2nXIA7HedcwDseJ10AOx5nXUA7HqddgDse513AOx8nXgA7H2deQDsfp16AOx/nXsA7ICdfADsgZ19AOyCnX4A7IOdoQDshJ2iAOyFnaMA7IadpADsh52lAOyInaYA7ImdpwDsip2oAOyLnakA7IydqgDsjZ2rAOyOnawA7I+drQDskJ2uAOyRna8A7JKdsADsk52xAOyUnbIA7JWdswDslp20AOyXnbUA7JidtgDsmZ23AOyanbgA7JuduQDsnJ26AOydnbsA7J6dvADsn529AOygnb4A7KGdvwDsop3AAOyjncEA7KSdwgDspZ3DAOymncQA7KedxQDsqJ3GAOypnccA7KqdyADsq53JAOysncoA7K2dywDsrp3MAOyvnc0A7LCdzgDssZ3PAOyyndAA7LOd0QDstJ3SAOy1ndMA7Lad1ADst53VAOy4ndYA7Lmd1wDsup3YAOy7ndkA7Lyd2gDsvZ3bAOy+ndwA7L+d3QDswJ3eAOzBnd8A7MKd4ADsw53hAOzEneIA7MWd4wDsxp3kAOzHneUA7Mid5gDsyZ3nAOzKnegA7Mud6QDszJ3qAOzNnesA7M6d7ADsz53tAOzQne4A7NGd7wDs0p3wAOzTnfEA7NSd8gDs1Z3zAOzWnfQA7Ned9QDs2J32AOzZnfcA7Nqd+ADs2535AOzcnfoA7N2d+wDs3p38AOzfnf0A7OCd/gDs4Z5AAOzinkEA7OOeQgDs5J5DAOzlnkQA7OaeRQDs555GAOzonkcA7OmeSADs6p5JAOzrnkoA7OyeSwDs7Z5MAOzunk0A7O+eTgDs8J5PAOzxnlAA7PKeUQDs855SAOz0nlMA7PWeVADs9p5VAOz3nlYA7PieVwDs+Z5YAOz6nlkA7PueWgDs/J5bAOz9nlwA7P6eXQDs/55eAO0Anl8A7QGeYADtAp5hAO0DnmIA7QSeYwDtBZ5kAO0GnmUA7QeeZgDtCJ5nAO0JnmgA7QqeaQDtC55qAO0MnmsA7Q2ebADtDp5tAO0Pnm4A7RCebwDtEZ5wAO0SnnEA7ROecgDtFJ5zAO0VnnQA7RaedQDtF552AO0YnncA7RmeeADtGp55AO0bnnoA7RyeewDtHZ58AO0enn0A7R+efgDtIJ6hAO0hnqIA7SKeowDtI56kAO0knqUA7SWepgDtJp6nAO0nnqgA7SieqQDtKZ6qAO0qnqsA7SuerADtLJ6tAO0tnq4A7S6erwDtL56wAO0wnrEA7TGesgDtMp6zAO0znrQA7TSetQDtNZ62AO02nrcA7TeeuADtOJ65AO05nroA7TqeuwDtO568AO08nr0A7T2evgDtPp6/AO0/nsAA7UCewQDtQZ7CAO1CnsMA7UOexADtRJ7FAO1FnsYA7UaexwDtR57IAO1InskA7UmeygDtSp7LAO1LnswA7UyezQDtTZ7OAO1Ons8A7U+e0ADtUJ7RAO1RntIA7VKe0wDtU57UAO1UntUA7VWe1gDtVp7XAO1XntgA7Vie2QDtWZ7aAO1antsA7Vue3ADtXJ7dAO1dnt4A7V6e3wDtX57gAO1gnuEA7WGe4gDtYp7jAO1jnuQA7WSe5QDtZZ7mAO1mnucA7Wee6ADtaJ7pAO1pnuoA7Wqe6wDta57sAO1snu0A7W2e7gDtbp7vAO1vnvAA7XCe8QDtcZ7yAO1ynvMA7XOe9ADtdJ71AO11nvYA7Xae9wDtd574AO14nvkA7Xme+gDtep77AO17nvwA7Xye/QDtfZ7+AO1+n0AA7X+fQQDtgJ9CAO2Bn0MA7YKfRADtg59FAO2En0YA7YWfRwDthp9IAO2Hn0kA7YifSgDtiZ9LAO2Kn0wA7YufTQDtjJ9OAO2Nn08A7Y6fUADtj59RAO2Qn1IA7ZGfUwDtkp9UAO2Tn1UA7ZSfVgDtlZ9XAO2Wn1gA7ZefWQDtmJ9aAO2Zn1sA7ZqfXADtm59dAO2cn14A7Z2fXwDtnp9gAO2fn2EA7aCfYgDtoZ9jAO2in2QA7aOfZQDtpJ9mAO2ln2cA7aafaADtp59pAO2on2oA7amfawDtqp9sAO2rn20A7ayfbgDtrZ9vAO2un3AA7a+fcQDtsJ9yAO2xn3MA7bKfdADts591AO20n3YA7bWfdwDttp94AO23n3kA7bifegDtuZ97AO26n3wA7buffQDtvJ9+AO29n6EA7b6fogDtv5+jAO3An6QA7cGfpQDtwp+mAO3Dn6cA7cSfqADtxZ+pAO3Gn6oA7cefqwDtyJ+sAO3Jn60A7cqfrgDty5+vAO3Mn7AA7c2fsQDtzp+yAO3Pn7MA7dCftADt0Z+1AO3Sn7YA7dOftwDt1J+4AO3Vn7kA7dafugDt15+7AO3Yn7wA7dmfvQDt2p++AO3bn78A7dyfwADt3Z/BAO3en8IA7d+fwwDt4J/EAO3hn8UA7eKfxgDt45/HAO3kn8gA7eWfyQDt5p/KAO3nn8sA7eifzADt6Z/NAO3qn84A7eufzwDt7J/QAO3tn9EA7e6f0gDt75/TAO3wn9QA7fGf1QDt8p/WAO3zn9cA7fSf2ADt9Z/ZAO32n9oA7fef2wDt+J/cAO35n90A7fqf3gDt+5/fAO38n+AA7f2f4QDt/p/iAO3/n+MA7gCf5ADuAZ/lAO4Cn+YA7gOf5wDuBJ/oAO4Fn+kA7gaf6gDuB5/rAO4In+wA7gmf7QDuCp/uAO4Ln+8A7gyf8ADuDZ/xAO4On/IA7g+f8wDuEJ/0AO4Rn/UA7hKf9gDuE5/3AO4Un/gA7hWf+QDuFp/6AO4Xn/sA7hif/ADuGZ/9AO4an/4A7hugQADuHKBBAO4doEIA7h6gQwDuH6BEAO4goEUA7iGgRgDuIqBHAO4joEgA7iSgSQDuJaBKAO4moEsA7iegTADuKKBNAO4poE4A7iqgTwDuK6BQAO4soFEA7i2gUgDuLqBTAO4voFQA7jCgVQDuMaBWAO4yoFcA7jOgWADuNKBZAO41oFoA7jagWwDuN6BcAO44oF0A7jmgXgDuOqBfAO47oGAA7jygYQDuPaBiAO4+oGMA7j+gZADuQKBlAO5BoGYA7kKgZwDuQ6BoAO5EoGkA7kWgagDuRqBrAO5HoGwA7kigbQDuSaBuAO5KoG8A7kugcADuTKBxAO5NoHIA7k6gcwDuT6B0AO5QoHUA7lGgdgDuUqB3AO5ToHgA7lSgeQDuVaB6AO5WoHsA7legfADuWKB9AO5ZoH4A7lqgoQDuW6CiAO5coKMA7l2gpADuXqClAO5foKYA7mCgpwDuYaCoAO5ioKkA7mOgqgDuZKCrAO5loKwA7magrQDuZ6CuAO5ooK8A7mmgsADuaqCxAO5roLIA7mygswDubaC0AO5uoLUA7m+gtgDucKC3AO5xoLgA7nKguQDuc6C6AO50oLsA7nWgvADudqC9AO53oL4A7nigvwDueaDAAO56oMEA7nugwgDufKDDAO59oMQA7n6gxQDuf6DGAO6AoMcA7oGgyADugqDJAO6DoMoA7oSgywDuhaDMAO6GoM0A7oegzgDuiKDPAO6JoNAA7oqg0QDui6DSAO6MoNMA7o2g1ADujqDVAO6PoNYA7pCg1wDukaDYAO6SoNkA7pOg2gDulKDbAO6VoNwA7pag3QDul6DeAO6YoN8A7pmg4ADumqDhAO6boOIA7pyg4wDunaDkAO6eoOUA7p+g5gDuoKDnAO6hoOgA7qKg6QDuo6DqAO6koOsA7qWg7ADupqDtAO6noO4A7qig7wDuqaDwAO6qoPEA7qug8gDurKDzAO6toPQA7q6g9QDur6D2AO6woPcA7rGg+ADusqD5AO6zoPoA7rSg+wDutaD8AO62oP0A7reg/gDuuIFAAO65gUEA7rqBQgDuu4FDAO68gUQA7r2BRQDuvoFGAO6/gUcA7sCBSADuwYFJAO7CgUoA7sOBSwDuxIFMAO7FgU0A7saBTgDux4FPAO7IgVAA7smBUQDuyoFSAO7LgVMA7syBVADuzYFVAO7OgVYA7s+BVwDu0IFYAO7RgVkA7tKBWgDu04FbAO7UgVwA7tWBXQDu1oFeAO7XgV8A7tiBYADu2YFhAO7agWIA7tuBYwDu3IFkAO7dgWUA7t6BZgDu34FnAO7ggWgA7uGBaQDu4oFqAO7jgWsA7uSBbADu5YFtAO7mgW4A7ueBbwDu6IFwAO7pgXEA7uqBcgDu64FzAO7sgXQA7u2BdQDu7oF2AO7vgXcA7vCBeADu8YF5AO7ygXoA7vOBewDu9IF8AO71gX0A7vaBfgDu94GhAO74gaIA7vmBowDu+oGkAO77gaUA7vyBpgDu/YGnAO7+gagA7v+BqQDvAIGqAO8BgasA7wKBrADvA4GtAO8Ega4A7wWBrwDvBoGwAO8HgbEA7wiBsgDvCYGzAO8KgbQA7wuBtQDvDIG2AO8NgbcA7w6BuADvD4G5AO8QgboA7xGBuwDvEoG8AO8Tgb0A7xSBvgDvFYG/AO8WgcAA7xeBwQDvGIHCAO8ZgcMA7xqBxADvG4HFAO8cgcYA7x2BxwDvHoHIAO8fgckA7yCBygDvIYHLAO8igcwA7yOBzQDvJIHOAO8lgc8A7yaB0ADvJ4HRAO8ogdIA7ymB0wDvKoHUAO8rgdUA7yyB1gDvLYHXAO8ugdgA7y+B2QDvMIHaAO8xgdsA7zKB3ADvM4HdAO80gd4A7zWB3wDvNoHgAO83geEA7ziB4gDvOYHjAO86geQA7zuB5QDvPIHmAO89gecA7z6B6ADvP4HpAO9AgeoA70GB6wDvQoHsAO9Dge0A70SB7gDvRYHvAO9GgfAA70eB8QDvSIHyAO9JgfMA70qB9ADvS4H1AO9MgfYA702B9wDvToH4AO9PgfkA71CB+gDvUYH7AO9SgfwA71OB/QDvVIH+AO9VgkAA71aCQQDvV4JCAO9YgkMA71mCRADvWoJFAO9bgkYA71yCRwDvXYJIAO9egkkA71+CSgDvYIJLAO9hgkwA72KCTQDvY4JOAO9kgk8A72WCUADvZoJRAO9nglIA72iCUwDvaYJUAO9qglUA72uCVgDvbIJXAO9tglgA726CWQDvb4JaAO9wglsA73GCXADvcoJdAO9zgl4A73SCXwDvdYJgAO92gmEA73eCYgDveIJjAO95gmQA73qCZQDve4JmAO98gmcA732CaADvfoJpAO9/gmoA74CCawDvgYJsAO+Cgm0A74OCbgDvhIJvAO+FgnAA74aCcQDvh4JyAO+IgnMA74mCdADvioJ1AO+LgnYA74yCdwDvjYJ4AO+OgnkA74+CegDvkIJ7AO+RgnwA75KCfQDvk4J+AO+UgqEA75WCogDvloKjAO+XgqQA75iCpQDvmYKmAO+agqcA75uCqADvnIKpAO+dgqoA756CqwDvn4KsAO+ggq0A76GCrgDvooKvAO+jgrAA76SCsQDvpYKyAO+mgrMA76eCtADvqIK1AO+pgrYA76qCtwDvq4K4AO+sgrkA762CugDvroK7AO+vgrwA77CCvQDvsYK+AO+ygr8A77OCwADvtILBAO+1gsIA77aCwwDvt4LEAO+4gsUA77mCxgDvuoLHAO+7gsgA77yCyQDvvYLKAO++gssA77+CzADvwILNAO/Bgs4A78KCzwDvw4LQAO/EgtEA78WC0gDvxoLTAO/HgtQA78iC1QDvyYLWAO/KgtcA78uC2ADvzILZAO/NgtoA786C2wDvz4LcAO/Qgt0A79GC3gDv0oLfAO/TguAA79SC4QDv1YLiAO/WguMA79eC5ADv2ILlAO/ZguYA79qC5wDv24LoAO/cgukA792C6gDv3oLrAO/fguwA7+CC7QDv4YLuAO/igu8A7+OC8ADv5ILxAO/lgvIA7+aC8wDv54L0AO/ogvUA7+mC9gDv6oL3AO/rgvgA7+yC+QDv7YL6AO/ugvsA7++C/ADv8IL9AO/xgv4A7/KDQADv84NBAO/0g0IA7/WDQwDv9oNEAO/3g0UA7/iDRgDv+YNHAO/6g0gA7/uDSQDv/INKAO/9g0sA7/6DTADv/4NNAPAAg04A8AGDTwDwAoNQAPADg1EA8ASDUgDwBYNTAPAGg1QA8AeDVQDwCINWAPAJg1cA8AqDWADwC4NZAPAMg1oA8A2DWwDwDoNcAPAPg10A8BCDXgDwEYNfAPASg2AA8BODYQDwFINiAPAVg2MA8BaDZADwF4NlAPAYg2YA8BmDZwDwGoNoAPAbg2kA8ByDagDwHYNrAPAeg2wA8B+DbQDwIINuAPAhg28A8CKDcADwI4NxAPAkg3IA8CWDcwDwJoN0APAng3UA8CiDdgDwKYN3APAqg3gA8CuDeQDwLIN6APAtg3sA8C6DfADwL4N9APAwg34A8DGDoQDwMoOiAPAzg6MA8DSDpADwNYOlAPA2g6YA8DeDpwDwOIOoAPA5g6kA8DqDqgDwO4OrAPA8g6wA8D2DrQDwPoOuAPA/g68A8ECDsADwQYOxAPBCg7IA8EODswDwRIO0APBFg7UA8EaDtgDwR4O3APBIg7gA8EmDuQDwSoO6APBLg7sA8EyDvADwTYO9APBOg74A8E+DvwDwUIPAAPBRg8EA8FKDwgDwU4PDAPBUg8QA8FWDxQDwVoPGAPBXg8cA8FiDyADwWYPJAPBag8oA8FuDywDwXIPMAPBdg80A8F6DzgDwX4PPAPBgg9AA8GGD0QDwYoPSAPBjg9MA8GSD1ADwZYPVAPBmg9YA8GeD1wDwaIPYAPBpg9kA8GqD2gDwa4PbAPBsg9wA8G2D3QDwboPeAPBvg98A8HCD4ADwcYPhAPByg+IA8HOD4wDwdIPkAPB1g+UA8HaD5gDwd4PnAPB4g+gA8HmD6QDweoPqAPB7g+sA8HyD7ADwfYPtAPB+g+4A8H+D7wDwgIPwAPCBg/EA8IKD8gDwg4PzAPCEg/QA8IWD9QDwhoP2APCHg/cA8IiD+ADwiYP5APCKg/oA8IuD+wDwjIP8APCNg/0A8I6D/gDwj4RAAPCQhEEA8JGEQgDwkoRDAPCThEQA8JSERQDwlYRGAPCWhEcA8JeESADwmIRJAPCZhEoA8JqESwDwm4RMAPCchE0A8J2ETgDwnoRPAPCfhFAA8KCEUQDwoYRSAPCihFMA8KOEVADwpIRVAPClhFYA8KaEVwDwp4RYAPCohFkA8KmEWgDwqoRbAPCrhFwA8KyEXQDwrYReAPCuhF8A8K+EYADwsIRhAPCxhGIA8LKEYwDws4RkAPC0hGUA8LWEZgDwtoRnAPC3hGgA8LiEaQDwuYRqAPC6hGsA8LuEbADwvIRtAPC9hG4A8L6EbwDwv4RwAPDAhHEA8MGEcgDwwoRzAPDDhHQA8MSEdQDwxYR2APDGhHcA8MeEeADwyIR5APDJhHoA8MqEewDwy4R8APDMhH0A8M2EfgDwzoShAPDPhKIA8NCEowDw0YSkAPDShKUA8NOEpgDw1ISnAPDVhKgA8NaEqQDw14SqAPDYhKsA8NmErADw2oStAPDbhK4A8NyErwDw3YSwAPDehLEA8N+EsgDw4ISzAPDhhLQA8OKEtQDw44S2APDkhLcA8OWEuADw5oS5APDnhLoA8OiEuwDw6YS8APDqhL0A8OuEvgDw7IS/APDthMAA8O6EwQDw74TCAPDwhMMA8PGExADw8oTFAPDzhMYA8PSExwDw9YTIAPD2hMkA8PeEygDw+ITLAPD5hMwA8PqEzQDw+4TOAPD8hM8A8P2E0ADw/oTRAPD/hNIA8QCE0wDxAYTUAPEChNUA8QOE1gDxBITXAPEFhNgA8QaE2QDxB4TaAPEIhNsA8QmE3ADxCoTdAPELhN4A8QyE3wDxDYTgAPEOhOEA8Q+E4gDxEITjAPERhOQA8RKE5QDxE4TmAPEUhOcA8RWE6ADxFoTpAPEXhOoA8RiE6wDxGYTsAPEahO0A8RuE7gDxHITvAPEdhPAA8R6E8QDxH4TyAPEghPMA8SGE9ADxIoT1APEjhPYA8SSE9wDxJYT4APEmhPkA8SeE+gDxKIT7APEphPwA8SqE/QDxK4T+APEshUAA8S2FQQDxLoVCAPEvhUMA8TCFRADxMYVFAPEyhUYA8TOFRwDxNIVIAPE1hUkA8TaFSgDxN4VLAPE4hUwA8TmFTQDxOoVOAPE7hU8A8TyFUADxPYVRAPE+hVIA8T+FUwDxQIVUAPFBhVUA8UKFVgDxQ4VXAPFEhVgA8UWFWQDxRoVaAPFHhVsA8UiFXADxSYVdAPFKhV4A8UuFXwDxTIVgAPFNhWEA8U6FYgDxT4VjAPFQhWQA8VGFZQDxUoVmAPFThWcA8VSFaADxVYVpAPFWhWoA8VeFawDxWIVsAPFZhW0A8VqFbgDxW4VvAPFchXAA8V2FcQDxXoVyAPFfhXMA8WCFdADxYYV1APFihXYA8WOFdwDxZIV4APFlhXkA8WaFegDxZ4V7APFohXwA8WmFfQDxaoV+APFrhaEA8WyFogDxbYWjAPFuhaQA8W+FpQDxcIWmAPFxhacA8XKFqADxc4WpAPF0haoA8XWFqwDxdoWsAPF3ha0A8XiFrgDxeYWvAPF6hbAA8XuFsQDxfIWyAPF9hbMA8X6FtADxf4W1APGAhbYA8YGFtwDxgoW4APGDhbkA8YSFugDxhYW7APGGhbwA8YeFvQDxiIW+APGJhb8A8YqFwADxi4XBAPGMhcIA8Y2FwwDxjoXEAPGPhcUA8ZCFxgDxkYXHAPGShcgA8ZOFyQDxlIXKAPGVhcsA8ZaFzADxl4XNAPGYhc4A8ZmFzwDxmoXQAPGbhdEA8ZyF0gDxnYXTAPGehdQA8Z+F1QDxoIXWAPGhhdcA8aKF2ADxo4XZAPGkhdoA8aWF2wDxpoXcAPGnhd0A8aiF3gDxqYXfAPGqheAA8auF4QDxrIXiAPGtheMA8a6F5ADxr4XlAPGwheYA8bGF5wDxsoXoAPGzhekA8bSF6gDxtYXrAPG2hewA8beF7QDxuIXuAPG5he8A8bqF8ADxu4XxAPG8hfIA8b2F8wDxvoX0APG/hfUA8cCF9gDxwYX3APHChfgA8cOF+QDxxIX6APHFhfsA8caF/ADxx4X9APHIhf4A8cmGQADxyoZBAPHLhkIA8cyGQwDxzYZEAPHOhkUA8c+GRgDx0IZHAPHRhkgA8dKGSQDx04ZKAPHUhksA8dWGTADx1oZNAPHXhk4A8diGTwDx2YZQAPHahlEA8duGUgDx3IZTAPHdhlQA8d6GVQDx34ZWAPHghlcA8eGGWADx4oZZAPHjhloA8eSGWwDx5YZcAPHmhl0A8eeGXgDx6IZfAPHphmAA8eqGYQDx64ZiAPHshmMA8e2GZADx7oZlAPHvhmYA8fCGZwDx8YZoAPHyhmkA8fOGagDx9IZrAPH1hmwA8faGbQDx94ZuAPH4hm8A8fmGcADx+oZxAPH7hnIA8fyGcwDx/YZ0APH+hnUA8f+GdgDyAIZ3APIBhngA8gKGeQDyA4Z6APIEhnsA8gWGfADyBoZ9APIHhn4A8giGoQDyCYaiAPIKhqMA8guGpADyDIalAPINhqYA8g6GpwDyD4aoAPIQhqkA8hGGqgDyEoarAPIThqwA8hSGrQDyFYauAPIWhq8A8heGsADyGIaxAPIZhrIA8hqGswDyG4a0APIchrUA8h2GtgDyHoa3APIfhrgA8iCGuQDyIYa6APIihrsA8iOGvADyJIa9APIlhr4A8iaGvwDyJ4bAAPIohsEA8imGwgDyKobDAPIrhsQA8iyGxQDyLYbGAPIuhscA8i+GyADyMIbJAPIxhsoA8jKGywDyM4bMAPI0hs0A8jWGzgDyNobPAPI3htAA8jiG0QDyOYbSAPI6htMA8juG1ADyPIbVAPI9htYA8j6G1wDyP4bYAPJAhtkA8kGG2gDyQobbAPJDhtwA8kSG3QDyRYbeAPJGht8A8keG4ADySIbhAPJJhuIA8kqG4wDyS4bkAPJMhuUA8k2G5gDyTobnAPJPhugA8lCG6QDyUYbqAPJShusA8lOG7ADyVIbtAPJVhu4A8laG7wDyV4bwAPJYhvEA8lmG8gDyWobzAPJbhvQA8lyG9QDyXYb2APJehvcA8l+G+ADyYIb5APJhhvoA8mKG+wDyY4b8APJkhv0A8mWG/gDyZodAAPJnh0EA8miHQgDyaYdDAPJqh0QA8muHRQDybIdGAPJth0cA8m6HSADyb4dJAPJwh0oA8nGHSwDycodMAPJzh00A8nSHTgDydYdPAPJ2h1AA8neHUQDyeIdSAPJ5h1MA8nqHVADye4dVAPJ8h1YA8n2HVwDyfodYAPJ/h1kA8oCHWgDygYdbAPKCh1wA8oOHXQDyhIdeAPKFh18A8oaHYADyh4dhAPKIh2IA8omHYwDyiodkAPKLh2UA8oyHZgDyjYdnAPKOh2gA8o+HaQDykIdqAPKRh2sA8pKHbADyk4dtAPKUh24A8pWHbwDylodwAPKXh3EA8piHcgDymYdzAPKah3QA8puHdQDynId2APKdh3cA8p6HeADyn4d5APKgh3oA8qGHewDyood8APKjh30A8qSHfgDypYehAPKmh6IA8qeHowDyqIekAPKph6UA8qqHpgDyq4enAPKsh6gA8q2HqQDyroeqAPKvh6sA8rCHrADysYetAPKyh64A8rOHrwDytIewAPK1h7EA8raHsgDyt4ezAPK4h7QA8rmHtQDyuoe2APK7h7cA8ryHuADyvYe5APK+h7oA8r+HuwDywIe8APLBh70A8sKHvgDyw4e/APLEh8AA8sWHwQDyxofCAPLHh8MA8siHxADyyYfFAPLKh8YA8suHxwDyzIfIAPLNh8kA8s6HygDyz4fLAPLQh8wA8tGHzQDy0ofOAPLTh88A8tSH0ADy1YfRAPLWh9IA8teH0wDy2IfUAPLZh9UA8tqH1gDy24fXAPLch9gA8t2H2QDy3ofaAPLfh9sA8uCH3ADy4YfdAPLih94A8uOH3wDy5IfgAPLlh+EA8uaH4gDy54fjAPLoh+QA8umH5QDy6ofmAPLrh+cA8uyH6ADy7YfpAPLuh+oA8u+H6wDy8IfsAPLxh+0A8vKH7gDy84fvAPL0h/AA8vWH8QDy9ofyAPL3h/MA8viH9ADy+Yf1APL6h/YA8vuH9wDy/If4APL9h/kA8v6H+gDy/4f7APMAh/wA8wGH/QDzAof+APMDiEAA8wSIQQDzBYhCAPMGiEMA8weIRADzCIhFAPMJiEYA8wqIRwDzC4hIAPMMiEkA8w2ISgDzDohLAPMPiEwA8xCITQDzEYhOAPMSiE8A8xOIUADzFIhRAPMViFIA8xaIUwDzF4hUAPMYiFUA8xmIVgDzGohXAPMbiFgA8xyIWQDzHYhaAPMeiFsA8x+IXADzIIhdAPMhiF4A8yKIXwDzI4hgAPMkiGEA8yWIYgDzJohjAPMniGQA8yiIZQDzKYhmAPMqiGcA8yuIaADzLIhpAPMtiGoA8y6IawDzL4hsAPMwiG0A8zGIbgDzMohvAPMziHAA8zSIcQDzNYhyAPM2iHMA8zeIdADzOIh1APM5iHYA8zqIdwDzO4h4APM8iHkA8z2IegDzPoh7APM/iHwA80CIfQDzQYh+APNCiKEA80OIogDzRIijAPNFiKQA80aIpQDzR4imAPNIiKcA80mIqADzSoipAPNLiKoA80yIqwDzTYisAPNOiK0A80+IrgDzUIivAPNRiLAA81KIsQDzU4iyAPNUiLMA81WItADzVoi1APNXiLYA81iItwDzWYi4APNaiLkA81uIugDzXIi7APNdiLwA816IvQDzX4i+APNgiL8A82GIwADzYojBAPNjiMIA82SIwwDzZYjEAPNmiMUA82eIxgDzaIjHAPNpiMgA82qIyQDza4jKAPNsiMsA822IzADzbojNAPNviM4A83CIzwDzcYjQAPNyiNEA83OI0gDzdIjTAPN1iNQA83aI1QDzd4jWAPN4iNcA83mI2ADzeojZAPN7iNoA83yI2wDzfYjcAPN+iN0A83+I3gDzgIjfAPOBiOAA84KI4QDzg4jiAPOEiOMA84WI5ADzhojlAPOHiOYA84iI5wDziYjoAPOKiOkA84uI6gDzjIjrAPONiOwA846I7QDzj4juAPOQiO8A85GI8ADzkojxAPOTiPIA85SI8wDzlYj0APOWiPUA85eI9gDzmIj3APOZiPgA85qI+QDzm4j6APOciPsA852I/ADznoj9APOfiP4A86CJQADzoYlBAPOiiUIA86OJQwDzpIlEAPOliUUA86aJRgDzp4lHAPOoiUgA86mJSQDzqolKAPOriUsA86yJTADzrYlNAPOuiU4A86+JTwDzsIlQAPOxiVEA87KJUgDzs4lTAPO0iVQA87WJVQDztolWAPO3iVcA87iJWADzuYlZAPO6iVoA87uJWwDzvIlcAPO9iV0A876JXgDzv4lfAPPAiWAA88GJYQDzwoliAPPDiWMA88SJZADzxYllAPPGiWYA88eJZwDzyIloAPPJiWkA88qJagDzy4lrAPPMiWwA882JbQDzzoluAPPPiW8A89CJcADz0YlxAPPSiXIA89OJcwDz1Il0APPViXUA89aJdgDz14l3APPYiXgA89mJeQDz2ol6APPbiXsA89yJfADz3Yl9APPeiX4A89+JoQDz4ImiAPPhiaMA8+KJpADz44mlAPPkiaYA8+WJpwDz5omoAPPniakA8+iJqgDz6YmrAPPqiawA8+uJrQDz7ImuAPPtia8A8+6JsADz74mxAPPwibIA8/GJswDz8om0APPzibUA8/SJtgDz9Ym3APP2ibgA8/eJuQDz+Im6APP5ibsA8/qJvADz+4m9APP8ib4A8/2JvwDz/onAAPP/icEA9ACJwgD0AYnDAPQCicQA9AOJxQD0BInGAPQFiccA9AaJyAD0B4nJAPQIicoA9AmJywD0ConMAPQLic0A9AyJzgD0DYnPAPQOidAA9A+J0QD0EInSAPQRidMA9BKJ1AD0E4nVAPQUidYA9BWJ1wD0FonYAPQXidkA9BiJ2gD0GYnbAPQaidwA9BuJ3QD0HIneAPQdid8A9B6J4AD0H4nhAPQgieIA9CGJ4wD0IonkAPQjieUA9CSJ5gD0JYnnAPQmiegA9CeJ6QD0KInqAPQpiesA9CqJ7AD0K4ntAPQsie4A9C2J7wD0LonwAPQvifEA9DCJ8gD0MYnzAPQyifQA9DOJ9QD0NIn2APQ1ifcA9DaJ+AD0N4n5APQ4ifoA9DmJ+wD0Oon8APQ7if0A9DyJ/gD0PYpAAPQ+ikEA9D+KQgD0QIpDAPRBikQA9EKKRQD0Q4pGAPREikcA9EWKSAD0RopJAPRHikoA9EiKSwD0SYpMAPRKik0A9EuKTgD0TIpPAPRNilAA9E6KUQD0T4pSAPRQilMA9FGKVAD0UopVAPRTilYA9FSKVwD0VYpYAPRWilkA9FeKWgD0WIpbAPRZilwA9FqKXQD0W4peAPRcil8A9F2KYAD0XophAPRfimIA9GCKYwD0YYpkAPRiimUA9GOKZgD0ZIpnAPRlimgA9GaKaQD0Z4pqAPRoimsA9GmKbAD0aoptAPRrim4A9GyKbwD0bYpwAPRuinEA9G+KcgD0cIpzAPRxinQA9HKKdQD0c4p2APR0incA9HWKeAD0dop5APR3inoA9HiKewD0eYp8APR6in0A9HuKfgD0fIqhAPR9iqIA9H6KowD0f4qkAPSAiqUA9IGKpgD0goqnAPSDiqgA9ISKqQD0hYqqAPSGiqsA9IeKrAD0iIqtAPSJiq4A9IqKrwD0i4qwAPSMirEA9I2KsgD0joqzAPSPirQA9JCKtQD0kYq2APSSircA9JOKuAD0lIq5APSViroA9JaKuwD0l4q8APSYir0A9JmKvgD0moq/APSbisAA9JyKwQD0nYrCAPSeisMA9J+KxAD0oIrFAPShisYA9KKKxwD0o4rIAPSkiskA9KWKygD0porLAPSniswA9KiKzQD0qYrOAPSqis8A9KuK0AD0rIrRAPStitIA9K6K0wD0r4rUAPSwitUA9LGK1gD0sorXAPSzitgA9LSK2QD0tYraAPS2itsA9LeK3AD0uIrdAPS5it4A9LqK3wD0u4rgAPS8iuEA9L2K4gD0vorjAPS/iuQA9MCK5QD0wYrmAPTCiucA9MOK6AD0xIrpAPTFiuoA9MaK6wD0x4rsAPTIiu0A9MmK7gD0yorvAPTLivAA9MyK8QD0zYryAPTOivMA9M+K9AD00Ir1APTRivYA9NKK9wD004r4APTUivkA9NWK+gD01or7APTXivwA9NiK/QD02Yr+APTai0AA9NuLQQD03ItCAPTdi0MA9N6LRAD034tFAPTgi0YA9OGLRwD04otIAPTji0kA9OSLSgD05YtLAPTmi0wA9OeLTQD06ItOAPTpi08A9OqLUAD064tRAPTsi1IA9O2LUwD07otUAPTvi1UA9PCLVgD08YtXAPTyi1gA9POLWQD09ItaAPT1i1sA9PaLXAD094tdAPT4i14A9PmLXwD0+otgAPT7i2EA9PyLYgD0/YtjAPT+i2QA9P+LZQD1AItmAPUBi2cA9QKLaAD1A4tpAPUEi2oA9QWLawD1BotsAPUHi20A9QiLbgD1CYtvAPUKi3AA9QuLcQD1DItyAPUNi3MA9Q6LdAD1D4t1APUQi3YA9RGLdwD1Eot4APUTi3kA9RSLegD1FYt7APUWi3wA9ReLfQD1GIt+APUZi6EA9RqLogD1G4ujAPUci6QA9R2LpQD1HoumAPUfi6cA9SCLqAD1IYupAPUii6oA9SOLqwD1JIusAPUli60A9SaLrgD1J4uvAPUoi7AA9SmLsQD1KouyAPUri7MA9SyLtAD1LYu1APUui7YA9S+LtwD1MIu4APUxi7kA9TKLugD1M4u7APU0i7wA9TWLvQD1Nou+APU3i78A9TiLwAD1OYvBAPU6i8IA9TuLwwD1PIvEAPU9i8UA9T6LxgD1P4vHAPVAi8gA9UGLyQD1QovKAPVDi8sA9USLzAD1RYvNAPVGi84A9UeLzwD1SIvQAPVJi9EA9UqL0gD1S4vTAPVMi9QA9U2L1QD1TovWAPVPi9cA9VCL2AD1UYvZAPVSi9oA9VOL2wD1VIvcAPVVi90A9VaL3gD1V4vfAPVYi+AA9VmL4QD1WoviAPVbi+MA9VyL5AD1XYvlAPVei+YA9V+L5wD1YIvoAPVhi+kA9WKL6gD1Y4vrAPVki+wA9WWL7QD1ZovuAPVni+8A9WiL8AD1aYvxAPVqi/IA9WuL8wD1bIv0APVti/UA9W6L9gD1b4v3APVwi/gA9XGL+QD1cov6APVzi/sA9XSL/AD1dYv9APV2i/4A9XeMQAD1eIxBAPV5jEIA9XqMQwD1e4xEAPV8jEUA9X2MRgD1foxHAPV/jEgA9YCMSQD1gYxKAPWCjEsA9YOMTAD1hIxNAPWFjE4A9YaMTwD1h4xQAPWIjFEA9YmMUgD1ioxTAPWLjFQA9YyMVQD1jYxWAPWOjFcA9Y+MWAD1kIxZAPWRjFoA9ZKMWwD1k4xcAPWUjF0A9ZWMXgD1loxfAPWXjGAA9ZiMYQD1mYxiAPWajGMA9ZuMZAD1nIxlAPWdjGYA9Z6MZwD1n4xoAPWgjGkA9aGMagD1ooxrAPWjjGwA9aSMbQD1pYxuAPWmjG8A9aeMcAD1qIxxAPWpjHIA9aqMcwD1q4x0APWsjHUA9a2MdgD1rox3APWvjHgA9bCMeQD1sYx6APWyjHsA9bOMfAD1tIx9APW1jH4A9baMoQD1t4yiAPW4jKMA9bmMpAD1uoylAPW7jKYA9byMpwD1vYyoAPW+jKkA9b+MqgD1wIyrAPXBjKwA9cKMrQD1w4yuAPXEjK8A9cWMsAD1xoyxAPXHjLIA9ciMswD1yYy0APXKjLUA9cuMtgD1zIy3APXNjLgA9c6MuQD1z4y6APXQjLsA9dGMvAD10oy9APXTjL4A9dSMvwD11YzAAPXWjMEA9deMwgD12IzDAPXZjMQA9dqMxQD124zGAPXcjMcA9d2MyAD13ozJAPXfjMoA9eCMywD14YzMAPXijM0A9eOMzgD15IzPAPXljNAA9eaM0QD154zSAPXojNMA9emM1AD16ozVAPXrjNYA9eyM1wD17YzYAPXujNkA9e+M2gD18IzbAPXxjNwA9fKM3QD184zeAPX0jN8A9fWM4AD19ozhAPX3jOIA9fiM4wD1+YzkAPX6jOUA9fuM5gD1/IznAPX9jOgA9f6M6QD1/4zqAPYAjOsA9gGM7AD2AoztAPYDjO4A9gSM7wD2BYzwAPYGjPEA9geM8gD2CIzzAPYJjPQA9gqM9QD2C4z2APYMjPcA9g2M+AD2Doz5APYPjPoA9hCM+wD2EYz8APYSjP0A9hOM/gD2FI1AAPYVjUEA9haNQgD2F41DAPYYjUQA9hmNRQD2Go1GAPYbjUcA9hyNSAD2HY1JAPYejUoA9h+NSwD2II1MAPYhjU0A9iKNTgD2I41PAPYkjVAA9iWNUQD2Jo1SAPYnjVMA9iiNVAD2KY1VAPYqjVYA9iuNVwD2LI1YAPYtjVkA9i6NWgD2L41bAPYwjVwA9jGNXQD2Mo1eAPYzjV8A9jSNYAD2NY1hAPY2jWIA9jeNYwD2OI1kAPY5jWUA9jqNZgD2O41nAPY8jWgA9j2NaQD2Po1qAPY/jWsA9kCNbAD2QY1tAPZCjW4A9kONbwD2RI1wAPZFjXEA9kaNcgD2R41zAPZIjXQA9kmNdQD2So12APZLjXcA9kyNeAD2TY15APZOjXoA9k+NewD2UI18APZRjX0A9lKNfgD2U42hAPZUjaIA9lWNowD2Vo2kAPZXjaUA9liNpgD2WY2nAPZajagA9luNqQD2XI2qAPZdjasA9l6NrAD2X42tAPZgja4A9mGNrwD2Yo2wAPZjjbEA9mSNsgD2ZY2zAPZmjbQA9meNtQD2aI22APZpjbcA9mqNuAD2a425APZsjboA9m2NuwD2bo28APZvjb0A9nCNvgD2cY2/APZyjcAA9nONwQD2dI3CAPZ1jcMA9naNxAD2d43FAPZ4jcYA9nmNxwD2eo3IAPZ7jckA9nyNygD2fY3LAPZ+jcwA9n+NzQD2gI3OAPaBjc8A9oKN0AD2g43RAPaEjdIA9oWN0wD2ho3UAPaHjdUA9oiN1gD2iY3XAPaKjdgA9ouN2QD2jI3aAPaNjdsA9o6N3AD2j43dAPaQjd4A9pGN3wD2ko3gAPaTjeEA9pSN4gD2lY3jAPaWjeQA9peN5QD2mI3mAPaZjecA9pqN6AD2m43pAPacjeoA9p2N6wD2no3sAPafje0A9qCN7gD2oY3vAPaijfAA9qON8QD2pI3yAPaljfMA9qaN9AD2p431APaojfYA9qmN9wD2qo34AParjfkA9qyN+gD2rY37APaujfwA9q+N/QD2sI3+APaxxqEA9rLGogD2s8ajAPa0xqQA9rXGpQD2tsamAPa3xqcA9rjGqAD2ucapAPa6xqoA9rvGqwD2vMasAPa9xq0A9r7GrgD2v8avAPbAxrAA9sHGsQD2wsayAPbDxrMA9sTGtAD2xca1APbGxrYA9sfGtwD2yMa4APbJxrkA9srGugD2y8a7APbMxrwA9s3GvQD2zsa+APbPxr8A9tDGwAD20cbBAPbSxsIA9tPGwwD21MbEAPbVxsUA9tbGxgD218bHAPbYxsgA9tnGyQD22sbKAPbbxssA9tzGzAD23cbNAPbexs4A9t/GzwD24MbQAPbhxtEA9uLG0gD248bTAPbkxtQA9uXG1QD25sbWAPbnxtcA9ujG2AD26cbZAPbqxtoA9uvG2wD27MbcAPbtxt0A9u7G3gD278bfAPbwxuAA9vHG4QD28sbiAPbzxuMA9vTG5AD29cblAPb2xuYA9vfG5wD2+MboAPb5xukA9vrG6gD2+8brAPb8xuwA9v3G7QD2/sbuAPb/xu8A9wDG8AD3AcbxAPcCxvIA9wPG8wD3BMb0APcFxvUA9wbG9gD3B8b3APcIxvgA9wnG+QD3Csb6APcLxvsA9wzG/AD3Dcb9APcOxv4A9w/HQAD3EMdBAPcRx0IA9xLHQwD3E8dEAPcUx0UA9xXHRgD3FsdHAPcXx0gA9xjHSQD3GcdKAPcax0sA9xvHTAD3HMdNAPcdx04A9x7HTwD3H8dQAPcgx1EA9yHHUgD3IsdTAPcjx1QA9yTHVQD3JcdWAPcmx1cA9yfHWAD3KMdZAPcpx1oA9yrHWwD3K8dcAPcsx10A9y3HXgD3LsdfAPcvx2AA9zDHYQD3McdiAPcyx2MA9zPHZAD3NMdlAPc1x2YA9zbHZwD3N8doAPc4x2kA9znHagD3OsdrAPc7x2wA9zzHbQD3PcduAPc+x28A9z/HcAD3QMdxAPdBx3IA90LHcwD3Q8d0APdEx3UA90XHdgD3Rsd3APdHx3gA90jHeQD3Scd6APdKx3sA90vHfAD3TMd9APdNx34A907HoQD3T8eiAPdQx6MA91HHpAD3UselAPdTx6YA91THpwD3VceoAPdWx6kA91fHqgD3WMerAPdZx6wA91rHrQD3W8euAPdcx68A913HsAD3XsexAPdfx7IA92DHswD3Yce0APdix7UA92PHtgD3ZMe3APdlx7gA92bHuQD3Z8e6APdox7sA92nHvAD3ase9APdrx74A92zHvwD3bcfAAPdux8EA92/HwgD3cMfDAPdxx8QA93LHxQD3c8fGAPd0x8cA93XHyAD3dsfJAPd3x8oA93jHywD3ecfMAPd6x80A93vHzgD3fMfPAPd9x9AA937H0QD3f8fSAPeAx9MA94HH1AD3gsfVAPeDx9YA94TH1wD3hcfYAPeGx9kA94fH2gD3iMfbAPeJx9wA94rH3QD3i8feAPeMx98A943H4AD3jsfhAPePx+IA95DH4wD3kcfkAPeSx+UA95PH5gD3lMfnAPeVx+gA95bH6QD3l8fqAPeYx+sA95nH7AD3msftAPebx+4A95zH7wD3ncfwAPeex/EA95/H8gD3oMfzAPehx/QA96LH9QD3o8f2APekx/cA96XH+AD3psf5APenx/oA96jH+wD3qcf8APeqx/0A96vH/gD3rMhAAPetyEEA967IQgD3r8hDAPewyEQA97HIRQD3sshGAPezyEcA97TISAD3tchJAPe2yEoA97fISwD3uMhMAPe5yE0A97rITgD3u8hPAPe8yFAA973IUQD3vshSAPe/yFMA98DIVAD3wchVAPfCyFYA98PIVwD3xMhYAPfFyFkA98bIWgD3x8hbAPfIyFwA98nIXQD3ysheAPfLyF8A98zIYAD3zchhAPfOyGIA98/IYwD30MhkAPfRyGUA99LIZgD308hnAPfUyGgA99XIaQD31shqAPfXyGsA99jIbAD32chtAPfayG4A99vIbwD33MhwAPfdyHEA997IcgD338hzAPfgyHQA9+HIdQD34sh2APfjyHcA9+TIeAD35ch5APfmyHoA9+fIewD36Mh8APfpyH0A9+rIfgD368ihAPfsyKIA9+3IowD37sikAPfvyKUA9/DIpgD38cinAPfyyKgA9/PIqQD39MiqAPf1yKsA9/bIrAD398itAPf4yK4A9/nIrwD3+siwAPf7yLEA9/zIsgD3/cizAPf+yLQA9//ItQD4AMi2APgByLcA+ALIuAD4A8i5APgEyLoA+AXIuwD4Bsi8APgHyL0A+AjIvgD4Cci/APgKyMAA+AvIwQD4DMjCAPgNyMMA+A7IxAD4D8jFAPgQyMYA+BHIxwD4EsjIAPgTyMkA+BTIygD4FcjLAPgWyMwA+BfIzQD4GMjOAPgZyM8A+BrI0AD4G8jRAPgcyNIA+B3I0wD4HsjUAPgfyNUA+CDI1gD4IcjXAPgiyNgA+CPI2QD4JMjaAPglyNsA+CbI3AD4J8jdAPgoyN4A+CnI3wD4KsjgAPgryOEA+CzI4gD4LcjjAPguyOQA+C/I5QD4MMjmAPgxyOcA+DLI6AD4M8jpAPg0yOoA+DXI6wD4NsjsAPg3yO0A+DjI7gD4OcjvAPg6yPAA+DvI8QD4PMjyAPg9yPMA+D7I9AD4P8j1APhAyPYA+EHI9wD4Qsj4APhDyPkA+ETI+gD4Rcj7APhGyPwA+EfI/QD4SMj+APhJo+IA+Eqj4wD4S6PkAPhMo+UA+E2j5gD4TqPnAPhPo+gA+FCj6QD4UaPqAPhSo+sA+FOj7AD4VKPtAPhVo+4A+Faj7wD4V6PwAPhYo/EA+Fmj8gD4WqPzAPhbo/QA+Fyj9QD4XaP2APheo/cA+F+j+AD4YKP5APhho/oA+GKj+wD4Y6P8APhko/0A+GWj/gD4ZsbeAPhnxt8A+PgA/wD5ALBaAPkBp/MA+QKorgD5A7jrAPkEt8YA+QWm6gD5BqV5APkHwHQA+QjAdAD5Cau0APkKqvcA+Quz4gD5DKlgAPkNw2kA+Q7E7gD5D8O5APkQxdoA+RHBswD5ErtyAPkTxd4A+RS81gD5FaylAPkWr08A+RevXwD5GLioAPkZuVQA+RrAZAD5G7bDAPkcp1oA+R3E5gD5HsTqAPkfxPUA+SDGfQD5IbRQAPkiwN0A+SPCxQD5JMSwAPklqdQA+SbDvgD5J8T6APkotFkA+Smu1AD5Kq72APkrr1QA+SytpgD5LajTAPkup04A+S+z0gD5ML7bAPkxw3IA+TLEbAD5M79jAPk0ptEA+TXEqgD5Nri4APk3uPQA+TjFUwD5Ob58APk6xk8A+Tu4TAD5PLhTAPk9uvEA+T7bdwD5P7/9APlAs8AA+UG91wD5QsNiAPlDp8sA+UTFogD5RcWkAPlGqGMA+Ue9VQD5SLjvAPlJuXAA+UrCUwD5S7nwAPlMvNMA+U2yXAD5Trp8APlPstYA+VDBXAD5Ua2uAPlSsMcA+VOm2AD5VLv+APlVreIA+Va4VwD5V7rwAPlYtdkA+VmzrgD5WsWqAPlbztQA+Vy81gD5Xb/VAPlepKYA+V+55wD5YKvjAPlhsnYA+WKypwD5Y6VfAPlk7agA+WWrSwD5ZrRfAPlnpKMA+WiqYwD5abzGAPlqr8EA+Wuw0QD5bLbrAPltrNkA+W64rQD5b7uhAPlwsf4A+XGosAD5cqhIAPlzrEIA+XStWQD5dbGwAPl2sqQA+XerRwD5eKjiAPl5hFsA+Xqx5wD5e8KzAPl8qH0A+X29zAD5frZxAPl/wHkA+YCnZgD5gaRrAPmCw2YA+YOuyAD5hMJvAPmFxHIA+Ya+WwD5h8Z6APmIxFIA+Ym+pAD5iqRPAPmLvuQA+Yy++gD5jfdlAPmOpn4A+Y+8pgD5kMXKAPmRvL8A+ZK6pwD5k7fSAPmU5qMA+ZWdzgD5lr1tAPmXwXAA+Zi9+wD5mb2sAPmas3MA+ZvB5QD5nKZDAPmdpkgA+Z6rfAD5n69QAPmgtfUA+aG7oQD5ordHAPmjqcAA+aSxyQD5pcDUAPmmw64A+afCeQD5qKVPAPmpy/EA+aq55wD5q8CtAPmszLAA+a2swgD5rrz8APmvstwA+bCy4gD5sblhAPmyuXMA+bPGRgD5tLviAPm1qNIA+bbCpwD5t8S/APm4wfUA+bm0YwD5uqRGAPm7ubEA+by8ZAD5vae/APm+rsYA+b+81gD5wL9SAPnBwPgA+cLnZAD5w7/xAPnEwHMA+cW3dwD5xqi/APnHvEIA+cjM2AD5yaxoAPnKrHkA+cu3yAD5zK9bAPnNr2QA+c6yuAD5z6/DAPnQw/4A+dGkuwD50ryuAPnTs7AA+dSt2wD51bFbAPnWsl8A+de9/AD52KvfAPnZt1gA+dqu3wD527J2APnctqkA+d2nUQD53qZPAPnfvGkA+eCp9gD54af1APnisfkA+eOqZAD55LJ6APnltWcA+ea/qQD55/nYAPnouMwA+emovQD56sL3APnrsM4A+ey3xAD57adbAPnuv00A+e+/WgD58MSpAPnxlfkA+fLF7AD588XvAPn0qkwA+fWyTwD59sF7APn3pd8A+fiywQD5+bLJAPn6qqwA+fuqpQD5/MPRAPn9pLAA+f6v+QD5/6jrAPoApMEA+gGr1wD6AqndAPoDv30A+gSmdgD6Bax9APoGvMkA+ge/5wD6CKbmAPoJrbAA+gqoowD6C7n4APoMyUoA+g3d/AD6Dph3APoPmHgA+hC27wD6EZh5APoStLgA+hOYegD6FJh7APoV6PkA+haVvQD6F69xAPoYmHwA+hmvqwD6GrK7APobutYA+hy5dAD6HbrrAPoeptAA+h+YfQD6IJh+APohmKEA+iK90QD6I5iiAPokmKMA+iW2aAD6JrOjAPonmKQA+iiYpQD6KZimAPoqtroA+iu5fQD6LMBdAPotxWIA+jCrVgD6MbmsAPoyp0sA+jOragD6NLbUAPo1qPUA+jaz3AD6N7nEAPo4vrkA+jmUWQD6Or6lAPo7vGgA+jzJSwD6Pa6sAPo+tG4A+j+8qAD6QMNnAPpBsdMA+kKsSgD6Q7S7APpEsfYA+kWu/AD6RrJaAPpHun4A+ki1TgD6SZxwAPpKtVoA+ku4TwD6TKrAAPpNrOcA+k6s6AD6T6+nAPpQr6oA+lGvrAD6UrrXAPpTutUA+lS9XAD6VazwAPpWuGAA+le9bQD6WL+nAPpZwWMA+lq4cAD6W6rMAPpcr+QA+l2c0gD6XpzSAPpftdsA+mC9xQD6YbX4APpiv9YA+mPC1AD6ZLurAPplw9gA+mac4AD6Z7ZoAPpow/gA+mnFVAD6asBXAP4woUoA/jGhVwD+M6FZAP40oVsA/jWhXwD+NqFgAP43oWMA/jihZAD+OaFnAP46oWgA/juhawD+PKFsAP49oW8A/j6hcAD+P6FzAP5AoXQA/kGhdwD+QqF4AP5DoXsA/kShfAD+SaHGAP5KoccA/kuhygD+TKHLAP5NocgA/k6hyQD+T6FcAP5QoU0A/lGhTgD+UqFPAP5UoVEA/lWhUgD+VqFTAP5XoVQA/lmhfQD+WqF+AP5boaEA/lyhogD+XaGjAP5eoaQA/l+hzAD+YKHNAP5hoc4A/mKh3gD+Y6HfAP5koeAA/mWh4QD+ZqHiAP5ookIA/mmiTAD+aqJNAP5rok4A/wGhSQD/AsjQAP8Doa0A/wSiQwD/BaJIAP8Goa4A/weRwgD/CKFdAP8JoV4A/wqhrwD/C6HPAP8MoUEA/w2h0AD/DqFEAP8Pof4A/xCirwD/EaKwAP8SorEA/xOisgD/FKKzAP8VorQA/xaitQD/F6K2AP8YorcA/xmiuAD/GqFHAP8boUYA/xyh1QD/HaHXAP8eodYA/x+hSAD/IKJJAP8hos8A/yKi0AD/I6LRAP8kotIA/yWi0wD/JqLUAP8notUA/yii1gD/KaLXAP8qotgA/yui2QD/LKLaAP8totsA/y6i3AD/L6LdAP8wot4A/zGi3wD/MqLgAP8zouEA/zSi4gD/NaLjAP82ouQA/zei5QD/OKLmAP85oucA/zqi6AD/O8bkAP88okAA/z3G5QD/P6HEAP9AoasA/0Gi6QD/QqLqAP9DousA/0Si7AD/RaLtAP9Gou4A/0ei7wD/SKLwAP9JovEA/0qi8gD/S6LzAP9MovQA/02i9QD/TqL2AP9PovcA/1Ci+AD/UaL5AP9SovoA/1Oi+wD/VKL8AP9Vov0A/1ai/gD/V6NAAP9Yo0EA/1mjQgD/WqNDAP9boWEA/1yhVQD/XaFiAP9eoeMA/2HIuQD/Ysi6AP9jyLsA/2TIvAD/Zci9AP9myL4A/2fIvwD/aMjAAP9pyMEA/2rIwgD/a8jDAP9syMQA/23IxQD/bsjGAP9vyMcA/3DIyAD/ccjJAP9yyMoA/3PIywD/dMjMAP91yNQA/3bI1QD/d8jWAP94yNcA/3nI2AD/esjZAP97yNoA/3zI2wD/fcjcAP9+yN0A/3/I3gD/gMjfAP+ByOAA/4LI4QD/g8jiAP+EyOMA/4XI5AD/hsjlAP+HyOYA/4jI5wD/icjoAP+KyOkA/4vI6gD/jMjrAP+NyOwA/47I7QD/j8juAP+QyO8A/5HI8AD/ksjxAP+TyPIA/5TI8wD/lcj0AP+WyPUA/5fI9gD/mMj3AP+ZyPgA/5rI+QD/m8j6AP+cyPsA/53I/AD/nsj9AP+fyP4A/+CiRgD/4aJHAP/iyM0A/+OhwwD/5MjOAP/lokQA/+iieAD/6aH2AP/qofQA/+uh9wD/7KH1AP/tob0A/+6hsw==";
+export const BIG5_COUNT = 25856;
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { encode } from './codec';
+import { renderBlocksSvg, DEFAULT_BLOCK_EXPORT } from './blockExport';
+
+test('renderBlocksSvg lays out one block per character and wraps rows', () => {
+  const { lines } = encode('中文字\n\n<&>');
+  const { svg, width, height } = renderBlocksSvg(lines, { ...DEFAULT_BLOCK_EXPORT, cellsPerRow: 2 });
+  assert.equal((svg.match(/<rect x=/g) ?? []).length, 6);
+  assert.equal(width, 16 * 2 + 52 * 2 + 8);
+  // 中文 / 字 / 空行 / <& / >
+  assert.equal(height, 16 * 2 + 44 * 5 + 12 * 4);
+  assert.match(svg, /^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/);
+  assert.ok(svg.includes('filter="url(#glow)"'));
+  assert.ok(!svg.includes('>&<'), 'text content is escaped');
+});
+
+test('renderBlocksSvg honours annotation, print style and transparency', () => {
+  const { lines } = encode('中&');
+  const plain = renderBlocksSvg(lines, { cellsPerRow: 16, annotate: true, style: 'print', transparent: true });
+  assert.ok(plain.svg.includes('>中</text>'));
+  assert.ok(plain.svg.includes('>&#38;</text>'));
+  assert.ok(!plain.svg.includes('filter'));
+  assert.ok(!plain.svg.includes('height="100%"'));
+  assert.equal(plain.height, 16 * 2 + 44 + 18 + 4);
+
+  const glow = renderBlocksSvg(lines, { cellsPerRow: 16, annotate: false, style: 'glow', transparent: false });
+  assert.ok(glow.svg.includes('<rect width="100%" height="100%" fill="#080519" />'));
+  assert.ok(!glow.svg.includes('>中</text>'));
+});
+
+test('renderBlocksSvg handles large views and control characters', () => {
+  const lines = Array.from({ length: 200_000 }, () => encode('中').lines[0]);
+  const { height } = renderBlocksSvg(lines, DEFAULT_BLOCK_EXPORT);
+  assert.equal(height, 16 * 2 + 44 * 200_000 + 12 * 199_999);
+
+  const { svg } = renderBlocksSvg([[{ char: '\u0001', code: '0001', status: 'ok' }]], { ...DEFAULT_BLOCK_EXPORT, annotate: true });
+  assert.ok(!/[\x00-\x08]/.test(svg));
+  assert.ok(svg.includes('>\uFFFD</text>'));
+});
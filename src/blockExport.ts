@@ -0,0 +1,158 @@
+import type { EncodedChar } from './codec';
+
+// ─── 方塊字匯出 ───────────────────────────────────────────────────────────────
+//
+//  以純字串產生 SVG（不需瀏覽器截圖），排列與畫面上的 CodeBlock 相同：
+//  code[0] 左欄、code[1] / code[2] 中欄上下、code[3] 右欄，註記字在方塊下方。
+//  PNG 則把 SVG 畫到 canvas 後輸出。
+//
+export type BlockExportStyle = 'glow' | 'print';
+
+export interface BlockExportOptions {
+  /** 每列最多幾個方塊，超過時換列 */
+  cellsPerRow: number;
+  annotate: boolean;
+  /** glow：與畫面相同的深色發光風格；print：白底黑線，適合列印 */
+  style: BlockExportStyle;
+  transparent: boolean;
+}
+
+export const DEFAULT_BLOCK_EXPORT: BlockExportOptions = {
+  cellsPerRow: 16,
+  annotate: false,
+  style: 'glow',
+  transparent: false,
+};
+
+export interface BlockSvg {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+// 尺寸以 px 計，對應 CodeBlock 的 3.25rem × 2.75rem 與 gap-2 / mb-3
+const CELL_WIDTH = 52;
+const CELL_HEIGHT = 44;
+const SIDE_WIDTH = CELL_WIDTH / 2.65;
+const MIDDLE_WIDTH = CELL_WIDTH - SIDE_WIDTH * 2;
+const GAP = 8;
+const ANNOTATION_HEIGHT = 18;
+const ROW_GAP = 12;
+const PADDING = 16;
+const FONT_MONO = "ui-monospace, SFMono-Regular, Menlo, Consolas, monospace";
+const FONT_SANS = "'Noto Sans TC', 'PingFang TC', 'Microsoft JhengHei', sans-serif";
+
+const PALETTES = {
+  glow: {
+    background: '#080519',
+    cell: 'rgba(20, 15, 50, 0.7)',
+    border: 'rgba(165, 180, 252, 0.8)',
+    divider: 'rgba(165, 180, 252, 0.7)',
+    outer: '#e0e7ff',
+    inner: '#e9d5ff',
+    annotation: 'rgba(216, 180, 254, 0.9)',
+  },
+  print: {
+    background: '#ffffff',
+    cell: '#ffffff',
+    border: '#1f2937',
+    divider: '#4b5563',
+    outer: '#111827',
+    inner: '#374151',
+    annotation: '#111827',
+  },
+} satisfies Record<BlockExportStyle, Record<string, string>>;
+
+// XML 1.0 不允許的控制字元與落單的代理字元換成 U+FFFD，否則整份 SVG 會無法解析
+const INVALID_XML_CHARS = /[\x00-\x08\x0B\x0C\x0E-\x1F\uFFFE\uFFFF]|\p{Cs}/gu;
+
+function escapeXml(text: string): string {
+  return text.replace(INVALID_XML_CHARS, '\uFFFD').replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+function renderCell({ code, char }: EncodedChar, x: number, y: number, options: BlockExportOptions): string {
+  const p = PALETTES[options.style];
+  const midX = x + SIDE_WIDTH;
+  const rightX = midX + MIDDLE_WIDTH;
+  const text = (value: string, cx: number, cy: number, size: number, fill: string, weight = 'normal', family = FONT_MONO) =>
+    `<text x="${cx.toFixed(2)}" y="${cy.toFixed(2)}" font-family="${family}" font-size="${size}" font-weight="${weight}" ` +
+    `fill="${fill}" text-anchor="middle" dominant-baseline="central">${escapeXml(value)}</text>`;
+
+  return [
+    `<g${options.style === 'glow' ? ' filter="url(#glow)"' : ''}>`,
+    `<rect x="${x}" y="${y}" width="${CELL_WIDTH}" height="${CELL_HEIGHT}" rx="4" fill="${p.cell}" stroke="${p.border}" />`,
+    `<line x1="${midX.toFixed(2)}" y1="${y}" x2="${midX.toFixed(2)}" y2="${y + CELL_HEIGHT}" stroke="${p.divider}" />`,
+    `<line x1="${rightX.toFixed(2)}" y1="${y}" x2="${rightX.toFixed(2)}" y2="${y + CELL_HEIGHT}" stroke="${p.divider}" />`,
+    `<line x1="${midX.toFixed(2)}" y1="${y + CELL_HEIGHT / 2}" x2="${rightX.toFixed(2)}" y2="${y + CELL_HEIGHT / 2}" stroke="${p.divider}" />`,
+    '</g>',
+    text(code[0], x + SIDE_WIDTH / 2, y + CELL_HEIGHT / 2, 14, p.outer, 'bold'),
+    text(code[1], midX + MIDDLE_WIDTH / 2, y + CELL_HEIGHT / 4, 9.6, p.inner),
+    text(code[2], midX + MIDDLE_WIDTH / 2, y + (CELL_HEIGHT * 3) / 4, 9.6, p.inner),
+    text(code[3], rightX + SIDE_WIDTH / 2, y + CELL_HEIGHT / 2, 14, p.outer, 'bold'),
+    options.annotate
+      ? text(char, x + CELL_WIDTH / 2, y + CELL_HEIGHT + ANNOTATION_HEIGHT / 2 + 2, 12, p.annotation, 'normal', FONT_SANS)
+      : '',
+  ].join('');
+}
+
+export function renderBlocksSvg(lines: EncodedChar[][], options: BlockExportOptions = DEFAULT_BLOCK_EXPORT): BlockSvg {
+  const perRow = Math.max(1, Math.floor(options.cellsPerRow));
+  const cellBoxHeight = CELL_HEIGHT + (options.annotate ? ANNOTATION_HEIGHT + 4 : 0);
+
+  // 每個輸入行各自換列；空行保留一列高度
+  const rows = lines.flatMap(line =>
+    line.length === 0
+      ? [[]]
+      : Array.from({ length: Math.ceil(line.length / perRow) }, (_, i) => line.slice(i * perRow, (i + 1) * perRow))
+  );
+  // 逐列比較而非展開成引數，列數很多時 Math.max(...rows) 會超過引數上限
+  const widest = rows.reduce((max, row) => Math.max(max, row.length), 1);
+  const width = PADDING * 2 + widest * CELL_WIDTH + (widest - 1) * GAP;
+  const height = PADDING * 2 + Math.max(1, rows.length) * cellBoxHeight + Math.max(0, rows.length - 1) * ROW_GAP;
+
+  const cells = rows.flatMap((row, ri) =>
+    row.map((entry, ci) =>
+      renderCell(entry, PADDING + ci * (CELL_WIDTH + GAP), PADDING + ri * (cellBoxHeight + ROW_GAP), options)
+    )
+  );
+
+  const defs =
+    options.style === 'glow'
+      ? '<defs><filter id="glow" x="-50%" y="-50%" width="200%" height="200%">' +
+        '<feGaussianBlur in="SourceGraphic" stdDeviation="3" result="blur" />' +
+        '<feMerge><feMergeNode in="blur" /><feMergeNode in="SourceGraphic" /></feMerge></filter></defs>'
+      : '';
+  const background = options.transparent
+    ? ''
+    : `<rect width="100%" height="100%" fill="${PALETTES[options.style].background}" />`;
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    defs +
+    background +
+    cells.join('') +
+    '</svg>';
+  return { svg, width, height };
+}
+
+/** 瀏覽器專用：把 SVG 依 scale 倍率畫成 PNG */
+export async function renderBlocksPng({ svg, width, height }: BlockSvg, scale = 2): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D is not available');
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+    return await new Promise((resolve, reject) =>
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG export failed'))), 'image/png')
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
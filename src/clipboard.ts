@@ -0,0 +1,13 @@
+// ─── 剪貼簿 ───────────────────────────────────────────────────────────────────
+//
+//  navigator.clipboard 在權限被拒、頁面沒有焦點或非安全來源時會 reject；
+//  呼叫端只在回傳 true 時顯示「已複製」。
+//
+export async function copyText(text: string): Promise<boolean> {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
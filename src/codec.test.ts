@@ -0,0 +1,233 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { BIG5_DATA, BIG5_COUNT, BIG5_CHECKSUM } from './big5-data';
+import * as big5_2003 from './big5-2003-data';
+import * as big5Hkscs from './big5-hkscs-data';
+import * as big5Uao from './big5-uao-data';
+import {
+  MAPPING,
+  REVERSE_MAPPING,
+  UNMAPPED_CODE,
+  REPLACEMENT_CHAR,
+  SEPARATORS,
+  CODE_NOTATIONS,
+  encode,
+  decode,
+  formatLines,
+  encodeBytes,
+  decodeBytes,
+  getTable,
+  setUserMappings,
+  BIG5_VARIANTS,
+  BIG5_REGIONS,
+  findRegion,
+  parseBig5Code,
+  type SeparatorId,
+} from './codec';
+
+const PACKED = {
+  cp950: { BIG5_DATA, BIG5_COUNT },
+  'big5-2003': big5_2003,
+  'big5-hkscs': big5Hkscs,
+  'big5-uao': big5Uao,
+};
+
+test('BIG5_DATA decodes to BIG5_COUNT distinct characters', () => {
+  assert.equal(BIG5_COUNT, 20192);
+  assert.equal(MAPPING.size, BIG5_COUNT);
+  for (const code of MAPPING.values()) {
+    assert.match(code, /^[0-9A-F]{4}$/);
+  }
+});
+
+test('BIG5_CHECKSUM matches the bundled data', () => {
+  const packed = Buffer.from(BIG5_DATA, 'base64');
+  assert.equal(packed.length, BIG5_COUNT * 5);
+  assert.equal(crypto.createHash('sha256').update(packed).digest('hex'), BIG5_CHECKSUM);
+});
+
+test('reverse table has no duplicate Big5 codes', () => {
+  // 多個字共用同一碼（best-fit）時，反向表只能留下一個標準字，且該字必須編回同一碼
+  const seen = new Set<string>();
+  for (const [code, char] of REVERSE_MAPPING) {
+    assert.ok(!seen.has(char), `${char} is the canonical character of more than one code`);
+    seen.add(char);
+    if (parseInt(code, 16) >= 0x80) assert.equal(MAPPING.get(char), code);
+  }
+  for (const code of MAPPING.values()) {
+    assert.ok(REVERSE_MAPPING.has(code), `${code} has no canonical character`);
+  }
+});
+
+test('every entry round-trips through encode and decode', () => {
+  for (const [char, code] of MAPPING) {
+    const annotated = encode(char, { annotate: true });
+    assert.equal(annotated.text, `${code}(${char})`);
+    assert.equal(decode(annotated.text).text, char);
+
+    // 不帶註記時 best-fit 字會解成標準字，標準字再編碼仍得同一碼
+    const bare = decode(encode(char).text);
+    assert.equal(bare.issueCount, 0);
+    if (parseInt(code, 16) < 0x80) {
+      assert.equal(bare.text.charCodeAt(0), parseInt(code, 16));
+    } else {
+      assert.equal(MAPPING.get(bare.text), code);
+      if (REVERSE_MAPPING.get(code) === char) assert.equal(bare.text, char);
+    }
+  }
+});
+
+test('encode keeps line breaks and reports unmapped characters', () => {
+  const result = encode('中文\n😀');
+  assert.equal(result.text, `A4A4★A4E5\n${UNMAPPED_CODE}`);
+  assert.deepEqual(result.unmapped, [{ char: '😀', line: 2, column: 1 }]);
+  assert.deepEqual(result.lines[1], [{ char: '😀', code: UNMAPPED_CODE, status: 'unmapped' }]);
+});
+
+test('decode flags malformed, unmapped and placeholder tokens inline', () => {
+  const result = decode('A4A4★ZZ★FFFF\n????★????(😀)★A1B9(★)★');
+  assert.deepEqual(
+    result.lines.map(line => line.map(t => t.status)),
+    [
+      ['ok', 'malformed', 'unmapped'],
+      ['placeholder', 'placeholder', 'ok'],
+    ]
+  );
+  assert.equal(result.text, `中${REPLACEMENT_CHAR}${REPLACEMENT_CHAR}\n${REPLACEMENT_CHAR}😀★`);
+  assert.equal(result.issueCount, 4);
+});
+
+test('decode ignores a trailing separator but not an empty token between separators', () => {
+  for (const input of ['A4A4★', 'A4A4★ ', 'A4A4★A4E5★']) {
+    const result = decode(input);
+    assert.equal(result.issueCount, 0, input);
+    assert.ok(result.lines[0].every(t => t.status === 'ok'), input);
+  }
+  assert.equal(decode('A4A4,', { separator: 'comma' }).issueCount, 0);
+  const doubled = decode('A4A4★★A4E5');
+  assert.equal(doubled.issueCount, 1);
+  assert.deepEqual(
+    doubled.lines[0].map(t => [t.token, t.status]),
+    [['A4A4', 'ok'], ['', 'malformed'], ['A4E5', 'ok']]
+  );
+  assert.equal(doubled.text, `中${REPLACEMENT_CHAR}文`);
+});
+
+test('every output format decodes back to the source text', () => {
+  const source = '中文 Big5\n碁 😀 ★(';
+  for (const notation of CODE_NOTATIONS) {
+    for (const separator of Object.keys(SEPARATORS) as SeparatorId[]) {
+      for (const lowercase of [false, true]) {
+        const format = { notation, separator, lowercase, annotate: true };
+        const { text } = encode(source, format);
+        assert.equal(decode(text, format).text, source, JSON.stringify(format));
+      }
+    }
+  }
+});
+
+test('formatLines renders each notation', () => {
+  const { lines } = encode('中À');
+  assert.equal(formatLines(lines, { separator: 'comma', lowercase: true }), 'a4a4,0041');
+  assert.equal(formatLines(lines, { notation: 'prefixed', separator: 'space' }), '0xA4A4 0x0041');
+  assert.equal(formatLines(lines, { notation: 'escape', separator: 'none' }), '\\xA4\\xA4\\x41');
+  assert.equal(formatLines(lines, { notation: 'url', separator: 'none' }), '%A4%A4%41');
+  assert.deepEqual(JSON.parse(formatLines(lines, { notation: 'json' })), [
+    { char: '中', code: 'A4A4' },
+    { char: 'À', code: '0041' },
+  ]);
+  assert.equal(decode('%a4%a4%41', { notation: 'url', separator: 'none' }).text, '中A');
+});
+
+test('encodeBytes writes CP950 bytes and reports unmapped characters', () => {
+  const { bytes, unmapped } = encodeBytes('中A\n😀文', { replacement: '？' });
+  assert.deepEqual([...bytes], [0xa4, 0xa4, 0x41, 0x0a, 0xa1, 0x48, 0xa4, 0xe5]);
+  assert.deepEqual(unmapped, [{ char: '😀', line: 2, column: 1 }]);
+  assert.deepEqual([...encodeBytes('😀', { replacement: '' }).bytes], []);
+  assert.throws(() => encodeBytes('中', { replacement: '😀' }));
+});
+
+test('decodeBytes round-trips every canonical character', () => {
+  const text = [...REVERSE_MAPPING.values()].filter(c => c !== '\n').join('');
+  const decoded = decodeBytes(encodeBytes(text).bytes);
+  assert.deepEqual(decoded.errors, []);
+  assert.equal(decoded.text, text);
+});
+
+test('decodeBytes reports invalid byte sequences with offsets', () => {
+  const { text, errors } = decodeBytes(Uint8Array.from([0x41, 0x80, 0xa4, 0x0a, 0xa4, 0xa4, 0xa4]));
+  assert.equal(text, `A${REPLACEMENT_CHAR}${REPLACEMENT_CHAR}\n中${REPLACEMENT_CHAR}`);
+  assert.deepEqual(errors, [
+    { offset: 1, bytes: [0x80], reason: 'invalid-lead' },
+    { offset: 2, bytes: [0xa4, 0x0a], reason: 'invalid-trail' },
+    { offset: 6, bytes: [0xa4], reason: 'truncated' },
+  ]);
+});
+
+test('every variant table matches its checksum and round-trips as bytes', () => {
+  for (const variant of BIG5_VARIANTS) {
+    const table = getTable(variant);
+    const { BIG5_DATA: data, BIG5_COUNT: count } = PACKED[variant];
+    assert.equal(table.mapping.size, count, variant);
+    assert.equal(crypto.createHash('sha256').update(Buffer.from(data, 'base64')).digest('hex'), table.checksum);
+
+    const text = [...table.reverse.values()].filter(c => c !== '\n').join('');
+    const decoded = decodeBytes(encodeBytes(text, {}, variant).bytes, variant);
+    assert.deepEqual(decoded.errors, [], variant);
+    assert.equal(decoded.text, text, variant);
+  }
+});
+
+test('variants cover characters CP950 lacks', () => {
+  assert.equal(encode('啱嘅', {}, 'cp950').text, '????★????');
+  assert.equal(encode('啱嘅', {}, 'big5-hkscs').text, '95DA★9DEF');
+  assert.equal(encode('们', {}, 'big5-uao').text, '83A8');
+  assert.equal(decode('95DA★9DEF', {}, 'big5-hkscs').text, '啱嘅');
+});
+
+test('a user mapping moves a character the built-in table already maps', () => {
+  for (const variant of ['cp950', 'big5-2003', 'big5-uao'] as const) {
+    assert.equal(getTable(variant).mapping.get('\uE000'), 'FA40', variant);
+  }
+  setUserMappings([{ code: 'FA41', char: '\uE000' }]);
+  try {
+    for (const variant of ['cp950', 'big5-2003', 'big5-uao'] as const) {
+      const table = getTable(variant);
+      assert.equal(encode('\uE000', {}, variant).text, 'FA41', variant);
+      assert.equal(decode('FA41', {}, variant).text, '\uE000', variant);
+      assert.equal(table.reverse.get('FA40'), undefined, `${variant}: FA40 no longer decodes to U+E000`);
+      assert.equal(table.mapping.has('\uE001'), false, `${variant}: U+E001 lost its code FA41`);
+      for (const [code, char] of table.reverse) {
+        if (code.length === 4 && parseInt(code, 16) >= 0x100) assert.equal(table.mapping.get(char), code, `${variant} ${code}`);
+      }
+    }
+    assert.deepEqual([...encodeBytes('\uE000').bytes], [0xfa, 0x41]);
+    assert.deepEqual(decodeBytes(Uint8Array.of(0xfa, 0x40, 0xfa, 0x41)).text, `${REPLACEMENT_CHAR}\uE000`);
+  } finally {
+    setUserMappings([]);
+  }
+  assert.equal(getTable().reverse.get('FA40'), '\uE000');
+});
+
+test('code-page regions classify codes and parse jump targets', () => {
+  assert.equal(findRegion(0xa440)?.id, 'frequent');
+  assert.equal(findRegion(0xc67e)?.id, 'frequent');
+  assert.equal(findRegion(0xc67f)?.id, 'reserved-mid');
+  assert.equal(findRegion(0xc6a0)?.id, 'reserved-mid');
+  assert.equal(findRegion(0xc6a1)?.id, 'eudc-mid');
+  assert.equal(findRegion(0xf9d5)?.id, 'less-frequent');
+  assert.equal(findRegion(0xfa40)?.id, 'eudc-high');
+  assert.equal(findRegion(0xa3e1)?.id, 'reserved');
+  for (const [code, char] of REVERSE_MAPPING) {
+    const value = parseInt(code, 16);
+    if (value >= 0x100) assert.ok(findRegion(value), `${code} ${char} is outside every region`);
+  }
+  for (let i = 1; i < BIG5_REGIONS.length; i++) assert.ok(BIG5_REGIONS[i].start > BIG5_REGIONS[i - 1].end);
+
+  assert.equal(parseBig5Code('a4a4'), 0xa4a4);
+  assert.equal(parseBig5Code(' 0xA4 40 '), 0xa440);
+  assert.equal(parseBig5Code('A47F'), undefined);
+  assert.equal(parseBig5Code('8040'), undefined);
+  assert.equal(parseBig5Code('A4'), undefined);
+});
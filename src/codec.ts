@@ -0,0 +1,651 @@
+import * as cp950 from './big5-data';
+import * as big5_2003 from './big5-2003-data';
+import * as big5Hkscs from './big5-hkscs-data';
+import * as big5Uao from './big5-uao-data';
+
+// ─── 對照表 ───────────────────────────────────────────────────────────────────
+//
+//  各編碼變體的 BIG5_DATA 皆為 base64，每筆 5 bytes：Unicode 碼位 (3 bytes) + Big5 碼 (2 bytes)。
+//  對照表在第一次使用該變體時才解開。
+//
+export type Big5Variant = 'cp950' | 'big5-2003' | 'big5-hkscs' | 'big5-uao';
+
+export const BIG5_VARIANTS: Big5Variant[] = ['cp950', 'big5-2003', 'big5-hkscs', 'big5-uao'];
+
+export const DEFAULT_VARIANT: Big5Variant = 'cp950';
+
+interface PackedTable {
+  BIG5_SOURCE: string;
+  BIG5_SOURCE_URL: string;
+  BIG5_CHECKSUM: string;
+  BIG5_DATA: string;
+  BIG5_COUNT: number;
+}
+
+export const BIG5_VARIANT_LABELS: Record<Big5Variant, string> = {
+  cp950: 'CP950',
+  'big5-2003': 'Big5-2003',
+  'big5-hkscs': 'Big5-HKSCS',
+  'big5-uao': 'Big5-UAO',
+};
+
+const PACKED_TABLES: Record<Big5Variant, PackedTable> = {
+  cp950,
+  'big5-2003': big5_2003,
+  'big5-hkscs': big5Hkscs,
+  'big5-uao': big5Uao,
+};
+
+/** 各變體打包資料的 SHA-256，不需先解開對照表 */
+export const TABLE_CHECKSUMS = Object.fromEntries(
+  BIG5_VARIANTS.map(variant => [variant, PACKED_TABLES[variant].BIG5_CHECKSUM])
+) as Record<Big5Variant, string>;
+
+export interface Big5Table {
+  variant: Big5Variant;
+  label: string;
+  source: string;
+  sourceUrl: string;
+  checksum: string;
+  /** 中文字 → Big5 hex (4字元大寫) */
+  mapping: Map<string, string>;
+  /** Big5 hex (4字元大寫) → 中文字 */
+  reverse: Map<string, string>;
+  /** 疊加在內建對照表上的自訂字數 */
+  userMappings: number;
+}
+
+function buildMapping({ BIG5_DATA, BIG5_COUNT }: PackedTable): Map<string, string> {
+  const raw = atob(BIG5_DATA);
+  const map = new Map<string, string>();
+  for (let i = 0; i < BIG5_COUNT; i++) {
+    const o = i * 5;
+    const cp =
+      (raw.charCodeAt(o) << 16) |
+      (raw.charCodeAt(o + 1) << 8) |
+      raw.charCodeAt(o + 2);
+    const big5 = (raw.charCodeAt(o + 3) << 8) | raw.charCodeAt(o + 4);
+    const big5Hex = big5.toString(16).toUpperCase().padStart(4, '0');
+    map.set(String.fromCodePoint(cp), big5Hex);
+  }
+  return map;
+}
+
+// 反向對照表：Big5 hex (4字元大寫) → 中文字
+//  同一碼可能有多個字（相容漢字、圈字、best-fit 近似字），優先取 CJK 統一漢字，
+//  其次取碼位最小者；單位元組碼（< 0x80）一律還原為 ASCII 本身
+function isUnifiedIdeograph(char: string): boolean {
+  const cp = char.codePointAt(0)!;
+  return (cp >= 0x4e00 && cp <= 0x9fff) || (cp >= 0x3400 && cp <= 0x4dbf);
+}
+
+function buildReverse(mapping: Map<string, string>): Map<string, string> {
+  const reverse = new Map<string, string>();
+  for (const [char, big5] of mapping) {
+    const current = reverse.get(big5);
+    if (current === undefined || (isUnifiedIdeograph(char) && !isUnifiedIdeograph(current))) {
+      reverse.set(big5, char);
+    }
+  }
+  for (let b = 0; b < 0x80; b++) {
+    reverse.set(b.toString(16).toUpperCase().padStart(4, '0'), String.fromCharCode(b));
+  }
+  return reverse;
+}
+
+// ─── 自訂字（造字區） ─────────────────────────────────────────────────────────
+//
+//  使用者定義的 Big5 碼 ↔ Unicode 對應疊加在所有變體的內建對照表上，同碼時以自訂字為準。
+//  疊加內容改變後 getTable 會回傳新的 Big5Table，可用物件是否相同判斷要不要重算。
+//
+export interface UserMapping {
+  /** Big5 hex (4字元大寫) */
+  code: string;
+  char: string;
+}
+
+let userMappings: UserMapping[] = [];
+let userMappingsKey = '';
+
+export function setUserMappings(mappings: readonly UserMapping[]): void {
+  const key = mappings.map(({ code, char }) => `${code}=${char}`).join(',');
+  if (key === userMappingsKey) return;
+  userMappings = mappings.map(({ code, char }) => ({ code, char }));
+  userMappingsKey = key;
+  tables.clear();
+}
+
+export function getUserMappings(): readonly UserMapping[] {
+  return userMappings;
+}
+
+// 被自訂字佔用的碼，原本對應到它的字一併移除，避免編出的碼解回不同的字；
+// 自訂字原本的內建碼（如 CP950 的 U+E000 → FA40）也不再對應到它，反向表由疊加後的正向表重建
+function applyUserMappings(mapping: Map<string, string>): void {
+  if (userMappings.length === 0) return;
+  const codes = new Set(userMappings.map(({ code }) => code));
+  for (const [char, code] of mapping) {
+    if (codes.has(code)) mapping.delete(char);
+  }
+  for (const { code, char } of userMappings) mapping.set(char, code);
+}
+
+const tables = new Map<Big5Variant, Big5Table>();
+
+export function getTable(variant: Big5Variant = DEFAULT_VARIANT): Big5Table {
+  let table = tables.get(variant);
+  if (!table) {
+    const data = PACKED_TABLES[variant];
+    const mapping = buildMapping(data);
+    applyUserMappings(mapping);
+    const reverse = buildReverse(mapping);
+    table = {
+      variant,
+      label: BIG5_VARIANT_LABELS[variant],
+      source: data.BIG5_SOURCE,
+      sourceUrl: data.BIG5_SOURCE_URL,
+      checksum: data.BIG5_CHECKSUM,
+      mapping,
+      reverse,
+      userMappings: userMappings.length,
+    };
+    tables.set(variant, table);
+  }
+  return table;
+}
+
+/** CP950 內建的 中文字 → Big5 hex（不含自訂字） */
+export const MAPPING = getTable().mapping;
+
+/** CP950 內建的 Big5 hex → 中文字（不含自訂字） */
+export const REVERSE_MAPPING = getTable().reverse;
+
+export const UNMAPPED_CODE = '????';
+export const REPLACEMENT_CHAR = '\uFFFD';
+
+// ─── 輸出格式 ─────────────────────────────────────────────────────────────────
+//
+//  notation 決定單一碼的寫法，separator 決定碼與碼之間的分隔：
+//    hex       A4A4          prefixed  0xA4A4
+//    escape    \xA4\xA4      url       %A4%A4
+//    json      [{"char":"中","code":"A4A4"}, ...]（separator 與 annotate 不適用）
+//  escape / url 以實際位元組表示，單位元組碼只輸出一個位元組。
+//
+export type CodeNotation = 'hex' | 'prefixed' | 'escape' | 'url' | 'json';
+
+export const CODE_NOTATIONS: CodeNotation[] = ['hex', 'prefixed', 'escape', 'url', 'json'];
+
+export const SEPARATORS = {
+  star: '★',
+  space: ' ',
+  comma: ',',
+  none: '',
+} as const;
+
+export type SeparatorId = keyof typeof SEPARATORS;
+
+export const SEPARATOR_IDS = Object.keys(SEPARATORS) as SeparatorId[];
+
+export const SEPARATOR = SEPARATORS.star;
+
+export interface OutputFormat {
+  notation: CodeNotation;
+  separator: SeparatorId;
+  lowercase: boolean;
+  /** 以 code(字) 形式附上原字 */
+  annotate: boolean;
+}
+
+export const DEFAULT_FORMAT: OutputFormat = {
+  notation: 'hex',
+  separator: 'star',
+  lowercase: false,
+  annotate: false,
+};
+
+function codeBytes(code: string): string[] {
+  return parseInt(code, 16) < 0x100 ? [code.slice(2)] : [code.slice(0, 2), code.slice(2)];
+}
+
+export function formatCode(code: string, notation: CodeNotation, lowercase = false): string {
+  if (code === UNMAPPED_CODE) return code;
+  const hex = lowercase ? code.toLowerCase() : code;
+  switch (notation) {
+    case 'prefixed':
+      return `0x${hex}`;
+    case 'escape':
+      return codeBytes(hex).map(b => `\\x${b}`).join('');
+    case 'url':
+      return codeBytes(hex).map(b => `%${b}`).join('');
+    default:
+      return hex;
+  }
+}
+
+// ─── 編碼：中文 → Big5 hex ────────────────────────────────────────────────────
+export type EncodeStatus = 'ok' | 'unmapped';
+
+export interface EncodedChar {
+  char: string;
+  /** Big5 hex；無對應時為 ???? */
+  code: string;
+  status: EncodeStatus;
+}
+
+export interface UnmappedChar {
+  char: string;
+  /** 1 起算 */
+  line: number;
+  /** 1 起算，以字（code point）計 */
+  column: number;
+}
+
+export interface EncodeResult {
+  lines: EncodedChar[][];
+  text: string;
+  unmapped: UnmappedChar[];
+}
+
+// ASCII 與位元組編碼一致，以單位元組碼 00XX 表示（escape / url 只輸出一個位元組）
+export function encodeChar(char: string, variant: Big5Variant = DEFAULT_VARIANT): EncodedChar {
+  const cp = char.codePointAt(0)!;
+  if (cp < 0x80) return { char, code: cp.toString(16).toUpperCase().padStart(4, '0'), status: 'ok' };
+  const code = getTable(variant).mapping.get(char);
+  return code === undefined
+    ? { char, code: UNMAPPED_CODE, status: 'unmapped' }
+    : { char, code, status: 'ok' };
+}
+
+// JSON 以 code 為 null 的 "\n" 項目表示換行
+function formatJson(lines: EncodedChar[][], lowercase: boolean): string {
+  const items = lines.flatMap((line, li) => {
+    const entries = line.map(({ char, code }) =>
+      JSON.stringify({ char, code: formatCode(code, 'hex', lowercase) })
+    );
+    return li < lines.length - 1 ? [...entries, JSON.stringify({ char: '\n', code: null })] : entries;
+  });
+  return items.length ? `[\n  ${items.join(',\n  ')}\n]` : '[]';
+}
+
+export function formatLines(lines: EncodedChar[][], format: Partial<OutputFormat> = {}): string {
+  const { notation, separator, lowercase, annotate } = { ...DEFAULT_FORMAT, ...format };
+  if (notation === 'json') return formatJson(lines, lowercase);
+  return lines
+    .map(line =>
+      line
+        .map(({ code, char }) => {
+          const formatted = formatCode(code, notation, lowercase);
+          return annotate ? `${formatted}(${char})` : formatted;
+        })
+        .join(SEPARATORS[separator])
+    )
+    .join('\n');
+}
+
+export function encode(
+  text: string,
+  format: Partial<OutputFormat> = {},
+  variant: Big5Variant = DEFAULT_VARIANT
+): EncodeResult {
+  if (!text) return { lines: [], text: '', unmapped: [] };
+
+  const lines = text.split('\n').map(line => [...line].map(char => encodeChar(char, variant)));
+  const unmapped = lines.flatMap((line, li) =>
+    line.flatMap(({ char, status }, ci) =>
+      status === 'unmapped' ? [{ char, line: li + 1, column: ci + 1 }] : []
+    )
+  );
+  return { lines, text: formatLines(lines, format), unmapped };
+}
+
+// ─── 解碼：Big5 hex → 中文 ────────────────────────────────────────────────────
+//
+//  接受 formatLines 輸出的任一格式（大小寫不拘），token 可帶 (字) 註記。
+//  註記字編碼後與 token 相符時採用註記字，best-fit 近似字因此也能完整還原；
+//  ???? 只有在帶註記時才能還原。
+//
+export type DecodeStatus = 'ok' | 'unmapped' | 'placeholder' | 'malformed';
+
+export interface DecodedToken {
+  token: string;
+  /** 解出的字；無法解出時為 U+FFFD */
+  char: string;
+  status: DecodeStatus;
+}
+
+export interface DecodeResult {
+  lines: DecodedToken[][];
+  text: string;
+  issueCount: number;
+}
+
+function decodeCode(
+  token: string,
+  code: string,
+  annotation: string | undefined,
+  { mapping, reverse }: Big5Table
+): DecodedToken {
+  if (code === UNMAPPED_CODE) {
+    return { token, char: annotation ?? REPLACEMENT_CHAR, status: 'placeholder' };
+  }
+  if (!/^[0-9A-F]{4}$/.test(code)) {
+    return { token, char: REPLACEMENT_CHAR, status: 'malformed' };
+  }
+  const char = reverse.get(code);
+  if (char === undefined) {
+    return { token, char: REPLACEMENT_CHAR, status: 'unmapped' };
+  }
+  if (annotation !== undefined && mapping.get(annotation) === code) {
+    return { token, char: annotation, status: 'ok' };
+  }
+  return { token, char, status: 'ok' };
+}
+
+function malformed(token: string): DecodedToken {
+  return { token, char: REPLACEMENT_CHAR, status: 'malformed' };
+}
+
+const HEX_PATTERN = /[0-9A-Fa-f]{4}/y;
+const PREFIXED_PATTERN = /0[xX]([0-9A-Fa-f]{4})/y;
+
+function readByte(line: string, at: number, prefix: string): number | null {
+  if (!line.startsWith(prefix, at)) return null;
+  const hex = line.slice(at + prefix.length, at + prefix.length + 2);
+  return /^[0-9A-Fa-f]{2}$/.test(hex) ? parseInt(hex, 16) : null;
+}
+
+// 從 at 讀一個碼，回傳 4 位大寫 hex 與耗用長度；讀不到時回傳 null
+function readCode(line: string, at: number, notation: CodeNotation): { code: string; length: number } | null {
+  if (line.startsWith(UNMAPPED_CODE, at)) return { code: UNMAPPED_CODE, length: UNMAPPED_CODE.length };
+
+  if (notation === 'escape' || notation === 'url') {
+    // 依 Big5 規則組位元組：0x81–0xFE 為首位元組，須再接一個尾位元組
+    const prefix = notation === 'escape' ? '\\x' : '%';
+    const width = prefix.length + 2;
+    const lead = readByte(line, at, prefix);
+    if (lead === null) return null;
+    if (lead < 0x81 || lead > 0xfe) {
+      return { code: lead.toString(16).toUpperCase().padStart(4, '0'), length: width };
+    }
+    const trail = readByte(line, at + width, prefix);
+    if (trail === null) return null;
+    return { code: ((lead << 8) | trail).toString(16).toUpperCase(), length: width * 2 };
+  }
+
+  const pattern = notation === 'prefixed' ? PREFIXED_PATTERN : HEX_PATTERN;
+  pattern.lastIndex = at;
+  const match = pattern.exec(line);
+  if (!match) return null;
+  return { code: (match[1] ?? match[0]).toUpperCase(), length: match[0].length };
+}
+
+// 逐字掃描而非直接 split，因為註記本身可能就是分隔符號或括號
+export function decodeLine(
+  line: string,
+  notation: CodeNotation = 'hex',
+  separator: string = SEPARATOR,
+  variant: Big5Variant = DEFAULT_VARIANT
+): DecodedToken[] {
+  const tokens: DecodedToken[] = [];
+  if (!line.trim()) return tokens;
+
+  const table = getTable(variant);
+  // 空白分隔與無分隔都以「碼的邊界」切 token，前後空白一律略過
+  const sep = separator.trim();
+  const isSpace = (at: number) => /\s/.test(line[at]);
+  let i = 0;
+  const skipSpace = () => {
+    while (i < line.length && isSpace(i)) i++;
+  };
+
+  skipSpace();
+  // 行尾多一個分隔符號（A4A4★）不算錯誤，直接結束
+  while (i < line.length) {
+    // 連續兩個分隔符號之間是空的欄位：記一個空的錯誤 token，從下一個碼繼續
+    if (sep && line.startsWith(sep, i)) {
+      tokens.push(malformed(''));
+      i += sep.length;
+      skipSpace();
+      continue;
+    }
+
+    const start = i;
+    const read = readCode(line, i, notation);
+    let annotation: string | undefined;
+    if (read) {
+      i += read.length;
+      if (line[i] === '(') {
+        const cp = line.codePointAt(i + 1);
+        const char = cp === undefined ? '' : String.fromCodePoint(cp);
+        if (char && line[i + 1 + char.length] === ')') {
+          annotation = char;
+          i += 2 + char.length;
+        }
+      }
+      skipSpace();
+    }
+
+    const atBoundary = i >= line.length || (sep ? line.startsWith(sep, i) : i > start);
+    if (read && atBoundary) {
+      tokens.push(decodeCode(line.slice(start, i).trim(), read.code, annotation, table));
+    } else {
+      // 錯誤 token 吃到下一個分隔符號；無分隔符號時吃到下一個讀得到的碼或空白
+      if (i === start) i += String.fromCodePoint(line.codePointAt(i)!).length;
+      while (
+        i < line.length &&
+        !(sep ? line.startsWith(sep, i) : isSpace(i) || readCode(line, i, notation))
+      ) {
+        i++;
+      }
+      tokens.push(malformed(line.slice(start, i).trim()));
+      skipSpace();
+    }
+
+    if (sep && line.startsWith(sep, i)) {
+      i += sep.length;
+      skipSpace();
+    }
+  }
+  return tokens;
+}
+
+function decodeJson(input: string, table: Big5Table): DecodedToken[][] {
+  let items: unknown;
+  try {
+    items = JSON.parse(input);
+  } catch {
+    return [[malformed(input.trim())]];
+  }
+  if (!Array.isArray(items)) return [[malformed(input.trim())]];
+
+  const lines: DecodedToken[][] = [[]];
+  for (const item of items) {
+    const token = JSON.stringify(item);
+    const { char, code } = (item ?? {}) as { char?: unknown; code?: unknown };
+    if (char === '\n' && code === null) {
+      lines.push([]);
+    } else if (typeof code !== 'string') {
+      lines[lines.length - 1].push(malformed(token));
+    } else {
+      const annotation = typeof char === 'string' && [...char].length === 1 ? char : undefined;
+      lines[lines.length - 1].push(decodeCode(token, code.toUpperCase(), annotation, table));
+    }
+  }
+  return lines;
+}
+
+export function decode(
+  input: string,
+  format: Partial<OutputFormat> = {},
+  variant: Big5Variant = DEFAULT_VARIANT
+): DecodeResult {
+  const { notation, separator } = { ...DEFAULT_FORMAT, ...format };
+  if (!input.trim()) return { lines: [], text: '', issueCount: 0 };
+
+  const lines =
+    notation === 'json'
+      ? decodeJson(input, getTable(variant))
+      : input.split('\n').map(line => decodeLine(line, notation, SEPARATORS[separator], variant));
+  const text = lines.map(line => line.map(t => t.char).join('')).join('\n');
+  const issueCount = lines.reduce(
+    (n, line) => n + line.filter(t => t.status !== 'ok').length,
+    0
+  );
+  return { lines, text, issueCount };
+}
+
+// ─── 位元組編碼：中文 ↔ Big5 (CP950) 位元組 ──────────────────────────────────
+//
+//  ASCII (U+0000–U+007F) 直接輸出單一位元組；其餘查所選變體的對照表，
+//  查無對應時以 replacement 取代（空字串表示略過），replacement 本身必須可編碼。
+//
+export interface EncodeBytesOptions {
+  replacement?: string;
+}
+
+export interface EncodeBytesResult {
+  bytes: Uint8Array;
+  unmapped: UnmappedChar[];
+}
+
+function charBytes(char: string, mapping: Map<string, string>): number[] | null {
+  const cp = char.codePointAt(0)!;
+  if (cp < 0x80) return [cp];
+  const code = mapping.get(char);
+  if (code === undefined) return null;
+  const value = parseInt(code, 16);
+  return value < 0x100 ? [value] : [value >> 8, value & 0xff];
+}
+
+export function encodeBytes(
+  text: string,
+  options: EncodeBytesOptions = {},
+  variant: Big5Variant = DEFAULT_VARIANT
+): EncodeBytesResult {
+  const { replacement = '?' } = options;
+  const { mapping } = getTable(variant);
+  const replacementBytes = [...replacement].flatMap(char => {
+    const bytes = charBytes(char, mapping);
+    if (!bytes) throw new Error(`Replacement "${replacement}" is not encodable in Big5`);
+    return bytes;
+  });
+
+  const bytes: number[] = [];
+  const unmapped: UnmappedChar[] = [];
+  text.split('\n').forEach((lineText, li) => {
+    if (li > 0) bytes.push(0x0a);
+    [...lineText].forEach((char, ci) => {
+      const encoded = charBytes(char, mapping);
+      if (encoded) {
+        bytes.push(...encoded);
+      } else {
+        unmapped.push({ char, line: li + 1, column: ci + 1 });
+        bytes.push(...replacementBytes);
+      }
+    });
+  });
+  return { bytes: Uint8Array.from(bytes), unmapped };
+}
+
+export type ByteErrorReason = 'invalid-lead' | 'invalid-trail' | 'truncated' | 'unmapped';
+
+export interface ByteError {
+  /** 出錯序列的起始位元組位移 */
+  offset: number;
+  bytes: number[];
+  reason: ByteErrorReason;
+}
+
+export interface DecodeBytesResult {
+  text: string;
+  errors: ByteError[];
+}
+
+export const isLeadByte = (b: number) => b >= 0x81 && b <= 0xfe;
+export const isTrailByte = (b: number) => (b >= 0x40 && b <= 0x7e) || (b >= 0xa1 && b <= 0xfe);
+
+export function decodeBytes(bytes: Uint8Array, variant: Big5Variant = DEFAULT_VARIANT): DecodeBytesResult {
+  const { reverse } = getTable(variant);
+  let text = '';
+  const errors: ByteError[] = [];
+  let i = 0;
+  while (i < bytes.length) {
+    const lead = bytes[i];
+    if (lead < 0x80) {
+      text += String.fromCharCode(lead);
+      i++;
+      continue;
+    }
+    if (!isLeadByte(lead)) {
+      const single = reverse.get(lead.toString(16).toUpperCase().padStart(4, '0'));
+      if (single === undefined) errors.push({ offset: i, bytes: [lead], reason: 'invalid-lead' });
+      text += single ?? REPLACEMENT_CHAR;
+      i++;
+      continue;
+    }
+    if (i + 1 >= bytes.length) {
+      errors.push({ offset: i, bytes: [lead], reason: 'truncated' });
+      text += REPLACEMENT_CHAR;
+      i++;
+      continue;
+    }
+    const trail = bytes[i + 1];
+    if (!isTrailByte(trail)) {
+      // 尾位元組是 ASCII 時不吞掉，讓後續文字重新同步
+      errors.push({ offset: i, bytes: [lead, trail], reason: 'invalid-trail' });
+      text += REPLACEMENT_CHAR;
+      i += trail < 0x80 ? 1 : 2;
+      continue;
+    }
+    const code = ((lead << 8) | trail).toString(16).toUpperCase();
+    const char = reverse.get(code);
+    if (char === undefined) errors.push({ offset: i, bytes: [lead, trail], reason: 'unmapped' });
+    text += char ?? REPLACEMENT_CHAR;
+    i += 2;
+  }
+  return { text, errors };
+}
+
+// ─── 碼表區段 ─────────────────────────────────────────────────────────────────
+//
+//  Big5 雙位元組碼依用途分區；造字區（EUDC）在標準 Big5 中沒有字，
+//  各變體（HKSCS、UAO 等）會把延伸字放在這些區段。
+//
+export type Big5RegionId = 'eudc-low' | 'symbols' | 'reserved' | 'frequent' | 'reserved-mid' | 'eudc-mid' | 'less-frequent' | 'extended' | 'eudc-high';
+
+export interface Big5Region {
+  id: Big5RegionId;
+  label: string;
+  /** 區段首尾碼（含） */
+  start: number;
+  end: number;
+}
+
+export const BIG5_REGIONS: Big5Region[] = [
+  { id: 'eudc-low', label: '造字區', start: 0x8140, end: 0xa0fe },
+  { id: 'symbols', label: '符號', start: 0xa140, end: 0xa3bf },
+  { id: 'reserved', label: '保留區', start: 0xa3c0, end: 0xa3fe },
+  { id: 'frequent', label: '常用字', start: 0xa440, end: 0xc67e },
+  { id: 'reserved-mid', label: '保留區', start: 0xc67f, end: 0xc6a0 },
+  { id: 'eudc-mid', label: '造字區', start: 0xc6a1, end: 0xc8fe },
+  { id: 'less-frequent', label: '次常用字', start: 0xc940, end: 0xf9d5 },
+  { id: 'extended', label: '倚天延伸', start: 0xf9d6, end: 0xf9fe },
+  { id: 'eudc-high', label: '造字區', start: 0xfa40, end: 0xfefe },
+];
+
+export function findRegion(code: number): Big5Region | undefined {
+  return BIG5_REGIONS.find(({ start, end }) => code >= start && code <= end);
+}
+
+/** 以 0x81–0xFE 為首位元組、合法尾位元組為第二位元組的碼 */
+export function isBig5Code(code: number): boolean {
+  return isLeadByte(code >> 8) && isTrailByte(code & 0xff);
+}
+
+/** "A4A4" / "0xa4a4" / "A4 A4" → 0xA4A4；不是合法的雙位元組碼時回傳 undefined */
+export function parseBig5Code(input: string): number | undefined {
+  const hex = input.trim().replace(/^0x/i, '').replace(/\s+/g, '');
+  if (!/^[0-9A-Fa-f]{4}$/.test(hex)) return undefined;
+  const code = parseInt(hex, 16);
+  return isBig5Code(code) ? code : undefined;
+}
@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Big5Variant } from './codec';
+import { parseCompareInput, compareSides } from './compare';
+
+const summary = (left: string, right: string, leftVariant: Big5Variant = 'cp950', rightVariant = leftVariant) =>
+  compareSides(parseCompareInput(left, leftVariant), parseCompareInput(right, rightVariant)).rows.map(
+    ({ kind, left, right }) => `${kind}:${left?.char ?? ''}${right?.char ?? ''}`
+  );
+
+test('parseCompareInput detects hex input and keeps positions', () => {
+  const text = parseCompareInput('中\n文');
+  assert.equal(text.source, 'text');
+  assert.deepEqual(
+    text.items.map(({ char, code, line, column }) => [char, code, line, column]),
+    [
+      ['中', 'A4A4', 1, 1],
+      ['\n', '000A', 1, 2],
+      ['文', 'A4E5', 2, 1],
+    ]
+  );
+
+  const hex = parseCompareInput('A4A4★????(😀)\nFFFF');
+  assert.equal(hex.source, 'hex');
+  assert.deepEqual(
+    hex.items.map(({ char, code, status }) => [char, code, status]),
+    [
+      ['中', 'A4A4', 'ok'],
+      ['😀', '????', 'unmapped'],
+      ['\n', '000A', 'ok'],
+      ['�', 'FFFF', 'unmapped'],
+    ]
+  );
+});
+
+test('parseCompareInput only auto-detects hex joined with ★', () => {
+  for (const input of ['2024', 'BEEF', 'CAFE 1234']) {
+    assert.equal(parseCompareInput(input).source, 'text', input);
+  }
+  assert.equal(parseCompareInput('A4A4★A4E5').source, 'hex');
+  assert.equal(parseCompareInput('A4A4★A4E5', 'cp950', 'text').source, 'text');
+
+  const hex = parseCompareInput('A4A4 A4E5', 'cp950', 'hex');
+  assert.equal(hex.source, 'hex');
+  assert.deepEqual(hex.items.map(({ char }) => char), ['中', '文']);
+});
+
+test('hex codes missing from the table are unmapped, not equal', () => {
+  const result = compareSides(parseCompareInput('FFFF★A4A4'), parseCompareInput('FFFF★A4A4', 'big5-hkscs'));
+  assert.deepEqual(result.rows.map(r => [r.kind, r.left?.status, r.right?.status]), [
+    ['equal', 'unmapped', 'unmapped'],
+    ['equal', 'ok', 'ok'],
+  ]);
+});
+
+test('compareSides aligns insertions, deletions and substitutions', () => {
+  assert.deepEqual(summary('中文字', '中字'), ['equal:中中', 'deleted:文', 'equal:字字']);
+  assert.deepEqual(summary('中字', '中文字'), ['equal:中中', 'inserted:文', 'equal:字字']);
+  assert.deepEqual(summary('中文字', '中丈字'), ['equal:中中', 'substituted:文丈', 'equal:字字']);
+});
+
+test('compareSides flags codes only one side can encode and differing codes', () => {
+  assert.deepEqual(summary('啱中', '啱中', 'cp950', 'big5-hkscs'), ['right-only:啱啱', 'equal:中中']);
+  // CP950 以 best-fit 把 É 編成 E（0045），HKSCS 有正式的碼
+  const result = compareSides(parseCompareInput('É', 'cp950'), parseCompareInput('É', 'big5-hkscs'));
+  assert.deepEqual(result.rows.map(r => [r.kind, r.left?.code, r.right?.code]), [['recoded', '0045', '885B']]);
+  assert.equal(result.counts.recoded, 1);
+  assert.equal(result.approximate, false);
+});
+
+test('compareSides mixes text and hex inputs', () => {
+  const result = compareSides(parseCompareInput('中文'), parseCompareInput('A4A4★A4E5'));
+  assert.deepEqual(result.counts.equal, 2);
+  assert.equal(result.rows.length, 2);
+});
+
+test('compareSides falls back to positional comparison for very different inputs', () => {
+  const result = compareSides(parseCompareInput('中'.repeat(3000)), parseCompareInput('文'.repeat(3000)));
+  assert.equal(result.approximate, true);
+  assert.equal(result.counts.substituted, 3000);
+});
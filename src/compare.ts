@@ -0,0 +1,248 @@
+import {
+  decode,
+  encodeChar,
+  REPLACEMENT_CHAR,
+  DEFAULT_VARIANT,
+  SEPARATOR,
+  type Big5Variant,
+  type EncodedChar,
+} from './codec';
+
+// ─── Big5 比對 ────────────────────────────────────────────────────────────────
+//
+//  兩邊各為中文或 ★ 分隔的 hex（可指定，或自動判斷），先逐字對齊（Myers diff），再比較對齊後的 Big5 碼：
+//    equal        同字同碼
+//    recoded      同字不同碼（兩套系統的對照表不同）
+//    left-only    同字，只有左邊編得出來
+//    right-only   同字，只有右邊編得出來
+//    substituted  不同字
+//    deleted      只在左邊
+//    inserted     只在右邊
+//  換行也是一個字（000A），行列位置因此與原文一致。
+//
+export type CompareSource = 'text' | 'hex';
+
+/** auto：含 ★ 且每個 token 都是碼時才當 hex，"2024"、"CAFE 1234" 這類文字不會被誤判 */
+export type CompareMode = 'auto' | CompareSource;
+
+export const COMPARE_MODES: CompareMode[] = ['auto', 'text', 'hex'];
+
+export type CompareKind = 'equal' | 'recoded' | 'left-only' | 'right-only' | 'substituted' | 'deleted' | 'inserted';
+
+export interface CompareItem extends EncodedChar {
+  /** 1 起算 */
+  line: number;
+  /** 1 起算，以字（code point）計 */
+  column: number;
+}
+
+export interface CompareSide {
+  source: CompareSource;
+  items: CompareItem[];
+}
+
+export interface CompareRow {
+  kind: CompareKind;
+  left?: CompareItem;
+  right?: CompareItem;
+}
+
+export interface CompareResult {
+  rows: CompareRow[];
+  counts: Record<CompareKind, number>;
+  /** 差異太多時改為逐位比較，不再對齊 */
+  approximate: boolean;
+}
+
+/** 超過這個編輯距離就放棄對齊，改為逐位比較 */
+const MAX_EDIT_DISTANCE = 2000;
+
+const NEWLINE_CODE = encodeChar('\n').code;
+
+function looksLikeHex(input: string, variant: Big5Variant): boolean {
+  if (!input.includes(SEPARATOR)) return false;
+  return decode(input, {}, variant).lines.every(line => line.every(token => token.status !== 'malformed'));
+}
+
+/** 解析一邊的輸入；hex 中查無此碼的字以 U+FFFD 表示並標為 unmapped，碼照原樣保留 */
+export function parseCompareInput(
+  input: string,
+  variant: Big5Variant = DEFAULT_VARIANT,
+  mode: CompareMode = 'auto'
+): CompareSide {
+  const items: CompareItem[] = [];
+  if (mode === 'hex' || (mode === 'auto' && looksLikeHex(input, variant))) {
+    // 指定為 hex 但沒有 ★ 時，以空白或碼的邊界切開（A4A4 A4E5、A4A4A4E5）
+    const { lines } = decode(input, { separator: input.includes(SEPARATOR) ? 'star' : 'space' }, variant);
+    lines.forEach((tokens, li) => {
+      if (li > 0) items.push({ char: '\n', code: NEWLINE_CODE, status: 'ok', line: li, column: lines[li - 1].length + 1 });
+      tokens.forEach((token, ci) => {
+        const code = token.token.slice(0, 4).toUpperCase();
+        const status = token.status === 'ok' ? 'ok' : 'unmapped';
+        items.push({ char: token.char, code, status, line: li + 1, column: ci + 1 });
+      });
+    });
+    return { source: 'hex', items };
+  }
+
+  let line = 1;
+  let column = 1;
+  for (const char of input) {
+    items.push({ ...encodeChar(char, variant), line, column });
+    if (char === '\n') {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+  }
+  return { source: 'text', items };
+}
+
+// 對齊用的鍵：同字即視為同一位置；hex 中不知道是什麼字的碼只和同碼對齊
+function alignKey({ char, code }: CompareItem): string {
+  return char === REPLACEMENT_CHAR ? `${char}${code}` : char;
+}
+
+type EditOp = 'equal' | 'delete' | 'insert';
+
+// Myers O(ND) diff；編輯距離超過 maxDistance 時回傳 null
+function diffKeys(a: string[], b: string[], maxDistance: number): EditOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const limit = Math.min(maxDistance, n + m);
+  const offset = limit + 1;
+  const v = new Int32Array(2 * limit + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= limit; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        return backtrack(trace, n, m);
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): EditOp[] {
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const down = k === -d || (k !== d && at(k - 1) < at(k + 1));
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push('equal');
+      x--;
+      y--;
+    }
+    ops.push(down ? 'insert' : 'delete');
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0 && y > 0) {
+    ops.push('equal');
+    x--;
+    y--;
+  }
+  return ops.reverse();
+}
+
+// 差異太多時逐位比較
+function positionalOps(n: number, m: number): EditOp[] {
+  const common = Math.min(n, m);
+  return [
+    ...Array<EditOp>(common).fill('equal'),
+    ...Array<EditOp>(n - common).fill('delete'),
+    ...Array<EditOp>(m - common).fill('insert'),
+  ];
+}
+
+function classify(left: CompareItem, right: CompareItem): CompareKind {
+  if (alignKey(left) !== alignKey(right)) return 'substituted';
+  const leftOk = left.status === 'ok';
+  const rightOk = right.status === 'ok';
+  if (leftOk && !rightOk) return 'left-only';
+  if (!leftOk && rightOk) return 'right-only';
+  return left.code === right.code ? 'equal' : 'recoded';
+}
+
+export function compareSides(left: CompareSide, right: CompareSide): CompareResult {
+  const a = left.items.map(alignKey);
+  const b = right.items.map(alignKey);
+
+  // 先去掉相同的頭尾，只對中間做 diff
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  const middle = diffKeys(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix), MAX_EDIT_DISTANCE);
+  const ops: EditOp[] = [
+    ...Array<EditOp>(prefix).fill('equal'),
+    ...(middle ?? positionalOps(a.length - prefix - suffix, b.length - prefix - suffix)),
+    ...Array<EditOp>(suffix).fill('equal'),
+  ];
+
+  const rows: CompareRow[] = [];
+  let i = 0;
+  let j = 0;
+  let deleted: CompareItem[] = [];
+  let inserted: CompareItem[] = [];
+  // 相鄰的刪除與插入兩兩配成替換，多出來的才算刪除或插入
+  const flush = () => {
+    const paired = Math.min(deleted.length, inserted.length);
+    for (let p = 0; p < paired; p++) {
+      rows.push({ kind: classify(deleted[p], inserted[p]), left: deleted[p], right: inserted[p] });
+    }
+    deleted.slice(paired).forEach(item => rows.push({ kind: 'deleted', left: item }));
+    inserted.slice(paired).forEach(item => rows.push({ kind: 'inserted', right: item }));
+    deleted = [];
+    inserted = [];
+  };
+  for (const op of ops) {
+    if (op === 'delete') {
+      deleted.push(left.items[i++]);
+    } else if (op === 'insert') {
+      inserted.push(right.items[j++]);
+    } else {
+      flush();
+      const l = left.items[i++];
+      const r = right.items[j++];
+      rows.push({ kind: classify(l, r), left: l, right: r });
+    }
+  }
+  flush();
+
+  const counts: Record<CompareKind, number> = {
+    equal: 0,
+    recoded: 0,
+    'left-only': 0,
+    'right-only': 0,
+    substituted: 0,
+    deleted: 0,
+    inserted: 0,
+  };
+  for (const { kind } of rows) counts[kind]++;
+  return { rows, counts, approximate: middle === null };
+}
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { ImageDown } from 'lucide-react';
+import type { EncodedChar } from '../codec';
+import {
+  renderBlocksSvg,
+  renderBlocksPng,
+  DEFAULT_BLOCK_EXPORT,
+  type BlockExportOptions,
+  type BlockExportStyle,
+} from '../blockExport';
+import { selectClass } from './FormatSelect';
+import { downloadBlob } from '../download';
+
+// ─── 方塊字匯出面板 ───────────────────────────────────────────────────────────
+export function BlockExportPanel({ lines, annotate }: { lines: EncodedChar[][]; annotate: boolean }) {
+  const [options, setOptions] = useState<BlockExportOptions>({ ...DEFAULT_BLOCK_EXPORT, annotate });
+  const [error, setError] = useState('');
+  const update = (patch: Partial<BlockExportOptions>) => setOptions(o => ({ ...o, ...patch }));
+
+  const handleExport = async (type: 'svg' | 'png') => {
+    const rendered = renderBlocksSvg(lines, options);
+    try {
+      const blob =
+        type === 'svg' ? new Blob([rendered.svg], { type: 'image/svg+xml' }) : await renderBlocksPng(rendered);
+      downloadBlob(blob, `big5-blocks.${type}`);
+      setError('');
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const buttonClass =
+    'flex items-center gap-1.5 px-3 py-1 rounded-lg text-xs font-medium border transition-all ' +
+    'text-indigo-200/80 border-indigo-400/50 hover:border-indigo-300/70 disabled:opacity-40 vhs-glow';
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-x-4 gap-y-2 px-3 py-2 rounded-xl border border-indigo-400/40 text-xs text-indigo-200/80"
+      style={{ background: 'rgba(12, 8, 32, 0.6)' }}
+    >
+      <label className="flex items-center gap-1.5">
+        每列
+        <input
+          type="number"
+          min={1}
+          max={100}
+          value={options.cellsPerRow}
+          onChange={e => update({ cellsPerRow: Math.max(1, Number(e.target.value) || 1) })}
+          className="w-14 px-1.5 py-0.5 rounded-md border border-indigo-400/50 bg-transparent font-mono text-indigo-100 outline-none focus:border-indigo-300/80"
+        />
+        格
+      </label>
+      <label className="flex items-center gap-1.5 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={options.annotate}
+          onChange={e => update({ annotate: e.target.checked })}
+          className="accent-indigo-400"
+        />
+        註記
+      </label>
+      <select
+        value={options.style}
+        onChange={e => update({ style: e.target.value as BlockExportStyle })}
+        title="匯出風格"
+        className={selectClass}
+        style={{ background: 'rgba(12, 8, 32, 0.5)' }}
+      >
+        <option value="glow" style={{ background: '#0c0820' }}>發光</option>
+        <option value="print" style={{ background: '#0c0820' }}>列印</option>
+      </select>
+      <label className="flex items-center gap-1.5 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={options.transparent}
+          onChange={e => update({ transparent: e.target.checked })}
+          className="accent-indigo-400"
+        />
+        透明背景
+      </label>
+      <div className="flex items-center gap-2 ml-auto">
+        <button onClick={() => handleExport('svg')} disabled={lines.length === 0} className={buttonClass}>
+          <ImageDown className="w-3 h-3" />
+          SVG
+        </button>
+        <button onClick={() => handleExport('png')} disabled={lines.length === 0} className={buttonClass}>
+          <ImageDown className="w-3 h-3" />
+          PNG
+        </button>
+      </div>
+      {error && <p className="w-full text-red-300/80">{error}</p>}
+    </div>
+  );
+}
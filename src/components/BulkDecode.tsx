@@ -0,0 +1,124 @@
+import { useState, useMemo } from 'react';
+import { Copy, Trash2 } from 'lucide-react';
+import {
+  getTable,
+  REPLACEMENT_CHAR,
+  DEFAULT_FORMAT,
+  encode,
+  decode,
+  type DecodeStatus,
+  type OutputFormat,
+  type Big5Variant,
+} from '../codec';
+import { copyText } from '../clipboard';
+import { FormatSelect } from './FormatSelect';
+
+// ─── 整段解碼元件 ─────────────────────────────────────────────────────────────
+const DECODE_ISSUE_LABEL: Record<Exclude<DecodeStatus, 'ok'>, string> = {
+  unmapped: '查無此碼',
+  placeholder: '原文無對應碼',
+  malformed: '格式錯誤',
+};
+
+export function BulkDecode({ variant }: { variant: Big5Variant }) {
+  const [hexInput, setHexInput] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [format, setFormat] = useState<OutputFormat>(DEFAULT_FORMAT);
+
+  const table = getTable(variant);
+  const { lines: decodedLines, text: decodedText, issueCount } = useMemo(
+    () => decode(hexInput, format, table.variant),
+    [hexInput, format, table]
+  );
+
+  const placeholder = useMemo(() => encode('中文', format).text, [format]);
+
+  const handleCopy = async () => {
+    if (!decodedText || !(await copyText(decodedText))) return;
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-end gap-2 flex-wrap">
+        <FormatSelect format={format} onChange={setFormat} showCase={false} />
+      </div>
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="relative group">
+          <textarea
+            value={hexInput}
+            onChange={e => setHexInput(e.target.value)}
+            className="w-full h-48 p-4 rounded-2xl border border-indigo-300/60 focus:border-indigo-200/80 focus:ring-0 resize-none transition-all font-mono text-sm leading-relaxed text-indigo-50 placeholder-indigo-500/50 vhs-glow-box"
+            style={{ background: 'rgba(12, 8, 32, 0.7)' }}
+            placeholder={placeholder}
+          />
+          {hexInput && (
+            <button
+              onClick={() => setHexInput('')}
+              className="absolute top-3 right-3 p-2 bg-indigo-900/50 hover:bg-indigo-800/50 rounded-lg text-indigo-200 transition-colors"
+              title="Clear input"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+
+        <div className="relative group">
+          <div
+            className="w-full h-48 p-4 rounded-2xl border border-indigo-300/60 shadow-inner overflow-auto text-lg leading-relaxed text-indigo-50 whitespace-pre-wrap break-all vhs-glow-box"
+            style={{ background: 'rgba(8, 5, 25, 0.7)' }}
+          >
+            {decodedLines.length === 0 ? (
+              <p className="text-indigo-700/50 text-sm">Result will appear here...</p>
+            ) : (
+              decodedLines.map((line, li) => (
+                <div key={li} className="min-h-[1.75rem]">
+                  {line.map((t, ti) =>
+                    t.status === 'ok' ? (
+                      <span key={ti}>{t.char}</span>
+                    ) : t.status === 'placeholder' && t.char !== REPLACEMENT_CHAR ? (
+                      <span
+                        key={ti}
+                        title={`${t.token}：${DECODE_ISSUE_LABEL[t.status]}，以註記還原`}
+                        className="underline decoration-amber-400/80 decoration-dotted"
+                      >
+                        {t.char}
+                      </span>
+                    ) : (
+                      <span
+                        key={ti}
+                        title={DECODE_ISSUE_LABEL[t.status]}
+                        className="mx-0.5 px-1 rounded font-mono text-xs align-middle text-red-300 bg-red-900/40 border border-red-500/40"
+                      >
+                        {t.token.trim() || '∅'}
+                      </span>
+                    )
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          {decodedText && (
+            <button
+              onClick={handleCopy}
+              className="absolute top-3 right-3 p-2 rounded-lg text-indigo-200 border border-indigo-300/60 transition-all flex items-center gap-2 hover:bg-indigo-800/30"
+              style={{ background: 'rgba(15, 10, 40, 0.8)' }}
+              title="Copy to clipboard"
+            >
+              {copied ? (
+                <span className="text-xs font-medium text-emerald-400">Copied!</span>
+              ) : (
+                <Copy className="w-4 h-4" />
+              )}
+            </button>
+          )}
+          {issueCount > 0 && (
+            <p className="mt-2 ml-1 text-xs text-red-300/80">{issueCount} 個 token 無法解碼</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState, useMemo } from 'react';
+import { getTable, type Big5Variant } from '../codec';
+import { searchCharacters, radicalChar, radicalsByStrokes, type SearchQuery } from '../search';
+import { CodeBlock } from './CodeBlock';
+
+// ─── 字元搜尋元件 ─────────────────────────────────────────────────────────────
+type SearchMode = 'codePoint' | 'radical' | 'strokes';
+
+const SEARCH_MODE_LABELS: Record<SearchMode, string> = {
+  codePoint: 'Unicode 碼位',
+  radical: '部首＋餘筆畫',
+  strokes: '總筆畫',
+};
+
+const MAX_SEARCH_RESULTS = 300;
+
+export function CharacterSearch({ variant, onInsert }: { variant: Big5Variant; onInsert: (char: string) => void }) {
+  const [mode, setMode] = useState<SearchMode>('codePoint');
+  const [codePoint, setCodePoint] = useState('');
+  const [radical, setRadical] = useState<number | null>(null);
+  const [residual, setResidual] = useState('');
+  const [strokes, setStrokes] = useState('');
+
+  const query = useMemo((): SearchQuery | null => {
+    if (mode === 'codePoint') return codePoint.trim() ? { codePoint } : null;
+    if (mode === 'radical') {
+      return radical === null ? null : { radical, residualStrokes: residual === '' ? undefined : Number(residual) };
+    }
+    return strokes === '' ? null : { totalStrokes: Number(strokes) };
+  }, [mode, codePoint, radical, residual, strokes]);
+
+  // 以 table 為依賴：自訂字改變時 getTable 會換成新的表
+  const table = getTable(variant);
+  const results = useMemo(() => (query ? searchCharacters(query, table.variant) : []), [query, table]);
+  const numberClass =
+    'w-20 px-2 py-1 rounded-lg border border-indigo-400/50 bg-transparent font-mono text-xs text-indigo-100 ' +
+    'placeholder-indigo-500/60 outline-none focus:border-indigo-300/80';
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <div className="flex flex-wrap justify-center gap-2">
+        {(Object.keys(SEARCH_MODE_LABELS) as SearchMode[]).map(id => (
+          <button
+            key={id}
+            onClick={() => setMode(id)}
+            className={`px-3 py-1 rounded-lg text-xs font-medium border transition-all ${
+              mode === id
+                ? 'bg-indigo-500/50 text-indigo-50 border-indigo-400/70 vhs-glow'
+                : 'text-indigo-200/80 border-indigo-400/50 hover:border-indigo-300/70 vhs-glow'
+            }`}
+            style={mode !== id ? { background: 'rgba(12, 8, 32, 0.5)' } : undefined}
+          >
+            {SEARCH_MODE_LABELS[id]}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'codePoint' && (
+        <input
+          value={codePoint}
+          onChange={e => setCodePoint(e.target.value)}
+          placeholder="U+4E2D 或 U+4E00-4E2F"
+          className={`${numberClass} w-56 text-center`}
+        />
+      )}
+
+      {mode === 'radical' && (
+        <div className="flex flex-col items-center gap-3 w-full">
+          <div
+            className="max-h-48 overflow-auto w-full rounded-xl border border-indigo-400/30 p-2 space-y-1"
+            style={{ background: 'rgba(12, 8, 32, 0.5)' }}
+          >
+            {radicalsByStrokes().map(([count, radicals]) => (
+              <div key={count} className="flex flex-wrap items-center gap-1">
+                <span className="w-8 text-right pr-1 font-mono text-[0.65rem] text-indigo-400/70">{count}畫</span>
+                {radicals.map(r => (
+                  <button
+                    key={r}
+                    onClick={() => setRadical(r === radical ? null : r)}
+                    title={`第 ${r} 部`}
+                    className={`w-7 h-7 rounded text-base leading-none border transition-colors ${
+                      r === radical
+                        ? 'bg-indigo-500/50 border-indigo-300/80 text-indigo-50'
+                        : 'border-indigo-400/30 text-indigo-200/90 hover:border-indigo-300/70'
+                    }`}
+                  >
+                    {radicalChar(r)}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-xs text-indigo-200/80">
+            餘筆畫
+            <input
+              type="number"
+              min={-2}
+              max={60}
+              value={residual}
+              onChange={e => setResidual(e.target.value)}
+              placeholder="全部"
+              className={numberClass}
+            />
+          </label>
+        </div>
+      )}
+
+      {mode === 'strokes' && (
+        <label className="flex items-center gap-2 text-xs text-indigo-200/80">
+          總筆畫
+          <input
+            type="number"
+            min={1}
+            max={80}
+            value={strokes}
+            onChange={e => setStrokes(e.target.value)}
+            className={numberClass}
+          />
+        </label>
+      )}
+
+      {query && (
+        <p className="text-xs text-indigo-300/70">
+          {results.length === 0
+            ? '找不到符合的字'
+            : `${results.length.toLocaleString()} 個字${results.length > MAX_SEARCH_RESULTS ? `，顯示前 ${MAX_SEARCH_RESULTS} 個` : ''}，點選插入輸入框`}
+        </p>
+      )}
+      {results.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-2 max-h-80 overflow-auto w-full p-1">
+          {results.slice(0, MAX_SEARCH_RESULTS).map(({ char, code, properties }) => (
+            <button
+              key={char}
+              onClick={() => onInsert(char)}
+              title={`${char} U+${char.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}${
+                properties
+                  ? ` · ${radicalChar(properties.radical)}部 ${properties.residualStrokes} 畫 · 共 ${properties.totalStrokes} 畫`
+                  : ''
+              }`}
+              className="rounded hover:bg-indigo-700/30 transition-colors p-0.5"
+            >
+              <CodeBlock char={char} code={code} status="ok" showAnnotation />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
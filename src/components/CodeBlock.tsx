@@ -0,0 +1,61 @@
+import type { EncodedChar } from '../codec';
+
+// ─── 方塊字顯示元件 ───────────────────────────────────────────────────────────
+//
+//  排列（以 C140 為例）：
+//  ┌──────┬──────┬──────┐
+//  │      │  1   │      │  ← code[1]，中欄上半，壓縮
+//  │  C   │──────│  0   │  ← code[0] 左欄全高，code[3] 右欄全高
+//  │      │  4   │      │  ← code[2]，中欄下半，壓縮
+//  └──────┴──────┴──────┘
+//
+export function CodeBlock({ code, char, showAnnotation }: EncodedChar & { showAnnotation: boolean }) {
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <div
+        className="border border-indigo-300/80 font-mono rounded overflow-hidden"
+        style={{
+          display: 'grid',
+          gridTemplateColumns: '1fr 0.65fr 1fr',
+          gridTemplateRows: '1fr 1fr',
+          width: '3.25rem',
+          height: '2.75rem',
+          background: 'rgba(20, 15, 50, 0.7)',
+          boxShadow: '0 0 4px rgba(180, 155, 255, 0.6), 0 0 14px rgba(160, 130, 255, 0.35), 0 0 28px rgba(140, 100, 240, 0.18), inset 0 0 10px rgba(160, 130, 255, 0.12)',
+        }}
+      >
+        {/* 左欄：code[0]，span 2 rows */}
+        <span
+          style={{ gridColumn: '1', gridRow: '1 / span 2' }}
+          className="flex items-center justify-center border-r border-indigo-300/70 text-indigo-100 font-bold text-sm leading-none vhs-glow"
+        >
+          {code[0]}
+        </span>
+        {/* 中欄上：code[1] */}
+        <span
+          style={{ gridColumn: '2', gridRow: '1', fontSize: '0.6rem' }}
+          className="flex items-center justify-center border-b border-indigo-300/60 text-purple-200 leading-none"
+        >
+          {code[1]}
+        </span>
+        {/* 右欄：code[3]，span 2 rows */}
+        <span
+          style={{ gridColumn: '3', gridRow: '1 / span 2' }}
+          className="flex items-center justify-center border-l border-indigo-300/70 text-indigo-100 font-bold text-sm leading-none vhs-glow"
+        >
+          {code[3]}
+        </span>
+        {/* 中欄下：code[2] */}
+        <span
+          style={{ gridColumn: '2', gridRow: '2', fontSize: '0.6rem' }}
+          className="flex items-center justify-center text-purple-200 leading-none"
+        >
+          {code[2]}
+        </span>
+      </div>
+      {showAnnotation && (
+        <span className="text-xs text-purple-300/90 leading-none vhs-glow">{char}</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { getTable, BIG5_REGIONS, findRegion, isTrailByte, parseBig5Code, type Big5Variant, type Big5RegionId } from '../codec';
+import { useViewport } from '../useViewport';
+import { visibleRange } from '../virtualRows';
+import { CodeBlock } from './CodeBlock';
+
+// ─── 碼表瀏覽元件 ─────────────────────────────────────────────────────────────
+//
+//  所有首位元組（81–FE）依序排成一個可捲動的表：每列為一個首位元組的一段尾位元組
+//  （4–7、A–F 開頭），欄為低位（0–F）。格子沿用 CodeBlock，外框顏色標示區段；
+//  不合法的尾位元組（7F、A0、FF）留白，未指派的碼以虛線框標示。只繪製可見的列。
+//
+const TRAIL_ROWS = [0x40, 0x50, 0x60, 0x70, 0xa0, 0xb0, 0xc0, 0xd0, 0xe0, 0xf0];
+const FIRST_LEAD = 0x81;
+const LEAD_COUNT = 0xfe - FIRST_LEAD + 1;
+const ROW_COUNT = LEAD_COUNT * TRAIL_ROWS.length;
+const ROW_HEIGHT = 72;
+const CELL_WIDTH = 60;
+
+const REGION_CLASS: Record<Big5RegionId, string> = {
+  'eudc-low': 'border-fuchsia-400/50',
+  symbols: 'border-sky-300/60',
+  reserved: 'border-slate-400/50',
+  frequent: 'border-indigo-300/80',
+  'reserved-mid': 'border-slate-400/50',
+  'eudc-mid': 'border-fuchsia-400/50',
+  'less-frequent': 'border-violet-300/60',
+  extended: 'border-emerald-300/60',
+  'eudc-high': 'border-fuchsia-400/50',
+};
+
+const toHex = (n: number, width: number) => n.toString(16).toUpperCase().padStart(width, '0');
+
+function rowOf(code: number): number {
+  return ((code >> 8) - FIRST_LEAD) * TRAIL_ROWS.length + TRAIL_ROWS.indexOf(code & 0xf0);
+}
+
+export function CodePageBrowser({ variant, onInsert }: { variant: Big5Variant; onInsert: (char: string) => void }) {
+  const [target, setTarget] = useState<number | null>(null);
+  const [jump, setJump] = useState('');
+  const { mapping, reverse } = getTable(variant);
+  const { ref, viewport } = useViewport();
+  const { start, end, offset, totalHeight } = visibleRange(ROW_COUNT, ROW_HEIGHT, viewport, 2);
+
+  const scrollTo = (code: number) => {
+    const row = rowOf(code);
+    if (ref.current && row >= 0) ref.current.scrollTop = row * ROW_HEIGHT;
+  };
+
+  const goTo = (code: number) => {
+    scrollTo(code);
+    setTarget(code);
+    setJump('');
+  };
+
+  // 接受 Big5 碼（A4A4、0xA4A4）或直接輸入中文字
+  const handleJump = () => {
+    const code = parseBig5Code(jump);
+    if (code !== undefined) return goTo(code);
+    const char = [...jump.trim()][0];
+    const hex = char && mapping.get(char);
+    if (hex && parseInt(hex, 16) >= 0x100) goTo(parseInt(hex, 16));
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      {/* 區段與跳轉 */}
+      <div className="flex flex-wrap items-center justify-center gap-1.5 text-xs">
+        {BIG5_REGIONS.map(region => (
+          <button
+            key={region.id}
+            onClick={() => scrollTo(region.start)}
+            title={`${toHex(region.start, 4)}–${toHex(region.end, 4)}`}
+            className={`px-2 py-0.5 rounded-md border text-indigo-200/80 hover:text-indigo-50 transition-colors ${REGION_CLASS[region.id]}`}
+            style={{ background: 'rgba(12, 8, 32, 0.5)' }}
+          >
+            {region.label} <span className="font-mono text-indigo-400/70">{toHex(region.start, 4)}</span>
+          </button>
+        ))}
+        <input
+          value={jump}
+          onChange={e => setJump(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleJump()}
+          placeholder="跳至 A4A4 或 中"
+          className="w-36 px-2 py-1 rounded-lg border border-indigo-400/50 bg-transparent font-mono text-xs text-indigo-100 placeholder-indigo-500/60 outline-none focus:border-indigo-300/80"
+        />
+      </div>
+
+      {/* 81–FE × 尾位元組 */}
+      <div
+        ref={ref}
+        className="w-full max-h-[28rem] overflow-auto rounded-xl border border-indigo-400/40 p-2"
+        style={{ background: 'rgba(12, 8, 32, 0.5)' }}
+      >
+        <div className="relative font-mono" style={{ height: totalHeight, minWidth: CELL_WIDTH * 17 }}>
+          <div style={{ transform: `translateY(${offset}px)` }}>
+            {Array.from({ length: end - start }, (_, i) => start + i).map(index => {
+              const lead = FIRST_LEAD + Math.floor(index / TRAIL_ROWS.length);
+              const row = TRAIL_ROWS[index % TRAIL_ROWS.length];
+              const leadRegion = row === TRAIL_ROWS[0] ? findRegion((lead << 8) | row) : undefined;
+              return (
+                <div
+                  key={index}
+                  className={`flex items-center ${row === TRAIL_ROWS[0] ? 'border-t border-indigo-400/30' : ''}`}
+                  style={{ height: ROW_HEIGHT }}
+                >
+                  <div className="shrink-0 pr-1 text-right text-[0.65rem] text-indigo-400/70" style={{ width: CELL_WIDTH }}>
+                    {toHex(lead, 2)}
+                    {toHex(row >> 4, 1)}x
+                    {leadRegion && <div className="font-sans text-indigo-300/70">{leadRegion.label}</div>}
+                  </div>
+                  {Array.from({ length: 16 }, (_, col) => {
+                    const trail = row + col;
+                    if (!isTrailByte(trail)) return <div key={col} className="shrink-0" style={{ width: CELL_WIDTH }} />;
+                    const code = (lead << 8) | trail;
+                    const hex = toHex(code, 4);
+                    const char = reverse.get(hex);
+                    const region = findRegion(code);
+                    const regionClass = region ? REGION_CLASS[region.id] : 'border-slate-500/40';
+                    return (
+                      <div key={col} className="shrink-0 flex justify-center" style={{ width: CELL_WIDTH }}>
+                        {char ? (
+                          <button
+                            onClick={() => onInsert(char)}
+                            title={`${hex} ${char} U+${toHex(char.codePointAt(0)!, 4)}${region ? ` · ${region.label}` : ''}`}
+                            className={`p-0.5 rounded-md border hover:bg-indigo-700/40 transition-colors ${regionClass} ${
+                              target === code ? 'ring-2 ring-amber-300/80' : ''
+                            }`}
+                          >
+                            <CodeBlock code={hex} char={char} status="ok" showAnnotation />
+                          </button>
+                        ) : (
+                          <div
+                            title={`${hex} 未指派`}
+                            className={`flex items-center justify-center rounded border border-dashed border-indigo-500/30 text-[0.6rem] text-indigo-500/60 ${
+                              target === code ? 'ring-2 ring-amber-300/80' : ''
+                            }`}
+                            style={{ width: '3.25rem', height: '2.75rem' }}
+                          >
+                            {hex}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
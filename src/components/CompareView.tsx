@@ -0,0 +1,184 @@
+import { useState, useMemo } from 'react';
+import { BIG5_VARIANTS, BIG5_VARIANT_LABELS, getTable, type Big5Variant } from '../codec';
+import {
+  parseCompareInput,
+  compareSides,
+  COMPARE_MODES,
+  type CompareItem,
+  type CompareKind,
+  type CompareMode,
+  type CompareSource,
+} from '../compare';
+import { CodeBlock } from './CodeBlock';
+import { selectClass } from './FormatSelect';
+
+// ─── Big5 比對元件 ────────────────────────────────────────────────────────────
+const COMPARE_KIND_LABEL: Record<CompareKind, string> = {
+  equal: '相同',
+  recoded: '同字不同碼',
+  'left-only': '僅左邊可編碼',
+  'right-only': '僅右邊可編碼',
+  substituted: '替換',
+  deleted: '僅左邊有',
+  inserted: '僅右邊有',
+};
+
+const COMPARE_KIND_CLASS: Record<CompareKind, string> = {
+  equal: '',
+  recoded: 'bg-sky-500/30 text-sky-50',
+  'left-only': 'bg-amber-500/30 text-amber-50',
+  'right-only': 'bg-amber-500/30 text-amber-50',
+  substituted: 'bg-fuchsia-500/30 text-fuchsia-50',
+  deleted: 'bg-red-500/30 text-red-50',
+  inserted: 'bg-emerald-500/30 text-emerald-50',
+};
+
+const COMPARE_SOURCE_LABEL: Record<CompareSource, string> = {
+  text: '中文',
+  hex: 'Big5 hex',
+};
+
+const COMPARE_MODE_LABEL: Record<CompareMode, string> = {
+  auto: '自動',
+  ...COMPARE_SOURCE_LABEL,
+};
+
+const MAX_COMPARE_RENDERED = 5000;
+const MAX_LISTED_DIFFERENCES = 200;
+
+// 換行在方塊字下方顯示成 ↵
+function compareTile(item: CompareItem | undefined) {
+  if (!item) return <span className="w-[3.25rem] text-center text-indigo-500/60">—</span>;
+  return <CodeBlock {...item} char={item.char === '\n' ? '↵' : item.char} showAnnotation />;
+}
+
+export function CompareView({ variant }: { variant: Big5Variant }) {
+  const [inputs, setInputs] = useState(['', '']);
+  const [variants, setVariants] = useState<Big5Variant[]>([variant, variant]);
+  const [modes, setModes] = useState<CompareMode[]>(['auto', 'auto']);
+  const leftTable = getTable(variants[0]);
+  const rightTable = getTable(variants[1]);
+
+  const left = useMemo(() => parseCompareInput(inputs[0], leftTable.variant, modes[0]), [inputs, leftTable, modes]);
+  const right = useMemo(() => parseCompareInput(inputs[1], rightTable.variant, modes[1]), [inputs, rightTable, modes]);
+  const { rows, counts, approximate } = useMemo(() => compareSides(left, right), [left, right]);
+  const differences = rows.filter(row => row.kind !== 'equal');
+  const shown = rows.slice(0, MAX_COMPARE_RENDERED);
+
+  const sides = [
+    { side: left, key: 'left' as const },
+    { side: right, key: 'right' as const },
+  ];
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="grid md:grid-cols-2 gap-4">
+        {sides.map(({ side, key }, i) => (
+          <div key={key} className="flex flex-col gap-2">
+            <div className="flex items-center justify-between gap-2 ml-1">
+              <span className="flex items-center gap-2 text-xs text-indigo-300/80">
+                {i === 0 ? '左' : '右'}
+                <select
+                  value={modes[i]}
+                  onChange={e => setModes(m => m.map((old, j) => (j === i ? (e.target.value as CompareMode) : old)))}
+                  title="輸入內容：自動判斷（含 ★ 時視為 hex）、中文或 Big5 hex"
+                  className={selectClass}
+                  style={{ background: 'rgba(12, 8, 32, 0.5)' }}
+                >
+                  {COMPARE_MODES.map(id => (
+                    <option key={id} value={id} style={{ background: '#0c0820' }}>
+                      {COMPARE_MODE_LABEL[id]}
+                    </option>
+                  ))}
+                </select>
+                {modes[i] === 'auto' && inputs[i].trim() && (
+                  <span className="text-indigo-400/70">{COMPARE_SOURCE_LABEL[side.source]}</span>
+                )}
+              </span>
+              <select
+                value={variants[i]}
+                onChange={e => setVariants(v => v.map((old, j) => (j === i ? (e.target.value as Big5Variant) : old)))}
+                title="編碼變體"
+                className={selectClass}
+                style={{ background: 'rgba(12, 8, 32, 0.5)' }}
+              >
+                {BIG5_VARIANTS.map(id => (
+                  <option key={id} value={id} style={{ background: '#0c0820' }}>
+                    {BIG5_VARIANT_LABELS[id]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <textarea
+              value={inputs[i]}
+              onChange={e => setInputs(v => v.map((old, j) => (j === i ? e.target.value : old)))}
+              className="w-full h-32 p-3 rounded-2xl border border-indigo-300/60 focus:border-indigo-200/80 focus:ring-0 resize-none text-sm leading-relaxed text-indigo-50 placeholder-indigo-500/50 vhs-glow-box"
+              style={{ background: 'rgba(12, 8, 32, 0.7)' }}
+              placeholder={i === 0 ? '中文或 A4A4★A4E5…' : '另一份要比對的內容'}
+            />
+          </div>
+        ))}
+      </div>
+
+      {inputs.some(text => text.trim()) && (
+        <>
+          <div className="flex flex-wrap gap-1.5 text-xs">
+            {(Object.keys(COMPARE_KIND_LABEL) as CompareKind[]).map(kind =>
+              counts[kind] > 0 ? (
+                <span key={kind} className={`px-2 py-0.5 rounded-md border border-indigo-400/40 ${COMPARE_KIND_CLASS[kind] || 'text-indigo-200/80'}`}>
+                  {COMPARE_KIND_LABEL[kind]} {counts[kind].toLocaleString()}
+                </span>
+              ) : null
+            )}
+            {approximate && <span className="px-2 py-0.5 text-amber-200/80">差異過多，改為逐字位置比對</span>}
+          </div>
+
+          {/* 並排：各自顯示原文並標出差異 */}
+          <div className="grid md:grid-cols-2 gap-4">
+            {sides.map(({ key }) => (
+              <div
+                key={key}
+                className="max-h-48 overflow-auto p-3 rounded-xl border border-indigo-400/40 text-sm leading-relaxed text-indigo-100/80 whitespace-pre-wrap break-all"
+                style={{ background: 'rgba(12, 8, 32, 0.5)' }}
+              >
+                {shown.map((row, ri) => {
+                  const item = row[key];
+                  if (!item) return null;
+                  return (
+                    <span
+                      key={ri}
+                      title={`${item.code} · ${COMPARE_KIND_LABEL[row.kind]}`}
+                      className={`rounded-sm ${COMPARE_KIND_CLASS[row.kind]}`}
+                    >
+                      {item.char}
+                    </span>
+                  );
+                })}
+                {rows.length > MAX_COMPARE_RENDERED && <span className="text-indigo-400/70"> …</span>}
+              </div>
+            ))}
+          </div>
+
+          {differences.length > 0 && (
+            <ul className="max-h-80 overflow-auto space-y-2">
+              {differences.slice(0, MAX_LISTED_DIFFERENCES).map((row, i) => (
+                <li key={i} className="flex flex-wrap items-center gap-3 text-xs">
+                  <span className="w-28 font-mono text-indigo-300/60">
+                    {row.left ? `L${row.left.line}:${row.left.column}` : '—'} / {row.right ? `R${row.right.line}:${row.right.column}` : '—'}
+                  </span>
+                  {compareTile(row.left)}
+                  <span className="text-indigo-400/60">→</span>
+                  {compareTile(row.right)}
+                  <span className={`px-2 py-0.5 rounded-md ${COMPARE_KIND_CLASS[row.kind]}`}>{COMPARE_KIND_LABEL[row.kind]}</span>
+                </li>
+              ))}
+              {differences.length > MAX_LISTED_DIFFERENCES && (
+                <li className="text-xs text-indigo-400/70">… 另有 {differences.length - MAX_LISTED_DIFFERENCES} 處差異</li>
+              )}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { AlertTriangle } from 'lucide-react';
+import { BIG5_VARIANT_LABELS } from '../codec';
+import type { Diagnostic, UnmappedReason } from '../diagnostics';
+
+// ─── 無對應字診斷面板 ─────────────────────────────────────────────────────────
+const REASON_LABEL: Record<UnmappedReason, string> = {
+  emoji: '表情符號',
+  combining: '組合字元',
+  compatibility: '相容字元',
+  simplified: '簡體字',
+  astral: 'BMP 以外的字',
+  other: '未收錄',
+};
+
+const MAX_LISTED_POSITIONS = 5;
+
+export function DiagnosticsPanel({
+  diagnostics,
+  onApply,
+}: {
+  diagnostics: Diagnostic[];
+  onApply: (char: string, substitute: string) => void;
+}) {
+  const total = diagnostics.reduce((n, d) => n + d.positions.length, 0);
+  return (
+    <div
+      className="rounded-2xl border border-amber-400/40 p-4 vhs-glow-box"
+      style={{ background: 'rgba(12, 8, 32, 0.7)' }}
+    >
+      <h3 className="flex items-center gap-2 text-xs font-medium text-amber-200/90 uppercase tracking-wider mb-3">
+        <AlertTriangle className="w-3.5 h-3.5" />
+        {total} 個字無 Big5 對應（{diagnostics.length} 種）
+      </h3>
+      <ul className="max-h-64 overflow-auto divide-y divide-indigo-400/20">
+        {diagnostics.map(({ char, codePoint, reason, positions, suggestions, variants }) => (
+          <li key={char} className="flex flex-wrap items-center gap-x-4 gap-y-1 py-2 text-xs">
+            <span className="w-8 text-center text-2xl text-indigo-50">{/\p{M}/u.test(char) ? `◌${char}` : char}</span>
+            <span className="w-16 font-mono text-indigo-300/80">{codePoint}</span>
+            <span className="w-24 text-amber-200/80">{REASON_LABEL[reason]}</span>
+            <span className="flex-1 min-w-[8rem] font-mono text-indigo-300/60">
+              {positions
+                .slice(0, MAX_LISTED_POSITIONS)
+                .map(({ line, column }) => `${line}:${column}`)
+                .join(', ')}
+              {positions.length > MAX_LISTED_POSITIONS && ` … 共 ${positions.length} 處`}
+            </span>
+            <span className="flex flex-wrap items-center gap-1.5">
+              {suggestions.map(substitute => (
+                <button
+                  key={substitute}
+                  onClick={() => onApply(char, substitute)}
+                  title={substitute ? `全部換成 ${substitute}` : '全部刪除'}
+                  className="px-2 py-0.5 rounded-md border border-emerald-400/50 text-emerald-200 hover:bg-emerald-800/30 transition-colors"
+                >
+                  {substitute ? `→ ${substitute}` : '刪除'}
+                </button>
+              ))}
+              {variants.length > 0 && (
+                <span className="text-indigo-300/60">{variants.map(v => BIG5_VARIANT_LABELS[v]).join(' / ')} 有收錄</span>
+              )}
+              {suggestions.length === 0 && variants.length === 0 && (
+                <span className="text-indigo-400/50">無建議</span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState, useRef, type ChangeEvent } from 'react';
+import { Trash2, Download, Upload, ImagePlus, Plus } from 'lucide-react';
+import { formatCodePoint } from '../diagnostics';
+import {
+  createEudcEntry,
+  parseEudcFile,
+  serializeEudc,
+  mergeEudc,
+  nextPrivateUse,
+  MAX_GLYPH_BYTES,
+  type EudcEntry,
+} from '../eudc';
+import { downloadBlob } from '../download';
+
+// ─── 造字區自訂字管理 ─────────────────────────────────────────────────────────
+export function EudcManager({
+  entries,
+  onChange,
+  onInsert,
+}: {
+  entries: EudcEntry[];
+  onChange: (entries: EudcEntry[]) => void;
+  onInsert: (char: string) => void;
+}) {
+  const [code, setCode] = useState('');
+  const [codePoint, setCodePoint] = useState('');
+  const [notice, setNotice] = useState('');
+  const [glyphTarget, setGlyphTarget] = useState<EudcEntry | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const glyphInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAdd = () => {
+    try {
+      const entry = createEudcEntry(code, codePoint || nextPrivateUse(entries));
+      onChange(mergeEudc(entries, [entry]));
+      setCode('');
+      setCodePoint('');
+      setNotice(`已加入 ${entry.code} → ${formatCodePoint(entry.char)}`);
+    } catch (error) {
+      setNotice((error as Error).message);
+    }
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseEudcFile(await file.text());
+      onChange(mergeEudc(entries, imported));
+      setNotice(`${file.name}：已匯入 ${imported.length} 個自訂字`);
+    } catch (error) {
+      setNotice(`${file.name}：${(error as Error).message}`);
+    }
+  };
+
+  const handleGlyph = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !glyphTarget) return;
+    if (file.size > MAX_GLYPH_BYTES) {
+      setNotice(`${file.name}：字形圖不可超過 ${MAX_GLYPH_BYTES / 1024} KB`);
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const entry = createEudcEntry(glyphTarget.code, glyphTarget.char, reader.result as string);
+        onChange(mergeEudc(entries, [entry]));
+        setNotice('');
+      } catch (error) {
+        setNotice(`${file.name}：${(error as Error).message}`);
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const buttonClass =
+    'flex items-center gap-1.5 px-3 py-1 rounded-lg text-xs font-medium border transition-all text-indigo-200/80 border-indigo-400/50 hover:border-indigo-300/70 vhs-glow';
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <input
+          value={code}
+          onChange={e => setCode(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleAdd()}
+          placeholder="FA40"
+          title="Big5 碼（造字區）"
+          className="w-20 px-2 py-1 rounded-lg border border-indigo-400/50 bg-transparent font-mono text-xs text-indigo-100 outline-none focus:border-indigo-300/80 placeholder-indigo-500/50"
+        />
+        <span className="text-indigo-300/70">↔</span>
+        <input
+          value={codePoint}
+          onChange={e => setCodePoint(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleAdd()}
+          placeholder={nextPrivateUse(entries)}
+          title="Unicode 私用區碼位；留空時用下一個未使用的碼位"
+          className="w-24 px-2 py-1 rounded-lg border border-indigo-400/50 bg-transparent font-mono text-xs text-indigo-100 outline-none focus:border-indigo-300/80 placeholder-indigo-500/50"
+        />
+        <button onClick={handleAdd} className={buttonClass} style={{ background: 'rgba(12, 8, 32, 0.5)' }}>
+          <Plus className="w-3 h-3" />
+          新增
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          title="匯入 JSON 或「Big5 碼 碼位」文字檔，同碼的字會被覆蓋"
+          className={buttonClass}
+          style={{ background: 'rgba(12, 8, 32, 0.5)' }}
+        >
+          <Upload className="w-3 h-3" />
+          匯入
+        </button>
+        <button
+          onClick={() => downloadBlob(new Blob([serializeEudc(entries)], { type: 'application/json' }), 'eudc.json')}
+          disabled={entries.length === 0}
+          className={`${buttonClass} disabled:opacity-40`}
+          style={{ background: 'rgba(12, 8, 32, 0.5)' }}
+        >
+          <Download className="w-3 h-3" />
+          匯出
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,.txt,application/json,text/plain" onChange={handleImport} className="hidden" />
+        <input ref={glyphInputRef} type="file" accept="image/*" onChange={handleGlyph} className="hidden" />
+      </div>
+      {notice && <p className="text-xs text-indigo-300/80">{notice}</p>}
+
+      {entries.length > 0 ? (
+        <ul className="w-full max-h-64 overflow-auto grid grid-cols-2 sm:grid-cols-3 gap-2">
+          {entries.map(entry => (
+            <li
+              key={entry.code}
+              className="group flex items-center gap-2 px-2 py-1.5 rounded-lg border border-fuchsia-400/40"
+              style={{ background: 'rgba(12, 8, 32, 0.5)' }}
+            >
+              <button
+                onClick={() => onInsert(entry.char)}
+                title="插入到輸入框"
+                className="w-8 h-8 flex items-center justify-center rounded border border-indigo-400/40 text-lg text-indigo-50"
+              >
+                {entry.glyph ? <img src={entry.glyph} alt={formatCodePoint(entry.char)} className="w-7 h-7 object-contain" /> : entry.char}
+              </button>
+              <span className="flex-1 font-mono text-[0.7rem] leading-tight">
+                <span className="block text-indigo-100">{entry.code}</span>
+                <span className="block text-indigo-400/70">{formatCodePoint(entry.char)}</span>
+              </span>
+              <button
+                onClick={() => {
+                  setGlyphTarget(entry);
+                  glyphInputRef.current?.click();
+                }}
+                title="設定字形圖"
+                className="p-1 rounded opacity-0 group-hover:opacity-100 text-indigo-300/80 hover:text-indigo-100 transition-opacity"
+              >
+                <ImagePlus className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => onChange(entries.filter(e => e.code !== entry.code))}
+                title="刪除"
+                className="p-1 rounded opacity-0 group-hover:opacity-100 text-indigo-300/80 hover:text-red-300 transition-opacity"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-indigo-500/70">尚無自訂字。造字區：8140–A0FE、C6A1–C8FE、FA40–FEFE</p>
+      )}
+      {entries.length > 0 && (
+        <button
+          onClick={() => onChange([])}
+          className="text-[0.65rem] text-indigo-400/70 hover:text-red-300 transition-colors"
+        >
+          清空自訂字（{entries.length}）
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { CODE_NOTATIONS, type CodeNotation, type SeparatorId, type OutputFormat } from '../codec';
+
+// ─── 輸出格式選單 ─────────────────────────────────────────────────────────────
+export const NOTATION_LABELS: Record<CodeNotation, string> = {
+  hex: 'A4A4',
+  prefixed: '0xA4A4',
+  escape: '\\xA4\\xA4',
+  url: '%A4%A4',
+  json: 'JSON',
+};
+
+const SEPARATOR_LABELS: Record<SeparatorId, string> = {
+  star: '★ 分隔',
+  space: '空白分隔',
+  comma: '逗號分隔',
+  none: '不分隔',
+};
+
+export const selectClass =
+  'px-2 py-1 rounded-lg text-xs font-medium border outline-none cursor-pointer transition-all ' +
+  'text-indigo-200/80 border-indigo-400/50 hover:border-indigo-300/70 vhs-glow';
+
+export function FormatSelect({
+  format,
+  onChange,
+  showCase = true,
+}: {
+  format: OutputFormat;
+  onChange: (format: OutputFormat) => void;
+  showCase?: boolean;
+}) {
+  return (
+    <>
+      <select
+        value={format.notation}
+        onChange={e => onChange({ ...format, notation: e.target.value as CodeNotation })}
+        title="輸出格式"
+        className={selectClass}
+        style={{ background: 'rgba(12, 8, 32, 0.5)' }}
+      >
+        {CODE_NOTATIONS.map(id => (
+          <option key={id} value={id} style={{ background: '#0c0820' }}>
+            {NOTATION_LABELS[id]}
+          </option>
+        ))}
+      </select>
+      {format.notation !== 'json' && (
+        <select
+          value={format.separator}
+          onChange={e => onChange({ ...format, separator: e.target.value as SeparatorId })}
+          title="分隔符號"
+          className={selectClass}
+          style={{ background: 'rgba(12, 8, 32, 0.5)' }}
+        >
+          {(Object.keys(SEPARATOR_LABELS) as SeparatorId[]).map(id => (
+            <option key={id} value={id} style={{ background: '#0c0820' }}>
+              {SEPARATOR_LABELS[id]}
+            </option>
+          ))}
+        </select>
+      )}
+      {showCase && (
+        <button
+          onClick={() => onChange({ ...format, lowercase: !format.lowercase })}
+          title="大寫/小寫 hex"
+          className="px-3 py-1 rounded-lg text-xs font-mono font-medium border transition-all text-indigo-200/80 border-indigo-400/50 hover:border-indigo-300/70 vhs-glow"
+          style={{ background: 'rgba(12, 8, 32, 0.5)' }}
+        >
+          {format.lowercase ? 'a4' : 'A4'}
+        </button>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,172 @@
+import { useState, useEffect } from 'react';
+import { Trash2, Bookmark, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { BIG5_VARIANT_LABELS } from '../codec';
+import {
+  listHistory,
+  deleteHistory,
+  clearHistory,
+  listSnippets,
+  saveSnippet,
+  deleteSnippet,
+  type Conversion,
+  type HistoryEntry,
+  type Snippet,
+} from '../history';
+import { NOTATION_LABELS } from './FormatSelect';
+
+// ─── 轉換紀錄側欄 ─────────────────────────────────────────────────────────────
+export const HISTORY_SAVE_DELAY = 2000;
+
+type HistoryTab = 'history' | 'snippets';
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString('zh-TW', { dateStyle: 'short', timeStyle: 'short' });
+}
+
+export function HistorySidebar({
+  current,
+  notice,
+  onLoad,
+  onClose,
+}: {
+  current: Conversion;
+  /** 自動儲存略過時的說明 */
+  notice: string;
+  onLoad: (conversion: Conversion) => void;
+  onClose: () => void;
+}) {
+  const [tab, setTab] = useState<HistoryTab>('history');
+  const [query, setQuery] = useState('');
+  const [items, setItems] = useState<(HistoryEntry | Snippet)[]>([]);
+  const [total, setTotal] = useState(0);
+  const [error, setError] = useState('');
+  const [snippetName, setSnippetName] = useState('');
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      (tab === 'history' ? listHistory(query) : listSnippets(query))
+        .then(result => {
+          if (cancelled) return;
+          setItems(result.items);
+          setTotal(result.total);
+          setError('');
+        })
+        .catch((e: Error) => !cancelled && setError(`無法讀取紀錄：${e.message}`));
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [tab, query, reloadKey]);
+
+  const run = (action: Promise<unknown>) =>
+    action.then(() => setReloadKey(k => k + 1)).catch((e: Error) => setError(e.message));
+
+  const handleDelete = (id: number) => run(tab === 'history' ? deleteHistory(id) : deleteSnippet(id));
+
+  const handleSaveSnippet = () => {
+    const name = snippetName.trim();
+    if (!name || !current.input) return;
+    run(saveSnippet(name, current).then(() => {
+      setSnippetName('');
+      setTab('snippets');
+    }));
+  };
+
+  return (
+    <motion.aside
+      initial={{ x: '100%' }}
+      animate={{ x: 0 }}
+      exit={{ x: '100%' }}
+      transition={{ type: 'tween', duration: 0.2 }}
+      className="fixed top-0 right-0 z-40 h-full w-80 max-w-full flex flex-col border-l border-indigo-300/60 text-indigo-200 vhs-glow-box"
+      style={{ background: 'rgba(8, 5, 25, 0.95)' }}
+    >
+      <div className="flex items-center justify-between px-4 py-3 border-b border-indigo-400/30">
+        <div className="flex gap-2">
+          {(['history', 'snippets'] as HistoryTab[]).map(id => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`px-3 py-1 rounded-lg text-xs font-medium border transition-all ${
+                tab === id
+                  ? 'bg-indigo-500/50 text-indigo-50 border-indigo-400/70 vhs-glow'
+                  : 'text-indigo-200/80 border-indigo-400/50 hover:border-indigo-300/70'
+              }`}
+            >
+              {id === 'history' ? '轉換紀錄' : '片段'}
+            </button>
+          ))}
+        </div>
+        <button onClick={onClose} title="關閉" className="p-1 rounded-lg hover:bg-indigo-800/40">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="px-4 py-3 space-y-2 border-b border-indigo-400/30">
+        <input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder={tab === 'history' ? '搜尋紀錄內容' : '搜尋片段名稱或內容'}
+          className="w-full px-2 py-1 rounded-lg border border-indigo-400/50 bg-transparent text-xs text-indigo-100 placeholder-indigo-500/60 outline-none focus:border-indigo-300/80"
+        />
+        <div className="flex gap-2">
+          <input
+            value={snippetName}
+            onChange={e => setSnippetName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleSaveSnippet()}
+            placeholder="片段名稱"
+            className="flex-1 min-w-0 px-2 py-1 rounded-lg border border-indigo-400/50 bg-transparent text-xs text-indigo-100 placeholder-indigo-500/60 outline-none focus:border-indigo-300/80"
+          />
+          <button
+            onClick={handleSaveSnippet}
+            disabled={!snippetName.trim() || !current.input}
+            title="將目前的輸入與設定存為片段"
+            className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs border border-indigo-400/50 hover:border-indigo-300/70 disabled:opacity-40"
+          >
+            <Bookmark className="w-3 h-3" />
+            存為片段
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-300/80">{error}</p>}
+        {notice && <p className="text-xs text-amber-300/80">{notice}</p>}
+      </div>
+
+      <ul className="flex-1 overflow-auto divide-y divide-indigo-400/20">
+        {items.map(item => (
+          <li key={item.id} className="group flex items-start gap-2 px-4 py-2 hover:bg-indigo-900/30">
+            <button onClick={() => onLoad(item)} className="flex-1 min-w-0 text-left">
+              {'name' in item && <p className="text-xs font-medium text-indigo-100 truncate">{item.name}</p>}
+              <p className="text-sm text-indigo-50 truncate">{item.input.split('\n')[0] || '（空白）'}</p>
+              <p className="text-[0.65rem] text-indigo-400/70">
+                {formatTimestamp(item.createdAt)} · {BIG5_VARIANT_LABELS[item.variant]} · {NOTATION_LABELS[item.format.notation]}
+              </p>
+            </button>
+            <button
+              onClick={() => handleDelete(item.id)}
+              title="刪除"
+              className="p-1 rounded opacity-0 group-hover:opacity-100 text-indigo-300/80 hover:text-red-300 transition-opacity"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </li>
+        ))}
+        {!error && items.length === 0 && (
+          <li className="px-4 py-6 text-center text-xs text-indigo-500/70">{query ? '沒有符合的項目' : '尚無項目'}</li>
+        )}
+      </ul>
+
+      <div className="flex items-center justify-between px-4 py-2 border-t border-indigo-400/30 text-[0.65rem] text-indigo-400/70">
+        <span>共 {total} 筆</span>
+        {tab === 'history' && total > 0 && (
+          <button onClick={() => run(clearHistory())} className="hover:text-red-300 transition-colors">
+            清空紀錄
+          </button>
+        )}
+      </div>
+    </motion.aside>
+  );
+}
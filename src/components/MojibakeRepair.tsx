@@ -0,0 +1,67 @@
+import { useState, useMemo } from 'react';
+import { getTable, type Big5Variant } from '../codec';
+import { copyText } from '../clipboard';
+import { repairMojibake, type MisDecoding, type RepairCandidate } from '../mojibake';
+
+// ─── 亂碼修復元件 ─────────────────────────────────────────────────────────────
+const MIS_DECODING_LABEL: Record<MisDecoding, string> = {
+  latin1: 'Latin-1 / Windows-1252',
+  'utf-8': 'UTF-8',
+  gbk: 'GBK',
+};
+
+export function MojibakeRepair({ variant, onUse }: { variant: Big5Variant; onUse: (text: string) => void }) {
+  const [garbled, setGarbled] = useState('');
+  const [copied, setCopied] = useState<MisDecoding | null>(null);
+  const table = getTable(variant);
+  const candidates = useMemo(() => repairMojibake(garbled, table.variant), [garbled, table]);
+
+  const handleCopy = async (candidate: RepairCandidate) => {
+    if (!(await copyText(candidate.text))) return;
+    setCopied(candidate.decoding);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <textarea
+        value={garbled}
+        onChange={e => setGarbled(e.target.value)}
+        className="w-full h-28 p-3 rounded-2xl border border-indigo-300/60 focus:border-indigo-200/80 focus:ring-0 resize-none text-sm leading-relaxed text-indigo-50 placeholder-indigo-500/50 vhs-glow-box"
+        style={{ background: 'rgba(12, 8, 32, 0.7)' }}
+        placeholder="貼上亂碼，例如 ¤¤¤å 或 いゅ"
+      />
+      {candidates.map((candidate, rank) => (
+        <div
+          key={candidate.decoding}
+          className={`rounded-2xl border p-3 transition-opacity ${
+            rank === 0 && candidate.plausible ? 'border-emerald-300/60 vhs-glow-box' : 'border-indigo-400/40'
+          } ${candidate.plausible ? '' : 'opacity-50'}`}
+          style={{ background: 'rgba(12, 8, 32, 0.6)' }}
+        >
+          <div className="flex flex-wrap items-center gap-2 text-xs mb-2">
+            <span className="font-medium text-indigo-100">誤以 {MIS_DECODING_LABEL[candidate.decoding]} 解讀</span>
+            <span className="text-indigo-300/70">
+              常用字 {candidate.frequent} · 換不回 {candidate.lost} · Big5 錯誤 {candidate.errors}
+            </span>
+            <span className="flex-1" />
+            <button
+              onClick={() => handleCopy(candidate)}
+              className="px-2 py-0.5 rounded-md border border-indigo-400/50 text-indigo-200/80 hover:border-indigo-300/70"
+            >
+              {copied === candidate.decoding ? <span className="text-emerald-400">Copied!</span> : '複製'}
+            </button>
+            <button
+              onClick={() => onUse(candidate.text)}
+              title="放到上方輸入框轉換"
+              className="px-2 py-0.5 rounded-md border border-indigo-400/50 text-indigo-200/80 hover:border-indigo-300/70"
+            >
+              用於轉換
+            </button>
+          </div>
+          <p className="max-h-24 overflow-auto text-sm text-indigo-50 whitespace-pre-wrap break-all">{candidate.text}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
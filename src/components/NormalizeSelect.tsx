@@ -0,0 +1,72 @@
+import {
+  ASCII_POLICIES,
+  WHITESPACE_POLICIES,
+  type AsciiPolicy,
+  type WhitespacePolicy,
+  type NormalizeOptions,
+} from '../normalize';
+import { selectClass } from './FormatSelect';
+
+// ─── 正規化選項 ───────────────────────────────────────────────────────────────
+const ASCII_LABELS: Record<AsciiPolicy, string> = {
+  'single-byte': 'ASCII 單位元組',
+  'full-width': '半形→全形',
+};
+
+const WHITESPACE_LABELS: Record<WhitespacePolicy, string> = {
+  keep: '空白原樣',
+  'expand-tabs': 'Tab→空白',
+  collapse: '合併空白',
+  remove: '刪除空白',
+};
+
+export function NormalizeSelect({
+  options,
+  onChange,
+}: {
+  options: NormalizeOptions;
+  onChange: (options: NormalizeOptions) => void;
+}) {
+  return (
+    <>
+      <select
+        value={options.ascii}
+        onChange={e => onChange({ ...options, ascii: e.target.value as AsciiPolicy })}
+        title="ASCII 英數與符號"
+        className={selectClass}
+        style={{ background: 'rgba(12, 8, 32, 0.5)' }}
+      >
+        {ASCII_POLICIES.map(id => (
+          <option key={id} value={id} style={{ background: '#0c0820' }}>
+            {ASCII_LABELS[id]}
+          </option>
+        ))}
+      </select>
+      <select
+        value={options.whitespace}
+        onChange={e => onChange({ ...options, whitespace: e.target.value as WhitespacePolicy })}
+        title="空白與 Tab"
+        className={selectClass}
+        style={{ background: 'rgba(12, 8, 32, 0.5)' }}
+      >
+        {WHITESPACE_POLICIES.map(id => (
+          <option key={id} value={id} style={{ background: '#0c0820' }}>
+            {WHITESPACE_LABELS[id]}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() => onChange({ ...options, punctuation: !options.punctuation })}
+        title="彎引號、破折號、刪節號換成 Big5 對應符號"
+        className={`px-3 py-1 rounded-lg text-xs font-medium border transition-all ${
+          options.punctuation
+            ? 'bg-indigo-500/50 text-indigo-50 border-indigo-400/70 vhs-glow'
+            : 'text-indigo-200/80 border-indigo-400/50 hover:border-indigo-300/70 vhs-glow'
+        }`}
+        style={!options.punctuation ? { background: 'rgba(12, 8, 32, 0.5)' } : undefined}
+      >
+        „…” 標點
+      </button>
+    </>
+  );
+}
@@ -0,0 +1,75 @@
+import { useMemo } from 'react';
+import type { EncodedChar } from '../codec';
+import { useViewport } from '../useViewport';
+import { visibleRange, layoutBlockRows } from '../virtualRows';
+import { CodeBlock } from './CodeBlock';
+
+// ─── 輸出區（虛擬捲動） ───────────────────────────────────────────────────────
+//  大量輸入時只繪製可見的列；列高固定，方塊字依容器寬度折列。
+const TEXT_ROW_HEIGHT = 22;
+const BLOCK_WIDTH = 52;
+const BLOCK_GAP = 8;
+const OUTPUT_CLASS = 'w-full h-64 p-4 rounded-2xl border border-indigo-300/60 shadow-inner overflow-auto vhs-glow-box';
+const OUTPUT_STYLE = { background: 'rgba(8, 5, 25, 0.7)' };
+
+export function TextOutput({ text }: { text: string }) {
+  const lines = useMemo(() => (text ? text.split('\n') : []), [text]);
+  const { ref, viewport } = useViewport();
+  const { start, end, offset, totalHeight } = visibleRange(lines.length, TEXT_ROW_HEIGHT, viewport);
+
+  return (
+    <div
+      ref={ref}
+      id="output"
+      role="textbox"
+      aria-readonly
+      aria-multiline
+      className={`${OUTPUT_CLASS} font-mono text-sm text-indigo-100`}
+      style={OUTPUT_STYLE}
+    >
+      {lines.length === 0 ? (
+        <p className="text-indigo-500/50">Result will appear here...</p>
+      ) : (
+        <div className="relative w-max min-w-full" style={{ height: totalHeight }}>
+          <div style={{ transform: `translateY(${offset}px)` }}>
+            {lines.slice(start, end).map((line, i) => (
+              <div key={start + i} className="whitespace-pre" style={{ height: TEXT_ROW_HEIGHT, lineHeight: `${TEXT_ROW_HEIGHT}px` }}>
+                {line}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function BlockOutput({ lines, showAnnotation }: { lines: EncodedChar[][]; showAnnotation: boolean }) {
+  const { ref, viewport } = useViewport();
+  // ResizeObserver 回報寬度前 width 為 0，這時排版會變成一字一列（1 MB 輸入就是上百萬列），先不排
+  const perRow = viewport.width > 0 ? Math.max(1, Math.floor((viewport.width - 32 + BLOCK_GAP) / (BLOCK_WIDTH + BLOCK_GAP))) : 0;
+  const rows = useMemo(() => (perRow > 0 ? layoutBlockRows(lines, perRow) : []), [lines, perRow]);
+  // 方塊高 44px，註記再加 16px，列距 12px
+  const rowHeight = (showAnnotation ? 60 : 44) + 12;
+  const { start, end, offset, totalHeight } = visibleRange(rows.length, rowHeight, viewport);
+
+  return (
+    <div ref={ref} className={OUTPUT_CLASS} style={OUTPUT_STYLE}>
+      {lines.length === 0 ? (
+        <p className="text-indigo-700/50 text-sm">Result will appear here...</p>
+      ) : (
+        <div className="relative" style={{ height: totalHeight }}>
+          <div style={{ transform: `translateY(${offset}px)` }}>
+            {rows.slice(start, end).map(row => (
+              <div key={`${row.line}:${row.start}`} className="flex gap-2" style={{ height: rowHeight }}>
+                {row.chars.map((entry, ci) => (
+                  <CodeBlock key={ci} {...entry} showAnnotation={showAnnotation} />
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
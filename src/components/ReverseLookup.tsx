@@ -0,0 +1,264 @@
+import { useMemo, useRef, type KeyboardEvent } from 'react';
+import { Trash2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { getTable, type Big5Variant } from '../codec';
+import { useViewport } from '../useViewport';
+import { visibleRange } from '../virtualRows';
+import { lookupPattern, matchCodes, neighborCode, type LookupMatch } from '../lookup';
+
+// ─── 反向查找元件 ─────────────────────────────────────────────────────────────
+export function ReverseLookup({
+  variant,
+  glyphs,
+  cells,
+  onCellsChange: setCells,
+}: {
+  variant: Big5Variant;
+  /** 自訂字的字形圖，Big5 碼 → data URL */
+  glyphs: Map<string, string>;
+  cells: string[];
+  onCellsChange: (cells: string[]) => void;
+}) {
+  const refs = [
+    useRef<HTMLInputElement>(null),
+    useRef<HTMLInputElement>(null),
+    useRef<HTMLInputElement>(null),
+    useRef<HTMLInputElement>(null),
+  ];
+
+  const code = cells.map(c => c.toUpperCase()).join('');
+  const isComplete = /^[0-9A-F]{4}$/.test(code);
+  const table = getTable(variant);
+  const resultChar = isComplete ? table.reverse.get(code) : undefined;
+
+  // 留空或填 ? 的格當作萬用字元，列出所有符合的字
+  const pattern = isComplete ? null : lookupPattern(cells);
+  const matches = useMemo(() => (pattern ? matchCodes(pattern, table.variant) : []), [pattern, table]);
+  const previous = isComplete ? neighborCode(code, -1, variant) : undefined;
+  const next = isComplete ? neighborCode(code, 1, variant) : undefined;
+
+  const handleChange = (idx: number, raw: string) => {
+    const hex = raw.replace(/\*/g, '?').replace(/[^0-9A-Fa-f?]/g, '').toUpperCase().slice(-1);
+    const next = [...cells];
+    next[idx] = hex;
+    setCells(next);
+    if (hex && idx < 3) refs[idx + 1].current?.focus();
+  };
+
+  const handleKeyDown = (idx: number, e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Backspace') {
+      e.preventDefault();
+      if (cells[idx]) {
+        const next = [...cells];
+        next[idx] = '';
+        setCells(next);
+      } else if (idx > 0) {
+        refs[idx - 1].current?.focus();
+      }
+    } else if (e.key === 'ArrowRight' && idx < 3) {
+      e.preventDefault();
+      refs[idx + 1].current?.focus();
+    } else if (e.key === 'ArrowLeft' && idx > 0) {
+      e.preventDefault();
+      refs[idx - 1].current?.focus();
+    }
+  };
+
+  const handleClear = () => {
+    setCells(['', '', '', '']);
+    refs[0].current?.focus();
+  };
+
+  const baseClass =
+    'w-full h-full bg-transparent text-center font-mono font-bold uppercase ' +
+    'outline-none transition-colors ' +
+    'focus:bg-indigo-900/30 placeholder-indigo-700/40';
+
+  return (
+    <div className="flex flex-col items-center gap-6">
+      <div className="flex items-center gap-8 flex-wrap justify-center">
+
+        {/* 可輸入方塊字格 */}
+        <div
+          className="border-2 border-indigo-300/70 rounded-lg overflow-hidden vhs-glow-box"
+          style={{
+            display: 'grid',
+            gridTemplateColumns: '1fr 0.65fr 1fr',
+            gridTemplateRows: '1fr 1fr',
+            width: '5.5rem',
+            height: '4.75rem',
+            background: 'rgba(15, 10, 40, 0.8)',
+          }}
+        >
+          <input
+            ref={refs[0]}
+            value={cells[0]}
+            onChange={e => handleChange(0, e.target.value)}
+            onKeyDown={e => handleKeyDown(0, e)}
+            maxLength={2}
+            placeholder="·"
+            style={{ gridColumn: '1', gridRow: '1 / span 2', fontSize: '1.1rem' }}
+            className={`${baseClass} border-r-2 border-indigo-300/60 text-indigo-100`}
+          />
+          <input
+            ref={refs[1]}
+            value={cells[1]}
+            onChange={e => handleChange(1, e.target.value)}
+            onKeyDown={e => handleKeyDown(1, e)}
+            maxLength={2}
+            placeholder="·"
+            style={{ gridColumn: '2', gridRow: '1', fontSize: '0.7rem' }}
+            className={`${baseClass} border-b border-indigo-300/50 text-purple-200`}
+          />
+          <input
+            ref={refs[2]}
+            value={cells[2]}
+            onChange={e => handleChange(2, e.target.value)}
+            onKeyDown={e => handleKeyDown(2, e)}
+            maxLength={2}
+            placeholder="·"
+            style={{ gridColumn: '2', gridRow: '2', fontSize: '0.7rem' }}
+            className={`${baseClass} text-purple-200`}
+          />
+          <input
+            ref={refs[3]}
+            value={cells[3]}
+            onChange={e => handleChange(3, e.target.value)}
+            onKeyDown={e => handleKeyDown(3, e)}
+            maxLength={2}
+            placeholder="·"
+            style={{ gridColumn: '3', gridRow: '1 / span 2', fontSize: '1.1rem' }}
+            className={`${baseClass} border-l-2 border-indigo-300/60 text-indigo-100`}
+          />
+        </div>
+
+        {/* 箭頭 */}
+        <span className="text-indigo-300 text-2xl select-none vhs-glow">→</span>
+
+        {/* 查找結果 */}
+        <div className="flex flex-col items-center gap-2">
+          <div
+            className={`w-20 h-20 border-2 rounded-xl flex items-center justify-center transition-all ${
+              isComplete && resultChar
+                ? 'border-indigo-400/60 vhs-glow-box'
+                : isComplete
+                ? 'border-red-500/30 bg-red-900/20'
+                : 'border-indigo-500/20'
+            }`}
+            style={{
+              background: isComplete && resultChar
+                ? 'rgba(20, 15, 50, 0.8)'
+                : isComplete
+                ? undefined
+                : 'rgba(15, 10, 35, 0.5)',
+            }}
+          >
+            {isComplete && resultChar && glyphs.has(code) ? (
+              <img src={glyphs.get(code)} alt={resultChar} className="w-14 h-14 object-contain" />
+            ) : isComplete && resultChar ? (
+              <span className="text-4xl text-indigo-100 leading-none vhs-glow">{resultChar}</span>
+            ) : isComplete ? (
+              <span className="text-sm text-red-400/80 text-center px-1">查無此碼</span>
+            ) : pattern ? (
+              <span className="text-sm text-indigo-200/80 text-center px-1">{matches.length.toLocaleString()} 個</span>
+            ) : (
+              <span className="text-4xl text-indigo-800/40 select-none">?</span>
+            )}
+          </div>
+          {isComplete && (
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => previous && setCells([...previous])}
+                disabled={!previous}
+                title={previous ? `上一個已指派的碼 ${previous}` : undefined}
+                className="p-0.5 rounded text-indigo-300/80 hover:text-indigo-100 disabled:opacity-30"
+              >
+                <ChevronLeft className="w-3.5 h-3.5" />
+              </button>
+              <span className="text-xs font-mono text-indigo-200/80 tracking-widest vhs-glow">{code}</span>
+              <button
+                onClick={() => next && setCells([...next])}
+                disabled={!next}
+                title={next ? `下一個已指派的碼 ${next}` : undefined}
+                className="p-0.5 rounded text-indigo-300/80 hover:text-indigo-100 disabled:opacity-30"
+              >
+                <ChevronRight className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {pattern && (
+        <LookupMatches matches={matches} glyphs={glyphs} onSelect={match => setCells([...match.code])} />
+      )}
+
+      {/* 清除按鈕 */}
+      {cells.some(c => c) && (
+        <button
+          onClick={handleClear}
+          className="flex items-center gap-1.5 text-xs text-indigo-300/80 hover:text-indigo-100 vhs-glow transition-colors"
+        >
+          <Trash2 className="w-3 h-3" />
+          清除
+        </button>
+      )}
+    </div>
+  );
+}
+
+// 萬用字元查找結果：依容器寬度排成格子，只繪製可見的列
+const MATCH_WIDTH = 48;
+const MATCH_GAP = 6;
+const MATCH_ROW_HEIGHT = 62;
+
+function LookupMatches({
+  matches,
+  glyphs,
+  onSelect,
+}: {
+  matches: LookupMatch[];
+  glyphs: Map<string, string>;
+  onSelect: (match: LookupMatch) => void;
+}) {
+  const { ref, viewport } = useViewport();
+  const perRow = Math.max(1, Math.floor((viewport.width + MATCH_GAP) / (MATCH_WIDTH + MATCH_GAP)));
+  const rowCount = Math.ceil(matches.length / perRow);
+  const { start, end, offset, totalHeight } = visibleRange(rowCount, MATCH_ROW_HEIGHT, viewport);
+
+  return (
+    <div
+      ref={ref}
+      className="w-full max-h-72 overflow-auto rounded-xl border border-indigo-400/40 p-2"
+      style={{ background: 'rgba(12, 8, 32, 0.5)' }}
+    >
+      {matches.length === 0 ? (
+        <p className="py-4 text-center text-xs text-indigo-500/70">沒有符合的碼</p>
+      ) : (
+        <div className="relative" style={{ height: totalHeight }}>
+          <div style={{ transform: `translateY(${offset}px)` }}>
+            {Array.from({ length: end - start }, (_, i) => start + i).map(row => (
+              <div key={row} className="flex" style={{ height: MATCH_ROW_HEIGHT, gap: MATCH_GAP }}>
+                {matches.slice(row * perRow, (row + 1) * perRow).map(match => (
+                  <button
+                    key={match.code}
+                    onClick={() => onSelect(match)}
+                    title={`${match.code} ${match.char}`}
+                    className="flex flex-col items-center justify-center gap-1 rounded-md border border-indigo-400/40 hover:border-indigo-300/80 hover:bg-indigo-900/40 transition-colors"
+                    style={{ width: MATCH_WIDTH, height: MATCH_ROW_HEIGHT - MATCH_GAP }}
+                  >
+                    {glyphs.has(match.code) ? (
+                      <img src={glyphs.get(match.code)} alt={match.char} className="w-6 h-6 object-contain" />
+                    ) : (
+                      <span className="text-lg leading-none text-indigo-50">{match.char}</span>
+                    )}
+                    <span className="font-mono text-[0.6rem] text-indigo-300/70">{match.code}</span>
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
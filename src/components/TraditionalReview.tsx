@@ -0,0 +1,88 @@
+import { Languages } from 'lucide-react';
+import { segmentKey, type ConvertedSegment } from '../simplified';
+
+// ─── 簡轉繁確認面板 ───────────────────────────────────────────────────────────
+const MAX_LISTED_CHANGES = 60;
+const MAX_LISTED_AMBIGUOUS = 200;
+
+export function TraditionalReview({
+  segments,
+  choices,
+  onChoose,
+}: {
+  segments: ConvertedSegment[];
+  choices: Record<string, string>;
+  onChoose: (key: string, text: string) => void;
+}) {
+  const changed = segments.filter(s => s.text !== s.source || s.candidates.length > 1);
+  const ambiguous = changed.filter(s => s.candidates.length > 1);
+
+  // 非一對多的轉換依「原文 → 結果」合併計數
+  const counts = new Map<string, number>();
+  for (const { source, text, candidates } of changed) {
+    if (candidates.length > 1) continue;
+    const key = `${source} → ${text}`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  if (changed.length === 0) return null;
+
+  return (
+    <div
+      className="rounded-2xl border border-indigo-300/50 p-4 vhs-glow-box"
+      style={{ background: 'rgba(12, 8, 32, 0.7)' }}
+    >
+      <h3 className="flex items-center gap-2 text-xs font-medium text-indigo-100 uppercase tracking-wider mb-3 vhs-glow">
+        <Languages className="w-3.5 h-3.5" />
+        簡轉繁：{changed.length} 處轉換
+        {ambiguous.length > 0 && <span className="text-amber-200/90">，{ambiguous.length} 處一對多待確認</span>}
+      </h3>
+      {ambiguous.length > 0 && (
+        <ul className="max-h-48 overflow-auto mb-3 space-y-1.5">
+          {ambiguous.slice(0, MAX_LISTED_AMBIGUOUS).map(segment => {
+            const key = segmentKey(segment);
+            const selected = choices[key] ?? segment.text;
+            return (
+              <li key={key} className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="w-14 font-mono text-indigo-300/60">
+                  {segment.line}:{segment.column}
+                </span>
+                <span className="text-lg text-indigo-50">{segment.source}</span>
+                <span className="text-indigo-400/60">→</span>
+                {segment.candidates.map(candidate => (
+                  <button
+                    key={candidate}
+                    onClick={() => onChoose(key, candidate)}
+                    className={`px-2 py-0.5 rounded-md border text-base transition-colors ${
+                      candidate === selected
+                        ? 'bg-amber-500/30 border-amber-300/70 text-amber-50'
+                        : 'border-indigo-400/50 text-indigo-200/80 hover:border-indigo-300/70'
+                    }`}
+                  >
+                    {candidate}
+                  </button>
+                ))}
+              </li>
+            );
+          })}
+          {ambiguous.length > MAX_LISTED_AMBIGUOUS && (
+            <li className="text-xs text-indigo-400/70">… 另有 {ambiguous.length - MAX_LISTED_AMBIGUOUS} 處</li>
+          )}
+        </ul>
+      )}
+      {counts.size > 0 && (
+        <div className="flex flex-wrap gap-1.5 text-xs text-indigo-200/80">
+          {[...counts].slice(0, MAX_LISTED_CHANGES).map(([change, count]) => (
+            <span key={change} className="px-2 py-0.5 rounded-md border border-indigo-400/30">
+              {change}
+              {count > 1 && <span className="text-indigo-400/70"> ×{count}</span>}
+            </span>
+          ))}
+          {counts.size > MAX_LISTED_CHANGES && (
+            <span className="px-2 py-0.5 text-indigo-400/70">… 另有 {counts.size - MAX_LISTED_CHANGES} 種</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { encode, DEFAULT_FORMAT } from './codec';
+import { diagnose } from './diagnostics';
+import { DEFAULT_NORMALIZE } from './normalize';
+import { runConversion, LineCache, EMPTY_CONVERSION } from './conversion';
+
+const request = {
+  format: DEFAULT_FORMAT,
+  variant: 'cp950' as const,
+  normalize: DEFAULT_NORMALIZE,
+  userMappings: [],
+  traditional: null,
+};
+
+test('runConversion matches encode and diagnose', () => {
+  const input = '中文\n\n😀字，é';
+  const result = runConversion({ ...request, input });
+  const expected = encode(input, DEFAULT_FORMAT, 'cp950');
+  assert.equal(result.source, input);
+  assert.equal(result.text, expected.text);
+  assert.deepEqual(result.lines, expected.lines);
+  assert.deepEqual(result.diagnostics, diagnose(input, 'cp950'));
+  assert.equal(result.segments, null);
+});
+
+test('runConversion returns the empty result for empty input', () => {
+  assert.deepEqual(runConversion({ ...request, input: '' }), EMPTY_CONVERSION);
+});
+
+test('LineCache reuses unchanged lines and resets on variant change', () => {
+  const cache = new LineCache();
+  const first = runConversion({ ...request, input: '中文\n字' }, cache);
+  const second = runConversion({ ...request, input: '中文\n字典' }, cache);
+  assert.equal(second.lines[0], first.lines[0]);
+  assert.notEqual(second.lines[1], first.lines[1]);
+
+  const hkscs = runConversion({ ...request, input: '中文\n字', variant: 'big5-hkscs' }, cache);
+  assert.notEqual(hkscs.lines[0], first.lines[0]);
+  assert.deepEqual(hkscs.lines[0], first.lines[0]);
+});
+
+test('runConversion encodes the Traditional text when conversion is enabled', () => {
+  const result = runConversion({ ...request, input: '头发', traditional: { taiwan: true, choices: {} } });
+  assert.equal(result.source, '頭髮');
+  assert.ok(result.segments && result.segments.length > 0);
+  assert.equal(result.text, encode('頭髮').text);
+  assert.deepEqual(result.diagnostics, []);
+});
+
+test('runConversion encodes the normalized text', () => {
+  const result = runConversion({ ...request, input: 'A...', normalize: { ...DEFAULT_NORMALIZE, ascii: 'full-width', punctuation: true } });
+  assert.equal(result.source, 'Ａ…');
+  assert.equal(result.text, 'A2CF★A14B');
+});
+
+test('diagnostics report positions in the input before normalization', () => {
+  const positions = (input: string, normalize: Partial<typeof DEFAULT_NORMALIZE>) =>
+    runConversion({ ...request, input, normalize: { ...DEFAULT_NORMALIZE, ...normalize } }).diagnostics.flatMap(d =>
+      d.positions.map(({ line, column }) => `${d.char}@${line}:${column}`)
+    );
+  const input = '  a   b 😀\n\t c  🙂';
+  assert.deepEqual(positions(input, { whitespace: 'keep' }), ['😀@1:9', '🙂@2:6']);
+  assert.deepEqual(positions(input, { whitespace: 'collapse' }), ['😀@1:9', '🙂@2:6']);
+  assert.deepEqual(positions(input, { whitespace: 'remove' }), ['😀@1:9', '🙂@2:6']);
+  assert.deepEqual(positions('\t\t🙂', { whitespace: 'expand-tabs' }), ['🙂@1:3']);
+  assert.deepEqual(positions('a...🙂', { punctuation: true }), ['🙂@1:5']);
+  assert.deepEqual(positions('Ａ\t😀😀', { whitespace: 'expand-tabs', ascii: 'full-width' }), ['😀@1:3', '😀@1:4']);
+  const traditional = runConversion({
+    ...request,
+    input: '头发  😀',
+    normalize: { ...DEFAULT_NORMALIZE, whitespace: 'remove' },
+    traditional: { taiwan: true, choices: {} },
+  });
+  assert.deepEqual(traditional.diagnostics[0].positions, [{ line: 1, column: 5 }]);
+});
@@ -0,0 +1,137 @@
+import {
+  encodeChar,
+  formatLines,
+  getTable,
+  type Big5Table,
+  type Big5Variant,
+  type EncodedChar,
+  type OutputFormat,
+  type UnmappedChar,
+  type UserMapping,
+} from './codec';
+import { diagnoseUnmapped, type Diagnostic } from './diagnostics';
+import { normalizeTracked, originalOffset, type NormalizeOptions, type OffsetAnchor, type OffsetMap } from './normalize';
+import { toTraditional, joinSegments, segmentKey, type ConvertedSegment } from './simplified';
+
+// ─── 正向轉換流程 ─────────────────────────────────────────────────────────────
+//
+//  簡轉繁（可選）→ 正規化 → 編碼 → 格式化 → 無對應字診斷。App 透過 Web Worker 執行
+//  （conversion.worker.ts），不支援 Worker 的環境則在主執行緒直接呼叫。
+//
+export interface ConversionRequest {
+  input: string;
+  format: OutputFormat;
+  variant: Big5Variant;
+  normalize: NormalizeOptions;
+  /** 自訂字；Worker 有自己的一份對照表，每次都隨請求帶過去 */
+  userMappings: UserMapping[];
+  /** 開啟簡轉繁時的設定；choices 為使用者為一對多片段選定的候選 */
+  traditional: { taiwan: boolean; choices: Record<string, string> } | null;
+}
+
+export interface ConversionResult {
+  /** 簡轉繁片段；未開啟時為 null */
+  segments: ConvertedSegment[] | null;
+  /** 實際編碼的文字（簡轉繁與正規化之後），Big5 下載也用這份 */
+  source: string;
+  lines: EncodedChar[][];
+  text: string;
+  diagnostics: Diagnostic[];
+}
+
+/** Worker 的回覆；轉換丟出例外時帶 error，主執行緒改為自己轉換 */
+export type WorkerResponse = { id: number; result: ConversionResult } | { id: number; error: string };
+
+export const EMPTY_CONVERSION: ConversionResult = { segments: null, source: '', lines: [], text: '', diagnostics: [] };
+
+/**
+ * 逐行快取編碼結果：大段文字只改了一行時，其餘行直接沿用。
+ * 換變體或自訂字改變（getTable 回傳新的表）時，以及超過上限時整個清空。
+ */
+export class LineCache {
+  private table: Big5Table | null = null;
+  private lines = new Map<string, EncodedChar[]>();
+
+  constructor(private readonly limit = 50_000) {}
+
+  encodeLine(line: string, variant: Big5Variant): EncodedChar[] {
+    const table = getTable(variant);
+    if (table !== this.table || this.lines.size > this.limit) {
+      this.lines.clear();
+      this.table = table;
+    }
+    let encoded = this.lines.get(line);
+    if (!encoded) {
+      encoded = [...line].map(char => encodeChar(char, variant));
+      this.lines.set(line, encoded);
+    }
+    return encoded;
+  }
+}
+
+// 簡轉繁後長度改變的片段，片段內的字都指回原片段的開頭
+function segmentAnchors(segments: ConvertedSegment[], choices: Record<string, string>): OffsetAnchor[] {
+  const anchors: OffsetAnchor[] = [];
+  let out = 0;
+  let at = 0;
+  for (const segment of segments) {
+    const text = choices[segmentKey(segment)] ?? segment.text;
+    if (text.length !== segment.source.length) {
+      anchors.push({ out, at, length: segment.source.length });
+      anchors.push({ out: out + text.length, at: at + segment.source.length, length: Infinity });
+    }
+    out += text.length;
+    at += segment.source.length;
+  }
+  return anchors;
+}
+
+// 無對應字的行列以原輸入為準（正規化可能刪掉或展開了前面的空白）；位置單調遞增，原輸入只掃一次
+function unmappedInInput(lines: EncodedChar[][], input: string, offsets: OffsetMap): UnmappedChar[] {
+  const unmapped: UnmappedChar[] = [];
+  let out = 0;
+  let at = 0;
+  let line = 1;
+  let column = 1;
+  for (const encoded of lines) {
+    for (const { char, status } of encoded) {
+      if (status === 'unmapped') {
+        const target = originalOffset(offsets, out);
+        while (at < target) {
+          if (input[at] === '\n') {
+            line++;
+            column = 1;
+          } else {
+            column++;
+          }
+          at += input.codePointAt(at)! > 0xffff ? 2 : 1;
+        }
+        unmapped.push({ char, line, column });
+      }
+      out += char.length;
+    }
+    out++;
+  }
+  return unmapped;
+}
+
+export function runConversion(request: ConversionRequest, cache = new LineCache()): ConversionResult {
+  const { input, format, variant, normalize, traditional } = request;
+  const segments = traditional ? toTraditional(input, { taiwan: traditional.taiwan }) : null;
+  const { text: source, offsets } = normalizeTracked(
+    segments ? joinSegments(segments, traditional!.choices) : input,
+    normalize,
+    variant
+  );
+  if (!source) return { ...EMPTY_CONVERSION, segments };
+  if (segments) offsets.unshift(segmentAnchors(segments, traditional!.choices));
+
+  const lines = source.split('\n').map(line => cache.encodeLine(line, variant));
+  return {
+    segments,
+    source,
+    lines,
+    text: formatLines(lines, format),
+    diagnostics: diagnoseUnmapped(unmappedInInput(lines, input, offsets), variant),
+  };
+}
@@ -0,0 +1,22 @@
+import { setUserMappings } from './codec';
+import { runConversion, LineCache, type ConversionRequest, type WorkerResponse } from './conversion';
+
+// ─── 轉換 Worker ──────────────────────────────────────────────────────────────
+//
+//  收到 { id, request } 後回傳 { id, result }，轉換失敗時回傳 { id, error }；
+//  id 由主執行緒遞增，用來丟棄過期的結果。
+//  自訂字沒變時 setUserMappings 不做事，對照表與逐行快取都沿用。
+//
+const cache = new LineCache();
+
+self.onmessage = (event: MessageEvent<{ id: number; request: ConversionRequest }>) => {
+  const { id, request } = event.data;
+  let response: WorkerResponse;
+  try {
+    setUserMappings(request.userMappings);
+    response = { id, result: runConversion(request, cache) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { encode } from './codec';
+import { diagnose, applySubstitution, suggestSubstitutes } from './diagnostics';
+
+test('diagnose classifies each unmapped character and lists its positions', () => {
+  const diagnostics = diagnose('们😀中\n①é́们𠀀');
+  assert.deepEqual(
+    diagnostics.map(({ char, codePoint, reason, positions }) => ({ char, codePoint, reason, positions })),
+    [
+      { char: '们', codePoint: 'U+4EEC', reason: 'simplified', positions: [{ line: 1, column: 1 }, { line: 2, column: 4 }] },
+      { char: '😀', codePoint: 'U+1F600', reason: 'emoji', positions: [{ line: 1, column: 2 }] },
+      { char: '①', codePoint: 'U+2460', reason: 'compatibility', positions: [{ line: 2, column: 1 }] },
+      { char: '́', codePoint: 'U+0301', reason: 'combining', positions: [{ line: 2, column: 3 }] },
+      { char: '𠀀', codePoint: 'U+20000', reason: 'astral', positions: [{ line: 2, column: 5 }] },
+    ]
+  );
+});
+
+test('suggestions are encodable in the selected variant', () => {
+  assert.deepEqual(suggestSubstitutes('发'), ['發', '髮']);
+  // ① 的 NFKC 是 ASCII 的 1，以單位元組 0031 編碼；全形 １ 則是 A2B0
+  assert.deepEqual(suggestSubstitutes('①'), ['1', '１']);
+  assert.deepEqual(encode('1１').text, '0031★A2B0');
+  assert.deepEqual(suggestSubstitutes('́'), ['']);
+  assert.deepEqual(suggestSubstitutes('😀'), []);
+  assert.deepEqual(diagnose('啱')[0].variants, ['big5-hkscs', 'big5-uao']);
+});
+
+test('applySubstitution replaces every occurrence', () => {
+  assert.equal(applySubstitution('们好，我们', '们', '們'), '們好，我們');
+  assert.deepEqual(diagnose(applySubstitution('们', '们', '們')), []);
+});
@@ -0,0 +1,94 @@
+import { encode, encodeChar, BIG5_VARIANTS, DEFAULT_VARIANT, type Big5Variant, type UnmappedChar } from './codec';
+import { toFullWidth } from './normalize';
+import { traditionalCandidates } from './simplified';
+
+// ─── 無對應字診斷 ─────────────────────────────────────────────────────────────
+//
+//  說明每個編成 ???? 的字為何不在對照表中，並找出可編碼的替代字：
+//    emoji          表情符號
+//    combining      組合字元（重音符號、變體選擇符等），建議直接刪除
+//    compatibility  相容漢字 / 全形半形等相容字元，建議以 NFC / NFKC 正規化後的字取代
+//    simplified     簡體字，建議以繁體候選取代
+//    astral         BMP 以外的字（擴充 B 以後的漢字等）
+//    other          其他未收錄的字
+//
+export type UnmappedReason = 'emoji' | 'combining' | 'compatibility' | 'simplified' | 'astral' | 'other';
+
+export interface Diagnostic {
+  char: string;
+  /** U+XXXX */
+  codePoint: string;
+  reason: UnmappedReason;
+  /** 該字在輸入中的所有位置（行、欄皆 1 起算，欄以 code point 計） */
+  positions: { line: number; column: number }[];
+  /** 可完整編碼的替代字串，空字串代表刪除 */
+  suggestions: string[];
+  /** 收錄此字的其他編碼變體 */
+  variants: Big5Variant[];
+}
+
+export function formatCodePoint(char: string): string {
+  return `U+${char.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}`;
+}
+
+function isEncodable(text: string, variant: Big5Variant): boolean {
+  return [...text].every(c => encodeChar(c, variant).status === 'ok');
+}
+
+function isCompatibilityIdeograph(char: string): boolean {
+  const cp = char.codePointAt(0)!;
+  return (cp >= 0xf900 && cp <= 0xfaff) || (cp >= 0x2f800 && cp <= 0x2fa1f);
+}
+
+function classify(char: string): UnmappedReason {
+  if (/\p{Extended_Pictographic}/u.test(char)) return 'emoji';
+  if (/\p{M}/u.test(char)) return 'combining';
+  if (char.normalize('NFKC') !== char || isCompatibilityIdeograph(char)) return 'compatibility';
+  if (traditionalCandidates(char).length > 0) return 'simplified';
+  if (char.codePointAt(0)! > 0xffff) return 'astral';
+  return 'other';
+}
+
+export function suggestSubstitutes(char: string, variant: Big5Variant = DEFAULT_VARIANT): string[] {
+  const candidates = [
+    char.normalize('NFC'),
+    char.normalize('NFKC'),
+    // ASCII 以單位元組碼輸出，另外也建議對照表中的全形版本（NFKC 後的 1 → １）
+    toFullWidth(char.normalize('NFKC'), variant),
+    ...traditionalCandidates(char),
+    ...traditionalCandidates(char.normalize('NFKC')),
+  ];
+  const suggestions = [...new Set(candidates)].filter(c => c && c !== char && isEncodable(c, variant));
+  return /\p{M}/u.test(char) ? [...suggestions, ''] : suggestions;
+}
+
+/** 依字在輸入中首次出現的順序列出所有無對應字 */
+export function diagnose(text: string, variant: Big5Variant = DEFAULT_VARIANT): Diagnostic[] {
+  return diagnoseUnmapped(encode(text, {}, variant).unmapped, variant);
+}
+
+/** 同 diagnose，但沿用已編碼的 EncodeResult.unmapped */
+export function diagnoseUnmapped(unmapped: UnmappedChar[], variant: Big5Variant = DEFAULT_VARIANT): Diagnostic[] {
+  const byChar = new Map<string, Diagnostic>();
+  for (const { char, line, column } of unmapped) {
+    let diagnostic = byChar.get(char);
+    if (!diagnostic) {
+      diagnostic = {
+        char,
+        codePoint: formatCodePoint(char),
+        reason: classify(char),
+        positions: [],
+        suggestions: suggestSubstitutes(char, variant),
+        variants: BIG5_VARIANTS.filter(v => v !== variant && isEncodable(char, v)),
+      };
+      byChar.set(char, diagnostic);
+    }
+    diagnostic.positions.push({ line, column });
+  }
+  return [...byChar.values()];
+}
+
+/** 把輸入中所有的 char 換成 substitute */
+export function applySubstitution(text: string, char: string, substitute: string): string {
+  return text.split(char).join(substitute);
+}
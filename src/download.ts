@@ -0,0 +1,10 @@
+// ─── 檔案下載 ─────────────────────────────────────────────────────────────────
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // 立即撤銷可能讓部分瀏覽器取消下載
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { encode, decode, encodeBytes, decodeBytes, getTable, setUserMappings } from './codec';
+import { parseEudcFile, serializeEudc, mergeEudc, createEudcEntry, nextPrivateUse } from './eudc';
+
+test('parseEudcFile reads the text format and validates codes', () => {
+  const entries = parseEudcFile('# 公司造字\nFA40 U+E000\n0x8E40\tE001\n');
+  assert.deepEqual(entries, [
+    { code: 'FA40', char: '\uE000' },
+    { code: '8E40', char: '\uE001' },
+  ]);
+  assert.throws(() => parseEudcFile('A4A4 U+E000'), /Line 1: "A4A4" is not a Big5 code in the EUDC area/);
+  assert.throws(() => parseEudcFile('FA40 U+4E2D'), /not a Private Use Area code point/);
+  assert.throws(() => parseEudcFile('FA40 U+E000\nfa40 U+E001'), /Duplicate Big5 code FA40/);
+  assert.throws(() => parseEudcFile('FA40'), /Line 1: expected/);
+});
+
+test('serializeEudc round-trips through parseEudcFile', () => {
+  const glyph = 'data:image/png;base64,iVBORw0KGgo=';
+  const entries = [createEudcEntry('FA40', 'U+E000', glyph), createEudcEntry('FA41', 'U+E001')];
+  const json = serializeEudc(entries);
+  assert.match(json, /"codePoint": "U\+E000"/);
+  assert.deepEqual(parseEudcFile(json), entries);
+  assert.throws(() => parseEudcFile('{"mappings":[]}'), /Not a ggdove-eudc file/);
+  assert.throws(() => createEudcEntry('FA40', 'U+E000', 'javascript:alert(1)'), /image data URL/);
+});
+
+test('mergeEudc lets imported entries replace the same code or code point', () => {
+  const current = parseEudcFile('FA40 U+E000\nFA41 U+E001\nFA42 U+E002');
+  const merged = mergeEudc(current, parseEudcFile('FA41 U+E010\nFA50 U+E002'));
+  assert.deepEqual(
+    merged.map(e => `${e.code}=${e.char.codePointAt(0)!.toString(16)}`),
+    ['FA40=e000', 'FA41=e010', 'FA50=e002']
+  );
+  assert.equal(nextPrivateUse(current), 'U+E003');
+});
+
+test('user mappings overlay forward, reverse and byte conversion', () => {
+  const before = getTable('big5-hkscs');
+  const hkscsChar = before.reverse.get('FA40')!;
+  setUserMappings(parseEudcFile('FA40 U+E000\n8E40 U+E001'));
+  try {
+    const table = getTable('big5-hkscs');
+    assert.notEqual(table, before);
+    assert.equal(table.userMappings, 2);
+    assert.equal(encode('\uE000\uE001', {}, 'big5-hkscs').text, 'FA40★8E40');
+    assert.equal(decode('FA40★8E40', {}, 'cp950').text, '\uE000\uE001');
+    assert.equal(table.mapping.has(hkscsChar), false, 'the built-in character at FA40 is shadowed');
+    assert.deepEqual([...encodeBytes('\uE000').bytes], [0xfa, 0x40]);
+    assert.deepEqual(decodeBytes(Uint8Array.of(0x8e, 0x40)), { text: '\uE001', errors: [] });
+  } finally {
+    setUserMappings([]);
+  }
+  assert.equal(getTable('big5-hkscs').reverse.get('FA40'), hkscsChar);
+});
@@ -0,0 +1,164 @@
+import { findRegion, parseBig5Code, type UserMapping } from './codec';
+
+// ─── 造字區自訂字 ─────────────────────────────────────────────────────────────
+//
+//  自訂字把造字區（8140–A0FE、C6A1–C8FE、FA40–FEFE）的 Big5 碼對應到 Unicode 私用區（PUA），
+//  可附字形圖（data URL）。存於瀏覽器 localStorage，可匯出成 JSON 檔分享：
+//
+//    { "format": "ggdove-eudc", "version": 1,
+//      "mappings": [{ "code": "FA40", "codePoint": "U+E000", "glyph": "data:image/png;base64,..." }] }
+//
+//  匯入也接受純文字，每行「Big5 碼  碼位」，例如 FA40 U+E000，# 之後為註解。
+//
+export interface EudcEntry extends UserMapping {
+  /** 字形圖 data URL */
+  glyph?: string;
+}
+
+const FILE_FORMAT = 'ggdove-eudc';
+const STORAGE_KEY = 'ggdove-eudc';
+
+/** 字形圖上限，避免塞滿 localStorage */
+export const MAX_GLYPH_BYTES = 64 * 1024;
+
+export function isEudcCode(code: number): boolean {
+  return findRegion(code)?.id.startsWith('eudc') ?? false;
+}
+
+export function isPrivateUse(char: string): boolean {
+  const cp = char.codePointAt(0)!;
+  return (cp >= 0xe000 && cp <= 0xf8ff) || (cp >= 0xf0000 && cp <= 0xffffd) || (cp >= 0x100000 && cp <= 0x10fffd);
+}
+
+function formatCodePoint(char: string): string {
+  return `U+${char.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}`;
+}
+
+// "U+E000" / "0xE000" / "E000" / 直接貼上的 PUA 字
+function parseCodePoint(input: string): string | undefined {
+  const text = input.trim();
+  if ([...text].length === 1 && text.codePointAt(0)! > 0x7f) return text;
+  const match = /^(?:U\+|0x)?([0-9A-Fa-f]{4,6})$/.exec(text);
+  if (!match) return undefined;
+  const cp = parseInt(match[1], 16);
+  return cp <= 0x10ffff ? String.fromCodePoint(cp) : undefined;
+}
+
+/** 驗證並正規化一筆自訂字；不合法時丟出 Error */
+export function createEudcEntry(code: string, codePoint: string, glyph?: string): EudcEntry {
+  const value = parseBig5Code(code);
+  if (value === undefined || !isEudcCode(value)) {
+    throw new Error(`"${code}" is not a Big5 code in the EUDC area`);
+  }
+  const char = parseCodePoint(codePoint);
+  if (char === undefined || !isPrivateUse(char)) {
+    throw new Error(`"${codePoint}" is not a Private Use Area code point`);
+  }
+  if (glyph !== undefined && !/^data:image\/[\w.+-]+;base64,/.test(glyph)) {
+    throw new Error('Glyph must be an image data URL');
+  }
+  if (glyph !== undefined && glyph.length > (MAX_GLYPH_BYTES * 4) / 3 + 64) {
+    throw new Error(`Glyph image exceeds ${MAX_GLYPH_BYTES / 1024} KB`);
+  }
+  return {
+    code: value.toString(16).toUpperCase(),
+    char,
+    ...(glyph ? { glyph } : {}),
+  };
+}
+
+function checkDuplicates(entries: EudcEntry[]): void {
+  const codes = new Set<string>();
+  const chars = new Set<string>();
+  for (const { code, char } of entries) {
+    if (codes.has(code)) throw new Error(`Duplicate Big5 code ${code}`);
+    if (chars.has(char)) throw new Error(`Duplicate code point ${formatCodePoint(char)}`);
+    codes.add(code);
+    chars.add(char);
+  }
+}
+
+function parseJson(text: string): EudcEntry[] {
+  const data = JSON.parse(text) as { format?: unknown; mappings?: unknown };
+  if (data?.format !== FILE_FORMAT || !Array.isArray(data.mappings)) {
+    throw new Error(`Not a ${FILE_FORMAT} file`);
+  }
+  return data.mappings.map((item: unknown, i: number) => {
+    const { code, codePoint, glyph } = (item ?? {}) as Record<string, unknown>;
+    if (typeof code !== 'string' || typeof codePoint !== 'string' || (glyph !== undefined && typeof glyph !== 'string')) {
+      throw new Error(`mappings[${i}]: expected { code, codePoint, glyph? }`);
+    }
+    try {
+      return createEudcEntry(code, codePoint, glyph as string | undefined);
+    } catch (error) {
+      throw new Error(`mappings[${i}]: ${(error as Error).message}`);
+    }
+  });
+}
+
+function parseText(text: string): EudcEntry[] {
+  const entries: EudcEntry[] = [];
+  text.split('\n').forEach((rawLine, i) => {
+    const line = rawLine.replace(/#.*/, '').trim();
+    if (!line) return;
+    const [code, codePoint, ...rest] = line.split(/\s+/);
+    if (!codePoint || rest.length) throw new Error(`Line ${i + 1}: expected "<Big5 code> <code point>"`);
+    try {
+      entries.push(createEudcEntry(code, codePoint));
+    } catch (error) {
+      throw new Error(`Line ${i + 1}: ${(error as Error).message}`);
+    }
+  });
+  return entries;
+}
+
+/** 解析匯入檔（JSON 或純文字）；任何一筆不合法就整份拒絕 */
+export function parseEudcFile(text: string): EudcEntry[] {
+  const entries = text.trimStart().startsWith('{') ? parseJson(text) : parseText(text);
+  checkDuplicates(entries);
+  return entries;
+}
+
+export function serializeEudc(entries: EudcEntry[]): string {
+  const mappings = entries.map(({ code, char, glyph }) => ({
+    code,
+    codePoint: formatCodePoint(char),
+    ...(glyph ? { glyph } : {}),
+  }));
+  return JSON.stringify({ format: FILE_FORMAT, version: 1, mappings }, null, 2);
+}
+
+/** 匯入的字覆蓋同碼或同碼位的既有字，結果依 Big5 碼排序 */
+export function mergeEudc(current: EudcEntry[], incoming: EudcEntry[]): EudcEntry[] {
+  const codes = new Set(incoming.map(e => e.code));
+  const chars = new Set(incoming.map(e => e.char));
+  return [...current.filter(e => !codes.has(e.code) && !chars.has(e.char)), ...incoming].sort((a, b) =>
+    a.code.localeCompare(b.code)
+  );
+}
+
+/** 下一個還沒用到的 PUA 碼位（U+E000 起） */
+export function nextPrivateUse(entries: EudcEntry[]): string {
+  const used = new Set(entries.map(e => e.char.codePointAt(0)));
+  let cp = 0xe000;
+  while (used.has(cp) && cp < 0xf8ff) cp++;
+  return formatCodePoint(String.fromCodePoint(cp));
+}
+
+export function loadEudc(): EudcEntry[] {
+  try {
+    const text = localStorage.getItem(STORAGE_KEY);
+    return text ? parseEudcFile(text) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveEudc(entries: EudcEntry[]): void {
+  try {
+    if (entries.length) localStorage.setItem(STORAGE_KEY, serializeEudc(entries));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // 超出容量或無痕模式：自訂字只保留在這次的頁面
+  }
+}
@@ -0,0 +1,11 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_BODY_BYTES, exceedsBodyLimit } from './history';
+
+test('exceedsBodyLimit counts UTF-8 bytes', () => {
+  assert.equal(exceedsBodyLimit('a'.repeat(MAX_BODY_BYTES)), false);
+  assert.equal(exceedsBodyLimit('a'.repeat(MAX_BODY_BYTES + 1)), true);
+  const chinese = '中'.repeat(Math.floor(MAX_BODY_BYTES / 3));
+  assert.equal(exceedsBodyLimit(chinese), false);
+  assert.equal(exceedsBodyLimit(`${chinese}中`), true);
+});
@@ -0,0 +1,83 @@
+import type { Big5Variant, OutputFormat } from './codec';
+
+// ─── 轉換紀錄與片段 API ───────────────────────────────────────────────────────
+//
+//  對應 server/history.ts；伺服器不可用時各函式會 reject，由呼叫端決定是否提示。
+//
+export interface Conversion {
+  input: string;
+  format: OutputFormat;
+  variant: Big5Variant;
+}
+
+export interface HistoryEntry extends Conversion {
+  id: number;
+  /** ISO 8601 */
+  createdAt: string;
+}
+
+export interface Snippet extends HistoryEntry {
+  name: string;
+}
+
+export interface ListResult<T> {
+  items: T[];
+  total: number;
+}
+
+/** 與 server/convert.ts 的 BODY_LIMIT（1mb）相同 */
+export const MAX_BODY_BYTES = 1024 * 1024;
+
+/** 超過伺服器上限的 JSON 會被拒（413），先在用戶端擋下 */
+export function exceedsBodyLimit(json: string): boolean {
+  return json.length > MAX_BODY_BYTES / 3 && new TextEncoder().encode(json).length > MAX_BODY_BYTES;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  if (typeof init?.body === 'string' && exceedsBodyLimit(init.body)) {
+    throw new Error('內容超過 1 MB，無法儲存');
+  }
+  const response = await fetch(url, init).catch(() => {
+    throw new Error('伺服器無法連線');
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `${response.status} ${response.statusText}`);
+  }
+  return (response.status === 204 ? undefined : await response.json()) as T;
+}
+
+function sendJson(method: string, body: unknown): RequestInit {
+  return { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) };
+}
+
+export function listHistory(query = ''): Promise<ListResult<HistoryEntry>> {
+  return request(`/api/history?q=${encodeURIComponent(query)}`);
+}
+
+/** 有 id 時更新該筆紀錄，否則新增 */
+export function saveHistory(conversion: Conversion, id?: number): Promise<HistoryEntry> {
+  return id === undefined
+    ? request('/api/history', sendJson('POST', conversion))
+    : request(`/api/history/${id}`, sendJson('PUT', conversion));
+}
+
+export function deleteHistory(id: number): Promise<void> {
+  return request(`/api/history/${id}`, { method: 'DELETE' });
+}
+
+export function clearHistory(): Promise<void> {
+  return request('/api/history', { method: 'DELETE' });
+}
+
+export function listSnippets(query = ''): Promise<ListResult<Snippet>> {
+  return request(`/api/snippets?q=${encodeURIComponent(query)}`);
+}
+
+export function saveSnippet(name: string, conversion: Conversion): Promise<Snippet> {
+  return request('/api/snippets', sendJson('POST', { name, ...conversion }));
+}
+
+export function deleteSnippet(id: number): Promise<void> {
+  return request(`/api/snippets/${id}`, { method: 'DELETE' });
+}
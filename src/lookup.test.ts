@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { lookupPattern, matchCodes, neighborCode } from './lookup';
+
+test('lookupPattern treats blank and ? cells as wildcards', () => {
+  assert.equal(lookupPattern(['A', '4', '', '']), 'A4??');
+  assert.equal(lookupPattern(['a', '?', '*', 'f']), 'A??F');
+  assert.equal(lookupPattern(['', '', '', '']), null);
+});
+
+test('matchCodes lists every assigned code matching the pattern in order', () => {
+  const row = matchCodes('A4??');
+  assert.equal(row.length, 157);
+  assert.deepEqual(row[0], { code: 'A440', char: '一' });
+  assert.deepEqual(row.at(-1), { code: 'A4FE', char: '丙' });
+  assert.deepEqual(
+    matchCodes('A44?').map(m => m.char).join(''),
+    '一乙丁七乃九了二人儿入八几刀刁力'
+  );
+  assert.deepEqual(matchCodes('A3F?'), []);
+});
+
+test('neighborCode skips unassigned codes', () => {
+  assert.equal(neighborCode('A440', 1), 'A441');
+  assert.equal(neighborCode('A47E', 1), 'A4A1');
+  assert.equal(neighborCode('A4A1', -1), 'A47E');
+  assert.equal(neighborCode('A3C0', 1), 'A3E1', 'starts from an unassigned code');
+  assert.equal(neighborCode('A3E1', 1), 'A440');
+  assert.equal(neighborCode('0000', -1), undefined);
+});
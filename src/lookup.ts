@@ -0,0 +1,56 @@
+import { getTable, DEFAULT_VARIANT, type Big5Table, type Big5Variant } from './codec';
+
+// ─── 反向查找：部分碼與萬用字元 ───────────────────────────────────────────────
+//
+//  查找格可留空或填 ?，代表該位置任一 hex 字元：A4?? 列出首位元組 A4 的所有字。
+//  已指派的碼依碼值排序，供「上一個／下一個」在同一份清單中移動。
+//
+export interface LookupMatch {
+  /** Big5 hex (4字元大寫) */
+  code: string;
+  char: string;
+}
+
+const sortedCodes = new WeakMap<Big5Table, string[]>();
+
+// 4 位大寫 hex 的字串順序即碼值順序
+function assignedCodes(table: Big5Table): string[] {
+  let codes = sortedCodes.get(table);
+  if (!codes) {
+    codes = [...table.reverse.keys()].sort();
+    sortedCodes.set(table, codes);
+  }
+  return codes;
+}
+
+/** 4 格 → 4 字元樣式（空格與 * 視為 ?）；4 格都是萬用字元時回傳 null，不列出整張表 */
+export function lookupPattern(cells: string[]): string | null {
+  const pattern = [0, 1, 2, 3]
+    .map(i => (cells[i] ?? '').toUpperCase())
+    .map(c => (/^[0-9A-F]$/.test(c) ? c : '?'))
+    .join('');
+  return pattern === '????' ? null : pattern;
+}
+
+export function matchCodes(pattern: string, variant: Big5Variant = DEFAULT_VARIANT): LookupMatch[] {
+  const table = getTable(variant);
+  const regex = new RegExp(`^${pattern.toUpperCase().replace(/\?/g, '[0-9A-F]')}$`);
+  return assignedCodes(table)
+    .filter(code => regex.test(code))
+    .map(code => ({ code, char: table.reverse.get(code)! }));
+}
+
+/** code 之前（direction = -1）或之後（1）最近的已指派碼；code 本身不必已指派 */
+export function neighborCode(code: string, direction: -1 | 1, variant: Big5Variant = DEFAULT_VARIANT): string | undefined {
+  const codes = assignedCodes(getTable(variant));
+  let low = 0;
+  let high = codes.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (codes[mid] < code) low = mid + 1;
+    else high = mid;
+  }
+  // low 為第一個 >= code 的位置
+  if (direction < 0) return codes[low - 1];
+  return codes[codes[low] === code ? low + 1 : low];
+}
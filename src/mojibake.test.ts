@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeBytes } from './codec';
+import { recoverBytes, repairMojibake } from './mojibake';
+
+const ORIGINAL = '中文字測試，許功蓋\nBig5 亂碼';
+const BYTES = encodeBytes(ORIGINAL).bytes;
+
+// 模擬瀏覽器把 Big5 當成其他編碼顯示
+const LATIN1_GARBLED = new TextDecoder('windows-1252').decode(BYTES);
+
+test('recoverBytes reverses Latin-1, Windows-1252 and GBK decoding', () => {
+  assert.deepEqual(recoverBytes(String.fromCharCode(...BYTES), 'latin1'), { bytes: BYTES, lost: 0 });
+  assert.deepEqual(recoverBytes('¤¤€', 'latin1').bytes, Uint8Array.of(0xa4, 0xa4, 0x80));
+  assert.deepEqual(recoverBytes(new TextDecoder('gbk').decode(BYTES), 'gbk'), { bytes: BYTES, lost: 0 });
+});
+
+test('repairMojibake ranks the matching hypothesis first', () => {
+  for (const [garbled, decoding] of [
+    [LATIN1_GARBLED, 'latin1'],
+    [new TextDecoder('gbk').decode(BYTES), 'gbk'],
+  ] as const) {
+    const [best, ...rest] = repairMojibake(garbled);
+    assert.equal(best.decoding, decoding);
+    assert.equal(best.text, ORIGINAL);
+    assert.equal(best.errors, 0);
+    assert.ok(best.plausible);
+    assert.ok(rest.every(candidate => !candidate.plausible));
+  }
+});
+
+test('UTF-8 mis-decoding is only partly recoverable', () => {
+  const garbled = new TextDecoder('utf-8').decode(BYTES);
+  const candidate = repairMojibake(garbled).find(c => c.decoding === 'utf-8')!;
+  assert.ok(candidate.plausible);
+  assert.ok(candidate.lost > 0);
+  assert.ok(candidate.text.includes('Big5'));
+  assert.deepEqual(repairMojibake(''), []);
+});
@@ -0,0 +1,136 @@
+import { decodeBytes, getTable, DEFAULT_VARIANT, REPLACEMENT_CHAR, type Big5Variant } from './codec';
+
+// ─── 亂碼修復 ─────────────────────────────────────────────────────────────────
+//
+//  Big5 位元組被誤當成其他編碼解讀後，依每種假設把亂碼換回原本的位元組，再以 Big5 解碼：
+//    latin1  Latin-1 / Windows-1252：每個字一個位元組（0x80–0x9F 也接受 1252 的 €‚ƒ„… 等符號）
+//    utf-8   UTF-8：無效序列已變成 U+FFFD，這些位元組救不回來
+//    gbk     GBK：雙位元組字依 GBK 碼表換回兩個位元組
+//  合理的假設排在前面，再依解出的常用字（A440–C67E）數排序，同分時換不回的字與 Big5 錯誤較少者在前。
+//  latin1 / gbk 要每個字都換得回位元組才算合理；任何字串都能當成 UTF-8 的輸出，
+//  但 Big5 的雙位元組字幾乎不可能全是合法 UTF-8，所以 utf-8 要亂碼中出現 U+FFFD 才算合理。
+//
+export type MisDecoding = 'latin1' | 'utf-8' | 'gbk';
+
+export const MIS_DECODINGS: MisDecoding[] = ['latin1', 'utf-8', 'gbk'];
+
+export interface RecoveredBytes {
+  bytes: Uint8Array;
+  /** 無法換回位元組的字數 */
+  lost: number;
+}
+
+export interface RepairCandidate extends RecoveredBytes {
+  decoding: MisDecoding;
+  text: string;
+  /** Big5 解碼錯誤數 */
+  errors: number;
+  /** 解出的常用字數 */
+  frequent: number;
+  /** 亂碼可能是以這種編碼解讀的結果 */
+  plausible: boolean;
+}
+
+const FREQUENT_START = 0xa440;
+const FREQUENT_END = 0xc67e;
+
+// Windows-1252 在 0x80–0x9F 放的符號（未定義的位置以 C1 控制字元原樣保留）
+const WINDOWS_1252 = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+function latin1Bytes(text: string): RecoveredBytes {
+  const bytes: number[] = [];
+  let lost = 0;
+  for (const char of text) {
+    const cp = char.codePointAt(0)!;
+    const index = WINDOWS_1252.indexOf(char);
+    if (index >= 0) bytes.push(0x80 + index);
+    else if (cp <= 0xff) bytes.push(cp);
+    else lost++;
+  }
+  return { bytes: Uint8Array.from(bytes), lost };
+}
+
+function utf8Bytes(text: string): RecoveredBytes {
+  const encoder = new TextEncoder();
+  const bytes: number[] = [];
+  let lost = 0;
+  for (const char of text) {
+    if (char === REPLACEMENT_CHAR) lost++;
+    else bytes.push(...encoder.encode(char));
+  }
+  return { bytes: Uint8Array.from(bytes), lost };
+}
+
+// GBK 編碼表：以 TextDecoder 逐一解開所有雙位元組碼反推，第一次使用時才建立
+let gbkTable: Map<string, number> | null = null;
+
+function getGbkTable(): Map<string, number> {
+  if (!gbkTable) {
+    gbkTable = new Map();
+    const decoder = new TextDecoder('gbk');
+    for (let lead = 0x81; lead <= 0xfe; lead++) {
+      for (let trail = 0x40; trail <= 0xfe; trail++) {
+        if (trail === 0x7f) continue;
+        const char = decoder.decode(Uint8Array.of(lead, trail));
+        if (char.length === 1 && char !== REPLACEMENT_CHAR && !gbkTable.has(char)) {
+          gbkTable.set(char, (lead << 8) | trail);
+        }
+      }
+    }
+  }
+  return gbkTable;
+}
+
+function gbkBytes(text: string): RecoveredBytes {
+  const table = getGbkTable();
+  const bytes: number[] = [];
+  let lost = 0;
+  for (const char of text) {
+    const cp = char.codePointAt(0)!;
+    const code = table.get(char);
+    if (cp < 0x80) bytes.push(cp);
+    else if (code !== undefined) bytes.push(code >> 8, code & 0xff);
+    else lost++;
+  }
+  return { bytes: Uint8Array.from(bytes), lost };
+}
+
+/** 假設 text 是 Big5 位元組被誤以 decoding 解讀的結果，換回原本的位元組 */
+export function recoverBytes(text: string, decoding: MisDecoding): RecoveredBytes {
+  switch (decoding) {
+    case 'latin1':
+      return latin1Bytes(text);
+    case 'utf-8':
+      return utf8Bytes(text);
+    case 'gbk':
+      return gbkBytes(text);
+  }
+}
+
+function countFrequent(text: string, variant: Big5Variant): number {
+  const { mapping } = getTable(variant);
+  let count = 0;
+  for (const char of text) {
+    const code = mapping.get(char);
+    if (code === undefined) continue;
+    const value = parseInt(code, 16);
+    if (value >= FREQUENT_START && value <= FREQUENT_END) count++;
+  }
+  return count;
+}
+
+/** 依各種誤解讀假設修復，最可能的結果在前 */
+export function repairMojibake(garbled: string, variant: Big5Variant = DEFAULT_VARIANT): RepairCandidate[] {
+  if (!garbled) return [];
+  return MIS_DECODINGS.map(decoding => {
+    const recovered = recoverBytes(garbled, decoding);
+    const { text, errors } = decodeBytes(recovered.bytes, variant);
+    const plausible = decoding === 'utf-8' ? garbled.includes(REPLACEMENT_CHAR) : recovered.lost === 0;
+    return { ...recovered, decoding, text, errors: errors.length, frequent: countFrequent(text, variant), plausible };
+  }).sort(
+    (a, b) =>
+      Number(b.plausible) - Number(a.plausible) ||
+      b.frequent - a.frequent ||
+      a.lost + a.errors - (b.lost + b.errors)
+  );
+}
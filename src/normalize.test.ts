@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { encode, encodeBytes } from './codec';
+import { normalizeText } from './normalize';
+
+test('ASCII passes through as single-byte codes in hex and byte output', () => {
+  assert.equal(encode('A 中', {}, 'cp950').text, '0041★0020★A4A4');
+  assert.equal(encode('A\t', { notation: 'escape', separator: 'none' }).text, '\\x41\\x09');
+  assert.deepEqual([...encodeBytes(normalizeText('A 中')).bytes], [0x41, 0x20, 0xa4, 0xa4]);
+});
+
+test('full-width policy converts half-width characters the variant covers', () => {
+  assert.equal(normalizeText('Big5 ok!', { ascii: 'full-width' }), 'Ｂｉｇ５　ｏｋ！');
+  // BIG5-2003 沒有全形的 " ' `，保留半形
+  assert.equal(normalizeText('"a"', { ascii: 'full-width' }, 'big5-2003'), '"ａ"');
+  assert.deepEqual([...encodeBytes(normalizeText('A', { ascii: 'full-width' })).bytes], [0xa2, 0xcf]);
+});
+
+test('punctuation maps to encodable Big5 equivalents', () => {
+  assert.equal(normalizeText('„a“ «b» c... d⋯ e−f', { punctuation: true }), '“a“ 《b》 c… d… e－f');
+  assert.equal(normalizeText('a–b', { punctuation: true }, 'big5-2003'), 'a—b');
+  assert.equal(normalizeText('a–b', { punctuation: true }, 'cp950'), 'a–b');
+  assert.equal(normalizeText('a...', { punctuation: false }), 'a...');
+});
+
+test('whitespace policies', () => {
+  const text = ' a\tb  c \n\tx';
+  assert.equal(normalizeText(text, { whitespace: 'keep' }), text);
+  assert.equal(normalizeText(text, { whitespace: 'expand-tabs' }), ' a  b  c \n    x');
+  assert.equal(normalizeText(text, { whitespace: 'collapse' }), 'a b c\nx');
+  assert.equal(normalizeText(text, { whitespace: 'remove' }), 'abc\nx');
+  assert.equal(normalizeText('a b', { ascii: 'full-width', whitespace: 'remove' }), 'ａｂ');
+});
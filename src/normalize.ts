@@ -0,0 +1,193 @@
+import { getTable, DEFAULT_VARIANT, type Big5Variant } from './codec';
+
+// ─── 正規化 ───────────────────────────────────────────────────────────────────
+//
+//  編碼前先依選項改寫文字，hex 輸出與 Big5 位元組下載用的是同一份結果：
+//    ascii        single-byte  ASCII 原樣以單位元組輸出（41、\x41）
+//                 full-width   英數與符號轉為全形 Big5 符號（Ａ → A2CF），空白轉為全形空白
+//    punctuation  彎引號、破折號、刪節號等換成所選變體有收的對應符號，... 換成 …
+//    whitespace   keep 原樣；expand-tabs 依 4 格 tab stop 展開為空白；
+//                 collapse 連續空白合併為一個並去掉行首行尾空白；remove 刪除所有空白與 tab
+//
+export type AsciiPolicy = 'single-byte' | 'full-width';
+
+export type WhitespacePolicy = 'keep' | 'expand-tabs' | 'collapse' | 'remove';
+
+export const ASCII_POLICIES: AsciiPolicy[] = ['single-byte', 'full-width'];
+
+export const WHITESPACE_POLICIES: WhitespacePolicy[] = ['keep', 'expand-tabs', 'collapse', 'remove'];
+
+export interface NormalizeOptions {
+  ascii: AsciiPolicy;
+  punctuation: boolean;
+  whitespace: WhitespacePolicy;
+}
+
+export const DEFAULT_NORMALIZE: NormalizeOptions = {
+  ascii: 'single-byte',
+  punctuation: false,
+  whitespace: 'keep',
+};
+
+const TAB_WIDTH = 4;
+
+// 依序取第一個所選變體收錄的字；都沒有時保留原字
+const PUNCTUATION: Record<string, string[]> = {
+  '„': ['“'],
+  '‚': ['‘'],
+  '«': ['《'],
+  '»': ['》'],
+  '‹': ['〈'],
+  '›': ['〉'],
+  '″': ['″', '〃'],
+  '‐': ['-'],
+  '‑': ['-'],
+  '‒': ['–', '—'],
+  '–': ['–', '—'],
+  '―': ['―', '—'],
+  '−': ['－'],
+  '⋯': ['…'],
+  '•': ['•', '‧', '·'],
+  '‧': ['‧', '•', '·'],
+  '～': ['～', '〜'],
+};
+
+const PUNCTUATION_PATTERN = new RegExp(`[${Object.keys(PUNCTUATION).join('')}]`, 'g');
+
+// ─── 位置對照 ─────────────────────────────────────────────────────────────────
+//
+//  正規化會刪除、合併或展開字元，無對應字診斷卻要回報原文的行列。每次改變長度的替換都記下
+//  錨點：輸出索引 out 起的替換文字來自原文索引 at 起的 length 個 UTF-16 單位；錨點之後的文字
+//  原樣對應，直到下一個錨點。長度不變的替換（標點、全形）不必記錄。
+//
+export interface OffsetAnchor {
+  out: number;
+  at: number;
+  length: number;
+}
+
+/** 依套用順序排列的各步驟錨點 */
+export type OffsetMap = OffsetAnchor[][];
+
+/** 同 String.replace（pattern 須為 global 且沒有群組），並把替換處記到 anchors */
+function replaceTracked(
+  text: string,
+  pattern: RegExp,
+  replace: (match: string, offset: number) => string,
+  anchors: OffsetAnchor[]
+): string {
+  let shift = 0;
+  return text.replace(pattern, (match: string, offset: number) => {
+    const replacement = replace(match, offset);
+    if (replacement.length === match.length) return replacement;
+    anchors.push({ out: offset + shift, at: offset, length: match.length });
+    shift += replacement.length - match.length;
+    anchors.push({ out: offset + match.length + shift, at: offset + match.length, length: Infinity });
+    return replacement;
+  });
+}
+
+function stepBack(anchors: OffsetAnchor[], offset: number): number {
+  let low = 0;
+  let high = anchors.length - 1;
+  let found: OffsetAnchor | undefined;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (anchors[mid].out <= offset) {
+      found = anchors[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  if (!found) return offset;
+  // 展開的替換（tab → 空白）整段指回原文的那一個字
+  return found.at + Math.min(offset - found.out, Math.max(found.length - 1, 0));
+}
+
+/** 把正規化後文字的 UTF-16 索引換回原文索引 */
+export function originalOffset(map: OffsetMap, offset: number): number {
+  for (let step = map.length - 1; step >= 0; step--) offset = stepBack(map[step], offset);
+  return offset;
+}
+
+// ─── 各步驟 ───────────────────────────────────────────────────────────────────
+function expandTabs(text: string, anchors: OffsetAnchor[]): string {
+  let scanned = 0;
+  let column = 0;
+  return replaceTracked(
+    text,
+    /\t/g,
+    (_, offset) => {
+      for (const char of text.slice(scanned, offset)) column = char === '\n' ? 0 : column + 1;
+      const width = TAB_WIDTH - (column % TAB_WIDTH);
+      column += width;
+      scanned = offset + 1;
+      return ' '.repeat(width);
+    },
+    anchors
+  );
+}
+
+// 逐行處理的規則改寫成不跨行的 pattern，整段一次替換才能記錄位置
+function normalizeWhitespace(text: string, policy: WhitespacePolicy, map: OffsetMap): string {
+  const step = () => {
+    const anchors: OffsetAnchor[] = [];
+    map.push(anchors);
+    return anchors;
+  };
+  switch (policy) {
+    case 'expand-tabs':
+      return expandTabs(text, step());
+    case 'collapse': {
+      const collapsed = replaceTracked(text, /[ \t　]+/g, () => ' ', step());
+      return replaceTracked(collapsed, /(?<=^|\n)[^\S\n]+|[^\S\n]+(?=\n|$)/g, () => '', step());
+    }
+    case 'remove':
+      return replaceTracked(text, /[ \t　]+/g, () => '', step());
+    default:
+      return text;
+  }
+}
+
+function replacePunctuation(text: string, variant: Big5Variant, map: OffsetMap): string {
+  const { mapping } = getTable(variant);
+  const encodable = (char: string) => char.charCodeAt(0) < 0x80 || mapping.has(char);
+  const anchors: OffsetAnchor[] = [];
+  map.push(anchors);
+  return replaceTracked(text, /\.\.\./g, () => '…', anchors).replace(
+    PUNCTUATION_PATTERN,
+    char => PUNCTUATION[char].find(encodable) ?? char
+  );
+}
+
+/** 全形版本不在所選變體時保留半形，仍以單位元組輸出 */
+export function toFullWidth(text: string, variant: Big5Variant): string {
+  const { mapping } = getTable(variant);
+  return text.replace(/[ -~]/g, char => {
+    const full = char === ' ' ? '　' : String.fromCharCode(char.charCodeAt(0) + 0xfee0);
+    return mapping.has(full) ? full : char;
+  });
+}
+
+/** 同 normalizeText，另外回傳換回原文位置用的對照 */
+export function normalizeTracked(
+  text: string,
+  options: Partial<NormalizeOptions> = {},
+  variant: Big5Variant = DEFAULT_VARIANT
+): { text: string; offsets: OffsetMap } {
+  const { ascii, punctuation, whitespace } = { ...DEFAULT_NORMALIZE, ...options };
+  const offsets: OffsetMap = [];
+  let result = normalizeWhitespace(text, whitespace, offsets);
+  if (punctuation) result = replacePunctuation(result, variant, offsets);
+  if (ascii === 'full-width') result = toFullWidth(result, variant);
+  return { text: result, offsets };
+}
+
+export function normalizeText(
+  text: string,
+  options: Partial<NormalizeOptions> = {},
+  variant: Big5Variant = DEFAULT_VARIANT
+): string {
+  return normalizeTracked(text, options, variant).text;
+}
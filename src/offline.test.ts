@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BIG5_VARIANTS, TABLE_CHECKSUMS, getTable } from './codec';
+import { CACHE_PREFIX, cacheVersion } from './offline';
+
+const BUILD_HASH = 'f'.repeat(64);
+
+test('TABLE_CHECKSUMS matches each decoded table', () => {
+  for (const variant of BIG5_VARIANTS) {
+    assert.equal(TABLE_CHECKSUMS[variant], getTable(variant).checksum);
+  }
+});
+
+test('cacheVersion combines the table checksums and the build hash', () => {
+  const version = cacheVersion(BUILD_HASH);
+  assert.ok(version.startsWith(CACHE_PREFIX));
+  assert.equal(version, cacheVersion(BUILD_HASH, { ...TABLE_CHECKSUMS }));
+  const tables = BIG5_VARIANTS.map(v => TABLE_CHECKSUMS[v].slice(0, 8)).join('-');
+  assert.equal(version, `${CACHE_PREFIX}${tables}.ffffffff`);
+});
+
+test('cacheVersion changes when any table or the build changes', () => {
+  for (const variant of BIG5_VARIANTS) {
+    const changed = { ...TABLE_CHECKSUMS, [variant]: '0'.repeat(64) };
+    assert.notEqual(cacheVersion(BUILD_HASH, changed), cacheVersion(BUILD_HASH));
+  }
+  assert.notEqual(cacheVersion('0'.repeat(64)), cacheVersion(BUILD_HASH));
+});
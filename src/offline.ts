@@ -0,0 +1,41 @@
+import { BIG5_VARIANTS, TABLE_CHECKSUMS, type Big5Variant } from './codec';
+
+// ─── 離線 PWA ─────────────────────────────────────────────────────────────────
+//
+//  建置後的 index.html 已內含對照表與整個 App，由 Service Worker（src/sw.js）快取後即可離線使用。
+//  建置時 vite.config.ts 把快取版本與要預先快取的檔案寫進 sw.js：版本由各變體對照表的 checksum
+//  與建置內容的雜湊組成，程式或對照表任一改變，sw.js 的內容就不同，瀏覽器會安裝新的
+//  Service Worker 並清掉舊快取。/api/* 連不上時由 Service Worker 回 503 { code: 'OFFLINE' }，
+//  轉換本身不受影響。
+//
+export const CACHE_PREFIX = 'ggdove-';
+
+export const SERVICE_WORKER_PATH = 'sw.js';
+
+export interface ServiceWorkerBuild {
+  version: string;
+  /** 相對於 Service Worker 所在目錄的路徑 */
+  assets: string[];
+}
+
+export function cacheVersion(buildHash: string, checksums: Record<Big5Variant, string> = TABLE_CHECKSUMS): string {
+  return [CACHE_PREFIX + BIG5_VARIANTS.map(variant => checksums[variant].slice(0, 8)).join('-'), buildHash.slice(0, 8)].join('.');
+}
+
+const BUILD_PATTERN = /\/\* build \*\/.*?\/\* end build \*\//s;
+
+/** 把 src/sw.js 中 build 標記之間的預設值換成這次建置的版本與檔案 */
+export function serviceWorkerSource(template: string, build: ServiceWorkerBuild): string {
+  if (!BUILD_PATTERN.test(template)) throw new Error('Service worker template has no /* build */ marker');
+  return template.replace(BUILD_PATTERN, () => JSON.stringify(build));
+}
+
+/** 只在建置版且以 http(s) 開啟時註冊；開發伺服器不註冊，免得快取住 HMR 的模組 */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator) || !/^https?:$/.test(location.protocol)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(SERVICE_WORKER_PATH, { scope: './' }).catch(() => {
+      // 不支援或被瀏覽器拒絕時照常線上使用
+    });
+  });
+}
@@ -0,0 +1,7 @@
+// Generated by scripts/generate-opencc-data.ts from data/opencc/. Do not edit.
+// OpenCC dictionaries, Apache-2.0 (see data/opencc/LICENSE).
+export const OPENCC_SOURCE_URL = "https://github.com/BYVoid/OpenCC";
+export const ST_CHARACTERS = "㐷\t傌\n㐹\t㑶 㐹\n㐽\t偑\n㑇\t㑳\n㑈\t倲\n㑔\t㑯\n㑩\t儸\n㓆\t𠗣\n㓥\t劏\n㓰\t劃\n㔉\t劚\n㖊\t噚\n㖞\t喎\n㘎\t㘚\n㚯\t㜄\n㛀\t媰\n㛟\t𡞵\n㛠\t𡢃\n㛣\t㜏\n㛤\t孋\n㛿\t𡠹\n㟆\t㠏\n㟜\t𡾱\n㟥\t嵾\n㡎\t幓\n㤘\t㥮\n㤽\t懤\n㥪\t慺\n㧏\t掆\n㧐\t㩳\n㧑\t撝\n㧟\t擓\n㧰\t擽\n㨫\t㩜\n㭎\t棡\n㭏\t椲\n㭣\t𣙎\n㭤\t樢\n㭴\t樫\n㱩\t殰\n㱮\t殨\n㲿\t瀇\n㳔\t濧\n㳕\t灡\n㳠\t澾\n㳡\t濄\n㳢\t𣾷\n㳽\t瀰\n㴋\t潚\n㶉\t鸂\n㶶\t燶\n㶽\t煱\n㺍\t獱\n㻅\t璯\n㻏\t𤫩\n㻘\t𤪺\n䀥\t䁻\n䁖\t瞜\n䂵\t碽\n䃅\t磾\n䅉\t稏\n䅟\t穇\n䅪\t𥢢\n䇲\t筴\n䉤\t籔\n䌶\t䊷\n䌷\t紬\n䌸\t縳\n䌹\t絅\n䌺\t䋙\n䌻\t䋚\n䌼\t綐\n䌽\t綵\n䌾\t䋻\n䌿\t䋹\n䍀\t繿\n䍁\t繸\n䍠\t䍦\n䎬\t䎱\n䏝\t膞\n䑽\t𦪙\n䓓\t薵\n䓕\t薳\n䓖\t藭\n䓨\t罃\n䗖\t螮\n䘛\t𧝞\n䘞\t𧜗\n䙊\t𧜵\n䙌\t䙡\n䙓\t襬\n䜣\t訢\n䜤\t鿁\n䜥\t𧩙\n䜧\t䜀\n䜩\t讌\n䝙\t貙\n䞌\t𧵳\n䞍\t䝼\n䞎\t𧶧\n䞐\t賰\n䟢\t躎\n䢀\t𨊰\n䢁\t𨊸\n䢂\t𨋢\n䥺\t釾\n䥽\t鏺\n䥾\t䥱\n䥿\t𨯅\n䦀\t𨦫\n䦁\t𨧜\n䦂\t䥇\n䦃\t鐯\n䦅\t鐥\n䦆\t钁\n䦶\t䦛\n䦷\t䦟\n䩄\t靦\n䭪\t𩞯\n䯃\t𩣑\n䯄\t騧\n䯅\t䯀\n䲝\t䱽\n䲞\t𩶘\n䲟\t鮣\n䲠\t鰆\n䲡\t鰌\n䲢\t鰧\n䲣\t䱷\n䴓\t鳾\n䴔\t鵁\n䴕\t鴷\n䴖\t鶄\n䴗\t鶪\n䴘\t鷉\n䴙\t鸊\n䶮\t龑\n万\t萬 万\n与\t與\n丑\t醜 丑\n专\t專\n业\t業\n丛\t叢\n东\t東\n丝\t絲\n丢\t丟\n两\t兩\n严\t嚴\n丧\t喪\n个\t個 箇\n丰\t豐 丰\n临\t臨\n为\t爲\n丽\t麗\n举\t舉\n么\t麼\n义\t義\n乌\t烏\n乐\t樂\n乔\t喬\n习\t習\n乡\t鄉\n书\t書\n买\t買\n乱\t亂\n了\t了 瞭\n争\t爭\n于\t於 于\n亏\t虧\n云\t雲 云\n亘\t亙 亘\n亚\t亞\n产\t產\n亩\t畝\n亲\t親\n亵\t褻\n亸\t嚲\n亿\t億\n仅\t僅\n仆\t僕 仆\n仇\t仇 讎\n从\t從\n仑\t侖 崙\n仓\t倉\n仪\t儀\n们\t們\n价\t價 价\n仿\t仿 彷\n众\t衆\n优\t優\n伙\t夥 伙\n会\t會\n伛\t傴\n伞\t傘\n伟\t偉\n传\t傳\n伡\t俥\n伣\t俔\n伤\t傷\n伥\t倀\n伦\t倫\n伧\t傖\n伪\t僞\n伫\t佇\n体\t體\n余\t餘 余\n佛\t佛 彿\n佣\t傭 佣\n佥\t僉\n侠\t俠\n侣\t侶\n侥\t僥\n侦\t偵\n侧\t側\n侨\t僑\n侩\t儈\n侪\t儕\n侬\t儂\n侭\t儘\n俊\t俊 儁\n俣\t俁\n俦\t儔\n俨\t儼\n俩\t倆\n俪\t儷\n俫\t倈\n俭\t儉\n修\t修 脩\n借\t借 藉\n债\t債\n倾\t傾\n偬\t傯\n偻\t僂\n偾\t僨\n偿\t償\n傤\t儎\n傥\t儻\n傧\t儐\n储\t儲\n傩\t儺\n僵\t僵 殭\n儿\t兒\n克\t克 剋\n兑\t兌\n兖\t兗\n党\t黨 党\n兰\t蘭\n关\t關\n兴\t興\n具\t具 俱\n兹\t茲\n养\t養\n兽\t獸\n冁\t囅\n内\t內\n冈\t岡\n册\t冊\n写\t寫\n军\t軍\n农\t農\n冢\t冢 塚\n冬\t冬 鼕\n冯\t馮\n冲\t衝 沖\n决\t決\n况\t況\n冻\t凍\n净\t淨\n凄\t悽 淒\n准\t準 准\n凉\t涼\n凌\t凌 淩\n减\t減\n凑\t湊\n凛\t凜\n几\t幾 几\n凤\t鳳\n凫\t鳧\n凭\t憑\n凯\t凱\n凶\t兇 凶\n出\t出 齣\n击\t擊\n凿\t鑿\n刍\t芻\n划\t劃 划\n刘\t劉\n则\t則\n刚\t剛\n创\t創\n删\t刪\n别\t別 彆\n刬\t剗\n刭\t剄\n刮\t刮 颳\n制\t制 製\n刹\t剎\n刽\t劊\n刾\t㓨\n刿\t劌\n剀\t剴\n剂\t劑\n剐\t剮\n剑\t劍\n剥\t剝\n剧\t劇\n劝\t勸\n办\t辦\n务\t務\n劢\t勱\n动\t動\n励\t勵\n劲\t勁\n劳\t勞\n势\t勢\n勋\t勳 勛\n勚\t勩\n匀\t勻\n匦\t匭\n匮\t匱\n区\t區\n医\t醫\n千\t千 韆\n升\t升 昇\n华\t華\n协\t協\n单\t單\n卖\t賣\n卜\t卜 蔔\n占\t佔 占\n卢\t盧\n卤\t滷 鹵\n卧\t臥\n卫\t衛\n却\t卻\n卷\t卷 捲\n卺\t巹\n厂\t廠 厂\n厅\t廳\n历\t歷 曆\n厉\t厲\n压\t壓\n厌\t厭\n厍\t厙\n厐\t龎\n厕\t廁\n厘\t釐 厘\n厢\t廂\n厣\t厴\n厦\t廈\n厨\t廚\n厩\t廄\n厮\t廝\n县\t縣\n叁\t叄\n参\t參 蔘\n叆\t靉\n叇\t靆\n双\t雙\n发\t發 髮\n变\t變\n叙\t敘\n叠\t疊\n只\t只 隻 祇\n台\t臺 檯 颱 台\n叶\t葉 叶\n号\t號\n叹\t嘆 歎\n叽\t嘰\n吁\t籲 吁\n吃\t喫 吃\n合\t合 閤\n吊\t吊 弔\n同\t同 衕\n后\t後 后\n向\t向 嚮 曏\n吓\t嚇\n吕\t呂\n吗\t嗎\n吣\t吣 唚\n吨\t噸\n听\t聽\n启\t啓\n吴\t吳\n呆\t呆 待\n呐\t吶\n呒\t嘸\n呓\t囈\n呕\t嘔\n呖\t嚦\n呗\t唄\n员\t員\n呙\t咼\n呛\t嗆\n呜\t嗚\n周\t周 週 賙\n咏\t詠\n咙\t嚨\n咛\t嚀\n咝\t噝\n咤\t吒\n咨\t諮 咨\n咸\t鹹 咸\n咽\t咽 嚥\n哄\t哄 鬨\n响\t響\n哑\t啞\n哒\t噠\n哓\t嘵\n哔\t嗶\n哕\t噦\n哗\t譁 嘩\n哙\t噲\n哜\t嚌\n哝\t噥\n哟\t喲\n唇\t脣 唇\n唛\t嘜\n唝\t嗊\n唠\t嘮\n唡\t啢\n唢\t嗩\n唤\t喚\n啧\t嘖\n啬\t嗇\n啭\t囀\n啮\t齧 嚙\n啯\t嘓\n啰\t囉\n啴\t嘽\n啸\t嘯\n喂\t喂 餵\n喷\t噴\n喽\t嘍\n喾\t嚳\n嗫\t囁\n嗳\t噯\n嘘\t噓\n嘤\t嚶\n嘱\t囑\n噜\t嚕\n噪\t噪 譟\n嚣\t囂\n回\t回 迴\n团\t團 糰\n园\t園\n困\t困 睏\n囱\t囪\n围\t圍\n囵\t圇\n国\t國\n图\t圖\n圆\t圓\n圣\t聖\n圹\t壙\n场\t場\n坏\t壞\n坐\t坐 座\n块\t塊\n坚\t堅\n坛\t壇 罈\n坜\t壢\n坝\t壩 垻\n坞\t塢\n坟\t墳\n坠\t墜\n坯\t坯 坏\n垄\t壟\n垅\t壠\n垆\t壚\n垒\t壘\n垦\t墾\n垩\t堊\n垫\t墊\n垭\t埡\n垯\t墶\n垱\t壋\n垲\t塏\n垴\t堖\n埘\t塒\n埙\t壎 塤\n埚\t堝\n堑\t塹\n堕\t墮\n堤\t堤 隄\n塆\t壪\n墙\t牆\n壮\t壯\n声\t聲\n壳\t殼\n壶\t壺\n壸\t壼\n处\t處\n备\t備\n复\t復 複 覆\n够\t夠\n夫\t夫 伕\n头\t頭\n夸\t誇 夸\n夹\t夾 袷\n夺\t奪\n奁\t奩\n奂\t奐\n奋\t奮\n奖\t獎\n奥\t奧\n奸\t奸 姦\n妆\t妝\n妇\t婦\n妈\t媽\n妩\t嫵\n妪\t嫗\n妫\t嬀\n姗\t姍\n姜\t姜 薑\n姹\t奼\n娄\t婁\n娅\t婭\n娆\t嬈\n娇\t嬌\n娈\t孌\n娘\t娘 孃\n娱\t娛\n娲\t媧\n娴\t嫺 嫻\n婳\t嫿\n婴\t嬰\n婵\t嬋\n婶\t嬸\n媪\t媼\n媭\t嬃\n嫒\t嬡\n嫔\t嬪\n嫱\t嬙\n嬷\t嬤\n孙\t孫\n学\t學\n孪\t孿\n宁\t寧 甯\n它\t它 牠\n宝\t寶\n实\t實\n宠\t寵\n审\t審\n宪\t憲\n宫\t宮\n家\t家 傢\n宽\t寬\n宾\t賓\n寝\t寢\n对\t對\n寻\t尋\n导\t導\n寿\t壽\n将\t將\n尔\t爾\n尘\t塵\n尝\t嘗 嚐\n尧\t堯\n尴\t尷\n尸\t屍 尸\n尽\t盡 儘\n局\t局 侷\n层\t層\n屃\t屓\n屉\t屜\n届\t屆\n属\t屬\n屡\t屢\n屦\t屨\n屿\t嶼\n岁\t歲\n岂\t豈\n岖\t嶇\n岗\t崗\n岘\t峴\n岚\t嵐\n岛\t島\n岩\t巖 岩\n岭\t嶺\n岳\t嶽 岳\n岽\t崬\n岿\t巋\n峃\t嶨\n峄\t嶧\n峡\t峽\n峣\t嶢\n峤\t嶠\n峥\t崢\n峦\t巒\n峰\t峯\n崂\t嶗\n崃\t崍\n崄\t嶮\n崭\t嶄\n嵘\t嶸\n嵚\t嶔\n嵝\t嶁\n巅\t巔\n巨\t巨 鉅\n巩\t鞏\n巯\t巰\n币\t幣\n布\t布 佈\n帅\t帥\n师\t師\n帏\t幃\n帐\t帳\n帘\t簾 帘\n帜\t幟\n带\t帶\n帧\t幀\n席\t席 蓆\n帮\t幫\n帱\t幬\n帻\t幘\n帼\t幗\n幂\t冪\n干\t幹 乾 干 榦\n并\t並 併 幷\n幸\t幸 倖\n广\t廣 广\n庄\t莊\n庆\t慶\n床\t牀\n庐\t廬\n庑\t廡\n库\t庫\n应\t應\n庙\t廟\n庞\t龐\n废\t廢\n庵\t庵 菴\n庼\t廎\n廪\t廩\n开\t開\n异\t異\n弃\t棄\n弑\t弒\n张\t張\n弥\t彌 瀰\n弦\t弦 絃\n弪\t弳\n弯\t彎\n弹\t彈\n强\t強\n归\t歸\n当\t當 噹\n录\t錄 彔\n彟\t彠\n彦\t彥\n彨\t彲\n彩\t彩 綵\n彻\t徹\n征\t徵 征\n径\t徑 逕\n徕\t徠\n御\t御 禦\n忆\t憶\n忏\t懺\n志\t志 誌\n忧\t憂\n念\t念 唸\n忾\t愾\n怀\t懷\n态\t態\n怂\t慫\n怃\t憮\n怄\t慪\n怅\t悵\n怆\t愴\n怜\t憐\n总\t總\n怼\t懟\n怿\t懌\n恋\t戀\n恒\t恆\n恤\t恤 卹\n恳\t懇\n恶\t惡 噁\n恸\t慟\n恹\t懨\n恺\t愷\n恻\t惻\n恼\t惱\n恽\t惲\n悦\t悅\n悫\t愨\n悬\t懸\n悭\t慳\n悮\t悞\n悯\t憫\n惊\t驚\n惧\t懼\n惨\t慘\n惩\t懲\n惫\t憊\n惬\t愜\n惭\t慚\n惮\t憚\n惯\t慣\n愈\t愈 癒\n愠\t慍\n愤\t憤\n愦\t憒\n愿\t願 愿\n慑\t懾\n慭\t憖\n懑\t懣\n懒\t懶\n懔\t懍\n戆\t戇\n戋\t戔\n戏\t戲\n戗\t戧\n战\t戰\n戚\t戚 慼 鏚\n戬\t戩\n戯\t戱\n户\t戶\n扇\t扇 搧\n才\t才 纔\n扎\t扎 紮\n扑\t撲\n托\t托 託\n扣\t扣 釦\n执\t執\n扩\t擴\n扪\t捫\n扫\t掃\n扬\t揚\n扰\t擾\n折\t折 摺\n抚\t撫\n抛\t拋\n抟\t摶\n抠\t摳\n抡\t掄\n抢\t搶\n护\t護\n报\t報\n抵\t抵 牴\n担\t擔\n拐\t拐 柺\n拟\t擬\n拢\t攏\n拣\t揀\n拥\t擁\n拦\t攔\n拧\t擰\n拨\t撥\n择\t擇\n拿\t拿 拏\n挂\t掛 挂\n挚\t摯\n挛\t攣\n挜\t掗\n挝\t撾\n挞\t撻\n挟\t挾\n挠\t撓\n挡\t擋\n挢\t撟\n挣\t掙\n挤\t擠\n挥\t揮\n挦\t撏\n挨\t挨 捱\n挽\t挽 輓\n捆\t捆 綑\n捍\t捍 扞\n捝\t挩\n捞\t撈\n损\t損\n捡\t撿\n换\t換\n捣\t搗\n据\t據 据\n掳\t擄\n掴\t摑\n掷\t擲\n掸\t撣\n掺\t摻\n掼\t摜\n揽\t攬\n揾\t搵\n揿\t撳\n搀\t攙\n搁\t擱\n搂\t摟\n搄\t揯\n搅\t攪\n搜\t搜 蒐\n携\t攜\n摄\t攝\n摅\t攄\n摆\t擺 襬\n摇\t搖\n摈\t擯\n摊\t攤\n撄\t攖\n撑\t撐\n撵\t攆\n撷\t擷\n撸\t擼\n撺\t攛\n擜\t㩵\n擞\t擻\n攒\t攢\n敌\t敵\n敚\t敓\n敛\t斂\n敩\t斆\n数\t數\n斋\t齋\n斓\t斕\n斗\t鬥 斗\n斤\t斤 觔\n斩\t斬\n斫\t斫 斲\n断\t斷\n旋\t旋 鏇\n无\t無\n旧\t舊\n时\t時\n旷\t曠\n旸\t暘\n昆\t昆 崑\n昙\t曇\n昵\t暱\n昼\t晝\n昽\t曨\n显\t顯\n晋\t晉\n晒\t曬\n晓\t曉\n晔\t曄\n晕\t暈\n晖\t暉\n暂\t暫\n暅\t𣈶\n暗\t暗 闇\n暧\t曖\n曲\t曲 麴\n札\t札 劄\n术\t術 朮\n朱\t朱 硃\n朴\t樸 朴\n机\t機\n杀\t殺\n杂\t雜\n权\t權\n杆\t杆 桿\n杠\t槓 杠\n条\t條\n来\t來\n杨\t楊\n杩\t榪\n杯\t杯 盃\n杰\t傑 杰\n松\t松 鬆\n板\t板 闆\n极\t極 极\n构\t構\n果\t果 菓\n枞\t樅\n枢\t樞\n枣\t棗\n枥\t櫪\n枧\t梘\n枨\t棖\n枪\t槍 鎗\n枫\t楓\n枭\t梟\n柜\t櫃 柜\n柠\t檸\n柽\t檉\n栀\t梔\n栅\t柵\n标\t標\n栈\t棧\n栉\t櫛\n栊\t櫳\n栋\t棟\n栌\t櫨\n栎\t櫟\n栏\t欄\n树\t樹\n栖\t棲\n栗\t栗 慄\n样\t樣\n核\t核 覈\n栾\t欒\n桠\t椏\n桡\t橈\n桢\t楨\n档\t檔\n桤\t榿\n桥\t橋\n桦\t樺\n桧\t檜\n桨\t槳\n桩\t樁\n桪\t樳\n梁\t梁 樑\n梦\t夢\n梼\t檮\n梾\t棶\n梿\t槤\n检\t檢\n棁\t梲\n棂\t欞\n棱\t棱 稜\n椁\t槨\n椝\t槼\n椟\t櫝\n椠\t槧\n椢\t槶\n椤\t欏\n椫\t樿\n椭\t橢\n椮\t槮\n楼\t樓\n榄\t欖\n榅\t榲\n榇\t櫬\n榈\t櫚\n榉\t櫸\n榝\t樧\n槚\t檟\n槛\t檻\n槟\t檳\n槠\t櫧\n横\t橫\n樯\t檣\n樱\t櫻\n橥\t櫫\n橱\t櫥\n橹\t櫓\n橼\t櫞\n檗\t檗 蘗\n檩\t檁\n欢\t歡\n欤\t歟\n欧\t歐\n欲\t欲 慾\n歼\t殲\n殁\t歿\n殇\t殤\n残\t殘\n殒\t殞\n殓\t殮\n殚\t殫\n殡\t殯\n殴\t毆\n毁\t毀 燬 譭\n毂\t轂\n毕\t畢\n毙\t斃\n毡\t氈\n毵\t毿\n毶\t𣯶\n氇\t氌\n气\t氣\n氢\t氫\n氩\t氬\n氲\t氳\n汇\t匯 彙 滙\n汉\t漢\n汤\t湯\n汹\t洶\n沄\t澐\n沈\t沈 瀋\n沟\t溝\n没\t沒\n沣\t灃\n沤\t漚\n沥\t瀝\n沦\t淪\n沧\t滄\n沨\t渢\n沩\t潙\n沪\t滬\n沾\t沾 霑\n泛\t泛 氾 汎\n泞\t濘\n注\t注 註\n泪\t淚\n泶\t澩\n泷\t瀧\n泸\t瀘\n泺\t濼\n泻\t瀉\n泼\t潑\n泽\t澤\n泾\t涇\n洁\t潔\n洒\t灑\n洼\t窪\n浃\t浹\n浅\t淺\n浆\t漿\n浇\t澆\n浈\t湞\n浉\t溮\n浊\t濁\n测\t測\n浍\t澮\n济\t濟\n浏\t瀏\n浐\t滻\n浑\t渾\n浒\t滸\n浓\t濃\n浔\t潯\n浕\t濜\n浚\t浚 濬\n涂\t塗 涂\n涌\t湧 涌\n涚\t涗\n涛\t濤\n涝\t澇\n涞\t淶\n涟\t漣\n涠\t潿\n涡\t渦\n涢\t溳\n涣\t渙\n涤\t滌\n润\t潤\n涧\t澗\n涨\t漲\n涩\t澀\n淀\t澱 淀\n渊\t淵\n渌\t淥\n渍\t漬\n渎\t瀆\n渐\t漸\n渑\t澠\n渔\t漁\n渖\t瀋\n渗\t滲\n温\t溫\n游\t遊 游\n湾\t灣\n湿\t溼\n溁\t濚\n溃\t潰\n溅\t濺\n溆\t漵\n溇\t漊\n溪\t溪 谿\n滗\t潷\n滚\t滾\n滞\t滯\n滟\t灩 灧\n滠\t灄\n满\t滿\n滢\t瀅\n滤\t濾\n滥\t濫\n滦\t灤\n滨\t濱\n滩\t灘\n滪\t澦\n漓\t漓 灕\n潆\t瀠\n潇\t瀟\n潋\t瀲\n潍\t濰\n潜\t潛\n潴\t瀦\n澄\t澄 澂\n澛\t瀂\n澜\t瀾\n濑\t瀨\n濒\t瀕\n灏\t灝\n灭\t滅\n灯\t燈\n灵\t靈\n灶\t竈\n灾\t災\n灿\t燦\n炀\t煬\n炉\t爐\n炖\t燉\n炜\t煒\n炝\t熗\n点\t點\n炼\t煉 鍊\n炽\t熾\n烁\t爍\n烂\t爛\n烃\t烴\n烛\t燭\n烟\t煙 菸\n烦\t煩\n烧\t燒\n烨\t燁\n烩\t燴\n烫\t燙\n烬\t燼\n热\t熱\n焕\t煥\n焖\t燜\n焘\t燾\n焰\t焰 燄\n煴\t熅\n熏\t燻 熏 薰\n爱\t愛\n爷\t爺\n牍\t牘\n牦\t犛\n牵\t牽\n牺\t犧\n犊\t犢\n状\t狀\n犷\t獷\n犸\t獁\n犹\t猶\n狈\t狽\n狝\t獮\n狞\t獰\n独\t獨\n狭\t狹\n狮\t獅\n狯\t獪\n狰\t猙\n狱\t獄\n狲\t猻\n狸\t狸 貍\n猃\t獫\n猎\t獵\n猕\t獼\n猡\t玀\n猪\t豬\n猫\t貓\n猬\t蝟\n献\t獻\n獭\t獺\n玑\t璣\n玙\t璵\n玚\t瑒\n玛\t瑪\n玩\t玩 翫\n玮\t瑋\n环\t環\n现\t現\n玱\t瑲\n玺\t璽\n珐\t琺\n珑\t瓏\n珰\t璫\n珲\t琿\n琅\t琅 瑯\n琎\t璡\n琏\t璉\n琐\t瑣\n琼\t瓊\n瑶\t瑤\n瑷\t璦\n瑸\t璸\n璇\t璇 璿\n璎\t瓔\n瓒\t瓚\n瓮\t甕\n瓯\t甌\n电\t電\n画\t畫\n畅\t暢\n畴\t疇\n疖\t癤\n疗\t療\n疟\t瘧\n疠\t癘\n疡\t瘍\n疬\t癧\n疭\t瘲\n疮\t瘡\n疯\t瘋\n疱\t皰\n疴\t痾\n症\t症 癥\n痈\t癰\n痉\t痙\n痒\t癢\n痖\t瘂\n痨\t癆\n痪\t瘓\n痫\t癇\n痴\t癡\n瘅\t癉\n瘆\t瘮\n瘗\t瘞\n瘘\t瘻\n瘪\t癟\n瘫\t癱\n瘾\t癮\n瘿\t癭\n癞\t癩\n癣\t癬\n癫\t癲\n皂\t皁 皂\n皑\t皚\n皱\t皺\n皲\t皸\n盏\t盞\n盐\t鹽\n监\t監\n盖\t蓋\n盗\t盜\n盘\t盤\n眍\t瞘\n眦\t眥\n眬\t矓\n睁\t睜\n睐\t睞\n睑\t瞼\n瞆\t瞶\n瞒\t瞞\n瞩\t矚\n矩\t矩 榘\n矫\t矯\n矶\t磯\n矾\t礬\n矿\t礦\n砀\t碭\n码\t碼\n砖\t磚\n砗\t硨\n砚\t硯\n砜\t碸\n砺\t礪\n砻\t礱\n砾\t礫\n础\t礎\n硁\t硜\n硕\t碩\n硖\t硤\n硗\t磽\n硙\t磑\n硚\t礄\n确\t確 确\n硵\t磠\n硷\t硷 礆 鹼\n碍\t礙\n碛\t磧\n碜\t磣\n碱\t鹼\n礼\t禮\n祃\t禡\n祎\t禕\n祢\t禰\n祯\t禎\n祷\t禱\n祸\t禍\n禀\t稟\n禄\t祿\n禅\t禪\n离\t離\n私\t私 俬\n秃\t禿\n秆\t稈\n秋\t秋 鞦\n种\t種 种\n秘\t祕\n积\t積\n称\t稱\n秽\t穢\n秾\t穠\n稆\t穭\n税\t稅\n稣\t穌\n稳\t穩\n穑\t穡\n穗\t穗 繐\n穞\t穭\n穷\t窮\n窃\t竊\n窍\t竅\n窎\t窵\n窑\t窯\n窜\t竄\n窝\t窩\n窥\t窺\n窦\t竇\n窭\t窶\n竖\t豎\n竞\t競\n笃\t篤\n笋\t筍\n笔\t筆\n笕\t筧\n笺\t箋\n笼\t籠\n笾\t籩\n筑\t築 筑\n筚\t篳\n筛\t篩\n筜\t簹\n筝\t箏\n筱\t筱 篠\n筹\t籌\n筼\t篔\n签\t籤 簽\n筿\t篠\n简\t簡\n箓\t籙\n箦\t簀\n箧\t篋\n箨\t籜\n箩\t籮\n箪\t簞\n箫\t簫\n篑\t簣\n篓\t簍\n篮\t籃\n篯\t籛\n篱\t籬\n簖\t籪\n籁\t籟\n籴\t糴\n类\t類\n籼\t秈\n粜\t糶\n粝\t糲\n粤\t粵\n粪\t糞\n粮\t糧\n粽\t糉\n糁\t糝\n糇\t餱\n糊\t糊 餬\n糍\t餈\n系\t系 係 繫\n紧\t緊\n累\t累 纍\n絷\t縶\n緼\t縕\n縆\t緪\n纟\t糹\n纠\t糾\n纡\t紆\n红\t紅\n纣\t紂\n纤\t纖 縴\n纥\t紇\n约\t約\n级\t級\n纨\t紈\n纩\t纊\n纪\t紀\n纫\t紉\n纬\t緯\n纭\t紜\n纮\t紘\n纯\t純\n纰\t紕\n纱\t紗\n纲\t綱\n纳\t納\n纴\t紝\n纵\t縱\n纶\t綸\n纷\t紛\n纸\t紙\n纹\t紋\n纺\t紡\n纻\t紵\n纼\t紖\n纽\t紐\n纾\t紓\n线\t線\n绀\t紺\n绁\t紲\n绂\t紱\n练\t練\n组\t組\n绅\t紳\n细\t細\n织\t織\n终\t終\n绉\t縐\n绊\t絆\n绋\t紼\n绌\t絀\n绍\t紹\n绎\t繹\n经\t經\n绐\t紿\n绑\t綁\n绒\t絨\n结\t結\n绔\t絝\n绕\t繞\n绖\t絰\n绗\t絎\n绘\t繪\n给\t給\n绚\t絢\n绛\t絳\n络\t絡\n绝\t絕\n绞\t絞\n统\t統\n绠\t綆\n绡\t綃\n绢\t絹\n绣\t繡\n绤\t綌\n绥\t綏\n绦\t絛\n继\t繼\n绨\t綈\n绩\t績\n绪\t緒\n绫\t綾\n绬\t緓\n续\t續\n绮\t綺\n绯\t緋\n绰\t綽\n绱\t鞝 緔\n绲\t緄\n绳\t繩\n维\t維\n绵\t綿\n绶\t綬\n绷\t繃 綳\n绸\t綢\n绹\t綯\n绺\t綹\n绻\t綣\n综\t綜\n绽\t綻\n绾\t綰\n绿\t綠\n缀\t綴\n缁\t緇\n缂\t緙\n缃\t緗\n缄\t緘\n缅\t緬\n缆\t纜\n缇\t緹\n缈\t緲\n缉\t緝\n缊\t縕\n缋\t繢\n缌\t緦\n缍\t綞\n缎\t緞\n缏\t緶\n缐\t線\n缑\t緱\n缒\t縋\n缓\t緩\n缔\t締\n缕\t縷\n编\t編\n缗\t緡\n缘\t緣\n缙\t縉\n缚\t縛\n缛\t縟\n缜\t縝\n缝\t縫\n缞\t縗\n缟\t縞\n缠\t纏\n缡\t縭\n缢\t縊\n缣\t縑\n缤\t繽\n缥\t縹\n缦\t縵\n缧\t縲\n缨\t纓\n缩\t縮\n缪\t繆\n缫\t繅\n缬\t纈\n缭\t繚\n缮\t繕\n缯\t繒\n缰\t繮\n缱\t繾\n缲\t繰\n缳\t繯\n缴\t繳\n缵\t纘\n罂\t罌\n网\t網\n罗\t羅\n罚\t罰\n罢\t罷\n罴\t羆\n羁\t羈\n羟\t羥\n羡\t羨\n群\t羣\n翘\t翹\n翙\t翽\n翚\t翬\n耇\t耇 耈\n耢\t耮\n耧\t耬\n耸\t聳\n耻\t恥\n聂\t聶\n聋\t聾\n职\t職\n聍\t聹\n联\t聯\n聩\t聵\n聪\t聰\n肃\t肅\n肠\t腸\n肤\t膚\n肮\t骯\n肴\t餚\n肾\t腎\n肿\t腫\n胀\t脹\n胁\t脅\n胄\t胄 冑\n胆\t膽\n背\t背 揹\n胜\t勝 胜\n胡\t胡 鬍 衚\n胧\t朧\n胨\t腖\n胪\t臚\n胫\t脛\n胶\t膠\n脉\t脈\n脍\t膾\n脏\t髒 臟\n脐\t臍\n脑\t腦\n脓\t膿\n脔\t臠\n脚\t腳\n脱\t脫\n脶\t腡\n脸\t臉\n腊\t臘 腊\n腌\t醃 腌\n腘\t膕\n腭\t齶\n腻\t膩\n腼\t靦\n腽\t膃\n腾\t騰\n膑\t臏\n膻\t羶 膻\n臜\t臢\n致\t致 緻\n舆\t輿\n舍\t舍 捨\n舣\t艤\n舰\t艦\n舱\t艙\n舻\t艫\n艰\t艱\n艳\t豔 艷\n艺\t藝\n节\t節\n芈\t羋\n芗\t薌\n芜\t蕪\n芦\t蘆\n芸\t芸 蕓\n苁\t蓯\n苇\t葦\n苈\t藶\n苋\t莧\n苌\t萇\n苍\t蒼\n苎\t苧\n苏\t蘇 甦 囌\n苔\t苔 薹\n苧\t薴\n苹\t蘋 苹\n范\t範 范\n茎\t莖\n茏\t蘢\n茑\t蔦\n茔\t塋\n茕\t煢\n茧\t繭\n荆\t荊\n荐\t薦 荐\n荙\t薘\n荚\t莢\n荛\t蕘\n荜\t蓽\n荝\t萴\n荞\t蕎\n荟\t薈\n荠\t薺\n荡\t蕩 盪\n荣\t榮\n荤\t葷\n荥\t滎\n荦\t犖\n荧\t熒\n荨\t蕁\n荩\t藎\n荪\t蓀\n荫\t蔭 廕\n荬\t蕒\n荭\t葒\n荮\t葤\n药\t藥 葯\n莅\t蒞\n莱\t萊\n莲\t蓮\n莳\t蒔\n莴\t萵\n莶\t薟\n获\t獲 穫\n莸\t蕕\n莹\t瑩\n莺\t鶯\n莼\t蓴\n萚\t蘀\n萝\t蘿\n萤\t螢\n营\t營\n萦\t縈\n萧\t蕭\n萨\t薩\n葱\t蔥\n蒀\t蒕\n蒇\t蕆\n蒉\t蕢\n蒋\t蔣\n蒌\t蔞\n蒏\t醟\n蒙\t蒙 矇 濛 懞\n蓝\t藍\n蓟\t薊\n蓠\t蘺\n蓣\t蕷\n蓥\t鎣\n蓦\t驀\n蔂\t虆\n蔑\t蔑 衊\n蔷\t薔\n蔹\t蘞\n蔺\t藺\n蔼\t藹\n蕰\t薀\n蕲\t蘄\n蕴\t蘊\n薮\t藪\n藓\t蘚\n藤\t藤 籐\n藴\t蘊\n蘖\t櫱\n虏\t虜\n虑\t慮\n虚\t虛\n虫\t蟲 虫\n虬\t虯\n虮\t蟣\n虱\t蝨\n虽\t雖\n虾\t蝦\n虿\t蠆\n蚀\t蝕\n蚁\t蟻\n蚂\t螞\n蚃\t蠁\n蚕\t蠶\n蚝\t蠔 蚝\n蚬\t蜆\n蛊\t蠱\n蛎\t蠣\n蛏\t蟶\n蛮\t蠻\n蛰\t蟄\n蛱\t蛺\n蛲\t蟯\n蛳\t螄\n蛴\t蠐\n蜕\t蛻\n蜗\t蝸\n蜡\t蠟 蜡\n蝇\t蠅\n蝈\t蟈\n蝉\t蟬\n蝎\t蠍 蝎\n蝼\t螻\n蝾\t蠑\n螀\t螿\n螨\t蟎\n蟏\t蠨\n衅\t釁\n衔\t銜\n补\t補\n表\t表 錶\n衬\t襯\n衮\t袞\n袄\t襖\n袅\t嫋 裊\n袆\t褘\n袜\t襪\n袭\t襲\n袯\t襏\n装\t裝\n裆\t襠\n裈\t褌\n裢\t褳\n裣\t襝\n裤\t褲\n裥\t襉 襇\n褛\t褸\n褴\t襤\n襕\t襴\n见\t見\n观\t觀\n觃\t覎\n规\t規\n觅\t覓\n视\t視\n觇\t覘\n览\t覽\n觉\t覺\n觊\t覬\n觋\t覡\n觌\t覿\n觍\t覥\n觎\t覦\n觏\t覯\n觐\t覲\n觑\t覷\n觞\t觴\n触\t觸\n觯\t觶\n訚\t誾\n詟\t讋\n誉\t譽\n誊\t謄\n讠\t訁\n计\t計\n订\t訂\n讣\t訃\n认\t認\n讥\t譏\n讦\t訐\n讧\t訌\n讨\t討\n让\t讓\n讪\t訕\n讫\t訖\n讬\t託\n训\t訓\n议\t議\n讯\t訊\n记\t記\n讱\t訒\n讲\t講\n讳\t諱\n讴\t謳\n讵\t詎\n讶\t訝\n讷\t訥\n许\t許\n讹\t訛\n论\t論\n讻\t訩\n讼\t訟\n讽\t諷\n设\t設\n访\t訪\n诀\t訣\n证\t證 証\n诂\t詁\n诃\t訶\n评\t評\n诅\t詛\n识\t識\n诇\t詗\n诈\t詐\n诉\t訴\n诊\t診\n诋\t詆\n诌\t謅\n词\t詞\n诎\t詘\n诏\t詔\n诐\t詖\n译\t譯\n诒\t詒\n诓\t誆\n诔\t誄\n试\t試\n诖\t詿\n诗\t詩\n诘\t詰\n诙\t詼\n诚\t誠\n诛\t誅\n诜\t詵\n话\t話\n诞\t誕\n诟\t詬\n诠\t詮\n诡\t詭\n询\t詢\n诣\t詣\n诤\t諍\n该\t該\n详\t詳\n诧\t詫\n诨\t諢\n诩\t詡\n诪\t譸\n诫\t誡\n诬\t誣\n语\t語\n诮\t誚\n误\t誤\n诰\t誥\n诱\t誘\n诲\t誨\n诳\t誑\n说\t說\n诵\t誦\n诶\t誒\n请\t請\n诸\t諸\n诹\t諏\n诺\t諾\n读\t讀\n诼\t諑\n诽\t誹\n课\t課\n诿\t諉\n谀\t諛\n谁\t誰\n谂\t諗\n调\t調\n谄\t諂\n谅\t諒\n谆\t諄\n谇\t誶\n谈\t談\n谉\t讅\n谊\t誼\n谋\t謀\n谌\t諶\n谍\t諜\n谎\t謊\n谏\t諫\n谐\t諧\n谑\t謔\n谒\t謁\n谓\t謂\n谔\t諤\n谕\t諭\n谖\t諼\n谗\t讒\n谘\t諮\n谙\t諳\n谚\t諺\n谛\t諦\n谜\t謎\n谝\t諞\n谞\t諝\n谟\t謨\n谠\t讜\n谡\t謖\n谢\t謝\n谣\t謠\n谤\t謗\n谥\t諡 謚\n谦\t謙\n谧\t謐\n谨\t謹\n谩\t謾\n谪\t謫\n谫\t譾\n谬\t謬\n谭\t譚\n谮\t譖\n谯\t譙\n谰\t讕\n谱\t譜\n谲\t譎\n谳\t讞\n谴\t譴\n谵\t譫\n谶\t讖\n谷\t谷 穀\n豆\t豆 荳\n象\t象 像\n豮\t豶\n贝\t貝\n贞\t貞\n负\t負\n贠\t貟\n贡\t貢\n财\t財\n责\t責\n贤\t賢\n败\t敗\n账\t賬\n货\t貨\n质\t質\n贩\t販\n贪\t貪\n贫\t貧\n贬\t貶\n购\t購\n贮\t貯\n贯\t貫\n贰\t貳\n贱\t賤\n贲\t賁\n贳\t貰\n贴\t貼\n贵\t貴\n贶\t貺\n贷\t貸\n贸\t貿\n费\t費\n贺\t賀\n贻\t貽\n贼\t賊\n贽\t贄\n贾\t賈\n贿\t賄\n赀\t貲\n赁\t賃\n赂\t賂\n赃\t贓\n资\t資\n赅\t賅\n赆\t贐\n赇\t賕\n赈\t賑\n赉\t賚\n赊\t賒\n赋\t賦\n赌\t賭\n赍\t齎\n赎\t贖\n赏\t賞\n赐\t賜\n赑\t贔\n赒\t賙\n赓\t賡\n赔\t賠\n赕\t賧\n赖\t賴\n赗\t賵\n赘\t贅\n赙\t賻\n赚\t賺\n赛\t賽\n赜\t賾\n赝\t贗 贋\n赞\t贊 讚\n赟\t贇\n赠\t贈\n赡\t贍\n赢\t贏\n赣\t贛\n赪\t赬\n赵\t趙\n赶\t趕\n趋\t趨\n趱\t趲\n趸\t躉\n跃\t躍\n跄\t蹌\n跖\t蹠 跖\n跞\t躒\n践\t踐\n跶\t躂\n跷\t蹺\n跸\t蹕\n跹\t躚\n跻\t躋\n踌\t躊\n踪\t蹤\n踬\t躓\n踯\t躑\n蹑\t躡\n蹒\t蹣\n蹰\t躕\n蹿\t躥\n躏\t躪\n躜\t躦\n躯\t軀\n輼\t轀\n车\t車\n轧\t軋\n轨\t軌\n轩\t軒\n轪\t軑\n轫\t軔\n转\t轉\n轭\t軛\n轮\t輪\n软\t軟\n轰\t轟\n轱\t軲\n轲\t軻\n轳\t轤\n轴\t軸\n轵\t軹\n轶\t軼\n轷\t軤\n轸\t軫\n轹\t轢\n轺\t軺\n轻\t輕\n轼\t軾\n载\t載\n轾\t輊\n轿\t轎\n辀\t輈\n辁\t輇\n辂\t輅\n较\t較\n辄\t輒\n辅\t輔\n辆\t輛\n辇\t輦\n辈\t輩\n辉\t輝\n辊\t輥\n辋\t輞\n辌\t輬\n辍\t輟\n辎\t輜\n辏\t輳\n辐\t輻\n辑\t輯\n辒\t轀\n输\t輸\n辔\t轡\n辕\t轅\n辖\t轄\n辗\t輾\n辘\t轆\n辙\t轍\n辚\t轔\n辞\t辭\n辟\t闢 辟\n辩\t辯\n辫\t辮\n边\t邊\n辽\t遼\n达\t達\n迁\t遷\n过\t過\n迈\t邁\n运\t運\n还\t還\n这\t這\n进\t進\n远\t遠\n违\t違\n连\t連\n迟\t遲\n迩\t邇\n迳\t逕\n迹\t跡 蹟\n适\t適 适\n选\t選\n逊\t遜\n递\t遞\n逦\t邐\n逻\t邏\n遗\t遺\n遥\t遙\n邓\t鄧\n邝\t鄺\n邬\t鄔\n邮\t郵\n邹\t鄒\n邺\t鄴\n邻\t鄰\n郁\t鬱 郁\n郏\t郟\n郐\t鄶\n郑\t鄭\n郓\t鄆\n郦\t酈\n郧\t鄖\n郸\t鄲\n酂\t酇\n酝\t醞\n酦\t醱\n酱\t醬\n酸\t酸 痠\n酽\t釅\n酾\t釃\n酿\t釀\n醖\t醞\n采\t採 采 寀\n释\t釋\n里\t裏 里 哩\n鉴\t鑑 鑒\n銮\t鑾\n錾\t鏨\n钅\t釒\n钆\t釓\n钇\t釔\n针\t針 鍼\n钉\t釘\n钊\t釗\n钋\t釙\n钌\t釕\n钍\t釷\n钎\t釺\n钏\t釧\n钐\t釤\n钑\t鈒\n钒\t釩\n钓\t釣\n钔\t鍆\n钕\t釹\n钖\t鍚\n钗\t釵\n钘\t鈃\n钙\t鈣\n钚\t鈈\n钛\t鈦\n钜\t鉅\n钝\t鈍\n钞\t鈔\n钟\t鍾 鐘 鈡\n钠\t鈉\n钡\t鋇\n钢\t鋼\n钣\t鈑\n钤\t鈐\n钥\t鑰 鈅\n钦\t欽\n钧\t鈞\n钨\t鎢\n钩\t鉤\n钪\t鈧\n钫\t鈁 鍅\n钬\t鈥\n钭\t鈄\n钮\t鈕\n钯\t鈀\n钰\t鈺\n钱\t錢\n钲\t鉦\n钳\t鉗\n钴\t鈷\n钵\t鉢\n钶\t鈳\n钷\t鉕\n钸\t鈽\n钹\t鈸\n钺\t鉞\n钻\t鑽 鉆\n钼\t鉬\n钽\t鉭\n钾\t鉀\n钿\t鈿\n铀\t鈾\n铁\t鐵\n铂\t鉑\n铃\t鈴\n铄\t鑠\n铅\t鉛\n铆\t鉚\n铇\t鉋\n铈\t鈰\n铉\t鉉\n铊\t鉈\n铋\t鉍\n铌\t鈮\n铍\t鈹\n铎\t鐸\n铏\t鉶\n铐\t銬\n铑\t銠\n铒\t鉺\n铓\t鋩\n铔\t錏\n铕\t銪\n铖\t鋮\n铗\t鋏\n铘\t鋣\n铙\t鐃\n铚\t銍\n铛\t鐺\n铜\t銅\n铝\t鋁\n铞\t銱\n铟\t銦\n铠\t鎧\n铡\t鍘\n铢\t銖\n铣\t銑\n铤\t鋌\n铥\t銩\n铦\t銛\n铧\t鏵\n铨\t銓\n铩\t鎩\n铪\t鉿\n铫\t銚\n铬\t鉻\n铭\t銘\n铮\t錚\n铯\t銫\n铰\t鉸\n铱\t銥\n铲\t鏟 剷\n铳\t銃\n铴\t鐋\n铵\t銨\n银\t銀\n铷\t銣\n铸\t鑄\n铹\t鐒\n铺\t鋪\n铻\t鋙\n铼\t錸\n铽\t鋱\n链\t鏈 鍊\n铿\t鏗\n销\t銷\n锁\t鎖\n锂\t鋰\n锃\t鋥\n锄\t鋤 耡\n锅\t鍋\n锆\t鋯\n锇\t鋨\n锈\t鏽\n锉\t銼\n锊\t鋝\n锋\t鋒\n锌\t鋅\n锍\t鋶\n锎\t鐦\n锏\t鐧\n锐\t銳\n锑\t銻\n锒\t鋃\n锓\t鋟\n锔\t鋦\n锕\t錒\n锖\t錆\n锗\t鍺\n锘\t鍩\n错\t錯\n锚\t錨\n锛\t錛\n锜\t錡\n锝\t鍀\n锞\t錁\n锟\t錕\n锠\t錩\n锡\t錫\n锢\t錮\n锣\t鑼\n锤\t錘\n锥\t錐\n锦\t錦\n锧\t鑕\n锨\t鍁\n锩\t錈\n锪\t鍃\n锫\t錇 鉳\n锬\t錟\n锭\t錠\n键\t鍵\n锯\t鋸\n锰\t錳\n锱\t錙\n锲\t鍥\n锳\t鍈\n锴\t鍇\n锵\t鏘\n锶\t鍶\n锷\t鍔\n锸\t鍤\n锹\t鍬\n锺\t鍾\n锻\t鍛\n锼\t鎪\n锽\t鍠\n锾\t鍰\n锿\t鎄\n镀\t鍍\n镁\t鎂\n镂\t鏤\n镃\t鎡\n镄\t鐨\n镅\t鎇\n镆\t鏌\n镇\t鎮\n镈\t鎛\n镉\t鎘\n镊\t鑷\n镋\t钂 鎲\n镌\t鐫\n镍\t鎳\n镎\t鎿 錼\n镏\t鎦\n镐\t鎬\n镑\t鎊\n镒\t鎰\n镓\t鎵\n镔\t鑌\n镕\t鎔\n镖\t鏢\n镗\t鏜\n镘\t鏝\n镙\t鏍\n镚\t鏰\n镛\t鏞\n镜\t鏡\n镝\t鏑\n镞\t鏃\n镟\t鏇\n镠\t鏐\n镡\t鐔\n镢\t钁 鐝\n镣\t鐐\n镤\t鏷\n镥\t鑥\n镦\t鐓\n镧\t鑭\n镨\t鐠\n镩\t鑹\n镪\t鏹\n镫\t鐙\n镬\t鑊\n镭\t鐳\n镮\t鐶\n镯\t鐲\n镰\t鐮 鎌\n镱\t鐿\n镲\t鑔\n镳\t鑣\n镴\t鑞\n镵\t鑱\n镶\t鑲\n长\t長\n门\t門\n闩\t閂\n闪\t閃\n闫\t閆\n闬\t閈\n闭\t閉\n问\t問\n闯\t闖\n闰\t閏\n闱\t闈\n闲\t閒 閑\n闳\t閎\n间\t間\n闵\t閔\n闶\t閌\n闷\t悶\n闸\t閘\n闹\t鬧\n闺\t閨\n闻\t聞\n闼\t闥\n闽\t閩\n闾\t閭\n闿\t闓\n阀\t閥\n阁\t閣\n阂\t閡\n阃\t閫\n阄\t鬮\n阅\t閱\n阆\t閬\n阇\t闍\n阈\t閾\n阉\t閹\n阊\t閶\n阋\t鬩\n阌\t閿\n阍\t閽\n阎\t閻\n阏\t閼\n阐\t闡\n阑\t闌\n阒\t闃\n阓\t闠\n阔\t闊\n阕\t闋\n阖\t闔\n阗\t闐\n阘\t闒\n阙\t闕\n阚\t闞\n阛\t闤\n队\t隊\n阳\t陽\n阴\t陰\n阵\t陣\n阶\t階\n际\t際\n陆\t陸\n陇\t隴\n陈\t陳\n陉\t陘\n陕\t陝\n陦\t隯\n陧\t隉\n陨\t隕\n险\t險\n随\t隨\n隐\t隱\n隶\t隸\n隽\t雋\n难\t難\n雇\t僱\n雏\t雛\n雕\t雕 鵰\n雠\t讎\n雳\t靂\n雾\t霧\n霁\t霽\n霉\t黴\n霡\t霢\n霭\t靄\n靓\t靚\n靔\t靝\n静\t靜\n面\t面 麪\n靥\t靨\n鞑\t韃\n鞒\t鞽\n鞯\t韉\n鞲\t韝\n韦\t韋\n韧\t韌\n韨\t韍\n韩\t韓\n韪\t韙\n韫\t韞\n韬\t韜\n韵\t韻\n页\t頁\n顶\t頂\n顷\t頃\n顸\t頇\n项\t項\n顺\t順\n须\t須 鬚\n顼\t頊\n顽\t頑\n顾\t顧\n顿\t頓\n颀\t頎\n颁\t頒\n颂\t頌\n颃\t頏\n预\t預\n颅\t顱\n领\t領\n颇\t頗\n颈\t頸\n颉\t頡\n颊\t頰\n颋\t頲\n颌\t頜\n颍\t潁\n颎\t熲\n颏\t頦\n颐\t頤\n频\t頻\n颒\t頮\n颓\t頹\n颔\t頷\n颕\t頴\n颖\t穎\n颗\t顆\n题\t題\n颙\t顒\n颚\t顎\n颛\t顓\n颜\t顏\n额\t額\n颞\t顳\n颟\t顢\n颠\t顛\n颡\t顙\n颢\t顥\n颣\t纇\n颤\t顫\n颥\t顬\n颦\t顰\n颧\t顴\n风\t風\n飏\t颺\n飐\t颭\n飑\t颮\n飒\t颯\n飓\t颶\n飔\t颸\n飕\t颼\n飖\t颻\n飗\t飀\n飘\t飄\n飙\t飆\n飚\t飈\n飞\t飛\n飨\t饗\n餍\t饜\n饣\t飠\n饤\t飣\n饥\t飢 饑\n饦\t飥\n饧\t餳\n饨\t飩\n饩\t餼\n饪\t飪\n饫\t飫\n饬\t飭\n饭\t飯\n饮\t飲\n饯\t餞\n饰\t飾\n饱\t飽\n饲\t飼\n饳\t飿\n饴\t飴\n饵\t餌\n饶\t饒\n饷\t餉\n饸\t餄\n饹\t餎\n饺\t餃\n饻\t餏\n饼\t餅\n饽\t餑\n饾\t餖\n饿\t餓\n馀\t餘\n馁\t餒\n馂\t餕\n馃\t餜\n馄\t餛\n馅\t餡\n馆\t館\n馇\t餷\n馈\t饋\n馉\t餶\n馊\t餿\n馋\t饞\n馌\t饁\n馍\t饃\n馎\t餺\n馏\t餾\n馐\t饈\n馑\t饉\n馒\t饅\n馓\t饊\n馔\t饌\n馕\t饢\n马\t馬\n驭\t馭\n驮\t馱\n驯\t馴\n驰\t馳\n驱\t驅\n驲\t馹\n驳\t駁\n驴\t驢\n驵\t駔\n驶\t駛\n驷\t駟\n驸\t駙\n驹\t駒\n驺\t騶\n驻\t駐\n驼\t駝\n驽\t駑\n驾\t駕\n驿\t驛\n骀\t駘\n骁\t驍\n骂\t罵\n骃\t駰\n骄\t驕\n骅\t驊\n骆\t駱\n骇\t駭\n骈\t駢\n骉\t驫\n骊\t驪\n骋\t騁\n验\t驗\n骍\t騂\n骎\t駸\n骏\t駿\n骐\t騏\n骑\t騎\n骒\t騍\n骓\t騅\n骔\t騌\n骕\t驌\n骖\t驂\n骗\t騙\n骘\t騭\n骙\t騤\n骚\t騷\n骛\t騖\n骜\t驁\n骝\t騮\n骞\t騫\n骟\t騸\n骠\t驃\n骡\t騾\n骢\t驄\n骣\t驏\n骤\t驟\n骥\t驥\n骦\t驦\n骧\t驤\n髅\t髏\n髋\t髖\n髌\t髕\n鬓\t鬢\n鬶\t鬹\n魇\t魘\n魉\t魎\n鱼\t魚\n鱽\t魛\n鱾\t魢\n鱿\t魷\n鲀\t魨\n鲁\t魯\n鲂\t魴\n鲃\t䰾\n鲄\t魺\n鲅\t鮁\n鲆\t鮃\n鲇\t鮎\n鲈\t鱸\n鲉\t鮋\n鲊\t鮓\n鲋\t鮒\n鲌\t鮊\n鲍\t鮑\n鲎\t鱟\n鲏\t鮍\n鲐\t鮐\n鲑\t鮭\n鲒\t鮚\n鲓\t鮳\n鲔\t鮪\n鲕\t鮞\n鲖\t鮦\n鲗\t鰂\n鲘\t鮜\n鲙\t鱠\n鲚\t鱭\n鲛\t鮫\n鲜\t鮮\n鲝\t鮺\n鲞\t鯗\n鲟\t鱘\n鲠\t鯁\n鲡\t鱺\n鲢\t鰱\n鲣\t鰹\n鲤\t鯉\n鲥\t鰣\n鲦\t鰷\n鲧\t鯀\n鲨\t鯊\n鲩\t鯇\n鲪\t鮶\n鲫\t鯽\n鲬\t鯒\n鲭\t鯖\n鲮\t鯪\n鲯\t鯕\n鲰\t鯫\n鲱\t鯡\n鲲\t鯤\n鲳\t鯧\n鲴\t鯝\n鲵\t鯢\n鲶\t鯰\n鲷\t鯛\n鲸\t鯨\n鲹\t鰺\n鲺\t鯴\n鲻\t鯔\n鲼\t鱝\n鲽\t鰈\n鲾\t鰏\n鲿\t鱨\n鳀\t鯷\n鳁\t鰮\n鳂\t鰃\n鳃\t鰓\n鳄\t鱷\n鳅\t鰍\n鳆\t鰒\n鳇\t鰉\n鳈\t鰁\n鳉\t鱂\n鳊\t鯿\n鳋\t鰠\n鳌\t鰲\n鳍\t鰭\n鳎\t鰨\n鳏\t鰥\n鳐\t鰩\n鳑\t鰟\n鳒\t鰜\n鳓\t鰳\n鳔\t鰾\n鳕\t鱈\n鳖\t鱉\n鳗\t鰻\n鳘\t鰵\n鳙\t鱅\n鳚\t䲁\n鳛\t鰼\n鳜\t鱖\n鳝\t鱔\n鳞\t鱗\n鳟\t鱒\n鳠\t鱯\n鳡\t鱤\n鳢\t鱧\n鳣\t鱣\n鳤\t䲘\n鸟\t鳥\n鸠\t鳩\n鸡\t雞\n鸢\t鳶\n鸣\t鳴\n鸤\t鳲\n鸥\t鷗\n鸦\t鴉\n鸧\t鶬\n鸨\t鴇\n鸩\t鴆\n鸪\t鴣\n鸫\t鶇\n鸬\t鸕\n鸭\t鴨\n鸮\t鴞\n鸯\t鴦\n鸰\t鴒\n鸱\t鴟\n鸲\t鴝\n鸳\t鴛\n鸴\t鷽\n鸵\t鴕\n鸶\t鷥\n鸷\t鷙\n鸸\t鴯\n鸹\t鴰\n鸺\t鵂\n鸻\t鴴\n鸼\t鵃\n鸽\t鴿\n鸾\t鸞\n鸿\t鴻\n鹀\t鵐\n鹁\t鵓\n鹂\t鸝\n鹃\t鵑\n鹄\t鵠\n鹅\t鵝\n鹆\t鵒\n鹇\t鷳 鷴\n鹈\t鵜\n鹉\t鵡\n鹊\t鵲\n鹋\t鶓\n鹌\t鵪\n鹍\t鵾\n鹎\t鵯\n鹏\t鵬\n鹐\t鵮\n鹑\t鶉\n鹒\t鶊\n鹓\t鵷\n鹔\t鷫\n鹕\t鶘\n鹖\t鶡\n鹗\t鶚\n鹘\t鶻\n鹙\t鶖\n鹚\t鷀\n鹛\t鶥\n鹜\t鶩\n鹝\t鷊\n鹞\t鷂\n鹟\t鶲\n鹠\t鶹\n鹡\t鶺\n鹢\t鷁\n鹣\t鶼\n鹤\t鶴\n鹥\t鷖\n鹦\t鸚\n鹧\t鷓\n鹨\t鷚\n鹩\t鷯\n鹪\t鷦\n鹫\t鷲\n鹬\t鷸\n鹭\t鷺\n鹮\t䴉\n鹯\t鸇\n鹰\t鷹\n鹱\t鸌\n鹲\t鸏\n鹳\t鸛\n鹴\t鸘\n鹾\t鹺\n麦\t麥\n麸\t麩\n麹\t麴\n麺\t麪\n麽\t麼\n黄\t黃\n黉\t黌\n黡\t黶\n黩\t黷\n黪\t黲\n黾\t黽\n鼋\t黿\n鼌\t鼂\n鼍\t鼉\n鼹\t鼴\n齐\t齊\n齑\t齏\n齿\t齒\n龀\t齔\n龁\t齕\n龂\t齗\n龃\t齟\n龄\t齡\n龅\t齙\n龆\t齠\n龇\t齜\n龈\t齦\n龉\t齬\n龊\t齪\n龋\t齲\n龌\t齷\n龙\t龍\n龚\t龔\n龛\t龕\n龟\t龜\n鿎\t䃮\n鿏\t䥑\n鿒\t鿓\n鿔\t鎶\n𠀾\t𠁞\n𠆲\t儣\n𠆿\t𠌥\n𠇹\t俓\n𠉂\t㒓\n𠉗\t𠏢\n𠋆\t儭\n𠚳\t𠠎\n𠛅\t剾\n𠛆\t𠞆\n𠛾\t𪟖\n𠡠\t勑\n𠮶\t嗰\n𠯟\t哯\n𠯠\t噅\n𠰱\t㘉\n𠰷\t嚧\n𠱞\t囃\n𠲥\t𡅏\n𠴛\t𡃕\n𠴢\t𡄔\n𠵸\t𡄣\n𠵾\t㗲\n𡋀\t𡓾\n𡋗\t𡑭\n𡋤\t壗\n𡍣\t𡔖\n𡒄\t壈\n𡝠\t㜷\n𡞋\t㜗\n𡞱\t㜢\n𡠟\t孎\n𡥧\t孻\n𡭜\t𡮉\n𡭬\t𡮣\n𡳃\t𡳳\n𡳒\t𦘧\n𡶴\t嵼\n𡸃\t𡽗\n𡺃\t嶈\n𡺄\t嶘\n𢋈\t㢝\n𢗓\t㦛\n𢘙\t𢤱\n𢘝\t𢣚\n𢘞\t𢣭\n𢙏\t愻\n𢙐\t憹\n𢙑\t𢠼\n𢙒\t憢\n𢙓\t懀\n𢛯\t㦎\n𢠁\t懎\n𢢐\t𤢻\n𢧐\t戰\n𢫊\t𢷮\n𢫞\t𢶫\n𢫬\t摋\n𢬍\t擫\n𢬦\t𢹿\n𢭏\t擣\n𢽾\t斅\n𣃁\t斸\n𣆐\t曥\n𣈣\t𣋋\n𣍨\t𦢈\n𣍯\t腪\n𣍰\t脥\n𣎑\t臗\n𣏢\t槫\n𣐕\t桱\n𣐤\t欍\n𣑶\t𣠲\n𣒌\t楇\n𣓿\t橯\n𣔌\t樤\n𣗊\t樠\n𣗋\t欓\n𣗙\t㰙\n𣘐\t㯤\n𣘓\t𣞻\n𣘴\t檭\n𣘷\t𣝕\n𣚚\t欘\n𣞎\t𣠩\n𣨼\t殢\n𣭤\t𣯴\n𣯣\t𣯩\n𣱝\t氭\n𣲗\t湋\n𣲘\t潕\n𣳆\t㵗\n𣶩\t澅\n𣶫\t𣿉\n𣶭\t𪷓\n𣷷\t𤅶\n𣸣\t濆\n𣺼\t灙\n𣺽\t𤁣\n𣽷\t瀃\n𤆡\t熓\n𤆢\t㷍\n𤇃\t爄\n𤇄\t熌\n𤇭\t爖\n𤇹\t熚\n𤈶\t熉\n𤈷\t㷿\n𤊀\t𤒎\n𤊰\t𤓩\n𤋏\t熡\n𤎺\t𤓎\n𤎻\t𤑳\n𤙯\t𤛮\n𤝢\t𤢟\n𤞃\t獩\n𤞤\t玁\n𤠋\t㺏\n𤦀\t瓕\n𤩽\t瓛\n𤳄\t𤳸\n𤶊\t癐\n𤶧\t𤸫\n𤻊\t㿗\n𤽯\t㿧\n𤾀\t皟\n𤿲\t麬\n𥁢\t䀉\n𥅘\t𥌃\n𥅴\t䀹\n𥅿\t𥊝\n𥆧\t瞤\n𥇢\t䁪\n𥎝\t䂎\n𥐟\t礒\n𥐯\t𥖅\n𥐰\t𥕥\n𥐻\t碙\n𥞦\t𥞵\n𥧂\t𥨐\n𥩟\t竚\n𥩺\t𥪂\n𥫣\t籅\n𥬀\t䉙\n𥬞\t籋\n𥬠\t篘\n𥭉\t𥵊\n𥮋\t𥸠\n𥮜\t䉲\n𥮾\t篸\n𥱔\t𥵃\n𥹥\t𥼽\n𥺅\t䊭\n𥺇\t𥽖\n𦈈\t𥿊\n𦈉\t緷\n𦈋\t綇\n𦈌\t綀\n𦈎\t繟\n𦈏\t緍\n𦈐\t縺\n𦈑\t緸\n𦈒\t𦂅\n𦈓\t䋿\n𦈔\t縎\n𦈕\t緰\n𦈖\t䌈\n𦈗\t𦃄\n𦈘\t䌋\n𦈙\t䌰\n𦈚\t縬\n𦈛\t繓\n𦈜\t䌖\n𦈝\t繏\n𦈞\t䌟\n𦈟\t䌝\n𦈠\t䌥\n𦈡\t繻\n𦍠\t䍽\n𦛨\t朥\n𦝼\t膢\n𦟗\t𦣎\n𦨩\t𦪽\n𦰏\t蓧\n𦰴\t䕳\n𦶟\t爇\n𦶻\t𦾟\n𦻕\t蘟\n𧉐\t𧕟\n𧉞\t䗿\n𧌥\t𧎈\n𧏖\t蠙\n𧏗\t蠀\n𧑏\t蠾\n𧒭\t𧔥\n𧜭\t䙱\n𧝝\t襰\n𧝧\t𧟀\n𧮪\t詀\n𧳕\t𧳟\n𧹑\t䞈\n𧹒\t買\n𧹓\t𧶔\n𧹔\t賬\n𧹕\t䝻\n𧹖\t賟\n𧹗\t贃\n𧿈\t𨇁\n𨀁\t躘\n𨀱\t𨄣\n𨁴\t𨅍\n𨂺\t𨈊\n𨄄\t𨈌\n𨅛\t䠱\n𨅫\t𨇞\n𨅬\t躝\n𨉗\t軉\n𨐅\t軗\n𨐆\t𨊻\n𨐇\t𨏠\n𨐈\t輄\n𨐉\t𨎮\n𨐊\t𨏥\n𨑹\t䢨\n𨟳\t𨣞\n𨠨\t𨣧\n𨡙\t𨢿\n𨡺\t𨣈\n𨤰\t𨤻\n𨰾\t鎷\n𨰿\t釳\n𨱀\t𨥛\n𨱁\t鈠\n𨱂\t鈋\n𨱃\t鈲\n𨱄\t鈯\n𨱅\t鉁\n𨱆\t龯\n𨱇\t銶\n𨱈\t鋉\n𨱉\t鍄\n𨱊\t𨧱\n𨱋\t錂\n𨱌\t鏆\n𨱍\t鎯\n𨱎\t鍮\n𨱏\t鎝\n𨱐\t𨫒\n𨱑\t鐄\n𨱒\t鏉\n𨱓\t鐎\n𨱔\t鐏\n𨱕\t𨮂\n𨱖\t䥩\n𨷿\t䦳\n𨸀\t𨳕\n𨸁\t𨳑\n𨸂\t閍\n𨸃\t閐\n𨸄\t䦘\n𨸅\t𨴗\n𨸆\t𨵩\n𨸇\t𨵸\n𨸉\t𨶀\n𨸊\t𨶏\n𨸋\t𨶲\n𨸌\t𨶮\n𨸎\t𨷲\n𨸘\t𨽏\n𨸟\t䧢\n𩏼\t䪏\n𩏽\t𩏪\n𩏾\t𩎢\n𩏿\t䪘\n𩐀\t䪗\n𩓋\t顂\n𩖕\t𩓣\n𩖖\t顃\n𩖗\t䫴\n𩙥\t颰\n𩙦\t𩗀\n𩙧\t䬞\n𩙨\t𩘹\n𩙩\t𩘀\n𩙪\t颷\n𩙫\t颾\n𩙬\t𩘺\n𩙭\t𩘝\n𩙮\t䬘\n𩙯\t䬝\n𩙰\t𩙈\n𩟿\t𩚛\n𩠀\t𩚥\n𩠁\t𩚵\n𩠂\t𩛆\n𩠃\t𩛩\n𩠅\t𩟐\n𩠆\t𩜦\n𩠇\t䭀\n𩠈\t䭃\n𩠉\t𩜇\n𩠊\t𩜵\n𩠋\t𩝔\n𩠌\t餸\n𩠎\t𩞄\n𩠏\t𩞦\n𩠠\t𩠴\n𩡖\t𩡣\n𩧦\t𩡺\n𩧨\t駎\n𩧩\t𩤊\n𩧪\t䮾\n𩧫\t駚\n𩧬\t𩢡\n𩧭\t䭿\n𩧮\t𩢾\n𩧯\t驋\n𩧰\t䮝\n𩧱\t𩥉\n𩧲\t駧\n𩧳\t𩢸\n𩧴\t駩\n𩧵\t𩢴\n𩧶\t𩣏\n𩧸\t𩣫\n𩧺\t駶\n𩧻\t𩣵\n𩧼\t𩣺\n𩧿\t䮠\n𩨀\t騔\n𩨁\t䮞\n𩨂\t驄\n𩨃\t騝\n𩨄\t騪\n𩨅\t𩤸\n𩨆\t𩤙\n𩨇\t䮫\n𩨈\t騟\n𩨉\t𩤲\n𩨊\t騚\n𩨋\t𩥄\n𩨌\t𩥑\n𩨍\t𩥇\n𩨎\t龭\n𩨏\t䮳\n𩨐\t𩧆\n𩩈\t䯤\n𩬣\t𩭙\n𩬤\t𩰀\n𩭹\t鬖\n𩯒\t𩯳\n𩰰\t𩰹\n𩲒\t𩳤\n𩴌\t𩴵\n𩽹\t魥\n𩽺\t𩵩\n𩽻\t𩵹\n𩽼\t鯶\n𩽽\t𩶱\n𩽾\t鮟\n𩽿\t𩶰\n𩾁\t鯄\n𩾂\t䲖\n𩾃\t鮸\n𩾄\t𩷰\n𩾅\t𩸃\n𩾆\t𩸦\n𩾇\t鯱\n𩾈\t䱙\n𩾊\t䱬\n𩾋\t䱰\n𩾌\t鱇\n𩾎\t𩽇\n𪉂\t䲰\n𪉃\t鳼\n𪉄\t𩿪\n𪉅\t𪀦\n𪉆\t鴲\n𪉈\t鴜\n𪉉\t𪁈\n𪉊\t鷨\n𪉋\t𪀾\n𪉌\t𪁖\n𪉍\t鵚\n𪉎\t𪂆\n𪉏\t𪃏\n𪉐\t𪃍\n𪉑\t鷔\n𪉒\t𪄕\n𪉔\t𪄆\n𪉕\t𪇳\n𪎈\t䴬\n𪎉\t麲\n𪎊\t麨\n𪎋\t䴴\n𪎌\t麳\n𪑅\t䵳\n𪔭\t𪔵\n𪚏\t𪘀\n𪚐\t𪘯\n𪜎\t𠿕\n𪞝\t凙\n𪟎\t㔋\n𪟝\t勣\n𪠀\t𧷎\n𪠟\t㓄\n𪠡\t𠬙\n𪠳\t唓\n𪠵\t㖮\n𪠸\t嚛\n𪠺\t𠽃\n𪠽\t噹\n𪡀\t嘺\n𪡃\t嘪\n𪡋\t噞\n𪡏\t嗹\n𪡛\t㗿\n𪡞\t嘳\n𪡺\t𡃄\n𪢌\t㘓\n𪢐\t𡃤\n𪢒\t𡂡\n𪢕\t嚽\n𪢖\t𡅯\n𪢠\t囒\n𪢮\t圞\n𪢸\t墲\n𪣆\t埬\n𪣒\t堚\n𪣻\t塿\n𪤄\t𡓁\n𪤚\t壣\n𪥠\t𧹈\n𪥫\t孇\n𪥰\t嬣\n𪥿\t嬻\n𪧀\t孾\n𪧘\t寠\n𪨊\t㞞\n𪨗\t屩\n𪨧\t崙\n𪨩\t𡸗\n𪨶\t輋\n𪨷\t巗\n𪨹\t𡹬\n𪩇\t㟺\n𪩎\t巊\n𪩘\t巘\n𪩛\t𡿖\n𪩷\t幝\n𪩸\t幩\n𪪏\t廬\n𪪑\t㢗\n𪪞\t廧\n𪪴\t𢍰\n𪪼\t彃\n𪫌\t徿\n𪫡\t𢤩\n𪫷\t㦞\n𪫺\t憸\n𪬚\t𢣐\n𪬯\t𢤿\n𪭝\t𢯷\n𪭢\t摐\n𪭧\t擟\n𪭯\t𢶒\n𪭵\t掚\n𪭾\t撊\n𪮃\t㨻\n𪮋\t㩋\n𪮖\t撧\n𪮳\t𢺳\n𪮶\t攋\n𪯋\t㪎\n𪰶\t曊\n𪱥\t膹\n𪱷\t梖\n𪲎\t櫅\n𪲔\t欐\n𪲛\t檵\n𪲮\t櫠\n𪳍\t欇\n𪳗\t𣜬\n𪴙\t欑\n𪵑\t毊\n𪵣\t霼\n𪵱\t濿\n𪶄\t溡\n𪶒\t𤄷\n𪶮\t𣽏\n𪷍\t㵾\n𪷽\t灒\n𪸕\t熂\n𪸩\t煇\n𪹀\t𤑹\n𪹠\t𤓌\n𪹳\t爥\n𪹹\t𤒻\n𪺣\t𤘀\n𪺪\t𤜆\n𪺭\t犞\n𪺷\t獊\n𪺸\t𤠮\n𪺻\t㺜\n𪺽\t猌\n𪻐\t瑽\n𪻨\t瓄\n𪻲\t瑻\n𪻺\t璝\n𪼋\t㻶\n𪼴\t𤬅\n𪽈\t畼\n𪽝\t𤳷\n𪽪\t痮\n𪽭\t𤷃\n𪽮\t㿖\n𪽴\t𤺔\n𪽷\t瘱\n𪾔\t盨\n𪾢\t睍\n𪾣\t眝\n𪾦\t矑\n𪾸\t矉\n𪿊\t𥏝\n𪿞\t𥖲\n𪿫\t礮\n𪿵\t𥗇\n𫀌\t𥜰\n𫀓\t𥜐\n𫀨\t䅐\n𫀬\t䅳\n𫀮\t𥢷\n𫁂\t䆉\n𫁟\t竱\n𫁡\t鴗\n𫁱\t𥶽\n𫁲\t䉑\n𫁳\t𥯤\n𫁷\t䉶\n𫁺\t𥴼\n𫂃\t簢\n𫂆\t簂\n𫂈\t䉬\n𫂖\t𥴨\n𫂿\t𥻦\n𫃗\t𩏷\n𫄙\t糺\n𫄚\t䊺\n𫄛\t紟\n𫄜\t䋃\n𫄝\t𥾯\n𫄞\t䋔\n𫄟\t絁\n𫄠\t絙\n𫄡\t絧\n𫄢\t絥\n𫄣\t繷\n𫄤\t繨\n𫄥\t纚\n𫄦\t𦀖\n𫄧\t綖\n𫄨\t絺\n𫄩\t䋦\n𫄪\t𦅇\n𫄫\t綟\n𫄬\t緤\n𫄭\t緮\n𫄮\t䋼\n𫄯\t𦃩\n𫄰\t縍\n𫄱\t繬\n𫄲\t縸\n𫄳\t縰\n𫄴\t繂\n𫄵\t𦅈\n𫄶\t繈\n𫄷\t繶\n𫄸\t纁\n𫄹\t纗\n𫅅\t䍤\n𫅗\t羵\n𫅥\t𦒀\n𫅭\t䎙\n𫅼\t𦔖\n𫆏\t聻\n𫆝\t𦟼\n𫆫\t𦡝\n𫇘\t𦧺\n𫇛\t艣\n𫇪\t𦱌\n𫇭\t蔿\n𫇴\t蒭\n𫇽\t蕽\n𫈉\t蕳\n𫈎\t葝\n𫈟\t蔯\n𫈵\t蕝\n𫉁\t薆\n𫉄\t藷\n𫊪\t䗅\n𫊮\t蠦\n𫊸\t蟜\n𫊹\t𧒯\n𫊻\t蟳\n𫋇\t蟂\n𫋌\t蟘\n𫋲\t䙔\n𫋷\t襗\n𫋹\t襓\n𫋻\t襘\n𫌀\t襀\n𫌇\t襵\n𫌋\t𧞫\n𫌨\t覼\n𫌪\t覛\n𫌫\t𧡴\n𫌬\t𧢄\n𫌭\t覹\n𫌯\t䚩\n𫍐\t𧭹\n𫍙\t訑\n𫍚\t訞\n𫍛\t訜\n𫍜\t詓\n𫍝\t諫\n𫍞\t𧦝\n𫍟\t𧦧\n𫍠\t䛄\n𫍡\t詑\n𫍢\t譊\n𫍣\t詷\n𫍤\t譑\n𫍥\t誂\n𫍦\t譨\n𫍧\t誺\n𫍨\t誫\n𫍩\t諣\n𫍪\t誋\n𫍫\t䛳\n𫍬\t誷\n𫍭\t𧩕\n𫍮\t誳\n𫍯\t諴\n𫍰\t諰\n𫍱\t諯\n𫍲\t謏\n𫍳\t諥\n𫍴\t謱\n𫍵\t謸\n𫍶\t𧩼\n𫍷\t謉\n𫍸\t謆\n𫍹\t謯\n𫍺\t𧫝\n𫍻\t譆\n𫍼\t𧬤\n𫍽\t譞\n𫍾\t𧭈\n𫍿\t譾\n𫎆\t豵\n𫎌\t貗\n𫎦\t贚\n𫎧\t䝭\n𫎨\t𧸘\n𫎩\t賝\n𫎪\t䞋\n𫎫\t贉\n𫎬\t贑\n𫎭\t䞓\n𫎱\t䟐\n𫎳\t䟆\n𫎸\t𧽯\n𫎺\t䟃\n𫏃\t䠆\n𫏆\t蹳\n𫏋\t蹻\n𫏌\t𨂐\n𫏐\t蹔\n𫏑\t𨇽\n𫏕\t𨆪\n𫏞\t𨇰\n𫏨\t𨇤\n𫐄\t軏\n𫐅\t軕\n𫐆\t轣\n𫐇\t軜\n𫐈\t軷\n𫐉\t軨\n𫐊\t軬\n𫐋\t𨎌\n𫐌\t軿\n𫐍\t𨌈\n𫐎\t輢\n𫐏\t輖\n𫐐\t輗\n𫐑\t輨\n𫐒\t輷\n𫐓\t輮\n𫐔\t𨍰\n𫐕\t轊\n𫐖\t轇\n𫐗\t轐\n𫐘\t轗\n𫐙\t轠\n𫐷\t遱\n𫑘\t鄟\n𫑡\t鄳\n𫑷\t醶\n𫓥\t釟\n𫓦\t釨\n𫓧\t鈇\n𫓨\t鈛\n𫓩\t鏦\n𫓪\t鈆\n𫓫\t𨥟\n𫓬\t鉔\n𫓭\t鉠\n𫓮\t𨪕\n𫓯\t銈\n𫓰\t銊\n𫓱\t鐈\n𫓲\t銁\n𫓳\t𨰋\n𫓴\t鉾\n𫓵\t鋠\n𫓶\t鋗\n𫓷\t𫒡\n𫓸\t錽\n𫓹\t錤\n𫓺\t鐪\n𫓻\t錜\n𫓼\t𨨛\n𫓽\t錝\n𫓾\t錥\n𫓿\t𨨢\n𫔀\t鍊\n𫔁\t鐼\n𫔂\t鍉\n𫔃\t𨰲\n𫔄\t鍒\n𫔅\t鎍\n𫔆\t䥯\n𫔇\t鎞\n𫔈\t鎙\n𫔉\t𨰃\n𫔊\t鏥\n𫔋\t䥗\n𫔌\t鏾\n𫔍\t鐇\n𫔎\t鐍\n𫔏\t𨬖\n𫔐\t𨭸\n𫔑\t𨭖\n𫔒\t𨮳\n𫔓\t𨯟\n𫔔\t鑴\n𫔕\t𨰥\n𫔖\t𨲳\n𫔭\t開\n𫔮\t閒\n𫔯\t閗\n𫔰\t閞\n𫔲\t𨴹\n𫔴\t閵\n𫔵\t䦯\n𫔶\t闑\n𫔽\t𨼳\n𫕚\t𩀨\n𫕥\t霣\n𫕨\t𩅙\n𫖃\t靧\n𫖅\t䪊\n𫖇\t鞾\n𫖑\t𩎖\n𫖒\t韠\n𫖓\t𩏂\n𫖔\t韛\n𫖕\t韝\n𫖖\t𩏠\n𫖪\t𩑔\n𫖫\t䪴\n𫖬\t䪾\n𫖭\t𩒎\n𫖮\t顗\n𫖯\t頫\n𫖰\t䫂\n𫖱\t䫀\n𫖲\t䫟\n𫖳\t頵\n𫖴\t𩔳\n𫖵\t𩓥\n𫖶\t顅\n𫖷\t𩔑\n𫖸\t願\n𫖹\t顣\n𫖺\t䫶\n𫗇\t䫻\n𫗈\t𩗓\n𫗉\t𩗴\n𫗊\t䬓\n𫗋\t飋\n𫗚\t𩟗\n𫗞\t飦\n𫗟\t䬧\n𫗠\t餦\n𫗡\t𩚩\n𫗢\t飵\n𫗣\t飶\n𫗤\t𩛌\n𫗥\t餫\n𫗦\t餔\n𫗧\t餗\n𫗨\t𩛡\n𫗩\t饠\n𫗪\t餧\n𫗫\t餬\n𫗬\t餪\n𫗭\t餵\n𫗮\t餭\n𫗯\t餱\n𫗰\t䭔\n𫗱\t䭑\n𫗳\t𩝽\n𫗴\t饘\n𫗵\t饟\n𫘛\t馯\n𫘜\t馼\n𫘝\t駃\n𫘞\t駞\n𫘟\t駊\n𫘠\t駤\n𫘡\t駫\n𫘣\t駻\n𫘤\t騃\n𫘥\t騉\n𫘦\t騊\n𫘧\t騄\n𫘨\t騠\n𫘩\t騜\n𫘪\t騵\n𫘫\t騴\n𫘬\t騱\n𫘭\t騻\n𫘮\t䮰\n𫘯\t驓\n𫘰\t驙\n𫘱\t驨\n𫘽\t鬠\n𫙂\t𩯁\n𫚈\t鱮\n𫚉\t魟\n𫚊\t鰑\n𫚋\t鱄\n𫚌\t魦\n𫚍\t魵\n𫚎\t𩶁\n𫚏\t䱁\n𫚐\t䱀\n𫚑\t鮅\n𫚒\t鮄\n𫚓\t鮤\n𫚔\t鮰\n𫚕\t鰤\n𫚖\t鮆\n𫚗\t鮯\n𫚘\t𩻮\n𫚙\t鯆\n𫚚\t鮿\n𫚛\t鮵\n𫚜\t䲅\n𫚝\t𩸄\n𫚞\t鯬\n𫚟\t𩸡\n𫚠\t䱧\n𫚡\t鯞\n𫚢\t鰋\n𫚣\t鯾\n𫚤\t鰦\n𫚥\t鰕\n𫚦\t鰫\n𫚧\t鰽\n𫚨\t𩻗\n𫚩\t𩻬\n𫚪\t鱊\n𫚫\t鱢\n𫚬\t𩼶\n𫚭\t鱲\n𫛚\t鳽\n𫛛\t鳷\n𫛜\t鴀\n𫛝\t鴅\n𫛞\t鴃\n𫛟\t鸗\n𫛠\t𩿤\n𫛡\t鴔\n𫛢\t鸋\n𫛣\t鴥\n𫛤\t鴐\n𫛥\t鵊\n𫛦\t鴮\n𫛧\t𪀖\n𫛨\t鵧\n𫛩\t鴳\n𫛪\t鴽\n𫛫\t鶰\n𫛬\t䳜\n𫛭\t鵟\n𫛮\t䳤\n𫛯\t鶭\n𫛰\t䳢\n𫛱\t鵫\n𫛲\t鵰\n𫛳\t鵩\n𫛴\t鷤\n𫛵\t鶌\n𫛶\t鶒\n𫛷\t鶦\n𫛸\t鶗\n𫛹\t𪃧\n𫛺\t䳧\n𫛻\t𪃒\n𫛼\t䳫\n𫛽\t鷅\n𫛾\t𪆷\n𫜀\t鷐\n𫜁\t鷩\n𫜂\t𪅂\n𫜃\t鷣\n𫜄\t鷷\n𫜅\t䴋\n𫜊\t𪉸\n𫜑\t麷\n𫜒\t䴱\n𫜓\t𪌭\n𫜔\t䴽\n𫜕\t𪍠\n𫜙\t䵴\n𫜟\t𪓰\n𫜨\t䶕\n𫜩\t齧\n𫜪\t齩\n𫜫\t𫜦\n𫜬\t齰\n𫜭\t齭\n𫜮\t齴\n𫜯\t𪙏\n𫜰\t齾\n𫜲\t龓\n𫜳\t䶲\n𫝈\t㑮\n𫝋\t𠐊\n𫝦\t㛝\n𫝧\t㜐\n𫝨\t媈\n𫝩\t嬦\n𫝪\t𡟫\n𫝫\t婡\n𫝬\t嬇\n𫝭\t孆\n𫝮\t孄\n𫝵\t嶹\n𫞅\t𦠅\n𫞗\t潣\n𫞚\t澬\n𫞛\t㶆\n𫞝\t灍\n𫞠\t爧\n𫞡\t爃\n𫞢\t𤛱\n𫞣\t㹽\n𫞥\t珼\n𫞦\t璾\n𫞧\t𤩂\n𫞨\t璼\n𫞩\t璊\n𫞷\t𥢶\n𫟃\t絍\n𫟄\t綋\n𫟅\t綡\n𫟆\t緟\n𫟇\t𦆲\n𫟑\t䖅\n𫟕\t䕤\n𫟞\t訨\n𫟟\t詊\n𫟠\t譂\n𫟡\t誴\n𫟢\t䜖\n𫟤\t䡐\n𫟥\t䡩\n𫟦\t䡵\n𫟫\t𨞺\n𫟬\t𨟊\n𫟲\t釚\n𫟳\t釲\n𫟴\t鈖\n𫟵\t鈗\n𫟶\t銏\n𫟷\t鉝\n𫟸\t鉽\n𫟹\t鉷\n𫟺\t䤤\n𫟻\t銂\n𫟼\t鐽\n𫟽\t𨧰\n𫟾\t𨩰\n𫟿\t鎈\n𫠀\t䥄\n𫠁\t鑉\n𫠂\t閝\n𫠅\t韚\n𫠆\t頍\n𫠇\t𩖰\n𫠈\t䫾\n𫠊\t䮄\n𫠋\t騼\n𫠌\t𩦠\n𫠏\t𩵦\n𫠐\t魽\n𫠑\t䱸\n𫠒\t鱆\n𫠖\t𩿅\n𫠜\t齯\n𫢸\t僤\n𫧃\t𣍐\n𫧮\t𪋿\n𫫇\t噁\n𫬐\t㘔\n𫭟\t塸\n𫭢\t埨\n𫭼\t𡑍\n𫮃\t墠\n𫰛\t娙\n𫵷\t㠣\n𫶇\t嵽\n𫷷\t廞\n𫸩\t彄\n𬀩\t暐\n𬀪\t晛\n𬂩\t梜\n𬃊\t櫍\n𬇕\t澫\n𬇙\t浿\n𬇹\t漍\n𬉼\t熰\n𬊈\t燖\n𬊤\t燀\n𬍛\t瓅\n𬍡\t璗\n𬍤\t璕\n𬒈\t礐\n𬒗\t𥗽\n𬕂\t篢\n𬘓\t紃\n𬘘\t紞\n𬘡\t絪\n𬘩\t綎\n𬘫\t綄\n𬘬\t綪\n𬘭\t綝\n𬘯\t綧\n𬙂\t縯\n𬙊\t纆\n𬙋\t纕\n𬜬\t蔄\n𬜯\t䓣\n𬞟\t蘋\n𬟁\t虉\n𬟽\t蝀\n𬣙\t訏\n𬣞\t詝\n𬣡\t諓\n𬣳\t詪\n𬤇\t諲\n𬤊\t諟\n𬤝\t譓\n𬨂\t軝\n𬨎\t輶\n𬩽\t鄩\n𬪩\t醲\n𬬩\t釴\n𬬭\t錀\n𬬮\t鋹\n𬬱\t釿\n𬬸\t鉥\n𬬹\t鉮\n𬬻\t鑪\n𬬿\t鉊\n𬭁\t鉧\n𬭊\t𨧀\n𬭎\t鋐\n𬭚\t錞\n𬭛\t𨨏\n𬭤\t鍭\n𬭩\t鎓\n𬭬\t鏏\n𬭭\t鏚\n𬭯\t䥕\n𬭳\t𨭎\n𬭶\t𨭆\n𬭸\t鏻\n𬭼\t鐩\n𬮱\t闉\n𬮿\t隑\n𬯀\t隮\n𬯎\t隤\n𬱖\t頔\n𬱟\t頠\n𬳵\t駓\n𬳶\t駉\n𬳽\t駪\n𬳿\t駼\n𬴂\t騑\n𬴃\t騞\n𬴊\t驎\n𬶋\t鮈\n𬶍\t鮀\n𬶏\t鮠\n𬶐\t鮡\n𬶟\t鯻\n𬶠\t鰊\n𬶨\t鱀\n𬶭\t鰶\n𬶮\t鱚\n𬷕\t鵏\n𬸘\t鶠\n𬸚\t鸑\n𬸣\t鶱\n𬸦\t鷟\n𬸪\t鷭\n𬸯\t鷿\n𬹼\t齘\n𬺈\t齮\n𬺓\t齼\n𰬸\t繐\n𰰨\t菕\n𰶎\t譅\n𰻝\t𰻞\n𰾄\t鋂\n𰾭\t鑀\n𱊜\t𪈼";
+export const ST_PHRASES = "一冲性子\t一沖性子\n一出\t一齣\n一出剧\t一齣劇\n一出子\t一齣子\n一出戏\t一齣戲\n一分收获\t一分收穫\n一分钟\t一分鐘\n一别头\t一彆頭\n一发之差\t一髮之差\n一发之间\t一髮之間\n一发千钧\t一髮千鈞\n一口钟\t一口鐘\n一只\t一隻\n一号木杆\t一號木桿\n一周\t一週\n一周年\t一週年\n一哄\t一鬨\n一哄而上\t一鬨而上\n一哄而散\t一鬨而散\n一哄而起\t一鬨而起\n一哄而集\t一鬨而集\n一块面\t一塊麪\n一坛\t一罈\n一坛坛\t一罈罈\n一天星斗\t一天星斗\n一天钟\t一天鐘\n一干\t一干\n一干二净\t一乾二淨\n一干人\t一干人\n一干家中\t一干家中\n一干弟兄\t一干弟兄\n一干弟子\t一干弟子\n一干而尽\t一乾而盡\n一干部下\t一干部下\n一并\t一併\n一幻拉面\t一幻拉麪\n一径\t一逕\n一扎\t一紮\n一斗\t一斗\n一斗斗\t一斗斗\n一日千里\t一日千里\n一日叫娘\t一日叫孃\n一杆进洞\t一桿進洞\n一松\t一鬆\n一树百获\t一樹百穫\n一根烟\t一根菸\n一毫一发\t一毫一髮\n一沐三捉发\t一沐三捉髮\n一沐三握发\t一沐三握髮\n一泻千里\t一瀉千里\n一点钟\t一點鐘\n一物克一物\t一物剋一物\n一目了然\t一目瞭然\n一碗面\t一碗麪\n一秒钟\t一秒鐘\n一签\t一簽\n一箭双雕\t一箭雙鵰\n一粥面\t一粥麪\n一赞\t一讚\n一逞兽欲\t一逞獸慾\n一里\t一里\n一锅面\t一鍋麪\n一飞冲天\t一飛沖天\n丁丑\t丁丑\n丁里\t丁里\n丁铃当啷\t丁鈴噹啷\n丁零当啷\t丁零噹啷\n七出戏\t七齣戲\n七分钟\t七分鐘\n七只\t七隻\n七周\t七週\n七坛\t七罈\n七娘妈\t七孃媽\n七弦\t七絃\n七情六欲\t七情六慾\n七扎\t七紮\n七点钟\t七點鐘\n七秒钟\t七秒鐘\n七里\t七里\n七里河\t七里河\n七里河区\t七里河區\n七里香\t七里香\n万余只\t萬餘隻\n万余里\t萬餘里\n万俟\t万俟\n万历\t萬曆\n万只\t萬隻\n万坛\t萬罈\n万年历\t萬年曆\n万年历表\t萬年曆錶\n万扎\t萬紮\n万旗\t万旗\n万里\t萬里\n万里之望\t萬里之望\n万里乡\t萬里鄉\n万里侯\t萬里侯\n万里同风\t萬里同風\n万里封侯\t萬里封侯\n万里无云\t萬里無雲\n万里春愁直\t萬里春愁直\n万里晴空\t萬里晴空\n万里江山\t萬里江山\n万里迢迢\t萬里迢迢\n万里追踪\t萬里追蹤\n万里长城\t萬里長城\n万里长征\t萬里長征\n万里长江\t萬里長江\n万里长空\t萬里長空\n万里鹏程\t萬里鵬程\n万里鹏翼\t萬里鵬翼\n丈母娘\t丈母孃\n三元里\t三元里\n三出戏\t三齣戲\n三分钟\t三分鐘\n三只\t三隻\n三只手\t三隻手\n三周\t三週\n三周年\t三週年\n三娘教子\t三孃教子\n三尸\t三尸\n三尸神\t三尸神\n三弦\t三絃\n三征七辟\t三徵七辟\n三扎\t三紮\n三浴三熏\t三浴三熏\n三点钟\t三點鐘\n三熏三沐\t三熏三沐\n三田制面所\t三田製麪所\n三秒钟\t三秒鐘\n三统历\t三統曆\n三角关系\t三角關係\n三角巾包扎法\t三角巾包紮法\n三辟\t三辟\n三里\t三里\n三里屯\t三里屯\n三里河\t三里河\n三鲜面\t三鮮麪\n上下游\t上下游\n上不了台面\t上不了檯面\n上不得台盘\t上不得檯盤\n上中下游\t上中下游\n上冲下洗\t上沖下洗\n上合屋\t上閤屋\n上周\t上週\n上复\t上覆\n上夸克\t上夸克\n上梁\t上樑\n上梁不正\t上樑不正\n上梁不正下梁歪\t上樑不正下樑歪\n上游\t上游\n上游工业\t上游工業\n上签写\t上簽寫\n上签名\t上簽名\n上签字\t上簽字\n上签收\t上簽收\n上课钟\t上課鐘\n上野树里\t上野樹里\n上链\t上鍊\n下仑路\t下崙路\n下周\t下週\n下咽\t下嚥\n下城里\t下城里\n下夸克\t下夸克\n下摆\t下襬\n下梁\t下樑\n下注解\t下註解\n下游\t下游\n下游工业\t下游工業\n下签写\t下簽寫\n下签名\t下簽名\n下签字\t下簽字\n下签收\t下簽收\n下课钟\t下課鐘\n下采\t下采\n下里\t下里\n下里巴人\t下里巴人\n下面条\t下麪條\n不上台盘\t不上檯盤\n不了解\t不瞭解\n不克制\t不剋制\n不准他\t不准他\n不准你\t不准你\n不准她\t不准她\n不准它\t不准它\n不准我\t不准我\n不准没\t不准沒\n不准翻印\t不准翻印\n不准许\t不准許\n不准谁\t不准誰\n不准问\t不准問\n不划算\t不划算\n不占凶吉\t不占凶吉\n不占卜\t不占卜\n不占吉凶\t不占吉凶\n不占算\t不占算\n不可以道里计\t不可以道里計\n不吊\t不弔\n不大精采\t不大精采\n不好干涉\t不好干涉\n不好干预\t不好干預\n不寒而栗\t不寒而慄\n不差毫发\t不差毫髮\n不干不净\t不乾不淨\n不干不净吃了没病\t不乾不淨喫了沒病\n不干他\t不干他\n不干休\t不干休\n不干你\t不干你\n不干净\t不乾淨\n不干她\t不干她\n不干它\t不干它\n不干己事\t不干己事\n不干性\t不乾性\n不干我\t不干我\n不干扰\t不干擾\n不干杯\t不乾杯\n不干涉\t不干涉\n不干涉主义\t不干涉主義\n不干渴\t不乾渴\n不干犯\t不干犯\n不干着急\t不乾着急\n不干胶\t不乾膠\n不干脆\t不乾脆\n不干裂\t不乾裂\n不干预\t不干預\n不并\t不併\n不得台盘\t不得檯盤\n不惮强御\t不憚強禦\n不托\t不託\n不放松\t不放鬆\n不松下\t不鬆下\n不正当关系\t不正當關係\n不气干\t不氣干\n不畏强御\t不畏強禦\n不畏彊御\t不畏彊禦\n不相干\t不相干\n不知所云\t不知所云\n不系\t不繫\n不系舟\t不繫舟\n不肯干休\t不肯干休\n不舍\t不捨\n不舍得\t不捨得\n不舍昼夜\t不捨晝夜\n不药而愈\t不藥而癒\n不讨采\t不討采\n不让须眉\t不讓鬚眉\n不谷\t不穀\n不赞\t不讚\n不赞一词\t不讚一詞\n不赞一辞\t不讚一辭\n不远万里\t不遠萬里\n不远千里\t不遠千里\n不通吊庆\t不通弔慶\n不避彊御\t不避彊禦\n不采声\t不采聲\n不食干腊\t不食乾腊\n与克制\t與剋制\n丑三\t丑三\n丑年\t丑年\n丑日\t丑日\n丑旦\t丑旦\n丑时\t丑時\n丑月\t丑月\n丑牛\t丑牛\n丑角\t丑角\n专征\t專征\n专鉴\t專鑒\n世彩堂\t世綵堂\n世彩堂帖\t世綵堂帖\n世界杯\t世界盃\n世界杯室\t世界盃室\n世界杯赛\t世界盃賽\n世纪钟\t世紀鐘\n世纪钟表\t世紀鐘錶\n东仓里\t東倉里\n东加里曼丹\t東加里曼丹\n东升\t東昇\n东周钟\t東周鐘\n东山里\t東山里\n东山里站\t東山里站\n东干\t東干\n东征\t東征\n东征西怨\t東征西怨\n东征西讨\t東征西討\n东涌\t東涌\n东涌线\t東涌線\n东讨西征\t東討西征\n东里\t東里\n丝发\t絲髮\n丝发之功\t絲髮之功\n丝弦\t絲絃\n丝恩发怨\t絲恩髮怨\n丝杆\t絲桿\n两出戏\t兩齣戲\n两只\t兩隻\n两只手\t兩隻手\n两只脚赶不上一张嘴\t兩隻腳趕不上一張嘴\n两周\t兩週\n两周年\t兩週年\n两国关系\t兩國關係\n两岸关系\t兩岸關係\n两性关系\t兩性關係\n两扎\t兩紮\n两撇胡\t兩撇鬍\n两点钟\t兩點鐘\n两秒钟\t兩秒鐘\n两西西里王国\t兩西西里王國\n严云农\t嚴云農\n严禁吸烟\t嚴禁吸菸\n丧荡游魂\t喪蕩游魂\n丧钟\t喪鐘\n个中\t箇中\n个中三昧\t箇中三昧\n个中人\t箇中人\n个中原因\t箇中原因\n个中奥妙\t箇中奧妙\n个中奥秘\t箇中奧祕\n个中好手\t箇中好手\n个中强手\t箇中強手\n个中消息\t箇中消息\n个中滋味\t箇中滋味\n个中玄机\t箇中玄機\n个中理由\t箇中理由\n个中讯息\t箇中訊息\n个中资讯\t箇中資訊\n个中道理\t箇中道理\n个中高手\t箇中高手\n个旧\t箇舊\n个旧县\t箇舊縣\n个旧市\t箇舊市\n个钟\t個鐘\n个钟表\t個鐘錶\n中上游\t中上游\n中下游\t中下游\n中仑\t中崙\n中仑站\t中崙站\n中国制\t中國製\n中国制造\t中國製造\n中型钟\t中型鐘\n中型钟表\t中型鐘錶\n中型钟面\t中型鐘面\n中度台风\t中度颱風\n中日关系\t中日關係\n中比关系\t中比關係\n中游\t中游\n中环杯\t中環盃\n中筋面粉\t中筋麪粉\n中西合并\t中西合併\n中转柜台\t中轉櫃檯\n丰仪\t丰儀\n丰城贯斗\t豐城貫斗\n丰姿\t丰姿\n丰姿冶丽\t丰姿冶麗\n丰姿绰约\t丰姿綽約\n丰容\t丰容\n丰度\t丰度\n丰情\t丰情\n丰标\t丰標\n丰标不凡\t丰標不凡\n丰溪里\t豐溪里\n丰神\t丰神\n丰神俊美\t丰神俊美\n丰神绰约\t丰神綽約\n丰神飘洒\t丰神飄灑\n丰茸\t丰茸\n丰采\t丰采\n丰韵\t丰韻\n串游\t串游\n临海水土志\t臨海水土誌\n丹参\t丹蔘\n丹干\t丹干\n丹棱\t丹稜\n为中台\t爲中颱\n为幸存\t爲倖存\n主梁\t主樑\n主钟差\t主鐘差\n主钟曲线\t主鐘曲線\n举手可采\t舉手可采\n举目千里\t舉目千里\n举荐征辟\t舉薦征辟\n乃里\t乃里\n久仰山斗\t久仰山斗\n么凤士多\t么鳳士多\n义大利面\t義大利麪\n义气干霄\t義氣干霄\n之托\t之託\n之欲\t之慾\n之钟\t之鐘\n乌云密布\t烏雲密佈\n乌冬面\t烏冬麪\n乌发\t烏髮\n乌干达\t烏干達\n乌干达共和国\t烏干達共和國\n乌苏里斯克\t烏蘇里斯克\n乌苏里江\t烏蘇里江\n乌里\t烏里\n乌里雅苏台\t烏里雅蘇臺\n乌龙面\t烏龍麪\n乐器钟\t樂器鐘\n乐里\t樂里\n乐里镇\t樂里鎮\n乒乓球台\t乒乓球檯\n乔德里\t喬德里\n乘凶完配\t乘凶完配\n乙丑\t乙丑\n九出戏\t九齣戲\n九分钟\t九分鐘\n九只\t九隻\n九回肠\t九迴腸\n九扎\t九紮\n九点钟\t九點鐘\n九炼成钢\t九鍊成鋼\n九秒钟\t九秒鐘\n九谷\t九穀\n九里\t九里\n九里余\t九里餘\n九里区\t九里區\n也克制\t也剋制\n也斗了胆\t也斗了膽\n也舍下\t也捨下\n习玩\t習翫\n乡愿\t鄉愿\n乡里\t鄉里\n乡里小人\t鄉里小人\n书刊杂志\t書刊雜誌\n书台\t書檯\n书报杂志\t書報雜誌\n买烟\t買菸\n乱世凶年\t亂世凶年\n乱发\t亂髮\n乱哄\t亂鬨\n乱哄不过来\t亂鬨不過來\n乱哄哄\t亂鬨鬨\n乱搞男女关系\t亂搞男女關係\n乱松松\t亂鬆鬆\n乳制品\t乳製品\n乳娘\t乳孃\n乳臭未干\t乳臭未乾\n乾象历\t乾象曆\n了如\t瞭如\n了如指掌\t瞭如指掌\n了望\t瞭望\n了望台\t瞭望臺\n了望塔\t瞭望塔\n了望山\t瞭望山\n了望所\t瞭望所\n了然\t瞭然\n了然不惑\t瞭然不惑\n了然于心\t瞭然於心\n了若指掌\t瞭若指掌\n了解\t瞭解\n了解到\t瞭解到\n事情干脆\t事情干脆\n事迹\t事蹟\n二仑\t二崙\n二仑乡\t二崙鄉\n二分钟\t二分鐘\n二十二史札记\t二十二史劄記\n二只\t二隻\n二周\t二週\n二娘\t二孃\n二弦\t二絃\n二恶英\t二噁英\n二手烟\t二手菸\n二撇胡\t二撇鬍\n二斗\t二斗\n二杆子\t二桿子\n二点钟\t二點鐘\n二秒钟\t二秒鐘\n二缶钟惑\t二缶鐘惑\n二老板\t二老闆\n二里\t二里\n二里头\t二里頭\n二里头文化\t二里頭文化\n二项式系数\t二項式係數\n于丹\t于丹\n于于\t于于\n于仁泰\t于仁泰\n于从濂\t于從濂\n于会泳\t于會泳\n于伟国\t于偉國\n于余曲折\t于餘曲折\n于佳卉\t于佳卉\n于光远\t于光遠\n于克勒\t于克勒\n于冕\t于冕\n于军\t于軍\n于凌奎\t于凌奎\n于凤桐\t于鳳桐\n于凤至\t于鳳至\n于勒\t于勒\n于化虎\t于化虎\n于占元\t于占元\n于双戈\t于雙戈\n于台烟\t于臺煙\n于右任\t于右任\n于吉\t于吉\n于品海\t于品海\n于嗟\t于嗟\n于国桢\t于國楨\n于坚\t于堅\n于大宝\t于大寶\n于天仁\t于天仁\n于奇库杜克\t于奇庫杜克\n于姓\t于姓\n于娜\t于娜\n于娟\t于娟\n于子千\t于子千\n于孔兼\t于孔兼\n于学忠\t于學忠\n于家堡\t于家堡\n于寘\t于寘\n于小伟\t于小偉\n于小彤\t于小彤\n于尔岑\t于爾岑\n于尔根\t于爾根\n于尔里克\t于爾里克\n于山\t于山\n于山国\t于山國\n于帅\t于帥\n于幼军\t于幼軍\n于广洲\t于廣洲\n于康震\t于康震\n于式枚\t于式枚\n于归\t于歸\n于徐\t于徐\n于德海\t于德海\n于志宁\t于志寧\n于思\t于思\n于慎行\t于慎行\n于慧\t于慧\n于成龙\t于成龍\n于振\t于振\n于振武\t于振武\n于敏\t于敏\n于敏中\t于敏中\n于斌\t于斌\n于斯塔德\t于斯塔德\n于斯纳尔斯贝里\t于斯納爾斯貝里\n于斯达尔\t于斯達爾\n于明涛\t于明濤\n于晨楠\t于晨楠\n于晴\t于晴\n于杰\t于傑\n于树洁\t于樹潔\n于根伟\t于根偉\n于格\t于格\n于欣源\t于欣源\n于正升\t于正昇\n于正昌\t于正昌\n于永波\t于永波\n于汉超\t于漢超\n于江震\t于江震\n于波\t于波\n于泽尔\t于澤爾\n于洪区\t于洪區\n于浩威\t于浩威\n于海洋\t于海洋\n于涛\t于濤\n于湘兰\t于湘蘭\n于特森\t于特森\n于玉立\t于玉立\n于田\t于田\n于田县\t于田縣\n于禁\t于禁\n于秀敏\t于秀敏\n于素秋\t于素秋\n于若木\t于若木\n于荫霖\t于蔭霖\n于衡\t于衡\n于西翰\t于西翰\n于谦\t于謙\n于贝尔\t于貝爾\n于赠\t于贈\n于越\t于越\n于远伟\t于遠偉\n于道泉\t于道泉\n于都\t于都\n于都县\t于都縣\n于里察\t于里察\n于阗\t于闐\n于震寰\t于震寰\n于震环\t于震環\n于靖\t于靖\n于韦斯屈莱\t于韋斯屈萊\n于风政\t于風政\n于飞\t于飛\n于飞之乐\t于飛之樂\n于馀曲折\t于餘曲折\n于默奥\t于默奧\n云为\t云爲\n云乎\t云乎\n云云\t云云\n云何\t云何\n云吞面\t雲吞麪\n云城区\t云城區\n云尔\t云爾\n云然\t云然\n云翻雨复\t雲翻雨覆\n云须\t雲鬚\n互不干涉\t互不干涉\n互不干涉内政\t互不干涉內政\n互动关系\t互動關係\n互相联系\t互相聯繫\n五公里\t五公里\n五出戏\t五齣戲\n五分钟\t五分鐘\n五只\t五隻\n五周\t五週\n五周年\t五週年\n五弦\t五絃\n五扎\t五紮\n五斗\t五斗\n五斗折腰\t五斗折腰\n五斗柜\t五斗櫃\n五斗橱\t五斗櫥\n五斗米\t五斗米\n五斗米道\t五斗米道\n五斗解酲\t五斗解酲\n五溪\t五谿\n五点钟\t五點鐘\n五百姻缘天注定\t五百姻緣天註定\n五秒钟\t五秒鐘\n五脏\t五臟\n五脏俱全\t五臟俱全\n五脏六腑\t五臟六腑\n五脏庙\t五臟廟\n五脏神\t五臟神\n五行生克\t五行生剋\n五谷\t五穀\n五谷不分\t五穀不分\n五谷不升\t五穀不升\n五谷丰收\t五穀豐收\n五谷丰登\t五穀豐登\n五谷丰稔\t五穀豐稔\n五谷杂粮\t五穀雜糧\n五辟\t五辟\n五采\t五采\n五里\t五里\n五里雾\t五里霧\n五里雾中\t五里霧中\n井干\t井榦\n井干摧败\t井榦摧敗\n亚东关系\t亞東關係\n亚得里亚海\t亞得里亞海\n亚洲周刊\t亞洲週刊\n亚洲杯\t亞洲盃\n亚美尼亚历\t亞美尼亞曆\n亚词汇单元\t亞詞彙單元\n亚里\t亞里\n亚里士多德\t亞里士多德\n亚里斯多德\t亞里斯多德\n亚里斯提\t亞里斯提\n亚青杯\t亞青盃\n交口称赞\t交口稱讚\n交哄\t交鬨\n交并\t交併\n交托\t交託\n交通号志\t交通號誌\n交通标志\t交通標誌\n亦云\t亦云\n亦舍下\t亦捨下\n产制\t產製\n产卵洄游\t產卵洄游\n亮钟\t亮鐘\n亲娘\t親孃\n亲子关系\t親子關係\n亲密关系\t親密關係\n亲属关系\t親屬關係\n亲幸\t親倖\n亲征\t親征\n亲戚关系\t親戚關係\n亲笔签名\t親筆簽名\n亲缘关系\t親緣關係\n人云\t人云\n人云亦云\t人云亦云\n人参\t人蔘\n人参果\t人蔘果\n人参精\t人蔘精\n人口分布\t人口分佈\n人工心脏\t人工心臟\n人欲\t人慾\n人欲横流\t人慾橫流\n人物志\t人物誌\n人老精姜老辣\t人老精薑老辣\n人际关系\t人際關係\n亿只\t億隻\n亿多只\t億多隻\n什里店\t什里店\n什锦炒面\t什錦炒麪\n什锦面\t什錦麪\n仁杰\t仁杰\n仆倒\t仆倒\n仆地\t仆地\n仆夫\t僕伕\n仆然\t仆然\n仆街\t仆街\n仇仇\t仇讎\n介系词\t介係詞\n介胄\t介冑\n从属关系\t從屬關係\n仑丰村\t崙豐村\n仑背\t崙背\n仑背乡\t崙背鄉\n他克制\t他剋制\n他钟\t他鐘\n付托\t付託\n仙台\t仙台\n仙后\t仙后\n仙后座\t仙后座\n仙岩\t仙岩\n仙迹\t仙蹟\n代签\t代簽\n代签人\t代簽人\n令人发指\t令人髮指\n令岳\t令岳\n令狐冲\t令狐沖\n以免借口\t以免藉口\n以狸致鼠\t以貍致鼠\n以莛叩钟\t以莛叩鐘\n以莛撞钟\t以莛撞鐘\n件钟\t件鐘\n价古\t价古\n价川\t价川\n任人摆布\t任人擺佈\n任由摆布\t任由擺佈\n仿佛\t彷彿\n仿制\t仿製\n仿制品\t仿製品\n仿制药\t仿製藥\n伊于湖底\t伊于湖底\n伊于胡底\t伊于胡底\n伊府面\t伊府麪\n伊斯兰历\t伊斯蘭曆\n伊里其\t伊里其\n伊里奇\t伊里奇\n伊里布\t伊里布\n伊里格瑞\t伊里格瑞\n伊面\t伊麪\n伍采克\t伍采克\n伏几\t伏几\n伐罪吊民\t伐罪弔民\n休仑湖\t休崙湖\n休戚\t休慼\n休戚与共\t休慼與共\n休戚相关\t休慼相關\n众口熏天\t衆口熏天\n伙夫\t伙伕\n伙头\t伙頭\n伙房\t伙房\n伙食\t伙食\n伙食团\t伙食團\n伙食费\t伙食費\n会上签署\t會上簽署\n会上签订\t會上簽訂\n会占卜\t會占卜\n会合周期\t會合週期\n会吊\t會弔\n会干净\t會乾淨\n会干扰\t會干擾\n会干政\t會干政\n会干杯\t會乾杯\n会干枯\t會乾枯\n会干涉\t會干涉\n会干涸\t會乾涸\n会干脆\t會乾脆\n会干裂\t會乾裂\n会干预\t會干預\n会签制度\t會簽制度\n伟晶岩\t偉晶岩\n传位于四太子\t傳位于四太子\n传布\t傳佈\n传热系数\t傳熱係數\n伤寒杆菌\t傷寒桿菌\n伪托\t僞託\n伯余\t伯余\n伯娘\t伯孃\n伯里克利\t伯里克利\n似松实紧\t似鬆實緊\n但云\t但云\n低卡路里\t低卡路里\n低回\t低迴\n低回不已\t低迴不已\n低筋面粉\t低筋麪粉\n低荡\t低盪\n住扎\t住紮\n体胀系数\t體脹係數\n何小升\t何小昇\n何干\t何干\n何杰金氏病\t何杰金氏病\n余三胜\t余三勝\n余上沅\t余上沅\n余余\t余余\n余光中\t余光中\n余光生\t余光生\n余兰香\t余蘭香\n余发扬\t余發揚\n余只\t餘隻\n余吾镇\t余吾鎮\n余天\t余天\n余姓\t余姓\n余威德\t余威德\n余子明\t余子明\n余宪宗\t余憲宗\n余干\t餘干\n余干县\t餘干縣\n余思敏\t余思敏\n余政宪\t余政憲\n余文\t余文\n余文彬\t余文彬\n余月\t余月\n余歌沧\t余歌滄\n余波荡漾\t餘波盪漾\n余灿荣\t余燦榮\n余炳贤\t余炳賢\n余珮琳\t余珮琳\n余男\t余男\n余碧芬\t余碧芬\n余秀菁\t余秀菁\n余秉谚\t余秉諺\n余筱萍\t余筱萍\n余苑绮\t余苑綺\n余英时\t余英時\n余贤明\t余賢明\n余车\t余車\n余里\t餘里\n余雪兰\t余雪蘭\n余雪明\t余雪明\n余音绕梁\t餘音繞樑\n佛历\t佛曆\n佛罗里达\t佛羅里達\n佛罗里达州\t佛羅里達州\n佛里特\t佛里特\n佛里特曼\t佛里特曼\n佛钟\t佛鐘\n作幸\t作倖\n你克制\t你剋制\n你干一杯\t你乾一杯\n你干那杯\t你乾那杯\n你才子发昏\t你纔子發昏\n你斗了胆\t你斗了膽\n你系\t你係\n佣金\t佣金\n佣金收益\t佣金收益\n佣金费用\t佣金費用\n佣钱\t佣錢\n佣钿\t佣鈿\n佳荣里\t佳榮里\n佳里\t佳里\n佳里镇\t佳里鎮\n使心作幸\t使心作倖\n供制\t供製\n依从关系\t依從關係\n依依不舍\t依依不捨\n依依难舍\t依依難捨\n依存关系\t依存關係\n依托\t依託\n依法炮制\t依法炮製\n依然范特西\t依然范特西\n侠气干云\t俠氣干雲\n侥天之幸\t僥天之倖\n侥幸\t僥倖\n侥幸取胜\t僥倖取勝\n侥幸获胜\t僥倖獲勝\n侵入岩\t侵入岩\n侵并\t侵併\n便吃干\t便喫乾\n便辟\t便辟\n俄制\t俄製\n俏丽短发\t俏麗短髮\n保持联系\t保持聯繫\n保险杆\t保險桿\n信天游\t信天游\n信托\t信託\n信托公司\t信託公司\n信托贸易\t信託貿易\n信马游缰\t信馬游繮\n俪采\t儷采\n俭确之教\t儉确之教\n修五脏庙\t修五臟廟\n修名\t脩名\n修敬\t脩敬\n修杰楷\t修杰楷\n修樾\t脩樾\n修浚\t修濬\n修润\t脩潤\n修胡刀\t修鬍刀\n修脯\t脩脯\n修金\t脩金\n倒八字须\t倒八字鬚\n倒念\t倒唸\n倒悬挨命\t倒懸捱命\n倒持干戈\t倒持干戈\n倒竖虎须\t倒豎虎鬚\n倒置干戈\t倒置干戈\n倒载干戈\t倒載干戈\n倒钟摆效应\t倒鐘擺效應\n倒霉\t倒霉\n倚闲\t倚閑\n借以\t藉以\n借借\t藉藉\n借助\t藉助\n借助于\t藉助於\n借卉\t藉卉\n借口\t藉口\n借寇兵\t藉寇兵\n借寇兵赍盗粮\t藉寇兵齎盜糧\n借手\t藉手\n借故\t藉故\n借故推辞\t藉故推辭\n借机\t藉機\n借槁\t藉槁\n借此\t藉此\n借此机会\t藉此機會\n借甚\t藉甚\n借由\t藉由\n借着\t藉着\n借端\t藉端\n借端生事\t藉端生事\n借箸代筹\t藉箸代籌\n借草枕块\t藉草枕塊\n借词\t藉詞\n借资\t藉資\n倪嗣冲\t倪嗣沖\n值得称赞\t值得稱讚\n偃仆\t偃仆\n假发\t假髮\n假托\t假託\n偎干\t偎乾\n偎干就湿\t偎乾就溼\n偏信则暗\t偏信則闇\n偏幸\t偏倖\n偏相关系数\t偏相關係數\n做一天和尚撞一天钟\t做一天和尚撞一天鐘\n做出好戏\t做齣好戲\n停制\t停製\n偢采\t偢采\n偷尝禁果\t偷嚐禁果\n偷梁换柱\t偷樑換柱\n傅匀余\t傅勻余\n傒幸\t傒倖\n催并\t催併\n僵仆\t僵仆\n僵尸\t殭屍\n僵尸网络\t殭屍網絡\n僵蚕\t殭蠶\n儌幸\t儌倖\n儒略历\t儒略曆\n儒略改革历\t儒略改革曆\n兀术\t兀朮\n允准\t允准\n元后\t元后\n元素周期表\t元素週期表\n先尝\t先嚐\n先干为敬\t先乾爲敬\n先签\t先簽\n光卤石\t光鹵石\n光周期\t光週期\n光杆\t光桿\n光杆儿\t光桿兒\n光杆司令\t光桿司令\n光碟杂志\t光碟雜誌\n光纤分布式数据介面\t光纖分佈式數據介面\n光纤分布数据接口\t光纖分佈數據接口\n光脊梁\t光脊樑\n光致致\t光緻緻\n光采\t光采\n克克\t剋剋\n克制\t剋制\n克制不了\t剋制不了\n克制不住\t剋制不住\n克剥\t剋剝\n克啬\t剋嗇\n克夫\t剋夫\n克意\t剋意\n克扣\t剋扣\n克日\t剋日\n克星\t剋星\n克期\t剋期\n克核\t剋核\n克死\t剋死\n克落\t剋落\n克薄\t剋薄\n克里\t克里\n克里丝蒂娃\t克里絲蒂娃\n克里契科\t克里契科\n克里奥尔语\t克里奧爾語\n克里姆林\t克里姆林\n克里姆林宫\t克里姆林宮\n克里姆林杯\t克里姆林杯\n克里岛\t克里島\n克里斯\t克里斯\n克里斯伊凡\t克里斯伊凡\n克里斯塔基斯\t克里斯塔基斯\n克里斯托\t克里斯托\n克里斯托弗\t克里斯托弗\n克里斯普\t克里斯普\n克里斯汀\t克里斯汀\n克里斯汀贝尔\t克里斯汀貝爾\n克里斯蒂安\t克里斯蒂安\n克里斯蒂安松\t克里斯蒂安松\n克里普斯\t克里普斯\n克里木\t克里木\n克里木半岛\t克里木半島\n克里木战争\t克里木戰爭\n克里梅\t克里梅\n克里特\t克里特\n克里特克\t克里特克\n克里特克里岛\t克里特克里島\n克里特岛\t克里特島\n克里米亚\t克里米亞\n克里米亚半岛\t克里米亞半島\n克里米亚战争\t克里米亞戰爭\n克里蒙梭\t克里蒙梭\n克里门\t克里門\n克里门特\t克里門特\n免胄\t免冑\n党参\t黨蔘\n党太尉\t党太尉\n党太尉吃匾食\t党太尉喫匾食\n党怀英\t党懷英\n党支书\t党支書\n党进\t党進\n党项\t党項\n党项族\t党項族\n入口匝道号志管制\t入口匝道號誌管制\n入境签证\t入境簽證\n全干\t全乾\n全彩\t全綵\n全彩干式印表机\t全彩乾式印表機\n全托\t全託\n全斗焕\t全斗煥\n全谷物\t全穀物\n八出戏\t八齣戲\n八千里\t八千里\n八只\t八隻\n八周\t八週\n八周年\t八週年\n八字胡\t八字鬍\n八字胡须\t八字鬍鬚\n八扎\t八紮\n八斗\t八斗\n八斗之才\t八斗之才\n八斗子\t八斗子\n八斗才\t八斗才\n八斗陈思\t八斗陳思\n八点钟\t八點鐘\n八秒钟\t八秒鐘\n八蜡\t八蜡\n八辟\t八辟\n八里\t八里\n八里乡\t八里鄉\n公仔面\t公仔麪\n公共关系\t公共關係\n公历\t公曆\n公孙丑\t公孫丑\n公布\t公佈\n公布于众\t公佈於衆\n公布出来\t公佈出來\n公布栏\t公佈欄\n公斗\t公斗\n公认会计准\t公認會計准\n公里\t公里\n公里数\t公里數\n公里时\t公里時\n六冲\t六沖\n六出戏\t六齣戲\n六只\t六隻\n六周\t六週\n六周年\t六週年\n六弦\t六絃\n六扎\t六紮\n六欲\t六慾\n六点钟\t六點鐘\n六谷\t六穀\n六通四辟\t六通四辟\n六道轮回\t六道輪迴\n六里\t六里\n六须鲇\t六鬚鮎\n六须鲶\t六鬚鯰\n兰溪\t蘭谿\n兰里老太太\t蘭里老太太\n共和历\t共和曆\n共御外侮\t共禦外侮\n共轭复数\t共軛複數\n共铲\t共剷\n关山万里\t關山萬里\n关岳\t關岳\n关弓与我确\t關弓與我确\n关征\t關征\n关系\t關係\n关系人\t關係人\n关系代名词\t關係代名詞\n关系企业\t關係企業\n关系到\t關係到\n关系命题\t關係命題\n关系奖\t關係獎\n关系密切\t關係密切\n关系式\t關係式\n关系户\t關係戶\n关系法\t關係法\n关系着\t關係着\n关系融洽\t關係融洽\n关系词\t關係詞\n关系调\t關係調\n关系运算\t關係運算\n关系部\t關係部\n兴云布雨\t興雲佈雨\n兴冲冲\t興沖沖\n兴高采烈\t興高采烈\n其次辟地\t其次辟地\n养儿待老积谷防饥\t養兒待老積穀防饑\n养儿防老积谷防饥\t養兒防老積穀防飢\n养发\t養髮\n养子防老积谷防饥\t養子防老積穀防飢\n养家糊口\t養家餬口\n养小防老积谷防饥\t養小防老積穀防饑\n兼并\t兼併\n兼并与收购\t兼併與收購\n兽奸\t獸姦\n兽欲\t獸慾\n内制\t內製\n内制作\t內製作\n内卷\t內捲\n内哄\t內鬨\n内松外紧\t內鬆外緊\n内紧外松\t內緊外鬆\n内脏\t內臟\n内脏器官移植\t內臟器官移植\n内部联系\t內部聯繫\n冈田准\t岡田准\n再制\t再製\n再制品\t再製品\n再制盐\t再製鹽\n再制纸\t再製紙\n再干一杯\t再乾一杯\n再长爹娘\t再長爹孃\n写字台\t寫字檯\n军团杆菌\t軍團桿菌\n军舰岩\t軍艦岩\n军队克制\t軍隊剋制\n农历\t農曆\n农历年\t農曆年\n农历新年\t農曆新年\n农民历\t農民曆\n冠军杯\t冠軍盃\n冠胄\t冠冑\n冥凌\t冥淩\n冥凌浃行\t冥淩浹行\n冥蒙\t冥濛\n冬冬\t鼕鼕\n冬冬鼓\t鼕鼕鼓\n冰前刮雪\t冰前颳雪\n冰岩\t冰岩\n冰斗\t冰斗\n冰碛岩\t冰磧岩\n冰雪皇后\t冰雪皇后\n冲人\t沖人\n冲克\t沖剋\n冲冠发怒\t衝冠髮怒\n冲冲\t沖沖\n冲冲水\t沖沖水\n冲决\t沖決\n冲决堤防\t沖決堤防\n冲凉\t沖涼\n冲刷\t沖刷\n冲剂\t沖劑\n冲印\t沖印\n冲压\t沖壓\n冲压机\t沖壓機\n冲厕所\t沖廁所\n冲和\t沖和\n冲喜\t沖喜\n冲坏\t沖壞\n冲垮\t沖垮\n冲塌\t沖塌\n冲天\t沖天\n冲天之怒\t沖天之怒\n冲天炉\t沖天爐\n冲天炮\t沖天炮\n冲帐\t沖帳\n冲年\t沖年\n冲床\t沖牀\n冲床工\t沖牀工\n冲弱\t沖弱\n冲怀\t沖懷\n冲扩\t沖擴\n冲掉\t沖掉\n冲断\t沖斷\n冲昧\t沖昧\n冲服\t沖服\n冲服剂\t沖服劑\n冲末\t沖末\n冲模\t沖模\n冲毁\t沖毀\n冲水\t沖水\n冲沟\t沖溝\n冲泡\t沖泡\n冲泡式\t沖泡式\n冲泻\t沖瀉\n冲洗\t沖洗\n冲洗照片\t沖洗照片\n冲流\t沖流\n冲涤\t沖滌\n冲淋浴\t沖淋浴\n冲淡\t沖淡\n冲澡\t沖澡\n冲田\t沖田\n冲积\t沖積\n冲积土\t沖積土\n冲积堤\t沖積堤\n冲积层\t沖積層\n冲积岛\t沖積島\n冲积平原\t沖積平原\n冲积扇\t沖積扇\n冲积物\t沖積物\n冲税\t沖稅\n冲空机\t沖空機\n冲绳\t沖繩\n冲绳县\t沖繩縣\n冲绳岛\t沖繩島\n冲绳群岛\t沖繩羣島\n冲茶\t沖茶\n冲蒌\t沖蔞\n冲虚\t沖虛\n冲虚真人\t沖虛真人\n冲虚真经\t沖虛真經\n冲蚀\t沖蝕\n冲襟\t沖襟\n冲走\t沖走\n冲销\t沖銷\n冲霄\t沖霄\n冲霄汉外\t沖霄漢外\n冲默\t沖默\n冲鼻\t沖鼻\n冲龄\t沖齡\n决策千里\t決策千里\n决胜千里\t決勝千里\n冷淡关系\t冷淡關係\n冷面\t冷麪\n冻干\t凍乾\n净发\t淨髮\n凄冷\t淒冷\n凄凉\t淒涼\n凄厉\t淒厲\n凄寒\t淒寒\n凄沧\t淒滄\n凄雨\t淒雨\n准三后\t准三后\n准不准他\t准不准他\n准不准你\t准不准你\n准不准她\t准不准她\n准不准它\t准不准它\n准不准我\t准不准我\n准不准许\t准不准許\n准不准谁\t准不准誰\n准予\t准予\n准以\t准以\n准伏\t准伏\n准保护\t准保護\n准保释\t准保釋\n准假\t准假\n准入\t准入\n准决斗\t准決鬥\n准奏\t准奏\n准将\t准將\n准尉\t准尉\n准折\t准折\n准普尔\t准普爾\n准此\t准此\n准算\t准算\n准考证\t准考證\n准许\t准許\n凉席\t涼蓆\n凉面\t涼麪\n凌云笔\t淩雲筆\n凌借\t凌藉\n凌姓\t淩姓\n凌小姐\t淩小姐\n凌氏\t淩氏\n凌氏惠平\t淩氏惠平\n凌水\t淩水\n凌河\t淩河\n凌策\t淩策\n凌统\t淩統\n凌蒙初\t凌濛初\n凌驰\t淩馳\n凛栗\t凜慄\n凝灰岩\t凝灰岩\n凝炼\t凝鍊\n几万里\t幾萬里\n几上\t几上\n几净窗明\t几淨窗明\n几几\t几几\n几凳\t几凳\n几出\t幾齣\n几分收获\t幾分收穫\n几分钟\t幾分鐘\n几千里\t幾千里\n几只\t幾隻\n几子\t几子\n几席\t几席\n几旁\t几旁\n几杆\t幾桿\n几杖\t几杖\n几案\t几案\n几案之才\t几案之才\n几椅\t几椅\n几榻\t几榻\n几点钟\t幾點鐘\n几百里\t幾百里\n几秒钟\t幾秒鐘\n几筵\t几筵\n几里\t幾里\n几面上\t几面上\n凤凰于蜚\t鳳凰于蜚\n凤凰于飞\t鳳凰于飛\n凤占\t鳳占\n凤台\t鳳台\n凤梨干\t鳳梨乾\n凤皇于蜚\t鳳皇于蜚\n凭借\t憑藉\n凭借着\t憑藉着\n凭几\t憑几\n凭吊\t憑弔\n凭折\t憑摺\n凭闲\t憑閑\n凯里\t凱里\n凯里市\t凱里市\n凶事\t凶事\n凶信\t凶信\n凶兆\t凶兆\n凶地\t凶地\n凶多吉少\t凶多吉少\n凶宅\t凶宅\n凶岁\t凶歲\n凶年\t凶年\n凶年饥岁\t凶年饑歲\n凶德\t凶德\n凶怪\t凶怪\n凶日\t凶日\n凶服\t凶服\n凶死\t凶死\n凶气\t凶氣\n凶煞\t凶煞\n凶燄\t凶燄\n凶礼\t凶禮\n凶神\t凶神\n凶神恶煞\t凶神惡煞\n凶神附体\t凶神附體\n凶竖\t凶豎\n凶终隙末\t凶終隙末\n凶耗\t凶耗\n凶肆\t凶肆\n凶荒\t凶荒\n凶讯\t凶訊\n凶身\t凶身\n凶逆\t凶逆\n凶门\t凶門\n出儿\t齣兒\n出前一丁面\t出前一丁麪\n出境签证\t出境簽證\n出征\t出征\n出自娘胎\t出自孃胎\n出陈布新\t出陳佈新\n击钟\t擊鐘\n击钟陈鼎\t擊鐘陳鼎\n击钟鼎食\t擊鐘鼎食\n函复\t函覆\n凿岩机\t鑿岩機\n刀削面\t刀削麪\n刀拨面\t刀撥麪\n刁奸\t刁姦\n刁斗\t刁斗\n分半钟\t分半鐘\n分多钟\t分多鐘\n分子钟\t分子鐘\n分布\t分佈\n分布于\t分佈於\n分布区\t分佈區\n分布图\t分佈圖\n分布学习\t分佈學習\n分布式发展模型\t分佈式發展模型\n分布式拒绝服务\t分佈式拒絕服務\n分布式环境\t分佈式環境\n分布式结构\t分佈式結構\n分布式网络\t分佈式網絡\n分布控制\t分佈控制\n分布范围\t分佈範圍\n分布连结网络\t分佈連結網絡\n分钟\t分鐘\n切仔面\t切仔麪\n刊布\t刊佈\n刑于\t刑于\n刑克\t刑剋\n刑辟\t刑辟\n划一桨\t划一槳\n划不来\t划不來\n划了一会\t划了一會\n划具\t划具\n划到岸\t划到岸\n划到江心\t划到江心\n划动\t划動\n划单人艇\t划單人艇\n划双人\t划雙人\n划向\t划向\n划子\t划子\n划得来\t划得來\n划拳\t划拳\n划来\t划來\n划桨\t划槳\n划水\t划水\n划着\t划着\n划着走\t划着走\n划算\t划算\n划船\t划船\n划艇\t划艇\n划行\t划行\n划走\t划走\n划起\t划起\n划起来\t划起來\n划过去\t划過去\n划过来\t划過來\n划进\t划進\n划进去\t划進去\n划进来\t划進來\n划龙舟\t划龍舟\n列御寇\t列禦寇\n刘伟杰\t劉偉杰\n刘占吉\t劉占吉\n刘幸如\t劉倖如\n刘志升\t劉志昇\n刚干\t剛乾\n刚才\t剛纔\n刚才一载\t剛纔一載\n刚才在\t剛纔在\n刚才是\t剛纔是\n创巨\t創鉅\n创意杯\t創意盃\n创获\t創穫\n初征\t初征\n初级关系\t初級關係\n利古里亚\t利古里亞\n利害关系\t利害關係\n利害关系人\t利害關係人\n利害关系方\t利害關係方\n利得汇\t利得彙\n利欲\t利慾\n利欲心\t利慾心\n利欲熏心\t利慾薰心\n利欲薰心\t利慾薰心\n利用系数\t利用係數\n利默里克\t利默里克\n别具只眼\t別具隻眼\n别别扭扭\t彆彆扭扭\n别口气\t彆口氣\n别只\t別隻\n别嘴\t彆嘴\n别干净\t別乾淨\n别念\t別唸\n别扭\t彆扭\n别拗\t彆拗\n别日南鸿才北去\t別日南鴻纔北去\n别气\t彆氣\n别着\t彆着\n别致\t別緻\n别致有趣\t別緻有趣\n刮了\t颳了\n刮倒\t颳倒\n刮去\t颳去\n刮大风\t颳大風\n刮得\t颳得\n刮着\t颳着\n刮胡\t刮鬍\n刮胡刀\t刮鬍刀\n刮胡子\t刮鬍子\n刮走\t颳走\n刮起\t颳起\n刮雪\t颳雪\n刮须\t刮鬚\n刮风\t颳風\n刮风后\t颳風後\n到达签证\t到達簽證\n制为\t製爲\n制件\t製件\n制作\t製作\n制作业\t製作業\n制作人\t製作人\n制作出\t製作出\n制作出来\t製作出來\n制作商\t製作商\n制作好\t製作好\n制作成\t製作成\n制作群\t製作羣\n制作者\t製作者\n制作费\t製作費\n制假\t製假\n制做\t製做\n制冰\t製冰\n制冰机\t製冰機\n制冷\t製冷\n制冷剂\t製冷劑\n制冷机\t製冷機\n制出\t製出\n制剂\t製劑\n制取\t製取\n制品\t製品\n制售\t製售\n制图\t製圖\n制图员\t製圖員\n制图学\t製圖學\n制图室\t製圖室\n制图尺\t製圖尺\n制图师\t製圖師\n制图板\t製圖板\n制图样\t製圖樣\n制图桌\t製圖桌\n制图者\t製圖者\n制图车\t製圖車\n制坯\t製坯\n制备\t製備\n制得\t製得\n制成\t製成\n制成品\t製成品\n制播\t製播\n制材\t製材\n制毒\t製毒\n制氧\t製氧\n制法\t製法\n制浆\t製漿\n制片\t製片\n制片人\t製片人\n制片厂\t製片廠\n制片商\t製片商\n制片家\t製片家\n制版\t製版\n制版术\t製版術\n制盐\t製鹽\n制程\t製程\n制糖\t製糖\n制糖厂\t製糖廠\n制纸\t製紙\n制茶\t製茶\n制药\t製藥\n制药业\t製藥業\n制药企业\t製藥企業\n制药厂\t製藥廠\n制衣\t製衣\n制衣厂\t製衣廠\n制表\t製表\n制造\t製造\n制造业\t製造業\n制造业者\t製造業者\n制造出\t製造出\n制造出来\t製造出來\n制造厂\t製造廠\n制造厂商\t製造廠商\n制造品\t製造品\n制造商\t製造商\n制造器\t製造器\n制造场\t製造場\n制造成\t製造成\n制造术\t製造術\n制造者\t製造者\n制造费用\t製造費用\n制酸性\t製酸性\n制醣\t製醣\n制钟\t製鐘\n制锦\t製錦\n制陶\t製陶\n制陶工人\t製陶工人\n制面\t製麪\n制面具\t製面具\n制革\t製革\n制革厂\t製革廠\n制革工厂\t製革工廠\n制鞋\t製鞋\n制鞋业\t製鞋業\n制鞋匠\t製鞋匠\n制鞋工人\t製鞋工人\n刺参\t刺蔘\n刺干\t刺干\n刻半钟\t刻半鐘\n刻多钟\t刻多鐘\n刻钟\t刻鐘\n剃发\t剃髮\n剃发为尼\t剃髮爲尼\n剃发令\t剃髮令\n剃发留辫\t剃髮留辮\n剃发铺\t剃髮鋪\n剃头发\t剃頭髮\n剃胡\t剃鬍\n剃须\t剃鬚\n剃须刀\t剃鬚刀\n削发\t削髮\n削发为僧\t削髮爲僧\n削发为尼\t削髮爲尼\n削发披缁\t削髮披緇\n削筋面\t削筋麪\n削面\t削麪\n前仆后继\t前仆後繼\n前仆后起\t前仆後起\n前程万里\t前程萬里\n前词汇加工\t前詞彙加工\n前词汇语音加工\t前詞彙語音加工\n前词汇阶段\t前詞彙階段\n剑杆\t劍桿\n剥制\t剝製\n剪其发\t剪其髮\n剪发\t剪髮\n剪发披缁\t剪髮披緇\n剪头发\t剪頭髮\n剪彩\t剪綵\n割舍\t割捨\n割舍不下\t割捨不下\n劈里\t劈里\n劈里啪啦\t劈里啪啦\n力争上游\t力爭上游\n力克制\t力剋制\n力征\t力征\n办伙\t辦伙\n办公台\t辦公檯\n功致\t功緻\n加利波里\t加利波里\n加卷\t加捲\n加巴里雅\t加巴里雅\n加拉干达\t加拉干達\n加斗\t加斗\n加氢精制\t加氫精製\n加注\t加註\n加签\t加簽\n加签证\t加簽證\n加达里\t加達里\n加里\t加里\n加里宁\t加里寧\n加里宁格勒\t加里寧格勒\n加里宁格勒州\t加里寧格勒州\n加里曼丹\t加里曼丹\n加里波的\t加里波的\n加里波第\t加里波第\n加里肋亚\t加里肋亞\n加里肋亚海\t加里肋亞海\n动干戈\t動干戈\n动荡\t動盪\n动荡不安\t動盪不安\n动荡不定\t動盪不定\n劲度系数\t勁度係數\n劳力士表\t勞力士錶\n劳资关系\t勞資關係\n劳里斯\t勞里斯\n劳雇关系\t勞僱關係\n劾系\t劾繫\n勃溪\t勃谿\n勒里勒得\t勒里勒得\n勿里洞岛\t勿里洞島\n包伙\t包伙\n包占\t包占\n包干\t包乾\n包干儿\t包乾兒\n包干制\t包乾制\n包扎\t包紮\n包扎法\t包紮法\n包谷\t包穀\n包里斯\t包里斯\n匏系\t匏繫\n化干戈为玉帛\t化干戈爲玉帛\n北京周报\t北京週報\n北京国家游泳中心\t北京國家游泳中心\n北京汽车制造厂有限公司\t北京汽車製造廠有限公司\n北回\t北迴\n北回归线\t北迴歸線\n北回线\t北迴線\n北回铁路\t北迴鐵路\n北征\t北征\n北斗\t北斗\n北斗七星\t北斗七星\n北斗星\t北斗星\n北斗镇\t北斗鎮\n北瓦兹里斯坦\t北瓦茲里斯坦\n北里\t北里\n匹马只轮\t匹馬隻輪\n十余只\t十餘隻\n十余里\t十餘里\n十公里\t十公里\n十出戏\t十齣戲\n十分干\t十分乾\n十分钟\t十分鐘\n十只\t十隻\n十周\t十週\n十周年\t十週年\n十多只\t十多隻\n十天干\t十天干\n十字军东征\t十字軍東征\n十字军远征\t十字軍遠征\n十干\t十干\n十扎\t十紮\n十点钟\t十點鐘\n十秒钟\t十秒鐘\n十里\t十里\n十里余\t十里餘\n十里洋场\t十里洋場\n十里长亭\t十里長亭\n十里长亭无客走\t十里長亭無客走\n千余只\t千餘隻\n千余里\t千餘里\n千只\t千隻\n千回百折\t千迴百折\n千回百转\t千迴百轉\n千多只\t千多隻\n千层面\t千層麪\n千扎\t千紮\n千里\t千里\n千里一曲\t千里一曲\n千里之堤\t千里之堤\n千里之外\t千里之外\n千里之行\t千里之行\n千里命驾\t千里命駕\n千里始足下\t千里始足下\n千里姻缘一线牵\t千里姻緣一線牽\n千里寄鹅毛\t千里寄鵝毛\n千里搭长棚\t千里搭長棚\n千里犹面\t千里猶面\n千里目\t千里目\n千里眼\t千里眼\n千里移檄\t千里移檄\n千里足\t千里足\n千里达\t千里達\n千里迢迢\t千里迢迢\n千里迢遥\t千里迢遙\n千里送鹅毛\t千里送鵝毛\n千里镜\t千里鏡\n千里馈粮\t千里饋糧\n千里马\t千里馬\n千里驹\t千里駒\n千里鹅毛\t千里鵝毛\n千钧一发\t千鈞一髮\n卅里\t卅里\n升仙\t昇仙\n升华\t昇華\n升华作用\t昇華作用\n升天\t昇天\n升平\t昇平\n升斗\t升斗\n升斗之禄\t升斗之祿\n升斗小民\t升斗小民\n升汞\t昇汞\n升阳\t昇陽\n半保留复制\t半保留複製\n半分钟\t半分鐘\n半制品\t半製品\n半只\t半隻\n半干\t半乾\n半点钟\t半點鐘\n半秒钟\t半秒鐘\n半里\t半里\n卌里\t卌里\n华严钟\t華嚴鐘\n华发\t華髮\n华核\t華覈\n华特里德\t華特里德\n华里\t華里\n单于\t單于\n单位信托\t單位信託\n单只\t單隻\n单周\t單週\n单夫只妇\t單夫隻婦\n单弦\t單絃\n单方制剂\t單方製劑\n卖卦口没量斗\t賣卦口沒量斗\n卖奸\t賣姦\n卖拐\t賣柺\n卖炭的掉在面缸里\t賣炭的掉在麪缸裏\n卖红萝卜\t賣紅蘿蔔\n卖豆腐点了河滩地\t賣荳腐點了河灘地\n南京钟\t南京鐘\n南京钟表\t南京鐘錶\n南回\t南迴\n南回公路\t南迴公路\n南回归线\t南迴歸線\n南回线\t南迴線\n南回铁路\t南迴鐵路\n南宫适\t南宮适\n南屏晚钟\t南屏晚鐘\n南山杯\t南山盃\n南征\t南征\n南征北伐\t南征北伐\n南征北战\t南征北戰\n南征北讨\t南征北討\n南斗\t南斗\n南斗六星\t南斗六星\n南斗星君\t南斗星君\n南方周末\t南方週末\n南涌\t南涌\n南筑\t南筑\n南箕北斗\t南箕北斗\n南记粉面\t南記粉麪\n南里\t南里\n博汇\t博彙\n卜征\t卜征\n占万\t佔万\n占上\t占上\n占上游\t佔上游\n占了卜\t占了卜\n占亲\t占親\n占人\t占人\n占候\t占候\n占凤\t占鳳\n占卜\t占卜\n占卜师\t占卜師\n占卜术\t占卜術\n占占卜\t占占卜\n占占卦\t占占卦\n占卦\t占卦\n占城\t占城\n占射\t占射\n占强\t占強\n占房\t占房\n占拜\t占拜\n占断\t占斷\n占星\t占星\n占星学\t占星學\n占星家\t占星家\n占星师\t占星師\n占星术\t占星術\n占有五不验\t占有五不驗\n占有欲\t佔有慾\n占梦\t占夢\n占筮\t占筮\n占课\t占課\n占身\t占身\n占风使帆\t占風使帆\n占验\t占驗\n卡尔加里\t卡爾加里\n卡拉布里亚\t卡拉布里亞\n卡拉曼里斯\t卡拉曼里斯\n卡洛里\t卡洛里\n卡特里娜\t卡特里娜\n卡耶里\t卡耶里\n卡苏里\t卡蘇里\n卡路里\t卡路里\n卡里\t卡里\n卡里扎德\t卡里紮德\n卢布里雅纳\t盧布里雅納\n卢郁佳\t盧郁佳\n卤人\t鹵人\n卤代烃\t鹵代烴\n卤制\t滷製\n卤化\t鹵化\n卤化物\t鹵化物\n卤化银\t鹵化銀\n卤味面\t滷味麪\n卤地\t鹵地\n卤族\t鹵族\n卤簿\t鹵簿\n卤素\t鹵素\n卤素灯\t鹵素燈\n卤肉面\t滷肉麪\n卤莽\t鹵莽\n卤莽灭裂\t鹵莽滅裂\n卤钝\t鹵鈍\n卤面\t滷麪\n卧薪尝胆\t臥薪嚐膽\n卫星钟\t衛星鐘\n印制\t印製\n印制厂\t印製廠\n印制电路\t印製電路\n印制电路板\t印製電路板\n即食面\t即食麪\n却才\t卻纔\n卷一卷\t捲一捲\n卷上\t捲上\n卷不起\t捲不起\n卷了\t捲了\n卷云\t捲雲\n卷住\t捲住\n卷入\t捲入\n卷入漩涡\t捲入漩渦\n卷刃\t捲刃\n卷到\t捲到\n卷动\t捲動\n卷动门\t捲動門\n卷包\t捲包\n卷去\t捲去\n卷发\t捲髮\n卷发器\t捲髮器\n卷吸作用\t捲吸作用\n卷回\t捲回\n卷图\t捲圖\n卷土\t捲土\n卷土重来\t捲土重來\n卷尺\t捲尺\n卷尾猴\t捲尾猴\n卷帘\t捲簾\n卷帘格\t捲簾格\n卷帘门\t捲簾門\n卷开\t捲開\n卷心\t捲心\n卷心菜\t捲心菜\n卷成\t捲成\n卷扬\t捲揚\n卷扬机\t捲揚機\n卷拢\t捲攏\n卷旋\t捲旋\n卷曲\t捲曲\n卷来\t捲來\n卷来卷去\t捲來捲去\n卷棚\t捲棚\n卷款\t捲款\n卷款潜逃\t捲款潛逃\n卷款逃走\t捲款逃走\n卷毛\t捲毛\n卷浪\t捲浪\n卷浪翻波\t捲浪翻波\n卷烟\t捲菸\n卷烟画片\t捲煙畫片\n卷烟盒\t捲菸盒\n卷甲重来\t捲甲重來\n卷筒\t捲筒\n卷筒纸\t捲筒紙\n卷纸\t捲紙\n卷线器\t捲線器\n卷缠\t捲纏\n卷缩\t捲縮\n卷翘\t捲翹\n卷腿裤\t捲腿褲\n卷舌\t捲舌\n卷舌元音\t捲舌元音\n卷舌音\t捲舌音\n卷落叶\t捲落葉\n卷衣袖\t捲衣袖\n卷袖\t捲袖\n卷走\t捲走\n卷起\t捲起\n卷起来\t捲起來\n卷过\t捲過\n卷进\t捲進\n卷逃\t捲逃\n卷钢\t捲鋼\n卷铺盖\t捲鋪蓋\n卷须\t卷鬚\n卷风\t捲風\n卷饼\t捲餅\n厂部\t厂部\n历书\t曆書\n历元\t曆元\n历史遗迹\t歷史遺蹟\n历命\t曆命\n历头\t曆頭\n历始\t曆始\n历室\t曆室\n历尾\t曆尾\n历本\t曆本\n历法\t曆法\n历狱\t曆獄\n历纪\t曆紀\n历象\t曆象\n历象表\t曆象表\n压力表\t壓力錶\n压杆\t壓桿\n压缩饼干\t壓縮餅乾\n压胄子\t壓冑子\n压面棍\t壓麪棍\n厘金\t厘金\n厚朴\t厚朴\n原子钟\t原子鐘\n原钟\t原鐘\n去干扰\t去干擾\n去念\t去唸\n县志\t縣誌\n参汤\t蔘湯\n参绥\t蔘綏\n参茸\t蔘茸\n又云\t又云\n又干又硬\t又乾又硬\n友于\t友于\n友好关系\t友好關係\n双后前兵开局\t雙后前兵開局\n双周\t雙週\n双周刊\t雙週刊\n双周期性\t雙週期性\n双折\t雙摺\n双拐\t雙柺\n双柑斗酒\t雙柑斗酒\n双胜类\t雙胜類\n双雕\t雙鵰\n反乱并\t反亂併\n反卷\t反捲\n反反复复\t反反覆覆\n反复\t反覆\n反复不一\t反覆不一\n反复不定\t反覆不定\n反复不常\t反覆不常\n反复制\t反複製\n反复思维\t反覆思維\n反复思量\t反覆思量\n反复性\t反覆性\n反复无常\t反覆無常\n反斗\t反斗\n反斗城\t反斗城\n反时钟\t反時鐘\n反时钟方向\t反時鐘方向\n发上冲冠\t髮上衝冠\n发上指冠\t髮上指冠\n发丝\t髮絲\n发为血之本\t髮爲血之本\n发乱钗横\t髮亂釵橫\n发乳\t髮乳\n发光可鉴\t髮光可鑑\n发匪\t髮匪\n发卡\t髮卡\n发卷\t髮捲\n发号布令\t發號佈令\n发困\t發睏\n发圈\t髮圈\n发型\t髮型\n发型师\t髮型師\n发夹\t髮夾\n发套\t髮套\n发如飞蓬\t髮如飛蓬\n发妻\t髮妻\n发姐\t髮姐\n发尾\t髮尾\n发屋\t髮屋\n发已霜白\t髮已霜白\n发布\t發佈\n发布会\t發佈會\n发带\t髮帶\n发干\t發乾\n发廊\t髮廊\n发式\t髮式\n发引千钧\t髮引千鈞\n发情周期\t發情週期\n发指\t髮指\n发指眦裂\t髮指眥裂\n发挽双髻\t髮挽雙髻\n发旋\t髮旋\n发束\t髮束\n发松\t發鬆\n发根\t髮根\n发梢\t髮梢\n发梳\t髮梳\n发油\t髮油\n发漂\t髮漂\n发状\t髮狀\n发生关系\t發生關係\n发癣\t髮癬\n发短心长\t髮短心長\n发禁\t髮禁\n发笺\t髮箋\n发箍\t髮箍\n发簪\t髮簪\n发纱\t髮紗\n发结\t髮結\n发缨\t髮纓\n发网\t髮網\n发肤\t髮膚\n发胶\t髮膠\n发脚\t髮腳\n发腊\t髮臘\n发色\t髮色\n发色勒\t髮色勒\n发菜\t髮菜\n发蒙\t發矇\n发蜡\t髮蠟\n发蜡条\t髮蠟條\n发表欲\t發表慾\n发质\t髮質\n发踊冲冠\t髮踊沖冠\n发辫\t髮辮\n发采扬明\t發采揚明\n发量\t髮量\n发针\t髮針\n发钗\t髮釵\n发长\t髮長\n发间\t髮間\n发际\t髮際\n发雕\t髮雕\n发霜\t髮霜\n发面\t發麪\n发顶\t髮頂\n发须\t髮鬚\n发须俱\t髮鬚俱\n发须已\t髮鬚已\n发须斑\t髮鬚斑\n发须皆\t髮鬚皆\n发须都\t髮鬚都\n发饰\t髮飾\n发香\t髮香\n发髻\t髮髻\n发鬓\t髮鬢\n叔于田\t叔于田\n取舍\t取捨\n取舍不定\t取捨不定\n取舍之间\t取捨之間\n取舍难定\t取捨難定\n受人之托\t受人之託\n受托\t受託\n受托人\t受託人\n受托者\t受託者\n变异系数\t變異係數\n变松\t變鬆\n变质岩\t變質岩\n变速杆\t變速桿\n叠层岩\t疊層岩\n口占\t口占\n口吃\t口吃\n口干\t口乾\n口干舌燥\t口乾舌燥\n口念\t口唸\n口燥唇干\t口燥脣乾\n口腹之欲\t口腹之慾\n口血未干\t口血未乾\n口钟\t口鐘\n古书云\t古書云\n古云\t古云\n古切里\t古切里\n古弦\t古絃\n古语云\t古語云\n古迹\t古蹟\n古钟\t古鐘\n古钟表\t古鐘錶\n叨念\t叨唸\n叩钟\t叩鐘\n只准\t只准\n只占卜\t只占卜\n只占吉\t只占吉\n只占神问卜\t只占神問卜\n只占算\t只占算\n只声不出\t隻聲不出\n只字\t隻字\n只字不提\t隻字不提\n只字片纸\t隻字片紙\n只字片言\t隻字片言\n只字片语\t隻字片語\n只影\t隻影\n只影全无\t隻影全無\n只手\t隻手\n只手单拳\t隻手單拳\n只手擎天\t隻手擎天\n只手空拳\t隻手空拳\n只手遮天\t隻手遮天\n只日\t隻日\n只眼\t隻眼\n只眼独具\t隻眼獨具\n只立\t隻立\n只言片字\t隻言片字\n只言片语\t隻言片語\n只身\t隻身\n只身一人\t隻身一人\n只身孤影\t隻身孤影\n只轮不反\t隻輪不反\n只轮不返\t隻輪不返\n只鸡斗酒\t只雞斗酒\n只鸡絮酒\t隻雞絮酒\n叮叮当\t叮叮噹\n叮叮当当\t叮叮噹噹\n叮叮当当的婆娘\t叮叮噹噹的婆娘\n叮当\t叮噹\n叮当作响\t叮噹作響\n叮当响\t叮噹響\n叮当声\t叮噹聲\n可以克制\t可以剋制\n可周\t可週\n可干制\t可乾製\n可干拭\t可乾拭\n可干饮\t可乾飲\n可紧可松\t可緊可鬆\n台凳\t檯凳\n台制\t臺製\n台制品\t臺製品\n台历\t檯曆\n台山\t台山\n台山市\t台山市\n台州\t台州\n台州地区\t台州地區\n台州市\t台州市\n台布\t檯布\n台布下\t檯布下\n台扇\t檯扇\n台湾关系法\t臺灣關係法\n台湾台\t臺灣台\n台灯\t檯燈\n台球\t檯球\n台球桌\t檯球桌\n台盘\t檯盤\n台秤\t檯秤\n台笔\t檯筆\n台鉴\t臺鑒\n台钟\t檯鐘\n台面\t檯面\n台面上\t檯面上\n台面前\t檯面前\n台风\t颱風\n台风后\t颱風後\n台风夜\t颱風夜\n台风天\t颱風天\n台风季\t颱風季\n台风尾\t颱風尾\n台风眼\t颱風眼\n台风草\t颱風草\n台风警报\t颱風警報\n台风险\t颱風險\n台风雨\t颱風雨\n史克里亚宾\t史克里亞賓\n史游\t史游\n史迹\t史蹟\n右分枝关系从句\t右分枝關係從句\n叶叶琹\t葉叶琹\n叶子杰\t葉子杰\n叶子烟\t葉子菸\n叶恭弘\t叶恭弘\n叶步梁\t葉步樑\n叶音\t叶音\n叶韵\t叶韻\n号志\t號誌\n号志机\t號誌機\n号志灯\t號誌燈\n叹为观止\t歎爲觀止\n叹号\t歎號\n叹吁\t歎吁\n叹服\t歎服\n叹绝\t歎絕\n叹羡\t歎羨\n叹赏\t歎賞\n吁了\t吁了\n吁俞\t吁俞\n吁叹\t吁嘆\n吁吁\t吁吁\n吁咈\t吁咈\n吁咈都俞\t吁咈都俞\n吁嗟\t吁嗟\n吁嘘\t吁噓\n吁气\t吁氣\n吃亏的是乖占便宜的是呆\t喫虧的是乖占便宜的是呆\n吃几碗干饭\t喫幾碗乾飯\n吃姜\t喫薑\n吃完面\t喫完麪\n吃干了\t喫乾了\n吃干醋\t喫乾醋\n吃板刀面\t喫板刀麪\n吃豆干\t喫豆乾\n吃辣面\t喫辣麪\n吃过面\t喫過麪\n吃面\t喫麪\n吃饭别忘了种谷人\t喫飯別忘了種穀人\n吃饭家伙\t喫飯傢伙\n各签\t各簽\n各类钟\t各類鐘\n各里\t各里\n合中\t閤中\n合义复词\t合義複詞\n合于时宜\t合于時宜\n合作伙伴\t合作伙伴\n合儿\t閤兒\n合历\t合曆\n合家\t閤家\n合家子\t閤家子\n合家欢\t閤家歡\n合并\t合併\n合并为\t合併爲\n合并在\t合併在\n合并成\t合併成\n合并有\t合併有\n合并案\t合併案\n合并症\t合併症\n合府\t閤府\n合府上\t閤府上\n合理布局\t合理佈局\n合眼\t閤眼\n合签\t合簽\n吉凶\t吉凶\n吉凶庆吊\t吉凶慶弔\n吉凶悔吝\t吉凶悔吝\n吉凶未卜\t吉凶未卜\n吉占\t吉占\n吉尼普里\t吉尼普里\n吉普斯夸\t吉普斯夸\n吉诺布里\t吉諾布里\n吉里\t吉里\n吉里巴斯\t吉里巴斯\n吉里巴斯共和国\t吉里巴斯共和國\n吊丧\t弔喪\n吊丧问疾\t弔喪問疾\n吊书\t弔書\n吊古\t弔古\n吊古寻幽\t弔古尋幽\n吊唁\t弔唁\n吊喉\t弔喉\n吊喭\t弔喭\n吊头\t弔頭\n吊奠\t弔奠\n吊孝\t弔孝\n吊客\t弔客\n吊客眉\t弔客眉\n吊宴\t弔宴\n吊影\t弔影\n吊慰\t弔慰\n吊拷\t弔拷\n吊撒\t弔撒\n吊文\t弔文\n吊斗\t吊斗\n吊旗\t弔旗\n吊死问孤\t弔死問孤\n吊死问疾\t弔死問疾\n吊民\t弔民\n吊民伐罪\t弔民伐罪\n吊祭\t弔祭\n吊纸\t弔紙\n吊者大悦\t弔者大悅\n吊脚儿事\t弔腳兒事\n吊腰撒跨\t弔腰撒跨\n吊词\t弔詞\n吊诡\t弔詭\n吊诡矜奇\t弔詭矜奇\n吊谎\t弔謊\n吊贺迎送\t弔賀迎送\n吊钟\t吊鐘\n吊问\t弔問\n吊鹤\t弔鶴\n同人志\t同人誌\n同休共戚\t同休共慼\n同里\t同里\n名复金瓯\t名覆金甌\n名胜古迹\t名勝古蹟\n名表\t名錶\n后丰\t后豐\n后冠\t后冠\n后制\t後製\n后北街\t后北街\n后发座\t后髮座\n后台老板\t後臺老闆\n后土\t后土\n后妃\t后妃\n后娘\t後孃\n后安路\t后安路\n后帝\t后帝\n后平路\t后平路\n后座系\t後座繫\n后摆\t後襬\n后海湾\t后海灣\n后溪穴\t後谿穴\n后王\t后王\n后皇\t后皇\n后稷\t后稷\n后羿\t后羿\n后羿射日\t后羿射日\n后翻筋斗\t後翻筋斗\n后角\t后角\n后词汇加工\t後詞彙加工\n后辛\t后辛\n后辟\t后辟\n后里\t后里\n后里乡\t后里鄉\n吐司面包\t吐司麪包\n吐哺捉发\t吐哺捉髮\n吐哺握发\t吐哺握髮\n向导\t嚮導\n向导公司\t嚮導公司\n向导员\t嚮導員\n向导犬\t嚮導犬\n向应\t嚮應\n向往\t嚮往\n向慕\t嚮慕\n向明\t嚮明\n向晦\t嚮晦\n向者\t曏者\n向迩\t嚮邇\n吕后\t呂后\n吕太后的筵席\t呂太后的筵席\n吕宋烟\t呂宋菸\n吕岩\t呂岩\n君子于役\t君子于役\n君子坦荡荡小人长戚戚\t君子坦蕩蕩小人長慼慼\n吞咽\t吞嚥\n吞并\t吞併\n吞武里\t吞武里\n吟叹\t吟歎\n吧台\t吧檯\n吨公里\t噸公里\n含油岩\t含油岩\n含齿戴发\t含齒戴髮\n听弦\t聽絃\n吴子冲\t吳子沖\n吴皓升\t吳皓昇\n吴育升\t吳育昇\n吴荣杰\t吳榮杰\n吴采璋\t吳采璋\n吴里克\t吳里克\n吸干\t吸乾\n吸得干干\t吸得乾乾\n吸烟\t吸菸\n吸烟区\t吸菸區\n吸烟客\t吸菸客\n吸烟室\t吸菸室\n吸烟族\t吸菸族\n吸烟率\t吸菸率\n吸烟者\t吸菸者\n吹发\t吹髮\n吹头发\t吹頭髮\n吹干\t吹乾\n吹胡\t吹鬍\n吹胡子\t吹鬍子\n吹胡子瞪眼睛\t吹鬍子瞪眼睛\n呆着\t待着\n呆致致\t呆緻緻\n呈准\t呈准\n呗赞\t唄讚\n周一\t週一\n周三\t週三\n周上\t週上\n周中\t週中\n周二\t週二\n周五\t週五\n周休\t週休\n周休二日\t週休二日\n周会\t週會\n周六\t週六\n周六日\t週六日\n周刊\t週刊\n周历\t周曆\n周周\t週週\n周四\t週四\n周回\t週迴\n周岁\t週歲\n周年\t週年\n周年庆\t週年慶\n周年纪念\t週年紀念\n周年视差\t週年視差\n周报\t週報\n周数\t週數\n周日\t週日\n周日版\t週日版\n周期\t週期\n周期函数\t週期函數\n周期彗星\t週期彗星\n周期律\t週期律\n周期性\t週期性\n周期数\t週期數\n周期系\t週期系\n周期表\t週期表\n周期解\t週期解\n周末\t週末\n周末愉快\t週末愉快\n周末效应\t週末效應\n周杰\t周杰\n周杰伦\t周杰倫\n周美里\t周美里\n周考\t週考\n周薪\t週薪\n周记\t週記\n周走秀\t週走秀\n周转\t週轉\n周采诗\t周采詩\n味千拉面\t味千拉麪\n呼扇\t呼搧\n命中注定\t命中註定\n命运注定\t命運註定\n咀咽\t咀嚥\n和克制\t和剋制\n和奸\t和姦\n和平里\t和平里\n和弦\t和絃\n和面\t和麪\n咏叹\t詠歎\n咒愿\t咒愿\n咕咕钟\t咕咕鐘\n咖喱面\t咖喱麪\n咣当\t咣噹\n咫尺万里\t咫尺萬里\n咫尺千里\t咫尺千里\n咬姜呷醋\t咬薑呷醋\n咭叮当\t咭叮噹\n咭当当\t咭噹噹\n咯当\t咯噹\n咸丰\t咸豐\n咸丰县\t咸豐縣\n咸丰草\t咸豐草\n咸五登三\t咸五登三\n咸亨\t咸亨\n咸亨酒店\t咸亨酒店\n咸信\t咸信\n咸兴\t咸興\n咸兴市\t咸興市\n咸卤\t鹹鹵\n咸和\t咸和\n咸宁\t咸寧\n咸宁地区\t咸寧地區\n咸宁市\t咸寧市\n咸安\t咸安\n咸安区\t咸安區\n咸宜\t咸宜\n咸池\t咸池\n咸菜干\t鹹菜乾\n咸认为\t咸認爲\n咸镜\t咸鏡\n咸镜北道\t咸鏡北道\n咸镜南道\t咸鏡南道\n咸镜道\t咸鏡道\n咸阳\t咸陽\n咸阳地区\t咸陽地區\n咸阳宫\t咸陽宮\n咸阳市\t咸陽市\n咸阳桥\t咸陽橋\n咸阳火\t咸陽火\n咽下\t嚥下\n咽不了\t嚥不了\n咽了\t嚥了\n咽住\t嚥住\n咽到\t嚥到\n咽唾\t嚥唾\n咽干\t咽乾\n咽气\t嚥氣\n咽着\t嚥着\n咽肌\t嚥肌\n咽苦吞甘\t嚥苦吞甘\n咽进\t嚥進\n哀吊\t哀弔\n哀戚\t哀慼\n哀挽\t哀輓\n品尝\t品嚐\n品尝会\t品嚐會\n品尝到\t品嚐到\n品汇\t品彙\n哄乱\t鬨亂\n哄伙\t鬨夥\n哄传\t鬨傳\n哄传一时\t鬨傳一時\n哄动\t鬨動\n哄动一时\t鬨動一時\n哄堂\t鬨堂\n哄堂大笑\t鬨堂大笑\n哄抢\t鬨搶\n哄然\t鬨然\n哄然大笑\t鬨然大笑\n哄笑\t鬨笑\n哄闹\t鬨鬧\n哈卡里\t哈卡里\n哈比亚里马纳\t哈比亞里馬納\n哈里\t哈里\n哈里伯顿\t哈里伯頓\n哈里发\t哈里發\n哈里发塔\t哈里發塔\n哈里发帝国\t哈里發帝國\n哈里尔\t哈里爾\n哈里斯\t哈里斯\n哈里斯堡\t哈里斯堡\n哈里札德\t哈里札德\n哈里森史密特\t哈里森史密特\n哈里路亚\t哈里路亞\n哈里逊\t哈里遜\n哈里逊福特\t哈里遜福特\n哈里里\t哈里里\n响叮当\t響叮噹\n响弦\t響絃\n响当当\t響噹噹\n响钟\t響鐘\n哗哗\t嘩嘩\n哗啦\t嘩啦\n哗地\t嘩地\n哗的\t嘩的\n哥里\t哥里\n哪一出\t哪一齣\n哪只\t哪隻\n哲里木\t哲里木\n哺喂\t哺餵\n唁吊\t唁弔\n唇干\t脣乾\n唇燥舌干\t脣燥舌乾\n唱念\t唱唸\n唾沫直咽\t唾沫直嚥\n唾面自干\t唾面自乾\n商历\t商曆\n啧啧称赞\t嘖嘖稱讚\n啧啧赞叹\t嘖嘖讚歎\n啮檗吞针\t齧蘗吞針\n啰啰苏苏\t囉囉囌囌\n啰苏\t囉囌\n啷当\t啷噹\n喀喇昆仑公路\t喀喇崑崙公路\n喀喇昆仑山\t喀喇崑崙山\n喀喇昆仑山脉\t喀喇崑崙山脈\n喀拉昆仑山\t喀拉崑崙山\n喂乳\t餵乳\n喂了\t餵了\n喂你\t餵你\n喂养\t餵養\n喂动物\t餵動物\n喂哺\t餵哺\n喂奶\t餵奶\n喂奶时\t餵奶時\n喂它\t餵它\n喂我\t餵我\n喂母乳\t餵母乳\n喂牛\t餵牛\n喂狗\t餵狗\n喂猪\t餵豬\n喂猫\t餵貓\n喂给\t餵給\n喂羊\t餵羊\n喂过\t餵過\n喂食\t餵食\n喂饭\t餵飯\n喂饱\t餵飽\n喂马\t餵馬\n喂驴\t餵驢\n喂鱼\t餵魚\n喂鸡\t餵雞\n喂鸭\t餵鴨\n喂鹅\t餵鵝\n善罢干休\t善罷干休\n善财难舍\t善財難捨\n喉头发干\t喉頭發乾\n喉干舌燥\t喉乾舌燥\n喘吁吁\t喘吁吁\n喜欢表\t喜歡錶\n喜欢钟\t喜歡鐘\n喜欢钟表\t喜歡鐘錶\n喝倒采\t喝倒采\n喝干\t喝乾\n喝采\t喝采\n喧哄\t喧鬨\n嗜欲\t嗜慾\n嗜血杆菌\t嗜血桿菌\n嗜酸乳干菌\t嗜酸乳干菌\n嗟吁\t嗟吁\n嗱喳面\t嗱喳麪\n嘀嗒的表\t嘀嗒的錶\n嘉柏隆里\t嘉柏隆里\n嘉谷\t嘉穀\n嘉里\t嘉里\n嘱托\t囑託\n嘴松\t嘴鬆\n噎饥\t噎饑\n噙齿戴发\t噙齒戴髮\n噜噜苏苏\t嚕嚕囌囌\n噜苏\t嚕囌\n噪动\t譟動\n噪诈\t譟詐\n噫吁戏\t噫吁戲\n嚚暗\t嚚闇\n嚼谷\t嚼穀\n囚系\t囚繫\n四体不勤五谷不分\t四體不勤五穀不分\n四凶\t四凶\n四出戏\t四齣戲\n四分历\t四分曆\n四分钟\t四分鐘\n四只\t四隻\n四周年\t四週年\n四大须生\t四大鬚生\n四库禁毁书丛刋\t四庫禁燬書叢刋\n四扎\t四紮\n四海升平\t四海昇平\n四海皆准\t四海皆准\n四点钟\t四點鐘\n四秒钟\t四秒鐘\n四舍五入\t四捨五入\n四舍六入\t四捨六入\n四里\t四里\n四面钟\t四面鐘\n回佣\t回佣\n回光返照\t迴光返照\n回冲\t回沖\n回匝\t迴匝\n回卷\t回捲\n回历\t回曆\n回向\t迴向\n回响\t迴響\n回回历\t回回曆\n回圈\t迴圈\n回声探测\t迴聲探測\n回复\t回覆\n回天\t迴天\n回娘家\t回孃家\n回带\t迴帶\n回廊\t迴廊\n回归\t迴歸\n回归年\t迴歸年\n回归潮\t迴歸潮\n回归热\t迴歸熱\n回归线\t迴歸線\n回形夹\t迴形夾\n回心\t迴心\n回护\t迴護\n回文\t迴文\n回文织锦\t迴文織錦\n回斡\t迴斡\n回旋\t迴旋\n回梦\t迴夢\n回流\t迴流\n回清倒影\t迴清倒影\n回游\t迴游\n回环\t迴環\n回环转折\t迴環轉折\n回盲瓣\t迴盲瓣\n回穴\t迴穴\n回纹针\t迴紋針\n回绕\t迴繞\n回翔\t迴翔\n回肠\t迴腸\n回肠九转\t迴腸九轉\n回肠伤气\t迴腸傷氣\n回肠寸断\t迴腸寸斷\n回肠荡气\t迴腸蕩氣\n回腕\t迴腕\n回荡\t迴盪\n回诵\t迴誦\n回路\t迴路\n回转\t迴轉\n回转仪\t迴轉儀\n回递性\t迴遞性\n回避\t迴避\n回避学习\t迴避學習\n回里\t回里\n回銮\t迴鑾\n回阳荡气\t迴陽蕩氣\n回雪\t迴雪\n回音\t迴音\n回风\t迴風\n回飙\t迴飆\n回魂仙梦\t迴魂仙夢\n因奸成孕\t因姦成孕\n因果关系\t因果關係\n团伙\t團伙\n团子\t糰子\n团粉\t糰粉\n困乏\t睏乏\n困倦\t睏倦\n困意\t睏意\n困觉\t睏覺\n国之桢干\t國之楨榦\n国历\t國曆\n国历年\t國曆年\n国梁\t國樑\n国科会晶片设计制作中心\t國科會晶片設計製作中心\n国际关系\t國際關係\n国际关系学院\t國際關係學院\n国际电影制片人协会联盟\t國際電影製片人協會聯盟\n图书巡回车\t圖書巡迴車\n图书餐饮复合式餐厅\t圖書餐飲複合式餐廳\n图书馆周\t圖書館週\n图昆线\t圖崑線\n图里亚夫\t圖里亞夫\n图里河\t圖里河\n圆形面包\t圓形麪包\n圆面饼\t圓麪餅\n圈扣\t圈釦\n圈梁\t圈樑\n土制\t土製\n土制品\t土製品\n土司面包\t土司麪包\n土壤冲蚀\t土壤沖蝕\n土谷祠\t土穀祠\n圣修伯里\t聖修伯里\n圣克里斯多福\t聖克里斯多福\n圣克里斯托巴\t聖克里斯托巴\n圣帕台风\t聖帕颱風\n圣帕强台\t聖帕強颱\n圣帕特里克\t聖帕特里克\n圣德克旭贝里\t聖德克旭貝里\n圣杯\t聖盃\n圣神降临周\t聖神降臨週\n圣迹\t聖蹟\n圣餐台\t聖餐檯\n在克制\t在剋制\n在坛子胡同\t在罈子胡同\n在念\t在唸\n在核\t在覈\n地一卷\t地一捲\n地下签赌\t地下簽賭\n地克制\t地剋制\n地志\t地誌\n地方志\t地方誌\n地无三里平\t地無三里平\n地缘关系\t地緣關係\n坏家伙\t壞傢伙\n坐台\t坐檯\n坐台子\t坐檯子\n坐台小姐\t坐檯小姐\n坐如钟\t坐如鐘\n坐标\t座標\n坐标系\t座標系\n坐萝卜\t坐蘿蔔\n坐钟\t坐鐘\n坐领干薪\t坐領乾薪\n坚致\t堅緻\n坛佳酿\t罈佳釀\n坛坛罐罐\t罈罈罐罐\n坛女儿红\t罈女兒紅\n坛好酒\t罈好酒\n坛子\t罈子\n坛烧刀子\t罈燒刀子\n坛白干\t罈白干\n坛美酒\t罈美酒\n坛老酒\t罈老酒\n坛陈年\t罈陳年\n坛騞\t罈騞\n坛高粱\t罈高粱\n坛𬴃\t罈騞\n坤表\t坤錶\n坨里\t坨里\n垂发\t垂髮\n垦丁杯\t墾丁盃\n埃及历\t埃及曆\n埃及艳后\t埃及豔后\n埃夫伯里\t埃夫伯里\n埃里温\t埃里溫\n埋头寻表\t埋頭尋錶\n埋头寻钟\t埋頭尋鐘\n埋头寻钟表\t埋頭尋鐘錶\n埋布\t埋佈\n埔里\t埔里\n埔里镇\t埔里鎮\n域名注册\t域名註冊\n域多利皇后\t域多利皇后\n埤塘里\t埤塘里\n培里克利斯\t培里克利斯\n培里克里斯\t培里克里斯\n基岩\t基岩\n基性岩石\t基性岩石\n基本词汇\t基本詞彙\n基里兰柯\t基里蘭柯\n基里巴斯共和国\t基里巴斯共和國\n堆案盈几\t堆案盈几\n塑胶制\t塑膠製\n塔什干\t塔什干\n塔什库尔干乡\t塔什庫爾干鄉\n塔什库尔干塔吉克自治县\t塔什庫爾干塔吉克自治縣\n塔什库尔干自治县\t塔什庫爾干自治縣\n塔克拉玛干\t塔克拉瑪干\n塔克拉玛干沙漠\t塔克拉瑪干沙漠\n塔克拉马干\t塔克拉馬干\n塔里契亚努\t塔里契亞努\n塔里木\t塔里木\n塔里木河\t塔里木河\n塔里木盆地\t塔里木盆地\n塔里班\t塔里班\n塔钟\t塔鐘\n塞耳盗钟\t塞耳盜鐘\n塞韦里诺\t塞韋里諾\n墓志\t墓誌\n墓志铭\t墓誌銘\n墟里\t墟里\n墨发\t墨髮\n墨斗\t墨斗\n墨斗鱼\t墨斗魚\n墨沈未干\t墨瀋未乾\n墨索里尼\t墨索里尼\n墨荡子\t墨盪子\n墨迹未干\t墨跡未乾\n壁志\t壁誌\n壁钟\t壁鐘\n壮面\t壯麪\n声如洪钟\t聲如洪鐘\n壹周刊\t壹週刊\n备御\t備禦\n备注\t備註\n备注栏\t備註欄\n复习\t複習\n复习考\t複習考\n复信\t覆信\n复元音\t複元音\n复共轭\t複共軛\n复写\t複寫\n复写纸\t複寫紙\n复决\t複決\n复决权\t複決權\n复函\t覆函\n复函数\t複函數\n复分数\t複分數\n复分析\t複分析\n复分解\t複分解\n复分解反应\t複分解反應\n复列\t複列\n复利\t複利\n复利法\t複利法\n复利率\t複利率\n复利计算\t複利計算\n复制\t複製\n复制下来\t複製下來\n复制出\t複製出\n复制品\t複製品\n复印\t複印\n复印品\t複印品\n复印机\t複印機\n复印纸\t複印紙\n复变函数\t複變函數\n复变函数论\t複變函數論\n复句\t複句\n复叶\t複葉\n复合\t複合\n复合企业\t複合企業\n复合传动\t複合傳動\n复合体\t複合體\n复合元音\t複合元音\n复合光\t複合光\n复合包装\t複合包裝\n复合句\t複合句\n复合命题\t複合命題\n复合国\t複合國\n复合型\t複合型\n复合增长\t複合增長\n复合字\t複合字\n复合年\t複合年\n复合式\t複合式\n复合性\t複合性\n复合技\t複合技\n复合摄影\t複合攝影\n复合机\t複合機\n复合材料\t複合材料\n复合板\t複合板\n复合架\t複合架\n复合样式\t複合樣式\n复合概念\t複合概念\n复合模\t複合模\n复合母音\t複合母音\n复合民族国家\t複合民族國家\n复合物\t複合物\n复合管\t複合管\n复合肥料\t複合肥料\n复合膜\t複合膜\n复合药\t複合藥\n复合蛋白质\t複合蛋白質\n复合装甲\t複合裝甲\n复合词\t複合詞\n复合词素词\t複合詞素詞\n复合量词\t複合量詞\n复合金属\t複合金屬\n复合韵母\t複合韻母\n复名\t複名\n复名数\t複名數\n复名词\t複名詞\n复呈\t覆呈\n复命\t覆命\n复品牌\t複品牌\n复基因\t複基因\n复墓\t覆墓\n复壁\t複壁\n复复\t複復\n复姓\t複姓\n复婚制\t複婚制\n复子明辟\t復子明辟\n复字键\t複字鍵\n复审\t複審\n复对数\t複對數\n复帐\t覆帳\n复平面\t複平面\n复式\t複式\n复式关税\t複式關稅\n复式教学\t複式教學\n复式路面\t複式路面\n复循环发电\t複循環發電\n复意\t複意\n复拍子\t複拍子\n复按\t覆按\n复数\t複數\n复数域\t複數域\n复数平面\t複數平面\n复数形\t複數形\n复数形式\t複數形式\n复文\t覆文\n复方\t複方\n复本\t複本\n复本位制度\t複本位制度\n复杂\t複雜\n复杂劳动\t複雜勞動\n复杂化\t複雜化\n复杂度\t複雜度\n复杂度理论\t複雜度理論\n复杂性\t複雜性\n复杂生产\t複雜生產\n复杂系统\t複雜系統\n复果\t複果\n复查\t複查\n复校\t覆校\n复核\t複覈\n复检\t複檢\n复殖吸虫\t複殖吸蟲\n复殖目\t複殖目\n复比\t複比\n复比例\t複比例\n复流形\t複流形\n复测\t複測\n复用\t複用\n复电\t覆電\n复盐\t複鹽\n复目\t複目\n复相关\t複相關\n复眼\t複眼\n复种\t複種\n复种指数\t複種指數\n复称\t複稱\n复穴\t複穴\n复线\t複線\n复综语\t複綜語\n复肥\t複肥\n复色\t複色\n复色光\t複色光\n复苏\t復甦\n复苏期\t復甦期\n复苏术\t復甦術\n复襦\t複襦\n复视\t複視\n复训\t複訓\n复议\t複議\n复评\t複評\n复诊\t複診\n复词\t複詞\n复试\t複試\n复诵\t複誦\n复赛\t複賽\n复辅音\t複輔音\n复辟\t復辟\n复辟事件\t復辟事件\n复述\t複述\n复选\t複選\n复选题\t複選題\n复道\t複道\n复钱\t複錢\n复阁\t複閣\n复阅\t複閱\n复音\t複音\n复音形\t複音形\n复音词\t複音詞\n复韵\t複韻\n复韵母\t複韻母\n复频\t複頻\n复验\t複驗\n夏于乔\t夏于喬\n夏历\t夏曆\n夏后氏\t夏后氏\n夏川里美\t夏川里美\n夏里夫\t夏里夫\n外交关系\t外交關係\n外交关系理事会\t外交關係理事會\n外制\t外製\n外强中干\t外強中乾\n外御其侮\t外禦其侮\n外松内紧\t外鬆內緊\n外欲\t外慾\n外烟\t外菸\n多义关系\t多義關係\n多凶少吉\t多凶少吉\n多只\t多隻\n多姿多采\t多姿多采\n多媒体杂志\t多媒體雜誌\n多少只\t多少隻\n多层复\t多層複\n多层复迭\t多層複迭\n多采\t多采\n多采多姿\t多采多姿\n多里\t多里\n夜光表\t夜光錶\n夜半钟声\t夜半鐘聲\n夜色迷蒙\t夜色迷濛\n够克制\t夠剋制\n大一统志\t大一統誌\n大不里士\t大不里士\n大丑\t大丑\n大专杯\t大專盃\n大乌苏里岛\t大烏蘇里島\n大余\t大余\n大余县\t大余縣\n大便干燥\t大便乾燥\n大元大一统志\t大元大一統誌\n大冲\t大沖\n大凶\t大凶\n大利面\t大利麪\n大制作\t大製作\n大动干戈\t大動干戈\n大单于\t大單于\n大卤面\t大滷麪\n大历\t大曆\n大历十才子\t大曆十才子\n大叔于田\t大叔于田\n大只\t大隻\n大周后\t大周后\n大咸\t大咸\n大型钟\t大型鐘\n大型钟表\t大型鐘錶\n大型钟面\t大型鐘面\n大天后宫\t大天后宮\n大折儿\t大摺兒\n大排面\t大排麪\n大放异采\t大放異采\n大斗\t大斗\n大斗小秤\t大斗小秤\n大明历\t大明曆\n大曲\t大麴\n大曲酒\t大麴酒\n大有径庭\t大有逕庭\n大本钟\t大本鐘\n大本钟敲\t大本鐘敲\n大榄涌\t大欖涌\n大武仑\t大武崙\n大水冲倒龙王庙\t大水沖倒龍王廟\n大水冲倒龙王殿\t大水沖倒龍王殿\n大水冲溺\t大水沖溺\n大涌\t大涌\n大溪豆干\t大溪豆干\n大班面包西饼\t大班麪包西餅\n大理岩\t大理岩\n大病初愈\t大病初癒\n大白日里借不出个干灯盏来\t大白日裏借不出個乾燈盞來\n大目干连\t大目乾連\n大目干连冥间救母变文\t大目乾連冥間救母變文\n大相径庭\t大相逕庭\n大笨钟\t大笨鐘\n大笨钟敲\t大笨鐘敲\n大老板\t大老闆\n大肠杆菌\t大腸桿菌\n大肠杆菌群\t大腸桿菌羣\n大肠面\t大腸麪\n大胡子\t大鬍子\n大蜡\t大蜡\n大衍历\t大衍曆\n大表惊叹\t大表驚歎\n大言非夸\t大言非夸\n大赞\t大讚\n大辟\t大辟\n大采\t大采\n大里\t大里\n大里市\t大里市\n大里溪\t大里溪\n大金发苔\t大金髮薹\n大鉴\t大鑒\n大钟\t大鐘\n大麻里\t大麻里\n大麻里乡\t大麻里鄉\n天下杂志\t天下雜誌\n天克地冲\t天剋地衝\n天历\t天曆\n天台\t天台\n天台县\t天台縣\n天台女\t天台女\n天台宗\t天台宗\n天台山\t天台山\n天后\t天后\n天后站\t天后站\n天后级\t天后級\n天干\t天干\n天干地支\t天干地支\n天干物燥\t天乾物燥\n天心岩\t天心岩\n天文学钟\t天文學鐘\n天文钟\t天文鐘\n天无三日晴地无三里平\t天無三日晴地無三里平\n天要下雨娘要嫁人\t天要下雨孃要嫁人\n天要落雨娘要嫁人\t天要落雨孃要嫁人\n太冲\t太沖\n太初历\t太初曆\n太古里\t太古里\n太后\t太后\n太干\t太乾\n太松\t太鬆\n太溪\t太谿\n太溪穴\t太谿穴\n太皇太后\t太皇太后\n太阳升\t太陽昇\n太阳历\t太陽曆\n太阳照在桑干河上\t太陽照在桑乾河上\n太阳黑子周\t太陽黑子週\n太阴历\t太陰曆\n太麻里\t太麻里\n太麻里乡\t太麻里鄉\n太麻里溪\t太麻里溪\n夫力\t伕力\n夫妇关系\t夫婦關係\n夫妻关系\t夫妻關係\n夫役\t伕役\n失之毫厘差之千里\t失之毫釐差之千里\n失之毫厘差以千里\t失之毫釐差以千里\n失之毫厘谬以千里\t失之毫釐謬以千里\n头发\t頭髮\n头发上指\t頭髮上指\n头发壳子\t頭髮殼子\n头发胡子一把抓\t頭髮鬍子一把抓\n头巾吊在水里\t頭巾弔在水裏\n头花发\t頭花髮\n夸丽\t夸麗\n夸人\t夸人\n夸克\t夸克\n夸克星\t夸克星\n夸姣\t夸姣\n夸容\t夸容\n夸尔\t夸爾\n夸毗\t夸毗\n夸父\t夸父\n夸父逐日\t夸父逐日\n夸特\t夸特\n夸脱\t夸脫\n夸诞\t夸誕\n夸诞不经\t夸誕不經\n夸赞\t誇讚\n夹心饼干\t夾心餅乾\n夹注\t夾註\n夺杯\t奪盃\n奇台\t奇台\n奇异夸克\t奇異夸克\n奇异果干\t奇異果乾\n奇杯\t奇盃\n奇迹\t奇蹟\n奇里安\t奇里安\n奉公克己\t奉公剋己\n奉干\t奉干\n奏折\t奏摺\n奖杯\t獎盃\n奥布里\t奧布里\n奥里斯\t奧里斯\n奥里萨\t奧里薩\n奥里萨省\t奧里薩省\n奥里萨邦\t奧里薩邦\n奥里里亚\t奧里里亞\n女丑\t女丑\n女丑剧场\t女丑劇場\n女生外向\t女生外嚮\n奴儿干\t奴兒干\n奴儿干都司\t奴兒干都司\n奶制品\t奶製品\n奶卷\t奶捲\n奶娘\t奶孃\n奸伏\t姦伏\n奸凶\t姦凶\n奸夫\t姦夫\n奸夫淫妇\t姦夫淫婦\n奸妇\t姦婦\n奸尸\t姦屍\n奸情\t姦情\n奸杀\t姦殺\n奸污\t姦污\n奸淫\t姦淫\n奸淫掳掠\t姦淫擄掠\n奸盗邪淫\t姦盜邪淫\n奸通\t姦通\n奸非\t姦非\n她克制\t她剋制\n好一出\t好一齣\n好不容易才\t好不容易纔\n好凶\t好凶\n好困\t好睏\n好困吧\t好睏吧\n好困啊\t好睏啊\n好家伙\t好傢伙\n好干\t好乾\n好斗笠\t好斗笠\n好斗篷\t好斗篷\n好斗胆\t好斗膽\n好采头\t好采頭\n如坐针毡\t如坐鍼氈\n如堕五里雾中\t如墮五里霧中\n如干\t如干\n如日东升\t如日東昇\n如法泡制\t如法泡製\n如法炮制\t如法炮製\n妆发\t妝髮\n妇人生须\t婦人生鬚\n妇女杂志\t婦女雜誌\n妖后\t妖后\n妖气冲天\t妖氣沖天\n姓岳\t姓岳\n委托\t委託\n委托书\t委託書\n委托人\t委託人\n姚升志\t姚昇志\n姚采颖\t姚采穎\n姜丝\t薑絲\n姜切片\t薑切片\n姜就是老\t薑就是老\n姜愈老愈辣\t薑愈老愈辣\n姜文杰\t姜文杰\n姜是老\t薑是老\n姜是老的辣\t薑是老的辣\n姜末\t薑末\n姜桂\t薑桂\n姜桂老辣\t薑桂老辣\n姜母\t薑母\n姜母鸭\t薑母鴨\n姜汁\t薑汁\n姜汤\t薑湯\n姜片\t薑片\n姜糖\t薑糖\n姜老辣\t薑老辣\n姜茶\t薑茶\n姜蓉\t薑蓉\n姜越老越辣\t薑越老越辣\n姜辣\t薑辣\n姜辣素\t薑辣素\n姜还是老\t薑還是老\n姜还是老的辣\t薑還是老的辣\n姜郁美\t姜郁美\n姜饼\t薑餅\n姜麻园\t薑麻園\n姜黄\t薑黃\n姜黄素\t薑黃素\n姜黄色\t薑黃色\n姿采\t姿采\n威布里吉\t威布里吉\n威里斯\t威里斯\n娘亲\t孃親\n娘儿\t孃兒\n娘儿俩\t孃兒倆\n娘姨\t孃姨\n娘家\t孃家\n娘家姓\t孃家姓\n娘的\t孃的\n娘老子\t孃老子\n娘胎\t孃胎\n娘舅\t孃舅\n婶娘\t嬸孃\n媒人口无量斗\t媒人口無量斗\n媒体狂并潮\t媒體狂併潮\n嬖幸\t嬖倖\n子之丰兮\t子之丰兮\n子云\t子云\n子姜炒鸡\t子薑炒雞\n子曰诗云\t子曰詩云\n子母钟\t子母鐘\n子游\t子游\n孔章望斗\t孔章望斗\n字汇\t字彙\n字汇判断任务\t字彙判斷任務\n存托凭证\t存託憑證\n存折\t存摺\n孙杰\t孫杰\n季咸\t季咸\n季节洄游\t季節洄游\n孤寡不谷\t孤寡不穀\n孤形只影\t孤形隻影\n孤征\t孤征\n孤身只影\t孤身隻影\n宁中则\t甯中則\n宁庄子\t甯莊子\n宁悼子\t甯悼子\n宁惠子\t甯惠子\n宁成子\t甯成子\n宁戚\t甯戚\n宁撞金钟一下不打破鼓三千\t寧撞金鐘一下不打破鼓三千\n宁斧成\t甯斧成\n宁武子\t甯武子\n宁浩\t甯浩\n宁猛力\t甯猛力\n宁调元\t甯調元\n宁越\t甯越\n宇宙志\t宇宙誌\n守御\t守禦\n安全系数\t安全係數\n安吉里科\t安吉里科\n安山岩\t安山岩\n安岳\t安岳\n安沈铁路\t安瀋鐵路\n安营扎寨\t安營紮寨\n安萨里\t安薩里\n宋干节\t宋干節\n完全愈复\t完全癒復\n宗周钟\t宗周鐘\n官准\t官准\n官历\t官曆\n官地为采\t官地爲寀\n定制\t定製\n定制化\t定製化\n定时号志\t定時號誌\n定时钟\t定時鐘\n宛若游龙\t宛若游龍\n宜云\t宜云\n宝历\t寶曆\n宝志\t寶誌\n审核\t審覈\n客制化\t客製化\n客制化服务\t客製化服務\n宣传周\t宣傳週\n宣布\t宣佈\n宣布无效\t宣佈無效\n宣布独立\t宣佈獨立\n宣布破产\t宣佈破產\n宫里蓝\t宮里藍\n宵征\t宵征\n家什\t傢什\n家伙\t傢伙\n家伙座儿\t傢伙座兒\n家俱\t傢俱\n家具\t傢俱\n家具行\t傢俱行\n家无斗储\t家無斗儲\n家私\t傢俬\n宽宽松松\t寬寬鬆鬆\n宽松\t寬鬆\n宽面\t寬麪\n宾主关系\t賓主關係\n宾语关系从句\t賓語關係從句\n寄托\t寄託\n寄托在\t寄託在\n寄托着\t寄託着\n密切关系\t密切關係\n密布\t密佈\n密折\t密摺\n密致\t密緻\n密苏里\t密蘇里\n密苏里州\t密蘇里州\n密苏里河\t密蘇里河\n寇不可玩\t寇不可翫\n富于想象\t富於想像\n富里\t富里\n富里乡\t富里鄉\n寒栗\t寒慄\n寒波荡漾\t寒波盪漾\n寓禁于征\t寓禁於征\n察干\t察干\n察核\t察覈\n寡欲\t寡慾\n寮采\t寮寀\n寸发千金\t寸髮千金\n对冲\t對沖\n对冲基金\t對沖基金\n对准表\t對準錶\n对准钟\t對準鐘\n对准钟表\t對準鐘錶\n对外关系\t對外關係\n对折\t對摺\n对等关系\t對等關係\n对表\t對錶\n寺钟\t寺鐘\n寿面\t壽麪\n封侯万里\t封侯萬里\n封后\t封后\n封妻荫子\t封妻廕子\n射干\t射干\n射雕\t射鵰\n射雕手\t射鵰手\n射雕英雄传\t射鵰英雄傳\n射频干扰\t射頻干擾\n将占卜\t將占卜\n小丑\t小丑\n小丑跳梁\t小醜跳樑\n小丑鱼\t小丑魚\n小云\t小云\n小价\t小价\n小余\t小余\n小便斗\t小便斗\n小几\t小几\n小划子\t小划子\n小只\t小隻\n小叮当\t小叮噹\n小型钟\t小型鐘\n小型钟表\t小型鐘錶\n小型钟面\t小型鐘面\n小天后\t小天后\n小家伙\t小傢伙\n小尝\t小嚐\n小杰\t小杰\n小松糕\t小鬆糕\n小泽征尔\t小澤征爾\n小米面\t小米麪\n小红萝卜\t小紅蘿蔔\n小老板\t小老闆\n小胡子\t小鬍子\n小范\t小范\n小萝卜头\t小蘿蔔頭\n小钟\t小鐘\n小面包\t小麪包\n小须鲸\t小鬚鯨\n少私寡欲\t少私寡慾\n尔本周\t爾本週\n尖管面\t尖管麪\n尘卷风\t塵捲風\n尚面\t尚麪\n尝个\t嚐個\n尝了\t嚐了\n尝了一口\t嚐了一口\n尝了尝\t嚐了嚐\n尝了鲜\t嚐了鮮\n尝出\t嚐出\n尝到\t嚐到\n尝尝\t嚐嚐\n尝尝鲜\t嚐嚐鮮\n尝尽\t嚐盡\n尝来尝去\t嚐來嚐去\n尝点\t嚐點\n尝起来\t嚐起來\n尝遍\t嚐遍\n尝鲜\t嚐鮮\n尤克里斯\t尤克里斯\n尤克里里琴\t尤克里里琴\n尤基里斯\t尤基里斯\n尤里\t尤里\n尤里斯伊文思\t尤里斯伊文思\n尤里比底斯\t尤里比底斯\n尤里西斯\t尤里西斯\n尨眉皓发\t尨眉皓髮\n就克制\t就剋制\n就吃干\t就喫乾\n就干一杯\t就乾一杯\n就干净\t就乾淨\n就念\t就唸\n就汤下面\t就湯下麪\n就系\t就係\n尸位\t尸位\n尸位素餐\t尸位素餐\n尸利\t尸利\n尸居余气\t尸居餘氣\n尸居龙见\t尸居龍見\n尸祝\t尸祝\n尸祝代庖\t尸祝代庖\n尸禄\t尸祿\n尸禄素餐\t尸祿素餐\n尸臣\t尸臣\n尸解\t尸解\n尸谏\t尸諫\n尸陀林\t尸陀林\n尸饔\t尸饔\n尸鸠\t尸鳩\n尺寸千里\t尺寸千里\n尺寸斗粟\t尺寸斗粟\n尺布斗粟\t尺布斗粟\n尺幅千里\t尺幅千里\n尺板斗食\t尺板斗食\n尼采\t尼采\n尽先\t儘先\n尽可\t儘可\n尽可能\t儘可能\n尽够\t儘夠\n尽子\t儘子\n尽尽\t儘儘\n尽底下\t儘底下\n尽快\t儘快\n尽快地\t儘快地\n尽性\t儘性\n尽想\t儘想\n尽意随心\t儘意隨心\n尽教\t儘教\n尽早\t儘早\n尽有可能\t儘有可能\n尽沾恩露\t盡霑恩露\n尽管\t儘管\n尽管如此\t儘管如此\n尽自\t儘自\n尽落尾\t儘落尾\n尽让\t儘讓\n尽速\t儘速\n尽量\t儘量\n尾注\t尾註\n尿斗\t尿斗\n局促\t侷促\n局限\t侷限\n局限于\t侷限於\n居里\t居里\n居里夫人\t居里夫人\n屈万里\t屈萬里\n屋梁\t屋樑\n展采\t展采\n属托\t屬託\n屡仆屡起\t屢仆屢起\n屯扎\t屯紮\n屯里镇\t屯里鎮\n山中无历日\t山中無曆日\n山仔后\t山仔后\n山城小面\t山城小麪\n山岩\t山岩\n山崎面饱\t山崎麪飽\n山崩钟应\t山崩鐘應\n山斗\t山斗\n山梁\t山樑\n山楂干\t山楂乾\n山羊胡\t山羊鬍\n山羊胡子\t山羊鬍子\n山羊须\t山羊鬚\n山里站\t山里站\n山重水复\t山重水複\n岁凶\t歲凶\n岁聿云暮\t歲聿云暮\n岩仓使节团\t岩倉使節團\n岩圈\t岩圈\n岩土\t岩土\n岩土体\t岩土體\n岩基\t岩基\n岩层\t岩層\n岩屑\t岩屑\n岩床\t岩牀\n岩心\t岩心\n岩手县\t岩手縣\n岩村明宪\t岩村明憲\n岩棉\t岩棉\n岩浆\t岩漿\n岩浆岩\t岩漿岩\n岩浆流\t岩漿流\n岩溶\t岩溶\n岩濑健\t岩瀨健\n岩盐\t岩鹽\n岩石\t岩石\n岩石圈\t岩石圈\n岩石学\t岩石學\n岩石层\t岩石層\n岩石循环\t岩石循環\n岩礁\t岩礁\n岩羊\t岩羊\n岩脉\t岩脈\n岳丈\t岳丈\n岳云\t岳雲\n岳坟\t岳墳\n岳家\t岳家\n岳家军\t岳家軍\n岳庙\t岳廟\n岳母\t岳母\n岳氏\t岳氏\n岳父\t岳父\n岳珂\t岳珂\n岳阳\t岳陽\n岳阳县\t岳陽縣\n岳阳楼\t岳陽樓\n岳阳楼记\t岳陽樓記\n岳飞\t岳飛\n峇峇娘惹\t峇峇孃惹\n峇里岛\t峇里島\n峰回\t峯迴\n峰回路转\t峯迴路轉\n崔敬邕墓志铭\t崔敬邕墓誌銘\n崖广\t崖广\n川党参\t川黨蔘\n川后\t川后\n川谷\t川穀\n州里\t州里\n巡回\t巡迴\n巡回公演\t巡迴公演\n巡回剧团\t巡迴劇團\n巡回医疗\t巡迴醫療\n巡回图书馆\t巡迴圖書館\n巡回大使\t巡迴大使\n巡回学校\t巡迴學校\n巡回审判\t巡迴審判\n巡回展\t巡迴展\n巡回检查\t巡迴檢查\n巡回演出\t巡迴演出\n巡回演唱\t巡迴演唱\n巡回祭\t巡迴祭\n巡回赛\t巡迴賽\n巡回车\t巡迴車\n工厂布置\t工廠佈置\n工致\t工緻\n左光斗\t左光斗\n左右采之\t左右采之\n左邻右里\t左鄰右里\n左里\t左里\n左里克\t左里克\n巧历\t巧曆\n巨万\t鉅萬\n巨业\t鉅業\n巨亏\t鉅虧\n巨作\t鉅作\n巨债\t鉅債\n巨公\t鉅公\n巨制\t鉅製\n巨变\t鉅變\n巨商\t鉅商\n巨奖\t鉅獎\n巨奸\t鉅奸\n巨子\t鉅子\n巨富\t鉅富\n巨款\t鉅款\n巨献\t鉅獻\n巨祥\t鉅祥\n巨细\t鉅細\n巨舰\t鉅艦\n巨著\t鉅著\n巨贪\t鉅貪\n巨野\t鉅野\n巨额\t鉅額\n巨鹿\t鉅鹿\n巨黍\t鉅黍\n巫咸\t巫咸\n差之千里\t差之千里\n己丑\t己丑\n已占卜\t已占卜\n已占算\t已占算\n已系\t已係\n巴人下里\t巴人下里\n巴厘岛\t巴厘島\n巴尔贝里尼宫殿\t巴爾貝里尼宮殿\n巴斗\t巴斗\n巴氏杆菌\t巴氏桿菌\n巴游\t巴游\n巴里\t巴里\n巴里坤\t巴里坤\n巴里坤县\t巴里坤縣\n巴里坤哈萨克自治县\t巴里坤哈薩克自治縣\n巴里坤草原\t巴里坤草原\n巴里岛\t巴里島\n巴里库廷火山\t巴里庫廷火山\n巴里斯\t巴里斯\n巴马干酪\t巴馬乾酪\n巷仔见面馆\t巷仔見麪館\n巾帼须眉\t巾幗鬚眉\n市长杯\t市長盃\n布一个\t佈一個\n布下\t佈下\n布于\t佈於\n布会\t佈會\n布划\t佈劃\n布列\t佈列\n布势\t佈勢\n布告\t佈告\n布告栏\t佈告欄\n布告牌\t佈告牌\n布哨\t佈哨\n布囊其口\t佈囊其口\n布复\t布覆\n布局\t佈局\n布岗\t佈崗\n布干维尔\t布干維爾\n布干维尔岛\t布干維爾島\n布德\t佈德\n布慈\t佈慈\n布扣\t佈扣\n布摆\t佈擺\n布政\t佈政\n布教\t佈教\n布散\t佈散\n布施\t佈施\n布景\t佈景\n布氏杆菌\t布氏桿菌\n布氏杆菌病\t布氏桿菌病\n布满\t佈滿\n布疑阵\t佈疑陣\n布线\t佈線\n布网\t佈網\n布置\t佈置\n布署\t佈署\n布菜\t佈菜\n布让\t佈讓\n布设\t佈設\n布谷\t布穀\n布谷鸟\t布穀鳥\n布谷鸟钟\t布穀鳥鐘\n布道\t佈道\n布道大会\t佈道大會\n布道所\t佈道所\n布里\t布里\n布里亚族\t布里亞族\n布里兹涅夫\t布里茲涅夫\n布里坦尼\t布里坦尼\n布里奇顿\t布里奇頓\n布里姬沃特\t布里姬沃特\n布里斯\t布里斯\n布里斯托\t布里斯托\n布里斯托尔海峡\t布里斯托爾海峽\n布里斯本\t布里斯本\n布里斯本市\t布里斯本市\n布里斯本河\t布里斯本河\n布里斯班\t布里斯班\n布里迪雅\t布里迪雅\n布里迪雅通\t布里迪雅通\n布防\t佈防\n布阵\t佈陣\n布阵安营\t佈陣安營\n布雪\t佈雪\n布雷\t佈雷\n布雷封锁\t佈雷封鎖\n布雷的\t佈雷的\n布雷舰\t佈雷艦\n布雷艇\t佈雷艇\n布雷速度\t佈雷速度\n布雷队\t佈雷隊\n师云而云\t師云而云\n师娘\t師孃\n师生杯\t師生盃\n希伯来历\t希伯來曆\n希拉里\t希拉里\n希拉里克林顿\t希拉里克林頓\n希斯仑\t希斯崙\n帕特里克\t帕特里克\n帕特里夏\t帕特里夏\n帕索里尼\t帕索里尼\n帝后\t帝后\n带凶\t帶凶\n带发修行\t帶髮修行\n席卷\t席捲\n席卷一空\t席捲一空\n席卷亚洲\t席捲亞洲\n席卷天下\t席捲天下\n席卷而来\t席捲而來\n席卷而逃\t席捲而逃\n席志成\t席誌成\n席棚\t蓆棚\n常态分布\t常態分佈\n干一坛\t乾一罈\n干一杯\t乾一杯\n干一碗\t乾一碗\n干不干净\t乾不乾淨\n干不干杯\t乾不乾杯\n干与\t干與\n干丝\t乾絲\n干两杯\t乾兩杯\n干乔\t乾喬\n干了杯\t乾了杯\n干了这一杯\t乾了這一杯\n干了这一瓶\t乾了這一瓶\n干了这杯\t乾了這杯\n干了这碗\t乾了這碗\n干云蔽日\t干雲蔽日\n干井\t乾井\n干产\t乾產\n干亲\t乾親\n干休\t干休\n干伸舌\t乾伸舌\n干你娘\t幹你孃\n干儿\t乾兒\n干儿子\t乾兒子\n干冒烟\t乾冒煙\n干冰\t乾冰\n干冷\t乾冷\n干净\t乾淨\n干净俐落\t乾淨俐落\n干凉\t乾涼\n干几手\t乾幾手\n干几杯\t乾幾杯\n干几碗\t乾幾碗\n干凯文\t干凱文\n干刍\t乾芻\n干制\t乾製\n干刻版\t乾刻版\n干剥剥\t乾剝剝\n干劲冲天\t幹勁沖天\n干卦\t乾卦\n干卿何事\t干卿何事\n干卿底事\t干卿底事\n干又热\t乾又熱\n干台\t乾颱\n干号\t乾號\n干吊着下巴\t乾吊着下巴\n干呕\t乾嘔\n干和\t乾和\n干咳\t乾咳\n干咽\t乾嚥\n干咽唾\t乾嚥唾\n干哑\t乾啞\n干哕\t乾噦\n干哥\t乾哥\n干哥哥\t乾哥哥\n干哭\t乾哭\n干唱\t乾唱\n干啤\t乾啤\n干啼\t乾啼\n干啼湿哭\t乾啼溼哭\n干嚎\t乾嚎\n干回付\t乾回付\n干图\t乾圖\n干圆洁净\t乾圓潔淨\n干土\t乾土\n干地\t乾地\n干坐\t乾坐\n干坐着\t乾坐着\n干坛子\t乾罈子\n干坞\t乾塢\n干城\t干城\n干堂婶\t乾堂嬸\n干塘\t乾塘\n干女\t乾女\n干女儿\t乾女兒\n干女婿\t乾女婿\n干奴才\t乾奴才\n干妈\t乾媽\n干妹\t乾妹\n干妹妹\t乾妹妹\n干姊\t乾姊\n干姊姊\t乾姊姊\n干姐\t乾姐\n干姜\t乾薑\n干姬松茸\t乾姬松茸\n干娘\t乾孃\n干子\t乾子\n干季\t乾季\n干宅\t乾宅\n干将\t干將\n干将莫邪\t干將莫邪\n干尸\t乾屍\n干尽一坛\t乾盡一罈\n干尽一壶\t乾盡一壺\n干尽一杯\t乾盡一杯\n干尽一碗\t乾盡一碗\n干屎橛\t乾屎橛\n干巴\t乾巴\n干巴巴\t乾巴巴\n干巴巴的\t乾巴巴的\n干布\t乾布\n干干\t乾乾\n干干儿的\t乾乾兒的\n干干净净\t乾乾淨淨\n干干巴巴\t乾乾巴巴\n干干爽爽\t乾乾爽爽\n干干瘦瘦\t乾乾瘦瘦\n干干的\t乾乾的\n干干脆脆\t乾乾脆脆\n干式\t乾式\n干弟\t乾弟\n干弟弟\t乾弟弟\n干得一杯\t乾得一杯\n干得三杯\t乾得三杯\n干得两杯\t乾得兩杯\n干得很\t乾得很\n干急\t乾急\n干性\t乾性\n干性油\t乾性油\n干性皮肤\t乾性皮膚\n干戈\t干戈\n干戈扰攘\t干戈擾攘\n干戚\t干鏚\n干扁豆角\t干扁豆角\n干手净脚\t乾手淨腳\n干打垒\t乾打壘\n干打雷\t乾打雷\n干扰\t干擾\n干扰到\t干擾到\n干扰力\t干擾力\n干扰素\t干擾素\n干折\t乾折\n干拌\t乾拌\n干拌面\t乾拌麪\n干挠\t干撓\n干捞\t乾撈\n干捞面\t乾撈麪\n干掉一杯\t乾掉一杯\n干掉一瓶\t乾掉一瓶\n干掉一碗\t乾掉一碗\n干掉这杯\t乾掉這杯\n干掉这碗\t乾掉這碗\n干掉那杯\t乾掉那杯\n干掉那碗\t乾掉那碗\n干撂台\t乾撂臺\n干撇下\t乾撇下\n干擦\t乾擦\n干支\t干支\n干支剌\t乾支剌\n干支支\t乾支支\n干支沟\t干支溝\n干政\t干政\n干数杯\t乾數杯\n干料\t乾料\n干断\t乾斷\n干旦\t乾旦\n干旱\t乾旱\n干旱地区\t乾旱地區\n干时\t干時\n干暖\t乾暖\n干曜\t乾曜\n干材\t乾材\n干村沙\t乾村沙\n干杯\t乾杯\n干果\t乾果\n干枝\t乾枝\n干枯\t乾枯\n干柴\t乾柴\n干柴烈火\t乾柴烈火\n干梅\t乾梅\n干梅子\t乾梅子\n干此坛\t乾此罈\n干此杯\t乾此杯\n干死\t乾死\n干毛巾\t乾毛巾\n干池\t乾池\n干沟\t乾溝\n干没\t乾沒\n干洗\t乾洗\n干洗店\t乾洗店\n干涉\t干涉\n干涉仪\t干涉儀\n干涉现象\t干涉現象\n干涩\t乾澀\n干涸\t乾涸\n干渴\t乾渴\n干湿\t乾溼\n干湿发\t乾溼髮\n干溪\t乾溪\n干滩\t乾灘\n干漆\t乾漆\n干灯盏\t乾燈盞\n干炒\t乾炒\n干点\t乾點\n干烧\t乾燒\n干热\t乾熱\n干焦\t乾焦\n干煸\t乾煸\n干熬\t乾熬\n干燥\t乾燥\n干燥剂\t乾燥劑\n干燥器\t乾燥器\n干燥机\t乾燥機\n干燥箱\t乾燥箱\n干爸\t乾爸\n干爸爸\t乾爸爸\n干爹\t乾爹\n干爽\t乾爽\n干片\t乾片\n干犯\t干犯\n干球温度\t乾球溫度\n干生受\t乾生受\n干生子\t乾生子\n干生气\t乾生氣\n干田\t乾田\n干电\t乾電\n干电池\t乾電池\n干疥\t乾疥\n干瘦\t乾瘦\n干瘪\t乾癟\n干瘪瘪\t乾癟癟\n干瘾\t乾癮\n干癣\t乾癬\n干癣性\t乾癬性\n干白\t乾白\n干白儿\t乾白兒\n干的\t乾的\n干眼\t乾眼\n干眼病\t乾眼病\n干眼症\t乾眼症\n干着急\t乾着急\n干瞪眼\t乾瞪眼\n干硬\t乾硬\n干碍\t干礙\n干礼\t乾禮\n干稿\t乾稿\n干站\t乾站\n干站着\t乾站着\n干笑\t乾笑\n干等\t乾等\n干篾片\t乾篾片\n干粉\t乾粉\n干粮\t乾糧\n干粮袋\t乾糧袋\n干糇\t乾餱\n干系\t干係\n干红\t乾紅\n干纲\t乾綱\n干纲不振\t乾綱不振\n干结\t乾結\n干绷\t乾繃\n干绷儿\t乾繃兒\n干群关系\t幹羣關係\n干耗\t乾耗\n干肉\t乾肉\n干肉片\t乾肉片\n干股\t乾股\n干肥\t乾肥\n干脆\t乾脆\n干脆利落\t乾脆利落\n干花\t乾花\n干苔\t乾薹\n干茨腊\t乾茨臘\n干茶钱\t乾茶錢\n干草\t乾草\n干草叉\t乾草叉\n干草堆\t乾草堆\n干草机\t乾草機\n干草粉\t乾草粉\n干菜\t乾菜\n干落\t乾落\n干薪\t乾薪\n干虔\t乾虔\n干血浆\t乾血漿\n干衣\t乾衣\n干衣机\t乾衣機\n干裂\t乾裂\n干诺道\t干諾道\n干诺道中\t干諾道中\n干诺道西\t干諾道西\n干谒\t干謁\n干象\t乾象\n干贝\t乾貝\n干货\t乾貨\n干躁\t乾躁\n干过一杯\t乾過一杯\n干过杯\t乾過杯\n干过瘾\t乾過癮\n干这一杯\t乾這一杯\n干这杯\t乾這杯\n干连\t干連\n干透\t乾透\n干造\t乾造\n干逼\t乾逼\n干邑\t干邑\n干那一杯\t乾那一杯\n干那杯\t乾那杯\n干酪\t乾酪\n干酵母\t乾酵母\n干醋\t乾醋\n干重\t乾重\n干量\t乾量\n干锅\t乾鍋\n干镇驿\t乾鎮驛\n干闼婆\t乾闥婆\n干阿奶\t乾阿奶\n干雷\t乾雷\n干霍乱\t乾霍亂\n干面\t乾麪\n干预\t干預\n干颡\t乾顙\n干饭\t乾飯\n干馆\t乾館\n干馏\t乾餾\n干馏法\t乾餾法\n干驿镇\t乾驛鎮\n干鱼\t乾魚\n干鲜\t乾鮮\n平安里\t平安里\n平康里\t平康里\n平方公里\t平方公里\n平易谦冲\t平易謙沖\n年历\t年曆\n年谷\t年穀\n并一不二\t併一不二\n并不并\t併不併\n并为\t併爲\n并产\t併產\n并入\t併入\n并兼\t併兼\n并到\t併到\n并力\t併力\n并卷机\t併捲機\n并发\t併發\n并发症\t併發症\n并叠\t併疊\n并合\t併合\n并名\t併名\n并吞\t併吞\n并吞下\t併吞下\n并州\t幷州\n并州剪\t幷州剪\n并州故乡\t幷州故鄉\n并成\t併成\n并拢\t併攏\n并案\t併案\n并案处理\t併案處理\n并火\t併火\n并科\t併科\n并纱\t併紗\n并线\t併線\n并网\t併網\n并肩子\t併肩子\n并购\t併購\n并购买\t併購買\n并购案\t併購案\n并赃拿贼\t併贓拿賊\n并赃治罪\t併贓治罪\n并除\t併除\n并骨\t併骨\n幸免\t倖免\n幸免于难\t倖免於難\n幸存\t倖存\n幸存者\t倖存者\n幸幸\t倖幸\n幸感歌姬\t倖感歌姬\n幸臣\t倖臣\n幸运胡\t幸運鬍\n幸进\t倖進\n广东炒面\t廣東炒麪\n广布\t廣佈\n广舍\t廣捨\n广部\t广部\n庄里镇\t莊里鎮\n庆历\t慶曆\n庆历新政\t慶曆新政\n庆吊\t慶弔\n庇荫\t庇廕\n庇里牛斯\t庇里牛斯\n庇里牛斯山\t庇里牛斯山\n床席\t牀蓆\n库布里克\t庫布里克\n库里尔台\t庫里爾臺\n库里提巴\t庫里提巴\n应克制\t應剋制\n应占\t應占\n应收帐款周转率\t應收帳款週轉率\n应钟\t應鐘\n底夸克\t底夸克\n底格里斯\t底格里斯\n底格里斯河\t底格里斯河\n庞眉白发\t龐眉白髮\n庞眉皓发\t龐眉皓髮\n废后\t廢后\n度身定制\t度身定製\n座钟\t座鐘\n庵婪\t菴婪\n庵庐\t菴廬\n庵庵\t菴菴\n庵罗树园\t菴羅樹園\n庵舍\t菴舍\n庵蔼\t菴藹\n康采恩\t康采恩\n庸暗\t庸闇\n廖于诚\t廖于誠\n廖金钟\t廖金鐘\n廿二史札记\t廿二史劄記\n廿里\t廿里\n开伙\t開伙\n开发周期\t開發週期\n开吊\t開弔\n开哄\t開鬨\n开诚布公\t開誠佈公\n异苔同岑\t異薹同岑\n异采\t異采\n弃舍\t棄捨\n弄干\t弄乾\n弄松\t弄鬆\n弄面吃\t弄麪喫\n弄鬼吊猴\t弄鬼弔猴\n弊幸\t弊倖\n弗洛里斯岛\t弗洛里斯島\n弗罗里达\t弗羅里達\n弗罗里达州\t弗羅里達州\n弗里得里希\t弗里得里希\n弗里德里希\t弗里德里希\n弗里敦\t弗里敦\n弗里斯兰\t弗里斯蘭\n弗里曼\t弗里曼\n弗雷德里克\t弗雷德里克\n弗雷德里克顿\t弗雷德里克頓\n弘历\t弘曆\n张三丰\t張三丰\n张基郁\t張基郁\n张志家\t張誌家\n张斗辉\t張斗輝\n张栋梁\t張棟樑\n张灯结彩\t張燈結綵\n张玄墓志铭\t張玄墓誌銘\n张范街道\t張范街道\n张黑女墓志铭\t張黑女墓誌銘\n弥山遍野\t瀰山遍野\n弥弥\t瀰瀰\n弥漫\t瀰漫\n弥漫性\t瀰漫性\n弥漫着\t瀰漫着\n弥蒙\t彌矇\n弦乐\t絃樂\n弦乐团\t絃樂團\n弦动\t絃動\n弦器\t絃器\n弦声\t絃聲\n弦断\t絃斷\n弦歌\t絃歌\n弦琴\t絃琴\n弦索\t絃索\n弦线\t絃線\n弦轴\t絃軸\n弦音\t絃音\n弯管面\t彎管麪\n弹子台\t彈子檯\n弹性制造系统\t彈性製造系統\n弹珠台\t彈珠檯\n强咽\t強嚥\n强奸\t強姦\n强奸民意\t強姦民意\n强奸犯\t強姦犯\n强奸罪\t強姦罪\n强棒面\t強棒麪\n强烈台风\t強烈颱風\n强聒不舍\t強聒不捨\n彊御\t彊禦\n归并\t歸併\n归并到\t歸併到\n归并在\t歸併在\n当一声\t噹一聲\n当众宣布\t當衆宣佈\n当周\t當週\n当啷\t噹啷\n当啷落地\t噹啷落地\n当场只手\t當場隻手\n当家才知柴米价\t當家纔知柴米價\n当当\t噹噹\n当当当\t噹噹噹\n当当船\t噹噹船\n当当车\t噹噹車\n当的一响\t噹的一響\n当的一声\t噹的一聲\n录制\t錄製\n录录\t彔彔\n彗泛画涂\t彗氾畫塗\n形单影只\t形單影隻\n形只影单\t形隻影單\n形如斗\t形如斗\n形孤影只\t形孤影隻\n形影相吊\t形影相弔\n彩凤\t綵鳳\n彩女\t綵女\n彩带\t綵帶\n彩带舞\t綵帶舞\n彩棚\t綵棚\n彩楼\t綵樓\n彩楼配\t綵樓配\n彩牌楼\t綵牌樓\n彩球\t綵球\n彩笔生花\t綵筆生花\n彩线\t綵線\n彩绸\t綵綢\n彩缎\t綵緞\n彩缯\t綵繒\n彩胜\t綵勝\n彩船\t綵船\n彩衣\t綵衣\n彩衣娱亲\t綵衣娛親\n彩鸾\t綵鸞\n彭于晏\t彭于晏\n彭咸\t彭咸\n影占\t影占\n影只形单\t影隻形單\n影后\t影后\n影评人周\t影評人週\n彼得里皿\t彼得里皿\n彼此克制\t彼此剋制\n征伐\t征伐\n征剿\t征剿\n征夫\t征夫\n征尘\t征塵\n征帆\t征帆\n征彸\t征彸\n征戍\t征戍\n征战\t征戰\n征敛\t征斂\n征敛无度\t征斂無度\n征旆\t征旆\n征服\t征服\n征服兵\t征服兵\n征服到地\t征服到地\n征服者\t征服者\n征程\t征程\n征衣\t征衣\n征衫\t征衫\n征讨\t征討\n征辟\t徵辟\n征途\t征途\n征马\t征馬\n征驾\t征駕\n径入\t逕入\n径到\t逕到\n径取\t逕取\n径启者\t逕啓者\n径流\t逕流\n径自\t逕自\n径行\t逕行\n径路儿\t逕路兒\n待核\t待覈\n很干\t很乾\n很干了\t很乾了\n很松\t很鬆\n律历志\t律曆志\n徐余伟\t徐余偉\n徐赞升\t徐讚昇\n徒托空言\t徒託空言\n得克制\t得剋制\n得道升天\t得道昇天\n得采\t得采\n徘回\t徘迴\n御侮\t禦侮\n御制\t御製\n御寇\t禦寇\n御寒\t禦寒\n御敌\t禦敵\n御驾亲征\t御駕親征\n循环反复\t循環反覆\n微居里\t微居里\n徯幸\t徯倖\n德干\t德干\n德干高原\t德干高原\n德胜头回\t德勝頭迴\n德里\t德里\n德里达\t德里達\n徼幸\t徼倖\n心向往之\t心嚮往之\n心存侥幸\t心存僥倖\n心弦\t心絃\n心有戚戚\t心有慼慼\n心相系\t心相繫\n心系\t心繫\n心细似发\t心細似髮\n心细如发\t心細如髮\n心肺复苏术\t心肺復甦術\n心脏\t心臟\n心脏地区\t心臟地區\n心脏复苏术\t心臟復甦術\n心脏学\t心臟學\n心脏按摩\t心臟按摩\n心脏搭桥手术\t心臟搭橋手術\n心脏收缩压\t心臟收縮壓\n心脏瓣\t心臟瓣\n心脏疾患\t心臟疾患\n心脏病\t心臟病\n心脏病发\t心臟病發\n心脏病史\t心臟病史\n心脏痲痹\t心臟痲痹\n心脏痲痺\t心臟痲痺\n心脏科\t心臟科\n心脏移植\t心臟移植\n心脏移殖\t心臟移殖\n心脏舒张压\t心臟舒張壓\n心脏节律器\t心臟節律器\n心脏衰竭\t心臟衰竭\n心脏计\t心臟計\n心脏镜\t心臟鏡\n心脏麻痹\t心臟麻痹\n心脏麻痺\t心臟麻痺\n心里美萝卜\t心裏美蘿蔔\n心长发短\t心長髮短\n忌烟\t忌菸\n忍饥受渴\t忍饑受渴\n忍饥受饿\t忍饑受餓\n志之不忘\t誌之不忘\n志冲斗牛\t志沖斗牛\n志哀\t誌哀\n志喜\t誌喜\n志在千里\t志在千里\n志庆\t誌慶\n志异\t誌異\n志悼\t誌悼\n忘生舍死\t忘生捨死\n忙并\t忙併\n快克制\t快剋制\n快吃干\t快喫乾\n快干\t快乾\n快干了\t快乾了\n快干杯\t快乾杯\n快干裂\t快乾裂\n快松下\t快鬆下\n快舍下\t快捨下\n快速面\t快速麪\n念书\t唸書\n念了\t唸了\n念了一声\t唸了一聲\n念作\t唸作\n念到\t唸到\n念叨\t唸叨\n念吧\t唸吧\n念咒\t唸咒\n念啊\t唸啊\n念完\t唸完\n念对\t唸對\n念念有词\t唸唸有詞\n念曰\t唸曰\n念白\t唸白\n念的\t唸的\n念经\t唸經\n念诗\t唸詩\n念诵\t唸誦\n念错\t唸錯\n忽舍下\t忽捨下\n怀宠尸位\t懷寵尸位\n怀表\t懷錶\n怀钟\t懷鐘\n怒发冲冠\t怒髮衝冠\n怒发冲天\t怒髮沖天\n怒气冲发\t怒氣沖發\n怒气冲天\t怒氣沖天\n怒火冲天\t怒火沖天\n急征重敛\t急征重斂\n急松松\t急鬆鬆\n性欲\t性慾\n性欲高潮\t性慾高潮\n性泼凶顽\t性潑凶頑\n怨气冲天\t怨氣沖天\n总发\t總髮\n总台\t總檯\n总杆数\t總桿數\n总杆赛\t總桿賽\n总汇\t總彙\n总统杯\t總統盃\n恂栗\t恂慄\n恋恋不舍\t戀戀不捨\n恋恋难舍\t戀戀難捨\n恒大\t恒大\n恒指\t恒指\n恒星周期\t恆星週期\n恒生\t恒生\n恕乏价催\t恕乏价催\n恤典\t卹典\n恤荒\t卹荒\n恤金\t卹金\n恩准\t恩准\n息谷\t息穀\n恰才\t恰纔\n恳托\t懇託\n恶事传千里\t惡事傳千里\n恶唑啉\t噁唑啉\n恶唑啉酮\t噁唑啉酮\n恶心\t噁心\n恶心感\t噁心感\n恶意毁谤\t惡意譭謗\n悚栗\t悚慄\n悠悠荡荡\t悠悠盪盪\n悠暗\t悠闇\n悠活丽致\t悠活麗緻\n悠游表\t悠遊錶\n悠荡\t悠盪\n患难之交才是真正的朋友\t患難之交纔是真正的朋友\n您克制\t您剋制\n悬旌万里\t懸旌萬里\n悬梁\t懸樑\n悬梁刺股\t懸樑刺股\n悬梁自尽\t懸樑自盡\n悬胄\t懸冑\n悬臂梁\t懸臂樑\n悬钟\t懸鐘\n悭吝苦克\t慳吝苦剋\n悲悲戚戚\t悲悲慼慼\n悲戚\t悲慼\n悲犬咸阳\t悲犬咸陽\n悲筑\t悲筑\n悸栗\t悸慄\n惄如调饥\t惄如調饑\n情欲\t情慾\n情欲戏\t情慾戲\n情系\t情繫\n情采\t情采\n惊叹\t驚歎\n惊赞\t驚讚\n惊钟\t驚鐘\n惏栗\t惏慄\n惕栗\t惕慄\n惠里香\t惠里香\n惨戚\t慘慼\n惨栗\t慘慄\n想克制\t想剋制\n想象\t想像\n惴栗\t惴慄\n惺松\t惺鬆\n愁戚戚\t愁慼慼\n愈合\t癒合\n意克制\t意剋制\n意大利直面\t意大利直麪\n意大利面\t意大利麪\n意面\t意麪\n愚暗\t愚闇\n感化饼干\t感化餅乾\n愿干一杯\t願乾一杯\n愿干这杯\t願乾這杯\n愿干那杯\t願乾那杯\n愿朴\t愿樸\n愿而恭\t愿而恭\n慈安太后\t慈安太后\n慈悲喜舍\t慈悲喜捨\n慈溪\t慈谿\n慈禧太后\t慈禧太后\n慢咽\t慢嚥\n慰借\t慰藉\n懈松\t懈鬆\n懔栗\t懍慄\n懰栗\t懰慄\n戏彩娱亲\t戲綵娛親\n成岩作用\t成岩作用\n我克制\t我剋制\n我干一杯\t我乾一杯\n我系\t我係\n戒烟\t戒菸\n戒烟法\t戒菸法\n或系之牛\t或繫之牛\n战云密布\t戰雲密佈\n战地钟声\t戰地鐘聲\n战战栗栗\t戰戰慄慄\n战栗\t戰慄\n战略伙伴\t戰略伙伴\n战略防御倡议\t戰略防禦倡議\n戚戚\t慼慼\n戚里\t戚里\n截发\t截髮\n截发留宾\t截髮留賓\n戬谷\t戩穀\n戳脊梁\t戳脊樑\n戴发含齿\t戴髮含齒\n戴维斯杯\t戴維斯盃\n戴表\t戴錶\n戽斗\t戽斗\n房室结回路\t房室結迴路\n所云\t所云\n所云云\t所云云\n所布之\t所佈之\n所布的\t所佈的\n所托\t所託\n所系\t所繫\n所见而云\t所見而云\n所讥而云\t所譏而云\n所谓而云\t所謂而云\n扁拟谷盗虫\t扁擬穀盜蟲\n扇火\t搧火\n扇风\t搧風\n手一卷\t手一捲\n手一松\t手一鬆\n手不松\t手不鬆\n手冢治虫\t手塚治虫\n手制\t手製\n手工台\t手工檯\n手工面\t手工麪\n手折\t手摺\n手擀面\t手擀麪\n手术台\t手術檯\n手松\t手鬆\n手表\t手錶\n手表带\t手錶帶\n手酸\t手痠\n手链\t手鍊\n才上到\t纔上到\n才上去\t纔上去\n才上来\t纔上來\n才下去\t纔下去\n才下来\t纔下來\n才不\t纔不\n才不会\t纔不會\n才不是\t纔不是\n才不能\t纔不能\n才为\t纔爲\n才买\t纔買\n才会\t纔會\n才会到\t纔會到\n才会在\t纔會在\n才会有\t纔會有\n才信\t纔信\n才储八斗\t才儲八斗\n才像\t纔像\n才像是\t纔像是\n才再\t纔再\n才出\t纔出\n才出去\t纔出去\n才出来\t纔出來\n才则\t纔則\n才刚\t纔剛\n才到\t纔到\n才去\t纔去\n才可\t纔可\n才可以\t纔可以\n才可容颜十五余\t纔可容顏十五餘\n才回\t纔回\n才回到\t纔回到\n才回去\t纔回去\n才回来\t纔回來\n才在\t纔在\n才多\t纔多\n才多出\t纔多出\n才够\t纔夠\n才好\t纔好\n才始\t纔始\n才对\t纔對\n才将\t纔將\n才干净\t纔乾淨\n才干旱\t纔乾旱\n才干杯\t纔乾杯\n才干透\t纔乾透\n才开\t纔開\n才开出\t纔開出\n才开到\t纔開到\n才当曹斗\t才當曹斗\n才得两年\t纔得兩年\n才得到\t纔得到\n才怪\t纔怪\n才想\t纔想\n才打\t纔打\n才打出\t纔打出\n才打到\t纔打到\n才拿\t纔拿\n才拿出\t纔拿出\n才拿到\t纔拿到\n才敢\t纔敢\n才料\t纔料\n才是\t纔是\n才有\t纔有\n才来\t纔來\n才来到\t纔來到\n才松下\t纔鬆下\n才此\t纔此\n才没\t纔沒\n才没有\t纔沒有\n才没能\t纔沒能\n才派\t纔派\n才派人\t纔派人\n才用到\t纔用到\n才看\t纔看\n才看出\t纔看出\n才看到\t纔看到\n才等\t纔等\n才等到\t纔等到\n才算\t纔算\n才算是\t纔算是\n才给\t纔給\n才能勇敢追\t纔能勇敢追\n才能够\t纔能夠\n才能有\t纔能有\n才行\t纔行\n才要\t纔要\n才讲\t纔講\n才读\t纔讀\n才读到\t纔讀到\n才起来\t纔起來\n才跟\t纔跟\n才过去\t纔過去\n才过来\t纔過來\n才高八斗\t才高八斗\n扎上\t紮上\n扎上去\t紮上去\n扎上来\t紮上來\n扎下\t紮下\n扎下去\t紮下去\n扎下来\t紮下來\n扎了\t紮了\n扎囮\t紮囮\n扎在\t紮在\n扎好\t紮好\n扎好底子\t紮好底子\n扎好根\t紮好根\n扎实\t紮實\n扎实推进\t紮實推進\n扎寨\t紮寨\n扎尔达里\t扎爾達里\n扎带\t紮帶\n扎带子\t紮帶子\n扎成\t紮成\n扎扎实实\t紮紮實實\n扎根\t紮根\n扎欧扎翁\t紮歐紮翁\n扎紧\t紮緊\n扎线带\t紮線帶\n扎结\t紮結\n扎脚\t紮腳\n扎营\t紮營\n扎裹\t紮裹\n扎诈\t紮詐\n扎起\t紮起\n扎起来\t紮起來\n扎铁\t紮鐵\n扎马剌丁\t紮馬剌丁\n扎马鲁丁\t紮馬魯丁\n扑冬\t撲鼕\n扑冬冬\t撲鼕鼕\n打中伙\t打中伙\n打了牙肚里咽\t打了牙肚裏嚥\n打净捞干\t打淨撈乾\n打出吊入\t打出弔入\n打制\t打製\n打制石器\t打製石器\n打卡钟\t打卡鐘\n打卤面\t打滷麪\n打哄\t打鬨\n打干净毬儿\t打乾淨毬兒\n打干哕\t打乾噦\n打并\t打併\n打恶心\t打噁心\n打挨\t打捱\n打桨杆\t打槳桿\n打游击\t打游擊\n打游飞\t打游飛\n打秋千\t打鞦韆\n打筋斗\t打筋斗\n打簧表\t打簧錶\n打谷\t打穀\n打谷场\t打穀場\n打谷机\t打穀機\n打钟\t打鐘\n打饥荒\t打饑荒\n托之空言\t託之空言\n托买\t託買\n托了\t託了\n托事\t託事\n托交\t託交\n托人\t託人\n托人情\t託人情\n托付\t託付\n托卖\t託賣\n托古讽今\t託古諷今\n托名\t託名\n托命\t託命\n托咎\t託咎\n托大\t託大\n托孤\t託孤\n托庇\t託庇\n托故\t託故\n托梦\t託夢\n托派\t託派\n托物寓兴\t託物寓興\n托生\t託生\n托疾\t託疾\n托病\t託病\n托福\t託福\n托管\t託管\n托管国\t託管國\n托言\t託言\n托词\t託詞\n托身\t託身\n托辞\t託辭\n托过\t託過\n托运\t託運\n托里\t托里\n托里县\t托里縣\n托里拆利\t托里拆利\n托附\t託附\n扛大梁\t扛大樑\n扞御\t扞禦\n扣克\t扣剋\n扣子\t釦子\n扣环\t釦環\n扣眼\t釦眼\n扣针\t釦針\n扫干净\t掃乾淨\n扬谷\t揚穀\n扮装皇后\t扮裝皇后\n扯篷拉纤\t扯篷拉縴\n扯纤\t扯縴\n扯面\t扯麪\n扶幼周\t扶幼週\n批准\t批准\n批准下来\t批准下來\n批准书\t批准書\n批准的\t批准的\n批回\t批迴\n批复\t批覆\n批核\t批覈\n批注\t批註\n找借口\t找藉口\n承制\t承製\n把方才\t把方纔\n把饭叫饥\t把飯叫饑\n抑扬升降性\t抑揚昇降性\n抓奸\t抓姦\n抔土未干\t抔土未乾\n投喂\t投餵\n投手防御率\t投手防禦率\n投潘岳果\t投潘岳果\n抗干扰性\t抗干擾性\n抗御\t抗禦\n折冲御侮\t折衝禦侮\n折叠\t摺疊\n折叠为\t摺疊爲\n折叠床\t摺疊牀\n折叠式\t摺疊式\n折叠扇\t摺疊扇\n折叠椅\t摺疊椅\n折叠起来\t摺疊起來\n折台\t折檯\n折合\t摺合\n折合椅\t摺合椅\n折奏\t摺奏\n折好\t摺好\n折子\t摺子\n折子戏\t摺子戲\n折尺\t摺尺\n折扇\t摺扇\n折梯\t摺梯\n折椅\t摺椅\n折痕\t摺痕\n折篷\t摺篷\n折纸\t摺紙\n折纸工\t摺紙工\n折腰五斗\t折腰五斗\n折腰升斗\t折腰升斗\n折裙\t摺裙\n折进去\t摺進去\n折进来\t摺進來\n折页\t摺頁\n抚尸恸哭\t撫尸慟哭\n抚恤\t撫卹\n护发\t護髮\n护发乳液\t護髮乳液\n护发素\t護髮素\n报刊杂志\t報刊雜誌\n报章杂志\t報章雜誌\n披发\t披髮\n披发入山\t披髮入山\n披发垢面\t披髮垢面\n披发左衽\t披髮左衽\n披发涂面\t披髮塗面\n披发缨冠\t披髮纓冠\n披发藻目\t披髮藻目\n披头散发\t披頭散髮\n披挂绰枪\t披掛綽鎗\n披红挂彩\t披紅掛綵\n抱大足杆\t抱大足桿\n抱朴\t抱朴\n抱朴子\t抱朴子\n抱朴而长吟兮\t抱朴而長吟兮\n抵御\t抵禦\n抵御外侮\t抵禦外侮\n抵牾\t牴牾\n抵触\t牴觸\n抹干\t抹乾\n抻面\t抻麪\n抽干\t抽乾\n抽斗\t抽斗\n抽烟\t抽菸\n抽烟室\t抽菸室\n抿发\t抿髮\n拂荡\t拂盪\n拂钟无声\t拂鐘無聲\n拂须\t拂鬚\n担仔面\t擔仔麪\n担干系\t擔干係\n担干纪\t擔干紀\n担担面\t擔擔麪\n拈须\t拈鬚\n拉克施尔德钟\t拉克施爾德鐘\n拉升\t拉昇\n拉揸面\t拉揸麪\n拉杂面\t拉雜麪\n拉杆\t拉桿\n拉杆子\t拉桿子\n拉涅里\t拉涅里\n拉祖里\t拉祖里\n拉纤\t拉縴\n拉里\t拉里\n拉里加尼\t拉里加尼\n拉里拉尼\t拉里拉尼\n拉面\t拉麪\n拉面店\t拉麪店\n拌面\t拌麪\n拍出好戏\t拍齣好戲\n拍台拍凳\t拍檯拍凳\n拐子\t柺子\n拐杖\t柺杖\n拐棍\t柺棍\n拐棒\t柺棒\n拒人于千里之外\t拒人於千里之外\n拒烟\t拒菸\n拔了萝卜地皮宽\t拔了蘿蔔地皮寬\n拔发\t拔髮\n拔宅上升\t拔宅上昇\n拔宅飞升\t拔宅飛昇\n拔萝卜\t拔蘿蔔\n拔虎须\t拔虎鬚\n拔须\t拔鬚\n拖干净\t拖乾淨\n拖斗\t拖斗\n拗别\t拗彆\n拗别搅炒\t拗彆攪炒\n拘系\t拘繫\n拚舍\t拚捨\n拜占庭\t拜占庭\n拜占庭帝国\t拜占庭帝國\n拜占庭文化\t拜占庭文化\n拜复\t拜覆\n拜岳\t拜岳\n拜托\t拜託\n拜斗\t拜斗\n拟制\t擬製\n拟卤素\t擬鹵素\n拧干\t擰乾\n拧松\t擰鬆\n拨弦\t撥絃\n拨谷\t撥穀\n拨鱼面\t撥魚麪\n括发\t括髮\n拭干\t拭乾\n拮据\t拮据\n拾沈\t拾瀋\n拿下表\t拿下錶\n拿下钟\t拿下鐘\n拿云\t拏雲\n拿云攫石\t拏雲攫石\n拿坡里\t拿坡里\n拿坡里号\t拿坡里號\n拿枪杆\t拿槍桿\n拿波里\t拿波里\n拿破仑\t拿破崙\n拿破仑法典\t拿破崙法典\n拿破仑波拿巴\t拿破崙波拿巴\n拿笔杆\t拿筆桿\n拿贼要赃拿奸要双\t拿賊要贓拿姦要雙\n挂冠归里\t掛冠歸里\n挂历\t掛曆\n挂斗\t掛斗\n挂灯结彩\t掛燈結綵\n挂表\t掛錶\n挂钟\t掛鐘\n挂面\t掛麪\n指挥台\t指揮台\n挑了只\t挑了隻\n挑大梁\t挑大樑\n挑正梁\t挑正樑\n挡御\t擋禦\n挨三顶四\t捱三頂四\n挨上\t捱上\n挨了\t捱了\n挨了揍\t捱了揍\n挨了过去\t捱了過去\n挨了过来\t捱了過來\n挨到\t捱到\n挨得\t捱得\n挨得住\t捱得住\n挨打\t捱打\n挨揍\t捱揍\n挨整\t捱整\n挨日子\t捱日子\n挨时间\t捱時間\n挨满\t捱滿\n挨磨\t捱磨\n挨苦\t捱苦\n挨过\t捱過\n挨过去\t捱過去\n挨过来\t捱過來\n挨饥抵饿\t捱飢抵餓\n挨饿\t捱餓\n挨骂\t捱罵\n振杰\t振杰\n振荡\t振盪\n振荡器\t振盪器\n振荡电流\t振盪電流\n振荡电路\t振盪電路\n挽夫\t輓夫\n挽曲\t輓曲\n挽歌\t輓歌\n挽歌郎\t輓歌郎\n挽联\t輓聯\n挽词\t輓詞\n挽诗\t輓詩\n挽额\t輓額\n捆吊\t綑吊\n捆扎\t捆紮\n捉发\t捉髮\n捉奸\t捉姦\n捉奸捉双\t捉姦捉雙\n捉奸见双\t捉姦見雙\n捉奸见床\t捉姦見牀\n捉贼见赃捉奸见双\t捉賊見贓捉姦見雙\n捋虎须\t捋虎鬚\n捋采\t捋采\n捍御\t捍禦\n捏制\t捏製\n捏面人\t捏麪人\n捕影系风\t捕影繫風\n捕虏岩\t捕虜岩\n捕风系影\t捕風繫影\n捞干\t撈乾\n捞面\t撈麪\n换发\t換髮\n换只\t換隻\n换挡杆\t換擋桿\n换档杆\t換檔桿\n换算无收获面积\t換算無收穫面積\n捣鬼吊白\t搗鬼弔白\n据了解\t據瞭解\n据云\t據云\n据干而窥井底\t據榦而窺井底\n捵面\t捵麪\n捶台拍凳\t捶檯拍凳\n捶炼\t捶鍊\n捻针\t捻鍼\n捻须\t捻鬚\n掉发\t掉髮\n掊斗折衡\t掊斗折衡\n掌状复叶\t掌狀複葉\n排兵布阵\t排兵佈陣\n排档杆\t排檔桿\n排须\t排鬚\n排骨面\t排骨麪\n探寻胜迹\t探尋勝蹟\n探知欲\t探知慾\n控制台\t控制台\n控制杆\t控制桿\n控制欲\t控制慾\n控卷\t控捲\n推干净儿\t推乾淨兒\n推弦\t推絃\n推托\t推託\n推挽\t推輓\n推诚布信\t推誠佈信\n推诚布公\t推誠佈公\n推辇归里\t推輦歸里\n推陈布新\t推陳佈新\n掩耳盗钟\t掩耳盜鐘\n揉面\t揉麪\n提克里特\t提克里特\n提制\t提製\n提子干\t提子乾\n提梁\t提樑\n提纳里\t提納里\n握发\t握髮\n握发吐哺\t握髮吐哺\n握发吐餐\t握髮吐餐\n揩台抹凳\t揩檯抹凳\n揩干\t揩乾\n揪发\t揪髮\n揪须\t揪鬚\n搋面\t搋麪\n搜录\t蒐錄\n搜括\t蒐括\n搜罗\t蒐羅\n搜藏\t蒐藏\n搜藏家\t蒐藏家\n搜证\t蒐證\n搜购\t蒐購\n搜集\t蒐集\n搜集到\t蒐集到\n搭干铺\t搭乾鋪\n搽穰卷儿\t搽穰捲兒\n摁扣\t摁釦\n摄制\t攝製\n摄制厂\t攝製廠\n摄制成\t攝製成\n摆布\t擺佈\n摆荡\t擺盪\n摆荡起来\t擺盪起來\n摆钟\t擺鐘\n摇杆\t搖桿\n摇荡\t搖盪\n摇荡不停\t搖盪不停\n摔筋斗\t摔筋斗\n摔跟斗\t摔跟斗\n摩擦系数\t摩擦係數\n摩根费里曼\t摩根費里曼\n摩里西斯\t摩里西斯\n摸钟\t摸鐘\n摹扎特\t摹紮特\n撇吊\t撇弔\n撒布\t撒佈\n撞府冲州\t撞府沖州\n撞木钟\t撞木鐘\n撞球台\t撞球檯\n撞球杆\t撞球桿\n撞警钟\t撞警鐘\n撞钟\t撞鐘\n撞钟太岁\t撞鐘太歲\n撤并\t撤併\n撩虎须\t撩虎鬚\n擀面\t擀麪\n擀面杖\t擀麪杖\n操作台\t操作檯\n操作钟\t操作鐘\n操纵台\t操縱檯\n操纵杆\t操縱桿\n擐系\t擐繫\n擢发\t擢髮\n擢发抽肠\t擢髮抽腸\n擢发难数\t擢髮難數\n擦干\t擦乾\n擦干净\t擦乾淨\n攧攧仆仆\t攧攧仆仆\n支努干\t支努干\n支杆\t支桿\n支烟\t支菸\n收拾干净\t收拾乾淨\n收获\t收穫\n收获节\t收穫節\n收获量\t收穫量\n攸戚相关\t攸慼相關\n改制为\t改製爲\n改念\t改唸\n改签\t改簽\n放大系数\t放大係數\n放松\t放鬆\n放松管制\t放鬆管制\n放蒙挣\t放懞掙\n放轻松\t放輕鬆\n故云\t故云\n故里\t故里\n敖荡\t敖盪\n教学钟\t教學鐘\n敢斗了胆\t敢斗了膽\n散布\t散佈\n散布开\t散佈開\n散布者\t散佈者\n敬挽\t敬輓\n敬烟\t敬菸\n敬鉴\t敬鑒\n数与虏确\t數與虜确\n数周\t數週\n数字时钟\t數字時鐘\n数字系数\t數字係數\n数字钟\t數字鐘\n数字钟表\t數字鐘錶\n数据调制解调器\t數據調製解調器\n数罪并罚\t數罪併罰\n数里\t數里\n敲丧钟\t敲喪鐘\n敲钟\t敲鐘\n整出剧\t整齣劇\n整出戏\t整齣戲\n整发用品\t整髮用品\n整只\t整隻\n整周\t整週\n整根烟\t整根菸\n整齐干净\t整齊乾淨\n文丑\t文丑\n文斯范恩\t文斯范恩\n文章星斗\t文章星斗\n文身断发\t文身斷髮\n文采\t文采\n文采出众\t文采出衆\n文采郁郁\t文采郁郁\n文采风流\t文采風流\n斋栗\t齋慄\n斑岩\t斑岩\n斗储\t斗儲\n斗六\t斗六\n斗六市\t斗六市\n斗别气\t鬥彆氣\n斗升\t斗升\n斗升之水\t斗升之水\n斗升之禄\t斗升之祿\n斗南\t斗南\n斗南一人\t斗南一人\n斗南镇\t斗南鎮\n斗哄\t鬥鬨\n斗城\t斗城\n斗大\t斗大\n斗大的手卷\t斗大的手卷\n斗大的馒头\t斗大的饅頭\n斗子\t斗子\n斗室\t斗室\n斗室生辉\t斗室生輝\n斗宿\t斗宿\n斗小马\t斗小馬\n斗尾港\t斗尾港\n斗居\t斗居\n斗山\t斗山\n斗帐\t斗帳\n斗店\t斗店\n斗府\t斗府\n斗折蛇行\t斗折蛇行\n斗拱\t斗拱\n斗数\t斗數\n斗斋\t斗齋\n斗斛之禄\t斗斛之祿\n斗方\t斗方\n斗方名士\t斗方名士\n斗星官\t斗星官\n斗木獬\t斗木獬\n斗杓\t斗杓\n斗杓东指\t斗杓東指\n斗杓转势\t斗杓轉勢\n斗极\t斗極\n斗柄\t斗柄\n斗栱\t斗栱\n斗概\t斗概\n斗沟子\t斗溝子\n斗渠\t斗渠\n斗灯\t斗燈\n斗烟丝\t斗菸絲\n斗然\t斗然\n斗牛之间\t斗牛之間\n斗的\t斗的\n斗真\t斗真\n斗笠\t斗笠\n斗筲\t斗筲\n斗筲之人\t斗筲之人\n斗筲之器\t斗筲之器\n斗筲之徒\t斗筲之徒\n斗筲之才\t斗筲之才\n斗筲之材\t斗筲之材\n斗筲之辈\t斗筲之輩\n斗筲小器\t斗筲小器\n斗筲役\t斗筲役\n斗筲穿窬\t斗筲穿窬\n斗箕\t斗箕\n斗篷\t斗篷\n斗粟囊金\t斗粟囊金\n斗粟尺布\t斗粟尺布\n斗纹\t斗紋\n斗绝\t斗絕\n斗绝一隅\t斗絕一隅\n斗罗大陆\t斗羅大陸\n斗胆\t斗膽\n斗蓬装\t斗蓬裝\n斗薮\t斗藪\n斗车\t斗車\n斗转\t斗轉\n斗转参横\t斗轉參橫\n斗转星移\t斗轉星移\n斗酒\t斗酒\n斗酒博凉州\t斗酒博涼州\n斗酒只鸡\t斗酒隻雞\n斗酒学士\t斗酒學士\n斗酒百篇\t斗酒百篇\n斗重山齐\t斗重山齊\n斗量\t斗量\n斗量车载\t斗量車載\n斗门\t斗門\n斗门区\t斗門區\n斗顿\t斗頓\n斗食\t斗食\n斗香\t斗香\n斗魁\t斗魁\n料斗\t料斗\n斜管面\t斜管麪\n斤斗\t斤斗\n斥卤\t斥鹵\n断发\t斷髮\n断发文身\t斷髮文身\n断弦\t斷絃\n斯伯丁杯\t斯伯丁盃\n斯干\t斯干\n斯瓦希里\t斯瓦希里\n斯瓦希里语\t斯瓦希里語\n斯科普里\t斯科普里\n斯迪里\t斯迪里\n斯里\t斯里\n斯里兰卡\t斯里蘭卡\n斯里兰卡电信\t斯里蘭卡電信\n斯里巴加湾港\t斯里巴加灣港\n斯里查潘\t斯里查潘\n新余\t新余\n新余市\t新余市\n新历\t新曆\n新喀里多尼亚\t新喀里多尼亞\n新德里\t新德里\n新扎\t新紮\n新闻发布会\t新聞發佈會\n新闻周刊\t新聞週刊\n新闻杂志\t新聞雜誌\n方公里\t方公里\n方几\t方几\n方圆十里\t方圓十里\n方岳\t方岳\n方志\t方誌\n方才\t方纔\n方里\t方里\n施仁布德\t施仁佈德\n施仁布恩\t施仁佈恩\n施仁布泽\t施仁佈澤\n施佳升\t施佳昇\n施恩布德\t施恩佈德\n施粥舍饭\t施粥捨飯\n施舍\t施捨\n旁注\t旁註\n旋回\t旋迴\n旋干转坤\t旋乾轉坤\n旋松\t旋鬆\n旋辟\t旋辟\n旋里\t旋里\n旌恤\t旌卹\n无一幸免\t無一倖免\n无价事\t無价事\n无厘头\t無厘頭\n无干\t無干\n无梁\t無樑\n无梁斗\t無樑斗\n无梁楼盖\t無樑樓蓋\n无欲\t無慾\n无法克制\t無法剋制\n无畏布施\t無畏佈施\n无精打采\t無精打采\n无线新闻台\t無線新聞台\n无花果干\t無花果乾\n无言不仇\t無言不讎\n日制\t日製\n日历\t日曆\n日历年度\t日曆年度\n日历纸\t日曆紙\n日历表\t日曆表\n日干\t日干\n日志\t日誌\n日本制\t日本製\n日本国志\t日本國誌\n日行千里\t日行千里\n日进斗金\t日進斗金\n日里\t日里\n日里雪冷\t日里雪冷\n旧历\t舊曆\n旧历年\t舊曆年\n旧皇历\t舊皇曆\n旧表\t舊錶\n旧钟\t舊鐘\n旧钟表\t舊鐘錶\n早动手早收获\t早動手早收穫\n早占勿药\t早占勿藥\n旭日东升\t旭日東昇\n旭日初升\t旭日初昇\n旱干\t旱乾\n旱烟\t旱菸\n旱烟筒\t旱菸筒\n旱烟袋\t旱菸袋\n时代周刊\t時代週刊\n时宪历\t時憲曆\n时尚周\t時尚週\n时报周刊\t時報週刊\n时报杂志\t時報雜誌\n时紧时松\t時緊時鬆\n时装周\t時裝週\n时钟\t時鐘\n时钟座\t時鐘座\n旷若发蒙\t曠若發矇\n昆仑\t崑崙\n昆仑山\t崑崙山\n昆仑山脉\t崑崙山脈\n昆剧\t崑劇\n昆山\t崑山\n昆曲\t崑曲\n昆玉\t崑玉\n昆腔\t崑腔\n昆苏\t崑蘇\n昆调\t崑調\n昊天不吊\t昊天不弔\n明中舍去暗中来\t明中捨去暗中來\n明了\t明瞭\n明伙画供\t明伙畫供\n明复\t明覆\n明扣\t明釦\n明枪容易躲暗剑最难防\t明鎗容易躲暗劍最難防\n明枪容易躲暗箭最难防\t明鎗容易躲暗箭最難防\n明枪易躲暗箭难逃\t明鎗易躲暗箭難逃\n明窗净几\t明窗淨几\n明见万里\t明見萬里\n明鉴万里\t明鑑萬里\n昏困\t昏睏\n易克制\t易剋制\n星占学\t星占學\n星历\t星曆\n星历表\t星曆錶\n星回\t星迴\n星斗\t星斗\n星移斗换\t星移斗換\n星移斗转\t星移斗轉\n星罗云布\t星羅雲佈\n星罗棋布\t星羅棋佈\n星辰表\t星辰錶\n春卷\t春捲\n春卷皮\t春捲皮\n春武里府\t春武里府\n是只\t是隻\n昼伏夜游\t晝伏夜游\n显示表\t顯示錶\n显示钟\t顯示鐘\n显示钟表\t顯示鐘錶\n晃荡\t晃盪\n晒干\t曬乾\n晒烟\t曬菸\n晒谷\t曬穀\n晒谷场\t曬穀場\n晚钟\t晚鐘\n晞发\t晞髮\n晨钟\t晨鐘\n晨钟暮鼓\t晨鐘暮鼓\n普冬冬\t普鼕鼕\n普里\t普里\n普里什蒂纳\t普里什蒂納\n普里切特\t普里切特\n普里斯特\t普里斯特\n普里斯特莱\t普里斯特萊\n普里斯莱\t普里斯萊\n普里斯蒂纳\t普里斯蒂納\n普里查德\t普里查德\n普里霍吉可\t普里霍吉可\n景致\t景緻\n晴空万里\t晴空萬里\n晶体振荡\t晶體振盪\n晾干\t晾乾\n暂染发慕丝\t暫染髮慕絲\n暖荡撩锅\t暖盪撩鍋\n暗乱\t闇亂\n暗伦\t闇倫\n暗冥\t闇冥\n暗劣\t闇劣\n暗叹\t暗歎\n暗弱\t闇弱\n暗扣\t暗釦\n暗昧\t闇昧\n暗浅\t闇淺\n暗火\t闇火\n暗然\t闇然\n暗箭明枪\t暗箭明鎗\n暗莫\t闇莫\n暗蓝发\t闇藍髮\n暗诵\t闇誦\n暗跳\t闇跳\n暮鼓晨钟\t暮鼓晨鐘\n曰云\t曰云\n曲卷\t曲捲\n曲尘\t麴塵\n曲生\t麴生\n曲秀才\t麴秀才\n曲菌\t麴菌\n曲蘖\t麴櫱\n曲车\t麴車\n曲道士\t麴道士\n曲酒\t麴酒\n曲钱\t麴錢\n曲院\t麴院\n曲霉\t麴黴\n曲霉毒素\t麴黴毒素\n更待干罢\t更待干罷\n更钟\t更鐘\n曹余章\t曹余章\n曹子里\t曹子里\n曹范街道\t曹范街道\n曹郁芬\t曹郁芬\n曹里\t曹里\n月历\t月曆\n月岩\t月岩\n月相表\t月相錶\n月色迷蒙\t月色迷濛\n有云\t有云\n有出好戏\t有齣好戲\n有发头陀寺\t有髮頭陀寺\n有只\t有隻\n有够赞\t有夠讚\n有尽有让\t有儘有讓\n有征无战\t有征無戰\n有感而云\t有感而云\n有把家伙\t有把傢伙\n有缘千里来相会\t有緣千里來相會\n有联系\t有聯繫\n有采\t有采\n服务台\t服務檯\n服装周\t服裝週\n服饰周\t服飾週\n朔里\t朔里\n望后石\t望后石\n朝钟\t朝鐘\n朝钟暮鼓\t朝鐘暮鼓\n朝鲜冷面\t朝鮮冷麪\n木偶戏扎\t木偶戲紮\n木制\t木製\n木制品\t木製品\n木材干馏\t木材乾餾\n木梁\t木樑\n木里图\t木里圖\n木里藏族自治县\t木里藏族自治縣\n木钟\t木鐘\n未干\t未乾\n未签字者\t未簽字者\n本古里昂\t本古里昂\n本周\t本週\n本周一\t本週一\n本周三\t本週三\n本周二\t本週二\n本周五\t本週五\n本周六\t本週六\n本周四\t本週四\n本机振荡\t本機振盪\n本里\t本里\n札夸威\t札夸威\n术赤\t朮赤\n朱仑街\t朱崙街\n朱俊\t朱儁\n朱卷\t硃卷\n朱干玉戚\t朱干玉鏚\n朱批\t硃批\n朱理安历\t朱理安曆\n朱砂\t硃砂\n朱砂痣\t硃砂痣\n朱砂符\t硃砂符\n朱砂红\t硃砂紅\n朱笔\t硃筆\n朱红\t硃紅\n朱红色\t硃紅色\n朱色\t硃色\n朱谕\t硃諭\n朱郁信\t朱郁信\n朱里\t朱里\n朱颜鹤发\t朱顏鶴髮\n朴世莉\t朴世莉\n朴京琳\t朴京琳\n朴仔树\t朴仔樹\n朴凤柱\t朴鳳柱\n朴刀\t朴刀\n朴吉渊\t朴吉淵\n朴周永\t朴周永\n朴子\t朴子\n朴子市\t朴子市\n朴子溪\t朴子溪\n朴宣英\t朴宣英\n朴屯\t朴屯\n朴志胤\t朴志胤\n朴忠\t朴忠\n朴恩惠\t朴恩惠\n朴新阳\t朴新陽\n朴智星\t朴智星\n朴树\t朴樹\n朴槿惠\t朴槿惠\n朴正恩\t朴正恩\n朴正熙\t朴正熙\n朴正祥\t朴正祥\n朴永训\t朴永訓\n朴泰桓\t朴泰桓\n朴父\t朴父\n朴璐美\t朴璐美\n朴真熙\t朴真熙\n朴硝\t朴硝\n朴茂\t朴茂\n朴茨茅斯\t朴茨茅斯\n朴茨茅斯队\t朴茨茅斯隊\n朴诗妍\t朴詩妍\n朴资茅斯\t朴資茅斯\n朴资茅斯条约\t朴資茅斯條約\n朴赞浩\t朴贊浩\n机关布景\t機關佈景\n机器压制\t機器壓製\n机械表\t機械錶\n机械钟\t機械鐘\n机械钟表\t機械鐘錶\n机辟\t機辟\n杂合面儿\t雜合麪兒\n杂和面\t雜和麪\n杂和面儿\t雜和麪兒\n杂志\t雜誌\n杂志奖\t雜誌獎\n杂志社\t雜誌社\n杂志纸\t雜誌紙\n杂烩面\t雜燴麪\n杂酱面\t雜醬麪\n杂面\t雜麪\n权力欲\t權力慾\n权欲熏心\t權慾薰心\n杆刀\t桿刀\n杆状\t桿狀\n杆直\t桿直\n杆秤\t桿秤\n杆茵\t桿茵\n杆菌\t桿菌\n杆菌性\t桿菌性\n杆菌类\t桿菌類\n杆菌素\t桿菌素\n杈杆儿\t杈桿兒\n李咸阳\t李咸陽\n李子干\t李子乾\n李巨峰\t李鉅峯\n李干龙\t李乾龍\n李斯特氏杆菌\t李斯特氏桿菌\n李盟干\t李盟乾\n李连杰\t李連杰\n李钟奭\t李鐘奭\n李钟郁\t李鍾郁\n李链福\t李鍊福\n李锺郁\t李鍾郁\n杏干\t杏乾\n杏干儿\t杏乾兒\n村里长\t村里長\n杜老志道\t杜老誌道\n杜雅里克\t杜雅里克\n束修\t束脩\n束发\t束髮\n束发封帛\t束髮封帛\n束发金冠\t束髮金冠\n杠一\t杠一\n杠七\t杠七\n杠三\t杠三\n杠九\t杠九\n杠二\t杠二\n杠五\t杠五\n杠八\t杠八\n杠六\t杠六\n杠四\t杠四\n杠增一\t杠增一\n杠杆\t槓桿\n杠杆原理\t槓桿原理\n杠杆收购\t槓桿收購\n条几\t條几\n来念\t來唸\n杨万里\t楊萬里\n杨凌示范区\t楊淩示範區\n杨士梁\t楊士樑\n杨文志\t楊文誌\n杨氏系数\t楊氏係數\n杨苏棣\t楊甦棣\n杨采妮\t楊采妮\n杨雅筑\t楊雅筑\n杭州萝卜绍兴种\t杭州蘿蔔紹興種\n杯布\t杯佈\n杯干\t杯乾\n杯白干\t杯白乾\n杯赛\t盃賽\n杯面\t杯麪\n杰伦\t杰倫\n杰弗里乔叟\t傑弗里喬叟\n杰特\t杰特\n杰里森\t傑里森\n杰里科\t傑里科\n杰里米\t傑里米\n松一下\t鬆一下\n松一些\t鬆一些\n松一口气\t鬆一口氣\n松一松\t鬆一鬆\n松下一口\t鬆下一口\n松下了\t鬆下了\n松下来\t鬆下來\n松不开\t鬆不開\n松不松\t鬆不鬆\n松不紧\t鬆不緊\n松了\t鬆了\n松了一口气\t鬆了一口氣\n松了松\t鬆了鬆\n松些\t鬆些\n松元音\t鬆元音\n松出一\t鬆出一\n松出口\t鬆出口\n松动\t鬆動\n松劲\t鬆勁\n松发\t鬆發\n松口\t鬆口\n松口气\t鬆口氣\n松喉\t鬆喉\n松土\t鬆土\n松土机\t鬆土機\n松垮\t鬆垮\n松宽\t鬆寬\n松开\t鬆開\n松弛\t鬆弛\n松弛下来\t鬆弛下來\n松弛到\t鬆弛到\n松弛剂\t鬆弛劑\n松弛法\t鬆弛法\n松得多\t鬆得多\n松快\t鬆快\n松懈\t鬆懈\n松懈下\t鬆懈下\n松懈下来\t鬆懈下來\n松手\t鬆手\n松扣\t鬆釦\n松掉\t鬆掉\n松放\t鬆放\n松散\t鬆散\n松散物料\t鬆散物料\n松松\t鬆鬆\n松松垮垮\t鬆鬆垮垮\n松松散散\t鬆鬆散散\n松松脆脆\t鬆鬆脆脆\n松松软软\t鬆鬆軟軟\n松柔\t鬆柔\n松毛松翼\t鬆毛鬆翼\n松气\t鬆氣\n松油管\t鬆油管\n松油门\t鬆油門\n松浮\t鬆浮\n松狮\t鬆獅\n松糕\t鬆糕\n松紧\t鬆緊\n松紧带\t鬆緊帶\n松绑\t鬆綁\n松缓\t鬆緩\n松脆\t鬆脆\n松脆饼\t鬆脆餅\n松脱\t鬆脫\n松蛋\t鬆蛋\n松蛋包\t鬆蛋包\n松解\t鬆解\n松赞干布\t松贊干布\n松赞干布陵\t松贊干布陵\n松起\t鬆起\n松起来\t鬆起來\n松软\t鬆軟\n松软适口\t鬆軟適口\n松通\t鬆通\n松饼\t鬆餅\n板岩\t板岩\n板板\t闆闆\n极坐标\t極座標\n极坐标系\t極座標系\n枕借\t枕藉\n枕席\t枕蓆\n枕状玄武岩\t枕狀玄武岩\n林冲\t林沖\n林冲夜奔\t林沖夜奔\n林占梅\t林占梅\n林国梁\t林國樑\n林干闵\t林乾閔\n林杰梁\t林杰樑\n林正杰\t林正杰\n林芳郁\t林芳郁\n林郁方\t林郁方\n林钟\t林鐘\n果子干\t果子乾\n果子干儿\t果子乾兒\n果干\t果乾\n枝不得大于干\t枝不得大於榦\n枪杆\t槍桿\n枪杆儿\t槍桿兒\n枪杆子\t槍桿子\n枯干\t枯乾\n枯草杆菌\t枯草桿菌\n架梁\t架樑\n架钟\t架鐘\n柏克里克千佛洞\t柏克里克千佛洞\n柏卡里\t柏卡里\n柏里斯\t柏里斯\n某只\t某隻\n染发\t染髮\n染发剂\t染髮劑\n染干\t染干\n柜台\t櫃檯\n柜台委讬\t櫃檯委託\n柜柳\t柜柳\n查干\t查干\n查干湖\t查干湖\n查找周期\t查找週期\n查核\t查覈\n查询台\t查詢檯\n柯普里亚诺夫\t柯普里亞諾夫\n柯里\t柯里\n柱梁\t柱樑\n柳升耀\t柳昇耀\n柳斌杰\t柳斌杰\n柿干\t柿乾\n标准杆\t標準桿\n标占\t標占\n标志\t標誌\n标志性\t標誌性\n标志着\t標誌着\n标注\t標註\n标致\t標緻\n标里镇\t標里鎮\n栉发工\t櫛髮工\n栋梁\t棟樑\n栋梁之任\t棟樑之任\n栋梁之材\t棟樑之材\n栋梁之臣\t棟樑之臣\n栏干\t欄干\n树梁\t樹樑\n栗冽\t慄冽\n栗栗\t慄慄\n栗栗不安\t慄慄不安\n栗栗危惧\t慄慄危懼\n栗然\t慄然\n校核\t校覈\n核价\t覈價\n核保\t覈保\n核准\t覈准\n核准的\t覈准的\n核减\t覈減\n核复\t覈覆\n核字\t覈字\n核定\t覈定\n核实\t覈實\n核审\t覈審\n核对\t覈對\n核对表\t覈對表\n核批\t覈批\n核报\t覈報\n核拨\t覈撥\n核收\t覈收\n核查\t覈查\n核查制度\t覈查制度\n核示\t覈示\n核算\t覈算\n核编\t覈編\n核计\t覈計\n核资\t覈資\n核销\t覈銷\n核防御\t核防禦\n核验\t覈驗\n根烟\t根菸\n根须\t根鬚\n格列高利历\t格列高利曆\n格拉哥里字母\t格拉哥里字母\n格里\t格里\n格里历\t格里曆\n格里姆斯塔\t格里姆斯塔\n格里高利\t格里高利\n格里高利历\t格里高利曆\n栽觔斗\t栽觔斗\n栽跟斗\t栽跟斗\n桂仔云\t桂仔云\n桂圆干\t桂圓乾\n桃干\t桃乾\n案准\t案准\n案几\t案几\n桌几\t桌几\n桌历\t桌曆\n桑干\t桑乾\n桑干河\t桑乾河\n桑干盆地\t桑乾盆地\n桑托里尼岛\t桑托里尼島\n桥梁\t橋樑\n桥梁工事\t橋樑工事\n桥梁工程\t橋樑工程\n梁上\t樑上\n梁上君子\t樑上君子\n梁升卿\t梁昇卿\n梁子\t樑子\n梁文冲\t梁文沖\n梁木其坏\t樑木其壞\n梁架\t樑架\n梁柱\t樑柱\n梁栋\t樑棟\n梁龙\t樑龍\n梅干\t梅乾\n梅干菜\t梅乾菜\n梅里\t梅里\n梅里亚\t梅里亞\n梅里亚姆韦伯斯特\t梅里亞姆韋伯斯特\n梅里斯\t梅里斯\n梅里斯区\t梅里斯區\n梅里斯达斡尔族区\t梅里斯達斡爾族區\n梅里美\t梅里美\n梅里雪山\t梅里雪山\n梓里\t梓里\n梦兰叶吉\t夢蘭叶吉\n梦回\t夢迴\n梦有五不占\t夢有五不占\n梦系\t夢繫\n梨干\t梨乾\n梨干儿\t梨乾兒\n械系\t械繫\n梳发\t梳髮\n梳头发\t梳頭髮\n梳妆台\t梳妝檯\n梳芙厘\t梳芙厘\n检复\t檢覆\n棉制\t棉製\n棋布\t棋佈\n棋布星罗\t棋佈星羅\n棋罗星布\t棋羅星佈\n棒子面\t棒子麪\n棒曲霉素\t棒麴黴素\n棒状杆菌\t棒狀桿菌\n棠溪\t棠谿\n植发\t植髮\n植物志\t植物誌\n椰子干\t椰子乾\n椰枣干\t椰棗乾\n榨干\t榨乾\n榴梿干\t榴槤乾\n榴莲干\t榴蓮乾\n樠溪\t樠谿\n模制\t模製\n模制品\t模製品\n模里西斯\t模里西斯\n模里西斯共和国\t模里西斯共和國\n横梁\t橫樑\n横筋斗\t橫筋斗\n樱花杯\t櫻花盃\n橄榄岩\t橄欖岩\n橄榄干\t橄欖乾\n橡子面\t橡子麪\n橡子面儿\t橡子麪兒\n橡斗\t橡斗\n欧几里得\t歐幾里得\n欧几里得原理\t歐幾里得原理\n欧几里德\t歐幾里德\n欧洲杯\t歐洲盃\n欧特里尼\t歐特里尼\n欧里\t歐里\n欧里庇得斯\t歐里庇得斯\n欧里桑\t歐里桑\n欲令智昏\t慾令智昏\n欲壑难填\t慾壑難填\n欲女\t慾女\n欲念\t慾念\n欲望\t慾望\n欲求不满\t慾求不滿\n欲海\t慾海\n欲深溪壑\t欲深谿壑\n欲火\t慾火\n欲火焚身\t慾火焚身\n欲穷千里目\t欲窮千里目\n欲障\t慾障\n欷吁\t欷吁\n欺蒙\t欺矇\n歇斯底里\t歇斯底里\n歌后\t歌后\n歌手丁当\t歌手丁噹\n歌舞升平\t歌舞昇平\n歌钟\t歌鐘\n止谤莫如自修\t止謗莫如自脩\n正凶\t正凶\n正斗粥面专家\t正斗粥麪專家\n正梁\t正樑\n此仆彼起\t此仆彼起\n此系\t此係\n步斗踏罡\t步斗踏罡\n步步高升\t步步高昇\n步罡踏斗\t步罡踏斗\n武丑\t武丑\n武后\t武后\n武里省\t武里省\n歪摆布\t歪擺佈\n死伤枕借\t死傷枕藉\n死伤相借\t死傷相藉\n死而复苏\t死而復甦\n死胡同\t死衚衕\n死面\t死麪\n殊域周咨录\t殊域周咨錄\n殖谷\t殖穀\n殿钟自鸣\t殿鐘自鳴\n毁炎\t燬炎\n毁犀\t燬犀\n毁誉\t譭譽\n毁誉参半\t譭譽參半\n毁诬\t譭誣\n毁钟为铎\t毀鐘爲鐸\n母乳喂养\t母乳餵養\n母后\t母后\n母钟\t母鐘\n每公里\t每公里\n每分钟\t每分鐘\n每只\t每隻\n每周\t每週\n每周一次\t每週一次\n每秒钟\t每秒鐘\n毒僵指\t毒殭指\n比干\t比干\n比杆赛\t比桿賽\n毕升\t畢昇\n毗婆尸佛\t毗婆尸佛\n毛发\t毛髮\n毛发之功\t毛髮之功\n毛发俱竖\t毛髮俱豎\n毛发倒竖\t毛髮倒豎\n毛发悚然\t毛髮悚然\n毛发森竖\t毛髮森豎\n毛发皆竖\t毛髮皆豎\n毛发耸然\t毛髮聳然\n毛姜\t毛薑\n毫不相干\t毫不相干\n毫厘千里\t毫釐千里\n毫发\t毫髮\n毫发不差\t毫髮不差\n毫发不爽\t毫髮不爽\n毫发之差\t毫髮之差\n毫发无损\t毫髮無損\n毫发未伤\t毫髮未傷\n毫居里\t毫居里\n民政里\t民政里\n民族志\t民族誌\n气克斗牛\t氣克斗牛\n气冲冲\t氣沖沖\n气冲斗牛\t氣沖斗牛\n气冲牛斗\t氣沖牛斗\n气冲霄汉\t氣沖霄漢\n气势熏灼\t氣勢熏灼\n气吁吁\t氣吁吁\n气吞牛斗\t氣吞牛斗\n气喘吁吁\t氣喘吁吁\n气扬采飞\t氣揚采飛\n气焰万丈\t氣燄萬丈\n气焰熏天\t氣焰熏天\n气若游丝\t氣若游絲\n氢卤酸\t氫鹵酸\n水已干\t水已乾\n水干\t水乾\n水干尽\t水乾盡\n水干掉\t水乾掉\n水当当\t水噹噹\n水成岩\t水成岩\n水才干\t水纔乾\n水斗\t水斗\n水波荡漾\t水波盪漾\n水烟袋\t水菸袋\n水秋千\t水鞦韆\n水管面\t水管麪\n水表\t水錶\n水谷之海\t水穀之海\n水里乡\t水里鄉\n水面系数\t水面係數\n水龙卷\t水龍捲\n永历\t永曆\n永志不忘\t永誌不忘\n求知欲\t求知慾\n汇业\t滙業\n汇业财经集团\t滙業財經集團\n汇业银行\t滙業銀行\n汇丰\t滙豐\n汇丰银行\t滙豐銀行\n汇刊\t彙刊\n汇总\t彙總\n汇报\t彙報\n汇整\t彙整\n汇映\t彙映\n汇算\t彙算\n汇纂\t彙纂\n汇编\t彙編\n汇辑\t彙輯\n汇集\t彙集\n汉弥登钟\t漢彌登鐘\n汉弥登钟表公司\t漢彌登鐘錶公司\n汗洽股栗\t汗洽股慄\n汗腾格里\t汗騰格里\n江南机器制造局\t江南機器製造局\n江干\t江干\n江干区\t江乾區\n江采苹\t江采蘋\n污蔑\t污衊\n汤下面\t湯下麪\n汤加里罗\t湯加里羅\n汤团\t湯糰\n汤面\t湯麪\n沃依采克\t沃依采克\n沃野千里\t沃野千里\n沈北新区\t瀋北新區\n沈吉线\t瀋吉線\n沈山线\t瀋山線\n沈州\t瀋州\n沈水\t瀋水\n沈河\t瀋河\n沈河区\t瀋河區\n沈海\t瀋海\n沈海铁路\t瀋海鐵路\n沈阳\t瀋陽\n沈阳市\t瀋陽市\n沈阳师范\t瀋陽師範\n沈阳师范大学\t瀋陽師範大學\n沉积岩\t沉積岩\n沙仑\t沙崙\n沙参\t沙蔘\n沙坑杆\t沙坑桿\n沙岩\t沙岩\n沙河涌\t沙河涌\n沙茶面\t沙茶麪\n沙里夫\t沙里夫\n沙鱼涌\t沙魚涌\n没做摆布\t沒做擺佈\n没关系\t沒關係\n没干净\t沒乾淨\n没干没净\t沒乾沒淨\n没折至\t沒摺至\n没摆布处\t沒擺佈處\n没有联系\t沒有聯繫\n没松下\t沒鬆下\n没爷娘的祖宗\t沒爺孃的祖宗\n没爹没娘\t沒爹沒孃\n没签\t沒簽\n没精打采\t沒精打采\n没脊梁\t沒脊樑\n没采\t沒采\n没量斗\t沒量斗\n沥干\t瀝乾\n河升镇\t河昇鎮\n河干\t河干\n河涌\t河涌\n河涸海干\t河涸海乾\n河落海干\t河落海乾\n河里孩儿岸上娘\t河裏孩兒岸上孃\n油泼面\t油潑麪\n油漆未干\t油漆未乾\n油茶面儿\t油茶麪兒\n油酱面\t油醬麪\n油面\t油麪\n油页岩\t油頁岩\n治愈\t治癒\n沽名干誉\t沽名干譽\n沾临高速\t霑臨高速\n沾会高速\t霑會高速\n沾体\t霑體\n沾体涂足\t霑體塗足\n沾化\t霑化\n沾恩\t霑恩\n沾洽\t霑洽\n沾益\t霑益\n沾衿\t霑衿\n沾青线\t霑青線\n沾面\t沾麪\n泄欲\t泄慾\n泊松分布\t泊松分佈\n泐复\t泐覆\n法布施\t法佈施\n法雨均沾\t法雨均霑\n泛水凌山\t汎水淩山\n泛滥\t氾濫\n泡制\t泡製\n泡沫发胶\t泡沫髮膠\n泡面\t泡麪\n泡面哲学\t泡麪哲學\n泡面市场\t泡麪市場\n波光荡漾\t波光盪漾\n波发藻\t波髮藻\n波哥里卡\t波哥里卡\n波尔干\t波爾干\n波尔干地区\t波爾干地區\n波斯里亚\t波斯里亞\n波浪周期\t波浪週期\n波荡\t波盪\n波里\t波里\n波里尼西亚\t波里尼西亞\n波里尼西亚人\t波里尼西亞人\n波里斯\t波里斯\n泥岩\t泥岩\n泥板岩\t泥板岩\n泥涌\t泥涌\n泥灰岩\t泥灰岩\n泥质岩\t泥質岩\n泥质页岩\t泥質頁岩\n注上\t註上\n注云\t注云\n注册\t註冊\n注册主任\t註冊主任\n注册人\t註冊人\n注册单\t註冊單\n注册商标\t註冊商標\n注册手续\t註冊手續\n注册日\t註冊日\n注册用户\t註冊用戶\n注册码\t註冊碼\n注册组\t註冊組\n注册费\t註冊費\n注名\t註名\n注失\t註失\n注定\t註定\n注批\t註批\n注文\t註文\n注明\t註明\n注标\t註標\n注生娘娘\t註生娘娘\n注疏\t註疏\n注脚\t註腳\n注解\t註解\n注记\t註記\n注译\t註譯\n注释\t註釋\n注销\t註銷\n泪干\t淚乾\n泪干肠断\t淚乾腸斷\n泪眼蒙眬\t淚眼矇矓\n泰山北斗\t泰山北斗\n泰斗\t泰斗\n泳气钟\t泳氣鐘\n泽卤\t澤鹵\n泽渗漓而下降\t澤滲灕而下降\n泽里可\t澤里可\n洄暗\t洄闇\n洄游\t洄游\n洋参\t洋蔘\n洋干漆\t洋乾漆\n洋李干\t洋李乾\n洋烟\t洋菸\n洋面\t洋麪\n洗发\t洗髮\n洗发乳\t洗髮乳\n洗发剂\t洗髮劑\n洗发水\t洗髮水\n洗发水儿\t洗髮水兒\n洗发皂\t洗髮皂\n洗发粉\t洗髮粉\n洗发精\t洗髮精\n洗发膏\t洗髮膏\n洗发露\t洗髮露\n洗头发\t洗頭髮\n洗干净\t洗乾淨\n洗手台\t洗手檯\n洗脸台\t洗臉檯\n洗荡\t洗盪\n洗面皂\t洗面皂\n洛钟东应\t洛鐘東應\n洞山良价\t洞山良价\n洞见症结\t洞見癥結\n津梁\t津樑\n洪升\t洪昇\n洪士杰\t洪士杰\n洪炉燎发\t洪爐燎髮\n洪适\t洪适\n洪都百炼生\t洪都百鍊生\n洪钟\t洪鐘\n洲际杯\t洲際盃\n活体肝脏移植\t活體肝臟移植\n活塞杆\t活塞桿\n活扣\t活釦\n活饥荒\t活饑荒\n流布\t流佈\n流干\t流乾\n流纹岩\t流紋岩\n流血千里\t流血千里\n流血浮尸\t流血浮尸\n流血漂卤\t流血漂鹵\n流风回雪\t流風迴雪\n浆水面\t漿水麪\n浇制\t澆製\n浊积岩\t濁積岩\n浊臭熏天\t濁臭熏天\n测量杆\t測量桿\n浑仪注\t渾儀註\n浓云密布\t濃雲密佈\n浓发\t濃髮\n浓郁\t濃郁\n浓雾密布\t濃霧密佈\n浙江天台县\t浙江天台縣\n浚县\t濬縣\n浪琴表\t浪琴錶\n浪蝶游蜂\t浪蝶游蜂\n浮松\t浮鬆\n浮游\t浮游\n浮游动物\t浮游動物\n浮游植物\t浮游植物\n浮游生物\t浮游生物\n浮签\t浮簽\n海上台风警报\t海上颱風警報\n海上布雷\t海上佈雷\n海上游\t海上游\n海于格松\t海于格松\n海参\t海蔘\n海宇升平\t海宇昇平\n海岳名言\t海岳名言\n海干\t海乾\n海干河尽\t海乾河盡\n海德里\t海德里\n海水不可斗量\t海水不可斗量\n海淀\t海淀\n海淀区\t海淀區\n海淀图书城\t海淀圖書城\n海湾布雷\t海灣佈雷\n海里\t海里\n海马回\t海馬迴\n海鲜面\t海鮮麪\n浸制\t浸製\n涂善妮\t涂善妮\n涂坤\t涂坤\n涂壮勋\t涂壯勳\n涂天相\t涂天相\n涂姓\t涂姓\n涂尔干\t涂爾幹\n涂居贤\t涂居賢\n涂序瑄\t涂序瑄\n涂惠元\t涂惠元\n涂惠源\t涂惠源\n涂惠源雨\t涂惠源雨\n涂敏恒\t涂敏恆\n涂文生\t涂文生\n涂月\t涂月\n涂永辉\t涂永輝\n涂泽民\t涂澤民\n涂浆台\t塗漿檯\n涂绍煃\t涂紹煃\n涂美伦\t涂美倫\n涂羽卿\t涂羽卿\n涂谨申\t涂謹申\n涂逢年\t涂逢年\n涂醒哲\t涂醒哲\n涂长望\t涂長望\n涂鸿钦\t涂鴻欽\n消费欲\t消費慾\n涌尾\t涌尾\n涤瑕荡垢\t滌瑕盪垢\n涤瑕荡秽\t滌瑕盪穢\n涤秽荡瑕\t滌穢盪瑕\n涤荡\t滌盪\n润发\t潤髮\n液晶表\t液晶錶\n液面\t液麪\n涳蒙\t涳濛\n涸干\t涸乾\n淋冲\t淋沖\n淑郁\t淑郁\n淡蒙蒙\t淡濛濛\n淫欲\t淫慾\n淬炼\t淬鍊\n深山何处钟\t深山何處鐘\n深成岩\t深成岩\n深涌\t深涌\n淳于\t淳于\n淳于意\t淳于意\n淳于髡\t淳于髡\n清台\t清檯\n清心寡欲\t清心寡慾\n清晨杯\t清晨盃\n清杆运动\t清桿運動\n清水下杂面\t清水下雜麪\n清汤挂面\t清湯掛麪\n渍已干\t漬已乾\n渝筑高速\t渝筑高速\n温布里\t溫布里\n港制\t港製\n港制品\t港製品\n游上\t游上\n游上去\t游上去\n游上来\t游上來\n游下\t游下\n游下去\t游下去\n游下来\t游下來\n游乃海\t游乃海\n游僧攒住持\t游僧攢住持\n游出\t游出\n游击\t游擊\n游击区\t游擊區\n游击战\t游擊戰\n游击手\t游擊手\n游击队\t游擊隊\n游到\t游到\n游去\t游去\n游回\t游回\n游回去\t游回去\n游回来\t游回來\n游囿伦\t游囿倫\n游完\t游完\n游尘\t游塵\n游履\t游履\n游弋\t游弋\n游志宏\t游志宏\n游戏机台\t遊戲機檯\n游文宏\t游文宏\n游明金\t游明金\n游昭钦\t游昭欽\n游来\t游來\n游来游去\t游來游去\n游标\t游標\n游标位置\t游標位置\n游标卡尺\t游標卡尺\n游水\t游水\n游泮\t游泮\n游泳\t游泳\n游泳圈\t游泳圈\n游泳池\t游泳池\n游泳衣\t游泳衣\n游泳裤\t游泳褲\n游泳课\t游泳課\n游泳赛\t游泳賽\n游泳镜\t游泳鏡\n游泳队\t游泳隊\n游泳馆\t游泳館\n游牧\t游牧\n游牧区\t游牧區\n游牧民族\t游牧民族\n游皓玮\t游皓瑋\n游盈隆\t游盈隆\n游离\t游離\n游离层\t游離層\n游离电子\t游離電子\n游离票\t游離票\n游离辐射\t游離輻射\n游禽类\t游禽類\n游移\t游移\n游移不决\t游移不決\n游移不定\t游移不定\n游芳来\t游芳來\n游资\t游資\n游资泛滥\t游資氾濫\n游过去\t游過去\n游过来\t游過來\n游进去\t游進去\n游进来\t游進來\n游锡坤\t游錫坤\n游锡堃\t游錫堃\n游锡昆\t游錫昆\n游鱼\t游魚\n游鸿儒\t游鴻儒\n游鸿明\t游鴻明\n游龙\t游龍\n游龙戏凤\t游龍戲鳳\n游龙荣\t游龍榮\n湟潦生苹\t湟潦生苹\n湿肉伴干柴\t溼肉伴乾柴\n溜须\t溜鬚\n溜须拍马\t溜鬚拍馬\n溟蒙\t溟濛\n溪涌\t溪涌\n溯游\t溯游\n溲面\t溲麪\n溶岩\t溶岩\n溶岩流\t溶岩流\n滑借\t滑藉\n滑杆\t滑桿\n满口称赞\t滿口稱讚\n满天星斗\t滿天星斗\n满头洋发\t滿頭洋髮\n满布疑云\t滿佈疑雲\n满洲里\t滿洲里\n满洲里市\t滿洲里市\n滴干\t滴乾\n滴水漏斗\t滴水漏斗\n滴里嘟噜\t滴哩嘟嚕\n滴里搭拉\t滴哩搭拉\n滴里耷拉\t滴哩耷拉\n漂游\t漂游\n漂荡\t漂盪\n漏斗\t漏斗\n漏斗器\t漏斗器\n漏斗状花冠\t漏斗狀花冠\n漏斗管\t漏斗管\n漏斗胸\t漏斗胸\n漏网游鱼\t漏網游魚\n漓水\t灕水\n漓江\t灕江\n漓湘\t灕湘\n漓然\t灕然\n漕挽\t漕輓\n潕溪\t潕谿\n潘威志\t潘威誌\n潘安白发\t潘安白髮\n潘岳\t潘岳\n潘岳白发\t潘岳白髮\n潜丘札记\t潛丘劄記\n潜水表\t潛水錶\n潜水钟\t潛水鐘\n潜水钟表\t潛水鐘錶\n潜游\t潛游\n潟卤\t潟鹵\n潭祉叶吉\t潭祉叶吉\n潮烟\t潮菸\n澄江\t澂江\n澄澹精致\t澄澹精緻\n澎湖天后宫\t澎湖天后宮\n澒蒙\t澒濛\n澹荡\t澹盪\n激荡\t激盪\n激荡不已\t激盪不已\n激荡出\t激盪出\n灌制\t灌製\n火山岩\t火山岩\n火并\t火併\n火成岩\t火成岩\n火折子\t火摺子\n火斗\t火斗\n火杯\t火盃\n火柴杆\t火柴桿\n火箭布雷\t火箭佈雷\n火绳杆\t火繩桿\n火鸡面\t火雞麪\n灯彩\t燈綵\n灰发\t灰髮\n灰灰蒙蒙\t灰灰濛濛\n灰胡\t灰鬍\n灰蒙\t灰濛\n灰蒙蒙\t灰濛濛\n灵修\t靈脩\n灵欲\t靈慾\n灵迹\t靈蹟\n炆面\t炆麪\n炊烟袅袅\t炊煙裊裊\n炊臼之戚\t炊臼之鏚\n炒码面\t炒碼麪\n炒面\t炒麪\n炒面块子\t炒麪塊子\n炒鳝面\t炒鱔麪\n炕席\t炕蓆\n炭疽杆菌\t炭疽桿菌\n炮制\t炮製\n炮台山循道卫理中学\t炮台山循道衛理中學\n炸毁\t炸燬\n炸酱面\t炸醬麪\n点半钟\t點半鐘\n点多钟\t點多鐘\n点烟\t點菸\n点烟器\t點菸器\n点钟\t點鐘\n炼冶\t鍊冶\n炼制\t煉製\n炼制厂\t煉製廠\n炼师\t鍊師\n炼度\t鍊度\n炼汞\t鍊汞\n炼贫\t鍊貧\n炼金\t鍊金\n炼金术\t鍊金術\n烈火干柴\t烈火乾柴\n烘制\t烘製\n烘干\t烘乾\n烘干机\t烘乾機\n烟丝\t菸絲\n烟农\t菸農\n烟卷\t菸捲\n烟卷儿\t菸捲兒\n烟厂\t菸廠\n烟叶\t菸葉\n烟嘴\t菸嘴\n烟嘴儿\t菸嘴兒\n烟圈\t菸圈\n烟头\t菸頭\n烟害\t菸害\n烟家伙\t煙傢伙\n烟屁股\t菸屁股\n烟斗\t菸斗\n烟斗丝\t菸斗絲\n烟杆\t煙桿\n烟民\t菸民\n烟灰\t菸灰\n烟灰缸\t菸灰缸\n烟焰障天\t煙燄障天\n烟熏火燎\t煙熏火燎\n烟碱\t菸鹼\n烟碱酸\t菸鹼酸\n烟禁\t菸禁\n烟管面\t煙管麪\n烟纸店\t菸紙店\n烟缸\t菸缸\n烟草\t菸草\n烟草味\t菸草味\n烟蒂\t菸蒂\n烟蚜\t菸蚜\n烟袋\t菸袋\n烟袋哨子\t菸袋哨子\n烟袋嘴\t菸袋嘴\n烟袋嘴儿\t菸袋嘴兒\n烟袋杆儿\t菸袋桿兒\n烟袋油子\t菸袋油子\n烟袋荷包\t菸袋荷包\n烟袋锅子\t菸袋鍋子\n烟酒\t菸酒\n烟酒公卖\t菸酒公賣\n烟酒公卖局\t菸酒公賣局\n烟酒税\t菸酒稅\n烟雾弥漫\t煙霧瀰漫\n烤干\t烤乾\n烤面包\t烤麪包\n烤面包机\t烤麪包機\n烦复\t煩複\n烧制\t燒製\n烧干\t燒乾\n烧毁\t燒燬\n烩面\t燴麪\n烫一个发\t燙一個髮\n烫一次发\t燙一次髮\n烫个发\t燙個髮\n烫发\t燙髮\n烫发师\t燙髮師\n烫头发\t燙頭髮\n烫完发\t燙完髮\n烫次发\t燙次髮\n烫面\t燙麪\n热干面\t熱乾麪\n热闹哄哄\t熱鬧鬨鬨\n烹制\t烹製\n焖肉面\t燜肉麪\n焖面\t燜麪\n焗猪扒面\t焗豬扒麪\n焗面\t焗麪\n焙干\t焙乾\n焚毁\t焚燬\n焦干\t焦乾\n焦获\t焦穫\n然身死才数月耳\t然身死纔數月耳\n煎面\t煎麪\n煤气表\t煤氣錶\n照相制版\t照相製版\n照相干片\t照相乾片\n照签\t照簽\n照签不误\t照簽不誤\n煨干\t煨乾\n煨干就湿\t煨乾就溼\n煨干避湿\t煨乾避溼\n煮粥焚须\t煮粥焚鬚\n煮面\t煮麪\n煴斗\t熅斗\n熏习\t熏習\n熏制\t熏製\n熏天\t熏天\n熏染\t薰染\n熏沐\t薰沐\n熏烝\t熏烝\n熏熏\t熏熏\n熏笼\t熏籠\n熏腐\t熏腐\n熏蒸剂\t熏蒸劑\n熏蒸室\t熏蒸室\n熏衣\t薰衣\n熏衣草\t薰衣草\n熏陶\t薰陶\n熏陶成性\t熏陶成性\n熏风\t薰風\n熏风徐来\t熏風徐來\n熏香\t薰香\n熔岩\t熔岩\n熔岩流\t熔岩流\n熔岩湖\t熔岩湖\n熔岩穹丘\t熔岩穹丘\n熔毁\t熔燬\n熔融岩浆\t熔融岩漿\n熨斗\t熨斗\n熬制\t熬製\n熬姜呷醋\t熬薑呷醋\n燎发\t燎髮\n燕几\t燕几\n燕燕于飞\t燕燕于飛\n爱困\t愛睏\n爱彼表\t愛彼錶\n爱情征服一切\t愛情征服一切\n爱抽烟\t愛抽菸\n爱欲\t愛慾\n爷娘\t爺孃\n爷羹娘饭\t爺羹孃飯\n爷饭娘羹\t爺飯孃羹\n爹娘\t爹孃\n片岩\t片岩\n片纸只字\t片紙隻字\n片言只字\t片言隻字\n片言只语\t片言隻語\n片语只字\t片語隻字\n片语只辞\t片語隻辭\n片麻岩\t片麻岩\n牖里\t牖里\n牛只\t牛隻\n牛柳面\t牛柳麪\n牛筋面\t牛筋麪\n牛肉干\t牛肉乾\n牛肉拉面\t牛肉拉麪\n牛肉汤面\t牛肉湯麪\n牛肉炒面\t牛肉炒麪\n牛肉面\t牛肉麪\n牛肉面节\t牛肉麪節\n牛腩面\t牛腩麪\n牛表牛斤\t牛表牛觔\n牛角面包\t牛角麪包\n物欲\t物慾\n物欲世界\t物慾世界\n物欲横流\t物慾橫流\n牵一发\t牽一髮\n牵一发而动全身\t牽一髮而動全身\n牵系\t牽繫\n牵藤带叶\t牽籐帶葉\n特内里费\t特內里費\n特准\t特准\n特别致\t特別緻\n特制\t特製\n特制品\t特製品\n特里\t特里\n特里尔\t特里爾\n犬只\t犬隻\n犯罪团伙\t犯罪團伙\n犹太历\t猶太曆\n犹如表\t猶如錶\n犹如钟\t猶如鐘\n犹如钟表\t猶如鐘錶\n狂并潮\t狂併潮\n狄志杰\t狄志杰\n狄里斯\t狄里斯\n狎妓冶游\t狎妓冶游\n狐借虎威\t狐藉虎威\n狗占马坑\t狗占馬坑\n狗娘养的\t狗孃養的\n狗扣\t狗釦\n独具只眼\t獨具隻眼\n独挑大梁\t獨挑大樑\n狼吞虎咽\t狼吞虎嚥\n狼飧虎咽\t狼飧虎嚥\n狼餐虎咽\t狼餐虎嚥\n猜三划五\t猜三划五\n猪只\t豬隻\n猪肉干\t豬肉乾\n猪肉面\t豬肉麪\n猪肝面\t豬肝麪\n猪脚面\t豬腳麪\n猪脚面线\t豬腳麪線\n猪舌面\t豬舌麪\n猫耳面\t貓耳麪\n猴面包\t猴麪包\n猴面包树\t猴麪包樹\n玄制\t玄製\n玄参\t玄蔘\n玄武岩\t玄武岩\n玄武质熔岩\t玄武質熔岩\n玄针\t玄鍼\n玉制\t玉製\n玉历\t玉曆\n玉斗\t玉斗\n玉溪生\t玉谿生\n玉米面\t玉米麪\n玉米须\t玉米鬚\n玉里\t玉里\n玉里镇\t玉里鎮\n玉面狸\t玉面貍\n王于真\t王于真\n王侯后\t王侯后\n王后\t王后\n王太后\t王太后\n王子面\t王子麪\n王干发\t王乾發\n王正杰\t王正杰\n王范\t王范\n玢岩\t玢岩\n玩忽\t翫忽\n玻里尼西\t玻里尼西\n玻里尼西亚人\t玻里尼西亞人\n珂里\t珂里\n珍珠岩\t珍珠岩\n珍珠项链\t珍珠項鍊\n珐琅彩\t琺瑯彩\n珠斗烂班\t珠斗爛班\n球台\t球檯\n球后\t球后\n球后小\t球后小\n球后艾宁\t球后艾寧\n球后辛吉丝\t球后辛吉絲\n理一个发\t理一個髮\n理一次发\t理一次髮\n理个发\t理個髮\n理事长杯\t理事長盃\n理发\t理髮\n理发匠\t理髮匠\n理发厅\t理髮廳\n理发员\t理髮員\n理发师\t理髮師\n理发师傅\t理髮師傅\n理发店\t理髮店\n理发院\t理髮院\n理头发\t理頭髮\n理完发\t理完髮\n理次发\t理次髮\n理胡子\t理鬍子\n琴弦\t琴絃\n琴断朱弦\t琴斷朱絃\n琴杆\t琴桿\n琴钟\t琴鐘\n瑞士卷\t瑞士捲\n瑞签\t瑞簽\n瑞贝里\t瑞貝里\n瓦尔基里\t瓦爾基里\n瓦拉干\t瓦拉干\n瓦萨里\t瓦薩里\n瓦西里\t瓦西里\n瓦西里耶维奇\t瓦西里耶維奇\n瓦里\t瓦里\n瓦里斯\t瓦里斯\n瓮尽杯干\t甕盡杯乾\n甄后\t甄后\n甘居下游\t甘居下游\n甘巴里\t甘巴里\n甜水面\t甜水麪\n甜萝卜\t甜蘿蔔\n甜面酱\t甜麪醬\n生力面\t生力麪\n生华发\t生華髮\n生发\t生髮\n生发剂\t生髮劑\n生发水\t生髮水\n生发药\t生髮藥\n生命周期\t生命週期\n生姜\t生薑\n生姜丝\t生薑絲\n生姜汁\t生薑汁\n生姜片\t生薑片\n生态环境游\t生態環境游\n生旦净末丑\t生旦淨末丑\n生死轮回\t生死輪迴\n生殖洄游\t生殖洄游\n生物制剂\t生物製劑\n生物制品\t生物製品\n生物时钟\t生物時鐘\n生物钟\t生物鐘\n生理时钟\t生理時鐘\n生田斗\t生田斗\n生面团\t生麪糰\n甩发\t甩髮\n甪里\t甪里\n甯采臣\t甯采臣\n田谷\t田穀\n由余\t由余\n甲胄\t甲冑\n甲胄鱼类\t甲冑魚類\n申复\t申覆\n电复\t電覆\n电子杂志\t電子雜誌\n电子表\t電子錶\n电子钟\t電子鐘\n电子钟表\t電子鐘錶\n电影制作\t電影製作\n电影制片\t電影製片\n电熨斗\t電熨斗\n电磁干扰\t電磁干擾\n电磁振荡\t電磁振盪\n电缆调制解调器\t電纜調製解調器\n电胡刀\t電鬍刀\n电脑台\t電腦檯\n电脑网志\t電腦網誌\n电表\t電錶\n电钟\t電鐘\n电须刀\t電鬚刀\n男用表\t男用錶\n画栋雕梁\t畫棟雕樑\n画梁雕栋\t畫樑雕棟\n留发\t留髮\n留头发\t留頭髮\n留胡子\t留鬍子\n留胡须\t留鬍鬚\n留连不舍\t留連不捨\n畚斗\t畚斗\n番茄面\t番茄麪\n疏松\t疏鬆\n疏松症\t疏鬆症\n疑系\t疑係\n疲困\t疲睏\n病愈\t病癒\n症结\t癥結\n症结点\t癥結點\n痊愈\t痊癒\n痢疾杆菌\t痢疾桿菌\n瘦小枯干\t瘦小枯乾\n癸丑\t癸丑\n登机手续柜台\t登機手續櫃檯\n白云岩\t白雲岩\n白僵蚕\t白殭蠶\n白发\t白髮\n白发人\t白髮人\n白发如新\t白髮如新\n白发朱颜\t白髮朱顏\n白发相守\t白髮相守\n白发红颜\t白髮紅顏\n白发苍苍\t白髮蒼蒼\n白发苍颜\t白髮蒼顏\n白发郎潜\t白髮郎潛\n白发银须\t白髮銀鬚\n白发青衫\t白髮青衫\n白发齐眉\t白髮齊眉\n白喉杆菌\t白喉桿菌\n白干\t白乾\n白干儿\t白乾兒\n白日升天\t白日昇天\n白日飞升\t白日飛昇\n白术\t白朮\n白杆兵\t白桿兵\n白洋淀\t白洋淀\n白粉面\t白粉麪\n白胡\t白鬍\n白萝卜\t白蘿蔔\n白蒙蒙\t白濛濛\n白里安\t白里安\n白面\t白麪\n白面儿\t白麪兒\n白面无须\t白面無鬚\n白须\t白鬚\n百余只\t百餘隻\n百余里\t百餘里\n百只\t百隻\n百叶卷\t百葉捲\n百多只\t百多隻\n百扎\t百紮\n百折裙\t百摺裙\n百炼\t百鍊\n百炼成钢\t百鍊成鋼\n百花历\t百花曆\n百谷\t百穀\n百辟\t百辟\n百里\t百里\n百里之才\t百里之才\n百里侯\t百里侯\n百里傒\t百里傒\n百里香\t百里香\n百香果干\t百香果乾\n皂化\t皂化\n皂荚\t皂莢\n皂荚树\t皂莢樹\n皂角\t皂角\n的钟\t的鐘\n的黎波里\t的黎波里\n皇历\t皇曆\n皇后\t皇后\n皇后区\t皇后區\n皇后号\t皇后號\n皇后镇\t皇后鎮\n皇天后土\t皇天后土\n皇太后\t皇太后\n皇家马德里\t皇家馬德里\n皇极历\t皇極曆\n皇辟\t皇辟\n皓发\t皓髮\n皓月千里\t皓月千里\n皮划艇\t皮划艇\n皮划艇激流回旋\t皮划艇激流回旋\n皮划艇静水\t皮划艇靜水\n皮制\t皮製\n皮制品\t皮製品\n皮松\t皮鬆\n皮松肉紧\t皮鬆肉緊\n皮松骨痒\t皮鬆骨癢\n皱别\t皺彆\n皱折\t皺摺\n盎盂相系\t盎盂相繫\n监制\t監製\n监系\t監繫\n盗跖\t盜跖\n盗钟\t盜鐘\n盗钟掩耳\t盜鐘掩耳\n盘回\t盤迴\n盛价\t盛价\n盛赞\t盛讚\n目牛游刃\t目牛游刃\n直发\t直髮\n直发女\t直髮女\n直摆\t直襬\n相克\t相剋\n相克制\t相剋制\n相关系数\t相關係數\n相冲\t相沖\n相去万里\t相去萬里\n相奸\t相姦\n相干\t相干\n相并\t相併\n相生相克\t相生相剋\n相距千里\t相距千里\n相里\t相里\n省欲去奢\t省慾去奢\n眉毛胡子一把抓\t眉毛鬍子一把抓\n看下表\t看下錶\n看下钟\t看下鐘\n看表\t看錶\n看钟\t看鐘\n眼干\t眼乾\n眼干症\t眼乾症\n眼球干燥症\t眼球乾燥症\n眼花了乱\t眼花瞭亂\n眼酸\t眼痠\n睁一只眼\t睜一隻眼\n睡眠欲\t睡眠慾\n睡眼蒙眬\t睡眼矇矓\n瞅下表\t瞅下錶\n瞅下钟\t瞅下鐘\n瞩托\t矚託\n瞳蒙\t瞳矇\n矫情干誉\t矯情干譽\n短发\t短髮\n短叹长吁\t短嘆長吁\n短须\t短鬚\n矮几\t矮几\n矮杆品种\t矮桿品種\n石几\t石几\n石屋制果\t石屋製果\n石拐\t石柺\n石梁\t石樑\n石灰岩\t石灰岩\n石灰岩洞\t石灰岩洞\n石英卤素灯\t石英鹵素燈\n石英岩\t石英岩\n石英表\t石英錶\n石英钟\t石英鐘\n石英钟表\t石英鐘錶\n石钟乳\t石鐘乳\n矽岩\t矽岩\n矽质岩\t矽質岩\n码表\t碼錶\n砂岩\t砂岩\n砂锅面\t砂鍋麪\n研制\t研製\n研制出\t研製出\n研制过程\t研製過程\n砭针\t砭鍼\n砰当\t砰噹\n破坏欲\t破壞慾\n破表\t破錶\n砻谷机\t礱穀機\n砾岩\t礫岩\n硅质岩\t硅質岩\n硗确\t磽确\n硫酸烟碱\t硫酸菸鹼\n硬咽\t硬嚥\n硬肥皂\t硬肥皂\n硬面\t硬麪\n硬页岩\t硬頁岩\n确瘠\t确瘠\n确系\t確係\n碍难照准\t礙難照准\n碎发\t碎髮\n碎屑岩\t碎屑岩\n碑志\t碑誌\n碗白干\t碗白乾\n碗面\t碗麪\n碛卤\t磧鹵\n碧波荡漾\t碧波盪漾\n碧眼紫须\t碧眼紫鬚\n碧眼金发\t碧眼金髮\n碰钟\t碰鐘\n碱性岩\t鹼性岩\n碳酸岩\t碳酸岩\n磁制\t磁製\n磨制\t磨製\n磨制石器\t磨製石器\n磨变岩\t磨變岩\n磨炼\t磨鍊\n磨石粗砂岩\t磨石粗砂岩\n磨脊梁\t磨脊樑\n磬钟\t磬鐘\n磷酸盐岩\t磷酸鹽岩\n礁岩\t礁岩\n示复\t示覆\n礼斗\t禮斗\n礼赞\t禮讚\n礼轻人意重千里送鹅毛\t禮輕人意重千里送鵝毛\n祖冲之\t祖沖之\n祝发\t祝髮\n祝赞\t祝讚\n神圣周\t神聖週\n神摇魂荡\t神搖魂盪\n神曲茶\t神麴茶\n神迹\t神蹟\n神采\t神采\n神采奕奕\t神采奕奕\n神采奕然\t神采奕然\n神采焕发\t神采煥發\n神采英拔\t神采英拔\n神采飘逸\t神采飄逸\n神采飞扬\t神采飛揚\n神采骏发\t神采駿發\n神里\t神里\n神雕\t神鵰\n神雕侠侣\t神鵰俠侶\n神魂摇荡\t神魂搖盪\n神魂荡漾\t神魂盪漾\n神魂荡飏\t神魂盪颺\n祭五脏庙\t祭五臟廟\n祭吊\t祭弔\n祭吊文\t祭弔文\n祭尸\t祭尸\n祷念\t禱唸\n祸福吉凶\t禍福吉凶\n禀复\t稟覆\n禁制品\t禁製品\n禁欲\t禁慾\n禁欲主义\t禁慾主義\n禁止吸烟\t禁止吸菸\n禁毁\t禁燬\n禁毁书\t禁燬書\n禁烟\t禁菸\n禁烟令\t禁菸令\n禁烟节\t禁菸節\n福建面\t福建麪\n福生于微\t福生于微\n福荫\t福廕\n离题万里\t離題萬里\n禾谷\t禾穀\n禾谷类作物\t禾穀類作物\n秀发\t秀髮\n秀发垂肩\t秀髮垂肩\n私欲\t私慾\n秃发\t禿髮\n秃发症\t禿髮症\n秃妃之发\t禿妃之髮\n秋不干\t秋不乾\n秋千\t鞦韆\n秋发\t秋髮\n秋征\t秋征\n秋筱宫\t秋篠宮\n种师中\t种師中\n种师道\t种師道\n种放\t种放\n种谷\t種穀\n科学面\t科學麪\n科斗\t科斗\n科斗书\t科斗書\n科斗文\t科斗文\n科纳克里\t科納克里\n秒表\t秒錶\n秒钟\t秒鐘\n秕谷\t秕穀\n秘制\t祕製\n秤平斗满\t秤平斗滿\n秤杆\t秤桿\n秦少游\t秦少游\n积谷\t積穀\n积谷防饥\t積穀防饑\n积金至斗\t積金至斗\n称叹\t稱歎\n称王封后\t稱王封后\n称赞\t稱讚\n称赞不已\t稱讚不已\n移星换斗\t移星換斗\n稀松\t稀鬆\n稀松平常\t稀鬆平常\n稀松骨质\t稀鬆骨質\n稀里\t稀里\n稀里哗啦\t稀里嘩啦\n稀里打哄\t稀里打哄\n稍占上风\t稍占上風\n稍干的\t稍乾的\n稳扎\t穩紮\n稳扎稳打\t穩紮穩打\n稻谷\t稻穀\n稽核\t稽覈\n穆斯坦西里\t穆斯坦西里\n穆棱\t穆稜\n穆罕默德历\t穆罕默德曆\n穗帏飘井干\t繐幃飄井幹\n穗帐\t繐帳\n穗帷\t繐帷\n穗裳\t繐裳\n穷发\t窮髮\n穷追不舍\t窮追不捨\n穷里\t窮里\n空中布雷\t空中佈雷\n空心汤团\t空心湯糰\n空心萝卜\t空心蘿蔔\n空投布雷\t空投佈雷\n空蒙\t空濛\n空钟\t空鐘\n穿跟斗\t穿跟斗\n窃占\t竊占\n窃占罪\t竊占罪\n窃钟掩耳\t竊鐘掩耳\n窒欲\t窒慾\n窗明几亮\t窗明几亮\n窗明几净\t窗明几淨\n窦太后\t竇太后\n立方公里\t立方公里\n竖人毛发\t豎人毛髮\n站干岸儿\t站乾岸兒\n站柜台\t站櫃檯\n童颜鹤发\t童顏鶴髮\n竹几\t竹几\n竹制\t竹製\n竹席\t竹蓆\n竹溪\t竹谿\n竹笋干\t竹筍乾\n笆斗\t笆斗\n笋干\t筍乾\n笔卷\t筆捲\n笔杆\t筆桿\n笔杆子\t筆桿子\n笔秃墨干\t筆禿墨乾\n笔管面\t筆管麪\n笛卡儿坐标制\t笛卡兒座標制\n符采\t符采\n第一出\t第一齣\n第七出\t第七齣\n第三出\t第三齣\n第九出\t第九齣\n第二出\t第二齣\n第五出\t第五齣\n第八出\t第八齣\n第六出\t第六齣\n第十出\t第十齣\n第四出\t第四齣\n笺注\t箋註\n等价关系\t等價關係\n筋斗\t筋斗\n筋斗云\t筋斗雲\n筋面粉\t筋麪粉\n筑前\t筑前\n筑北\t筑北\n筑后\t筑後\n筑大高速\t筑大高速\n筑州\t筑州\n筑波\t筑波\n筑紫\t筑紫\n筑肥\t筑肥\n筑西\t筑西\n筑邦\t筑邦\n筑阳\t筑陽\n答复\t答覆\n筛子喂驴\t篩子餵驢\n筲斗\t筲斗\n筵几\t筵几\n签上\t簽上\n签上去\t簽上去\n签上来\t簽上來\n签下\t簽下\n签下去\t簽下去\n签下来\t簽下來\n签为\t簽爲\n签书会\t簽書會\n签了\t簽了\n签些\t簽些\n签入\t簽入\n签写\t簽寫\n签出\t簽出\n签到\t簽到\n签到处\t簽到處\n签到簿\t簽到簿\n签单\t簽單\n签印\t簽印\n签发\t簽發\n签发地点\t簽發地點\n签发日期\t簽發日期\n签名\t簽名\n签名会\t簽名會\n签名信\t簽名信\n签名球\t簽名球\n签名簿\t簽名簿\n签名运动\t簽名運動\n签呈\t簽呈\n签唱\t簽唱\n签唱会\t簽唱會\n签在\t簽在\n签好\t簽好\n签妥\t簽妥\n签字\t簽字\n签字笔\t簽字筆\n签字者\t簽字者\n签字费\t簽字費\n签完\t簽完\n签定\t簽定\n签帐\t簽帳\n签帐卡\t簽帳卡\n签得\t簽得\n签报\t簽報\n签押\t簽押\n签押房\t簽押房\n签收\t簽收\n签有\t簽有\n签注\t簽註\n签派室\t簽派室\n签着\t簽着\n签章\t簽章\n签约\t簽約\n签约人\t簽約人\n签约国\t簽約國\n签约奖金\t簽約獎金\n签约金\t簽約金\n签结\t簽結\n签署\t簽署\n签署人\t簽署人\n签署国\t簽署國\n签订\t簽訂\n签证\t簽證\n签证费\t簽證費\n签赌\t簽賭\n签赌案\t簽賭案\n签赌站\t簽賭站\n签过\t簽過\n签退\t簽退\n简余晏\t簡余晏\n简单明了\t簡單明瞭\n简并\t簡併\n简易包扎法\t簡易包紮法\n简朝仑\t簡朝崙\n简氏防务周刊\t簡氏防務週刊\n箕斗\t箕斗\n算历\t算曆\n管人吊脚儿事\t管人弔腳兒事\n管弦\t管絃\n管道升\t管道昇\n箭杆\t箭桿\n箱扣\t箱釦\n篮下三秒钟\t籃下三秒鐘\n篮虹杯\t籃虹盃\n篷盖布\t篷蓋佈\n簳面杖\t簳麪杖\n簸荡\t簸盪\n米德尔伯里\t米德爾伯里\n米苏里\t米蘇里\n米苏里州\t米蘇里州\n米谷\t米穀\n米里\t米里\n米面\t米麪\n粉砂岩\t粉砂岩\n粒变岩\t粒變岩\n粗制\t粗製\n粗制品\t粗製品\n粗制滥造\t粗製濫造\n粗卤\t粗鹵\n粗管面\t粗管麪\n粗面\t粗麪\n粗面岩\t粗面岩\n粘板岩\t粘板岩\n粪秽蔑面\t糞穢衊面\n粲夸克\t粲夸克\n精制\t精製\n精制品\t精製品\n精奇里江\t精奇里江\n精心制作\t精心製作\n精心制造\t精心製造\n精松\t精鬆\n精致\t精緻\n精致化\t精緻化\n精致度\t精緻度\n精采\t精采\n精采度\t精采度\n精采绝伦\t精采絕倫\n糊口\t餬口\n糊里糊涂\t糊里糊塗\n糕干\t糕乾\n糖萝卜\t糖蘿蔔\n糖醋里脊\t糖醋里脊\n糯米团\t糯米糰\n系一片\t係一片\n系一番\t係一番\n系一种\t係一種\n系一线\t繫一線\n系上\t繫上\n系世\t繫世\n系丝带\t繫絲帶\n系个\t繫個\n系为\t係爲\n系了\t繫了\n系争\t係爭\n系争物\t係爭物\n系于\t繫於\n系于一发\t繫於一髮\n系住\t繫住\n系到\t繫到\n系发带\t繫髮帶\n系命\t繫命\n系囚\t繫囚\n系头巾\t繫頭巾\n系好\t繫好\n系带\t繫帶\n系心\t繫心\n系念\t繫念\n系怀\t繫懷\n系恋\t繫戀\n系扣\t係扣\n系指\t係指\n系捻儿\t繫捻兒\n系数\t係數\n系有\t繫有\n系条\t繫條\n系泊\t繫泊\n系爪\t繫爪\n系牢\t繫牢\n系狱\t繫獄\n系留\t繫留\n系着\t繫着\n系系\t繫系\n系紧\t繫緊\n系累\t繫累\n系结\t繫結\n系绳\t繫繩\n系缆\t繫纜\n系缚\t繫縛\n系而不食\t繫而不食\n系腰\t繫腰\n系臂\t係臂\n系臂之宠\t繫臂之寵\n系船桩\t繫船樁\n系获\t係獲\n系裤子\t繫褲子\n系裹\t繫裹\n系趾\t繫趾\n系踵\t係踵\n系蹄\t係蹄\n系辞\t繫辭\n系铃人\t繫鈴人\n系铃解铃\t繫鈴解鈴\n系鞋带\t繫鞋帶\n系颈\t繫頸\n系颈阙庭\t係頸闕庭\n系风捕影\t繫風捕影\n系风捕景\t繫風捕景\n系马\t繫馬\n素借\t素藉\n素发\t素髮\n素食面\t素食麪\n素餐尸位\t素餐尸位\n索尔兹伯里平原\t索爾茲伯里平原\n索尔兹伯里石环\t索爾茲伯里石環\n索福克里斯\t索福克里斯\n索里亚\t索里亞\n索里士\t索里士\n索马里亚\t索馬里亞\n紧系\t緊繫\n紧致\t緊緻\n紧追不舍\t緊追不捨\n紫姜\t紫薑\n紫微斗数\t紫微斗數\n綦溪利跂\t綦谿利跂\n縻系\t縻繫\n繁复\t繁複\n繁殖系数\t繁殖係數\n繁钟\t繁鐘\n纡回\t紆迴\n红丝暗系\t紅絲暗繫\n红冬冬\t紅鼕鼕\n红发\t紅髮\n红发女郎\t紅髮女郎\n红叶杯\t紅葉盃\n红头发\t紅頭髮\n红绳系足\t紅繩繫足\n红胡子\t紅鬍子\n红萝卜\t紅蘿蔔\n红萝卜炒辣椒\t紅蘿蔔炒辣椒\n红钟\t紅鐘\n红须绿眼\t紅鬚綠眼\n纤夫\t縴夫\n纤户\t縴戶\n纪历\t紀曆\n纪念周\t紀念週\n纪里谷\t紀里谷\n纳德阿里\t納德阿里\n纳波里塔诺\t納波里塔諾\n纳莉台风\t納莉颱風\n纳采\t納采\n纵横交布\t縱橫交佈\n纵欲\t縱慾\n纵欲主义\t縱慾主義\n纵欲无度\t縱慾無度\n纸制\t紙製\n纸扎\t紙紮\n纸扎店\t紙紮店\n纸烟\t紙菸\n细不容发\t細不容髮\n细咽\t細嚥\n细如发\t細如髮\n细炼\t細鍊\n细胞周期\t細胞週期\n细致\t細緻\n细致入微\t細緻入微\n细蒙蒙\t細濛濛\n细雨蒙蒙\t細雨濛濛\n细雨蒙蒙忆当年\t細雨濛濛憶當年\n细面\t細麪\n织席\t織蓆\n织里\t織里\n终端台\t終端檯\n经折\t經摺\n经折装\t經摺裝\n经有云\t經有云\n经济周期\t經濟週期\n经济杠杆\t經濟槓桿\n经贸关系\t經貿關係\n绑扎\t綁紮\n结发\t結髮\n结发事师\t結髮事師\n结发人\t結髮人\n结发夫妻\t結髮夫妻\n结彩\t結綵\n结扎\t結紮\n结扎手术\t結紮手術\n结扎术\t結紮術\n结扣\t結釦\n结晶岩\t結晶岩\n结核杆菌\t結核桿菌\n结梁子\t結樑子\n结采\t結采\n绕梁\t繞樑\n绕梁三日\t繞樑三日\n绕梁之音\t繞樑之音\n绕梁韵永\t繞樑韻永\n绘制\t繪製\n绘制图\t繪製圖\n绘里\t繪里\n给我干脆\t給我乾脆\n络腮胡\t絡腮鬍\n络腮胡子\t絡腮鬍子\n绝缘台\t絕緣檯\n绞干\t絞乾\n统计制图\t統計製圖\n绥棱\t綏稜\n续弦\t續絃\n续签\t續簽\n绳扣\t繩釦\n维多里欧\t維多里歐\n维斗\t維斗\n维系\t維繫\n维系人心\t維繫人心\n综合布线\t綜合佈線\n综合杂志\t綜合雜誌\n综核\t綜覈\n绾发\t綰髮\n绿发\t綠髮\n编制成\t編製成\n编发\t編髮\n编钟\t編鐘\n缜致\t縝緻\n缝制\t縫製\n缝制成\t縫製成\n缩影微卷\t縮影微捲\n缩栗\t縮慄\n缱绻难舍\t繾綣難捨\n网上杂志\t網上雜誌\n网御\t網禦\n网志\t網誌\n网志上\t網誌上\n罗兴梁\t羅興樑\n罗德里奎兹\t羅德里奎茲\n罗德里格兹\t羅德里格茲\n罗德里格斯\t羅德里格斯\n罗德里盖兹\t羅德里蓋茲\n罗西里尼\t羅西里尼\n置信系数\t置信係數\n羁系\t羈繫\n羊肉面\t羊肉麪\n羊角面包\t羊角麪包\n羊须疮\t羊鬚瘡\n美仑\t美崙\n美制\t美製\n美发\t美髮\n美发业\t美髮業\n美发师\t美髮師\n美发店\t美髮店\n美后\t美后\n美国制\t美國製\n美国存托凭证\t美國存託憑證\n美日关系\t美日關係\n美洲杯\t美洲盃\n美苏关系\t美蘇關係\n美里\t美里\n美里达\t美里達\n羑里\t羑里\n羡叹\t羨歎\n群众关系\t羣衆關係\n群后\t羣后\n群谋咸同\t羣謀咸同\n群辟\t羣辟\n羽状复叶\t羽狀複葉\n翁干晃\t翁乾晃\n翁郁容\t翁郁容\n翡翠拉面小笼包\t翡翠拉麪小籠包\n翦彩\t翦綵\n翻台\t翻檯\n翻松\t翻鬆\n翻筋斗\t翻筋斗\n翻觔斗\t翻觔斗\n翻跟斗\t翻跟斗\n翻过筋斗\t翻過筋斗\n翾风回雪\t翾風迴雪\n老和尚撞钟\t老和尚撞鐘\n老妈拌面\t老媽拌麪\n老姜\t老薑\n老娘\t老孃\n老娘儿\t老孃兒\n老少咸宜\t老少咸宜\n老干妈\t老乾媽\n老幼咸宜\t老幼咸宜\n老斗\t老斗\n老板\t老闆\n老板人\t老闆人\n老板娘\t老闆娘\n老板家\t老闆家\n老爷钟\t老爺鐘\n老皇历\t老皇曆\n老蒙\t老懞\n老雕\t老鵰\n老骥伏枥志在千里\t老驥伏櫪志在千里\n考核\t考覈\n而云\t而云\n而克制\t而剋制\n耍笔杆\t耍筆桿\n耕前锄后\t耕前耡後\n耕获\t耕穫\n耘荡\t耘盪\n耶娘\t耶孃\n联系\t聯繫\n联系实际\t聯繫實際\n联系方式\t聯繫方式\n联系汇率\t聯繫匯率\n联系群众\t聯繫羣衆\n联赛杯\t聯賽盃\n聚药雄蕊\t聚葯雄蕊\n肉丝面\t肉絲麪\n肉干\t肉乾\n肉松\t肉鬆\n肉松罐头\t肉鬆罐頭\n肉欲\t肉慾\n肉欲主义\t肉慾主義\n肉毒杆菌\t肉毒桿菌\n肉毒杆菌毒素\t肉毒桿菌毒素\n肉毒梭状芽孢杆菌\t肉毒梭狀芽孢桿菌\n肉汤面\t肉湯麪\n肉羹面\t肉羹麪\n肉酱面\t肉醬麪\n肌肉松弛剂\t肌肉鬆弛劑\n肘手链足\t肘手鍊足\n肝脏\t肝臟\n肠系膜\t腸繫膜\n肠脏\t腸臟\n股栗\t股慄\n肤发\t膚髮\n肥皂\t肥皂\n肥皂丝\t肥皂絲\n肥皂剧\t肥皂劇\n肥皂泡\t肥皂泡\n肥皂粉\t肥皂粉\n肥皂荚\t肥皂莢\n肥筑方言\t肥筑方言\n肥肠面\t肥腸麪\n肺脏\t肺臟\n肾脏\t腎臟\n肾脏炎\t腎臟炎\n肾脏病\t腎臟病\n肾脏癌\t腎臟癌\n肾脏科\t腎臟科\n胃脏\t胃臟\n胄甲\t冑甲\n胄科\t冑科\n胆大如斗\t膽大如斗\n背人\t揹人\n背他\t揹他\n背你\t揹你\n背债\t揹債\n背出去\t揹出去\n背包袱\t揹包袱\n背回\t揹回\n背回家去\t揹回家去\n背她\t揹她\n背小孩\t揹小孩\n背带\t揹帶\n背我\t揹我\n背来\t揹來\n背榜\t揹榜\n背物\t揹物\n背着\t揹着\n背筐\t揹筐\n背篓\t揹簍\n背负\t揹負\n背走\t揹走\n背酸\t背痠\n背饥荒\t揹饑荒\n胎发\t胎髮\n胜肽\t胜肽\n胜迹\t勝蹟\n胜键\t胜鍵\n胡云\t胡云\n胡匪\t鬍匪\n胡同\t衚衕\n胡吣\t胡唚\n胡子\t鬍子\n胡子工程\t鬍子工程\n胡子拉碴\t鬍子拉碴\n胡子渣\t鬍子渣\n胡子阿姨\t鬍子阿姨\n胡杰\t胡杰\n胡梢\t鬍梢\n胡椒面\t胡椒麪\n胡渣\t鬍渣\n胡碴子\t鬍碴子\n胡耇\t胡耈\n胡萝卜\t胡蘿蔔\n胡萝卜就烧酒\t胡蘿蔔就燒酒\n胡萝卜汁\t胡蘿蔔汁\n胡萝卜素\t胡蘿蔔素\n胡里胡涂\t胡里胡塗\n胡须\t鬍鬚\n胡须渣\t鬍鬚渣\n胡髭\t鬍髭\n胡髯\t鬍髯\n胰脏\t胰臟\n胰脏炎\t胰臟炎\n胰脏癌\t胰臟癌\n胶卷\t膠捲\n能克制\t能剋制\n能干巴巴\t能乾巴巴\n能干扰\t能干擾\n能干杯\t能乾杯\n能干涉\t能干涉\n能干着急\t能乾着急\n能干耗\t能乾耗\n能干脆\t能乾脆\n能干预\t能干預\n能征善战\t能征善戰\n能征惯战\t能征慣戰\n能舍\t能捨\n脆谷乐\t脆穀樂\n脉岩\t脈岩\n脊梁\t脊樑\n脊梁背\t脊樑背\n脊梁骨\t脊樑骨\n脏发\t髒髮\n脏器\t臟器\n脏腑\t臟腑\n脑力激荡\t腦力激盪\n脑力激荡术\t腦力激盪術\n脑力激荡法\t腦力激盪法\n脑震荡\t腦震盪\n脚划船\t腳划船\n脚夫\t腳伕\n脚扣\t腳釦\n脚注\t腳註\n脚炼\t腳鍊\n脚酸\t腳痠\n脱发\t脫髮\n脱发剂\t脫髮劑\n脱离关系\t脫離關係\n脱谷机\t脫穀機\n脺脏\t脺臟\n脾脏\t脾臟\n腊之以为饵\t腊之以爲餌\n腌䐶\t腌䐶\n腌制\t醃製\n腌臜\t腌臢\n腌里巴臜\t腌裏巴臢\n腐干\t腐乾\n腑脏\t腑臟\n腕表\t腕錶\n腮斗\t腮斗\n腰一卷\t腰一捲\n腰扣\t腰釦\n腰杆\t腰桿\n腰杆子\t腰桿子\n腰系\t腰繫\n腰花面\t腰花麪\n腰酸\t腰痠\n腰间系\t腰間繫\n腾升\t騰昇\n腾格里\t騰格里\n腾格里山\t騰格里山\n腾格里沙漠\t騰格里沙漠\n腾格里湖\t騰格里湖\n腿酸\t腿痠\n膨土岩\t膨土岩\n膨松\t膨鬆\n膨松剂\t膨鬆劑\n膨胀系数\t膨脹係數\n膻中\t膻中\n膻中穴\t膻中穴\n臂一卷\t臂一捲\n臊子面\t臊子麪\n臧谷亡羊\t臧穀亡羊\n自制炸弹\t自製炸彈\n自动表\t自動錶\n自干五\t自乾五\n自然卷\t自然捲\n自鸣钟\t自鳴鐘\n臭局\t臭侷\n臭气冲天\t臭氣沖天\n臭气熏天\t臭氣熏天\n致密\t緻密\n舂谷\t舂穀\n舄卤\t舄鹵\n舆尸\t輿尸\n舌一卷\t舌一捲\n舌干唇焦\t舌乾脣焦\n舍下他\t捨下他\n舍下你\t捨下你\n舍下她\t捨下她\n舍下我\t捨下我\n舍不得\t捨不得\n舍出\t捨出\n舍去\t捨去\n舍命\t捨命\n舍命救人\t捨命救人\n舍堕\t捨墮\n舍安就危\t捨安就危\n舍实\t捨實\n舍实求虚\t捨實求虛\n舍己\t捨己\n舍己为人\t捨己爲人\n舍己为公\t捨己爲公\n舍己为国\t捨己爲國\n舍己从人\t捨己從人\n舍己就人\t捨己就人\n舍己成人\t捨己成人\n舍己救人\t捨己救人\n舍己芸人\t捨己芸人\n舍弃\t捨棄\n舍得\t捨得\n舍我其谁\t捨我其誰\n舍我复谁\t捨我復誰\n舍旧迎新\t捨舊迎新\n舍本\t捨本\n舍本事末\t捨本事末\n舍本逐末\t捨本逐末\n舍本问末\t捨本問末\n舍正从邪\t捨正從邪\n舍死忘生\t捨死忘生\n舍生\t捨生\n舍生取义\t捨生取義\n舍生忘死\t捨生忘死\n舍短从长\t捨短從長\n舍短取长\t捨短取長\n舍短录长\t捨短錄長\n舍短用长\t捨短用長\n舍身\t捨身\n舍身为国\t捨身爲國\n舍身图报\t捨身圖報\n舍身报国\t捨身報國\n舍身救人\t捨身救人\n舍身求法\t捨身求法\n舍车保帅\t捨車保帥\n舍近务远\t捨近務遠\n舍近即远\t捨近即遠\n舍近求远\t捨近求遠\n舍近谋远\t捨近謀遠\n舒卷\t舒捲\n舒卷自如\t舒捲自如\n舔干净\t舔乾淨\n舞后\t舞后\n舞水端里\t舞水端里\n航海历\t航海曆\n航海日志\t航海日誌\n舰只\t艦隻\n舳舻千里\t舳艫千里\n船只\t船隻\n船夫\t船伕\n船娘\t船孃\n船钟\t船鐘\n良价\t良价\n艰巨\t艱鉅\n艰苦备尝\t艱苦備嚐\n色情杂志\t色情雜誌\n色欲\t色慾\n艳后\t豔后\n艸木丰丰\t艸木丰丰\n艾回\t艾迴\n艾瑞里\t艾瑞里\n艾米里\t艾米里\n艾维斯普里斯莱\t艾維斯普里斯萊\n艾里亚森\t艾里亞森\n艾里斯\t艾里斯\n艾里森\t艾里森\n艾里西\t艾里西\n艾里西湖\t艾里西湖\n艾里西湖镇\t艾里西湖鎮\n艾里赛宫\t艾里賽宮\n节欲\t節慾\n芒果干\t芒果乾\n芝柏表\t芝柏錶\n芦席\t蘆蓆\n花卷\t花捲\n花发老\t花髮老\n花哄\t花鬨\n花岗岩\t花崗岩\n花岗岩质层\t花崗岩質層\n花庵词选\t花菴詞選\n花心萝卜\t花心蘿蔔\n花样游泳\t花樣游泳\n花椒面\t花椒麪\n花胡同\t花衚衕\n花药\t花葯\n花药瓣\t花葯瓣\n花采\t花采\n花钟\t花鐘\n花马吊嘴\t花馬弔嘴\n芸苔\t蕓薹\n芸薹\t蕓薹\n芸辉\t蕓輝\n苇席\t葦蓆\n苇苕系巢\t葦苕繫巢\n苍发\t蒼髮\n苍术\t蒼朮\n苏公堤\t蘇公隄\n苏打饼干\t蘇打餅乾\n苏昆\t蘇崑\n苏杯\t蘇盃\n苏格兰折耳猫\t蘇格蘭摺耳貓\n苏醒\t甦醒\n苏醒剂\t甦醒劑\n苏醒过来\t甦醒過來\n苏里\t蘇里\n苏里南河\t蘇里南河\n苏里安提沙洛索\t蘇里安提沙洛索\n苜蓿长栏干\t苜蓿長欄干\n若干\t若干\n若干个\t若干個\n若干人\t若干人\n若干年\t若干年\n苦卤\t苦鹵\n苦参\t苦蔘\n苦瓜干\t苦瓜乾\n英王面包\t英王麪包\n英里\t英里\n苹果干\t蘋果乾\n苹萦\t苹縈\n范仲淹\t范仲淹\n范伦铁诺\t范倫鐵諾\n范佩西\t范佩西\n范光群\t范光羣\n范公偁\t范公偁\n范公堤\t范公堤\n范冰冰\t范冰冰\n范县\t范縣\n范可钦\t范可欽\n范各庄\t范各莊\n范哈能\t范哈能\n范嘉骅\t范嘉驊\n范国铨\t范國銓\n范坝\t范壩\n范增\t范增\n范士丹\t范士丹\n范姜\t范姜\n范家\t范家\n范宽\t范寬\n范寨\t范寨\n范小姐\t范小姐\n范尼斯特鲁伊\t范尼斯特魯伊\n范履霜\t范履霜\n范岗\t范崗\n范张鸡黍\t范張雞黍\n范德林特\t范德林特\n范德格拉夫\t范德格拉夫\n范德瓦耳斯\t范德瓦耳斯\n范德瓦耳斯力\t范德瓦耳斯力\n范德维德\t范德維德\n范德萨\t范德薩\n范志毅\t范志毅\n范戈德\t范戈德\n范成大\t范成大\n范文同\t范文同\n范文正公\t范文正公\n范文澜\t范文瀾\n范文照\t范文照\n范文程\t范文程\n范文芳\t范文芳\n范文藤\t范文藤\n范文虎\t范文虎\n范斯坦\t范斯坦\n范晓萱\t范曉萱\n范晔\t范曄\n范村\t范村\n范桥\t范橋\n范植伟\t范植偉\n范植谷\t范植谷\n范楼\t范樓\n范欣妤\t范欣妤\n范正祥\t范正祥\n范洪森\t范洪森\n范湘暄\t范湘暄\n范特尔\t范特爾\n范特西\t范特西\n范玮琪\t范瑋琪\n范琪斐\t范琪斐\n范甘迪\t范甘迪\n范登堡\t范登堡\n范皓阗\t范皓闐\n范筱梵\t范筱梵\n范纲武\t范綱武\n范织钦\t范織欽\n范绮馨\t范綺馨\n范罗山\t范羅山\n范范之辈\t范範之輩\n范营\t范營\n范蠡\t范蠡\n范进\t范進\n范逸臣\t范逸臣\n范里\t范里\n范镇\t范鎮\n范阳\t范陽\n范陈柏\t范陳柏\n范集\t范集\n范雎\t范雎\n范靖瑶\t范靖瑤\n茵借\t茵藉\n茶几\t茶几\n茶已干\t茶已乾\n茶面\t茶麪\n茶面子\t茶麪子\n荆尸\t荊尸\n草原千里\t草原千里\n草字汇\t草字彙\n草席\t草蓆\n草庵\t草菴\n草签\t草簽\n草荐\t草荐\n草莓干\t草莓乾\n荐居\t荐居\n荐臻\t荐臻\n荐饥\t荐饑\n荒年谷\t荒年穀\n荔枝干\t荔枝乾\n荞面\t蕎麪\n荞麦面\t蕎麥麪\n荡出\t盪出\n荡到\t盪到\n荡口\t盪口\n荡垢涤污\t盪垢滌污\n荡寒\t盪寒\n荡开\t盪開\n荡悠悠\t盪悠悠\n荡来荡去\t盪來盪去\n荡检逾闲\t蕩檢逾閑\n荡气回肠\t蕩氣迴腸\n荡气回阳\t蕩氣迴陽\n荡涤\t盪滌\n荡漾\t盪漾\n荡漾出\t盪漾出\n荡秋千\t盪鞦韆\n荡舟\t盪舟\n荡船\t盪船\n荡荡悠悠\t盪盪悠悠\n荡酒\t盪酒\n荡风\t盪風\n荣归故里\t榮歸故里\n荣登后座\t榮登后座\n荦确\t犖确\n荫庇\t廕庇\n荫生\t廕生\n荫监\t廕監\n荫袭\t廕襲\n药皂\t藥皂\n药而愈\t藥而癒\n药面儿\t藥麪兒\n荷里活\t荷里活\n莒光周\t莒光週\n莜面\t莜麪\n莫余毒也\t莫余毒也\n莫布里\t莫布里\n莫干山\t莫干山\n莫扎里拉\t莫扎里拉\n莫索里尼\t莫索里尼\n莫里\t莫里\n莫里叶\t莫里葉\n莫里哀\t莫里哀\n莫里尼奥\t莫里尼奧\n莫里希\t莫里希\n莫里斯\t莫里斯\n莫里森\t莫里森\n莫里纳\t莫里納\n莱彩北堂\t萊綵北堂\n莱里达\t萊里達\n莲须\t蓮鬚\n获准\t獲准\n莽卤\t莽鹵\n菁英杯\t菁英盃\n菜干\t菜乾\n菜苔\t菜薹\n菠菜面\t菠菜麪\n菠萝干\t菠蘿乾\n萝卜\t蘿蔔\n萝卜头\t蘿蔔頭\n萝卜干\t蘿蔔乾\n萝卜精\t蘿蔔精\n萝卜精头上青\t蘿蔔精頭上青\n萝卜糕\t蘿蔔糕\n萝卜腿\t蘿蔔腿\n萦回\t縈迴\n萦系\t縈繫\n萧参\t蕭蔘\n萧太后\t蕭太后\n萧行范篆\t蕭行范篆\n萨列里\t薩列里\n萨布里\t薩布里\n萨布里多\t薩布里多\n萨瓦里\t薩瓦里\n萨里\t薩里\n萨里郡\t薩里郡\n落发\t落髮\n落发为僧\t落髮爲僧\n落地签证\t落地簽證\n落腮胡\t落腮鬍\n葑菲之采\t葑菲之采\n葛拉斯里\t葛拉斯里\n葛斯范桑\t葛斯范桑\n葛里芬\t葛里芬\n葡萄干\t葡萄乾\n葡萄干儿\t葡萄乾兒\n董氏封发\t董氏封髮\n董里府\t董里府\n葱姜蒜\t蔥薑蒜\n葱油面\t蔥油麪\n葱胡子\t蔥鬍子\n葱葱郁郁\t蔥蔥郁郁\n葵涌\t葵涌\n蒋国梁\t蔣國樑\n蒋百里\t蔣百里\n蒙事\t矇事\n蒙住\t矇住\n蒙在鼓里\t矇在鼓裏\n蒙头\t矇頭\n蒙头大睡\t矇頭大睡\n蒙头衲被\t矇頭衲被\n蒙头转\t矇頭轉\n蒙头转向\t矇頭轉向\n蒙懂\t懞懂\n蒙昧\t矇昧\n蒙昧不清\t濛昧不清\n蒙昧无知\t矇昧無知\n蒙松雨\t濛鬆雨\n蒙汜\t濛汜\n蒙混\t矇混\n蒙混过关\t矇混過關\n蒙直\t懞直\n蒙眬\t矇矓\n蒙眼\t矇眼\n蒙瞍\t矇瞍\n蒙聩\t矇聵\n蒙蒙\t濛濛\n蒙蒙亮\t矇矇亮\n蒙蒙懂懂\t懞懞懂懂\n蒙蒙眬眬\t矇矇矓矓\n蒙蒙细雨\t濛濛細雨\n蒙蒙谷\t濛濛谷\n蒙蒙黑\t矇矇黑\n蒙蔽\t矇蔽\n蒙雾\t濛霧\n蒙雾露\t濛霧露\n蒙骗\t矇騙\n蒙鸿\t濛鴻\n蒜发\t蒜髮\n蒜苔\t蒜薹\n蒸干\t蒸乾\n蒸汽熨斗\t蒸汽熨斗\n蒸面\t蒸麪\n蒿里\t蒿里\n蓄发\t蓄髮\n蓄胡\t蓄鬍\n蓄长发\t蓄長髮\n蓄须\t蓄鬚\n蓄须明志\t蓄鬚明志\n蓝发\t藍髮\n蓝胡子\t藍鬍子\n蓝采和\t藍采和\n蓬发\t蓬髮\n蓬松\t蓬鬆\n蓬蓬松松\t蓬蓬鬆鬆\n蕴借\t蘊藉\n蕴借含蓄\t蘊藉含蓄\n薄幸\t薄倖\n薄幸人\t薄倖人\n薄松松\t薄鬆鬆\n薙发\t薙髮\n薙发令\t薙髮令\n薛松干\t薛松乾\n薝卜\t薝蔔\n薰修\t薰脩\n藏历\t藏曆\n藏蒙歌儿\t藏矇歌兒\n藤制\t藤製\n虎须\t虎鬚\n虚冲\t虛沖\n虚拟通道标志符\t虛擬通道標誌符\n虫部\t虫部\n虬须\t虯鬚\n虮虱相吊\t蟣蝨相弔\n虱目鱼\t虱目魚\n虾仁面\t蝦仁麪\n虾干\t蝦乾\n虾球面\t蝦球麪\n虾须\t蝦鬚\n蚁后\t蟻后\n蚝涌\t蠔涌\n蚵仔面线\t蚵仔麪線\n蛇发女妖\t蛇髮女妖\n蛇纹岩\t蛇紋岩\n蛇绿岩\t蛇綠岩\n蛇绿混杂岩\t蛇綠混雜岩\n蛇绿混杂岩带\t蛇綠混雜岩帶\n蛏干\t蟶乾\n蛮干净\t蠻乾淨\n蛮干爽\t蠻乾爽\n蜂后\t蜂后\n蜗杆\t蝸桿\n蜡月\t蜡月\n蜡祭\t蜡祭\n螺旋杆菌\t螺旋桿菌\n螺旋面\t螺旋麪\n螺杆\t螺桿\n蟠采\t蟠采\n蟹黄鲍鱼面\t蟹黃鮑魚麪\n血制品\t血製品\n血参\t血蔘\n血已干\t血已乾\n血才干\t血纔乾\n血缘关系\t血緣關係\n血胡同\t血衚衕\n衅钟\t釁鐘\n行万里路\t行萬里路\n行万里路胜读万卷书\t行萬里路勝讀萬卷書\n行万里路读万卷书\t行萬里路讀萬卷書\n行事历\t行事曆\n行佣\t行佣\n行兵布阵\t行兵佈陣\n行千里路读万卷书\t行千里路讀萬卷書\n行李卷\t行李捲\n行百里\t行百里\n行百里者半于九十\t行百里者半於九十\n行针\t行鍼\n行针布线\t行鍼佈線\n行针走线\t行鍼走線\n衍声复词\t衍聲複詞\n街坊邻里\t街坊鄰里\n街里街坊\t街里街坊\n衣不兼采\t衣不兼采\n衣不完采\t衣不完采\n衣不重采\t衣不重采\n衣扣\t衣釦\n衣摆\t衣襬\n衣斗木\t衣斗木\n衣物已干\t衣物已乾\n衣物渐干\t衣物漸乾\n衣衫已干\t衣衫已乾\n衣锦夜游\t衣錦夜游\n衣锦昼游\t衣錦晝游\n补扣\t補釦\n补注\t補註\n表停\t錶停\n表冠\t錶冠\n表厂\t錶廠\n表壳\t錶殼\n表壳儿\t錶殼兒\n表带\t錶帶\n表店\t錶店\n表快\t錶快\n表慢\t錶慢\n表板\t錶板\n表款\t錶款\n表演欲\t表演慾\n表王\t錶王\n表的历史\t錶的歷史\n表的嘀嗒\t錶的嘀嗒\n表盘\t錶盤\n表蒙子\t錶蒙子\n表行\t錶行\n表转\t錶轉\n表速\t錶速\n表针\t錶針\n表链\t錶鏈\n袁于令\t袁于令\n袁友范\t袁友范\n袅窕\t裊窕\n袅绕\t裊繞\n袅袅上升\t裊裊上升\n袅袅炊烟\t裊裊炊煙\n袋表\t袋錶\n袖一卷\t袖一捲\n袖扣\t袖釦\n被人背\t被人揹\n被动吸烟\t被動吸菸\n被发\t被髮\n被发佯狂\t被髮佯狂\n被发入山\t被髮入山\n被发左衽\t被髮左衽\n被发文身\t被髮文身\n被发缨冠\t被髮纓冠\n被发阳狂\t被髮陽狂\n被复\t被複\n被头散发\t被頭散髮\n袭卷\t襲捲\n裁制\t裁製\n裁并\t裁併\n装岩机\t裝岩機\n装折\t裝摺\n裒克\t裒剋\n裙带关系\t裙帶關係\n裙摆\t裙襬\n裤带面\t褲帶麪\n裤扣\t褲釦\n裴里诺\t裴里諾\n裸岩\t裸岩\n裹扎\t裹紮\n褒赞\t褒讚\n褒采一介\t褒采一介\n西利古里\t西利古里\n西历\t西曆\n西历纪元\t西曆紀元\n西发里亚条约\t西發里亞條約\n西后\t西后\n西周钟\t西周鐘\n西太后\t西太后\n西征\t西征\n西斗铺\t西斗鋪\n西梅干\t西梅乾\n西涌\t西涌\n西点面包\t西點麪包\n西西里\t西西里\n西西里岛\t西西里島\n西里\t西里\n西里尔\t西里爾\n西里尔字母\t西里爾字母\n西里西亚\t西里西亞\n要克制\t要剋制\n要占卜\t要占卜\n要干了\t要乾了\n要怎么收获先怎么栽\t要怎麼收穫先怎麼栽\n见之不取思之千里\t見之不取思之千里\n见复\t見覆\n见物不取失之千里\t見物不取失之千里\n见鉴\t見鑒\n见钟不打\t見鐘不打\n见钟不打更去炼铜\t見鐘不打更去煉銅\n观光周\t觀光週\n观光签证\t觀光簽證\n觊幸\t覬倖\n角砾岩\t角礫岩\n角里\t角里\n角页岩\t角頁岩\n觔斗\t觔斗\n觔斗云\t觔斗雲\n解发佯狂\t解髮佯狂\n解扣\t解釦\n解溪\t解谿\n解溪穴\t解谿穴\n解铃仍须系铃人\t解鈴仍須繫鈴人\n解铃系铃\t解鈴繫鈴\n解铃还是系铃人\t解鈴還是繫鈴人\n解铃还须系铃人\t解鈴還須繫鈴人\n触须\t觸鬚\n言云\t言云\n言大而夸\t言大而夸\n言辩而确\t言辯而确\n詹志维\t詹誌維\n警世钟\t警世鐘\n警报钟\t警報鐘\n警示钟\t警示鐘\n警钟\t警鐘\n计时表\t計時錶\n计算机制图\t計算機製圖\n计算机集成制造\t計算機集成製造\n订制\t訂製\n订制服\t訂製服\n订杂志\t訂雜誌\n认制修\t認製修\n许人丰\t許人丰\n许圣杰\t許聖杰\n许愿起经\t許愿起經\n设鼓悬钟\t設鼓懸鐘\n评核\t評覈\n评注\t評註\n诋毁\t詆譭\n词汇\t詞彙\n词汇分解\t詞彙分解\n词汇判断\t詞彙判斷\n词汇判断任务\t詞彙判斷任務\n词汇判断作业\t詞彙判斷作業\n词汇判断法\t詞彙判斷法\n词汇学\t詞彙學\n词汇通路\t詞彙通路\n词语汇\t詞語彙\n词采\t詞采\n译制\t譯製\n译注\t譯註\n诔赞\t誄讚\n试制\t試製\n试验台\t試驗檯\n诗云\t詩云\n诗云子曰\t詩云子曰\n诗赞\t詩讚\n诗钟\t詩鐘\n诠注\t詮註\n该钟\t該鐘\n详注\t詳註\n诬蔑\t誣衊\n诬蔑性\t誣衊性\n语云\t語云\n语有云\t語有云\n语汇\t語彙\n诱奸\t誘姦\n说岳\t說岳\n说岳全传\t說岳全傳\n诵念\t誦唸\n请勿吸烟\t請勿吸菸\n请您回复\t請您回覆\n请托\t請託\n诺里\t諾里\n读万卷书行万里路\t讀萬卷書行萬里路\n读不舍手\t讀不捨手\n课后复习\t課後複習\n谁干净\t誰乾淨\n调制\t調製\n调制出\t調製出\n调制法\t調製法\n调制波\t調製波\n调弦\t調絃\n调表\t調錶\n调钟表\t調鐘錶\n谢里\t謝里\n谢里夫\t謝里夫\n谦冲\t謙沖\n谦冲自牧\t謙沖自牧\n谬以千里\t謬以千里\n谬赞\t謬讚\n谷人\t穀人\n谷仓\t穀倉\n谷保家商\t穀保家商\n谷口耕岩\t谷口耕岩\n谷圭\t穀圭\n谷场\t穀場\n谷城\t穀城\n谷城县\t穀城縣\n谷壳\t穀殼\n谷子\t穀子\n谷日\t穀日\n谷旦\t穀旦\n谷梁\t穀梁\n谷梁传\t穀梁傳\n谷氨酰胺\t穀氨酰胺\n谷氨酸\t穀氨酸\n谷物\t穀物\n谷皮\t穀皮\n谷神\t穀神\n谷神星\t穀神星\n谷穗\t穀穗\n谷米\t穀米\n谷类\t穀類\n谷类作物\t穀類作物\n谷粉\t穀粉\n谷粒\t穀粒\n谷糠\t穀糠\n谷舱\t穀艙\n谷苗\t穀苗\n谷草\t穀草\n谷贱伤农\t穀賤傷農\n谷贵饿农\t穀貴餓農\n谷贵饿农谷贱伤农\t穀貴餓農穀賤傷農\n谷道\t穀道\n谷里\t谷里\n谷里街道\t谷里街道\n谷阳\t穀陽\n谷阳县\t穀陽縣\n谷阳竖\t穀陽豎\n谷阳郡\t穀陽郡\n谷阳镇\t穀陽鎮\n谷雨\t穀雨\n谷风\t穀風\n谷食\t穀食\n豆制品\t豆製品\n豆干\t豆乾\n豆干展\t豆乾展\n豆干肉丝\t豆干肉絲\n豆签\t豆簽\n豆腐干\t豆腐乾\n豆面\t豆麪\n豪厘千里\t豪釐千里\n豪气干云\t豪氣干雲\n贝他系数\t貝他係數\n贝胄\t貝冑\n贝里\t貝里\n贝里拉\t貝里拉\n贝里斯\t貝里斯\n负笈千里\t負笈千里\n贡烟\t貢菸\n财产关系\t財產關係\n财布施\t財佈施\n贤后\t賢后\n贪欲\t貪慾\n贪欲无艺\t貪慾無藝\n购买欲\t購買慾\n购并\t購併\n购并案\t購併案\n购物欲\t購物慾\n贵价\t貴价\n贵筑\t貴筑\n贵筑县\t貴筑縣\n贸易伙伴\t貿易伙伴\n费尔干纳\t費爾干納\n费尔干纳槃地\t費爾干納槃地\n费尔干纳盆地\t費爾干納盆地\n费里克斯\t費里克斯\n费里克斯布朗\t費里克斯布朗\n费里尼\t費里尼\n费里斯特\t費里斯特\n贺后骂殿\t賀后罵殿\n贾后\t賈后\n贾里尔\t賈里爾\n资溪\t資谿\n赈饥\t賑饑\n赌台\t賭檯\n赏赞\t賞讚\n赐恤\t賜卹\n赛里木湖\t賽里木湖\n赞一句\t讚一句\n赞一声\t讚一聲\n赞一赞\t讚一讚\n赞不绝口\t讚不絕口\n赞两句\t讚兩句\n赞个不\t讚個不\n赞乐\t讚樂\n赞了\t讚了\n赞佩\t讚佩\n赞佩不已\t讚佩不已\n赞口不\t讚口不\n赞叹\t讚歎\n赞叹不已\t讚歎不已\n赞叹声\t讚歎聲\n赞呗\t讚唄\n赞我\t讚我\n赞扬\t讚揚\n赞歌\t讚歌\n赞的\t讚的\n赞美\t讚美\n赞美有加\t讚美有加\n赞美歌\t讚美歌\n赞美诗\t讚美詩\n赞羡\t讚羨\n赞自己\t讚自己\n赞誉\t讚譽\n赞誉为\t讚譽爲\n赞许\t讚許\n赞词\t讚詞\n赞语\t讚語\n赞赏\t讚賞\n赞赏不已\t讚賞不已\n赞辞\t讚辭\n赞道\t讚道\n赞颂\t讚頌\n赤地千里\t赤地千里\n赤术\t赤朮\n赤绳系足\t赤繩繫足\n赫弗里希\t赫弗里希\n赫里斯\t赫里斯\n赫里斯登科\t赫里斯登科\n走回路\t走迴路\n走娘家\t走孃家\n赵坤郁\t趙坤郁\n赶制\t趕製\n赶面棍\t趕麪棍\n起哄\t起鬨\n起扑杆\t起撲桿\n超友谊关系\t超友誼關係\n超基性岩\t超基性岩\n超级台风\t超級颱風\n超级杯\t超級盃\n超赞\t超讚\n趋吉避凶\t趨吉避凶\n足协杯\t足協盃\n足总杯\t足總盃\n跋涉千里\t跋涉千里\n跎纤\t跎縴\n跑台子\t跑檯子\n跖犬吠尧\t跖犬吠堯\n跖狗吠尧\t跖狗吠堯\n跖蹻\t跖蹻\n跛鳖千里\t跛鱉千里\n跟斗\t跟斗\n跬步千里\t跬步千里\n路志\t路誌\n路里\t路里\n跳只舞\t跳隻舞\n跳梁小丑\t跳樑小醜\n跳梁猖獗之小丑\t跳樑猖獗之小醜\n跳表\t跳錶\n踅门了户\t踅門瞭戶\n踬仆\t躓仆\n蹀里蹀斜\t蹀里蹀斜\n蹻跖\t蹻跖\n躏借\t躪藉\n身体发肤\t身體髮膚\n身系囹圄\t身繫囹圄\n躬擐甲胄\t躬擐甲冑\n车仔面\t車仔麪\n车夫\t車伕\n车斗\t車斗\n车载斗量\t車載斗量\n车里雅宾斯克\t車里雅賓斯克\n车马夫\t車馬伕\n轧制\t軋製\n转关系\t轉關係\n转台\t轉檯\n转战千里\t轉戰千里\n转托\t轉託\n转斗千里\t轉鬥千里\n转注\t轉註\n转注字\t轉註字\n转游\t轉游\n转速表\t轉速錶\n轮回\t輪迴\n轮奸\t輪姦\n软不叮当\t軟不叮噹\n软肥皂\t軟肥皂\n软软松松\t軟軟鬆鬆\n软面筋\t軟麪筋\n轴舻千里\t軸艫千里\n轻度台风\t輕度颱風\n轻扣\t輕釦\n轻松\t輕鬆\n轻松地\t輕鬆地\n轻松愉快\t輕鬆愉快\n轻松自在\t輕鬆自在\n轻松自如\t輕鬆自如\n轻轻松松\t輕輕鬆鬆\n轿夫\t轎伕\n辉绿岩\t輝綠岩\n辉长岩\t輝長岩\n辐射警告标志\t輻射警告標誌\n输征\t輸征\n辛丑\t辛丑\n辛丑和约\t辛丑和約\n辛丑条约\t辛丑條約\n辛辣面\t辛辣麪\n辛里希\t辛里希\n辞汇\t辭彙\n辞采\t辭采\n辟世\t辟世\n辟举\t辟舉\n辟书\t辟書\n辟人之士\t辟人之士\n辟匿\t辟匿\n辟历施鞭\t辟歷施鞭\n辟召\t辟召\n辟君三舍\t辟君三舍\n辟命\t辟命\n辟咡\t辟咡\n辟廱\t辟廱\n辟引\t辟引\n辟恶\t辟惡\n辟恶除患\t辟惡除患\n辟支佛\t辟支佛\n辟易\t辟易\n辟淫\t辟淫\n辟然\t辟然\n辟纑\t辟纑\n辟色\t辟色\n辟芷\t辟芷\n辟言\t辟言\n辟谷\t辟穀\n辟谷绝粒\t辟穀絕粒\n辟辟\t闢辟\n辟违\t辟違\n辟逻\t辟邏\n辟邪\t辟邪\n辟雍\t辟雍\n辟雍砚\t辟雍硯\n辣椒面\t辣椒麪\n辨奸论\t辨姦論\n辫发\t辮髮\n辰溪\t辰谿\n辱游\t辱游\n辽太后\t遼太后\n辽沈\t遼瀋\n达欣杯\t達欣盃\n迁思回虑\t遷思迴慮\n迂回\t迂迴\n迂回战术\t迂迴戰術\n迂回曲折\t迂迴曲折\n过冲\t過沖\n过境签证\t過境簽證\n过家伙\t過傢伙\n过干瘾\t過乾癮\n过松\t過鬆\n过梁\t過樑\n过水面\t過水麪\n过滤嘴香烟\t過濾嘴香菸\n迈科里\t邁科里\n迎斗灯\t迎斗燈\n运筹千里\t運籌千里\n返佣\t返佣\n返还占有\t返還占有\n返里\t返里\n还辟\t還辟\n这出剧\t這齣劇\n这出好戏\t這齣好戲\n这出电影\t這齣電影\n这只\t這隻\n这钟\t這鐘\n进口加签权\t進口加簽權\n远县才至\t遠縣纔至\n远征\t遠征\n远征军\t遠征軍\n远端签入\t遠端簽入\n远隔千里\t遠隔千里\n连三并四\t連三併四\n连带关系\t連帶關係\n连杆\t連桿\n连杆机构\t連桿機構\n连系\t連繫\n连系词\t連繫詞\n连系起来\t連繫起來\n连须胡子\t連鬚鬍子\n连鬓胡子\t連鬢鬍子\n迟回\t遲迴\n迢迢千里\t迢迢千里\n迥然回异\t迥然迴異\n迪拉萨布里\t迪拉薩布里\n迷奸\t迷姦\n迷蒙\t迷濛\n迷迷蒙蒙\t迷迷濛濛\n迹蹈\t蹟蹈\n送君千里\t送君千里\n送报夫\t送報伕\n逆钟\t逆鐘\n逆钟向\t逆鐘向\n选美皇后\t選美皇后\n逋发\t逋髮\n逐末舍本\t逐末捨本\n递回\t遞迴\n递推关系\t遞推關係\n通历\t通曆\n通奸\t通姦\n通奸罪\t通姦罪\n通布图\t通佈圖\n通心面\t通心麪\n通车里程\t通車里程\n速食面\t速食麪\n造岩矿物\t造岩礦物\n造曲\t造麴\n造钟\t造鐘\n造钟表\t造鐘錶\n逢凶化吉\t逢凶化吉\n逮系\t逮繫\n逸游自恣\t逸游自恣\n逸致\t逸緻\n逼并\t逼併\n逾闲荡检\t逾閑蕩檢\n遄征\t遄征\n遍布\t遍佈\n道咸\t道咸\n道里\t道里\n道里区\t道里區\n遗传钟\t遺傳鐘\n遗葑菲采\t遺葑菲采\n遗迹\t遺蹟\n避凶就吉\t避凶就吉\n避凶趋吉\t避凶趨吉\n邑里\t邑里\n那出剧\t那齣劇\n那出好戏\t那齣好戲\n那出电影\t那齣電影\n那卷\t那捲\n那只\t那隻\n邪不干正\t邪不干正\n邪辟\t邪辟\n邱富郁\t邱富郁\n邱郁婷\t邱郁婷\n邵廷采\t邵廷采\n邻里\t鄰里\n邻里乡党\t鄰里鄉黨\n邻里长\t鄰里長\n郁哉\t郁哉\n郁朴\t郁樸\n郁李\t郁李\n郁烈\t郁烈\n郁离子\t郁離子\n郁穆\t郁穆\n郁达夫\t郁達夫\n郁郁\t鬱郁\n郁郁菲菲\t郁郁菲菲\n郁郁青青\t郁郁青青\n郁馥\t郁馥\n郎潜白发\t郎潛白髮\n郑余豪\t鄭余豪\n郑凯云\t鄭凱云\n郑家钟\t鄭家鐘\n郑易里\t鄭易里\n郑重宣布\t鄭重宣佈\n郘钟\t郘鐘\n郭台成\t郭台成\n郭台铭\t郭台銘\n郭子干\t郭子乾\n郭采洁\t郭采潔\n都俞吁咈\t都俞吁咈\n都舍下\t都捨下\n酉溪\t酉谿\n配制\t配製\n配膳台\t配膳檯\n酒坛\t酒罈\n酒已干\t酒已乾\n酒帘\t酒帘\n酒帘子\t酒帘子\n酒干了\t酒乾了\n酒干尽\t酒乾盡\n酒干掉\t酒乾掉\n酒曲\t酒麴\n酒气冲天\t酒氣沖天\n酒气熏人\t酒氣熏人\n酒游花\t酒游花\n酒醴曲蘖\t酒醴麴櫱\n酝借\t醞藉\n酥松\t酥鬆\n酥松可口\t酥鬆可口\n酥松油脂\t酥鬆油脂\n酥签\t酥簽\n酱面\t醬麪\n酸懒\t痠懶\n酸疼\t痠疼\n酸痛\t痠痛\n酸菜鱼面\t酸菜魚麪\n酸软\t痠軟\n酸辣面\t酸辣麪\n酸麻\t痠麻\n酿制\t釀製\n醇郁\t醇郁\n醉熏熏\t醉熏熏\n醋坛\t醋罈\n醋坛子\t醋罈子\n采光剖璞\t采光剖璞\n采兰赠芍\t采蘭贈芍\n采制\t採製\n采及葑菲\t采及葑菲\n采地\t采地\n采声\t采聲\n采头\t采頭\n采女\t采女\n采椽不斫\t采椽不斲\n采椽不斲\t采椽不斲\n采烈\t采烈\n采石之役\t采石之役\n采石之战\t采石之戰\n采绿\t采綠\n采缉\t采緝\n采色\t采色\n采芑\t采芑\n采芹\t采芹\n采苓\t采苓\n采菽\t采菽\n采葛\t采葛\n采薇\t采薇\n采薪之忧\t采薪之憂\n采薪之疾\t采薪之疾\n采蘩\t采蘩\n采衣\t采衣\n采诗\t采詩\n采邑\t采邑\n采采\t采采\n采风录\t采風錄\n里亚\t里亞\n里人\t里人\n里仁\t里仁\n里仁为美\t里仁爲美\n里克特\t里克特\n里党\t里黨\n里兹\t里茲\n里加\t里加\n里包恩\t里包恩\n里名\t里名\n里君\t里君\n里咽\t裏嚥\n里士满\t里士滿\n里奇蒙\t里奇蒙\n里契蒙\t里契蒙\n里奥\t里奧\n里奥斯\t里奧斯\n里奥格兰德\t里奧格蘭德\n里宰\t里宰\n里尔\t里爾\n里尔队\t里爾隊\n里尼\t里尼\n里居\t里居\n里巷\t里巷\n里布\t里布\n里希特霍芬\t里希特霍芬\n里弄\t里弄\n里弗赛德\t里弗賽德\n里扣\t里扣\n里拉\t里拉\n里斯\t里斯\n里斯本\t里斯本\n里昂\t里昂\n里昂市\t里昂市\n里昂队\t里昂隊\n里望\t里望\n里望乡\t里望鄉\n里木店\t里木店\n里根\t里根\n里欧\t里歐\n里欧斯\t里歐斯\n里正\t里正\n里氏\t里氏\n里氏震级\t里氏震級\n里民\t里民\n里民大会\t里民大會\n里港\t里港\n里港乡\t里港鄉\n里漏社\t里漏社\n里漏部落\t里漏部落\n里特维宁科\t里特維寧科\n里瓦几亚条约\t里瓦幾亞條約\n里瓦尔多\t里瓦爾多\n里甲\t里甲\n里社\t里社\n里科\t里科\n里程\t里程\n里程碑\t里程碑\n里程碑式\t里程碑式\n里程表\t里程錶\n里程计\t里程計\n里约\t里約\n里约热内卢\t里約熱內盧\n里纳\t里納\n里维拉\t里維拉\n里美\t里美\n里老\t里老\n里耳\t里耳\n里肌\t里肌\n里胥\t里胥\n里舍\t里舍\n里蒙诺夫\t里蒙諾夫\n里语\t里語\n里谈巷议\t里談巷議\n里谚\t里諺\n里豪\t里豪\n里贝利\t里貝利\n里贾纳\t里賈納\n里路\t里路\n里邻长\t里鄰長\n里长\t里長\n里长伯\t里長伯\n里门\t里門\n里闬\t里閈\n里闾\t里閭\n重制\t重製\n重复\t重複\n重复使用\t重複使用\n重复启动效应\t重複啓動效應\n重复式\t重複式\n重复本\t重複本\n重复法\t重複法\n重复节\t重複節\n重复记录\t重複記錄\n重复语境\t重複語境\n重复课税\t重複課稅\n重庆小面\t重慶小麪\n重托\t重託\n重折\t重摺\n重生爷娘\t重生爺孃\n重罗面\t重羅麪\n重见复出\t重見複出\n野姜\t野薑\n野姜花\t野薑花\n野胡萝卜\t野胡蘿蔔\n金乌西坠玉兔东升\t金烏西墜玉兔東昇\n金仑溪\t金崙溪\n金伯利岩\t金伯利岩\n金升圭\t金昇圭\n金印如斗\t金印如斗\n金发\t金髮\n金发女郎\t金髮女郎\n金发碧眼\t金髮碧眼\n金属制\t金屬製\n金属杆\t金屬桿\n金斗\t金斗\n金杯\t金盃\n金桔干\t金桔乾\n金融杠杆\t金融槓桿\n金表\t金錶\n金里奇\t金里奇\n金钟\t金鐘\n金钟罩\t金鐘罩\n金钟铲\t金鐘鏟\n金链\t金鍊\n金马仑道\t金馬崙道\n金黄长发\t金黃長髮\n釜底游鱼\t釜底游魚\n针关\t鍼關\n针口\t鍼口\n针扣\t針釦\n针灸\t鍼灸\n针灸铜人\t鍼灸銅人\n针灸麻醉\t鍼灸麻醉\n针砭\t鍼砭\n针芒\t鍼芒\n针芥相投\t鍼芥相投\n针阳谷\t鍼陽谷\n钉扣\t釘釦\n钟上\t鐘上\n钟下\t鐘下\n钟不\t鐘不\n钟不扣不鸣\t鐘不扣不鳴\n钟不撞不鸣\t鐘不撞不鳴\n钟不敲不响\t鐘不敲不響\n钟不空则哑\t鐘不空則啞\n钟乐\t鐘樂\n钟乳洞\t鐘乳洞\n钟乳石\t鐘乳石\n钟体\t鐘體\n钟停\t鐘停\n钟关\t鐘關\n钟匠\t鐘匠\n钟发音\t鐘發音\n钟口\t鐘口\n钟响\t鐘響\n钟响声\t鐘響聲\n钟在寺里\t鐘在寺裏\n钟塔\t鐘塔\n钟壁\t鐘壁\n钟声\t鐘聲\n钟太\t鐘太\n钟头\t鐘頭\n钟好\t鐘好\n钟山\t鐘山\n钟山区\t鐘山區\n钟山县\t鐘山縣\n钟左右\t鐘左右\n钟差\t鐘差\n钟座\t鐘座\n钟形\t鐘形\n钟形虫\t鐘形蟲\n钟律\t鐘律\n钟快\t鐘快\n钟慢\t鐘慢\n钟摆\t鐘擺\n钟敲\t鐘敲\n钟有\t鐘有\n钟楚红\t鐘楚紅\n钟楼\t鐘樓\n钟楼区\t鐘樓區\n钟楼怪人\t鐘樓怪人\n钟模\t鐘模\n钟没\t鐘沒\n钟漏\t鐘漏\n钟点\t鐘點\n钟点房\t鐘點房\n钟点费\t鐘點費\n钟王\t鐘王\n钟珮瑄\t鐘珮瑄\n钟琴\t鐘琴\n钟的\t鐘的\n钟盘\t鐘盤\n钟相\t鐘相\n钟磬\t鐘磬\n钟福松\t鐘福松\n钟纽\t鐘紐\n钟罩\t鐘罩\n钟腰\t鐘腰\n钟螺\t鐘螺\n钟行\t鐘行\n钟表\t鐘錶\n钟表停\t鐘錶停\n钟表盘\t鐘錶盤\n钟被\t鐘被\n钟调\t鐘調\n钟身\t鐘身\n钟速\t鐘速\n钟面\t鐘面\n钟顶\t鐘頂\n钟鸣\t鐘鳴\n钟鸣漏尽\t鐘鳴漏盡\n钟鸣鼎食\t鐘鳴鼎食\n钟鼎\t鐘鼎\n钟鼎之家\t鐘鼎之家\n钟鼎人家\t鐘鼎人家\n钟鼎山林\t鐘鼎山林\n钟鼎文\t鐘鼎文\n钟鼎款识\t鐘鼎款識\n钟鼎高门\t鐘鼎高門\n钟鼓\t鐘鼓\n钟鼓齐鸣\t鐘鼓齊鳴\n钢制\t鋼製\n钢制品\t鋼製品\n钢扣\t鋼釦\n钢梁\t鋼樑\n钢笔杆\t鋼筆桿\n钧复\t鈞覆\n钧鉴\t鈞鑒\n钮扣\t鈕釦\n钱柜杂志\t錢櫃雜誌\n钱谷\t錢穀\n钱过北斗\t錢過北斗\n钻杆\t鑽桿\n钻石项链\t鑽石項鍊\n铁制\t鐵製\n铁扣\t鐵釦\n铁拐\t鐵柺\n铁杆\t鐵桿\n铁板注脚\t鐵板註腳\n铁板面\t鐵板麪\n铁钟\t鐵鐘\n铅制\t鉛製\n铜制\t銅製\n铜制品\t銅製品\n铜山西崩洛钟东应\t銅山西崩洛鐘東應\n铜扣\t銅釦\n铜斗儿\t銅斗兒\n铜斗儿家缘\t銅斗兒家緣\n铜钟\t銅鐘\n铝制\t鋁製\n铝制品\t鋁製品\n铠胄\t鎧冑\n铯钟\t銫鐘\n铲刈\t剷刈\n铲平\t剷平\n铲掉\t剷掉\n铲斗\t鏟斗\n铲草\t剷草\n铲铲\t剷剷\n铲除\t剷除\n银丝卷\t銀絲捲\n银丝面\t銀絲麪\n银制\t銀製\n银发\t銀髮\n银发产业\t銀髮產業\n银发族\t銀髮族\n银朱\t銀硃\n银杯\t銀盃\n银行利害关系人\t銀行利害關係人\n银行存折\t銀行存摺\n银须\t銀鬚\n铸钟\t鑄鐘\n铺盖卷儿\t鋪蓋捲兒\n铺眉扇眼\t鋪眉搧眼\n链坠\t鍊墜\n链形\t鍊形\n链扣\t鏈釦\n链甲\t鍊甲\n销毁\t銷燬\n锁扣\t鎖釦\n锅伙\t鍋伙\n锅烧面\t鍋燒麪\n错综复杂\t錯綜複雜\n锤炼\t錘鍊\n锦囊佳制\t錦囊佳製\n锦回文\t錦迴文\n锦熏笼\t錦熏籠\n锦胡同\t錦衚衕\n锲而不舍\t鍥而不捨\n锻炼\t鍛鍊\n锻炼身体\t鍛鍊身體\n镂金错采\t鏤金錯采\n镇荣里\t鎮榮里\n镕岩\t鎔岩\n镰仓\t鎌倉\n长几\t長几\n长历\t長曆\n长发\t長髮\n长吁\t長吁\n长吁短叹\t長吁短嘆\n长寿烟\t長壽菸\n长寿面\t長壽麪\n长干巷\t長干巷\n长干曲\t長干曲\n长干里\t長干里\n长征\t長征\n长征军\t長征軍\n长绳系日\t長繩繫日\n长绳系景\t長繩繫景\n长胡\t長鬍\n长须\t長鬚\n长须鲸\t長鬚鯨\n长风万里\t長風萬里\n门斗\t門斗\n闭一只眼\t閉一隻眼\n闯炼\t闖鍊\n间不容发\t間不容髮\n闵凶\t閔凶\n闵采尔\t閔采爾\n闷表\t悶錶\n闹别扭\t鬧彆扭\n闹哄\t鬧鬨\n闹哄哄\t鬧鬨鬨\n闹表\t鬧錶\n闹钟\t鬧鐘\n闹铃时钟\t鬧鈴時鐘\n闹饥荒\t鬧饑荒\n闾里\t閭里\n阑干\t闌干\n阙里\t闕里\n阮咸\t阮咸\n防台\t防颱\n防御\t防禦\n防御力\t防禦力\n防御工事\t防禦工事\n防御性\t防禦性\n防御战\t防禦戰\n防御术\t防禦術\n防御率\t防禦率\n防御率王\t防禦率王\n防御网\t防禦網\n防毒斗篷\t防毒斗篷\n防水表\t防水錶\n阳历\t陽曆\n阳历年\t陽曆年\n阳春面\t陽春麪\n阳溪穴\t陽谿穴\n阳谷\t陽穀\n阳谷县\t陽穀縣\n阴占\t陰占\n阴历\t陰曆\n阴历年\t陰曆年\n阴干\t陰乾\n阴阳历\t陰陽曆\n阴阳合历\t陰陽合曆\n阿加莎克里斯蒂\t阿加莎克里斯蒂\n阿卡提里\t阿卡提里\n阿咸\t阿咸\n阿奇里斯\t阿奇里斯\n阿娘\t阿孃\n阿尔梅里亚\t阿爾梅里亞\n阿布贾里布\t阿布賈里布\n阿扎伦卡\t阿紮倫卡\n阿拉干山脉\t阿拉干山脈\n阿斗\t阿斗\n阿斯图里亚斯\t阿斯圖里亞斯\n阿杰\t阿杰\n阿瓦里德\t阿瓦里德\n阿里\t阿里\n阿里亚斯\t阿里亞斯\n阿里地区\t阿里地區\n阿里山\t阿里山\n阿里山之歌\t阿里山之歌\n阿里山乡\t阿里山鄉\n阿里山区\t阿里山區\n阿里山山脉\t阿里山山脈\n阿里巴巴\t阿里巴巴\n阿里巴巴与四十大盗\t阿里巴巴與四十大盜\n阿里斯托芬\t阿里斯托芬\n阿里斯托芳\t阿里斯托芳\n阿里曼\t阿里曼\n阿里桑那\t阿里桑那\n阿里郎\t阿里郎\n附注\t附註\n附膻逐秽\t附膻逐穢\n附膻逐腥\t附膻逐腥\n附膻逐臭\t附膻逐臭\n陆游\t陸游\n陆詟水栗\t陸讋水慄\n陈世杰\t陳世杰\n陈冲\t陳沖\n陈升\t陳昇\n陈尹杰\t陳尹杰\n陈幸嫚\t陳倖嫚\n陈杰\t陳杰\n陈汉升\t陳漢昇\n陈瀛钟\t陳瀛鐘\n陈炼\t陳鍊\n陈谷子烂芝麻\t陳穀子爛芝麻\n陈郁秀\t陳郁秀\n陈鼎击钟\t陳鼎擊鐘\n除旧布新\t除舊佈新\n陨获\t隕穫\n陪吊\t陪弔\n陵土未干\t陵土未乾\n陶制\t陶製\n陶土制品\t陶土製品\n隆准许\t隆准許\n隐几\t隱几\n隔周\t隔週\n隔年的皇历\t隔年的皇曆\n隔年皇历\t隔年皇曆\n难分难舍\t難分難捨\n难割难舍\t難割難捨\n难咽\t難嚥\n难挨\t難捱\n难舍\t難捨\n难舍难分\t難捨難分\n难舍难离\t難捨難離\n难荫\t難廕\n雄斗斗\t雄斗斗\n雅游\t雅游\n雅筑\t雅筑\n雅致\t雅緻\n集体强奸\t集體強姦\n集注\t集註\n雕具座\t鵰具座\n雕心雁爪\t鵰心雁爪\n雕悍\t鵰悍\n雕梁\t雕樑\n雕梁画柱\t雕樑畫柱\n雕梁画栋\t雕樑畫棟\n雕翎\t鵰翎\n雕翎扇\t鵰翎扇\n雕鹗\t鵰鶚\n雨露均沾\t雨露均霑\n雪窗萤几\t雪窗螢几\n零只\t零隻\n零周期\t零週期\n零多只\t零多隻\n零系数\t零係數\n雷夫范恩斯\t雷夫范恩斯\n雷德克里夫\t雷德克里夫\n雾蒙蒙\t霧濛濛\n震栗\t震慄\n震荡\t震盪\n震荡不安\t震盪不安\n震荡性\t震盪性\n霉干菜\t黴乾菜\n霉气冲天\t黴氣沖天\n霍乱杆菌\t霍亂桿菌\n霍里\t霍里\n青山一发\t青山一髮\n青帘\t青帘\n青苹\t青苹\n青蝇吊客\t青蠅弔客\n非合并\t非合併\n非吸烟\t非吸菸\n非意相干\t非意相干\n非杠杆化\t非槓桿化\n非游离辐射伤害\t非游離輻射傷害\n非签不可\t非簽不可\n非词重复测验\t非詞重複測驗\n面人\t麪人\n面人儿\t麪人兒\n面价\t麪價\n面包\t麪包\n面包刀\t麪包刀\n面包屑\t麪包屑\n面包师\t麪包師\n面包师傅\t麪包師傅\n面包店\t麪包店\n面包心\t麪包心\n面包房\t麪包房\n面包树\t麪包樹\n面包渣\t麪包渣\n面包片\t麪包片\n面包皮\t麪包皮\n面包粉\t麪包粉\n面包花\t麪包花\n面包车\t麪包車\n面厂\t麪廠\n面团\t麪糰\n面坊\t麪坊\n面坯儿\t麪坯兒\n面塑\t麪塑\n面子药\t麪子藥\n面店\t麪店\n面房街\t麪房街\n面房里\t麪房里\n面摊\t麪攤\n面摊子\t麪攤子\n面杖\t麪杖\n面杖吹火\t麪杖吹火\n面条\t麪條\n面条儿\t麪條兒\n面汤\t麪湯\n面浆\t麪漿\n面灰\t麪灰\n面点\t麪點\n面点师\t麪點師\n面点王\t麪點王\n面疙瘩\t麪疙瘩\n面白无须\t面白無鬚\n面皂\t面皂\n面皮\t麪皮\n面码儿\t麪碼兒\n面碗\t麪碗\n面票\t麪票\n面筋\t麪筋\n面粉\t麪粉\n面粉袋\t麪粉袋\n面糊\t麪糊\n面缸\t麪缸\n面肥\t麪肥\n面茶\t麪茶\n面酱\t麪醬\n面霸\t麪霸\n面食\t麪食\n面食类\t麪食類\n面饺\t麪餃\n面饼\t麪餅\n面馆\t麪館\n革制品\t革製品\n鞋扣\t鞋釦\n鞣制\t鞣製\n鞭辟入里\t鞭辟入裏\n鞭辟近里\t鞭辟近裏\n韦后\t韋后\n韩侂胄\t韓侂冑\n韩制\t韓製\n韩升洙\t韓昇洙\n韩国制\t韓國製\n韩复矩\t韓復榘\n韩巴里\t韓巴里\n音像制品\t音像製品\n音声如钟\t音聲如鐘\n韶山冲\t韶山沖\n页岩\t頁岩\n顶夸克\t頂夸克\n顶梁柱\t頂樑柱\n顶针挨住\t頂針捱住\n项链\t項鍊\n顺德者吉逆天者凶\t順德者吉逆天者凶\n顺时钟\t順時鐘\n顺朱儿\t順硃兒\n顺钟向\t順鐘向\n须发\t鬚髮\n须发皆白\t鬚髮皆白\n须后水\t鬚後水\n须子\t鬚子\n须根\t鬚根\n须毛\t鬚毛\n须生\t鬚生\n须眉\t鬚眉\n须胡\t鬚鬍\n须须\t鬚鬚\n须髯\t鬚髯\n须髯如戟\t鬚髯如戟\n须鲨\t鬚鯊\n须鲸\t鬚鯨\n顽卤\t頑鹵\n顽筑舞笈\t頑筑舞笈\n顾借\t顧藉\n颁发奖杯\t頒發獎盃\n颁布\t頒佈\n颂系\t頌繫\n颂赞\t頌讚\n预制\t預製\n预制构件\t預製構件\n预托证券\t預託證券\n领台\t領檯\n领扣\t領釦\n领袖欲\t領袖慾\n颈链\t頸鍊\n颊须\t頰鬚\n频数分布\t頻數分佈\n频率调制\t頻率調製\n题签\t題簽\n额发\t額髮\n额我略历\t額我略曆\n颟里颟顸\t顢里顢頇\n颠仆\t顛仆\n颠颠仆仆\t顛顛仆仆\n颤栗\t顫慄\n风刮\t風颳\n风卷\t風捲\n风卷残云\t風捲殘雲\n风后\t風后\n风土志\t風土誌\n风干\t風乾\n风干机\t風乾機\n风成砂岩\t風成砂岩\n风斗\t風斗\n风流别致\t風流別緻\n风流蕴借\t風流蘊藉\n风流酝借\t風流醞藉\n风湿性心脏病\t風溼性心臟病\n风物志\t風物誌\n风采\t風采\n风采堂堂\t風采堂堂\n风险与收益的关系\t風險與收益的關係\n风马牛不相干\t風馬牛不相干\n飞刍挽粒\t飛芻輓粒\n飞刍挽粟\t飛芻輓粟\n飞刍挽粮\t飛芻輓糧\n飞升\t飛昇\n飞征\t飛征\n飞必冲天\t飛必沖天\n飞扎\t飛紮\n飞梁\t飛樑\n飞燕游龙\t飛燕游龍\n飞粮挽秣\t飛糧輓秣\n飞行钟\t飛行鐘\n食不糊口\t食不餬口\n食欲\t食慾\n食欲不佳\t食慾不佳\n食欲不振\t食慾不振\n食野之苹\t食野之苹\n食面\t食麪\n餍于游乐\t饜於游樂\n餐台\t餐檯\n饥年\t饑年\n饥民\t饑民\n饥荒\t饑荒\n饥馑\t饑饉\n饥馑之岁\t饑饉之歲\n饥馑荐臻\t饑饉薦臻\n饭后钟\t飯後鐘\n饭团\t飯糰\n饮胄\t飲冑\n饰扣\t飾釦\n饱暖思淫欲\t飽暖思淫慾\n饱暖生淫欲\t飽暖生淫慾\n饲喂\t飼餵\n饼干\t餅乾\n饼干店\t餅乾店\n饼干盒\t餅乾盒\n饿殍枕借\t餓殍枕藉\n馄饨面\t餛飩麪\n馆谷\t館穀\n首只\t首隻\n首都杯\t首都盃\n香干\t香乾\n香斗\t香斗\n香格里拉\t香格里拉\n香格里拉县\t香格里拉縣\n香格里拉怡咖啡\t香格里拉怡咖啡\n香榭里大道\t香榭里大道\n香烟\t香菸\n香烟头\t香菸頭\n香烟盒\t香菸盒\n香熏\t香薰\n香熏疗法\t香薰療法\n香皂\t香皂\n香蕉干\t香蕉乾\n香郁\t香郁\n馥郁\t馥郁\n马丁杜里荷\t馬丁杜里荷\n马占山\t馬占山\n马后练服\t馬后練服\n马夫\t馬伕\n马干\t馬乾\n马德里\t馬德里\n马德里队\t馬德里隊\n马扎\t馬紮\n马托格罗索\t馬託格羅索\n马斯特里赫特\t馬斯特里赫特\n马来亚玻里尼西亚语系\t馬來亞玻里尼西亞語系\n马格里布\t馬格里布\n马苏里拉\t馬蘇里拉\n马表\t馬錶\n马车夫\t馬車伕\n马里亚纳\t馬里亞納\n马里亚纳海沟\t馬里亞納海溝\n马里亚纳群岛\t馬里亞納羣島\n马里克\t馬里克\n马里内斯科\t馬里內斯科\n马里奇\t馬里奇\n马里奥\t馬里奧\n马里安纳海沟\t馬里安納海溝\n马里布\t馬里布\n马里斯\t馬里斯\n驻扎\t駐紮\n驻扎地\t駐紮地\n骀借\t駘藉\n验核\t驗覈\n骨坛\t骨罈\n骨头里挣出来的钱才做得肉\t骨頭裏掙出來的錢纔做得肉\n骨灰坛\t骨灰罈\n骨质疏松\t骨質疏鬆\n骨质疏松症\t骨質疏鬆症\n骾朴\t骾朴\n高丽参\t高麗蔘\n高几\t高几\n高周波\t高週波\n高尔基复合体\t高爾基複合體\n高干扰\t高干擾\n高干预\t高干預\n高政升\t高政昇\n高清愿\t高清愿\n高筋面粉\t高筋麪粉\n高良姜\t高良薑\n高郁净\t高郁淨\n髡发\t髡髮\n髭胡\t髭鬍\n髭须\t髭鬚\n髯胡\t髯鬍\n髼松\t髼鬆\n鬅松\t鬅鬆\n鬈发\t鬈髮\n鬒发\t鬒髮\n鬓发\t鬢髮\n鬓发如银\t鬢髮如銀\n鬓发皆白\t鬢髮皆白\n鬓发皓然\t鬢髮皓然\n鬼气冲天\t鬼氣沖天\n鬼门上占卦\t鬼門上占卦\n魂牵梦系\t魂牽夢繫\n魏斯里史奈普\t魏斯里史奈普\n魏郁奇\t魏郁奇\n魔表\t魔錶\n鱼丸粗面\t魚丸粗麪\n鱼干\t魚乾\n鱼松\t魚鬆\n鱼游釜中\t魚游釜中\n鱼游釜底\t魚游釜底\n鱼肉乡里\t魚肉鄉里\n鱼胄\t魚冑\n鲁肉面\t魯肉麪\n鲍德里亚\t鮑德里亞\n鲗鱼涌\t鰂魚涌\n鲜于\t鮮于\n鲜谷王\t鮮穀王\n鲸须\t鯨鬚\n鳝鱼面\t鱔魚麪\n鳞游\t鱗游\n鸡丝面\t雞絲麪\n鸡只\t雞隻\n鸡奸\t雞姦\n鸡尸牛从\t雞尸牛從\n鸡皮鹤发\t雞皮鶴髮\n鸡肤鹤发\t雞膚鶴髮\n鸡腿面\t雞腿麪\n鸡蛋面\t雞蛋麪\n鸣钟\t鳴鐘\n鸣钟列鼎\t鳴鐘列鼎\n鸭子划水\t鴨子划水\n鸭跖草\t鴨跖草\n鸿篇巨制\t鴻篇鉅製\n鸿篇巨著\t鴻篇鉅著\n鹄发\t鵠髮\n鹏程万里\t鵬程萬里\n鹘仑吞枣\t鶻崙吞棗\n鹤发\t鶴髮\n鹤发童颜\t鶴髮童顏\n鹤吊\t鶴弔\n鹰嘴豆面粉\t鷹嘴豆麪粉\n鹰扬万里\t鷹揚萬里\n鹰雕\t鷹鵰\n鹿门采药\t鹿門采藥\n麦格里\t麥格里\n麦科里\t麥科里\n麸皮面包\t麩皮麪包\n麻杆\t麻桿\n麻涌\t麻涌\n麻辣面\t麻辣麪\n麻酱面\t麻醬麪\n麻雀虽小五脏俱全\t麻雀雖小五臟俱全\n黄东梁\t黃東樑\n黄俊杰\t黃俊杰\n黄历\t黃曆\n黄发\t黃髮\n黄发儿齿\t黃髮兒齒\n黄发垂髫\t黃髮垂髫\n黄发鲐背\t黃髮鮐背\n黄岩\t黃岩\n黄干黑瘦\t黃乾黑瘦\n黄旭升\t黃旭昇\n黄曲毒素\t黃麴毒素\n黄曲霉\t黃麴黴\n黄曲霉毒素\t黃麴黴毒素\n黄曲霉菌\t黃麴黴菌\n黄果树瀑布\t黃菓樹瀑布\n黄珮筑\t黃珮筑\n黄育杰\t黃育杰\n黄郁涵\t黃郁涵\n黄郁茹\t黃郁茹\n黄金周\t黃金週\n黄金存折\t黃金存摺\n黄金表\t黃金錶\n黄钟\t黃鐘\n黄钟大吕\t黃鐘大呂\n黄钟毁弃\t黃鐘毀棄\n黄钟长弃\t黃鐘長棄\n黄钰筑\t黃鈺筑\n黄须\t黃鬚\n黄鱼面\t黃魚麪\n黎涌\t黎涌\n黑亮发\t黑亮髮\n黑发\t黑髮\n黑发人\t黑髮人\n黑曜岩\t黑曜岩\n黑气冲天\t黑氣沖天\n黑面\t黑麪\n黑面包\t黑麪包\n黑须\t黑鬚\n默念\t默唸\n黮暗\t黮闇\n鼇头独占\t鼇頭獨占\n鼎食鸣钟\t鼎食鳴鐘\n鼓不打不响钟不撞不鸣\t鼓不打不響鐘不撞不鳴\n鼓噪\t鼓譟\n鼓荡\t鼓盪\n鼠曲草\t鼠麴草\n鼠疫杆菌\t鼠疫桿菌\n鼻梁\t鼻樑\n鼻梁儿\t鼻樑兒\n鼻梁骨\t鼻樑骨\n鼻烟\t鼻菸\n鼻烟壶\t鼻菸壺\n鼻烟盒\t鼻菸盒\n齐后破环\t齊后破環\n齐心并力\t齊心併力\n齐王舍牛\t齊王捨牛\n齿危发秀\t齒危髮秀\n齿发\t齒髮\n齿落发白\t齒落髮白\n龙卷\t龍捲\n龙卷风\t龍捲風\n龙应台\t龍應台\n龙游\t龍游\n龙游县\t龍游縣\n龙游浅水\t龍游淺水\n龙眼干\t龍眼乾\n龙虾面\t龍蝦麪\n龙里\t龍里\n龙里县\t龍里縣\n龙须\t龍鬚\n龙须友\t龍鬚友\n龙须沟\t龍鬚溝\n龙须茶\t龍鬚茶\n龙须草\t龍鬚草\n龙须菜\t龍鬚菜\n龙须面\t龍鬚麪\n𣗊溪\t樠谿\n𣲘溪\t潕谿";
+export const TW_PHRASES = "B超\t超音波\nPN結\tPN接面\nSQL注入\tSQL隱碼攻擊\nSQL注入攻擊\tSQL隱碼攻擊\nU盤\t隨身碟\n丁丁當\t叮叮噹\n丁丁當當\t叮叮噹噹\n丁型肝炎\tD型肝炎\n丁當\t叮噹\n丁肝\tD肝\n三極管\t三極體\n下拉列表\t下拉式清單\n丙型肝炎\tC型肝炎\n丙氨酸\t丙胺酸\n丙肝\tC肝\n並行計算\t平行計算\n中間件\t中介軟體\n串口\t序列埠\n串行\t序列\n串行端口\t序列埠\n主引導記錄\t主開機記錄\n主板\t主機板\n乍得\t查德\n乙型肝炎\tB型肝炎\n乙肝\tB肝\n也門\t葉門\n二噁英\t戴奧辛\n二極管\t二極體\n互聯網\t網際網路\n交互\t互動\n交互式\t互動式\n亨德爾\t韓德爾\n亮氨酸\t白胺酸 亮胺酸\n人工智能\t人工智慧\n他汀類\t史他汀類\n仙童半導體\t快捷半導體\n代碼\t程式碼 代碼\n代碼頁\t內碼表\n代謝綜合徵\t代謝症候群\n以太網\t乙太網路 乙太網\n以太網絡\t乙太網路\n以太網路\t乙太網路\n以太網路由器\t乙太網路路由器 乙太網路由器\n任務欄\t工作列\n任務管理器\t工作管理員\n仿真\t模擬\n伊利諾伊\t伊利諾\n伊利諾伊州\t伊利諾州\n伯克希爾-哈撒韋\t波克夏海瑟威\n伯克希爾-哈撒韋公司\t波克夏海瑟威公司\n伯克希爾哈撒韋\t波克夏海瑟威\n伯克希爾哈撒韋公司\t波克夏海瑟威公司\n伯利茲\t貝里斯\n位圖\t點陣圖\n低級\t低階 低級\n佐治亞\t喬治亞\n佐治亞州\t喬治亞州\n佛得角\t維德角\n便攜式\t行動式 攜帶型\n俄克拉何馬\t奧克拉荷馬\n俄克拉何馬城\t奧克拉荷馬城\n俄克拉何馬州\t奧克拉荷馬州\n俄克拉何馬市\t奧克拉荷馬市\n俄克拉荷馬\t奧克拉荷馬\n俄克拉荷馬城\t奧克拉荷馬城\n俄克拉荷馬州\t奧克拉荷馬州\n俄克拉荷馬市\t奧克拉荷馬市\n俄勒岡\t奧勒岡\n俄勒岡州\t奧勒岡州\n保存\t儲存\n信噪比\t訊雜比\n信息\t資訊\n信息安全\t資訊安全\n信息技術\t資訊科技\n信息論\t資訊理論\n信號\t訊號 信號\n信道\t通道\n借記卡\t簽帳金融卡\n傅里葉\t傅立葉\n傳感\t感測\n像素\t畫素\n僞代碼\t虛擬碼\n優先級\t優先順序\n優化\t最佳化\n元數據\t後設資料\n元編程\t超程式設計\n元音\t母音\n光標\t游標\n光盤\t光碟\n光驅\t光碟機\n克列門蒂\t克萊門第\n克羅地亞\t克羅埃西亞\n克萊門蒂\t克萊門第\n免提\t擴音\n內存\t記憶體\n內核\t核心\n內置\t內建\n內聯函數\t行內函數\n全局\t全域性\n全角\t全形\n公元\t西元\n公元紀年\t公元紀年\n兼容\t相容\n冒泡排序\t氣泡排序\n冰棍\t冰棒\n凱奇\t凱吉\n出租車\t計程車\n函數\t函式\n函數式編程\t函數語言程式設計\n刀片服務器\t刀鋒伺服器\n分佈式\t分散式\n分區\t分割槽\n分辨率\t解析度\n列支敦士登\t列支敦斯登\n利比里亞\t賴比瑞亞\n利蓋蒂\t利蓋悌\n刷新\t重新整理\n刻錄\t燒錄\n前列腺\t攝護腺\n前綴\t字首\n剪切\t剪下\n剪貼板\t剪貼簿\n創建\t建立\n加納\t迦納\n加蓬\t加彭\n加載\t載入\n勃拉姆斯\t布拉姆斯\n勳伯格\t荀白克\n北卡羅來納\t北卡羅萊納\n北卡羅來納州\t北卡羅萊納州\n北馬里亞納\t北馬利安納\n北馬里亞納羣島\t北馬利安納群島\n半角\t半形\n南卡羅來納\t南卡羅萊納\n南卡羅來納州\t南卡羅萊納州\n博凱里尼\t波凱里尼\n博客\t部落格\n博茨瓦納\t波札那\n卡塔爾\t卡達\n危地馬拉\t瓜地馬拉\n卸載\t解除安裝\n厄瓜多爾\t厄瓜多\n厄立特里亞\t厄利垂亞\n原代碼\t原始碼\n參數\t引數\n參數表\t參數列\n古爾德\t顧爾德\n句柄\t控制代碼\n可執行文件\t執行檔\n可視化\t視覺化\n司法程序\t司法程序\n吉布堤\t吉布地\n呼出\t撥出\n呼叫轉移\t來電轉接\n命令式編程\t指令式程式設計\n命令行\t命令列\n命名空間\t名稱空間 名字空間\n咖喱\t咖哩\n哈希\t雜湊\n哈薩克斯坦\t哈薩克\n哥斯達黎加\t哥斯大黎加\n唐氏綜合徵\t唐氏症\n唐氏綜合症\t唐氏症\n喬治亞\t喬治亞\n單片機\t微控制器\n回調\t回撥\n固件\t韌體\n圖像\t影像\n圖庫\t相簿\n圖標\t圖示\n圖瓦盧\t吐瓦魯\n圖雷特綜合徵\t妥瑞氏症 妥瑞症\n土庫曼斯坦\t土庫曼\n在線\t線上\n圭亞那\t蓋亞那\n地址\t地址 位址\n地址欄\t位址列\n坦桑尼亞\t坦尚尼亞\n埃克森美孚\t艾克森美孚\n埃塞俄比亞\t衣索比亞\n埃爾加\t艾爾加\n城域網\t都會網路\n基里巴斯\t吉里巴斯\n堆棧\t堆疊\n場效應管\t場效電晶體\n塑料\t塑膠\n塔吉克斯坦\t塔吉克\n塞拉利昂\t獅子山\n塞浦路斯\t塞普勒斯\n塞舌爾\t塞席爾\n壁紙\t桌布 壁紙\n外置\t外接\n外鍵\t外部索引鍵\n多任務\t多工\n多動症\t過動症\n多囊卵巢綜合徵\t多囊性卵巢症候群\n多尼采蒂\t多尼采第\n多態\t多型\n多米尼加\t多明尼加\n多線程\t多執行緒\n大數據\t大數據\n大衆公司\t福斯汽車\n大衆汽車\t福斯汽車\n大衆汽車集團\t福斯汽車集團\n大衆集團\t福斯集團\n天冬氨酸\t天冬胺酸\n天冬酰胺\t天冬醯胺\n天門冬氨酸\t天門冬胺酸\n天門冬酰胺\t天門冬醯胺\n奔馳\t賓士\n奧巴馬\t歐巴馬\n奧爾夫\t奧福\n奶酪\t乳酪\n威斯康星\t威斯康辛\n威斯康星州\t威斯康辛州\n孕酮\t黃體素\n字庫\t字型檔\n字段\t欄位\n字符\t字元\n字符串\t字串\n字符集\t字元集\n字節\t位元組\n字節跳動\t字節跳動\n字體\t字型\n存儲\t儲存\n存盤\t存檔\n孤獨症\t自閉症\n安提瓜和巴布達\t安地卡及巴布達\n宏\t宏 巨集\n宏內核\t單核心\n宏函數\t巨集函式\n宏命令\t巨集命令\n宏定義\t巨集定義\n宏展開\t巨集展開\n宏指令\t巨集指令\n宏替換\t巨集替換\n宏編程\t巨集程式設計\n宏處理\t巨集處理\n宏語言\t巨集語言\n宏調用\t巨集呼叫\n室顫\t心室顫動\n寄存器\t暫存器\n密歇根\t密西根\n密歇根州\t密西根州\n密鑰\t金鑰\n實例\t例項 實例\n實時\t即時\n實模式\t真實模式\n審覈\t稽核\n寫保護\t防寫\n寬帶\t寬頻\n寶潔\t寶僑\n寶潔公司\t寶僑公司\n寶馬集團\tBMW集團\n尋址\t定址\n對乙酰氨基酚\t對乙醯胺基酚 乙醯胺酚\n對話框\t對話方塊\n對象\t物件 對象\n導入\t匯入\n導出\t匯出\n尼日利亞\t奈及利亞\n尼日爾\t尼日\n局域網\t區域網\n局部\t區域性\n屏幕\t螢幕\n屏蔽\t遮蔽\n岡比亞\t甘比亞\n嵌套\t巢狀\n巴巴多斯\t巴貝多\n巴布亞新幾內亞\t巴布亞紐幾內亞\n市場營銷\t市場行銷\n布列茲\t布萊茲\n布基納法索\t布吉納法索\n布爾\t布林\n布里頓\t布瑞頓\n布隆迪\t蒲隆地\n布雷頓\t布列敦\n布雷頓森林\t布列敦森林\n布雷頓森林體系\t布列敦森林制度\n帕勞\t帛琉\n帕金森病\t帕金森氏症 巴金森氏症\n帶寬\t頻寬\n幾內亞比紹\t幾內亞比索\n幾率\t機率\n庫欣綜合徵\t庫欣氏症候群\n康涅狄格\t康乃狄克\n康涅狄格州\t康乃狄克州\n引導程序\t載入程式\n弗吉尼亞\t維吉尼亞\n弗吉尼亞州\t維吉尼亞州\n強生公司\t嬌生公司\n彙編\t彙編 組譯\n彙編器\t組譯器\n彙編語言\t組合語言\n彩超\t彩色超音波\n後綴\t字尾\n循環\t迴圈 循環\n德彪西\t德布西\n德沃夏克\t德弗札克\n心室顫動\t心室顫動\n心房撲動\t心房撲動\n心房顫動\t心房顫動\n心梗\t心肌梗塞\n心肌梗死\t心肌梗塞\n急性呼吸窘迫綜合徵\t急性呼吸窘迫症候群\n性價比\t價效比\n性能\t效能\n意大利\t義大利\n慢性疲勞綜合徵\t慢性疲勞症候群\n戊型肝炎\tE型肝炎\n戊肝\tE肝\n戒斷綜合徵\t戒斷症候群\n截取\t擷取\n截屏\t截圖\n戴留斯\t戴流士\n房撲\t心房撲動\n房顫\t心房顫動\n所羅門羣島\t索羅門群島\n打印\t列印\n打印機\t印表機\n打開\t開啟 打開\n批量\t批次\n抑鬱症\t憂鬱症\n抽動穢語綜合徵\t妥瑞氏症 妥瑞症\n拉洛\t拉羅\n拉莫\t拉摩\n拉赫瑪尼諾夫\t拉赫曼尼諾夫\n拋出\t丟擲\n拷貝\t複製\n持久性\t永續性\n指針\t指標\n捲積\t摺積\n掃描儀\t掃描器\n掛斷\t結束通話\n採樣\t取樣\n採樣率\t取樣率\n接口\t介面\n控件\t控制元件\n插件\t外掛\n搜索\t搜尋\n摩爾線程\t摩爾線程\n撲熱息痛\t對乙醯胺基酚\n操作數\t運算元\n操作符\t運算子\n操作系統\t作業系統\n擴展\t擴充套件\n擴展名\t副檔名\n支持\t支援\n支持者\t支持者\n散列\t雜湊\n數字\t數字 數位\n數字印刷\t數位印刷\n數字電子\t數位電子\n數字電路\t數位電路\n數據\t資料 數據\n數據倉庫\t資料倉儲\n數據報\t資料包\n數據庫\t資料庫\n數據挖掘\t資料探勘\n數據源\t資料來源\n數組\t陣列\n文件\t檔案\n文件名\t檔名\n文件夾\t資料夾\n文件擴展名\t副檔名\n文字處理\t文書處理\n文檔\t文件\n文萊\t汶萊\n斯克里亞賓\t史克里亞賓\n斯卡拉蒂\t史卡拉第\n斯威士蘭\t史瓦濟蘭\n斯洛文尼亞\t斯洛維尼亞\n斯特拉文斯基\t史特拉汶斯基\n斯美塔那\t史麥塔納\n新澤西\t紐澤西\n新澤西州\t紐澤西州\n新罕布什爾\t新罕布夏\n新罕布什爾州\t新罕布夏州\n新西蘭\t紐西蘭\n方便麪\t泡麵 速食麵\n方程式\t方程式\n施托克豪森\t史托克豪森\n施特勞斯\t史特勞斯\n映射\t對映\n時分多址\t分時多重進接\n時分複用\t分時多工\n時鐘頻率\t時脈頻率\n普羅科菲耶夫\t普羅高菲夫\n晶閘管\t閘流體\n晶體管\t電晶體\n智能\t智慧\n最終用戶\t終端使用者\n有損壓縮\t有失真壓縮\n服務器\t伺服器\n本地代碼\t原生代碼\n析構函數\t解構函式 解構子\n枚舉\t列舉\n柏遼茲\t白遼士\n查找\t查詢\n查看\t檢視\n格什溫\t蓋希文\n格拉斯\t葛拉斯\n格林卡\t葛令卡\n格林納達\t格瑞那達\n格里格\t葛利格\n格魯吉亞\t喬治亞\n格魯吉亞共和國\t喬治亞共和國\n桌面型\t桌上型\n梅西安\t梅湘\n概率\t機率\n榴蓮\t榴槤\n構造函數\t建構函式\n構造器\t建構子\n標識符\t識別符號\n模塊\t模組\n模擬\t模擬 類比\n模擬電子\t類比電子\n模擬電路\t類比電路\n權限\t許可權\n欣德米特\t興德密特\n歐拉\t尤拉\n歐萊雅\t萊雅\n歐萊雅集團\t萊雅集團\n正則表達式\t正規表示式\n正當程序\t正當程序\n正電子\t正子\n正電子發射計算機斷層\t正子斷層造影\n死機\t宕機\n殺毒\t防毒\n比特\t位元\n比特幣\t比特幣\n比特率\t位元率\n毛里塔尼亞\t茅利塔尼亞\n毛里求斯\t模里西斯\n氨基酸\t胺基酸\n氨苄西林\t安比西林\n沃恩·威廉斯\t佛漢·威廉斯\n沃爾頓\t華爾頓\n沙特阿拉伯\t沙烏地阿拉伯\n沙特阿美\t沙烏地阿美\n沙特阿美公司\t沙烏地阿美公司\n波分複用\t波長分波多工\n波斯尼亞黑塞哥維那\t波士尼亞赫塞哥維納\n津巴布韋\t辛巴威\n洪都拉斯\t宏都拉斯\n海內存知己\t海內存知己\n海菲茨\t海飛茲\n消息\t訊息 消息\n涼菜\t冷盤\n添加\t新增\n源代碼\t原始碼\n源文件\t原始檔\n源碼\t原始碼\n溢出\t溢位\n溫納圖萬\t那杜\n滾動條\t捲軸\n演示文稿\t簡報\n演算法\t演算法\n漢坦病毒\t漢他病毒\n潘德列茨基\t潘德列茲基\n激光\t雷射\n激活\t啟用\n烏茲別克斯坦\t烏茲別克\n無損壓縮\t無失真壓縮\n物理內存\t實體記憶體\n物理地址\t實體地址\n特拉華\t德拉瓦\n特拉華州\t德拉瓦州\n特立尼達和多巴哥\t千里達及托巴哥\n狀態欄\t狀態列\n獲得性免疫缺陷綜合徵\t後天免疫缺乏症候群\n珀塞爾\t普賽爾\n瑙魯\t諾魯\n瓦努阿圖\t萬那杜\n瓦格納\t華格納\n甘氨酸\t甘胺酸\n用戶\t使用者\n用戶名\t使用者名稱\n甲型肝炎\tA型肝炎\n甲硫氨酸\t甲硫胺酸\n甲肝\tA肝\n界面\t介面\n異亮氨酸\t異白胺酸 異亮胺酸\n異步\t非同步\n癡呆症\t失智症\n登錄\t登入\n發佈\t釋出\n發送\t傳送\n白細胞\t白血球\n的士\t計程車\n盤片\t碟片\n盤符\t磁碟機代號\n盧旺達\t盧安達\n目標代碼\t目的碼\n相冊\t相簿\n睡眠呼吸暫停綜合徵\t睡眠呼吸中止症\n矢量\t向量\n知識產權\t智慧財產權\n短信\t簡訊\n砹\t砈\n硅\t矽\n硬件\t硬體\n硬盤\t硬碟\n碼分多址\t分碼多重進接\n碼率\t位元速率\n磁盤\t磁碟\n磁道\t磁軌\n社區\t社群 社區\n禁用\t停用\n福雷\t佛瑞\n科摩羅\t葛摩\n科普蘭\t柯普蘭\n科特迪瓦\t象牙海岸\n科雷利\t柯雷利\n移動數據\t行動數據\n移動硬盤\t行動硬碟\n移動網絡\t行動網路\n移動通信\t行動通訊\n移動電話\t行動電話\n程序\t程式\n程序不正義\t程序不正義\n程序員\t程式設計師\n程序正義\t程序正義\n穀氨酰胺\t麩醯胺酸 穀氨醯胺\n穀氨酸\t麩胺酸 穀胺酸\n穆索爾斯基\t穆索斯基\n空分多址\t分空間多重進接\n空分複用\t空間多工\n空氣淨化器\t空氣清淨機\n突尼斯\t突尼西亞\n窗口\t視窗\n端口\t埠\n筆記本電腦\t筆記型電腦\n算子\t運算元\n算法\t演算法\n範式\t範式 正規化\n粘貼\t貼上 粘貼\n精氨酸\t精胺酸\n紅心大戰\t傷心小棧\n紅細胞\t紅血球\n納米\t奈米\n納米比亞\t納米比亞\n索馬里\t索馬利亞\n組件\t元件\n組氨酸\t組胺酸\n絲氨酸\t絲胺酸\n綁定\t繫結\n綁架丁丁當\t綁架丁丁當\n經前期綜合徵\t經前症候群\n維瓦爾第\t韋瓦第\n網上鄰居\t網路上的芳鄰\n網卡\t網絡卡\n網吧\t網咖\n網絡\t網路\n網關\t閘道器\n線程\t執行緒\n編程\t程式設計\n編程語言\t程式語言\n緩存\t快取\n縮略圖\t縮圖\n縮進\t縮排\n總線\t匯流排\n纈氨酸\t纈胺酸\n缺省\t預設\n羅得島\t羅德島\n羅得島州\t羅德島州\n美屬維爾京羣島\t美屬維京群島\n老人癡呆症\t老年失智症\n老年性癡呆症\t老年失智症\n老年癡呆症\t老年失智症\n老撾\t寮國\n聖基茨和尼維斯\t聖克里斯多福及尼維斯\n聖文森特和格林納丁斯\t聖文森及格瑞那丁\n聖盧西亞\t聖露西亞\n聖馬力諾\t聖馬利諾\n聯繫\t聯絡\n聯繫歷史\t通話記錄\n聲卡\t音效卡\n聲明\t宣告\n肖斯塔科維奇\t蕭士塔高維契\n肖邦\t蕭邦\n肯尼亞\t肯亞\n胰腺\t胰臟\n胱氨酸\t胱胺酸\n脫機\t離線\n脯氨酸\t脯胺酸\n腎病綜合徵\t腎病症候群\n腕管綜合徵\t腕隧道症候群\n腦梗\t腦梗塞\n腦梗死\t腦梗塞\n腳本\t指令碼\n腸易激綜合徵\t大腸激躁症\n自動轉屏\t自動旋轉螢幕\n自行車\t腳踏車\n臺式機\t桌上型電腦\n臺積公司\t台積公司\n臺積電\t台積電\n航天飛機\t太空梭\n色氨酸\t色胺酸\n艾奧瓦\t愛荷華\n艾奧瓦州\t愛荷華州\n艾滋病\t愛滋病\n艾滋病人\t愛滋病患\n艾滋病毒\t愛滋病毒\n芯片\t晶片\n花屏\t破圖\n苯丙氨酸\t苯丙胺酸\n英偉達\t輝達\n莫扎特\t莫札特\n莫桑比克\t莫三比克\n菜單\t選單 菜單\n萊索托\t賴索托\n萬維網\t全球資訊網\n萬象\t永珍\n蒂佩特\t提佩特\n薩拉薩蒂\t薩拉沙泰\n薩蒂\t薩提\n藍屏\t藍色畫面\n蘇氨酸\t蘇胺酸\n蘇里南\t蘇利南\n處理程序\t處理程序\n虛函數\t虛擬函式\n虛擬機\t虛擬機器\n虛擬機器\t虛擬機器\n血紅蛋白\t血紅素\n表達式\t表示式 運算式\n複印\t影印\n複選按鈕\t核取按鈕\n複選框\t核取方塊\n西弗吉尼亞\t西維吉尼亞\n西弗吉尼亞州\t西維吉尼亞州\n西貝柳斯\t西貝流士\n視圖\t檢視\n視頻\t影片 視訊\n視頻會議\t視訊會議\n視頻通話\t視訊通話\n解釋器\t直譯器\n觸摸\t觸控\n觸摸屏\t觸控式螢幕\n計算機安全\t電腦保安\n計算機斷層\t電腦斷層\n計算機科學\t電腦科學\n訪問\t訪問 存取\n設備\t裝置\n設置\t設定\n訴訟程序\t訴訟程序\n註冊機\t序號產生器\n註冊表\t登錄檔\n註銷\t登出\n詞組\t片語\n調度\t排程\n調用\t呼叫\n調色板\t調色盤\n調色盤\t調色盤\n調製\t調變\n調製解調器\t數據機\n調試\t除錯 偵錯\n調試器\t偵錯程式\n變量\t變數\n貝利尼\t貝里尼\n貝寧\t貝南\n賴希\t萊許\n賴氨酸\t離胺酸\n贊比亞\t尚比亞\n超聲波\t超音波\n蹦極\t高空彈跳\n軟件\t軟體\n軟驅\t軟碟機\n軟體動物\t軟體動物\n輔音\t子音\n轉義字符\t跳脫字元\n通信\t通訊\n通訊卡\t通話卡\n通道\t通道\n通配符\t萬用字元\n連接\t連線\n連接器\t聯結器\n進制\t進位制\n進程\t程序 進程 行程\n運算符\t運算子\n運行\t執行\n過程式編程\t程序式程式設計\n遞歸\t遞迴\n遠程\t遠端\n適配器\t介面卡\n邏輯門\t邏輯閘\n酪氨酸\t酪胺酸\n酰\t醯\n里姆斯基-科薩科夫\t林姆斯基-高沙可夫\n重命名\t重新命名\n重裝\t重灌\n重載\t過載\n金屬氧化物半導體\t金氧半導體\n鈁\t鍅\n鈈\t鈽\n錄像\t錄影\n錇\t鉳\n鍀\t鎝\n鎄\t鑀\n鎇\t鋂\n鎿\t錼\n鏈接\t連結\n鏈表\t連結串列\n鏡像\t映象\n鐦\t鉲\n鑥\t鎦\n門德爾松\t孟德爾頌\n門戶網站\t入口網站\n門電路\t閘電路\n閃存\t快閃記憶體\n開市客\t好市多\n開市客公司\t好市多公司\n關係數據庫\t關聯式資料庫\n阻滯劑\t阻斷劑\n阿司匹林\t阿斯匹靈\n阿塞拜疆\t亞塞拜然\n阿拉伯聯合酋長國\t阿拉伯聯合大公國\n阿斯利康\t阿斯特捷利康\n阿斯利康公司\t阿斯特捷利康公司\n阿爾茨海默氏症\t阿茲海默氏症\n阿爾茨海默病\t阿茲海默症\n阿爾茨海默症\t阿茲海默症\n阿莫西林\t阿莫西林 安莫西林\n隊列\t佇列\n雅納切克\t楊納傑克\n集成\t整合\n集成電路\t積體電路\n集羣\t叢集\n雲存儲\t雲端儲存\n雲計算\t雲端計算\n雷諾綜合徵\t雷諾氏症候群\n霍洛維茨\t霍洛維茲\n面向對象\t物件導向\n面向過程\t程序導向\n韋伯恩\t韋本\n音頻\t音訊\n頁眉\t頁首\n頁腳\t頁尾\n項目\t專案\n預處理器\t前處理器\n預設\t預設\n頭文件\t標頭檔案\n頻分多址\t分頻多重進接\n頻分複用\t分頻多工\n類型\t型別\n類模板\t類别範本\n顯像管\t映象管\n顯卡\t顯示卡\n顯存\t視訊記憶體\n飛行模式\t飛航模式\n首席信息官\t資訊長\n首席執行官\t執行長\n首席技術官\t技術長\n首席運營官\t營運長\n香農\t夏農\n馬凡綜合徵\t馬凡氏症候群 馬凡氏症\n馬方綜合徵\t馬凡氏症候群 馬凡氏症\n馬爾代夫\t馬爾地夫\n馬薩諸塞\t麻薩諸塞\n馬薩諸塞州\t麻薩諸塞州\n馬里共和國\t馬利共和國\n高性能計算\t高效能運算\n高清\t高畫質\n高端\t高階 進階\n高級\t高階 進階 高級\n高級設置\t進階設定\n高級選項\t進階選項\n高速緩存\t快取記憶體\n鮑羅丁\t包羅定\n黃體酮\t黃體素\n黑客\t駭客\n默認\t預設\n默認值\t預設值\n點擊\t點選\n鼠標\t滑鼠";
+export const TW_VARIANTS = "僞\t偽\n啓\t啟\n喫\t吃\n嫺\t嫻\n嬀\t媯\n峯\t峰\n幺\t么\n棱\t稜\n檐\t簷\n污\t汙\n泄\t洩\n潙\t溈\n潨\t潀\n爲\t為\n牀\t床\n痹\t痺\n癡\t痴\n皁\t皂\n着\t著\n睾\t睪\n祕\t秘\n竈\t灶\n糉\t粽\n繮\t韁\n纔\t才\n羣\t群\n脣\t唇\n蔘\t參\n蔿\t蒍\n衆\t眾\n裏\t裡\n覈\t核\n踊\t踴\n鉢\t缽\n鍼\t針\n鮎\t鯰\n麪\t麵\n齶\t顎";
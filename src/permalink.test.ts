@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_FORMAT } from './codec';
+import { encodePermalink, decodePermalink, type PermalinkState } from './permalink';
+
+const STATE: PermalinkState = {
+  input: '中文 Big5\n碁 😀 ★(',
+  blockMode: true,
+  showAnnotation: true,
+  lookup: 'A4A4',
+  variant: 'big5-hkscs',
+  format: { notation: 'url', separator: 'space', lowercase: true, annotate: true },
+};
+
+test('permalinks round-trip the input and display settings', async () => {
+  const hash = await encodePermalink(STATE);
+  assert.match(hash, /^[A-Za-z0-9\-_=&.]+$/);
+  assert.deepEqual(await decodePermalink(`#${hash}`), STATE);
+});
+
+test('permalinks compress long input', async () => {
+  const input = '中文字'.repeat(2000);
+  const hash = await encodePermalink({ ...STATE, input });
+  assert.ok(hash.length < 500, `hash is ${hash.length} characters`);
+  assert.equal((await decodePermalink(hash))?.input, input);
+});
+
+test('default settings are omitted and invalid values ignored', async () => {
+  const hash = await encodePermalink({
+    input: '',
+    blockMode: false,
+    showAnnotation: false,
+    lookup: '',
+    variant: 'cp950',
+    format: DEFAULT_FORMAT,
+  });
+  assert.equal(hash, '');
+  assert.equal(await decodePermalink(''), null);
+  assert.equal(await decodePermalink('#section-2'), null);
+  assert.equal(await decodePermalink('#t=not-deflate'), null);
+  const decoded = await decodePermalink('#v=big5-xx&n=rot13&s=tab&c=a4zz4');
+  assert.equal(decoded?.variant, 'cp950');
+  assert.deepEqual(decoded?.format, DEFAULT_FORMAT);
+  assert.equal(decoded?.lookup, 'A44');
+  assert.equal((await decodePermalink('#c=a%3F4'))?.lookup, 'A?4');
+  for (const separator of ['constructor', 'toString', '__proto__']) {
+    assert.equal((await decodePermalink(`#s=${separator}`))?.format.separator, 'star');
+  }
+});
@@ -0,0 +1,99 @@
+import {
+  BIG5_VARIANTS,
+  CODE_NOTATIONS,
+  DEFAULT_FORMAT,
+  DEFAULT_VARIANT,
+  SEPARATOR_IDS,
+  type Big5Variant,
+  type CodeNotation,
+  type OutputFormat,
+  type SeparatorId,
+} from './codec';
+
+// ─── 分享連結 ─────────────────────────────────────────────────────────────────
+//
+//  把畫面狀態放進 URL hash（#t=…&b=1&a=1&c=A4A4&v=cp950&n=hex&s=star&l=1）：
+//    t  輸入文字，deflate-raw 壓縮後以 base64url 表示
+//    b  方塊字模式    a  顯示中文註記    c  反向查找的碼
+//    v  編碼變體      n / s / l  輸出格式的 notation / separator / lowercase
+//  與預設值相同的欄位省略，解析時不認得的值一律忽略。
+//
+export interface PermalinkState {
+  input: string;
+  blockMode: boolean;
+  showAnnotation: boolean;
+  /** 反向查找格中的碼，0–4 個 hex 字元，? 為萬用字元（空格） */
+  lookup: string;
+  variant: Big5Variant;
+  format: OutputFormat;
+}
+
+const PARAM_KEYS = ['t', 'b', 'a', 'c', 'v', 'n', 's', 'l'];
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+async function pipe(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function encodePermalink(state: PermalinkState): Promise<string> {
+  const params = new URLSearchParams();
+  if (state.input) {
+    const compressed = await pipe(new TextEncoder().encode(state.input), new CompressionStream('deflate-raw'));
+    params.set('t', toBase64Url(compressed));
+  }
+  if (state.blockMode) params.set('b', '1');
+  if (state.showAnnotation) params.set('a', '1');
+  if (state.lookup) params.set('c', state.lookup);
+  if (state.variant !== DEFAULT_VARIANT) params.set('v', state.variant);
+  if (state.format.notation !== DEFAULT_FORMAT.notation) params.set('n', state.format.notation);
+  if (state.format.separator !== DEFAULT_FORMAT.separator) params.set('s', state.format.separator);
+  if (state.format.lowercase) params.set('l', '1');
+  return params.toString();
+}
+
+/** 解析 hash（可含開頭的 #）；沒有任何可用欄位或文字解不開時回傳 null */
+export async function decodePermalink(hash: string): Promise<PermalinkState | null> {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  if (![...params.keys()].some(key => PARAM_KEYS.includes(key))) return null;
+
+  let input = '';
+  const compressed = params.get('t');
+  if (compressed) {
+    try {
+      input = new TextDecoder().decode(await pipe(fromBase64Url(compressed), new DecompressionStream('deflate-raw')));
+    } catch {
+      return null;
+    }
+  }
+
+  const variant = params.get('v') as Big5Variant | null;
+  const notation = params.get('n') as CodeNotation | null;
+  const separator = params.get('s');
+  return {
+    input,
+    blockMode: params.get('b') === '1',
+    showAnnotation: params.get('a') === '1',
+    lookup: (params.get('c') ?? '').replace(/[^0-9A-Fa-f?]/g, '').toUpperCase().slice(0, 4),
+    variant: variant && BIG5_VARIANTS.includes(variant) ? variant : DEFAULT_VARIANT,
+    format: {
+      ...DEFAULT_FORMAT,
+      notation: notation && CODE_NOTATIONS.includes(notation) ? notation : DEFAULT_FORMAT.notation,
+      separator: SEPARATOR_IDS.includes(separator as SeparatorId) ? (separator as SeparatorId) : DEFAULT_FORMAT.separator,
+      lowercase: params.get('l') === '1',
+      annotate: params.get('a') === '1',
+    },
+  };
+}
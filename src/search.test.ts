@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  getCharProperties,
+  parseCodePointRange,
+  radicalChar,
+  radicalStrokes,
+  radicalsByStrokes,
+  searchCharacters,
+  RADICAL_COUNT,
+} from './search';
+
+test('character properties come from the bundled Unihan data', () => {
+  assert.deepEqual(getCharProperties('中'), { radical: 2, simplifiedRadical: false, residualStrokes: 3, totalStrokes: 4 });
+  assert.deepEqual(getCharProperties('王'), { radical: 96, simplifiedRadical: false, residualStrokes: -1, totalStrokes: 4 });
+  assert.equal(getCharProperties('A'), undefined);
+});
+
+test('Kangxi radicals are grouped by their own stroke count', () => {
+  assert.equal(radicalChar(1), '一');
+  assert.equal(radicalChar(85), '水');
+  assert.equal(radicalChar(RADICAL_COUNT), '龠');
+  assert.equal(radicalStrokes(85), 4);
+  const groups = radicalsByStrokes();
+  assert.deepEqual(groups.flatMap(([, radicals]) => radicals), Array.from({ length: RADICAL_COUNT }, (_, i) => i + 1));
+  assert.deepEqual(groups[16], [17, [214]]);
+});
+
+test('parseCodePointRange accepts single code points and ranges', () => {
+  assert.deepEqual(parseCodePointRange('U+4E2D'), [0x4e2d, 0x4e2d]);
+  assert.deepEqual(parseCodePointRange('4e00 - U+4E2F'), [0x4e00, 0x4e2f]);
+  assert.equal(parseCodePointRange('U+4E2F-4E00'), undefined);
+  assert.equal(parseCodePointRange('中'), undefined);
+});
+
+test('searchCharacters filters the selected variant table', () => {
+  assert.deepEqual(searchCharacters({ codePoint: 'U+4E2D' }).map(r => [r.char, r.code]), [['中', 'A4A4']]);
+  assert.equal(searchCharacters({ radical: 85, residualStrokes: 2 }).map(r => r.char).join(''), '氻氾氿汀汁求汃汆');
+  assert.ok(searchCharacters({ totalStrokes: 4 }).every(r => r.properties?.totalStrokes === 4));
+  assert.deepEqual(searchCharacters({ codePoint: 'U+5571' }), []);
+  assert.deepEqual(searchCharacters({ codePoint: 'U+5571' }, 'big5-hkscs').map(r => r.char), ['啱']);
+  assert.deepEqual(searchCharacters({}), []);
+});
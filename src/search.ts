@@ -0,0 +1,127 @@
+import { UNIHAN_DATA, UNIHAN_COUNT, UNIHAN_RESIDUAL_OFFSET } from './unihan-data';
+import { getTable, DEFAULT_VARIANT, type Big5Variant } from './codec';
+
+// ─── 部首筆畫資料 ─────────────────────────────────────────────────────────────
+//
+//  UNIHAN_DATA 每筆 6 bytes：碼位 (3) + 部首 (1) + 簡化部首旗標 | 餘筆畫 (1) + 總筆畫 (1)，
+//  只收錄各 Big5 變體中的漢字；BMP 以外的字 Unihan 來源未收，只能以碼位搜尋。
+//
+export interface CharProperties {
+  /** 康熙部首序號 1–214 */
+  radical: number;
+  /** 以簡化字形的部首計（kRSUnicode 中的 '） */
+  simplifiedRadical: boolean;
+  /** 部首以外的筆畫數，少數字為負 */
+  residualStrokes: number;
+  totalStrokes: number;
+}
+
+let properties: Map<string, CharProperties> | undefined;
+
+function getProperties(): Map<string, CharProperties> {
+  if (!properties) {
+    const raw = atob(UNIHAN_DATA);
+    properties = new Map();
+    for (let i = 0; i < UNIHAN_COUNT; i++) {
+      const o = i * 6;
+      const cp = (raw.charCodeAt(o) << 16) | (raw.charCodeAt(o + 1) << 8) | raw.charCodeAt(o + 2);
+      const flags = raw.charCodeAt(o + 4);
+      properties.set(String.fromCodePoint(cp), {
+        radical: raw.charCodeAt(o + 3),
+        simplifiedRadical: (flags & 0x80) !== 0,
+        residualStrokes: (flags & 0x7f) - UNIHAN_RESIDUAL_OFFSET,
+        totalStrokes: raw.charCodeAt(o + 5),
+      });
+    }
+  }
+  return properties;
+}
+
+export function getCharProperties(char: string): CharProperties | undefined {
+  return getProperties().get(char);
+}
+
+// ─── 康熙部首 ─────────────────────────────────────────────────────────────────
+//
+//  部首字取自 Kangxi Radicals 區塊 (U+2F00–U+2FD5) 經 NFKC 正規化後的統一漢字。
+//
+export const RADICAL_COUNT = 214;
+
+/** 各筆畫數的第一個部首序號：1 畫 1–6、2 畫 7–29 ⋯ 17 畫 214 */
+const RADICAL_STROKE_STARTS = [1, 7, 30, 61, 95, 118, 147, 167, 176, 187, 195, 201, 205, 209, 211, 212, 214];
+
+export function radicalChar(radical: number): string {
+  return String.fromCodePoint(0x2f00 + radical - 1).normalize('NFKC');
+}
+
+export function radicalStrokes(radical: number): number {
+  return RADICAL_STROKE_STARTS.filter(start => start <= radical).length;
+}
+
+/** 依部首本身筆畫分組：[筆畫數, 部首序號[]][] */
+export function radicalsByStrokes(): [number, number[]][] {
+  return RADICAL_STROKE_STARTS.map((start, i) => {
+    const end = (RADICAL_STROKE_STARTS[i + 1] ?? RADICAL_COUNT + 1) - 1;
+    return [i + 1, Array.from({ length: end - start + 1 }, (_, k) => start + k)];
+  });
+}
+
+// ─── 字元搜尋 ─────────────────────────────────────────────────────────────────
+//
+//  在所選變體的對照表中搜尋：
+//    codePoint     U+4E2D，或範圍 U+4E00-U+4E2F
+//    radical       部首序號，可再加 residualStrokes 限定餘筆畫
+//    totalStrokes  總筆畫
+//  條件可合併（皆須符合）；結果依部首、餘筆畫、碼位排序。
+//
+export interface SearchQuery {
+  codePoint?: string;
+  radical?: number;
+  residualStrokes?: number;
+  totalStrokes?: number;
+}
+
+export interface SearchResult {
+  char: string;
+  code: string;
+  properties?: CharProperties;
+}
+
+/** "U+4E2D" / "4e2d" / "U+4E00-4E2F" → [起, 迄]；無法解析時回傳 undefined */
+export function parseCodePointRange(query: string): [number, number] | undefined {
+  const match = /^\s*(?:U\+)?([0-9A-F]{1,6})\s*(?:[-–~]\s*(?:U\+)?([0-9A-F]{1,6}))?\s*$/i.exec(query);
+  if (!match) return undefined;
+  const start = parseInt(match[1], 16);
+  const end = match[2] === undefined ? start : parseInt(match[2], 16);
+  return start <= end && end <= 0x10ffff ? [start, end] : undefined;
+}
+
+function compareResults(a: SearchResult, b: SearchResult): number {
+  const pa = a.properties;
+  const pb = b.properties;
+  if (pa && pb && (pa.radical !== pb.radical || pa.residualStrokes !== pb.residualStrokes)) {
+    return pa.radical - pb.radical || pa.residualStrokes - pb.residualStrokes;
+  }
+  if (!pa !== !pb) return pa ? -1 : 1;
+  return a.char.codePointAt(0)! - b.char.codePointAt(0)!;
+}
+
+export function searchCharacters(query: SearchQuery, variant: Big5Variant = DEFAULT_VARIANT): SearchResult[] {
+  const range = query.codePoint === undefined ? undefined : parseCodePointRange(query.codePoint);
+  if (query.codePoint !== undefined && !range) return [];
+  if (!range && query.radical === undefined && query.totalStrokes === undefined) return [];
+
+  const results: SearchResult[] = [];
+  for (const [char, code] of getTable(variant).mapping) {
+    if (range) {
+      const cp = char.codePointAt(0)!;
+      if (cp < range[0] || cp > range[1]) continue;
+    }
+    const props = getCharProperties(char);
+    if (query.radical !== undefined && props?.radical !== query.radical) continue;
+    if (query.residualStrokes !== undefined && props?.residualStrokes !== query.residualStrokes) continue;
+    if (query.totalStrokes !== undefined && props?.totalStrokes !== query.totalStrokes) continue;
+    results.push({ char, code, properties: props });
+  }
+  return results.sort(compareResults);
+}
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAPPING } from './codec';
+import { toTraditional, joinSegments, segmentKey, traditionalCandidates } from './simplified';
+
+test('toTraditional prefers phrases over character-by-character conversion', () => {
+  assert.equal(joinSegments(toTraditional('头发很长，理发店', { taiwan: false })), '頭髮很長，理髮店');
+  assert.deepEqual(traditionalCandidates('发'), ['發', '髮']);
+});
+
+test('Taiwan mode applies Taiwan phrases and variants after conversion', () => {
+  assert.equal(joinSegments(toTraditional('软件着急')), '軟體著急');
+  assert.equal(joinSegments(toTraditional('软件', { taiwan: false })), '軟件');
+});
+
+test('segments keep positions and expose one-to-many ambiguities', () => {
+  const segments = toTraditional('中文\n头发发');
+  assert.deepEqual(
+    segments.map(({ line, column, source, text, candidates }) => ({ line, column, source, text, candidates })),
+    [
+      { line: 1, column: 1, source: '中文\n', text: '中文\n', candidates: ['中文\n'] },
+      { line: 2, column: 1, source: '头发', text: '頭髮', candidates: ['頭髮'] },
+      { line: 2, column: 3, source: '发', text: '發', candidates: ['發', '髮'] },
+    ]
+  );
+  assert.equal(joinSegments(segments, { [segmentKey(segments[2])]: '髮' }), '中文\n頭髮髮');
+});
+
+test('Traditional text is left untouched', () => {
+  const text = '繁體中文不變 Big5';
+  const segments = toTraditional(text);
+  assert.equal(segments.length, 1);
+  assert.equal(joinSegments(segments), text);
+  assert.ok([...'繁體中文不變'].every(c => MAPPING.has(c)));
+});
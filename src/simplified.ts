@@ -0,0 +1,182 @@
+import { ST_CHARACTERS, ST_PHRASES, TW_PHRASES, TW_VARIANTS } from './opencc-data';
+
+// ─── 簡體 → 繁體字典 ──────────────────────────────────────────────────────────
+//
+//  以打包的 OpenCC 字典離線轉換；一個簡體字可能對應多個繁體字（如 发 → 發 髮），
+//  候選依字典順序排列，第一個為最常用者。字典在第一次使用時才解開。
+//
+// 兩字以上的詞依字建成 trie，比對時沿著輸入往下走，不必每個位置都試遍所有長度
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  /** 到此節點為止的詞的候選 */
+  values?: string[];
+}
+
+interface Dictionary {
+  entries: Map<string, string[]>;
+  phrases: TrieNode;
+}
+
+function parseDictionary(data: string): Dictionary {
+  const entries = new Map<string, string[]>();
+  const phrases: TrieNode = { children: new Map() };
+  for (const line of data.split('\n')) {
+    const [key, values] = line.split('\t');
+    const candidates = values.split(' ');
+    entries.set(key, candidates);
+    const chars = [...key];
+    if (chars.length < 2) continue;
+    let node = phrases;
+    for (const char of chars) {
+      let child = node.children.get(char);
+      if (!child) {
+        child = { children: new Map() };
+        node.children.set(char, child);
+      }
+      node = child;
+    }
+    node.values = candidates;
+  }
+  return { entries, phrases };
+}
+
+const dictionaries = new Map<string, Dictionary>();
+
+function getDictionary(data: string): Dictionary {
+  let dictionary = dictionaries.get(data);
+  if (!dictionary) {
+    dictionary = parseDictionary(data);
+    dictionaries.set(data, dictionary);
+  }
+  return dictionary;
+}
+
+/** 簡體字的繁體候選（不含與原字相同者）；非簡體字回傳空陣列 */
+export function traditionalCandidates(char: string): string[] {
+  return (getDictionary(ST_CHARACTERS).entries.get(char) ?? []).filter(c => c !== char);
+}
+
+// 從 chars[start] 起找字典中最長的詞（兩字以上），回傳 [字數, 候選]
+function longestMatch(chars: string[], start: number, { phrases }: Dictionary): [number, string[]] | undefined {
+  let node = phrases;
+  let match: [number, string[]] | undefined;
+  for (let i = start; i < chars.length; i++) {
+    const next = node.children.get(chars[i]);
+    if (!next) break;
+    node = next;
+    if (node.values) match = [i - start + 1, node.values];
+  }
+  return match;
+}
+
+// ─── 簡轉繁 ───────────────────────────────────────────────────────────────────
+//
+//  1. 簡 → 繁：先以 STPhrases 最長詞比對（处理 → 處理、头发 → 頭髮），其餘逐字查 STCharacters
+//  2. 台灣用詞（taiwan）：再以 TWPhrases 比對（軟件 → 軟體），並套用 TWVariants 異體字（着 → 著）
+//
+//  結果切成片段；未變動的連續文字合成一段。逐字轉換且有多個候選的片段須由使用者確認。
+//
+export interface ConvertedSegment {
+  /** 片段在原文中的位置（行、欄皆 1 起算，欄以 code point 計） */
+  line: number;
+  column: number;
+  source: string;
+  text: string;
+  /** 所有可選的轉換結果，第一個即 text；多於一個代表一對多 */
+  candidates: string[];
+}
+
+export interface TraditionalOptions {
+  /** 台灣用詞與異體字，預設開啟 */
+  taiwan?: boolean;
+}
+
+// 第一階段逐字結果：簡轉繁保持字數不變，因此與原文逐字對齊
+interface CharStep {
+  char: string;
+  candidates: string[];
+  /** 屬於 STPhrases 詞的字數（只標在詞首），0 表示逐字轉換 */
+  phraseLength: number;
+}
+
+function convertStep1(chars: string[]): CharStep[] {
+  const phrases = getDictionary(ST_PHRASES);
+  const characters = getDictionary(ST_CHARACTERS);
+  const steps: CharStep[] = [];
+  for (let i = 0; i < chars.length; ) {
+    const match = longestMatch(chars, i, phrases);
+    if (match) {
+      const [length, [phrase]] = match;
+      [...phrase].forEach((char, k) =>
+        steps.push({ char, candidates: [char], phraseLength: k === 0 ? length : -1 })
+      );
+      i += length;
+    } else {
+      const candidates = characters.entries.get(chars[i]) ?? [chars[i]];
+      steps.push({ char: candidates[0], candidates, phraseLength: 0 });
+      i++;
+    }
+  }
+  return steps;
+}
+
+export function toTraditional(text: string, { taiwan = true }: TraditionalOptions = {}): ConvertedSegment[] {
+  const chars = [...text];
+  const steps = convertStep1(chars);
+  const converted = steps.map(s => s.char);
+  const twPhrases = getDictionary(TW_PHRASES);
+  const twVariants = getDictionary(TW_VARIANTS).entries;
+  const variantChar = (c: string) => twVariants.get(c)?.[0] ?? c;
+  const variant = (s: string) => (!taiwan ? s : s.length === 1 ? variantChar(s) : [...s].map(variantChar).join(''));
+
+  const segments: ConvertedSegment[] = [];
+  let i = 0;
+  let line = 1;
+  let column = 1;
+  const push = (length: number, candidates: string[]) => {
+    const source = length === 1 ? chars[i] : chars.slice(i, i + length).join('');
+    const result = candidates.length === 1 ? [variant(candidates[0])] : [...new Set(candidates.map(variant))];
+    const last = segments[segments.length - 1];
+    // 未變動的字接到上一段；candidates 等全部切完再補，免得每個字都配一個新陣列
+    if (result.length === 1 && result[0] === source && last && last.text === last.source) {
+      last.source += source;
+      last.text += source;
+    } else {
+      segments.push({ line, column, source, text: result[0], candidates: result });
+    }
+    for (const c of source) {
+      if (c === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+    }
+    i += length;
+  };
+
+  while (i < chars.length) {
+    const twMatch = taiwan ? longestMatch(converted, i, twPhrases) : undefined;
+    if (twMatch) {
+      push(twMatch[0], [twMatch[1][0]]);
+    } else if (steps[i].phraseLength > 0) {
+      const length = steps[i].phraseLength;
+      push(length, [converted.slice(i, i + length).join('')]);
+    } else {
+      push(1, steps[i].candidates);
+    }
+  }
+  for (const segment of segments) {
+    if (segment.text === segment.source && segment.candidates.length === 1) segment.candidates = [segment.text];
+  }
+  return segments;
+}
+
+/** 組合轉換結果；choices 以 segmentKey 為鍵，記錄使用者為一對多片段選的候選 */
+export function joinSegments(segments: ConvertedSegment[], choices: Record<string, string> = {}): string {
+  return segments.map(segment => choices[segmentKey(segment)] ?? segment.text).join('');
+}
+
+export function segmentKey({ line, column, source }: ConvertedSegment): string {
+  return `${line}:${column}:${source}`;
+}
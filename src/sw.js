@@ -0,0 +1,86 @@
+// ─── GGdove code Service Worker ───────────────────────────────────────────────
+//
+//  建置時由 vite.config.ts 的 serviceWorker 外掛填入 BUILD 後輸出為 dist/sw.js：
+//    version  對照表 checksum + 建置內容的雜湊，程式或對照表改變時都會換新快取
+//    assets   要預先快取的檔案（index.html、Worker chunk、manifest 與圖示）
+//  各種請求的處理方式：
+//    頁面             network-first，離線時回快取的 index.html（已內含對照表與 App）
+//    /api/big5-table  network-first，成功時更新快取，離線時回上次的表
+//    其他 /api/*      只走網路，連不上時回 503 { error, code: 'OFFLINE' }
+//    其他靜態檔       cache-first
+//  啟用時刪除同前綴的舊版本快取。
+//
+const BUILD = /* build */ { version: 'ggdove-dev', assets: ['index.html'] } /* end build */;
+
+const CACHE_PREFIX = 'ggdove-';
+const CACHE_NAME = BUILD.version;
+const SCOPE = new URL('./', self.location.href);
+const INDEX_URL = new URL('index.html', SCOPE).href;
+const PRECACHE = BUILD.assets.map(asset => new URL(asset, SCOPE).href);
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then(cache => cache.addAll(PRECACHE))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+function offlineResponse() {
+  return new Response(JSON.stringify({ error: '伺服器無法連線（離線模式）', code: 'OFFLINE' }), {
+    status: 503,
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+  });
+}
+
+async function networkFirst(request, fallbackUrl) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(fallbackUrl ?? request, response.clone());
+    return response;
+  } catch {
+    return (await cache.match(fallbackUrl ?? request)) ?? offlineResponse();
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  const api = url.pathname.startsWith('/api/');
+  if (request.method !== 'GET') {
+    if (api) event.respondWith(fetch(request).catch(offlineResponse));
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, INDEX_URL));
+  } else if (url.pathname === '/api/big5-table') {
+    event.respondWith(networkFirst(request));
+  } else if (api) {
+    event.respondWith(fetch(request).catch(offlineResponse));
+  } else {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -0,0 +1,139 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import vm from 'node:vm';
+import { serviceWorkerSource } from './offline';
+
+// 在 vm 中執行 src/sw.js，以假的 caches / fetch 模擬線上與離線
+const TEMPLATE = fs.readFileSync(path.join(import.meta.dirname, 'sw.js'), 'utf8');
+const ORIGIN = 'https://ggdove.test';
+
+interface FakeRequest {
+  url: string;
+  method: string;
+  mode: string;
+}
+
+function loadServiceWorker(network: (request: FakeRequest) => Response) {
+  let online = true;
+  const fetched: string[] = [];
+  const stores = new Map<string, Map<string, Response>>();
+  const key = (request: FakeRequest | string) => (typeof request === 'string' ? request : request.url);
+  const openCache = (name: string) => {
+    if (!stores.has(name)) stores.set(name, new Map());
+    const store = stores.get(name)!;
+    return {
+      match: async (request: FakeRequest | string) => store.get(key(request))?.clone(),
+      put: async (request: FakeRequest | string, response: Response) => void store.set(key(request), response),
+      addAll: async (urls: string[]) => urls.forEach(url => store.set(url, new Response(`cached ${url}`))),
+    };
+  };
+  const listeners = new Map<string, (event: unknown) => void>();
+
+  const context = {
+    URL,
+    Response,
+    JSON,
+    Promise,
+    self: {
+      location: new URL(`${ORIGIN}/sw.js`),
+      addEventListener: (type: string, listener: (event: unknown) => void) => listeners.set(type, listener),
+      skipWaiting: async () => {},
+      clients: { claim: async () => {} },
+    },
+    caches: {
+      open: async (name: string) => openCache(name),
+      keys: async () => [...stores.keys()],
+      delete: async (name: string) => stores.delete(name),
+    },
+    fetch: async (request: FakeRequest) => {
+      fetched.push(request.url);
+      if (!online) throw new TypeError('Failed to fetch');
+      return network(request);
+    },
+  };
+  const build = { version: 'ggdove-test.1', assets: ['index.html', 'conversion.worker-abc.js', 'icon-192.png'] };
+  vm.runInNewContext(serviceWorkerSource(TEMPLATE, build), context);
+
+  const dispatch = async (type: string) => {
+    let pending: Promise<unknown> = Promise.resolve();
+    listeners.get(type)!({ waitUntil: (promise: Promise<unknown>) => (pending = promise) });
+    await pending;
+  };
+  const request = async (pathname: string, init: Partial<FakeRequest> = {}): Promise<Response | undefined> => {
+    let response: Promise<Response> | undefined;
+    listeners.get('fetch')!({
+      request: { url: `${ORIGIN}${pathname}`, method: 'GET', mode: 'cors', ...init },
+      respondWith: (promise: Promise<Response>) => (response = promise),
+    });
+    return response;
+  };
+  return {
+    stores,
+    fetched,
+    dispatch,
+    request,
+    setOnline: (value: boolean) => (online = value),
+  };
+}
+
+test('install precaches the build assets under the build version', async () => {
+  const sw = loadServiceWorker(() => new Response('network'));
+  sw.stores.set('ggdove-old', new Map());
+  sw.stores.set('other-app', new Map());
+  await sw.dispatch('install');
+  assert.deepEqual([...sw.stores.get('ggdove-test.1')!.keys()], [
+    `${ORIGIN}/index.html`,
+    `${ORIGIN}/conversion.worker-abc.js`,
+    `${ORIGIN}/icon-192.png`,
+  ]);
+  await sw.dispatch('activate');
+  assert.deepEqual([...sw.stores.keys()].sort(), ['ggdove-test.1', 'other-app']);
+});
+
+test('navigation is network-first and falls back to the cached index.html', async () => {
+  const sw = loadServiceWorker(() => new Response('fresh page'));
+  await sw.dispatch('install');
+  assert.equal(await (await sw.request('/', { mode: 'navigate' }))!.text(), 'fresh page');
+  assert.deepEqual(sw.fetched, [`${ORIGIN}/`]);
+
+  sw.setOnline(false);
+  assert.equal(await (await sw.request('/?x=1', { mode: 'navigate' }))!.text(), 'fresh page');
+});
+
+test('/api/big5-table is network-first with the last response as fallback', async () => {
+  const sw = loadServiceWorker(() => new Response('0x4E2D\t0xA4A4'));
+  assert.equal(await (await sw.request('/api/big5-table'))!.text(), '0x4E2D\t0xA4A4');
+
+  sw.setOnline(false);
+  assert.equal(await (await sw.request('/api/big5-table'))!.text(), '0x4E2D\t0xA4A4');
+  const uncached = await sw.request('/api/big5-table?variant=big5-uao');
+  assert.equal(uncached!.status, 503);
+});
+
+test('other /api routes answer 503 OFFLINE when the server is unreachable', async () => {
+  const sw = loadServiceWorker(() => new Response('{"items":[],"total":0}'));
+  assert.equal((await sw.request('/api/history'))!.status, 200);
+
+  sw.setOnline(false);
+  for (const [pathname, method] of [['/api/history', 'GET'], ['/api/history', 'POST'], ['/api/snippets/1', 'DELETE']]) {
+    const response = await sw.request(pathname, { method });
+    assert.equal(response!.status, 503, `${method} ${pathname}`);
+    assert.equal((await response!.json()).code, 'OFFLINE');
+  }
+});
+
+test('static files are cache-first and other origins are left alone', async () => {
+  const sw = loadServiceWorker(() => new Response('network'));
+  await sw.dispatch('install');
+  assert.equal(await (await sw.request('/icon-192.png'))!.text(), `cached ${ORIGIN}/icon-192.png`);
+  assert.deepEqual(sw.fetched, []);
+  assert.equal(await sw.request('/', { mode: 'navigate', url: 'https://cdn.test/', method: 'GET' }), undefined);
+  assert.equal(await sw.request('/upload', { method: 'POST' }), undefined);
+});
+
+test('serviceWorkerSource requires the build marker', () => {
+  assert.throws(() => serviceWorkerSource('const BUILD = {};', { version: 'v', assets: [] }));
+  assert.match(serviceWorkerSource(TEMPLATE, { version: 'v1', assets: ['a.js'] }), /const BUILD = \{"version":"v1","assets":\["a.js"\]\};/);
+});
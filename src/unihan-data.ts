@@ -0,0 +1,6 @@
+// Generated by scripts/generate-unihan-data.ts from data/unihan/radical-strokes.txt. Do not edit.
+// Unicode Han Database (Unihan), Unicode License (see data/unihan/radical-strokes.txt).
+export const UNIHAN_SOURCE_URL = "https://www.unicode.org/charts/unihan.html";
+export const UNIHAN_RESIDUAL_OFFSET = 8;
+export const UNIHAN_DATA = "ADQEAgoDADQ1CQsFADRACQwGADRKCQ4IADRMCQ4IADRRCQ4IADRkCRELADRzCRIMADR6CRIMADR9CRMNADR+CRMNADSTCRUPADSWCRUPADSlCRoUADSvChgSADS8DRELADTBDgoEADTIDw0HADTfEg0HADTkEg4IADTmEg4IADT7EhIMADUGEhQOADU+GgkDADVRGxQOADVTGxcRADVZHBUPADVhHRQOADVtHgwHADVwHgwHADVyHgwHADV3Hg0IADV4Hg0IADWEHg4JADWXHg8KADWYHg8KADWhHhALADWlHhALADWtHhALADW/HhEMADXBHhEMADXFHhEMADXHHhEMADXKHhEMADXOHhEMADXSHhINADXWHhINADXbHhINADXdHhINADXxHhQPADXyHhQPADXzHhQPADX7HhUQADX+HhUQADYJHhcSADYYHhsWADYaHhwXADYjHw8KADYlHxkUADYtIAwHADY1IA0IADY5IA4JADY+IA4JADZHIBALADZIIBALADZJIBALADZOIBEMADZUIBEMADZfIBINADZhIBMOADZ6IBYRADaBIB0YADaaJQ4JADalJgsGADaqJgwHADasJgwHADawJg0IADaxJg0IADa1Jg0IADa5Jg0IADa8Jg0IADbBJg0IADbDJg4JADbEJg4JADbFJg4JADbHJg4JADbIJg4JADbTJg8KADbUJg8KADbWJg8KADbdJg8KADbhJg8KADbiJg8KADblJhALADbmJhALADb1JhEMADcBJhEMADcDJhEMADcIJhINADcKJhINADcNJhINADccJhMOADciJhMOADcjJhQPADclJhQPADcsJhUQADctJhUQADcwJhcSADcyJhgTADczJhgTADc6JhsWADdAJw0IADdDJw8KADdiKBEMADdvKBQPADeXLA8KADegLBQPADe5Lg0IADe+Lg0IADfWLg8KADfyLhINADf4LhINADf7LhMOADgPLhQPADgZLhYRADggLhgTADgtMBEMADg2MgsGADg4MgwHADhjMhUQADh1NQ0IADigNg0IADjDORMOADjMOw0IADjROxMOADjUPAoFADj6PQkFADkIPQwHADkUPQ0IADknPQ4JADkyPQ8LADk/PRALADlNPRALADljPRENADl4PRIOADmAPRMOADmJPRQPADmKPRQPADmSPRQPADmZPRUQADmbPRYSADmhPRcSADmkPRgUADm4PhAMADncQA0IADniQA4JADnlQA4JADnsQA4KADn4QA8KADn7QBALADn+QBALADoBQBALADoDQBALADoGQBALADoXQBEMADoYQBEMADopQBINADoqQBINADo0QBMOADpLQBQPADpSQBUQADpXQBUQADpcQBYRADpeQBYRADpmQBcSADpnQBcSADqXQhAMADqrQhYSADq9RQ0JADreSA0JADrgSA0JADrwSA8LADrySA8LADr1SBAMADr7SBAMADsOSBIOADsZSBQQADsiSBURADsrSBgUADs5ghAMADtCSwsHADtYSw4KADtgSw4KADtxSw8LADtySw8LADt7SxAMADt8SxAMADuASxAMADuVSxENADuWSxENADuZSxENADuhVhENADu8SxIOADu+SxMPADvCSxMPADvESxMPADvXSxQQADvdSxQQADvsSxURADvtSxURADvySxURADvzSxURADv0SxURADwNSxgUADwRSxgUADwVSxkVADwYSxoWADxUTQ0JADyLUQ0JADzLVQ0IADzNVQ0IADzRVQ0IADzWVQ4JADzcVQ4JADzrVQ8LADzvVQ8KAD0SVREMAD0TVREMAD0dVREMAD0yVRINAD07VRINAD1GVRMOAD1MVRQPAD1OVRQPAD1RVRQPAD1fVRUQAD1iVRUQAD1pVRUQAD1qVRUQAD1vVRYRAD11VRYRAD19VRcSAD2FVRgTAD2IVRgTAD2KVRgTAD2PVRkUAD2RVRkUAD2lVgsHAD2tVg0JAD20Vg4KAD2/Vg8LAD3GVhAMAD3HVhAMAD3JVhAMAD3MVhAMAD3NVhAMAD3TVhENAD3bVhENAD3nVhIOAD3oVhIOAD3rVhMPAD3zVhQQAD30VhQQAD33VhQQAD38VhQQAD39VhQQAD4GVhcTAD5AXQ8LAD5DXRAMAD5IXRENAD5VXRURAD50Xg8KAD6oYAoGAD6pYAoGAD6qYAoGAD6tYAsHAD6xYAwJAD64YA0KAD6/YA4KAD7CYA4KAD7HYA4KAD7KYA8LAD7MYA8LAD7QYA8LAD7RYBAMAD7WYBAMAD7XYBANAD7ZYBAMAD7aYBAMAD7bYBAMAD7eYBENAD7hYBENAD7iYBENAD7nYBIOAD7pYBIOAD7rYBMPAD7sYBMPAD7wYBMPAD7zYBMPAD70YBMPAD76YBQRAD78YBQQAD7/YBURAD8AYBURAD8EYBcTAD8GYBcTAD8HYBgUAD8OYQ4LAD9TZBIPAD9YZgwJAD9ZZgwJAD9jZhANAD98aAwJAD+TaA8MAD/AaBIPAD/IaBMQAD/XaBgVAD/caB8cAD/lahIPAD/taw0KAD/5axUSAD/6axcUAEAEbBANAEAJbBQRAEAdbQwJAEA5bQ8MAEBFbRANAEBTbREOAEBXbRIPAEBibRMQAEBlbRMQAEBqbRMQAEBvbRQRAEBxbRQRAECocA0KAEC0cA8MAEC7cBANAEC/cBANAEDIcBEOAEDYcBMQAEDfcBQRAED4cBkWAED6cBsYAEECcQ0KAEEDcQ0KAEEEcQ4LAEEJcQ8MAEEOcRANAEExcwwJAEEycwwJAEFncxEOAEFscxIPAEFucxIPAEF8cxMQAEF/cxQRAEGBcxUSAEGQcyEeAEGydBMQAEHEdQsIAEHKdQ0KAEHPdRANAEHbdgwKAEHtdg4MAEHvdg4MAEH5dg8NAEIRdhEPAEIjdhEPAEJAdhMRAEJgdhUTAEJqdhcVAEJ2dhoYAEJ6dwsJAEKMdw8NAEKUdxEPAEKidxMRAEK1eAoIAEK5eAsJAEK8eAwKAEL0eBEPAEL7eBEPAEL8eBEPAEMKeBIQAEMreBgWAENuew4MAEOXfBQSAEOafBcVAEO6gBAOAEPBgBIQAEPZggwIAEPfgg0JAEPtgg4KAEPwgg8LAEPygg8LAEQBghAMAEQCghAMAEQTghENAEQlghIOAEQtghMPAEQ2ghQQAER6iREPAESPixQSAESRjAgGAESfjAwKAESgjAwKAESijAwKAESwjA4MAES3jA4MAES9jA4MAETAjA4MAETDjA8NAETFjA8NAETOjA8NAETdjBAOAETejBAOAETfjBAOAEThjBAOAETkjBAOAETpjBAOAETqjBAOAETrjBAOAETsjBAOAET0jBEPAET7jBEPAEUDjBIQAEUEjBIQAEUJjBIQAEULjBIQAEUWjBMRAEUbjBMRAEUdjBMRAEUnjBMRAEUujBQSAEUzjBQSAEU2jBQSAEU7jBQSAEU9jBQSAEU/jBQSAEVDjBQSAEVRjBUTAEVSjBYUAEVVjBYUAEVYjBYUAEVcjBYUAEVhjBcVAEVijBcVAEVqjBgWAEVtjBgWAEV3jBkXAEV4jBoYAEWFjCAeAEWmjg0LAEWzjg4MAEXajhIQAEXpjhMRAEXqjhMRAEYDjhcVAEYGjhgWAEYPjwsJAEYVkAwKAEYXkBIQAEZbkRMRAEZ6kwwLAEaAkw4NAEahlBEQAEaulQoJAEa7lQwLAEbPlQ0MAEbQlQ0MAEb1lRAPAEb3lRAPAEcTlRUUAEcYlRUUAEc2lw4NAEdElxoZAEdOmBEQAEdPmBMSAEd8mhAPAEeYnAsKAEemnA4NAEfVnQsKAEftnQ0MAEf0nQ8OAEgAnRAPAEgLnRAPAEg3ng4NAEhdnxAPAEhxnxMSAEibog8LAEitohQQAEiuohURAEjQoxEMAEjdoxQPAEjtpAwLAEjzpA0MAEj6pA8OAEkGpBEQAEkRpBQTAEkepwwMAEklpw4OAEkqpw4OAEktpw8PAEkvpw8PAEkwpw8PAEk1pxAQAEk8pxERAEk+pxISAElFpxISAElRpxMTAElTpxMTAEllpxUVAElqpxYWAElypxcXAEmJqA0NAEmhqRAQAEmnqRAQAEnfqhINAEnlqhQPAEnnqhUQAEoPrQ4OAEodrRAQAEokrRERAEo1rRcXAEqWshESAEqksxQVAEq0tQwNAEq4tQ0OAErRtRARAErktRITAEr/tg0OAEsQthARAEsZthITAEsgtxARAEssuA0OAEs3uA4PAEtvug0OAEtwuhARAEtyuhARAEt7uwwOAEt+uwwOAEuOuw8RAEuQuw8RAEuTuxASAEuWuxASAEuXuxASAEuduxETAEu9uxcZAEu+uxgaAEvAuxocAEwEvhETAEwHvhETAEwOvhQWAEwywwkMAEw7wwwPAEw+wwwPAExAww0QAExHww0QAExXww8SAExbwxATAExtwxEUAEx3wxIVAEx7wxIVAEx9wxIVAEyBwxMWAEyFwxMWAEykw5IVAEyuxAwPAEywxAwPAEy3xAwPAEzNxA4RAEzhxBATAEzixBATAEztxBEUAE0HxBUYAE0JxBUYAE0QxBwfAE00xw0QAE12zQ0SAE13zQ4TAE2J0BIXAE2R0RgeAE2c0w8WAE4AAQgBAE4BAQkCAE4DAQkCAE4EAQkCAE4GAQkCAE4HAQoDAE4IAQoDAE4JAQoDAE4KAQoDAE4LAQoDAE4MAQoDAE4NAQsEAE4OAQsDAE4PAQsEAE4QAQsEAE4RAQsEAE4TAQsEAE4UAQwFAE4VAQwFAE4WAQwFAE4XAQsFAE4YAQwFAE4ZAQwFAE4aAQwFAE4bAQwFAE4cAQwFAE4dAQwFAE4eAQ0GAE4fAQ0GAE4hAQ0GAE4iAQ0GAE4kAQ4HAE4lAQ4HAE4mAQ8IAE4nAQ8IAE4oAggBAE4qAgoDAE4rAgoDAE4sWggDAE4tAgsEAE4uAgsEAE4vAgsEAE4wAgsEAE4xAgwFAE4yAg4HAE4zAg8IAE40AhAJAE42AwgBAE43AwkCAE44AwoDAE45AwsEAE46AwsEAE47AwwFAE48AwwFAE49AQ4HAE4+AxAJAE4/BAgBAE5CBAkCAE5DBAkCAE5EBAkCAE5FBAoDAE5HBAoDAE5IBAoDAE5JAwoDAE5LBAsDAE5MBAsEAE5NBAwFAE5OBAwFAE5PBAwEAE5QBAwFAE5SBA0GAE5TBA0GAE5UBA0GAE5VBA4HAE5WBA8IAE5XBBAJAE5YBBEKAE5ZBQgBAE5aBQgBAE5bBQgBAE5cBQkCAE5dBQkCAE5eBQoDAE5fBQoDAE5gBQoDAE5hNAgDAE5iLgkEAE5mBQsEAE5pBQ0GAE5qBQ0GAE5wBQ0GAE5xBQ4HAE5zBQ8IAE54BQ8IAE5+BRILAE5/BRILAE6ABRILAE6BBRMMAE6CBRQNAE6DBRQNAE6EBRQNAE6FBggBAE6GBgkCAE6HBgoDAE6IBgsEAE6JBg0GAE6KBg4HAE6LBg8IAE6MBwgCAE6NBwkDAE6OBwkDAE6PBwkDAE6RBwoEAE6SBwoEAE6TBwoEAE6UBwoEAE6VBwoEAE6YBwwGAE6ZBwwGAE6aBwwGAE6bBw0IAE6cBw0HAE6eBw4IAE6fBw4IAE6gCAgCAE6hCAkDAE6iCAoEAE6jCAoEAE6kCAwGAE6lCAwGAE6mCAwGAE6nCAwGAE6oCA0HAE6pCA0HAE6rCA4IAE6sCA4IAE6tCA8JAE6uCA8JAE6wCA8JAE6yCA8JAE6zCBAKAE61CBIMAE62CBMNAE63CBMNAE65CBsWAE66CQgCAE67CQgCAE68CQkDAE6/CQkDAE7ACQoEAE7BCQoEAE7CCQoEAE7DCQoEAE7ECQoEAE7FCQoEAE7GCQoEAE7HCQoEAE7ICQoEAE7JCQoEAE7KCQoEAE7LCQoEAE7NCQoEAE7OCQoEAE7PCQoEAE7RCQoEAE7TCQoEAE7UCQsFAE7VCQsFAE7WCQsFAE7XCQsFAE7YCQsFAE7ZCQsFAE7aCQsFAE7cCQsFAE7dCQsFAE7eCQsFAE7fCQsFAE7hCQsFAE7jCQsFAE7kCQsFAE7lCQsEAE7oCQsFAE7pCQsFAE7qCQsFAE7rCQsFAE7sCQsFAE7tCQsFAE7uCQwGAE7wCQwGAE7xCQwGAE7yCQwGAE7zCQwGAE70CQwGAE71CQwGAE72CQwGAE73CQwGAE74CQwGAE77CQwGAE78CQwGAE79CQwGAE7/CQwGAE8ACQwGAE8BCQwGAE8CCQwGAE8DCQwGAE8ECQwGAE8FCQwGAE8ICQwGAE8JCQwGAE8KCQwGAE8LCQwFAE8NCQwGAE8OCQwGAE8PCQwGAE8QCQwGAE8RCQwGAE8SCQwGAE8TCQwGAE8UCQwGAE8VCQwGAE8XCQwGAE8YCQwGAE8ZCQwGAE8aCQwGAE8bCQwGAE8cCQwGAE8dCQwGAE8eCQwGAE8fCQwGAE8gCQwGAE8iCQwGAE8kCQwGAE8lCQwGAE8mCQwGAE8nCQwGAE8oCQwGAE8pCQwGAE8qCQwGAE8rCQwGAE8sCQwGAE8tCQ0HAE8vCQ0HAE8wCQ0HAE8yCQ0HAE8zCQ0HAE80CQ0HAE82CQ0HAE83CQ0HAE84CQ0HAE85CQ0HAE86CQ0HAE87CQ0HAE88CQ0GAE89CQ0HAE8+CQ0HAE8/CQ0HAE9BCQ0HAE9CCQ0HAE9DCQ0HAE9FCQ0HAE9GCQ0HAE9HCQ0HAE9ICQ0HAE9JCQ0HAE9LCQ0HAE9MCQ0IAE9NCQ0HAE9OCQ0HAE9PCQ0HAE9QCQ0HAE9RCQ0HAE9SCQ0HAE9TCQ0HAE9UCQ0HAE9VCQ0HAE9WCQ0HAE9XCQ0HAE9YCQ0HAE9ZCQ0HAE9aCQ0HAE9bCQ0HAE9cCQ0HAE9dCQ0HAE9eCQ0HAE9fCQ0HAE9gCQ0HAE9hCQ0HAE9iCQ0GAE9jCQ0HAE9kCQwGAE9lCQ0HAE9nCQ0HAE9pCQ4IAE9qCQ4IAE9rCQ4IAE9sCQ4IAE9uCQ4IAE9vCQ4IAE9wCQ4IAE9yCQ4IAE9zCQ4IAE90CQ4IAE91CQ4IAE92CQ4IAE93CQ4IAE94CQ4IAE95CQ4IAE96CQ4IAE97CQ4IAE98CQ4IAE99CQ4IAE9+CQ4IAE9/CQ4IAE+ACQ4IAE+BCQ4IAE+CCQ4IAE+DCQ4IAE+ECQ4IAE+FCQ4IAE+GCQ4IAE+HCQ4IAE+ICQ4IAE+JCQ4IAE+KCQ4IAE+LCQ4IAE+NCQ4IAE+PCQ4IAE+QCQ4IAE+RCQ4IAE+SCQ4IAE+UCQ4IAE+VCQ4IAE+WCQ4IAE+XCQ4IAE+YCQ4IAE+aCQ4IAE+bCQ4IAE+cCQ4IAE+dCQ4IAE+eCQ4IAE+gCQ4IAE+hCQ4IAE+iCQ4IAE+jCQ4IAE+lCQ4IAE+mCQ4IAE+nCQ4IAE+oCQ4IAE+pCQ4IAE+qCQ4IAE+rCQ4IAE+sCQ4IAE+tCQ4IAE+uCQ8JAE+vCQ8JAE+wCQ8JAE+yCQ8JAE+zCQ8JAE+0CQ8JAE+1CQ8JAE+2CQ8JAE+3CQ8JAE+5CQ8IAE+6CQ8JAE+7CQ8JAE+9CQ8JAE+/CQ8JAE/ACQ8JAE/BCQ8JAE/CCQ8JAE/DCQ8JAE/ECQ8JAE/FCQ8JAE/HCQ8JAE/ICQ8JAE/JCQ8JAE/KCQ8JAE/LCQ8JAE/MCQ8JAE/NCQ8JAE/OCQ8JAE/PCQ8JAE/QCQ8JAE/RCQ8JAE/TCQ8JAE/UCQ8JAE/WCQ8JAE/XCQ8JAE/YCQ8JAE/ZCQ8JAE/aCQ8JAE/bCQ8JAE/cCQ8JAE/dCQ8JAE/eCQ8JAE/fCQ8JAE/gCQ8JAE/hCQ8JAE/jCQ8JAE/kCQ8JAE/lCQ8JAE/mCQ8JAE/oCQ8JAE/pCQ8JAE/qCQ8JAE/sCQ8JAE/tCQ8JAE/uCRAJAE/vCRAKAE/wCRAKAE/xCRAKAE/yCRAKAE/zCRAKAE/0CRAKAE/1CRAKAE/2CRAKAE/3CRAKAE/4CRAKAE/5CRAKAE/6CRAKAE/9CRAKAE/+CRAKAE//CRAKAFAACRAKAFADCRAKAFAFCRAKAFAGCRAKAFAHCRAKAFAICRAKAFAJCRAKAFALCRAKAFAMCRAKAFANCRAKAFAOCRAKAFAPCRAKAFARCRAKAFASCRAKAFATCRAKAFAUCRAKAFAVCRAKAFAWCRAKAFAXCRAKAFAYCRAKAFAZCRAKAFAaCRAKAFAbCRAKAFAcCRAKAFAeCRAKAFAfCRAKAFAgCRAKAFAhCRAKAFAiCRAKAFAjCRAKAFAkCRAKAFAlCRAKAFAmCRAKAFAnCRAKAFAoCRAKAFApCRAKAFAqCRAKAFArCRAKAFAsCRAKAFAtCRAKAFAuCRAKAFAvCRAKAFAwCRAKAFAxCRAKAFAzCRAKAFA0CRAKAFA1CRAKAFA2CRAKAFA3CRAKAFA5CRAKAFA6CRAKAFA7CRAKAFA8CRAKAFA+CRAKAFBACREKAFBBCRELAFBCCRELAFBDCRELAFBFCRELAFBGCRELAFBHCRELAFBICRELAFBJCRELAFBKCRELAFBLCRELAFBMCREKAFBNCRELAFBOCRELAFBPCRELAFBQCRELAFBRCRELAFBTCRELAFBVCRELAFBWCREKAFBXCRELAFBYCRELAFBaCRELAFBbCRELAFBcCRELAFBdCRELAFBeCRELAFBfCRELAFBgCRELAFBhCRELAFBiCRELAFBjCRELAFBkCRELAFBlCREKAFBmCRELAFBoCREMAFBpCRELAFBqCRELAFBrCRELAFBsCRELAFBtCRELAFBuCRELAFBvCRELAFBwCRELAFByCRELAFBzCRELAFB0CRELAFB1CRELAFB2CRELAFB3CRELAFB4CRELAFB6CRELAFB7CRELAFB9CRELAFB+CRELAFB/CRELAFCACRILAFCBCRILAFCCCRIMAFCDCRIMAFCFCRIMAFCHCRILAFCICRIMAFCLCRIMAFCMCRIMAFCNCRIMAFCOCRIMAFCQCRIMAFCRCRIMAFCSCRIMAFCUCRIMAFCVCRIMAFCWCRIMAFCYCRIMAFCZCRIMAFCaCRIMAFCbCRIMAFCcCRIMAFCdCRIMAFCeCRILAFCiCRIMAFCjCRIMAFClCRIMAFCmCRILAFCnCRIMAFCoCRIMAFCpCRIMAFCsCRMNAFCtCRMNAFCuCRMNAFCvCRMNAFCwCRMNAFCxCRMNAFCyCRMMAFCzCRMNAFC0CRMNAFC1CRMNAFC2CRMNAFC3CRMNAFC4CRMNAFC6CRMNAFC7CRMNAFC8CRMNAFC9CRMNAFC+CRMNAFC/CRMNAFDBCRMNAFDCCRMNAFDECRMNAFDFCRMNAFDGCRMMAFDHCRMNAFDICRMNAFDJCRMNAFDKCRMOAFDLCRMNAFDNCRMNAFDOCRQOAFDPCRQNAFDQCRQOAFDRCRQOAFDTCRQOAFDUCRQOAFDVCRQOAFDWCRQOAFDXCRQOAFDYCRQOAFDZCRQNAFDaCRQOAFDbCRQOAFDdCRQOAFDeCRQOAFDfCRQOAFDgCRQOAFDhCRQOAFDjCRQOAFDkCRQOAFDlCRQOAFDmCRQOAFDnCRQOAFDoCRQOAFDpCRQOAFDqCRQOAFDsCRQOAFDtCRQOAFDuCRQOAFDvCRQOAFDwCRQOAFDxCRQOAFDzCRQOAFD0CRQOAFD1CRUPAFD2CRUPAFD4CRUPAFD5CRUPAFD7CRUPAFD8CRUPAFD9CRUPAFD+CRUPAFD/CRUPAFEACRUPAFEBCRUOAFECCRUPAFEDCRUPAFEECRUPAFEFCRUPAFEGCRUOAFEHCRUPAFEICRUPAFEJCRUPAFEKCRUPAFELCRUPAFEMCRUPAFENCRUPAFEOCRUPAFEQCRYQAFERCRYQAFESCRYQAFETCRYQAFEUCRYQAFEVCRYQAFEWCRYQAFEXCRYQAFEYCRYQAFEaCRYPAFEcCRYQAFEfCRcRAFEgCRcRAFEhCRcRAFEiCRcRAFEkCRcRAFElCRcRAFEmCRcRAFEpCRcRAFEqCRcRAFErCRYQAFEtCRgSAFEuCRgSAFEwCRgRAFExCRgSAFEyCRgRAFEzCRkTAFE0CRkTAFE1CRkSAFE3CRsVAFE4CRsVAFE5CRsVAFE6CRsVAFE7CRwWAFE8CRwVAFE9CR0XAFE/CggCAFFACgkDAFFBCgoEAFFDCgoEAFFECgsFAFFFCgwGAFFGCgwGAFFHCgwGAFFICgwGAFFJCgwGAFFKCgwGAFFLCg0HAFFMCg0HAFFNCg0HAFFOCg0HAFFQCg0HAFFRCg0HAFFSCg4IAFFUCg4IAFFVCg4HAFFWCg4IAFFXCg8JAFFZCg8JAFFaChAKAFFbChAKAFFcChELAFFdChELAFFeChELAFFfChIMAFFgChIMAFFhChMNAFFiChQOAFFjChYQAFFkChsUAFFlCwgCAFFnCwoEAFFoCwwGAFFpCw4IAFFqCw8JAFFrDAgCAFFsDAoEAFFtDAoEAFFuDAoEAFFwDAsFAFFxDAwGAFFzDAwGAFF0DAwGAFF1DA0HAFF2DA4IAFF3DA4IAFF4DA4IAFF5DA8JAFF7DA8JAFF8DBAKAFF9DBELAFGADBYQAFGBDBgSAFGCDQgCAFGFDQoEAFGGDQoEAFGHDQoEAFGIDQoEAFGJDQsFAFGKDQsFAFGMDQsFAFGNDQwGAFGPDQ0HAFGQDQ4IAFGRDQ8JAFGSDQ8JAFGTDRAKAFGUDRAKAFGVDRELAFGWDggCAFGXDgoEAFGYDgoEAFGZDgsFAFGaDgsFAFGbDgwGAFGcDgwGAFGdDg0HAFGeDg4IAFGgDg8JAFGiDhAKAFGkDhAKAFGlDhAKAFGmDhAKAFGnDhAKAFGoDhELAFGpDhQOAFGqDhYPAFGrDwgCAFGsDwsFAFGuDwsFAFGvDwsFAFGwDwwGAFGxDwwGAFGyDwwGAFGzDwwGAFG0DwwGAFG1Dw0HAFG2Dw0HAFG3Dw0HAFG4Dw0HAFG5Dw0HAFG7Dw0HAFG8Dw4IAFG9Dw4IAFG+Dw4IAFHADw4IAFHDDw8JAFHEDxAKAFHFDxAKAFHGDxAKAFHHDxAKAFHIDxAKAFHJDxAKAFHKDxAKAFHLDxAKAFHMDxAKAFHNDxAKAFHODxAKAFHPDxELAFHQDxELAFHRDxELAFHSDxIMAFHTDxIMAFHUDxIMAFHWDxIMAFHXDxMNAFHYDxQOAFHbDxUPAFHcDxUPAFHdDxYQAFHeDxYQAFHfDxcRAFHgEAgCAFHhEAkDAFHiEAkDAFHkEAoEAFHmEAsFAFHnEAsFAFHpEAwGAFHqEAwGAFHrEAwGAFHsEA0HAFHtEA4IAFHvEA4IAFHwEBELAFHxEBIMAFHzEBQOAFH0EBQOAFH1EQgCAFH2EQoEAFH4EQsFAFH5EQsFAFH6EQsFAFH7EQsFAFH8EQwGAFH9EQ4IAFH+EQ8JAFH/ERIMAFIAEggCAFIBEggCAFICEggCAFIDEgkDAFIEEgkDAFIFEgoEAFIGEgoEAFIHEgoEAFIIEgoEAFIJEgsFAFIKEgsFAFILEgsFAFIMEgsFAFINEgsFAFIOEgwGAFIQEgwGAFIREgwGAFISEgwGAFITEgwGAFIUEgwGAFIVEgwGAFIWEgwGAFIXEgwGAFIYEgwGAFIZEgwGAFIaEgwGAFIbEgwGAFIcEg0HAFIdEg0HAFIeEg0HAFIfEg0HAFIgEg0HAFIhEg0HAFIjEg0HAFIkEg0HAFIlEg0HAFImEg0HAFInEg0HAFIoEg0HAFIpEg0HAFIqEg0HAFIrEg0HAFItEg0HAFIuEg4IAFIwEg4IAFIxEg4IAFIyEg4IAFIzEg4IAFI0Eg4IAFI1Eg4IAFI2Eg4IAFI3Eg4IAFI4Eg4IAFI5Eg4IAFI6Eg4IAFI7Eg4IAFI8Eg4IAFI9Eg4IAFI/Eg4IAFJAEg4IAFJBEg4IAFJCEg4IAFJDEg8JAFJEEg8JAFJGEg8IAFJHEg8JAFJJEg8JAFJKEg8JAFJLEg8JAFJMEg8JAFJNEg8JAFJOEg8JAFJPEg8JAFJQEg8JAFJREg8JAFJSEhAKAFJUEhAKAFJVEhAKAFJWEhAKAFJXEhAKAFJZEhAKAFJaEhAKAFJbEhAKAFJcEhAKAFJdEhAKAFJeEhAKAFJfEhAKAFJgEhAKAFJhEhAKAFJiEhAKAFJjEhAKAFJkEhAKAFJlEhAKAFJnEhAKAFJoEhELAFJpEhIMAFJqEhELAFJrEhELAFJsEhELAFJtEhELAFJuEhEKAFJvEhELAFJwEhELAFJxEhELAFJyEhIMAFJzEhILAFJ0EhIMAFJ1EhIMAFJ3EhMNAFJ4EhMNAFJ5EhMNAFJ6EhMNAFJ7EhMNAFJ8EhMNAFJ9EhMNAFJ/EhMNAFKAEhQOAFKBEhQOAFKCEhQOAFKDEhQOAFKEEhQOAFKHEhUPAFKIEhUPAFKJEhUPAFKKEhUPAFKLEhUPAFKMEhUPAFKNEhUPAFKPEhUPAFKQEhYPAFKREhYQAFKSEhYQAFKTEhYQAFKUEhYQAFKWEhkTAFKXEhsVAFKYEhsVAFKZEh0XAFKaEh0XAFKbEwgCAFKcEwkDAFKdEwoEAFKeEwoEAFKfEwsFAFKgEwsFAFKhEwsFAFKiEwsFAFKjEwwGAFKkEwwGAFKmEwwGAFKoEwwGAFKpEw0HAFKqEw0HAFKrEw0HAFKsEw0HAFKtEw0HAFKuEw0HAFKvEw0HAFKxEw0HAFKyEw0HAFKzEw0HAFK0Ew0HAFK1Ew4IAFK5Ew4IAFK7Ew4IAFK8Ew4IAFK+Ew4IAFK/Ew4IAFLAEw8JAFLBEw8JAFLCEw8JAFLDEw8JAFLFEw8JAFLHEw8JAFLJEw8JAFLLEw8JAFLMExAKAFLNExAKAFLQExAKAFLRExAKAFLSExELAFLTExELAFLVExELAFLWExELAFLXSA8LAFLYExELAFLZExEKAFLbExIMAFLdExIMAFLeExIMAFLfExMMAFLgExMNAFLhExMNAFLiExMNAFLjExMNAFLkExMNAFLmExMNAFLnExMNAFLpExQOAFLrExQOAFLvExUPAFLwExUPAFLxExUOAFLyExUPAFLzExYQAFL0ExcRAFL1ExcQAFL3ExkTAFL4ExoTAFL5FAgCAFL6FAkDAFL7FAoEAFL8FAoEAFL+FAoEAFL/FAoEAFMAFAoEAFMBFAoEAFMCFAoEAFMDFAsFAFMFFAsFAFMGFAsFAFMHFAsFAFMIFAwGAFMJFA0HAFMKFA4IAFMLFA4IAFMNFA8JAFMOFBAKAFMPFBELAFMQFBELAFMRFBIMAFMSFBILAFMVFQgCAFMWFQoEAFMXFQsFAFMZFRELAFMaFggCAFMcFgsFAFMdFgsFAFMfFgwGAFMgFgwGAFMhFgwGAFMiFgwGAFMjFg0HAFMkFg0HAFMmFg4IAFMnFg8JAFMqFhAKAFMsFhELAFMtFhELAFMuFhELAFMvFhMNAFMwFhQOAFMxFhQOAFMyFhQOAFMzFhUPAFM0FhYQAFM3FhoUAFM4FwgCAFM5FwoEAFM6FwoEAFM7Fw0HAFM8Fw4IAFM9Fw8JAFM+FxELAFM/FxEKAFNAFxELAFNBGAgCAFNCGAkDAFNDGAkDAFNEAQoDAFNFGAoEAFNGGAoEAFNHGAoEAFNIGAoEAFNJGAsFAFNKGAsFAFNMGAsFAFNNGAwEAFNOGAwGAFNPGAwGAFNRGA4IAFNSGA4IAFNTGA4IAFNUGA4IAFNVGA4IAFNWGA4IAFNXGA8JAFNYGA8JAFNaGBIMAFNcGQgCAFNdGQoEAFNeGQoEAFNfGQsFAFNgGQsFAFNhGQsFAFNiGQsFAFNjGQ0HAFNkGQ0HAFNmGQ4IAFNnGQ4IAFNpGggCAFNrGgkDAFNsGgoEAFNtGgsFAFNuGgsFAFNvGgsFAFNwGgwFAFNxGgwGAFNyGg0HAFNzGg0HAFN0Gg0HAFN1Gg0HAFN3Gg4IAFN4Gg4JAFN5Gg4IAFN6Gg4IAFN7Gg8JAFN8Gg8JAFN9Gg8JAFN+GhELAFN/GhEKAFOCGwgCAFOEGwoEAFOFGwoEAFOGGwoEAFOJGwsFAFOKGwwGAFOLGwwGAFOMGwwGAFONGwwGAFOOGw0HAFOPGw0HAFOSGw4IAFOTGw4IAFOUGw4IAFOVGw4IAFOWGw8JAFOXGw8JAFOYGw8JAFOZGw8JAFOaGw8JAFOcGxAKAFOdGxAKAFOeGxAKAFOfGxAKAFOgGxELAFOiGxELAFOjGxELAFOkGxIMAFOlGxIMAFOmGxIMAFOnGxIMAFOoGxIMAFOpGxELAFOqGxMNAFOrGxMMAFOsGxQOAFOtGxQOAFOuGxQOAFOwGxQOAFOyGxUOAFOzGxcQAFO0GxkTAFO2HAgCAFO5HAoEAFO7HAsFAFO/HA0HAFPBHA4IAFPCHA4IAFPDHBELAFPFHBIMAFPIHQgCAFPJHQkDAFPKHQoDAFPLHQoEAFPMHQoEAFPNHQoEAFPOHQoEAFPQHQsFAFPRHQsFAFPSHQwGAFPUHQ4IAFPWHQ4IAFPXHQ4IAFPYHQ4IAFPZHQ8JAFPaHQ8JAFPbHQ8JAFPdHQ8JAFPfHRAJAFPgHRMNAFPhHRYQAFPiHRgSAFPjHggDAFPkHgoFAFPlHgoFAFPmHgoFAFPoHgoFAFPpHgoFAFPqHgoFAFPrHgoFAFPsHgoFAFPtHgoFAFPuHgoFAFPvHgoFAFPwHgoFAFPxHgoFAFPyHgoFAFPzHgoFAFP1HgoFAFP2HgoFAFP3HgoFAFP4HgoFAFP5HgoFAFP6HgoFAFP7HgoFAFP8HgoFAFP9HgoFAFP+HgoFAFQBHgsGAFQDHgsGAFQEHgsGAFQGHgsGAFQHHgsGAFQIHgsGAFQJHgsGAFQKHgsGAFQLHgsGAFQMHgsGAFQNHgsGAFQOHgsGAFQPHgsGAFQQHgsGAFQRHgsGAFQSHgsGAFQTHgsGAFQUHgsGAFQVHgsGAFQWHgsGAFQXHgsGAFQYHgwHAFQZHgwHAFQaHgwHAFQbHgwHAFQcHgwHAFQdHgwHAFQeHgwHAFQfHgwHAFQgHgwHAFQhHgwHAFQjHgwHAFQkHgwHAFQlHgwHAFQmHgwHAFQnHgwHAFQoHgwHAFQpHgwHAFQqHgwHAFQrHgwHAFQsHgwHAFQtHgwHAFQuHgwHAFQvHgwHAFQwHgwHAFQxHgwHAFQyHgwHAFQzHgwHAFQ0HgwHAFQ1HgwHAFQ2HgwHAFQ3HgwHAFQ4HgwGAFQ5HgwHAFQ7HgwHAFQ8HgwHAFQ9HgwHAFQ+HgwHAFRAHgwHAFRBHgwHAFRCHgwHAFRDHgwHAFRFHgwHAFRGHgwHAFRHHgwHAFRIHgwHAFRJHgwHAFRKHgwHAFRLHgwHAFRMHgwHAFRNHgwHAFROHgwHAFRPHgwHAFRQHgwHAFRRHgwHAFRSHgwHAFRTHgwHAFRUHgwHAFRVHgwHAFRWHgwHAFRXHgwHAFRYHgwHAFRZHgwHAFRbHgwHAFRcHgwHAFRfHg0IAFRgHg0IAFRhHg0IAFRiHg0IAFRjHg0IAFRkHg0IAFRlHg0IAFRmHg0IAFRnHg0IAFRoHg0IAFRpHg0IAFRqHg0IAFRrHg0IAFRsHg0IAFRtHg0IAFRvHg0IAFRwHg0JAFRxHg0IAFRyHg0JAFRzHg0IAFR0Hg0IAFR1Hg0IAFR2Hg0IAFR3Hg0IAFR4Hg0IAFR6Hg0IAFR7Hg0IAFR8Hg0IAFR9Hg0IAFR+Hg0IAFR/Hg0IAFSAHg0IAFSBHg0IAFSCHg0IAFSEHg0IAFSFHg0IAFSGHg0IAFSHHg0IAFSIHg0IAFSKHg0IAFSLHg0IAFSMHg0IAFSNHg0IAFSOHg0IAFSPHg0IAFSQHg0IAFSRHg0IAFSSHg0IAFSTHg0HAFSUHg0IAFSVHg0IAFSWHg0IAFSXHg0IAFSYHg0IAFSZHg0IAFSaHg0IAFSbHg0IAFScHg0IAFSdHg0IAFSeHg4HAFSgHg4JAFShHg4JAFSiHg4JAFSjHg4JAFSkHg4JAFSlHg4JAFSmHg4JAFSnHg4JAFSoHg4JAFSpHg4JAFSqHg4JAFSrHg4JAFSsHg4JAFStHg4JAFSuHg4JAFSvHg4JAFSwHg4JAFSxHg4JAFSyHg4JAFSzHg4JAFS0Hg4JAFS2Hg4JAFS3Hg4JAFS4Hg4JAFS5Hg4JAFS6Hg4JAFS7Hg4JAFS8Hg4IAFS9Hg4JAFS+Hg4JAFS/Hg4JAFTAHg4JAFTBHg4JAFTCHg4JAFTDHg4JAFTEHg4JAFTFHg4JAFTGHg4JAFTHHg4JAFTIHg4JAFTJHg4JAFTLHg4JAFTMHg4JAFTNHg4JAFTOHg4IAFTPHg4JAFTQHg4JAFTRHg4JAFTSHg4JAFTTHg4JAFTUHg4JAFTVHg4JAFTWHg4JAFTXHg4JAFTYHg4JAFTZHg4JAFTaHg4JAFTcHg4JAFTdHg4JAFTeHg4JAFTfHg4JAFTgHg8KAFThHg8KAFTiHg8KAFTjHg8KAFTkHg8KAFTlHg8KAFTmHg8KAFTnHg8KAFToHg8KAFTpHg8KAFTqHg8JAFTrHg8KAFTtHg8KAFTuHg8KAFTvHg8KAFTxHg8KAFTyHg8KAFTzHg8KAFT3Hg8KAFT4Hg8KAFT6Hg8KAFT7Hg8KAFT8Hg8KAFT9Hg8KAFT/Hg8KAFUBHg8KAFUCHg8KAFUDHg8KAFUEHg8KAFUFHg8KAFUGHg8KAFUHHg8KAFUIHg8KAFUJHg8KAFUKHg8KAFULHg8KAFUMHg8JAFUNHg8KAFUOHg8KAFUPHg8KAFUQHg8KAFURHg8KAFUSHg8KAFUTHg8KAFUUHg8KAFUWHg8KAFUXHg8KAFUYHg8KAFUaHg8KAFUbHg8KAFUeHg8KAFUgHg8KAFUiHg8KAFUjHg8KAFUkHg8KAFUlHg8KAFUmHg8KAFUnHg8KAFUoHhAKAFUqHhALAFUrHhALAFUsHhALAFUtHhALAFUuHhALAFUvHhALAFUwHhALAFUxHhALAFUyHhALAFUzHhALAFU0HhAKAFU1HhALAFU2HhALAFU3HhALAFU4HhALAFU5HhALAFU7HhALAFU8HhALAFU+HhALAFU/HhALAFVAHhALAFVBHhALAFVDHhALAFVEHhALAFVFHhALAFVGHhALAFVHHhALAFVIHhALAFVJHhALAFVKHhAKAFVLHhALAFVMHhALAFVNHhALAFVOHhALAFVPHhALAFVQHhALAFVRHhALAFVSHhALAFVTHhALAFVVHhALAFVWHhALAFVXHhALAFVcHhALAFVdHhALAFVeHhALAFVfQg8LAFVhHhALAFViHhALAFVjHhAMAFVkHhALAFVlHhALAFVmHhALAFVnHhALAFVpHhALAFVqHhALAFVrHhELAFVsHhALAFVtHhALAFVuHhALAFVxHhALAFVyHhALAFVzHhALAFV1HhALAFV2HhALAFV3HhALAFV4HhALAFV5HhALAFV7HhEMAFV8HhEMAFV9HhEMAFV+HhEMAFV/HhEMAFWAHhEMAFWBHhEMAFWCHhEMAFWDHhEMAFWEHhEMAFWGHhEMAFWHHhEMAFWIHhEMAFWJHhEMAFWKHhEMAFWLHhEMAFWMHhEMAFWNHhINAFWOHhELAFWPHhELAFWQHhELAFWRHhEMAFWSHhEMAFWTHhEMAFWUHhEMAFWVHhEMAFWYHhEMAFWZHhEMAFWaHhEMAFWcHhEMAFWdHhEMAFWeHhEMAFWfHhEMAFWhHhEMAFWiHhEMAFWjHhEMAFWkHhEMAFWlHhEMAFWmHhEMAFWnHhEMAFWoHhEMAFWpHhEMAFWqHhEMAFWrHhEMAFWsHhEMAFWtHhEMAFWuHhEMAFWwHhEMAFWxHhEMAFWyHhEMAFWzHhEMAFW0HhEMAFW1HhELAFW2HhELAFW3HhEMAFW5HhEMAFW6HhEMAFW7HhEMAFW8HhEMAFW9HhEMAFW+HhEMAFW/HhINAFXAHhINAFXBHhINAFXCHhINAFXDHhINAFXEHhINAFXFHhINAFXGHhINAFXHHhINAFXIHhINAFXJHhINAFXKHhINAFXLHhINAFXMHhINAFXNHhINAFXOHhINAFXPHhIMAFXQHhINAFXRHhINAFXSHhIMAFXTHhINAFXUHhINAFXVHhINAFXWHhIMAFXXHhIMAFXYHhINAFXZHhINAFXaHhINAFXbHhINAFXcHhINAFXdHhINAFXeHhIMAFXfHhIMAFXhHhINAFXiHhIMAFXjHhINAFXkHhINAFXlHhINAFXmHhINAFXnHhINAFXoHhINAFXpHhINAFXqHhINAFXrHhINAFXsHhINAFXvHhINAFXwHhINAFXxHhINAFXyHhINAFXzHhINAFX1HhINAFX2HhMNAFX3HhMNAFX5HhMNAFX6HhMOAFX7HhMOAFX8HhMNAFX9HhMOAFX+HhMOAFX/HhMOAFYAHhMOAFYBHhMOAFYCHhMOAFYEHhMOAFYFHhMMAFYGHhMOAFYIHhMOAFYJHhMOAFYMHhMOAFYNHhMOAFYOHhMOAFYPHhMOAFYQHhMOAFYRHhMOAFYSHhMOAFYTHhMOAFYUHhMOAFYVHhMOAFYWHhMOAFYXHhMOAFYYHhMOAFYbHhMOAFYcHhMOAFYdHhMOAFYeHhMOAFYfHhQNAFYgHhQPAFYhHhMOAFYiHhMOAFYjHhMOAFYkHhMOAFYlHhMOAFYnHhMOAFYpHhQNAFYqHhQPAFYsHhQPAFYtHhQPAFYuHhQPAFYvHhQQAFYwHhQPAFYxHhQPAFYyHhQPAFYzHhQPAFY0HhQQAFY1HhQPAFY2HhQPAFY3HhQPAFY4HhQPAFY5HhQPAFY6HhQPAFY7HhQPAFY9HhQPAFY+HhQPAFY/HhQPAFZAHhQPAFZBHhQPAFZCHhQPAFZDHhQPAFZFHhEPAFZGHhQPAFZIHhQPAFZJHhQOAFZKHhQPAFZMHhQPAFZNHhQPAFZOHhQPAFZPHhQPAFZQHhQPAFZSHhQPAFZTHhMPAFZUHhQPAFZXHhQPAFZYHhQPAFZZHhQPAFZaHhQPAFZbHhQPAFZcHhQPAFZdHhQPAFZeHhUQAFZgHhUPAFZhHhUQAFZiHhUPAFZjHhUQAFZkHhUQAFZlHhUQAFZmHhUQAFZoHhUQAFZpHhUQAFZqHhUQAFZrHhUQAFZsHhUQAFZtHhUQAFZuHhUQAFZvHhUQAFZwHhUQAFZxHhUQAFZyHhUQAFZzHhUQAFZ0HhQPAFZ2HhUPAFZ3HhUQAFZ4HhUQAFZ5HhUQAFZ6HhUQAFZ7HhUQAFZ8HhUQAFZ+HhYRAFZ/HhYRAFaAHhYRAFaBHhYRAFaCHhYRAFaDHhYQAFaEHhYQAFaFHhYRAFaGHhYQAFaHHhYRAFaJHhYRAFaKHhYRAFaLHhYRAFaMHhYRAFaNHhYRAFaOHhYRAFaPHhYRAFaQHhYRAFaSHhYRAFaTHhYRAFaUHhcSAFaVHhcSAFaXHhcSAFaYHhcSAFaZHhcSAFaaHhcSAFacHhcSAFadHhcRAFaeHhcSAFafHhcSAFagHhcSAFahHhcSAFaiHhcSAFajHhcSAFakHhcSAFalHhgTAFamHhgTAFanHhgTAFaoHhgTAFaqHhgTAFarHhgTAFasHhgTAFatHhgTAFauHhgRAFavHhgTAFaxHhkUAFayHhkUAFazHhkUAFa0HhkTAFa1HhkUAFa2HhkUAFa3HhkUAFa5HhkUAFa8HhoUAFa9HhoUAFa+HhoUAFa/HhoUAFbAHhoVAFbBHhoVAFbCHhoVAFbDHhoVAFbFHhsWAFbGHhsVAFbIHhsVAFbJHhsWAFbKHhsWAFbLHhsWAFbMHhwWAFbNHhoVAFbOHhsWAFbRHh0YAFbTHh0YAFbUHh4ZAFbWHiEcAFbXHwgDAFbYHwoFAFbaHwoFAFbbHwoFAFbdHwsGAFbeHwsGAFbfHwsGAFbgHwsGAFbhHwsGAFbiHwsGAFbjHwsGAFbkHwwHAFblHwwHAFbnHwwHAFbqHwwHAFbrHwwHAFbtHwwHAFbuHwwHAFbvHwwHAFbwHwwHAFbxHwwHAFbyHwwHAFbzHwwHAFb0HwwHAFb1HwwHAFb3Hw0IAFb5Hw0IAFb6Hw0IAFb7Hw0IAFb9Hw0IAFb+Hw0IAFb/Hw4JAFcAHw4JAFcBHw8KAFcCHw8KAFcDHw8KAFcEHw8KAFcGHw8KAFcHHxALAFcIHxALAFcJHxALAFcKHxALAFcLHxALAFcMHxEMAFcNHxEMAFcPHxAMAFcSHxINAFcTHxINAFcUHxINAFcVHxINAFcWHxMOAFcYHxMOAFcaHxQPAFcbHxUQAFccHxUQAFcdHxsWAFceHx8aAFcfIAgDAFcgIAkEAFciIAoFAFcjIAoFAFcmIAoFAFcnIAoFAFcoIAsGAFcpIAsGAFcqIAsGAFcsIAsGAFctIAsGAFcuIAsGAFcvIAsGAFcwIAsGAFcyIAsGAFczIAsGAFc0IAsGAFc3IAsGAFc4IAsGAFc5IAsGAFc6IAsGAFc7IAwHAFc9IAwHAFc+IAwGAFc/IAwHAFdAIAwHAFdBIAwHAFdCIAwHAFdDIAwHAFdFIAwHAFdGIAwHAFdHIAwHAFdJIAwHAFdKIAwHAFdLIAwHAFdMIAwHAFdNIAwHAFdOIAwHAFdPIAwHAFdQIAwHAFdRIAwHAFdSIAwHAFdUIAwHAFdXIAwHAFdZIAwHAFdaIAwHAFdbIAwHAFdcIAwHAFddIAwHAFdeIAwHAFdfIAwHAFdgIAwHAFdhIA0IAFdiIA0IAFdkIA0IAFdlIA0IAFdmIA0IAFdnIA0IAFdoIA0IAFdpIA0IAFdqIA0IAFdrIA0IAFdtIA0IAFdvIA0IAFdwIA0IAFdxIA0IAFdyIA0IAFdzIA0IAFd0IA0IAFd1IA0IAFd2IA0IAFd3IA0IAFd6IA0IAFd7IA0IAFd8IA0IAFd9IA0IAFd+IA0IAFd/IA0IAFeAIA0IAFeCIA0IAFeDIA0IAFeEIA0IAFeFIA0IAFeGIA0IAFeIIA0IAFeJIA0IAFeKIA0IAFeLIA4JAFeMIA4JAFeNIA4JAFePIA4JAFeQIA4JAFeSIA4JAFeTIA4JAFeUIA4JAFeVIA4JAFeXIA4JAFeYIA4JAFeZIA4JAFeaIA4JAFebIA4JAFecIA4JAFedIA4JAFeeIA4JAFefIA4JAFegIA4JAFehIA4JAFeiIA4JAFejIA4JAFekIA4JAFelIA4JAFemIA4JAFenIA4JAFepIA4JAFeqIA4JAFerIA4JAFesIA4JAFetIA4JAFeuIA4JAFewIA4JAFeyIA4JAFezIA4JAFe0IA4JAFe1IA4JAFe2IA8KAFe4IA8KAFe5IA8JAFe6IA8KAFe7IA8KAFe8IA8KAFe9IA8KAFe+IA8KAFe/IA8KAFfAIA8KAFfBIA8KAFfCIA8KAFfDIA8KAFfEIA8KAFfGIA8KAFfHIA8KAFfIIA8KAFfLIA8KAFfMIA8KAFfOIA4JAFfPIA8JAFfQIA8KAFfSIA8KAFfTIA8KAFfUIA8KAFfVIA8KAFfWIA8KAFfXIA8KAFfYIA8KAFfZIA8KAFfaIA8KAFfcIBALAFfdIBALAFfeIBALAFffIBALAFfgIBALAFfhIBALAFfiIBALAFfjIBALAFfkIBALAFflIBALAFfmIBALAFfnIBALAFfpIBAJAFfsIBALAFftIBALAFfuIBALAFfvIBALAFfwIBALAFfxIBALAFfyIBALAFfzIBALAFf0IBALAFf1IBALAFf2IBALAFf3IBALAFf4IBALAFf5IBALAFf6IBALAFf7IBALAFf8IBALAFf9IBALAFf+IBALAFgAIBALAFgBIBALAFgCIBALAFgDIBALAFgEIBALAFgFIBALAFgGIBALAFgHIBALAFgIIBALAFgJIBALAFgKIBALAFgLIBALAFgMIBALAFgNIBALAFgOIBALAFgQIBALAFgRIBALAFgSIBALAFgUIBALAFgVIBALAFgYIBEMAFgZIBEMAFgbIBEMAFgcIBEMAFgdIBELAFgeIBEMAFggIBEMAFghIBEMAFgiIBEMAFgjIBEMAFgkIBEMAFglIBEMAFgmIBEMAFgnIBEMAFgoIBEMAFgpIBEMAFgqIBEMAFgsIBEMAFgtIBEMAFguIBEMAFgvIBEMAFgwIBEMAFgxIBEMAFgyIBEKAFgzIBEMAFg0IBEMAFg1IBELAFg2IBEMAFg3IBEMAFg4IBEMAFg5IBEMAFg6IBEMAFg7IBEMAFg9IBINAFg/IBEMAFhAIBEMAFhBIBEMAFhEIBEMAFhHIBEMAFhIIBEMAFhJIBINAFhKIBIMAFhLIBINAFhMIBINAFhNIBINAFhOIBINAFhPIBINAFhRIBINAFhSIBINAFhTIBINAFhUIBIMAFhVIBINAFhXIBINAFhYIBINAFhZIBINAFhaIBINAFhbIBINAFhcIBINAFhdIBINAFheIBINAFhfIBIMAFhiIBINAFhjIBINAFhkIBINAFhlIBINAFhoIBINAFhpIBINAFhrIBINAFhsIBINAFhtIBIMAFhvIBINAFhwIBINAFhxIBINAFhyIBMOAFhzIBMNAFh0IBMOAFh1IBMOAFh2IBMOAFh5IBMOAFh6IBMOAFh7IBMNAFh8IBMOAFh9IBMOAFh+IBMOAFh/IBMOAFiAIBMPAFiBIBMOAFiCIBMOAFiDIBMOAFiFIBMOAFiGIBMOAFiHIBMOAFiIIBMOAFiJIBMOAFiKIBMOAFiLIBMOAFiOIBMNAFiPIBMOAFiQIBMOAFiRIBMOAFiSIBMOAFiTIBMNAFiUIBMOAFiWIBMOAFiXIBMOAFiYIBMOAFiZIBMOAFiaIBMOAFicIBQOAFidIBQPAFieIBQPAFifIBQOAFigIBQPAFihIBQPAFijIBQPAFilIBQPAFimIBQPAFinIBQPAFioywsPAFipIBQPAFiqIBQPAFirIBQPAFisIBQOAFiuIBQOAFivIBQPAFiwIBQPAFixIBQPAFiyIBQPAFizIBQPAFi1IBQPAFi2IBQPAFi4IBQOAFi5IBQPAFi6IBUPAFi7IBUQAFi8IBUQAFi9IBUQAFi+IBUQAFi/IBUQAFjBIBUQAFjCIBUQAFjFIBUQAFjGIBUQAFjHIBUQAFjIIBUQAFjJIBUQAFjKIBUQAFjLIBUQAFjMIBUQAFjOIBYRAFjPIBYRAFjQIBYRAFjRIBYRAFjSIBYQAFjTIBYRAFjUIBYRAFjVIBYRAFjWIBYRAFjXIBYRAFjYIBcSAFjZIBcRAFjaIBgTAFjbIBgTAFjcIBgTAFjdIBgSAFjeIBgTAFjfIBgTAFjgIBgTAFjiIBgTAFjjIBkUAFjkIBkUAFjlIBkUAFjnIBwWAFjoIBwXAFjpIB0YAFjrIQgDAFjsIQkEAFjuIQsGAFjvIQwHAFjwIQwHAFjxIQwHAFjyIQwHAFjzIQwHAFj0IQ4JAFj2IQ8KAFj3IRALAFj5IREMAFj6IREMAFj7IREMAFj8IRINAFj9IRMOAFj+IRMNAFj/IRQPAFkCIggDAFkDIgkEAFkEIgoFAFkFIgsGAFkGIgwHAFkHIg0IAFkJIw4JAFkKIwgDAFkLIwwHAFkMIw0IAFkNIw4JAFkOIw8KAFkPIw8KAFkQIxMOAFkRIxcSAFkSIxgTAFkUIxsVAFkVJAgDAFkWJAoFAFkXJAoFAFkYJAoFAFkZJAsGAFkaJAsGAFkbJAsGAFkcJA0IAFkdJA0IAFkfJBALAFkgJBALAFkiJBMNAFkkJBMOAFklJBMOAFknJQgDAFkpJQkEAFkqJQkEAFkrJQkEAFksJQkEAFktJQkEAFkuJQoFAFkvJQoFAFkxJQoFAFkyJQoFAFk0JQoFAFk3JQsGAFk4JQsGAFk5JQsGAFk6JQsGAFk8JQsGAFk+JQwHAFlAJQwHAFlBJQwHAFlCJQwHAFlEJQ0IAFlFJQ0IAFlHJQ0IAFlIJQ0IAFlJJQ0IAFlKJQ8JAFlLJQ0IAFlOJQ4JAFlPJQ4JAFlQJQ4JAFlRJQ4JAFlTJQ4JAFlUJQ4IAFlVJQ4JAFlWJQ4JAFlXJQ8KAFlYJQ8KAFlaJQ8KAFlbJRALAFlcJRALAFldJRALAFlgJREMAFlhJREMAFliJRELAFljJREMAFllJREMAFlnJRINAFloJRINAFlpJRMOAFlqJRMOAFlrJRMPAFlsJRMOAFltJRQPAFluJRUQAFlwJRcSAFlxJRsWAFlyJR0XAFlzJggDAFl0JgoFAFl1JgoFAFl2JgoFAFl3JgsGAFl4JgsGAFl5JgsGAFl7JgsGAFl8JgsGAFl9JgsGAFl+JgsGAFl/JgsGAFmAJgsGAFmBJgsGAFmCJgsGAFmDJgsGAFmEJgsGAFmFJgsGAFmGJgsGAFmHJgsGAFmIJgsGAFmJJgwHAFmKJgwHAFmNJg4HAFmOJgwHAFmPJgwHAFmQJgwHAFmSJgwHAFmTJgwHAFmUJgwHAFmWJgwHAFmXJgwHAFmYJgwHAFmZJgwHAFmaJgwHAFmbJgwHAFmdJgwHAFmeJgwHAFmfJgwHAFmgJgwHAFmhJgwHAFmiJgwHAFmjJgwHAFmkJgwHAFmlJgwHAFmmJgwHAFmnJgwHAFmoJgwHAFmpJgwHAFmqJgwHAFmrJgwHAFmsJg0IAFmuJg0IAFmvJg0IAFmwJg0IAFmxJg0IAFmyJg0IAFmzJg0IAFm0Jg0IAFm1Jg0IAFm2Jg0IAFm3Jg0IAFm4Jg0IAFm5Jg0IAFm6Jg0IAFm7Jg0IAFm8Jg0IAFm9Jg0IAFm+Jg0IAFm/Jg0IAFnAJg0IAFnBJg0IAFnDJg0IAFnEJg0IAFnFJg0IAFnGJg0IAFnHJg0IAFnIJg0IAFnJJg0HAFnKJg0HAFnLJg0IAFnMJg0IAFnNJg0IAFnOJg0IAFnPJg0IAFnQJg0IAFnRJg0IAFnSJg0HAFnTJg0IAFnUJg0IAFnWJg0HAFnXJg0IAFnYJg4JAFnZJg4JAFnaJg4JAFnbJg4JAFncJg4JAFndJg4JAFneJg4JAFngJg4JAFnhJg4JAFnjJg4JAFnkJg4JAFnlJg4JAFnmJg4JAFnoJg4JAFnpJg4JAFnqJg4JAFnrJg4JAFnsJg8KAFntJg4JAFnuJg4JAFnvJg4JAFnwJg4JAFnxJg4JAFnyJg4JAFnzJg4JAFn0Jg4JAFn1Jg4JAFn2Jg4JAFn3Jg4JAFn4Jg4JAFn5Jg4JAFn6Jg4JAFn7Jg4JAFn8Jg4JAFn9Jg4JAFn+Jg4JAFn/Jg4JAFoAJg4JAFoBJg4JAFoCJg4JAFoDJg4JAFoEdwsJAFoFJg4JAFoGJg4JAFoHJg4JAFoIJg4JAFoJJg8KAFoKJg8KAFoLJg8KAFoMJg8KAFoNJg8JAFoPJg8KAFoRJg8KAFoSJg8KAFoTJg8KAFoVJg8KAFoWJg8KAFoXJg8JAFoYJg8KAFoZJg8KAFoaJg8KAFobJg8KAFocJg8JAFoeJg8KAFofJg8KAFogJg8KAFohJg8KAFojJg8KAFokJg8KAFolJg8KAFonJg8KAFopJg8KAFoqJg8KAForJg8JAFosJhALAFotJg8KAFouJg8KAFovJg8KAFoxJg8KAFoyJg8KAFozJg8KAFo0Jg8KAFo1JhALAFo2JhALAFo3JhALAFo4JhALAFo5JhALAFo8JhALAFo9Jg8LAFo+JhALAFpAJhAKAFpBJhALAFpCJhALAFpDJhALAFpEJhALAFpFJhALAFpGJhALAFpHJhALAFpIJhALAFpJJhALAFpKJhALAFpMJhALAFpNJhALAFpQJhALAFpRJhALAFpSJhALAFpTJhALAFpUJhALAFpVJhALAFpWJhALAFpXJhALAFpYJhALAFpZJhAJAFpaJhALAFpbJhALAFpcJhALAFpdJhALAFpeJhALAFpfJhALAFpgJhALAFphJhALAFpiJhALAFpjJhAMAFpkJhALAFplJhALAFpmJhALAFpnJhALAFpoJhALAFppJhALAFpqJhALAFprJhALAFpsJhALAFptJhALAFpuJhALAFpwJhALAFpxJhALAFp0JhALAFp1JhALAFp2JhALAFp3JhEMAFp4JhEMAFp5JhEMAFp6JhEMAFp7JhEMAFp8JhELAFp9JhEMAFp+JhEMAFp/JhEMAFqBJhEMAFqCJhEMAFqDJhEMAFqEJhEMAFqGJhEMAFqIJhEMAFqKJhEMAFqLJhEMAFqMJhELAFqOJhELAFqPJhEMAFqQJhINAFqRJhEMAFqSJhEMAFqTJhEMAFqUJhEMAFqVJhEMAFqWJhELAFqXJhEMAFqZJhEMAFqaJhEMAFqbJhEMAFqcJhEMAFqdJhEMAFqeJhEMAFqfJhEMAFqgJhEMAFqhJhEMAFqiJhEMAFqkJhEMAFqlJhEMAFqmJhEMAFqnJhELAFqpJhEMAFqqJhEMAFqrJhEMAFqsJhEMAFquJhEMAFqvJhEMAFqwJhINAFqxJhINAFqyJhINAFqzJhINAFq0JhINAFq1JhINAFq2JhIMAFq3JhINAFq4JhINAFq5JhINAFq6JhINAFq7JhINAFq8JhINAFq9JhINAFq+JhINAFq/JhIMAFrAJhINAFrBJhINAFrCJhIMAFrDJhINAFrEJhINAFrGJhINAFrHJhINAFrIJhINAFrJJhINAFrKJhINAFrLJhINAFrMJhINAFrNJhINAFrOJhINAFrPJhELAFrQJhINAFrRJhINAFrSJhINAFrTJhINAFrUJhINAFrVJhMOAFrWJhMOAFrXJhMOAFrYJhMOAFrZJhMOAFraJhMOAFrbJhMOAFrcJhMOAFrdJhMOAFreJhMOAFrfJhMNAFrgJhMOAFrhJhMOAFriJhMOAFrjJhMOAFrkJhMOAFrlJhMOAFrmJhMOAFroJhMOAFrpJhMOAFrqJhMOAFrrJhMNAFrsJhMOAFrtJhMOAFruJhMOAFrwJhMOAFrxJhMOAFryJhMOAFrzJhQOAFr0JhQPAFr1JhQPAFr2JhQPAFr3JhQOAFr4JhQPAFr5JhQOAFr6JhQPAFr7JhQPAFr9JhQPAFr+JhQPAFr/JhQPAFsBJhQPAFsCJhQPAFsDJhQPAFsFJhQNAFsHJhQPAFsIJhQPAFsJJhQPAFsLJhQPAFsMJhQPAFsNJhQPAFsPJhQPAFsQJhUQAFsRJhUQAFsTJhUQAFsUJhUQAFsVJhUQAFsWJhUQAFsXJhUQAFsZJhUQAFsaJhUQAFsbJhUQAFsdJhUQAFseJhUPAFsfJhUQAFsgJhUQAFshJhUQAFsiJhUQAFsjJhYRAFskJhYRAFslJhYRAFsmJhYRAFsnJhYRAFsoJhYQAFsqJhYRAFsrJhYRAFssJhYRAFstJhYRAFsuJhYRAFsvJhYRAFswJhYRAFsyJhYRAFs0JhUQAFs2JhYRAFs3JhYRAFs4JhcSAFs8JhcSAFs9JhcTAFs+JhgTAFs/JhgTAFtAJhkUAFtBJhkUAFtDJhkUAFtEJhkUAFtFJhkUAFtGJhkUAFtHJhoVAFtIJhoVAFtKJhsWAFtLJhsWAFtMJhsWAFtNJhwWAFtOJh0YAFtPJh0XAFtQJwgDAFtRJwgDAFtTJwgDAFtUJwkEAFtVJwoFAFtWJwsGAFtXJwsGAFtYJwsGAFtZJwsGAFtaJwwHAFtbJwwHAFtcJwwHAFtdJwwHAFtfJw0IAFtiJw0IAFtjJw0IAFtkJw0IAFtlJw0IAFtmJw0IAFtoJw4JAFtpJw4JAFtqJw4JAFtrJw8KAFtsJw8KAFttJw8KAFtuJxALAFtwJxALAFtxJxEMAFtyJxALAFtzJxIMAFt0JxINAFt1JxMOAFt2JxMNAFt3JxMOAFt4JxUQAFt6JxYRAFt7JxYRAFt8JxgTAFt9JxkTAFt/JxsWAFuAKAgDAFuBKAoFAFuCKAoFAFuDKAoFAFuEKAoFAFuFKAsGAFuHKAsGAFuIKAsGAFuJKAsGAFuLKAwHAFuMKAwHAFuNKAwHAFuOKAwHAFuPKAwHAFuQKAwHAFuSKAwHAFuTKA0IAFuVKA0IAFuWKA0IAFuXKA0IAFuYKA0IAFuZKA0IAFuaKA0IAFubKA0IAFucKA0IAFudKA0IAFueKA0IAFufKA0IAFugKA0IAFuhKA0IAFuiKA4JAFujKA4JAFukKA4JAFulKA4JAFumKA4JAFunKA8KAFuoKA4JAFuqKA4JAFurKA4JAFusKA8JAFutKA8KAFuuKA8KAFuwKA8KAFuzKA8KAFu0KA8KAFu1KA8KAFu2KA8KAFu3KA8KAFu4KA8KAFu5KA8KAFu9KA8KAFu+KA8KAFu/KBALAFvAKBALAFvBKBALAFvCKBALAFvDKBALAFvEKBALAFvFKBALAFvGKBALAFvHKBALAFvJKBALAFvKKBEMAFvLKBEMAFvMKBEMAFvNKBEMAFvOKBEMAFvQKBEMAFvRKBEMAFvSKBEMAFvTKBEMAFvUKBEMAFvVKBEMAFvWKBINAFvXKBINAFvYKBINAFvZKBINAFvbKBINAFvdKBINAFveKBMNAFvfKBMOAFvgKBMOAFvhKBMOAFviKBMOAFvjKBMOAFvkKBMOAFvlKBMOAFvmKBMOAFvnKBMOAFvoKBMOAFvpKBQPAFvqKBEPAFvrKBQPAFvsKBQOAFvuKBQPAFvvKBUPAFvwKBUQAFvxKBYRAFvyKBYRAFvzKBgTAFv1KBgTAFv2KBkUAFv4KQgDAFv5KQoFAFv6KQsGAFv7KQsGAFv8KQsGAFv+KQwHAFv/KQwHAFwBKQ4JAFwCKQ4JAFwDKQ8KAFwEKQ8KAFwFKQ8KAFwGKQ4JAFwHKRALAFwIKRALAFwJKRALAFwKKREMAFwLKREMAFwMKREMAFwNKRMOAFwOKRQPAFwPKggDAFwQKgkEAFwRKgkEAFwSKgoFAFwTKgoFAFwUKgoFAFwVKgoFAFwWKgsGAFwYKgsGAFwaKg0IAFwcKg4JAFwdKg4JAFweKhEMAFwfKhINAFwgKhINAFwiKwgDAFwjKwgEAFwkKwkEAFwlKwsGAFwnKwsGAFwoKwwHAFwqKwwHAFwsKwwHAFwtKw0IAFwwKxEMAFwxKxEMAFwzKxIMAFw0KxINAFw3KxYRAFw4LAgDAFw5BAsEAFw6LAkEAFw7LAoFAFw8LAoFAFw9LAsGAFw+LAwHAFw/LAwHAFxALAwHAFxBLAwHAFxCLAwHAFxELA0IAFxFLA0IAFxGLA0IAFxHLA0IAFxILA0IAFxJLA0IAFxKLA0IAFxLLA4JAFxMLA4JAFxNLA4JAFxOLA4JAFxPLA4JAFxQLA8KAFxRLA8KAFxTLA8KAFxULA8KAFxVLA8KAFxWLA8KAFxYLA8KAFxZLBAKAFxcLBALAFxdLBALAFxeLBEMAFxgLBELAFxhLBEMAFxiLBMOAFxjLBMOAFxkLBQPAFxlLBQPAFxmLBQPAFxnLBQPAFxoLBYRAFxpLBcSAFxqLBcSAFxsLBoVAFxtLB0YAFxuLQgDAFxvLQkEAFxxLggDAFxzLgoFAFx0LgoFAFx2LgoFAFx4LgsGAFx5LgsGAFx6LgsGAFx7LgsGAFx8LgsGAFx+LgsGAFx/LgsGAFyBLgsGAFyCLgsGAFyFLgwHAFyGLgwHAFyILgwHAFyJLgwHAFyKLgwHAFyLLgwGAFyMLgwGAFyNLg4HAFyPLgwHAFyQLgwHAFyRLgwHAFySLgwHAFyTLgwHAFyULgwHAFyVLgwHAFyWLgwHAFyXLgwHAFyYLgwHAFyZLgwHAFyaLgwHAFybLgwHAFycLgwHAFydLg0IAFyeLg0IAFyfLg0IAFygLg0HAFyhLg0IAFyiLg0IAFyjLg0IAFykLg0IAFylLg0IAFymLg0IAFynLg0IAFyoLg0IAFypLg0IAFyqLg0IAFyrLg0IAFysLg0IAFytLg0IAFyuLg0IAFyvLg0IAFywLg0IAFyxLg0IAFyzLg0IAFy1Lg0IAFy2Lg0IAFy3Lg0IAFy4Lg0IAFy6Lg0IAFy7Lg0IAFy8Lg0IAFy9Lg0IAFy+Lg0IAFy/Lg0IAFzBLg0IAFzCLg0IAFzELg0IAFzFLg0IAFzGLg4JAFzHLg4JAFzILg4JAFzJLg4JAFzKLg4JAFzLLg4JAFzMLg4JAFzOLg4JAFzPLg4JAFzQLg4JAFzRLg4JAFzSLg4JAFzTLg4JAFzULg4JAFzVLg4JAFzWLg4JAFzXLg4JAFzYLg4JAFzZLg4JAFzaLg4JAFzbLg4JAFzeLg4JAFzfLg4JAFzgLg4JAFzhLg4JAFzkLg4JAFzlLg4JAFzmLg4JAFzoLg8KAFzpLg8KAFzqLg8KAFzsLg8KAFztLg8KAFzuLg8KAFzvLg8KAFzwLg8KAFzxLg8KAFz0Lg8KAFz1Lg8KAFz2Lg8KAFz3Lg8KAFz4Lg8JAFz5Lg8KAFz6Lg8KAFz7Lg8KAFz8Lg8KAFz9Lg8KAFz/Lg8KAF0ALg8KAF0BLg8KAF0CLg8KAF0DLg8KAF0GLhALAF0HLhALAF0LLhAKAF0MLhALAF0NLhALAF0OLhALAF0PLhALAF0QLhALAF0RLhALAF0SLhALAF0ULhALAF0VLhALAF0WLhALAF0XLhALAF0YLhALAF0ZLhALAF0aLhALAF0bLhALAF0dLhALAF0eLhALAF0fLhALAF0gLhALAF0iLhALAF0jLhALAF0kLhALAF0lLhALAF0mLhALAF0nLhALAF0oLhALAF0pLhALAF0sLhALAF0tLhALAF0uLhALAF0vLhALAF0wLhALAF0xLhEMAF0yLhEMAF0zLhEMAF00LhEMAF01LhEMAF02LhEMAF03LhEMAF04LhEMAF05LhEMAF06LhEMAF08LhEMAF09LhEMAF0+LhEMAF0/LhEMAF1ALhEMAF1BLhEMAF1CLhEMAF1DLhEMAF1FLhEMAF1GLhEMAF1HLhEMAF1ILhEMAF1JLhEMAF1KLhINAF1LLhEMAF1MLhEMAF1OLhEMAF1QLhEMAF1RLhEMAF1SLhEMAF1TLhEMAF1VLhEMAF1WLhEMAF1XLhEMAF1YLhEMAF1ZLhEMAF1bLhEMAF1cLhEMAF1dLhEMAF1eLhINAF1iLhINAF1jLhINAF1lLhINAF1nLhINAF1oLhINAF1pLhINAF1rLhIMAF1sLhIMAF1tLhINAF1vLhIMAF1wLhINAF1xLhINAF1yLhINAF1zLhIMAF10LhINAF11LhINAF12LhINAF13LhMOAF14LhMOAF15LhMPAF16LhMOAF17LhMOAF18LhMOAF19LhMOAF1+LhMOAF1/LhMOAF2ALhMOAF2BLhMOAF2CLhMOAF2ELhMOAF2FLhMNAF2GLhMOAF2HLhMOAF2ILhMOAF2JLhMOAF2KLhMOAF2LLhMOAF2MLhMOAF2NLhMOAF2OLhMOAF2QLhQOAF2SLhQPAF2TLhQPAF2ULhQPAF2VLhQPAF2XLhQPAF2ZLhQPAF2aLhQPAF2cLhQPAF2dLhQPAF2eLhQOAF2fLhQPAF2gLhQPAF2hLhQPAF2iLhQPAF2kLhQPAF2nLhUQAF2oLhUQAF2pLhUQAF2qLhUQAF2rLhUQAF2sLhUQAF2tLhUQAF2uLhUQAF2vLhUPAF2wLhUQAF2xLhUPAF2yLhUPAF20LhUPAF21LhUQAF22LhUQAF23LhYRAF24LhYRAF25LhYRAF26LhYRAF28LhYQAF29LhYRAF3ALhcSAF3BLhcRAF3CLhcSAF3DLhgTAF3FLhgTAF3GLhkTAF3HLhkUAF3JLhkUAF3LLhkVAF3MLhkTAF3NLhoUAF3PLhoUAF3QLhoVAF3RLhsWAF3SLhsWAF3TLhsWAF3ULhsWAF3VLhsWAF3WLhwWAF3XLhsWAF3YLhwXAF3bLwgDAF3dLwgDAF3eLwsGAF3fLwsGAF3gLwwHAF3hogsGAF3iLxALAF3jLxALAF3lMAgDAF3mMAoFAF3nMAoFAF3oMAoEAF3pMAsGAF3rMAwHAF3uMA8JAF3vMBEMAF3wMBIOAF3xMQgDAF3yMQgDAF3zMQgDAF30MQkEAF31MQwHAF33MQ4JAF35MQ4JAF37MQ4JAF39MREMAF3+MggDAF3/MgkEAF4BMgkEAF4CMgoFAF4DMgoFAF4EMgoFAF4FMgoFAF4GMgsGAF4IMgsGAF4JMgwHAF4KMgwHAF4LMgwHAF4MMgwHAF4OMgwHAF4PMgwHAF4QMgwHAF4RMg0IAF4SMg0IAF4UMg0IAF4VMg0IAF4WMg0IAF4XMg0IAF4YMg0IAF4ZMg0IAF4aMg0IAF4bMg0IAF4cMg0IAF4dMg4JAF4fMg4JAF4gMg4JAF4hMg4JAF4iMg4JAF4jMg4JAF4kMg4JAF4lMg4JAF4mMg4JAF4nMg4JAF4oMg8KAF4pMg8KAF4rMg8KAF4tMg8KAF4uMg8JAF4vMg8KAF4wMg8KAF4xMg8KAF4zMhALAF40MhALAF42MhALAF43MhALAF44MhALAF47MhALAF48MhALAF49MhEMAF4+MhELAF5AMhEMAF5BMhEMAF5CMhEMAF5DMhEMAF5EMhEMAF5FMhEMAF5HMhEMAF5IMhMMAF5KMhINAF5LMhINAF5MMhINAF5NMhINAF5OMhINAF5PMhINAF5TMhMOAF5UMhMOAF5VMhMNAF5XMhMOAF5YMhMOAF5ZMhMNAF5bMhMOAF5cMhQPAF5dMhQPAF5eMhQPAF5fMhQPAF5gMhQPAF5hMhQPAF5iMhQPAF5jMhQOAF5kMhQPAF5mMhUQAF5nMhUQAF5oMhUQAF5pMhUPAF5qMhYQAF5rMhYRAF5sMhYRAF5tMhcRAF5uMhcSAF5vMhcQAF5wMhgTAF5yMwgDAF5zMwoFAF50MwsGAF51MwsGAF52Mw0GAF54Mw0IAF55MxINAF56NAgDAF57NAkEAF58NAoFAF59NA4JAF5+NBEMAF5/NQgDAF6ANQoFAF6BNQoFAF6CNQoFAF6DNQoFAF6ENQsGAF6GNQsGAF6HNQwHAF6INQwHAF6JNQwHAF6KNQwHAF6LNQwHAF6MNQwHAF6NNQwHAF6PNQwHAF6QNQwHAF6RNQwHAF6SNQwHAF6TNQwHAF6UNQwHAF6VNQ0IAF6WNQ0IAF6XNQ0IAF6ZNQ0IAF6aNQ0IAF6bNQ0JAF6cNQ0IAF6eNQ0IAF6fNQ0IAF6gNQ4JAF6iNQ4JAF6jNQ4JAF6kNQ4JAF6lNQ4JAF6mNQ4JAF6nNQ8KAF6oNQ8KAF6qNQ8KAF6rNQ8KAF6sNQ8KAF6tNQ8JAF6uNQ8KAF6wNRAJAF6xNRALAF6yNRALAF6zNRALAF60NRALAF61NRALAF62NRALAF63NRALAF64NRALAF65NRALAF69NREMAF6+NRELAF7BNREMAF7CNREMAF7DNREMAF7ENRMMAF7FNRINAF7GNRIMAF7HNRINAF7INRINAF7JNRINAF7KNRELAF7LNRIMAF7MNRINAF7NNRMNAF7ONRMOAF7PNRMOAF7QNRMMAF7RNRMOAF7SNRMNAF7TNRMNAF7UNRMOAF7VNRMNAF7WNRMOAF7XNRMOAF7YNRMOAF7ZNRQOAF7aNRQPAF7bNRQPAF7cNRQOAF7dNRQPAF7eNRQPAF7fNRQPAF7gNRQPAF7hNRQPAF7iNRQPAF7jNRQOAF7lNRUQAF7mNRUQAF7nNRUQAF7oNRUQAF7pNRUQAF7qNRUQAF7sNRgTAF7uNRkUAF7vNRkUAF7wNRkUAF7xNRoVAF7yNRsWAF7zNR4ZAF70NggCAF72NgwGAF73NgwGAF74Ng0HAF75Ng0HAF76Ng4IAF77Ng4IAF78Ng4IAF7+NwgDAF7/NwkEAF8ANwkEAF8BNwoFAF8CNwsGAF8DNwwHAF8ENwwHAF8FNwwHAF8HNw4JAF8INw4JAF8JNw8KAF8KNxQOAF8LOAgDAF8MOAkEAF8NOAoFAF8OOAsGAF8POAsGAF8QOAsGAF8ROBEMAF8SOBINAF8TOQgDAF8UOQkEAF8VOQkEAF8WOQkEAF8XOQoFAF8YOQoFAF8aOQsGAF8bOQsGAF8dOQwHAF8fOQwHAF8gOQwHAF8hOQ0HAF8iOQ0IAF8jOQ0IAF8kOQ0IAF8lOQ0IAF8mOQ0IAF8nOQ0IAF8oOQ0IAF8pOQ0IAF8qOQ0IAF8tOQ4JAF8uOQ4JAF8vOQ4JAF8wOQ8KAF8xOQ8KAF8zOQ8KAF80ORALAF81ORALAF82ORALAF83ORALAF84ORALAF85ORALAF86OREMAF87OREMAF88OREMAF8+OREMAF9AORINAF9BORINAF9DORMNAF9EORMOAF9FORMOAF9GORQOAF9IORQPAF9JORQOAF9KORUQAF9LORUQAF9MORYRAF9NORcRAF9OORsWAF9PORwXAF9QOggDAF9ROggDAF9SOgoFAF9TOgsGAF9UOg0IAF9VOg0IAF9WOg4JAF9XOhALAF9YOhEMAF9ZOhINAF9cOhUQAF9dOhcSAF9eOhcSAF9hOwgDAF9iOwwHAF9jOwwHAF9kOwwHAF9lOw4JAF9mOw4JAF9nOw8KAF9pOxALAF9qjQsLAF9rOxALAF9sOxALAF9tOxEMAF9vOxMOAF9wOxMOAF9xOxQPAF9yOxsWAF9zPAgDAF90PAsGAF92PAwGAF93PAwHAF94PAwHAF95PAwHAF97PAwHAF98PA0IAF99PA0IAF9+PA0IAF9/PA0IAF+APA0IAF+BPA0IAF+CPA0IAF+DPA0IAF+EPA0IAF+FPA4JAF+GPA4JAF+HPA4JAF+IPA4JAF+JPA4JAF+KPA4JAF+LPA4JAF+MPA4JAF+QPA8KAF+RPA8KAF+SPA8KAF+TPA8KAF+VPA8KAF+WPBALAF+XPBALAF+YPBALAF+ZPBALAF+bPBALAF+cPBALAF+ePBALAF+fPBALAF+gPBALAF+hPBAMAF+kPBALAF+lPBEMAF+mPBEMAF+nPBEMAF+oPBEMAF+pPBEMAF+qPBEMAF+rPBEMAF+sPBINAF+tPBINAF+uPBINAF+vPBINAF+xPBMOAF+yPBQPAF+zPBMOAF+0PBMOAF+1PBQPAF+2PBQOAF+3PBQPAF+5PBQPAF+6PBQPAF+7PBUQAF+8PBUQAF+9PBYRAF++PBYRAF+/PBgTAF/APBkUAF/BPBkUAF/CPBoVAF/DPQgEAF/EPQgDAF/FPQkFAF/GPQkEAF/JPQoFAF/MPQsHAF/NPQsHAF/PPQsGAF/QPQsHAF/RPQsHAF/SPQsHAF/UPQsGAF/VPQsGAF/WPQsGAF/XPQsHAF/YPQsHAF/ZPQsGAF/bPQsGAF/cPQsHAF/dPQwIAF/ePQwIAF/fPQwHAF/gPQwIAF/hPQwHAF/jPQwGAF/kPQwHAF/lPQwIAF/nPQwHAF/oPQwHAF/qPQwHAF/rPQwHAF/tPQwHAF/uPQwHAF/vPQwHAF/wPQwHAF/xPQwHAF/zPQwHAF/0PQwHAF/1PQwIAF/3PQwHAF/4PQwHAF/6PQwHAF/7PQwHAF/9PQwIAF/+PQwHAF//PQwIAGAAPQwHAGABPQwIAGACPQwIAGADPQwHAGAEPQwHAGAFPQwHAGAGPQwHAGAJPQ0IAGAKPQ0IAGALPQ0IAGAMPQ0IAGANPQ0IAGAOPQ0JAGAPPQ0IAGAQPQ0IAGARPQ0IAGASPQ0JAGATPQ0IAGAUPQ0IAGAVPQ0IAGAWPQ0IAGAXPQ0IAGAZPQ0IAGAaPQ0IAGAbPQ0IAGAcPQ0IAGAdPQ0JAGAePQ0IAGAgPQ0JAGAhPQ0IAGAiPQ0IAGAjPQ0JAGAkPQ0JAGAlPQ0JAGAmPQ0IAGAnPQ0IAGAoPQ0JAGApPQ0IAGAqPQ0IAGArPQ0IAGAsPQ0IAGAtPQ0IAGAuPQ0IAGAvPQ0IAGAxPQ0JAGAyPQ0IAGAzPQ0IAGA0PQ0IAGA1PQ0IAGA3PQ0JAGA5PQ0JAGA6PQ0IAGA7PQ0JAGA8PQ0JAGA/PQ0IAGBAPQ4JAGBBPQ4KAGBCPQ4JAGBDPQ4JAGBEPQ4JAGBFPQ4JAGBGPQ4JAGBHPQ4JAGBJPQ4JAGBKPQ4JAGBLPQ4KAGBMPQ4JAGBNPQ4JAGBQPQ4KAGBSPQ4JAGBTPQ4JAGBUPQ4JAGBVPQ4KAGBYPQ4JAGBZPQ4KAGBaPQ4KAGBbPQ4JAGBdPQ4KAGBePQ4JAGBfPQ4JAGBgPQ4JAGBiPQ4JAGBjPQ4KAGBkPQ4JAGBlPQ4KAGBmPQ4JAGBnPQ4KAGBoPQ4JAGBpPQ4KAGBqPQ4JAGBrPQ4JAGBsPQ4JAGBtPQ4KAGBuPQ4JAGBvPQ4KAGBwPQ4JAGByPQ4JAGBzPQ4KAGB1PQ4KAGB2PQ4KAGB3PQ4KAGB4PQ4JAGB5PQ4JAGB6PQ4JAGB7PQ4JAGB8PQ4JAGB9PQ4JAGB+PQ8JAGB/PQ8LAGCAPQ8KAGCBPQ8KAGCDPQ8KAGCEPQ8KAGCFPQ8KAGCGPQ8LAGCHPQ8KAGCIPQ8KAGCJPQ8LAGCKPQ8LAGCLPQ8KAGCMPQ8KAGCNPQ8KAGCOPQ8KAGCQPQ8LAGCSPQ8KAGCUPQ8KAGCVPQ8KAGCWPQ8KAGCXPQ8KAGCaPQ8KAGCbPQ8KAGCcPQ8KAGCdPQ8KAGCePQ8KAGCfPQ8KAGCgPQ8LAGCiPQ8KAGCjPQ8LAGCkPQ8LAGCmPQ8KAGCnPQ8KAGCoPQ8LAGCpPQ8KAGCqPQ8LAGCrPQ8LAGCsPQ8LAGCtPQ8KAGCvPQ8KAGCwPRALAGCxPRALAGCyPRAMAGCzPRAMAGC0PRALAGC1PRALAGC2PRAMAGC3PRALAGC4PRALAGC5PRAMAGC6PRALAGC7PRALAGC8PRALAGC9PRALAGC+PRALAGC/PRALAGDAPRALAGDBPRAMAGDDPRALAGDEPRAMAGDFPRALAGDGPRALAGDHPRALAGDIPRALAGDJPRAMAGDKPRALAGDLPRALAGDMPRAMAGDNPRALAGDOPRAMAGDPPRALAGDRPRAMAGDTPRALAGDUPRALAGDVPRALAGDXPRALAGDYPRALAGDZPRALAGDaPRALAGDbPRALAGDcPRALAGDdPRALAGDePRALAGDfPRALAGDgPRAMAGDhPRAMAGDiPRAMAGDjPRAMAGDkPRALAGDmPRALAGDnPRALAGDoPRALAGDpPRAMAGDrPRAMAGDsPRALAGDtPRALAGDuPRALAGDvPRALAGDwPREMAGDxPREMAGDyPREMAGDzPRENAGD0PREMAGD1PREMAGD2PREMAGD3PRENAGD4PREMAGD5PREMAGD6PREMAGD7PREMAGD8PREMAGD9PREMAGD+PREMAGD/PREMAGEAPREMAGEBPRENAGEDPREMAGEEPREMAGEFPREMAGEGPRENAGEHPREMAGEIPRENAGEJPREMAGEKPREMAGELPREMAGEMPREMAGENPRENAGEOPREMAGEPPRENAGEQPREMAGERPREMAGESPREMAGETPREMAGEUPREMAGEVPREMAGEWPREMAGEYPREMAGEZPRENAGEaPRENAGEbPRENAGEcPREMAGEdPREMAGEfPRENAGEgPREMAGEhPREMAGEiPREMAGEjPREMAGEkPREMAGEmPREMAGEnPRIMAGEoPRIOAGEpPRINAGErPRINAGEsPRIOAGEuPRINAGEvPRINAGEwPRINAGEyPRIMAGE0PRINAGE2PRINAGE3PRINAGE7PRIOAGE8PRINAGE9PRINAGE+PRINAGE/PRIOAGFAPRINAGFBPRIOAGFCPRIOAGFEPRINAGFFPRIMAGFGPRINAGFHPRIOAGFIPRINAGFJPRINAGFKPRINAGFLPRIOAGFMPRIMAGFNPRINAGFOPRINAGFPPRINAGFQPRIOAGFRPRINAGFSPRMOAGFTPRMOAGFUPRMNAGFVPRMOAGFWPRMOAGFYPRMOAGFZPRMPAGFaPRMOAGFbPRMOAGFcPRMPAGFdPRMOAGFePRMOAGFfPRMOAGFgPRMNAGFhPRMOAGFiPRMOAGFjPRMOAGFkPRMPAGFlPRMNAGFmPRMPAGFnPRMPAGFoPREMAGFqPRMOAGFrPRMPAGFsPRMOAGFuPRMPAGFvPRMOAGFwPRMPAGFxPRMOAGFyPRMOAGFzPRMOAGF0PRMOAGF1PRMOAGF2PRMPAGF3PRMOAGF5PRMPAGF6PRMOAGF8PRMPAGF9PRMOAGF+PRMPAGGAPRMOAGGBPRMOAGGCPRMPAGGDPRMPAGGHPRMPAGGJPRQPAGGKPRQQAGGLPRQPAGGMPRQQAGGNPRQPAGGOPRQPAGGQPRQPAGGRPRQQAGGSPRQPAGGTPRQPAGGUPRQPAGGVPRQPAGGWPRQQAGGYPRQPAGGZPRQQAGGaPRQPAGGbPRQPAGGcPRQOAGGdPRQQAGGfPRQPAGGhPRQPAGGiPRQPAGGkPRQPAGGnPRQPAGGoPRQPAGGpPRQQAGGqPRQPAGGrPRQPAGGsPRQPAGGtPRQPAGGuPRQPAGGvPRQPAGGwPRQPAGGxPRQPAGGyPRQQAGGzPRQPAGG0PRUQAGG1PRURAGG2PRUQAGG3PRUQAGG4PRUQAGG5PRUQAGG6PRUQAGG8PRUQAGG+PRUQAGG/PRUQAGHAPRUQAGHBPRUQAGHCPRUPAGHDPRURAGHFPRUQAGHGPRUQAGHHPRURAGHIPRUQAGHJPRURAGHKPRUPAGHLPRURAGHMPRUQAGHNPRUQAGHPPRUPAGHQPRUQAGHRPRURAGHSPRUQAGHTPRUQAGHUPRUQAGHWPRYSAGHYPRYSAGHaPRYRAGHePRYQAGHfPRYSAGHgPRYRAGHiPRYRAGHjPRYSAGHkPRYRAGHlPRYRAGHmPRYRAGHnPRYRAGHoPRYRAGHpPRcRAGHqPRcSAGHrPRcSAGHtPRcRAGHuPRcSAGHwPRcSAGHxPRcRAGHyPRcTAGH0PRcSAGH1PRgSAGH2PRgTAGH3PRgTAGH4PRgUAGH5PRkUAGH6PRkUAGH7PRkTAGH8PRoVAGH9PRoUAGH+PRoVAGH/PRoWAGIAPRsXAGIBPRsXAGIDPRwXAGIEPRwXAGIGPR0ZAGIHPSAcAGIIPggEAGIJPgkFAGIKPgkFAGILPgkFAGIMPgoGAGINPgoGAGIOPgoGAGIPPgoGAGIQPgoGAGIRPgsHAGISPgsHAGITPgsHAGIUPgwIAGIVPgwIAGIWPgwIAGIXPgwIAGIYPg0JAGIZPg4KAGIaPg8LAGIbPg8LAGIdPg8LAGIePhAMAGIfPhAMAGIgPhEMAGIhPhENAGIiPhEMAGIjPhENAGIkPhENAGIlPhENAGImPhANAGInPhIOAGIpPhIOAGIqPhIOAGIrPhIOAGIsPhIOAGItPhMPAGIuPhMPAGIvPhMPAGIwPhQQAGIyPhURAGIzPhYSAGI0PhURAGI2PwgEAGI3PwgEAGI4PwgEAGI5PwkFAGI6PwsHAGI7PwsHAGI9PwwIAGI+PwwIAGI/PwwIAGJAPwwIAGJBPw0JAGJCPw0JAGJDPw0JAGJGPw4KAGJHPw4KAGJIPw8LAGJJPxAMAGJKPxAMAGJLQAgEAGJMQAgDAGJNQAgDAGJOQAkEAGJQQAoFAGJRQAoFAGJSQAoFAGJTQAoFAGJUQAoFAGJVQAoFAGJYQAsGAGJZQAsGAGJaQAsGAGJbQAsGAGJcQAsGAGJeQAsGAGJgQAsGAGJhQAsGAGJiQAsGAGJjQAsGAGJkQAsGAGJlQAsGAGJmQAsGAGJnQAsGAGJoQAsGAGJpQAsGAGJqQAsGAGJrQAsGAGJsQAsGAGJtQAwHAGJuQAwHAGJvQAwHAGJwQAwHAGJxQAwGAGJyQAwHAGJzQAwHAGJ0QAwHAGJ2QAwHAGJ3QAwHAGJ5QAwHAGJ6QAwHAGJ7QAwHAGJ8QAwHAGJ9QAwHAGJ+QAwHAGJ/QAwIAGKAQAwHAGKBQAwHAGKCQAwHAGKDQAwHAGKEQAwHAGKFQAwHAGKGQAwHAGKHQAwHAGKIQAwHAGKJQAwHAGKKQAwHAGKMQAwHAGKOQAwHAGKPQAwHAGKQQAwHAGKRQAwHAGKSQAwHAGKTQAwHAGKUQAwHAGKVQAwHAGKWQAwHAGKXQAwHAGKYQAwHAGKaQAwHAGKbQAwHAGKcQAwHAGKdQAwHAGKeQAwHAGKfQAwHAGKgQAwHAGKhQAwHAGKiQAwHAGKkQAwHAGKlQAwHAGKmQA0IAGKoQA0IAGKpQA0IAGKqQA0IAGKrQA0IAGKsQA0IAGKtQA0IAGKuQA0IAGKvQA0IAGKwQA0IAGKxQA0IAGKzQA0IAGK0QA0IAGK1QA0IAGK2QA0IAGK4QA0HAGK5QA0IAGK7QA0IAGK8QA0IAGK9QA0IAGK+QA0IAGK/QA0IAGLBQA0IAGLCQA0IAGLDQA0IAGLEQA0IAGLFQA0IAGLGQA0IAGLHQA0IAGLIQA0IAGLJQA0IAGLKQA0IAGLLQA0IAGLMQA0IAGLNQA0IAGLOQA0IAGLPQA0JAGLQQA0IAGLRQA0IAGLSQA0HAGLTQA0IAGLUQA0IAGLVQA0IAGLWQA0IAGLXQA0IAGLYQA0IAGLZQA0IAGLaQA0IAGLbQA0IAGLcQA0JAGLdQA0IAGLfQA0HAGLgQA0IAGLhQA0IAGLiQA0IAGLjQA0IAGLlQA0IAGLmQA0IAGLnQA0IAGLoQA0IAGLpQA0IAGLrQA4JAGLsQA4JAGLtQA4JAGLuQA4JAGLvQA4JAGLwQA4JAGLxQA4JAGLyQA4KAGLzQA4KAGL0QA4JAGL1QA4JAGL2QA4JAGL3QA4JAGL4QA4JAGL5QA4JAGL6QA4JAGL7QA4JAGL8QA4JAGL9QA4JAGL+QA4JAGL/QA4KAGMAQA4JAGMBQA4JAGMCQA4JAGMDQA4JAGMHQA4JAGMIQA4KAGMJQA4JAGMLQA4JAGMMQA4JAGMNQA4JAGMOQA4JAGMPQA4JAGMQQA4KAGMRQA4JAGMTQA4JAGMUQA4JAGMVQA4JAGMWQA4JAGMYQA4JAGMZQA4KAGMaQA4KAGMbQA4KAGMdQA4JAGMeQA4JAGMfQA4JAGMgQA4JAGMhQA4JAGMiQA4JAGMjQA4JAGMkQA4JAGMlQA4JAGMnQA4JAGMoQA8KAGMpQA8KAGMqQA8JAGMrQA8KAGMsQA8KAGMtQA8KAGMuQA8KAGMvQA8KAGMxQA8KAGMyQA8LAGMzQA8KAGM0QA8KAGM1QA8KAGM2QA8KAGM3QA8JAGM4QA8KAGM5QA8KAGM6QA8JAGM7QA8JAGM8QA8KAGM9QA8KAGM+QA8KAGM/QA8KAGNAQA8KAGNBQA8KAGNCQA8KAGNDQA8KAGNEQA8KAGNFQA8KAGNGQA8KAGNHQA8KAGNIQA8KAGNJQA8KAGNKQA8KAGNLQA8KAGNMQA8KAGNNQA8KAGNOQA8KAGNPQA8KAGNQQA8KAGNRQA8KAGNUQA8KAGNVQA8KAGNWQA8KAGNXQA8KAGNYQA8KAGNZQA8KAGNaQA8KAGNcQA8KAGNeQA8KAGNfQA8KAGNhQA8KAGNiQA8KAGNjQA8KAGNkQA8KAGNlQBALAGNnQBALAGNoQBALAGNpQBALAGNrQBALAGNsQBALAGNtQBALAGNuQBALAGNvQBALAGNwQBALAGNxQBALAGNyQBALAGN1QBALAGN2QBALAGN3QBALAGN4QBALAGN5QBALAGN6QBALAGN7QBALAGN8QBALAGN9QBALAGN/QBALAGOAQBALAGOBQBALAGOCQBALAGODQBALAGOEQBALAGOFQBALAGOHQBALAGOIQBALAGOJQBALAGOKQBALAGOLQBALAGOMQBAMAGONQBALAGOOQBALAGOPQBALAGOQQBALAGORQBALAGOSQBALAGOUQBAMAGOWQBALAGOXQBALAGOYQBALAGOZQBALAGObQBALAGOcQBALAGOdQBALAGOeQBALAGOfQBALAGOgQBALAGOhQBALAGOiQBALAGOjQBAMAGOkQBALAGOlQBALAGOnQBALAGOoQBALAGOpQBALAGOqQBALAGOrQBALAGOsQBALAGOtQBALAGOuQBALAGOvQBALAGOwQBAMAGOxQBAMAGOyQBELAGOzQBALAGO0QBALAGO1QBALAGO3QBALAGO4QBALAGO5QBALAGO6QBALAGO7QBALAGO8QBALAGO9QBALAGO+QBEMAGPAQBEMAGPBQBEMAGPCQBEMAGPDQBEMAGPEQBEMAGPFQBMNAGPGQBEMAGPHQBEMAGPIQBEMAGPJQBEMAGPKQBEMAGPLQBEMAGPMQBEMAGPNQBEMAGPOQBEMAGPPQBELAGPQQBEMAGPRQBEMAGPSQBEMAGPTQBEMAGPVQBEMAGPWQBEMAGPXQBEMAGPYQBEMAGPZQBEMAGPaQBEMAGPbQBEMAGPcQBEMAGPdQBEMAGPeQBEMAGPfQBEMAGPgQBEMAGPhQBEMAGPiQBEMAGPjQBEMAGPkQBEKAGPlQBEMAGPmQBEMAGPnQBENAGPoQBEMAGPpQBEMAGPqQBEMAGPrQBENAGPtQBEMAGPuQBEMAGPvQBEMAGPwQBEMAGPxQBENAGPyQBEMAGPzQBEMAGP0QBEMAGP1QBELAGP2QBELAGP4QBEMAGP5QBEMAGP6QBEMAGP7QBEMAGP8QBEMAGP9QBEMAGP+QBEMAGP/QBEMAGQAQBEMAGQBQBEMAGQCQBEMAGQFQBEMAGQGQBINAGQHQBINAGQJQBINAGQKQBINAGQLQBINAGQMQBINAGQNQBINAGQOQBINAGQPQBINAGQQQBINAGQSQBINAGQTQBIMAGQUQBIMAGQVQBINAGQWQBINAGQXQBINAGQYQBINAGQaQBINAGQbQBINAGQcQBIMAGQeQBINAGQfQBINAGQgQBINAGQhQBINAGQiQBINAGQjQBINAGQkQBINAGQlQBIMAGQmQBINAGQnQBINAGQoQBINAGQqQBINAGQrQBIOAGQsQBINAGQtQBIMAGQuQBINAGQvQBINAGQwQBIMAGQyQBINAGQzQBINAGQ0QBIOAGQ1QBINAGQ2QBINAGQ3QBINAGQ4QBINAGQ5QBINAGQ6QBINAGQ7QBIOAGQ9QBIMAGQ+QBINAGQ/QBIOAGRAQBINAGRBQBINAGRCQBINAGRDQBINAGREQBINAGRFQBINAGRGQBINAGRHQBINAGRIQBINAGRKQBINAGRLQBMNAGRNQBMOAGROQBMOAGRQQBMOAGRRQBMOAGRSQBEMAGRTQBMNAGRUQBMOAGRYQBMOAGRZQBMNAGRaQBMOAGRbQBMNAGRcQBMOAGRdQBMOAGReQBMOAGRfQBMOAGRgQBMOAGRhQBMMAGRlQBMOAGRmQBMOAGRnQBMOAGRoQBMPAGRpQBMPAGRrQBMOAGRsQBMOAGRtQBMOAGRuQBMOAGRvQBMPAGRwQBMPAGRxQBMOAGRyQBMOAGRzQBMOAGR0QBMOAGR1QBMOAGR2QBMOAGR3QBMOAGR4QBMNAGR5QBMOAGR6QBMOAGR7QBMOAGR8QBMOAGR9QBMOAGR/QBMOAGSCQBMOAGSDQBMPAGSEQBMOAGSFQBQPAGSHQBMOAGSIQBQPAGSJQBQQAGSKQBQPAGSLQBQPAGSMQBQPAGSNQBQPAGSPQBQPAGSQQBQPAGSRQBQPAGSSQBQPAGSTQBQPAGSVQBQPAGSWQBQOAGSXQBQOAGSYQBQPAGSZQBQPAGSaQBQPAGScQBQPAGSdQBQPAGSeQBQPAGSfQBQPAGSgQBQPAGSiQBQPAGSjQBQPAGSkQBQPAGSlQBQPAGSmQBQOAGSpQBQPAGSrQBQPAGSsQBQPAGStQBQPAGSuQBQPAGSvQBQOAGSwQBQPAGSxQBQOAGSyQBQPAGSzQBQPAGS0QBQPAGS1QBQPAGS2QBQNAGS3QBQPAGS4QBQPAGS5QBQPAGS6QBQPAGS7QBUPAGS8QBUQAGS9QBUQAGS+QBUOAGS/QBUQAGTAQBUQAGTBQBUQAGTCQBUQAGTDQBUQAGTEQBUQAGTFQBUQAGTHQBUQAGTJQBUQAGTKQBURAGTLQBUQAGTNQBUQAGTOQBUQAGTPQBUPAGTQQBUQAGTSQBUPAGTTQBUQAGTUQBUQAGTWQBUPAGTXQBUQAGTYQBURAGTZQBUQAGTaQBUQAGTbQBUPAGTdQBUQAGTeQBUQAGTgQBYRAGThQBYRAGTiQBYRAGTjQBYRAGTkQBYRAGTlQBcSAGTmQBYRAGTnQBYRAGToQBYRAGTpQBYRAGTqQBYSAGTrQBYRAGTsQBYRAGTtQBYQAGTvQBYRAGTwQBYRAGTxQBYRAGTyQBcRAGTzQBcQAGT0QBcRAGT2QBcSAGT3QBcSAGT4QBcSAGT6QBcSAGT7QBcSAGT8QBcSAGT9QBcSAGT+QBcSAGT/QBcRAGUAQBcTAGUBQBcRAGUDQBcRAGUEQBcSAGUFQBcSAGUGQBcSAGUHQBgTAGUJQBgTAGUKQBgTAGUMQBgTAGUNQBgTAGUOQBgTAGUPQBgTAGUQQBgTAGURQBkTAGUSQBgTAGUTQBkUAGUUQBkUAGUVQBkUAGUWQBkUAGUXQBkUAGUYQBkUAGUZQBkUAGUbQBoVAGUcQBoVAGUdQBoVAGUeQBsWAGUfQBsWAGUgQBsWAGUhQBsVAGUiQBsWAGUjQBsXAGUkQBsWAGUlQBwXAGUmQBsWAGUpQBwXAGUqQBwXAGUrQBwXAGUsQB0YAGUtQB0YAGUuQB4ZAGUvQQgEAGUwQQoGAGUyQRAMAGUzQRQQAGU0QggEAGU1QggEAGU2QgoGAGU3QgoGAGU4QgsHAGU5QgsHAGU7QgsHAGU9QgwIAGU+QgwIAGU/QgwJAGVBQg0JAGVDQg0JAGVFQg0JAGVGQg4KAGVIQg4KAGVJQg4KAGVKQg4KAGVMQg4KAGVNQg8LAGVOQg8LAGVPQg8LAGVRQg8LAGVTQg8LAGVUQg8LAGVVQg8LAGVWQg8KAGVXQg8LAGVYQg8LAGVZQg8LAGVbQg8LAGVcQhAMAGVdQhALAGVeQhAMAGVfQhAMAGViQhALAGVjQhAMAGVkQhAMAGVlQhAMAGVmQhAMAGVnQhAMAGVoQhAMAGVqQhAMAGVrQhENAGVsQhEMAGVtQhANAGVvQhENAGVwQhENAGVyQhIOAGVzQhIOAGV0QhMQAGV1QhMPAGV2QhMOAGV3QhMPAGV4QhMPAGV5QhMPAGV6QhMPAGV7QhMPAGV8QhQQAGV/QhQQAGWAQhURAGWBQhURAGWCQhURAGWDQhYRAGWEQhcTAGWFQhgUAGWGQhgUAGWHQwgEAGWIQwsHAGWJQwwIAGWLQw4KAGWMQw8MAGWOQw8LAGWQQxAMAGWRQxAMAGWSQxENAGWTQxQQAGWUQxcSAGWVQxkVAGWWQxsYAGWXRAgEAGWZRA4KAGWbRA8LAGWcRA8LAGWdRBAMAGWeRBEMAGWfRBENAGWgRBIOAGWhRBIOAGWiRBQPAGWkRQgEAGWlRQkFAGWnRQwIAGWoRQwIAGWpRQwIAGWqRQ0JAGWrRQ0JAGWsRQ8LAGWtRQ8LAGWuRRAMAGWvRRAMAGWwRRENAGWyRRIOAGWzRRMPAGW1RRURAGW2RRURAGW3RRYSAGW4RR0ZAGW5RggEAGW7RgwIAGW8RgwIAGW9Rg0JAGW+Rg0JAGW/Rg0JAGXBRg4KAGXCRg4KAGXDRg4KAGXERg4KAGXFRg4KAGXGRg4KAGXLRg8LAGXMRg8LAGXNRg8LAGXORg8LAGXPRg8LAGXQRhAMAGXRRhAMAGXSRhENAGXTRhENAGXURhEMAGXWRhIOAGXXRhIOAGXZRhQQAGXaRhURAGXbRhYSAGXdRhcTAGXeRhcSAGXfRhgTAGXgRwgEAGXhRwkEAGXiRw0JAGXjRw8LAGXlSAgEAGXmSAkFAGXnSAkFAGXoSAoGAGXpSAoGAGXsSAoGAGXtSAoGAGXuSAoGAGXvSAoGAGXwSAsHAGXxSAsHAGXySAsHAGXzSAsHAGX0SAsHAGX1SAsHAGX2SAsHAGX3SAsHAGX4SAsHAGX6SAwIAGX7SAwIAGX8SAwIAGX9SAwIAGX/SAwIAGYASAwIAGYCSAwIAGYDSAwIAGYESAwIAGYFSAwHAGYGSAwIAGYHSAwIAGYISAwIAGYJSAwIAGYKSAwIAGYLSAwIAGYMSAwIAGYNSAwIAGYOSAwIAGYPSAwIAGYQSAwIAGYRSAwIAGYSSAwIAGYTSAwIAGYUSAwIAGYVSAwIAGYYSAwIAGYZSAwIAGYcSA0JAGYdSA0JAGYeSA0JAGYfSA0JAGYgSA0JAGYhSA0JAGYiSA0JAGYjSA0JAGYkSA0JAGYlSA0JAGYmSA0JAGYnSA0JAGYoSA0JAGYrSA0JAGYtSA0JAGYuSA0JAGYvSA0JAGYwSA0JAGYxSA0JAGYySA0JAGYzSA0JAGY0SA0JAGY1SA0JAGY2SA0JAGY5SA0JAGY6SA0JAGY7SA0JAGY8SA0JAGY+SA0JAGY/SA0JAGZBSA4KAGZCSA4KAGZDSA4KAGZESA4KAGZFSA4KAGZHSA4KAGZISA4KAGZJSA4KAGZKSA4KAGZLSA4KAGZMSA4KAGZNSA4KAGZPSA4KAGZRSA4KAGZSSA4KAGZTSA4KAGZUSA4KAGZVSA4KAGZWSA4KAGZXSA8LAGZZSA8LAGZaSA8LAGZbSA8LAGZcSA8LAGZdSA8LAGZeSA8LAGZfSA8KAGZgSA8KAGZhSA8LAGZiSA8LAGZjSA8LAGZkSA8LAGZlSA8LAGZmSA8LAGZnSA8LAGZoSA8LAGZpSA8MAGZqSBAMAGZrSBAMAGZsSBAMAGZuSBAMAGZvSBAMAGZwSBAMAGZxSBAMAGZySBAMAGZzSBAMAGZ0SBAMAGZ2SBAMAGZ3SBAMAGZ4SBANAGZ5SBAMAGZ6SBAMAGZ7SBAMAGZ8SBAMAGZ9SBAMAGZ+SBAMAGaASBAMAGaBSBAMAGaCSBAMAGaDSBAMAGaESBENAGaFSBENAGaGSBENAGaHSBENAGaISBENAGaJSBENAGaKSBENAGaLSBENAGaMSBENAGaNSBENAGaOSBEMAGaQSBENAGaRSBAMAGaSSBENAGaUSBENAGaVSBENAGaWSBENAGaXSBENAGaYSBENAGaZSBENAGaaSBIOAGadSBIOAGafSBIOAGagSBIOAGahSBIOAGaiSBIOAGakSBIOAGamSBIOAGanSBIOAGaoSBIOAGapSBMPAGaqSBMPAGarSBMPAGatSBMPAGauSBMOAGavSBMOAGawSBMPAGaxSBMOAGaySBMPAGazSBMPAGa0SBMPAGa1SBMPAGa2SBMPAGa3SBMPAGa4SBQQAGa5SBQPAGa6SBQQAGa7SBQQAGa8SBQPAGa9SBQQAGa+SBQQAGa/SBQQAGbASBQQAGbBSBQQAGbESBQOAGbGSBQQAGbHSBQQAGbISBQQAGbJSBQQAGbKSBQQAGbLSBQQAGbMSBQQAGbNSBQQAGbOSBURAGbPSBUPAGbSSBURAGbWSBURAGbYSBYSAGbZSBYRAGbaSBURAGbbSBYSAGbcSBYSAGbdSBcTAGbeSBcSAGbgSBcSAGbjSBgUAGbkSBgUAGbmSBgUAGbnSBgUAGboSBgUAGbpSBkVAGbrSBsXAGbsSBsXAGbtSBwYAGbuSBwXAGbwSQgEAGbxSQkFAGbySQoGAGbzSQoGAGb0SQsHAGb1SQsHAGb2SQwIAGb3SQ0JAGb4SQ4KAGb5SQ8LAGb6SQ4KAGb7SQ8KAGb8SQ8LAGb9SA8LAGb+SRAMAGb/SRAMAGcADRIMAGcBSRAMAGcCSRAMAGcDSRENAGcESRIOAGcFSRIOAGcISggEAGcJSgoGAGcKSgwIAGcLSgwIAGcMSgwIAGcNSgwIAGcOSg0JAGcPSg0JAGcQSg0JAGcSSg4KAGcTSg4KAGcUSg4KAGcVSg4KAGcWSg8LAGcXSg8KAGcYSg8LAGcZSg8LAGcbSg8LAGcdShAMAGceShAMAGcfShAMAGcgShEMAGchShENAGciShIOAGcjShQQAGclShQQAGcmShYRAGcnShgUAGcoSwgEAGcpSwgEAGcqSwkFAGcrSwkFAGcsSwkFAGctSwkFAGcuSwkFAGcvSwkFAGcxSwoGAGczSwoGAGc0SwoGAGc1SwoGAGc2SwoGAGc3SwoGAGc4SwoGAGc5SwoGAGc6SwoGAGc7SwoGAGc8SwoGAGc9SwoGAGc+SwoGAGc/SwoGAGdASwoGAGdBSwoGAGdCSwoGAGdDSwoGAGdESwsHAGdFSwsHAGdGSwsHAGdHSwsHAGdISwsHAGdJSwsHAGdLSwsHAGdMSwsHAGdNSwsHAGdOSwsHAGdPSwsHAGdQSwsHAGdRSwsHAGdTSwsHAGdVSwsHAGdWSwsHAGdXSwsHAGdZSwsHAGdaSwsHAGdcSwsHAGddSwsHAGdeSwsHAGdfSwsHAGdgSwsHAGdhSwsHAGdiSwsHAGdjSwsHAGdkSwsHAGdlSwsHAGdmSwsHAGdnSwsHAGdoSwsHAGdpSwsHAGdqSwwIAGdrSwwIAGdsSwwIAGdtSwwIAGduSwwIAGdvSwwIAGdwSwwIAGdxSwwIAGdySwwIAGdzSwwIAGd0SwwIAGd1SwwIAGd2SwwIAGd3SwwIAGd4SwwIAGd5SwwIAGd6SwwIAGd7SwwIAGd8SwwIAGd9SwwIAGd+SwwIAGd/SwwIAGeBSwsHAGeCSwwIAGeDSwwIAGeESwwIAGeFSwwIAGeGSwwIAGeHSwwIAGeJSwwIAGeLSwwIAGeMSwwIAGeNSwwIAGeOSwwIAGePSwwIAGeQSwwIAGeRSwwIAGeSSwwIAGeTSwwIAGeUSwwIAGeVSwwIAGeXSwwIAGeYSwwIAGeZSwwIAGeaSwwIAGecSwwIAGedSwwIAGeeSwwIAGefSwwIAGegSwwIAGehSwwIAGeiSwwIAGejSwwIAGekSwwIAGelSwwIAGemSwwIAGenSwwIAGeoSwwIAGepSwwIAGeqSwwIAGerSwwIAGesSwwIAGetSwwIAGeuSw0JAGevSw0JAGewSw0JAGexSw0JAGeySw0JAGezSw0JAGe0Sw0JAGe1Sw0JAGe2Sw0JAGe3Sw0JAGe4Sw0JAGe5Sw0JAGe6Sw0JAGe7Sw0JAGe/Sw0JAGfASw0JAGfBSw0JAGfCSw0JAGfDSw0JAGfESw0JAGfFSw0JAGfGSw0JAGfISw0JAGfJSw0IAGfKSw0JAGfLSw0JAGfMSw0JAGfNSw0JAGfOSw0JAGfPSw0JAGfQSw0JAGfRSw0JAGfSSw0JAGfTSw0JAGfUSw0JAGfWSw0JAGfXSw0JAGfYSw0JAGfZSw0JAGfaSw0JAGfbSw0JAGfcSw0IAGfdSw0JAGfeSw0JAGffSw0JAGfgSw0JAGfiSw0JAGfjSw0JAGfkSw0JAGflSw0JAGfmSw0JAGfnSw0JAGfpSw0JAGfqSw0JAGfrSw0JAGfsSw0JAGftSw0JAGfuSw0JAGfvSw0JAGfwSw0JAGfxSw0JAGfySw0JAGfzSw0JAGf0Sw0KAGf1Sw0JAGf2Sw0JAGf3Sw0JAGf4Sw0JAGf5Sw0IAGf6Sw0JAGf7Sw0JAGf8Sw0JAGf9Sw0JAGf+Sw0JAGf/Sw0JAGgASw0JAGgBSw0JAGgCSw0JAGgDSw0JAGgESw0JAGgFSw0JAGgHSw0JAGgISw0JAGgJSw0JAGgKSw0JAGgLSw0JAGgMSw0JAGgNSw0JAGgOSw0JAGgPSw0JAGgQSw0JAGgRSw0JAGgSSw4KAGgTSw4KAGgUSw4KAGgWSw4KAGgXSw4KAGgYSw4KAGgaSw4KAGgbSw4KAGgcSw4KAGgdSw4KAGgeSw4KAGgfSw4KAGggSw4KAGghSw4KAGgiSw4KAGglSw4KAGgmSw4KAGgoSw4KAGgpSw4KAGgqSw4KAGgrSw4KAGgtSw4KAGguSw4KAGgvSw4KAGgxSw4KAGgySw4KAGgzSw4KAGg0Sw4KAGg1Sw4KAGg2Sw4KAGg3Sw4KAGg4Sw4KAGg5Sw4KAGg6Sw4KAGg7Sw4KAGg8Sw4KAGg9Sw4KAGg+Sw4KAGhASw4KAGhBSw4KAGhCSw4KAGhDSw4KAGhESw4KAGhFSw4KAGhGSw4KAGhHSw4KAGhISw4KAGhJSw4KAGhKSw4KAGhLSw4KAGhMSw4KAGhNSw4KAGhOSw4KAGhPSw4JAGhQSw4KAGhRSw4KAGhSSw4JAGhTSw4KAGhUSw4KAGhVSw4KAGhWSw4KAGhZSw4KAGhcSw4KAGhdSw4KAGhfSw4KAGhgSw4KAGhhSw4KAGhiSw4KAGhjSw4KAGhkSw4KAGhlSw4KAGhmSw4KAGhnSw4KAGhoSw4KAGhpSw4KAGhrSw8LAGhtSw8LAGhuSw8LAGhvSw8LAGhxSw8LAGhySw8LAGh0Sw8LAGh1Sw8LAGh2Sw8LAGh3Sw8LAGh4Sw8LAGh5Sw8LAGh7Sw8LAGh8Sw8LAGh9Sw8LAGh+Sw8LAGh/Sw8LAGiASw8LAGiBSw8LAGiCSw8LAGiDSw8KAGiESw8LAGiFSw8LAGiGSw8KAGiHSw8LAGiISw8LAGiJSw8LAGiKSw8LAGiLSw8LAGiMSw8LAGiNSw8LAGiPSw8LAGiQSw8LAGiRSw8LAGiSSw8LAGiTSw8LAGiUSw8LAGiWSw8LAGiXSw8LAGiYSw8LAGibSw8KAGicSw8LAGidSw8KAGifSw8LAGigSw8KAGihSw8LAGiiSw8LAGijSw8LAGikSw8LAGimSw8LAGinSw8LAGioSw8LAGipSw8LAGiqSw8LAGirSw8LAGisSw8LAGitSw8LAGiuSw8LAGivSw8LAGiwSw8LAGixSw8LAGiySw8LAGizSw8LAGi0Sw8KAGi1Sw8LAGi2Sw8LAGi5Sw8LAGi6Sw8LAGi8Sw8LAGi9Sw8LAGjASw8LAGjCSw8LAGjDSxAMAGjESxAMAGjFSxAMAGjGSxAMAGjHSxAMAGjISxAMAGjJSxAMAGjKSxAMAGjLSxAMAGjMSxAMAGjNSxAMAGjOSxAMAGjPSxAMAGjQSxAMAGjRSxAMAGjSSxAMAGjTSxAMAGjUSxAMAGjVSxAMAGjWSxAMAGjXSxAMAGjYSxAMAGjaSxAMAGjcSxAMAGjdSxAMAGjeSxAMAGjfSxAMAGjgSxAMAGjhSxAMAGjjSxAMAGjkSxAMAGjmSxAKAGjnSxAMAGjoSxAMAGjpSxANAGjqSxAMAGjrSxAMAGjsSxAMAGjuSxAMAGjvSxAMAGjwSxAMAGjxSxAMAGjySxAMAGjzSxAMAGj0SxAMAGj1SxAMAGj2SxAMAGj3SxAMAGj4SxAMAGj5SxAMAGj6SxAMAGj7SxALAGj8SxAMAGj9SxAMAGkASxAMAGkBSxAMAGkCSxAMAGkDSxAMAGkESxAMAGkFSxAMAGkGSxAMAGkHSxAMAGkISxAMAGkJSxAMAGkKSxAMAGkLSxAMAGkMSxAMAGkNSxAMAGkOSxAMAGkPSxAMAGkQSxAMAGkRSxAMAGkSSxAMAGkTSxAMAGkUSxAMAGkVSxAMAGkXSxAMAGkYSxALAGkZSxAMAGkaSxAMAGkbSxALAGkcSxAMAGkfSxAMAGkgSxAMAGkhSxAMAGkiSxAMAGkjSxAMAGkkSxAMAGklSxAMAGkmSxAMAGkoSxAMAGkqSxAMAGksSxAMAGktSxAMAGkvSxENAGkwSxEMAGkySxENAGkzSxENAGk0SxENAGk1SxENAGk2SxENAGk3SxENAGk4SxENAGk5SxENAGk7SxENAGk8SxENAGk9SxENAGk+SxENAGk/SxENAGlASxENAGlBSxENAGlCSxENAGlDSxENAGlESxENAGlFSxENAGlGSxENAGlISxENAGlJSxEMAGlKSxENAGlLSxENAGlMSxENAGlOSxENAGlPSxENAGlRSxENAGlSSxENAGlTSxENAGlUSxENAGlVSxENAGlWSxELAGlXSxEMAGlYSxENAGlZSxENAGlaSxENAGlbSxEMAGlcSxENAGldSxENAGleSxENAGlfSxENAGlgSxENAGlhSxENAGliSxENAGljSxENAGlkSxENAGllSxENAGlmSxENAGlnSxEMAGloSxENAGlpSxENAGlqSxENAGlrSxENAGlsSxENAGltSxENAGluSxEMAGlvSxENAGlwSxEMAGlxSxENAGlySxENAGlzSxENAGl0SxENAGl1SxEMAGl2SxENAGl3SxENAGl4SxENAGl5SxENAGl6SxENAGl7SxENAGl8SxENAGl9SxENAGl+SxENAGmASxENAGmBSxENAGmCSxENAGmDSxENAGmESxENAGmFSxENAGmGSxENAGmHSxENAGmISxENAGmJSxENAGmKSxINAGmNSxIOAGmOSxIOAGmQSxIOAGmRSxIOAGmTSxIOAGmUSxEMAGmVSxIOAGmWSxIOAGmXSxIOAGmYSxENAGmZSxINAGmaSxIOAGmbSxIOAGmcSxIOAGmeSxIOAGmfSxIOAGmgSxIOAGmhSxIOAGmiSxIOAGmjSxIOAGmkSxIOAGmlSxIOAGmmSxIOAGmnSxIOAGmoSxIOAGmpSxIOAGmqSxIOAGmrSxIOAGmsSxIOAGmtSxIOAGmuSxIOAGmvSxIOAGmwSxIOAGmxSxIOAGmySxIOAGmzSxINAGm0SxIOAGm1SxINAGm2SxIOAGm3SxIOAGm5SxIOAGm7SxIOAGm8SxIOAGm9SxIOAGm+SxINAGm/SxIOAGnASxIOAGnBSxIOAGnCSxIOAGnDSxIOAGnESxIOAGnGSxINAGnHSxIOAGnJSxIOAGnKSxIOAGnLSxIOAGnMSxINAGnNSxIOAGnOSxINAGnPSxIOAGnQSxINAGnRSxIOAGnTSxIOAGnUSxIOAGnVSxIOAGnWSxIOAGnYSxIOAGnZSxIOAGnbSxIOAGndSxIOAGneSxIOAGnfSxIOAGngSxIOAGnhSxIOAGniSxMPAGnkSxMOAGnlSxMPAGnmSxMPAGnnSxMPAGnoSxMOAGnpSxINAGnrSxMPAGnsSxMPAGntSxMPAGnuSxMPAGnxSxMPAGnySxMPAGnzSxMPAGn0SxMPAGn2SxMPAGn3SxMPAGn4SxMPAGn5SxMPAGn6SxMPAGn7SxMPAGn8SxMPAGn9SxMPAGn+SxMPAGn/SxMPAGoASxMPAGoBSxMPAGoCSxMPAGoDSxMOAGoESxMOAGoFSxMPAGoGSxMOAGoHSxMOAGoISxMPAGoJSxMPAGoKSxMPAGoLSxMOAGoMSxMPAGoNSxMPAGoPSxMPAGoRSxMPAGoSSxMPAGoTSxMPAGoUSxMPAGoVSxMPAGoWSxMPAGoXSxMPAGoYSxMPAGoZSxMPAGoaSxMPAGobSxMPAGocSxMPAGodSxMPAGoeSxMPAGofSxMPAGogSxMPAGohSxMOAGoiSxMPAGojSxMPAGolSxMOAGomSxMPAGonSxMPAGooSxMQAGopSxMPAGoqSxMPAGorSxMPAGosSxMPAGotSxMPAGouSxIPAGovSxMPAGowSxMPAGoxSxMPAGoySxQQAGozSxQQAGo0SxQQAGo1SxQQAGo2SxQQAGo4SxQQAGo5SxQQAGo6SxQOAGo7SxQQAGo8SxQQAGo9SxQQAGo+SxQQAGo/SxQQAGpASxQQAGpBSxQQAGpDSxQQAGpESxQPAGpFSxQQAGpGSxQQAGpHSxQQAGpISxQQAGpJSxQQAGpLSxQQAGpMSxQQAGpNSxQQAGpOSxQQAGpPSxQQAGpQSxQQAGpRSxQQAGpSSxQQAGpTSxQQAGpUSxQQAGpVSxQQAGpWSxQQAGpXSxQPAGpYSxQQAGpZSxQQAGpaSxQRAGpbSxQQAGpdSxQQAGpeSxQQAGpfSxQQAGpgSxQQAGphSxQPAGpiSxQPAGpjSxQQAGpkSxQQAGplSxMPAGpmSxQQAGpnSxQQAGpoSxQQAGppSxQQAGpqSxQQAGprSxQQAGptSxQQAGpvSxQQAGpxSxQQAGpySxQQAGpzSxQQAGp0SxMQAGp2SxQQAGp4SxQQAGp5SxQQAGp6SxQQAGp8SxQQAGp+SxURAGp/SxURAGqASxURAGqBSxURAGqCSxURAGqDSxUQAGqESxURAGqFSxURAGqHSxUQAGqJSxURAGqKSxURAGqMSxURAGqNSxURAGqOSxUQAGqPSxURAGqQSxURAGqRSxURAGqSSxURAGqTSxURAGqUSxURAGqVSxURAGqWSxUQAGqXSxURAGqZSxUQAGqaSxURAGqbSxUPAGqcSxURAGqdSxUQAGqeSxURAGqfSxURAGqgSxUQAGqhSxURAGqiSxURAGqjSxURAGqkSxUQAGqlSxURAGqmSxURAGqnSxUQAGqoSxUQAGqpSxURAGqqSxURAGqrSxYSAGqsSxYRAGqtSxYSAGquSxYSAGqvSxYSAGqxSxYSAGqySxYSAGqzSxYSAGq0SxYRAGq1SxYSAGq2SxYSAGq3SxYSAGq4SxYSAGq5SxYSAGq6SxYSAGq7SxYSAGq9SxYSAGq+SxYSAGrBSxYSAGrCSxYSAGrDSxYSAGrFSxYSAGrGSxYRAGrHSxYSAGrISxYSAGrJSxYSAGrKSxYSAGrLSxcTAGrMSxcTAGrNSxcTAGrPSxcTAGrQSxcTAGrRSxcTAGrTSxcTAGrUSxcSAGrYSxcTAGrZSxcSAGraSxcSAGrbSxcRAGrcSxcTAGrdSxcTAGreSxcTAGrfSxcTAGrgSxcTAGrhSxcSAGriSxcTAGrkSxcTAGrlSxcTAGrnSxgTAGroSxgUAGrqSxgUAGrrSxcTAGrsSxgUAGruSxgUAGrvSxgUAGrwSxgUAGrxSxgUAGrzSxgUAGr2SxgUAGr4SxkUAGr5SxkUAGr6SxkVAGr7SxkVAGr8SxkVAGsASxkVAGsCSxkUAGsDSxkVAGsESxkVAGsFSxkVAGsISxoWAGsJSxoWAGsKSxoVAGsLSxoWAGsPSxsXAGsQSxsXAGsRSxsXAGsSSxsXAGsTSxwYAGsWSx0ZAGsXSx0YAGsYSx0ZAGsZSx0ZAGsaSx0ZAGsdSx4ZAGseSyAcAGsfSyAcAGsgTAgEAGshTAoGAGsiTAoGAGsjTAwIAGskTAsHAGslTAwIAGsnTAwIAGsoTA0JAGssTA4KAGstTA4KAGsvTA4KAGsxTA4KAGsyTA8LAGszTA8LAGs0TA8KAGs1TA8LAGs2TA8LAGs3TA8LAGs4TA8LAGs5TBAMAGs6TBAMAGs7TBAMAGs8TBAMAGs9TBAMAGs+TBAMAGs/TBAMAGtBTBENAGtCTBENAGtDTBENAGtFTBENAGtGTBENAGtHTBENAGtITBENAGtJTBIOAGtKTBIOAGtLTBIOAGtMTBIOAGtNTBIOAGtOTBMPAGtQTBMPAGtRTBMPAGtSTBMPAGtTTBMPAGtUTBQPAGtVTBQQAGtWTBQQAGtXTBQRAGtZTBQQAGtbTBURAGtcTBURAGteTBYSAGtfTBYRAGtgTBcTAGthTBoVAGtiTQgEAGtjTQkFAGtkTQoGAGtlTQsHAGtmTQwIAGtnTQwIAGtpTQwIAGtqTQ0JAGttTQ4KAGtvTRAMAGtyTRENAGtzTRENAGt0TRIOAGt2TRMPAGt3TRQQAGt4TRYSAGt5TggEAGt6TgkFAGt7TgoGAGt8TgsHAGt+TgwIAGt/TgwIAGuATgwIAGuBTgwIAGuCTg0JAGuDTg0JAGuETg0JAGuGTg0JAGuHTg0JAGuITg4KAGuJTg4KAGuKTg4KAGuLTg4JAGuMTg8LAGuNTg8LAGuOTg8LAGuPTg8LAGuRTg8LAGuSTg8LAGuTTg8LAGuUThAMAGuVThAMAGuWThAMAGuXThAMAGuYThAMAGuZThAMAGuaThAMAGubThEMAGueThIOAGufThINAGugThIOAGuhThIOAGuiThMPAGujThMPAGukThMPAGulThMPAGumThMPAGunThQQAGuqThQQAGurThQQAGutThURAGuuThURAGuvThYSAGuwThcTAGuxThcTAGuyThkVAGuzTwgEAGu0TwwIAGu1Tw0JAGu2Tw0JAGu3Tw4KAGu6Tw8KAGu7Tw8LAGu8TxAMAGu9TxAMAGu/TxENAGvATxENAGvBTxENAGvCTxENAGvDTxIOAGvETxIOAGvFTxMPAGvGTxMPAGvHTxQQAGvITxQQAGvJTxcSAGvKTxsXAGvLUAgEAGvMUAgEAGvNUAkFAGvOUAoGAGvPUAsHAGvQUAsHAGvSUAwJAGvTUBEOAGvUUQgEAGvVUQoGAGvWUQ0JAGvXUQ0JAGvYUQ0JAGvZUQ4KAGvaURURAGvbUggEAGvcUgsHAGveUgwIAGvfUgwIAGvgUg0JAGvhUg0JAGviUg4KAGvjUg4KAGvkUg4KAGvmUg4KAGvnUg4KAGvoUg4KAGvqUg4KAGvrUg8LAGvsUg8LAGvvUhAMAGvwUhAMAGvyUhAMAGvzUhAMAGv1UhAMAGv3UhENAGv4UhENAGv5UhENAGv6UhENAGv7UhENAGv8UhENAGv9UhEMAGv+UhIOAGv/UhMPAGwAUhMPAGwBUhMOAGwCUhMPAGwDUhQQAGwEUhQQAGwFUhQQAGwGUhQQAGwHUhQQAGwIUhURAGwJUhURAGwLUhYRAGwMUhcTAGwNUhoWAGwPUwgEAGwQUwkFAGwRUwkFAGwTUwwIAGwUVAgEAGwVVAkFAGwWVAoGAGwXVAoGAGwYVAoGAGwZVAsHAGwaVAsHAGwbVAwIAGwcVAwIAGwdVAwIAGwfVA0JAGwgVA0JAGwhVA0JAGwiVA0JAGwjVA4KAGwkVA4KAGwlVA4KAGwmVA4KAGwnVA4KAGwoVA4KAGwpVA4KAGwqVA8LAGwrVA8LAGwsVBAMAGwuVBAMAGwvVBAMAGwwVBAMAGwxVBENAGwyVBINAGwzVBIOAGw0VQgEAGw1VQgDAGw2VQkFAGw3VQkFAGw4VQkFAGw5VQkFAGw6VQgFAGw7VQoFAGw9CwwGAGw+VQoFAGw/VQoFAGxAVQoFAGxBVQoFAGxCVQoHAGxDVQoFAGxGVQoGAGxHVQoFAGxJVQoFAGxKVQsGAGxLVQsGAGxMVQsGAGxNVQsGAGxOVQsGAGxPVQsGAGxQVQsGAGxSVQsGAGxUVQsGAGxVVQsGAGxXVQsGAGxYVQsGAGxZVQsGAGxaVQsGAGxbVQsGAGxcVQsGAGxdVQsGAGxeVQsHAGxfVQsGAGxgVQsGAGxhVQsGAGxiVQsGAGxkVQsGAGxlVQwHAGxmVQwHAGxnVQwHAGxoVQwHAGxpVQwHAGxqVQwHAGxrVQwHAGxtVQwHAGxuVQwHAGxvVQwHAGxwVQwHAGxxVQwHAGxyVQwGAGxzVQwHAGx0VQwHAGx1VQwHAGx2VQwHAGx4VQwHAGx5VQwHAGx6VQwHAGx7VQwHAGx9VQwHAGx+VQwHAGx/VQwHAGyAVQwIAGyBVQwHAGyCVQwHAGyDVQwHAGyEVQwHAGyFVQwHAGyGVQwHAGyHVQwHAGyIVQwHAGyJVQwHAGyKVQwIAGyLVQwHAGyMVQwHAGyNVQwHAGyOVQwHAGyPVQwHAGyQVQwHAGySVQwHAGyTVQwIAGyUVQwHAGyVVQwHAGyWVQwHAGyYVQwHAGyZVQwHAGyaVQwHAGybVQwHAGycVQwHAGydVQwIAGyfVQwHAGyhVQwHAGyiVQwHAGyjVQwHAGykVQwHAGylVQwHAGymVQwHAGynVQwHAGypVQwHAGyqVQwHAGyrVQ0IAGysVQ0IAGytVQ0IAGyuVQ0IAGyvVQ0JAGywVQ0IAGyxVQ0IAGyyVQ0IAGyzVQ0IAGy0VQ0IAGy2VQ0IAGy3VQ0IAGy4VQ0IAGy5VQ0IAGy6VQ0IAGy7VQ0IAGy8VQ0IAGy9VQ0IAGy+VQ0IAGy/VQ0IAGzAVQ0IAGzBVQ0IAGzCVQ0IAGzDVQ0IAGzEVQ0IAGzFVQ0IAGzGVQ0IAGzHVQ0IAGzJVQ0JAGzKVQ0IAGzLVQ0IAGzMVQ0IAGzNVQ0IAGzOVQ0IAGzPVQ0IAGzQVQ0HAGzRVQ0IAGzSVQ0IAGzTVQ0IAGzUVQ0IAGzVVQ0IAGzWVQ0IAGzXVQ0IAGzZVQ0IAGzaVQ4JAGzbVQ0HAGzcVQ0IAGzdVQ0IAGzeVQ0IAGzfVQ0IAGzgVQ0IAGzhVQ0IAGziVQ0IAGzjVQ0IAGzlVQ0IAGznVQ0IAGzoVQ0IAGzpVQ0IAGzqVQ0IAGzrVQ0IAGzsVQ0IAGztVQ0IAGzuVQ0IAGzvVQ0IAGzwVQ0KAGzxVQ0IAGzyVQ0HAGzzVQ0IAGz1cAwJAGz2VQ0JAGz3VQ0IAGz4VQ0IAGz5VQ0IAGz6VQ0IAGz7VQ0IAGz8VQ0IAGz9VQ0IAGz+VQ0IAGz/VQ4JAG0AVQ4JAG0BVQ4JAG0CVQ4JAG0DVQ4JAG0EVQ4JAG0FVQ4JAG0GVQ4JAG0HVQ4JAG0IVQ4JAG0JVQ4JAG0KVQ4JAG0LVQ4JAG0MVQ4JAG0NVQ8KAG0OVQ4JAG0PVQ4JAG0QVQ4JAG0RVQ4JAG0SVQ4JAG0WVQ8KAG0XVQ4JAG0YVQ4JAG0ZVQ4JAG0aVQ4JAG0bVQ4JAG0dVQ4JAG0eVQ4JAG0fVQ4JAG0gVQ4JAG0iVQ4JAG0kVQ4JAG0lVQ4JAG0mVQ4JAG0nVQ4JAG0oVQ4JAG0pVQ4JAG0qVQ4JAG0rVQ4JAG0sVQ4JAG0tVQ4JAG0uVQ4JAG0vVQ4KAG0wVQ4HAG0xVQ4JAG0yVQ4JAG0zVQ4JAG00VQ4JAG01VQ4JAG02VQ4JAG03VQ4JAG04VQ4JAG05VQ4JAG06VQ4JAG07VQ4JAG08VQ4JAG09VQ4JAG0+VQ4JAG0/VQ4JAG1AVQ4JAG1BVQ4KAG1CVQ4JAG1DVQ4JAG1EVQ4JAG1FVQ4IAG1GVQ4KAG1HVQ4JAG1IVQ4JAG1KVQ4JAG1LVQ4JAG1NVQ4JAG1OVQ4JAG1PVQ4JAG1RVQ4JAG1SVQ4JAG1TVQ4JAG1UVQ4JAG1XVQ8KAG1YVQ8KAG1ZVQ8KAG1aVQ8KAG1bVQ8KAG1cVQ8KAG1eVQ8KAG1fVQ8KAG1gVQ8KAG1hVQ8KAG1iVQ8KAG1jVQ8KAG1kVQ8KAG1lVQ8KAG1mVQ8KAG1nVQ8KAG1oVQ8KAG1pVQ8KAG1qVQ8KAG1sVQ8KAG1tVQ8KAG1uVQ8KAG1vVQ8KAG1wVQ8KAG1xVQ8KAG1yVQ8KAG10VQ8KAG11VQ8KAG12VQ8KAG13VQ8KAG14VQ8KAG15VQ8KAG16VQ8KAG17VQ8KAG18VQ8KAG19VQ8KAG1+VQ8KAG1/VQ8KAG2AVQ8KAG2BVQ8KAG2CVQ8KAG2DVQ8KAG2EVQ8KAG2FVQ8KAG2GVQ8KAG2HVQ8KAG2IVQ8KAG2JVQ8KAG2KVQ8KAG2LVQ8KAG2MVQ8KAG2NVQ8KAG2OVQ8JAG2PVQ8JAG2QVQ8KAG2RVQ8KAG2SVQ8KAG2TVQ8KAG2UVQ8KAG2VVQ8KAG2WVQ8KAG2XVQ8KAG2YVQ8KAG2ZVRAKAG2bVQ8KAG2cVQ8KAG2dVQ8KAG2eVQ8KAG2fVQ8KAG2gVQ8KAG2hVQ8KAG2jVQ8KAG2kVQ8KAG2lVQ8KAG2mVQ8KAG2nVQ8KAG2oVQ8KAG2pVQ8KAG2qVRALAG2rVRALAG2sVRALAG2uVRALAG2vVRALAG2xVRALAG2yVRALAG2zVRALAG20VRALAG21VRALAG23VRALAG24VRALAG25VRALAG26VRALAG27VRALAG28VRALAG29VRALAG2+VRALAG2/VRALAG3AVRALAG3CVRALAG3EVRALAG3FVRALAG3GVRALAG3HVRALAG3IVRALAG3JVRALAG3KVRALAG3LVRALAG3MVRALAG3NVRALAG3PVRALAG3QVRALAG3RVRALAG3SVRALAG3TVRAKAG3UVRALAG3VVRALAG3WVRALAG3XVRALAG3YVRALAG3ZVRALAG3aVRALAG3bVRALAG3cVRALAG3dVRALAG3eVRALAG3fVRALAG3gVRALAG3hVRALAG3iVRALAG3jVRALAG3kVRALAG3lVRALAG3mVRALAG3oVRALAG3pVRALAG3qVRALAG3rVRALAG3sVRALAG3tVRALAG3uVRALAG3vVRALAG3wVRALAG3xVRALAG3yVRALAG3zVRALAG30VRALAG31VRAMAG32VRALAG33VRALAG34VRALAG35VRALAG36VRALAG37VRALAG38VRAMAG39VRAKAG3+VRAMAG4AVRALAG4CVRALAG4DVRELAG4EVRALAG4FVRALAG4HVRALAG4IVRALAG4JVRALAG4KVRALAG4LVRALAG4MVRALAG4NVRALAG4OVRALAG4PVRALAG4QVRALAG4RVRALAG4TVRALAG4UVRALAG4VVRALAG4WVRALAG4XVRALAG4YVREMAG4ZVREMAG4aVRALAG4bVREMAG4cVREMAG4dVREMAG4fVREMAG4gVRELAG4hVREMAG4iVREMAG4jVREMAG4kVREMAG4lVREMAG4mVRELAG4nVREMAG4oVREMAG4pVREMAG4qVREMAG4rVREMAG4sVREMAG4tVREMAG4uVRELAG4vVREMAG4wVREMAG4xVREMAG4yVREMAG4zVREMAG40VREMAG41VRELAG42VRELAG44VREMAG45VREMAG46VREMAG47VREMAG48VREMAG49VREMAG4+VREMAG4/VREMAG5AVREMAG5BVREMAG5DVREMAG5EVREMAG5FVREMAG5GVREMAG5HVREMAG5JVREMAG5KVREMAG5LVREMAG5NVREMAG5OVREMAG5PVREMAG5QVREMAG5RVREMAG5SVREMAG5TVREMAG5UVREMAG5VVRELAG5WVREMAG5XVREMAG5YVREMAG5ZVREMAG5aVREMAG5bVREMAG5cVREMAG5dVREMAG5eVREMAG5fVREMAG5gVREMAG5hVREMAG5iVREMAG5jVREMAG5kVREMAG5lVREMAG5mVREMAG5nVREMAG5oVREMAG5pVREMAG5rVREMAG5uVREMAG5vVREMAG5xVREMAG5yVREMAG5zVREMAG50VRALAG52VREMAG53VREMAG54VREMAG55VREMAG58VREMAG5+VREMAG5/VREMAG6AVREMAG6CVREMAG6DVREMAG6FVREMAG6GVREMAG6IVREMAG6JVREMAG6LVREMAG6MVREMAG6NVRINAG6OVRINAG6PVRINAG6QVRINAG6SVRINAG6TVRINAG6UVRINAG6WVRINAG6XVRINAG6YVRINAG6ZVRINAG6aVRIMAG6bVRINAG6cVRINAG6dVRINAG6eVRIMAG6fVRINAG6gVRIMAG6hVRINAG6iVRINAG6jVRINAG6kVRINAG6lVRINAG6mVRINAG6nVRINAG6qVRINAG6rVRINAG6uVRINAG6vVRINAG6wVRINAG6xVRINAG6yVRIMAG6zVRINAG60VRINAG61VRINAG62VRINAG63VRINAG64VRINAG65VRINAG66VRINAG67VRINAG68VRINAG69VRINAG6+VRIMAG6/VRINAG7AVRINAG7BVRIMAG7CVRINAG7DVRINAG7EVRINAG7FVRINAG7GVRINAG7HVRINAG7IVRINAG7JVRINAG7KVRINAG7LVREMAG7MVRMNAG7NVRINAG7OVRIOAG7PVRINAG7QVRINAG7RVRIMAG7SVRINAG7TVRINAG7UVRINAG7VVRIPAG7WVRINAG7XVRINAG7YVRINAG7ZVRINAG7aVRMNAG7bVRINAG7cVRINAG7dVRINAG7eVREMAG7fVRINAG7gVRINAG7hVRINAG7iVRINAG7kVRINAG7lVRINAG7mVRINAG7oVRINAG7pVRINAG7rVRMNAG7sVRMOAG7tVRMNAG7uVRMOAG7vVRMOAG7xVRMOAG7yVRMOAG70VRMOAG71VRMOAG72VRMNAG73VRMOAG74VRMOAG75VRMOAG76VRMOAG77VRMOAG78VRMOAG79VRMOAG7+VRMOAG7/VRMOAG8AVRMPAG8BVRMOAG8CVRMOAG8DVRMOAG8EVRMOAG8FVRMOAG8GVRMOAG8HVRMOAG8IVRMOAG8JVRMOAG8KVRMOAG8LVRQOAG8MVRMOAG8NVRMOAG8OVRMOAG8PVRMOAG8RVRMOAG8SVRMPAG8TVRINAG8UVRMOAG8VVRMOAG8WVRMOAG8XVRMOAG8YVRMOAG8ZVRMOAG8aVRMOAG8cVRMOAG8eVRMOAG8fVRMOAG8gVRMNAG8hVRMOAG8iVRMOAG8jVRMNAG8kVRMOAG8lVRMOAG8mVRMPAG8nVRMOAG8pVRMOAG8qVRMOAG8rVRMOAG8sVRMOAG8tVRMNAG8uVRMOAG8vVRMOAG8wVRMOAG8xVRMOAG8yVRMOAG8zVRMOAG80VRMOAG81VRMOAG82VRMOAG83VRMNAG84VRMOAG85VRMOAG86VRMOAG87VRMOAG88VRMOAG89VRQPAG8+VRMOAG8/VRMPAG9AVRMOAG9BVRMPAG9DVRMNAG9EVRMOAG9FVRMOAG9GVRMOAG9HVRMOAG9LVRMOAG9NVRMOAG9OVRQOAG9PVRQPAG9QVRQPAG9RVRQPAG9SVRQOAG9TVRQPAG9UVRQPAG9VVRQPAG9WVRQPAG9XVRQPAG9YVRQPAG9aVRQQAG9bVRQPAG9cVRQPAG9dVRQPAG9eVRQQAG9fVRQPAG9gVRQPAG9hVRQPAG9iVRQOAG9jVRQPAG9kVRQPAG9mVRQPAG9nVRQPAG9pVRQOAG9qVRQPAG9rVRQPAG9sVRQPAG9tVRQPAG9uVRQPAG9vVRQPAG9wVRQPAG9yVRQPAG9zVRQOAG90VRQOAG92VRQPAG93VRQPAG94VRQPAG95VRQPAG96VRQPAG97VRQPAG98VRQPAG99VRQPAG9+VRQPAG9/VRQPAG+AVRYRAG+BVRQPAG+CVRQPAG+EVRQPAG+FVRQPAG+GVRQPAG+HVRQPAG+IVRQPAG+JVRQOAG+KVRQPAG+LVRQPAG+MVRQPAG+NVRQPAG+OVRQPAG+QVRQPAG+RVRQPAG+SVRQPAG+TVRQPAG+UVRQPAG+VVRQNAG+WVRQPAG+XVRQPAG+cVRQPAG+dVRQPAG+eVRUQAG+fVRUQAG+gVRUQAG+hVRUQAG+iVRUQAG+jVRUQAG+kVRUQAG+lVRUQAG+mVRUQAG+nVRUQAG+oVRUQAG+pVRURAG+qVRUQAG+rVRUPAG+sVRUQAG+tVRUQAG+uVRUQAG+vVRUQAG+wVRUQAG+xVRUQAG+yVRUQAG+zVRUPAG+0VRUQAG+1VRUQAG+2VRUQAG+4VRUQAG+5VRUQAG+6VRUQAG+7VRUPAG+8VRUQAG+9VRUQAG++VRUPAG+/VRUQAG/AVRUQAG/BVRUQAG/CVRUQAG/DVRUQAG/EVRUOAG/GVRUPAG/HVRUQAG/IVRUPAG/JVRUQAG/KVRUQAG/LVRUQAG/MVRURAG/NVRUPAG/OVRUPAG/PVRUQAG/RVRUQAG/SVRUQAG/TVRUQAG/UVRYRAG/VVRYRAG/YVRYRAG/ZVRYRAG/aVRYRAG/bVRYQAG/cVRYRAG/dVRYRAG/eVRYRAG/fVRYRAG/gVRYRAG/hVRYRAG/iVRYRAG/jVRYRAG/kVRYRAG/mVRYRAG/nVRYRAG/oVRYQAG/pVRYQAG/rVRYRAG/sVRYRAG/tVRYQAG/uVRYRAG/vVRYRAG/wVRYRAG/xVRYRAG/yVRYRAG/zVRgTAG/0VRYRAG/1VRYRAG/2VRYRAG/3VRYSAG/4VRYQAG/6VRcSAG/7VRcRAG/8VRcSAG/+VRcSAG//VRcRAHAAVRcSAHABVRcRAHADVRcSAHAEVRcQAHAFVRcSAHAGVRcSAHAHVRcRAHAJVRcSAHAKVRcSAHALVRcSAHAMVRcSAHANVRcSAHAOVRcRAHAPVRcSAHARVRcSAHAUVRcSAHAVVRgTAHAWVRgTAHAXVRgTAHAYVRgTAHAZVRgTAHAaVRgTAHAbVRgTAHAcVRgTAHAdVRgTAHAeVRgRAHAfVRgTAHAgVRgTAHAhVRgRAHAiVRgSAHAjVRgTAHAkVRgTAHAmVRgSAHAnVRgTAHAoVRgTAHApVRgTAHAqVRgUAHArVRgTAHAsVRgTAHAvVRkTAHAwVRkUAHAxVRkUAHAyVRkUAHAzVRkTAHA0VRkUAHA1VRkUAHA3VRkUAHA4VRkUAHA5VRkUAHA6VRkUAHA7VRkUAHA8VRkUAHA+VRkUAHA/VRkUAHBAVRkUAHBBVRkUAHBCVRoUAHBDVRoVAHBEVRoVAHBFVRoVAHBGVRoUAHBIVRoVAHBJVRoVAHBKVRoVAHBLVRoVAHBMVRoUAHBNVRoVAHBPVRoVAHBQVRoVAHBRVRsWAHBSVRsWAHBUVRsWAHBVVRsVAHBWVRsWAHBXVRsWAHBYVRsWAHBaVRwXAHBbVRwXAHBcVRwXAHBdVR0YAHBeVR0YAHBfVR0YAHBgVR0YAHBhVR0XAHBiVR4ZAHBjVR4ZAHBkVR8aAHBlVR8bAHBmVR8aAHBnVSAbAHBoVSAbAHBpVSQfAHBqVSUgAHBrVggEAHBsVggEAHBtVgkFAHBuVgoGAHBvVgoGAHBwVgoGAHBxVgoGAHB0VgsHAHB1VgsHAHB2VgsHAHB3VgsHAHB4VgsHAHB5VgsHAHB6VgsHAHB8VgsHAHB9VgsHAHB+VgsHAHB/VgsHAHCAVgsHAHCBVgwIAHCCVgwIAHCDVgwIAHCEVgwIAHCFVgwIAHCGVgwIAHCJVgwIAHCKVgwIAHCLVgwIAHCNVgwIAHCOVgwIAHCPVgwIAHCRVgwIAHCSVgwIAHCTVgwIAHCUVgwIAHCVVgwIAHCWVgwIAHCYVgwIAHCZVgwIAHCaVgwIAHCcVgwIAHCdVgwIAHCfVg0JAHCgVg0JAHChVg0JAHCjVg0JAHCkVg0JAHClVg0JAHCmVg0JAHCnVg0JAHCpVg0JAHCrVg0JAHCsVg0IAHCtVg0JAHCuVg0JAHCvVg0JAHCwVg0JAHCxVg0JAHCzVg0JAHC0Vg0JAHC1Vg0JAHC3Vg0JAHC4Vg0JAHC5Vg0JAHC6Vg0JAHC7Vg0JAHC8Vg0JAHC9Vg0JAHC+Vg0JAHDAVg0JAHDBVg0JAHDCVg0JAHDDVg0JAHDEVg4KAHDFVg4KAHDGVg4KAHDHVg4KAHDIVg4KAHDKVg4KAHDLVg4KAHDMVg4KAHDNVg4KAHDOVg4IAHDPVg4KAHDQVg4KAHDRVg4KAHDSVg4KAHDTVg4KAHDUVg4KAHDVVg4KAHDWVg4KAHDXVg4KAHDYVg4KAHDZVg4KAHDaVg4KAHDbVg4KAHDcVg4KAHDdVg4KAHDeVg4KAHDfVg4KAHDgVg4KAHDhVg4KAHDiVg4KAHDkVg4KAHDmVg4KAHDnVg4KAHDoVg4KAHDpVg4KAHDrVg4KAHDsVg4KAHDtVg4KAHDvVg8LAHDwVg8LAHDxVg8LAHDzVg8LAHD0Vg8LAHD1Vg8KAHD2Vg8KAHD3Vg8LAHD4Vg8LAHD5Vg8LAHD6Vg8LAHD7Vg8KAHD8Vg8LAHD9Vg8LAHD+Vg8LAHD/Vg8LAHEAVg8LAHECVg8LAHEEVg8LAHEFVg8LAHEGVg8LAHEJVg8LAHEKVg8LAHELVg8LAHEMVg8LAHENVg8LAHEOVg8LAHEPVg8LAHEQVg8LAHETVg8LAHEUVhALAHEVVg8LAHEWVg8LAHEXVg8LAHEYVg8LAHEZVhAMAHEaVhAMAHEbVhAMAHEcVhAMAHEdVhAMAHEeVhAMAHEfVhAMAHEgVhAMAHEhVhAMAHEiVhAMAHEjVhAMAHElVhAMAHEmVhAMAHEoVhAMAHEpVhAMAHErVhALAHEsVhAMAHEuVhAMAHEvVhAMAHEwVhAMAHExVhAMAHEyVhAMAHEzVhAMAHE0VhAMAHE1VhAMAHE2VhAMAHE6VhAMAHE7VhAMAHE8VhAMAHE+VhAMAHE/VhAMAHFAVhAMAHFBVhENAHFCVhENAHFDVhENAHFEVhENAHFFVhENAHFGVhENAHFHVhENAHFJVhENAHFKVhENAHFLVhENAHFMVhENAHFNVhENAHFOVhENAHFPVhENAHFQVhEMAHFRVhEMAHFSVhENAHFTVhENAHFUVhENAHFVVhEOAHFWVhENAHFXVhENAHFYVhENAHFZVhENAHFaVhEMAHFcVhENAHFdVhENAHFeVhENAHFfVhENAHFgVhENAHFhVhEMAHFiVhENAHFjVhENAHFkVhENAHFlVhENAHFmVhENAHFnVhENAHFoVhENAHFpVhENAHFqVhENAHFrVhENAHFsVhENAHFuVhAMAHFwVhENAHFxVhEMAHFyVhENAHFzVhENAHF1VhENAHF2VhENAHF3VhENAHF4VhENAHF6VhENAHF7VhIOAHF8VhIOAHF9VhIOAHF+VhIOAHGAVhIOAHGBVhIOAHGCVhIOAHGEVhIOAHGFVhIOAHGGVhIOAHGHVhIOAHGIVhIOAHGJVhIOAHGKVhIOAHGMVhIOAHGOVhIOAHGPVhIOAHGQVhIOAHGRVhIOAHGSVhIOAHGUVhIOAHGVVhIOAHGWVhIOAHGXVhIOAHGYVhIOAHGZVhIOAHGaVhMOAHGbVhMPAHGcVhMPAHGdVhMPAHGeVhMPAHGfVhMPAHGgVhMPAHGhVhMPAHGiVhMOAHGjVhMPAHGkVhMPAHGlVhMOAHGnVhMPAHGoVhMPAHGpVhMPAHGqVhMPAHGsVhMOAHGtVhMPAHGvVhMPAHGwVhMPAHGxVhMPAHGyVhMPAHGzVhMPAHG0VhMPAHG1VhMPAHG3VhQQAHG4VhQQAHG5VhQQAHG6VhQQAHG8VhQPAHG9VhQRAHG+VhQQAHG/VhQPAHHAVhQQAHHBVhQOAHHCVhQQAHHDVhQQAHHEVhQQAHHFVhQQAHHGVhQQAHHHVhQQAHHIVhQQAHHJVhQQAHHKVhQQAHHLVhQQAHHOVhQQAHHPVhQQAHHQVhQQAHHRVhQQAHHSVhQQAHHUVhQQAHHVVhQQAHHWVhQQAHHXVhQQAHHYVhQQAHHZVhQQAHHaVhQQAHHbVhQQAHHcVhQQAHHdVhQQAHHfVhUQAHHgVhUQAHHhVhURAHHiVhURAHHkVhUQAHHlVhURAHHmVhURAHHnVhUQAHHoVhURAHHrVhURAHHsVhURAHHtVhURAHHuVhURAHHwVhURAHHxVhURAHHyVhURAHH0VhURAHH1VhUQAHH2VhURAHH4VhYSAHH5VhYSAHH7VhYSAHH8VhYSAHH9VhYSAHH+VhYSAHH/VhYSAHIAVhYSAHIBVhYSAHICVhYTAHIDVhYSAHIFVhcTAHIGVhcTAHIHVhcSAHIJVhcTAHIKVhcTAHIMVhcSAHINVhcTAHIOVhcTAHIPVhgUAHIQVhgUAHITVhgUAHIUVhgUAHIVVhcTAHIWVhgUAHIXVhgSAHIZVhkVAHIaVhkVAHIbVhkVAHIdVhoVAHIeVhoWAHIfVhoVAHIiVhsXAHIjVhwYAHIkVh0YAHIlVh0ZAHImVh0ZAHInViAcAHIoViEeAHIpViUhAHIqVwgEAHIrVwgEAHIsVwwIAHItVwwIAHIuVw0JAHIwVw0JAHIxVw4KAHIyVxAMAHI1VxYRAHI2WAgEAHI3WAoGAHI4WAwIAHI5WA4KAHI6WBEMAHI7WQgEAHI8WQ0JAHI9WQ8LAHI+WRIOAHI/WggEAHJAWgwIAHJBWg0JAHJCWg4KAHJEWhIOAHJGWhURAHJHWwgEAHJIWwwIAHJJWw0JAHJKWw0JAHJLWxAMAHJMWxAMAHJNWxAMAHJPWxENAHJQWxENAHJSWxENAHJTWxIOAHJVWxMPAHJWWxMPAHJXWxMPAHJYWxcTAHJZXAgEAHJaXBAMAHJbXQgEAHJcXQgEAHJdXQoGAHJeXQoGAHJfXQoGAHJgXQsHAHJhXQsHAHJiXQsHAHJjXQsHAHJmXQwIAHJnXQwIAHJpXQwIAHJqXQwIAHJsXQwIAHJuXQ0JAHJvXQ0JAHJwXQ0JAHJyXQ0JAHJzXQ0JAHJ0XQ0JAHJ1XQ0JAHJ2XQ4KAHJ3XQ4KAHJ4XQ4KAHJ5XQ4KAHJ6XQ4KAHJ7XQ8LAHJ8XQ8LAHJ9XQ8LAHJ+XQ8LAHJ/XQ8LAHKAXRAMAHKBXQ8LAHKCXRAMAHKEXRAMAHKFXRAMAHKGXRAMAHKHXRAMAHKIXRAMAHKJXRAMAHKKXRAMAHKLXRAMAHKMXRENAHKNXREMAHKOXRENAHKPXRENAHKQXRENAHKRXRENAHKSXRIOAHKTXRIOAHKUXRIOAHKVXRIOAHKWXRIOAHKXXRIOAHKYXRMPAHKaXRMPAHKbXRMPAHKdXRQQAHKeXRQQAHKfXRQQAHKgXRURAHKhXRcSAHKiXRcTAHKjXRcTAHKkXRcTAHKlXRcTAHKmXRcTAHKnXRgUAHKoXRgUAHKpXRoVAHKqXRwZAHKsXggEAHKtXggDAHKuXgkFAHKvXgoFAHKwXgoFAHKxXgsGAHKyXgsGAHK0XgsGAHK1XgsGAHK2XgsHAHK3XgsGAHK4XgsGAHK5XgwHAHK6XgwHAHK9XgwHAHK+XgwHAHK/XgwHAHLAXgwIAHLBXgwHAHLCXgwHAHLDXgwHAHLEXgwHAHLFXgwHAHLGXgwHAHLIXgwHAHLJXg0IAHLKXg0JAHLLXg0IAHLMXg0IAHLNXg0IAHLOXg0IAHLQXg0IAHLRXg0IAHLSXg0IAHLUXg0IAHLWXg0IAHLXXg0IAHLYXg0IAHLZXg0IAHLaXg0IAHLbXg0IAHLcXg0IAHLeXg0IAHLfXg4JAHLgXg4JAHLhXg4JAHLiXg4JAHLjXg4JAHLkXg4JAHLmXg4JAHLoXg4JAHLpXg4JAHLqXg4JAHLrXg4JAHLsXg4JAHLtXg4JAHLuXg4JAHLvXg4JAHLwXg4JAHLxXg4JAHLyXg4JAHLzXg8KAHL0Xg8KAHL2Xg8KAHL3Xg8KAHL4Xg8KAHL5Xg8KAHL6Xg8KAHL7Xg8KAHL8Xg8KAHL9Xg8KAHL+Xg8KAHL/Xg8JAHMAXg8KAHMBXg8KAHMCXg8KAHMDXg8KAHMEXhALAHMHXhALAHMIXhALAHMKXhALAHMLXhAMAHMMXhAMAHMOXhALAHMPXhALAHMQXhAKAHMRXhALAHMSXhAMAHMTXhALAHMVXhALAHMWXhALAHMXXhALAHMYXhALAHMZXhALAHMbXhALAHMcXhALAHMdXhALAHMeXhALAHMfXhALAHMhXhALAHMiXhEMAHMjXhEMAHMkXhEMAHMlXhEMAHMmXhEMAHMnXhELAHMoXhEMAHMpXhEMAHMqXhALAHMrXhALAHMsXhEMAHMtXhEMAHMuXhENAHMvXhEMAHMwXhEMAHMxXhEMAHMyXhEMAHMzXhEMAHM0XhEMAHM1XhEMAHM2XhEMAHM3XhENAHM4XhEMAHM5XhEMAHM6XhINAHM7XhINAHM8XhINAHM+XhIMAHM/XhINAHNAXhIMAHNBXhENAHNCXhINAHNDXhIOAHNEXhMOAHNFXhINAHNIXhINAHNJXhINAHNKXhINAHNMXhMOAHNNXhMOAHNOXhMPAHNPXhMNAHNQXhMOAHNRXhMOAHNSXhMOAHNXXhQPAHNYXhQPAHNZXhQOAHNaXhQOAHNbXhQPAHNdXhQPAHNeXhQPAHNfXhQPAHNgXhQPAHNhXhQOAHNiXhQPAHNjXhQQAHNlXhUQAHNmXhUPAHNnXhUQAHNoXhUQAHNpXhUQAHNqXhUQAHNrXhUQAHNsXhUQAHNtXhUQAHNuXhYRAHNvXhYRAHNwXhYRAHNxXhYRAHNyXhYQAHNzXhYRAHN0XhYQAHN1XhcSAHN2XhcSAHN3XhcRAHN4XhcTAHN6XhgTAHN7XhgUAHN8XhkUAHN9XhkUAHN+XhoUAHN/XhoWAHOAXhsWAHOBXhwWAHOCXhwWAHODXhwXAHOEXwgFAHOFXwwJAHOGXw0KAHOHXw4LAHOIXw4LAHOJYAgFAHOKYAkFAHOLYAcEAHOMYAkFAHOOYAoGAHOPYAoGAHORYAoGAHOSYAsHAHOTYAsHAHOUYAsHAHOVYAsHAHOWYAsHAHOXYAsHAHOYYAsHAHObYAsHAHOcYAwIAHOdYAwIAHOeYAwIAHOfYAwIAHOgYAwIAHOhYAwIAHOiYAwIAHOkYAwIAHOlYAwIAHOmYAwIAHOnYAwIAHOoYAwIAHOpYAwIAHOqYAwIAHOrYAwIAHOsYAwIAHOtYAwIAHOuYAwIAHOvYAwIAHOwYAwIAHOyYA0JAHOzYA0JAHO0YA0JAHO1YA0JAHO2YA0JAHO3YA0JAHO4YA0JAHO5YA0JAHO6YA0KAHO7YA0JAHO8YA0KAHO9YA0JAHO+YA0JAHO/YA0JAHPAYA0JAHPCYA0JAHPDYA0JAHPEYA0JAHPFYA0JAHPGYA0JAHPHYA0JAHPIYA0JAHPJYA0JAHPKYA0JAHPLYA0JAHPMYA0JAHPNYA0JAHPOYA0JAHPPYA0JAHPQYA0JAHPRYA0JAHPSYA4KAHPTYA4KAHPUYA4KAHPVYA4KAHPWYA4KAHPXYA4KAHPYYA4KAHPZYA4KAHPaYA4KAHPbYA4KAHPcYA4KAHPdYA4KAHPeYA4KAHPgYA4KAHPhYA4KAHPiYA4KAHPjYA4KAHPkYA4KAHPlYA4KAHPmYA4KAHPnYA4KAHPoYA4KAHPpYA4KAHPqYA4KAHPrYA4KAHPtYA4KAHPuYA4KAHPvYA4KAHPxYA4KAHPyYA4KAHPzYA8LAHP0YA8LAHP1YA8LAHP2YA8LAHP3YBAMAHP4YA8LAHP5YA8KAHP6YA8LAHP7YA8LAHP8YA8LAHP9YA8KAHP+YA8LAHP/YA8LAHQAYA8LAHQBYA8LAHQCYA8LAHQDYA8LAHQEYA8LAHQFYA8LAHQGYA8LAHQHYA8LAHQIYA8LAHQJYA4LAHQKYA8KAHQLYA8LAHQMYA8LAHQNYA8LAHQPYA8LAHQQYA8LAHQRYA8LAHQSYA8LAHQUYBAMAHQVYBAMAHQWYBAMAHQXYBAMAHQZYBAMAHQaYBAMAHQbYBAMAHQcYBAMAHQdYBAMAHQeYBENAHQfYBAMAHQgYBAMAHQhYBAMAHQiYBAMAHQjYBAMAHQkYBAKAHQlYBAMAHQmYBAMAHQoYBAMAHQpYBAMAHQqYBAMAHQrYBAMAHQsYBAMAHQtYBAMAHQuYBAMAHQvYBAMAHQwYBAMAHQxYBAMAHQyYBAMAHQzYBAMAHQ0YBAMAHQ1YBAMAHQ2YBAMAHQ3YBALAHQ4YBAMAHQ5YBAMAHQ6YBAMAHQ8YBAMAHQ/YBENAHRAYBENAHRBYBENAHRCYBENAHRDYBENAHREYBENAHRFYBENAHRGYBENAHRHYBENAHRIYBENAHRJYBENAHRKYBENAHRLYBENAHRMYBENAHRNYBENAHROYBENAHRPYBENAHRQYBENAHRRYBENAHRSYBENAHRTYBENAHRUYBENAHRVYBENAHRWYBENAHRXYBENAHRZYBENAHRaYBENAHRbYBEMAHRcYBENAHRdYBENAHReYBENAHRfYBENAHRgYBIOAHRhYBIOAHRiYBIOAHRjYBIOAHRkYBIOAHRlYBINAHRnYBIOAHRoYBIOAHRpYBIPAHRqYBIOAHRrYBIOAHRsYBIPAHRtYBIOAHRuYBIOAHRvYBIMAHRwYBINAHRxYBIOAHRyYBIOAHRzYBINAHR0YBIOAHR1YBINAHR2YBIOAHR3YBIOAHR5YBMOAHR6YBMPAHR8YBMPAHR9YBMPAHR+YBMPAHR/YBMQAHSAYBMPAHSBYBMPAHSCYBMPAHSDYBMOAHSFYBMPAHSGYBMPAHSHYBMPAHSIYBMOAHSJYBMOAHSKYBMPAHSLYBMPAHSMYBMPAHSNYBQOAHSOYBMPAHSQYBQRAHSSYBQQAHSUYBQQAHSVYBQQAHSXYBQRAHSYYBQQAHSZYBQQAHSaYBQQAHSbYBQRAHScYBQPAHSdYBQQAHSeYBQQAHSfYBQQAHSgYBQQAHShYBQPAHSiYBUQAHSjYBQQAHSkYBQQAHSlYBUQAHSmYBURAHSnYBUSAHSoYBURAHSpYBURAHSqYBURAHSrYBURAHStYBUQAHSvYBURAHSwYBURAHSxYBURAHSyYBUQAHS0YBURAHS1YBYRAHS2YBYSAHS3YBYTAHS4YBYSAHS5YBYSAHS6YBYUAHS7YBYSAHS9YBYTAHS+YBYSAHS/YBYSAHTAYBYSAHTBYBYRAHTCYBYRAHTDYBcTAHTFYBcTAHTGYBcTAHTIYBcTAHTKYBcSAHTLYBcSAHTMYBgUAHTPYBgUAHTQYBgUAHTSYBgUAHTTYBkVAHTUYBkVAHTVYBkWAHTWYBkVAHTXYBoWAHTYYBoVAHTZYBoWAHTaYBsXAHTbYBwYAHTcYQgFAHTdYQsIAHTeYQ0KAHTfYQ0KAHTgYQ4LAHThYRANAHTiYRMQAHTjYRYTAHTkYRkWAHTlYRsYAHTmYggEAHTnYgoHAHToYgsHAHTpYgsHAHTsYgwIAHTuYgwIAHTvYgwIAHTwYgwIAHTxYgwJAHTyYgwIAHT0Yg0JAHT1Yg0JAHT2Yg4KAHT3Yg4KAHT4Yg4LAHT7Yg8LAHT9YhAMAHT+YhAMAHT/YhAMAHUAYhAMAHUBYhAMAHUCYhENAHUDYhENAHUEYhENAHUFYhENAHUHYhIOAHUIYhIOAHULYhMPAHUMYhMPAHUNYhMOAHUOYhMPAHUPYhQQAHUQYhQQAHURYhQQAHUSYhQQAHUTYhURAHUUYhURAHUVYhURAHUWYhYSAHUXYhgUAHUYYwgFAHUZYwsIAHUaYwwJAHUcYw4LAHUdYxANAHUeYxANAHUfZAgFAHUhZA0KAHUiZA4LAHUjZA4LAHUlZA8MAHUmZA8MAHUoZQgFAHUpZQgFAHUqZQkGAHUrZQoHAHUsZQoHAHUtZQwJAHUuZQwJAHUvZQ8MAHUwZggFAHUxZggFAHUyZggFAHUzZggFAHU0ZggFAHU1ZggFAHU3ZgoHAHU4ZgoHAHU5ZgoHAHU6ZgoHAHU7ZgsIAHU8ZgoHAHU9ZgsIAHU+ZgsIAHU/ZgsIAHVAZgsIAHVCZgsIAHVEZgsIAHVFZgsIAHVGZgwJAHVHZgwJAHVIZgwJAHVJZgwJAHVKZgwJAHVLZgwJAHVMZgwJAHVNZgwJAHVOZgwJAHVPZgwJAHVRZgwJAHVTZgwJAHVUZg0KAHVVZg0KAHVZZg0KAHVaZg0KAHVbZg0KAHVcZg0KAHVdZg0KAHVfZg0KAHVgag0KAHViZg4KAHVjZg4LAHVkZg4LAHVlZg4LAHVmZg4LAHVnZg4LAHVpZg4LAHVqZg8MAHVrZg8MAHVsZg8MAHVtZg8MAHVuZg8MAHVvZg8MAHVwZg4LAHVyZg8MAHVzZg8MAHV0Zg8MAHV2ZhANAHV3ZhANAHV4ZhANAHV5ZhANAHV6ZhANAHV9ZhEOAHV+ZhIPAHV/ZhIPAHWAZhMQAHWCZhMQAHWDZhQRAHWEZhQRAHWGZhYTAHWHZhYTAHWJZhkUAHWKZhkWAHWLZwgFAHWMZwsIAHWNZw0KAHWOZw8MAHWPZw8MAHWQZxEOAHWRZxEOAHWSaAgFAHWUaAoHAHWVaAoHAHWWaAoHAHWXaAoHAHWYaAsIAHWZaAsIAHWaaAsIAHWdaAsIAHWeaAsIAHWfaAsIAHWgaAsIAHWhaAwIAHWiaAwJAHWjaAwJAHWkaAwJAHWlaAwJAHWnaAwJAHWqaAwJAHWraAwJAHWsaAwJAHWuaAwJAHWvaAwJAHWwaA0KAHWxaA0KAHWyaA0KAHWzaA0KAHW0aA0KAHW1aA0LAHW2aA0KAHW4aA0KAHW5aA0KAHW6aAwJAHW7aA0KAHW8aA0KAHW9aA0KAHW+aA0KAHW/aA0KAHXAaA0KAHXBaA0KAHXCaA0KAHXDaA0KAHXEaA0KAHXFaA0KAHXHaA0KAHXIaA0KAHXJaA0KAHXKaA4LAHXLaA4LAHXMaA4LAHXNaA4LAHXOaA4LAHXPaA4LAHXQaA4LAHXRaA4LAHXSaA4LAHXUaA4LAHXVaA4LAHXWaA4LAHXXaA8MAHXYaA8MAHXZaA8MAHXaaA8MAHXbaA8MAHXcaA8MAHXdaA8MAHXeaA8MAHXfaA8MAHXgaA8MAHXhaA8MAHXiaA8MAHXjaA8MAHXkaA8MAHXmaA8MAHXnaA8MAHXoaA8MAHXpaA8MAHXqaA8MAHXraA8MAHXtaBANAHXvaBANAHXwaBANAHXxaBANAHXyaBANAHXzaBANAHX0aBANAHX1aBANAHX2aBANAHX3aBANAHX4aBANAHX5aBANAHX6aBANAHX7aBANAHX8aBANAHX9aBANAHX+aBAMAHX/aBANAHYAaBANAHYBaBANAHYCaBANAHYDaBANAHYFaBANAHYHaBEOAHYIaBEOAHYJaBEOAHYKaBEOAHYLaBEOAHYMaBEOAHYNaBEOAHYPaBENAHYQaBENAHYRaBENAHYTaBEOAHYUaBENAHYVaBEOAHYWaBEOAHYXaBEOAHYYaBEOAHYZaBIOAHYaaBIPAHYbaBIPAHYcaBIPAHYdaBIPAHYeaBIPAHYfaBEOAHYgaBIPAHYhaBIPAHYiaBIPAHYjaBIOAHYkaBIPAHYlaBIOAHYmaBIOAHYnaBEOAHYoaBIPAHYpaBIOAHYqaBIPAHYraBIPAHYsaBMQAHYtaBMQAHYvaBMQAHYwaBMQAHYxaBMQAHYyaBMQAHYzaBMQAHY0aBMQAHY1aBMQAHY4aBMQAHY6aBMQAHY7aBMQAHY8aBMPAHY9aBMQAHY+aBMQAHY/aBMQAHZAaBQQAHZCaBQRAHZDaBQQAHZGaBQRAHZHaBQRAHZIaBQRAHZJaBQRAHZMaBQRAHZNaBQRAHZOaBQRAHZPaBUSAHZQaBUSAHZRaBUSAHZSaBUSAHZTaBUSAHZUaBUSAHZWaBUSAHZXaBUSAHZYaBURAHZZaBUSAHZaaBUSAHZcaBUSAHZeaBUSAHZfaBYTAHZgaBYTAHZhaBYTAHZiaBcTAHZjaBYTAHZkaBcSAHZlaBcUAHZmaBcUAHZnaBgVAHZoaBgVAHZpaBgVAHZqaBgVAHZraBgVAHZsaBkWAHZtaBkWAHZuaBkVAHZvaBoXAHZwaBoXAHZxaBsYAHZyaBsYAHZzaB0aAHZ0aB8cAHZ1aCEeAHZ2aQgFAHZ4aQwJAHZ5aQwJAHZ6aQwJAHZ7aQ8MAHZ8aQ8MAHZ9aggFAHZ+agkGAHZ/agkGAHaAagoHAHaBagoHAHaCagoHAHaDagoHAHaEagsIAHaGagwJAHaHagwJAHaIagwJAHaJag0LAHaKag0KAHaLag0KAHaOag4LAHaPag4LAHaQag4LAHaRag4LAHaSag8MAHaTag8MAHaVag8MAHaWag8MAHaZahANAHaaahIPAHabahIPAHacahIPAHadahIPAHaeahIPAHahahMQAHakahQRAHalahQRAHamahUSAHaqahcUAHarahcUAHatahoWAHauawgFAHavawsIAHawaw0KAHaxaw0KAHayaw4LAHa0aw8MAHa1axANAHa3axEOAHa4axEOAHa5axEOAHa6axIPAHa7axMQAHa9axUSAHa+axcUAHa/bAgFAHbCbAsIAHbDbAwJAHbEbAwJAHbFbAwJAHbGbAwJAHbIbAwJAHbJbA0KAHbKbA0KAHbMbA0KAHbNbA0KAHbObA0KAHbPbA0KAHbQbA0KAHbRbA0KAHbSbA4LAHbTbA4LAHbUbA4LAHbWbA4LAHbXbA4LAHbYbA4LAHbZbA8MAHbabA8MAHbbbA4LAHbcbA8MAHbdbBANAHbebBANAHbfbBANAHbhbBEOAHbjbBEOAHbkbBIPAHblbBMQAHbmbBMQAHbnbBMQAHbpbBQRAHbqbBQRAHbsbBUSAHbtbBcUAHbubQgFAHbvbQoHAHbwbQsIAHbxbQsIAHbybQsIAHbzbQsIAHb0bQsIAHb1bQsIAHb3bQwJAHb4bQwJAHb5bQwJAHb6bQwJAHb7bQwJAHb8bQwJAHb+bQwJAHcBbQwJAHcDbQwJAHcEbQwJAHcFbQwJAHcHbQwJAHcIbQwJAHcJbQwJAHcKbQwJAHcLbQwJAHcMbQwJAHcNbQwJAHcObQ0KAHcPbQ0KAHcQbQ0KAHcRbQ0KAHcSbQ0KAHcTbQ0KAHcVbQ0KAHcZbQ0KAHcabQ0KAHcbbQ0KAHcdbQ0KAHcebQ0KAHcfbQ0KAHcgbQ0KAHcibQ0KAHcjbQ0KAHckbQ0KAHclbQ0LAHcmbQ0LAHcnbQ0KAHcobQ0JAHcpbQ0KAHcrbQ0KAHctbQ4LAHcvbQ4LAHcxbQ4LAHcybQ4LAHczbQ4LAHc0bQ4LAHc1bQ4LAHc2bQ4LAHc3bQ4LAHc4bQ4LAHc5bQ4LAHc6bQ4LAHc7bQ4LAHc8bQ4LAHc9bQ4LAHc+bQ4LAHdAbQ8LAHdBbQ4LAHdDbQ8MAHdEbQ8MAHdFbQ8MAHdGbQ8MAHdHbQ8MAHdKbQ8MAHdLbQ8MAHdMbQ8MAHdNbQ8MAHdObQ8MAHdPbQ8MAHdQbQ8MAHdRbQ8MAHdSbRANAHdUbRANAHdVbRANAHdWbRANAHdYbRANAHdZbRANAHdabRANAHdbbRANAHdcbRANAHdebRANAHdfbRANAHdgbRANAHdhbRENAHdibRANAHdjbRANAHdlbRANAHdmbRANAHdnbRANAHdobRANAHdpbRANAHdqbRANAHdrbRANAHdsbRANAHdtbRANAHdubREOAHdvbREOAHdybREOAHd3bRENAHd4bREOAHd5bRENAHd6bREOAHd7bREOAHd8bREOAHd9bREOAHd+bREOAHd/bREOAHeAbREOAHeBbREOAHeCbREOAHeDbREOAHeEbRENAHeFbREOAHeHbRIOAHeIbRIPAHeJbRIPAHeLbRIPAHeMbRIPAHeNbRIOAHeObRIPAHePbRIPAHeRbRIPAHeSbRIPAHeTbRIPAHeVbRMQAHeXbRMQAHeYbRMQAHeZbRMPAHeabRMQAHebbRMQAHecbRMQAHedbRMPAHeebRMQAHefbRMQAHegbRMQAHehbRMQAHeibRMPAHejbRMQAHelbRQQAHenbRQRAHeobRQRAHepbRQRAHeqbRQRAHerbRQRAHesbRQRAHetbRQRAHevbRQRAHewbRQQAHexbRQPAHeybRQRAHezbRQRAHe0bRQRAHe1bRQRAHe2bRQRAHe3bRQRAHe5bRUSAHe6bRUSAHe7bRUSAHe8bRUSAHe9bRUSAHe+bRUSAHe/bRUSAHfCbRUSAHfDbRYTAHfEbRYTAHfFbRYTAHfHbRYSAHfJbRYTAHfKbRYTAHfLbRcTAHfMbRcTAHfNbRcUAHfObRcTAHfPbRcUAHfQbRgVAHfTbRgVAHfUbRoWAHfVbRsYAHfXbRsYAHfYbRwZAHfZbRwYAHfabR0aAHfbbggFAHfcbgwJAHfdbg0KAHfebg8MAHfgbhANAHfibwgFAHfjbwoHAHflbwsIAHfmbwwJAHfnbwwJAHfobwwJAHfpbw0JAHfrbw4LAHfsbw8MAHftbw8MAHfubxANAHfvbxQRAHfwbxQRAHfxbxYSAHfybxcUAHfzcAgFAHf0cAoHAHf2cAoHAHf3cAsIAHf4cAsIAHf5cAsIAHf6cAsIAHf7cAsIAHf8cAsIAHf9cAsIAHf+cAsIAHf/cAsIAHgAcAsIAHgBcAsIAHgCcAwJAHgDcAwJAHgFcAwJAHgGcAwJAHgIcAwJAHgJcAwJAHgMcAwJAHgNcAwJAHgOcAwJAHgPcAwJAHgQcAwIAHgRcAwJAHgScAwJAHgTcAwJAHgUcAwJAHgVcAwJAHgWcAwJAHgXcAwJAHgYcAwJAHgacAwJAHgccAwJAHgdcA0KAHgecA0KAHgfcA0KAHggcA0KAHghcA0KAHgicA0KAHgjcA0KAHglcA0KAHgmcA0LAHgncA0KAHgocA0KAHgpcA0KAHgqcA0KAHgrcA0KAHgscA0KAHgtcA0JAHgucA0KAHgvcA0KAHgwcA0KAHgxcA0KAHgycA0KAHgzcA0KAHg0cA0KAHg1cA0KAHg3cA0KAHg4cA0KAHg5cA0KAHg6cA0KAHg7cA0KAHg8cA0KAHg9cA0KAHg+cA0KAHg/cA0KAHhAcA0KAHhCcA4LAHhDcA4LAHhEcA4LAHhFcA4LAHhHcA4LAHhIcA4LAHhJcA4LAHhKcA4LAHhLcA4LAHhMcA4LAHhNcA4LAHhOcA4LAHhQcA4LAHhRcA4LAHhScA4LAHhTcA4LAHhUcA4LAHhVcA4LAHhWcA4LAHhXcA4LAHhccA8MAHhdcA8MAHhecA8MAHhgcA8MAHhicA8MAHhkcA8MAHhlcA8MAHhmcA8MAHhocA8MAHhpcA8MAHhqcA8MAHhrcA8MAHhscA8MAHhtcA8LAHhucA8MAHhvcA8MAHhwcA8MAHhxcA8MAHhycA8MAHh0cA8MAHh3cA8MAHh5cBANAHh6cBANAHh7cBANAHh8cBANAHh+cBENAHh/cBANAHiAcBALAHiBcBANAHiDcBANAHiEcBANAHiFcBANAHiGcBANAHiHcBANAHiIcBANAHiJcBANAHiMcBANAHiNcBANAHiOcBANAHiPcBANAHiRcBANAHiTcBANAHiUcBANAHiVcBANAHiWcBANAHiXcBANAHiYcBANAHiZcBANAHiacBANAHibcBANAHiccBANAHiecBEOAHifcBEOAHigcBEOAHihcBEOAHiicBENAHijcBEOAHikcBENAHilcBEOAHincBEOAHiocBEOAHipcBEOAHiqcBEOAHircBEOAHiscBEOAHitcBEOAHivcBEOAHiwcBANAHixcBEOAHiycBEOAHizcBEOAHi0cBEOAHi1cBEOAHi2cBEOAHi4cBEOAHi5cBEOAHi6cBIPAHi7cBIPAHi8cBIPAHi+cBIPAHjBcBEOAHjDcBIPAHjEcBIPAHjFcBIPAHjGcBIOAHjHcBIPAHjIcBIOAHjJcBIPAHjKcBIPAHjLcBIOAHjMcBIPAHjNcBIPAHjOcBIPAHjPcBIPAHjQcBIPAHjRcBIPAHjScBIPAHjTcBIOAHjUcBIPAHjVcBIPAHjXcBIPAHjYcBIPAHjZcBIPAHjacBMQAHjbcBMQAHjdcBMPAHjecBMQAHjfcBMQAHjgcBMQAHjhcBMQAHjicBMQAHjjcBMQAHjkcBIPAHjlcBMQAHjncBMQAHjocBMQAHjpcBMQAHjqcBMQAHjscBMQAHjtcBMQAHjucBMQAHjvcBQRAHjwcBQRAHjxcBQRAHjycBQQAHjzcBQRAHj0cBQRAHj1cBQRAHj3cBQRAHj5cBQRAHj6cBQQAHj7cBQRAHj8cBQRAHj9cBQRAHj+cBQRAHj/cBQRAHkBcBQRAHkCcBQRAHkEcBQRAHkFcBQRAHkGcBUSAHkHcBURAHkJcBUSAHkMcBUSAHkOcBUSAHkQcBUSAHkRcBUSAHkScBUSAHkTcBUSAHkUcBUSAHkXcBYTAHkZcBYTAHkbcBYTAHkccBYSAHkdcBYTAHkecBYSAHkhcBYSAHkjcBcTAHkkcBcTAHklcBcUAHkmcBcTAHkncBcUAHkocBcUAHkpcBcUAHkqcBcTAHkrcBcUAHkscBcUAHktcBgVAHkucBgVAHkvcBgVAHkwcBgVAHkxcBgVAHkycBgVAHkzcBgVAHk0cBgVAHk1cBkWAHk2cBoWAHk4cBsYAHk5cBwYAHk6cQgFAHk7cQgEAHk8cQkFAHk9cQoGAHk+cQsHAHk/cQsHAHlAcQsHAHlBcQsGAHlCcQsHAHlEcQwIAHlFcQwIAHlGcQwIAHlHcQwIAHlIcQwIAHlJcQwIAHlKcQwIAHlLcQwIAHlMcQwIAHlPcQ0JAHlQcQ0JAHlRcQ0JAHlScQ0JAHlTcQ0JAHlUcQ0JAHlVcQ0JAHlWcQ0JAHlXcQ0JAHlYcQ0KAHlZcQ0JAHlacQ0JAHlbcQ0JAHlccQ0JAHldcQ0JAHlecQ0JAHlfcQ0KAHlgcQ0JAHlhcQ0LAHlicQ0JAHljcQ4KAHlkcQ4KAHllcQ4KAHlncQ4KAHlocQ4LAHlpcQ4KAHlqcQ4KAHlrcQ4KAHltcQ4LAHlvcQ4KAHlwcQ8LAHlxcQ8LAHlycQ8LAHlzcQ8LAHl0cQ8LAHl3cQ8LAHl4cQ8LAHl5cRAMAHl6cRAMAHl8cRAMAHl9cRAMAHl+cRAMAHl/cRAMAHmAcRANAHmBcRANAHmCcRAMAHmDcRAMAHmEcQ8MAHmFcRAMAHmGcRAMAHmHcREMAHmIcRENAHmKcRENAHmLcRENAHmNcREMAHmOcRENAHmPcRENAHmQcRENAHmRcRENAHmScRENAHmTcRENAHmUcRENAHmVcRENAHmWcRENAHmXcRENAHmYcRENAHmZcRENAHmacRIOAHmbcRIOAHmccRIPAHmdcRIOAHmfcRIOAHmgcRIOAHmhcRIOAHmicRIOAHmkcRMPAHmlcRMPAHmmcRMRAHmncRQQAHmocRQQAHmpcRQPAHmqcRQQAHmrcRQQAHmscRURAHmtcRUQAHmucRURAHmwcRYSAHmxcRYSAHmycRcSAHmzcRkVAHm0cRkVAHm2cRsXAHm3cRsXAHm4cggEAHm5cgwJAHm6cgwJAHm7cg4KAHm9chAMAHm+cwgFAHm/cwoHAHnAcwoHAHnBcwoHAHnDcwoHAHnEcwsIAHnFcwsIAHnGcwsIAHnIcwsIAHnJcwsIAHnKcwsIAHnLcwwJAHnMcwwJAHnNcwwJAHnOcwwJAHnPcwwJAHnQcwwJAHnRcwwJAHnScwwJAHnUcwwJAHnVcwwJAHnWcwwJAHnYcw0KAHnccw0KAHndcw0KAHnecw0KAHnfcw0KAHngcw0KAHnhcw0KAHnicw0KAHnjcw0KAHnkcw0KAHnmcw0KAHnncw0KAHnpcw0KAHnqcw0KAHnrcw0KAHnscw0JAHntcw0JAHnucw0KAHnvcw0KAHnwcw0KAHnxcw4LAHn0cw4LAHn2cw4LAHn3cw4LAHn4cw4LAHn6cw4LAHn7cw4LAHn9cw4LAHoAcw8MAHoCcw8MAHoDcw8MAHoEcw8MAHoFcw8MAHoGcw4LAHoIcw8MAHoKcw8MAHoLcw8MAHoMcw8MAHoNcw8MAHoOcw8MAHoQcxANAHoRcxANAHoScxANAHoTcxANAHoUcxANAHoVcxANAHoXcxANAHoYcxANAHoZcxANAHoacxANAHobcxANAHoccxANAHoecxANAHofcxANAHogcxANAHoicxANAHojcxANAHomcxEOAHoocxEOAHoqcxEOAHorcxEOAHoscxEOAHotcxEOAHoucxEOAHovcxEOAHowcxEOAHoxcxEOAHoycxEOAHozcxEOAHo3cxIPAHo5cxIPAHo6cxIPAHo7cxIPAHo8cxIPAHo9cxIPAHo+cxIPAHo/cxIPAHpAcxIPAHpCcxIPAHpDcxIPAHpEcxMQAHpFcxMQAHpGcxMQAHpHcxMQAHpIcxMQAHpJcxQRAHpKcxEOAHpLcxMQAHpMcxMQAHpNcxMQAHpOcxMQAHpPcxMQAHpQcxMQAHpRcxMQAHpUcxQQAHpWcxQRAHpXcxQRAHpYcxQRAHpacxQRAHpbcxQRAHpccxQRAHpfcxURAHpgcxUSAHphcxUSAHpicxUSAHpjcxUSAHplcxYSAHpncxYTAHpocxYTAHppcxYTAHprcxYSAHpscxcTAHptcxcUAHpucxcUAHpwcxkWAHpxcxoWAHpycxsYAHp0dAgFAHp1dAkGAHp2dAoHAHp3dAoHAHp4dAsIAHp5dAsIAHp6dAsIAHp7dAsIAHp9dAwJAHp+dAwJAHp/dAwJAHqAdAwJAHqBdAwJAHqDdAwJAHqEdA0KAHqFdA0KAHqGdA0JAHqHdA0KAHqIdA0KAHqJdA0KAHqKdA0KAHqLdA0KAHqMdA0KAHqNdA0KAHqPdA4LAHqQdA4LAHqRdA4LAHqSdA4LAHqTdA4LAHqUdA4LAHqVdA4LAHqWdA8MAHqXdA8MAHqYdA8MAHqZdA8MAHqcdA8MAHqddA8MAHqedBANAHqfdBANAHqgdBANAHqidBANAHqjdBANAHqldBANAHqmdBANAHqodBEOAHqpdBENAHqqdBEOAHqrdBEOAHqsdBEOAHqtdBEOAHqudBIPAHqvdBIPAHqwdBIPAHqxdBIPAHqydBIPAHqzdBIPAHq0dBIPAHq1dBMQAHq2dBMQAHq3dBMQAHq4dBMQAHq6dBMQAHq7dBMQAHq8dBMQAHq+dBQRAHq/dBQQAHrAdBQRAHrBdBQRAHrCdBQRAHrDdBQRAHrEdBUSAHrFdBUSAHrHdBcUAHrIdBgVAHrJdBgVAHrKdBkWAHrLdQgFAHrNdQoHAHrPdQsIAHrRdQwJAHrSdQwJAHrTdQwJAHrVdQwJAHrWdQwJAHrYdQ0KAHrZdQ0KAHradQ0KAHrbdQ0KAHrcdQ0KAHrddQ0KAHredQ0KAHrftAoLAHrgtAoLAHrhdQ4LAHridQ8MAHrjdQ8MAHrkdQ8MAHrldQ8MAHrmdQ8MAHrndQ8MAHrpdRANAHrqdRANAHrrdRALAHrtdREOAHrudRMOAHrvdREOAHrwdREOAHr2dRcUAHr3dRcUAHr4dRkWAHr5dggGAHr6dgoIAHr7dgoIAHr8dgsJAHr9dgsJAHr+dgsJAHr/dgsJAHsAdgsJAHsBdgsJAHsCdgsJAHsDdgsJAHsEdg4KAHsFdgwKAHsGdgwKAHsIdgwJAHsJdgwKAHsKdgwKAHsLdgwKAHsMdgwKAHsOdgwKAHsPdgwKAHsQdgwKAHsRdgwKAHsSdgwKAHsTdgwKAHsUdgwKAHsVdgwKAHsYdg0LAHsZdg0LAHsadg0LAHsbdg0LAHsddg0LAHsedg0LAHsfdg0LAHsgdg0LAHsidg0LAHsjdg0LAHskdg0LAHsldg0LAHsmdg0LAHsndg0LAHsodg0LAHspdg0LAHsqdg0LAHsrdg0KAHssdg0LAHstdg0LAHsudg0LAHsvdg0LAHswdg0LAHsxdg0LAHsydg0LAHszdg0LAHs0dg0LAHs1dg0LAHs2dg0LAHs4dg0LAHs5dg0LAHs6dg0LAHs7dg0LAHs8dg0LAHs+dg0LAHtAdg4MAHtCdg4MAHtDdg4MAHtEdg4MAHtFdg4MAHtGdg4MAHtHdg4LAHtIdg4MAHtJdg4MAHtKdg4MAHtLdg4MAHtMdg4MAHtNdg4MAHtOdg4MAHtPdg4MAHtQdg4MAHtRdg4MAHtSdg4MAHtUdg4MAHtVdg4MAHtWdg4MAHtYdg4MAHtadg4MAHtbdg4MAHtddg4MAHtgdg8NAHthdg8NAHtidg8NAHtjdg8NAHtkdg8NAHtldg8MAHtmdg8NAHtndg8NAHtpdg8NAHtsdg8MAHttdg8NAHtudg8NAHtvdg8NAHtwdg8NAHtxdg8NAHtydg8NAHtzdg8MAHt0dg8NAHt1dg8MAHt2dg8NAHt3dg8NAHt4dg8NAHt5dg8NAHt6dg8NAHt7dg8NAHt+dg8NAHuAdg8NAHuCdhAOAHuEdhAOAHuFdhAOAHuGdhAOAHuHdhAOAHuIdhAOAHuKdhAOAHuLdhAOAHuMdhAOAHuNdhAOAHuOdhAOAHuPdhAOAHuQdhAOAHuRdhAOAHuSdhAOAHuUdhAOAHuVdhAOAHuWdhAOAHuXdhAOAHuYdhAOAHuZdhAOAHuadhAOAHubdhAOAHucdhAOAHuddhAOAHuedhAOAHufdhAOAHugdhAOAHuhdhAOAHuidhAOAHujdhAOAHukdhAOAHumdhAOAHundhAOAHuodhAOAHupdhAOAHuqdhAOAHurdhAOAHusdhEOAHutdhEPAHuudhEPAHuvdhEPAHuxdhEPAHuydhEPAHu0dhEPAHu1dhEPAHu3dhEPAHu4dhEOAHu5dhEPAHu+dhEPAHvAdg8NAHvBdhEPAHvEdhEPAHvFdhEPAHvGdhEPAHvHdhEPAHvJdhIQAHvKdhEPAHvLdhEPAHvMdhEPAHvOdhEPAHvPdhEPAHvQdhEPAHvRdhEPAHvTdhEPAHvUdhIQAHvVdhIQAHvYdhIQAHvZdhIQAHvadhIQAHvbdhIQAHvcdhIQAHvddhIQAHvedhIQAHvfdhIQAHvgdhIQAHvhdhIQAHvidhIQAHvjdhIQAHvkdhIQAHvldhIQAHvmdhIQAHvndhIQAHvodhIPAHvpdhIQAHvqdhIQAHvrdhIQAHvsdhIQAHvtdhIQAHvudhIQAHvwdhMQAHvxdhMQAHvydhMRAHvzdhMQAHv0dhMQAHv2dhMRAHv3dhMQAHv4dhMRAHv5dhMQAHv6dhMRAHv7dhMRAHv8dhMRAHv9dhMSAHv+dhMRAHv/dhMRAHwAdhMRAHwBdhMRAHwCdhMRAHwDdhMRAHwFdhMRAHwGdhMRAHwHdhMRAHwJdhMQAHwKdhMRAHwLdhMRAHwMdhMRAHwNdhMRAHwOdhMRAHwPdhMRAHwQdhMRAHwRdhIQAHwSdhMRAHwTdhMRAHwUdhMRAHwVdhIRAHwWdhMRAHwXdhMRAHwZdhQSAHwbdhQSAHwcdhQSAHwddhQSAHwedhQSAHwfdhQSAHwgdhQSAHwhdhQSAHwidhQSAHwjdhQSAHwldhQSAHwmdhQSAHwndhQRAHwodhQSAHwpdhQSAHwqdhQSAHwrdhQTAHwsdhQTAHwtdhQSAHwwdhQSAHwzdhUTAHw1dhUTAHw3dhUTAHw4dhUTAHw5dhUTAHw7dhURAHw8dhUTAHw9dhUTAHw+dhUTAHw/dhUTAHxAdhUTAHxBdhUTAHxCdhUTAHxDdhYUAHxEdhYUAHxFdhYTAHxHdhYUAHxIdhYTAHxJdhYUAHxKdhYUAHxMdhYUAHxNdhYUAHxPdhYUAHxQdhcVAHxRdhcVAHxTdhcVAHxUdhcVAHxWdhYVAHxXdhgWAHxYdhgWAHxZdhgWAHxadhgWAHxbdhgWAHxcdhgWAHxddhgWAHxfdhgWAHxgdhgWAHxjdhkXAHxkdhkXAHxldhkXAHxmdhkXAHxndhkWAHxpdhsYAHxqdhoYAHxrdhsZAHxsdhsYAHxtdhsZAHxudhsZAHxvdhwaAHxwdhwaAHxydiIgAHxzdwgGAHx0dwoIAHx1dwoIAHx4dwsJAHx5dwsJAHx6dwsJAHx7dwsJAHx8dwsJAHx9dwsJAHx+dwsJAHx/dwsJAHyAdwsJAHyBdwsJAHyCdwsJAHyDdwwKAHyEdwwKAHyFdwwKAHyGdwwKAHyIdwwKAHyJdwwKAHyKdwwKAHyLdwwKAHyMdwwKAHyNdwwKAHyOdwwKAHyQdwwKAHyRdwwKAHySdw0LAHyUdw0KAHyVdw0LAHyWdw0LAHyXdw0LAHyYdw0LAHybdw0LAHycdw0LAHyddw0LAHyedw4MAHyfdw4MAHyhdw4MAHyidw4MAHyjdw0LAHykdw4MAHyldw4MAHymdw4MAHyndw4MAHyodw4MAHyqdw4MAHyrdw4MAHysdw4MAHytdw4MAHyudw8NAHyvdw8NAHyxdw8NAHyydw8NAHyzdw8NAHy0dw8NAHy1dw8NAHy4dxAOAHy5dxAOAHy6dxAOAHy7dxAOAHy8dxAOAHy9dxAOAHy+dxAOAHy/dxAOAHzAdw8NAHzBdxAOAHzCdxEPAHzDdxEPAHzFdxEPAHzHdxEPAHzIdxEPAHzJdxEPAHzKdxEPAHzLdxEPAHzMdxEPAHzNdxEPAHzOdxEPAHzQdxIQAHzRdxIQAHzSdxIQAHzTdxIQAHzUdxIPAHzVdxIQAHzWdxIQAHzXdxIQAHzYdxIQAHzZdxMQAHzadxMQAHzcdxMRAHzddxMRAHzedxMRAHzfdxMRAHzgdxMRAHzidxMQAHzmdxQSAHzndxQSAHzodxMSAHzqdxUTAHzsdxUTAHztdxUTAHzudxYUAHzvdxYUAHzwdxYUAHzxdxgWAHzydxcUAHzzdxgaAHz0dxgWAHz1dxkWAHz2dxsZAHz3dx0aAHz4eAgGAHz5eAgGAHz6eAkHAHz7eAkHAHz8eAoIAHz9eAoIAHz+eAoIAH0AeAsJAH0BeAsJAH0CeAsJAH0DeAsJAH0EeAsJAH0FeAsJAH0GeAsJAH0HeAsJAH0IeAsJAH0JeAsJAH0KeAwKAH0LeAwKAH0MeAwKAH0NeAwKAH0OeAwKAH0PeAwKAH0QeAwKAH0ReAwKAH0SeAwKAH0TeAwKAH0UeAwKAH0VeAwKAH0WeAwKAH0XeAwKAH0YeAwKAH0ZeAwKAH0aeAwJAH0beAwKAH0ceAwKAH0deAwKAH0eeAwKAH0feAwKAH0geAwKAH0heAwKAH0ieAwKAH0leAwKAH0neAwKAH0oeA0LAH0peA0LAH0reA0MAH0seA0LAH0ueA0LAH0veA0LAH0weA0LAH0xeA0LAH0yeA0LAH0zeA0LAH01eA0LAH02eA0LAH04eA0LAH05eA0LAH06eA0LAH07eA0LAH08eA0LAH09eA0LAH0+eA0LAH0/eA0LAH1AeA0LAH1BeA0LAH1CeA0LAH1DeA0LAH1EeA0LAH1FeA0LAH1GeA0LAH1HeA0LAH1IeA0LAH1KeA0LAH1LeA0LAH1MeA0LAH1NeA4MAH1OeA4MAH1PeA4MAH1QeA4MAH1ReA4MAH1SeA4MAH1TeA4MAH1UeA4MAH1VeA4MAH1WeA4MAH1YeA4MAH1aeA4MAH1beA8MAH1ceA4MAH1deA4MAH1eeA4MAH1feA4MAH1heA4MAH1ieA4MAH1jeA4MAH1meA4MAH1neA4MAH1oeA4MAH1peA4MAH1qeA4MAH1reA4MAH1teA4MAH1ueA4MAH1veA4MAH1weA4MAH1xeA4MAH1yeA4MAH1zeA4MAH11eA4MAH12eA4MAH13eA4MAH15eA8NAH16eA8NAH17eA8NAH18eA8NAH19eA8MAH1/eA8NAH2AeA8NAH2BeA8MAH2DeA8NAH2EeA8NAH2FeA8NAH2GeA8NAH2IeA8NAH2JeA8NAH2LeA8NAH2MeA8NAH2NeA8NAH2OeA8MAH2PeA8NAH2ReA8NAH2SeA8NAH2TeA8NAH2UeA8NAH2VeA8NAH2WeA8MAH2XeA8NAH2ZeA8NAH2aeA8NAH2beA8NAH2ceBAOAH2deBAOAH2eeBAOAH2feBAOAH2geBAOAH2heBAOAH2ieBAOAH2jeBAOAH2keBANAH2meBAOAH2neBAOAH2oeBAOAH2peBAOAH2qeBAOAH2reBAOAH2seBAOAH2teBAOAH2ueBAOAH2veBAOAH2weBAOAH2xeBAOAH2yeBAOAH2zeBAOAH20eBAOAH21eBAOAH23eBAOAH24eBAOAH25eBAOAH26eBAOAH27eBAOAH28eBAOAH29eBAOAH2+eBAOAH2/eBAOAH3AeBAOAH3BeBAOAH3CeBAOAH3EeBAOAH3FeBAOAH3GeBAOAH3HeBAOAH3JeBAOAH3KeBAOAH3LeBAOAH3MeBAOAH3NeBAOAH3OeBAOAH3PeBAOAH3QeA8OAH3ReBAOAH3SeBAOAH3TeBEOAH3UeBAOAH3VeBAOAH3WeBEPAH3XeBEPAH3YeBEPAH3ZeBEPAH3aeBEPAH3beBEPAH3ceBEPAH3deBEPAH3eeBEPAH3feBEPAH3geBEPAH3heBEPAH3jeBEPAH3keBEPAH3leBEPAH3meBEPAH3neBEPAH3oeBEPAH3peBEPAH3qeBEPAH3seBEPAH3ueBEPAH3veBEPAH3weBEPAH3xeBEPAH3yeBEPAH3zeBEPAH30eBEPAH31eBEPAH32eBEPAH33eBEPAH35eBEPAH36eBEOAH37eBEQAH39eBEPAH3+eBEPAH4BeBEPAH4DeBEPAH4EeBEPAH4FeBEPAH4HeBEPAH4IeBIQAH4JeBIQAH4KeBIQAH4LeBIPAH4MeBIPAH4NeBIQAH4OeBIPAH4PeBIQAH4QeBIQAH4ReBIQAH4SeBIPAH4TeBIQAH4UeBIQAH4VeBIQAH4WeBIQAH4XeBIQAH4aeBIQAH4beBIQAH4ceBIQAH4deBIQAH4eeBIQAH4feBIQAH4geBIQAH4heBIQAH4ieBIQAH4jeBIQAH4keBIQAH4leBIQAH4meBIQAH4neBIQAH4peBMRAH4qeBMQAH4reBMQAH4teBMQAH4ueBMRAH4veBMRAH4weBMRAH4xeBMRAH4yeBMRAH4zeBMRAH40eBMRAH41eBMRAH42eBMRAH43eBMRAH44eBMQAH45eBMRAH46eBMQAH47eBMRAH48eBMRAH49eBMRAH4+eBMRAH4/eBMRAH5AeBMRAH5BeBMRAH5CeBMRAH5DeBMRAH5EeBMRAH5FeBMRAH5GeBMRAH5HeBMRAH5IeBQRAH5JeBMRAH5KeBMRAH5LeBURAH5MeBMRAH5NeBMRAH5QeBQSAH5ReBQSAH5SeBQSAH5TeBQSAH5UeBQSAH5VeBQSAH5WeBQSAH5XeBQSAH5YeBQSAH5ZeBQSAH5aeBQSAH5beBQSAH5ceBQSAH5deBQSAH5eeBQSAH5feBQSAH5geBQSAH5heBQTAH5ieBQSAH5jeBQSAH5leBQSAH5meBUSAH5neBQSAH5oeBUSAH5peBUTAH5qeBUTAH5reBUTAH5seBUTAH5teBUSAH5ueBUTAH5veBUTAH5weBUTAH5yeBUTAH5zeBUTAH50eBUTAH51eBUTAH52eBUTAH53eBUTAH54eBUSAH55eBUTAH56eBUTAH57eBYUAH58eBYUAH59eBYUAH5+eBYTAH5/eBYUAH6AeBYUAH6BeBYUAH6CeBYUAH6DeBYUAH6GeBcVAH6HeBcVAH6IeBcVAH6JeBcVAH6KeBcUAH6LeBcVAH6MeBcVAH6NeBcVAH6OeBcVAH6PeBcVAH6QeBcVAH6ReBgWAH6SeBgWAH6TeBkXAH6UeBkXAH6VeBkXAH6WeBkXAH6XeBoYAH6YeBsZAH6ZeBsZAH6aeBsZAH6beBsZAH6ceB0bAH6feIgDAH6geIoFAH6heIsGAH6ieIsGAH6jeIsGAH6keIsGAH6leIsGAH6meIsGAH6neIsGAH6oeIsGAH6peIsGAH6qeIsGAH6reIsGAH6seIwHAH6teIwHAH6veIwHAH6weIwHAH6xeIwHAH6yeIwHAH6zeIwHAH61eIwHAH62eIsHAH63eIwHAH64eIwHAH65eIwHAH66eIwHAH69eIwHAH6+eIwHAH6/eI0IAH7AeI0IAH7BeI0IAH7CeI0IAH7DeI0IAH7EeI0IAH7FeI0IAH7GeI0IAH7HeI0IAH7IeI0IAH7JeI0IAH7KeI0IAH7LeI0IAH7MeI0IAH7NeI0IAH7OeI0IAH7PeI0IAH7QeI0IAH7ReI4JAH7SeI4JAH7TeI4JAH7UeI4JAH7VeI4JAH7WeI4JAH7XeI4JAH7YeI4JAH7ZeI4JAH7aeI4JAH7beI4JAH7ceI4JAH7deI4JAH7eeI4JAH7feI4JAH7geI8KAH7heI8KAH7ieI8KAH7jeI8KAH7leI8KAH7meI8KAH7neI8KAH7oeI8KAH7peJALAH7qeJALAH7reJALAH7teJALAH7ueJALAH7veJALAH7weJALAH7xeJALAH7yeJALAH7zeJALAH70eJALAH71eJALAH72eJALAH73eJALAH74eJALAH76eJALAH77eJALAH78eJALAH79eJALAH7+eJALAH7/eJALAH8AeJALAH8BeJALAH8CeJEMAH8DeJEMAH8EeJEMAH8FeJEMAH8GeJEMAH8HeJEMAH8IeJEMAH8JeJEMAH8LeJEMAH8MeJEMAH8NeJELAH8OeJEMAH8PeJEMAH8ReJEMAH8SeJEMAH8TeJEMAH8UeJEMAH8VeJEMAH8WeJEMAH8XeJEMAH8YeJEMAH8ZeJINAH8aeJINAH8beJINAH8ceJINAH8deJINAH8feJINAH8geJINAH8heJINAH8ieJINAH8jeJINAH8keJINAH8leJMOAH8meJMOAH8neJMOAH8oeJMOAH8peJMOAH8qeJMOAH8reJMOAH8seJQPAH8teJQPAH8ueJQPAH8veJQPAH8weJUQAH8xeJUQAH8yeJUQAH8zeJUQAH80eJUQAH81eJgTAH82eQgGAH83eQoIAH84eQsJAH85eQwKAH86eQwKAH89eQ0LAH8+eQ4MAH8/eQ4MAH9AeQ4MAH9BeRAOAH9CeRAOAH9DeRIQAH9EeRMRAH9FeRMRAH9HeRQSAH9IeRQSAH9JeRQSAH9KeRUTAH9LeRUTAH9MeRYUAH9NeRcVAH9OeRgWAH9PeRgWAH9QeRoXAH9ReggGAH9SeggFAH9TeggEAH9UegsIAH9VegsHAH9XegsIAH9YegwJAH9aegwJAH9beg0KAH9ceg0KAH9deg0KAH9eeg0KAH9feg0KAH9geg0KAH9heg0KAH9ieg0KAH9jeg4LAH9leg8MAH9meg8MAH9nehANAH9oehANAH9pehANAH9qehANAH9rehANAH9sehANAH9tehANAH9uehANAH9wehEOAH9xehEOAH9yehANAH9zehEOAH90ehEOAH91ehIPAH92ehIPAH93ehIPAH94ehIPAH95ehMQAH96ehMQAH97ehMQAH98ehMPAH99ehQRAH9+ehQRAH9/ehQRAH+BehQRAH+CehUSAH+DehYSAH+FehYTAH+GehYTAH+HehkWAH+IehsYAH+JehsYAH+KewgGAH+LewkIAH+MewoHAH+NewsJAH+OewsJAH+PewsJAH+RewsJAH+SewwKAH+TewwKAH+UewwKAH+Vew0LAH+WewwKAH+XewwJAH+aew0LAH+bew0LAH+cew0LAH+dew0LAH+eew0KAH+few0LAH+gew4MAH+hew4MAH+iew4MAH+jew8NAH+kew8NAH+lew8NAH+mew8NAH+new8NAH+oew8NAH+pew8NAH+sexEPAH+texEPAH+uexEPAH+vexEPAH+wexEPAH+xexIQAH+yexIQAH+zexQSAH+0exQSAH+1exQSAH+2exUTAH+3exUTAH+4exUTAH+5exUTAH+6exYUAH+7excVAH+8excVAH+9fAgGAH++fAsJAH+/fAsJAH/AfAwKAH/BfAwKAH/CfAwKAH/DfAwKAH/FfAwKAH/GfAwKAH/HfA0LAH/JfA0LAH/KfA0LAH/LfA0LAH/MfA0LAH/NfA0LAH/OfA0LAH/PfA0LAH/QfA0LAH/RfA0LAH/SfA0LAH/UfA4MAH/VfA4MAH/XfA4MAH/YfA4MAH/bfA8MAH/cfA8NAH/dfA8NAH/efBAOAH/ffBAOAH/gfBAOAH/hfBAOAH/ifBAOAH/jfBAOAH/lfBEOAH/mfBEPAH/nfBEPAH/ofBEPAH/pfBEPAH/qfBEPAH/rfBEPAH/sfBEPAH/tfBEPAH/ufBIQAH/vfBIQAH/wfBIQAH/xfBIQAH/yfBMRAH/zfBMRAH/0fBMQAH/1fBMRAH/3fBQSAH/4fBQSAH/5fBQSAH/6fBQSAH/7fBQSAH/8fBMRAH/9fBUTAH/+fBUTAH//fBYUAIAAfBYUAIABfQgGAIACfQYEAIADfQgGAIAEfQwKAIAFfQwIAIAGfQwKAIAHfQ0JAIAIfQ0LAIALfQ4MAIAMfggGAIANfgsJAIAOfgsJAIAPfgsJAIAQfgsJAIARfgsJAIASfwgGAIAUfwsJAIAVfwwKAIAWfwwKAIAXfwwKAIAYfwwKAIAZfwwKAIAbfw0LAIAcfw0LAIAdfw0LAIAefw0LAIAffw0KAIAgfw4MAIAhfw8NAIAifw8NAIAkfxAOAIAlfxAOAIAmfxEPAIAnfxEPAIAofxIQAIApfxIQAIAqfxIQAIAsfxMRAIAufxQSAIAvfxYTAIAwfxcVAIAxfxgWAIAzgAgGAIA0gAkHAIA1gAoIAIA2gAsIAIA3gAsJAIA4gAwKAIA5gAwKAIA7gAwKAIA8gAwKAIA9gAwKAIA+gAwKAIA/gAwKAIBCgAwKAIBDgA0LAIBGgA0LAIBHgA0LAIBIgA0LAIBKgA0LAIBLgA0LAIBMgA0LAIBNgA0LAIBPgA4MAIBQgA4MAIBRgA4MAIBSgA4MAIBUgA4MAIBWgA8NAIBYgA8NAIBagBAOAIBbgBAOAIBcgBAOAIBdgBAOAIBegBAOAIBfgBAOAIBhgBAOAIBigBAOAIBjgBAOAIBkgBEPAIBmgBEPAIBngBEPAIBogBEPAIBpgBEPAIBqgBEPAIBsgBIQAIBvgBMRAIBwgBMRAIBxgBMQAIBygBMRAIBzgBMRAIB0gBQRAIB1gBQSAIB2gBQSAIB3gBQSAIB4gBUTAIB5gBYUAIB9gBgWAIB+gBgWAIB/gQgGAICAgQYEAICCgQwKAICDgQwIAICEgQ8NAICFgQ8NAICGgQ8NAICHgRAOAICJgggGAICKggkFAICLggoGAICMggoGAICPggoIAICQggsHAICSggsHAICTggsHAICVggsHAICWggsHAICYggsHAICZggsHAICaggsHAICbggsHAICcggsHAICdggsHAICfggsHAICgggsHAIChggwIAICiggwIAICjggwIAICkggwIAIClggwIAICmggwIAICnggwIAICpggwIAICqggwIAICrggwIAICsggwIAICtggwIAICuggwIAICvggwIAICxggwIAICyggwIAIC0ggwIAIC1ggwIAIC2ggwIAIC3ggwIAIC4ggwIAIC6ggwIAIC8ggwIAIC9ggwIAIC+ggwIAIC/ggwIAIDAggwIAIDBggwIAIDCgg0JAIDDgg0JAIDEgg0JAIDFgg0JAIDGgg0JAIDHgg0JAIDIgg0JAIDJgg0JAIDKgg0JAIDMgg0JAIDNgg0JAIDOgg0JAIDPgg0IAIDQgg0JAIDRgg0JAIDUgg0MAIDVgg0JAIDWgg0JAIDXgg0JAIDYgg0JAIDZgg0JAIDagg0JAIDbgg0JAIDcgg0JAIDdgg0JAIDegg0JAIDggg0JAIDhgg0JAIDjgg0JAIDkgg0JAIDlgg0JAIDmgg0JAIDngg0JAIDogg0JAIDpgg0JAIDqgg0JAIDrgg0JAIDsgg0LAIDtgg4KAIDvgg4KAIDwgg4KAIDxgg4KAIDygg4KAIDzgg4KAID0gg4KAID1gg4KAID2gg4KAID4gg4KAID5gg4KAID6gg4KAID7gg4KAID8gg4KAID9gg4KAID+gg4MAIEAgg4KAIEBgg4KAIECgg4KAIEDgg4KAIEFgg4KAIEGgg4KAIEHgg4KAIEIgg4KAIEJgg0JAIEKgg4KAIEMgg4KAIENgg4KAIEOgg4KAIEPgg4KAIEQgg4KAIERgg4KAIESgg4KAIETgg4KAIEUgg4MAIEVgg8LAIEWgg8LAIEXgg8LAIEYgg8LAIEZgg8LAIEagg8LAIEbgg8LAIEdgg8LAIEegg8LAIEfgg8LAIEhgg8KAIEigg8LAIEjgg8LAIEkgg8LAIElgg8LAIEngg8LAIEpgg8KAIEqgg8LAIErgg8LAIEsgg8LAIEtgg8LAIEvgg8LAIEwgg8LAIExgg8LAIEygg8LAIEzgg8LAIE0gg8LAIE2gg8LAIE3gg8LAIE4gg8LAIE5ghAMAIE6ghAMAIE9ghAMAIE+ghAMAIFCghAMAIFDghAMAIFEghAMAIFGghAMAIFHghAMAIFIghAMAIFKghAMAIFLghAMAIFMghAMAIFNghAMAIFOghAMAIFPghAMAIFQghAOAIFRghAMAIFSghAMAIFTghAMAIFUghAMAIFVghAMAIFWghAMAIFZghAMAIFaghAMAIFbghENAIFcghENAIFeghENAIFfghENAIFgghENAIFhghEMAIFighENAIFkghENAIFlghENAIFmghENAIFnghENAIFpghENAIFrghENAIFsghENAIFtghENAIFughENAIFvghENAIFwghENAIFxghEMAIFyghENAIFzghENAIF0ghEMAIF2ghENAIF3ghENAIF4ghENAIF5ghENAIF6ghENAIF7ghENAIF8ghENAIF9ghENAIF+ghENAIF/ghINAIGAghIOAIGCghIOAIGDghIOAIGEghINAIGGghIOAIGHghINAIGIghIOAIGJghIOAIGKghIOAIGLghIOAIGMghIOAIGNghIOAIGPghIOAIGRghIOAIGTghMPAIGVghMPAIGXghMPAIGYghMPAIGZghMQAIGaghMPAIGbghMPAIGcghMOAIGdghMPAIGeghMPAIGfghMPAIGgghMPAIGighMPAIGjghMPAIGkShMPAIGlghQRAIGmghQQAIGnghQQAIGoghQQAIGpghQQAIGqghQQAIGrghQQAIGsghQQAIGughQQAIGwghQQAIGxghQQAIGyghQQAIGzghQQAIG0ghQQAIG1ghQPAIG2ghQQAIG3ghUPAIG4ghURAIG5ghUQAIG6ghURAIG7ghURAIG8ghUPAIG9ghURAIG+ghURAIG/ghURAIHAghURAIHBghURAIHCghURAIHDghURAIHEghURAIHFghURAIHGghURAIHHghUQAIHIghUQAIHJghURAIHKghURAIHMghURAIHNghYSAIHPghYSAIHQghYSAIHRghYSAIHSghYRAIHTghYSAIHVghcTAIHXghcSAIHYghcTAIHZghgUAIHaghgUAIHbghgUAIHdghkVAIHeghoWAIHfghoVAIHgghsZAIHhghsZAIHighsXAIHjgwgGAIHkgwoIAIHlgwoIAIHmgw4MAIHngxAOAIHogxMRAIHpgxMRAIHqhAgGAIHshAwKAIHthAwKAIHuhA4MAIHvhA4MAIHyhBIQAIHzhQgGAIH0hQsKAIH2hQ4MAIH3hQ4MAIH4hQ4MAIH5hQ8MAIH6hRAOAIH7hRIQAIH8hggGAIH+hgoIAIH/hgsJAIIAhgwKAIIBhgwJAIIChg0LAIIEhg4MAIIFhg8NAIIGhhIOAIIHhhANAIIIhhEQAIIJhhIQAIIKhhQRAIILhhUUAIIMhwgGAIINhwoIAIIOhwoIAIIQhwwKAIIRhw0LAIIShw4MAIIUhxAOAIIVhxAOAIIWhxEPAIIXhxEPAIIYhxIQAIIahxUTAIIbiAgGAIIciA4MAIIdiA8NAIIeiBAOAIIfiQgGAIIgiQoIAIIhiQsJAIIiiQsJAIIjiQsJAIIliQwKAIImiQwKAIIoiQwKAIIpiQwKAIIqiQwKAIIriQwKAIIsiQwKAIItiQwKAIIuiQwKAIIviQwKAIIwiQwKAIIxiQwKAIIyiQ0LAIIziQ0LAII0iQ0LAII1iQ0LAII2iQ0LAII3iQ0LAII4iQ0LAII5iQ0LAII6iQ0LAII7iQ0LAII8iQ4MAII9iQ4MAII+iQ4MAII/iQ4MAIJAiQ8NAIJCiQ8NAIJEiQ8NAIJFiQ8NAIJHiQ8MAIJJiQ8NAIJLiRAOAIJOiREPAIJPiREPAIJQiREPAIJRiREPAIJSiREPAIJTiREPAIJUiREPAIJViRIQAIJWiRIPAIJXiRIQAIJYiRIPAIJZiRIQAIJaiRMRAIJbiRMRAIJciRMRAIJdiRMRAIJeiRQSAIJfiRQSAIJhiRUTAIJiiRUTAIJjiRUTAIJkiRUTAIJliRUSAIJmiRYUAIJoiRYTAIJpiRYUAIJqiRcVAIJriRgWAIJsiRkXAIJtiRoYAIJuiggGAIJvigkHAIJwigoIAIJxihMRAIJyiwgGAIJziwwKAIJ0iw0LAIJ1ixAMAIJ2ixUTAIJ3ixoYAIJ4jAgGAIJ5jAgDAIJ6jAkEAIJ7jAoFAIJ8jAoFAIJ9jAoFAIJ+jAoFAIJ/jAoFAIKAjAoFAIKCjAoFAIKDjAsGAIKEjAsGAIKFjAsGAIKHjAsGAIKIjAsHAIKKjAsGAIKLjAsGAIKNjAsGAIKOjAsGAIKPjAsGAIKQjAsGAIKRjAsGAIKSjAsGAIKTjAsGAIKUjAsJAIKXjAsGAIKYjAwHAIKZjAwHAIKajAwHAIKbjAwHAIKcjAwHAIKdjAwGAIKejAwHAIKfjAwHAIKgjAwHAIKhjAwHAIKijAwHAIKjjAwHAIKkjAwHAIKljAwHAIKmjAwHAIKnjAwHAIKojAwGAIKpjAwHAIKqjAwHAIKrjAwHAIKsjAwHAIKtjAwHAIKujAwHAIKvjAwHAIKwjAwHAIKxjAwHAIKzjAwHAIK0jAwHAIK1jAwHAIK2jAwHAIK3jAwHAIK4jAwHAIK5jAwHAIK6jAwHAIK7jAwKAIK8jAwHAIK9jAwHAIK+jAwHAIK/jA0HAILAjAwHAILBjAwHAILCjAwHAILDjAwHAILEjAwHAILFjAwHAILHjAwHAILIjAwHAILKjAwHAILLjAwHAILMjAwHAILNjAwHAILOjAwHAILPjAwHAILQjA0IAILRjA0IAILSjA0IAILTjA0IAILUjA0IAILVjA0IAILWjA0IAILXjA0IAILYjA0IAILZjA0IAILbjA0IAILcjA0IAILejA0IAILfjA0IAILgjA0IAILhjA0HAILijA0IAILjjA0HAILkjA0IAILljA0IAILmjA0IAILnjA0IAILojA0IAILqjA0IAILrjA0IAILsjA0IAILtjA0IAILujA0IAILvjA0IAILwjA0IAILxjA0IAILyjA0IAILzjA0IAIL0jA0IAIL1jA0IAIL2jA0IAIL3jA0IAIL4jA0IAIL5jA0IAIL6jA0IAIL7jA0IAIL8jA0IAIL9jA0IAIL+jA0IAIL/jA0IAIMAjA0IAIMBjA0IAIMCjA0IAIMDjA0IAIMEjA0IAIMFjA0IAIMGjA0IAIMHjA0IAIMIjA0JAIMJjA0IAIMLjA0IAIMMjA0IAIMNjA0JAIMOjA0IAIMPjA0IAIMRjA0IAIMUjA0IAIMVjA0IAIMWjA4JAIMXjA4JAIMYjA4JAIMZjA4JAIMajA4IAIMbjA4JAIMcjA4JAIMdjA8KAIMejA4JAIMgjA4JAIMijA4JAIMjjA8KAIMkjA4JAIMljA4JAIMmjA4JAIMnjA4JAIMojA4JAIMpjA4JAIMqjA4JAIMrjA4JAIMsjA4JAIMtjA4JAIMvjA4JAIMxjA4JAIMyjA4JAIMzjA4JAIM0jA4JAIM1jA4JAIM2jA4JAIM3jA4JAIM4jA4JAIM5jA4JAIM6jA4JAIM7jA4MAIM8jA4JAIM9jA4JAIM/jA4JAINAjA4JAINBjA4JAINCjA4JAINDjA4JAINEjA4JAINFjA4JAINGjA4JAINHjA4JAINIjA4JAINJjA4JAINKjA4JAINLjA4JAINMjA4JAINNjA4JAINOjA4JAINPjA4JAINQjA4JAINRjA4JAINSjA4JAINTjBAJAINUjA4JAINWjA4JAINXjA4JAINYjA4JAINajA4JAINbjA4JAINcjA4JAINejA4JAINfjA4JAINgjA4JAINhjA4JAINijA4JAINjjA4JAINkjA4JAINljA4JAINmjA4JAINnjA4JAINojA4JAINpjA4JAINqjA4JAINrjA4JAINsjA4JAINtjA4JAINujA4JAINvjA4JAINzjA8KAIN0jA8KAIN1jA8KAIN2jA8KAIN3jA8KAIN4jA8KAIN6jA8KAIN7jA8KAIN8jA8KAIN9jA8KAIN+jA8KAIN/jA8JAIOBjA8KAIODjA8KAIOFjA8KAIOGjA8KAIOHjA8KAIOIjA8KAIOJjA8KAIOKjA8KAIOLjA8KAIOMjA8KAIONjA8KAIOOjA8KAIOPjA8KAIOQjA8KAIORjA8KAIOSjA8JAIOTjA8KAIOUjA8KAIOVjA8KAIOWjA8KAIOXjA8KAIOYjA8KAIOZjA8KAIOajA8JAIObjA8JAIOcjA8KAIOdjA8KAIOejA8KAIOfjA8KAIOgjA8KAIOijA8KAIOjjA8KAIOkjA8KAIOljA8KAIOmjA8KAIOnjA8KAIOojA8KAIOpjA8KAIOqjA8KAIOrjA8KAIOsjA8KAIOujA8KAIOvjA8KAIOwjA8KAIOxjA8KAIOyjA8KAIOzjA8KAIO0jA8KAIO1jA8KAIO2jA8KAIO3jA8KAIO4jA8KAIO5jA8KAIO6jA8KAIO8jA8KAIO9jA8KAIO+jBALAIO/jBALAIPAjBALAIPBjBALAIPCjBALAIPDjBAKAIPEjBALAIPFjBALAIPGjBALAIPHjBALAIPIjBALAIPJjBALAIPKjBALAIPLjBALAIPMjBALAIPNjBALAIPOjBALAIPPjBALAIPRjBALAIPTjBALAIPUjBALAIPVjBALAIPWjBALAIPXjBALAIPYjBALAIPZjBALAIPbjBALAIPcjBALAIPdjBALAIPejBALAIPfjBALAIPgjBALAIPhjBALAIPijBALAIPjjBALAIPkjBALAIPljBALAIPnjBALAIPojBALAIPpjBALAIPqjBALAIPrjBALAIPsjBALAIPtjBALAIPujBALAIPvjBAKAIPwjBALAIPxjBALAIPyjBALAIPzjBALAIP0jBALAIP1jBALAIP2jBALAIP3jBALAIP4jBALAIP5jBALAIP6jBALAIP7jBALAIP8jBALAIP9jBALAIP+jBALAIP/jBALAIQBjBALAIQDjBALAIQEjBALAIQFjBALAIQGjBALAIQHjBALAIQJjBALAIQKjBALAIQLjBALAIQMjBALAIQNjBALAIQOjBALAIQPjBALAIQQjBALAIQRjBALAIQSjBALAIQTjBALAIQUjBALAIQWjBALAIQYjBALAIQbjBALAIQcjBALAIQdjBALAIQgjBALAIQhjBALAIQijBALAIQjjBALAIQkjBALAIQljBALAIQmjBALAIQnjBALAIQojBALAIQpjBEMAIQqjBEMAIQrjBEMAIQschAMAIQtjBEMAIQujBEMAIQvjBEMAIQwjBEMAIQxjBEMAIQyjBEMAIQzjBEMAIQ0jBEMAIQ1jBELAIQ2jBEMAIQ3jBEMAIQ4jBELAIQ5jBEMAIQ6jBEMAIQ7jBEMAIQ8jBEMAIQ9jBEMAIQ+jBEMAIQ/jBEMAIRAjBEMAIRCjBEMAIRDjBEMAIREjBEMAIRFjBEMAIRGjBEMAIRHjBEMAIRIjBEMAIRJjBEMAIRKjBEMAIRLjBEMAIRMjBEMAIRNjBEMAIROjBEMAIRQjBEMAIRRjBEMAIRSjBEMAIRTjBEMAIRUjBEMAIRVjBEMAIRWjBEMAIRXjBALAIRYjBEMAIRZjBEMAIRajBEMAIRbjBEMAIRcjBEMAIRdjBEMAIRejBEMAIRfjBEMAIRgjBEMAIRhjBEMAIRijBEMAIRjjBEMAIRkjBEMAIRljBEMAIRmjBEMAIRnjBEMAIRojBEMAIRpjBEMAIRrjBEMAIRsjBEMAIRtjBEMAIRujBEMAIRvjBEMAIRwjBEMAIRxjBEMAIRyjBEMAIRzjBEMAIR0jBEMAIR1jBEMAIR2jBEMAIR3jBEMAIR4jBEMAIR5jBEMAIR6jBEMAIR7jBEMAIR9jBEMAIR+jBEMAIR/jBEMAISAjBEMAISCjBEMAISEjBEMAISGjBEMAISHjBEMAISIjBEMAISJjBEMAISLjBEMAISMjBEMAISNjBEMAISOjBEMAISPjBEMAISQjBIMAISRjBINAISSjBINAISTjBINAISUjBINAISWjBINAISXjBINAISYjBINAISZjBINAISajBINAISbjBINAIScjBINAISdjBINAISejBINAISfjBINAISgjBINAIShjBINAISijBIMAISjjBINAISkjBINAISnjBINAISojBINAISpjBINAISqjBINAISrjBIMAISsjBINAIStjBINAISujBINAISvjBINAISwjBINAISxjBINAISyjBINAIS0jBINAIS2jBINAIS4VhINAIS5jBINAIS6jBINAIS7jBINAIS8jBINAIS9jBINAIS+jBIMAIS/jBINAITAjBINAITBjBINAITCjBINAITEjBINAITFjBINAITGjBINAITHjBIMAITJjBINAITKjBINAITLjBINAITMjBINAITNjBINAITOjBINAITPjBINAITQjBINAITRjBINAITSjBINAITTjBINAITUjBINAITWjBINAITXjBINAITZjBINAITajBIMAITbjBINAITcjBINAITdjBINAITejBIQAITfjBINAITgjBINAIThjBINAITijBINAITjjBINAITkjBINAITljBMNAITmjBINAITnjBMNAITojBMNAITpjBMNAITqjBMNAITrjBMNAITsjBMNAITujBMNAITvjBMOAITwjBMOAITxjBMMAITyjBMOAITzjBMOAIT0jBMOAIT2jBMOAIT3jBMOAIT4jBMOAIT5jBMPAIT6jBMOAIT7jBMOAIT8jBMOAIT9jBMNAIT+jBMOAIT/jBMOAIUAjBMNAIUCjBMOAIUDjBMPAIUEjBMOAIUFjBMOAIUGjBMOAIUHjBMMAIUIjBMOAIUJjBMOAIUKjBMOAIULjBMOAIUMjBMOAIUNjBMOAIUOjBMOAIUPjBMOAIUQjBMOAIURjBMOAIUSjBMOAIUTjBMOAIUUjBMOAIUVjBMOAIUWjBMOAIUXjBMOAIUYjBMOAIUZjBMOAIUajBMOAIUcjBMNAIUdjBMOAIUejBMOAIUfjBMOAIUgjBMOAIUhjBMOAIUjjBMOAIUkjBMOAIUljBMOAIUmjBMOAIUnjBMOAIUojBMOAIUpjBMOAIUqjBMOAIUrjBMOAIUsjBMPAIUtjBMNAIUujBMOAIUvjBMNAIUwjBMOAIUxjBMNAIUzjBMOAIU0jBMOAIU1jBMOAIU3jBMOAIU4jBMOAIU5jBMOAIU6jBMOAIU7jBMOAIU8jBMOAIU9jBQOAIU+jBQPAIVAjBQPAIVBjBQPAIVCjBQPAIVDjBQPAIVEjBQPAIVFjBQPAIVGjBQPAIVHjBQPAIVIjBQPAIVJjBQPAIVKjBQPAIVLjBQPAIVMjBQPAIVNjBQPAIVOjBQPAIVRjBQPAIVSjBQPAIVTjBQPAIVUjBQPAIVVjBQPAIVWjBQOAIVXjBQQAIVYjBQPAIVZjBQPAIVajBQPAIVbjBQPAIVdjBQPAIVejBQPAIVfjBQPAIVgjBQPAIVhjBQPAIVijBQPAIVjjBQPAIVkjBQPAIVljBQPAIVmjBQPAIVnjBQPAIVojBQPAIVpjBQPAIVqjBQPAIVrjBQPAIVsjBQPAIVtjBQQAIVujBQPAIVvjBQOAIVwjBQPAIVxjBQPAIVyjBQPAIVzjBQPAIV0jBQPAIV1jBQPAIV2jBUQAIV3jBUQAIV4jBUPAIV5jBUQAIV6jBUPAIV7jBUQAIV8jBUQAIV+jBUQAIWAjBUQAIWBjBUPAIWCjBUQAIWDjBUQAIWEjBUQAIWFjBUQAIWGjBUQAIWHjBUQAIWIjBUQAIWJjBUQAIWKjBUQAIWLjBUQAIWMjBUOAIWNjBUQAIWOjBUQAIWPjBUQAIWQjBUQAIWRjBUQAIWTjBUQAIWUjBUQAIWVjBUQAIWWjBUOAIWXjBUQAIWYjBUPAIWZjBUQAIWajBUQAIWbjBUQAIWcjBUQAIWdjBUQAIWejBUQAIWfjBUQAIWgjBUQAIWhjBUPAIWijBUQAIWjjBUQAIWkjBUQAIWmjBUQAIWnjBUQAIWojBUQAIWpjBYQAIWqjBUQAIWrjBUQAIWsjBUQAIWujBUQAIWvjBYQAIWwjBYRAIWxjBYRAIWzjBYQAIW0jBYRAIW1jBYRAIW2jBYRAIW3jBYRAIW4jBYRAIW5jBYRAIW6jBYRAIW9jBYQAIW+jBYRAIW/jBYRAIXAjBYRAIXBjBYRAIXCjBYRAIXDjBYRAIXEjBYRAIXFjBYRAIXGjBYRAIXHjBYQAIXIjBYRAIXJjBYRAIXLjBYRAIXNjBYRAIXOjBYRAIXPjBYRAIXQjBYRAIXRjBYRAIXSjBYRAIXTjBYRAIXVjBcSAIXWjBcSAIXXjBcRAIXYjBcSAIXZjBcSAIXajBcSAIXcjBcSAIXdjBcSAIXejBcSAIXfjBcSAIXgjBcSAIXhjBcRAIXijBcSAIXjjBcSAIXkjBcSAIXljBcSAIXmjBcSAIXojBcSAIXpjBcSAIXqjBcSAIXrjBcSAIXsjBcRAIXtjBcSAIXujBgTAIXvjBcSAIXwjBcSAIXxjBcRAIXyjBcSAIX2jBgTAIX3jBgSAIX4jBgSAIX5jBgTAIX6jBgTAIX7jBgTAIX8jBgTAIX9jBgTAIX+jBgTAIX/jBgTAIYAjBgTAIYBjBgTAIYCjBgTAIYEjBgTAIYFjBgTAIYGjBgTAIYHjBgTAIYJjBgTAIYKjBgTAIYLjBgTAIYMjBgUAIYNjBgTAIYPjBgTAIYQjBgTAIYRjBgTAIYTjBgTAIYUjBgTAIYWjBkUAIYXjBkUAIYYjBkUAIYZjBkUAIYajBkUAIYbjBkUAIYcjBkUAIYejBkUAIYfjBkTAIYgjBkUAIYhjBkUAIYijBgTAIYjjBkTAIYkjBYUAIYljBkUAIYmjBkUAIYnjBkTAIYojBkUAIYpjBkUAIYqjBkUAIYsjBkVAIYtjBkUAIYujBkUAIYvjBkUAIYwjBkUAIYxjBsWAIYyjBoVAIYzjBoUAIY0jBoVAIY1jBoVAIY2jBoUAIY4jBsWAIY5jBsWAIY6jBsVAIY7jBsWAIY8jBsWAIY+jBsWAIY/jBsWAIZAjBsWAIZCjBwYAIZDjBwXAIZFjBwXAIZGjB0YAIZHjB0XAIZIjB0YAIZLjCEdAIZMjCEbAIZNjQgGAIZOjQoIAIZPjQoIAIZQjQsJAIZRjQwKAIZSGxAKAIZTjQwKAIZUjQwKAIZVjQ0LAIZWjQ0LAIZZjQ0LAIZajQ0LAIZbjQ4MAIZcjQ4NAIZejQ8NAIZfjQ8NAIZhjRANAIZijREPAIZjjREQAIZkjRIQAIZljRIQAIZnjRMRAIZojRMRAIZpjRQSAIZqjRwaAIZrjggGAIZsjgkHAIZtjgoIAIZujgoIAIZvjgoIAIZwjgoIAIZxjgoIAIZyjgoIAIZzjgsJAIZ0jgsJAIZ3jgsJAIZ5jgsJAIZ6jgsJAIZ7jgsJAIZ8jgsJAIZ9jgsJAIZ+jgsJAIZ/jgsJAIaAjgsJAIaBjgsJAIaCjgsJAIaFjgwKAIaGjgwKAIaHjgwKAIaKjgwKAIaLjgwKAIaMjgwKAIaNjgwKAIaOjgwKAIaQjgwKAIaRjgwKAIaSjgwKAIaTjgwKAIaUjgwKAIaVjgwKAIaWjgwKAIaXjgwKAIaYjgwKAIaZjgwKAIaajgwKAIacjgwKAIadjgwKAIaejgwKAIagjgwKAIahjgwKAIaijgwKAIajjgwKAIakjgwJAIaljgwKAIanjgwKAIaojgwKAIapjgwKAIaqjgwKAIarjg0LAIasjgwKAIatjg0LAIavjg0LAIawjg0LAIaxjg0LAIayjg0LAIazjg0LAIa0jg0LAIa1jg0LAIa2jg0LAIa3jg0KAIa4jg0LAIa5jg0LAIa6jg0LAIa7jg0LAIa8jg0LAIa9jg0LAIa+jg0LAIa/jg0LAIbAjg0LAIbBjg0LAIbCjg0LAIbDjg0LAIbEjg0LAIbFjg0LAIbGjg0LAIbHjg0LAIbIjg0LAIbJjg0LAIbKjg0LAIbLjg0LAIbMjg0LAIbNjg0LAIbOjg0LAIbPjg0LAIbQjg4MAIbRjg4MAIbTjg4MAIbUjg4MAIbWjg8NAIbXjg4MAIbYjg4MAIbZjg4MAIbajg4MAIbbjg4MAIbcjg4MAIbdjg4MAIbejg4MAIbfjg4MAIbijg4MAIbjjg4MAIbkjg4MAIbmjg4MAIbojg4MAIbpjg4MAIbqjg4MAIbrjg4MAIbsjg4MAIbtjg4MAIbujg4MAIbvjg4MAIbwjg4MAIbxjg4MAIbyjg4MAIbzjg4MAIb0jg4MAIb1jg8NAIb2jg8NAIb3jg8NAIb4jg8NAIb5jg8NAIb6jg8NAIb7jg8NAIb+jg8NAIcAjg8NAIcBjg8NAIcCjg8NAIcDjg8NAIcEjg8NAIcFjg8NAIcGjg8NAIcHjg8NAIcIjg8NAIcJjg8NAIcKjg8NAIcLjg8NAIcMjg8NAIcNjg8NAIcOjg8NAIcRjg8MAIcSjg8MAIcTjg8MAIcVjg8NAIcXjg8NAIcYjhAOAIcZjhAOAIcajhAOAIcbjhAOAIccjhAOAIcejhAOAIcgjhAOAIchjhAOAIcijhAOAIcjjhANAIckjhAOAIcljhAOAIcmjhAOAIcnjhAOAIcojhAOAIcpjhAOAIcqjhAOAIcsjhAOAIctjhAOAIcujhAOAIcwjhAOAIcxjhAOAIcyjhAOAIczjhAOAIc0jhAOAIc1jhAPAIc3jhAOAIc4jhAOAIc6jhAOAIc7jhAOAIc8jhAOAIc+jhAOAIc/jhAOAIdAjhAOAIdBjhAOAIdCjhAOAIdDjhAOAIdGjg8NAIdHjhAOAIdIjhAOAIdJjhAOAIdLjhAOAIdMjhEPAIdNjhENAIdOjhEPAIdPjhEPAIdQjhEPAIdRjhEPAIdSjhEPAIdTjhEPAIdUjhEPAIdVjhEOAIdWjhEPAIdXjhEPAIdYjhEPAIdZjhEPAIdajhEPAIdbjhEPAIdcjhEPAIddjhEPAIdejhEPAIdfjhEPAIdgjhEPAIdhjhEPAIdijhEPAIdjjhEPAIdkjhEPAIdljhEPAIdmjhEPAIdnjhEOAIdojhEPAIdpjhEPAIdqjhEPAIdrjhEOAIdsjhEPAIdtjhEPAIdujhEPAIdvjhEPAIdwjhEPAIdxjhEPAIdzjhEPAId0jhEPAId1jhEPAId2jhEPAId3jhEPAId4jhEOAId5jhIPAId6jhEPAId7jhEPAId8jhEPAId9jhEPAId+jhEPAId/jhEPAIeBjhIPAIeCjhIOAIeDjhIQAIeEjhIQAIeFjhIQAIeGjhIPAIeHjhIQAIeIjhIQAIeJjhIQAIeLjhIPAIeMjhIQAIeNjhIQAIePjhIQAIeQjhIQAIeRjhIQAIeSjhIQAIeTjhIQAIeUjhIQAIeWjhIPAIeXjhIQAIeYjhIQAIeajhIQAIebjhIQAIecjhIQAIedjhIPAIeejhIQAIefjhIQAIeijhIQAIejjhIQAIekjhIQAIeljhIQAIeojhIQAIepjhIQAIeqjhMRAIerjhMRAIesjhMRAIetjhMQAIeujhMRAIevjhMQAIewjhMRAIexjhMRAIeyjhMRAIezjhMRAIe0jhMQAIe1jhMRAIe2jhMQAIe3jhMRAIe4jhMRAIe5jhMRAIe6jhMRAIe7jhMRAIe8jhMRAIe9jhMRAIe+jhMRAIe/jhMRAIfAjhMRAIfBjhMRAIfCjhMRAIfDjhMRAIfEjhMRAIfFjhMRAIfGjhMQAIfHjhMQAIfIjhMRAIfJjhMRAIfKjhMRAIfLjhMRAIfMjhMRAIfOjhMRAIfQjhMRAIfRjhMRAIfSjhMQAIfTjhQRAIfUjhQSAIfWjhQSAIfXjhISAIfYjhQSAIfZjhQSAIfajhQSAIfbjhQSAIfcjhQSAIfdjhQRAIfejhQRAIffjhQSAIfgjhQSAIfhjhESAIfijhQSAIfjjhQSAIfkjhQSAIfljhQRAIfmjhQSAIfnjhQSAIfojhQSAIfqjhQSAIfrjhQSAIfsjhQSAIftjhQSAIfujhQSAIfvjhQSAIfyjhQSAIfzjhQSAIf0jhQSAIf1jhQSAIf2jhUTAIf3jhUTAIf5jhUTAIf6jhUTAIf7jhUTAIf8jhUSAIf+jhUTAIf/jhUTAIgAjhUTAIgBjhMRAIgCjhUSAIgDjhUTAIgEjhUSAIgFjhUTAIgGjhUSAIgHjhUSAIgIjhUTAIgJjhUTAIgKjhUTAIgLjhUTAIgMjhUTAIgNjhUTAIgOjhQRAIgPjhUTAIgQjhYUAIgRjhYUAIgTjhYTAIgUjhYUAIgVjhYUAIgWjhYTAIgXjhYUAIgYjhYUAIgZjhYUAIgbjhcUAIgcjhcVAIgdjhcVAIgfjhcVAIggjhcVAIghjhcVAIgijhcVAIgjjhcUAIgkjhcVAIgljhgWAIgmjhgWAIgnjhgWAIgojhgWAIgpjhgVAIgqjhgWAIgrjhgVAIgsjhgWAIgtjhkWAIgujhkXAIgvjhkXAIgwjhkXAIgxjhkXAIgyjhkXAIgzjhkXAIg1jhoYAIg2jhoYAIg3jhoYAIg4jhoXAIg5jhoYAIg7jhsZAIg8jhwaAIg9jh0bAIg+jh0bAIg/jh4bAIhAjwgGAIhBjwsJAIhCjwsJAIhDjwwKAIhEjwwKAIhFjw0LAIhGjw4MAIhIjw4MAIhKjxcUAIhLjxoYAIhMkAgGAIhNkAsJAIhOkAsJAIhPkAwKAIhSkA0LAIhTkA0LAIhUkA0LAIhVkA4MAIhWkA4MAIhXkA4MAIhZkA8NAIhakBEPAIhbkBEPAIhdkBEPAIhekBIQAIhgkBIQAIhhkBIQAIhikBoYAIhjkQgGAIhkkQgFAIhlkQoHAIhnkQsIAIhokQsIAIhpkQsIAIhqkQsIAIhrkQsIAIhskQsIAIhtkQwJAIhukQwKAIhvkQwJAIhwkQwKAIhxkQwIAIhykQwJAIh0kQwJAIh1kQwJAIh2kQwJAIh3kQwKAIh5kQwJAIh8kQwJAIh9kQwJAIh+kQwKAIh/kQwJAIiAkQwJAIiBkQwKAIiCkQwJAIiDkQwKAIiEkQwJAIiFkQwKAIiHkQwJAIiIkQ0LAIiJkQ0KAIiLkQ0LAIiMkQ0LAIiNkQ0KAIiOkQ0KAIiPkQ0KAIiQkQ0KAIiRkQ0KAIiSkQ0KAIiTkQ0KAIiVkQ0KAIiWkQ0KAIiXkQ0KAIiYkQ0KAIiZkQ0KAIiakQ0KAIibkQ0KAIickQ0KAIidkQ0KAIiekQ0LAIifkQ0KAIigkQ0LAIihkQ0KAIiikQ0KAIikkQ0LAIinkQ0KAIiokQ0KAIiqkQ0KAIirkQ0KAIiskQ0LAIitkQ0LAIiukQ0KAIiwkQ0LAIixkQ4LAIiykQ4MAIi0kQ4LAIi1kQ4LAIi2kQ4LAIi3kQ4LAIi4kQ4LAIi5kQ4LAIi6kQ4LAIi8kQ4LAIi9kQ4LAIi+kQ4LAIi/kQ4LAIjAkQ4LAIjBkQ4MAIjCkQ4MAIjDkQ4LAIjEkQ4LAIjFkQ4MAIjGkQ4LAIjHkQ4MAIjJkQ4LAIjKkQ8NAIjLkQ8MAIjMkQ8MAIjNkQ8MAIjOkQ8MAIjPkQ8NAIjQkQ8MAIjSkQ8MAIjUkQ8NAIjVkQ8MAIjWkQ8MAIjXkQ8MAIjYkQ8NAIjZkQ8MAIjakQ8NAIjbkQ8NAIjckQ8MAIjdkQ8NAIjekQ8MAIjfkQ8NAIjhkQ8MAIjikQ8MAIjjkQ8MAIjkkQ8MAIjlkQ8MAIjmkREOAIjnkRANAIjokRANAIjrkRAOAIjskRANAIjukRANAIjvkRANAIjwkRANAIjxkRANAIjykRANAIjzkRAOAIj0kRAOAIj1kRAOAIj2kRANAIj3kRANAIj4kRANAIj5kRAOAIj6kRANAIj7kRAOAIj8kRANAIj9kRAOAIj+kRANAIj/kRANAIkAkRANAIkBkRAMAIkCkRANAIkEkRANAIkFkREOAIkGkREOAIkHkREOAIkJkREOAIkKkREOAIkLkREOAIkMkREOAIkOkREOAIkQkREOAIkRkREOAIkSkREPAIkTkREOAIkUkREOAIkVkREOAIkWkREOAIkXkREOAIkYkREOAIkZkREOAIkakRENAIkbkREOAIkckREPAIkdkREOAIkekRIOAIkfkRIPAIkhkRIOAIkikRIPAIkjkRIPAIkkkRIPAIklkRIPAIkmkRIPAIknkRIQAIkpkRIQAIkqkRIOAIkrkRIPAIkskRIPAIktkRIQAIkukRIQAIkvkRIPAIkwkRIQAIkxkRIQAIkykRIPAIkzkRMPAIk0kRIPAIk1kRMPAIk2kRMQAIk3kRMQAIk4kRMQAIk7kRMRAIk8kRMRAIk9kRMRAIk+kRMQAIlBkRMRAIlCkRMQAIlDkRMQAIlEkRMRAIlGkRQRAIlHkRQRAIlJkRQRAIlLkRQRAIlMkRQRAIlNkRQRAIlPkRQRAIlQkRQQAIlRkRQRAIlSkRQQAIlTkRQRAIlUkRMQAIlWkRURAIlXkRUSAIlYkRUSAIlZkRUSAIlakRURAIlbkRUSAIlckRUSAIldkRUSAIlekRUTAIlfkRUSAIlgkRUSAIlhkRUSAIlikRUSAIljkRYTAIlkkRYTAIllkRYTAIlmkRYTAIlpkRcUAIlqkRcTAIlrkRcUAIlskRcUAIltkRcUAIlukRcUAIlvkRgVAIlxkRgVAIlykRgWAIlzkRkWAIl0kRkWAIl2kRoWAIl3kRoWAIl5kRsYAIl6kRsXAIl7kRsYAIl8kRsXAIl+kggGAIl/kggGAImAkggGAImBkgsJAImCkg0KAImDkg4MAImFkg8NAImGkhQSAImHkhUTAImIkhUTAImJkhkXAImKkhsZAImLkwgHAImPkwwLAImRkwwLAImTkwwLAImUkwwLAImVkw0MAImWcQ8LAImXkw0MAImYkw0MAImakw0MAImbkw4NAImckw4NAImdkw8OAImekw8OAImfkw8OAImhkw8OAImikxAPAImjkxAPAImkkxAPAImlkxAPAImmkxEQAImnkxEQAImpkxEPAImqkxEQAImskxIRAImtkxIRAImukxIRAImvkxIRAImykxMSAImzkxMSAIm2kxQTAIm3kxQSAIm5kxUUAIm6kxUUAIm8kxYVAIm9kxYVAIm+kxcWAIm/kxcWAInAkxoYAInBk4gEAInCk4oGAInEk4wIAInFk4wIAInGcQwIAInHk40JAInIk40JAInJk40JAInKk44KAInLk48LAInMk5AMAInOk5ENAInPk5IOAInQk5MPAInRk5MPAInSlAgHAInTlAoJAInUlAoJAInVlAwLAInWlAwLAInZlAwKAInalA0MAInblA0MAInclA4NAIndlA0MAInelA0MAInflA4NAInglA4NAInhlA4NAInilA4NAInjlA4NAInklA4NAInllA4NAInmlA4NAInnlA4NAInolA8OAInplA8OAInrlA8OAInslBAPAIntlBAPAInvlBAPAInwlBEPAInxlBEQAInylBIRAInzlBIRAIn0lBMSAIn2lBQTAIn3lBUUAIn4lBUUAIn6lBYVAIn7lBcWAIn8lBcVAIn+lBgXAIn/lBoZAIoAlQgHAIoClQoJAIoDlQoJAIoElQoJAIoHlQoJAIoIlQoJAIoKlQsKAIoMlQsKAIoOlQsKAIoPlQsKAIoQlQsKAIoRlQsKAIoSlQsKAIoTlQsKAIoVlQsKAIoWlQsKAIoXlQsKAIoYlQsKAIoblQwLAIoclQwLAIodlQwLAIoelQwLAIoflQwLAIoilQwLAIojlQwLAIollQwLAIonlQwLAIoplQwLAIoqlQwLAIorlQwLAIoslQwLAIotlQwLAIowlQwLAIoxlQwLAIozlQwLAIo0lQ0MAIo2lQ0MAIo3lQ0MAIo4lQ0MAIo5lQ0MAIo6lQ0MAIo7lQ0MAIo8lQ0MAIo9lQ0MAIo+lQ0NAIo/lQ0NAIpAlQ0MAIpBlQ0MAIpElQ0MAIpFlQ0MAIpGlQ0MAIpIlQ0MAIpJlQ0MAIpKlQ0MAIpMlQ0MAIpNlQ0MAIpOlQ0LAIpPlQ0MAIpQlQ0MAIpRlQ0MAIpSlQ0MAIpUlQ0MAIpVlQ0MAIpWlQ0MAIpXlQ0MAIpYlQ0MAIpZlQ0MAIpblQ0MAIpelQ0MAIpglQ0MAIphlQ4NAIpilQ4NAIpjlQ4NAIpmlQ4NAIpnlQ4NAIpolQ4NAIpplQ4NAIprlQ4NAIpslQ4NAIptlQ4NAIpulQ4NAIpwlQ4NAIpxlQ4NAIpylQ4NAIpzlQ4NAIp0lQ4NAIp1lQ4NAIp2lQ4NAIp3lQ4NAIp5lQ4NAIp6lQ4NAIp7lQ4NAIp8lQ4NAIp+lQ4NAIp/lQ4NAIqBlQ4NAIqClQ4NAIqDlQ4NAIqElQ4NAIqFlQ4NAIqGlQ4NAIqHlQ4NAIqJlQ4NAIqKlQ4NAIqLlQ8OAIqMlQ8OAIqNlQ8OAIqPlQ8OAIqQlQ8OAIqRlQ8OAIqSlQ8OAIqTlQ8OAIqUlQ8NAIqVlQ8NAIqWlQ8OAIqYlQ8OAIqZlQ8OAIqalQ8OAIqclQ8OAIqelQ8OAIqglQ4NAIqhlQ8OAIqjlQ8OAIqklQ8OAIqllQ8OAIqmlQ8OAIqnlQ8OAIqolQ8OAIqplQ8OAIqqlQ8OAIqrlQ8OAIqslQ8OAIqtlQ8OAIqvlRAPAIqwlRAPAIqylRAPAIq0lRAPAIq2lRAPAIq4lRAPAIq5lRAPAIq6lRAPAIq7lRAPAIq8lRAPAIq9lRAPAIq+lRAPAIq/lRAPAIrAlRAPAIrClRAPAIrDlRAPAIrElRAPAIrFlRAPAIrGlRAPAIrHlRAPAIrIlRAPAIrJlRAPAIrLlRAPAIrMlRAPAIrNlRANAIrPlRAPAIrRlRAPAIrSlRAPAIrTlRAPAIrUlRAPAIrVlRAPAIrWlRAPAIrXlRAPAIrYlRAPAIrZlRAPAIralRAPAIrblREPAIrclREQAIrdlREQAIrelREQAIrflREQAIrglREQAIrhlREQAIrilREQAIrklREQAIrmlREQAIrnlREQAIrolREQAIrqlREQAIrrlREQAIrtlREQAIrulREQAIrvlREQAIrwlREQAIrxlREQAIrylREQAIrzlREQAIr0lREQAIr1lREQAIr2lREQAIr3lREQAIr4lREPAIr5lREQAIr6lREQAIr7lREQAIr8lREQAIr+lREPAIr/lREQAIsAlREQAIsBlREQAIsClREQAIsElRIRAIsFlRIRAIsGlRIRAIsHlRIRAIsIlRIRAIsKlRIQAIsLlRIRAIsMlRIRAIsNlRIRAIsOlRIQAIsPlRIQAIsQlRIRAIsRlRIRAIsSlRIRAIsTlRIRAIsUlRIQAIsVlRIRAIsWlRIRAIsXlRIRAIsYlRIRAIsZlRIRAIsalRIRAIsblRIRAIsclRIRAIsdlRIRAIselRIRAIsflRIRAIsglRIRAIshlRIRAIsilRIRAIsjlRMSAIsklRMSAIsllRMSAIsmlRMSAIsnlRMRAIsolRMRAIsqlRMSAIsrlRMSAIsslRMSAIstlRMSAIsulRMSAIsvlRMSAIswlRMRAIsxlRMSAIszlRMSAIs1lRMSAIs2lRMSAIs3lRMRAIs5lRMSAIs6lRMSAIs7lRMSAIs8lRMSAIs9lRMTAIs+lRMSAIs/lRQTAItAlRQSAItBlRQRAItClRQTAItDlRQSAItFlRQVAItGlRQTAItHlRQSAItIlRQTAItJlRQTAItKlRQTAItLlRQTAItMlRQTAItNlRUUAItOlRQTAItPlRQTAItQlRQTAItRlRQTAItSlRQTAItTlRQTAItUlRQTAItVlRQTAItWlRQTAItXlRQTAItYlRQTAItZlRQTAItalRQTAItblRQTAItclRQTAItdlRUUAItelRUUAItflRUUAItglRUUAItilRUTAItjlRUUAItllRUUAItmlRUTAItnlRUUAItolRUUAItplRUUAItqlRUTAItrlRUUAItslRUUAIttlRUUAItvlRUUAItwlRUUAItxlRUUAItylRUUAIt0lRYUAIt3lRYUAIt4lRYVAIt5lRYVAIt6lRYVAIt7lRYVAIt9lRYUAIt+lRcWAIt/lRcWAIuAlRcWAIuBlRcVAIuClRcVAIuDlRcWAIuElRcWAIuFlRcWAIuGlRgWAIuIlRgXAIuKlRgXAIuLlRgXAIuMlRgXAIuOlRgXAIuPlRgXAIuQlRgXAIuSlRkYAIuTlRkYAIuUlRkXAIuVlRkYAIuWlRkYAIuYlRoZAIuZlRoYAIualRsaAIublRsZAIuclRwbAIuelRwbAIuflR4dAIuglYgCAIuhlYoEAIuilYoEAIujlYoEAIuklYoEAIullYoEAIumlYsFAIunlYsFAIuolYsFAIuplYsFAIuqlYsFAIurlYsFAIutlYsFAIuulYsFAIuvlYsFAIuwlYsFAIuylYwGAIuzlYwGAIu0lYwGAIu1lYwGAIu2lYwGAIu3lYwGAIu4lYwGAIu5lYwGAIu6lYwGAIu8lYwGAIu9lYwGAIu+lYwGAIu/lYwGAIvAlYwGAIvBlY0HAIvClY0HAIvDlY0HAIvElY0HAIvFlY0HAIvGlY0HAIvIlY0HAIvJlY0HAIvKlY0HAIvLlY0HAIvMlY0HAIvNlY0HAIvOlY0HAIvPlY0HAIvRlY0HAIvSlY0HAIvTlY4IAIvUlY4IAIvVlY4IAIvWlY4IAIvXlY4IAIvYlY4IAIvZlY4IAIvalY4IAIvblY4IAIvclY4IAIvdlY4IAIvelY4IAIvflY4IAIvglY4IAIvhlY4IAIvilY4IAIvjlY4IAIvklY4IAIvllY4IAIvmlY4IAIvnlY4IAIvolY4IAIvplY4IAIvrlY8JAIvslY8JAIvtlY8JAIvulY8JAIvvlY8JAIvwlY8JAIvxlY8JAIvylY8JAIvzlY8JAIv0lY8JAIv1lY8JAIv2lY8JAIv3lZAKAIv4lZAKAIv5lZAKAIv6lZAKAIv7lZAKAIv8lZAKAIv9lZAKAIv+lZAKAIv/lZAKAIwAlZAKAIwBlZAKAIwClZAKAIwDlZAKAIwElZAKAIwFlZAKAIwGlZAKAIwHlZAKAIwIlZAKAIwKlZAKAIwLlZELAIwMlZELAIwNlZELAIwOlZELAIwPlZELAIwQlZELAIwRlZELAIwSlZELAIwTlZELAIwUlZELAIwVlZELAIwWlZELAIwXlZELAIwYlZELAIwZlZELAIwalZELAIwblZELAIwclZELAIwdlZELAIwflZIMAIwglZIMAIwhlZIMAIwilZIMAIwjlZIMAIwklZIMAIwllZIMAIwmlZIMAIwnlZIMAIwolZMNAIwplZMNAIwqlZMNAIwrlZMNAIwslZMNAIwtlZQOAIwulZQOAIwvlZQOAIwwlZQOAIwxlZQOAIwylZQOAIwzlZUPAIw0lZUPAIw1lZUPAIw2lZkTAIw3lggHAIw5lgwLAIw6lgwLAIw7lgwLAIw8lg4NAIw9lg8OAIw+lhAPAIw/lhIRAIxBlhIRAIxClhMSAIxDlhQSAIxFlhgXAIxGlwgHAIxHlwsKAIxIlwsKAIxJlwwLAIxKlw4NAIxLlw4NAIxMlxAPAIxNlxAPAIxOlxAPAIxPlxIRAIxQlxMSAIxRlxUUAIxUlx0cAIxVmAgHAIxWmAkIAIxXmAsKAIxamAwLAIxcmAwLAIxdmAwLAIxfmA0MAIxhmA0LAIximA4NAIxkmA4NAIxlmA4NAIxmmA4NAIxomA8OAIxpmA8OAIxqmA8OAIxrmBEPAIxsmBEPAIxtmBEQAIxvmBIRAIxwmBIRAIxxmBIQAIxymBIRAIxzmBIRAIx1mBMSAIx2mBUTAIx3mBQTAIx4mQgHAIx5mQsKAIx6mQsKAIx7mQsKAIx8mQwLAIx9mQwLAIyAmQ0MAIyBmQ0MAIyCmQ0MAIyEmQ4NAIyFmQ4NAIyGmQ4NAIyJmQ4NAIyKmQ4NAIyMmQ8OAIyNmQ8OAIyOmRAPAIyPmRAPAIyQmREQAIyRmREQAIySmREQAIyTmREPAIyUmRIRAIyVmRIRAIyXmRMSAIyYmRMRAIyZmRMSAIyamRQTAIybmRoYAIycmRwbAIydmggHAIyemgoJAIyfmgoJAIygmgoJAIyhmgsKAIyimgsKAIyjmgsKAIykmgsKAIylmgwLAIynmgwLAIyomgwLAIypmgwLAIyqmgwLAIyrmgwLAIysmgwLAIytmgwLAIyumgwLAIyvmg0MAIywmg0MAIyymg0NAIyzmg0MAIy0mg0MAIy1mg0MAIy2mg0LAIy3mg0MAIy4mg0MAIy5mg0MAIy6mg0MAIy7mg0MAIy8mg0MAIy9mg0MAIy+mg0MAIy/mg0MAIzAmg0MAIzBmg0MAIzCmg4NAIzDmg4NAIzEmg4NAIzFmg4NAIzHmg4NAIzImg4NAIzKmg4NAIzMmg4NAIzNmg4NAIzOmg4NAIzPmg8OAIzRmg8OAIzSmg8OAIzTmg8OAIzUmg8OAIzVmg8OAIzWmg8OAIzXmg8OAIzZmhAPAIzamhAPAIzbmhAPAIzcmhAPAIzdmhAPAIzemhAPAIzfmhAPAIzgmhAPAIzhmhAPAIzimhAPAIzjmhAPAIzkmhAPAIzlmhAPAIzmmhAPAIznmhAPAIzomhAPAIzpmhAPAIzqmhAPAIzrmhAPAIzsmhAPAIztmhEPAIzumhEQAIzwmhEQAIzxmhEQAIzymhEQAIzzmhEQAIz0mhEQAIz1mhEQAIz3mhIRAIz4mhIRAIz5mhIRAIz6mhIRAIz7mhIRAIz8mhIRAIz9mhIRAIz+mhMSAI0AmhMSAI0CmhMSAI0DmhMSAI0EmhMSAI0FmhMRAI0GmhQTAI0HmhQTAI0ImhQTAI0JmhQTAI0KmhQTAI0LmhQTAI0MmhQTAI0NmhUUAI0PmhUUAI0QmhYVAI0RmhYVAI0SmhYVAI0TmhYVAI0UmhYVAI0VmhcWAI0WmhcWAI0XmhcWAI0YmhcWAI0ZmhgXAI0bmhkYAI0cmhoYAI0dmogEAI0emooGAI0fmooGAI0hmosHAI0imosHAI0jmowIAI0kmowIAI0lmowIAI0mmowIAI0nmowIAI0omowIAI0pmowIAI0qmowIAI0rmowIAI0smowIAI0tmowIAI0umowIAI0vmowIAI0wmo0JAI0xmo0JAI0ymo0JAI0zmo0JAI00mo0JAI01mo0JAI02mo0JAI03mo0JAI04mo0JAI05mo0JAI06mo0JAI07mo0JAI08mo4KAI09mo4KAI0+mo4KAI0/mo4KAI1Amo4KAI1Bmo4KAI1Cmo4KAI1Dmo4KAI1Emo4KAI1Fmo4KAI1Gmo4KAI1Hmo8LAI1Imo8LAI1Jmo8LAI1Kmo8LAI1LmpAMAI1MmpAMAI1NmpAMAI1OmpAMAI1PmpAMAI1QmpAMAI1TmpAMAI1UmpAMAI1VmpAMAI1WmpENAI1YmpIOAI1ZmpIOAI1ampIOAI1bmpIOAI1cmpMPAI1dmpQQAI1empQQAI1gmpQQAI1hmpURAI1impURAI1jmpkVAI1kmwgHAI1mmwwLAI1nmwwLAI1omw4NAI1pmw4NAI1rmw8OAI1smxEQAI1tmxEPAI1umxEQAI1vmxIRAI1wnAgHAI1xnAgGAI1ynAoJAI1znAoJAI10nAoJAI11nAoJAI12nAsKAI13nAsKAI14nAsKAI15nAwLAI16nAwLAI17nAwLAI19nAwLAI2AnA0LAI2BnA0MAI2CnA0MAI2EnA0MAI2FnA0MAI2JnA0MAI2KnA0MAI2LnA0MAI2MnA4NAI2NnA4NAI2OnA4NAI2PnA4NAI2QnA4NAI2RnA4NAI2SnA4NAI2TnA4NAI2UnA4NAI2VnA8OAI2WnA8OAI2ZnA8OAI2bnBAPAI2cnBAPAI2fnBAPAI2gnBAPAI2hnBAPAI2jnBAPAI2lnBEQAI2mnBEQAI2nnBEQAI2onBIRAI2pnBQSAI2qnBQSAI2rnBQTAI2snBQTAI2tnBQTAI2unBUUAI2vnBYVAI2xnBgXAI2ynBsaAI2znQgHAI20nQoJAI21nQsKAI22nQsKAI23nQsKAI24nQsKAI25nQwLAI26nQwLAI28nQ4LAI2+nQwLAI2/nQwKAI3AnQwLAI3BnQwLAI3CnQwLAI3DnQwLAI3EnQwLAI3FnQ0MAI3GnQ0MAI3HnQ0MAI3InQ0MAI3LnQ0MAI3MnQ0MAI3NnQ0MAI3OnQ0MAI3PnQ0MAI3QnQ0NAI3RnQ0MAI3TnQ0MAI3UnQ0MAI3VnQ0MAI3WnQ0MAI3XnQ0MAI3YnQ0MAI3ZnQ0MAI3anQ0MAI3bnQ0MAI3cnQ0MAI3dnQ0LAI3enQ0MAI3fnQ4NAI3gnQ4NAI3hnQ4NAI3inQ4NAI3jnQ4NAI3knQ4NAI3mnQ4NAI3nnQ4NAI3onQ4NAI3pnQ4NAI3qnQ4NAI3rnQ4NAI3snQ4NAI3unQ4NAI3vnQ4NAI3wnQ4NAI3xnQ4NAI3ynQ4NAI3znQ4NAI30nQ4NAI31nQ0MAI33nQ4NAI34nQ4NAI35nQ4NAI36nQ4NAI37nQ4NAI38nQ8OAI39nQ8OAI3+nQ8OAI3/nQ8OAI4AnQ8OAI4BnQ8OAI4CnQ8OAI4DnQ8OAI4EnQ8OAI4FnQ8OAI4GnQ8OAI4HnQ8OAI4InQ8OAI4JnQ8OAI4KnQ8OAI4MnQ8OAI4NnQ8OAI4OnQ8OAI4PnRAPAI4QnRAPAI4RnRAPAI4SnRAPAI4TnRAPAI4UnRAPAI4VnRAPAI4WnRAPAI4XnRAPAI4YnRAPAI4ZnRAPAI4anRAPAI4bnRAPAI4cnRAPAI4dnRAPAI4enRAPAI4fnRAPAI4gnRAPAI4hnRAPAI4inRAPAI4jnRAPAI4knRAPAI4lnRAPAI4mnRAPAI4nnRAPAI4onRAPAI4pnRAPAI4qnRAPAI4rnREPAI4snRAPAI4tnRANAI4unRAPAI4vnRAPAI4wnREQAI4xnREQAI4znREQAI40nREQAI41nREQAI42nREQAI44nREQAI45nREQAI46nRAPAI48nREQAI49nREQAI4+nREQAI4/nREQAI5AnREQAI5BnREQAI5CnREQAI5EnREQAI5FnREQAI5GnRIQAI5HnRIRAI5InRIRAI5JnRIQAI5KnRIRAI5LnRIRAI5MnRIRAI5NnRIRAI5OnRIRAI5PnRIRAI5QnRIRAI5RnRIRAI5SnRIRAI5TnRIRAI5UnRMSAI5VnRMRAI5WnRMSAI5XnRMSAI5ZnRMSAI5anRMSAI5bnRMSAI5cnRMSAI5dnRMSAI5enRMSAI5fnRMSAI5gnRMSAI5hnRMSAI5inRMSAI5jnRMSAI5knRMSAI5lnRMRAI5mnRMSAI5nnRMSAI5onRQTAI5pnRQSAI5qnRQTAI5snRQTAI5tnRQTAI5vnRQTAI5wnRQTAI5xnRQTAI5ynRQTAI5znRQTAI50nRQTAI51nRQTAI52nRQTAI53nRQTAI54nRQTAI56nRQTAI57nRQTAI58nRQTAI5+nRQTAI5/nRQTAI6AnRMSAI6BnRUUAI6CnRUTAI6EnRUUAI6FnRUUAI6GnRUUAI6HnRUSAI6InRUUAI6JnRUTAI6KnRYVAI6LnRYVAI6MnRYVAI6NnRYVAI6OnRYVAI6PnRYVAI6QnRcWAI6RnRcVAI6SnRcWAI6TnRcWAI6UnRcWAI6VnRcWAI6WnRcWAI6XnRgWAI6YnRgXAI6ZnRgXAI6anRgWAI6cnRgXAI6dnRkYAI6enRkYAI6fnRkYAI6gnRkXAI6hnRoZAI6jnRoZAI6knRoYAI6lnRoZAI6mnRsaAI6nnRsaAI6onR0cAI6pnRwbAI6qnRwaAI6rnggHAI6sngsKAI6tngwLAI6vngwLAI6wng0MAI6xng4NAI6yng4NAI62nhAPAI65nhAPAI66nhAPAI68nhAPAI69nhEQAI6+nhEQAI7AnhMSAI7CnhQTAI7DnhQTAI7FnhQTAI7GnhUUAI7InhkYAI7JnhwbAI7KnwgHAI7LnwkIAI7MnwoJAI7NnwoJAI7OnwsKAI7PnwsKAI7RnwsKAI7SnwsKAI7TnwsKAI7UnwsKAI7XnwwLAI7YnwwLAI7anwwLAI7bnwwLAI7cnwwLAI7dnwwLAI7enwwLAI7fnwwLAI7gnwwLAI7hnwwLAI7inwwLAI7jnwwLAI7knw0MAI7lnw0MAI7mnw0MAI7nnw0MAI7onw0MAI7pnw0MAI7rnw0MAI7snw0MAI7tnw4NAI7unw0MAI7vnw0MAI7xnw0MAI7ynw0MAI70nw0MAI71nw0MAI72nw0MAI73nw0MAI74nw0MAI75nw0MAI76nw0MAI77nw0MAI78nw0MAI79nw0MAI7+nw4NAI7/nw4NAI8Anw4NAI8Bnw4NAI8Cnw4NAI8Dnw4NAI8Fnw4NAI8Gnw4NAI8Hnw4NAI8Inw4NAI8Jnw4NAI8Knw4NAI8Lnw4NAI8Mnw4NAI8Nnw8OAI8Onw8OAI8Qnw8OAI8Rnw8OAI8Snw8OAI8Tnw8OAI8Unw8OAI8Vnw8OAI8WnxAPAI8XnxAPAI8YnxAPAI8ZnxAPAI8anxAPAI8bnxAPAI8cnxAPAI8dnxAPAI8enxAPAI8fnxAPAI8gnxAPAI8jnxAPAI8knxAPAI8lnxAPAI8mnxAPAI8pnxAPAI8qnxAPAI8snxAPAI8tnxEQAI8unxEQAI8vnxEQAI8wnxEQAI8ynxEQAI8znxEQAI80nxEQAI81nxEQAI82nxEQAI83nxEQAI84nxEQAI85nxEQAI87nxEQAI8+nxIRAI8/nxIRAI9AnxIRAI9BnxIRAI9CnxIRAI9DnxIRAI9EnxIRAI9FnxIRAI9GnxMSAI9HnxMSAI9InxMSAI9JnxMSAI9KnxMSAI9LnxMRAI9MnxMSAI9NnxQTAI9OnxQTAI9PnxQTAI9QnxQTAI9RnxQTAI9SnxQTAI9TnxQTAI9UnxQTAI9VnxUTAI9WnxUUAI9XnxUUAI9YnxUUAI9ZnxUUAI9anxUUAI9bnxYVAI9cnxYVAI9dnxYUAI9enxYVAI9fnxYVAI9gnxcWAI9hnxcWAI9inxcWAI9jnxgXAI9knxgXAI9mn4gEAI9nn4kFAI9on4oGAI9pn4sHAI9rn4sHAI9sn4wIAI9tn4wIAI9un4wIAI9vn4wIAI9wn4wIAI9xn40JAI9yn40JAI9zn40JAI90n40JAI91n40JAI92n40JAI93n40JAI94n40JAI95n40JAI96n40JAI97n40JAI98n44KAI99n44KAI9+n44KAI9/n44KAI+Bn44KAI+Cn44KAI+Dn44KAI+En48LAI+Fn48LAI+Gn48LAI+Hn5AMAI+In5AMAI+Jn5AMAI+Kn5AMAI+Ln5AMAI+Nn5AMAI+On5AMAI+Pn5ENAI+Qn5ENAI+Rn5ENAI+Tn5ENAI+Un5ENAI+Vn5IOAI+Wn5IOAI+Xn5IOAI+Yn5MPAI+Zn5QQAI+an5QQAI+boAgHAI+coA0MAI+eoA4NAI+foA4NAI+goA4NAI+joA8OAI+loBEQAI+moBEQAI+noBEQAI+ooBEQAI+poBEQAI+roBIRAI+toBQTAI+uoBUUAI+voBYVAI+woQgHAI+xoQsKAI+yoQ4NAI+zoRAPAI+0oRQTAI+1oggHAI+2oggDAI+3ogkEAI+4ogoFAI+5ogoFAI+6ogoFAI+7ogoFAI+8ogoFAI+9ogoFAI++ogsGAI+/ogsGAI/BogsGAI/CogsGAI/EogsGAI/FogsGAI/GogsGAI/HogsGAI/IogsGAI/JogsGAI/KogwHAI/LogwHAI/MogwHAI/NogwHAI/OogwHAI/PogwHAI/QogwHAI/RogwHAI/SogwHAI/TogwHAI/UogwHAI/VogwHAI/WogwHAI/XogwHAI/YogwHAI/ZogwHAI/aogwHAI/bogwHAI/cogwHAI/dogwHAI/eogwHAI/fogwHAI/gog0IAI/hog0IAI/iog0IAI/jog0IAI/kog0IAI/log0IAI/mog0IAI/oog0IAI/pog0IAI/qog0IAI/rog0IAI/tog0IAI/uog0IAI/vog0IAI/wog0IAI/zog0IAI/0og4JAI/1og4JAI/2og4JAI/3og4JAI/4og4JAI/5og4JAI/6og4JAI/7og4JAI/8og4JAI/9og4JAI/+og4JAI//og4JAJAAog4JAJABog4JAJACog4JAJADog4JAJAEog4JAJAFog4JAJAGog4JAJAIog4JAJAJog4JAJAKog4JAJALog8KAJAMog8KAJANog8KAJAOog8KAJAPog8KAJAQog8KAJARog8KAJASog8KAJATog8KAJAUog8KAJAVog8KAJAWog8KAJAXog8KAJAZog8KAJAaog8KAJAbog8KAJAcog8KAJAdog8KAJAeog8KAJAfog8KAJAgog8KAJAhog8KAJAiog8KAJAjog8KAJAkog8KAJAmog8KAJAnog8KAJAtohALAJAuohALAJAvohALAJAxohALAJAyohALAJAzohALAJA0ohALAJA1ohALAJA2ohALAJA3ohALAJA4ohALAJA5ohALAJA7ohALAJA8ohEMAJA9ohELAJA+ohEMAJA/ohEMAJBBohEMAJBCohEMAJBEohEMAJBFohEMAJBGohEMAJBHohEMAJBJohEMAJBKohEMAJBLohEMAJBMohEMAJBNohEMAJBOohELAJBPohEMAJBQohEMAJBRohEMAJBSohEMAJBTohEMAJBUohEMAJBVohEMAJBWohEMAJBXohEMAJBYohINAJBZohINAJBbohINAJBcohINAJBdohINAJBeohINAJBgohINAJBhohINAJBiohINAJBjohINAJBkohINAJBlohINAJBnohMOAJBoohMNAJBpohMOAJBrohMOAJBsohMOAJBtohMOAJBuohMOAJBvohMOAJBwohMOAJByohQPAJBzohMNAJB0ohQPAJB1ohQPAJB2ohQPAJB3ohQPAJB4ohQPAJB5ohQPAJB6ohQPAJB7ohQPAJB8ohQPAJB9ohUQAJB+ohUQAJB/ohUQAJCAohUQAJCBohUPAJCCohUQAJCDohURAJCEohUQAJCFohUQAJCGohQPAJCHohYRAJCIohYRAJCJohURAJCKohcSAJCLohcSAJCNohgTAJCPohsWAJCQohsWAJCRowgHAJCTowoEAJCUowsFAJCVowsKAJCXowsFAJCYowsFAJCZowsFAJCbowsFAJCdowsFAJCeowwGAJCfowwGAJCgowwGAJChowwGAJCiowwGAJCjowwGAJClowwGAJCmowwGAJCnowwGAJCoowwGAJCqowwGAJCsowwGAJCuow0HAJCvow0HAJCwow0HAJCxow0HAJCyow0HAJCzow0HAJC0ow0HAJC1ow0HAJC2ow0HAJC4ow0HAJC5ow0HAJC6ow0HAJC7ow0HAJC9ow4IAJC+ow4IAJC/ow4IAJDBow4IAJDDow4IAJDEow4IAJDFow4IAJDHow4IAJDIow4IAJDKow4IAJDLow4IAJDOow4IAJDPow4IAJDQow4IAJDRow4IAJDTow4IAJDUow8IAJDVow8IAJDWow8JAJDXow8JAJDYow8IAJDZow8JAJDaow8JAJDbow8JAJDcow8JAJDdow8JAJDeow8JAJDfow8JAJDgow8JAJDhow8JAJDiow8JAJDjow8JAJDkow8JAJDlow8JAJDmow8JAJDnow8JAJDooxAKAJDpoxAKAJDqoxAKAJDroxAKAJDsoxAKAJDtoxAKAJDvoxAKAJDwoxAKAJDxoxAIAJDyoxAKAJDzoxAKAJD0oxAKAJD1oxAKAJD3oxAKAJD4oxAKAJD5oxELAJD6oxEQAJD7oxELAJD8oxELAJD9oxEKAJD+oxELAJD/oxELAJEAoxEKAJEBoxELAJECoxELAJEDoxELAJEEoxELAJEFoxELAJEGoxELAJEHoxELAJEIoxELAJEJoxELAJELoxILAJENoxIMAJEOoxIMAJEPoxIMAJEQoxIMAJERoxIMAJESoxIMAJEUoxIMAJEVoxIMAJEWoxIMAJEXoxIMAJEYoxMNAJEZoxMNAJEaoxMMAJEboxMNAJEcoxMNAJEdoxMNAJEeoxMNAJEfoxMNAJEgoxMNAJEhoxMNAJEioxMNAJEjoxMNAJEkoxMNAJEmoxQOAJEnoxQOAJEooxQSAJEpoxQOAJEqoxQOAJEroxQOAJEsoxQOAJEtoxQOAJEuoxQOAJEvoxQOAJEwoxQOAJExoxQOAJEyoxQOAJEzoxUPAJE0oxUPAJE1oxUPAJE2oxUPAJE4oxYPAJE5oxYQAJE6oxcQAJE7oxcRAJE+oxcRAJE/oxgRAJFAoxgSAJFBoxkTAJFDoxkTAJFEoxoTAJFFoxoUAJFGoxoUAJFHoxsVAJFIoxsVAJFJpAgHAJFKpAoJAJFLpAoJAJFMpAsKAJFNpAsKAJFOpAsKAJFPpAsKAJFQpAsKAJFRpAsKAJFSpAsKAJFTpAwLAJFUpAwLAJFVpAwLAJFWpAwLAJFXpAwLAJFYpAwLAJFZpAwLAJFapAwLAJFcpAwLAJFdpAwLAJFepAwLAJFfpA0MAJFgpA0MAJFhpA0MAJFipA0MAJFjpA0MAJFkpA0MAJFlpA0MAJFnpA4NAJFopA4NAJFppA4NAJFqpA4NAJFspA4NAJFupA4NAJFvpA4NAJFwpA4NAJFxpA4NAJFypA8OAJFzpA8OAJF0pA8OAJF1pA8OAJF2pA8OAJF3pA8OAJF4pA8OAJF5pA8OAJF6pA8OAJF8pA8OAJF9pA8OAJF+pA8OAJF/pA8OAJGApBAPAJGBpBAPAJGCpBAPAJGDpBAPAJGEpBAPAJGFpBAPAJGGpBAPAJGHpBAPAJGJpBAPAJGKpBAPAJGLpBAPAJGMpBAPAJGNpBEQAJGOpBEQAJGPpBEPAJGQpBEQAJGRpBEQAJGSpBEQAJGTpBEQAJGXpBEQAJGZpBIQAJGapBIQAJGbpBIQAJGcpBIQAJGdpBIQAJGepBIRAJGfpBIRAJGgpBIRAJGhpBIRAJGipBIRAJGjpBIRAJGkpBIRAJGlpBMSAJGnpBMSAJGopBMRAJGppBMSAJGqpBMSAJGrpBMSAJGspBMSAJGtpBQTAJGupBQTAJGvpBQTAJGwpBQTAJGxpBQTAJGypBUUAJGzpBUUAJG0pBUUAJG1pBUUAJG2pBUUAJG3pBUUAJG4pBUUAJG5pBYVAJG6pBYVAJG7pBYVAJG8pBgXAJG9pBkYAJG+pBkYAJHApBkYAJHBpBoaAJHCpBoYAJHDpBsaAJHEpBsaAJHFpBwaAJHGpQgHAJHHpQkIAJHIpQwLAJHJpQ0MAJHKpQ0MAJHLpRUUAJHMpggHAJHNpgoJAJHOpgwLAJHPpg0MAJHQphMSAJHRpwgIAJHTpwkJAJHUpwkJAJHVpwoKAJHWpwoKAJHXpwoKAJHYpwoKAJHZpwoKAJHapwoKAJHbpwoKAJHcpwoKAJHdpwoKAJHepwoKAJHfpwoKAJHhpwoKAJHipwoKAJHjpwsLAJHkpwsLAJHlpwsLAJHmpwsLAJHnpwsLAJHopwsLAJHppwsLAJHqpwsLAJHrpwsLAJHspwsLAJHtpwsLAJHupwsLAJHxpwsLAJHzpwsLAJH0pwsLAJH1pwsLAJH2pwsLAJH3pwsLAJH4pwsLAJH5pwsLAJH6pwsLAJH8pwsLAJH9pwwMAJH+pwwMAJH/pwwMAJIApwwMAJIBpwwMAJICpwwMAJIDpwwMAJIEpwwMAJIFpwwMAJIGpwwMAJIHpwwMAJIIpwwMAJIJpwwMAJIKpwwMAJIMpwwMAJINpwwMAJIOpwwMAJIPpwwMAJIQpwwMAJIRpwwMAJISpwwLAJITpwwMAJIUpwwMAJIVpwwMAJIWpwwMAJIXpwwMAJIYpwwMAJIZpwwMAJIapwwMAJIcpwwMAJIepwwMAJIhpwwMAJIjpwwMAJIkpwwMAJIlpwwMAJImpwwMAJInpwwMAJIopwwMAJIppwwMAJIqpwwMAJIrpwwMAJIspwwMAJItpw0OAJIupw0NAJIwpw0NAJIxpw0NAJIypw0NAJIzpw0NAJI0pw0NAJI1pw0NAJI2pw0NAJI3pw0NAJI4pw0NAJI5pw0NAJI6pw0NAJI8pw0NAJI9pw0NAJI+pw0NAJI/pw0NAJJApw0NAJJBpw0NAJJEpw0NAJJFpw0MAJJGpw0NAJJIpw0NAJJJpw0NAJJKpw0NAJJLpw0NAJJMpw0NAJJNpw0NAJJOpw0NAJJPpw0NAJJQpw0NAJJRpw0NAJJSpw0NAJJTpw0NAJJUpw0NAJJVpw0NAJJWpw0NAJJXpw0NAJJYpw0NAJJZpw0NAJJapw0NAJJbpw0NAJJdpw0NAJJepw0NAJJfpw0NAJJgpw0NAJJhpw0NAJJipw0NAJJjpw0NAJJkpw0NAJJlpw0NAJJmpw0NAJJnpw0NAJJrpw0NAJJspw0NAJJtpw0NAJJupw0NAJJvpw0MAJJwpw0NAJJxpw0NAJJypw0NAJJzpw0NAJJ0pw0NAJJ2pw4OAJJ3pw4OAJJ4pw4OAJJ5pw4OAJJ6pw4OAJJ7pw4OAJJ8pxAOAJJ9pw4OAJJ+pw4OAJJ/pw4OAJKApw4OAJKBpw4OAJKCpw4OAJKDpw4OAJKEpw4OAJKFpw4OAJKGpw4OAJKHpw4OAJKIpw4OAJKJpw4OAJKKpw4OAJKLpw4OAJKMpw4OAJKNpw4OAJKOpw4OAJKPpw0NAJKRpw4OAJKTpw4OAJKUpw4OAJKVpw4OAJKWpw4OAJKXpw4OAJKYpw4OAJKZpw4OAJKapw4OAJKbpw4OAJKcpw4OAJKdpw4OAJKgpw4OAJKhpw4OAJKipw4OAJKjpw4OAJKkpw4OAJKlpw4OAJKmpw4OAJKnpw4OAJKopw4OAJKppw4OAJKqpw4OAJKrpw4OAJKspw4OAJKtpw4OAJKupw4OAJKxpw4OAJKypw8PAJKzpw8PAJK0pw8PAJK1pw8PAJK2pw8PAJK3pw8PAJK5pw8PAJK6pw8PAJK7pw8PAJK8pw8PAJK+pw8PAJK/pw8PAJLApw8PAJLBpw8OAJLCpw8PAJLDpw8PAJLEpw8PAJLFpw8PAJLGpw8PAJLHpw8PAJLIpw8PAJLJpw8PAJLKpw8PAJLLpw8OAJLMpw8OAJLNpw8PAJLOpw8PAJLPpw8PAJLQpw8PAJLRpw8PAJLSpw8PAJLTpw8PAJLUpw8PAJLVpw8PAJLXpw8PAJLYpw8PAJLZpw8PAJLbpw8PAJLdpw8PAJLepw8PAJLfpw8PAJLgpw8PAJLhpw8PAJLjpw8OAJLkpw8PAJLlpw8PAJLmpw8PAJLnpw8PAJLopw8PAJLppw8OAJLqpw8PAJLrpw8PAJLspw8PAJLtpw8PAJLupw8OAJLvpw8PAJLwpw8PAJLxpw8PAJLypw8PAJLzpw8PAJL0pw8PAJL2pw8PAJL3pxAQAJL4pxAQAJL5pxAQAJL6pxAQAJL7pxAQAJL8pxAQAJL9pxAQAJL+pxAQAJL/pxAQAJMApxAQAJMBpxAQAJMCpxAQAJMDpxAQAJMEpxAQAJMGpxAQAJMHpxAQAJMIpxAQAJMJpxAQAJMLpxAQAJMMpxAQAJMNpxAQAJMOpxAQAJMPpxAQAJMQpxAQAJMSpxAPAJMTpxAPAJMUpxAQAJMVpxAQAJMWpxAQAJMYpxAQAJMZpxAQAJMapxAOAJMbpxAQAJMdpxAQAJMepxAQAJMfpxAQAJMgpxAQAJMhpxAQAJMipxAQAJMjpxAQAJMkpxAQAJMlpxAQAJMmpxAQAJMnpxAQAJMopxEQAJMppxAQAJMqpxAQAJMrpxAQAJMspxAQAJMtpxAQAJMupxAQAJMvpxAQAJMwpxAQAJMxpxAQAJMypxAQAJMzpxAQAJM0pxAQAJM1pxAPAJM2pxAQAJM4pxAQAJM5pxAQAJM6pxAPAJM7pxAQAJM8pxAQAJM+pxAQAJNApxAQAJNBpxAQAJNCpxAQAJNDpxAQAJNEpxAQAJNFpxAQAJNGpxAQAJNHpxERAJNIpxAQAJNJpxERAJNKpxERAJNLpxEQAJNMpxERAJNNpxERAJNOpxERAJNPpxERAJNQpxERAJNRpxERAJNSpxERAJNUpxERAJNVpxERAJNWpxERAJNXpxERAJNYpxERAJNZpxERAJNapxERAJNbpxERAJNcpxERAJNepxERAJNfpxERAJNgpxERAJNhpxERAJNipxERAJNjpxEQAJNkpxERAJNlpxERAJNmpxERAJNnpxERAJNopxERAJNppxEQAJNqpxERAJNrpxERAJNspxERAJNtpxERAJNupxERAJNwpxERAJNxpxERAJNzpxERAJN0pxERAJN1pxEQAJN2pxERAJN3pxERAJN4pxERAJN5pxERAJN6pxEQAJN7pxERAJN8pxERAJN9pxERAJN+pxERAJOApxERAJOBpxEQAJOCpxERAJODpxERAJOEpxERAJOFpxERAJOGpxERAJOHpxERAJOIpxIRAJOJpxISAJOKpxISAJOMpxISAJONpxISAJOOpxISAJOPpxISAJOQpxISAJORpxISAJOSpxISAJOUpxISAJOVpxISAJOWpxISAJOXpxISAJOYpxISAJOZpxISAJOapxIRAJObpxISAJOcpxISAJOdpxIRAJOepxISAJOfpxISAJOgpxISAJOhpxIRAJOipxISAJOjpxISAJOkpxISAJOlpxISAJOmpxISAJOnpxISAJOopxISAJOppxMSAJOqpxIRAJOspxISAJOtpxISAJOupxISAJOvpxIQAJOwpxISAJOxpxISAJOypxISAJOzpxISAJO0pxISAJO1pxISAJO3pxISAJO4pxISAJO5pxIRAJO6pxIRAJO7pxISAJO9pxISAJO/pxISAJPApxMTAJPCpxMTAJPDpxMTAJPEpxMTAJPGpxMTAJPHpxMTAJPIpxMSAJPKpxMSAJPLpxMTAJPMpxMSAJPNpxMTAJPOpxMSAJPPpxMTAJPQpxMTAJPRpxMTAJPSpxMTAJPTpxMTAJPUpxMTAJPVpxMTAJPWpxMTAJPXpxMTAJPYpxMTAJPZpxMTAJPapxMTAJPbpxMTAJPcpxMTAJPdpxMTAJPepxMTAJPfpxMTAJPgpxMSAJPhpxMTAJPipxMTAJPjpxMTAJPkpxMTAJPlpxMTAJPmpxMTAJPnpxMTAJPopxMTAJPspxMTAJPupxMTAJPwpxMTAJPxpxMTAJPzpxQUAJP0pxUVAJP1pxQSAJP2pxQUAJP3pxQUAJP4pxQUAJP5pxMUAJP6pxQUAJP7pxQUAJP8pxQUAJP9pxQVAJP+pxQUAJP/pxQUAJQApxQUAJQBpxQUAJQDpxQUAJQEpxQTAJQGpxQTAJQHpxQUAJQIpxQUAJQJpxQUAJQKpxQTAJQLpxQUAJQMpxQTAJQNpxQUAJQOpxQUAJQPpxQUAJQQpxQUAJQRpxQUAJQSpxQUAJQTpxQUAJQUpxQUAJQVpxQUAJQWpxQUAJQXpxQUAJQYpxQUAJQZpxQUAJQapxQUAJQbpxQUAJQdpxQUAJQgpxQUAJQhpxQUAJQkpxQUAJQlpxQUAJQmpxQUAJQnpxQUAJQopxQUAJQppxUUAJQqpxUVAJQrpxUUAJQspxUVAJQtpxUUAJQupxUVAJQvpxUTAJQwpxUVAJQxpxUVAJQypxUVAJQzpxUVAJQ1pxUVAJQ2pxUVAJQ3pxUUAJQ4pxUVAJQ5pxUTAJQ6pxUVAJQ7pxUVAJQ8pxUUAJQ9pxUUAJQ+pxUVAJQ/pxUVAJRApxUVAJRBpxUVAJRCpxYWAJRDpxYWAJREpxYWAJRFpxYWAJRGpxYWAJRHpxYWAJRIpxYWAJRJpxYVAJRKpxYVAJRLpxYWAJRMpxYWAJRNpxYWAJRPpxYWAJRQpxYWAJRRpxYWAJRSpxYWAJRTpxYVAJRUpxYWAJRVpxcXAJRXpxcXAJRYpxcXAJRapxcXAJRbpxcWAJRdpxcVAJRepxcXAJRgpxcXAJRipxcXAJRjpxcXAJRkpxcXAJRlpxcXAJRnpxYWAJRopxgYAJRppxgYAJRqpxgYAJRrpxgYAJRspxgYAJRtpxkZAJRupxkYAJRvpxkZAJRwpxkZAJRxpxkZAJRypxkZAJRzpxkZAJR0pxoaAJR1pxoZAJR2pxoZAJR3pxoaAJR4pxoaAJR5pxoaAJR7pxsbAJR8pxsbAJR9pxsbAJR+pxsbAJR/pxscAJSApxwcAJSBpxwcAJSCpxwcAJSDpx0dAJSFp4gFAJSGp4kGAJSHp4kGAJSIp4oHAJSJp4oHAJSKp4oHAJSLp4oHAJSMp4oHAJSNp4sIAJSOp4sIAJSPp4sIAJSQp4sIAJSSp4sIAJSTp4sIAJSUp4sIAJSVp4sIAJSXp4sIAJSZp4wJAJSap4wJAJSbp4wJAJScp4wJAJSdp4wJAJSep4wJAJSfp4wJAJSgp4wJAJShp4wJAJSip4wJAJSjp4wJAJSkp4wJAJSlp4wJAJSmp4wJAJSnp4wJAJSop4wJAJSpp4wJAJSqp4wJAJSrp4wJAJSsp4wJAJStp4wJAJSup4wJAJSvp4wJAJSwp40KAJSxp40KAJSyp40KAJSzp40KAJS0p40KAJS1p40KAJS2p40KAJS3p40KAJS4p40KAJS5p40KAJS6p40KAJS7p40KAJS8p40KAJS9p40KAJS+p40KAJS/p40KAJTAp40KAJTBp40KAJTCp40KAJTDp40KAJTEp40KAJTFp40KAJTGp40KAJTIp40KAJTJp40KAJTKp40KAJTLp40KAJTMp40KAJTNp40KAJTOp40KAJTQp44LAJTRp44LAJTSp44LAJTVp44LAJTWp44LAJTXp44LAJTYp44LAJTZp44LAJTbp44LAJTcp44LAJTdp44LAJTep44LAJTfp44LAJTgp44LAJThp44LAJTip44LAJTjp44LAJTkp44LAJTlp44LAJTnp44LAJTop44LAJTpp44LAJTqp44LAJTrp44LAJTsp44LAJTtp44LAJTup44LAJTvp44LAJTwp44LAJTxp44LAJTyp44LAJTzp44LAJT0p44LAJT1p44LAJT2p44LAJT3p44LAJT4p48MAJT5p48MAJT6p48MAJT8p48MAJT9p48MAJT+p48MAJT/p48MAJUAp48MAJUBp48MAJUCp48MAJUDp48MAJUEp48MAJUFp48MAJUGp48MAJUHp48MAJUIp48MAJUJp48MAJUKp48MAJULp48MAJUMp48MAJUNp48MAJUOp48MAJUPp48MAJUQp48MAJURp48MAJUSp48MAJUTp48MAJUUp48MAJUVp48MAJUWp5ANAJUXp5ANAJUYp5ANAJUZp5ANAJUap5ANAJUbp5ANAJUdp5ANAJUep5ANAJUfp5ANAJUhp5ANAJUip5ANAJUjp5ANAJUkp5ANAJUlp5ANAJUmp5ANAJUop5ANAJUpp5ANAJUqp5ANAJUrp5ANAJUsp5ANAJUtp5ANAJUup5ANAJUvp5ANAJUwp5ANAJUxp5ANAJUyp5EOAJU0p5EOAJU1p5EOAJU2p5EOAJU3p5EOAJU4p5EOAJU5p5EOAJU6p5EOAJU7p5EOAJU8p5EOAJU+p5EOAJU/p5EOAJVAp5EOAJVBp5EOAJVCp5EOAJVEp5EOAJVFp5EOAJVGp5IPAJVHp5IPAJVJp5IPAJVKp5IPAJVMp5IPAJVNp5IPAJVOp5IPAJVPp5IPAJVQp5IPAJVRp5IPAJVSp5IPAJVTp5IPAJVUp5IPAJVWp5MQAJVXp5MQAJVYp5MQAJVZp5MQAJVbp5MQAJVcp5MQAJVdp5MQAJVep5MQAJVfp5MQAJVhp5QRAJVip5QRAJVjp5QRAJVkp5QRAJVlp5QRAJVmp5QRAJVnp5QRAJVop5QRAJVpp5QRAJVqp5QRAJVrp5QRAJVsp5USAJVtp5USAJVvp5USAJVwp5USAJVxp5USAJVyp5YTAJVzp5cUAJV2p5kWAJV3qAgIAJV4qAgHAJV6qAwLAJV7qA0MAJV8qBAPAJV9qBQTAJV/qIgEAJWAqQgIAJWCqQkJAJWDqQoKAJWFqQoKAJWGqQsLAJWHqQsLAJWIqQsLAJWJqQsLAJWKqQsLAJWLqQwMAJWMqQwMAJWNqQwMAJWOqQwMAJWPqQwMAJWQqQwMAJWRqQwMAJWSqQwMAJWTqQwMAJWUqQwMAJWWqQwMAJWXqQwMAJWYqQ0NAJWZqQ0NAJWbqQ0NAJWcqQ0NAJWeqQ0NAJWfqQ0NAJWgqQ0NAJWhqQ4OAJWiqQ4OAJWjqQ4OAJWkqQ4OAJWlqQ4OAJWmqQ4OAJWnqQ4OAJWoqQ4OAJWpqQ4OAJWqqQ4OAJWrqQ8PAJWsqQ8PAJWtqQ8OAJWuqQ8OAJWwqQ8OAJWxqQ8PAJWyqQ8PAJW1qRAQAJW2qRAQAJW3qREQAJW5qRAQAJW6qRAQAJW7qRAQAJW8qRAQAJW9qRAQAJW+qRAQAJW/qRAQAJXAqRARAJXDqRERAJXFqRERAJXGqRERAJXHqRERAJXIqRERAJXJqRERAJXKqRERAJXLqRERAJXMqRERAJXNqREQAJXQqRISAJXRqRISAJXSqRISAJXTqRISAJXUqRISAJXVqRISAJXWqRISAJXYqRISAJXaqRMTAJXbqRMTAJXcqRMTAJXeqRQTAJXfqRQUAJXgqRQUAJXhqRQUAJXiqRUVAJXjqRUVAJXkqRUVAJXlqRUUAJXoqYgDAJXpqYkEAJXqqYoFAJXrqYsGAJXtqYsGAJXuqYsGAJXvqYsGAJXwqYwHAJXxqYwHAJXyqYwHAJXzqYwHAJX0qYwHAJX1qYwHAJX2qYwHAJX3qYwHAJX4qY0IAJX5qY0IAJX6qY4JAJX7qY4JAJX8qY4JAJX9qY4JAJX+qY4JAJYAqY4JAJYBqY4JAJYCqY4JAJYDqY8KAJYEqY8KAJYFqY8KAJYGqY8KAJYIqZALAJYJqZALAJYKqZALAJYLqZALAJYMqZALAJYNqZALAJYOqZALAJYPqZALAJYQqZALAJYRqZEMAJYSqZEMAJYUqZEMAJYVqZEMAJYWqZINAJYXqZINAJYZqZINAJYaqZMOAJYcqggIAJYdqggCAJYeqgoEAJYfqgoEAJYgqgsFAJYhqgsFAJYiqgsFAJYjqgsFAJYkqgsFAJYoqgwGAJYqqgwGAJYsqgwGAJYtqgwGAJYuqgwGAJYvqgwGAJYwqgwGAJYxqgwGAJYyqgwGAJYzqgwGAJY0qgwGAJY1qgwGAJY2qgwGAJY4qg0HAJY5qg0HAJY6qg0HAJY7qg0HAJY8qg0HAJY9qg0HAJY/qg0HAJZAqg0HAJZBqg0HAJZCqg0HAJZDqg0HAJZEqg0HAJZFqg0HAJZGqg0HAJZHqg0HAJZIqg0HAJZJqg0HAJZKqg4IAJZLqg4IAJZMqg4IAJZNqg4IAJZOqg4IAJZPqg4IAJZQqg4IAJZRqg4IAJZTqg4IAJZUqg4IAJZVqg4IAJZWqg8JAJZYqg8JAJZbqg8JAJZcqg8JAJZdqg8JAJZeqg8JAJZfqg8JAJZhqg8JAJZiqg8JAJZjqg8JAJZkqg8JAJZlqg8JAJZmqg8JAJZnqg8JAJZoqg8JAJZpqg8JAJZqqhAKAJZrqhAKAJZsqhAKAJZtqhAKAJZvqhAKAJZwqhAKAJZxqhAKAJZyqhAKAJZzqhAKAJZ0qhAKAJZ1qhAKAJZ2qhAKAJZ3qhAKAJZ4qhAKAJZ6qhAKAJZ7qhELAJZ8qhEKAJZ9qhELAJZ+qhELAJaAqhELAJaBqhELAJaDqhELAJaEqhELAJaFqhELAJaGqhELAJaHqhELAJaIqhELAJaJqhELAJaKqhELAJaLqhELAJaNqhELAJaOqhELAJaPqhELAJaQqhELAJaRqhIMAJaSqhIMAJaTqhIMAJaUqhIMAJaVqhIMAJaWqhIMAJaXqhILAJaYqhIMAJaZqhIMAJabqhMNAJacqhMNAJadqhMNAJaeqhMMAJagqhMNAJahqhMNAJaiqhQOAJajqhQOAJakqhQOAJalqhQOAJanqhUOAJaoqhUOAJapqhUOAJaqqhUPAJasqhYQAJauqhYQAJavqhYQAJawqhYQAJaxqhYQAJayqhYQAJazqhcRAJa0qhgSAJa2qwgIAJa3qxAQAJa4qxERAJa5rAgIAJa7rAoKAJa8rAoKAJa9rAoKAJa+rAoKAJa/rAsLAJbArAsLAJbBrAwMAJbCrAwMAJbDrAwMAJbErAwMAJbFrAwMAJbGrAwMAJbHrAwMAJbIrAwMAJbJrA0NAJbKrA0NAJbLrA0MAJbMrA0OAJbNrA0NAJbOrA0NAJbPrA0NAJbRrA4OAJbSrA4OAJbTrA8PAJbUrBAQAJbVrBAQAJbWrBERAJbXrBISAJbYrBIRAJbZrBISAJbarBIRAJbbrBISAJbcrBISAJbdrBISAJberBISAJbfrBISAJbgrBISAJbhrBMTAJbirBMSAJbjrBMTAJblrBgYAJborQgIAJbprQsLAJbqrQsLAJbrrQsLAJbvrQwMAJbwrQwMAJbxrQwMAJbyrQwMAJbzrQwMAJb0rQ0NAJb1rQ0NAJb2rQ0NAJb3rQ0NAJb4rQ0NAJb5rQ0NAJb6rQ0NAJb7rQ0NAJb9rQ0NAJb+rQ0NAJb/rQ4OAJcArQ4OAJcBrQ4OAJcCrQ8PAJcDrQ8PAJcErQ8PAJcFrQ8PAJcGrQ8OAJcHrQ8PAJcIrQ8PAJcJrQ8PAJcKrQ8PAJcLrRAQAJcNrRAQAJcOrRAQAJcPrRAQAJcQrRAQAJcRrRAQAJcSrRAQAJcTrRAQAJcWrRAQAJcYrRERAJcZrREQAJcbrRERAJccrRERAJcdrRERAJcerRERAJcfrRERAJcgrRERAJchrRIRAJcirRISAJcjrRISAJckrRISAJclrRISAJcmrRMTAJcnrRMSAJcorRMTAJcprRMSAJcqrRMTAJcrrRMTAJcsrRMTAJctrRMTAJcurRQUAJcvrRQUAJcwrRQUAJcxrRQUAJcyrRQVAJczrRQTAJc0rRQUAJc1rRUUAJc2rRUVAJc4rRUVAJc5rRUVAJc6rRUVAJc7rRUVAJc9rRYWAJc+rRYWAJc/rRYVAJdArRYVAJdBrRcXAJdCrRgYAJdDrRgYAJdErRgYAJdGrRgXAJdHrRgYAJdIrRgYAJdJrRkZAJdKrRoaAJdLrRsbAJdNrRsbAJdPrR0dAJdRrggIAJdSrggIAJdTrgwMAJdVrg0NAJdWrg0NAJdXrg4OAJdYrg4OAJdZrg4OAJdarg8PAJdbrhAQAJdcrhAQAJddrhISAJderwgIAJdfrwwMAJdgrw8PAJdhrxMTAJdisAgJAJdksA0OAJdlsA4PAJdmsA8QAJdosBYXAJdpsQgJAJdqsQoLAJdrsQsMAJdssQsMAJdtsQsMAJdusQsMAJdwsQsMAJdxsQsMAJdysQwNAJdzsQwNAJd0sQwNAJd2sQwNAJd3sQwNAJd4sQwMAJd5sQwNAJd6sQ0OAJd7sQ0OAJd8sQ0OAJd9sQ0OAJd+sQ0OAJd/sQ0OAJeAsQ0OAJeBsQ0OAJeCsQ0OAJeDsQ0OAJeEsQ0OAJeFsQ0OAJeGsQ0OAJeHsQ4PAJeIsQ4PAJeJsQ4PAJeKsQ4PAJeLsQ4PAJeNsQ4PAJeOsQ4PAJePsQ4PAJeQsQ4PAJeRsQ4PAJeSsQ4PAJeUsQ8QAJeXsQ8PAJeYsQ8QAJeZsQ8QAJeasRARAJebsRARAJecsRARAJedsRARAJeesRARAJefsRARAJegsRARAJehsRARAJeisRESAJejsRESAJeksRESAJelsRESAJemsRESAJeosRESAJeqsRESAJersRESAJessRERAJetsRESAJeusRESAJevsRESAJexsRITAJeysRITAJezsRISAJe0sRITAJe2sRITAJe3sRITAJe4sRMTAJe5sRMTAJe6sRMUAJe7sRMUAJe9sRQVAJe+sRQTAJe/sRQVAJfAsRUWAJfBsRUWAJfCsRUWAJfDsRUVAJfEsRYWAJfFsRYXAJfGsRcYAJfHsRcYAJfIsRcXAJfJsRkZAJfLsggJAJfMsgsMAJfNsg0OAJfOsg0OAJfPsg4PAJfQsg4PAJfSsg8QAJfTshARAJfUshARAJfVshARAJfWshESAJfXshESAJfYshESAJfZshESAJfcshITAJfdshITAJfeshISAJffshITAJfgshMTAJfhshQTAJfjshUWAJflshcYAJfmsogEAJfnsosHAJfpspAMAJfqspENAJfrspENAJfsspIOAJftswgJAJfuswwMAJfwsw8QAJfxsxARAJfysxITAJfztAgJAJf1tAwNAJf2tA0OAJf4tA8QAJf5tBESAJf6tBERAJf7tBITAJf9tBMUAJf+tBMUAJf/tBMUAJgAtBYWAJgBtQgJAJgCtQoLAJgDtQoLAJgEtQoLAJgFtQsMAJgGtQsMAJgHtQsMAJgItQsMAJgKtQwNAJgMtQwNAJgNtQwNAJgOtQwNAJgPtQwNAJgQtQwNAJgRtQwNAJgStQwNAJgTtQwNAJgUtQ0OAJgVtQ0OAJgWtQ0OAJgXtQ0OAJgYtQ0OAJgatQ0OAJgbtQ4PAJgctQ4PAJgdtQ4PAJgetQ4PAJgftQ4PAJggtQ4PAJghtQ4PAJgjtQ4PAJgktQ8QAJgmtQ4PAJgntQ4PAJgotQ4PAJgptQ4PAJgrtQ4PAJgstQ4PAJgttQ8QAJgutQ8QAJgvtQ8QAJgwtQ8QAJgytQ8PAJgztQ8QAJg0tQ8QAJg1tQ8QAJg3tQ8QAJg4tQ8QAJg5tQ8QAJg7tQ8QAJg8tQ8QAJg9tQ8QAJhBtRARAJhDtRARAJhEtRARAJhFtRARAJhGtRARAJhHtRARAJhItRARAJhJtRARAJhKtRARAJhLtRESAJhMtRESAJhNtRESAJhOtRESAJhPtRESAJhQtRESAJhRtRESAJhStRESAJhTtRESAJhUtRESAJhVtRESAJhWtRITAJhXtRITAJhYtRITAJhZtRITAJhbtRITAJhctRITAJhdtRISAJhetRITAJhftRMUAJhgtRMUAJhitRMUAJhjtRMUAJhktRQVAJhltRQVAJhmtRQVAJhntRQVAJhotRQVAJhptRUWAJhqtRUWAJhrtRUWAJhstRYXAJhvtRYXAJhwtRcYAJhxtRgZAJhytRgZAJhztRobAJh0tRoaAJh1tYgGAJh2tYoIAJh3tYoIAJh4tYsJAJh5tYsJAJh6tYsJAJh7tYsJAJh8tYwKAJh9tYwKAJh+tYwKAJh/tYwKAJiAtYwKAJiBtYwKAJiCtYwKAJiDtYwKAJiEtYwKAJiFtY0LAJiGtY0LAJiHtY0LAJiItY0LAJiJtY4MAJiKtY4MAJiMtY4MAJiNtY4MAJiPtY4MAJiQtY8NAJiRtY8NAJiTtY8NAJiUtY8NAJiWtY8NAJiXtZAOAJiYtZEPAJiatZEPAJibtZEPAJictZEPAJidtZEPAJietZIQAJiftZIQAJigtZIQAJihtZIQAJiitZQSAJiktZUTAJiltZYUAJimtZcVAJintZkXAJiotggJAJiptgsMAJiqtgsMAJistgwNAJittg0OAJiutg0OAJivtg0OAJixtg0OAJiytg4PAJiztg4PAJi0tg8QAJi2thARAJi3thARAJi4thESAJi5thESAJi6thESAJi7thITAJi8thISAJi9thITAJi+thISAJi/thITAJjAthITAJjBthMUAJjCthMUAJjDthMUAJjEthMUAJjGthQVAJjHthQVAJjIthQVAJjJthQVAJjKthQVAJjLthUWAJjMthoaAJjOtogEAJjRto0JAJjSto0JAJjTtpAMAJjVtpINAJjYtpMPAJjZtpQQAJjatpQQAJjbtwgJAJjctxQVAJjet4gDAJjfuAgJAJjguAgIAJjhuAoLAJjiuAoKAJjjuAoKAJjluAsLAJjmuAsLAJjnuAsMAJjouAsMAJjpuAwMAJjquAwMAJjruAwMAJjsuAwNAJjtuAwMAJjuuAwNAJjvuAwMAJjxuAwNAJjyuAwMAJj0uA0NAJj1uA0NAJj2uA0NAJj5uA0NAJj6uA4PAJj8uA0NAJj9uA0NAJj+uA0NAJkAuA4NAJkCuA4OAJkDuA4OAJkFuA4OAJkHuA4OAJkIuA4PAJkJuA4OAJkKuA4OAJkMuA4OAJkNuA4PAJkOuA4OAJkQuA8QAJkRuA8PAJkSuA8PAJkTuA8PAJkUuA8PAJkVuA8PAJkWuA8PAJkXuA8PAJkYuA8PAJkZuA8PAJkauBAQAJkbuBAQAJkcuBAQAJkduA8PAJkeuBAQAJkfuBAQAJkguBAQAJkhuBAQAJkkuBAQAJkluBARAJknuBAQAJkouBAQAJkpuBAQAJkquBERAJkruBERAJksuBERAJktuBERAJkuuBESAJkvuBERAJkwuBERAJkxuBERAJkyuBERAJkzuBERAJk1uBERAJk3uBERAJk4uBIRAJk5uBISAJk6uBISAJk7uBISAJk8uBISAJk9uBIRAJk+uBISAJk/uBIRAJlAuBISAJlBuBISAJlCuBIRAJlDuBISAJlFuBMTAJlHuBMTAJlIuBMSAJlJuBMTAJlKuBQUAJlLuBQUAJlMuBQUAJlNuBQUAJlOuBQUAJlQuBQUAJlRuBQUAJlSuBQUAJlTuBQUAJlUuBUWAJlVuBUWAJlWuBUVAJlXuBUUAJlYuBUVAJlZuBUUAJlbuBYVAJlcuBYXAJlduBgYAJleuBkZAJlfuBkZAJlhuBsbAJliuB4eAJljuIgDAJlluIoFAJlnuIsGAJlouIwHAJlpuIwHAJlquIwHAJlruIwHAJlsuIwHAJltuIwHAJluuIwHAJlvuI0IAJlwuI0IAJlxuI0IAJlyuI0IAJl0uI0IAJl1uI4JAJl2uI4JAJl3uI4JAJl6uI4JAJl8uI4JAJl9uI8KAJl/uI8KAJmAuI8KAJmBuI8KAJmEuJALAJmFuJALAJmGuJALAJmHuJEMAJmIuJEMAJmKuJEMAJmLuJEMAJmNuJINAJmPuJINAJmQuJINAJmRuJMOAJmSuJMOAJmTuJQPAJmUuJQPAJmVuJ4ZAJmWuQgJAJmXuQoLAJmYuRARAJmZuggJAJmbug0OAJmcug0OAJmdug0OAJmeug8QAJmhuhARAJmjuhARAJmkuhESAJmluhESAJmmuhITAJmnuhISAJmouhMUAJmquhYXAJmruhobAJmsuwgKAJmtuwoMAJmuuwoMAJmvuwsNAJmwuwsNAJmxuwsNAJmyuwsNAJmzuwsNAJm0uwsNAJm1uwsNAJm4uwwOAJm5uwwOAJm6uwwNAJm7uwwOAJm8uwwOAJm9uwwOAJnBuwwOAJnCuwwOAJnDuwwOAJnEuwwOAJnFuwwOAJnGuwwOAJnHuwwOAJnIuw0PAJnJuw0PAJnLuw0PAJnMuw0PAJnNuw0PAJnOuw0PAJnPuw0OAJnQuw0PAJnRuw0PAJnSuw0PAJnTuw0PAJnUuw0PAJnVuw0PAJnWuw0PAJnXuw0PAJnYuw0PAJnZuw0PAJnauw0PAJnbuw0PAJncuw0PAJnduw0PAJnfuw0PAJnguw0PAJnhuw4QAJniuw4QAJnjuw4QAJnkuw4QAJnluw4QAJnmuw4QAJnnuw4QAJnpuw4QAJnquw4QAJnsuw4QAJntuw4QAJnuuw4QAJnwuw4QAJnxuw4QAJnyuw4QAJn0uw8RAJn1uw8RAJn2uw8RAJn3uw8RAJn4uw8RAJn5uw8RAJn6uw8RAJn7uw8RAJn8uw8RAJn9uw8RAJn+uw8RAJn/uw8RAJoBuw8RAJoCuw8RAJoDuw8RAJoEuxASAJoFuxASAJoGuxASAJoHuxASAJoJuxASAJoKuxASAJoLuxASAJoMuxASAJoNuxASAJoOuxASAJoPuxASAJoQuxASAJoRuxASAJoSuxASAJoTuxASAJoUuxETAJoVuxETAJoWuxETAJoZuxETAJoauxETAJobuxETAJocuxETAJoduxESAJoeuxETAJofuxETAJoguxETAJohuxETAJoiuxETAJojuxETAJokuxETAJoluxETAJomuxETAJonuxESAJoouxETAJopuxITAJoquxITAJoruxIUAJosuxIUAJotuxITAJouuxIUAJovuxIUAJowuxIUAJoxuxIUAJoyuxITAJo0uxIUAJo1uxIUAJo2uxIUAJo3uxITAJo4uxIUAJo5uxMVAJo6uxMVAJo7uxMVAJo8uxMVAJo9uxMVAJo+uxMVAJo/uxMVAJpAuxMUAJpBuxMUAJpCuxMVAJpDuxMVAJpEuxMVAJpFuxMVAJpGuxMUAJpIuxQWAJpJuxQVAJpKuxQUAJpMuxQXAJpNuxQWAJpOuxQWAJpPuxQWAJpQuxQWAJpSuxQWAJpTuxQWAJpUuxQWAJpVuxQWAJpWuxUXAJpXuxUXAJpYuxUXAJpZuxUXAJpauxUWAJpbuxUXAJpcuxUXAJpeuxYYAJpfuxYYAJpguxgaAJpiuxgaAJpjuxgaAJpkuxkbAJpluxkaAJpmuxkbAJpnuxkbAJpouxocAJppuxobAJpquxsdAJpruxweAJpsu4gDAJptu4oFAJpuu4sGAJpvu4sGAJpwu4sGAJpxu4wHAJpzu4wHAJp0u4wHAJp1u40IAJp2u40IAJp3u40IAJp4u40IAJp5u40IAJp6u40IAJp7u40IAJp8u40IAJp9u40IAJp+u40IAJp/u40IAJqAu40IAJqBu44JAJqCu44JAJqEu44JAJqFu44JAJqGu44JAJqHu44JAJqIu44JAJqKu48KAJqLu48KAJqMu48KAJqPu48KAJqQu5ALAJqRu5ALAJqSu5ALAJqTu5ALAJqWu5ALAJqXu5EMAJqYu5EMAJqau5EMAJqbu5EMAJqcu5INAJqdu5INAJqeu5INAJqfu5INAJqgu5MOAJqhu5MOAJqiu5MOAJqju5QPAJqku5YRAJqlu5gTAJqnu5kUAJqovAgJAJqrvAsMAJqtvAsMAJqvvAwNAJqwvAwNAJqxvAwNAJqyvA0OAJqzvA0OAJq0vA0PAJq2vA0OAJq3vA0OAJq4vA4PAJq5vA4PAJq6vA4PAJq7vA4PAJq8vA4PAJq9vA8QAJq+vA8QAJq/vBAPAJrAvBARAJrBvBARAJrCvBESAJrEvBESAJrFvBESAJrGvBITAJrHvBITAJrKvBISAJrLvBITAJrMvBITAJrNvBMUAJrPvBMUAJrQvBQVAJrRvBUWAJrSvBUVAJrTvBUVAJrUvBUWAJrVvBYXAJrWvBcXAJrXvBgZAJrYvQgKAJrZvQgLAJrcvRASAJrevRUXAJrfvggKAJrgvgoMAJrhvgsNAJrivgsNAJrjvgwOAJrmvgwOAJrnvgwOAJrqvgwOAJrrvg0PAJrsvg0PAJrtvg0QAJruvg0PAJrvvg0PAJrxvg0PAJryvg0PAJrzvg0PAJr0vg0PAJr2vg4QAJr3vg4QAJr5vg4QAJr6vg4QAJr7vg4QAJr8vg8RAJr9vg8RAJr+vg8RAJr/vg8RAJsBvg8RAJsCvg8RAJsDvhASAJsEvhASAJsFvhASAJsGvhASAJsIvhASAJsJvhETAJsKvhETAJsLvhETAJsMvhETAJsNvhETAJsOvhETAJsPvhETAJsQvhIUAJsRvhIUAJsSvhIUAJsTvhIUAJsUvhMUAJsVvhMUAJsWvhMVAJsXvhMVAJsYvhMVAJsZvhQWAJsavhQWAJsevhUXAJsfvhUXAJsgvhUXAJsivhYYAJsjvhcZAJskvhkbAJslvwgKAJsnvw0PAJsovw4QAJspvxASAJsqvxIUAJsrvxQVAJstvxYYAJsuvxkbAJsvwAgKAJsxwBsdAJsywQgKAJszwQ4QAJs0wQ8RAJs1wRASAJs3wRETAJs5wRMVAJs6wRMVAJs7wRQWAJs8wggJAJs+wgwNAJs/wgwNAJtAwgwNAJtBwgwNAJtCwgwNAJtDwg0OAJtEwg0OAJtFwg0OAJtGwg0OAJtHwg4PAJtIwg8QAJtJwg8QAJtKwhARAJtLwhARAJtMwhARAJtNwhARAJtOwhARAJtPwhARAJtQwhITAJtRwhMTAJtSwhMUAJtUwhMUAJtVwhQVAJtWwhQUAJtYwhYXAJtZwhYXAJtawwgLAJtbwwoNAJtfwwsOAJtgwwsOAJthwwsOAJtkwwwPAJtmwwwPAJtnwwwPAJtowwwPAJtpwwwPAJtswwwPAJtvwwwPAJtwwwwPAJtxwwwPAJtywwwPAJt0wwwPAJt1wwwPAJt2wwwPAJt3wwwPAJt6ww0QAJt7ww0QAJt8ww0QAJt9ww0QAJt+ww0QAJt/ww0QAJuAww0QAJuBww0QAJuCww0QAJuDww0QAJuFww0QAJuGww0RAJuHww0QAJuIww0QAJuLww0QAJuNww0QAJuOww0QAJuPww0QAJuQww0QAJuRww0QAJuSww0QAJuTww0QAJuVww0QAJuWww0QAJuXww0QAJuaww4RAJubww4RAJudww4RAJueww4RAJufww4RAJugww4RAJuhww4RAJuiww4RAJukww4RAJulww4RAJumww4RAJuoww4RAJuqww4RAJurww4RAJutww4RAJuuww4RAJuvww4RAJuwww4RAJuxww4RAJu0ww4RAJu1ww8SAJu2ww8SAJu4ww8SAJu5ww8SAJu7ww8SAJu9ww8SAJu/ww8SAJvAww8SAJvBww8SAJvDww8SAJvEww8SAJvGww8SAJvHww8SAJvIww8RAJvJww8SAJvKww8SAJvPww8SAJvRww8SAJvSww8SAJvTww8SAJvUwxATAJvVwxATAJvWwxATAJvXwxASAJvZwxATAJvawxATAJvbwxATAJvcwxATAJvdwxATAJvewxATAJvgwxATAJvhwxATAJviwxATAJvjwxATAJvkwxATAJvlwxATAJvmwxATAJvnwxATAJvowxATAJvpwxATAJvqwxATAJvrwxATAJvswxATAJvtwxATAJvwwxATAJvxwxATAJvywxATAJv0wxATAJv1wxATAJv3wxEUAJv4wxEUAJv9ww8SAJv/wxEUAJwAwxEUAJwCwxEUAJwEwxEUAJwFwxEUAJwGwxEUAJwHwxEUAJwIwxEUAJwJwxEUAJwKwxEUAJwLwxEUAJwMwxEUAJwNwxEUAJwOwxETAJwQwxEUAJwSwxEUAJwTwxEUAJwUwxEUAJwVwxEUAJwXwxEUAJwbwxEUAJwcwxIVAJwdwxIVAJwfwxIVAJwgwxEUAJwhwxIVAJwjwxIVAJwkwxIVAJwlwxIVAJwmwxIUAJwowxIVAJwpwxIVAJwrwxIVAJwswxIVAJwtwxIVAJwuwxIVAJwvwxIVAJwwwxIUAJwxwxMVAJwywxMVAJwzwxMWAJw0wxMWAJw1wxMWAJw2wxMWAJw3wxMVAJw5wxMWAJw6wxMWAJw7wxMWAJw8wxMWAJw9wxMWAJw+wxMWAJw/wxMWAJxAwxMUAJxBwxMVAJxEwxMWAJxFwxMWAJxGwxMWAJxHwxMWAJxIwxMWAJxJwxQWAJxKwxQXAJxLwxQWAJxMwxQWAJxNwxQXAJxOwxQXAJxPwxQXAJxQwxQYAJxSwxQXAJxTwxQXAJxUwxQXAJxVwxQXAJxWwxQXAJxXwxQXAJxYwxQXAJxZwxQXAJxawxQXAJxdwxUXAJxewxUYAJxfwxUYAJxgwxUYAJxiwxUYAJxjwxUYAJxmwxUYAJxnwxUYAJxowxYZAJxpwxUYAJxtwxYZAJxuwxYYAJxxwxcZAJxywxcaAJxzwxcaAJx0wxcZAJx1wxcaAJx2wxcZAJx3wxgbAJx4wxgbAJx5wxocAJx6wxseAJx7wx4hAJx8w4gIAJx/w4wMAJyBw4wMAJyCw4wMAJyFw40NAJyGw40NAJyHw40NAJyIw40NAJyLw40NAJyNw40NAJyOw40NAJyQw40NAJyRw44OAJySw44OAJyUw44OAJyVw44OAJyXw44OAJyaw44OAJybw44OAJycw44OAJyew44OAJyfw44OAJygw48PAJyhw48PAJyiw48PAJyjw48PAJykw48PAJylw48PAJymw48PAJynw48PAJyow48PAJypw48PAJyrw48PAJytw5AQAJyuw5AQAJyww5AQAJyxw5AQAJyyw5AQAJyzw5AQAJy0w5AQAJy1w5AQAJy2w5AQAJy3w5AQAJy4w5AQAJy6w5AQAJy7w5AQAJy8w5ERAJy9w5ERAJzDw5ERAJzEw5ERAJzFw5ERAJzGw5ERAJzHw5ERAJzKw5ERAJzLw5ERAJzMw5ISAJzNw5ISAJzOw5ISAJzPw5ISAJzQw5ISAJzTw5MTAJzUw5MTAJzVw5MTAJzWw5MTAJzXw5MTAJzYw5MTAJzZw5MTAJzcw5QUAJzdw5QUAJzew5QUAJzfw5QUAJziw5UVAJzlxAgLAJzmxAkMAJznxAoNAJzpxAoNAJzqxAoNAJzrxAoNAJzsxAoJAJztxAoNAJzwxAoNAJzxxAsOAJzyxAsOAJzzxAsOAJz0xAsOAJz1xAsOAJz2xAsOAJz3xAwPAJz5xAwPAJz6xAwPAJz7xAwPAJz8xAwPAJz9xAwPAJz/xAwPAJ0AxAwPAJ0CxAwPAJ0DxAwPAJ0ExAwPAJ0FxAwPAJ0GxAwPAJ0HxAwPAJ0IxAwPAJ0JxAwPAJ0MxAwPAJ0OxAwPAJ0QxA0QAJ0SxA0QAJ0UxA0PAJ0VxA0QAJ0WxA0QAJ0XxA0QAJ0YxA0QAJ0ZxA0QAJ0bxA0QAJ0dxA0QAJ0exA0QAJ0fxA0QAJ0gxA0QAJ0hxA0QAJ0ixA0QAJ0jxA0QAJ0lxA0QAJ0mxA0QAJ0oxA0QAJ0pxA0QAJ0qxA0QAJ0rxA0QAJ0sxA0QAJ0txA4RAJ0uxA4RAJ0vxA4RAJ0wxA4RAJ0xxA4QAJ0zxA4RAJ00xA4RAJ02xA4RAJ03xA4RAJ04xA4RAJ05xA4RAJ07xA4RAJ09xA4RAJ0+xA4RAJ0/xA4RAJ1AxA4RAJ1BxA4RAJ1CxA4RAJ1DxA4RAJ1ExA4RAJ1FxA4RAJ1GxA4RAJ1HxA4RAJ1IxA4RAJ1JxA4RAJ1KxA8SAJ1LxA8SAJ1MxA8SAJ1OxA8SAJ1PxA8SAJ1QxA8SAJ1RxA8SAJ1SxA8SAJ1TxA8SAJ1UxA8SAJ1WxA8QAJ1XxA8SAJ1YxA8SAJ1ZxA8SAJ1axA8SAJ1bxA8SAJ1cxA8SAJ1dxA8SAJ1exA8SAJ1fxA8SAJ1gxA8SAJ1hxA8TAJ1klBMSAJ1lxA8SAJ1nxBARAJ1oxBATAJ1pxBATAJ1qxBATAJ1rxBATAJ1sxBATAJ1txBATAJ1uxBATAJ1vxBATAJ1wxBATAJ1xxBATAJ1yxBATAJ1zxBATAJ10xBATAJ11xBATAJ13xBATAJ14xBATAJ15xBATAJ16xBATAJ17xBATAJ18xBATAJ19xBATAJ1+xBATAJ1/xBATAJ2AxBATAJ2BxBATAJ2CxBATAJ2DxBATAJ2ExBATAJ2FxBATAJ2GxBATAJ2HxBATAJ2IxBATAJ2JxBATAJ2KxBATAJ2LxBATAJ2MxBATAJ2PxBATAJ2QxBETAJ2SxBEUAJ2TxBETAJ2UxBEUAJ2WxBEUAJ2XxBEUAJ2YxBEUAJ2ZxBEUAJ2axBEUAJ2bxBEUAJ2cxBETAJ2dxBEUAJ2exBEUAJ2fxBEUAJ2gxBEUAJ2hxBEUAJ2ixBEUAJ2jxBEUAJ2kxBEUAJ2lxBEUAJ2mxBEUAJ2nxBETAJ2oxBEUAJ2pxBEUAJ2qxBEUAJ2rxBEUAJ2sxBIVAJ2txBIVAJ2vxBIVAJ2xxBIVAJ2yxBIVAJ2zxBIVAJ20xBIVAJ21xBIVAJ22xBIVAJ23xBIVAJ24xBIVAJ25xBIVAJ26xBIVAJ27xBIUAJ28xBIVAJ29xBIVAJ2+xBIVAJ2/xBIUAJ3AxBIUAJ3BxBIVAJ3CxBIVAJ3DxBIVAJ3ExBIVAJ3FxBIVAJ3GxBIVAJ3HxBIVAJ3IxBIVAJ3JxBIVAJ3KxBIVAJ3LxBMVAJ3MxBIVAJ3NxBIVAJ3OxBIVAJ3PxBIVAJ3QxBMWAJ3RxBMWAJ3SxBMWAJ3TxBMWAJ3UxBMVAJ3VxBMWAJ3WxBMWAJ3XxBMWAJ3YxBMWAJ3ZxBMWAJ3axBMWAJ3bxBMWAJ3cxBMWAJ3dxBMVAJ3exBMWAJ3fxBMWAJ3hxBQXAJ3ixBQXAJ3jxBQXAJ3kxBQXAJ3lxBQXAJ3mxBQXAJ3oxBQVAJ3pxBQWAJ3rxBQYAJ3sxBQWAJ3txBQXAJ3uxBQXAJ3vxBQXAJ3wxBQXAJ3yxBQXAJ3zxBQXAJ30xBQXAJ31xBQWAJ32xBQXAJ33xBQXAJ34xBQXAJ35xBUYAJ36xBQYAJ37xBQXAJ38xBQXAJ39xBUYAJ3+xBUYAJ3/xBUYAJ4AxBUYAJ4BxBUYAJ4CxBUYAJ4DxBUYAJ4ExBUYAJ4FxBUYAJ4GxBUYAJ4HxBUYAJ4JxBUYAJ4KxBUYAJ4LxBYZAJ4MxBYYAJ4NxBYZAJ4OxBYZAJ4PxBYYAJ4QxBYZAJ4RxBYZAJ4SxBYYAJ4TxBcaAJ4UxBcaAJ4VxBgbAJ4XxBgbAJ4YxBkcAJ4ZxBkcAJ4axBkcAJ4bxBocAJ4cxBodAJ4dxBseAJ4exBseAJ4fxIgFAJ4gxIoHAJ4hxIoHAJ4ixIsIAJ4jxIsIAJ4lxIwJAJ4mxIwJAJ4oxIwJAJ4pxIwJAJ4qxI0KAJ4rxI0KAJ4sxI0KAJ4txI0KAJ4vxI0KAJ4xxI0KAJ4yxI0KAJ4zxI0KAJ41xI0KAJ42xI0KAJ43xI4LAJ44xI4LAJ45xI4LAJ46xI4LAJ49xI4LAJ4+xI4LAJ4/xI4LAJ5BxI8MAJ5CxI8MAJ5DxI8MAJ5ExI8MAJ5FxI8MAJ5GxI8MAJ5HxI8MAJ5IxI8MAJ5JxJANAJ5KxJANAJ5LxJANAJ5MxJANAJ5OxJANAJ5PxJANAJ5RxJANAJ5VxJEOAJ5XxJEOAJ5YxJIOAJ5axJEOAJ5bxJEOAJ5cxJEOAJ5exJIPAJ5jxJIPAJ5kxJIPAJ5mxJMQAJ5nxJMQAJ5oxJMQAJ5pxJQRAJ5qxJQRAJ5rxJQRAJ5sxJQRAJ5txJUSAJ5wxJUSAJ5xxJYSAJ5zxJkWAJ51xQgLAJ54xRATAJ55xREUAJ56xRIUAJ57xRIVAJ58xRUYAJ59xRUYAJ5+xZEQAJ5/xggLAJ6AxgoNAJ6BxgoNAJ6CxgoNAJ6DxgwPAJ6ExgwPAJ6Fxg0QAJ6Gxg0QAJ6Hxg0QAJ6Ixg0QAJ6Jxg4RAJ6Kxg4RAJ6Lxg4RAJ6Mxg8SAJ6Nxg8SAJ6Oxg8SAJ6Qxg8SAJ6RxhATAJ6SxhATAJ6TxhATAJ6UxhATAJ6VxhATAJ6WxhATAJ6XxhATAJ6YxhEUAJ6ZxhEUAJ6axhEUAJ6bxhEUAJ6cxhIVAJ6dxhIVAJ6exhMWAJ6fxhQXAJ6gxhUYAJ6hxhYZAJ6ixhkcAJ6kxh4hAJ6lxwgLAJ6mx4gHAJ6nxwsOAJ6oxwwPAJ6pxwwPAJ6qxwwPAJ6rxwwPAJ6sxw0QAJ6txw0QAJ6uxw0QAJ6vxw4RAJ6wxw4RAJ6xxw8SAJ60xxATAJ61xxEUAJ62xxMVAJ63xxodAJ64x4wLAJ65x5APAJ66x5EQAJ67yAgLAJ68yAsOAJ69yAsOAJ6+yAwPAJ6/yA8RAJ7AyBATAJ7ByBEUAJ7CyBUXAJ7DyQgMAJ7EyQgLAJ7GyQwPAJ7HyQ0QAJ7IyQ0QAJ7JyQ0QAJ7MyRUYAJ7NyggMAJ7OygsPAJ7Pyg0RAJ7QyhIWAJ7RywgMAJ7SywgLAJ7TywsPAJ7UywwQAJ7VywwQAJ7WywwQAJ7YywwQAJ7ZVhMPAJ7ayw0RAJ7byw0RAJ7cyw0RAJ7dyw0RAJ7eyw0RAJ7fyw4SAJ7gyw4SAJ7iyw8TAJ7kyxAUAJ7lyxAUAJ7myxAUAJ7nyxAUAJ7oyxAUAJ7pyxAUAJ7qyxAUAJ7ryxEVAJ7tyxEVAJ7uyxEVAJ7vyxEVAJ7wyxIWAJ7xyxIWAJ7yyxMXAJ7zyxMXAJ70yxMXAJ71yxUZAJ72yxYaAJ73yxcbAJ74yxgcAJ75zAgMAJ76zAwQAJ77zA0RAJ78zA8TAJ79zQgNAJ7+zYgIAJ7/zQwRAJ8AzQ0SAJ8BzQ0SAJ8CzQ0SAJ8GzRIXAJ8HzRIXAJ8IzRQYAJ8JzRQZAJ8KzRUaAJ8LzYwMAJ8NzZQUAJ8OzggMAJ8PzgoOAJ8QzgoOAJ8SzgsPAJ8TzwgNAJ8Vzw0SAJ8Wzw0SAJ8Xzw4TAJ8YzxAWAJ8ZzxAVAJ8azxAVAJ8bzxAVAJ8czxIWAJ8ezxMYAJ8g0AgNAJ8h0AgIAJ8i0AwRAJ8j0AwRAJ8k0AwRAJ8l0A0SAJ8m0A0SAJ8n0A0SAJ8o0A0SAJ8p0A0SAJ8q0A0SAJ8r0A0SAJ8s0A0SAJ8t0A4TAJ8u0A8TAJ8v0A8UAJ8w0A8UAJ8x0BAVAJ8y0BEWAJ8z0BEWAJ800BEWAJ810BEWAJ820BIXAJ830BIXAJ840BIXAJ850BIXAJ870QgOAJ890QoQAJ8+0QsRAJ9A0Q0SAJ9B0Q0TAJ9C0RAWAJ9D0REXAJ9E0REXAJ9F0RIYAJ9G0RIYAJ9H0RMZAJ9I0RUbAJ9J0R4kAJ9K0ggOAJ9L0gsRAJ9M0gwSAJ9N0g0TAJ9O0g8VAJ9P0hEXAJ9Q0ogGAJ9R0pEPAJ9S0wgPAJ9T0wkQAJ9U0woRAJ9V0wsSAJ9W0wwTAJ9X0wwTAJ9Y0wwTAJ9Z0w0UAJ9a0w0UAJ9b0w0UAJ9c0w0VAJ9d0w0UAJ9e0w0UAJ9f0w0UAJ9g0w0UAJ9h0w0UAJ9i0w0RAJ9j0w0UAJ9k0w4VAJ9l0w4VAJ9m0w4VAJ9n0w4VAJ9p0w4VAJ9q0w8WAJ9r0w8WAJ9s0w8WAJ9u0xAXAJ9v0xAXAJ9w0xAXAJ9x0xAXAJ9y0xEYAJ900xEYAJ910xEYAJ920xEYAJ930xEYAJ940xIZAJ950xIYAJ960xIZAJ970xIZAJ9+0xwjAJ9/04gIAJ+A04oKAJ+D040NAJ+E040NAJ+F040NAJ+G040NAJ+H044OAJ+I044OAJ+J048PAJ+K048PAJ+L05ERAJ+M05ERAJ+N1AgQAJ+O1AoSAJ+QNRgTAJ+R1AwUAJ+S1A0VAJ+U1A4WAJ+V1A4WAJ+W1BggAJ+X1BkhAJ+Y1CgwAJ+Z1IgFAJ+a1I4LAJ+b1I4LAJ+c1QgRAJ+d1Q0WAJ+f1YgHAJ+g1ggRAJ+i1g0WAJ+k1hEaAJ+l1hEaAJ+mVhMPAJ+nSBQQAJ+oFhAKAJ+pjBURAJ+qnAoJAJ+rnw0MAJ+spxAQAJ+tuxMVAJ+uuxkbAJ+vpw0NAJ+wTQgEAJ+xHwoFAJ+ypxISAJ+zIBUQAJ/HCQ4IAJ/IPAwHAJ/JPAwHAJ/KjA8LAJ/LkRQRAPkAlwsKAPkBSQsHAPkCnwgHAPkDmg4NAPkEVRINAPkFAg4HAPkGHgoFAPkH1QgQAPkI1QgQAPkJJQ4JAPkKpwgIAPkLHhEMAPkMJQ0IAPkNPRgTAPkOaBgVAPkPehYTAPkQjBsZAPkRjhMRAPkSkRAOAPkTohsXAPkUSxMPAPkVVQ4JAPkWVg4KAPkXYA4KAPkYjBEPAPkZpA4NAPkauw4QAPkbBRQNAPkcGg0HAPkdSxkVAPkeVhkVAPkfjBkXAPkgxBseAPkhLhEMAPkiVRYRAPkjjBYUAPkkkRYUAPklQA0IAPkmghcTAPknjhcVAPkoNRENAPkpSg8KAPkqVQ8KAPkrXg8KAPksow4KAPktCQ4IAPkuDw0HAPkvExIMAPkwQBUQAPkxSxcTAPkyVhgUAPkzbBMQAPk0fQgGAPk1jBgWAPk2jQ4MAPk3nQ4NAPk4rRQUAPk5wwwPAPk6xBQXAPk7cBANAPk8cRANAPk9eBAOAPk+jBAOAPk/pxAQAPlAxggLAPlBlRAPAPlCIBgTAPlDNwwHAPlEdhgWAPlFgBgWAPlGXQsHAPlHcBIPAPlImg4NAPlJrQ0NAPlKIBcSAPlLLBMOAPlMSxMPAPlNVRALAPlOVRMOAPlPeA0LAPlQeBMRAPlRqg4JAPlSExELAPlTggoGAPlUDxUPAPlVDxAKAPlWcxANAPlXeBAOAPlYjBAOAPlZqhALAPlalRcWAPlbQA0IAPlcSxMPAPldlREQAPleAwsEAPlfKBMOAPlgPQ0IAPlhXw4LAPliZg8MAPljFQsFAPlkcBQRAPllCQ8JAPlmPBEMAPlnAQsEAPloVQ0IAPlpQhMPAPlqeAwKAPlrHBELAPlsIBINAPltbQwJAPlujBEPAPlvlQ8OAPlwTw8LAPlxoQgHAPlyVQwHAPlzQA4JAPl0jA0LAPl1QBALAPl2Zg4LAPl3CA8JAPl4Cw4IAPl5DxAKAPl6Sw8LAPl7dxQSAPl8igkHAPl9lRAPAPl+pg0MAPl/ExcRAPmAHgwHAPmBJggDAPmCNRgTAPmDRg4KAPmEVRcSAPmFcBcUAPmGqQ8PAPmHuxsdAPmIxhATAPmJygsPAPmKEwgCAPmLSBQQAPmMTRQQAPmNnxcWAPmOMwsGAPmPPRQPAPmQPRsWAPmRQBQPAPmSVRMOAPmTVhENAPmUYBMPAPmVcwsIAPmWeBEPAPmXgBMRAPmYnxAPAPmZjBMRAPmaog8LAPmbpxERAPmcEgwGAPmdEwwGAPmeHg4JAPmfVg4KAPmgkQ4MAPmhlQ8OAPmiNRINAPmjPQwHAPmkQBALAPmlThURAPmmdhUTAPmnXhcSAPmoCQsFAPmpHw0IAPmqKBMOAPmrLhYRAPmsPQ0IAPmtYA0JAPmuYBIOAPmvew0LAPmwgA0LAPmxpw0NAPmyrQ0NAPmzrRgYAPm0tQ0OAPm1CQ4IAPm2cRUSAPm3pBUUAPm4qxEQAPm5PRALAPm6BgkCAPm7CRQOAPm8KBQPAPm9LAwHAPm+RA4KAPm/SxMPAPnAVhQQAPnBaBQRAPnCjBMRAPnDohQQAPnE1AgQAPnFSBENAPnGqgwHAPnHEhUPAPnISwwIAPnJSw0JAPnKVQ4KAPnLVRINAPnMYA4LAPnNZg0KAPnOcA8MAPnPeAwKAPnQtRITAPnRDAoEAPnSPhMPAPnTqhALAPnUCRAKAPnVLhALAPnWVRALAPnXnxAPAPnYPA4JAPnZPRINAPnaSw4KAPnbXw4LAPncqhEMAPndEg0HAPneHgsGAPnfLBQPAPngSAwIAPnhSwsHAPniSw8LAPnjVQ0IAPnkYA8LAPnlaA8MAPnmehMQAPnnkQ8NAPnokQ8NAPnppggHAPnqrBMTAPnrFxELAPnsVRINAPntHgwHAPnuVhQQAPnvYBQQAPnwjBgWAPnxqhQPAPnywxQXAPnzxhQXAPn0SwwIAPn1VRALAPn2gxMRAPn3dQgFAPn4dg0LAPn5dw0LAPn6XgwHAPn7VgwIAPn8lRQTAPn9CQoEAPn+jA4MAPn/Eg4IAPoAEgoEAPoBNQ4JAPoCQA0IAPoDdxIQAPoEKAsGAPoFVQ4JAPoGSBMPAPoHnxEQAPoIkAgGAPoJqg4JAPoKkwgHAPoLNRMOAPoMCgkDAPoNHhINAPoOHRMNAPoPIA8KAPoQIBINAPoRLhEMAPoSSBAMAPoTSxENAPoUSxIOAPoVDxYPAPoWXhALAPoXbA0KAPoYcQkGAPoZcQ0KAPoacQ4LAPobcREOAPocrg0NAPoddxAOAPoefAgGAPofjBUTAPogjBkbAPohjg0LAPoilREQAPojnAwLAPokogwIAPolohAMAPomoxEMAPonpw8PAPoopxAQAPopqhINAPoquAwNAPoruA0OAPosuBARAPotxBIW";
+export const UNIHAN_COUNT = 18728;
@@ -0,0 +1,102 @@
+import { useEffect, useRef, useState } from 'react';
+import ConversionWorker from './conversion.worker?worker';
+import {
+  runConversion,
+  EMPTY_CONVERSION,
+  type ConversionRequest,
+  type ConversionResult,
+  type WorkerResponse,
+} from './conversion';
+
+// ─── 背景轉換 ─────────────────────────────────────────────────────────────────
+//
+//  把轉換交給 Web Worker，主執行緒只負責輸入與繪製。短文字立即送出，
+//  長文字等停止輸入 DEBOUNCE_MS 後才送；等待期間沿用上一次的結果。
+//  Worker 載入失敗或轉換時丟出例外，就停用 Worker，改在主執行緒轉換；主執行緒也失敗時
+//  清空結果並回傳 error，由畫面顯示。
+//  Worker 建置成獨立的 chunk，單檔 index.html 不必再內嵌一份對照表。
+//
+const SMALL_INPUT = 20_000;
+const DEBOUNCE_MS = 200;
+
+export function useConversion(request: ConversionRequest): {
+  result: ConversionResult;
+  pending: boolean;
+  /** 轉換失敗的原因；成功時為空字串 */
+  error: string;
+} {
+  const [result, setResult] = useState<ConversionResult>(EMPTY_CONVERSION);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState('');
+  const workerRef = useRef<Worker | null>(null);
+  const latestId = useRef(0);
+  const latestRequest = useRef(request);
+
+  const convertHere = (request: ConversionRequest) => {
+    try {
+      setResult(runConversion(request));
+      setError('');
+    } catch (reason) {
+      setResult(EMPTY_CONVERSION);
+      setError(reason instanceof Error ? reason.message : String(reason));
+    } finally {
+      setPending(false);
+    }
+  };
+
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return;
+    let worker: Worker;
+    try {
+      worker = new ConversionWorker();
+    } catch {
+      return;
+    }
+    const fallBack = () => {
+      worker.terminate();
+      if (workerRef.current === worker) workerRef.current = null;
+      convertHere(latestRequest.current);
+    };
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      if ('error' in event.data) {
+        fallBack();
+        return;
+      }
+      if (event.data.id !== latestId.current) return;
+      setResult(event.data.result);
+      setError('');
+      setPending(false);
+    };
+    worker.onerror = event => {
+      event.preventDefault();
+      fallBack();
+    };
+    worker.onmessageerror = fallBack;
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const id = ++latestId.current;
+    latestRequest.current = request;
+    const send = () => {
+      if (workerRef.current) {
+        workerRef.current.postMessage({ id, request });
+      } else {
+        convertHere(request);
+      }
+    };
+    setPending(true);
+    if (request.input.length < SMALL_INPUT) {
+      send();
+      return;
+    }
+    const timer = setTimeout(send, DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [request]);
+
+  return { result, pending, error };
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+
+// ─── 連線狀態 ─────────────────────────────────────────────────────────────────
+//
+//  跟著瀏覽器的 online / offline 事件更新；離線時轉換照常，只有 /api 功能暫停。
+//
+export function useOnlineStatus(): boolean {
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return online;
+}
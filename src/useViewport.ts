@@ -0,0 +1,28 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Viewport } from './virtualRows';
+
+// ─── 捲動容器尺寸 ─────────────────────────────────────────────────────────────
+//
+//  回傳的 ref 掛在捲動容器上；容器捲動或改變大小時更新 Viewport，
+//  再交給 visibleRange 算出要繪製的列。
+//
+export function useViewport() {
+  const ref = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState<Viewport>({ scrollTop: 0, width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const update = () =>
+      setViewport({ scrollTop: element.scrollTop, width: element.clientWidth, height: element.clientHeight });
+    const observer = new ResizeObserver(update);
+    element.addEventListener('scroll', update, { passive: true });
+    observer.observe(element);
+    return () => {
+      element.removeEventListener('scroll', update);
+      observer.disconnect();
+    };
+  }, []);
+
+  return { ref, viewport };
+}
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { encode } from './codec';
+import { visibleRange, layoutBlockRows } from './virtualRows';
+
+test('visibleRange renders only the rows in view plus overscan', () => {
+  const viewport = { scrollTop: 1000, width: 600, height: 200 };
+  assert.deepEqual(visibleRange(10_000, 20, viewport, 5), { start: 45, end: 65, offset: 900, totalHeight: 200_000 });
+  assert.deepEqual(visibleRange(3, 20, viewport, 5), { start: 3, end: 3, offset: 60, totalHeight: 60 });
+  assert.deepEqual(visibleRange(0, 20, { scrollTop: 0, width: 0, height: 0 }), {
+    start: 0,
+    end: 0,
+    offset: 0,
+    totalHeight: 0,
+  });
+});
+
+test('layoutBlockRows wraps lines and keeps empty lines', () => {
+  const { lines } = encode('中文字\n\n一');
+  const rows = layoutBlockRows(lines, 2);
+  assert.deepEqual(
+    rows.map(({ line, start, chars }) => [line, start, chars.map(c => c.char).join('')]),
+    [
+      [0, 0, '中文'],
+      [0, 2, '字'],
+      [1, 0, ''],
+      [2, 0, '一'],
+    ]
+  );
+  assert.equal(layoutBlockRows(lines, 0).length, 5);
+});
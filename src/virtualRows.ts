@@ -0,0 +1,47 @@
+import type { EncodedChar } from './codec';
+
+// ─── 虛擬捲動 ─────────────────────────────────────────────────────────────────
+//
+//  輸出區只繪製可見範圍內的列（前後各多 overscan 列），其餘以內層高度撐出捲軸。
+//  所有列等高，因此不必量測每一列。
+//
+export interface Viewport {
+  scrollTop: number;
+  /** 容器內容寬度（不含捲軸） */
+  width: number;
+  height: number;
+}
+
+export interface VisibleRange {
+  start: number;
+  end: number;
+  /** 第一個繪製列的位移（px） */
+  offset: number;
+  totalHeight: number;
+}
+
+export function visibleRange(count: number, rowHeight: number, viewport: Viewport, overscan = 8): VisibleRange {
+  const start = Math.min(count, Math.max(0, Math.floor(viewport.scrollTop / rowHeight) - overscan));
+  const end = Math.min(count, Math.ceil((viewport.scrollTop + viewport.height) / rowHeight) + overscan);
+  return { start, end: Math.max(start, end), offset: start * rowHeight, totalHeight: count * rowHeight };
+}
+
+/** 方塊字的一列：第 line 行從第 start 字起的一段 */
+export interface BlockRow {
+  line: number;
+  start: number;
+  chars: EncodedChar[];
+}
+
+/** 依每列可放的格數把各行折成視覺列，空行也占一列 */
+export function layoutBlockRows(lines: EncodedChar[][], perRow: number): BlockRow[] {
+  const size = Math.max(1, perRow);
+  const rows: BlockRow[] = [];
+  lines.forEach((chars, line) => {
+    if (chars.length === 0) rows.push({ line, start: 0, chars });
+    for (let start = 0; start < chars.length; start += size) {
+      rows.push({ line, start, chars: chars.slice(start, start + size) });
+    }
+  });
+  return rows;
+}
@@ -1,11 +1,49 @@
 import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
+import { createHash } from 'crypto';
+import fs from 'fs';
 import path from 'path';
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
 import { viteSingleFile } from 'vite-plugin-singlefile';
+import { cacheVersion, serviceWorkerSource, SERVICE_WORKER_PATH } from './src/offline';
+
+// Emit dist/sw.js with a cache version that changes whenever the bundle, the public files
+// or the Big5 tables change, and the list of files to precache for offline use
+function serviceWorker(): Plugin {
+  const publicDir = path.resolve(__dirname, 'public');
+  return {
+    name: 'ggdove-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle: {
+      order: 'post',
+      handler(_, bundle) {
+        const hash = createHash('sha256');
+        const bundled = Object.keys(bundle).sort();
+        for (const name of bundled) {
+          const item = bundle[name];
+          hash.update(name).update(item.type === 'chunk' ? item.code : item.source);
+        }
+        const publicFiles = fs.existsSync(publicDir) ? fs.readdirSync(publicDir).sort() : [];
+        for (const name of publicFiles) {
+          hash.update(name).update(fs.readFileSync(path.join(publicDir, name)));
+        }
+        const template = fs.readFileSync(path.resolve(__dirname, 'src/sw.js'), 'utf8');
+        this.emitFile({
+          type: 'asset',
+          fileName: SERVICE_WORKER_PATH,
+          source: serviceWorkerSource(template, {
+            version: cacheVersion(hash.digest('hex')),
+            assets: [...bundled, ...publicFiles],
+          }),
+        });
+      },
+    },
+  };
+}
 
 export default defineConfig({
-  plugins: [react(), tailwindcss(), viteSingleFile()],
+  plugins: [react(), tailwindcss(), viteSingleFile(), serviceWorker()],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, '.'),